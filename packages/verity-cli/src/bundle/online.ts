@@ -0,0 +1,113 @@
+/**
+ * Verity CLI — Online Bundle Lookups
+ *
+ * The only network access `verify-bundle` performs, and only without
+ * --offline: the platform's active issuer key and the live revocation
+ * status of each bundled attestation.
+ *
+ * NEVER throws — failed lookups come back as null so the report can show
+ * them as skipped checks.
+ */
+
+import { toRawEd25519Key } from "../utils/key-loader.js";
+import type { OnlineStatus, TrustedIssuerKey } from "./types.js";
+
+export const DEFAULT_SERVER_URL = "https://www.caelex.eu";
+
+const TIMEOUT_MS = 10_000;
+
+/**
+ * Fetch the platform's currently active issuer key.
+ *
+ * @param serverUrl - Platform base URL
+ * @returns The active key, or null if unavailable
+ */
+export async function fetchActiveIssuerKey(
+  serverUrl: string,
+): Promise<TrustedIssuerKey | null> {
+  try {
+    const response = await fetch(
+      new URL("/api/v1/verity/public-key", serverUrl).toString(),
+      {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      },
+    );
+    if (!response.ok) return null;
+
+    const body = (await response.json()) as {
+      active_key?: { key_id?: unknown; public_key?: unknown } | null;
+    };
+    const key = body.active_key;
+    if (typeof key?.key_id !== "string" || typeof key.public_key !== "string") {
+      return null;
+    }
+    return {
+      keyId: key.key_id,
+      publicKey: toRawEd25519Key(key.public_key),
+      source: "server",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch live status for each attestation, one request at a time (the
+ * public status endpoint is rate-limited per IP).
+ *
+ * @param attestationIds - Attestations to look up
+ * @param serverUrl - Platform base URL
+ * @returns Status per attestation ID; null where the lookup failed
+ */
+export async function fetchAttestationStatuses(
+  attestationIds: string[],
+  serverUrl: string,
+): Promise<Map<string, OnlineStatus | null>> {
+  const statuses = new Map<string, OnlineStatus | null>();
+
+  for (const id of attestationIds) {
+    try {
+      const response = await fetch(
+        new URL(
+          `/api/v1/verity/attestation/status/${encodeURIComponent(id)}`,
+          serverUrl,
+        ).toString(),
+        {
+          headers: { Accept: "application/json" },
+          signal: AbortSignal.timeout(TIMEOUT_MS),
+        },
+      );
+      // 404 carries a body with status "unknown"
+      if (!response.ok && response.status !== 404) {
+        statuses.set(id, null);
+        continue;
+      }
+
+      const body = (await response.json()) as Record<string, unknown>;
+      const status = body["status"];
+      if (
+        status !== "valid" &&
+        status !== "revoked" &&
+        status !== "expired" &&
+        status !== "unknown"
+      ) {
+        statuses.set(id, null);
+        continue;
+      }
+      statuses.set(id, {
+        status,
+        revokedAt:
+          typeof body["revokedAt"] === "string" ? body["revokedAt"] : null,
+        revocationReason:
+          typeof body["revocationReason"] === "string"
+            ? body["revocationReason"]
+            : null,
+      });
+    } catch {
+      statuses.set(id, null);
+    }
+  }
+
+  return statuses;
+}
@@ -0,0 +1,149 @@
+/**
+ * Verity CLI — Regulator Bundle Types
+ *
+ * The subset of the platform's `verity-bundle-v1` export that the CLI
+ * verifies. Mirrors the platform bundle format; fields the CLI does not
+ * check are typed loosely.
+ */
+
+import type { Rfc6962InclusionProof } from "@caelex/verity-transparency";
+
+export interface BundleAttestation {
+  attestation_id: string;
+  version: string;
+  claim: {
+    regulation_ref: string;
+    regulation_name: string;
+    threshold_type: "ABOVE" | "BELOW";
+    threshold_value: number;
+    result: boolean;
+    claim_statement: string;
+  };
+  subject: {
+    operator_id: string;
+    satellite_norad_id: string | null;
+  };
+  evidence: {
+    value_commitment: string;
+    source: string;
+    trust_level: string;
+    trust_range: string;
+    [key: string]: unknown;
+  };
+  issuer: {
+    name: string;
+    key_id: string;
+    public_key: string;
+    algorithm: string;
+  };
+  issued_at: string;
+  expires_at: string;
+  signature: string;
+  verification_url?: string;
+}
+
+export interface BundleCredential {
+  id: string;
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    regulation: { ref: string; thresholdType: string; thresholdValue: number };
+    complianceResult: boolean;
+    evidence: { commitmentHash: string };
+  };
+  proof: { verificationMethod: string; proofValue: string };
+}
+
+export interface BundleEntry {
+  attestation: BundleAttestation;
+  vc: BundleCredential;
+  inclusion: Rfc6962InclusionProof | null;
+  status: {
+    state: "valid" | "revoked" | "expired";
+    issuedAt: string;
+    expiresAt: string;
+    revokedAt: string | null;
+    revocationReason: string | null;
+  };
+}
+
+export interface BundleSignedTreeHead {
+  timestamp: string;
+  treeSize: number;
+  rootHash: string;
+  issuerKeyId: string;
+  signature: string;
+  version: "v1";
+}
+
+export interface BundleConsistencyLink {
+  fromSize: number;
+  toSize: number;
+  fromRoot: string;
+  toRoot: string;
+  proof: string[];
+}
+
+export interface BundleIssuerKey {
+  keyId: string;
+  publicKeyHex: string;
+  active: boolean;
+}
+
+export interface Bundle {
+  bundleVersion: string;
+  bundleId: string;
+  issuedAt: string;
+  operator: { id: string; name: string | null };
+  entries: BundleEntry[];
+  sth: BundleSignedTreeHead | null;
+  consistencyChain: BundleConsistencyLink[];
+  issuerKeys: BundleIssuerKey[];
+  [key: string]: unknown;
+}
+
+/** An issuer key the verifier trusts, and where that trust comes from. */
+export interface TrustedIssuerKey {
+  keyId: string;
+  /** Raw 32-byte Ed25519 key, hex */
+  publicKey: string;
+  source: "pinned" | "server" | "bundle";
+}
+
+/** Live status as reported by the platform's attestation status endpoint. */
+export interface OnlineStatus {
+  status: "valid" | "revoked" | "expired" | "unknown";
+  revokedAt: string | null;
+  revocationReason: string | null;
+}
+
+export interface BundleCheck {
+  name: string;
+  /** true=passed, false=failed, null=skipped */
+  passed: boolean | null;
+  detail?: string;
+}
+
+export type BundleEntryStatus = "VALID" | "INVALID" | "EXPIRED" | "REVOKED";
+
+export interface BundleEntryReport {
+  attestationId: string;
+  status: BundleEntryStatus;
+  checks: BundleCheck[];
+}
+
+export type BundleStatus = "VALID" | "INVALID" | "EXPIRED" | "PARTIALLY_VALID";
+
+export interface BundleReport {
+  bundleId: string;
+  bundleVersion: string;
+  operator: { id: string; name: string | null };
+  issuedAt: string;
+  verifiedAt: string;
+  mode: "offline" | "online";
+  status: BundleStatus;
+  /** Bundle-level checks: bundle ID, tree head, consistency chain */
+  checks: BundleCheck[];
+  entries: BundleEntryReport[];
+  warnings: string[];
+}
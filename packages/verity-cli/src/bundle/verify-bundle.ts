@@ -0,0 +1,541 @@
+/**
+ * Verity CLI — Regulator Bundle Verification
+ *
+ * Verifies a platform `verity-bundle-v1` export in one pass:
+ * bundle ID, signed tree head, consistency chain, and for every entry the
+ * attestation signature, the W3C credential binding, the RFC 6962
+ * inclusion proof, expiry and revocation status.
+ *
+ * Pure and synchronous — keys and live statuses are gathered by the caller,
+ * so offline verification never touches the network.
+ */
+
+import { createHash, createPublicKey, verify } from "node:crypto";
+import {
+  verifyRfc6962InclusionProof,
+  verifyRfc6962ConsistencyProof,
+} from "@caelex/verity-transparency";
+import {
+  attestationSigningBytes,
+  platformCanonicalJson,
+} from "../utils/canonical-json.js";
+import { ed25519SpkiDer, toRawEd25519Key } from "../utils/key-loader.js";
+import type {
+  Bundle,
+  BundleCheck,
+  BundleEntry,
+  BundleEntryReport,
+  BundleEntryStatus,
+  BundleReport,
+  BundleStatus,
+  OnlineStatus,
+  TrustedIssuerKey,
+} from "./types.js";
+
+export const SUPPORTED_BUNDLE_VERSION = "verity-bundle-v1";
+
+export interface VerifyBundleOptions {
+  trustedKeys: TrustedIssuerKey[];
+  mode: "offline" | "online";
+  /** Live statuses by attestation ID; null marks a failed lookup */
+  onlineStatus?: Map<string, OnlineStatus | null>;
+  now?: Date;
+}
+
+/**
+ * Verify every cryptographic claim in a bundle against trusted keys.
+ *
+ * @param bundle - Parsed bundle JSON
+ * @param opts - Trusted issuer keys, mode and optional live statuses
+ * @returns Full report with bundle-level and per-entry checks
+ */
+export function verifyBundle(
+  bundle: Bundle,
+  opts: VerifyBundleOptions,
+): BundleReport {
+  const now = opts.now ?? new Date();
+  const keys = new Map(opts.trustedKeys.map((k) => [k.keyId, k]));
+  const warnings: string[] = [];
+
+  for (const key of opts.trustedKeys) {
+    if (key.source === "bundle") {
+      warnings.push(
+        `Issuer key ${key.keyId} is trusted from the bundle itself — pin it with --pinned-keys for independent verification`,
+      );
+    }
+  }
+
+  const checks: BundleCheck[] = [
+    checkBundleId(bundle),
+    checkEmbeddedKeys(bundle, keys),
+    checkTreeHead(bundle, keys),
+    checkConsistencyChain(bundle),
+  ];
+
+  const entries = bundle.entries.map((entry) =>
+    verifyEntry(entry, bundle, keys, opts, now),
+  );
+
+  for (const entry of bundle.entries) {
+    if (!entry.inclusion) {
+      warnings.push(
+        `${entry.attestation.attestation_id} is not yet covered by a signed tree head`,
+      );
+    }
+    if (opts.onlineStatus?.get(entry.attestation.attestation_id) === null) {
+      warnings.push(
+        `Live status lookup failed for ${entry.attestation.attestation_id}`,
+      );
+    }
+  }
+
+  return {
+    bundleId: bundle.bundleId,
+    bundleVersion: bundle.bundleVersion,
+    operator: bundle.operator,
+    issuedAt: bundle.issuedAt,
+    verifiedAt: now.toISOString(),
+    mode: opts.mode,
+    status: overallStatus(checks, entries),
+    checks,
+    entries,
+    warnings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bundle-level checks
+// ---------------------------------------------------------------------------
+
+function checkBundleId(bundle: Bundle): BundleCheck {
+  const { bundleId, ...body } = bundle;
+  try {
+    const derived = createHash("sha256")
+      .update(platformCanonicalJson(body))
+      .digest("hex");
+    return derived === bundleId
+      ? { name: "Bundle ID", passed: true }
+      : {
+          name: "Bundle ID",
+          passed: false,
+          detail: "content does not hash to bundleId — bundle was modified",
+        };
+  } catch (err) {
+    return {
+      name: "Bundle ID",
+      passed: false,
+      detail: err instanceof Error ? err.message : "cannot canonicalise bundle",
+    };
+  }
+}
+
+/** Keys shipped in the bundle must not contradict the trusted ones. */
+function checkEmbeddedKeys(
+  bundle: Bundle,
+  keys: Map<string, TrustedIssuerKey>,
+): BundleCheck {
+  for (const embedded of bundle.issuerKeys ?? []) {
+    const trusted = keys.get(embedded.keyId);
+    if (!trusted) continue;
+    let raw: string;
+    try {
+      raw = toRawEd25519Key(embedded.publicKeyHex);
+    } catch {
+      return {
+        name: "Issuer Keys",
+        passed: false,
+        detail: `malformed key ${embedded.keyId}`,
+      };
+    }
+    if (raw !== trusted.publicKey) {
+      return {
+        name: "Issuer Keys",
+        passed: false,
+        detail: `bundle key ${embedded.keyId} differs from the ${trusted.source} key`,
+      };
+    }
+  }
+  return { name: "Issuer Keys", passed: true };
+}
+
+function checkTreeHead(
+  bundle: Bundle,
+  keys: Map<string, TrustedIssuerKey>,
+): BundleCheck {
+  const sth = bundle.sth;
+  if (!sth) {
+    return {
+      name: "Tree Head Signature",
+      passed: null,
+      detail: "no signed tree head yet",
+    };
+  }
+  const key = keys.get(sth.issuerKeyId);
+  if (!key) {
+    return {
+      name: "Tree Head Signature",
+      passed: false,
+      detail: `issuer key ${sth.issuerKeyId} is not trusted`,
+    };
+  }
+  // Field order is part of the signed bytes
+  const signed = Buffer.from(
+    JSON.stringify({
+      version: "v1",
+      timestamp: sth.timestamp,
+      treeSize: sth.treeSize,
+      rootHash: sth.rootHash,
+      issuerKeyId: sth.issuerKeyId,
+    }),
+    "utf8",
+  );
+  return {
+    name: "Tree Head Signature",
+    passed: verifyEd25519(signed, sth.signature, key.publicKey),
+    detail: `tree size ${sth.treeSize}`,
+  };
+}
+
+function checkConsistencyChain(bundle: Bundle): BundleCheck {
+  const chain = bundle.consistencyChain ?? [];
+  if (chain.length === 0) {
+    return {
+      name: "Consistency Chain",
+      passed: null,
+      detail: "only one tree head",
+    };
+  }
+
+  for (let i = 0; i < chain.length; i++) {
+    const link = chain[i]!;
+    const next = chain[i + 1];
+    if (
+      !verifyRfc6962ConsistencyProof(
+        link.proof,
+        link.fromSize,
+        link.toSize,
+        link.fromRoot,
+        link.toRoot,
+      )
+    ) {
+      return {
+        name: "Consistency Chain",
+        passed: false,
+        detail: `proof ${link.fromSize} → ${link.toSize} does not verify`,
+      };
+    }
+    if (
+      next &&
+      (next.fromSize !== link.toSize || next.fromRoot !== link.toRoot)
+    ) {
+      return {
+        name: "Consistency Chain",
+        passed: false,
+        detail: `gap between tree size ${link.toSize} and ${next.fromSize}`,
+      };
+    }
+  }
+
+  const last = chain[chain.length - 1]!;
+  if (
+    bundle.sth &&
+    (last.toSize !== bundle.sth.treeSize || last.toRoot !== bundle.sth.rootHash)
+  ) {
+    return {
+      name: "Consistency Chain",
+      passed: false,
+      detail: "chain does not end at the signed tree head",
+    };
+  }
+
+  return {
+    name: "Consistency Chain",
+    passed: true,
+    detail: `${chain.length} link(s), tree size ${chain[0]!.fromSize} → ${last.toSize}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Entry checks
+// ---------------------------------------------------------------------------
+
+function verifyEntry(
+  entry: BundleEntry,
+  bundle: Bundle,
+  keys: Map<string, TrustedIssuerKey>,
+  opts: VerifyBundleOptions,
+  now: Date,
+): BundleEntryReport {
+  const att = entry.attestation;
+  const checks: BundleCheck[] = [];
+  const key = keys.get(att.issuer?.key_id);
+
+  // Issuer key
+  let embeddedKey: string | null = null;
+  try {
+    embeddedKey = toRawEd25519Key(att.issuer.public_key);
+  } catch {
+    // reported below
+  }
+  if (!key) {
+    checks.push({
+      name: "Issuer Key",
+      passed: false,
+      detail: `key ${att.issuer?.key_id} is not trusted`,
+    });
+  } else if (embeddedKey !== key.publicKey) {
+    checks.push({
+      name: "Issuer Key",
+      passed: false,
+      detail: "attestation names a different public key",
+    });
+  } else {
+    checks.push({ name: "Issuer Key", passed: true, detail: key.source });
+  }
+
+  // Signature
+  let signingBytes: Buffer | null = null;
+  try {
+    signingBytes = attestationSigningBytes(
+      att as unknown as Record<string, unknown>,
+    );
+  } catch {
+    // reported below
+  }
+  if (!key) {
+    checks.push({
+      name: "Attestation Signature",
+      passed: null,
+      detail: "no trusted key",
+    });
+  } else {
+    checks.push({
+      name: "Attestation Signature",
+      passed:
+        signingBytes !== null &&
+        verifyEd25519(signingBytes, att.signature, key.publicKey),
+    });
+  }
+
+  // v2/v3 carry Pedersen / range proofs over ristretto255; the signature
+  // covers the commitment but the proofs need the platform verifier.
+  if (att.version !== "1.0") {
+    checks.push({
+      name: "Commitment Proof",
+      passed: null,
+      detail: `v${att.version} proof not re-verified offline`,
+    });
+  }
+
+  checks.push(checkCredential(entry));
+  checks.push(checkInclusion(entry, bundle, signingBytes));
+
+  // Expiry
+  const expired = new Date(att.expires_at).getTime() <= now.getTime();
+  checks.push({
+    name: "Expiry",
+    passed: !expired,
+    detail: expired ? `expired ${att.expires_at}` : `until ${att.expires_at}`,
+  });
+
+  // Revocation as recorded at bundle issue time
+  const revoked = entry.status?.state === "revoked";
+  checks.push({
+    name: "Revocation",
+    passed: !revoked,
+    detail: revoked
+      ? `revoked ${entry.status.revokedAt}${entry.status.revocationReason ? `: ${entry.status.revocationReason}` : ""}`
+      : `as of ${bundle.issuedAt}`,
+  });
+
+  let liveRevoked = false;
+  if (opts.mode === "online") {
+    const live = opts.onlineStatus?.get(att.attestation_id);
+    if (!live) {
+      checks.push({
+        name: "Revocation (live)",
+        passed: null,
+        detail: "lookup failed",
+      });
+    } else if (live.status === "revoked") {
+      liveRevoked = true;
+      checks.push({
+        name: "Revocation (live)",
+        passed: false,
+        detail: `revoked ${live.revokedAt}${live.revocationReason ? `: ${live.revocationReason}` : ""}`,
+      });
+    } else if (live.status === "unknown") {
+      checks.push({
+        name: "Revocation (live)",
+        passed: false,
+        detail: "attestation unknown to the platform",
+      });
+    } else {
+      checks.push({ name: "Revocation (live)", passed: true });
+    }
+  }
+
+  return {
+    attestationId: att.attestation_id,
+    status: entryStatus(checks, revoked || liveRevoked),
+    checks,
+  };
+}
+
+/** The VC must be the same signed statement, re-encoded. */
+function checkCredential(entry: BundleEntry): BundleCheck {
+  const { attestation: att, vc } = entry;
+  if (!vc) {
+    return { name: "Credential", passed: false, detail: "missing" };
+  }
+  const subject = vc.credentialSubject;
+  const mismatch = [
+    vc.id !== `urn:caelex:verity:${att.attestation_id}` && "id",
+    vc.validFrom !== att.issued_at && "validFrom",
+    vc.validUntil !== att.expires_at && "validUntil",
+    subject?.regulation?.ref !== att.claim.regulation_ref && "regulation",
+    subject?.regulation?.thresholdType !== att.claim.threshold_type &&
+      "thresholdType",
+    subject?.regulation?.thresholdValue !== att.claim.threshold_value &&
+      "thresholdValue",
+    subject?.complianceResult !== att.claim.result && "complianceResult",
+    subject?.evidence?.commitmentHash !== att.evidence.value_commitment &&
+      "commitmentHash",
+    !vc.proof?.verificationMethod?.endsWith(`#${att.issuer.key_id}`) &&
+      "verificationMethod",
+    vc.proof?.proofValue !== `z${base58btc(hexBytes(att.signature))}` &&
+      "proofValue",
+  ].filter((f): f is string => typeof f === "string");
+
+  return mismatch.length === 0
+    ? { name: "Credential", passed: true }
+    : {
+        name: "Credential",
+        passed: false,
+        detail: `differs from attestation: ${mismatch.join(", ")}`,
+      };
+}
+
+function checkInclusion(
+  entry: BundleEntry,
+  bundle: Bundle,
+  signingBytes: Buffer | null,
+): BundleCheck {
+  const proof = entry.inclusion;
+  if (!proof) {
+    return {
+      name: "Inclusion Proof",
+      passed: null,
+      detail: "not yet in a signed tree head",
+    };
+  }
+  if (!bundle.sth) {
+    return {
+      name: "Inclusion Proof",
+      passed: false,
+      detail: "proof present but bundle has no tree head",
+    };
+  }
+  if (!signingBytes || proof.treeSize !== bundle.sth.treeSize) {
+    return {
+      name: "Inclusion Proof",
+      passed: false,
+      detail: `proof is for tree size ${proof.treeSize}, tree head is ${bundle.sth.treeSize}`,
+    };
+  }
+  // Leaf = signed bytes plus the signature itself
+  const leaf = Buffer.concat([
+    signingBytes,
+    Buffer.from(`|sig:${entry.attestation.signature}`, "utf8"),
+  ]);
+  return {
+    name: "Inclusion Proof",
+    passed: verifyRfc6962InclusionProof(leaf, proof, bundle.sth.rootHash),
+    detail: `leaf ${proof.leafIndex}`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Status roll-up
+// ---------------------------------------------------------------------------
+
+function entryStatus(
+  checks: BundleCheck[],
+  revoked: boolean,
+): BundleEntryStatus {
+  if (revoked) return "REVOKED";
+  const failed = checks.filter((c) => c.passed === false);
+  if (failed.length === 0) return "VALID";
+  if (failed.every((c) => c.name === "Expiry")) return "EXPIRED";
+  return "INVALID";
+}
+
+function overallStatus(
+  checks: BundleCheck[],
+  entries: BundleEntryReport[],
+): BundleStatus {
+  if (checks.some((c) => c.passed === false)) return "INVALID";
+  if (entries.length === 0) return "INVALID";
+  if (entries.every((e) => e.status === "VALID")) return "VALID";
+
+  const usable = entries.filter(
+    (e) => e.status === "VALID" || e.status === "EXPIRED",
+  );
+  if (usable.length === 0) return "INVALID";
+  if (usable.length < entries.length) return "PARTIALLY_VALID";
+  return "EXPIRED";
+}
+
+// ---------------------------------------------------------------------------
+// Crypto helpers
+// ---------------------------------------------------------------------------
+
+function verifyEd25519(
+  message: Buffer,
+  signatureHex: string,
+  rawKeyHex: string,
+): boolean {
+  try {
+    const publicKey = createPublicKey({
+      key: ed25519SpkiDer(rawKeyHex),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, message, publicKey, Buffer.from(signatureHex, "hex"));
+  } catch {
+    return false;
+  }
+}
+
+function hexBytes(hex: string): Uint8Array {
+  return /^([0-9a-f]{2})*$/i.test(hex ?? "")
+    ? Buffer.from(hex, "hex")
+    : new Uint8Array();
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function base58btc(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i]!;
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j]! << 8;
+      digits[j] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  let out = "1".repeat(zeros);
+  for (let i = digits.length - 1; i >= 0; i--)
+    out += BASE58_ALPHABET[digits[i]!];
+  return out;
+}
@@ -7,6 +7,7 @@
 import { verifyAttestationCommand } from "./commands/verify-attestation.js";
 import { verifyCertCommand } from "./commands/verify-cert.js";
 import { verifyProofCommand } from "./commands/verify-proof.js";
+import { verifyBundleCommand } from "./commands/verify-bundle.js";
 import { showCommand } from "./commands/show.js";
 
 const VERSION = "2.0.0-alpha.1";
@@ -35,6 +36,15 @@ Commands:
     --platform-key <file>       Platform public key (required)
     --json                      Output JSON
 
+  verify-bundle <file>        Verify a regulator evidence bundle end to end
+    --pinned-keys <file>        Trusted issuer keys (JSON; required with --offline)
+    --offline                   No network access; skip live revocation checks
+    --server <url>              Platform URL for live checks (default: https://www.caelex.eu)
+    --strict                    Treat expired/partial as invalid
+    --json                      Output JSON
+    --junit                     Output JUnit XML
+    --output <file>             Write the report to a file
+
   show <file>                 Display a summary of an attestation, certificate, or proof
     --json                      Output JSON
 
@@ -57,9 +67,9 @@ Exit Codes:
  * Parse process.argv and dispatch to the appropriate command.
  *
  * @param argv - Arguments (process.argv.slice(2))
- * @returns Exit code
+ * @returns Exit code (a promise for commands that may go online)
  */
-export function run(argv: string[]): number {
+export function run(argv: string[]): number | Promise<number> {
   // Check for --help or --version as first argument
   if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h") {
     process.stdout.write(HELP + "\n");
@@ -81,6 +91,8 @@ export function run(argv: string[]): number {
       return verifyCertCommand(commandArgs);
     case "verify-proof":
       return verifyProofCommand(commandArgs);
+    case "verify-bundle":
+      return verifyBundleCommand(commandArgs);
     case "show":
       return showCommand(commandArgs);
     default:
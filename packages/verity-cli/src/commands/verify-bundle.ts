@@ -0,0 +1,211 @@
+/**
+ * Verity CLI — verify-bundle Command
+ *
+ * Verifies a regulator bundle exported by the platform: bundle ID, signed
+ * tree head, consistency chain, and every attestation's signature,
+ * credential, inclusion proof, expiry and revocation status.
+ *
+ * Usage: verity verify-bundle <file> [--pinned-keys <file>] [--offline] [--server <url>] [--strict] [--json | --junit] [--output <file>]
+ */
+
+import { writeFileSync } from "node:fs";
+import { loadJsonFile } from "../utils/file-loader.js";
+import { loadPinnedKeys, toRawEd25519Key } from "../utils/key-loader.js";
+import { formatBundleReport } from "../utils/output.js";
+import { formatBundleJUnit } from "../utils/junit.js";
+import { EXIT_CODES } from "../utils/exit-codes.js";
+import {
+  SUPPORTED_BUNDLE_VERSION,
+  verifyBundle,
+} from "../bundle/verify-bundle.js";
+import {
+  DEFAULT_SERVER_URL,
+  fetchActiveIssuerKey,
+  fetchAttestationStatuses,
+} from "../bundle/online.js";
+import type {
+  Bundle,
+  OnlineStatus,
+  TrustedIssuerKey,
+} from "../bundle/types.js";
+
+const USAGE =
+  "Usage: verity verify-bundle <file> [--pinned-keys <file>] [--offline] [--server <url>] [--strict] [--json | --junit] [--output <file>]\n";
+
+/**
+ * Parse args and run bundle verification.
+ *
+ * @param args - Command arguments (after "verify-bundle")
+ * @returns Exit code
+ */
+export async function verifyBundleCommand(args: string[]): Promise<number> {
+  // Parse arguments
+  let filePath: string | undefined;
+  let pinnedKeysPath: string | undefined;
+  let serverUrl = DEFAULT_SERVER_URL;
+  let outputPath: string | undefined;
+  let offline = false;
+  let strict = false;
+  let json = false;
+  let junit = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--pinned-keys") {
+      pinnedKeysPath = args[++i];
+    } else if (arg === "--server") {
+      serverUrl = args[++i] ?? serverUrl;
+    } else if (arg === "--output") {
+      outputPath = args[++i];
+    } else if (arg === "--offline") {
+      offline = true;
+    } else if (arg === "--strict") {
+      strict = true;
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg === "--junit") {
+      junit = true;
+    } else if (!arg.startsWith("-")) {
+      filePath = arg;
+    }
+  }
+
+  // Validate required args
+  if (!filePath) {
+    process.stderr.write("Error: bundle file path is required\n" + USAGE);
+    return EXIT_CODES.MALFORMED_INPUT;
+  }
+
+  if (json && junit) {
+    process.stderr.write("Error: --json and --junit are exclusive\n" + USAGE);
+    return EXIT_CODES.MALFORMED_INPUT;
+  }
+
+  if (offline && !pinnedKeysPath) {
+    process.stderr.write(
+      "Error: --offline requires --pinned-keys (there is no other trust anchor offline)\n" +
+        USAGE,
+    );
+    return EXIT_CODES.MISSING_KEY;
+  }
+
+  // Load bundle
+  let bundle: Bundle;
+  try {
+    bundle = loadJsonFile(filePath) as Bundle;
+  } catch (err) {
+    process.stderr.write(
+      `Error: ${err instanceof Error ? err.message : "failed to load bundle"}\n`,
+    );
+    return EXIT_CODES.MALFORMED_INPUT;
+  }
+
+  if (
+    !bundle ||
+    typeof bundle !== "object" ||
+    typeof bundle.bundleId !== "string" ||
+    !Array.isArray(bundle.entries)
+  ) {
+    process.stderr.write(`Error: ${filePath} is not a Verity bundle\n`);
+    return EXIT_CODES.MALFORMED_INPUT;
+  }
+
+  if (bundle.bundleVersion !== SUPPORTED_BUNDLE_VERSION) {
+    process.stderr.write(
+      `Error: unsupported bundle version "${String(bundle.bundleVersion)}" (expected ${SUPPORTED_BUNDLE_VERSION})\n`,
+    );
+    return EXIT_CODES.UNKNOWN_PROTOCOL;
+  }
+
+  // Establish trusted keys
+  const trustedKeys: TrustedIssuerKey[] = [];
+  if (pinnedKeysPath) {
+    try {
+      for (const key of loadPinnedKeys(pinnedKeysPath)) {
+        trustedKeys.push({ ...key, source: "pinned" });
+      }
+    } catch (err) {
+      process.stderr.write(
+        `Error: ${err instanceof Error ? err.message : "failed to load pinned keys"}\n`,
+      );
+      return EXIT_CODES.MISSING_KEY;
+    }
+  } else {
+    // Online without pins: the platform vouches for its active key; rotated
+    // keys can only come from the bundle and are reported as such.
+    const active = await fetchActiveIssuerKey(serverUrl);
+    if (!active) {
+      process.stderr.write(
+        `Error: could not fetch the active issuer key from ${serverUrl}; use --pinned-keys\n`,
+      );
+      return EXIT_CODES.ONLINE_CHECK_FAILED;
+    }
+    trustedKeys.push(active);
+    for (const key of bundle.issuerKeys ?? []) {
+      if (key.keyId === active.keyId) continue;
+      try {
+        trustedKeys.push({
+          keyId: key.keyId,
+          publicKey: toRawEd25519Key(key.publicKeyHex),
+          source: "bundle",
+        });
+      } catch {
+        // Malformed embedded key — entries signed with it fail as untrusted
+      }
+    }
+  }
+
+  // Live revocation status
+  let onlineStatus: Map<string, OnlineStatus | null> | undefined;
+  if (!offline) {
+    onlineStatus = await fetchAttestationStatuses(
+      bundle.entries.map((e) => e.attestation?.attestation_id),
+      serverUrl,
+    );
+  }
+
+  // Run verification
+  const report = verifyBundle(bundle, {
+    trustedKeys,
+    mode: offline ? "offline" : "online",
+    onlineStatus,
+  });
+
+  // Output
+  const rendered = junit
+    ? formatBundleJUnit(report)
+    : formatBundleReport(report, json);
+  if (outputPath) {
+    try {
+      writeFileSync(outputPath, rendered + "\n");
+    } catch (err) {
+      process.stderr.write(
+        `Error: failed to write ${outputPath}: ${err instanceof Error ? err.message : "unknown error"}\n`,
+      );
+      return EXIT_CODES.MALFORMED_INPUT;
+    }
+    process.stdout.write(
+      `${report.status}: ${report.bundleId} (report written to ${outputPath})\n`,
+    );
+  } else {
+    process.stdout.write(rendered + "\n");
+  }
+
+  // Determine exit code based on status
+  switch (report.status) {
+    case "VALID": {
+      const lookupFailed = [...(onlineStatus?.values() ?? [])].some(
+        (s) => s === null,
+      );
+      return lookupFailed ? EXIT_CODES.ONLINE_CHECK_FAILED : EXIT_CODES.VALID;
+    }
+    case "EXPIRED":
+      return strict ? EXIT_CODES.INVALID : EXIT_CODES.EXPIRED;
+    case "PARTIALLY_VALID":
+      return strict ? EXIT_CODES.INVALID : EXIT_CODES.PARTIALLY_VALID;
+    case "INVALID":
+      return EXIT_CODES.INVALID;
+    default:
+      return EXIT_CODES.INVALID;
+  }
+}
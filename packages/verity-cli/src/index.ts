@@ -1,4 +1,4 @@
 #!/usr/bin/env node
 import { run } from "./cli.js";
 
-process.exit(run(process.argv.slice(2)));
+process.exit(await run(process.argv.slice(2)));
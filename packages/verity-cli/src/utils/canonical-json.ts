@@ -0,0 +1,76 @@
+/**
+ * Verity CLI — Platform Canonical JSON
+ *
+ * Reproduces the canonical form the Caelex platform uses for attestation
+ * signatures, transparency-log leaves and bundle IDs. This is NOT the
+ * verity-core canonicalizer (no NFC normalisation, UTF-16 key order, no
+ * size cap) — bytes must match the platform exactly or every signature
+ * check fails.
+ */
+
+/**
+ * Serialize a value with recursively sorted object keys and no whitespace.
+ *
+ * @param value - Any JSON value
+ * @returns Canonical JSON string
+ * @throws Error on undefined values or non-finite numbers
+ */
+export function platformCanonicalJson(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) {
+    throw new Error("Canonical JSON: undefined is not allowed");
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Canonical JSON: ${value} is not allowed (NaN/Infinity)`);
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => platformCanonicalJson(item)).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    const pairs = Object.keys(obj)
+      .sort()
+      .map((key) => {
+        if (obj[key] === undefined) {
+          throw new Error(`Canonical JSON: property "${key}" is undefined`);
+        }
+        return `${JSON.stringify(key)}:${platformCanonicalJson(obj[key])}`;
+      });
+    return `{${pairs.join(",")}}`;
+  }
+  throw new Error(`Canonical JSON: unsupported type ${typeof value}`);
+}
+
+/** Fields covered by a platform attestation signature. */
+export const ATTESTATION_SIGNED_FIELDS = [
+  "attestation_id",
+  "version",
+  "claim",
+  "subject",
+  "evidence",
+  "issuer",
+  "issued_at",
+  "expires_at",
+] as const;
+
+/**
+ * The exact bytes the platform signs for an attestation.
+ *
+ * @param attestation - The attestation JSON
+ * @returns UTF-8 bytes of the canonical signed-field subset
+ */
+export function attestationSigningBytes(
+  attestation: Record<string, unknown>,
+): Buffer {
+  const signable: Record<string, unknown> = {};
+  for (const field of ATTESTATION_SIGNED_FIELDS) {
+    signable[field] = attestation[field];
+  }
+  return Buffer.from(platformCanonicalJson(signable), "utf8");
+}
@@ -0,0 +1,73 @@
+/**
+ * Verity CLI — JUnit XML Output
+ *
+ * Renders a bundle report as JUnit XML so CI systems can show each check
+ * as a test case: one suite for the bundle-level checks, one per
+ * attestation.
+ */
+
+import type { BundleCheck, BundleReport } from "../bundle/types.js";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function renderSuite(
+  name: string,
+  checks: BundleCheck[],
+  timestamp: string,
+): string {
+  const failures = checks.filter((c) => c.passed === false).length;
+  const skipped = checks.filter((c) => c.passed === null).length;
+  const lines = [
+    `  <testsuite name="${escapeXml(name)}" tests="${checks.length}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${timestamp}">`,
+  ];
+
+  for (const check of checks) {
+    const open = `    <testcase classname="${escapeXml(name)}" name="${escapeXml(check.name)}"`;
+    const detail = escapeXml(check.detail ?? "");
+    if (check.passed === true) {
+      lines.push(`${open}/>`);
+    } else if (check.passed === false) {
+      lines.push(`${open}>`);
+      lines.push(`      <failure message="${detail || "check failed"}"/>`);
+      lines.push("    </testcase>");
+    } else {
+      lines.push(`${open}>`);
+      lines.push(`      <skipped message="${detail}"/>`);
+      lines.push("    </testcase>");
+    }
+  }
+
+  lines.push("  </testsuite>");
+  return lines.join("\n");
+}
+
+/**
+ * Format a bundle report as JUnit XML.
+ *
+ * @param report - The report from verifyBundle
+ * @returns JUnit XML document
+ */
+export function formatBundleJUnit(report: BundleReport): string {
+  const suites = [
+    renderSuite(`bundle ${report.bundleId}`, report.checks, report.verifiedAt),
+    ...report.entries.map((entry) =>
+      renderSuite(entry.attestationId, entry.checks, report.verifiedAt),
+    ),
+  ];
+  const all = [report.checks, ...report.entries.map((e) => e.checks)].flat();
+  const failures = all.filter((c) => c.passed === false).length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="verity verify-bundle" tests="${all.length}" failures="${failures}" errors="0">`,
+    ...suites,
+    "</testsuites>",
+  ].join("\n");
+}
@@ -1,7 +1,8 @@
 /**
  * Verity CLI — Public Key Loading
  *
- * Loads Ed25519 public keys from hex-encoded files.
+ * Loads Ed25519 public keys from hex-encoded files and pinned issuer key
+ * sets from JSON.
  */
 
 import { readFileSync } from "node:fs";
@@ -43,3 +44,102 @@ export function loadPublicKey(filePath: string): string {
 
   return key.toLowerCase();
 }
+
+const ED25519_SPKI_PREFIX = "302a300506032b6570032100";
+
+/**
+ * Normalise an Ed25519 public key to its raw 32-byte hex form.
+ *
+ * The platform stores issuer keys as 44-byte SPKI DER; the CLI key files
+ * hold the raw 32 bytes. Both are accepted.
+ *
+ * @param keyHex - Raw (64 hex chars) or SPKI DER (88 hex chars) key
+ * @returns Lowercase raw key hex
+ * @throws Error if the key is neither form
+ */
+export function toRawEd25519Key(keyHex: string): string {
+  const key = keyHex.trim().toLowerCase();
+  if (/^[0-9a-f]{64}$/.test(key)) return key;
+  if (/^[0-9a-f]{88}$/.test(key) && key.startsWith(ED25519_SPKI_PREFIX)) {
+    return key.slice(ED25519_SPKI_PREFIX.length);
+  }
+  throw new Error(
+    `Invalid Ed25519 public key: expected 64 hex characters (raw) or 88 hex characters (SPKI DER), got ${key.length} characters`,
+  );
+}
+
+/**
+ * Wrap a raw Ed25519 key in SPKI DER so node:crypto can import it.
+ *
+ * @param rawKeyHex - Raw 32-byte key, hex
+ * @returns DER bytes
+ */
+export function ed25519SpkiDer(rawKeyHex: string): Buffer {
+  return Buffer.from(ED25519_SPKI_PREFIX + rawKeyHex, "hex");
+}
+
+/** A key ID pinned to a public key by the verifier. */
+export interface PinnedKey {
+  keyId: string;
+  publicKey: string;
+}
+
+/**
+ * Load pinned issuer keys from a JSON file.
+ *
+ * Accepts an array of `{ keyId, publicKeyHex }` (the shape of a bundle's
+ * `issuerKeys`, so a previously verified bundle can seed the pin file) or
+ * `{ key_id, public_key }` (the platform public-key endpoint's shape), or
+ * an object with either array under `issuerKeys`/`keys`.
+ *
+ * @param filePath - Path to the JSON pin file
+ * @returns Pinned keys with raw hex public keys
+ * @throws Error if the file cannot be read or contains no valid keys
+ */
+export function loadPinnedKeys(filePath: string): PinnedKey[] {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      throw new Error(`Key file not found: ${filePath}`);
+    }
+    throw new Error(
+      `Failed to read key file ${filePath}: ${err instanceof Error ? err.message : "unknown error"}`,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Failed to parse JSON in ${filePath}: invalid JSON syntax`);
+  }
+
+  const list: unknown = Array.isArray(parsed)
+    ? parsed
+    : ((parsed as Record<string, unknown> | null)?.["issuerKeys"] ??
+      (parsed as Record<string, unknown> | null)?.["keys"]);
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(`No pinned keys found in ${filePath}`);
+  }
+
+  return list.map((item, i) => {
+    const obj = (item ?? {}) as Record<string, unknown>;
+    const keyId = obj["keyId"] ?? obj["key_id"];
+    const publicKey = obj["publicKeyHex"] ?? obj["public_key"];
+    if (typeof keyId !== "string" || typeof publicKey !== "string") {
+      throw new Error(
+        `Invalid pinned key #${i} in ${filePath}: expected keyId and publicKeyHex`,
+      );
+    }
+    try {
+      return { keyId, publicKey: toRawEd25519Key(publicKey) };
+    } catch (err) {
+      throw new Error(
+        `Invalid pinned key "${keyId}" in ${filePath}: ${err instanceof Error ? err.message : "unknown error"}`,
+      );
+    }
+  });
+}
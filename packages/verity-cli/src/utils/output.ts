@@ -9,6 +9,7 @@ import type {
   CertificateVerificationResult,
   InclusionVerificationResult,
 } from "@caelex/verity-verifier-sdk";
+import type { BundleReport } from "../bundle/types.js";
 
 /**
  * Format a single check line for human-readable output.
@@ -164,3 +165,57 @@ export function formatInclusionResult(
 
   return lines.join("\n");
 }
+
+/**
+ * Format a bundle verification report.
+ *
+ * @param report - The report from verifyBundle
+ * @param json - If true, output JSON; otherwise human-readable
+ * @returns Formatted output string
+ */
+export function formatBundleReport(
+  report: BundleReport,
+  json: boolean,
+): string {
+  if (json) {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const lines: string[] = [];
+  lines.push("=== Bundle Verification ===");
+  lines.push("");
+  lines.push(`Bundle:     ${report.bundleId}`);
+  lines.push(
+    `Operator:   ${report.operator.name ?? report.operator.id} (${report.operator.id})`,
+  );
+  lines.push(`Issued:     ${report.issuedAt}`);
+  lines.push(`Mode:       ${report.mode}`);
+  lines.push("");
+  lines.push("Checks:");
+  for (const check of report.checks) {
+    lines.push("  " + formatCheck(check.name, check.passed, check.detail));
+  }
+
+  const valid = report.entries.filter((e) => e.status === "VALID").length;
+  lines.push("");
+  lines.push(`Attestations: ${valid} of ${report.entries.length} valid`);
+  for (const entry of report.entries) {
+    lines.push(`  [${entry.status}] ${entry.attestationId}`);
+    for (const check of entry.checks) {
+      lines.push("    " + formatCheck(check.name, check.passed, check.detail));
+    }
+  }
+
+  lines.push("");
+  lines.push(`Result: ${report.status}`);
+
+  if (report.warnings.length > 0) {
+    lines.push("");
+    lines.push("Warnings:");
+    for (const w of report.warnings) {
+      lines.push(`  ! ${w}`);
+    }
+  }
+
+  return lines.join("\n");
+}
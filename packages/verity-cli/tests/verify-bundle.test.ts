@@ -0,0 +1,402 @@
+/**
+ * Tests for verify-bundle command
+ *
+ * Bundles are built in-test in the platform's format (SPKI DER issuer keys,
+ * platform canonical JSON, RFC 6962 log) so the fixtures can't drift from
+ * what the verifier expects.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createHash, generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  computeRfc6962ConsistencyProof,
+  computeRfc6962InclusionProof,
+  computeRfc6962Root,
+  hashRfc6962Leaf,
+} from "@caelex/verity-transparency";
+import { verifyBundleCommand } from "../src/commands/verify-bundle.js";
+import { EXIT_CODES } from "../src/utils/exit-codes.js";
+import {
+  attestationSigningBytes,
+  platformCanonicalJson,
+} from "../src/utils/canonical-json.js";
+
+const KEY_ID = "vik_test_2036";
+const issuer = generateKeyPairSync("ed25519");
+const issuerSpkiHex = issuer.publicKey
+  .export({ format: "der", type: "spki" })
+  .toString("hex");
+
+let dir: string;
+let stdoutOutput: string;
+let stderrOutput: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "verity-bundle-"));
+  stdoutOutput = "";
+  stderrOutput = "";
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    stdoutOutput += String(chunk);
+    return true;
+  });
+  vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+    stderrOutput += String(chunk);
+    return true;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Bundle construction (mirrors the platform bundle builder)
+// ---------------------------------------------------------------------------
+
+const BASE58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function base58(bytes: Buffer): string {
+  let n = BigInt("0x" + bytes.toString("hex"));
+  let out = "";
+  while (n > 0n) {
+    out = BASE58[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  for (const b of bytes) {
+    if (b !== 0) break;
+    out = "1" + out;
+  }
+  return out;
+}
+
+function makeAttestation(i: number, expiresAt = "2099-01-01T00:00:00.000Z") {
+  const unsigned = {
+    attestation_id: `va_test_${i}`,
+    version: "1.0",
+    claim: {
+      regulation_ref: "eu_space_act_art_70",
+      regulation_name: "Passivation",
+      threshold_type: "ABOVE" as const,
+      threshold_value: 15,
+      result: true,
+      claim_statement: "Fuel reserve above passivation threshold",
+    },
+    subject: { operator_id: "org_1", satellite_norad_id: "58421" },
+    evidence: {
+      value_commitment: `sha256:${"ab".repeat(32)}`,
+      source: "sentinel",
+      trust_level: "HIGH",
+      trust_range: "0.90-0.98",
+    },
+    issuer: {
+      name: "Caelex",
+      key_id: KEY_ID,
+      public_key: issuerSpkiHex,
+      algorithm: "Ed25519",
+    },
+    issued_at: "2026-01-01T00:00:00.000Z",
+    expires_at: expiresAt,
+  };
+  const signature = sign(
+    null,
+    attestationSigningBytes(unsigned),
+    issuer.privateKey,
+  ).toString("hex");
+  return { ...unsigned, signature };
+}
+
+type Attestation = ReturnType<typeof makeAttestation>;
+
+function toVC(att: Attestation) {
+  return {
+    id: `urn:caelex:verity:${att.attestation_id}`,
+    validFrom: att.issued_at,
+    validUntil: att.expires_at,
+    credentialSubject: {
+      regulation: {
+        ref: att.claim.regulation_ref,
+        thresholdType: att.claim.threshold_type,
+        thresholdValue: att.claim.threshold_value,
+      },
+      complianceResult: att.claim.result,
+      evidence: { commitmentHash: att.evidence.value_commitment },
+    },
+    proof: {
+      verificationMethod: `did:web:caelex.eu#${att.issuer.key_id}`,
+      proofValue: `z${base58(Buffer.from(att.signature, "hex"))}`,
+    },
+  };
+}
+
+function leafBytes(att: Attestation): Buffer {
+  return Buffer.concat([
+    attestationSigningBytes(att),
+    Buffer.from(`|sig:${att.signature}`),
+  ]);
+}
+
+function signSth(treeSize: number, rootHash: string) {
+  const timestamp = "2026-01-02T00:00:00.000Z";
+  const bytes = JSON.stringify({
+    version: "v1",
+    timestamp,
+    treeSize,
+    rootHash,
+    issuerKeyId: KEY_ID,
+  });
+  return {
+    timestamp,
+    treeSize,
+    rootHash,
+    issuerKeyId: KEY_ID,
+    signature: sign(null, Buffer.from(bytes), issuer.privateKey).toString(
+      "hex",
+    ),
+    version: "v1" as const,
+  };
+}
+
+function withBundleId(body: Record<string, unknown>) {
+  const bundleId = createHash("sha256")
+    .update(platformCanonicalJson(body))
+    .digest("hex");
+  return { bundleId, ...body };
+}
+
+function buildBundle(
+  opts: { revoke?: number; expiresAt?: string; tamper?: number } = {},
+) {
+  const atts = [0, 1, 2].map((i) => makeAttestation(i, opts.expiresAt));
+  const leafHashes = atts.map((a) => hashRfc6962Leaf(leafBytes(a)));
+  const root = computeRfc6962Root(leafHashes);
+
+  const entries = atts.map((att, i) => ({
+    attestation:
+      opts.tamper === i
+        ? { ...att, claim: { ...att.claim, result: false } }
+        : att,
+    vc: toVC(att),
+    inclusion: computeRfc6962InclusionProof(leafHashes, i),
+    status: {
+      state: opts.revoke === i ? "revoked" : "valid",
+      issuedAt: att.issued_at,
+      expiresAt: att.expires_at,
+      revokedAt: opts.revoke === i ? "2026-02-01T00:00:00.000Z" : null,
+      revocationReason: opts.revoke === i ? "superseded" : null,
+    },
+  }));
+
+  return withBundleId({
+    bundleVersion: "verity-bundle-v1",
+    issuedAt: "2026-03-01T00:00:00.000Z",
+    operator: { id: "org_1", name: "Orbital Test GmbH" },
+    entries,
+    sth: signSth(3, root),
+    consistencyChain: [
+      {
+        fromSize: 2,
+        toSize: 3,
+        fromRoot: computeRfc6962Root(leafHashes.slice(0, 2)),
+        toRoot: root,
+        proof: computeRfc6962ConsistencyProof(leafHashes, 2),
+      },
+    ],
+    issuerKeys: [
+      {
+        keyId: KEY_ID,
+        publicKeyHex: issuerSpkiHex,
+        algorithm: "Ed25519",
+        active: true,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        rotatedAt: null,
+      },
+    ],
+    didDocument: null,
+    readme: "# Verity Bundle",
+  });
+}
+
+function writeJson(name: string, value: unknown): string {
+  const path = join(dir, name);
+  writeFileSync(path, JSON.stringify(value, null, 2));
+  return path;
+}
+
+function pinnedKeys(publicKeyHex = issuerSpkiHex): string {
+  return writeJson("pinned.json", [{ keyId: KEY_ID, publicKeyHex }]);
+}
+
+function offlineArgs(bundle: unknown, ...extra: string[]): string[] {
+  return [
+    writeJson("bundle.json", bundle),
+    "--offline",
+    "--pinned-keys",
+    pinnedKeys(),
+    ...extra,
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("verify-bundle", () => {
+  it("returns VALID (0) for an untouched bundle offline", async () => {
+    const code = await verifyBundleCommand(offlineArgs(buildBundle()));
+    expect(code).toBe(EXIT_CODES.VALID);
+    expect(stdoutOutput).toContain("Attestations: 3 of 3 valid");
+    expect(stdoutOutput).toContain("Result: VALID");
+  });
+
+  it("returns INVALID (1) when the bundle body was modified", async () => {
+    const bundle = buildBundle();
+    bundle["issuedAt"] = "2030-01-01T00:00:00.000Z";
+    const code = await verifyBundleCommand(offlineArgs(bundle));
+    expect(code).toBe(EXIT_CODES.INVALID);
+    expect(stdoutOutput).toMatch(/Bundle ID\s+INVALID/);
+  });
+
+  it("returns PARTIALLY_VALID (3) when one attestation was altered and re-hashed", async () => {
+    const code = await verifyBundleCommand(
+      offlineArgs(buildBundle({ tamper: 1 }), "--json"),
+    );
+    expect(code).toBe(EXIT_CODES.PARTIALLY_VALID);
+
+    const report = JSON.parse(stdoutOutput);
+    expect(report.entries.map((e: { status: string }) => e.status)).toEqual([
+      "VALID",
+      "INVALID",
+      "VALID",
+    ]);
+    const failed = report.entries[1].checks.filter(
+      (c: { passed: boolean | null }) => c.passed === false,
+    );
+    expect(failed.map((c: { name: string }) => c.name)).toEqual(
+      expect.arrayContaining([
+        "Attestation Signature",
+        "Credential",
+        "Inclusion Proof",
+      ]),
+    );
+  });
+
+  it("marks revoked attestations and fails them under --strict", async () => {
+    const code = await verifyBundleCommand(
+      offlineArgs(buildBundle({ revoke: 0 }), "--strict"),
+    );
+    expect(code).toBe(EXIT_CODES.INVALID);
+    expect(stdoutOutput).toContain("[REVOKED] va_test_0");
+    expect(stdoutOutput).toContain("superseded");
+  });
+
+  it("returns EXPIRED (2) when every attestation has expired", async () => {
+    const code = await verifyBundleCommand(
+      offlineArgs(buildBundle({ expiresAt: "2026-02-01T00:00:00.000Z" })),
+    );
+    expect(code).toBe(EXIT_CODES.EXPIRED);
+  });
+
+  it("rejects signatures from a key other than the pinned one", async () => {
+    const other = generateKeyPairSync("ed25519")
+      .publicKey.export({ format: "der", type: "spki" })
+      .toString("hex");
+    const code = await verifyBundleCommand([
+      writeJson("bundle.json", buildBundle()),
+      "--offline",
+      "--pinned-keys",
+      pinnedKeys(other),
+    ]);
+    expect(code).toBe(EXIT_CODES.INVALID);
+    expect(stdoutOutput).toMatch(/Issuer Keys\s+INVALID/);
+  });
+
+  it("returns MISSING_KEY (6) for --offline without --pinned-keys", async () => {
+    const code = await verifyBundleCommand([
+      writeJson("bundle.json", buildBundle()),
+      "--offline",
+    ]);
+    expect(code).toBe(EXIT_CODES.MISSING_KEY);
+    expect(stderrOutput).toContain("--offline requires --pinned-keys");
+  });
+
+  it("returns UNKNOWN_PROTOCOL (4) for an unsupported bundle version", async () => {
+    const code = await verifyBundleCommand(
+      offlineArgs({ ...buildBundle(), bundleVersion: "verity-bundle-v9" }),
+    );
+    expect(code).toBe(EXIT_CODES.UNKNOWN_PROTOCOL);
+  });
+
+  it("writes a JUnit report with one suite per attestation", async () => {
+    const out = join(dir, "report.xml");
+    const code = await verifyBundleCommand(
+      offlineArgs(buildBundle({ tamper: 2 }), "--junit", "--output", out),
+    );
+    expect(code).toBe(EXIT_CODES.PARTIALLY_VALID);
+
+    const xml = readFileSync(out, "utf-8");
+    expect(xml).toContain('<testsuites name="verity verify-bundle"');
+    expect(xml.match(/<testsuite /g)).toHaveLength(4);
+    expect(xml).toContain('<testsuite name="va_test_2"');
+    expect(xml).toContain("<failure");
+    expect(stdoutOutput).toContain("report written to");
+  });
+
+  describe("online", () => {
+    function stubPlatform(statuses: Record<string, string | Error>) {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation((url: string) => {
+          if (url.endsWith("/api/v1/verity/public-key")) {
+            return Promise.resolve({
+              ok: true,
+              status: 200,
+              json: () =>
+                Promise.resolve({
+                  active_key: { key_id: KEY_ID, public_key: issuerSpkiHex },
+                }),
+            });
+          }
+          const id = url.split("/").pop()!;
+          const status = statuses[id] ?? "valid";
+          if (status instanceof Error) return Promise.reject(status);
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            json: () =>
+              Promise.resolve({
+                attestationId: id,
+                status,
+                revokedAt: status === "revoked" ? "2026-04-01T00:00:00Z" : null,
+                revocationReason:
+                  status === "revoked" ? "key compromise" : null,
+              }),
+          });
+        }),
+      );
+    }
+
+    it("trusts the platform's active key and checks live revocation", async () => {
+      stubPlatform({ va_test_1: "revoked" });
+      const code = await verifyBundleCommand([
+        writeJson("bundle.json", buildBundle()),
+      ]);
+      expect(code).toBe(EXIT_CODES.PARTIALLY_VALID);
+      expect(stdoutOutput).toContain("Mode:       online");
+      expect(stdoutOutput).toContain("key compromise");
+    });
+
+    it("returns ONLINE_CHECK_FAILED (7) when a status lookup fails", async () => {
+      stubPlatform({ va_test_2: new Error("ECONNRESET") });
+      const code = await verifyBundleCommand([
+        writeJson("bundle.json", buildBundle()),
+      ]);
+      expect(code).toBe(EXIT_CODES.ONLINE_CHECK_FAILED);
+      expect(stdoutOutput).toContain("Live status lookup failed for va_test_2");
+    });
+  });
+});
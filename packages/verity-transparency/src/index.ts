@@ -4,13 +4,20 @@
  * @module @caelex/verity-transparency
  *
  * Standalone transparency log utilities for Merkle trees, inclusion proofs,
- * hash chains, and checkpoint verification.
+ * hash chains, checkpoint verification, and witness-cosigned checkpoints.
  */
 
 // Types
 export type {
   MerkleTree,
   MerkleProofPath,
+  Rfc6962InclusionProof,
+  LogCheckpoint,
+  NoteSignature,
+  SignedNote,
+  NoteKeyType,
+  NoteVerifierKey,
+  CosignedCheckpointResult,
   TransparencyEntry,
   HashChainResult,
   TransparencyCheckpoint,
@@ -24,6 +31,30 @@ export {
   verifyInclusionProof,
 } from "./merkle.js";
 
+// RFC 6962 proofs (platform transparency log)
+export {
+  hashRfc6962Leaf,
+  computeRfc6962Root,
+  computeRfc6962InclusionProof,
+  verifyRfc6962InclusionProof,
+  computeRfc6962ConsistencyProof,
+  verifyRfc6962ConsistencyProof,
+} from "./rfc6962.js";
+
+// Signed-note checkpoints and witness cosignatures
+export {
+  noteKeyHash,
+  formatVerifierKey,
+  parseVerifierKey,
+  formatCheckpoint,
+  parseCheckpoint,
+  parseSignedNote,
+  formatSignedNote,
+  cosignCheckpoint,
+  verifyNoteSignature,
+  verifyCosignedCheckpoint,
+} from "./signed-note.js";
+
 // Hash chain verification
 export { verifyHashChain } from "./hash-chain.js";
 
@@ -0,0 +1,275 @@
+/**
+ * Verity 2036 — RFC 6962 Merkle Proofs
+ *
+ * The platform transparency log (the one that anchors attestations in
+ * regulator bundles) follows RFC 6962 rather than the simple pairwise
+ * tree in merkle.ts:
+ *
+ *   leaf  = SHA-256(0x00 || leaf_bytes)
+ *   inner = SHA-256(0x01 || left || right)
+ *
+ * and an n-leaf tree splits at the largest power of two strictly less
+ * than n instead of duplicating odd nodes. Roots, inclusion proofs and
+ * consistency proofs are therefore NOT interchangeable with merkle.ts.
+ */
+
+import { createHash } from "node:crypto";
+import { constantTimeEqual, hexToBytes } from "@caelex/verity-core";
+import type { Rfc6962InclusionProof } from "./types.js";
+
+/**
+ * RFC 6962 leaf hash of raw leaf bytes, hex-encoded.
+ */
+export function hashRfc6962Leaf(data: Uint8Array): string {
+  return createHash("sha256")
+    .update(Buffer.from([0x00]))
+    .update(data)
+    .digest("hex");
+}
+
+/** RFC 6962 interior node hash of two hex-encoded children. */
+function hashInner(left: string, right: string): string {
+  return createHash("sha256")
+    .update(Buffer.from([0x01]))
+    .update(Buffer.from(left, "hex"))
+    .update(Buffer.from(right, "hex"))
+    .digest("hex");
+}
+
+/** Largest power of 2 strictly less than n (n >= 2). */
+function largestPow2Less(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/** Merkle Tree Hash over leafHashes[start..end). */
+function mth(leafHashes: string[], start: number, end: number): string {
+  const n = end - start;
+  if (n === 1) return leafHashes[start]!;
+  const k = largestPow2Less(n);
+  return hashInner(
+    mth(leafHashes, start, start + k),
+    mth(leafHashes, start + k, end),
+  );
+}
+
+/**
+ * Compute the RFC 6962 root over hex-encoded leaf hashes.
+ *
+ * @param leafHashes - Leaf hashes as produced by hashRfc6962Leaf
+ * @returns Hex-encoded root hash
+ */
+export function computeRfc6962Root(leafHashes: string[]): string {
+  if (leafHashes.length === 0) {
+    throw new Error("Cannot compute RFC 6962 root of an empty tree");
+  }
+  return mth(leafHashes, 0, leafHashes.length);
+}
+
+/** PATH(m, D[start..end)) per RFC 6962 §2.1.1. */
+function inclusionPath(
+  leafHashes: string[],
+  start: number,
+  end: number,
+  m: number,
+): string[] {
+  const n = end - start;
+  if (n === 1) return [];
+  const k = largestPow2Less(n);
+  if (m < k) {
+    return [
+      ...inclusionPath(leafHashes, start, start + k, m),
+      mth(leafHashes, start + k, end),
+    ];
+  }
+  return [
+    ...inclusionPath(leafHashes, start + k, end, m - k),
+    mth(leafHashes, start, start + k),
+  ];
+}
+
+/**
+ * Compute an RFC 6962 audit path for the leaf at `leafIndex`.
+ *
+ * @param leafHashes - All leaf hashes in the tree, in log order
+ * @param leafIndex - Index of the leaf to prove
+ * @returns Inclusion proof with the hex-encoded path and root
+ */
+export function computeRfc6962InclusionProof(
+  leafHashes: string[],
+  leafIndex: number,
+): Rfc6962InclusionProof {
+  if (leafIndex < 0 || leafIndex >= leafHashes.length) {
+    throw new Error(
+      `Leaf index ${leafIndex} out of range [0, ${leafHashes.length - 1}]`,
+    );
+  }
+  return {
+    leafIndex,
+    treeSize: leafHashes.length,
+    path: inclusionPath(leafHashes, 0, leafHashes.length, leafIndex),
+    leafHash: leafHashes[leafIndex]!,
+    root: computeRfc6962Root(leafHashes),
+  };
+}
+
+/**
+ * Verify an RFC 6962 inclusion proof for raw leaf bytes.
+ *
+ * Recomputes the leaf hash, walks the audit path using the index and tree
+ * size to place each sibling, and compares the result to `expectedRoot` in
+ * constant time. Never throws — malformed proofs verify as false.
+ *
+ * @param leafData - The raw leaf bytes (before leaf hashing)
+ * @param proof - The inclusion proof
+ * @param expectedRoot - The trusted hex-encoded root (e.g. from a signed tree head)
+ * @returns true if the leaf is included under `expectedRoot`
+ */
+export function verifyRfc6962InclusionProof(
+  leafData: Uint8Array,
+  proof: Rfc6962InclusionProof,
+  expectedRoot: string,
+): boolean {
+  try {
+    const leafHash = hashRfc6962Leaf(leafData);
+    if (leafHash !== proof.leafHash) return false;
+
+    let fn = proof.leafIndex;
+    let sn = proof.treeSize - 1;
+    if (fn < 0 || fn > sn) return false;
+
+    let r = leafHash;
+    for (const sibling of proof.path) {
+      if (sn === 0) return false; // path longer than needed
+      if ((fn & 1) === 1 || fn === sn) {
+        r = hashInner(sibling, r);
+        while ((fn & 1) === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        r = hashInner(r, sibling);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    if (sn !== 0) return false;
+    return constantTimeEqual(hexToBytes(r), hexToBytes(expectedRoot));
+  } catch {
+    return false;
+  }
+}
+
+/** SUBPROOF(m, D[start..end), b) per RFC 6962 §2.1.4.1. */
+function subproof(
+  leafHashes: string[],
+  m: number,
+  start: number,
+  end: number,
+  b: boolean,
+): string[] {
+  const n = end - start;
+  if (m === n) return b ? [] : [mth(leafHashes, start, end)];
+  const k = largestPow2Less(n);
+  if (m <= k) {
+    return [
+      ...subproof(leafHashes, m, start, start + k, b),
+      mth(leafHashes, start + k, end),
+    ];
+  }
+  return [
+    ...subproof(leafHashes, m - k, start + k, end, false),
+    mth(leafHashes, start, start + k),
+  ];
+}
+
+/**
+ * Compute an RFC 6962 consistency proof from the first `oldSize` leaves
+ * to the full tree.
+ *
+ * @param leafHashes - All leaf hashes of the newer tree
+ * @param oldSize - Size of the older tree
+ * @returns Hex-encoded proof hashes (empty when oldSize is 0 or equal)
+ */
+export function computeRfc6962ConsistencyProof(
+  leafHashes: string[],
+  oldSize: number,
+): string[] {
+  if (!Number.isInteger(oldSize) || oldSize < 0) {
+    throw new Error("oldSize must be a non-negative integer");
+  }
+  if (oldSize > leafHashes.length) {
+    throw new Error(
+      `oldSize ${oldSize} exceeds tree size ${leafHashes.length}`,
+    );
+  }
+  if (oldSize === 0 || oldSize === leafHashes.length) return [];
+  return subproof(leafHashes, oldSize, 0, leafHashes.length, true);
+}
+
+/**
+ * Verify an RFC 6962 consistency proof: that the tree of `newSize` leaves
+ * with root `newRoot` is an append-only extension of the tree of `oldSize`
+ * leaves with root `oldRoot`. Never throws.
+ *
+ * @returns true if both roots are re-derived from the proof
+ */
+export function verifyRfc6962ConsistencyProof(
+  proof: string[],
+  oldSize: number,
+  newSize: number,
+  oldRoot: string,
+  newRoot: string,
+): boolean {
+  try {
+    if (!Number.isInteger(oldSize) || !Number.isInteger(newSize)) return false;
+    if (oldSize < 0 || oldSize > newSize) return false;
+    if (oldSize === 0) return proof.length === 0;
+    if (oldSize === newSize) return proof.length === 0 && oldRoot === newRoot;
+
+    let node = oldSize - 1;
+    let lastNode = newSize - 1;
+    while ((node & 1) === 1) {
+      node >>= 1;
+      lastNode >>= 1;
+    }
+
+    let idx = 0;
+    let hash1: string;
+    let hash2: string;
+    if (node > 0) {
+      if (proof.length === 0) return false;
+      hash1 = hash2 = proof[idx++]!;
+    } else {
+      // The old tree was a complete subtree; its root starts the walk.
+      hash1 = hash2 = oldRoot;
+    }
+
+    while (lastNode > 0) {
+      if (idx >= proof.length) return false;
+      const next = proof[idx++]!;
+      if ((node & 1) === 1 || node === lastNode) {
+        hash1 = hashInner(next, hash1);
+        hash2 = hashInner(next, hash2);
+        while ((node & 1) === 0 && node !== 0) {
+          node >>= 1;
+          lastNode >>= 1;
+        }
+      } else {
+        hash2 = hashInner(hash2, next);
+      }
+      node >>= 1;
+      lastNode >>= 1;
+    }
+
+    if (idx !== proof.length) return false;
+    return (
+      constantTimeEqual(hexToBytes(hash1), hexToBytes(oldRoot)) &&
+      constantTimeEqual(hexToBytes(hash2), hexToBytes(newRoot))
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Verity 2036 — Signed Notes and Witness Cosignatures
+ *
+ * Checkpoints of the platform log in the C2SP formats that transparency
+ * witnesses already speak, so independent parties (NCAs, auditors) can
+ * cosign what they have checked:
+ *
+ *   tlog-checkpoint    <origin>\n<tree size>\n<base64 root>\n[extensions]
+ *   signed-note        <body>\n— <key name> <base64(key hash || sig)>\n
+ *   tlog-cosignature   signs "cosignature/v1\ntime <t>\n" + body and
+ *                      carries key hash || uint64be(t) || sig
+ *
+ * Key hashes are the first 4 bytes of SHA-256(name || 0x0A || alg || key)
+ * with alg 0x01 for plain Ed25519 and 0x04 for cosignature/v1.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign as edSign,
+  verify as edVerify,
+  type KeyObject,
+} from "node:crypto";
+import type {
+  CosignedCheckpointResult,
+  LogCheckpoint,
+  NoteKeyType,
+  NoteSignature,
+  NoteVerifierKey,
+  SignedNote,
+} from "./types.js";
+
+const ALGORITHM_BYTES: Record<NoteKeyType, number> = {
+  ed25519: 0x01,
+  "cosignature/v1": 0x04,
+};
+
+const SIGNATURE_LINE_PREFIX = "— ";
+
+/** DER prefixes that wrap a raw 32-byte Ed25519 key for node:crypto */
+const SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+const HEX_32 = /^[0-9a-f]{64}$/i;
+const DECIMAL = /^(0|[1-9][0-9]*)$/;
+
+function publicKeyObject(publicKeyHex: string): KeyObject {
+  if (!HEX_32.test(publicKeyHex)) {
+    throw new Error("Ed25519 public key must be 32 bytes of hex");
+  }
+  return createPublicKey({
+    key: Buffer.concat([SPKI_PREFIX, Buffer.from(publicKeyHex, "hex")]),
+    format: "der",
+    type: "spki",
+  });
+}
+
+function privateKeyObject(privateKeyHex: string): KeyObject {
+  if (!HEX_32.test(privateKeyHex)) {
+    throw new Error("Ed25519 private key must be 32 bytes of hex");
+  }
+  return createPrivateKey({
+    key: Buffer.concat([PKCS8_PREFIX, Buffer.from(privateKeyHex, "hex")]),
+    format: "der",
+    type: "pkcs8",
+  });
+}
+
+/** Key names are non-empty and contain neither whitespace nor "+". */
+function isValidKeyName(name: string): boolean {
+  return name.length > 0 && !/[\s+]/u.test(name);
+}
+
+function cosignatureMessage(body: string, timestamp: number): Buffer {
+  return Buffer.from(`cosignature/v1\ntime ${timestamp}\n${body}`, "utf-8");
+}
+
+/**
+ * Compute the 4-byte key hash that prefixes every signature by a key.
+ *
+ * @returns Hex-encoded key hash (8 hex chars)
+ */
+export function noteKeyHash(
+  name: string,
+  type: NoteKeyType,
+  publicKeyHex: string,
+): string {
+  return createHash("sha256")
+    .update(Buffer.from(`${name}\n`, "utf-8"))
+    .update(Buffer.from([ALGORITHM_BYTES[type]]))
+    .update(Buffer.from(publicKeyHex, "hex"))
+    .digest()
+    .subarray(0, 4)
+    .toString("hex");
+}
+
+/**
+ * Encode a verifier key as "<name>+<key hash>+<base64(alg || key)>", the
+ * string witnesses publish and verifiers pin.
+ */
+export function formatVerifierKey(
+  name: string,
+  type: NoteKeyType,
+  publicKeyHex: string,
+): string {
+  if (!isValidKeyName(name)) {
+    throw new Error(`Invalid note key name: "${name}"`);
+  }
+  publicKeyObject(publicKeyHex);
+  const keyBytes = Buffer.concat([
+    Buffer.from([ALGORITHM_BYTES[type]]),
+    Buffer.from(publicKeyHex, "hex"),
+  ]);
+  return `${name}+${noteKeyHash(name, type, publicKeyHex)}+${keyBytes.toString("base64")}`;
+}
+
+/**
+ * Parse a verifier key string produced by formatVerifierKey.
+ *
+ * @throws Error if the string is malformed or its key hash does not match
+ */
+export function parseVerifierKey(vkey: string): NoteVerifierKey {
+  // Names and hashes never contain "+", but the base64 key may
+  const match = /^([^+]+)\+([^+]+)\+(.+)$/.exec(vkey.trim());
+  if (!match) {
+    throw new Error("Verifier key must have the form name+hash+key");
+  }
+  const [, name, keyHash, encoded] = match as unknown as [
+    string,
+    string,
+    string,
+    string,
+  ];
+  if (!isValidKeyName(name) || !/^[0-9a-f]{8}$/.test(keyHash)) {
+    throw new Error("Verifier key has an invalid name or key hash");
+  }
+
+  const keyBytes = Buffer.from(encoded, "base64");
+  const type = (Object.keys(ALGORITHM_BYTES) as NoteKeyType[]).find(
+    (t) => ALGORITHM_BYTES[t] === keyBytes[0],
+  );
+  if (!type || keyBytes.length !== 33) {
+    throw new Error("Verifier key is not an Ed25519 or cosignature/v1 key");
+  }
+
+  const publicKey = keyBytes.subarray(1).toString("hex");
+  if (noteKeyHash(name, type, publicKey) !== keyHash) {
+    throw new Error(`Verifier key hash mismatch for "${name}"`);
+  }
+  return { name, type, publicKey, keyHash };
+}
+
+/**
+ * Render a checkpoint body. The root hash is hex here and base64 on the wire.
+ *
+ * @throws Error on an invalid origin, size or root hash
+ */
+export function formatCheckpoint(
+  checkpoint: Omit<LogCheckpoint, "extensions"> & { extensions?: string[] },
+): string {
+  const { origin, treeSize, rootHash, extensions = [] } = checkpoint;
+  if (origin.length === 0 || origin.includes("\n")) {
+    throw new Error("Checkpoint origin must be a single non-empty line");
+  }
+  if (!Number.isSafeInteger(treeSize) || treeSize < 0) {
+    throw new Error("Checkpoint tree size must be a non-negative integer");
+  }
+  if (!HEX_32.test(rootHash)) {
+    throw new Error("Checkpoint root hash must be 32 bytes of hex");
+  }
+  if (extensions.some((line) => line.length === 0 || line.includes("\n"))) {
+    throw new Error("Checkpoint extension lines must be non-empty");
+  }
+
+  const lines = [
+    origin,
+    String(treeSize),
+    Buffer.from(rootHash, "hex").toString("base64"),
+    ...extensions,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse a checkpoint body.
+ *
+ * @throws Error if the body is not a well-formed checkpoint
+ */
+export function parseCheckpoint(body: string): LogCheckpoint {
+  if (!body.endsWith("\n")) {
+    throw new Error("Checkpoint must end with a newline");
+  }
+  const lines = body.slice(0, -1).split("\n");
+  if (lines.length < 3) {
+    throw new Error("Checkpoint needs origin, tree size and root hash lines");
+  }
+  const [origin, size, root, ...extensions] = lines as [
+    string,
+    string,
+    string,
+    ...string[],
+  ];
+
+  if (origin.length === 0) {
+    throw new Error("Checkpoint origin is empty");
+  }
+  if (!DECIMAL.test(size) || !Number.isSafeInteger(Number(size))) {
+    throw new Error(`Checkpoint tree size "${size}" is not a decimal integer`);
+  }
+  const rootBytes = Buffer.from(root, "base64");
+  if (rootBytes.length !== 32 || rootBytes.toString("base64") !== root) {
+    throw new Error("Checkpoint root hash is not 32 bytes of base64");
+  }
+  if (extensions.some((line) => line.length === 0)) {
+    throw new Error("Checkpoint contains an empty extension line");
+  }
+
+  return {
+    origin,
+    treeSize: Number(size),
+    rootHash: rootBytes.toString("hex"),
+    extensions,
+  };
+}
+
+/**
+ * Split a signed note into its body and signature lines.
+ *
+ * @throws Error if the note has no signatures or a malformed signature line
+ */
+export function parseSignedNote(text: string): SignedNote {
+  const split = text.lastIndexOf("\n\n");
+  if (split < 0 || !text.endsWith("\n")) {
+    throw new Error("Signed note must end with a blank line and signatures");
+  }
+
+  const body = text.slice(0, split + 1);
+  const signatureLines = text.slice(split + 2, -1).split("\n");
+  const signatures: NoteSignature[] = signatureLines.map((line) => {
+    if (!line.startsWith(SIGNATURE_LINE_PREFIX)) {
+      throw new Error(`Malformed signature line: "${line}"`);
+    }
+    const [name, encoded, ...rest] = line
+      .slice(SIGNATURE_LINE_PREFIX.length)
+      .split(" ");
+    const bytes = Buffer.from(encoded ?? "", "base64");
+    if (!name || !isValidKeyName(name) || rest.length > 0 || bytes.length < 5) {
+      throw new Error(`Malformed signature line: "${line}"`);
+    }
+    return {
+      name,
+      keyHash: bytes.subarray(0, 4).toString("hex"),
+      signature: bytes.subarray(4).toString("base64"),
+    };
+  });
+
+  return { body, signatures };
+}
+
+/** Render a signed note; the inverse of parseSignedNote. */
+export function formatSignedNote(note: SignedNote): string {
+  const lines = note.signatures.map((sig) => {
+    const bytes = Buffer.concat([
+      Buffer.from(sig.keyHash, "hex"),
+      Buffer.from(sig.signature, "base64"),
+    ]);
+    return `${SIGNATURE_LINE_PREFIX}${sig.name} ${bytes.toString("base64")}\n`;
+  });
+  return `${note.body}\n${lines.join("")}`;
+}
+
+/**
+ * Cosign a checkpoint body as a witness (tlog-cosignature, cosignature/v1).
+ *
+ * @param body - The checkpoint body the witness has verified
+ * @param name - The witness key name
+ * @param privateKeyHex - Hex-encoded 32-byte Ed25519 private key
+ * @param timestamp - Cosigning time in seconds since the Unix epoch
+ * @returns A signature line to append to the note
+ */
+export function cosignCheckpoint(
+  body: string,
+  name: string,
+  privateKeyHex: string,
+  timestamp: number,
+): NoteSignature {
+  parseCheckpoint(body);
+  if (!isValidKeyName(name)) {
+    throw new Error(`Invalid note key name: "${name}"`);
+  }
+  if (!Number.isSafeInteger(timestamp) || timestamp < 0) {
+    throw new Error("Cosignature timestamp must be a non-negative integer");
+  }
+
+  const privateKey = privateKeyObject(privateKeyHex);
+  const publicKey = createPublicKey(privateKey)
+    .export({ format: "der", type: "spki" })
+    .subarray(SPKI_PREFIX.length)
+    .toString("hex");
+
+  const time = Buffer.alloc(8);
+  time.writeBigUInt64BE(BigInt(timestamp));
+  const sig = edSign(null, cosignatureMessage(body, timestamp), privateKey);
+
+  return {
+    name,
+    keyHash: noteKeyHash(name, "cosignature/v1", publicKey),
+    signature: Buffer.concat([time, sig]).toString("base64"),
+  };
+}
+
+/**
+ * Verify one signature line against one key. Never throws.
+ *
+ * @returns Whether it verified and, for cosignatures, the signed timestamp
+ */
+export function verifyNoteSignature(
+  body: string,
+  signature: NoteSignature,
+  key: NoteVerifierKey,
+): { valid: boolean; timestamp?: number } {
+  try {
+    if (signature.name !== key.name || signature.keyHash !== key.keyHash) {
+      return { valid: false };
+    }
+    const bytes = Buffer.from(signature.signature, "base64");
+    const publicKey = publicKeyObject(key.publicKey);
+
+    if (key.type === "ed25519") {
+      if (bytes.length !== 64) return { valid: false };
+      return {
+        valid: edVerify(null, Buffer.from(body, "utf-8"), publicKey, bytes),
+      };
+    }
+
+    if (bytes.length !== 8 + 64) return { valid: false };
+    const time = bytes.readBigUInt64BE(0);
+    if (time > BigInt(Number.MAX_SAFE_INTEGER)) return { valid: false };
+    const timestamp = Number(time);
+    const valid = edVerify(
+      null,
+      cosignatureMessage(body, timestamp),
+      publicKey,
+      bytes.subarray(8),
+    );
+    return valid ? { valid, timestamp } : { valid: false };
+  } catch {
+    return { valid: false };
+  }
+}
+
+/**
+ * Verify that a checkpoint note is cosigned by enough trusted witnesses.
+ *
+ * Signatures from unknown keys are ignored, as the signed-note format
+ * requires; each witness counts once towards the threshold. Never throws.
+ *
+ * @param noteText - The signed checkpoint note
+ * @param witnesses - Trusted witness keys (cosignature/v1)
+ * @param options.origin - Expected log origin line
+ * @param options.threshold - Minimum number of distinct witnesses (default 1)
+ */
+export function verifyCosignedCheckpoint(
+  noteText: string,
+  witnesses: NoteVerifierKey[],
+  options: { origin?: string; threshold?: number } = {},
+): CosignedCheckpointResult {
+  const threshold = options.threshold ?? 1;
+  let checkpoint: LogCheckpoint;
+  let note: SignedNote;
+  try {
+    note = parseSignedNote(noteText);
+    checkpoint = parseCheckpoint(note.body);
+  } catch (err) {
+    return {
+      valid: false,
+      checkpoint: null,
+      cosigners: [],
+      error: err instanceof Error ? err.message : "malformed checkpoint",
+    };
+  }
+
+  if (options.origin !== undefined && checkpoint.origin !== options.origin) {
+    return {
+      valid: false,
+      checkpoint,
+      cosigners: [],
+      error: `checkpoint origin "${checkpoint.origin}" is not "${options.origin}"`,
+    };
+  }
+
+  const cosigners: CosignedCheckpointResult["cosigners"] = [];
+  for (const witness of witnesses) {
+    if (witness.type !== "cosignature/v1") continue;
+    if (cosigners.some((c) => c.name === witness.name)) continue;
+    for (const sig of note.signatures) {
+      const result = verifyNoteSignature(note.body, sig, witness);
+      if (result.valid && result.timestamp !== undefined) {
+        cosigners.push({ name: witness.name, timestamp: result.timestamp });
+        break;
+      }
+    }
+  }
+
+  const valid = threshold > 0 && cosigners.length >= threshold;
+  return {
+    valid,
+    checkpoint,
+    cosigners,
+    ...(valid
+      ? {}
+      : {
+          error: `${cosigners.length} of ${threshold} required witness cosignatures verified`,
+        }),
+  };
+}
@@ -12,6 +12,16 @@ export interface MerkleProofPath {
   siblings: Array<{ hash: string; position: "left" | "right" }>;
 }
 
+/** RFC 6962 audit path for one leaf (see rfc6962.ts) */
+export interface Rfc6962InclusionProof {
+  leafIndex: number;
+  treeSize: number;
+  /** Sibling hashes from the leaf up to the root, hex-encoded */
+  path: string[];
+  leafHash: string;
+  root: string;
+}
+
 /** A single transparency log entry */
 export interface TransparencyEntry {
   entryId: string;
@@ -52,3 +62,53 @@ export interface CheckpointVerificationResult {
     sequenceRange: boolean;
   };
 }
+
+/** A C2SP tlog-checkpoint body (see signed-note.ts) */
+export interface LogCheckpoint {
+  /** Log identity line, e.g. "caelex.eu/verity/transparency" */
+  origin: string;
+  treeSize: number;
+  /** Hex-encoded RFC 6962 root hash */
+  rootHash: string;
+  /** Optional extension lines after the root hash */
+  extensions: string[];
+}
+
+/** One signature line of a signed note */
+export interface NoteSignature {
+  /** Key name as it appears after the em dash */
+  name: string;
+  /** 4-byte key hash, hex-encoded */
+  keyHash: string;
+  /** Signature payload after the key hash, base64-encoded */
+  signature: string;
+}
+
+/** A parsed signed note: the signed text plus its signature lines */
+export interface SignedNote {
+  /** Note text, always ending in a newline */
+  body: string;
+  signatures: NoteSignature[];
+}
+
+/** Algorithm bytes understood by the note verifier */
+export type NoteKeyType = "ed25519" | "cosignature/v1";
+
+/** A named public key that can verify note signatures */
+export interface NoteVerifierKey {
+  name: string;
+  type: NoteKeyType;
+  /** Hex-encoded raw 32-byte Ed25519 public key */
+  publicKey: string;
+  /** 4-byte key hash, hex-encoded */
+  keyHash: string;
+}
+
+/** Result of checking a witness-cosigned checkpoint */
+export interface CosignedCheckpointResult {
+  valid: boolean;
+  checkpoint: LogCheckpoint | null;
+  /** Trusted witnesses whose cosignature verified, with their timestamps */
+  cosigners: Array<{ name: string; timestamp: number }>;
+  error?: string;
+}
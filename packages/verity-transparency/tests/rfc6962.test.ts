@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import {
+  hashRfc6962Leaf,
+  computeRfc6962Root,
+  computeRfc6962InclusionProof,
+  verifyRfc6962InclusionProof,
+  computeRfc6962ConsistencyProof,
+  verifyRfc6962ConsistencyProof,
+} from "../src/rfc6962.js";
+
+/** Helper: raw leaf bytes from a string seed */
+function leafData(seed: string): Uint8Array {
+  return new TextEncoder().encode(seed);
+}
+
+function leaves(n: number): { data: Uint8Array[]; hashes: string[] } {
+  const data = Array.from({ length: n }, (_, i) => leafData(`leaf-${i}`));
+  return { data, hashes: data.map(hashRfc6962Leaf) };
+}
+
+/** Helper: RFC 6962 interior node hash */
+function inner(left: string, right: string): string {
+  return createHash("sha256")
+    .update(
+      Buffer.concat([Buffer.from([0x01]), Buffer.from(left + right, "hex")]),
+    )
+    .digest("hex");
+}
+
+describe("computeRfc6962Root", () => {
+  it("domain-separates leaves with a 0x00 prefix", () => {
+    const expected = createHash("sha256")
+      .update(Buffer.concat([Buffer.from([0x00]), Buffer.from("leaf-0")]))
+      .digest("hex");
+    expect(hashRfc6962Leaf(leafData("leaf-0"))).toBe(expected);
+  });
+
+  it("3 leaves: splits at 2, not by duplicating the odd leaf", () => {
+    const { hashes } = leaves(3);
+    const [a, b, c] = hashes as [string, string, string];
+    expect(computeRfc6962Root(hashes)).toBe(inner(inner(a, b), c));
+  });
+
+  it("throws on an empty tree", () => {
+    expect(() => computeRfc6962Root([])).toThrow("empty");
+  });
+});
+
+describe("RFC 6962 inclusion proofs", () => {
+  it("verifies every leaf for tree sizes 1 through 9", () => {
+    for (let n = 1; n <= 9; n++) {
+      const { data, hashes } = leaves(n);
+      const root = computeRfc6962Root(hashes);
+      for (let i = 0; i < n; i++) {
+        const proof = computeRfc6962InclusionProof(hashes, i);
+        expect(verifyRfc6962InclusionProof(data[i]!, proof, root)).toBe(true);
+      }
+    }
+  });
+
+  it("rejects a different leaf", () => {
+    const { hashes } = leaves(5);
+    const proof = computeRfc6962InclusionProof(hashes, 2);
+    expect(
+      verifyRfc6962InclusionProof(leafData("forged"), proof, proof.root),
+    ).toBe(false);
+  });
+
+  it("rejects a tampered path", () => {
+    const { data, hashes } = leaves(6);
+    const proof = computeRfc6962InclusionProof(hashes, 4);
+    proof.path[0] = "00".repeat(32);
+    expect(verifyRfc6962InclusionProof(data[4]!, proof, proof.root)).toBe(
+      false,
+    );
+  });
+
+  it("rejects a proof against another root", () => {
+    const { data, hashes } = leaves(4);
+    const proof = computeRfc6962InclusionProof(hashes, 1);
+    const otherRoot = computeRfc6962Root(leaves(5).hashes);
+    expect(verifyRfc6962InclusionProof(data[1]!, proof, otherRoot)).toBe(false);
+  });
+
+  it("rejects an out-of-range index instead of throwing", () => {
+    const { data, hashes } = leaves(3);
+    const proof = { ...computeRfc6962InclusionProof(hashes, 0), leafIndex: 7 };
+    expect(verifyRfc6962InclusionProof(data[0]!, proof, proof.root)).toBe(
+      false,
+    );
+  });
+});
+
+describe("RFC 6962 consistency proofs", () => {
+  it("verifies every (oldSize, newSize) pair up to 9 leaves", () => {
+    const { hashes } = leaves(9);
+    for (let n = 1; n <= 9; n++) {
+      const newRoot = computeRfc6962Root(hashes.slice(0, n));
+      for (let m = 1; m <= n; m++) {
+        const oldRoot = computeRfc6962Root(hashes.slice(0, m));
+        const proof = computeRfc6962ConsistencyProof(hashes.slice(0, n), m);
+        expect(
+          verifyRfc6962ConsistencyProof(proof, m, n, oldRoot, newRoot),
+        ).toBe(true);
+      }
+    }
+  });
+
+  it("rejects a rewritten history", () => {
+    const { hashes } = leaves(7);
+    const rewritten = [...hashes];
+    rewritten[1] = hashRfc6962Leaf(leafData("rewritten"));
+    const oldRoot = computeRfc6962Root(hashes.slice(0, 3));
+    const proof = computeRfc6962ConsistencyProof(rewritten, 3);
+    expect(
+      verifyRfc6962ConsistencyProof(
+        proof,
+        3,
+        7,
+        oldRoot,
+        computeRfc6962Root(rewritten),
+      ),
+    ).toBe(false);
+  });
+
+  it("rejects a proof with extra elements", () => {
+    const { hashes } = leaves(6);
+    const proof = [
+      ...computeRfc6962ConsistencyProof(hashes, 4),
+      "ab".repeat(32),
+    ];
+    expect(
+      verifyRfc6962ConsistencyProof(
+        proof,
+        4,
+        6,
+        computeRfc6962Root(hashes.slice(0, 4)),
+        computeRfc6962Root(hashes),
+      ),
+    ).toBe(false);
+  });
+
+  it("requires equal roots for equal sizes", () => {
+    const { hashes } = leaves(3);
+    const root = computeRfc6962Root(hashes);
+    expect(verifyRfc6962ConsistencyProof([], 3, 3, root, root)).toBe(true);
+    expect(verifyRfc6962ConsistencyProof([], 3, 3, root, "00".repeat(32))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import { createHash, generateKeyPairSync, sign } from "node:crypto";
+import {
+  noteKeyHash,
+  formatVerifierKey,
+  parseVerifierKey,
+  formatCheckpoint,
+  parseCheckpoint,
+  parseSignedNote,
+  formatSignedNote,
+  cosignCheckpoint,
+  verifyNoteSignature,
+  verifyCosignedCheckpoint,
+} from "../src/signed-note.js";
+
+const ORIGIN = "caelex.eu/verity/transparency";
+const ROOT = createHash("sha256").update("root").digest("hex");
+
+/** Helper: raw hex Ed25519 key pair */
+function keyPair(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privateKey: privateKey
+      .export({ format: "der", type: "pkcs8" })
+      .subarray(16)
+      .toString("hex"),
+    publicKey: publicKey
+      .export({ format: "der", type: "spki" })
+      .subarray(12)
+      .toString("hex"),
+  };
+}
+
+function witness(name: string) {
+  const keys = keyPair();
+  return {
+    ...keys,
+    vkey: parseVerifierKey(
+      formatVerifierKey(name, "cosignature/v1", keys.publicKey),
+    ),
+  };
+}
+
+function cosignedNote(
+  body: string,
+  signers: Array<{ name: string; privateKey: string }>,
+  timestamp = 1_760_000_000,
+): string {
+  return formatSignedNote({
+    body,
+    signatures: signers.map((s) =>
+      cosignCheckpoint(body, s.name, s.privateKey, timestamp),
+    ),
+  });
+}
+
+describe("checkpoint bodies", () => {
+  it("round-trips origin, size, root and extensions", () => {
+    const body = formatCheckpoint({
+      origin: ORIGIN,
+      treeSize: 42,
+      rootHash: ROOT,
+      extensions: ["sth-timestamp 2026-10-19T00:00:00.000Z"],
+    });
+    expect(body.split("\n")[2]).toBe(
+      Buffer.from(ROOT, "hex").toString("base64"),
+    );
+    expect(parseCheckpoint(body)).toEqual({
+      origin: ORIGIN,
+      treeSize: 42,
+      rootHash: ROOT,
+      extensions: ["sth-timestamp 2026-10-19T00:00:00.000Z"],
+    });
+  });
+
+  it("rejects leading zeros and short roots", () => {
+    const root = Buffer.from(ROOT, "hex").toString("base64");
+    expect(() => parseCheckpoint(`${ORIGIN}\n042\n${root}\n`)).toThrow(
+      "decimal",
+    );
+    expect(() => parseCheckpoint(`${ORIGIN}\n42\nAAAA\n`)).toThrow("32 bytes");
+  });
+});
+
+describe("verifier keys", () => {
+  it("derives the key hash from name, algorithm and key", () => {
+    const { publicKey } = keyPair();
+    const expected = createHash("sha256")
+      .update(Buffer.from("witness.example\n"))
+      .update(Buffer.from([0x04]))
+      .update(Buffer.from(publicKey, "hex"))
+      .digest()
+      .subarray(0, 4)
+      .toString("hex");
+    expect(noteKeyHash("witness.example", "cosignature/v1", publicKey)).toBe(
+      expected,
+    );
+  });
+
+  it("rejects a vkey whose hash does not match", () => {
+    const { publicKey } = keyPair();
+    const vkey = formatVerifierKey("witness.example", "ed25519", publicKey);
+    const forged = vkey.replace(/\+[0-9a-f]{8}\+/, "+00000000+");
+    expect(() => parseVerifierKey(forged)).toThrow("mismatch");
+  });
+});
+
+describe("signed notes", () => {
+  it("verifies a plain Ed25519 note signature", () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const raw = publicKey
+      .export({ format: "der", type: "spki" })
+      .subarray(12)
+      .toString("hex");
+    const key = parseVerifierKey(
+      formatVerifierKey("log.example", "ed25519", raw),
+    );
+    const body = "hello\n";
+    const sig = {
+      name: "log.example",
+      keyHash: key.keyHash,
+      signature: sign(null, Buffer.from(body), privateKey).toString("base64"),
+    };
+
+    const note = parseSignedNote(formatSignedNote({ body, signatures: [sig] }));
+    expect(note.body).toBe(body);
+    expect(verifyNoteSignature(note.body, note.signatures[0]!, key).valid).toBe(
+      true,
+    );
+    expect(verifyNoteSignature("hellp\n", note.signatures[0]!, key).valid).toBe(
+      false,
+    );
+  });
+
+  it("rejects a note without a signature block", () => {
+    expect(() => parseSignedNote(`${ORIGIN}\n1\n${ROOT}\n`)).toThrow();
+    expect(() => parseSignedNote(`${ORIGIN}\n\n- not a signature\n`)).toThrow(
+      "Malformed",
+    );
+  });
+});
+
+describe("verifyCosignedCheckpoint", () => {
+  const body = formatCheckpoint({
+    origin: ORIGIN,
+    treeSize: 7,
+    rootHash: ROOT,
+  });
+
+  it("accepts a checkpoint cosigned by a trusted witness", () => {
+    const w = witness("witness.nca.example");
+    const result = verifyCosignedCheckpoint(
+      cosignedNote(body, [{ name: "witness.nca.example", ...w }]),
+      [w.vkey],
+      { origin: ORIGIN },
+    );
+    expect(result.valid).toBe(true);
+    expect(result.checkpoint?.treeSize).toBe(7);
+    expect(result.cosigners).toEqual([
+      { name: "witness.nca.example", timestamp: 1_760_000_000 },
+    ]);
+  });
+
+  it("enforces the witness threshold and ignores unknown signers", () => {
+    const a = witness("a.example");
+    const b = witness("b.example");
+    const stranger = witness("c.example");
+    const note = cosignedNote(body, [
+      { name: "a.example", ...a },
+      { name: "c.example", ...stranger },
+    ]);
+
+    expect(
+      verifyCosignedCheckpoint(note, [a.vkey, b.vkey], { threshold: 2 }).valid,
+    ).toBe(false);
+    expect(
+      verifyCosignedCheckpoint(note, [a.vkey, b.vkey], { threshold: 1 }).valid,
+    ).toBe(true);
+  });
+
+  it("does not count the same witness twice", () => {
+    const a = witness("a.example");
+    const note = cosignedNote(body, [
+      { name: "a.example", ...a },
+      { name: "a.example", ...a },
+    ]);
+    expect(
+      verifyCosignedCheckpoint(note, [a.vkey], { threshold: 2 }).valid,
+    ).toBe(false);
+  });
+
+  it("rejects a cosignature moved onto a different checkpoint", () => {
+    const w = witness("w.example");
+    const other = formatCheckpoint({
+      origin: ORIGIN,
+      treeSize: 8,
+      rootHash: ROOT,
+    });
+    const sig = cosignCheckpoint(body, "w.example", w.privateKey, 1);
+    const forged = formatSignedNote({ body: other, signatures: [sig] });
+    expect(verifyCosignedCheckpoint(forged, [w.vkey]).valid).toBe(false);
+  });
+
+  it("rejects the wrong origin", () => {
+    const w = witness("w.example");
+    const result = verifyCosignedCheckpoint(
+      cosignedNote(body, [{ name: "w.example", ...w }]),
+      [w.vkey],
+      { origin: "other.example/log" },
+    );
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("origin");
+  });
+});
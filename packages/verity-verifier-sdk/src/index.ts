@@ -20,6 +20,9 @@ export type {
   CertificateVerificationResult,
   InclusionProof,
   InclusionVerificationResult,
+  LogInclusionProof,
+  WitnessTrustRoot,
+  CheckpointInclusionResult,
   RevocationStatus,
 } from "./types.js";
 
@@ -30,7 +33,10 @@ export { verifyAttestation } from "./verify-attestation.js";
 export { verifyCertificate } from "./verify-certificate.js";
 
 // Transparency proof verification
-export { verifyInclusionProof } from "./verify-inclusion.js";
+export {
+  verifyInclusionProof,
+  verifyInclusionAgainstCheckpoint,
+} from "./verify-inclusion.js";
 
 // Online revocation check
 export { checkRevocationOnline } from "./check-revocation.js";
@@ -129,6 +129,53 @@ export interface InclusionVerificationResult {
   checkpointId: string;
 }
 
+/** RFC 6962 inclusion proof as served by /api/v1/verity/transparency/inclusion */
+export interface LogInclusionProof {
+  leafIndex: number;
+  treeSize: number;
+  /** Hex-encoded audit path from the leaf up to the root */
+  path: string[];
+  leafHash: string;
+  root: string;
+}
+
+/** A witness-cosigned checkpoint used as the trust root instead of the platform key */
+export interface WitnessTrustRoot {
+  /** Signed checkpoint note as published by a witness */
+  checkpoint: string;
+  /** Trusted witness verifier keys ("name+hash+base64") */
+  witnesses: string[];
+  /** Minimum number of distinct witnesses that must have cosigned (default 1) */
+  threshold?: number;
+  /** Expected log origin line */
+  origin?: string;
+  /**
+   * RFC 6962 consistency proof from proof.treeSize to the checkpoint's
+   * tree size, needed when the checkpoint is newer than the proof.
+   */
+  consistencyProof?: string[];
+}
+
+/** Result of inclusion verification against a witness-cosigned checkpoint */
+export interface CheckpointInclusionResult {
+  /** Whether the leaf is provably in the tree the witnesses cosigned */
+  included: boolean;
+  checks: {
+    /** Whether the audit path recomputes to proof.root */
+    merklePath: boolean;
+    /** Whether enough trusted witnesses cosigned the checkpoint */
+    checkpointCosignatures: boolean;
+    /** Whether proof.root is (or is consistent with) the checkpoint root */
+    treeConsistency: boolean;
+  };
+  leafIndex: number;
+  treeSize: number;
+  /** Names of the witnesses whose cosignature verified */
+  cosigners: string[];
+  /** First reason the proof was rejected, if any */
+  error?: string;
+}
+
 /** Key revocation status from online check */
 export interface RevocationStatus {
   /** The key identifier that was checked */
@@ -2,15 +2,32 @@
  * Verity 2036 — Inclusion Proof Verification
  *
  * Verifies that an entry is included in a transparency log checkpoint
- * by checking the Merkle path and checkpoint signature.
+ * by checking the Merkle path and checkpoint signature, or — for the
+ * RFC 6962 platform log — against a checkpoint cosigned by independent
+ * witnesses instead of the platform key.
  *
  * NEVER throws — all errors are captured in the result.
  */
 
 import { verify, DOMAIN_TAGS, canonicalizeToBytes } from "@caelex/verity-core";
-import { verifyInclusionProof as verifyMerklePath } from "@caelex/verity-transparency";
-import type { MerkleProofPath } from "@caelex/verity-transparency";
-import type { InclusionProof, InclusionVerificationResult } from "./types.js";
+import {
+  verifyInclusionProof as verifyMerklePath,
+  verifyRfc6962InclusionProof,
+  verifyRfc6962ConsistencyProof,
+  verifyCosignedCheckpoint,
+  parseVerifierKey,
+} from "@caelex/verity-transparency";
+import type {
+  MerkleProofPath,
+  NoteVerifierKey,
+} from "@caelex/verity-transparency";
+import type {
+  CheckpointInclusionResult,
+  InclusionProof,
+  InclusionVerificationResult,
+  LogInclusionProof,
+  WitnessTrustRoot,
+} from "./types.js";
 
 /**
  * Default failed result.
@@ -134,3 +151,110 @@ export function verifyInclusionProof(
     );
   }
 }
+
+/**
+ * Verify an RFC 6962 inclusion proof from the platform log against a
+ * witness-cosigned checkpoint.
+ *
+ * The trust root is the witnesses, not the platform: a log that shows
+ * auditors one history and operators another cannot get both cosigned
+ * by witnesses that check consistency. Performs three checks:
+ * 1. Merkle path: the leaf's audit path recomputes to proof.root.
+ * 2. Checkpoint cosignatures: at least `threshold` trusted witnesses
+ *    cosigned the checkpoint (and its origin matches, if given).
+ * 3. Tree consistency: proof.root is the checkpoint root, or — when the
+ *    checkpoint is newer — a consistency proof links the two.
+ *
+ * @param leafData - Raw leaf bytes (the attestation's signed serialization)
+ * @param proof - Inclusion proof from the transparency inclusion endpoint
+ * @param trustRoot - Signed checkpoint note plus trusted witness keys
+ * @returns Verification result with individual check outcomes
+ */
+export function verifyInclusionAgainstCheckpoint(
+  leafData: Uint8Array,
+  proof: LogInclusionProof,
+  trustRoot: WitnessTrustRoot,
+): CheckpointInclusionResult {
+  const result: CheckpointInclusionResult = {
+    included: false,
+    checks: {
+      merklePath: false,
+      checkpointCosignatures: false,
+      treeConsistency: false,
+    },
+    leafIndex: proof?.leafIndex ?? 0,
+    treeSize: proof?.treeSize ?? 0,
+    cosigners: [],
+  };
+
+  try {
+    if (!proof || !Array.isArray(proof.path) || !trustRoot?.checkpoint) {
+      return { ...result, error: "missing proof or checkpoint" };
+    }
+
+    // 1. Verify Merkle path
+    result.checks.merklePath = verifyRfc6962InclusionProof(
+      leafData,
+      proof,
+      proof.root,
+    );
+
+    // 2. Verify witness cosignatures
+    let witnesses: NoteVerifierKey[];
+    try {
+      witnesses = trustRoot.witnesses.map(parseVerifierKey);
+    } catch (err) {
+      return {
+        ...result,
+        error: err instanceof Error ? err.message : "invalid witness key",
+      };
+    }
+
+    const cosigned = verifyCosignedCheckpoint(trustRoot.checkpoint, witnesses, {
+      origin: trustRoot.origin,
+      threshold: trustRoot.threshold,
+    });
+    result.checks.checkpointCosignatures = cosigned.valid;
+    result.cosigners = cosigned.cosigners.map((c) => c.name);
+
+    // 3. Link the proof's tree to the cosigned tree
+    const checkpoint = cosigned.checkpoint;
+    let consistencyError: string | undefined;
+    if (!checkpoint) {
+      consistencyError = "checkpoint could not be parsed";
+    } else if (proof.treeSize === checkpoint.treeSize) {
+      result.checks.treeConsistency =
+        proof.root.toLowerCase() === checkpoint.rootHash;
+    } else if (proof.treeSize > checkpoint.treeSize) {
+      consistencyError = `checkpoint (size ${checkpoint.treeSize}) predates the proof (size ${proof.treeSize})`;
+    } else if (!trustRoot.consistencyProof) {
+      consistencyError =
+        "checkpoint is newer than the proof and no consistency proof was given";
+    } else {
+      result.checks.treeConsistency = verifyRfc6962ConsistencyProof(
+        trustRoot.consistencyProof,
+        proof.treeSize,
+        checkpoint.treeSize,
+        proof.root,
+        checkpoint.rootHash,
+      );
+    }
+
+    result.included =
+      result.checks.merklePath &&
+      result.checks.checkpointCosignatures &&
+      result.checks.treeConsistency;
+
+    if (!result.included) {
+      result.error = !result.checks.merklePath
+        ? "audit path does not lead to the proof root"
+        : !result.checks.checkpointCosignatures
+          ? (cosigned.error ?? "checkpoint cosignatures did not verify")
+          : (consistencyError ??
+            "proof root is not consistent with the checkpoint");
+    }
+    return result;
+  } catch {
+    return { ...result, error: "verification failed" };
+  }
+}
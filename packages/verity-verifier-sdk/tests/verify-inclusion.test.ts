@@ -16,8 +16,19 @@ import {
 import {
   buildMerkleTree,
   computeInclusionProof as computeProof,
+  hashRfc6962Leaf,
+  computeRfc6962Root,
+  computeRfc6962InclusionProof,
+  computeRfc6962ConsistencyProof,
+  formatCheckpoint,
+  formatSignedNote,
+  formatVerifierKey,
+  cosignCheckpoint,
 } from "@caelex/verity-transparency";
-import { verifyInclusionProof } from "../src/verify-inclusion.js";
+import {
+  verifyInclusionProof,
+  verifyInclusionAgainstCheckpoint,
+} from "../src/verify-inclusion.js";
 import type { InclusionProof } from "../src/types.js";
 
 /** Helper to create a hex-encoded SHA-256 hash */
@@ -176,3 +187,121 @@ describe("verifyInclusionProof", () => {
     expect(result.included).toBe(false);
   });
 });
+
+describe("verifyInclusionAgainstCheckpoint", () => {
+  const ORIGIN = "caelex.eu/verity/transparency";
+  const leaves = Array.from({ length: 6 }, (_, i) =>
+    new TextEncoder().encode(`attestation-${i}`),
+  );
+  const leafHashes = leaves.map(hashRfc6962Leaf);
+
+  /** Helper: a checkpoint over the first `size` leaves, cosigned by each witness */
+  function cosignedCheckpoint(
+    size: number,
+    witnesses: Array<{ name: string; privateKey: string }>,
+  ): string {
+    const body = formatCheckpoint({
+      origin: ORIGIN,
+      treeSize: size,
+      rootHash: computeRfc6962Root(leafHashes.slice(0, size)),
+    });
+    return formatSignedNote({
+      body,
+      signatures: witnesses.map((w) =>
+        cosignCheckpoint(body, w.name, w.privateKey, 1_760_000_000),
+      ),
+    });
+  }
+
+  function witness(name: string) {
+    const keys = generateKeyPair();
+    return {
+      name,
+      privateKey: keys.privateKey,
+      vkey: formatVerifierKey(name, "cosignature/v1", keys.publicKey),
+    };
+  }
+
+  it("accepts a proof against a checkpoint of the same size", () => {
+    const nca = witness("witness.nca.example");
+    const proof = computeRfc6962InclusionProof(leafHashes.slice(0, 5), 3);
+
+    const result = verifyInclusionAgainstCheckpoint(leaves[3]!, proof, {
+      checkpoint: cosignedCheckpoint(5, [nca]),
+      witnesses: [nca.vkey],
+      origin: ORIGIN,
+    });
+
+    expect(result.included).toBe(true);
+    expect(result.cosigners).toEqual(["witness.nca.example"]);
+  });
+
+  it("links an older proof to a newer checkpoint via a consistency proof", () => {
+    const nca = witness("witness.nca.example");
+    const proof = computeRfc6962InclusionProof(leafHashes.slice(0, 4), 1);
+    const trustRoot = {
+      checkpoint: cosignedCheckpoint(6, [nca]),
+      witnesses: [nca.vkey],
+    };
+
+    const without = verifyInclusionAgainstCheckpoint(
+      leaves[1]!,
+      proof,
+      trustRoot,
+    );
+    expect(without.included).toBe(false);
+    expect(without.error).toContain("consistency proof");
+
+    const result = verifyInclusionAgainstCheckpoint(leaves[1]!, proof, {
+      ...trustRoot,
+      consistencyProof: computeRfc6962ConsistencyProof(leafHashes, 4),
+    });
+    expect(result.included).toBe(true);
+    expect(result.checks.treeConsistency).toBe(true);
+  });
+
+  it("rejects a checkpoint no trusted witness cosigned", () => {
+    const nca = witness("witness.nca.example");
+    const impostor = witness("witness.nca.example");
+    const proof = computeRfc6962InclusionProof(leafHashes, 2);
+
+    const result = verifyInclusionAgainstCheckpoint(leaves[2]!, proof, {
+      checkpoint: cosignedCheckpoint(6, [impostor]),
+      witnesses: [nca.vkey],
+    });
+
+    expect(result.included).toBe(false);
+    expect(result.checks.merklePath).toBe(true);
+    expect(result.checks.checkpointCosignatures).toBe(false);
+  });
+
+  it("rejects a proof from a tree the witnesses never saw", () => {
+    const nca = witness("witness.nca.example");
+    const forked = [...leafHashes];
+    forked[0] = hashRfc6962Leaf(new TextEncoder().encode("rewritten"));
+    const proof = computeRfc6962InclusionProof(forked, 2);
+
+    const result = verifyInclusionAgainstCheckpoint(leaves[2]!, proof, {
+      checkpoint: cosignedCheckpoint(6, [nca]),
+      witnesses: [nca.vkey],
+    });
+
+    expect(result.included).toBe(false);
+    expect(result.checks.treeConsistency).toBe(false);
+  });
+
+  it("enforces the witness threshold", () => {
+    const a = witness("a.example");
+    const b = witness("b.example");
+    const proof = computeRfc6962InclusionProof(leafHashes, 0);
+
+    const result = verifyInclusionAgainstCheckpoint(leaves[0]!, proof, {
+      checkpoint: cosignedCheckpoint(6, [a]),
+      witnesses: [a.vkey, b.vkey],
+      threshold: 2,
+    });
+
+    expect(result.included).toBe(false);
+    expect(result.error).toContain("1 of 2");
+  });
+});
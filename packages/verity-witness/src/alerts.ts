@@ -0,0 +1,55 @@
+/**
+ * Verity 2036 -- Fork Alerts
+ *
+ * A fork is logged at error level and, if configured, POSTed to a webhook
+ * with both signed tree heads, which together are portable proof that the
+ * log misbehaved.
+ */
+
+import { logger } from "./logging/logger.js";
+import type { FetchFn } from "./log-client.js";
+import type { ForkEvidence } from "./types.js";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Raise a fork alert. Never throws; a failed webhook is logged.
+ */
+export async function raiseForkAlert(
+  evidence: ForkEvidence,
+  options: { webhook?: string; witness: string; origin: string },
+  fetchFn: FetchFn = fetch,
+): Promise<void> {
+  logger.error("Transparency log fork detected", {
+    kind: evidence.kind,
+    source: evidence.source,
+    witnessed_size: evidence.witnessed.treeSize,
+    conflicting_size: evidence.conflicting.treeSize,
+    detail: evidence.detail,
+  });
+
+  if (!options.webhook) return;
+
+  try {
+    const res = await fetchFn(options.webhook, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        type: "verity.transparency.fork",
+        witness: options.witness,
+        origin: options.origin,
+        evidence,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      logger.error("Fork alert webhook rejected the alert", {
+        status: res.status,
+      });
+    }
+  } catch (err) {
+    logger.error("Fork alert webhook failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Verity 2036 -- Witness Configuration
+ *
+ * Read once at startup from the environment:
+ *
+ *   WITNESS_NAME              key name, e.g. witness.nca.example (required)
+ *   WITNESS_PRIVATE_KEY       hex Ed25519 private key (required)
+ *   WITNESS_LOG_KEYS_FILE     JSON file of pinned platform keys (required)
+ *   WITNESS_LOG_URL           platform base URL (default https://www.caelex.eu)
+ *   WITNESS_ORIGIN            checkpoint origin (default <host>/verity/transparency)
+ *   WITNESS_STATE_FILE        state file (default ./witness-state.json)
+ *   WITNESS_POLL_INTERVAL_MS  poll interval (default 300000, the STH cache TTL)
+ *   WITNESS_ALERT_WEBHOOK     URL that receives fork alerts (optional)
+ *   PORT                      HTTP port (default 3200)
+ */
+
+import { readFileSync } from "node:fs";
+import { toRawPublicKey } from "./sth.js";
+import type { LogKey, WitnessConfig } from "./types.js";
+
+export const DEFAULT_LOG_URL = "https://www.caelex.eu";
+const DEFAULT_POLL_INTERVAL_MS = 300_000;
+const MIN_POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Load pinned log keys. Accepts an array or `{ keys: [...] }` with items
+ * shaped `{ keyId, publicKeyHex }` or `{ key_id, public_key }` (the
+ * platform's /api/v1/verity/public-key shape).
+ *
+ * @throws Error if the file is unreadable or holds no usable key
+ */
+export function loadLogKeys(file: string): LogKey[] {
+  const parsed = JSON.parse(readFileSync(file, "utf-8")) as unknown;
+  const items = Array.isArray(parsed)
+    ? parsed
+    : ((parsed as { keys?: unknown[] } | null)?.keys ?? []);
+
+  const keys = items.map((item): LogKey => {
+    const k = item as Record<string, unknown>;
+    const keyId = k["keyId"] ?? k["key_id"];
+    const publicKey = k["publicKeyHex"] ?? k["public_key"];
+    if (typeof keyId !== "string" || typeof publicKey !== "string") {
+      throw new Error(`${file}: every key needs a key id and public key`);
+    }
+    return { keyId, publicKey: toRawPublicKey(publicKey) };
+  });
+
+  if (keys.length === 0) {
+    throw new Error(`${file}: no log keys found`);
+  }
+  return keys;
+}
+
+/**
+ * Build the witness configuration from environment variables.
+ *
+ * @throws Error naming the first missing or invalid setting
+ */
+export function loadConfig(
+  env: Record<string, string | undefined> = process.env,
+): WitnessConfig {
+  const name = env["WITNESS_NAME"];
+  const privateKey = env["WITNESS_PRIVATE_KEY"];
+  const keysFile = env["WITNESS_LOG_KEYS_FILE"];
+
+  if (!name || /[\s+]/.test(name)) {
+    throw new Error(
+      "WITNESS_NAME is required and may not contain spaces or '+'",
+    );
+  }
+  if (!privateKey || !/^[0-9a-f]{64}$/i.test(privateKey)) {
+    throw new Error("WITNESS_PRIVATE_KEY must be a 32-byte hex Ed25519 key");
+  }
+  if (!keysFile) {
+    throw new Error(
+      "WITNESS_LOG_KEYS_FILE is required (the witness only trusts pinned keys)",
+    );
+  }
+
+  const logUrl = (env["WITNESS_LOG_URL"] ?? DEFAULT_LOG_URL).replace(
+    /\/+$/,
+    "",
+  );
+  const pollIntervalMs = parseInt(
+    env["WITNESS_POLL_INTERVAL_MS"] ?? String(DEFAULT_POLL_INTERVAL_MS),
+    10,
+  );
+  if (
+    !Number.isFinite(pollIntervalMs) ||
+    pollIntervalMs < MIN_POLL_INTERVAL_MS
+  ) {
+    throw new Error(
+      `WITNESS_POLL_INTERVAL_MS must be at least ${MIN_POLL_INTERVAL_MS}`,
+    );
+  }
+
+  return {
+    logUrl,
+    origin:
+      env["WITNESS_ORIGIN"] ??
+      `${new URL(logUrl).host.replace(/^www\./, "")}/verity/transparency`,
+    name,
+    privateKey: privateKey.toLowerCase(),
+    logKeys: loadLogKeys(keysFile),
+    stateFile: env["WITNESS_STATE_FILE"] ?? "./witness-state.json",
+    pollIntervalMs,
+    alertWebhook: env["WITNESS_ALERT_WEBHOOK"] || undefined,
+    port: parseInt(env["PORT"] ?? "3200", 10),
+  };
+}
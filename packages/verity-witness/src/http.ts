@@ -0,0 +1,103 @@
+/**
+ * Verity 2036 -- Witness HTTP API
+ *
+ *   GET  /checkpoint    latest cosigned checkpoint (text/plain signed note)
+ *   GET  /witness-key   this witness's verifier key
+ *   GET  /health        200 while healthy, 503 once a fork was detected
+ *   POST /observe       submit an STH received from the log for checking
+ *
+ * Everything is public: the checkpoint and key are meant to be pinned by
+ * verifiers, and /observe only acts on heads signed by a pinned log key.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { isSignedTreeHead } from "./sth.js";
+import type { Witness } from "./witness.js";
+
+const MAX_BODY_SIZE = 16_384;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendText(res: ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(body);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8")) as unknown;
+}
+
+/**
+ * Build the request handler for a witness.
+ */
+export function createWitnessHandler(
+  witness: Witness,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    const urlPath = (req.url ?? "/").split("?")[0] ?? "/";
+
+    if (req.method === "GET" && urlPath === "/checkpoint") {
+      const checkpoint = witness.checkpoint;
+      if (!checkpoint) {
+        sendJson(res, 404, { error: "no checkpoint cosigned yet" });
+        return;
+      }
+      sendText(res, 200, checkpoint);
+      return;
+    }
+
+    if (req.method === "GET" && urlPath === "/witness-key") {
+      sendText(res, 200, witness.verifierKey + "\n");
+      return;
+    }
+
+    if (req.method === "GET" && urlPath === "/health") {
+      const status = witness.status();
+      sendJson(res, status.fork ? 503 : 200, {
+        status: status.fork ? "fork_detected" : "ok",
+        ...status,
+      });
+      return;
+    }
+
+    if (req.method === "POST" && urlPath === "/observe") {
+      let body: unknown;
+      try {
+        body = await readJson(req);
+      } catch (err) {
+        sendJson(res, 400, {
+          error: err instanceof Error ? err.message : "invalid body",
+        });
+        return;
+      }
+      if (!isSignedTreeHead(body)) {
+        sendJson(res, 400, { error: "body is not a signed tree head" });
+        return;
+      }
+      const outcome = await witness.observe(body);
+      const status =
+        outcome.status === "rejected"
+          ? 422
+          : outcome.status === "error"
+            ? 502
+            : outcome.status === "fork" || outcome.status === "halted"
+              ? 409
+              : 200;
+      sendJson(res, status, outcome);
+      return;
+    }
+
+    sendJson(res, 404, { error: `Not found: ${urlPath}` });
+  };
+}
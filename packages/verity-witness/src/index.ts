@@ -0,0 +1,25 @@
+/**
+ * Verity 2036 — Transparency Log Witness
+ *
+ * @module @caelex/verity-witness
+ *
+ * Independent witness and monitor for the Verity transparency log, for
+ * NCAs and auditors to run. Verifies signed tree heads and consistency
+ * proofs, cosigns checkpoints in the C2SP signed-note format, and alerts
+ * on forks. Run standalone with `npm start` or embed the Witness class.
+ */
+
+export type {
+  SignedTreeHead,
+  ConsistencyResponse,
+  LogKey,
+  WitnessConfig,
+  ForkEvidence,
+  WitnessState,
+  WitnessOutcome,
+} from "./types.js";
+
+export { Witness } from "./witness.js";
+export { createWitnessHandler } from "./http.js";
+export { loadConfig, loadLogKeys, DEFAULT_LOG_URL } from "./config.js";
+export { verifySthSignature, sthSigningBytes } from "./sth.js";
@@ -0,0 +1,71 @@
+/**
+ * Verity 2036 -- Transparency Log Client
+ *
+ * Reads the platform's public transparency endpoints. Every request has a
+ * timeout; failures are returned as null so a flaky network never looks
+ * like log misbehaviour.
+ */
+
+import { isSignedTreeHead } from "./sth.js";
+import type { ConsistencyResponse, SignedTreeHead } from "./types.js";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export type FetchFn = typeof fetch;
+
+async function getJson(url: string, fetchFn: FetchFn): Promise<unknown | null> {
+  try {
+    const res = await fetchFn(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the latest signed tree head. Returns null if there is none yet or
+ * the log is unreachable.
+ */
+export async function fetchLatestSth(
+  logUrl: string,
+  fetchFn: FetchFn = fetch,
+): Promise<SignedTreeHead | null> {
+  const body = await getJson(
+    `${logUrl}/api/v1/verity/transparency/sth/latest`,
+    fetchFn,
+  );
+  return isSignedTreeHead(body) ? body : null;
+}
+
+/**
+ * Fetch a consistency proof between two tree sizes. Returns null if the
+ * log has no proof for that span or is unreachable.
+ */
+export async function fetchConsistency(
+  logUrl: string,
+  oldSize: number,
+  newSize: number,
+  fetchFn: FetchFn = fetch,
+): Promise<ConsistencyResponse | null> {
+  const body = (await getJson(
+    `${logUrl}/api/v1/verity/transparency/consistency?old=${oldSize}&new=${newSize}`,
+    fetchFn,
+  )) as Partial<ConsistencyResponse> | null;
+
+  if (
+    !body ||
+    body.oldSize !== oldSize ||
+    body.newSize !== newSize ||
+    typeof body.oldRoot !== "string" ||
+    typeof body.newRoot !== "string" ||
+    !Array.isArray(body.proof) ||
+    !body.proof.every((h) => typeof h === "string")
+  ) {
+    return null;
+  }
+  return body as ConsistencyResponse;
+}
@@ -0,0 +1,61 @@
+/**
+ * Structured JSON logger for the witness.
+ *
+ * Same line format as verity-server's logger. The witness never logs its
+ * private key; signatures are shortened to their first 16 hex chars.
+ */
+
+type LogLevel = "info" | "warn" | "error";
+
+const SIGNATURE_FIELDS = new Set(["signature", "sth_signature"]);
+
+function shorten(meta: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(meta)) {
+    out[key] =
+      SIGNATURE_FIELDS.has(key) &&
+      typeof value === "string" &&
+      value.length > 16
+        ? value.slice(0, 16) + "..."
+        : value;
+  }
+  return out;
+}
+
+class Logger {
+  constructor(private readonly service = "verity-witness") {}
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    this.log("info", message, meta);
+  }
+
+  warn(message: string, meta?: Record<string, unknown>): void {
+    this.log("warn", message, meta);
+  }
+
+  error(message: string, meta?: Record<string, unknown>): void {
+    this.log("error", message, meta);
+  }
+
+  private log(
+    level: LogLevel,
+    message: string,
+    meta?: Record<string, unknown>,
+  ): void {
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level,
+      service: this.service,
+      message,
+      ...(meta ? shorten(meta) : {}),
+    });
+
+    if (level === "error") {
+      process.stderr.write(line + "\n");
+    } else {
+      process.stdout.write(line + "\n");
+    }
+  }
+}
+
+export const logger = new Logger();
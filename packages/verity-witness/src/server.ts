@@ -0,0 +1,86 @@
+/**
+ * Verity 2036 -- Witness Server
+ *
+ * Runs a witness: polls the platform log every WITNESS_POLL_INTERVAL_MS,
+ * cosigns consistent tree heads, alerts on forks, and serves the latest
+ * cosigned checkpoint over HTTP. See config.ts for the environment.
+ *
+ * Graceful shutdown on SIGINT / SIGTERM.
+ */
+
+import { createServer } from "node:http";
+import { loadConfig } from "./config.js";
+import { createWitnessHandler } from "./http.js";
+import { logger } from "./logging/logger.js";
+import type { WitnessConfig } from "./types.js";
+import { Witness } from "./witness.js";
+
+let config: WitnessConfig;
+try {
+  config = loadConfig();
+} catch (err) {
+  logger.error("Invalid witness configuration", {
+    error: err instanceof Error ? err.message : String(err),
+  });
+  process.exit(1);
+}
+
+const witness = new Witness(config);
+const handler = createWitnessHandler(witness);
+
+const server = createServer((req, res) => {
+  handler(req, res).catch((err: unknown) => {
+    logger.error("Request failed", {
+      path: (req.url ?? "/").split("?")[0],
+      error: err instanceof Error ? err.message : String(err),
+    });
+    if (!res.headersSent) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+    }
+    res.end(JSON.stringify({ error: "internal error" }));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Poll loop
+// ---------------------------------------------------------------------------
+
+let pollTimer: NodeJS.Timeout | undefined;
+
+async function pollLoop(): Promise<void> {
+  try {
+    const outcome = await witness.poll();
+    if (outcome.status === "error" || outcome.status === "rejected") {
+      logger.warn("Poll did not advance the witness", { ...outcome });
+    }
+  } catch (err) {
+    logger.error("Poll failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  pollTimer = setTimeout(() => void pollLoop(), config.pollIntervalMs);
+}
+
+server.listen(config.port, () => {
+  logger.info("Witness started", {
+    port: config.port,
+    log_url: config.logUrl,
+    origin: config.origin,
+    verifier_key: witness.verifierKey,
+  });
+  void pollLoop();
+});
+
+// ---------------------------------------------------------------------------
+// Graceful shutdown
+// ---------------------------------------------------------------------------
+
+function shutdown(signal: string): void {
+  logger.info(`Received ${signal}, shutting down`);
+  clearTimeout(pollTimer);
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(1), 10_000).unref();
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
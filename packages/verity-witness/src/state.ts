@@ -0,0 +1,39 @@
+/**
+ * Verity 2036 -- Witness State
+ *
+ * The witness must remember what it cosigned across restarts; forgetting
+ * would let a log fork the witness by waiting for a redeploy. State is a
+ * single JSON file replaced atomically (write + rename).
+ */
+
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import type { WitnessState } from "./types.js";
+
+/**
+ * Read the state file. Returns null if it does not exist yet.
+ *
+ * @throws Error if the file exists but is corrupt — starting fresh would
+ *   silently re-trust the log
+ */
+export function loadState(file: string): WitnessState | null {
+  let raw: string;
+  try {
+    raw = readFileSync(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+
+  const state = JSON.parse(raw) as WitnessState;
+  if (!state?.sth || typeof state.checkpoint !== "string") {
+    throw new Error(`${file} is not a witness state file`);
+  }
+  return state;
+}
+
+/** Persist the state atomically. */
+export function saveState(file: string, state: WitnessState): void {
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, JSON.stringify(state, null, 2) + "\n", { mode: 0o600 });
+  renameSync(tmp, file);
+}
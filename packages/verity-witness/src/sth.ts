@@ -0,0 +1,86 @@
+/**
+ * Verity 2036 -- Signed Tree Head Verification
+ *
+ * The platform signs tree heads with its Verity issuer key over
+ *
+ *   JSON.stringify({ version, timestamp, treeSize, rootHash, issuerKeyId })
+ *
+ * in exactly that field order (see sthSigningBytes in the app's
+ * merkle-tree.ts). The witness only acts on heads signed by a pinned key.
+ */
+
+import { createPublicKey, verify } from "node:crypto";
+import type { LogKey, SignedTreeHead } from "./types.js";
+
+const SPKI_PREFIX = "302a300506032b6570032100";
+
+/**
+ * Normalise a pinned key to raw hex. The platform publishes SPKI DER hex;
+ * raw 32-byte keys are accepted as well.
+ *
+ * @throws Error if the key is neither
+ */
+export function toRawPublicKey(hex: string): string {
+  const lower = hex.toLowerCase();
+  if (/^[0-9a-f]{64}$/.test(lower)) return lower;
+  if (lower.length === 88 && lower.startsWith(SPKI_PREFIX)) {
+    return lower.slice(SPKI_PREFIX.length);
+  }
+  throw new Error("Log key must be a raw or SPKI-encoded Ed25519 public key");
+}
+
+/** Structural check for an STH received from the network. */
+export function isSignedTreeHead(value: unknown): value is SignedTreeHead {
+  if (!value || typeof value !== "object") return false;
+  const sth = value as Record<string, unknown>;
+  return (
+    sth["version"] === "v1" &&
+    typeof sth["timestamp"] === "string" &&
+    Number.isSafeInteger(sth["treeSize"]) &&
+    (sth["treeSize"] as number) >= 0 &&
+    typeof sth["rootHash"] === "string" &&
+    /^[0-9a-f]{64}$/.test(sth["rootHash"]) &&
+    typeof sth["issuerKeyId"] === "string" &&
+    typeof sth["signature"] === "string"
+  );
+}
+
+/** Bytes the platform signs for a tree head. */
+export function sthSigningBytes(sth: SignedTreeHead): Buffer {
+  return Buffer.from(
+    JSON.stringify({
+      version: "v1",
+      timestamp: sth.timestamp,
+      treeSize: sth.treeSize,
+      rootHash: sth.rootHash,
+      issuerKeyId: sth.issuerKeyId,
+    }),
+    "utf-8",
+  );
+}
+
+/**
+ * Verify an STH signature against the pinned log keys. Never throws.
+ */
+export function verifySthSignature(
+  sth: SignedTreeHead,
+  logKeys: LogKey[],
+): boolean {
+  const key = logKeys.find((k) => k.keyId === sth.issuerKeyId);
+  if (!key) return false;
+  try {
+    const publicKey = createPublicKey({
+      key: Buffer.from(SPKI_PREFIX + key.publicKey, "hex"),
+      format: "der",
+      type: "spki",
+    });
+    return verify(
+      null,
+      sthSigningBytes(sth),
+      publicKey,
+      Buffer.from(sth.signature, "hex"),
+    );
+  } catch {
+    return false;
+  }
+}
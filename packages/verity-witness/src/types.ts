@@ -0,0 +1,82 @@
+/**
+ * Verity 2036 -- Witness Types
+ */
+
+/** Signed tree head as served by /api/v1/verity/transparency/sth/latest */
+export interface SignedTreeHead {
+  timestamp: string;
+  treeSize: number;
+  /** Hex-encoded RFC 6962 root hash */
+  rootHash: string;
+  issuerKeyId: string;
+  /** Hex-encoded Ed25519 signature over the STH signing bytes */
+  signature: string;
+  version: "v1";
+}
+
+/** Response of /api/v1/verity/transparency/consistency */
+export interface ConsistencyResponse {
+  oldSize: number;
+  newSize: number;
+  oldRoot: string;
+  newRoot: string;
+  proof: string[];
+}
+
+/** A platform issuer key the witness accepts STH signatures from */
+export interface LogKey {
+  keyId: string;
+  /** Hex-encoded raw 32-byte Ed25519 public key */
+  publicKey: string;
+}
+
+export interface WitnessConfig {
+  /** Base URL of the platform, e.g. https://www.caelex.eu */
+  logUrl: string;
+  /** Checkpoint origin line, e.g. caelex.eu/verity/transparency */
+  origin: string;
+  /** Witness key name, published alongside the verifier key */
+  name: string;
+  /** Hex-encoded 32-byte Ed25519 private key */
+  privateKey: string;
+  /** Pinned platform issuer keys */
+  logKeys: LogKey[];
+  stateFile: string;
+  pollIntervalMs: number;
+  alertWebhook?: string;
+  port: number;
+}
+
+/** Evidence of log misbehaviour: two signed views that cannot both be true */
+export interface ForkEvidence {
+  kind: "root_mismatch" | "inconsistent_extension" | "inconsistent_rollback";
+  detectedAt: string;
+  /** The tree head the witness had already cosigned */
+  witnessed: SignedTreeHead;
+  /** The signed tree head that contradicts it */
+  conflicting: SignedTreeHead;
+  /** Where the conflicting head came from */
+  source: "poll" | "observed";
+  detail: string;
+}
+
+/** Persistent witness state */
+export interface WitnessState {
+  /** Latest tree head the witness verified and cosigned */
+  sth: SignedTreeHead;
+  /** Cosigned checkpoint note for that tree head */
+  checkpoint: string;
+  cosignedAt: string;
+  /** Set once a fork is detected; the witness stops cosigning */
+  fork?: ForkEvidence;
+}
+
+/** Outcome of one poll or one observed STH */
+export type WitnessOutcome =
+  | { status: "cosigned"; treeSize: number; previousSize: number | null }
+  | { status: "unchanged"; treeSize: number }
+  | { status: "stale"; treeSize: number }
+  | { status: "fork"; evidence: ForkEvidence }
+  | { status: "halted"; evidence: ForkEvidence }
+  | { status: "rejected"; reason: string }
+  | { status: "error"; reason: string };
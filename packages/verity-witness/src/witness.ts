@@ -0,0 +1,284 @@
+/**
+ * Verity 2036 -- Witness
+ *
+ * Watches the platform transparency log on behalf of a third party:
+ *
+ *  1. Every tree head must be signed by a pinned platform key.
+ *  2. A larger tree must be an append-only extension of the last cosigned
+ *     one (RFC 6962 consistency proof, fetched from the log and checked
+ *     locally against the witness's own roots).
+ *  3. A tree of the same size must have the same root; an older one must
+ *     be a prefix of the cosigned tree (stale caches are fine, rewrites
+ *     are not).
+ *
+ * Heads that pass are cosigned as C2SP checkpoints. Anything that proves
+ * two incompatible views is a fork: the witness alerts, records the
+ * evidence and stops cosigning until an operator intervenes.
+ *
+ * Tree heads can come from the witness's own polling or be submitted by
+ * anyone who received one (observe); the latter is what catches a log
+ * that shows different parties different histories.
+ */
+
+import {
+  cosignCheckpoint,
+  formatCheckpoint,
+  formatSignedNote,
+  formatVerifierKey,
+  verifyRfc6962ConsistencyProof,
+} from "@caelex/verity-transparency";
+import { createPrivateKey, createPublicKey } from "node:crypto";
+import { raiseForkAlert } from "./alerts.js";
+import {
+  fetchConsistency,
+  fetchLatestSth,
+  type FetchFn,
+} from "./log-client.js";
+import { logger } from "./logging/logger.js";
+import { loadState, saveState } from "./state.js";
+import { verifySthSignature } from "./sth.js";
+import type {
+  ForkEvidence,
+  SignedTreeHead,
+  WitnessConfig,
+  WitnessOutcome,
+  WitnessState,
+} from "./types.js";
+
+const PKCS8_PREFIX = "302e020100300506032b657004220420";
+
+export class Witness {
+  private readonly fetchFn: FetchFn;
+  private readonly now: () => Date;
+  private state: WitnessState | null;
+  /** Serialises poll/observe so two heads never race on the state file */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /** This witness's published verifier key ("name+hash+base64") */
+  readonly verifierKey: string;
+
+  constructor(
+    private readonly config: WitnessConfig,
+    options: { fetchFn?: FetchFn; now?: () => Date } = {},
+  ) {
+    this.fetchFn = options.fetchFn ?? fetch;
+    this.now = options.now ?? (() => new Date());
+    this.state = loadState(config.stateFile);
+
+    const publicKey = createPublicKey(
+      createPrivateKey({
+        key: Buffer.from(PKCS8_PREFIX + config.privateKey, "hex"),
+        format: "der",
+        type: "pkcs8",
+      }),
+    )
+      .export({ format: "der", type: "spki" })
+      .subarray(12)
+      .toString("hex");
+    this.verifierKey = formatVerifierKey(
+      config.name,
+      "cosignature/v1",
+      publicKey,
+    );
+  }
+
+  /** Latest cosigned checkpoint note, or null before the first poll. */
+  get checkpoint(): string | null {
+    return this.state?.checkpoint ?? null;
+  }
+
+  /** Current witness status for health checks. */
+  status(): {
+    treeSize: number | null;
+    cosignedAt: string | null;
+    fork: ForkEvidence | null;
+  } {
+    return {
+      treeSize: this.state?.sth.treeSize ?? null,
+      cosignedAt: this.state?.cosignedAt ?? null,
+      fork: this.state?.fork ?? null,
+    };
+  }
+
+  /** Fetch the log's latest tree head and process it. */
+  poll(): Promise<WitnessOutcome> {
+    return this.serialise(async () => {
+      const sth = await fetchLatestSth(this.config.logUrl, this.fetchFn);
+      if (!sth) {
+        return { status: "error", reason: "latest STH unavailable" };
+      }
+      return this.process(sth, "poll");
+    });
+  }
+
+  /** Check a tree head someone else received from the log. */
+  observe(sth: SignedTreeHead): Promise<WitnessOutcome> {
+    return this.serialise(() => this.process(sth, "observed"));
+  }
+
+  private serialise(
+    task: () => Promise<WitnessOutcome>,
+  ): Promise<WitnessOutcome> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async process(
+    sth: SignedTreeHead,
+    source: ForkEvidence["source"],
+  ): Promise<WitnessOutcome> {
+    if (this.state?.fork) {
+      return { status: "halted", evidence: this.state.fork };
+    }
+    if (!verifySthSignature(sth, this.config.logKeys)) {
+      logger.warn("Rejected tree head with an untrusted signature", {
+        source,
+        tree_size: sth.treeSize,
+        issuer_key_id: sth.issuerKeyId,
+      });
+      return {
+        status: "rejected",
+        reason: `STH signature does not verify against a pinned key (issuerKeyId ${sth.issuerKeyId})`,
+      };
+    }
+
+    // First tree head: nothing to be consistent with yet
+    if (!this.state) {
+      this.cosign(sth);
+      return { status: "cosigned", treeSize: sth.treeSize, previousSize: null };
+    }
+
+    const witnessed = this.state.sth;
+
+    if (sth.treeSize === witnessed.treeSize) {
+      if (sth.rootHash !== witnessed.rootHash) {
+        return this.fork(
+          "root_mismatch",
+          witnessed,
+          sth,
+          source,
+          `two signed roots for tree size ${sth.treeSize}`,
+        );
+      }
+      // Re-cosign so the checkpoint's timestamp shows the witness is live
+      if (source === "poll") this.cosign(witnessed);
+      return { status: "unchanged", treeSize: sth.treeSize };
+    }
+
+    const [older, newer] =
+      sth.treeSize > witnessed.treeSize ? [witnessed, sth] : [sth, witnessed];
+    const consistency = await fetchConsistency(
+      this.config.logUrl,
+      older.treeSize,
+      newer.treeSize,
+      this.fetchFn,
+    );
+    if (!consistency) {
+      return {
+        status: "error",
+        reason: `consistency proof ${older.treeSize} -> ${newer.treeSize} unavailable`,
+      };
+    }
+
+    // Check the proof against the roots the witness holds signed copies of,
+    // not the roots the log reports alongside it.
+    const consistent = verifyRfc6962ConsistencyProof(
+      consistency.proof,
+      older.treeSize,
+      newer.treeSize,
+      older.rootHash,
+      newer.rootHash,
+    );
+
+    if (sth.treeSize > witnessed.treeSize) {
+      if (!consistent) {
+        return this.fork(
+          "inconsistent_extension",
+          witnessed,
+          sth,
+          source,
+          `tree ${sth.treeSize} does not extend the cosigned tree ${witnessed.treeSize}`,
+        );
+      }
+      this.cosign(sth);
+      return {
+        status: "cosigned",
+        treeSize: sth.treeSize,
+        previousSize: witnessed.treeSize,
+      };
+    }
+
+    if (!consistent) {
+      return this.fork(
+        "inconsistent_rollback",
+        witnessed,
+        sth,
+        source,
+        `tree ${sth.treeSize} is not a prefix of the cosigned tree ${witnessed.treeSize}`,
+      );
+    }
+    return { status: "stale", treeSize: sth.treeSize };
+  }
+
+  private cosign(sth: SignedTreeHead): void {
+    const now = this.now();
+    const body = formatCheckpoint({
+      origin: this.config.origin,
+      treeSize: sth.treeSize,
+      rootHash: sth.rootHash,
+    });
+    const signature = cosignCheckpoint(
+      body,
+      this.config.name,
+      this.config.privateKey,
+      Math.floor(now.getTime() / 1000),
+    );
+
+    const previousSize = this.state?.sth.treeSize;
+    this.state = {
+      sth,
+      checkpoint: formatSignedNote({ body, signatures: [signature] }),
+      cosignedAt: now.toISOString(),
+    };
+    saveState(this.config.stateFile, this.state);
+
+    if (previousSize !== sth.treeSize) {
+      logger.info("Cosigned checkpoint", {
+        tree_size: sth.treeSize,
+        previous_size: previousSize ?? null,
+      });
+    }
+  }
+
+  private async fork(
+    kind: ForkEvidence["kind"],
+    witnessed: SignedTreeHead,
+    conflicting: SignedTreeHead,
+    source: ForkEvidence["source"],
+    detail: string,
+  ): Promise<WitnessOutcome> {
+    const evidence: ForkEvidence = {
+      kind,
+      detectedAt: this.now().toISOString(),
+      witnessed,
+      conflicting,
+      source,
+      detail,
+    };
+    // Keep the last good checkpoint published; only stop advancing it
+    this.state = { ...this.state!, fork: evidence };
+    saveState(this.config.stateFile, this.state);
+
+    await raiseForkAlert(
+      evidence,
+      {
+        webhook: this.config.alertWebhook,
+        witness: this.config.name,
+        origin: this.config.origin,
+      },
+      this.fetchFn,
+    );
+    return { status: "fork", evidence };
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Tests for the witness: cosigning, consistency checks and fork detection
+ * against an in-memory RFC 6962 log served through a fake fetch.
+ */
+
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  computeRfc6962ConsistencyProof,
+  computeRfc6962Root,
+  hashRfc6962Leaf,
+  parseVerifierKey,
+  verifyCosignedCheckpoint,
+} from "@caelex/verity-transparency";
+import { Witness } from "../src/witness.js";
+import { sthSigningBytes } from "../src/sth.js";
+import type { SignedTreeHead, WitnessConfig } from "../src/types.js";
+
+const LOG_URL = "https://log.example";
+const ORIGIN = "log.example/verity/transparency";
+
+/** Helper: raw hex Ed25519 key pair */
+function rawKeyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    keyObject: privateKey,
+    privateKey: privateKey
+      .export({ format: "der", type: "pkcs8" })
+      .subarray(16)
+      .toString("hex"),
+    publicKey: publicKey
+      .export({ format: "der", type: "spki" })
+      .subarray(12)
+      .toString("hex"),
+  };
+}
+
+/** In-memory log that signs tree heads and serves consistency proofs. */
+class FakeLog {
+  readonly key = rawKeyPair();
+  leafHashes: string[] = [];
+  alerts: unknown[] = [];
+
+  append(n: number): void {
+    for (let i = 0; i < n; i++) {
+      const seed = `leaf-${this.leafHashes.length}`;
+      this.leafHashes.push(hashRfc6962Leaf(new TextEncoder().encode(seed)));
+    }
+  }
+
+  sth(size = this.leafHashes.length, hashes = this.leafHashes): SignedTreeHead {
+    const unsigned = {
+      version: "v1" as const,
+      timestamp: new Date(1_760_000_000_000 + size).toISOString(),
+      treeSize: size,
+      rootHash: computeRfc6962Root(hashes.slice(0, size)),
+      issuerKeyId: "verity-2026-01",
+      signature: "",
+    };
+    return {
+      ...unsigned,
+      signature: sign(
+        null,
+        sthSigningBytes(unsigned),
+        this.key.keyObject,
+      ).toString("hex"),
+    };
+  }
+
+  fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    if (url.origin !== LOG_URL) {
+      this.alerts.push(JSON.parse(String(init?.body)));
+      return new Response("{}", { status: 200 });
+    }
+    if (url.pathname.endsWith("/sth/latest")) {
+      return Response.json(this.sth());
+    }
+    if (url.pathname.endsWith("/consistency")) {
+      const oldSize = Number(url.searchParams.get("old"));
+      const newSize = Number(url.searchParams.get("new"));
+      const hashes = this.leafHashes.slice(0, newSize);
+      return Response.json({
+        oldSize,
+        newSize,
+        oldRoot: computeRfc6962Root(hashes.slice(0, oldSize)),
+        newRoot: computeRfc6962Root(hashes),
+        proof: computeRfc6962ConsistencyProof(hashes, oldSize),
+      });
+    }
+    return new Response("{}", { status: 404 });
+  }) as typeof fetch;
+}
+
+describe("Witness", () => {
+  let dir: string;
+  let log: FakeLog;
+  let config: WitnessConfig;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "verity-witness-"));
+    log = new FakeLog();
+    config = {
+      logUrl: LOG_URL,
+      origin: ORIGIN,
+      name: "witness.nca.example",
+      privateKey: rawKeyPair().privateKey,
+      logKeys: [{ keyId: "verity-2026-01", publicKey: log.key.publicKey }],
+      stateFile: join(dir, "state.json"),
+      pollIntervalMs: 60_000,
+      alertWebhook: "https://alerts.example/hook",
+      port: 0,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function witness(): Witness {
+    return new Witness(config, { fetchFn: log.fetch });
+  }
+
+  it("cosigns the first tree head as a verifiable checkpoint", async () => {
+    log.append(5);
+    const w = witness();
+
+    expect(await w.poll()).toEqual({
+      status: "cosigned",
+      treeSize: 5,
+      previousSize: null,
+    });
+
+    const result = verifyCosignedCheckpoint(
+      w.checkpoint!,
+      [parseVerifierKey(w.verifierKey)],
+      { origin: ORIGIN },
+    );
+    expect(result.valid).toBe(true);
+    expect(result.checkpoint?.rootHash).toBe(log.sth().rootHash);
+  });
+
+  it("advances only along consistent extensions", async () => {
+    log.append(3);
+    const w = witness();
+    await w.poll();
+
+    log.append(4);
+    expect(await w.poll()).toMatchObject({
+      status: "cosigned",
+      treeSize: 7,
+      previousSize: 3,
+    });
+    expect(await w.poll()).toEqual({ status: "unchanged", treeSize: 7 });
+  });
+
+  it("refuses tree heads not signed by a pinned key", async () => {
+    log.append(2);
+    const w = witness();
+    const forged = { ...log.sth(), rootHash: "ab".repeat(32) };
+
+    const outcome = await w.observe(forged);
+    expect(outcome.status).toBe("rejected");
+    expect(w.checkpoint).toBeNull();
+  });
+
+  it("detects a rewritten history and stops cosigning", async () => {
+    log.append(4);
+    const w = witness();
+    await w.poll();
+
+    // The log rewrites leaf 1 and keeps growing
+    log.leafHashes[1] = hashRfc6962Leaf(new TextEncoder().encode("rewritten"));
+    log.append(2);
+    const outcome = await w.poll();
+
+    expect(outcome.status).toBe("fork");
+    expect(log.alerts).toHaveLength(1);
+    expect(log.alerts[0]).toMatchObject({
+      type: "verity.transparency.fork",
+      evidence: { kind: "inconsistent_extension", source: "poll" },
+    });
+    expect(w.status().treeSize).toBe(4);
+    expect((await w.poll()).status).toBe("halted");
+  });
+
+  it("detects a split view from an observed tree head", async () => {
+    log.append(6);
+    const w = witness();
+    await w.poll();
+
+    // Someone else was shown a different tree of the same size
+    const other = [...log.leafHashes];
+    other[5] = hashRfc6962Leaf(new TextEncoder().encode("other view"));
+    const outcome = await w.observe(log.sth(6, other));
+
+    expect(outcome).toMatchObject({
+      status: "fork",
+      evidence: { kind: "root_mismatch", source: "observed" },
+    });
+  });
+
+  it("accepts an older head that is a prefix of the cosigned tree", async () => {
+    log.append(8);
+    const w = witness();
+    await w.poll();
+
+    expect(await w.observe(log.sth(5))).toEqual({
+      status: "stale",
+      treeSize: 5,
+    });
+  });
+
+  it("remembers the cosigned tree across restarts", async () => {
+    log.append(3);
+    await witness().poll();
+
+    log.leafHashes[0] = hashRfc6962Leaf(new TextEncoder().encode("rewritten"));
+    const restarted = witness();
+    expect(restarted.status().treeSize).toBe(3);
+    expect((await restarted.poll()).status).toBe("fork");
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    globals: false,
+    testTimeout: 30_000,
+    pool: "forks",
+    setupFiles: [],
+  },
+});
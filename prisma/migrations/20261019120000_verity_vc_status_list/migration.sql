@@ -0,0 +1,19 @@
+-- Verity — W3C VC 2.0 export with StatusList2021 revocation.
+--
+-- Each attestation / passport exported as a Verifiable Credential gets a
+-- position in its kind's revocation status list. The index is assigned
+-- on first export (random, see src/lib/verity/vc/issuer.server.ts) and
+-- never changes, so it must be unique per table. Rows never exported
+-- keep NULL; revocation still flows from the existing "revokedAt".
+--
+-- STRICTLY ADDITIVE — nullable columns + unique indexes.
+
+ALTER TABLE "VerityAttestation" ADD COLUMN "statusListIndex" INTEGER;
+
+ALTER TABLE "VerityPassport" ADD COLUMN "statusListIndex" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VerityAttestation_statusListIndex_key" ON "VerityAttestation"("statusListIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VerityPassport_statusListIndex_key" ON "VerityPassport"("statusListIndex");
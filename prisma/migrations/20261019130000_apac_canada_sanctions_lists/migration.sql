@@ -0,0 +1,17 @@
+-- Caelex Trade — Japan, Canada and Australia sanctions lists.
+--
+-- APAC and Canadian deals need screening against the national lists of
+-- the destination authorities, which neither OFAC / EU / UK / UN nor
+-- the aggregated OpenSanctions index cover with primary-source
+-- provenance:
+--   JP_METI_EUL — METI End User List (FEFTA catch-all, WMD concern)
+--   CA_SEMA     — Canada Consolidated Autonomous Sanctions List
+--                 (SEMA + JVCFOA designations)
+--   AU_DFAT     — DFAT Consolidated List (Autonomous Sanctions
+--                 Regulations 2011 + UN Charter regulations)
+--
+-- Each gets its own snapshot stream, same as the existing lists.
+
+ALTER TYPE "TradeSanctionsList" ADD VALUE 'JP_METI_EUL';
+ALTER TYPE "TradeSanctionsList" ADD VALUE 'CA_SEMA';
+ALTER TYPE "TradeSanctionsList" ADD VALUE 'AU_DFAT';
@@ -0,0 +1,45 @@
+-- Caelex Trade — licence usage ledger.
+--
+-- Every EXECUTED operation now debits the licences its lines ship under:
+-- one row per operation line, attributed to the licence line item it
+-- matched, carrying quantity and value (integer cents). The existing
+-- "TradeLicense"."drawnDownValue" accumulator is incremented in the same
+-- transaction; this table is the itemised record behind it and the
+-- source of the authority usage report.
+--
+-- STRICTLY ADDITIVE — new table only.
+
+-- CreateTable
+CREATE TABLE "TradeLicenseLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "licenseId" TEXT NOT NULL,
+    "operationId" TEXT,
+    "operationReference" TEXT NOT NULL,
+    "operationLineId" TEXT NOT NULL,
+    "lineItemId" TEXT,
+    "controlCode" TEXT,
+    "itemName" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "value" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "recordedById" TEXT NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+
+    CONSTRAINT "TradeLicenseLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeLicenseLedgerEntry_licenseId_operationLineId_key" ON "TradeLicenseLedgerEntry"("licenseId", "operationLineId");
+
+-- CreateIndex
+CREATE INDEX "TradeLicenseLedgerEntry_licenseId_recordedAt_idx" ON "TradeLicenseLedgerEntry"("licenseId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "TradeLicenseLedgerEntry_operationId_idx" ON "TradeLicenseLedgerEntry"("operationId");
+
+-- AddForeignKey
+ALTER TABLE "TradeLicenseLedgerEntry" ADD CONSTRAINT "TradeLicenseLedgerEntry_licenseId_fkey" FOREIGN KEY ("licenseId") REFERENCES "TradeLicense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TradeLicenseLedgerEntry" ADD CONSTRAINT "TradeLicenseLedgerEntry_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "TradeOperation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Generate 2.0 — NIS2 and CRA document types.
+--
+-- Four deliverables fed from the NIS2 and CRA assessments:
+--   NIS2_RISK_POLICY              — E1: Art. 21 risk-management policy
+--   NIS2_INCIDENT_NOTIFICATION    — E2: Art. 23 notification pack
+--   CRA_TECHNICAL_DOCUMENTATION   — F1: Annex VII technical documentation
+--   CRA_DECLARATION_OF_CONFORMITY — F2: Annex V EU declaration of conformity
+
+ALTER TYPE "NCADocumentType" ADD VALUE 'NIS2_RISK_POLICY';
+ALTER TYPE "NCADocumentType" ADD VALUE 'NIS2_INCIDENT_NOTIFICATION';
+ALTER TYPE "NCADocumentType" ADD VALUE 'CRA_TECHNICAL_DOCUMENTATION';
+ALTER TYPE "NCADocumentType" ADD VALUE 'CRA_DECLARATION_OF_CONFORMITY';
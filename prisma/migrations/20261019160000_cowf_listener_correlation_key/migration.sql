@@ -0,0 +1,10 @@
+-- COWF — correlation keys for waitForEvent listeners.
+--
+-- `step.waitForEvent({ correlationKey: "{{subjectId}}" })` resolves the
+-- template when the listener is registered; publishWorkflowEvent() only
+-- delivers to keyed listeners whose key matches the published event.
+
+ALTER TABLE "WorkflowEventListener" ADD COLUMN "correlationKey" TEXT;
+
+CREATE INDEX "WorkflowEventListener_eventType_correlationKey_status_idx"
+  ON "WorkflowEventListener"("eventType", "correlationKey", "status");
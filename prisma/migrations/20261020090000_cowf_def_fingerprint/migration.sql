@@ -0,0 +1,7 @@
+-- COWF — definition fingerprints for versioned workflows.
+--
+-- registerWorkflowDef() stores a SHA-256 of the canonical definition and
+-- refuses to re-register an existing (name, version) with a different
+-- one. Existing rows are backfilled on their next registration.
+
+ALTER TABLE "OperatorWorkflowDef" ADD COLUMN "fingerprint" TEXT;
@@ -0,0 +1,38 @@
+-- Pharos — behördlich verfasste Workflow-Maschinen
+-- =================================================
+-- JSON/YAML-Definitionen, validiert + simuliert vor dem Publish. Siehe
+-- src/lib/pharos/workflow-machine-spec.ts.
+
+CREATE TABLE "WorkflowMachineDef" (
+  "id" TEXT NOT NULL,
+  "authorityProfileId" TEXT NOT NULL,
+  "machineId" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "fsmId" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "sourceFormat" TEXT NOT NULL,
+  "source" TEXT NOT NULL,
+  "definition" JSONB NOT NULL,
+  "definitionHash" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'DRAFT',
+  "simulationScript" JSONB,
+  "simulationResult" JSONB,
+  "simulatedHash" TEXT,
+  "simulatedAt" TIMESTAMP(3),
+  "createdBy" TEXT NOT NULL,
+  "publishedBy" TEXT,
+  "publishedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "WorkflowMachineDef_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "WorkflowMachineDef_fsmId_key"
+  ON "WorkflowMachineDef"("fsmId");
+CREATE UNIQUE INDEX "WorkflowMachineDef_machineId_version_key"
+  ON "WorkflowMachineDef"("machineId", "version");
+CREATE INDEX "WorkflowMachineDef_authorityProfileId_status_idx"
+  ON "WorkflowMachineDef"("authorityProfileId", "status");
+CREATE INDEX "WorkflowMachineDef_status_idx"
+  ON "WorkflowMachineDef"("status");
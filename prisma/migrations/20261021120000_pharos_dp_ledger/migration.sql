@@ -0,0 +1,22 @@
+-- Pharos — persistentes Differential-Privacy-Budget
+-- ==================================================
+-- Ersetzt den In-Memory-Budget-Store (Audit T2-P1). Siehe
+-- src/lib/pharos/differential-privacy-service.ts.
+
+CREATE TABLE "PharosDpLedgerEntry" (
+  "id" TEXT NOT NULL,
+  "authorityProfileId" TEXT NOT NULL,
+  "actorUserId" TEXT,
+  "day" TEXT NOT NULL,
+  "queryKind" TEXT NOT NULL,
+  "query" JSONB NOT NULL,
+  "epsilon" DOUBLE PRECISION NOT NULL,
+  "partitionGroup" TEXT,
+  "partitionKey" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "PharosDpLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "PharosDpLedgerEntry_authorityProfileId_day_idx"
+  ON "PharosDpLedgerEntry"("authorityProfileId", "day");
@@ -0,0 +1,191 @@
+#!/usr/bin/env tsx
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * scripts/trade-classification-regression.ts
+ *
+ * Golden-set classification regression run + corpus promotion gate.
+ *
+ * Runs the 12 golden items through the full pure classification pipeline
+ * (`golden-set/regression-harness.ts`) and prints precision/recall per
+ * control list. With a baseline it also diffs every item's verdict and
+ * applies the promotion gate — exit code 1 when a confirmed code the
+ * baseline found is no longer found, so CI can refuse a corpus change.
+ *
+ * Pure TS — NO AI, NO network, zero external cost.
+ *
+ * USAGE:
+ *   npx tsx scripts/trade-classification-regression.ts
+ *       [--as-of YYYY-MM-DD]           evaluate the corpus as of this date
+ *       [--baseline-as-of YYYY-MM-DD]  baseline = the corpus as of this date
+ *       [--baseline report.json]       baseline = a report saved with --out
+ *       [--out report.json]            save this run's report
+ *
+ * CORPUS-CHANGE WORKFLOW:
+ *   1. On main: `… --out /tmp/golden-baseline.json`.
+ *   2. On the branch that edits the cross-walk / corpus / rule manifest:
+ *      `… --baseline /tmp/golden-baseline.json` — review the item diff; a
+ *      non-zero exit means a confirmed code regressed and the change must
+ *      not be promoted.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+
+import {
+  diffRegressionReports,
+  evaluatePromotion,
+  runClassificationRegression,
+  type PromotionDecision,
+  type RegressionDiff,
+  type RegressionReport,
+} from "@/lib/comply-v2/trade/classification/golden-set/regression-harness";
+
+interface CliArgs {
+  asOf?: Date;
+  baselineAsOf?: Date;
+  baselinePath?: string;
+  outPath?: string;
+}
+
+function parseDate(flag: string, value: string | undefined): Date {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`${flag} expects YYYY-MM-DD`);
+  }
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function parseArgs(argv: readonly string[]): CliArgs {
+  const args: CliArgs = {};
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case "--as-of":
+        args.asOf = parseDate(flag, value);
+        break;
+      case "--baseline-as-of":
+        args.baselineAsOf = parseDate(flag, value);
+        break;
+      case "--baseline":
+        if (!value) throw new Error("--baseline expects a report path");
+        args.baselinePath = value;
+        break;
+      case "--out":
+        if (!value) throw new Error("--out expects a file path");
+        args.outPath = value;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${flag}`);
+    }
+    i += 1;
+  }
+  if (args.baselineAsOf && args.baselinePath) {
+    throw new Error("Use either --baseline or --baseline-as-of, not both");
+  }
+  return args;
+}
+
+function pct(v: number | null): string {
+  return v === null ? "   —  " : `${(v * 100).toFixed(1).padStart(5)}%`;
+}
+
+function formatReport(report: RegressionReport): string {
+  const lines: string[] = [];
+  lines.push("");
+  lines.push("====================================================");
+  lines.push("  Passage Trade — Golden-Set Classification Regression");
+  lines.push("====================================================");
+  lines.push(`  Golden set : ${report.goldenSetVersion}`);
+  lines.push(
+    `  Corpus     : ${report.corpus.id} (as of ${report.corpus.asOf}, ` +
+      `cross-walk ${report.corpus.crossWalkAsOf}, ` +
+      `${report.corpus.crossWalkEntries} entries)`,
+  );
+  lines.push("----------------------------------------------------");
+  lines.push("  LIST              PRECISION  RECALL   TP  FP  FN  UNSCORED");
+  lines.push("----------------------------------------------------");
+  for (const l of report.lists) {
+    lines.push(
+      `  ${l.list.padEnd(16)}  ${pct(l.precision)}    ${pct(l.recall)}  ` +
+        `${String(l.truePositives).padStart(3)} ${String(l.falsePositives).padStart(3)} ` +
+        `${String(l.falseNegatives).padStart(3)}  ${String(l.unscored).padStart(6)}`,
+    );
+  }
+  lines.push("====================================================");
+  return lines.join("\n");
+}
+
+function formatDiff(diff: RegressionDiff, decision: PromotionDecision): string {
+  const lines: string[] = [];
+  lines.push(
+    `  Baseline corpus ${diff.baselineCorpus.id} → candidate ${diff.candidateCorpus.id}`,
+  );
+  if (diff.ruleChanges.length > 0) {
+    lines.push(`  Rule manifest flips: ${diff.ruleChanges.join(", ")}`);
+  }
+  const changed = diff.items.filter((i) => i.change !== "UNCHANGED");
+  lines.push(
+    `  Item verdicts: ${changed.length} changed / ${diff.items.length} total`,
+  );
+  for (const item of changed) {
+    lines.push(`    ${item.itemId} [${item.change}]`);
+    for (const a of item.added) lines.push(`      + ${a.list} ${a.code}`);
+    for (const r of item.removed) {
+      const mark = item.regressed.some(
+        (g) => g.list === r.list && g.code === r.code,
+      )
+        ? "  ✗ CONFIRMED"
+        : "";
+      lines.push(`      - ${r.list} ${r.code}${mark}`);
+    }
+  }
+  for (const w of decision.warnings) lines.push(`  ⚠ ${w}`);
+  lines.push("----------------------------------------------------");
+  lines.push(
+    decision.allowed
+      ? "  PROMOTION: allowed — no confirmed code regressed."
+      : "  PROMOTION: BLOCKED",
+  );
+  for (const b of decision.blockers) lines.push(`    ✗ ${b}`);
+  lines.push("====================================================");
+  lines.push("");
+  return lines.join("\n");
+}
+
+function main(): void {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error((err as Error).message + " — see the file header for usage.");
+    process.exit(2);
+  }
+
+  const report = runClassificationRegression({ asOf: args.asOf });
+  // eslint-disable-next-line no-console
+  console.log(formatReport(report));
+  if (args.outPath) {
+    writeFileSync(args.outPath, JSON.stringify(report, null, 2));
+    // eslint-disable-next-line no-console
+    console.log(`  Report written to ${args.outPath}\n`);
+  }
+
+  let baseline: RegressionReport | null = null;
+  if (args.baselinePath) {
+    baseline = JSON.parse(
+      readFileSync(args.baselinePath, "utf8"),
+    ) as RegressionReport;
+  } else if (args.baselineAsOf) {
+    baseline = runClassificationRegression({ asOf: args.baselineAsOf });
+  }
+  if (!baseline) return;
+
+  const diff = diffRegressionReports(baseline, report);
+  const decision = evaluatePromotion(diff);
+  // eslint-disable-next-line no-console
+  console.log(formatDiff(diff, decision));
+  if (!decision.allowed) process.exit(1);
+}
+
+main();
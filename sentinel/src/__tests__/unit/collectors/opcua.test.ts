@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { OpcUaCollector } from "../../../collectors/opcua.js";
+import { MockOpcUaServer } from "../../../simulator/mock-opcua-server.js";
+import type {
+  SentinelConfig,
+  OpcUaCollectorConfig,
+} from "../../../types/config-types.js";
+
+const PORT = 48400;
+
+function makeConfig(opcua: Partial<OpcUaCollectorConfig>): SentinelConfig {
+  const collector = { enabled: true, schedule: "*/5 * * * *" };
+  return {
+    sentinel: {
+      operator_id: "test-operator",
+      operator_name: "Test Operator",
+      satellites: [{ norad_id: "58421", name: "SAT", orbit_type: "LEO" }],
+    },
+    collectors: {
+      orbit_debris: collector,
+      cybersecurity: collector,
+      ground_station: collector,
+      document_watch: collector,
+      opcua: {
+        ...collector,
+        endpoint_url: `opc.tcp://localhost:${PORT}/UA/CaelexGroundSegment`,
+        security_mode: "None",
+        security_policy: "None",
+        station_id: "GS-EU-01",
+        nodes: [],
+        ...opcua,
+      },
+      syslog: {
+        ...collector,
+        enabled: false,
+        protocol: "udp",
+        host: "127.0.0.1",
+        port: 5514,
+        max_buffered_events: 1000,
+        significant_severity: 8,
+      },
+    },
+    transport: {
+      caelex_api_url: "https://caelex.eu",
+      sentinel_token: "",
+      retry_max_attempts: 1,
+      retry_max_delay_ms: 1000,
+      buffer_max_days: 1,
+      buffer_segment_mb: 16,
+      buffer_max_mb: 1024,
+      replay_batch_size: 200,
+    },
+    dashboard: { enabled: false, port: 8443 },
+    mode: "simulator",
+  };
+}
+
+describe("OPC UA Collector", () => {
+  const server = new MockOpcUaServer(PORT);
+  let endpoint = "";
+
+  beforeAll(async () => {
+    endpoint = await server.start();
+  }, 30_000);
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  function makeCollector(): OpcUaCollector {
+    return new OpcUaCollector(
+      makeConfig({ endpoint_url: endpoint, nodes: server.nodeMappings() }),
+    );
+  }
+
+  it("splits station metrics and spacecraft telemetry", async () => {
+    const outputs = await makeCollector().collect();
+
+    const station = outputs.find(
+      (o) => o.data_point === "ground_segment_telemetry",
+    );
+    const spacecraft = outputs.find(
+      (o) => o.data_point === "orbital_parameters",
+    );
+
+    expect(station?.values).toMatchObject({
+      station_id: "GS-EU-01",
+      contact_success_rate_pct: 98.4,
+      ground_station_availability_pct: 99.2,
+      redundant_chain_available: true,
+      frequency_coordination_status: "CURRENT",
+    });
+    expect(station?.satellite_norad_id).toBeUndefined();
+
+    expect(spacecraft?.satellite_norad_id).toBe("58421");
+    expect(spacecraft?.values).toMatchObject({
+      remaining_fuel_pct: 61.5,
+      thruster_status: "NOMINAL",
+    });
+  }, 30_000);
+
+  it("excludes bad-status nodes and notes them", async () => {
+    server.setBad("remaining_fuel_pct", "58421");
+    server.set("redundant_chain_available", false);
+    try {
+      const outputs = await makeCollector().collect();
+      const station = outputs.find(
+        (o) => o.data_point === "ground_segment_telemetry",
+      )!;
+      const spacecraft = outputs.find(
+        (o) => o.data_point === "orbital_parameters",
+      )!;
+
+      expect(spacecraft.values["remaining_fuel_pct"]).toBeUndefined();
+      expect(spacecraft.compliance_notes[0]).toContain("BadSensorFailure");
+      expect(station.compliance_notes).toContain(
+        "Redundant RF chain unavailable",
+      );
+    } finally {
+      server.set("remaining_fuel_pct", 61.5, "58421");
+      server.set("redundant_chain_available", true);
+    }
+  }, 30_000);
+
+  it("records an error when the endpoint is unreachable", async () => {
+    const collector = new OpcUaCollector(
+      makeConfig({
+        endpoint_url: "opc.tcp://localhost:1/UA/Nowhere",
+        nodes: server.nodeMappings(),
+      }),
+    );
+
+    await expect(collector.collect()).rejects.toThrow();
+    expect(collector.getHealth().errorCount).toBe(1);
+  }, 30_000);
+});
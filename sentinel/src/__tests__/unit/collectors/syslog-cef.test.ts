@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { SyslogCefCollector } from "../../../collectors/syslog-cef.js";
+import { MockSyslogSource } from "../../../simulator/mock-syslog-source.js";
+import { evaluateCompliance } from "../../../engine/extraction-engine.js";
+import type {
+  SentinelConfig,
+  SyslogCollectorConfig,
+} from "../../../types/config-types.js";
+
+function makeConfig(syslog: Partial<SyslogCollectorConfig>): SentinelConfig {
+  const collector = { enabled: true, schedule: "*/10 * * * *" };
+  return {
+    sentinel: {
+      operator_id: "test-operator",
+      operator_name: "Test Operator",
+      satellites: [{ norad_id: "58421", name: "SAT", orbit_type: "LEO" }],
+    },
+    collectors: {
+      orbit_debris: collector,
+      cybersecurity: collector,
+      ground_station: collector,
+      document_watch: collector,
+      opcua: {
+        ...collector,
+        enabled: false,
+        endpoint_url: "opc.tcp://localhost:4840",
+        security_mode: "None",
+        security_policy: "None",
+        station_id: "gs",
+        nodes: [],
+      },
+      syslog: {
+        ...collector,
+        protocol: "udp",
+        host: "127.0.0.1",
+        port: 0,
+        max_buffered_events: 1000,
+        significant_severity: 8,
+        ...syslog,
+      },
+    },
+    transport: {
+      caelex_api_url: "https://caelex.eu",
+      sentinel_token: "",
+      retry_max_attempts: 1,
+      retry_max_delay_ms: 1000,
+      buffer_max_days: 1,
+      buffer_segment_mb: 16,
+      buffer_max_mb: 1024,
+      replay_batch_size: 200,
+    },
+    dashboard: { enabled: false, port: 8443 },
+    mode: "simulator",
+  };
+}
+
+// Loopback delivery is asynchronous
+const settle = () => new Promise((resolve) => setTimeout(resolve, 150));
+
+describe("Syslog/CEF Collector", () => {
+  let collector: SyslogCefCollector | null = null;
+
+  afterEach(async () => {
+    await collector?.stop();
+    collector = null;
+  });
+
+  async function startCollector(
+    syslog: Partial<SyslogCollectorConfig> = {},
+  ): Promise<MockSyslogSource> {
+    collector = new SyslogCefCollector(makeConfig(syslog));
+    await collector.start();
+    return new MockSyslogSource({
+      host: "127.0.0.1",
+      port: collector.getPort()!,
+      protocol: syslog.protocol ?? "udp",
+    });
+  }
+
+  it("summarises UDP events by severity and flags significant ones", async () => {
+    const source = await startCollector();
+    await source.emitBaseline(6);
+    await source.emitIncident();
+    await settle();
+
+    const [output] = await collector!.collect();
+    const values = output!.values;
+
+    expect(output!.data_point).toBe("security_events");
+    expect(values["events_received"]).toBe(12);
+    expect(values["events_by_severity"]).toEqual({
+      very_high: 1,
+      high: 0,
+      medium: 5,
+      low: 6,
+    });
+    expect(values["significant_events"]).toBe(1);
+    expect(values["auth_failures"]).toBe(5);
+    expect(values["source_hosts"]).toEqual([
+      "fw-gs-01",
+      "ids-gs-01",
+      "mcs-01",
+      "ttc-01",
+    ]);
+    expect(
+      (values["top_signatures"] as Array<{ signature_id: string }>)[0]!
+        .signature_id,
+    ).toBe("AUTH-101");
+    expect(output!.compliance_notes.join(" ")).toContain("NIS2 Art. 23");
+  });
+
+  it("receives octet-counted frames over TCP", async () => {
+    const source = await startCollector({ protocol: "tcp" });
+    await source.emitIncident();
+    await settle();
+
+    const [output] = await collector!.collect();
+    expect(output!.source_system).toBe("syslog_tcp");
+    expect(output!.values["events_received"]).toBe(6);
+  });
+
+  it("drains the buffer each cycle and notes silence", async () => {
+    const source = await startCollector();
+    await source.emitBaseline(2);
+    await settle();
+
+    await collector!.collect();
+    const [second] = await collector!.collect();
+
+    expect(second!.values["events_received"]).toBe(0);
+    expect(second!.compliance_notes[0]).toContain("No security events");
+  });
+
+  it("counts events beyond the buffer limit as dropped", async () => {
+    const source = await startCollector({ max_buffered_events: 3 });
+    await source.emitBaseline(5);
+    await settle();
+
+    const [output] = await collector!.collect();
+    expect(output!.values["events_received"]).toBe(3);
+    expect(output!.values["events_dropped"]).toBe(2);
+  });
+
+  it("maps significant events to NIS2 Art. 23 rules", async () => {
+    const source = await startCollector();
+    await source.emitIncident();
+    await settle();
+
+    const [output] = await collector!.collect();
+    const mappings = evaluateCompliance(output!);
+
+    expect(mappings).toHaveLength(2);
+    expect(mappings.map((m) => m.status).sort()).toEqual([
+      "MONITORED",
+      "WARNING",
+    ]);
+  });
+});
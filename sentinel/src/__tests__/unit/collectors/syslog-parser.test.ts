@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseSyslog,
+  parseCef,
+  splitTcpFrames,
+  normalizedSeverity,
+} from "../../../collectors/syslog-parser.js";
+
+describe("Syslog Parser", () => {
+  it("parses an RFC 5424 message with a CEF payload", () => {
+    const msg = parseSyslog(
+      "<162>1 2026-03-01T10:00:00.000Z ids-gs-01 suricata 4242 ALERT - CEF:0|Suricata|IDS|7.0|2019401|ET EXPLOIT Possible command injection|9|src=198.51.100.23 dst=10.20.0.12 dpt=8443",
+    )!;
+
+    expect(msg.facility).toBe(20);
+    expect(msg.severity).toBe(2);
+    expect(msg.timestamp).toBe("2026-03-01T10:00:00.000Z");
+    expect(msg.hostname).toBe("ids-gs-01");
+    expect(msg.appName).toBe("suricata");
+    expect(msg.cef).toMatchObject({
+      version: 0,
+      deviceVendor: "Suricata",
+      deviceProduct: "IDS",
+      signatureId: "2019401",
+      name: "ET EXPLOIT Possible command injection",
+      severity: 9,
+      extensions: { src: "198.51.100.23", dst: "10.20.0.12", dpt: "8443" },
+    });
+  });
+
+  it("skips RFC 5424 structured data before the message", () => {
+    const msg = parseSyslog(
+      '<165>1 2026-03-01T10:00:00Z mcs-01 app - ID47 [exampleSDID@32473 iut="3" eventSource="App\\]lication"] Operator login',
+    )!;
+    expect(msg.message).toBe("Operator login");
+    expect(msg.cef).toBeNull();
+  });
+
+  it("parses an RFC 3164 message with a tag", () => {
+    const msg = parseSyslog(
+      "<34>Oct 11 22:14:15 mymachine su[231]: 'su root' failed for lonvick on /dev/pts/8",
+    )!;
+    expect(msg.facility).toBe(4);
+    expect(msg.severity).toBe(2);
+    expect(msg.hostname).toBe("mymachine");
+    expect(msg.appName).toBe("su");
+    expect(msg.message).toBe("'su root' failed for lonvick on /dev/pts/8");
+    expect(msg.timestamp).toMatch(/-10-11T22:14:15\.000Z$/);
+  });
+
+  it("accepts bare CEF without a syslog header", () => {
+    const msg = parseSyslog("CEF:0|Vendor|Product|1|100|Test|Low|")!;
+    expect(msg.cef!.severity).toBe(3);
+    expect(msg.severity).toBe(5);
+  });
+
+  it("unescapes CEF header pipes and extension equals signs", () => {
+    const cef = parseCef(
+      "CEF:0|Acme\\|Corp|Gate|1.0|42|Rule a\\\\b|High|msg=x\\=1 and more cs1Label=Note cs1=line1\\nline2",
+    )!;
+    expect(cef.deviceVendor).toBe("Acme|Corp");
+    expect(cef.name).toBe("Rule a\\b");
+    expect(cef.severity).toBe(8);
+    expect(cef.extensions).toEqual({
+      msg: "x=1 and more",
+      cs1Label: "Note",
+      cs1: "line1\nline2",
+    });
+  });
+
+  it("rejects truncated CEF headers and out-of-range severities", () => {
+    expect(parseCef("CEF:0|Vendor|Product|1|100|Test")).toBeNull();
+    expect(parseCef("CEF:0|Vendor|Product|1|100|Test|11|")).toBeNull();
+    expect(parseSyslog("   ")).toBeNull();
+    expect(parseSyslog("<999>1 - - - - - - hello")).toBeNull();
+  });
+
+  it("normalises severity onto the CEF scale", () => {
+    expect(normalizedSeverity(parseSyslog("<10>plain critical message")!)).toBe(
+      8,
+    );
+    expect(
+      normalizedSeverity(parseSyslog("<14>CEF:0|V|P|1|1|N|Very-High|")!),
+    ).toBe(10);
+  });
+
+  it("splits octet-counted and LF-delimited TCP frames", () => {
+    const a = "<13>1 - host app - - - first";
+    const b = "<13>1 - host app - - - second";
+    const stream = Buffer.from(
+      `${Buffer.byteLength(a)} ${a}<13>plain line\n${Buffer.byteLength(b)} ${b.slice(0, 10)}`,
+    );
+
+    const { frames, rest } = splitTcpFrames(stream);
+    expect(frames).toEqual([a, "<13>plain line"]);
+
+    const next = splitTcpFrames(
+      Buffer.concat([rest, Buffer.from(b.slice(10))]),
+    );
+    expect(next.frames).toEqual([b]);
+    expect(next.rest.length).toBe(0);
+  });
+});
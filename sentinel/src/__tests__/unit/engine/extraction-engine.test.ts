@@ -476,6 +476,77 @@ describe("NIS2 Art. 23 — Incident Reporting", () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+// NIS2 — Art. 23(4)(a) Early Warning / Art. 21(2)(c) Continuity
+// ═══════════════════════════════════════════════════════════════════════
+
+describe("NIS2 Art. 23(4)(a) — Early Warning", () => {
+  function securityEvents(significant: number): CollectorOutput {
+    return {
+      data_point: "security_events",
+      source_system: "test",
+      collection_method: "test",
+      compliance_notes: [],
+      values: {
+        events_received: 40,
+        significant_events: significant,
+        reportable_incidents: significant,
+      },
+    };
+  }
+
+  it("no significant events → COMPLIANT", () => {
+    const m = findMapping(evaluateCompliance(securityEvents(0)), "art_23_4_a");
+    expect(m?.status).toBe("COMPLIANT");
+  });
+
+  it("significant event → WARNING (early warning due within 24h)", () => {
+    const m = findMapping(evaluateCompliance(securityEvents(1)), "art_23_4_a");
+    expect(m?.status).toBe("WARNING");
+  });
+});
+
+describe("NIS2 Art. 21(2)(c) — Ground Segment Continuity", () => {
+  function groundSegment(values: Record<string, unknown>): CollectorOutput {
+    return {
+      data_point: "ground_segment_telemetry",
+      source_system: "test",
+      collection_method: "test",
+      compliance_notes: [],
+      values: {
+        station_id: "GS-EU-01",
+        contact_success_rate_pct: 98,
+        ground_station_availability_pct: 99,
+        redundant_chain_available: true,
+        ...values,
+      },
+    };
+  }
+
+  it("availability 99% with redundancy → COMPLIANT", () => {
+    const m = findMapping(evaluateCompliance(groundSegment({})), "art_21_2_c");
+    expect(m?.status).toBe("COMPLIANT");
+  });
+
+  it("redundant chain down → WARNING", () => {
+    const m = findMapping(
+      evaluateCompliance(groundSegment({ redundant_chain_available: false })),
+      "art_21_2_c",
+    );
+    expect(m?.status).toBe("WARNING");
+  });
+
+  it("availability 85% → NON_COMPLIANT", () => {
+    const m = findMapping(
+      evaluateCompliance(
+        groundSegment({ ground_station_availability_pct: 85 }),
+      ),
+      "art_21_2_c",
+    );
+    expect(m?.status).toBe("NON_COMPLIANT");
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════
 // MULTI-THRESHOLD & EDGE CASES
 // ═══════════════════════════════════════════════════════════════════════
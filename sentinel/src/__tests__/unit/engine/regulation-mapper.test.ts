@@ -38,6 +38,20 @@ describe("Regulation Mapper", () => {
     expect(rules).toContain("eu_space_act_art_7_licensing");
   });
 
+  it("ground_segment_telemetry → 2 rules", () => {
+    const rules = getRulesForDataPoint("ground_segment_telemetry");
+    expect(rules).toHaveLength(2);
+    expect(rules).toContain("eu_space_act_art_64_gs_contact");
+    expect(rules).toContain("nis2_art_21_business_continuity");
+  });
+
+  it("security_events → 2 rules", () => {
+    const rules = getRulesForDataPoint("security_events");
+    expect(rules).toHaveLength(2);
+    expect(rules).toContain("nis2_art_23_incident_reporting");
+    expect(rules).toContain("nis2_art_23_early_warning");
+  });
+
   it("unknown data_point → empty array", () => {
     const rules = getRulesForDataPoint("unknown_data_point");
     expect(rules).toEqual([]);
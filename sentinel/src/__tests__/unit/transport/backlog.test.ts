@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import {
+  mkdirSync,
+  rmSync,
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+} from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { hashContent } from "../../../crypto/hasher.js";
+import { signContent } from "../../../crypto/signer.js";
+import {
+  exportBacklog,
+  verifyBacklog,
+  readBacklogFile,
+} from "../../../transport/backlog.js";
+import type { OfflineBuffer } from "../../../transport/buffer.js";
+import type { EvidencePacket } from "../../../types/evidence-packet.js";
+
+const testDir = join(tmpdir(), `sentinel-test-backlog-${Date.now()}`);
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const keys = {
+  privateKey,
+  publicKeyPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+};
+
+/** A correctly hashed, signed and linked chain of `count` packets */
+function makeChain(count: number, from = 0): EvidencePacket[] {
+  const packets: EvidencePacket[] = [];
+  let previousHash = "sha256:genesis";
+
+  for (let position = from; position < from + count; position++) {
+    const data = {
+      data_point: "orbital_parameters",
+      values: { altitude_km: 550 - position },
+      source_system: "test",
+      collection_method: "test",
+      collection_timestamp: new Date(2026, 0, 1, position).toISOString(),
+      compliance_notes: [],
+    };
+    const contentHash = hashContent({ data, regulation_mapping: [] });
+    packets.push({
+      packet_id: `pkt_${position}`,
+      version: "1.0",
+      sentinel_id: "snt_test",
+      operator_id: "test-op",
+      satellite_norad_id: "58421",
+      data,
+      regulation_mapping: [],
+      integrity: {
+        content_hash: contentHash,
+        previous_hash: previousHash,
+        chain_position: position,
+        signature: signContent(contentHash, keys.privateKey),
+        agent_public_key: keys.publicKeyPem,
+        timestamp_source: "system_clock",
+      },
+      metadata: {
+        sentinel_version: "1.4.2",
+        collector: "test",
+        config_hash: "test",
+        uptime_seconds: 0,
+        packets_sent_total: position,
+      },
+    });
+    previousHash = contentHash;
+  }
+
+  return packets;
+}
+
+function memoryBuffer(packets: EvidencePacket[]) {
+  const buffer = {
+    getUnsent: (limit = 100, after = -1) =>
+      packets.filter((p) => p.integrity.chain_position > after).slice(0, limit),
+  };
+  return buffer as unknown as OfflineBuffer;
+}
+
+describe("Backlog bundles", () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("exports the backlog in chunked chain order with a signed manifest", () => {
+    const { dir, manifest, packetIds } = exportBacklog(
+      memoryBuffer(makeChain(5)),
+      testDir,
+      keys,
+      { sentinelId: "snt_test", chunkSize: 2 },
+    );
+
+    expect(dir).toContain("sentinel-backlog-snt_test-0-4");
+    expect(manifest).toMatchObject({
+      packet_count: 5,
+      first_position: 0,
+      last_position: 4,
+      chain_anchor: "sha256:genesis",
+    });
+    expect(manifest.files.map((f) => f.packet_count)).toEqual([2, 2, 1]);
+    expect(packetIds).toHaveLength(5);
+
+    const second = readBacklogFile(dir, manifest.files[1]!);
+    expect(second.map((p) => p.integrity.chain_position)).toEqual([2, 3]);
+  });
+
+  it("verifies an untouched bundle", () => {
+    const { dir } = exportBacklog(memoryBuffer(makeChain(5)), testDir, keys, {
+      sentinelId: "snt_test",
+      chunkSize: 2,
+    });
+
+    const result = verifyBacklog(dir);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it("reports gaps without invalidating the bundle", () => {
+    const chain = makeChain(6);
+    const withGap = [...chain.slice(0, 2), ...chain.slice(4)];
+    const { dir } = exportBacklog(memoryBuffer(withGap), testDir, keys, {
+      sentinelId: "snt_test",
+    });
+
+    const result = verifyBacklog(dir);
+    expect(result.valid).toBe(true);
+    expect(result.gaps).toEqual([{ from_position: 2, to_position: 3 }]);
+  });
+
+  it("detects a modified chunk file", () => {
+    const { dir, manifest } = exportBacklog(
+      memoryBuffer(makeChain(3)),
+      testDir,
+      keys,
+      { sentinelId: "snt_test" },
+    );
+    writeFileSync(join(dir, manifest.files[0]!.name), "tampered");
+
+    const result = verifyBacklog(dir);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain("file hash mismatch");
+  });
+
+  it("detects a modified manifest", () => {
+    const { dir } = exportBacklog(memoryBuffer(makeChain(3)), testDir, keys, {
+      sentinelId: "snt_test",
+    });
+    const path = join(dir, "manifest.json");
+    const manifest = JSON.parse(readFileSync(path, "utf-8"));
+    manifest.packet_count = 2;
+    writeFileSync(path, JSON.stringify(manifest));
+
+    const result = verifyBacklog(dir);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("manifest: signature invalid");
+  });
+
+  it("refuses an empty backlog and an existing bundle", () => {
+    expect(() =>
+      exportBacklog(memoryBuffer([]), testDir, keys, {
+        sentinelId: "snt_test",
+      }),
+    ).toThrow("No unsent packets");
+
+    const buffer = memoryBuffer(makeChain(2));
+    exportBacklog(buffer, testDir, keys, { sentinelId: "snt_test" });
+    expect(() =>
+      exportBacklog(buffer, testDir, keys, { sentinelId: "snt_test" }),
+    ).toThrow("Bundle already exists");
+    expect(readdirSync(testDir)).toHaveLength(1);
+  });
+});
@@ -126,6 +126,63 @@ describe("Offline Buffer", () => {
     buffer.close();
   });
 
+  it("quarantined packets leave the unsent set but are kept", async () => {
+    const { OfflineBuffer } = await import("../../../transport/buffer.js");
+    const buffer = new OfflineBuffer();
+
+    buffer.store(makePacket("pkt_0", 0));
+    buffer.store(makePacket("pkt_1", 1));
+    buffer.quarantine("pkt_0", "Rejected: HTTP 422 Unprocessable Entity");
+
+    expect(buffer.unsentCount()).toBe(1);
+    expect(buffer.getUnsent(10).map((p) => p.packet_id)).toEqual(["pkt_1"]);
+    expect(buffer.getQuarantined()).toMatchObject([
+      {
+        packet_id: "pkt_0",
+        chain_position: 0,
+        reason: "Rejected: HTTP 422 Unprocessable Entity",
+      },
+    ]);
+    expect(buffer.stats()).toMatchObject({
+      unsent: 1,
+      quarantined: 1,
+      oldest_unsent_position: 1,
+    });
+
+    buffer.purge(0);
+    expect(buffer.getQuarantined()).toHaveLength(1);
+    buffer.close();
+  });
+
+  it("adds the quarantine columns to segments from older agents", async () => {
+    const Database = (await import("better-sqlite3")).default;
+    mkdirSync(join(testDir, "buffer"), { recursive: true });
+    const legacy = new Database(join(testDir, "buffer", "segment-000001.db"));
+    legacy.exec(`
+      CREATE TABLE buffered_packets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        packet_id TEXT UNIQUE NOT NULL,
+        chain_position INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        sent_at TEXT
+      )
+    `);
+    legacy
+      .prepare(
+        `INSERT INTO buffered_packets (packet_id, chain_position, payload) VALUES (?, ?, ?)`,
+      )
+      .run("pkt_old", 0, JSON.stringify(makePacket("pkt_old", 0)));
+    legacy.close();
+
+    const { OfflineBuffer } = await import("../../../transport/buffer.js");
+    const buffer = new OfflineBuffer();
+    expect(buffer.unsentCount()).toBe(1);
+    buffer.quarantine("pkt_old", "Rejected: HTTP 400 Bad Request");
+    expect(buffer.unsentCount()).toBe(0);
+    buffer.close();
+  });
+
   it("purge removes old sent packets", async () => {
     const { OfflineBuffer } = await import("../../../transport/buffer.js");
     const buffer = new OfflineBuffer();
@@ -141,4 +198,50 @@ describe("Offline Buffer", () => {
 
     buffer.close();
   });
+
+  it("rotates to a new segment at the size limit and keeps chain order", async () => {
+    const { OfflineBuffer } = await import("../../../transport/buffer.js");
+    const buffer = new OfflineBuffer({ segmentBytes: 16 * 1024 });
+
+    for (let i = 0; i < 40; i++) buffer.store(makePacket(`pkt_${i}`, i));
+
+    const stats = buffer.stats();
+    expect(stats.segments).toBeGreaterThan(1);
+    expect(stats.unsent).toBe(40);
+    expect(stats.oldest_unsent_position).toBe(0);
+    expect(stats.newest_unsent_position).toBe(39);
+
+    const unsent = buffer.getUnsent(100);
+    expect(unsent.map((p) => p.integrity.chain_position)).toEqual(
+      Array.from({ length: 40 }, (_, i) => i),
+    );
+    expect(buffer.getUnsent(5, 30).map((p) => p.packet_id)).toEqual([
+      "pkt_31",
+      "pkt_32",
+      "pkt_33",
+      "pkt_34",
+      "pkt_35",
+    ]);
+
+    buffer.close();
+  });
+
+  it("drops the oldest segment beyond the total size limit", async () => {
+    const { OfflineBuffer } = await import("../../../transport/buffer.js");
+    const buffer = new OfflineBuffer({
+      segmentBytes: 16 * 1024,
+      maxBytes: 48 * 1024,
+    });
+
+    for (let i = 0; i < 200; i++) buffer.store(makePacket(`pkt_${i}`, i));
+
+    const stats = buffer.stats();
+    // Checked on rotation, so the active segment may add up to one more
+    expect(stats.bytes).toBeLessThanOrEqual((48 + 16) * 1024);
+    expect(stats.unsent).toBeLessThan(200);
+    // The newest packets always survive
+    expect(stats.newest_unsent_position).toBe(199);
+
+    buffer.close();
+  });
 });
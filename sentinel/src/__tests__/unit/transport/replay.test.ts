@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { gunzipSync } from "node:zlib";
+import {
+  ChainReplayer,
+  checkContinuity,
+  type BatchResponse,
+} from "../../../transport/replay.js";
+import type { OfflineBuffer } from "../../../transport/buffer.js";
+import type { EvidencePacket } from "../../../types/evidence-packet.js";
+
+function makePacket(position: number, previousHash?: string): EvidencePacket {
+  return {
+    packet_id: `pkt_${position}`,
+    version: "1.0",
+    sentinel_id: "snt_test",
+    operator_id: "test-op",
+    satellite_norad_id: "58421",
+    data: {
+      data_point: "test",
+      values: {},
+      source_system: "test",
+      collection_method: "test",
+      collection_timestamp: new Date().toISOString(),
+      compliance_notes: [],
+    },
+    regulation_mapping: [],
+    integrity: {
+      content_hash: `sha256:hash_${position}`,
+      previous_hash:
+        previousHash ??
+        (position === 0 ? "sha256:genesis" : `sha256:hash_${position - 1}`),
+      chain_position: position,
+      signature: "ed25519:test",
+      agent_public_key: "test",
+      timestamp_source: "system_clock",
+    },
+    metadata: {
+      sentinel_version: "1.4.2",
+      collector: "test",
+      config_hash: "test",
+      uptime_seconds: 0,
+      packets_sent_total: 0,
+    },
+  };
+}
+
+/** In-memory stand-in for the SQLite buffer */
+function memoryBuffer(packets: EvidencePacket[]) {
+  const unsent = new Map(packets.map((p) => [p.packet_id, p]));
+  const buffer = {
+    getUnsent: (limit = 100) =>
+      [...unsent.values()]
+        .sort((a, b) => a.integrity.chain_position - b.integrity.chain_position)
+        .slice(0, limit),
+    markSent: (id: string) => {
+      unsent.delete(id);
+    },
+    quarantine: (id: string, reason: string) => {
+      unsent.delete(id);
+      quarantined.set(id, reason);
+    },
+    unsentCount: () => unsent.size,
+  };
+  return buffer as unknown as OfflineBuffer;
+}
+
+const quarantined = new Map<string, string>();
+
+function batchPackets(init: RequestInit): EvidencePacket[] {
+  return (
+    JSON.parse(gunzipSync(init.body as Buffer).toString("utf-8")) as {
+      packets: EvidencePacket[];
+    }
+  ).packets;
+}
+
+function accepting(chain: BatchResponse["chain"] = { gaps: [], forks: [] }) {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const body = JSON.parse(
+      gunzipSync(init.body as Buffer).toString("utf-8"),
+    ) as { packets: EvidencePacket[] };
+    const response: BatchResponse = {
+      accepted: body.packets.length,
+      duplicates: 0,
+      rejected: 0,
+      results: body.packets.map((p) => ({
+        packet_id: p.packet_id,
+        chain_position: p.integrity.chain_position,
+        status: "accepted",
+      })),
+      chain,
+    };
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(response),
+    });
+  });
+}
+
+describe("checkContinuity", () => {
+  it("accepts an unbroken chain", () => {
+    const packets = [0, 1, 2].map((i) => makePacket(i));
+    expect(checkContinuity(packets)).toEqual({ gaps: [], forks: [] });
+  });
+
+  it("reports missing positions as a gap", () => {
+    const packets = [makePacket(0), makePacket(4, "sha256:hash_3")];
+    expect(checkContinuity(packets).gaps).toEqual([
+      { from_position: 1, to_position: 3 },
+    ]);
+  });
+
+  it("reports a previous-hash mismatch as a fork", () => {
+    const packets = [makePacket(0), makePacket(1, "sha256:other")];
+    expect(checkContinuity(packets).forks).toEqual([
+      {
+        position: 1,
+        expected: "sha256:hash_0",
+        actual: "sha256:other",
+      },
+    ]);
+  });
+
+  it("continues from an anchor", () => {
+    const { gaps } = checkContinuity([makePacket(7, "sha256:hash_6")], {
+      position: 4,
+      hash: "sha256:hash_4",
+    });
+    expect(gaps).toEqual([{ from_position: 5, to_position: 6 }]);
+  });
+});
+
+describe("ChainReplayer", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    quarantined.clear();
+  });
+
+  it("replays in chain order as gzip batches", async () => {
+    const fetchMock = accepting();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const buffer = memoryBuffer([3, 0, 4, 1, 2].map((i) => makePacket(i)));
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 2,
+    });
+
+    const report = await replayer.replay();
+    expect(report).toMatchObject({ batches: 3, sent: 5, remaining: 0 });
+
+    const [url, init] = fetchMock.mock.calls[0]! as [string, RequestInit];
+    expect(url).toBe("https://test.caelex.eu/api/v1/sentinel/ingest/batch");
+    expect((init.headers as Record<string, string>)["Content-Encoding"]).toBe(
+      "gzip",
+    );
+
+    const positions = fetchMock.mock.calls.flatMap(([, i]) =>
+      (
+        JSON.parse(gunzipSync(i.body as Buffer).toString("utf-8")) as {
+          packets: EvidencePacket[];
+        }
+      ).packets.map((p) => p.integrity.chain_position),
+    );
+    expect(positions).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("resumes after an interrupted replay", async () => {
+    let calls = 0;
+    const ok = accepting();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation((url: string, init: RequestInit) => {
+        calls++;
+        // Second batch fails on every quick retry
+        if (calls >= 2 && calls <= 4) {
+          return Promise.reject(new Error("ECONNRESET"));
+        }
+        return ok(url, init);
+      }),
+    );
+
+    const buffer = memoryBuffer([0, 1, 2, 3].map((i) => makePacket(i)));
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 2,
+    });
+
+    const first = await replayer.replay();
+    expect(first).toMatchObject({ batches: 1, sent: 2, remaining: 2 });
+
+    const second = await replayer.replay();
+    expect(second).toMatchObject({ batches: 1, sent: 2, remaining: 0 });
+  }, 30_000);
+
+  it("surfaces gaps and forks reported by the server", async () => {
+    vi.stubGlobal(
+      "fetch",
+      accepting({ gaps: [{ from_position: 0, to_position: 9 }], forks: [] }),
+    );
+
+    const buffer = memoryBuffer([makePacket(10, "sha256:hash_9")]);
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 50,
+    });
+
+    const report = await replayer.replay();
+    expect(report.gaps).toEqual([{ from_position: 0, to_position: 9 }]);
+  });
+
+  it("stops without settling packets on auth failure", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+      }),
+    );
+
+    const buffer = memoryBuffer([makePacket(0)]);
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "bad-token",
+      batchSize: 50,
+    });
+
+    const report = await replayer.replay();
+    expect(report).toMatchObject({ batches: 0, sent: 0, remaining: 1 });
+  });
+
+  it("keeps the buffer intact when the agent is forbidden", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const buffer = memoryBuffer([0, 1, 2].map((i) => makePacket(i)));
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 2,
+    });
+
+    const report = await replayer.replay();
+    expect(report).toMatchObject({
+      batches: 0,
+      sent: 0,
+      rejected: 0,
+      quarantined: [],
+      remaining: 3,
+    });
+    expect(quarantined.size).toBe(0);
+    // Not retried and not split into smaller batches
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("pauses without quarantining when a whole batch is refused", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 422,
+        statusText: "Unprocessable Entity",
+      }),
+    );
+
+    const buffer = memoryBuffer([0, 1].map((i) => makePacket(i)));
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 50,
+    });
+
+    const report = await replayer.replay();
+    expect(report).toMatchObject({ rejected: 0, remaining: 2 });
+    expect(quarantined.size).toBe(0);
+  });
+
+  it("quarantines packets the server rejects individually", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        const packets = batchPackets(init);
+        const response: BatchResponse = {
+          accepted: packets.length - 1,
+          duplicates: 0,
+          rejected: 1,
+          results: packets.map((p) => ({
+            packet_id: p.packet_id,
+            chain_position: p.integrity.chain_position,
+            ...(p.packet_id === "pkt_1"
+              ? { status: "rejected" as const, error: "Invalid signature" }
+              : { status: "accepted" as const }),
+          })),
+          chain: { gaps: [], forks: [] },
+        };
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve(response),
+        });
+      }),
+    );
+
+    const buffer = memoryBuffer([0, 1, 2].map((i) => makePacket(i)));
+    const replayer = new ChainReplayer(buffer, {
+      apiUrl: "https://test.caelex.eu",
+      token: "test-token",
+      batchSize: 50,
+    });
+
+    const report = await replayer.replay();
+    expect(report).toMatchObject({ sent: 2, rejected: 1, remaining: 0 });
+    expect(quarantined.get("pkt_1")).toBe("Invalid signature");
+  });
+});
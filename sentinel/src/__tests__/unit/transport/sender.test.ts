@@ -133,6 +133,45 @@ describe("PacketSender", () => {
     expect(result.success).toBe(false);
     expect(result.statusCode).toBe(403);
     expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sender.getBufferStats().quarantined).toBe(0);
+    sender.close();
+  });
+
+  it("400 is not retried and the packet is quarantined, not backlogged", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+      })
+      .mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ chain_position: 1 }),
+      });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const { PacketSender } = await import("../../../transport/sender.js");
+    const sender = new PacketSender({
+      transport: {
+        caelex_api_url: "https://test.caelex.eu",
+        sentinel_token: "test-token",
+        retry_max_attempts: 3,
+        retry_max_delay_ms: 1000,
+        buffer_max_days: 30,
+      },
+    } as any);
+
+    const rejected = await sender.send(makePacket({ packet_id: "sp_bad" }));
+    expect(rejected).toMatchObject({ success: false, statusCode: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sender.getBufferCount()).toBe(0);
+    expect(sender.getBufferStats().quarantined).toBe(1);
+
+    // The next live packet is not held behind the rejected one
+    const next = await sender.send(makePacket({ packet_id: "sp_next" }));
+    expect(next.success).toBe(true);
     sender.close();
   });
 
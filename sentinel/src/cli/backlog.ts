@@ -0,0 +1,145 @@
+import { loadConfig } from "../config/loader.js";
+import { loadOrGenerateKeys, deriveSentinelId } from "../crypto/keys.js";
+import { OfflineBuffer } from "../transport/buffer.js";
+import {
+  exportBacklog,
+  readBacklogFile,
+  verifyBacklog,
+  type BacklogVerification,
+} from "../transport/backlog.js";
+import { postBatch } from "../transport/replay.js";
+import { withRetry } from "../transport/retry.js";
+
+/**
+ * Backlog tool for stations that stay offline too long to replay.
+ *
+ *   node dist/cli/backlog.js export <media-dir> [--mark-sent]
+ *   node dist/cli/backlog.js verify <bundle-dir>
+ *   node dist/cli/backlog.js upload <bundle-dir>
+ *
+ * `export` runs on the station (stop the agent first so the buffer is not
+ * written concurrently). `--mark-sent` settles the exported packets locally;
+ * without it they are also replayed once the uplink returns, which the
+ * server accepts as duplicates. `upload` runs anywhere with network access
+ * and the station's SENTINEL_TOKEN.
+ */
+
+const USAGE =
+  "Usage: backlog <export <media-dir> [--mark-sent] | verify <bundle-dir> | upload <bundle-dir>>";
+
+async function main(argv: string[]): Promise<number> {
+  const [command, target, ...flags] = argv;
+  if (!command || !target) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  switch (command) {
+    case "export":
+      return runExport(target, flags.includes("--mark-sent"));
+    case "verify":
+      return report(verifyBacklog(target)) ? 0 : 1;
+    case "upload":
+      return runUpload(target);
+    default:
+      console.error(USAGE);
+      return 2;
+  }
+}
+
+function runExport(mediaDir: string, markSent: boolean): number {
+  const keys = loadOrGenerateKeys();
+  const sentinelId = deriveSentinelId(keys.publicKeyPem);
+  const buffer = new OfflineBuffer();
+  try {
+    const { dir, manifest, packetIds } = exportBacklog(buffer, mediaDir, keys, {
+      sentinelId,
+    });
+    if (markSent) {
+      for (const id of packetIds) buffer.markSent(id);
+    }
+    console.log(
+      `[backlog] Exported ${manifest.packet_count} packets (chain ${manifest.first_position}–${manifest.last_position}) to ${dir}`,
+    );
+    return 0;
+  } finally {
+    buffer.close();
+  }
+}
+
+async function runUpload(bundleDir: string): Promise<number> {
+  const verification = verifyBacklog(bundleDir);
+  if (!report(verification)) {
+    console.error("[backlog] Refusing to upload an invalid bundle");
+    return 1;
+  }
+
+  const config = loadConfig();
+  const target = {
+    apiUrl: config.transport.caelex_api_url,
+    token: config.transport.sentinel_token,
+  };
+  const batchSize = config.transport.replay_batch_size;
+  const totals = { accepted: 0, duplicates: 0, rejected: 0, gaps: 0, forks: 0 };
+
+  for (const file of verification.manifest.files) {
+    const packets = readBacklogFile(bundleDir, file);
+    for (let i = 0; i < packets.length; i += batchSize) {
+      const batch = packets.slice(i, i + batchSize);
+      const result = await withRetry(() => postBatch(target, batch), {
+        maxAttempts: config.transport.retry_max_attempts,
+        maxDelayMs: 30000,
+        onRetry: (attempt, err) => {
+          console.log(`[backlog] Retry ${attempt}: ${err}`);
+        },
+      });
+      if (!result.success) {
+        console.error(`[backlog] ${result.error}`);
+        return 1;
+      }
+      const { response } = result;
+      totals.accepted += response.accepted;
+      totals.duplicates += response.duplicates;
+      totals.rejected += response.rejected;
+      totals.gaps += response.chain.gaps.length;
+      totals.forks += response.chain.forks.length;
+      for (const r of response.results) {
+        if (r.status === "rejected") {
+          console.warn(
+            `[backlog] Rejected ${r.packet_id} (chain ${r.chain_position}): ${r.error}`,
+          );
+        }
+      }
+    }
+  }
+
+  console.log(
+    `[backlog] Uploaded: ${totals.accepted} accepted, ${totals.duplicates} duplicate, ${totals.rejected} rejected; server reported ${totals.gaps} gap(s), ${totals.forks} fork(s)`,
+  );
+  return totals.rejected > 0 || totals.forks > 0 ? 1 : 0;
+}
+
+function report(v: BacklogVerification): boolean {
+  const m = v.manifest;
+  console.log(
+    `[backlog] ${m.sentinel_id}: ${m.packet_count} packets, chain ${m.first_position}–${m.last_position}, exported ${m.exported_at}`,
+  );
+  for (const e of v.errors) console.error(`[backlog] ${e}`);
+  for (const g of v.gaps) {
+    console.warn(
+      `[backlog] Gap: positions ${g.from_position}–${g.to_position}`,
+    );
+  }
+  for (const f of v.forks)
+    console.error(`[backlog] Fork at position ${f.position}`);
+  console.log(`[backlog] ${v.valid ? "Bundle valid" : "Bundle INVALID"}`);
+  return v.valid;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error("[backlog]", err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
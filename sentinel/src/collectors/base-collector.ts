@@ -20,6 +20,12 @@ export abstract class BaseCollector {
   abstract collect(): Promise<CollectorOutput[]>;
   abstract getSchedule(): CronSchedule;
 
+  /** Open long-lived resources (listeners, sockets) before the first cycle */
+  async start(): Promise<void> {}
+
+  /** Release resources opened in start() */
+  async stop(): Promise<void> {}
+
   async healthCheck(): Promise<boolean> {
     return true;
   }
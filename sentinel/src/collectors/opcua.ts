@@ -0,0 +1,249 @@
+import {
+  OPCUAClient,
+  AttributeIds,
+  MessageSecurityMode,
+  SecurityPolicy,
+  UserTokenType,
+  type ClientSession,
+  type DataValue,
+  type UserIdentityInfo,
+} from "node-opcua";
+import { BaseCollector } from "./base-collector.js";
+import type {
+  CollectorOutput,
+  CronSchedule,
+} from "../types/collector-types.js";
+import type {
+  SentinelConfig,
+  OpcUaCollectorConfig,
+  OpcUaNodeMapping,
+} from "../types/config-types.js";
+
+/**
+ * OPC UA collector.
+ *
+ * Reads ground-segment telemetry from an OPC UA server (ground station
+ * controllers, TT&C front ends, mission control gateways). Each configured
+ * node maps to one evidence field: nodes without a NORAD ID form the
+ * station's `ground_segment_telemetry` output, nodes with one form an
+ * `orbital_parameters` output for that spacecraft.
+ *
+ * Nodes with a bad status code are left out of the values and noted.
+ */
+
+interface NodeReading {
+  node: OpcUaNodeMapping;
+  value: number | boolean | string | null;
+  status: string;
+  good: boolean;
+  sourceTimestamp: string | null;
+}
+
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+export class OpcUaCollector extends BaseCollector {
+  readonly name = "OPC UA Telemetry";
+  readonly id = "opcua";
+
+  private options: OpcUaCollectorConfig;
+
+  constructor(config: SentinelConfig) {
+    super();
+    this.options = config.collectors.opcua;
+  }
+
+  getSchedule(): CronSchedule {
+    return { expression: "*/5 * * * *", description: "Every 5 minutes" };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.withSession(async () => undefined);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async collect(): Promise<CollectorOutput[]> {
+    try {
+      if (this.options.nodes.length === 0) {
+        throw new Error("No OPC UA nodes configured");
+      }
+
+      const readings = await this.withSession(async (session) => {
+        const dataValues = await session.read(
+          this.options.nodes.map((n) => ({
+            nodeId: n.node_id,
+            attributeId: AttributeIds.Value,
+          })),
+        );
+        return this.options.nodes.map((node, i) =>
+          toReading(node, dataValues[i]),
+        );
+      });
+
+      const groups = new Map<string | null, NodeReading[]>();
+      for (const r of readings) {
+        const key = r.node.norad_id ?? null;
+        groups.set(key, [...(groups.get(key) ?? []), r]);
+      }
+
+      const outputs: CollectorOutput[] = [];
+      for (const [noradId, group] of groups) {
+        const notes = qualityNotes(group);
+        const values: Record<string, unknown> = {};
+        for (const r of group) {
+          if (r.good) values[r.node.field] = r.value;
+        }
+
+        if (noradId === null) {
+          outputs.push({
+            data_point: "ground_segment_telemetry",
+            source_system: "opcua",
+            collection_method: "opcua_read",
+            compliance_notes: [...notes, ...stationNotes(values)],
+            values: {
+              station_id: this.options.station_id,
+              ...values,
+              opcua_endpoint: this.options.endpoint_url,
+              collection_timestamp: new Date().toISOString(),
+            },
+          });
+        } else {
+          outputs.push({
+            data_point: "orbital_parameters",
+            source_system: "opcua",
+            collection_method: "opcua_read",
+            compliance_notes: notes,
+            satellite_norad_id: noradId,
+            values: {
+              ...values,
+              opcua_endpoint: this.options.endpoint_url,
+              collection_timestamp: new Date().toISOString(),
+            },
+          });
+        }
+      }
+
+      this.markSuccess();
+      return outputs;
+    } catch (err) {
+      this.markError(err);
+      throw err;
+    }
+  }
+
+  /** Connect, open a session, run `fn`, and always tear both down */
+  private async withSession<T>(
+    fn: (session: ClientSession) => Promise<T>,
+  ): Promise<T> {
+    const client = OPCUAClient.create({
+      applicationName: "Caelex Sentinel",
+      securityMode: MessageSecurityMode[this.options.security_mode],
+      securityPolicy: SecurityPolicy[this.options.security_policy],
+      endpointMustExist: false,
+      connectionStrategy: { maxRetry: 1, initialDelay: 500, maxDelay: 2000 },
+    });
+
+    await client.connect(this.options.endpoint_url);
+    try {
+      const session = await client.createSession(this.userIdentity());
+      try {
+        return await fn(session);
+      } finally {
+        await session.close();
+      }
+    } finally {
+      await client.disconnect();
+    }
+  }
+
+  private userIdentity(): UserIdentityInfo {
+    if (this.options.username) {
+      return {
+        type: UserTokenType.UserName,
+        userName: this.options.username,
+        password: this.options.password ?? "",
+      };
+    }
+    return { type: UserTokenType.Anonymous };
+  }
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+function toReading(
+  node: OpcUaNodeMapping,
+  dv: DataValue | undefined,
+): NodeReading {
+  if (!dv) {
+    return {
+      node,
+      value: null,
+      status: "NoValue",
+      good: false,
+      sourceTimestamp: null,
+    };
+  }
+  return {
+    node,
+    value: toScalar(dv.value.value),
+    status: dv.statusCode.name,
+    good: dv.statusCode.isGood(),
+    sourceTimestamp: dv.sourceTimestamp
+      ? dv.sourceTimestamp.toISOString()
+      : null,
+  };
+}
+
+/** Evidence values are JSON scalars; LocalizedText and dates are flattened */
+function toScalar(raw: unknown): number | boolean | string | null {
+  if (raw === null || raw === undefined) return null;
+  if (
+    typeof raw === "number" ||
+    typeof raw === "boolean" ||
+    typeof raw === "string"
+  ) {
+    return raw;
+  }
+  if (raw instanceof Date) return raw.toISOString();
+  if (typeof raw === "object" && "text" in raw) {
+    return String((raw as { text: unknown }).text ?? "");
+  }
+  return String(raw);
+}
+
+function qualityNotes(readings: NodeReading[]): string[] {
+  const notes: string[] = [];
+  const now = Date.now();
+  for (const r of readings) {
+    if (!r.good) {
+      notes.push(`${r.node.field} (${r.node.node_id}): status ${r.status}`);
+    } else if (
+      r.sourceTimestamp &&
+      now - new Date(r.sourceTimestamp).getTime() > STALE_AFTER_MS
+    ) {
+      notes.push(`${r.node.field}: stale value from ${r.sourceTimestamp}`);
+    }
+  }
+  return notes;
+}
+
+/** Same thresholds as the ground station collector */
+function stationNotes(values: Record<string, unknown>): string[] {
+  const notes: string[] = [];
+  const successRate = values["contact_success_rate_pct"];
+  const availability = values["ground_station_availability_pct"];
+  const signalDb = values["signal_margin_db"];
+
+  if (typeof successRate === "number" && successRate < 95)
+    notes.push(`Contact success rate below 95%: ${successRate}%`);
+  if (typeof availability === "number" && availability < 97)
+    notes.push(`Availability below 97%: ${availability}%`);
+  if (typeof signalDb === "number" && signalDb < 5)
+    notes.push(`Low signal margin: ${signalDb} dB`);
+  if (values["redundant_chain_available"] === false)
+    notes.push("Redundant RF chain unavailable");
+  return notes;
+}
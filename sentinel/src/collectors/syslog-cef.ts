@@ -0,0 +1,292 @@
+import { createSocket, type Socket } from "node:dgram";
+import { createServer, type Server } from "node:net";
+import { BaseCollector } from "./base-collector.js";
+import {
+  parseSyslog,
+  splitTcpFrames,
+  normalizedSeverity,
+  type SyslogMessage,
+} from "./syslog-parser.js";
+import type {
+  CollectorOutput,
+  CronSchedule,
+} from "../types/collector-types.js";
+import type {
+  SentinelConfig,
+  SyslogCollectorConfig,
+} from "../types/config-types.js";
+
+/**
+ * Syslog/CEF collector.
+ *
+ * Listens for security events forwarded by the ground segment's SIEM or
+ * network devices (UDP or TCP, RFC 5424/3164, CEF payloads) and buffers them
+ * in memory. Each collection cycle drains the buffer into one
+ * `security_events` summary: counts by CEF severity band, significant events
+ * that may trigger NIS2 Art. 23 reporting, and the most frequent signatures.
+ */
+
+interface SecurityEvent {
+  eventTime: string;
+  host: string | null;
+  severity: number; // CEF 0–10
+  vendor: string | null;
+  product: string | null;
+  signatureId: string | null;
+  name: string;
+  outcome: string | null;
+  src: string | null;
+  dst: string | null;
+}
+
+const MAX_TCP_FRAME_BYTES = 64 * 1024;
+const MAX_SIGNIFICANT_SAMPLES = 20;
+const TOP_SIGNATURES = 10;
+
+export class SyslogCefCollector extends BaseCollector {
+  readonly name = "Syslog/CEF";
+  readonly id = "syslog";
+
+  private options: SyslogCollectorConfig;
+  private events: SecurityEvent[] = [];
+  private unparsed = 0;
+  private dropped = 0;
+  private windowStart = new Date();
+  private udp: Socket | null = null;
+  private tcp: Server | null = null;
+
+  constructor(config: SentinelConfig) {
+    super();
+    this.options = config.collectors.syslog;
+  }
+
+  getSchedule(): CronSchedule {
+    return { expression: "*/10 * * * *", description: "Every 10 minutes" };
+  }
+
+  async start(): Promise<void> {
+    if (this.udp || this.tcp) return;
+    const { host, port } = this.options;
+
+    if (this.options.protocol === "udp") {
+      const socket = createSocket("udp4");
+      socket.on("message", (msg) => this.ingest(msg.toString("utf8")));
+      socket.on("error", (err) => this.markError(err));
+      await new Promise<void>((resolve, reject) => {
+        socket.once("error", reject);
+        socket.bind(port, host, () => {
+          socket.off("error", reject);
+          resolve();
+        });
+      });
+      this.udp = socket;
+    } else {
+      const server = createServer((conn) => {
+        let pending: Buffer = Buffer.alloc(0);
+        conn.on("data", (chunk) => {
+          const { frames, rest } = splitTcpFrames(
+            Buffer.concat([pending, chunk]),
+          );
+          frames.forEach((f) => this.ingest(f));
+          // Drop a runaway partial frame rather than grow without bound
+          pending = rest.length > MAX_TCP_FRAME_BYTES ? Buffer.alloc(0) : rest;
+        });
+        conn.on("error", () => conn.destroy());
+      });
+      server.on("error", (err) => this.markError(err));
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+      this.tcp = server;
+    }
+    this.windowStart = new Date();
+  }
+
+  async stop(): Promise<void> {
+    const udp = this.udp;
+    const tcp = this.tcp;
+    this.udp = null;
+    this.tcp = null;
+    if (udp) await new Promise<void>((resolve) => udp.close(() => resolve()));
+    if (tcp) await new Promise<void>((resolve) => tcp.close(() => resolve()));
+  }
+
+  /** Bound port — useful when configured with port 0 */
+  getPort(): number | null {
+    const address = this.udp?.address() ?? this.tcp?.address();
+    return address && typeof address === "object" ? address.port : null;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.udp !== null || this.tcp !== null;
+  }
+
+  async collect(): Promise<CollectorOutput[]> {
+    try {
+      const events = this.events;
+      const unparsed = this.unparsed;
+      const dropped = this.dropped;
+      const windowStart = this.windowStart;
+      const windowEnd = new Date();
+      this.events = [];
+      this.unparsed = 0;
+      this.dropped = 0;
+      this.windowStart = windowEnd;
+
+      const threshold = this.options.significant_severity;
+      const significant = events.filter((e) => e.severity >= threshold);
+      const authFailures = events.filter(
+        (e) =>
+          /fail/i.test(e.outcome ?? "") &&
+          /log ?[io]n|auth|password/i.test(e.name),
+      ).length;
+
+      const notes: string[] = [];
+      if (significant.length > 0) {
+        notes.push(
+          `${significant.length} significant security events (CEF severity ≥ ${threshold}) — assess NIS2 Art. 23 early warning (24 h)`,
+        );
+      }
+      if (authFailures > 0) {
+        notes.push(`${authFailures} failed authentication events`);
+      }
+      if (dropped > 0) {
+        notes.push(`${dropped} events dropped: buffer limit reached`);
+      }
+      if (events.length === 0 && unparsed === 0) {
+        notes.push(
+          "No security events received in this window — verify syslog forwarding",
+        );
+      }
+
+      this.markSuccess();
+
+      return [
+        {
+          data_point: "security_events",
+          source_system: `syslog_${this.options.protocol}`,
+          collection_method: "syslog_listener",
+          compliance_notes: notes,
+          values: {
+            window_start: windowStart.toISOString(),
+            window_end: windowEnd.toISOString(),
+            events_received: events.length,
+            events_unparsed: unparsed,
+            events_dropped: dropped,
+            events_by_severity: {
+              very_high: events.filter((e) => e.severity >= 9).length,
+              high: events.filter((e) => e.severity >= 7 && e.severity < 9)
+                .length,
+              medium: events.filter((e) => e.severity >= 4 && e.severity < 7)
+                .length,
+              low: events.filter((e) => e.severity < 4).length,
+            },
+            significant_events: significant.length,
+            reportable_incidents: significant.length,
+            auth_failures: authFailures,
+            first_significant_event_at:
+              significant.map((e) => e.eventTime).sort()[0] ?? null,
+            significant_event_samples: significant
+              .slice(0, MAX_SIGNIFICANT_SAMPLES)
+              .map((e) => ({
+                event_time: e.eventTime,
+                host: e.host,
+                severity: e.severity,
+                signature_id: e.signatureId,
+                name: e.name,
+                src: e.src,
+                dst: e.dst,
+              })),
+            top_signatures: topSignatures(events),
+            source_hosts: [
+              ...new Set(events.map((e) => e.host).filter((h) => h !== null)),
+            ].sort(),
+            collection_timestamp: windowEnd.toISOString(),
+          },
+        },
+      ];
+    } catch (err) {
+      this.markError(err);
+      throw err;
+    }
+  }
+
+  private ingest(raw: string): void {
+    const msg = parseSyslog(raw);
+    if (!msg) {
+      this.unparsed++;
+      return;
+    }
+    if (this.events.length >= this.options.max_buffered_events) {
+      this.dropped++;
+      return;
+    }
+    this.events.push(toSecurityEvent(msg));
+  }
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+function toSecurityEvent(msg: SyslogMessage): SecurityEvent {
+  const receivedAt = new Date().toISOString();
+  const ext = msg.cef?.extensions ?? {};
+  return {
+    eventTime: cefTime(ext["rt"]) ?? msg.timestamp ?? receivedAt,
+    host: ext["dvchost"] ?? msg.hostname,
+    severity: normalizedSeverity(msg),
+    vendor: msg.cef?.deviceVendor ?? null,
+    product: msg.cef?.deviceProduct ?? null,
+    signatureId: msg.cef?.signatureId ?? null,
+    name: msg.cef?.name ?? msg.message.slice(0, 200),
+    outcome: ext["outcome"] ?? ext["categoryOutcome"] ?? null,
+    src: ext["src"] ?? null,
+    dst: ext["dst"] ?? null,
+  };
+}
+
+/** CEF `rt` is epoch milliseconds or a formatted date */
+function cefTime(rt: string | undefined): string | null {
+  if (!rt) return null;
+  const date = /^\d+$/.test(rt) ? new Date(Number(rt)) : new Date(rt);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function topSignatures(events: SecurityEvent[]): Array<{
+  vendor: string | null;
+  product: string | null;
+  signature_id: string | null;
+  name: string;
+  max_severity: number;
+  count: number;
+}> {
+  const groups = new Map<
+    string,
+    { event: SecurityEvent; count: number; maxSeverity: number }
+  >();
+  for (const e of events) {
+    if (!e.signatureId) continue;
+    const key = `${e.vendor}|${e.product}|${e.signatureId}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+      group.maxSeverity = Math.max(group.maxSeverity, e.severity);
+    } else {
+      groups.set(key, { event: e, count: 1, maxSeverity: e.severity });
+    }
+  }
+  return [...groups.values()]
+    .sort((a, b) => b.count - a.count || b.maxSeverity - a.maxSeverity)
+    .slice(0, TOP_SIGNATURES)
+    .map((g) => ({
+      vendor: g.event.vendor,
+      product: g.event.product,
+      signature_id: g.event.signatureId,
+      name: g.event.name,
+      max_severity: g.maxSeverity,
+      count: g.count,
+    }));
+}
@@ -0,0 +1,272 @@
+/**
+ * Syslog and ArcSight CEF parsing for the syslog collector.
+ *
+ * Accepts RFC 5424 and RFC 3164 headers (or none, for forwarders that send
+ * bare CEF), extracts a CEF payload when present, and splits TCP streams
+ * framed per RFC 6587 (octet counting or LF-delimited).
+ */
+
+export interface SyslogMessage {
+  facility: number;
+  severity: number; // Syslog 0 (emergency) – 7 (debug)
+  timestamp: string | null;
+  hostname: string | null;
+  appName: string | null;
+  message: string;
+  cef: CefEvent | null;
+}
+
+export interface CefEvent {
+  version: number;
+  deviceVendor: string;
+  deviceProduct: string;
+  deviceVersion: string;
+  signatureId: string;
+  name: string;
+  severity: number; // Normalised to 0–10
+  extensions: Record<string, string>;
+}
+
+// Syslog severity 0–7 mapped onto the CEF 0–10 scale
+const SYSLOG_TO_CEF_SEVERITY = [10, 9, 8, 6, 4, 2, 1, 0];
+
+const CEF_SEVERITY_NAMES: Record<string, number> = {
+  unknown: 0,
+  low: 3,
+  medium: 5,
+  high: 8,
+  "very-high": 10,
+};
+
+const RFC5424 =
+  /^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) ?([\s\S]*)$/;
+const RFC3164 =
+  /^<(\d{1,3})>([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([\s\S]*)$/;
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Parse one syslog message. Returns null for empty input or an invalid PRI.
+ */
+export function parseSyslog(raw: string): SyslogMessage | null {
+  const line = raw.replace(/^\uFEFF/, "").replace(/[\r\n]+$/, "");
+  if (!line.trim()) return null;
+
+  let pri = 13; // user.notice — RFC 3164 default when no PRI is present
+  let timestamp: string | null = null;
+  let hostname: string | null = null;
+  let appName: string | null = null;
+  let message = line;
+
+  const m5424 = RFC5424.exec(line);
+  const m3164 = m5424 ? null : RFC3164.exec(line);
+
+  if (m5424) {
+    pri = Number(m5424[1]);
+    timestamp = nil(m5424[3]!);
+    hostname = nil(m5424[4]!);
+    appName = nil(m5424[5]!);
+    message = skipStructuredData(m5424[8]!);
+  } else if (m3164) {
+    pri = Number(m3164[1]);
+    timestamp = parse3164Timestamp(m3164[2]!);
+    hostname = m3164[3]!;
+    const tag = /^([^:[\s]+)(?:\[\d+\])?: ?([\s\S]*)$/.exec(m3164[4]!);
+    appName = tag ? tag[1]! : null;
+    message = tag ? tag[2]! : m3164[4]!;
+  } else if (line.startsWith("<")) {
+    const bare = /^<(\d{1,3})>([\s\S]*)$/.exec(line);
+    if (!bare) return null;
+    pri = Number(bare[1]);
+    message = bare[2]!;
+  }
+
+  if (pri > 191) return null;
+
+  const cefStart = message.indexOf("CEF:");
+  return {
+    facility: pri >> 3,
+    severity: pri & 7,
+    timestamp,
+    hostname,
+    appName,
+    message,
+    cef: cefStart >= 0 ? parseCef(message.slice(cefStart)) : null,
+  };
+}
+
+/**
+ * Parse a CEF record: `CEF:Version|Vendor|Product|Version|SignatureID|Name|Severity|Extension`.
+ * Header fields escape `|` and `\`; extension values escape `=`, `\` and newlines.
+ */
+export function parseCef(text: string): CefEvent | null {
+  if (!text.startsWith("CEF:")) return null;
+
+  const header: string[] = [];
+  let current = "";
+  let i = 4;
+  for (; i < text.length && header.length < 7; i++) {
+    const ch = text[i]!;
+    if (ch === "\\" && (text[i + 1] === "|" || text[i + 1] === "\\")) {
+      current += text[++i];
+    } else if (ch === "|") {
+      header.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (header.length < 7) return null;
+
+  const version = Number(header[0]);
+  const severity = parseCefSeverity(header[6]!);
+  if (!Number.isFinite(version) || severity === null) return null;
+
+  return {
+    version,
+    deviceVendor: header[1]!,
+    deviceProduct: header[2]!,
+    deviceVersion: header[3]!,
+    signatureId: header[4]!,
+    name: header[5]!,
+    severity,
+    extensions: parseCefExtensions(text.slice(i)),
+  };
+}
+
+/** CEF severity on the 0–10 scale; non-CEF messages use the syslog PRI */
+export function normalizedSeverity(msg: SyslogMessage): number {
+  return msg.cef?.severity ?? SYSLOG_TO_CEF_SEVERITY[msg.severity] ?? 0;
+}
+
+/**
+ * Split a TCP byte stream into syslog frames. Returns the complete frames and
+ * the unconsumed tail, which the caller prepends to the next chunk.
+ */
+export function splitTcpFrames(buf: Buffer): {
+  frames: string[];
+  rest: Buffer;
+} {
+  const frames: string[] = [];
+  let offset = 0;
+
+  while (offset < buf.length) {
+    const byte = buf[offset]!;
+    if (byte === 0x0a || byte === 0x0d || byte === 0x00) {
+      offset++;
+      continue;
+    }
+
+    // Octet counting: "<length> <message>"
+    const prefix = /^(\d{1,10}) /.exec(
+      buf.subarray(offset, offset + 12).toString("latin1"),
+    );
+    if (prefix) {
+      const start = offset + prefix[0].length;
+      const end = start + Number(prefix[1]);
+      if (end > buf.length) break;
+      frames.push(buf.subarray(start, end).toString("utf8"));
+      offset = end;
+      continue;
+    }
+
+    // Non-transparent framing: LF-delimited
+    const newline = buf.indexOf(0x0a, offset);
+    if (newline === -1) break;
+    frames.push(
+      buf.subarray(offset, newline).toString("utf8").replace(/\r$/, ""),
+    );
+    offset = newline + 1;
+  }
+
+  return { frames, rest: buf.subarray(offset) };
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+function nil(field: string): string | null {
+  return field === "-" ? null : field;
+}
+
+/** Drop RFC 5424 STRUCTURED-DATA ("-" or one or more [..] elements) */
+function skipStructuredData(rest: string): string {
+  if (rest.startsWith("-")) return rest.slice(rest.startsWith("- ") ? 2 : 1);
+  if (!rest.startsWith("[")) return rest;
+
+  let i = 0;
+  while (rest[i] === "[") {
+    i++;
+    while (i < rest.length && rest[i] !== "]") {
+      if (rest[i] === "\\") i++;
+      i++;
+    }
+    i++; // closing ]
+  }
+  return rest.slice(rest[i] === " " ? i + 1 : i);
+}
+
+/** RFC 3164 timestamps omit the year; assume the current UTC year */
+function parse3164Timestamp(ts: string): string | null {
+  const [mon, day, time] = ts.split(/ +/);
+  const month = MONTHS.indexOf(mon!);
+  const [h, m, s] = (time ?? "").split(":").map(Number);
+  if (month < 0 || h === undefined || m === undefined || s === undefined) {
+    return null;
+  }
+  const date = new Date(
+    Date.UTC(new Date().getUTCFullYear(), month, Number(day), h, m, s),
+  );
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseCefSeverity(raw: string): number | null {
+  const trimmed = raw.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const n = Number(trimmed);
+    return n <= 10 ? n : null;
+  }
+  return CEF_SEVERITY_NAMES[trimmed.toLowerCase()] ?? null;
+}
+
+/**
+ * Extension is space-separated key=value pairs where values may themselves
+ * contain spaces: a value runs until the next " key=" boundary.
+ */
+function parseCefExtensions(ext: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const keyPattern = /(?:^|\s)([A-Za-z0-9_.[\]-]+)=/g;
+  const keys: Array<{ key: string; start: number; valueStart: number }> = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = keyPattern.exec(ext)) !== null) {
+    keys.push({
+      key: match[1]!,
+      start: match.index,
+      valueStart: match.index + match[0].length,
+    });
+  }
+
+  keys.forEach((k, idx) => {
+    const end = idx + 1 < keys.length ? keys[idx + 1]!.start : ext.length;
+    result[k.key] = unescapeExtension(ext.slice(k.valueStart, end).trimEnd());
+  });
+  return result;
+}
+
+function unescapeExtension(value: string): string {
+  return value.replace(/\\([\\=nr])/g, (_m, ch: string) =>
+    ch === "n" ? "\n" : ch === "r" ? "\r" : ch,
+  );
+}
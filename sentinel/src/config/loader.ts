@@ -60,6 +60,18 @@ export function loadConfig(): SentinelConfig {
     };
   }
 
+  if (env["OPCUA_PASSWORD"]) {
+    const collectors =
+      (rawConfig["collectors"] as Record<string, unknown> | undefined) ?? {};
+    rawConfig["collectors"] = {
+      ...collectors,
+      opcua: {
+        ...(collectors["opcua"] as Record<string, unknown> | undefined),
+        password: env["OPCUA_PASSWORD"],
+      },
+    };
+  }
+
   if (env["MODE"]) {
     rawConfig["mode"] = env["MODE"];
   }
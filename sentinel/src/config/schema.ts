@@ -13,6 +13,39 @@ const collectorConfigSchema = z.object({
   schedule: z.string().default("*/15 * * * *"),
 });
 
+const opcuaNodeSchema = z.object({
+  node_id: z.string().min(1),
+  field: z.string().regex(/^[a-z][a-z0-9_]*$/),
+  norad_id: z.string().min(1).optional(),
+});
+
+const opcuaCollectorSchema = collectorConfigSchema.extend({
+  enabled: z.boolean().default(false),
+  schedule: z.string().default("*/5 * * * *"),
+  endpoint_url: z
+    .string()
+    .regex(/^opc\.tcp:\/\//)
+    .default("opc.tcp://localhost:4840"),
+  security_mode: z.enum(["None", "Sign", "SignAndEncrypt"]).default("None"),
+  security_policy: z
+    .enum(["None", "Basic256Sha256", "Aes128_Sha256_RsaOaep"])
+    .default("None"),
+  username: z.string().min(1).optional(),
+  password: z.string().optional(),
+  station_id: z.string().min(1).default("opcua-ground-station"),
+  nodes: z.array(opcuaNodeSchema).default([]),
+});
+
+const syslogCollectorSchema = collectorConfigSchema.extend({
+  enabled: z.boolean().default(false),
+  schedule: z.string().default("*/10 * * * *"),
+  protocol: z.enum(["udp", "tcp"]).default("udp"),
+  host: z.string().default("0.0.0.0"),
+  port: z.number().int().min(1).max(65535).default(5514),
+  max_buffered_events: z.number().int().positive().default(10000),
+  significant_severity: z.number().int().min(0).max(10).default(8),
+});
+
 export const configSchema = z.object({
   sentinel: z.object({
     operator_id: z.string().min(1),
@@ -36,6 +69,8 @@ export const configSchema = z.object({
       enabled: true,
       schedule: "0 0 * * *",
     }),
+    opcua: opcuaCollectorSchema.default({}),
+    syslog: syslogCollectorSchema.default({}),
   }),
   transport: z
     .object({
@@ -44,6 +79,9 @@ export const configSchema = z.object({
       retry_max_attempts: z.number().int().positive().default(10),
       retry_max_delay_ms: z.number().int().positive().default(3600000),
       buffer_max_days: z.number().int().positive().default(30),
+      buffer_segment_mb: z.number().positive().default(16),
+      buffer_max_mb: z.number().positive().default(1024),
+      replay_batch_size: z.number().int().min(1).max(500).default(200),
     })
     .default({}),
   dashboard: z
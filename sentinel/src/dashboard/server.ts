@@ -60,6 +60,7 @@ export function startDashboard(port: number, deps: DashboardDeps): void {
       uptime_seconds: uptime,
       chain_position: deps.chain.getPosition(),
       buffered_packets: deps.sender.getBufferCount(),
+      buffer: deps.sender.getBufferStats(),
       total_packets: deps.auditLog.getTotalCount(),
       collectors: deps.collectors.map((c) => c.getHealth()),
     });
@@ -22,6 +22,14 @@ const DATA_POINT_RULES: Record<string, string[]> = {
     "nis2_art_21_training",
   ],
   ground_station_metrics: ["eu_space_act_art_64_gs_contact"],
+  ground_segment_telemetry: [
+    "eu_space_act_art_64_gs_contact",
+    "nis2_art_21_business_continuity",
+  ],
+  security_events: [
+    "nis2_art_23_incident_reporting",
+    "nis2_art_23_early_warning",
+  ],
   document_event: ["eu_space_act_art_7_licensing"],
 };
 
@@ -201,6 +201,39 @@ export const REGULATORY_RULES: RegulatoryRule[] = [
     },
   },
 
+  {
+    id: "nis2_art_23_early_warning",
+    name: "Significant Incident Early Warning",
+    regulation: "NIS2 Directive",
+    article: "Art. 23(4)(a)",
+    data_points: ["significant_events"],
+    evaluate: (d) => {
+      // Early warning to the CSIRT is due within 24 h of awareness
+      if ((d["significant_events"] as number) > 0) return "WARNING";
+      return "COMPLIANT";
+    },
+  },
+  {
+    id: "nis2_art_21_business_continuity",
+    name: "Ground Segment Continuity",
+    regulation: "NIS2 Directive",
+    article: "Art. 21(2)(c)",
+    data_points: [
+      "ground_station_availability_pct",
+      "redundant_chain_available",
+    ],
+    evaluate: (d) => {
+      const availability = d["ground_station_availability_pct"] as
+        | number
+        | undefined;
+      if (availability !== undefined && availability < 90)
+        return "NON_COMPLIANT";
+      if (d["redundant_chain_available"] === false) return "WARNING";
+      if (availability !== undefined && availability < 97) return "WARNING";
+      return "COMPLIANT";
+    },
+  },
+
   // ═══════════════════════════════════════════════════
   // IADC Guidelines — Debris Mitigation
   // ═══════════════════════════════════════════════════
@@ -13,6 +13,8 @@ import { OrbitDebrisCollector } from "./collectors/orbit-debris.js";
 import { CybersecurityCollector } from "./collectors/cybersecurity.js";
 import { GroundStationCollector } from "./collectors/ground-station.js";
 import { DocumentWatchCollector } from "./collectors/document-watch.js";
+import { OpcUaCollector } from "./collectors/opcua.js";
+import { SyslogCefCollector } from "./collectors/syslog-cef.js";
 import {
   ScenarioRunner,
   loadScenarioProfile,
@@ -94,6 +96,23 @@ async function main(): Promise<void> {
     collectors.push(new DocumentWatchCollector(config));
     console.log("[boot] Collector: Document Watch ✓");
   }
+  if (config.collectors.opcua.enabled) {
+    collectors.push(new OpcUaCollector(config));
+    console.log(
+      `[boot] Collector: OPC UA ✓ (${config.collectors.opcua.endpoint_url})`,
+    );
+  }
+  if (config.collectors.syslog.enabled) {
+    collectors.push(new SyslogCefCollector(config));
+    console.log(
+      `[boot] Collector: Syslog/CEF ✓ (${config.collectors.syslog.protocol}/${config.collectors.syslog.port})`,
+    );
+  }
+
+  // Listener-based collectors bind their sockets before the first cycle
+  for (const collector of collectors) {
+    await collector.start();
+  }
 
   // --- Step 7: Start Dashboard ---
   if (config.dashboard.enabled) {
@@ -150,6 +169,8 @@ async function main(): Promise<void> {
     cybersecurity: config.collectors.cybersecurity.schedule,
     ground_station: config.collectors.ground_station.schedule,
     document_watch: config.collectors.document_watch.schedule,
+    opcua: config.collectors.opcua.schedule,
+    syslog: config.collectors.syslog.schedule,
   };
 
   for (const collector of collectors) {
@@ -162,10 +183,11 @@ async function main(): Promise<void> {
     console.log(`[schedule] ${collector.name}: ${cron}`);
   }
 
-  // --- Step 9: Buffer flush every 5 minutes ---
+  // --- Step 9: Buffer replay every 5 minutes ---
   const flushJob = schedule("*/5 * * * *", async () => {
     if (shuttingDown) return;
     await sender.flushBuffer();
+    sender.purgeBuffer(config.transport.buffer_max_days);
   });
   jobs.push(flushJob);
 
@@ -189,8 +211,10 @@ async function main(): Promise<void> {
     for (const job of jobs) job.stop();
     sender.close();
     auditLog.close();
-    console.log("[shutdown] Complete. Goodbye.");
-    process.exit(0);
+    void Promise.allSettled(collectors.map((c) => c.stop())).then(() => {
+      console.log("[shutdown] Complete. Goodbye.");
+      process.exit(0);
+    });
   };
 
   process.on("SIGTERM", shutdown);
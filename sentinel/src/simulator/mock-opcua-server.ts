@@ -0,0 +1,200 @@
+import {
+  OPCUAServer,
+  DataValue,
+  Variant,
+  DataType,
+  StatusCodes,
+} from "node-opcua";
+import type { OpcUaNodeMapping } from "../types/config-types.js";
+
+/**
+ * Simulated ground-segment OPC UA server.
+ *
+ * Stand-in for a ground station controller exposing station metrics and
+ * spacecraft housekeeping telemetry over OPC UA, so the OpcUaCollector can be
+ * tested offline. Variables live in the server's own namespace (ns=1) under
+ * string node IDs; `nodeMappings()` returns a matching collector config.
+ *
+ * Values are static until changed with `set()` or `setBad()`.
+ */
+
+interface SimulatedVariable {
+  nodeId: string; // string identifier within ns=1
+  field: string;
+  dataType: DataType;
+  value: number | boolean | string;
+  noradId?: string;
+}
+
+export class MockOpcUaServer {
+  private server: OPCUAServer | null = null;
+  private variables: SimulatedVariable[];
+  private bad = new Set<string>();
+
+  constructor(
+    private readonly port = 4840,
+    stationId = "GS-EU-01",
+    noradId = "58421",
+  ) {
+    this.variables = [
+      station(
+        stationId,
+        "ContactSuccessRate",
+        "contact_success_rate_pct",
+        98.4,
+      ),
+      station(
+        stationId,
+        "Availability",
+        "ground_station_availability_pct",
+        99.2,
+      ),
+      station(
+        stationId,
+        "UplinkSuccessRate",
+        "command_uplink_success_pct",
+        97.9,
+      ),
+      station(
+        stationId,
+        "MinutesSinceLastContact",
+        "time_since_last_contact_min",
+        42,
+      ),
+      station(stationId, "SignalMargin", "signal_margin_db", 8.6),
+      {
+        nodeId: `${stationId}.RedundantChainAvailable`,
+        field: "redundant_chain_available",
+        dataType: DataType.Boolean,
+        value: true,
+      },
+      {
+        nodeId: `${stationId}.FrequencyCoordination`,
+        field: "frequency_coordination_status",
+        dataType: DataType.String,
+        value: "CURRENT",
+      },
+      spacecraft(noradId, "RemainingFuelPct", "remaining_fuel_pct", 61.5),
+      spacecraft(noradId, "BatterySoc", "battery_soc_pct", 94.2),
+      spacecraft(noradId, "SolarArrayPower", "solar_array_power_w", 912),
+      {
+        nodeId: `SAT-${noradId}.ThrusterStatus`,
+        field: "thruster_status",
+        dataType: DataType.String,
+        value: "NOMINAL",
+        noradId,
+      },
+    ];
+  }
+
+  /** Start listening; resolves to the endpoint URL */
+  async start(): Promise<string> {
+    const server = new OPCUAServer({
+      port: this.port,
+      resourcePath: "/UA/CaelexGroundSegment",
+      buildInfo: {
+        productName: "Caelex Sentinel OPC UA Simulator",
+        buildNumber: "1",
+      },
+      allowAnonymous: true,
+    });
+    await server.initialize();
+
+    const addressSpace = server.engine.addressSpace!;
+    const namespace = addressSpace.getOwnNamespace();
+    const folder = namespace.addObject({
+      organizedBy: addressSpace.rootFolder.objects,
+      browseName: "GroundSegment",
+    });
+
+    for (const v of this.variables) {
+      namespace.addVariable({
+        componentOf: folder,
+        browseName: v.nodeId,
+        nodeId: `s=${v.nodeId}`,
+        dataType: DataType[v.dataType],
+        minimumSamplingInterval: 1000,
+        value: {
+          timestamped_get: () =>
+            new DataValue({
+              value: new Variant({ dataType: v.dataType, value: v.value }),
+              statusCode: this.bad.has(v.nodeId)
+                ? StatusCodes.BadSensorFailure
+                : StatusCodes.Good,
+              sourceTimestamp: new Date(),
+              sourcePicoseconds: 0,
+              serverTimestamp: new Date(),
+              serverPicoseconds: 0,
+            }),
+        },
+      });
+    }
+
+    await server.start();
+    this.server = server;
+    return `opc.tcp://localhost:${this.port}/UA/CaelexGroundSegment`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) await server.shutdown(0);
+  }
+
+  /** Update a variable by its evidence field (and NORAD ID for spacecraft) */
+  set(field: string, value: number | boolean | string, noradId?: string): void {
+    this.find(field, noradId).value = value;
+  }
+
+  /** Report a variable with a Bad status code until reset with `set()` */
+  setBad(field: string, noradId?: string): void {
+    this.bad.add(this.find(field, noradId).nodeId);
+  }
+
+  /** Collector node mappings for every simulated variable */
+  nodeMappings(): OpcUaNodeMapping[] {
+    return this.variables.map((v) => ({
+      node_id: `ns=1;s=${v.nodeId}`,
+      field: v.field,
+      ...(v.noradId ? { norad_id: v.noradId } : {}),
+    }));
+  }
+
+  private find(field: string, noradId?: string): SimulatedVariable {
+    const v = this.variables.find(
+      (x) => x.field === field && x.noradId === noradId,
+    );
+    if (!v) throw new Error(`Unknown simulated variable: ${field}`);
+    this.bad.delete(v.nodeId);
+    return v;
+  }
+}
+
+function station(
+  stationId: string,
+  name: string,
+  field: string,
+  value: number,
+): SimulatedVariable {
+  return {
+    nodeId: `${stationId}.${name}`,
+    field,
+    dataType: DataType.Double,
+    value,
+  };
+}
+
+function spacecraft(
+  noradId: string,
+  name: string,
+  field: string,
+  value: number,
+): SimulatedVariable {
+  return {
+    nodeId: `SAT-${noradId}.${name}`,
+    field,
+    dataType: DataType.Double,
+    value,
+    noradId,
+  };
+}
@@ -0,0 +1,171 @@
+import { createSocket } from "node:dgram";
+import { connect } from "node:net";
+
+/**
+ * Simulated ground-segment syslog forwarder.
+ *
+ * Stand-in for the SIEM / firewall / mission-control hosts that forward
+ * security events as RFC 5424 syslog with CEF payloads. Sends to a running
+ * SyslogCefCollector over UDP or TCP (octet-counted framing) so the collector
+ * can be exercised offline.
+ *
+ * Event content is deterministic for repeatable tests.
+ */
+
+export interface CefEventSpec {
+  host: string;
+  vendor: string;
+  product: string;
+  signatureId: string;
+  name: string;
+  severity: number;
+  extensions?: Record<string, string | number>;
+}
+
+export interface SyslogTarget {
+  host: string;
+  port: number;
+  protocol: "udp" | "tcp";
+}
+
+const BASELINE_EVENTS: CefEventSpec[] = [
+  {
+    host: "fw-gs-01",
+    vendor: "Fortinet",
+    product: "FortiGate",
+    signatureId: "0000000013",
+    name: "traffic denied",
+    severity: 3,
+    extensions: { src: "203.0.113.14", dst: "10.20.0.5", dpt: 22 },
+  },
+  {
+    host: "mcs-01",
+    vendor: "Caelex",
+    product: "MissionControl",
+    signatureId: "AUTH-100",
+    name: "Operator login",
+    severity: 1,
+    extensions: { suser: "ops1", outcome: "success" },
+  },
+  {
+    host: "ttc-01",
+    vendor: "Caelex",
+    product: "TT&C Front End",
+    signatureId: "LINK-200",
+    name: "Carrier lock acquired",
+    severity: 2,
+  },
+];
+
+const INCIDENT_EVENTS: CefEventSpec[] = [
+  ...Array.from({ length: 5 }, () => ({
+    host: "mcs-01",
+    vendor: "Caelex",
+    product: "MissionControl",
+    signatureId: "AUTH-101",
+    name: "Operator login failed",
+    severity: 6,
+    extensions: { suser: "admin", src: "198.51.100.23", outcome: "failure" },
+  })),
+  {
+    host: "ids-gs-01",
+    vendor: "Suricata",
+    product: "IDS",
+    signatureId: "2019401",
+    name: "ET EXPLOIT Possible command injection against TT&C front end",
+    severity: 9,
+    extensions: { src: "198.51.100.23", dst: "10.20.0.12", dpt: 8443 },
+  },
+];
+
+export class MockSyslogSource {
+  constructor(private readonly target: SyslogTarget) {}
+
+  /** Low-severity background traffic: `count` events cycling the baseline set */
+  async emitBaseline(count = BASELINE_EVENTS.length): Promise<void> {
+    const events = Array.from(
+      { length: count },
+      (_, i) => BASELINE_EVENTS[i % BASELINE_EVENTS.length]!,
+    );
+    await this.send(events.map((e) => formatCefSyslog(e)));
+  }
+
+  /** Brute-force login attempts followed by a critical IDS alert */
+  async emitIncident(): Promise<void> {
+    await this.send(INCIDENT_EVENTS.map((e) => formatCefSyslog(e)));
+  }
+
+  async send(lines: string[]): Promise<void> {
+    if (this.target.protocol === "udp") {
+      const socket = createSocket("udp4");
+      try {
+        for (const line of lines) {
+          await new Promise<void>((resolve, reject) =>
+            socket.send(line, this.target.port, this.target.host, (err) =>
+              err ? reject(err) : resolve(),
+            ),
+          );
+        }
+      } finally {
+        socket.close();
+      }
+      return;
+    }
+
+    const frames = lines
+      .map((line) => `${Buffer.byteLength(line)} ${line}`)
+      .join("");
+    await new Promise<void>((resolve, reject) => {
+      const conn = connect(this.target.port, this.target.host, () => {
+        conn.end(frames, () => resolve());
+      });
+      conn.on("error", reject);
+    });
+  }
+}
+
+/** RFC 5424 syslog line (facility local4) carrying a CEF:0 payload */
+export function formatCefSyslog(
+  event: CefEventSpec,
+  time: Date = new Date(),
+): string {
+  const pri = 20 * 8 + cefToSyslogSeverity(event.severity);
+  const header = [
+    "CEF:0",
+    event.vendor,
+    event.product,
+    "1.0",
+    event.signatureId,
+    event.name,
+    String(event.severity),
+  ]
+    .map(escapeHeader)
+    .join("|");
+  const extensions = Object.entries({
+    rt: time.getTime(),
+    dvchost: event.host,
+    ...event.extensions,
+  })
+    .map(([k, v]) => `${k}=${escapeExtension(String(v))}`)
+    .join(" ");
+
+  return `<${pri}>1 ${time.toISOString()} ${event.host} sentinel-sim - - - ${header}|${extensions}`;
+}
+
+function cefToSyslogSeverity(severity: number): number {
+  if (severity >= 9) return 2; // critical
+  if (severity >= 7) return 3; // error
+  if (severity >= 4) return 4; // warning
+  return 6; // informational
+}
+
+function escapeHeader(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|");
+}
+
+function escapeExtension(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/=/g, "\\=")
+    .replace(/\n/g, "\\n");
+}
@@ -0,0 +1,237 @@
+import { createHash, createPublicKey, type KeyObject } from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { hashContent } from "../crypto/hasher.js";
+import { signContent, verifySignature } from "../crypto/signer.js";
+import type { EvidencePacket } from "../types/evidence-packet.js";
+import type { OfflineBuffer } from "./buffer.js";
+import { checkContinuity, type ChainFork, type ChainGap } from "./replay.js";
+
+export const BACKLOG_FORMAT = "caelex-sentinel-backlog/1";
+
+export interface BacklogFile {
+  name: string;
+  sha256: string;
+  packet_count: number;
+  first_position: number;
+  last_position: number;
+}
+
+export interface BacklogManifest {
+  format: typeof BACKLOG_FORMAT;
+  sentinel_id: string;
+  operator_id: string;
+  exported_at: string;
+  packet_count: number;
+  first_position: number;
+  last_position: number;
+  chain_anchor: string; // previous_hash of the first packet
+  head_hash: string; // content_hash of the last packet
+  files: BacklogFile[];
+  agent_public_key: string;
+  signature: string; // Ed25519 over the manifest hash, signature excluded
+}
+
+export interface BacklogVerification {
+  valid: boolean;
+  manifest: BacklogManifest;
+  errors: string[];
+  gaps: ChainGap[];
+  forks: ChainFork[];
+}
+
+/**
+ * Backlog bundles for sneakernet delivery.
+ *
+ * An export writes every unsent packet from the offline buffer to a bundle
+ * directory on removable media: gzip'd JSONL chunk files in chain order and
+ * a manifest signed with the agent key. Any machine with a Sentinel token
+ * can verify the bundle and upload it through the batch ingest endpoint;
+ * the server verifies each packet's signature and chain link as usual.
+ */
+export function exportBacklog(
+  buffer: OfflineBuffer,
+  outDir: string,
+  keys: { privateKey: KeyObject; publicKeyPem: string },
+  opts: { sentinelId: string; chunkSize?: number },
+): { dir: string; manifest: BacklogManifest; packetIds: string[] } {
+  const chunkSize = opts.chunkSize ?? 1000;
+  const chunks: EvidencePacket[][] = [];
+
+  let after = -1;
+  for (;;) {
+    const chunk = buffer.getUnsent(chunkSize, after);
+    if (chunk.length === 0) break;
+    chunks.push(chunk);
+    after = chunk[chunk.length - 1]!.integrity.chain_position;
+  }
+
+  const first = chunks[0]?.[0];
+  const lastChunk = chunks[chunks.length - 1];
+  const last = lastChunk?.[lastChunk.length - 1];
+  if (!first || !last) throw new Error("No unsent packets to export");
+
+  const dir = join(
+    outDir,
+    `sentinel-backlog-${opts.sentinelId}-${first.integrity.chain_position}-${last.integrity.chain_position}`,
+  );
+  if (existsSync(dir)) throw new Error(`Bundle already exists: ${dir}`);
+  mkdirSync(dir, { recursive: true });
+
+  const files: BacklogFile[] = chunks.map((chunk, i) => {
+    const name = `packets-${String(i + 1).padStart(4, "0")}.jsonl.gz`;
+    const content = gzipSync(
+      chunk.map((p) => JSON.stringify(p)).join("\n") + "\n",
+    );
+    writeFileSync(join(dir, name), content);
+    return {
+      name,
+      sha256: sha256(content),
+      packet_count: chunk.length,
+      first_position: chunk[0]!.integrity.chain_position,
+      last_position: chunk[chunk.length - 1]!.integrity.chain_position,
+    };
+  });
+
+  const unsigned: Omit<BacklogManifest, "signature"> = {
+    format: BACKLOG_FORMAT,
+    sentinel_id: opts.sentinelId,
+    operator_id: first.operator_id,
+    exported_at: new Date().toISOString(),
+    packet_count: files.reduce((sum, f) => sum + f.packet_count, 0),
+    first_position: first.integrity.chain_position,
+    last_position: last.integrity.chain_position,
+    chain_anchor: first.integrity.previous_hash,
+    head_hash: last.integrity.content_hash,
+    files,
+    agent_public_key: keys.publicKeyPem,
+  };
+  const manifest: BacklogManifest = {
+    ...unsigned,
+    signature: signContent(hashContent(unsigned), keys.privateKey),
+  };
+
+  writeFileSync(
+    join(dir, "manifest.json"),
+    JSON.stringify(manifest, null, 2),
+    "utf-8",
+  );
+
+  return {
+    dir,
+    manifest,
+    packetIds: chunks.flat().map((p) => p.packet_id),
+  };
+}
+
+export function readManifest(dir: string): BacklogManifest {
+  const manifest = JSON.parse(
+    readFileSync(join(dir, "manifest.json"), "utf-8"),
+  ) as BacklogManifest;
+  if (manifest.format !== BACKLOG_FORMAT) {
+    throw new Error(`Unsupported backlog format: ${manifest.format}`);
+  }
+  return manifest;
+}
+
+/**
+ * Read one chunk file of a bundle. Throws if its hash does not match the
+ * manifest.
+ */
+export function readBacklogFile(
+  dir: string,
+  file: BacklogFile,
+): EvidencePacket[] {
+  const content = readFileSync(join(dir, file.name));
+  if (sha256(content) !== file.sha256) {
+    throw new Error(`${file.name}: file hash mismatch`);
+  }
+  return gunzipSync(content)
+    .toString("utf-8")
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line) as EvidencePacket);
+}
+
+/**
+ * Verify a bundle end to end: manifest signature, chunk hashes, every
+ * packet's content hash and signature, and chain continuity.
+ */
+export function verifyBacklog(dir: string): BacklogVerification {
+  const manifest = readManifest(dir);
+  const errors: string[] = [];
+  const { signature, ...unsigned } = manifest;
+  const publicKey = createPublicKey(manifest.agent_public_key);
+
+  if (!verifySignature(hashContent(unsigned), signature, publicKey)) {
+    errors.push("manifest: signature invalid");
+  }
+
+  const gaps: ChainGap[] = [];
+  const forks: ChainFork[] = [];
+  let anchor: { position: number; hash: string } | null = null;
+  let count = 0;
+
+  for (const file of manifest.files) {
+    let packets: EvidencePacket[];
+    try {
+      packets = readBacklogFile(dir, file);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+      continue;
+    }
+
+    for (const p of packets) {
+      const expected = hashContent({
+        data: p.data,
+        regulation_mapping: p.regulation_mapping,
+      });
+      if (expected !== p.integrity.content_hash) {
+        errors.push(`${p.packet_id}: content hash mismatch`);
+      } else if (
+        !verifySignature(
+          p.integrity.content_hash,
+          p.integrity.signature,
+          publicKey,
+        )
+      ) {
+        errors.push(`${p.packet_id}: signature invalid`);
+      }
+    }
+
+    const continuity = checkContinuity(packets, anchor);
+    gaps.push(...continuity.gaps);
+    forks.push(...continuity.forks);
+
+    const tail = packets[packets.length - 1];
+    if (tail) {
+      anchor = {
+        position: tail.integrity.chain_position,
+        hash: tail.integrity.content_hash,
+      };
+    }
+    count += packets.length;
+  }
+
+  if (count !== manifest.packet_count) {
+    errors.push(
+      `manifest: expected ${manifest.packet_count} packets, found ${count}`,
+    );
+  }
+  if (anchor && anchor.hash !== manifest.head_hash) {
+    errors.push("manifest: head hash does not match the last packet");
+  }
+
+  return {
+    valid: errors.length === 0 && forks.length === 0,
+    manifest,
+    errors,
+    gaps,
+    forks,
+  };
+}
+
+function sha256(content: Buffer): string {
+  return `sha256:${createHash("sha256").update(content).digest("hex")}`;
+}
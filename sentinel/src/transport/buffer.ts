@@ -1,43 +1,104 @@
 import Database from "better-sqlite3";
-import { mkdirSync, existsSync } from "node:fs";
+import {
+  mkdirSync,
+  existsSync,
+  readdirSync,
+  renameSync,
+  unlinkSync,
+} from "node:fs";
 import { join } from "node:path";
 import type { EvidencePacket } from "../types/evidence-packet.js";
 
 const DATA_DIR = process.env["SENTINEL_DATA_DIR"] || "/data";
-const DB_PATH = join(DATA_DIR, "buffer.db");
+const BUFFER_DIR = join(DATA_DIR, "buffer");
+const LEGACY_DB_PATH = join(DATA_DIR, "buffer.db");
+const SEGMENT_FILE = /^segment-(\d{6})\.db$/;
+
+const MB = 1024 * 1024;
+
+export interface BufferOptions {
+  segmentBytes?: number; // Rotate to a new segment at this size
+  maxBytes?: number; // Drop the oldest segments beyond this total
+}
+
+export interface BufferStats {
+  segments: number;
+  bytes: number;
+  unsent: number;
+  quarantined: number;
+  oldest_unsent_position: number | null;
+  newest_unsent_position: number | null;
+}
+
+export interface QuarantinedPacket {
+  packet_id: string;
+  chain_position: number;
+  reason: string;
+  rejected_at: string;
+}
+
+interface Segment {
+  seq: number;
+  path: string;
+  db: Database.Database;
+}
 
 /**
  * Offline buffer using SQLite.
  * Stores evidence packets when the Caelex API is unreachable.
  * Packets are AES-encrypted at rest (TODO: implement encryption layer).
+ *
+ * The buffer is split into segment files under /data/buffer/. Writes go to
+ * the newest segment; once it reaches `segmentBytes` a new one is opened.
+ * Chain positions only grow, so segment order is chain order. Segments whose
+ * packets have all been sent are deleted on purge. If the total exceeds
+ * `maxBytes` the oldest segment is dropped — unsent packets in it are lost
+ * and the server will report a chain gap, so long outages should be
+ * exported to removable media before that happens.
+ *
+ * Packets the server refuses permanently (4xx) are quarantined: they keep
+ * their row for inspection but no longer count as unsent, so one bad packet
+ * cannot hold back replay or live delivery. Purge never removes them.
  */
 export class OfflineBuffer {
-  private db: Database.Database;
+  private segments: Segment[] = [];
+  private segmentBytes: number;
+  private maxBytes: number;
 
-  constructor() {
-    if (!existsSync(DATA_DIR)) {
-      mkdirSync(DATA_DIR, { recursive: true });
+  constructor(opts: BufferOptions = {}) {
+    this.segmentBytes = opts.segmentBytes ?? 16 * MB;
+    this.maxBytes = opts.maxBytes ?? 1024 * MB;
+
+    if (!existsSync(BUFFER_DIR)) {
+      mkdirSync(BUFFER_DIR, { recursive: true });
     }
 
-    this.db = new Database(DB_PATH);
-    this.db.pragma("journal_mode = WAL");
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS buffered_packets (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        packet_id TEXT UNIQUE NOT NULL,
-        chain_position INTEGER NOT NULL,
-        payload TEXT NOT NULL,
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        sent_at TEXT
-      )
-    `);
+    const seqs = readdirSync(BUFFER_DIR)
+      .map((f) => SEGMENT_FILE.exec(f))
+      .filter((m): m is RegExpExecArray => m !== null)
+      .map((m) => Number(m[1]))
+      .sort((a, b) => a - b);
+
+    // Pre-segmentation agents kept everything in /data/buffer.db
+    if (seqs.length === 0 && existsSync(LEGACY_DB_PATH)) {
+      for (const suffix of ["", "-wal", "-shm"]) {
+        if (existsSync(LEGACY_DB_PATH + suffix)) {
+          renameSync(LEGACY_DB_PATH + suffix, segmentPath(1) + suffix);
+        }
+      }
+      seqs.push(1);
+    }
+
+    for (const seq of seqs) this.segments.push(openSegment(seq));
+    if (this.segments.length === 0) this.segments.push(openSegment(1));
   }
 
   /**
    * Store a packet for later transmission.
    */
   store(packet: EvidencePacket): void {
-    this.db
+    const active = this.active();
+    active.db
       .prepare(
         `INSERT OR IGNORE INTO buffered_packets (packet_id, chain_position, payload)
          VALUES (?, ?, ?)`,
@@ -47,62 +108,253 @@ export class OfflineBuffer {
         packet.integrity.chain_position,
         JSON.stringify(packet),
       );
+
+    if (segmentSize(active) >= this.segmentBytes) this.rotate();
   }
 
   /**
-   * Get all unsent packets in chain order.
+   * Get unsent packets in chain order, optionally after a chain position.
    */
-  getUnsent(limit = 100): EvidencePacket[] {
-    const rows = this.db
-      .prepare(
-        `SELECT payload FROM buffered_packets
-         WHERE sent_at IS NULL
-         ORDER BY chain_position ASC
-         LIMIT ?`,
-      )
-      .all(limit) as Array<{ payload: string }>;
+  getUnsent(limit = 100, afterPosition = -1): EvidencePacket[] {
+    const packets: EvidencePacket[] = [];
 
-    return rows.map((r) => JSON.parse(r.payload) as EvidencePacket);
+    for (const segment of this.segments) {
+      if (packets.length >= limit) break;
+      const rows = segment.db
+        .prepare(
+          `SELECT payload FROM buffered_packets
+           WHERE sent_at IS NULL AND rejected_at IS NULL
+           AND chain_position > ?
+           ORDER BY chain_position ASC
+           LIMIT ?`,
+        )
+        .all(afterPosition, limit - packets.length) as Array<{
+        payload: string;
+      }>;
+      for (const r of rows)
+        packets.push(JSON.parse(r.payload) as EvidencePacket);
+    }
+
+    return packets;
   }
 
   /**
    * Mark a packet as successfully sent.
    */
   markSent(packetId: string): void {
-    this.db
-      .prepare(
-        `UPDATE buffered_packets SET sent_at = datetime('now') WHERE packet_id = ?`,
-      )
-      .run(packetId);
+    for (const segment of this.segments) {
+      const result = segment.db
+        .prepare(
+          `UPDATE buffered_packets SET sent_at = datetime('now') WHERE packet_id = ?`,
+        )
+        .run(packetId);
+      if (result.changes > 0) return;
+    }
+  }
+
+  /**
+   * Quarantine a packet the server refused permanently.
+   */
+  quarantine(packetId: string, reason: string): void {
+    for (const segment of this.segments) {
+      const result = segment.db
+        .prepare(
+          `UPDATE buffered_packets
+           SET rejected_at = datetime('now'), reject_reason = ?
+           WHERE packet_id = ? AND sent_at IS NULL`,
+        )
+        .run(reason, packetId);
+      if (result.changes > 0) return;
+    }
+  }
+
+  /**
+   * Quarantined packets in chain order.
+   */
+  getQuarantined(limit = 100): QuarantinedPacket[] {
+    const packets: QuarantinedPacket[] = [];
+    for (const segment of this.segments) {
+      if (packets.length >= limit) break;
+      const rows = segment.db
+        .prepare(
+          `SELECT packet_id, chain_position, reject_reason AS reason, rejected_at
+           FROM buffered_packets WHERE rejected_at IS NOT NULL
+           ORDER BY chain_position ASC
+           LIMIT ?`,
+        )
+        .all(limit - packets.length) as QuarantinedPacket[];
+      packets.push(...rows);
+    }
+    return packets;
   }
 
   /**
    * Purge old sent packets (keep buffer lean).
+   * Sealed segments left empty are deleted.
    */
   purge(maxDays: number): number {
-    const result = this.db
-      .prepare(
-        `DELETE FROM buffered_packets
-         WHERE sent_at IS NOT NULL
-         AND created_at < datetime('now', ? || ' days')`,
-      )
-      .run(`-${maxDays}`);
-    return result.changes;
+    let purged = 0;
+    for (const segment of this.segments) {
+      const result = segment.db
+        .prepare(
+          `DELETE FROM buffered_packets
+           WHERE sent_at IS NOT NULL
+           AND created_at < datetime('now', ? || ' days')`,
+        )
+        .run(`-${maxDays}`);
+      purged += result.changes;
+    }
+
+    const active = this.active();
+    for (const segment of [...this.segments]) {
+      if (segment !== active && rowCount(segment) === 0) this.drop(segment);
+    }
+    return purged;
   }
 
   /**
    * Count unsent packets.
    */
   unsentCount(): number {
-    const row = this.db
-      .prepare(
-        `SELECT COUNT(*) as count FROM buffered_packets WHERE sent_at IS NULL`,
-      )
-      .get() as { count: number };
-    return row.count;
+    return this.segments.reduce((sum, s) => sum + unsentRows(s), 0);
+  }
+
+  stats(): BufferStats {
+    let oldest: number | null = null;
+    let newest: number | null = null;
+    for (const segment of this.segments) {
+      const row = segment.db
+        .prepare(
+          `SELECT MIN(chain_position) AS lo, MAX(chain_position) AS hi
+           FROM buffered_packets WHERE sent_at IS NULL AND rejected_at IS NULL`,
+        )
+        .get() as { lo: number | null; hi: number | null };
+      if (row.lo !== null && oldest === null) oldest = row.lo;
+      if (row.hi !== null) newest = row.hi;
+    }
+
+    return {
+      segments: this.segments.length,
+      bytes: this.totalBytes(),
+      unsent: this.unsentCount(),
+      quarantined: this.segments.reduce(
+        (sum, s) => sum + quarantinedRows(s),
+        0,
+      ),
+      oldest_unsent_position: oldest,
+      newest_unsent_position: newest,
+    };
   }
 
   close(): void {
-    this.db.close();
+    for (const segment of this.segments) segment.db.close();
+  }
+
+  private active(): Segment {
+    return this.segments[this.segments.length - 1]!;
+  }
+
+  private rotate(): void {
+    const sealed = this.active();
+    sealed.db.pragma("wal_checkpoint(TRUNCATE)");
+    this.segments.push(openSegment(sealed.seq + 1));
+    console.log(
+      `[buffer] Rotated to segment ${sealed.seq + 1} (${this.segments.length} segments)`,
+    );
+
+    while (this.segments.length > 1 && this.totalBytes() > this.maxBytes) {
+      const oldest = this.segments[0]!;
+      const lost = unsentRows(oldest);
+      if (lost > 0) {
+        const range = oldest.db
+          .prepare(
+            `SELECT MIN(chain_position) AS lo, MAX(chain_position) AS hi
+             FROM buffered_packets WHERE sent_at IS NULL AND rejected_at IS NULL`,
+          )
+          .get() as { lo: number; hi: number };
+        console.warn(
+          `[buffer] Size limit reached — dropping ${lost} unsent packets (chain ${range.lo}–${range.hi})`,
+        );
+      }
+      this.drop(oldest);
+    }
+  }
+
+  private drop(segment: Segment): void {
+    segment.db.close();
+    for (const suffix of ["", "-wal", "-shm"]) {
+      if (existsSync(segment.path + suffix)) unlinkSync(segment.path + suffix);
+    }
+    this.segments = this.segments.filter((s) => s !== segment);
+  }
+
+  private totalBytes(): number {
+    return this.segments.reduce((sum, s) => sum + segmentSize(s), 0);
+  }
+}
+
+function segmentPath(seq: number): string {
+  return join(BUFFER_DIR, `segment-${String(seq).padStart(6, "0")}.db`);
+}
+
+function openSegment(seq: number): Segment {
+  const path = segmentPath(seq);
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS buffered_packets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      packet_id TEXT UNIQUE NOT NULL,
+      chain_position INTEGER NOT NULL,
+      payload TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      sent_at TEXT,
+      rejected_at TEXT,
+      reject_reason TEXT
+    )
+  `);
+  // Segments written before quarantine existed lack the columns
+  const columns = db.pragma("table_info(buffered_packets)") as Array<{
+    name: string;
+  }>;
+  if (!columns.some((c) => c.name === "rejected_at")) {
+    db.exec(`
+      ALTER TABLE buffered_packets ADD COLUMN rejected_at TEXT;
+      ALTER TABLE buffered_packets ADD COLUMN reject_reason TEXT;
+    `);
   }
+  return { seq, path, db };
+}
+
+/** Logical database size in bytes, WAL contents included */
+function segmentSize(segment: Segment): number {
+  const pages = segment.db.pragma("page_count", { simple: true }) as number;
+  const pageSize = segment.db.pragma("page_size", { simple: true }) as number;
+  return pages * pageSize;
+}
+
+function rowCount(segment: Segment): number {
+  const row = segment.db
+    .prepare(`SELECT COUNT(*) as count FROM buffered_packets`)
+    .get() as { count: number };
+  return row.count;
+}
+
+function unsentRows(segment: Segment): number {
+  const row = segment.db
+    .prepare(
+      `SELECT COUNT(*) as count FROM buffered_packets
+       WHERE sent_at IS NULL AND rejected_at IS NULL`,
+    )
+    .get() as { count: number };
+  return row.count;
+}
+
+function quarantinedRows(segment: Segment): number {
+  const row = segment.db
+    .prepare(
+      `SELECT COUNT(*) as count FROM buffered_packets WHERE rejected_at IS NOT NULL`,
+    )
+    .get() as { count: number };
+  return row.count;
 }
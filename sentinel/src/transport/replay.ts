@@ -0,0 +1,270 @@
+import { gzipSync } from "node:zlib";
+import type { EvidencePacket } from "../types/evidence-packet.js";
+import type { OfflineBuffer } from "./buffer.js";
+import { withRetry } from "./retry.js";
+
+export interface ChainGap {
+  from_position: number;
+  to_position: number;
+}
+
+export interface ChainFork {
+  position: number;
+  expected: string;
+  actual: string;
+}
+
+export interface BatchPacketResult {
+  packet_id: string;
+  chain_position: number;
+  status: "accepted" | "duplicate" | "rejected";
+  error?: string;
+}
+
+export interface BatchResponse {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  results: BatchPacketResult[];
+  chain: { gaps: ChainGap[]; forks: ChainFork[] };
+}
+
+export type BatchResult =
+  | { success: true; response: BatchResponse }
+  | { success: false; statusCode: number; error: string };
+
+export interface RejectedPacket {
+  packet_id: string;
+  chain_position: number;
+  error: string;
+}
+
+export interface ReplayReport {
+  batches: number;
+  sent: number;
+  duplicates: number;
+  rejected: number; // Quarantined — see `quarantined`
+  quarantined: RejectedPacket[];
+  remaining: number;
+  gaps: ChainGap[];
+  forks: ChainFork[];
+}
+
+/**
+ * Whether an HTTP status means the server will never take the packets sent.
+ * 401 and 403 are about the agent (credentials, status, sentinel ID), not
+ * the packets; 408 and 429 are transient. Every other 4xx is final.
+ */
+export function isPermanentRejection(status: number): boolean {
+  return (
+    status >= 400 &&
+    status < 500 &&
+    status !== 401 &&
+    status !== 403 &&
+    status !== 408 &&
+    status !== 429
+  );
+}
+
+interface ChainAnchor {
+  position: number;
+  hash: string;
+}
+
+/**
+ * Check that packets form an unbroken chain, continuing from `anchor` when
+ * given. Packets must already be in chain order.
+ */
+export function checkContinuity(
+  packets: EvidencePacket[],
+  anchor: ChainAnchor | null = null,
+): { gaps: ChainGap[]; forks: ChainFork[] } {
+  const gaps: ChainGap[] = [];
+  const forks: ChainFork[] = [];
+  let prev = anchor;
+
+  for (const packet of packets) {
+    const { chain_position: position, previous_hash } = packet.integrity;
+    if (prev && position > prev.position + 1) {
+      gaps.push({
+        from_position: prev.position + 1,
+        to_position: position - 1,
+      });
+    } else if (prev && previous_hash !== prev.hash) {
+      forks.push({
+        position,
+        expected: prev.hash,
+        actual: previous_hash,
+      });
+    }
+    prev = { position, hash: packet.integrity.content_hash };
+  }
+
+  return { gaps, forks };
+}
+
+/**
+ * POST a gzip-compressed batch of packets to the batch ingest endpoint.
+ * Throws on retryable failures (5xx, network); auth failures and
+ * refusals of the whole batch are returned.
+ */
+export async function postBatch(
+  target: { apiUrl: string; token: string },
+  packets: EvidencePacket[],
+): Promise<BatchResult> {
+  const first = packets[0]!;
+  const body = gzipSync(
+    JSON.stringify({ sentinel_id: first.sentinel_id, packets }),
+  );
+
+  const response = await fetch(
+    `${target.apiUrl}/api/v1/sentinel/ingest/batch`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Encoding": "gzip",
+        Authorization: `Bearer ${target.token}`,
+        "X-Sentinel-ID": first.sentinel_id,
+        "User-Agent": `CaelexSentinel/${first.metadata.sentinel_version}`,
+      },
+      body,
+      signal: AbortSignal.timeout(120000),
+    },
+  );
+
+  if (response.ok) {
+    return {
+      success: true,
+      response: (await response.json()) as BatchResponse,
+    };
+  }
+
+  // Non-retryable errors
+  if (response.status === 401) {
+    return {
+      success: false,
+      statusCode: response.status,
+      error: `Authentication failed: ${response.status}`,
+    };
+  }
+  if (response.status === 403 || isPermanentRejection(response.status)) {
+    return {
+      success: false,
+      statusCode: response.status,
+      error: `Refused: HTTP ${response.status} ${response.statusText}`,
+    };
+  }
+
+  // Retryable — throw to trigger retry
+  throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+}
+
+/**
+ * Replays the offline buffer in hash-chain order.
+ * Each batch is compressed and sent whole; packets the server has settled
+ * (accepted or already held) are marked sent, so an interrupted replay
+ * resumes from the first unsettled packet.
+ *
+ * Packets the server rejects by name in the batch result are quarantined
+ * in the buffer and reported instead of being retried. When the server
+ * refuses a whole batch (e.g. 403 for a suspended agent), replay pauses
+ * and every packet stays unsent.
+ */
+export class ChainReplayer {
+  private anchor: ChainAnchor | null = null;
+
+  constructor(
+    private buffer: OfflineBuffer,
+    private opts: { apiUrl: string; token: string; batchSize: number },
+  ) {}
+
+  async replay(maxBatches = Infinity): Promise<ReplayReport> {
+    const report: ReplayReport = {
+      batches: 0,
+      sent: 0,
+      duplicates: 0,
+      rejected: 0,
+      quarantined: [],
+      remaining: 0,
+      gaps: [],
+      forks: [],
+    };
+
+    while (report.batches < maxBatches) {
+      const batch = this.buffer.getUnsent(this.opts.batchSize);
+      if (batch.length === 0) break;
+
+      const first = batch[0]!.integrity.chain_position;
+      const last = batch[batch.length - 1]!.integrity.chain_position;
+
+      const local = checkContinuity(batch, this.anchor);
+      if (local.gaps.length > 0 || local.forks.length > 0) {
+        console.warn(
+          `[replay] Local chain ${first}–${last}: ${local.gaps.length} gap(s), ${local.forks.length} fork(s)`,
+        );
+      }
+
+      let result: BatchResult;
+      try {
+        result = await withRetry(() => postBatch(this.opts, batch), {
+          maxAttempts: 3, // Quick retries; the next flush resumes
+          maxDelayMs: 10000,
+          onRetry: (attempt, err) => {
+            console.log(
+              `[replay] Retry ${attempt}/3 for chain ${first}: ${err}`,
+            );
+          },
+        });
+      } catch (err) {
+        console.log(`[replay] Paused at chain position ${first}: ${err}`);
+        break;
+      }
+
+      if (!result.success) {
+        console.error(`[replay] ${result.error}`);
+        break;
+      }
+
+      const { response } = result;
+      for (const r of response.results) {
+        if (r.status === "rejected") {
+          this.reject(report, {
+            packet_id: r.packet_id,
+            chain_position: r.chain_position,
+            error: r.error ?? "rejected",
+          });
+        } else {
+          this.buffer.markSent(r.packet_id);
+        }
+      }
+
+      report.batches++;
+      report.sent += response.accepted;
+      report.duplicates += response.duplicates;
+      report.gaps.push(...response.chain.gaps);
+      report.forks.push(...response.chain.forks);
+
+      const tail = batch[batch.length - 1]!;
+      this.anchor = {
+        position: tail.integrity.chain_position,
+        hash: tail.integrity.content_hash,
+      };
+
+      // Nothing settled — don't spin on the same batch
+      if (response.results.length === 0) break;
+    }
+
+    report.remaining = this.buffer.unsentCount();
+    return report;
+  }
+
+  private reject(report: ReplayReport, packet: RejectedPacket): void {
+    console.error(
+      `[replay] Quarantined ${packet.packet_id} (chain ${packet.chain_position}): ${packet.error}`,
+    );
+    this.buffer.quarantine(packet.packet_id, packet.error);
+    report.rejected++;
+    report.quarantined.push(packet);
+  }
+}
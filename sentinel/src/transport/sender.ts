@@ -1,7 +1,12 @@
 import type { EvidencePacket } from "../types/evidence-packet.js";
 import type { SentinelConfig } from "../types/config-types.js";
-import { OfflineBuffer } from "./buffer.js";
+import { OfflineBuffer, type BufferStats } from "./buffer.js";
 import { withRetry } from "./retry.js";
+import {
+  ChainReplayer,
+  isPermanentRejection,
+  type ReplayReport,
+} from "./replay.js";
 
 export interface SendResult {
   success: boolean;
@@ -10,10 +15,16 @@ export interface SendResult {
   error?: string;
 }
 
+const MB = 1024 * 1024;
+
 /**
  * HTTPS transport layer.
  * Sends evidence packets to the Caelex API.
- * Falls back to offline buffer on failure.
+ * Falls back to offline buffer on failure; while a backlog exists, new
+ * packets queue behind it so the server receives the chain in order.
+ * Packets the server refuses permanently (4xx other than auth) are
+ * quarantined in the buffer rather than retried, so they never become a
+ * backlog.
  */
 export class PacketSender {
   private apiUrl: string;
@@ -21,20 +32,38 @@ export class PacketSender {
   private maxAttempts: number;
   private maxDelayMs: number;
   private buffer: OfflineBuffer;
+  private replayer: ChainReplayer;
 
   constructor(config: SentinelConfig) {
     this.apiUrl = config.transport.caelex_api_url;
     this.token = config.transport.sentinel_token;
     this.maxAttempts = config.transport.retry_max_attempts;
     this.maxDelayMs = config.transport.retry_max_delay_ms;
-    this.buffer = new OfflineBuffer();
+    this.buffer = new OfflineBuffer({
+      segmentBytes: (config.transport.buffer_segment_mb ?? 16) * MB,
+      maxBytes: (config.transport.buffer_max_mb ?? 1024) * MB,
+    });
+    this.replayer = new ChainReplayer(this.buffer, {
+      apiUrl: this.apiUrl,
+      token: this.token,
+      batchSize: config.transport.replay_batch_size ?? 200,
+    });
   }
 
   /**
    * Send a single evidence packet.
-   * Retries with exponential backoff, falls back to buffer.
+   * Retries 5xx and network errors with exponential backoff, falls back
+   * to buffer; quarantines permanent rejections.
    */
   async send(packet: EvidencePacket): Promise<SendResult> {
+    if (this.buffer.unsentCount() > 0) {
+      this.buffer.store(packet);
+      return {
+        success: false,
+        error: "Buffered behind unsent backlog",
+      };
+    }
+
     try {
       const result = await withRetry(() => this.httpPost(packet), {
         maxAttempts: 3, // Quick retries first
@@ -45,6 +74,17 @@ export class PacketSender {
           );
         },
       });
+      if (
+        !result.success &&
+        result.statusCode !== undefined &&
+        isPermanentRejection(result.statusCode)
+      ) {
+        console.error(
+          `[sender] Quarantined packet ${packet.packet_id}: ${result.error}`,
+        );
+        this.buffer.store(packet);
+        this.buffer.quarantine(packet.packet_id, result.error ?? "rejected");
+      }
       return result;
     } catch {
       // Failed after quick retries — buffer it
@@ -58,37 +98,39 @@ export class PacketSender {
   }
 
   /**
-   * Flush buffered packets (call periodically).
+   * Replay buffered packets in chain order (call periodically).
+   * Resumes where the previous replay stopped.
    */
-  async flushBuffer(): Promise<number> {
-    const unsent = this.buffer.getUnsent(50);
-    if (unsent.length === 0) return 0;
-
-    let sent = 0;
-    for (const packet of unsent) {
-      try {
-        const result = await this.httpPost(packet);
-        if (result.success) {
-          this.buffer.markSent(packet.packet_id);
-          sent++;
-        } else {
-          break; // Stop on first failure to maintain order
-        }
-      } catch {
-        break;
-      }
+  async flushBuffer(): Promise<ReplayReport> {
+    const report = await this.replayer.replay();
+    if (report.batches > 0) {
+      console.log(
+        `[sender] Replayed ${report.sent + report.duplicates} buffered packets in ${report.batches} batch(es), ${report.remaining} remaining`,
+      );
     }
-
-    if (sent > 0) {
-      console.log(`[sender] Flushed ${sent}/${unsent.length} buffered packets`);
+    if (report.gaps.length > 0 || report.forks.length > 0) {
+      console.warn(
+        `[sender] Server reported ${report.gaps.length} chain gap(s) and ${report.forks.length} fork(s)`,
+      );
     }
-    return sent;
+    return report;
   }
 
   getBufferCount(): number {
     return this.buffer.unsentCount();
   }
 
+  /**
+   * Drop sent packets older than `maxDays` and any segments left empty.
+   */
+  purgeBuffer(maxDays: number): number {
+    return this.buffer.purge(maxDays);
+  }
+
+  getBufferStats(): BufferStats {
+    return this.buffer.stats();
+  }
+
   private async httpPost(packet: EvidencePacket): Promise<SendResult> {
     const url = `${this.apiUrl}/api/v1/sentinel/ingest`;
 
@@ -114,13 +156,20 @@ export class PacketSender {
     }
 
     // Non-retryable errors
-    if (response.status === 401 || response.status === 403) {
+    if (response.status === 401) {
       return {
         success: false,
         statusCode: response.status,
         error: `Authentication failed: ${response.status}`,
       };
     }
+    if (response.status === 403 || isPermanentRejection(response.status)) {
+      return {
+        success: false,
+        statusCode: response.status,
+        error: `Rejected: HTTP ${response.status} ${response.statusText}`,
+      };
+    }
 
     // Retryable — throw to trigger retry
     throw new Error(`HTTP ${response.status}: ${response.statusText}`);
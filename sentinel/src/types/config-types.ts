@@ -9,6 +9,8 @@ export interface SentinelConfig {
     cybersecurity: CollectorConfig;
     ground_station: CollectorConfig;
     document_watch: CollectorConfig;
+    opcua: OpcUaCollectorConfig;
+    syslog: SyslogCollectorConfig;
   };
   transport: {
     caelex_api_url: string;
@@ -16,6 +18,9 @@ export interface SentinelConfig {
     retry_max_attempts: number;
     retry_max_delay_ms: number;
     buffer_max_days: number;
+    buffer_segment_mb: number; // Rotate to a new buffer segment at this size
+    buffer_max_mb: number; // Oldest segments are dropped beyond this total
+    replay_batch_size: number; // Packets per compressed replay batch
   };
   dashboard: {
     enabled: boolean;
@@ -36,3 +41,27 @@ export interface CollectorConfig {
   enabled: boolean;
   schedule: string; // cron expression
 }
+
+export interface OpcUaCollectorConfig extends CollectorConfig {
+  endpoint_url: string; // opc.tcp://host:port/path
+  security_mode: "None" | "Sign" | "SignAndEncrypt";
+  security_policy: "None" | "Basic256Sha256" | "Aes128_Sha256_RsaOaep";
+  username?: string;
+  password?: string;
+  station_id: string;
+  nodes: OpcUaNodeMapping[];
+}
+
+export interface OpcUaNodeMapping {
+  node_id: string; // e.g. "ns=1;s=GS-01.ContactSuccessRate"
+  field: string; // Evidence field name, e.g. "contact_success_rate_pct"
+  norad_id?: string; // Set for spacecraft telemetry, omit for station metrics
+}
+
+export interface SyslogCollectorConfig extends CollectorConfig {
+  protocol: "udp" | "tcp";
+  host: string;
+  port: number;
+  max_buffered_events: number;
+  significant_severity: number; // CEF 0–10: at or above counts as significant
+}
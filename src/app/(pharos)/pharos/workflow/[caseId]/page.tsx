@@ -16,23 +16,12 @@ import { notFound, redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { getCase } from "@/lib/pharos/workflow-service";
-import {
-  EU_SPACE_ACT_AUTH_FSM_DEF,
-  NIS2_INCIDENT_FSM_DEF,
-} from "@/lib/pharos/workflow-fsm";
+import { resolveMachine } from "@/lib/pharos/workflow-machine-service";
 import { ArrowLeft, CheckCircle2, Clock, GitBranch } from "lucide-react";
 import { CaseDispatchPanel } from "./CaseDispatchPanel";
 
 export const dynamic = "force-dynamic";
 
-const FSM_DEFS: Record<
-  string,
-  typeof NIS2_INCIDENT_FSM_DEF | typeof EU_SPACE_ACT_AUTH_FSM_DEF
-> = {
-  "nis2-incident-v1": NIS2_INCIDENT_FSM_DEF,
-  "eu-space-act-authorisation-v1": EU_SPACE_ACT_AUTH_FSM_DEF,
-};
-
 export default async function WorkflowCaseDetailPage({
   params,
 }: {
@@ -80,26 +69,19 @@ export default async function WorkflowCaseDetailPage({
     );
   }
 
-  const fsmDef = FSM_DEFS[c.fsmId];
-  const stateDef = fsmDef?.states[
-    c.currentState as keyof typeof fsmDef.states
-  ] as
-    | {
-        label: string;
-        final?: boolean;
-        on?: Record<string, string>;
-        after?: { afterMs: number; reason: string; target: string };
-      }
-    | undefined;
+  const machine = await resolveMachine(c.fsmId);
+  const stateDef = machine?.def.states[c.currentState];
   const enteredAt = new Date(c.enteredStateAt);
   const elapsedMs = Date.now() - enteredAt.getTime();
   const slaRemainingMs = stateDef?.after
     ? stateDef.after.afterMs - elapsedMs
     : null;
 
-  const allowedEvents = stateDef?.on
-    ? (Object.keys(stateDef.on) as string[])
-    : [];
+  // Signatur-Events feuert nur die Approval-Bridge.
+  const gate = stateDef?.signatures;
+  const allowedEvents = Object.keys(stateDef?.on ?? {}).filter(
+    (ev) => ev !== gate?.onApproved && ev !== gate?.onRejected,
+  );
 
   return (
     <div className="space-y-6 max-w-5xl">
@@ -114,6 +96,7 @@ export default async function WorkflowCaseDetailPage({
           {c.caseRef}
         </h1>
         <p className="text-sm text-slate-600 dark:text-slate-400 mt-1.5">
+          {machine?.builtin === false ? `${machine.title} · ` : ""}
           {c.fsmId} · ID <span className="pharos-code">{c.id}</span>
         </p>
       </div>
@@ -0,0 +1,403 @@
+"use client";
+
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * MachineEditor — JSON/YAML-Editor für Verfahrens-Maschinen: Prüfen +
+ * Simulieren (zustandslos), als Entwurf speichern, Simulation festhalten,
+ * veröffentlichen.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  AlertCircle,
+  CheckCircle2,
+  FlaskConical,
+  Rocket,
+  Save,
+} from "lucide-react";
+
+interface AuthorityOption {
+  id: string;
+  label: string;
+}
+
+interface DraftOption {
+  id: string;
+  fsmId: string;
+  authorityProfileId: string;
+  format: "json" | "yaml";
+  source: string;
+  script: string | null;
+}
+
+interface Issue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+interface Simulation {
+  passed: boolean;
+  reachedFinal: boolean;
+  finalState: string;
+  trace: Array<{
+    step: number;
+    atMs: number;
+    from: string;
+    to: string;
+    event: string;
+    reason?: string;
+  }>;
+  visitedStates: string[];
+  failure: { step: number | null; message: string } | null;
+}
+
+const TEMPLATE = `id: spectrum-coordination
+version: 1
+title: Frequenzkoordination
+initial: Filed
+states:
+  Filed:
+    label: Antrag eingegangen
+    after:
+      duration: P30D
+      target: Lapsed
+      reason: 30 Tage ohne Vorprüfung — Antrag verfällt
+    on:
+      ACCEPT: Coordination
+      WITHDRAW: Withdrawn
+  Coordination:
+    label: Internationale Koordinierung
+    signatures:
+      approvalKind: GENERIC
+      onApproved: GRANT
+      onRejected: DENY
+    on:
+      GRANT: Granted
+      DENY: Denied
+  Granted:
+    label: Zugeteilt
+    final: true
+  Denied:
+    label: Abgelehnt
+    final: true
+  Lapsed:
+    label: Verfallen
+    final: true
+  Withdrawn:
+    label: Zurückgezogen
+    final: true
+`;
+
+const SCRIPT_TEMPLATE = `{
+  "steps": [
+    { "advance": "P10D", "expect": "Filed" },
+    { "event": "ACCEPT", "expect": "Coordination" },
+    { "sign": "APPROVED" }
+  ],
+  "expectFinal": "Granted"
+}`;
+
+export function MachineEditor({
+  authorityProfiles,
+  drafts,
+}: {
+  authorityProfiles: AuthorityOption[];
+  drafts: DraftOption[];
+}) {
+  const router = useRouter();
+  const [authorityProfileId, setAuthorityProfileId] = useState(
+    authorityProfiles[0]?.id ?? "",
+  );
+  const [format, setFormat] = useState<"json" | "yaml">("yaml");
+  const [source, setSource] = useState(TEMPLATE);
+  const [script, setScript] = useState(SCRIPT_TEMPLATE);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  function loadDraft(id: string) {
+    const d = drafts.find((x) => x.id === id);
+    if (!d) return;
+    setDraftId(d.id);
+    setAuthorityProfileId(d.authorityProfileId);
+    setFormat(d.format);
+    setSource(d.source);
+    if (d.script) setScript(d.script);
+    setIssues([]);
+    setSimulation(null);
+    setMessage(`Entwurf ${d.fsmId} geladen`);
+  }
+
+  function parseScript(): unknown | null {
+    try {
+      return JSON.parse(script);
+    } catch {
+      setError("Simulations-Skript ist kein gültiges JSON");
+      return null;
+    }
+  }
+
+  async function post(url: string, body?: unknown) {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => ({}));
+    return { res, json };
+  }
+
+  async function run(action: "check" | "save" | "simulate" | "publish") {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      if (action === "check") {
+        const parsedScript = parseScript();
+        if (parsedScript === null) return;
+        const { res, json } = await post(
+          "/api/pharos/workflow/machines/validate",
+          { format, source, script: parsedScript },
+        );
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        setIssues(json.issues ?? []);
+        setSimulation(json.simulation ?? null);
+        setMessage(
+          json.valid ? `${json.fsmId} ist gültig` : "Definition hat Fehler",
+        );
+      } else if (action === "save") {
+        const { res, json } = await post("/api/pharos/workflow/machines", {
+          authorityProfileId,
+          format,
+          source,
+        });
+        setIssues(json.issues && Array.isArray(json.issues) ? json.issues : []);
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        setDraftId(json.machine.id);
+        setSimulation(null);
+        setMessage(`Entwurf ${json.machine.fsmId} gespeichert`);
+        router.refresh();
+      } else if (action === "simulate" && draftId) {
+        const parsedScript = parseScript();
+        if (parsedScript === null) return;
+        const { res, json } = await post(
+          `/api/pharos/workflow/machines/${draftId}/simulate`,
+          { script: parsedScript },
+        );
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        setSimulation(json.simulation);
+        setMessage("Simulation festgehalten");
+        router.refresh();
+      } else if (action === "publish" && draftId) {
+        const { res, json } = await post(
+          `/api/pharos/workflow/machines/${draftId}/publish`,
+        );
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        setDraftId(null);
+        setMessage(`${json.machine.fsmId} ist live`);
+        router.refresh();
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputCls =
+    "w-full rounded-lg border border-slate-300 dark:border-white/10 bg-white dark:bg-white/[0.03] px-3 py-2 text-xs text-slate-900 dark:text-slate-100";
+
+  return (
+    <div className="pharos-card p-5 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        {drafts.length > 0 && (
+          <label className="text-[11px] text-slate-500">
+            Entwurf
+            <select
+              className={`${inputCls} mt-1`}
+              value={draftId ?? ""}
+              onChange={(e) => loadDraft(e.target.value)}
+            >
+              <option value="">— neu —</option>
+              {drafts.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.fsmId}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {authorityProfiles.length > 1 && (
+          <label className="text-[11px] text-slate-500">
+            Behörde
+            <select
+              className={`${inputCls} mt-1`}
+              value={authorityProfileId}
+              onChange={(e) => setAuthorityProfileId(e.target.value)}
+            >
+              {authorityProfiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="text-[11px] text-slate-500">
+          Format
+          <select
+            className={`${inputCls} mt-1`}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as "json" | "yaml")}
+          >
+            <option value="yaml">YAML</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <label className="lg:col-span-2 text-[11px] text-slate-500">
+          Definition
+          <textarea
+            className={`${inputCls} mt-1 h-96 font-mono`}
+            spellCheck={false}
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+          />
+        </label>
+        <label className="text-[11px] text-slate-500">
+          Simulations-Skript (JSON)
+          <textarea
+            className={`${inputCls} mt-1 h-96 font-mono`}
+            spellCheck={false}
+            value={script}
+            onChange={(e) => setScript(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={busy}
+          onClick={() => run("check")}
+          className="inline-flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-lg border border-slate-300 dark:border-white/15 text-slate-700 dark:text-slate-300 disabled:opacity-40"
+        >
+          <FlaskConical className="w-3.5 h-3.5" />
+          Prüfen & simulieren
+        </button>
+        <button
+          type="button"
+          disabled={busy || !authorityProfileId}
+          onClick={() => run("save")}
+          className="inline-flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-lg border border-slate-300 dark:border-white/15 text-slate-700 dark:text-slate-300 disabled:opacity-40"
+        >
+          <Save className="w-3.5 h-3.5" />
+          Als Entwurf speichern
+        </button>
+        <button
+          type="button"
+          disabled={busy || !draftId}
+          onClick={() => run("simulate")}
+          className="inline-flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-lg border border-slate-300 dark:border-white/15 text-slate-700 dark:text-slate-300 disabled:opacity-40"
+        >
+          <FlaskConical className="w-3.5 h-3.5" />
+          Simulation festhalten
+        </button>
+        <button
+          type="button"
+          disabled={busy || !draftId}
+          onClick={() => run("publish")}
+          className="pharos-btn-primary inline-flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Rocket className="w-3.5 h-3.5" />
+          Veröffentlichen
+        </button>
+      </div>
+
+      {message && (
+        <p className="text-xs text-slate-700 dark:text-slate-300 inline-flex items-center gap-1.5">
+          <CheckCircle2 className="w-3.5 h-3.5" /> {message}
+        </p>
+      )}
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-300 inline-flex items-center gap-1.5">
+          <AlertCircle className="w-3.5 h-3.5" /> {error}
+        </p>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="text-xs space-y-1">
+          {issues.map((i, idx) => (
+            <li key={idx} className="text-slate-700 dark:text-slate-300">
+              <span className="pharos-code">{i.path || "—"}</span>{" "}
+              <span className="text-slate-500">[{i.code}]</span> {i.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {simulation && (
+        <div className="text-xs">
+          <p className="text-slate-700 dark:text-slate-300 mb-2">
+            {simulation.passed
+              ? "Simulation bestanden"
+              : "Simulation fehlgeschlagen"}{" "}
+            · End-State{" "}
+            <span className="pharos-code">{simulation.finalState}</span>
+            {simulation.reachedFinal ? " (final)" : " (nicht final)"} ·{" "}
+            {simulation.visitedStates.length} States besucht
+          </p>
+          {simulation.failure && (
+            <p className="text-red-600 dark:text-red-300 mb-2">
+              {simulation.failure.step !== null
+                ? `Schritt ${simulation.failure.step + 1}: `
+                : ""}
+              {simulation.failure.message}
+            </p>
+          )}
+          <table className="w-full">
+            <thead className="text-[10px] uppercase tracking-wider text-slate-500">
+              <tr>
+                <th className="py-1 text-left">Schritt</th>
+                <th className="py-1 text-left">Zeit</th>
+                <th className="py-1 text-left">Übergang</th>
+                <th className="py-1 text-left">Event</th>
+              </tr>
+            </thead>
+            <tbody>
+              {simulation.trace.map((t, idx) => (
+                <tr
+                  key={idx}
+                  className="border-t border-slate-200/60 dark:border-white/5"
+                >
+                  <td className="py-1.5 tabular-nums">{t.step + 1}</td>
+                  <td className="py-1.5 tabular-nums">
+                    {(t.atMs / 3600_000).toFixed(1)}h
+                  </td>
+                  <td className="py-1.5">
+                    {t.from} → {t.to}
+                  </td>
+                  <td className="py-1.5">
+                    <span className="pharos-code">{t.event}</span>
+                    {t.reason ? ` — ${t.reason}` : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * /pharos/workflow/machines — behördeneigene Verfahrens-Maschinen.
+ *
+ * Behörden verfassen ihre Verfahren (nationale Lizenzierung, CRA-Markt-
+ * überwachung, Frequenzkoordination …) als JSON/YAML, prüfen sie gegen
+ * den Validator, simulieren eine Event-Folge und veröffentlichen erst
+ * dann. Die Seite listet eingebaute und eigene Maschinen mit Version und
+ * Status; Editor + Simulation leben im Client-Island.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  listBuiltinMachines,
+  listMachineDefs,
+} from "@/lib/pharos/workflow-machine-service";
+import { ArrowLeft, GitBranch } from "lucide-react";
+import { MachineEditor } from "./MachineEditor";
+
+export const dynamic = "force-dynamic";
+
+const STATUS_LABELS: Record<string, string> = {
+  DRAFT: "Entwurf",
+  LIVE: "Live",
+  SUPERSEDED: "Abgelöst",
+};
+
+export default async function WorkflowMachinesPage() {
+  const session = await auth();
+  if (!session?.user?.id)
+    redirect("/pharos-login?callbackUrl=%2Fpharos%2Fworkflow%2Fmachines");
+
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId: session.user.id },
+    select: { organizationId: true },
+  });
+  const profiles = await prisma.authorityProfile.findMany({
+    where: { organizationId: { in: memberships.map((m) => m.organizationId) } },
+    select: { id: true, authorityType: true, jurisdiction: true },
+  });
+  if (profiles.length === 0) {
+    return (
+      <div className="space-y-4 max-w-2xl">
+        <h1 className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+          Keine Behörden-Mitgliedschaft
+        </h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Verfahrens-Maschinen sind nur für AUTHORITY-Organisationen sichtbar.
+        </p>
+      </div>
+    );
+  }
+  const profileIds = profiles.map((p) => p.id);
+
+  const machines = await listMachineDefs(profileIds);
+  const drafts = await prisma.workflowMachineDef.findMany({
+    where: { authorityProfileId: { in: profileIds }, status: "DRAFT" },
+    orderBy: { updatedAt: "desc" },
+    select: {
+      id: true,
+      fsmId: true,
+      authorityProfileId: true,
+      sourceFormat: true,
+      source: true,
+      simulationScript: true,
+    },
+  });
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div>
+        <Link
+          href="/pharos/workflow"
+          className="inline-flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 transition-colors"
+        >
+          <ArrowLeft className="w-3 h-3" /> Zurück zur Verfahrens-Inbox
+        </Link>
+        <div className="text-[10px] tracking-[0.22em] uppercase text-slate-700 dark:text-slate-400/70 font-semibold mt-3">
+          Verfahrens-Maschinen · Pharos
+        </div>
+        <h1 className="pharos-display text-3xl font-semibold mt-1 text-slate-900 dark:text-slate-100">
+          Eigene Verfahren definieren
+        </h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mt-1.5 leading-relaxed max-w-3xl">
+          States, Transitions, gesetzliche Fristen und k-of-n-Signaturen als
+          JSON oder YAML. Der Validator meldet unerreichbare States, Sackgassen
+          und States ohne Frist; veröffentlicht wird eine Version erst nach
+          einer bestandenen Simulation genau dieser Definition. Laufende
+          Vorgänge bleiben auf ihrer Version.
+        </p>
+      </div>
+
+      <div className="pharos-card overflow-hidden">
+        <div className="px-5 py-3.5 border-b border-slate-200/60 dark:border-white/5">
+          <h2 className="pharos-display text-sm font-semibold text-slate-900 dark:text-slate-100">
+            Maschinen
+          </h2>
+        </div>
+        <ul className="divide-y divide-slate-200/60 dark:divide-white/5">
+          {listBuiltinMachines().map((m) => (
+            <MachineRow
+              key={m.fsmId}
+              fsmId={m.fsmId}
+              title={m.title}
+              status="Eingebaut"
+            />
+          ))}
+          {machines.map((m) => (
+            <MachineRow
+              key={m.id}
+              fsmId={m.fsmId}
+              title={m.title}
+              status={STATUS_LABELS[m.status] ?? m.status}
+              detail={
+                m.status === "DRAFT"
+                  ? m.simulatedHash === m.definitionHash
+                    ? "simuliert"
+                    : "nicht simuliert"
+                  : m.publishedAt
+                    ? `veröffentlicht ${m.publishedAt.toLocaleDateString()}`
+                    : undefined
+              }
+            />
+          ))}
+        </ul>
+      </div>
+
+      <MachineEditor
+        authorityProfiles={profiles.map((p) => ({
+          id: p.id,
+          label: `${p.authorityType} · ${p.jurisdiction}`,
+        }))}
+        drafts={drafts.map((d) => ({
+          id: d.id,
+          fsmId: d.fsmId,
+          authorityProfileId: d.authorityProfileId,
+          format: d.sourceFormat === "yaml" ? "yaml" : "json",
+          source: d.source,
+          script: d.simulationScript
+            ? JSON.stringify(d.simulationScript, null, 2)
+            : null,
+        }))}
+      />
+    </div>
+  );
+}
+
+function MachineRow({
+  fsmId,
+  title,
+  status,
+  detail,
+}: {
+  fsmId: string;
+  title: string;
+  status: string;
+  detail?: string;
+}) {
+  return (
+    <li className="px-5 py-3.5 flex items-center justify-between">
+      <div className="min-w-0 flex items-center gap-3">
+        <GitBranch className="w-4 h-4 text-slate-500 shrink-0" />
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+            {title}
+          </div>
+          <div className="text-[11px] text-slate-500 mt-0.5">
+            <span className="pharos-code">{fsmId}</span>
+            {detail ? ` · ${detail}` : ""}
+          </div>
+        </div>
+      </div>
+      <span className="inline-flex items-center text-[10px] tracking-[0.16em] uppercase px-2.5 py-1 rounded-full border font-semibold bg-slate-50 text-slate-800 border-slate-300 dark:bg-white/[0.06] dark:text-slate-300 dark:border-white/15">
+        {status}
+      </span>
+    </li>
+  );
+}
@@ -4,8 +4,9 @@
  * /pharos/workflow — workflow case inbox.
  *
  * Behörden-Sachbearbeiter sehen alle laufenden FSMs (NIS2-Incidents,
- * EU-Space-Act-Authorisations) ihrer Behörde mit aktuellem State,
- * SLA-Status (grün / gelb / rot) und Click-through zum Detail.
+ * EU-Space-Act-Authorisations, behördeneigene Verfahren) ihrer Behörde
+ * mit aktuellem State, SLA-Status (grün / gelb / rot) und Click-through
+ * zum Detail.
  *
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
@@ -15,6 +16,7 @@ import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { listOpenCases } from "@/lib/pharos/workflow-service";
+import { resolveMachine } from "@/lib/pharos/workflow-machine-service";
 import {
   AlertTriangle,
   ArrowRight,
@@ -85,7 +87,20 @@ export default async function WorkflowInboxPage() {
   const grouped = {
     nis2: accessible.filter((c) => c.fsmId === "nis2-incident-v1"),
     auth: accessible.filter((c) => c.fsmId === "eu-space-act-authorisation-v1"),
+    custom: accessible.filter(
+      (c) =>
+        c.fsmId !== "nis2-incident-v1" &&
+        c.fsmId !== "eu-space-act-authorisation-v1",
+    ),
   };
+  // Labels der behördeneigenen Maschinen kommen aus ihrer Definition.
+  const customMachines = new Map(
+    await Promise.all(
+      [...new Set(grouped.custom.map((c) => c.fsmId))].map(
+        async (id) => [id, await resolveMachine(id)] as const,
+      ),
+    ),
+  );
 
   return (
     <div className="space-y-6 max-w-6xl">
@@ -103,6 +118,13 @@ export default async function WorkflowInboxPage() {
             Breach-Transitions sind Ed25519-signiert in der Hash-Chain.
           </p>
         </div>
+        <Link
+          href="/pharos/workflow/machines"
+          className="pharos-btn-primary inline-flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 shrink-0"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Eigene Verfahren
+        </Link>
       </div>
 
       {/* KPIs */}
@@ -144,6 +166,26 @@ export default async function WorkflowInboxPage() {
         )}
       </Section>
 
+      {/* Authority-authored machines */}
+      {grouped.custom.length > 0 && (
+        <Section
+          title="Behördeneigene Verfahren"
+          subtitle="Als JSON/YAML definierte und simulierte Maschinen"
+        >
+          {grouped.custom.map((c) => {
+            const machine = customMachines.get(c.fsmId);
+            return (
+              <CaseRow
+                key={c.id}
+                c={c}
+                fsmLabel={machine?.title}
+                stateLabel={machine?.def.states[c.currentState]?.label}
+              />
+            );
+          })}
+        </Section>
+      )}
+
       <div className="pharos-card p-4 text-[11px] text-slate-600 dark:text-slate-400 leading-relaxed">
         <div className="flex items-center gap-2 mb-1.5 text-slate-700 dark:text-slate-300 font-semibold">
           <Clock className="w-3.5 h-3.5" />
@@ -229,11 +271,17 @@ interface CaseRowData {
   enteredStateAt: Date;
 }
 
-function CaseRow({ c }: { c: CaseRowData }) {
+function CaseRow({
+  c,
+  fsmLabel = FSM_LABELS[c.fsmId] ?? c.fsmId,
+  stateLabel = STATE_LABELS[c.currentState] ?? c.currentState,
+}: {
+  c: CaseRowData;
+  fsmLabel?: string;
+  stateLabel?: string;
+}) {
   const tone = slaTone(c.currentState);
   const enteredAt = new Date(c.enteredStateAt).toLocaleString();
-  const stateLabel = STATE_LABELS[c.currentState] ?? c.currentState;
-  const fsmLabel = FSM_LABELS[c.fsmId] ?? c.fsmId;
 
   const toneClasses = {
     ok: "bg-slate-50 text-slate-800 border-slate-300 dark:bg-white/[0.06] dark:text-slate-300 dark:border-white/15",
@@ -34,6 +34,9 @@ export const SANCTIONS_LIST_LABELS: Record<TradeSanctionsList, string> = {
   UN_CONSOLIDATED: "UN",
   EU_ANNEX_IV: "EU Annex IV",
   OPEN_SANCTIONS: "OpenSanctions",
+  JP_METI_EUL: "METI EUL",
+  CA_SEMA: "Canada SEMA",
+  AU_DFAT: "DFAT",
 };
 
 export function freshnessBucket(
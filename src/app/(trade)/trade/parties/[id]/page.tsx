@@ -73,10 +73,26 @@ interface ScreeningHit {
   legalName?: string;
   /** True when the match was on an ALIAS, not the legal name (AKA flagging). */
   aliasMatch?: boolean;
+  /**
+   * Name rewrite that produced the score (transliteration / alias /
+   * phonetic). Absent for a direct match and on older persisted rows.
+   */
+  variant?: { scheme: string; queryForm: string; listedForm: string };
   /** Reason-for-listing projection (progressive-disclosure "Warum …?" detail). */
   reason?: HitReasonMeta;
 }
 
+/** German labels for the match-variant schemes (see transliteration.ts). */
+const MATCH_VARIANT_LABEL: Record<string, string> = {
+  iso9: "Transliteration ISO 9",
+  "bgn-pcgn": "Transliteration BGN/PCGN",
+  "icao-9303": "Transliteration ICAO 9303 (Reisepass)",
+  pinyin: "Pinyin-Transliteration",
+  arabic: "Arabische Transliteration",
+  alias: "bekannte Namensvariante",
+  phonetic: "phonetische Ähnlichkeit",
+};
+
 interface CascadeAncestorView {
   ancestorId: string;
   ancestorName: string;
@@ -945,6 +961,19 @@ function ScreeningHitRow({ hit }: { hit: ScreeningHit }) {
         </div>
       )}
 
+      {/* Match variant — the hit came from a rewritten form of the name. */}
+      {hit.variant && (
+        <div className="flex items-start gap-1.5 px-3 pb-2 text-[10px] leading-relaxed text-trade-text-secondary">
+          <Tag className="mt-0.5 h-2.5 w-2.5 shrink-0" />
+          <span>
+            Treffer über{" "}
+            {MATCH_VARIANT_LABEL[hit.variant.scheme] ?? hit.variant.scheme}:{" "}
+            <span className="font-medium">„{hit.variant.queryForm}“</span> ≈{" "}
+            <span className="font-medium">„{hit.variant.listedForm}“</span>
+          </span>
+        </div>
+      )}
+
       {/* Progressive-disclosure: "Warum steht diese Partei auf der Liste?" */}
       <div className="border-t border-trade-border-subtle px-3 py-1.5">
         <button
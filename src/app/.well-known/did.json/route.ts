@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { buildDidDocument } from "@/lib/verity/vc/verifiable-credential";
+import { buildDidDocumentForKeys } from "@/lib/verity/vc/verifiable-credential";
 
 export const runtime = "nodejs";
 // Read from DB at request time (no build-time prerender — DATABASE_URL
@@ -15,9 +15,10 @@ export const revalidate = 60;
  *
  * Serves the `did:web:caelex.eu` DID Document that any
  * W3C-Verifiable-Credentials aware verifier resolves when checking a
- * Verity credential. The verificationMethod points at the current
- * active Verity Ed25519 issuer key (encoded in multibase per the
- * ed25519-2020 cryptosuite).
+ * Verity credential. One verificationMethod per Verity Ed25519 issuer
+ * key (encoded in multibase per the ed25519-2020 cryptosuite): the
+ * active key first, then rotated keys, so VCs signed before a rotation
+ * still resolve their `did:web:caelex.eu#<keyId>` method.
  *
  * When a verifier receives a Verity VC whose `proof.verificationMethod`
  * is `did:web:caelex.eu#<keyId>`, the standard resolution algorithm
@@ -29,12 +30,12 @@ export const revalidate = 60;
  * a full DID registry service. `did:web` resolution is just HTTPS.
  */
 export async function GET() {
-  const key = await prisma.verityIssuerKey.findFirst({
-    where: { active: true },
+  const keys = await prisma.verityIssuerKey.findMany({
+    orderBy: [{ active: "desc" }, { createdAt: "desc" }],
     select: { keyId: true, publicKeyHex: true },
   });
 
-  if (!key) {
+  if (keys.length === 0) {
     // No key yet — return a minimally valid DID doc with no methods
     // so resolvers get a proper document shape, not 404.
     return NextResponse.json(
@@ -51,7 +52,7 @@ export async function GET() {
     );
   }
 
-  const doc = buildDidDocument(key.publicKeyHex, key.keyId);
+  const doc = buildDidDocumentForKeys(keys);
   return NextResponse.json(doc, {
     headers: {
       "Content-Type": "application/did+json",
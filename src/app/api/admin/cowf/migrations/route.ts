@@ -0,0 +1,98 @@
+/**
+ * POST /api/admin/cowf/migrations — plan or apply a COWF workflow
+ *                                    migration (platform admins only)
+ *
+ * Body: `{ workflow, fromVersion, toVersion, dryRun?, organizationId? }`.
+ * `dryRun` defaults to true — the response lists every active instance
+ * of the old version with its target state, carried-over open steps and
+ * blockers, without writing anything. Applying records a MIGRATED event
+ * per moved instance, attributed to `admin:<userId>`.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { requirePlatformAdmin } from "@/lib/atlas-auth";
+import { logger } from "@/lib/logger";
+import { migrateWorkflowInstances } from "@/lib/cowf/migrations.server";
+import {
+  getWorkflowMigration,
+  registerCanonicalWorkflows,
+} from "@/lib/cowf/registry.server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PostBody = z.object({
+  workflow: z.string().min(1).max(200),
+  fromVersion: z.number().int().positive(),
+  toVersion: z.number().int().positive(),
+  dryRun: z.boolean().default(true),
+  organizationId: z.string().min(1).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const admin = await requirePlatformAdmin();
+  if (!admin) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = PostBody.safeParse(raw);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Bad request", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const { workflow, fromVersion, toVersion, dryRun, organizationId } =
+    parsed.data;
+
+  try {
+    await registerCanonicalWorkflows();
+    if (!getWorkflowMigration(workflow, fromVersion, toVersion)) {
+      return NextResponse.json(
+        { error: "No such migration registered" },
+        { status: 404 },
+      );
+    }
+
+    const report = await migrateWorkflowInstances({
+      workflow,
+      fromVersion,
+      toVersion,
+      dryRun,
+      organizationId,
+      causedBy: `admin:${admin.userId}`,
+    });
+    return NextResponse.json({
+      ...report,
+      // The transformed state-bags stay server-side.
+      instances: report.instances.map(({ plan, ...instance }) => ({
+        ...instance,
+        fromState: plan.fromState,
+        toState: plan.toState,
+        openSteps: plan.openSteps,
+        blockers: plan.blockers,
+      })),
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.error("[admin/cowf/migrations] migration run failed", {
+      workflow,
+      fromVersion,
+      toVersion,
+      dryRun,
+      error: msg,
+    });
+    return NextResponse.json(
+      { error: "Migration run failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * /api/admin/trade/classification-regression — admin gate, query
+ * validation, and the report / baseline-diff response shapes. Runs the
+ * REAL (pure) harness over the golden set.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/dal", () => ({ requireRole: vi.fn() }));
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("@/lib/validations", () => ({
+  getSafeErrorMessage: (_e: unknown, fallback: string) => fallback,
+}));
+
+import { GET } from "./route";
+import { auth } from "@/lib/auth";
+import { requireRole } from "@/lib/dal";
+import type { NextRequest } from "next/server";
+
+function getReq(query = ""): NextRequest {
+  return new Request(
+    `http://localhost/api/admin/trade/classification-regression${
+      query ? `?${query}` : ""
+    }`,
+  ) as unknown as NextRequest;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(auth).mockResolvedValue({ user: { id: "admin-1" } } as never);
+  vi.mocked(requireRole).mockResolvedValue(undefined as never);
+});
+
+describe("GET /api/admin/trade/classification-regression", () => {
+  it("401 without a session", async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+    const res = await GET(getReq());
+    expect(res.status).toBe(401);
+  });
+
+  it("403 for non-admins", async () => {
+    const err = new Error("nope");
+    err.name = "ForbiddenError";
+    vi.mocked(requireRole).mockRejectedValue(err);
+    const res = await GET(getReq());
+    expect(res.status).toBe(403);
+  });
+
+  it("400 on a malformed date", async () => {
+    const res = await GET(getReq("asOf=19.10.2026"));
+    expect(res.status).toBe(400);
+  });
+
+  it("returns the per-list report for the current corpus", async () => {
+    const res = await GET(getReq("asOf=2026-10-19"));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.report.corpus.asOf).toBe("2026-10-19");
+    expect(body.report.items).toHaveLength(12);
+    expect(body.diff).toBeUndefined();
+  });
+
+  it("adds the verdict diff and promotion decision against a baseline date", async () => {
+    const res = await GET(getReq("asOf=2026-11-09&baselineAsOf=2026-11-08"));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.baseline.corpus.asOf).toBe("2026-11-08");
+    expect(body.diff.ruleChanges).toContain("affiliates-rule-744.11");
+    expect(body.promotion).toEqual({
+      allowed: true,
+      blockers: [],
+      warnings: [],
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Admin: Trade — Golden-Set Classification Regression
+ *
+ * GET /api/admin/trade/classification-regression
+ *
+ * Runs the golden set through the classification pipeline and returns
+ * precision/recall per control list. With `baselineAsOf` the baseline
+ * corpus is the cross-walk + EAR rule manifest as of that date; the
+ * response then adds the per-item verdict diff and the promotion gate.
+ *
+ * Query:
+ *   asOf          YYYY-MM-DD — candidate corpus date (default: today)
+ *   baselineAsOf  YYYY-MM-DD — optional baseline corpus date
+ *
+ * The same harness backs `scripts/trade-classification-regression.ts`,
+ * which additionally diffs against a saved report (the CI gate).
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { requireRole } from "@/lib/dal";
+import { getSafeErrorMessage } from "@/lib/validations";
+import { logger } from "@/lib/logger";
+import {
+  diffRegressionReports,
+  evaluatePromotion,
+  runClassificationRegression,
+} from "@/lib/comply-v2/trade/classification/golden-set/regression-harness";
+
+export const runtime = "nodejs";
+
+const IsoDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  .transform((d) => new Date(`${d}T00:00:00.000Z`));
+
+const QuerySchema = z.object({
+  asOf: IsoDay.optional(),
+  baselineAsOf: IsoDay.optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requireRole(["admin"]);
+
+    const url = new URL(request.url);
+    const parsedQuery = QuerySchema.safeParse(
+      Object.fromEntries(url.searchParams),
+    );
+    if (!parsedQuery.success) {
+      return NextResponse.json(
+        { error: "Invalid query params", details: parsedQuery.error.format() },
+        { status: 400 },
+      );
+    }
+
+    const { asOf, baselineAsOf } = parsedQuery.data;
+    const now = new Date();
+    const report = runClassificationRegression({ asOf, now });
+    if (!baselineAsOf) {
+      return NextResponse.json({ report });
+    }
+
+    const baseline = runClassificationRegression({ asOf: baselineAsOf, now });
+    const diff = diffRegressionReports(baseline, report);
+    return NextResponse.json({
+      report,
+      baseline,
+      diff,
+      promotion: evaluatePromotion(diff),
+    });
+  } catch (error: unknown) {
+    const errName = error instanceof Error ? error.name : "";
+    if (errName === "UnauthorizedError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (errName === "ForbiddenError") {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 },
+      );
+    }
+    logger.error("Failed to run classification regression", error);
+    return NextResponse.json(
+      {
+        error: getSafeErrorMessage(
+          error,
+          "Failed to run classification regression",
+        ),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * /api/admin/trade/control-list-amendments — admin gate, body validation
+ * and hand-off to the ingest service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockIngest } = vi.hoisted(() => ({ mockIngest: vi.fn() }));
+
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/dal", () => ({ requireRole: vi.fn() }));
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("@/lib/validations", () => ({
+  getSafeErrorMessage: (_e: unknown, fallback: string) => fallback,
+}));
+vi.mock("@/lib/trade/control-list-amendment.server", () => ({
+  ingestControlListAmendment: mockIngest,
+}));
+
+import { POST } from "./route";
+import { auth } from "@/lib/auth";
+import { requireRole } from "@/lib/dal";
+import type { NextRequest } from "next/server";
+
+const BODY = {
+  id: "BIS-2026-0412",
+  list: "EAR_CCL",
+  citation: "91 FR 12345",
+  effectiveFrom: "2026-11-01",
+  changes: [
+    { kind: "REMOVED", code: "9A515.x", renumberedTo: "9A515.y" },
+    {
+      kind: "ADDED",
+      code: "9A515.a.5",
+      predicates: [{ attribute: "apertureMeters", op: "gte", value: 0.3 }],
+    },
+  ],
+};
+
+function postReq(body: unknown): NextRequest {
+  return new Request(
+    "http://localhost/api/admin/trade/control-list-amendments",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    },
+  ) as unknown as NextRequest;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(auth).mockResolvedValue({ user: { id: "admin-1" } } as never);
+  vi.mocked(requireRole).mockResolvedValue(undefined as never);
+  mockIngest.mockResolvedValue({
+    amendmentId: "BIS-2026-0412",
+    scannedItems: 3,
+    affected: [],
+    proposalsCreated: 0,
+    proposalsFailed: 0,
+  });
+});
+
+describe("POST /api/admin/trade/control-list-amendments", () => {
+  it("401 without a session", async () => {
+    vi.mocked(auth).mockResolvedValue(null as never);
+    const res = await POST(postReq(BODY));
+    expect(res.status).toBe(401);
+    expect(mockIngest).not.toHaveBeenCalled();
+  });
+
+  it("403 for non-admins", async () => {
+    const err = new Error("nope");
+    err.name = "ForbiddenError";
+    vi.mocked(requireRole).mockRejectedValue(err);
+    const res = await POST(postReq(BODY));
+    expect(res.status).toBe(403);
+  });
+
+  it("400 on an unknown list or a malformed body", async () => {
+    expect((await POST(postReq({ ...BODY, list: "CN_ECL" }))).status).toBe(400);
+    expect((await POST(postReq({ ...BODY, changes: [] }))).status).toBe(400);
+    expect((await POST(postReq("{not json"))).status).toBe(400);
+    expect(mockIngest).not.toHaveBeenCalled();
+  });
+
+  it("ingests the amendment, scoped to an org when given", async () => {
+    const res = await POST(postReq({ ...BODY, organizationId: "org-1" }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).scannedItems).toBe(3);
+    const [amendment, opts] = mockIngest.mock.calls[0];
+    expect(amendment).toEqual(BODY);
+    expect(opts).toEqual({ organizationId: "org-1" });
+  });
+
+  it("500 when the ingest throws", async () => {
+    mockIngest.mockRejectedValue(new Error("db down"));
+    const res = await POST(postReq(BODY));
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toBe(
+      "Failed to ingest control-list amendment",
+    );
+  });
+});
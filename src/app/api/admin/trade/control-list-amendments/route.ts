@@ -0,0 +1,135 @@
+/**
+ * Admin: Trade — Control-List Amendment Ingest
+ *
+ * POST /api/admin/trade/control-list-amendments
+ *
+ * Takes a structured diff of CCL / EU Annex I / UK Strategic List entries,
+ * finds every TradeItem the amendment reaches (declared code, cross-walk
+ * link, or new parametric scope), re-runs licence determination before vs.
+ * after, and queues one PENDING classification proposal per affected item.
+ * Nothing is applied — see `control-list-amendment.server.ts`.
+ *
+ * Body:
+ *   id             amendment id (idempotency key per item)
+ *   list           EAR_CCL | EU_ANNEX_I | UK_STRATEGIC
+ *   citation       amending act
+ *   effectiveFrom  YYYY-MM-DD
+ *   changes[]      { kind, code, renumberedTo?, title?, predicates? }
+ *   organizationId optional — restrict the ingest to one org
+ */
+
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { requireRole } from "@/lib/dal";
+import { getSafeErrorMessage } from "@/lib/validations";
+import { logger } from "@/lib/logger";
+import { ingestControlListAmendment } from "@/lib/trade/control-list-amendment.server";
+import {
+  AMENDABLE_LISTS,
+  type ControlListAmendment,
+} from "@/lib/trade/control-list-amendment";
+
+export const runtime = "nodejs";
+
+const PredicateSchema = z.object({
+  attribute: z.string().min(1).max(100),
+  op: z.enum([
+    "lt",
+    "lte",
+    "gt",
+    "gte",
+    "eq",
+    "between",
+    "prefix",
+    "in",
+    "contains",
+  ]),
+  value: z.union([
+    z.number(),
+    z.string(),
+    z.boolean(),
+    z.array(z.union([z.number(), z.string()])),
+  ]),
+});
+
+const ControlCode = z.string().trim().min(1).max(64);
+
+const AmendmentSchema = z.object({
+  id: z.string().trim().min(1).max(120),
+  list: z.enum(AMENDABLE_LISTS),
+  citation: z.string().trim().min(1).max(500),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+  changes: z
+    .array(
+      z.object({
+        kind: z.enum(["ADDED", "CHANGED", "REMOVED"]),
+        code: ControlCode,
+        renumberedTo: ControlCode.nullish(),
+        title: z.string().max(500).optional(),
+        predicates: z.array(PredicateSchema).max(20).optional(),
+      }),
+    )
+    .min(1)
+    .max(500),
+  organizationId: z.string().min(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await requireRole(["admin"]);
+
+    const body = await request.json().catch(() => null);
+    const parsed = AmendmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const { organizationId, ...amendment } = parsed.data;
+    const result = await ingestControlListAmendment(
+      // Predicate attributes are matched by name; an unknown attribute simply
+      // never resolves (three-valued logic), so the string is passed through.
+      amendment as ControlListAmendment,
+      { organizationId },
+    );
+
+    logger.info("Control-list amendment ingested", {
+      amendmentId: result.amendmentId,
+      affected: result.affected.length,
+      proposalsCreated: result.proposalsCreated,
+      userId: session.user.id,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const errName = error instanceof Error ? error.name : "";
+    if (errName === "UnauthorizedError") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (errName === "ForbiddenError") {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 },
+      );
+    }
+    logger.error("Failed to ingest control-list amendment", error);
+    return NextResponse.json(
+      {
+        error: getSafeErrorMessage(
+          error,
+          "Failed to ingest control-list amendment",
+        ),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * POST /api/cowf/qes/callback/[provider]
+ *
+ * Callback endpoint for QES signing providers. Called server-to-server
+ * by the provider once the signer has signed (or declined) a `qes`
+ * step's documents — no session.
+ *
+ * **Auth:** two layers. The provider's own callback authentication
+ * (`SigningProvider.parseCallback`, e.g. an HMAC header over the raw
+ * body) and our HMAC-signed `callbackState` token, which binds the
+ * callback to the workflow, step and signing request it was issued for.
+ *
+ * **Retries:** 5xx makes providers retry; anything we will never accept
+ * (stale request, workflow moved on) answers 200 with `accepted: false`
+ * so the provider stops.
+ */
+
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { SigningCallbackError } from "@/lib/cowf/qes/signing-provider";
+import { receiveSigningCallback } from "@/lib/cowf/submissions.server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ provider: string }> },
+) {
+  const { provider } = await context.params;
+  const body = await request.text();
+
+  try {
+    const result = await receiveSigningCallback({
+      providerId: provider,
+      body,
+      headers: request.headers,
+    });
+    if (!result.accepted && result.reason === "unknown-provider") {
+      return NextResponse.json(
+        { error: "unknown signing provider" },
+        { status: 404 },
+      );
+    }
+    if (!result.accepted && result.reason === "invalid") {
+      return NextResponse.json(
+        { error: "invalid callback state" },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof SigningCallbackError) {
+      logger.warn("[cowf-qes] callback authentication failed", {
+        provider,
+        error: err.message,
+      });
+      return NextResponse.json(
+        { error: "callback authentication failed" },
+        { status: 401 },
+      );
+    }
+    logger.error("[cowf-qes] callback processing failed", {
+      provider,
+      error: (err as Error).message ?? String(err),
+    });
+    return NextResponse.json(
+      { error: "callback processing failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -8,20 +8,13 @@ import {
   isSpaceTrackConfigured,
 } from "@/lib/shield/space-track-client.server";
 import { euSstProvider } from "@/lib/data-sources/providers/eu-sst-provider.server";
-import {
-  classifyRisk,
-  thresholdsFromConfig,
-} from "@/lib/shield/risk-classifier.server";
-import {
-  computeNextStatus,
-  shouldAutoEscalate,
-  shouldAutoClose,
-} from "@/lib/shield/conjunction-tracker.server";
+import { thresholdsFromConfig } from "@/lib/shield/risk-classifier.server";
+import { shouldAutoClose } from "@/lib/shield/conjunction-tracker.server";
+import { ingestCDM } from "@/lib/shield/cdm-ingest.server";
 import type { CDMPollingResult, ParsedCDM } from "@/lib/shield/types";
 import { fetchLeoLabsCDMs } from "@/lib/shield/leolabs-client.server";
 import { mergeCDMs } from "@/lib/shield/cdm-merger.server";
 import { decrypt } from "@/lib/encryption";
-import { notifyOrganization } from "@/lib/services/notification-service";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
@@ -191,179 +184,21 @@ async function pollCDMs(): Promise<CDMPollingResult> {
       // Process each CDM
       for (const cdm of cdms) {
         try {
-          // Determine which of our satellites this CDM involves
-          const ourNoradId = noradIds.includes(cdm.sat1NoradId)
-            ? cdm.sat1NoradId
-            : noradIds.includes(cdm.sat2NoradId)
-              ? cdm.sat2NoradId
-              : null;
-
-          if (!ourNoradId) continue;
-
-          const threatNoradId =
-            ourNoradId === cdm.sat1NoradId ? cdm.sat2NoradId : cdm.sat1NoradId;
-          const threatName =
-            ourNoradId === cdm.sat1NoradId ? cdm.sat2Name : cdm.sat1Name;
-          const threatType =
-            ourNoradId === cdm.sat1NoradId
-              ? cdm.sat2ObjectType
-              : cdm.sat1ObjectType;
-
-          const sc = scByNorad.get(ourNoradId);
-          if (!sc) continue;
-
-          // Classify risk
-          const tier = classifyRisk(
-            cdm.collisionProbability,
-            cdm.missDistanceMeters,
-            thresholds,
-          );
-
-          // Check for duplicate CDM
-          const existingCDM = await prisma.cDMRecord.findUnique({
-            where: { cdmId: cdm.cdmId },
-          });
-          if (existingCDM) continue;
-
-          // Find or create conjunction event
-          const conjunctionId = `${ourNoradId}-${threatNoradId}-${cdm.tca.toISOString().split("T")[0]}`;
-
-          let event = await prisma.conjunctionEvent.findUnique({
-            where: {
-              organizationId_conjunctionId: {
-                organizationId: org.id,
-                conjunctionId,
-              },
+          const result = await ingestCDM(
+            {
+              organizationId: org.id,
+              spacecraftByNorad: scByNorad,
+              thresholds,
             },
-          });
-
-          if (!event) {
-            // Create new event
-            const initialStatus = computeNextStatus("NEW", tier);
-            event = await prisma.conjunctionEvent.create({
-              data: {
-                organizationId: org.id,
-                spacecraftId: sc.id,
-                noradId: ourNoradId,
-                threatNoradId,
-                threatObjectName: threatName,
-                threatObjectType: threatType,
-                conjunctionId,
-                status: initialStatus,
-                riskTier: tier,
-                peakPc: cdm.collisionProbability,
-                peakPcAt: cdm.creationDate,
-                latestPc: cdm.collisionProbability,
-                latestMissDistance: cdm.missDistanceMeters,
-                tca: cdm.tca,
-                relativeSpeed: cdm.relativeSpeedMs,
-              },
-            });
-            newEvents++;
-
-            // Notify organization for HIGH/EMERGENCY new conjunction events
-            if (tier === "EMERGENCY" || tier === "HIGH") {
-              await notifyOrganization(
-                org.id,
-                tier === "EMERGENCY"
-                  ? "SHIELD_CONJUNCTION_EMERGENCY"
-                  : "SHIELD_CONJUNCTION_HIGH",
-                `Shield: ${tier} Conjunction — ${ourNoradId} ↔ ${threatNoradId}`,
-                `Conjunction event classified as ${tier}. Pc: ${cdm.collisionProbability.toExponential(2)}, TCA: ${cdm.tca.toISOString().slice(0, 16)} UTC. Review immediately.`,
-                { actionUrl: `/dashboard/shield/${event.id}` },
-              ).catch((err) => {
-                logger.error("Failed to send Shield notification", err);
-              });
-            }
-          } else {
-            // Update existing event with new CDM data
-            const previousTier = event.riskTier;
-            const previousStatus = event.status;
-            const newStatus = computeNextStatus(event.status, tier);
-
-            // Check auto-escalation
-            const autoEscalate =
-              shouldAutoEscalate(event.status, tier, cdm.tca) &&
-              newStatus !== "ASSESSMENT_REQUIRED";
-
-            const finalStatus = autoEscalate
-              ? "ASSESSMENT_REQUIRED"
-              : newStatus;
-
-            const updatePeakPc = cdm.collisionProbability > event.peakPc;
-
-            await prisma.conjunctionEvent.update({
-              where: { id: event.id },
-              data: {
-                latestPc: cdm.collisionProbability,
-                latestMissDistance: cdm.missDistanceMeters,
-                tca: cdm.tca,
-                relativeSpeed: cdm.relativeSpeedMs,
-                riskTier: tier,
-                status: finalStatus,
-                ...(updatePeakPc && {
-                  peakPc: cdm.collisionProbability,
-                  peakPcAt: cdm.creationDate,
-                }),
-              },
-            });
-
-            // Log escalation/de-escalation if tier changed
-            if (tier !== previousTier || finalStatus !== previousStatus) {
-              await prisma.cAEscalationLog.create({
-                data: {
-                  conjunctionEventId: event.id,
-                  previousTier: previousTier,
-                  newTier: tier,
-                  previousStatus: previousStatus,
-                  newStatus: finalStatus,
-                  triggeredBy: autoEscalate ? "TCA_APPROACHING" : "CDM_UPDATE",
-                  details: `Pc: ${cdm.collisionProbability.toExponential(2)}, Miss: ${Math.round(cdm.missDistanceMeters)}m`,
-                },
-              });
-              escalations++;
-
-              // Notify organization when tier escalates to HIGH or EMERGENCY
-              if (tier === "EMERGENCY" || tier === "HIGH") {
-                await notifyOrganization(
-                  org.id,
-                  tier === "EMERGENCY"
-                    ? "SHIELD_CONJUNCTION_EMERGENCY"
-                    : "SHIELD_CONJUNCTION_HIGH",
-                  `Shield: ${tier} Conjunction — ${ourNoradId} ↔ ${threatNoradId}`,
-                  `Conjunction event escalated to ${tier}. Pc: ${cdm.collisionProbability.toExponential(2)}, TCA: ${cdm.tca.toISOString().slice(0, 16)} UTC. Review immediately.`,
-                  { actionUrl: `/dashboard/shield/${event.id}` },
-                ).catch((err) => {
-                  logger.error("Failed to send Shield notification", err);
-                });
-              }
-            }
+            cdm,
+          );
 
-            updatedEvents++;
+          if (result.outcome === "CREATED") newEvents++;
+          if (result.outcome === "UPDATED") updatedEvents++;
+          if (result.escalated) escalations++;
+          if (result.outcome === "CREATED" || result.outcome === "UPDATED") {
+            cdmsProcessed++;
           }
-
-          // Create CDM record
-          await prisma.cDMRecord.create({
-            data: {
-              conjunctionEventId: event.id,
-              cdmId: cdm.cdmId,
-              creationDate: cdm.creationDate,
-              tca: cdm.tca,
-              missDistance: cdm.missDistanceMeters,
-              relativeSpeed: cdm.relativeSpeedMs,
-              collisionProbability: cdm.collisionProbability,
-              probabilityMethod: cdm.probabilityMethod,
-              sat2Maneuverable: cdm.sat2Maneuverable,
-              rawCdm:
-                cdm.rawCdm as unknown as import("@prisma/client").Prisma.InputJsonValue,
-              riskTier: tier,
-              source: cdm.cdmId.startsWith("leolabs-")
-                ? "leolabs"
-                : "space_track",
-            },
-          });
-
-          cdmsProcessed++;
         } catch (error) {
           const msg = `CDM ${cdm.cdmId}: ${error instanceof Error ? error.message : "Unknown"}`;
           errors.push(msg);
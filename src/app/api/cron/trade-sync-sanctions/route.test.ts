@@ -1,8 +1,10 @@
 /**
- * Tests for the trade-sync-sanctions cron — focus on the #2b event-driven
- * rescreen trigger: when syncAllLists() reports a list delta, active
- * CLEAR/NOT_SCREENED parties are flagged STALE so the rescreen-stale cron
- * re-checks them immediately. No delta → no flag. Plus the CRON_SECRET gate.
+ * Tests for the trade-sync-sanctions cron — focus on the event-driven
+ * rescreen trigger: when syncAllLists() reports a list delta, only the
+ * changed entries are rescreened (rescreenSnapshotDelta). A list's first
+ * snapshot has no delta, so active CLEAR/NOT_SCREENED parties are flagged
+ * STALE for the full rescreen cron instead. No change → nothing. Plus the
+ * CRON_SECRET gate.
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -15,6 +17,10 @@ vi.mock("@/lib/comply-v2/trade/screening/sync.server", () => ({
   syncAllLists: vi.fn(),
 }));
 
+vi.mock("@/lib/comply-v2/trade/screening/delta-rescreen.server", () => ({
+  rescreenSnapshotDelta: vi.fn(),
+}));
+
 vi.mock("@/lib/prisma", () => ({
   prisma: {
     tradeParty: {
@@ -36,7 +42,22 @@ function req(authHeader?: string): Request {
   });
 }
 
-const syncResult = (changed: boolean) => ({
+const DELTA = {
+  previousHash: "0ld",
+  added: [
+    {
+      entryId: "99001",
+      names: ["new corp"],
+      addresses: [],
+      identifiers: [],
+      listMetadata: {},
+    },
+  ],
+  changed: [],
+  removed: [],
+};
+
+const syncResult = (changed: boolean, delta: typeof DELTA | null = null) => ({
   totalElapsedMs: 10,
   results: [
     {
@@ -46,6 +67,7 @@ const syncResult = (changed: boolean) => ({
       entryCount: changed ? 5 : 0,
       elapsedMs: 5,
       hash: "abc123def456789",
+      delta,
     },
   ],
 });
@@ -53,6 +75,7 @@ const syncResult = (changed: boolean) => ({
 describe("GET /api/cron/trade-sync-sanctions", () => {
   beforeEach(() => {
     vi.resetModules();
+    vi.clearAllMocks();
     process.env.CRON_SECRET = SECRET;
   });
 
@@ -62,7 +85,40 @@ describe("GET /api/cron/trade-sync-sanctions", () => {
     expect((await GET(req())).status).toBe(401);
   });
 
-  it("flags active CLEAR/NOT_SCREENED parties STALE when a list changed (event-driven rescreen)", async () => {
+  it("rescreens only the delta when a list changed on top of an existing snapshot", async () => {
+    const { syncAllLists } =
+      await import("@/lib/comply-v2/trade/screening/sync.server");
+    vi.mocked(syncAllLists).mockResolvedValue(syncResult(true, DELTA) as never);
+    const { rescreenSnapshotDelta } =
+      await import("@/lib/comply-v2/trade/screening/delta-rescreen.server");
+    vi.mocked(rescreenSnapshotDelta).mockResolvedValue({
+      list: "OFAC_SDN",
+      entriesScreened: 1,
+      partiesScreened: 12,
+      endUsersScreened: 3,
+      flaggedParties: 2,
+      newHits: 2,
+      failed: 0,
+      postHocVsdsRaised: 0,
+    } as never);
+    const { prisma } = await import("@/lib/prisma");
+
+    const { GET } = await import("./route");
+    const res = await GET(req(`Bearer ${SECRET}`));
+
+    expect(res.status).toBe(200);
+    expect(rescreenSnapshotDelta).toHaveBeenCalledWith({
+      list: "OFAC_SDN",
+      snapshotHash: "abc123def456789",
+      delta: DELTA,
+    });
+    expect(prisma.tradeParty.updateMany).not.toHaveBeenCalled();
+    const body = await res.json();
+    expect(body.flaggedForRescreen).toBe(0);
+    expect(body.deltaRescreens[0].flaggedParties).toBe(2);
+  });
+
+  it("flags active CLEAR/NOT_SCREENED parties STALE on a list's first snapshot (no baseline to diff)", async () => {
     const { syncAllLists } =
       await import("@/lib/comply-v2/trade/screening/sync.server");
     vi.mocked(syncAllLists).mockResolvedValue(syncResult(true) as never);
@@ -97,6 +153,9 @@ describe("GET /api/cron/trade-sync-sanctions", () => {
 
     expect(res.status).toBe(200);
     expect(prisma.tradeParty.updateMany).not.toHaveBeenCalled();
+    const { rescreenSnapshotDelta } =
+      await import("@/lib/comply-v2/trade/screening/delta-rescreen.server");
+    expect(rescreenSnapshotDelta).not.toHaveBeenCalled();
     const body = await res.json();
     expect(body.flaggedForRescreen).toBe(0);
   });
@@ -12,6 +12,12 @@
  * Idempotent: if upstream content didn't change since last run, the
  * snapshot-store hash check skips the insert (changed=false). Cheap.
  *
+ * Changed lists are rescreened in the same run: only the added/changed
+ * entries of each new snapshot are screened against stored parties, end
+ * users and ownership chains (delta-rescreen.server.ts). A list's FIRST
+ * snapshot has no baseline to diff, so it falls back to flagging parties
+ * STALE for the full re-screen cron.
+ *
  * Auth: Bearer + CRON_SECRET (timing-safe equality), same pattern as
  * every other cron route.
  *
@@ -23,6 +29,10 @@ import { timingSafeEqual } from "node:crypto";
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
 import { syncAllLists } from "@/lib/comply-v2/trade/screening/sync.server";
+import {
+  rescreenSnapshotDelta,
+  type DeltaRescreenResult,
+} from "@/lib/comply-v2/trade/screening/delta-rescreen.server";
 import { emitDbEvent } from "@/lib/db-events.server";
 
 export const runtime = "nodejs";
@@ -74,46 +84,76 @@ export async function GET(request: Request) {
 
     const changedLists = result.results.filter((r) => r.changed);
     let flaggedForRescreen = 0;
+    const deltaRescreens: DeltaRescreenResult[] = [];
     if (changedLists.length > 0) {
-      // Event-driven rescreen trigger: a sanctions-list change means every
-      // active counterparty must be re-checked against the new entries. Flag
-      // CLEAR / NOT_SCREENED active parties STALE so the trade-rescreen-stale
-      // cron (runs 30 min later, 300s budget) re-screens them immediately —
-      // instead of waiting up to the 30-day staleness window, during which a
-      // newly-listed entity would go undetected. POTENTIAL_MATCH (pending
-      // triage) and CONFIRMED_HIT are left untouched so in-flight review state
-      // is preserved.
-      try {
-        const flagged = await prisma.tradeParty.updateMany({
-          where: {
-            status: "ACTIVE",
-            screeningStatus: { in: ["CLEAR", "NOT_SCREENED"] },
-          },
-          data: { screeningStatus: "STALE" },
-        });
-        flaggedForRescreen = flagged.count;
-        logger.info(
-          "[trade-sync-sanctions] flagged active parties STALE on list delta",
-          { flaggedForRescreen, changedLists: changedLists.length },
-        );
-      } catch (e) {
-        logger.warn(
-          "[trade-sync-sanctions] flag-for-rescreen failed (non-fatal)",
-          { err: e instanceof Error ? e.message : String(e) },
-        );
+      // Delta rescreen: a list change is checked against every stored
+      // party right now, on the changed entries only — instead of waiting
+      // up to the 30-day staleness window, during which a newly-listed
+      // entity would go undetected. New hits open triage items.
+      for (const r of changedLists) {
+        if (!r.delta || !r.hash) continue;
+        try {
+          deltaRescreens.push(
+            await rescreenSnapshotDelta({
+              list: r.list,
+              snapshotHash: r.hash,
+              delta: r.delta,
+            }),
+          );
+        } catch (e) {
+          logger.warn("[trade-sync-sanctions] delta rescreen failed", {
+            list: r.list,
+            err: e instanceof Error ? e.message : String(e),
+          });
+        }
+      }
+
+      // A list synced for the first time has no previous snapshot to diff
+      // against: flag CLEAR / NOT_SCREENED active parties STALE so the
+      // trade-rescreen-stale cron (runs 30 min later, 300s budget) gives
+      // them a full screen. POTENTIAL_MATCH (pending triage) and
+      // CONFIRMED_HIT are left untouched so in-flight review state is
+      // preserved.
+      const firstSnapshots = changedLists.filter((r) => !r.delta);
+      if (firstSnapshots.length > 0) {
+        try {
+          const flagged = await prisma.tradeParty.updateMany({
+            where: {
+              status: "ACTIVE",
+              screeningStatus: { in: ["CLEAR", "NOT_SCREENED"] },
+            },
+            data: { screeningStatus: "STALE" },
+          });
+          flaggedForRescreen = flagged.count;
+          logger.info(
+            "[trade-sync-sanctions] flagged active parties STALE on first snapshot",
+            { flaggedForRescreen, lists: firstSnapshots.map((r) => r.list) },
+          );
+        } catch (e) {
+          logger.warn(
+            "[trade-sync-sanctions] flag-for-rescreen failed (non-fatal)",
+            { err: e instanceof Error ? e.message : String(e) },
+          );
+        }
       }
 
+      const deltaFlagged = deltaRescreens.reduce(
+        (n, d) => n + d.flaggedParties,
+        0,
+      );
+
       // Broadcast to Ops Console — only when something actually changed
       // (idempotent runs are common when upstream content hasn't moved).
       try {
         await emitDbEvent("trade.sanctions.synced", {
-          summary: `Sanctions sync: ${changedLists.length} list(s) updated · ${changedLists.map((r) => `${r.list}(+${r.entryCount})`).join(", ")} · ${flaggedForRescreen} parties flagged for rescreen`,
+          summary: `Sanctions sync: ${changedLists.length} list(s) updated · ${changedLists.map((r) => `${r.list}(+${r.entryCount})`).join(", ")} · ${deltaFlagged} parties with new delta hits · ${flaggedForRescreen} parties flagged for rescreen`,
           totalElapsedMs: result.totalElapsedMs,
           changedLists: changedLists.map((r) => ({
             list: r.list,
             entryCount: r.entryCount,
             hashPrefix: r.hash?.slice(0, 12),
           })),
+          deltaFlagged,
           flaggedForRescreen,
           emittedAt: new Date().toISOString(),
         });
@@ -124,7 +164,11 @@ export async function GET(request: Request) {
       }
     }
 
-    return NextResponse.json({ ...summary, flaggedForRescreen });
+    return NextResponse.json({
+      ...summary,
+      flaggedForRescreen,
+      deltaRescreens,
+    });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     logger.error("trade-sync-sanctions failed", message);
@@ -59,6 +59,7 @@ const ALL_CHANNELS: DbChannel[] = [
   "trade.operation.risk_recomputed",
   "trade.license.attached",
   "trade.license.detached",
+  "trade.license.usage_threshold",
   // Trade Counterparty Screening (Wave A)
   "trade.party.created",
   "trade.party.screened",
@@ -64,6 +64,16 @@ const ARTICLE_RANGES: Record<
   HAZARD_REPORT: [
     { start: 58, end: 73, label: "Safety & Hazard Analysis (Art. 58-73)" },
   ],
+  // NIS2 deliverables overlap the proposal's cyber title; CRA has no
+  // EU Space Act counterpart.
+  NIS2_RISK_POLICY: [
+    { start: 74, end: 88, label: "Cybersecurity Risk Management (Art. 74-88)" },
+  ],
+  NIS2_INCIDENT_NOTIFICATION: [
+    { start: 89, end: 92, label: "Incident Reporting (Art. 89-92)" },
+  ],
+  CRA_TECHNICAL_DOCUMENTATION: [],
+  CRA_DECLARATION_OF_CONFORMITY: [],
 };
 
 export async function GET(request: NextRequest) {
@@ -0,0 +1,115 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * GET  /api/pharos/insights
+ *      → DP-Tagesbudget (limit / spent / remaining / resetsAt) je
+ *        Behörde des Callers
+ * POST /api/pharos/insights
+ *      → differential-private Cross-Authority-Anfrage (count, histogram,
+ *        mean, topk). Antwort enthält Konfidenzintervall und Restbudget;
+ *        429 mit dem Budget-Stand, wenn das Tagesbudget nicht reicht.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  DpQueryError,
+  getBudgetStatus,
+  runInsightQuery,
+} from "@/lib/pharos/differential-privacy-service";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const QueryBody = z.object({
+  authorityProfileId: z.string().min(1),
+  // Inhalt validiert runInsightQuery gegen DpQuerySchema.
+  query: z.record(z.string(), z.unknown()),
+});
+
+const ERROR_STATUS: Record<DpQueryError["code"], number> = {
+  INVALID: 400,
+  BUDGET_EXHAUSTED: 429,
+  EMPTY_POOL: 422,
+};
+
+async function callerAuthorityProfileIds(userId: string) {
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId },
+    select: { organizationId: true },
+  });
+  const profiles = await prisma.authorityProfile.findMany({
+    where: { organizationId: { in: memberships.map((m) => m.organizationId) } },
+    select: { id: true },
+  });
+  return profiles.map((p) => p.id);
+}
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const profileIds = await callerAuthorityProfileIds(session.user.id);
+
+  const budgets = await Promise.all(
+    profileIds.map(async (authorityProfileId) => ({
+      authorityProfileId,
+      ...(await getBudgetStatus(authorityProfileId)),
+    })),
+  );
+  return NextResponse.json({ budgets });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+  const parsed = QueryBody.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "invalid", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const profileIds = await callerAuthorityProfileIds(session.user.id);
+  if (!profileIds.includes(parsed.data.authorityProfileId)) {
+    return NextResponse.json(
+      { error: "Caller not authorized for the given authority" },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const answer = await runInsightQuery({
+      authorityProfileId: parsed.data.authorityProfileId,
+      actorUserId: session.user.id,
+      query: parsed.data.query,
+    });
+    return NextResponse.json(answer);
+  } catch (err) {
+    if (err instanceof DpQueryError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, budget: err.budget },
+        { status: ERROR_STATUS[err.code] },
+      );
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error(`[pharos-insights] query failed: ${msg}`);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
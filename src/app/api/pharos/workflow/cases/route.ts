@@ -4,7 +4,8 @@
  * GET  /api/pharos/workflow/cases?fsmId=...
  *      → list open cases scoped to caller's authority/org
  * POST /api/pharos/workflow/cases
- *      → create a new workflow case (e.g. NIS2-Incident)
+ *      → create a new workflow case (e.g. NIS2-Incident, or a LIVE
+ *        authority-authored machine of the case's authority)
  *
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
@@ -17,19 +18,16 @@ import { logger } from "@/lib/logger";
 import {
   createWorkflowCase,
   listOpenCases,
-  type FSMId,
+  WorkflowError,
 } from "@/lib/pharos/workflow-service";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const VALID_FSM_IDS: FSMId[] = [
-  "nis2-incident-v1",
-  "eu-space-act-authorisation-v1",
-];
+const FSM_ID = /^[a-z][a-z0-9-]*-v\d+$/;
 
 const CreateBody = z.object({
-  fsmId: z.enum(["nis2-incident-v1", "eu-space-act-authorisation-v1"]),
+  fsmId: z.string().regex(FSM_ID),
   caseRef: z.string().min(3).max(80),
   oversightId: z.string().optional(),
   authorityProfileId: z.string().optional(),
@@ -61,12 +59,12 @@ export async function GET(request: NextRequest) {
   const scope = await callerScope(session.user.id);
 
   const fsmIdParam = request.nextUrl.searchParams.get("fsmId");
-  if (fsmIdParam && !VALID_FSM_IDS.includes(fsmIdParam as FSMId)) {
+  if (fsmIdParam && !FSM_ID.test(fsmIdParam)) {
     return NextResponse.json({ error: "invalid fsmId" }, { status: 400 });
   }
 
   const cases = await listOpenCases({
-    fsmId: (fsmIdParam as FSMId | null) ?? undefined,
+    fsmId: fsmIdParam ?? undefined,
   });
   // Filter by caller's scope.
   const accessible = cases.filter(
@@ -117,6 +115,9 @@ export async function POST(request: NextRequest) {
     const result = await createWorkflowCase(parsed.data);
     return NextResponse.json(result, { status: 201 });
   } catch (err) {
+    if (err instanceof WorkflowError && err.code === "FSM_NOT_FOUND") {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
     const msg = err instanceof Error ? err.message : String(err);
     logger.error(`[pharos-workflow] create failed: ${msg}`);
     return NextResponse.json({ error: msg }, { status: 500 });
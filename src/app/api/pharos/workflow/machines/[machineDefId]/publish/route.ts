@@ -0,0 +1,71 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * POST /api/pharos/workflow/machines/[machineDefId]/publish
+ *
+ * DRAFT → LIVE. Refused (409) unless the last recorded simulation ran
+ * against this exact definition, passed and ended in a final state. The
+ * previous LIVE version of the same machine becomes SUPERSEDED; its
+ * running cases keep their fsmId.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  MachineDefError,
+  publishMachine,
+} from "@/lib/pharos/workflow-machine-service";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ERROR_STATUS: Record<MachineDefError["code"], number> = {
+  INVALID: 422,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  NOT_SIMULATED: 409,
+};
+
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ machineDefId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const { machineDefId } = await context.params;
+
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId: session.user.id },
+    select: { organizationId: true },
+  });
+  const profiles = await prisma.authorityProfile.findMany({
+    where: { organizationId: { in: memberships.map((m) => m.organizationId) } },
+    select: { id: true },
+  });
+
+  try {
+    const machine = await publishMachine({
+      id: machineDefId,
+      authorityProfileIds: profiles.map((p) => p.id),
+      userId: session.user.id,
+    });
+    return NextResponse.json({ machine });
+  } catch (err) {
+    if (err instanceof MachineDefError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, issues: err.issues },
+        { status: ERROR_STATUS[err.code] },
+      );
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error(`[pharos-workflow-machines] publish failed: ${msg}`);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * POST /api/pharos/workflow/machines/[machineDefId]/simulate
+ *
+ * Run a scripted event sequence against a saved DRAFT machine and record
+ * the result — a passing run of exactly this definition, ending in a
+ * final state, is what /publish requires.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  MachineDefError,
+  simulateMachineDraft,
+} from "@/lib/pharos/workflow-machine-service";
+import { SimulationScriptSchema } from "@/lib/pharos/workflow-machine-spec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({ script: SimulationScriptSchema });
+
+const ERROR_STATUS: Record<MachineDefError["code"], number> = {
+  INVALID: 422,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  NOT_SIMULATED: 409,
+};
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ machineDefId: string }> },
+) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const { machineDefId } = await context.params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+  const parsed = Body.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "invalid", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId: session.user.id },
+    select: { organizationId: true },
+  });
+  const profiles = await prisma.authorityProfile.findMany({
+    where: { organizationId: { in: memberships.map((m) => m.organizationId) } },
+    select: { id: true },
+  });
+
+  try {
+    const simulation = await simulateMachineDraft({
+      id: machineDefId,
+      authorityProfileIds: profiles.map((p) => p.id),
+      script: parsed.data.script,
+    });
+    return NextResponse.json({ simulation });
+  } catch (err) {
+    if (err instanceof MachineDefError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, issues: err.issues },
+        { status: ERROR_STATUS[err.code] },
+      );
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error(`[pharos-workflow-machines] simulate failed: ${msg}`);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * GET  /api/pharos/workflow/machines
+ *      → authority-authored workflow machines of the caller's authorities
+ *        (all versions) plus the built-in ones
+ * POST /api/pharos/workflow/machines
+ *      → save a JSON/YAML machine definition as DRAFT (422 with the
+ *        validator issues if it does not pass)
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  listBuiltinMachines,
+  listMachineDefs,
+  MachineDefError,
+  saveMachineDraft,
+} from "@/lib/pharos/workflow-machine-service";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SaveBody = z.object({
+  authorityProfileId: z.string().min(1),
+  format: z.enum(["json", "yaml"]),
+  source: z.string().min(2).max(200_000),
+});
+
+const ERROR_STATUS: Record<MachineDefError["code"], number> = {
+  INVALID: 422,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  CONFLICT: 409,
+  NOT_SIMULATED: 409,
+};
+
+async function callerAuthorityProfileIds(userId: string) {
+  const memberships = await prisma.organizationMember.findMany({
+    where: { userId },
+    select: { organizationId: true },
+  });
+  const profiles = await prisma.authorityProfile.findMany({
+    where: { organizationId: { in: memberships.map((m) => m.organizationId) } },
+    select: { id: true },
+  });
+  return profiles.map((p) => p.id);
+}
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const profileIds = await callerAuthorityProfileIds(session.user.id);
+
+  const machines = await listMachineDefs(profileIds);
+  const builtin = listBuiltinMachines().map((m) => ({
+    fsmId: m.fsmId,
+    title: m.title,
+  }));
+  return NextResponse.json({ machines, builtin });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+  const parsed = SaveBody.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "invalid", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const profileIds = await callerAuthorityProfileIds(session.user.id);
+  if (!profileIds.includes(parsed.data.authorityProfileId)) {
+    return NextResponse.json(
+      { error: "Caller not authorized for the given authority" },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const machine = await saveMachineDraft({
+      ...parsed.data,
+      userId: session.user.id,
+    });
+    return NextResponse.json({ machine }, { status: 201 });
+  } catch (err) {
+    if (err instanceof MachineDefError) {
+      return NextResponse.json(
+        { error: err.message, code: err.code, issues: err.issues },
+        { status: ERROR_STATUS[err.code] },
+      );
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error(`[pharos-workflow-machines] save failed: ${msg}`);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
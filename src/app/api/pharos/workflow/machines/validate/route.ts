@@ -0,0 +1,67 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * POST /api/pharos/workflow/machines/validate
+ *
+ * Stateless check for the machine editor: parse + validate a JSON/YAML
+ * definition and, if it is valid and a script is given, simulate it.
+ * Nothing is persisted — publish-gating simulations run against a saved
+ * draft via /machines/[machineDefId]/simulate.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import {
+  loadMachineSource,
+  machineDefHash,
+  simulateMachine,
+  SimulationScriptSchema,
+} from "@/lib/pharos/workflow-machine-spec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const Body = z.object({
+  format: z.enum(["json", "yaml"]),
+  source: z.string().min(2).max(200_000),
+  script: SimulationScriptSchema.optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
+  }
+  const parsed = Body.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "invalid", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { def, issues } = loadMachineSource(
+    parsed.data.source,
+    parsed.data.format,
+  );
+  return NextResponse.json({
+    valid: def !== null,
+    issues,
+    fsmId: def?.id ?? null,
+    definitionHash: def ? machineDefHash(def) : null,
+    simulation:
+      def && parsed.data.script
+        ? simulateMachine(def, parsed.data.script)
+        : null,
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Shield CCSDS CDM Import API
+ *
+ * POST /api/shield/cdms/import
+ * Accepts one or more CCSDS 508.0 CDMs (KVN or XML) either as a raw request
+ * body or as a multipart "file" field, and runs each through the conjunction
+ * tracker exactly like polled Space-Track/LeoLabs CDMs. Requires MANAGER+.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { logAuditEvent } from "@/lib/audit";
+import {
+  CCSDSCdmError,
+  mapCcsdsCDMToParsed,
+  parseCcsdsCdms,
+} from "@/lib/shield/ccsds-cdm.server";
+import { ingestCDM } from "@/lib/shield/cdm-ingest.server";
+import { thresholdsFromConfig } from "@/lib/shield/risk-classifier.server";
+import type { ParsedCDM } from "@/lib/shield/types";
+
+const MANAGER_ROLES = new Set(["OWNER", "ADMIN", "MANAGER"]);
+
+/** CDMs are a few KB each; 2 MB comfortably fits a multi-message batch. */
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Reads the request body, giving up as soon as it exceeds MAX_UPLOAD_BYTES.
+ * A declared Content-Length is checked before anything is read; the running
+ * byte count catches chunked or mis-declared bodies.
+ */
+async function readBodyBounded(req: Request): Promise<Blob | null> {
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > MAX_UPLOAD_BYTES) return null;
+  if (!req.body) return new Blob([]);
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let total = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_UPLOAD_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(new Uint8Array(value));
+  }
+  return new Blob(chunks);
+}
+
+async function readUpload(req: Request): Promise<string | null> {
+  const body = await readBodyBounded(req);
+  if (!body) return null;
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Response(body, {
+      headers: { "content-type": contentType },
+    }).formData();
+    const file = form.get("file");
+    return file instanceof Blob ? file.text() : null;
+  }
+  return body.text();
+}
+
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { userId: session.user.id },
+      select: { organizationId: true, role: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization" }, { status: 404 });
+    }
+
+    if (!MANAGER_ROLES.has(membership.role)) {
+      return NextResponse.json(
+        { error: "Forbidden: MANAGER role or above required" },
+        { status: 403 },
+      );
+    }
+
+    const text = await readUpload(req);
+    if (!text) {
+      return NextResponse.json(
+        { error: "Missing CDM file or file exceeds 2 MB" },
+        { status: 400 },
+      );
+    }
+
+    let documents;
+    try {
+      documents = parseCcsdsCdms(text);
+    } catch (error) {
+      if (error instanceof CCSDSCdmError) {
+        return NextResponse.json(
+          { error: "Invalid CCSDS CDM", details: error.message },
+          { status: 400 },
+        );
+      }
+      throw error;
+    }
+
+    const errors: string[] = [];
+    const parsed: ParsedCDM[] = [];
+    for (const doc of documents) {
+      try {
+        parsed.push(mapCcsdsCDMToParsed(doc));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : "Unknown");
+      }
+    }
+
+    const [spacecraft, caConfig] = await Promise.all([
+      prisma.spacecraft.findMany({
+        where: {
+          organizationId: membership.organizationId,
+          noradId: { not: null },
+        },
+        select: { id: true, noradId: true },
+      }),
+      prisma.cAConfig.findUnique({
+        where: { organizationId: membership.organizationId },
+      }),
+    ]);
+
+    const ctx = {
+      organizationId: membership.organizationId,
+      spacecraftByNorad: new Map(spacecraft.map((sc) => [sc.noradId!, sc])),
+      thresholds: caConfig ? thresholdsFromConfig(caConfig) : undefined,
+    };
+
+    let newEvents = 0;
+    let updatedEvents = 0;
+    let duplicates = 0;
+    let notOurObject = 0;
+    const eventIds = new Set<string>();
+
+    for (const cdm of parsed) {
+      try {
+        const result = await ingestCDM(ctx, cdm);
+        if (result.outcome === "CREATED") newEvents++;
+        if (result.outcome === "UPDATED") updatedEvents++;
+        if (result.outcome === "DUPLICATE") duplicates++;
+        if (result.outcome === "NOT_OUR_OBJECT") {
+          notOurObject++;
+          errors.push(
+            `CDM ${cdm.cdmId}: neither ${cdm.sat1NoradId} nor ${cdm.sat2NoradId} is in your fleet`,
+          );
+        }
+        if (result.eventId) eventIds.add(result.eventId);
+      } catch (error) {
+        errors.push(
+          `CDM ${cdm.cdmId}: ${error instanceof Error ? error.message : "Unknown"}`,
+        );
+      }
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: "shield_ccsds_cdm_imported",
+      entityType: "conjunction_event",
+      entityId: [...eventIds][0] ?? "none",
+      description: `Imported ${parsed.length} CCSDS CDM(s): ${newEvents} new, ${updatedEvents} updated events`,
+      organizationId: membership.organizationId,
+    });
+
+    return NextResponse.json({
+      data: {
+        received: documents.length,
+        newEvents,
+        updatedEvents,
+        duplicates,
+        notOurObject,
+        eventIds: [...eventIds],
+        errors: errors.slice(0, 20),
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to import CCSDS CDMs", error);
+    return NextResponse.json(
+      { error: "Failed to import CCSDS CDMs" },
+      { status: 500 },
+    );
+  }
+}
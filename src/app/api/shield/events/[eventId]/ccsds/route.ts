@@ -0,0 +1,140 @@
+/**
+ * Shield CCSDS CDM Export API
+ *
+ * GET /api/shield/events/[eventId]/ccsds?format=kvn|xml&cdmId=...
+ * Exports a conjunction as a CCSDS 508.0 CDM for sharing with other
+ * operators. Uses the latest CDM record unless cdmId is given. Our
+ * spacecraft is always OBJECT1. Returns 422 when the record carries no
+ * state vectors/covariance (mandatory in CCSDS).
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { logAuditEvent } from "@/lib/audit";
+import {
+  CCSDSCdmError,
+  buildCcsdsCdm,
+  serializeCcsdsCdmKvn,
+  serializeCcsdsCdmXml,
+} from "@/lib/shield/ccsds-cdm.server";
+
+const CCSDS_ORIGINATOR = "CAELEX";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ eventId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { userId: session.user.id },
+      select: { organizationId: true, role: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization" }, { status: 404 });
+    }
+
+    const { eventId } = await params;
+    const url = new URL(req.url);
+    const format = (url.searchParams.get("format") ?? "kvn").toLowerCase();
+    const cdmId = url.searchParams.get("cdmId");
+
+    if (format !== "kvn" && format !== "xml") {
+      return NextResponse.json(
+        { error: "format must be kvn or xml" },
+        { status: 400 },
+      );
+    }
+
+    const event = await prisma.conjunctionEvent.findFirst({
+      where: {
+        id: eventId,
+        organizationId: membership.organizationId,
+      },
+      include: {
+        cdmRecords: {
+          where: cdmId ? { cdmId } : undefined,
+          orderBy: { creationDate: "desc" },
+          take: 1,
+        },
+      },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const record = event.cdmRecords[0];
+    if (!record) {
+      return NextResponse.json(
+        { error: "No CDM record found for this event" },
+        { status: 404 },
+      );
+    }
+
+    const spacecraft = await prisma.spacecraft.findUnique({
+      where: { id: event.spacecraftId },
+      select: { name: true, cosparId: true },
+    });
+
+    let cdm;
+    try {
+      cdm = buildCcsdsCdm({
+        messageId: `${event.conjunctionId}-${record.id}`,
+        originator: CCSDS_ORIGINATOR,
+        creationDate: new Date(),
+        record,
+        primary: {
+          noradId: event.noradId,
+          name: spacecraft?.name ?? null,
+          internationalDesignator: spacecraft?.cosparId ?? null,
+          objectType: "PAYLOAD",
+        },
+        secondary: {
+          noradId: event.threatNoradId,
+          name: event.threatObjectName,
+          objectType: event.threatObjectType,
+        },
+      });
+    } catch (error) {
+      if (error instanceof CCSDSCdmError) {
+        return NextResponse.json({ error: error.message }, { status: 422 });
+      }
+      throw error;
+    }
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: "shield_ccsds_cdm_exported",
+      entityType: "conjunction_event",
+      entityId: eventId,
+      description: `CCSDS CDM (${format.toUpperCase()}) exported for ${event.conjunctionId}`,
+      organizationId: membership.organizationId,
+    });
+
+    const body =
+      format === "xml" ? serializeCcsdsCdmXml(cdm) : serializeCcsdsCdmKvn(cdm);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "xml" ? "application/xml" : "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="cdm-${event.conjunctionId}.${format === "xml" ? "xml" : "kvn"}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to export CCSDS CDM", error);
+    return NextResponse.json(
+      { error: "Failed to export CCSDS CDM" },
+      { status: 500 },
+    );
+  }
+}
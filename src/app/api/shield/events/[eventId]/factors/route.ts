@@ -2,7 +2,9 @@
  * Shield Decision Factors API
  *
  * GET /api/shield/events/[eventId]/factors
- * Returns computed DecisionFactors for a conjunction event.
+ * Returns computed DecisionFactors for a conjunction event, including
+ * Shield's independently computed Pc where the CDMs carry covariance.
+ * Optional ?hbr=<meters> overrides the combined hard-body radius.
  */
 
 import { NextResponse } from "next/server";
@@ -11,6 +13,10 @@ import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { computeDecisionFactors } from "@/lib/shield/decision-engine.server";
 
+/** Accept 0.1 m (cubesat) up to 100 m (large station) */
+const MIN_HBR_M = 0.1;
+const MAX_HBR_M = 100;
+
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ eventId: string }> },
@@ -32,6 +38,18 @@ export async function GET(
 
     const { eventId } = await params;
 
+    const hbrParam = new URL(req.url).searchParams.get("hbr");
+    const hardBodyRadiusM = hbrParam !== null ? Number(hbrParam) : undefined;
+    if (
+      hardBodyRadiusM !== undefined &&
+      !(hardBodyRadiusM >= MIN_HBR_M && hardBodyRadiusM <= MAX_HBR_M)
+    ) {
+      return NextResponse.json(
+        { error: `hbr must be between ${MIN_HBR_M} and ${MAX_HBR_M} meters` },
+        { status: 400 },
+      );
+    }
+
     const event = await prisma.conjunctionEvent.findFirst({
       where: { id: eventId, organizationId: membership.organizationId },
       include: {
@@ -54,7 +72,13 @@ export async function GET(
         creationDate: c.creationDate,
         tca: c.tca,
         sat2Maneuverable: c.sat2Maneuverable,
+        relativeSpeed: c.relativeSpeed,
+        sat1StateVector: c.sat1StateVector,
+        sat1Covariance: c.sat1Covariance,
+        sat2StateVector: c.sat2StateVector,
+        sat2Covariance: c.sat2Covariance,
       })),
+      { hardBodyRadiusM },
     );
 
     // Serialize dates in pcTrend.history for JSON response
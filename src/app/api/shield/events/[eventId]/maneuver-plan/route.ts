@@ -0,0 +1,265 @@
+/**
+ * Shield Maneuver Plan API
+ *
+ * GET /api/shield/events/[eventId]/maneuver-plan
+ * Returns the maneuver trade-space: burn time × direction × delta-V, each
+ * option re-screened against the spacecraft's other open conjunctions.
+ * Optional query: ?hbr=<m>&massKg=<kg>&fuelKg=<kg>&ispS=<s>
+ *
+ * POST /api/shield/events/[eventId]/maneuver-plan
+ * Stores the selected option as the event's maneuver plan. Options that
+ * create a secondary conjunction require acknowledgeSecondary: true.
+ * Requires MANAGER+ role.
+ */
+
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { logAuditEvent } from "@/lib/audit";
+import { z } from "zod";
+import { planManeuvers } from "@/lib/shield/maneuver-planner";
+import {
+  loadPlannerConjunctions,
+  ManeuverPlanError,
+} from "@/lib/shield/maneuver-plan.server";
+import { thresholdsFromConfig } from "@/lib/shield/risk-classifier.server";
+
+const MANAGER_ROLES = new Set(["OWNER", "ADMIN", "MANAGER"]);
+
+const plannerParamsSchema = z.object({
+  hbr: z.coerce.number().min(0.1).max(100).optional(),
+  massKg: z.coerce.number().positive().max(1_000_000).optional(),
+  fuelKg: z.coerce.number().positive().optional(),
+  ispS: z.coerce.number().min(50).max(10_000).optional(),
+});
+
+const selectSchema = plannerParamsSchema.extend({
+  optionId: z.string().min(1),
+  acknowledgeSecondary: z.boolean().optional(),
+});
+
+type PlannerParams = z.infer<typeof plannerParamsSchema>;
+
+async function buildPlan(
+  organizationId: string,
+  eventId: string,
+  p: PlannerParams,
+) {
+  const [set, config] = await Promise.all([
+    loadPlannerConjunctions(organizationId, eventId),
+    prisma.cAConfig.findUnique({ where: { organizationId } }),
+  ]);
+
+  const plan = planManeuvers(
+    {
+      primary: set.primary,
+      secondaries: set.secondaries,
+      hardBodyRadiusM: p.hbr,
+      spacecraftMassKg: p.massKg,
+      availableFuelKg: p.fuelKg,
+      ispSeconds: p.ispS,
+    },
+    { thresholds: config ? thresholdsFromConfig(config) : undefined },
+  );
+
+  return { plan, unscreened: set.unscreened };
+}
+
+function planErrorResponse(error: ManeuverPlanError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: error.code === "EVENT_NOT_FOUND" ? 404 : 422 },
+  );
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ eventId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { userId: session.user.id },
+      select: { organizationId: true, role: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization" }, { status: 404 });
+    }
+
+    const parseResult = plannerParamsSchema.safeParse(
+      Object.fromEntries(new URL(req.url).searchParams),
+    );
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parseResult.error.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { eventId } = await params;
+    const { plan, unscreened } = await buildPlan(
+      membership.organizationId,
+      eventId,
+      parseResult.data,
+    );
+
+    return NextResponse.json({ data: { eventId, ...plan, unscreened } });
+  } catch (error) {
+    if (error instanceof ManeuverPlanError) return planErrorResponse(error);
+    logger.error("Failed to plan maneuver", error);
+    return NextResponse.json(
+      { error: "Failed to plan maneuver" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ eventId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { userId: session.user.id },
+      select: { organizationId: true, role: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "No organization" }, { status: 404 });
+    }
+
+    if (!MANAGER_ROLES.has(membership.role)) {
+      return NextResponse.json(
+        { error: "Forbidden: MANAGER role or above required" },
+        { status: 403 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const parseResult = selectSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: parseResult.error.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { optionId, acknowledgeSecondary, ...plannerParams } =
+      parseResult.data;
+    const { eventId } = await params;
+
+    const event = await prisma.conjunctionEvent.findFirst({
+      where: { id: eventId, organizationId: membership.organizationId },
+      select: { id: true, conjunctionId: true, status: true },
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    if (event.status === "MANEUVER_EXECUTED" || event.status === "CLOSED") {
+      return NextResponse.json(
+        { error: `Cannot change the maneuver plan of a ${event.status} event` },
+        { status: 409 },
+      );
+    }
+
+    // Recompute rather than trusting a client-supplied option
+    const { plan, unscreened } = await buildPlan(
+      membership.organizationId,
+      eventId,
+      plannerParams,
+    );
+    const option = plan.options.find((o) => o.id === optionId);
+
+    if (!option) {
+      return NextResponse.json(
+        { error: "Option not in the current trade-space — re-plan" },
+        { status: 409 },
+      );
+    }
+
+    if (option.createsSecondaryConjunction && acknowledgeSecondary !== true) {
+      return NextResponse.json(
+        {
+          error:
+            "Selected burn creates a secondary conjunction — set acknowledgeSecondary to confirm",
+          flags: option.flags,
+        },
+        { status: 409 },
+      );
+    }
+
+    const maneuverPlan = {
+      source: "planner",
+      optionId: option.id,
+      deltaV: option.deltaVMs,
+      direction: option.direction,
+      burnTime: option.burnTime.toISOString(),
+      leadTimeHours: option.leadTimeHours,
+      fuelConsumptionKg: option.fuelConsumptionKg,
+      fuelPercentUsed: option.fuelPercentUsed,
+      targetPc: plan.targetPc,
+      baselinePc: plan.baseline.primaryPc,
+      primary: option.primary,
+      secondaries: option.secondaries,
+      clearsPrimary: option.clearsPrimary,
+      createsSecondaryConjunction: option.createsSecondaryConjunction,
+      secondaryAcknowledged: option.createsSecondaryConjunction,
+      flags: option.flags,
+      unscreened,
+      selectedBy: session.user.email ?? session.user.id,
+      selectedAt: new Date().toISOString(),
+    };
+
+    const updated = await prisma.conjunctionEvent.update({
+      where: { id: eventId },
+      data: {
+        maneuverPlan: maneuverPlan as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await logAuditEvent({
+      userId: session.user.id,
+      action: "shield_maneuver_plan_selected",
+      entityType: "conjunction_event",
+      entityId: eventId,
+      newValue: maneuverPlan,
+      description: `Maneuver plan selected for ${event.conjunctionId}: ${option.direction} ${option.deltaVMs} m/s${option.createsSecondaryConjunction ? " (secondary conjunction acknowledged)" : ""}`,
+      organizationId: membership.organizationId,
+    });
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    if (error instanceof ManeuverPlanError) return planErrorResponse(error);
+    logger.error("Failed to store maneuver plan", error);
+    return NextResponse.json(
+      { error: "Failed to store maneuver plan" },
+      { status: 500 },
+    );
+  }
+}
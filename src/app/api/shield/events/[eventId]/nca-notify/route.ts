@@ -3,6 +3,8 @@
  *
  * POST /api/shield/events/[eventId]/nca-notify
  * Marks the event's National Competent Authority as notified.
+ * When the stored maneuver plan creates a secondary conjunction, the body
+ * must carry { acknowledgeSecondaryConjunction: true }.
  * Requires MANAGER+ role.
  */
 
@@ -11,9 +13,14 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { logAuditEvent } from "@/lib/audit";
+import { z } from "zod";
 
 const MANAGER_ROLES = new Set(["OWNER", "ADMIN", "MANAGER"]);
 
+const notifySchema = z.object({
+  acknowledgeSecondaryConjunction: z.boolean().optional(),
+});
+
 export async function POST(
   req: Request,
   { params }: { params: Promise<{ eventId: string }> },
@@ -40,6 +47,21 @@ export async function POST(
       );
     }
 
+    // Body is optional — older clients POST without one
+    const parseResult = notifySchema.safeParse(
+      (await req.json().catch(() => null)) ?? {},
+    );
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: parseResult.error.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+
     const { eventId } = await params;
 
     const event = await prisma.conjunctionEvent.findFirst({
@@ -60,6 +82,26 @@ export async function POST(
       );
     }
 
+    const plan = event.maneuverPlan as {
+      createsSecondaryConjunction?: boolean;
+      flags?: string[];
+    } | null;
+    const secondaryConjunction = plan?.createsSecondaryConjunction === true;
+
+    if (
+      secondaryConjunction &&
+      parseResult.data.acknowledgeSecondaryConjunction !== true
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Maneuver plan creates a secondary conjunction — review the post-maneuver screening and acknowledge before notifying the NCA",
+          flags: plan?.flags ?? [],
+        },
+        { status: 409 },
+      );
+    }
+
     const updated = await prisma.conjunctionEvent.update({
       where: { id: eventId },
       data: {
@@ -73,7 +115,7 @@ export async function POST(
       action: "shield_nca_notified",
       entityType: "conjunction_event",
       entityId: eventId,
-      description: `NCA notified for conjunction ${event.conjunctionId}`,
+      description: `NCA notified for conjunction ${event.conjunctionId}${secondaryConjunction ? " (secondary conjunction acknowledged)" : ""}`,
       organizationId: membership.organizationId,
     });
 
@@ -72,6 +72,7 @@ export async function POST(
         decisionAt: event.decisionAt,
         decisionRationale: event.decisionRationale,
         createdAt: event.createdAt,
+        maneuverPlan: event.maneuverPlan,
       },
       event.cdmRecords.map((c) => ({
         cdmId: c.cdmId,
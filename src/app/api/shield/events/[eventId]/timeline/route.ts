@@ -92,9 +92,11 @@ export async function GET(
     // CDM records
     cdmRecords.forEach((cdm, index) => {
       const pcFormatted =
-        cdm.collisionProbability < 1e-4
-          ? cdm.collisionProbability.toExponential(2)
-          : cdm.collisionProbability.toFixed(6);
+        cdm.collisionProbability === null
+          ? "not provided"
+          : cdm.collisionProbability < 1e-4
+            ? cdm.collisionProbability.toExponential(2)
+            : cdm.collisionProbability.toFixed(6);
       const missKm = (cdm.missDistance / 1000).toFixed(3);
 
       timeline.push({
@@ -0,0 +1,124 @@
+/**
+ * GET /api/trade/icp-audit — auth gate, query validation, JSON vs PDF.
+ *
+ * The simulator and the renderer are stubbed; the route only resolves
+ * the org, validates the query and picks the output format.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockRun, mockRender, mockBuild } = vi.hoisted(() => ({
+  mockRun: vi.fn(),
+  mockRender: vi.fn(),
+  mockBuild: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/trade/trade-auth", () => ({ getTradeAuth: vi.fn() }));
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/super-admin", () => ({
+  isSuperAdmin: vi.fn().mockReturnValue(false),
+}));
+vi.mock("@/lib/ratelimit", () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ success: true }),
+  createRateLimitResponse: vi.fn(),
+  getIdentifier: vi.fn().mockReturnValue("u"),
+}));
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    organization: {
+      findFirst: vi.fn().mockResolvedValue({ id: "org-1", name: "Test Org" }),
+      findUnique: vi.fn().mockResolvedValue({ name: "Test Org" }),
+    },
+  },
+}));
+vi.mock("@/lib/trade/icp-audit/icp-audit-simulator.server", () => ({
+  runIcpAuditSimulation: mockRun,
+}));
+vi.mock("@/lib/trade/icp-audit/icp-audit-template", () => ({
+  ICP_AUDIT_PDF_CHROME: { kicker: "K", partyLabel: "P", disclaimer: "D" },
+  buildIcpAuditDocument: mockBuild,
+}));
+vi.mock("@/lib/trade/vsd-pdf/vsd-pdf-renderer", () => ({
+  renderSectionedPdf: mockRender,
+}));
+
+import { GET } from "./route";
+import { auth } from "@/lib/auth";
+import { getTradeAuth } from "@/lib/trade/trade-auth";
+
+const REPORT = {
+  generatedAt: "2026-10-19T12:00:00.000Z",
+  seed: "2026-10-19",
+  overallScore: 72,
+};
+
+function makeReq(query = ""): Request {
+  return new Request(`http://localhost/api/trade/icp-audit${query}`);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: "user-1", email: "user@example.com" },
+  } as never);
+  vi.mocked(getTradeAuth).mockResolvedValue({
+    userId: "user-1",
+    organizationId: "org-1",
+    role: "MANAGER",
+  });
+  mockRun.mockResolvedValue(REPORT);
+  mockBuild.mockReturnValue({ sections: [] });
+  mockRender.mockReturnValue(Buffer.from("PDF"));
+});
+
+describe("GET /api/trade/icp-audit", () => {
+  it("403 without a session or trade access", async () => {
+    vi.mocked(auth).mockResolvedValueOnce(null as never);
+    expect((await GET(makeReq())).status).toBe(403);
+
+    vi.mocked(getTradeAuth).mockResolvedValueOnce(null);
+    expect((await GET(makeReq())).status).toBe(403);
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+
+  it("returns the JSON report for the caller's org by default", async () => {
+    const res = await GET(makeReq("?seed=Q3-review&sampleSize=40"));
+    expect(res.status).toBe(200);
+    expect((await res.json()).report.overallScore).toBe(72);
+    expect(mockRun).toHaveBeenCalledWith("org-1", {
+      seed: "Q3-review",
+      sampleSize: 40,
+    });
+    expect(mockRender).not.toHaveBeenCalled();
+  });
+
+  it("400 on an invalid format or sample size", async () => {
+    expect((await GET(makeReq("?format=docx"))).status).toBe(400);
+    expect((await GET(makeReq("?sampleSize=0"))).status).toBe(400);
+    expect((await GET(makeReq("?sampleSize=5000"))).status).toBe(400);
+    expect(mockRun).not.toHaveBeenCalled();
+  });
+
+  it("streams the PDF with the org name on it", async () => {
+    const res = await GET(makeReq("?format=pdf"));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="icp-audit-2026-10-19.pdf"',
+    );
+    expect(res.headers.get("Cache-Control")).toContain("no-store");
+    expect(mockBuild).toHaveBeenCalledWith(REPORT, "Test Org");
+    expect(mockRender.mock.calls[0][1]).toMatchObject({ kicker: "K" });
+  });
+
+  it("500 when the simulation throws", async () => {
+    mockRun.mockRejectedValue(new Error("db down"));
+    const res = await GET(makeReq());
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toBe("Internal error");
+  });
+});
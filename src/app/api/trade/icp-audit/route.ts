@@ -0,0 +1,136 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * GET /api/trade/icp-audit?format=json|pdf&seed=&sampleSize= — run the
+ * ICP audit simulator for the caller's org. Samples completed
+ * operations, screening decisions and EUC records, tests them against
+ * the seven ICP 2019/1318 elements and returns the findings report
+ * (JSON, default) or streams it as a PDF in the VSD template layout.
+ *
+ * Read-only. `seed` defaults to today's date, so the same day's runs
+ * draw the same sample; pass the seed printed on an earlier report to
+ * reproduce it.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  createRateLimitResponse,
+  getIdentifier,
+} from "@/lib/ratelimit";
+import { getTradeAuth } from "@/lib/trade/trade-auth";
+import { isSuperAdmin } from "@/lib/super-admin";
+import { runIcpAuditSimulation } from "@/lib/trade/icp-audit/icp-audit-simulator.server";
+import {
+  ICP_AUDIT_PDF_CHROME,
+  buildIcpAuditDocument,
+} from "@/lib/trade/icp-audit/icp-audit-template";
+import { renderSectionedPdf } from "@/lib/trade/vsd-pdf/vsd-pdf-renderer";
+
+const QuerySchema = z.object({
+  format: z.enum(["json", "pdf"]).default("json"),
+  seed: z.string().trim().min(1).max(64).optional(),
+  sampleSize: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export async function GET(req: Request) {
+  try {
+    // Super-admins bypass the TRADE entitlement gate and may impersonate
+    // any active org. Normal users go through getTradeAuth().
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let userId: string;
+    let organizationId: string | null = null;
+    let organizationName: string | null = null;
+
+    if (isSuperAdmin(session.user.email)) {
+      userId = session.user.id;
+      const anyOrg = await prisma.organization.findFirst({
+        where: { isActive: true },
+        select: { id: true, name: true },
+        orderBy: { createdAt: "asc" },
+      });
+      organizationId = anyOrg?.id ?? null;
+      organizationName = anyOrg?.name ?? null;
+    } else {
+      const tradeAuth = await getTradeAuth();
+      if (!tradeAuth) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      userId = tradeAuth.userId;
+      organizationId = tradeAuth.organizationId;
+      const org = await prisma.organization.findUnique({
+        where: { id: tradeAuth.organizationId },
+        select: { name: true },
+      });
+      organizationName = org?.name ?? null;
+    }
+
+    const rl = await checkRateLimit("api", getIdentifier(req, userId));
+    if (!rl.success) return createRateLimitResponse(rl);
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "No active organization" },
+        { status: 403 },
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const parsed = QuerySchema.safeParse({
+      format: searchParams.get("format") ?? undefined,
+      seed: searchParams.get("seed") ?? undefined,
+      sampleSize: searchParams.get("sampleSize") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+    const { format, seed, sampleSize } = parsed.data;
+
+    const report = await runIcpAuditSimulation(organizationId, {
+      seed,
+      sampleSize,
+    });
+
+    if (format === "json") {
+      return NextResponse.json(
+        { report },
+        { headers: { "Cache-Control": "private, no-store, max-age=0" } },
+      );
+    }
+
+    const document = buildIcpAuditDocument(
+      report,
+      organizationName ?? "Caelex Trade Customer",
+    );
+    const buffer = renderSectionedPdf(document, ICP_AUDIT_PDF_CHROME);
+    const filename = `icp-audit-${report.seed.replace(/[^A-Za-z0-9._-]/g, "_")}.pdf`;
+
+    return new NextResponse(buffer as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": String(buffer.length),
+        // Audit findings are privileged compliance work-product — never
+        // cache at any layer.
+        "Cache-Control": "private, no-store, max-age=0",
+      },
+    });
+  } catch (err) {
+    logger.error("GET /api/trade/icp-audit failed", err);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
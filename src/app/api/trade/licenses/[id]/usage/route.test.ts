@@ -0,0 +1,167 @@
+/**
+ * GET /api/trade/licenses/[id]/usage — auth gate, 404 outside the org
+ * and the three export formats. The report loader and the PDF renderer
+ * are stubbed; the CSV and document model run for real.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockReport, mockRender } = vi.hoisted(() => ({
+  mockReport: vi.fn(),
+  mockRender: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/trade/trade-auth", () => ({ getTradeAuth: vi.fn() }));
+vi.mock("@/lib/ratelimit", () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ success: true }),
+  createRateLimitResponse: vi.fn(),
+  getIdentifier: vi.fn().mockReturnValue("u"),
+}));
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    organization: {
+      findUnique: vi.fn().mockResolvedValue({ name: "Test Org" }),
+    },
+  },
+}));
+vi.mock("@/lib/trade/licenses/license-ledger.server", () => {
+  class LicenseNotFoundError extends Error {}
+  return { getLicenseUsageReport: mockReport, LicenseNotFoundError };
+});
+vi.mock("@/lib/trade/vsd-pdf/vsd-pdf-renderer", () => ({
+  renderSectionedPdf: mockRender,
+}));
+
+import { GET } from "./route";
+import { getTradeAuth } from "@/lib/trade/trade-auth";
+import { LicenseNotFoundError } from "@/lib/trade/licenses/license-ledger.server";
+
+const REPORT = {
+  license: {
+    id: "lic-1",
+    licenseNumber: "BAFA/2026 0042",
+    licenseType: "BAFA_EINZEL",
+    status: "ACTIVE",
+    issuedAt: new Date("2026-01-10"),
+    validUntil: new Date("2027-01-10"),
+    capCurrency: "EUR",
+  },
+  lineItems: [
+    {
+      id: "1",
+      codes: ["9A515"],
+      description: "Star trackers",
+      quantityCap: 10,
+      quantityUnit: "Stk",
+      valueCapCents: null,
+      valueCurrency: null,
+    },
+  ],
+  meters: [
+    {
+      scope: "LINE_ITEM",
+      lineItemId: "1",
+      label: "Pos. 1 — Star trackers",
+      measure: "QUANTITY",
+      unit: "Stk",
+      cap: 10,
+      before: 8,
+      after: 8,
+      levelBefore: "WARNING",
+      levelAfter: "WARNING",
+    },
+  ],
+  entries: [
+    {
+      id: "e1",
+      recordedAt: new Date("2026-06-01T09:00:00Z"),
+      operationId: "op-1",
+      operationReference: "OP-2026-001",
+      lineItemId: "1",
+      controlCode: "9A515",
+      itemName: 'Star tracker, model "ST-2"',
+      quantity: 8,
+      valueCents: BigInt(40_000_000),
+      currency: "EUR",
+    },
+  ],
+  generatedAt: new Date("2026-10-19T12:00:00Z"),
+};
+
+function makeReq(query = ""): Request {
+  return new Request(`http://localhost/api/trade/licenses/lic-1/usage${query}`);
+}
+const ctx = (id = "lic-1") => ({ params: Promise.resolve({ id }) });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getTradeAuth).mockResolvedValue({
+    userId: "user-1",
+    organizationId: "org-1",
+    role: "MANAGER",
+  });
+  mockReport.mockResolvedValue(REPORT);
+  mockRender.mockReturnValue(Buffer.from("PDF"));
+});
+
+describe("GET /api/trade/licenses/[id]/usage", () => {
+  it("403 without trade access; 404 for a licence outside the org", async () => {
+    vi.mocked(getTradeAuth).mockResolvedValueOnce(null);
+    expect((await GET(makeReq(), ctx())).status).toBe(403);
+
+    mockReport.mockRejectedValueOnce(new LicenseNotFoundError("lic-x"));
+    expect((await GET(makeReq(), ctx("lic-x"))).status).toBe(404);
+  });
+
+  it("returns JSON with values in currency units", async () => {
+    const res = await GET(makeReq(), ctx());
+    expect(res.status).toBe(200);
+    const { report } = await res.json();
+    expect(report.entries[0].value).toBe(400_000);
+    expect(report.lineItems[0].valueCap).toBeNull();
+    expect(mockReport).toHaveBeenCalledWith("org-1", "lic-1");
+  });
+
+  it("exports the ledger as CSV", async () => {
+    const res = await GET(makeReq("?format=csv"), ctx());
+    expect(res.headers.get("Content-Type")).toContain("text/csv");
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="licence-usage-BAFA_2026_0042.csv"',
+    );
+    const [header, row] = (await res.text()).split("\r\n");
+    expect(header).toBe(
+      "Recorded at,Operation,Line item,Control code,Item,Quantity,Value,Currency",
+    );
+    expect(row).toContain('"Star tracker, model ""ST-2"""');
+    expect(row).toContain("400000.00,EUR");
+  });
+
+  it("renders the authority PDF with usage and the drawdown record", async () => {
+    const res = await GET(makeReq("?format=pdf"), ctx());
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+    const [document, chrome] = mockRender.mock.calls[0];
+    expect(document.filerOrgName).toBe("Test Org");
+    expect(document.sections.map((s: { id: string }) => s.id)).toEqual([
+      "licence",
+      "line-items",
+      "entries",
+      "sign-off",
+    ]);
+    expect(document.sections[0].bullets).toEqual([
+      "Pos. 1 — Star trackers: 8 / 10 Stk (80 %)",
+    ]);
+    expect(document.sections[2].bullets[0]).toContain(
+      "OP-2026-001 · Pos. 1 · 9A515",
+    );
+    expect(chrome.kicker).toContain("USAGE");
+  });
+
+  it("400 on an unknown format", async () => {
+    expect((await GET(makeReq("?format=xlsx"), ctx())).status).toBe(400);
+    expect(mockReport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * GET /api/trade/licenses/[id]/usage?format=json|csv|pdf — the licence
+ * usage report: current usage per cap (licence and per position) plus
+ * every shipment debited against the licence by the licence ledger.
+ * JSON by default; CSV is the raw ledger, PDF the authority-facing
+ * drawdown record in the VSD template layout.
+ *
+ * Read-only.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  checkRateLimit,
+  createRateLimitResponse,
+  getIdentifier,
+} from "@/lib/ratelimit";
+import { getTradeAuth } from "@/lib/trade/trade-auth";
+import { fromCents, fromCentsNullable } from "@/lib/trade/money";
+import {
+  getLicenseUsageReport,
+  LicenseNotFoundError,
+} from "@/lib/trade/licenses/license-ledger.server";
+import {
+  LICENSE_USAGE_PDF_CHROME,
+  buildLicenseUsageCsv,
+  buildLicenseUsageDocument,
+} from "@/lib/trade/licenses/license-usage-template";
+import { renderSectionedPdf } from "@/lib/trade/vsd-pdf/vsd-pdf-renderer";
+
+const QuerySchema = z.object({
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+});
+
+const NO_STORE = "private, no-store, max-age=0";
+
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const tradeAuth = await getTradeAuth();
+    if (!tradeAuth) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const { userId, organizationId } = tradeAuth;
+
+    const rl = await checkRateLimit("api", getIdentifier(req, userId));
+    if (!rl.success) return createRateLimitResponse(rl);
+
+    const { searchParams } = new URL(req.url);
+    const parsed = QuerySchema.safeParse({
+      format: searchParams.get("format") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid query", details: parsed.error.flatten() },
+        { status: 400 },
+      );
+    }
+    const { format } = parsed.data;
+
+    const { id } = await context.params;
+    let report;
+    try {
+      report = await getLicenseUsageReport(organizationId, id);
+    } catch (e) {
+      if (e instanceof LicenseNotFoundError) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      throw e;
+    }
+
+    if (format === "json") {
+      return NextResponse.json(
+        {
+          report: {
+            ...report,
+            lineItems: report.lineItems.map(({ valueCapCents, ...item }) => ({
+              ...item,
+              valueCap: fromCentsNullable(valueCapCents),
+            })),
+            entries: report.entries.map(({ valueCents, ...entry }) => ({
+              ...entry,
+              value: fromCents(valueCents),
+            })),
+          },
+        },
+        { headers: { "Cache-Control": NO_STORE } },
+      );
+    }
+
+    const stem = `licence-usage-${(report.license.licenseNumber ?? report.license.id).replace(/[^A-Za-z0-9._-]/g, "_")}`;
+
+    if (format === "csv") {
+      const csv = buildLicenseUsageCsv(report);
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${stem}.csv"`,
+          "Cache-Control": NO_STORE,
+        },
+      });
+    }
+
+    const org = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true },
+    });
+    const document = buildLicenseUsageDocument(
+      report,
+      org?.name ?? "Caelex Trade Customer",
+    );
+    const buffer = renderSectionedPdf(document, LICENSE_USAGE_PDF_CHROME);
+
+    return new NextResponse(buffer as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${stem}.pdf"`,
+        "Content-Length": String(buffer.length),
+        "Cache-Control": NO_STORE,
+      },
+    });
+  } catch (err) {
+    logger.error("GET /api/trade/licenses/[id]/usage failed", err);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
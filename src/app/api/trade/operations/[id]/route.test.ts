@@ -51,8 +51,24 @@ vi.mock("@/lib/trade/ship-gate-precondition.server", () => {
   };
 });
 
-vi.mock("@/lib/prisma", () => ({
-  prisma: {
+// Licence ledger — the EXECUTED write books the shipment through it. Real
+// error class so the route's `instanceof` check works.
+vi.mock("@/lib/trade/licenses/license-ledger.server", () => {
+  class LicenseCapExceededError extends Error {
+    constructor(readonly projections: unknown[]) {
+      super("cap exceeded");
+    }
+  }
+  return {
+    recordOperationShipment: vi
+      .fn()
+      .mockResolvedValue({ projections: [], crossings: [] }),
+    LicenseCapExceededError,
+  };
+});
+
+vi.mock("@/lib/prisma", () => {
+  const prisma = {
     tradeOperation: {
       findFirst: vi.fn().mockResolvedValue(null),
       update: vi.fn().mockResolvedValue({ id: "op-1" }),
@@ -61,8 +77,11 @@ vi.mock("@/lib/prisma", () => ({
         .fn()
         .mockResolvedValue({ id: "op-1", status: "EXECUTED" }),
     },
-  },
-}));
+    // Interactive transaction runs the callback against the same mock.
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+  };
+  return { prisma };
+});
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -181,9 +200,16 @@ describe("PATCH /api/trade/operations/[id] — pre-ship gate (G1)", () => {
     const { evaluateShipGate } =
       await import("@/lib/trade/ship-gate-precondition.server");
     const { logAuditEvent } = await import("@/lib/audit");
+    const { recordOperationShipment } =
+      await import("@/lib/trade/licenses/license-ledger.server");
+    vi.mocked(recordOperationShipment).mockResolvedValue({
+      projections: [],
+      crossings: [],
+    });
     return {
       evaluateShipGate: vi.mocked(evaluateShipGate),
       logAuditEvent: vi.mocked(logAuditEvent),
+      recordOperationShipment: vi.mocked(recordOperationShipment),
       prisma,
     };
   }
@@ -365,3 +391,139 @@ describe("PATCH /api/trade/operations/[id] — pre-ship gate (G1)", () => {
     expect(evaluateShipGate).not.toHaveBeenCalled();
   });
 });
+
+describe("PATCH /api/trade/operations/[id] — licence ledger on EXECUTED", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+  });
+
+  async function setup() {
+    const { getTradeAuth } = await import("@/lib/trade/trade-auth");
+    vi.mocked(getTradeAuth).mockResolvedValue(validAuth);
+
+    const { prisma } = await import("@/lib/prisma");
+    vi.mocked(prisma.tradeOperation.findFirst).mockResolvedValue({
+      id: "op-1",
+      status: "LICENSED",
+      reference: "ISAR-2026-001",
+    } as never);
+    vi.mocked(prisma.tradeOperation.updateMany).mockResolvedValue({
+      count: 1,
+    } as never);
+
+    const { evaluateShipGate } =
+      await import("@/lib/trade/ship-gate-precondition.server");
+    vi.mocked(evaluateShipGate).mockResolvedValue({
+      value: {
+        operationId: "op-1",
+        passed: true,
+        hardBlocked: false,
+        verdict: "GO",
+        reasons: [],
+        licenseUsage: [],
+      },
+    } as never);
+
+    const ledger = await import("@/lib/trade/licenses/license-ledger.server");
+    const { logAuditEvent } = await import("@/lib/audit");
+    const { emitTradeEvent } =
+      await import("@/lib/comply-v2/trade/ops-events.server");
+    return {
+      prisma,
+      ledger,
+      recordOperationShipment: vi.mocked(ledger.recordOperationShipment),
+      logAuditEvent: vi.mocked(logAuditEvent),
+      emitTradeEvent: vi.mocked(emitTradeEvent),
+    };
+  }
+
+  const meter = {
+    scope: "LICENSE",
+    lineItemId: null,
+    label: "BAFA-2026-0042",
+    measure: "VALUE",
+    unit: "EUR",
+    cap: 500_000,
+    before: 350_000,
+    after: 480_000,
+    levelBefore: "OK",
+    levelAfter: "CRITICAL",
+  };
+
+  it("books the shipment inside the status-write transaction", async () => {
+    const { prisma, recordOperationShipment, logAuditEvent, emitTradeEvent } =
+      await setup();
+    recordOperationShipment.mockResolvedValue({
+      projections: [
+        {
+          licenseId: "lic-1",
+          licenseNumber: "BAFA-2026-0042",
+          debits: [{ lineId: "line-1" }],
+          meters: [meter],
+        },
+      ],
+      crossings: [
+        { licenseId: "lic-1", licenseNumber: "BAFA-2026-0042", meter },
+      ],
+    } as never);
+
+    const { PATCH } = await import("./route");
+    const res = await PATCH(makeReq("PATCH", { status: "EXECUTED" }), ctx());
+
+    expect(res.status).toBe(200);
+    expect(prisma.$transaction).toHaveBeenCalledOnce();
+    expect(recordOperationShipment).toHaveBeenCalledWith(prisma, {
+      organizationId: "org-1",
+      operationId: "op-1",
+      recordedById: "user-1",
+    });
+    expect(
+      logAuditEvent.mock.calls.find(
+        ([e]) => e.action === "trade_license_drawn_down",
+      )?.[0].entityId,
+    ).toBe("lic-1");
+    expect(emitTradeEvent).toHaveBeenCalledWith(
+      "trade.license.usage_threshold",
+      expect.objectContaining({
+        data: expect.objectContaining({ level: "CRITICAL", used: 480_000 }),
+      }),
+    );
+  });
+
+  it("409 LICENSE_CAP_EXCEEDED when the ledger refuses the debit", async () => {
+    const { recordOperationShipment, ledger, emitTradeEvent } = await setup();
+    recordOperationShipment.mockRejectedValue(
+      new ledger.LicenseCapExceededError([
+        {
+          licenseId: "lic-1",
+          licenseNumber: "BAFA-2026-0042",
+          meters: [{ ...meter, after: 520_000, levelAfter: "EXCEEDED" }],
+        },
+      ] as never),
+    );
+
+    const { PATCH } = await import("./route");
+    const res = await PATCH(makeReq("PATCH", { status: "EXECUTED" }), ctx());
+
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.code).toBe("LICENSE_CAP_EXCEEDED");
+    expect(body.overridable).toBe(false);
+    expect(body.licenseUsage[0].meters[0].levelAfter).toBe("EXCEEDED");
+    expect(emitTradeEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not touch the ledger when the status write loses the race", async () => {
+    const { prisma, recordOperationShipment } = await setup();
+    vi.mocked(prisma.tradeOperation.updateMany).mockResolvedValue({
+      count: 0,
+    } as never);
+
+    const { PATCH } = await import("./route");
+    const res = await PATCH(makeReq("PATCH", { status: "EXECUTED" }), ctx());
+
+    expect(res.status).toBe(409);
+    expect(recordOperationShipment).not.toHaveBeenCalled();
+  });
+});
@@ -29,6 +29,12 @@ import {
   evaluateShipGate,
   OperationNotFoundError,
 } from "@/lib/trade/ship-gate-precondition.server";
+import {
+  LicenseCapExceededError,
+  recordOperationShipment,
+  type RecordedShipment,
+} from "@/lib/trade/licenses/license-ledger.server";
+import { formatUsageMeter } from "@/lib/trade/licenses/license-ledger";
 
 const UpdateTradeOperationSchema = z.object({
   description: z.string().max(2000).optional(),
@@ -372,12 +378,58 @@ export async function PATCH(
     const guardOnStatus = Boolean(
       data.status && data.status !== existing.status,
     );
-    const writeResult = await prisma.tradeOperation.updateMany({
-      where: guardOnStatus
-        ? { id, organizationId, status: existing.status }
-        : { id, organizationId },
-      data: updates,
-    });
+    const statusWhere = guardOnStatus
+      ? { id, organizationId, status: existing.status }
+      : { id, organizationId };
+
+    // LICENSED → EXECUTED books the shipment in the licence ledger in the
+    // SAME transaction as the status write: executed-and-debited or
+    // neither. The ledger re-checks the caps under a row lock, so a
+    // concurrent shipment that consumed the headroom after the gate ran
+    // still gets refused here.
+    let writeResult: { count: number };
+    let shipment: RecordedShipment | null = null;
+    if (existing.status === "LICENSED" && data.status === "EXECUTED") {
+      try {
+        const txResult = await prisma.$transaction(async (tx) => {
+          const written = await tx.tradeOperation.updateMany({
+            where: statusWhere,
+            data: updates,
+          });
+          if (written.count === 0) return { written, recorded: null };
+          const recorded = await recordOperationShipment(tx, {
+            organizationId,
+            operationId: id,
+            recordedById: userId,
+          });
+          return { written, recorded };
+        });
+        writeResult = txResult.written;
+        shipment = txResult.recorded;
+      } catch (e) {
+        if (e instanceof LicenseCapExceededError) {
+          return NextResponse.json(
+            {
+              error: "Licence cap exceeded — EXECUTED refused.",
+              code: "LICENSE_CAP_EXCEEDED",
+              licenseUsage: e.projections.map((p) => ({
+                licenseId: p.licenseId,
+                licenseNumber: p.licenseNumber,
+                meters: p.meters,
+              })),
+              overridable: false,
+            },
+            { status: 409 },
+          );
+        }
+        throw e;
+      }
+    } else {
+      writeResult = await prisma.tradeOperation.updateMany({
+        where: statusWhere,
+        data: updates,
+      });
+    }
     if (writeResult.count === 0) {
       return NextResponse.json(
         {
@@ -466,6 +518,13 @@ export async function PATCH(
           userId,
         },
       });
+      if (shipment) {
+        await logLicenseDrawdown(
+          req,
+          { userId, organizationId, reference: existing.reference },
+          shipment,
+        );
+      }
     } else {
       await logAuditEvent({
         userId,
@@ -486,3 +545,58 @@ export async function PATCH(
     return NextResponse.json({ error: "Internal error" }, { status: 500 });
   }
 }
+
+/**
+ * Audit each licence debit of an EXECUTED shipment and warn on every
+ * usage meter it pushed past 80 % / 95 %, so the licence owner can apply
+ * for an extension before the cap blocks the next shipment.
+ */
+async function logLicenseDrawdown(
+  req: Request,
+  ctx: { userId: string; organizationId: string; reference: string },
+  shipment: RecordedShipment,
+): Promise<void> {
+  const reqCtx = getRequestContext(req);
+  for (const p of shipment.projections) {
+    const licenseLabel = p.licenseNumber ?? p.licenseId;
+    await logAuditEvent({
+      userId: ctx.userId,
+      organizationId: ctx.organizationId,
+      action: "trade_license_drawn_down",
+      entityType: "trade_license",
+      entityId: p.licenseId,
+      description: `Licence ${licenseLabel}: ${p.debits.length} line(s) of ${ctx.reference} drawn down`,
+      metadata: {
+        operationReference: ctx.reference,
+        lineIds: p.debits.map((d) => d.lineId),
+        meters: p.meters.map(formatUsageMeter),
+      },
+      ipAddress: reqCtx.ipAddress,
+      userAgent: reqCtx.userAgent,
+    });
+  }
+  for (const c of shipment.crossings) {
+    const summary = `${c.licenseNumber ?? c.licenseId} · ${formatUsageMeter(c.meter)}`;
+    logger.warn("trade licence usage threshold crossed", {
+      licenseId: c.licenseId,
+      reference: ctx.reference,
+      level: c.meter.levelAfter,
+      usage: summary,
+    });
+    await emitTradeEvent("trade.license.usage_threshold", {
+      organizationId: ctx.organizationId,
+      summary,
+      data: {
+        licenseId: c.licenseId,
+        licenseNumber: c.licenseNumber,
+        scope: c.meter.scope,
+        lineItemId: c.meter.lineItemId,
+        measure: c.meter.measure,
+        level: c.meter.levelAfter,
+        cap: c.meter.cap,
+        used: c.meter.after,
+        operationReference: ctx.reference,
+      },
+    });
+  }
+}
@@ -115,6 +115,8 @@ export async function GET(req: Request) {
           countryCode: true,
           status: true,
           screeningStatus: true,
+          // Top-N hits (≤10) — the triage queue names the list entry.
+          screeningHits: true,
           isUSPerson: true,
           isHighRiskCountry: true,
           lastScreenedAt: true,
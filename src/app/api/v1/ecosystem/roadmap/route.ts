@@ -12,6 +12,9 @@
  *     "domain": "AUTHORIZATION",
  *     "includeProposals": false,
  *     "maxItems": 25,
+ *     "assignments": { "AUTHORIZATION": "legal", "NIS2:ISMS": "ciso" },
+ *     "assigneeCapacity": { "legal": 2 },
+ *     "whatIf": { "itemId": "NIS2:ISMS", "slipDays": 30 },
  *     "overrides": {
  *       "operatorType": "SCO",
  *       "jurisdictions": ["DE", "FR"],
@@ -25,12 +28,18 @@
  * If `overrides` is omitted, the engine reads from the stored
  * OperatorProfile. Useful for sandbox/what-if calls.
  *
+ * `assignments` maps item ids or domains to an assignee; assigned items
+ * are levelled against the assignee's capacity (default 1 at a time).
+ * `whatIf` asks which items — and the launch — move if one item slips.
+ *
  * Response:
  *   {
  *     "status": "SUCCESS" | "PARTIAL" | "EMPTY" | "FAILED",
  *     "items": GeneratedComplianceItem[],
  *     "itemsByDomain": Record<string, GeneratedComplianceItem[]>,
  *     "stats": PrecisionRunStats,
+ *     "schedule": RoadmapSchedule | null,  // critical path + launch slip
+ *     "whatIf": RoadmapSlipAnalysis | null,
  *     "warnings": string[]
  *   }
  */
@@ -53,6 +62,27 @@ export const POST = withApiAuth(
     const includeProposals = body.includeProposals === true;
     const maxItemsRaw = typeof body.maxItems === "number" ? body.maxItems : 25;
     const maxItems = Math.max(1, Math.min(maxItemsRaw, 100));
+    const assignments = stringRecord(body.assignments, (v) =>
+      typeof v === "string" && v.length > 0 ? v : undefined,
+    );
+    const assigneeCapacity = stringRecord(body.assigneeCapacity, (v) =>
+      typeof v === "number" && Number.isInteger(v) && v >= 1 ? v : undefined,
+    );
+    const whatIfRaw =
+      body.whatIf && typeof body.whatIf === "object"
+        ? (body.whatIf as Record<string, unknown>)
+        : null;
+    const whatIf =
+      whatIfRaw &&
+      typeof whatIfRaw.itemId === "string" &&
+      typeof whatIfRaw.slipDays === "number" &&
+      Number.isFinite(whatIfRaw.slipDays) &&
+      whatIfRaw.slipDays > 0
+        ? {
+            itemId: whatIfRaw.itemId,
+            slipDays: Math.min(Math.round(whatIfRaw.slipDays), 3650),
+          }
+        : undefined;
 
     // Build applicability — overrides win when present, otherwise read
     // from the stored OperatorProfile for the authenticated organization.
@@ -135,6 +165,9 @@ export const POST = withApiAuth(
       },
       domain,
       includeProposals,
+      assignments,
+      assigneeCapacity,
+      whatIf,
     });
 
     const trimmed = result.items.slice(0, maxItems);
@@ -144,9 +177,25 @@ export const POST = withApiAuth(
       items: trimmed,
       itemsByDomain: result.itemsByDomain,
       stats: result.stats,
+      schedule: result.schedule,
+      whatIf: result.whatIf,
       warnings: result.warnings,
       durationMs: result.durationMs,
     });
   },
   { requiredScopes: ["read:compliance"] },
 );
+
+/** Keep the entries of a JSON object whose values pass `pick`. */
+function stringRecord<T>(
+  raw: unknown,
+  pick: (v: unknown) => T | undefined,
+): Record<string, T> | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const out: Record<string, T> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    const picked = pick(v);
+    if (picked !== undefined) out[k] = picked;
+  }
+  return out;
+}
@@ -3,10 +3,15 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { safeLog } from "@/lib/verity/utils/redaction";
 import { generateForecast } from "@/lib/ephemeris/forecast/forecast-engine";
+import { MONTE_CARLO_MAX_SAMPLES } from "@/lib/ephemeris/core/constants";
 
 /**
  * GET /api/v1/ephemeris/forecast?norad_id=25544
- * Returns forecast curves and compliance events for a satellite.
+ * Returns forecast curves and compliance events for a satellite, plus the
+ * short-term SGP4 propagation (daily summaries, eclipses) when a TLE exists.
+ *
+ * mode=monte_carlo adds P10/P50/P90 bands and threshold breach probabilities.
+ * Optional: samples (max 5000), seed, by_date (ISO date for the probabilities)
  * Auth: Session-based
  */
 export async function GET(request: NextRequest) {
@@ -32,6 +37,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const params = request.nextUrl.searchParams;
+    const monteCarlo = params.get("mode") === "monte_carlo";
+    const byDate = params.get("by_date");
+    if (byDate && Number.isNaN(Date.parse(byDate))) {
+      return NextResponse.json(
+        { error: "by_date must be an ISO 8601 date" },
+        { status: 400 },
+      );
+    }
+    const seedParam = params.get("seed");
+    const seed = seedParam ? Number(seedParam) : undefined;
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      return NextResponse.json(
+        { error: "seed must be an integer" },
+        { status: 400 },
+      );
+    }
+
     // Verify satellite belongs to org
     const spacecraft = await prisma.spacecraft.findFirst({
       where: {
@@ -52,6 +75,18 @@ export async function GET(request: NextRequest) {
       membership.organizationId,
       noradId,
       spacecraft.launchDate,
+      monteCarlo
+        ? {
+            monteCarlo: {
+              samples: Math.min(
+                parseInt(params.get("samples") ?? "500", 10) || 500,
+                MONTE_CARLO_MAX_SAMPLES,
+              ),
+              seed,
+              byDate: byDate ? new Date(byDate) : undefined,
+            },
+          }
+        : {},
     );
 
     return NextResponse.json({
@@ -60,6 +95,8 @@ export async function GET(request: NextRequest) {
         complianceEvents: forecast.complianceEvents,
         horizonDays: forecast.horizonDays,
         solarFluxF107: forecast.f107Used,
+        shortTerm: forecast.shortTerm,
+        monteCarlo: forecast.monteCarlo,
       },
     });
   } catch (error) {
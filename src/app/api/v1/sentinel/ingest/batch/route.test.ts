@@ -0,0 +1,303 @@
+/**
+ * Sentinel Batch Ingest API Route Tests
+ *
+ * Tests: auth, gzip decoding, body size limits, validation, sentinel_id
+ * mismatch, replay window, and pass-through of chain gap/fork reports.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { gzipSync } from "node:zlib";
+
+// ─── Mocks ───
+
+vi.mock("server-only", () => ({}));
+
+const mockAuthenticateSentinelAgent = vi.fn();
+const mockIngestPacketBatch = vi.fn();
+vi.mock("@/lib/services/sentinel-service.server", () => ({
+  authenticateSentinelAgent: (...args: unknown[]) =>
+    mockAuthenticateSentinelAgent(...args),
+  ingestPacketBatch: (...args: unknown[]) => mockIngestPacketBatch(...args),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/ratelimit", () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ success: true }),
+  createRateLimitResponse: vi.fn(),
+  getIdentifier: vi.fn().mockReturnValue("test-identifier"),
+}));
+
+import { POST } from "./route";
+
+// ─── Helpers ───
+
+function makeRequest(
+  body: unknown,
+  opts: { token?: string; gzip?: boolean; raw?: Buffer } = {},
+) {
+  const headers = new Headers();
+  if (opts.token) headers.set("Authorization", `Bearer ${opts.token}`);
+  headers.set("Content-Type", "application/json");
+  if (opts.gzip) headers.set("Content-Encoding", "gzip");
+  const json = JSON.stringify(body);
+  const payload = opts.raw ?? (opts.gzip ? gzipSync(json) : Buffer.from(json));
+  return new NextRequest("http://localhost/api/v1/sentinel/ingest/batch", {
+    method: "POST",
+    headers,
+    body: new Uint8Array(payload),
+  });
+}
+
+function makePacket(position: number, collectedAt = new Date()) {
+  return {
+    packet_id: `pkt-${position}`,
+    version: "1.0",
+    sentinel_id: "sentinel-001",
+    operator_id: "org-1",
+    satellite_norad_id: "25544",
+    data: {
+      data_point: "orbital_parameters",
+      values: { altitude_km: 420 },
+      source_system: "telemetry",
+      collection_method: "API",
+      collection_timestamp: collectedAt.toISOString(),
+      compliance_notes: [],
+    },
+    regulation_mapping: [{ ref: "art_64", status: "COMPLIANT", note: "" }],
+    integrity: {
+      content_hash: `sha256:hash${position}`,
+      previous_hash: `sha256:hash${position - 1}`,
+      chain_position: position,
+      signature: "ed25519:sig",
+      agent_public_key: "pk",
+      timestamp_source: "local",
+    },
+    metadata: {
+      sentinel_version: "1.0",
+      collector: "fuel",
+      config_hash: "cfg",
+      uptime_seconds: 3600,
+      packets_sent_total: 1,
+    },
+  };
+}
+
+function acceptAll() {
+  mockIngestPacketBatch.mockImplementation(
+    (_agentId: string, packets: ReturnType<typeof makePacket>[]) =>
+      Promise.resolve({
+        accepted: packets.length,
+        duplicates: 0,
+        rejected: 0,
+        results: packets.map((p) => ({
+          packet_id: p.packet_id,
+          chain_position: p.integrity.chain_position,
+          status: "accepted",
+        })),
+        chain: { gaps: [], forks: [] },
+      }),
+  );
+}
+
+const mockAgent = {
+  id: "agent-1",
+  status: "ACTIVE",
+  sentinelId: "sentinel-001",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// ─── Tests ───
+
+describe("POST /api/v1/sentinel/ingest/batch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 401 when no Authorization header", async () => {
+    const res = await POST(
+      makeRequest({ sentinel_id: "sentinel-001", packets: [makePacket(0)] }),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("decodes a gzip body and accepts buffered packets days old", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+    acceptAll();
+
+    const threeDaysAgo = new Date(Date.now() - 3 * DAY);
+    const res = await POST(
+      makeRequest(
+        {
+          sentinel_id: "sentinel-001",
+          packets: [makePacket(0, threeDaysAgo), makePacket(1, threeDaysAgo)],
+        },
+        { token: "valid-token", gzip: true },
+      ),
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.accepted).toBe(2);
+    expect(mockIngestPacketBatch).toHaveBeenCalledWith(
+      "agent-1",
+      expect.arrayContaining([expect.objectContaining({ packet_id: "pkt-0" })]),
+    );
+  });
+
+  it("returns 400 for a corrupt gzip body", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    const res = await POST(
+      makeRequest(null, {
+        token: "valid-token",
+        gzip: true,
+        raw: Buffer.from("not gzip"),
+      }),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 413 when the declared body size is over the limit", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    const req = makeRequest(
+      { sentinel_id: "sentinel-001", packets: [makePacket(0)] },
+      { token: "valid-token" },
+    );
+    req.headers.set("Content-Length", String(33 * MB));
+
+    const res = await POST(req);
+    expect(res.status).toBe(413);
+    expect(mockIngestPacketBatch).not.toHaveBeenCalled();
+  });
+
+  it("returns 413 for a streamed body that runs past the limit", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    // Never ends on its own — only the size limit stops the read
+    const chunk = new Uint8Array(MB);
+    const stream = new ReadableStream<Uint8Array<ArrayBuffer>>({
+      pull(controller) {
+        controller.enqueue(chunk);
+      },
+    });
+    const req = new NextRequest(
+      "http://localhost/api/v1/sentinel/ingest/batch",
+      {
+        method: "POST",
+        headers: { Authorization: "Bearer valid-token" },
+        body: stream,
+        duplex: "half",
+      },
+    );
+
+    const res = await POST(req);
+    expect(res.status).toBe(413);
+  });
+
+  it("returns 413 for a gzip body that inflates past the limit", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    const res = await POST(
+      makeRequest(null, {
+        token: "valid-token",
+        gzip: true,
+        raw: gzipSync(Buffer.alloc(33 * MB, 0x20)),
+      }),
+    );
+    expect(res.status).toBe(413);
+  });
+
+  it("returns 422 for an empty batch", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    const res = await POST(
+      makeRequest(
+        { sentinel_id: "sentinel-001", packets: [] },
+        { token: "valid-token" },
+      ),
+    );
+    expect(res.status).toBe(422);
+  });
+
+  it("returns 403 when any packet belongs to another sentinel", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+
+    const res = await POST(
+      makeRequest(
+        {
+          sentinel_id: "sentinel-001",
+          packets: [
+            makePacket(0),
+            { ...makePacket(1), sentinel_id: "sentinel-002" },
+          ],
+        },
+        { token: "valid-token" },
+      ),
+    );
+    expect(res.status).toBe(403);
+    expect(mockIngestPacketBatch).not.toHaveBeenCalled();
+  });
+
+  it("rejects packets outside the replay window individually", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+    acceptAll();
+
+    const res = await POST(
+      makeRequest(
+        {
+          sentinel_id: "sentinel-001",
+          packets: [
+            makePacket(0, new Date(Date.now() - 120 * DAY)),
+            makePacket(1),
+            makePacket(2, new Date(Date.now() + 2 * 60 * 60 * 1000)),
+          ],
+        },
+        { token: "valid-token" },
+      ),
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.accepted).toBe(1);
+    expect(body.rejected).toBe(2);
+    expect(body.results.map((r: { status: string }) => r.status)).toEqual([
+      "rejected",
+      "accepted",
+      "rejected",
+    ]);
+    expect(body.results[0].error).toBe("TIMESTAMP_OUT_OF_WINDOW");
+  });
+
+  it("passes chain gaps and forks through to the agent", async () => {
+    mockAuthenticateSentinelAgent.mockResolvedValue(mockAgent);
+    mockIngestPacketBatch.mockResolvedValue({
+      accepted: 1,
+      duplicates: 0,
+      rejected: 0,
+      results: [{ packet_id: "pkt-5", chain_position: 5, status: "accepted" }],
+      chain: { gaps: [{ from_position: 2, to_position: 4 }], forks: [] },
+    });
+
+    const res = await POST(
+      makeRequest(
+        { sentinel_id: "sentinel-001", packets: [makePacket(5)] },
+        { token: "valid-token" },
+      ),
+    );
+
+    const body = await res.json();
+    expect(body.chain.gaps).toEqual([{ from_position: 2, to_position: 4 }]);
+  });
+});
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { gunzipSync } from "node:zlib";
+import {
+  authenticateSentinelAgent,
+  ingestPacketBatch,
+} from "@/lib/services/sentinel-service.server";
+import { logger } from "@/lib/logger";
+import { SentinelPacketBatchSchema } from "@/lib/validations/sentinel";
+import { checkRateLimit, createRateLimitResponse } from "@/lib/ratelimit";
+
+const MAX_BODY_BYTES = 32 * 1024 * 1024; // on the wire and decompressed
+const MAX_FUTURE_DRIFT_MS = 60 * 60 * 1000; // 1 hour
+const MAX_REPLAY_AGE_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+/**
+ * Reads the request body, giving up as soon as it exceeds MAX_BODY_BYTES.
+ * A declared Content-Length is checked before anything is read; the running
+ * byte count catches chunked or mis-declared bodies.
+ */
+async function readBodyBounded(req: Request): Promise<Buffer | null> {
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > MAX_BODY_BYTES) return null;
+  if (!req.body) return Buffer.alloc(0);
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_BODY_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function bodyTooLarge() {
+  return NextResponse.json(
+    { error: `Body exceeds ${MAX_BODY_BYTES} bytes` },
+    { status: 413 },
+  );
+}
+
+/**
+ * POST /api/v1/sentinel/ingest/batch
+ * Replay of an agent's offline buffer (or an uploaded backlog bundle).
+ * Body may be gzip-compressed (Content-Encoding: gzip). Unlike the live
+ * ingest endpoint, old collection timestamps are expected here; packets
+ * outside the replay window are rejected individually so the agent's queue
+ * keeps moving. Responds with per-packet results plus any chain gaps or
+ * forks detected.
+ * Auth: Sentinel bearer token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Auth
+    const token = request.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return NextResponse.json(
+        { error: "Missing Authorization header" },
+        { status: 401 },
+      );
+    }
+
+    const rl = await checkRateLimit("sentinel_ingest", `token:${token}`);
+    if (!rl.success) return createRateLimitResponse(rl);
+
+    const agent = await authenticateSentinelAgent(token);
+    if (!agent) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    if (agent.status !== "ACTIVE") {
+      return NextResponse.json(
+        { error: `Agent status: ${agent.status}` },
+        { status: 403 },
+      );
+    }
+
+    // Decode body — size-limited before and after decompression
+    const raw = await readBodyBounded(request);
+    if (!raw) return bodyTooLarge();
+
+    let body: unknown;
+    try {
+      const text =
+        request.headers.get("Content-Encoding") === "gzip"
+          ? gunzipSync(raw, { maxOutputLength: MAX_BODY_BYTES }).toString(
+              "utf-8",
+            )
+          : raw.toString("utf-8");
+      body = JSON.parse(text);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        return bodyTooLarge();
+      }
+      return NextResponse.json(
+        { error: "Body must be JSON, optionally gzip-compressed" },
+        { status: 400 },
+      );
+    }
+
+    const parseResult = SentinelPacketBatchSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid batch format",
+          details: parseResult.error.issues.map((issue) => ({
+            path: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 422 },
+      );
+    }
+
+    const batch = parseResult.data;
+
+    // Verify sentinel_id matches for the batch and every packet
+    if (
+      batch.sentinel_id !== agent.sentinelId ||
+      batch.packets.some((p) => p.sentinel_id !== agent.sentinelId)
+    ) {
+      return NextResponse.json(
+        { error: "Sentinel ID mismatch" },
+        { status: 403 },
+      );
+    }
+
+    // Replay window: no future timestamps, nothing older than 90 days
+    const now = Date.now();
+    const inWindow = batch.packets.filter((p) => {
+      const t = new Date(p.data.collection_timestamp).getTime();
+      return t - now <= MAX_FUTURE_DRIFT_MS && now - t <= MAX_REPLAY_AGE_MS;
+    });
+    const outOfWindow = batch.packets.filter((p) => !inWindow.includes(p));
+
+    const result = await ingestPacketBatch(agent.id, inWindow);
+
+    const results = [
+      ...result.results,
+      ...outOfWindow.map((p) => ({
+        packet_id: p.packet_id,
+        chain_position: p.integrity.chain_position,
+        status: "rejected" as const,
+        error: "TIMESTAMP_OUT_OF_WINDOW",
+      })),
+    ].sort((a, b) => a.chain_position - b.chain_position);
+
+    return NextResponse.json({
+      accepted: result.accepted,
+      duplicates: result.duplicates,
+      rejected: result.rejected + outOfWindow.length,
+      results,
+      chain: result.chain,
+    });
+  } catch (err) {
+    logger.error("[sentinel/ingest/batch]", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
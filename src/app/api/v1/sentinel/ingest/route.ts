@@ -4,50 +4,9 @@ import {
   ingestPacket,
 } from "@/lib/services/sentinel-service.server";
 import { logger } from "@/lib/logger";
-import { z } from "zod";
+import { SentinelPacketSchema } from "@/lib/validations/sentinel";
 import { checkRateLimit, createRateLimitResponse } from "@/lib/ratelimit";
 
-const PacketSchema = z.object({
-  packet_id: z.string(),
-  version: z.string(),
-  sentinel_id: z.string(),
-  operator_id: z.string(),
-  satellite_norad_id: z
-    .string()
-    .regex(/^\d{1,8}$/)
-    .nullable(),
-  data: z.object({
-    data_point: z.string(),
-    values: z.record(z.string(), z.unknown()),
-    source_system: z.string(),
-    collection_method: z.string(),
-    collection_timestamp: z.string().datetime(),
-    compliance_notes: z.array(z.string()),
-  }),
-  regulation_mapping: z.array(
-    z.object({
-      ref: z.string(),
-      status: z.string(),
-      note: z.string(),
-    }),
-  ),
-  integrity: z.object({
-    content_hash: z.string().startsWith("sha256:"),
-    previous_hash: z.string(),
-    chain_position: z.number().int().nonnegative(),
-    signature: z.string(),
-    agent_public_key: z.string(),
-    timestamp_source: z.string(),
-  }),
-  metadata: z.object({
-    sentinel_version: z.string(),
-    collector: z.string(),
-    config_hash: z.string(),
-    uptime_seconds: z.number().nonnegative(),
-    packets_sent_total: z.number().int().nonnegative(),
-  }),
-});
-
 const MAX_TIMESTAMP_DRIFT_MS = 60 * 60 * 1000; // 1 hour
 
 export async function POST(request: NextRequest) {
@@ -78,7 +37,7 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate packet
     const body = await request.json();
-    const parseResult = PacketSchema.safeParse(body);
+    const parseResult = SentinelPacketSchema.safeParse(body);
 
     if (!parseResult.success) {
       return NextResponse.json(
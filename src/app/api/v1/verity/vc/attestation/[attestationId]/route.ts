@@ -0,0 +1,70 @@
+import { logger } from "@/lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { exportAttestationCredential } from "@/lib/verity/vc/issuer.server";
+
+/**
+ * GET /api/v1/verity/vc/attestation/[attestationId]
+ * Exports an attestation as a W3C VC 2.0 credential with an
+ * eddsa-jcs-2022 Data Integrity proof, ready for a standard wallet.
+ * Auth: Session (attestation must belong to a member of the caller's org)
+ *
+ * Revoked attestations are still exportable — the credential carries a
+ * status list entry, and wallets learn of the revocation from the list.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ attestationId: string }> },
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+      where: { userId: session.user.id },
+      select: { organizationId: true },
+    });
+    if (!membership) {
+      return NextResponse.json(
+        { error: "No organization found" },
+        { status: 403 },
+      );
+    }
+
+    const { attestationId } = await params;
+
+    const orgMembers = await prisma.organizationMember.findMany({
+      where: { organizationId: membership.organizationId },
+      select: { userId: true },
+    });
+
+    const record = await prisma.verityAttestation.findFirst({
+      where: {
+        attestationId,
+        operatorId: { in: orgMembers.map((m) => m.userId) },
+      },
+      select: { id: true, fullAttestation: true },
+    });
+    if (!record) {
+      return NextResponse.json(
+        { error: "Attestation not found" },
+        { status: 404 },
+      );
+    }
+
+    const credential = await exportAttestationCredential(prisma, record);
+
+    return NextResponse.json(credential, {
+      headers: { "Content-Type": "application/vc+ld+json" },
+    });
+  } catch (error) {
+    logger.error("[vc/attestation/[attestationId]]", error);
+    return NextResponse.json(
+      { error: "Failed to export credential" },
+      { status: 500 },
+    );
+  }
+}
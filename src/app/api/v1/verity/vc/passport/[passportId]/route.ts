@@ -0,0 +1,74 @@
+import { logger } from "@/lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  checkRateLimit,
+  getIdentifier,
+  createRateLimitResponse,
+} from "@/lib/ratelimit";
+import { exportPassportCredential } from "@/lib/verity/vc/issuer.server";
+
+/**
+ * GET /api/v1/verity/vc/passport/[passportId]
+ * Public endpoint — exports a passport as a W3C VC 2.0 credential with
+ * an eddsa-jcs-2022 Data Integrity proof.
+ * Same visibility rules as /api/v1/verity/passport/[passportId]: the
+ * passport must be public, not revoked and not expired.
+ *
+ * Rate-limited via the `verity_public` tier.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ passportId: string }> },
+) {
+  try {
+    const rl = await checkRateLimit("verity_public", getIdentifier(request));
+    if (!rl.success) return createRateLimitResponse(rl);
+
+    const { passportId } = await params;
+
+    const record = await prisma.verityPassport.findFirst({
+      where: { passportId },
+    });
+
+    if (!record) {
+      return NextResponse.json(
+        { error: "Passport not found" },
+        { status: 404 },
+      );
+    }
+
+    if (!record.isPublic) {
+      return NextResponse.json(
+        { error: "Passport is not public" },
+        { status: 403 },
+      );
+    }
+
+    if (record.revokedAt) {
+      return NextResponse.json(
+        { error: "Passport has been revoked" },
+        { status: 410 },
+      );
+    }
+
+    if (record.expiresAt < new Date()) {
+      return NextResponse.json(
+        { error: "Passport has expired" },
+        { status: 410 },
+      );
+    }
+
+    const credential = await exportPassportCredential(prisma, record);
+
+    return NextResponse.json(credential, {
+      headers: { "Content-Type": "application/vc+ld+json" },
+    });
+  } catch (error) {
+    logger.error("[vc/passport/[passportId]]", error);
+    return NextResponse.json(
+      { error: "Failed to export credential" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { logger } from "@/lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildSignedStatusList } from "@/lib/verity/vc/issuer.server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/v1/verity/vc/status/[list]
+ *
+ * Serves the signed StatusList2021 credential that every exported
+ * Verity VC references in `credentialStatus.statusListCredential`.
+ * `list` is "attestations" or "passports". A set bit means revoked;
+ * bits are rebuilt from `revokedAt` on every request, so a revocation
+ * is visible to wallets once the short edge cache expires.
+ *
+ * Auth: none. Not rate-limited — wallets fetch it on every
+ * presentation, and the CDN absorbs the load via Cache-Control.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ list: string }> },
+) {
+  try {
+    const { list } = await params;
+    if (list !== "attestations" && list !== "passports") {
+      return NextResponse.json(
+        { error: "Status list not found" },
+        { status: 404 },
+      );
+    }
+
+    const credential = await buildSignedStatusList(prisma, list);
+
+    return NextResponse.json(credential, {
+      headers: {
+        "Content-Type": "application/vc+ld+json",
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    logger.error("[vc/status/[list]]", error);
+    return NextResponse.json(
+      { error: "Failed to build status list" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { logger } from "@/lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  checkRateLimit,
+  getIdentifier,
+  createRateLimitResponse,
+} from "@/lib/ratelimit";
+import { verifyCredential } from "@/lib/verity/vc/issuer.server";
+
+/**
+ * POST /api/v1/verity/vc/verify
+ * Verifies a Verity W3C VC 2.0 credential (attestation or passport).
+ * Auth: NONE (public endpoint)
+ *
+ * Body: { credential: <VC JSON> }
+ *
+ * STRICT: the proof's verificationMethod must name a key in Caelex's
+ * keyset (active or rotated) — a credential signed by any other key
+ * is rejected, however well-formed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rl = await checkRateLimit("verity_public", getIdentifier(request));
+    if (!rl.success) return createRateLimitResponse(rl);
+
+    const body = await request.json().catch(() => null);
+    const credential = body?.credential;
+    if (!credential || typeof credential !== "object") {
+      return NextResponse.json(
+        { error: "credential is required" },
+        { status: 400 },
+      );
+    }
+
+    const result = await verifyCredential(prisma, credential);
+
+    return NextResponse.json({
+      ...result,
+      verified_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error("[vc/verify]", error);
+    return NextResponse.json(
+      { error: "Failed to verify credential" },
+      { status: 500 },
+    );
+  }
+}
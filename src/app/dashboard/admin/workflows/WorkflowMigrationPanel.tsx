@@ -0,0 +1,171 @@
+"use client";
+
+/**
+ * Client island for the workflow-versions admin page — runs a dry-run of
+ * a registered migration against /api/admin/cowf/migrations, shows the
+ * per-instance plan, and applies it on confirmation.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { csrfHeaders } from "@/lib/csrf-client";
+
+interface MigrationSummary {
+  name: string;
+  workflow: string;
+  fromVersion: number;
+  toVersion: number;
+}
+
+interface MigrationInstance {
+  workflowId: string;
+  organizationId: string;
+  fromState: string;
+  toState: string;
+  openSteps: Array<{ from: string; to: string; kind: string }>;
+  blockers: string[];
+  migrated: boolean;
+}
+
+interface MigrationReport {
+  dryRun: boolean;
+  migratable: number;
+  blocked: number;
+  migrated: number;
+  instances: MigrationInstance[];
+}
+
+export function WorkflowMigrationPanel({
+  migration,
+}: {
+  migration: MigrationSummary;
+}) {
+  const router = useRouter();
+  const [report, setReport] = useState<MigrationReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(dryRun: boolean) {
+    if (
+      !dryRun &&
+      !window.confirm(
+        `Migrate ${report?.migratable ?? 0} instance(s) from v${migration.fromVersion} to v${migration.toVersion}?`,
+      )
+    ) {
+      return;
+    }
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/cowf/migrations", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...csrfHeaders() },
+        body: JSON.stringify({
+          workflow: migration.workflow,
+          fromVersion: migration.fromVersion,
+          toVersion: migration.toVersion,
+          dryRun,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+      setReport(body as MigrationReport);
+      if (!dryRun) router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-slate-700/60 bg-slate-900/60 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-slate-200">
+          Migration v{migration.fromVersion} → v{migration.toVersion}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={running}
+            onClick={() => run(true)}
+            className="rounded border border-slate-600 px-3 py-1 text-xs font-medium text-slate-200 hover:bg-slate-800 disabled:opacity-50"
+          >
+            Dry run
+          </button>
+          <button
+            type="button"
+            disabled={
+              running || !report || !report.dryRun || report.migratable === 0
+            }
+            onClick={() => run(false)}
+            className="rounded border border-emerald-500/30 bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-200 hover:bg-emerald-500/20 disabled:opacity-50"
+          >
+            Migrate
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-3 text-xs text-red-300">{error}</p>}
+
+      {report && (
+        <div className="mt-4">
+          <p className="mb-3 text-xs text-slate-400">
+            {report.dryRun
+              ? `${report.migratable} would move · ${report.blocked} blocked`
+              : `${report.migrated} migrated · ${report.blocked} blocked`}
+          </p>
+          {report.instances.length > 0 && (
+            <table className="w-full text-xs">
+              <thead className="text-[11px] uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="py-1 text-left">Instance</th>
+                  <th className="py-1 text-left">State</th>
+                  <th className="py-1 text-left">Open steps</th>
+                  <th className="py-1 text-left">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.instances.map((i) => (
+                  <tr
+                    key={i.workflowId}
+                    className="border-t border-slate-700/40 align-top"
+                  >
+                    <td className="py-2 font-mono text-slate-300">
+                      {i.workflowId}
+                    </td>
+                    <td className="py-2 text-slate-300">
+                      {i.fromState === i.toState
+                        ? i.fromState
+                        : `${i.fromState} → ${i.toState}`}
+                    </td>
+                    <td className="py-2 text-slate-400">
+                      {i.openSteps.length === 0
+                        ? "—"
+                        : i.openSteps
+                            .map((s) =>
+                              s.from === s.to ? s.from : `${s.from} → ${s.to}`,
+                            )
+                            .join(", ")}
+                    </td>
+                    <td className="py-2">
+                      {i.blockers.length > 0 ? (
+                        <span className="text-amber-300">
+                          {i.blockers.join(", ")}
+                        </span>
+                      ) : i.migrated ? (
+                        <span className="text-emerald-300">migrated</span>
+                      ) : (
+                        <span className="text-slate-300">would move</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
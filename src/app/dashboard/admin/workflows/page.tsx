@@ -0,0 +1,128 @@
+/**
+ * Admin UI · COWF workflow versions.
+ *
+ * Workflow instances stay on the definition version they started on.
+ * This page shows, per workflow, how many instances run on each
+ * version — including versions whose handlers this deployment no longer
+ * ships — and the registered migrations, each with a dry-run / apply
+ * control.
+ *
+ * Server Component for the read path; the migration control lives in a
+ * sibling client island.
+ */
+
+import { redirect } from "next/navigation";
+import { requirePlatformAdmin } from "@/lib/atlas-auth";
+import { countInstancesByVersion } from "@/lib/cowf/migrations.server";
+import {
+  listWorkflowMigrations,
+  registerCanonicalWorkflows,
+} from "@/lib/cowf/registry.server";
+import { WorkflowMigrationPanel } from "./WorkflowMigrationPanel";
+
+export const dynamic = "force-dynamic";
+
+export default async function WorkflowVersionsAdminPage() {
+  const admin = await requirePlatformAdmin();
+  if (!admin) redirect("/dashboard");
+
+  await registerCanonicalWorkflows();
+  const versions = await countInstancesByVersion();
+  const migrations = listWorkflowMigrations().map((m) => ({
+    name: m.name,
+    workflow: m.workflow,
+    fromVersion: m.fromVersion,
+    toVersion: m.toVersion,
+  }));
+  const workflows = [...new Set(versions.map((v) => v.name))];
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-10 text-slate-100">
+      <header className="mb-10">
+        <p className="text-[11px] uppercase tracking-[0.18em] text-slate-400">
+          Operator Workflow Foundation · Versions
+        </p>
+        <h1 className="mt-2 text-2xl font-semibold tracking-tight">
+          Workflow versions
+        </h1>
+        <p className="mt-2 max-w-2xl text-sm leading-relaxed text-slate-400">
+          Instances are pinned to the version they started on. Move them to a
+          newer version with a registered migration — run a dry-run first to see
+          which instances would move and which are blocked by an open step.
+        </p>
+      </header>
+
+      {workflows.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No workflow definitions registered yet.
+        </p>
+      ) : (
+        workflows.map((name) => (
+          <section key={name} className="mb-12">
+            <h2 className="mb-4 font-mono text-base font-semibold text-slate-100">
+              {name}
+            </h2>
+            <div className="overflow-hidden rounded-lg border border-slate-700/60 bg-slate-900/60">
+              <table className="w-full text-sm">
+                <thead className="border-b border-slate-700/60 bg-slate-800/40 text-[11px] uppercase tracking-wider text-slate-400">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Version</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2 text-right">Active</th>
+                    <th className="px-4 py-2 text-right">Finished</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versions
+                    .filter((v) => v.name === name)
+                    .map((v) => (
+                      <tr
+                        key={v.defId}
+                        className="border-b border-slate-700/40 last:border-0"
+                      >
+                        <td className="px-4 py-3 font-medium tabular-nums">
+                          v{v.version}
+                        </td>
+                        <td className="px-4 py-3 text-xs">
+                          {v.latest ? (
+                            <span className="rounded-full border border-emerald-500/30 bg-emerald-500/10 px-2 py-0.5 text-emerald-300">
+                              latest
+                            </span>
+                          ) : v.registered ? (
+                            <span className="text-slate-400">registered</span>
+                          ) : (
+                            <span
+                              className={
+                                v.active > 0
+                                  ? "text-amber-300"
+                                  : "text-slate-500"
+                              }
+                            >
+                              not shipped
+                              {v.active > 0 ? " — instances stranded" : ""}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right tabular-nums text-slate-200">
+                          {v.active}
+                        </td>
+                        <td className="px-4 py-3 text-right tabular-nums text-slate-400">
+                          {v.finished}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+
+            {migrations
+              .filter((m) => m.workflow === name)
+              .map((m) => (
+                <WorkflowMigrationPanel key={m.name} migration={m} />
+              ))}
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import type {
   ForecastData,
   SatelliteAlert,
   HistoryPoint,
+  OrbitalWarning,
 } from "../components/forecast/types";
 
 // ─── Color Helpers (theme-aware — see ../theme.ts) ──────────────────────────
@@ -107,6 +108,7 @@ interface SatelliteState {
     message: string;
   }>;
   calculatedAt: string;
+  orbitalWarning?: OrbitalWarning | null;
 }
 
 // ─── Module Labels ────────────────────────────────────────────────────────────
@@ -602,6 +604,7 @@ export default function SatelliteDetailPage({
               horizonConfidence={
                 state?.complianceHorizon.confidence ?? "MEDIUM"
               }
+              orbitalWarning={state?.orbitalWarning ?? null}
               isRecalculating={recalculating}
               onRecalculate={recalculate}
               C={C}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import type { EphemerisColors } from "../../theme";
+import type { MonteCarloData } from "./types";
+
+interface BreachProbabilityPanelProps {
+  monteCarlo: MonteCarloData;
+  C: EphemerisColors;
+}
+
+const FONT = "'Inter', -apple-system, BlinkMacSystemFont, sans-serif";
+const COLUMNS = "1.6fr 1fr 150px 110px";
+const GRID_STEP_DAYS = 7;
+
+const BY_OPTIONS = [
+  { label: "6M", days: 182 },
+  { label: "1Y", days: 365 },
+  { label: "2Y", days: 730 },
+  { label: "5Y", days: 1825 },
+] as const;
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/** Cumulative breach fraction at the last grid point on or before `days` */
+function probabilityBy(cumulative: number[], days: number): number {
+  const index = Math.min(
+    Math.floor(days / GRID_STEP_DAYS),
+    cumulative.length - 1,
+  );
+  return cumulative[index] ?? 0;
+}
+
+export default function BreachProbabilityPanel({
+  monteCarlo,
+  C,
+}: BreachProbabilityPanelProps) {
+  const [byDays, setByDays] = useState<number>(365);
+
+  const rows = monteCarlo.curves.flatMap((curve) =>
+    curve.thresholds.map((t) => ({ curve, threshold: t })),
+  );
+
+  const colorFor = (p: number) =>
+    p >= 0.5 ? C.critical : p >= 0.1 ? C.warning : C.nominal;
+
+  return (
+    <div
+      style={{
+        background: C.bg,
+        border: `1px solid ${C.border}`,
+        borderRadius: 14,
+        overflow: "hidden",
+      }}
+    >
+      {/* Title row */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 12,
+          padding: "12px 18px",
+          borderBottom: `1px solid ${C.border}`,
+          background: C.sunken,
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "baseline", gap: 10 }}>
+          <span
+            style={{
+              fontFamily: FONT,
+              fontSize: 10,
+              fontWeight: 600,
+              letterSpacing: "0.08em",
+              color: C.textSecondary,
+            }}
+          >
+            BREACH PROBABILITY · MONTE CARLO
+          </span>
+          <span style={{ fontFamily: FONT, fontSize: 10, color: C.textMuted }}>
+            {monteCarlo.samples} samples · seed {monteCarlo.seed}
+          </span>
+        </div>
+        <div style={{ display: "flex", gap: 4 }}>
+          {BY_OPTIONS.map((opt) => {
+            const isActive = byDays === opt.days;
+            return (
+              <button
+                key={opt.label}
+                onClick={() => setByDays(opt.days)}
+                style={{
+                  fontFamily: FONT,
+                  fontSize: 10,
+                  fontWeight: isActive ? 600 : 400,
+                  padding: "4px 10px",
+                  borderRadius: 6,
+                  border: `1px solid ${isActive ? C.accent + "40" : C.border}`,
+                  background: isActive ? `${C.accent}08` : "transparent",
+                  color: isActive ? C.accent : C.textTertiary,
+                  cursor: "pointer",
+                }}
+              >
+                by {opt.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Column headers */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: COLUMNS,
+          gap: 8,
+          padding: "8px 18px",
+          borderBottom: `1px solid ${C.border}`,
+        }}
+      >
+        {["Threshold", "Regulation", "Probability", "Median breach"].map(
+          (col) => (
+            <span
+              key={col}
+              style={{
+                fontFamily: FONT,
+                fontSize: 9,
+                fontWeight: 600,
+                letterSpacing: "0.08em",
+                color: C.textMuted,
+                textTransform: "uppercase",
+              }}
+            >
+              {col}
+            </span>
+          ),
+        )}
+      </div>
+
+      {rows.map(({ curve, threshold }) => {
+        const p = probabilityBy(threshold.cumulative, byDays);
+        return (
+          <div
+            key={threshold.id}
+            style={{
+              display: "grid",
+              gridTemplateColumns: COLUMNS,
+              gap: 8,
+              alignItems: "center",
+              padding: "8px 18px",
+              borderBottom: `1px solid ${C.border}`,
+              fontFamily: FONT,
+              fontSize: 11,
+              color: C.textSecondary,
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            <span style={{ color: C.textPrimary }}>
+              {threshold.regulationName}
+              <span style={{ color: C.textMuted }}>
+                {" "}
+                · {threshold.thresholdValue} {curve.unit}
+              </span>
+            </span>
+            <span>{threshold.regulationRef}</span>
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <div
+                style={{
+                  flex: 1,
+                  height: 4,
+                  borderRadius: 2,
+                  background: C.sunken,
+                  overflow: "hidden",
+                }}
+              >
+                <div
+                  style={{
+                    width: `${Math.round(p * 100)}%`,
+                    height: "100%",
+                    background: colorFor(p),
+                  }}
+                />
+              </div>
+              <span style={{ fontWeight: 600, color: colorFor(p) }}>
+                {Math.round(p * 100)}%
+              </span>
+            </div>
+            <span>
+              {threshold.medianBreachDate
+                ? formatDate(threshold.medianBreachDate)
+                : "Beyond horizon"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
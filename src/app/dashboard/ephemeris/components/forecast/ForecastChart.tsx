@@ -18,6 +18,8 @@ import type { ForecastCurve, HistoryPoint } from "./types";
 interface ForecastChartProps {
   curve: ForecastCurve;
   historyData: HistoryPoint[];
+  /** Set when the forecast region shows Monte Carlo percentiles */
+  monteCarloSamples?: number | null;
   C: EphemerisColors;
 }
 
@@ -116,6 +118,7 @@ function ChartTooltip(props: any) {
 export default function ForecastChart({
   curve,
   historyData,
+  monteCarloSamples = null,
   C,
 }: ForecastChartProps) {
   // Find the "today" boundary — last historical point
@@ -198,7 +201,10 @@ export default function ForecastChart({
               letterSpacing: "0.03em",
             }}
           >
-            {curve.metric} · {curve.unit} · {curve.confidence} confidence
+            {curve.metric} · {curve.unit} ·{" "}
+            {monteCarloSamples !== null
+              ? `Monte Carlo P10–P90 · ${monteCarloSamples} samples`
+              : `${curve.confidence} confidence`}
           </div>
         </div>
         {curve.crossingDaysFromNow !== null && (
@@ -10,6 +10,9 @@ import type {
   HistoryPoint,
   TimeRange,
   ForecastCurve,
+  OrbitalWarning,
+  MonteCarloData,
+  MonteCarloCurve,
 } from "./types";
 import { TIME_RANGE_DAYS } from "./types";
 import ForecastHeader from "./ForecastHeader";
@@ -17,6 +20,8 @@ import BreachSummaryBar from "./BreachSummaryBar";
 import ForecastChart from "./ForecastChart";
 import ComplianceTimeline from "./ComplianceTimeline";
 import ModuleForecastTable from "./ModuleForecastTable";
+import ShortTermPanel from "./ShortTermPanel";
+import BreachProbabilityPanel from "./BreachProbabilityPanel";
 
 interface ForecastTabProps {
   forecast: ForecastData | null;
@@ -28,11 +33,35 @@ interface ForecastTabProps {
   horizonDays: number | null;
   horizonRegulation: string | null;
   horizonConfidence: string;
+  orbitalWarning: OrbitalWarning | null;
   isRecalculating: boolean;
   onRecalculate: () => void;
   C: EphemerisColors;
 }
 
+/**
+ * Deterministic curve with its forecast region replaced by Monte Carlo
+ * percentiles. All sampled thresholds are floors, so P10 is the worst case.
+ */
+function withMonteCarloBands(
+  curve: ForecastCurve,
+  mc: MonteCarloCurve,
+): ForecastCurve {
+  return {
+    ...curve,
+    dataPoints: [
+      ...curve.dataPoints.filter((p) => p.isHistorical),
+      ...mc.bands.map((b) => ({
+        date: b.date,
+        nominal: b.p50,
+        bestCase: b.p90,
+        worstCase: b.p10,
+        isHistorical: false,
+      })),
+    ],
+  };
+}
+
 export default function ForecastTab({
   forecast,
   modules,
@@ -43,6 +72,7 @@ export default function ForecastTab({
   horizonDays,
   horizonRegulation,
   horizonConfidence,
+  orbitalWarning,
   isRecalculating,
   onRecalculate,
   C,
@@ -52,6 +82,9 @@ export default function ForecastTab({
   const [historyData, setHistoryData] =
     useState<HistoryPoint[]>(initialHistory);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [monteCarloEnabled, setMonteCarloEnabled] = useState(false);
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloData | null>(null);
+  const [loadingMonteCarlo, setLoadingMonteCarlo] = useState(false);
 
   // Auto-select first metric
   useEffect(() => {
@@ -114,10 +147,42 @@ export default function ForecastTab({
     [fetchHistory],
   );
 
-  const selectedCurve: ForecastCurve | undefined = useMemo(
-    () => forecast?.forecastCurves.find((c) => c.metric === selectedMetric),
-    [forecast, selectedMetric],
-  );
+  // Monte Carlo bands are fetched on first toggle and kept until reload
+  const handleMonteCarloToggle = useCallback(async () => {
+    const next = !monteCarloEnabled;
+    setMonteCarloEnabled(next);
+    if (!next || monteCarlo) return;
+
+    setLoadingMonteCarlo(true);
+    try {
+      const res = await fetch(
+        `/api/v1/ephemeris/forecast?norad_id=${noradId}&mode=monte_carlo`,
+        { headers: csrfHeaders() },
+      );
+      if (res.ok) {
+        const d = await res.json();
+        setMonteCarlo(d.data?.monteCarlo ?? null);
+      }
+    } catch {
+      // Silent
+    } finally {
+      setLoadingMonteCarlo(false);
+    }
+  }, [monteCarloEnabled, monteCarlo, noradId]);
+
+  const selectedCurve: ForecastCurve | undefined = useMemo(() => {
+    const curve = forecast?.forecastCurves.find(
+      (c) => c.metric === selectedMetric,
+    );
+    const mc = monteCarloEnabled
+      ? monteCarlo?.curves.find((c) => c.metric === selectedMetric)
+      : undefined;
+    return curve && mc ? withMonteCarloBands(curve, mc) : curve;
+  }, [forecast, selectedMetric, monteCarloEnabled, monteCarlo]);
+
+  const showMonteCarlo =
+    monteCarloEnabled &&
+    !!monteCarlo?.curves.some((c) => c.metric === selectedMetric);
 
   if (!forecast || forecast.forecastCurves.length === 0) {
     return (
@@ -143,7 +208,7 @@ export default function ForecastTab({
         selectedRange={selectedRange}
         onRangeChange={handleRangeChange}
         onRecalculate={onRecalculate}
-        isRecalculating={isRecalculating || loadingHistory}
+        isRecalculating={isRecalculating || loadingHistory || loadingMonteCarlo}
         calculatedAt={calculatedAt}
         C={C}
       />
@@ -204,6 +269,26 @@ export default function ForecastTab({
             </button>
           );
         })}
+        <button
+          onClick={handleMonteCarloToggle}
+          disabled={loadingMonteCarlo}
+          style={{
+            marginLeft: "auto",
+            fontFamily:
+              "'Inter', -apple-system, BlinkMacSystemFont, sans-serif",
+            fontSize: 11,
+            fontWeight: monteCarloEnabled ? 600 : 400,
+            padding: "7px 14px",
+            borderRadius: 8,
+            border: `1px solid ${monteCarloEnabled ? C.accent + "40" : C.border}`,
+            background: monteCarloEnabled ? `${C.accent}08` : "transparent",
+            color: monteCarloEnabled ? C.accent : C.textTertiary,
+            cursor: loadingMonteCarlo ? "wait" : "pointer",
+            transition: "all 0.15s ease",
+          }}
+        >
+          {loadingMonteCarlo ? "Sampling…" : "Monte Carlo bands"}
+        </button>
       </div>
 
       {/* Row 4: Chart + Timeline side-by-side */}
@@ -219,6 +304,7 @@ export default function ForecastTab({
           <ForecastChart
             curve={selectedCurve}
             historyData={historyData}
+            monteCarloSamples={showMonteCarlo ? monteCarlo!.samples : null}
             C={C}
           />
           <ComplianceTimeline
@@ -229,7 +315,21 @@ export default function ForecastTab({
         </div>
       )}
 
-      {/* Row 5: Module Forecast Table */}
+      {/* Row 5: Monte Carlo breach probabilities */}
+      {monteCarloEnabled && monteCarlo && monteCarlo.curves.length > 0 && (
+        <BreachProbabilityPanel monteCarlo={monteCarlo} C={C} />
+      )}
+
+      {/* Row 6: Short-term SGP4 propagation */}
+      {forecast.shortTerm && (
+        <ShortTermPanel
+          shortTerm={forecast.shortTerm}
+          orbitalWarning={orbitalWarning}
+          C={C}
+        />
+      )}
+
+      {/* Row 7: Module Forecast Table */}
       {modules && (
         <ModuleForecastTable
           modules={modules}
@@ -0,0 +1,203 @@
+"use client";
+
+import type { EphemerisColors } from "../../theme";
+import type { ShortTermSummary, OrbitalWarning } from "./types";
+
+interface ShortTermPanelProps {
+  shortTerm: ShortTermSummary;
+  orbitalWarning: OrbitalWarning | null;
+  C: EphemerisColors;
+}
+
+const FONT = "'Inter', -apple-system, BlinkMacSystemFont, sans-serif";
+const COLUMNS = "90px 1fr 1fr 1fr 90px";
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+  });
+}
+
+function daysUntil(iso: string): number {
+  return Math.max(
+    0,
+    Math.floor((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+  );
+}
+
+/** Warning-altitude crossing line — SGP4 when inside the horizon */
+function WarningCrossing({
+  shortTerm,
+  orbitalWarning,
+  C,
+}: ShortTermPanelProps) {
+  const date =
+    shortTerm.warningCrossingDate ?? orbitalWarning?.crossingDate ?? null;
+  const source = shortTerm.warningCrossingDate
+    ? "SGP4 track"
+    : orbitalWarning?.source === "drag_model"
+      ? "decay model"
+      : null;
+  const thresholdKm = orbitalWarning?.thresholdKm ?? 200;
+
+  if (!date) {
+    return (
+      <span style={{ fontFamily: FONT, fontSize: 11, color: C.nominal }}>
+        Stays above {thresholdKm} km within the forecast horizon
+      </span>
+    );
+  }
+
+  const days = daysUntil(date);
+  return (
+    <span
+      style={{
+        fontFamily: FONT,
+        fontSize: 11,
+        fontWeight: 600,
+        color: days <= 30 ? C.critical : C.warning,
+      }}
+    >
+      Below {thresholdKm} km on {formatDate(date)} ({days}d) · {source}
+    </span>
+  );
+}
+
+export default function ShortTermPanel({
+  shortTerm,
+  orbitalWarning,
+  C,
+}: ShortTermPanelProps) {
+  const days = shortTerm.daily.slice(0, shortTerm.horizonDays);
+  const first = days[0];
+  const last = days[days.length - 1];
+  const altitudeLoss =
+    first && last ? first.meanAltitudeKm - last.meanAltitudeKm : null;
+
+  return (
+    <div
+      style={{
+        background: C.bg,
+        border: `1px solid ${C.border}`,
+        borderRadius: 14,
+        overflow: "hidden",
+      }}
+    >
+      {/* Title row */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 12,
+          padding: "12px 18px",
+          borderBottom: `1px solid ${C.border}`,
+          background: C.sunken,
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "baseline", gap: 10 }}>
+          <span
+            style={{
+              fontFamily: FONT,
+              fontSize: 10,
+              fontWeight: 600,
+              letterSpacing: "0.08em",
+              color: C.textSecondary,
+            }}
+          >
+            SGP4 SHORT-TERM · {shortTerm.horizonDays}D
+          </span>
+          <span style={{ fontFamily: FONT, fontSize: 10, color: C.textMuted }}>
+            TLE epoch {formatDate(shortTerm.tleEpoch)}
+            {altitudeLoss !== null &&
+              ` · −${altitudeLoss.toFixed(2)} km mean altitude`}
+            {` · ${shortTerm.eclipses.length} eclipses`}
+          </span>
+        </div>
+        <WarningCrossing
+          shortTerm={shortTerm}
+          orbitalWarning={orbitalWarning}
+          C={C}
+        />
+      </div>
+
+      {shortTerm.decayDate && (
+        <div
+          style={{
+            padding: "8px 18px",
+            fontFamily: FONT,
+            fontSize: 11,
+            fontWeight: 600,
+            color: C.critical,
+            borderBottom: `1px solid ${C.border}`,
+          }}
+        >
+          SGP4 reports decay on {formatDate(shortTerm.decayDate)}
+        </div>
+      )}
+
+      {/* Column headers */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: COLUMNS,
+          gap: 8,
+          padding: "8px 18px",
+          borderBottom: `1px solid ${C.border}`,
+        }}
+      >
+        {["Day", "Mean alt.", "Perigee", "Apogee", "Eclipse"].map((col) => (
+          <span
+            key={col}
+            style={{
+              fontFamily: FONT,
+              fontSize: 9,
+              fontWeight: 600,
+              letterSpacing: "0.08em",
+              color: C.textMuted,
+              textTransform: "uppercase",
+            }}
+          >
+            {col}
+          </span>
+        ))}
+      </div>
+
+      {/* Daily rows */}
+      <div style={{ maxHeight: 260, overflowY: "auto" }}>
+        {days.map((d) => (
+          <div
+            key={d.date}
+            style={{
+              display: "grid",
+              gridTemplateColumns: COLUMNS,
+              gap: 8,
+              padding: "6px 18px",
+              borderBottom: `1px solid ${C.border}`,
+              fontFamily: FONT,
+              fontSize: 11,
+              color: C.textSecondary,
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            <span style={{ color: C.textPrimary }}>{formatDate(d.date)}</span>
+            <span>{d.meanAltitudeKm.toFixed(1)} km</span>
+            <span
+              style={{
+                color:
+                  d.perigeeAltitudeKm < (orbitalWarning?.thresholdKm ?? 200)
+                    ? C.critical
+                    : C.textSecondary,
+              }}
+            >
+              {d.perigeeAltitudeKm.toFixed(1)} km
+            </span>
+            <span>{d.apogeeAltitudeKm.toFixed(1)} km</span>
+            <span>{Math.round(d.eclipseFraction * 100)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -34,10 +34,67 @@ export interface ComplianceEvent {
   recommendedAction: string;
 }
 
+export interface ShortTermDay {
+  date: string;
+  minAltitudeKm: number;
+  maxAltitudeKm: number;
+  meanAltitudeKm: number;
+  perigeeAltitudeKm: number;
+  apogeeAltitudeKm: number;
+  eclipseMinutes: number;
+  eclipseFraction: number;
+}
+
+export interface ShortTermSummary {
+  tleEpoch: string;
+  startDate: string;
+  horizonDays: number;
+  daily: ShortTermDay[];
+  eclipses: Array<{ entry: string; exit: string; durationMinutes: number }>;
+  warningCrossingDate: string | null;
+  decayDate: string | null;
+}
+
+export interface OrbitalWarning {
+  thresholdKm: number;
+  crossingDate: string | null;
+  source: "sgp4" | "drag_model" | null;
+  shortTermHorizonDays: number;
+}
+
+export interface BreachProbability {
+  id: string;
+  regulationRef: string;
+  regulationName: string;
+  thresholdValue: number;
+  thresholdType: "ABOVE" | "BELOW";
+  probability: number;
+  medianBreachDate: string | null;
+  cumulative: number[];
+}
+
+export interface MonteCarloCurve {
+  metric: string;
+  model: string;
+  unit: string;
+  bands: Array<{ date: string; p10: number; p50: number; p90: number }>;
+  thresholds: BreachProbability[];
+}
+
+export interface MonteCarloData {
+  samples: number;
+  seed: number;
+  byDate: string;
+  horizonDays: number;
+  curves: MonteCarloCurve[];
+}
+
 export interface ForecastData {
   forecastCurves: ForecastCurve[];
   complianceEvents: ComplianceEvent[];
   horizonDays: number | null;
+  shortTerm?: ShortTermSummary | null;
+  monteCarlo?: MonteCarloData | null;
 }
 
 export interface SatelliteAlert {
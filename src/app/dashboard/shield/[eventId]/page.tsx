@@ -35,6 +35,10 @@ import Card, { CardHeader, CardTitle, CardContent } from "@/components/ui/Card";
 import Button from "@/components/ui/Button";
 import { GlassMotion } from "@/components/ui/GlassMotion";
 import { csrfHeaders } from "@/lib/csrf-client";
+import type {
+  ManeuverOption,
+  ManeuverPlan,
+} from "@/lib/shield/maneuver-planner";
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
@@ -603,10 +607,21 @@ export default function ShieldEventDetailPage() {
     setNcaLoading(true);
     setNcaError("");
     setNcaSuccess("");
+    const secondary = event?.maneuverPlan?.createsSecondaryConjunction === true;
+    if (
+      secondary &&
+      !confirm(
+        "The selected maneuver plan creates a secondary conjunction. Notify the NCA anyway?",
+      )
+    ) {
+      setNcaLoading(false);
+      return;
+    }
     try {
       const res = await fetch(`/api/shield/events/${eventId}/nca-notify`, {
         method: "POST",
-        headers: csrfHeaders(),
+        headers: { "Content-Type": "application/json", ...csrfHeaders() },
+        body: JSON.stringify({ acknowledgeSecondaryConjunction: secondary }),
       });
       if (!res.ok) {
         const data = await res.json();
@@ -883,6 +898,7 @@ export default function ShieldEventDetailPage() {
           actionLoading={actionLoading}
           actionError={actionError}
           actionSuccess={actionSuccess}
+          onPlanSelected={fetchEvent}
         />
       )}
 
@@ -2031,7 +2047,9 @@ function OverviewTab({
                         {formatDate(cdm.creationDate)}
                       </td>
                       <td className="py-2 px-3 text-right text-[var(--text-primary)] font-mono text-small">
-                        {formatPc(cdm.collisionProbability)}
+                        {cdm.collisionProbability !== null
+                          ? formatPc(cdm.collisionProbability)
+                          : "N/A"}
                       </td>
                       <td className="py-2 px-3 text-right text-[var(--text-primary)] font-mono text-small">
                         {cdm.missDistance.toFixed(0)}
@@ -2198,6 +2216,236 @@ function OverviewTab({
 
 // ── Decision Tab ─────────────────────────────────────────────────────────────
 
+// ─── Maneuver Trade-Space ────────────────────────────────────────────────────
+
+/** GET /maneuver-plan payload */
+type TradeSpace = ManeuverPlan & {
+  eventId: string;
+  unscreened: Array<{ eventId: string; label: string }>;
+};
+
+/** The parts of the stored event.maneuverPlan shown on the card */
+interface SelectedManeuverPlan {
+  source?: string;
+  direction: string;
+  deltaV: number;
+  burnTime: string;
+  createsSecondaryConjunction?: boolean;
+}
+
+function ManeuverTradeSpace({
+  event,
+  onPlanSelected,
+}: {
+  event: { id: string; maneuverPlan?: SelectedManeuverPlan | null };
+  onPlanSelected: () => void;
+}) {
+  const [plan, setPlan] = useState<TradeSpace | null>(null);
+  const [planError, setPlanError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [selecting, setSelecting] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true);
+    setPlanError("");
+    try {
+      const res = await fetch(`/api/shield/events/${event.id}/maneuver-plan`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to plan maneuver");
+      setPlan(data.data);
+    } catch (err: unknown) {
+      setPlanError(
+        err instanceof Error ? err.message : "Failed to plan maneuver",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [event.id]);
+
+  const handleSelect = async (option: ManeuverOption) => {
+    if (
+      option.createsSecondaryConjunction &&
+      !confirm(
+        `This burn creates a secondary conjunction:\n${option.flags.join("\n")}\n\nSelect it anyway?`,
+      )
+    ) {
+      return;
+    }
+    setSelecting(option.id);
+    setPlanError("");
+    try {
+      const res = await fetch(`/api/shield/events/${event.id}/maneuver-plan`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...csrfHeaders() },
+        body: JSON.stringify({
+          optionId: option.id,
+          acknowledgeSecondary: option.createsSecondaryConjunction,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to select plan");
+      onPlanSelected();
+    } catch (err: unknown) {
+      setPlanError(
+        err instanceof Error ? err.message : "Failed to select plan",
+      );
+    } finally {
+      setSelecting(null);
+    }
+  };
+
+  const options: ManeuverOption[] = plan
+    ? plan.options.filter(
+        (o) =>
+          showAll ||
+          o.pareto ||
+          o.createsSecondaryConjunction ||
+          o.id === plan.recommendedOptionId,
+      )
+    : [];
+
+  return (
+    <GlassMotion>
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle>
+            <Target className="w-4 h-4 inline mr-2" />
+            Maneuver Trade-Space
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {event.maneuverPlan?.source === "planner" && (
+            <div className="p-3 rounded-lg glass-surface">
+              <p className="text-caption text-[var(--text-secondary)] mb-1">
+                Selected Plan
+              </p>
+              <p className="text-body font-mono text-[var(--text-primary)]">
+                {formatLabel(event.maneuverPlan.direction)}{" "}
+                {event.maneuverPlan.deltaV} m/s at{" "}
+                {new Date(event.maneuverPlan.burnTime)
+                  .toISOString()
+                  .slice(0, 16)}{" "}
+                UTC
+              </p>
+              {event.maneuverPlan.createsSecondaryConjunction && (
+                <p className="text-small text-red-400 flex items-start gap-1 mt-1">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  Creates a secondary conjunction (acknowledged)
+                </p>
+              )}
+            </div>
+          )}
+
+          {!plan && (
+            <Button
+              variant="secondary"
+              size="sm"
+              loading={loading}
+              onClick={loadPlan}
+              icon={<Zap className="w-4 h-4" />}
+            >
+              Compute Trade-Space
+            </Button>
+          )}
+
+          {planError && <p className="text-small text-red-400">{planError}</p>}
+
+          {plan && (
+            <>
+              <p className="text-small text-[var(--text-secondary)]">
+                Baseline Pc {formatPc(plan.baseline.primaryPc)} · target{" "}
+                {formatPc(plan.targetPc)} · re-screened against{" "}
+                {plan.baseline.secondaries.length} other open conjunction(s)
+                {plan.unscreened.length > 0 &&
+                  ` (${plan.unscreened.length} without covariance not screened)`}
+              </p>
+              {plan.warnings.map((w) => (
+                <p
+                  key={w}
+                  className="text-small text-amber-400 flex items-start gap-1"
+                >
+                  <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  {w}
+                </p>
+              ))}
+              <table className="w-full text-small">
+                <thead>
+                  <tr className="text-[var(--text-tertiary)]">
+                    <th className="text-left font-normal py-1">Burn</th>
+                    <th className="text-right font-normal py-1">Lead</th>
+                    <th className="text-right font-normal py-1">ΔV (m/s)</th>
+                    <th className="text-right font-normal py-1">Fuel</th>
+                    <th className="text-right font-normal py-1">Primary Pc</th>
+                    <th className="text-right font-normal py-1">Total Pc</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-[var(--text-primary)]">
+                  {options.map((o) => (
+                    <tr
+                      key={o.id}
+                      className={
+                        o.createsSecondaryConjunction
+                          ? "text-red-400"
+                          : o.id === plan.recommendedOptionId
+                            ? "text-emerald-400"
+                            : ""
+                      }
+                    >
+                      <td className="py-0.5">
+                        {formatLabel(o.direction)}
+                        {o.createsSecondaryConjunction && (
+                          <AlertTriangle
+                            className="w-3 h-3 inline ml-1"
+                            aria-label={o.flags.join("; ")}
+                          />
+                        )}
+                      </td>
+                      <td className="py-0.5 text-right">
+                        {o.leadTimeHours.toFixed(1)}h
+                      </td>
+                      <td className="py-0.5 text-right">{o.deltaVMs}</td>
+                      <td className="py-0.5 text-right">
+                        {o.fuelConsumptionKg !== null
+                          ? `${o.fuelConsumptionKg.toFixed(3)} kg`
+                          : "—"}
+                      </td>
+                      <td className="py-0.5 text-right">
+                        {formatPc(o.primary.postPc)}
+                      </td>
+                      <td className="py-0.5 text-right">
+                        {formatPc(o.aggregatePc)}
+                      </td>
+                      <td className="py-0.5 text-right">
+                        <button
+                          className="text-caption underline disabled:opacity-50"
+                          disabled={selecting !== null}
+                          onClick={() => handleSelect(o)}
+                        >
+                          {selecting === o.id ? "Saving…" : "Select"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                className="text-caption text-[var(--text-secondary)] underline"
+                onClick={() => setShowAll((v) => !v)}
+              >
+                {showAll
+                  ? "Show Pareto front only"
+                  : `Show all ${plan.options.length} options`}
+              </button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </GlassMotion>
+  );
+}
+
 function DecisionTab({
   event,
   factors,
@@ -2232,6 +2480,7 @@ function DecisionTab({
   actionLoading,
   actionError,
   actionSuccess,
+  onPlanSelected,
 }: {
   event: any;
   factors: any;
@@ -2266,6 +2515,7 @@ function DecisionTab({
   actionLoading: boolean;
   actionError: string;
   actionSuccess: string;
+  onPlanSelected: () => void;
 }) {
   return (
     <div className="space-y-6">
@@ -2386,6 +2636,107 @@ function DecisionTab({
                 </div>
               </div>
 
+              {/* Independent Pc — provider vs Shield */}
+              {factors.independentPc && (
+                <div
+                  className={`p-4 rounded-lg glass-surface mb-4 border ${
+                    factors.independentPc.crossCheck?.suspicious
+                      ? "border-amber-500/40"
+                      : "border-[var(--glass-border-subtle)]"
+                  }`}
+                >
+                  <p className="text-caption text-[var(--text-secondary)] mb-3 flex items-center gap-1">
+                    <Activity className="w-3 h-3" />
+                    Independent Collision Probability
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-3">
+                    <div>
+                      <p className="text-caption text-[var(--text-tertiary)]">
+                        Provider Pc
+                      </p>
+                      <p className="text-subtitle font-bold font-mono text-[var(--text-primary)]">
+                        {factors.independentPc.crossCheck
+                          ? formatPc(
+                              factors.independentPc.crossCheck.providerPc,
+                            )
+                          : "Not provided"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-caption text-[var(--text-tertiary)]">
+                        Shield Pc (
+                        {formatLabel(factors.independentPc.computation.method)})
+                      </p>
+                      <p className="text-subtitle font-bold font-mono text-[var(--text-primary)]">
+                        {formatPc(factors.independentPc.computation.pc)}
+                      </p>
+                      <p className="text-caption text-[var(--text-tertiary)] font-mono">
+                        Foster{" "}
+                        {formatPc(factors.independentPc.computation.foster)} ·
+                        Chan {formatPc(factors.independentPc.computation.chan)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-caption text-[var(--text-tertiary)]">
+                        Hard-Body Radius
+                      </p>
+                      <p className="text-subtitle font-bold font-mono text-[var(--text-primary)]">
+                        {factors.independentPc.computation.hardBodyRadiusM} m
+                      </p>
+                    </div>
+                  </div>
+                  {factors.independentPc.crossCheck?.suspicious && (
+                    <div className="mb-3 space-y-1">
+                      {factors.independentPc.crossCheck.reasons.map(
+                        (reason: string) => (
+                          <p
+                            key={reason}
+                            className="text-small text-amber-400 flex items-start gap-1"
+                          >
+                            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            {reason}
+                          </p>
+                        ),
+                      )}
+                    </div>
+                  )}
+                  <table className="w-full text-small">
+                    <thead>
+                      <tr className="text-[var(--text-tertiary)]">
+                        <th className="text-left font-normal py-1">
+                          Covariance scale
+                        </th>
+                        <th className="text-right font-normal py-1">Pc</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono text-[var(--text-primary)]">
+                      {factors.independentPc.computation.sensitivity.map(
+                        (row: { covarianceScale: number; pc: number }) => (
+                          <tr key={row.covarianceScale}>
+                            <td className="py-0.5">×{row.covarianceScale}</td>
+                            <td className="py-0.5 text-right">
+                              {formatPc(row.pc)}
+                            </td>
+                          </tr>
+                        ),
+                      )}
+                      <tr className="text-[var(--text-secondary)]">
+                        <td className="py-0.5">
+                          Max (×
+                          {factors.independentPc.computation.maxPc.covarianceScale.toPrecision(
+                            2,
+                          )}
+                          )
+                        </td>
+                        <td className="py-0.5 text-right">
+                          {formatPc(factors.independentPc.computation.maxPc.pc)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Recommendation — Full Width */}
               <div className="p-4 rounded-lg glass-surface border border-emerald-500/20">
                 <p className="text-caption text-emerald-400 mb-1 flex items-center gap-1">
@@ -2530,6 +2881,9 @@ function DecisionTab({
         </GlassMotion>
       ) : null}
 
+      {/* Maneuver Trade-Space */}
+      <ManeuverTradeSpace event={event} onPlanSelected={onPlanSelected} />
+
       {/* Decision Form or Display */}
       {canShowDecisionForm ? (
         <GlassMotion>
@@ -69,6 +69,7 @@ type ServerEvent =
   | "trade.operation.risk_recomputed"
   | "trade.license.attached"
   | "trade.license.detached"
+  | "trade.license.usage_threshold"
   // Trade Counterparty Screening (Wave A)
   | "trade.party.created"
   | "trade.party.screened"
@@ -176,6 +177,12 @@ const EVENT_META: Record<
     tone: "slate",
     category: "trade",
   },
+  "trade.license.usage_threshold": {
+    label: "LICENSE USAGE",
+    Icon: FileText,
+    tone: "amber",
+    category: "trade",
+  },
   // Trade Counterparty
   "trade.party.created": {
     label: "COUNTERPARTY ADDED",
@@ -33,6 +33,8 @@ export function DocumentSelectorPanel({
     (d) => d.category === "general",
   );
   const safetyDocs = NCA_DOCUMENT_TYPES.filter((d) => d.category === "safety");
+  const nis2Docs = NCA_DOCUMENT_TYPES.filter((d) => d.category === "nis2");
+  const craDocs = NCA_DOCUMENT_TYPES.filter((d) => d.category === "cra");
 
   return (
     <div className="flex flex-col h-full">
@@ -145,6 +147,44 @@ export function DocumentSelectorPanel({
             </div>
           </div>
         )}
+
+        {/* Category E — NIS2 */}
+        <div>
+          <h3 className="text-caption font-semibold uppercase tracking-wider text-slate-400 dark:text-white/[0.35] px-1 mb-2">
+            Category E — NIS2 Directive
+          </h3>
+          <div className="space-y-1">
+            {nis2Docs.map((meta) => (
+              <DocumentTypeCard
+                key={meta.id}
+                meta={meta}
+                readiness={readinessMap.get(meta.id)}
+                isSelected={selectedType === meta.id}
+                hasDocument={completedDocs.has(meta.id)}
+                onClick={() => onSelect(meta.id)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Category F — CRA */}
+        <div>
+          <h3 className="text-caption font-semibold uppercase tracking-wider text-slate-400 dark:text-white/[0.35] px-1 mb-2">
+            Category F — Cyber Resilience Act
+          </h3>
+          <div className="space-y-1">
+            {craDocs.map((meta) => (
+              <DocumentTypeCard
+                key={meta.id}
+                meta={meta}
+                readiness={readinessMap.get(meta.id)}
+                isSelected={selectedType === meta.id}
+                hasDocument={completedDocs.has(meta.id)}
+                onClick={() => onSelect(meta.id)}
+              />
+            ))}
+          </div>
+        </div>
       </div>
 
       {/* Generate Full Package button */}
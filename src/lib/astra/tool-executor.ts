@@ -4668,6 +4668,8 @@ const TOOL_HANDLERS: Record<string, ToolHandler> = {
       confidence: it.confidence,
       targetDate: it.targetDate?.toISOString() ?? null,
       startDate: it.startDate?.toISOString() ?? null,
+      floatDays: it.schedule?.floatDays ?? null,
+      onCriticalPath: it.schedule?.critical ?? false,
       dependsOn: it.dependsOn,
       jurisdictions: it.jurisdictions,
       evidenceRequired: it.evidenceRequired,
@@ -4684,6 +4686,16 @@ const TOOL_HANDLERS: Record<string, ToolHandler> = {
             : "Precision engine reported a problem — see warnings.",
       items: trimmedItems,
       stats: result.stats,
+      schedule: result.schedule
+        ? {
+            anchor: result.schedule.anchor,
+            projectedCompletion:
+              result.schedule.projectedCompletion.toISOString(),
+            launchSlipDays: result.schedule.launchSlipDays,
+            bufferDays: result.schedule.bufferDays,
+            criticalPath: result.schedule.criticalPath,
+          }
+        : null,
       warnings: result.warnings,
       operator: {
         operatorTypeCode,
@@ -168,6 +168,7 @@ export type AuditAction =
   | "trade_license_created"
   | "trade_license_attached"
   | "trade_license_detached"
+  | "trade_license_drawn_down"
   // Mission domain (Sprint Mission-2) — first-class Mission entity.
   | "mission_created"
   | "mission_updated"
@@ -189,7 +190,10 @@ export type AuditAction =
   | "atlas_data_deletion_requested"
   // Scholar
   | "scholar_search"
-  | "scholar_view_source";
+  | "scholar_view_source"
+  // COWF qes steps — one entry per document signed through a QES
+  // signing provider, linked to the workflow's QES_SIGNED event.
+  | "workflow_document_qes_signed";
 
 // Entity types for audit logging
 export type AuditEntityType =
@@ -0,0 +1,151 @@
+/**
+ * Tests for critical-path-scheduler.ts — CPM passes, float, assignee
+ * levelling and the what-if slip query.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import {
+  scheduleCriticalPath,
+  whatSlipsIf,
+  type ScheduleTask,
+} from "./critical-path-scheduler";
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+function days(n: number): Date {
+  return new Date(NOW.getTime() + n * 24 * 60 * 60 * 1000);
+}
+
+function task(
+  id: string,
+  durationDays: number,
+  dependsOn: string[] = [],
+  assignee: string | null = null,
+): ScheduleTask {
+  return { id, durationDays, dependsOn, assignee };
+}
+
+//   A(30) ─┬─ B(60) ─┬─ D(20)
+//          └─ C(10) ─┘
+const DIAMOND = [
+  task("A", 30),
+  task("B", 60, ["A"]),
+  task("C", 10, ["A"]),
+  task("D", 20, ["B", "C"]),
+];
+
+const byId = (s: ReturnType<typeof scheduleCriticalPath>) =>
+  Object.fromEntries(s.tasks.map((t) => [t.id, t]));
+
+describe("scheduleCriticalPath", () => {
+  it("runs the forward and backward passes and finds the critical chain", () => {
+    const plan = scheduleCriticalPath(DIAMOND, { now: NOW });
+    const t = byId(plan);
+
+    expect(plan.finishDays).toBe(110);
+    expect(t.D).toMatchObject({ earliestStart: 90, latestFinish: 110 });
+    expect(t.C).toMatchObject({
+      earliestStart: 30,
+      latestStart: 80,
+      slackDays: 50,
+      critical: false,
+    });
+    expect(plan.criticalPath).toEqual(["A", "B", "D"]);
+    expect(plan.deadlineDays).toBeNull();
+    expect(plan.deadlineSlipDays).toBe(0);
+  });
+
+  it("measures float against the launch deadline", () => {
+    const early = scheduleCriticalPath(DIAMOND, {
+      now: NOW,
+      deadline: days(150),
+    });
+    expect(byId(early).B.slackDays).toBe(40);
+    expect(early.criticalPath).toEqual(["A", "B", "D"]);
+
+    const late = scheduleCriticalPath(DIAMOND, {
+      now: NOW,
+      deadline: days(100),
+    });
+    expect(byId(late).A.slackDays).toBe(-10);
+    expect(late.deadlineSlipDays).toBe(10);
+  });
+
+  it("levels tasks that share an assignee", () => {
+    const plan = scheduleCriticalPath(
+      [
+        task("A", 30),
+        task("B", 60, ["A"], "legal"),
+        task("C", 40, ["A"], "legal"),
+        task("D", 20, ["B", "C"]),
+      ],
+      { now: NOW },
+    );
+    const t = byId(plan);
+
+    // B has less logical float, so legal takes it first and C waits.
+    expect(t.B).toMatchObject({ scheduledStart: 30, levellingDelayDays: 0 });
+    expect(t.C).toMatchObject({ scheduledStart: 90, levellingDelayDays: 60 });
+    expect(plan.finishDays).toBe(150);
+    expect(plan.criticalPath).toEqual(["A", "B", "C", "D"]);
+  });
+
+  it("lets an assignee with capacity 2 work in parallel", () => {
+    const plan = scheduleCriticalPath(
+      [
+        task("X", 30, [], "ops"),
+        task("Y", 30, [], "ops"),
+        task("Z", 30, [], "ops"),
+      ],
+      { now: NOW, capacity: { ops: 2 } },
+    );
+    const t = byId(plan);
+    expect([
+      t.X.scheduledStart,
+      t.Y.scheduledStart,
+      t.Z.scheduledStart,
+    ]).toEqual([0, 0, 30]);
+  });
+
+  it("ignores the edges of a dependency cycle instead of hanging", () => {
+    const plan = scheduleCriticalPath(
+      [task("P", 10, ["Q"]), task("Q", 10, ["P"]), task("R", 5)],
+      { now: NOW },
+    );
+    expect(plan.cyclic).toEqual(["P", "Q"]);
+    expect(byId(plan).Q.scheduledStart).toBe(10);
+    expect(plan.finishDays).toBe(20);
+  });
+});
+
+describe("whatSlipsIf", () => {
+  it("lets float absorb a slip off the critical path", () => {
+    const result = whatSlipsIf(DIAMOND, { now: NOW }, "C", 30);
+    expect(result).toMatchObject({
+      shifts: [{ id: "C", shiftDays: 30, finishDays: 70 }],
+      finishShiftDays: 0,
+    });
+  });
+
+  it("pushes every successor and the launch when a critical item slips", () => {
+    const result = whatSlipsIf(
+      DIAMOND,
+      { now: NOW, deadline: days(120) },
+      "A",
+      20,
+    );
+    expect(result?.shifts.map((s) => s.id)).toEqual(["A", "B", "C", "D"]);
+    expect(result).toMatchObject({
+      finishDays: 130,
+      finishShiftDays: 20,
+      deadlineSlipDays: 10,
+    });
+  });
+
+  it("returns null for an unknown item", () => {
+    expect(whatSlipsIf(DIAMOND, { now: NOW }, "nope", 5)).toBeNull();
+  });
+});
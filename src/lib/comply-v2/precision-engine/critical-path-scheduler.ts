@@ -0,0 +1,407 @@
+/**
+ * Critical-Path Scheduler (Sprint A3)
+ *
+ * Classic CPM over the dependency graph built by dependency-resolver,
+ * followed by serial resource levelling per assignee.
+ *
+ *   1. Forward pass from `now`: earliest start / finish per task.
+ *   2. Serial levelling: tasks are placed in dependency order, tightest
+ *      latest-start first, into the earliest window where their assignee
+ *      has free capacity. Unassigned tasks are not resource-constrained.
+ *   3. Backward pass from the deadline (planned launch) — or, without one,
+ *      from the levelled finish: latest start / finish per task.
+ *   4. Slack = latest finish − levelled finish. The tasks with the least
+ *      slack form the critical path; negative slack means the deadline is
+ *      already unreachable along that chain.
+ *
+ * All offsets are whole days relative to `now`. Pure compute — callers
+ * convert to dates.
+ */
+
+import "server-only";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Types ─────────────────────────────────────────────────────────────────
+
+export interface ScheduleTask {
+  id: string;
+  durationDays: number;
+  /** Predecessor ids. Unknown ids are ignored. */
+  dependsOn: string[];
+  /** Who does the work. Null = not resource-constrained. */
+  assignee: string | null;
+}
+
+export interface ScheduleOptions {
+  now: Date;
+  /** Hard deadline (e.g. planned launch). Null = the plan's own finish. */
+  deadline?: Date | null;
+  /** Tasks an assignee can work in parallel. Default 1. */
+  capacity?: Record<string, number>;
+  /** Extra days added to a task's duration — used by `whatSlipsIf`. */
+  delays?: Record<string, number>;
+}
+
+export interface ScheduledTask {
+  id: string;
+  assignee: string | null;
+  durationDays: number;
+  /** Forward pass, logic only. */
+  earliestStart: number;
+  earliestFinish: number;
+  /** Backward pass from the deadline. */
+  latestStart: number;
+  latestFinish: number;
+  /** Levelled plan. */
+  scheduledStart: number;
+  scheduledFinish: number;
+  /** Days the task waits for its assignee beyond its logical earliest start. */
+  levellingDelayDays: number;
+  /** latestFinish − scheduledFinish. Negative = late against the deadline. */
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface CriticalPathSchedule {
+  /** Tasks in dependency order. */
+  tasks: ScheduledTask[];
+  /** Levelled finish of the whole plan, days from `now`. */
+  finishDays: number;
+  /** Deadline in days from `now`, or null when none was given. */
+  deadlineDays: number | null;
+  /** Days the levelled plan finishes after the deadline. 0 when on time. */
+  deadlineSlipDays: number;
+  /** Critical task ids in dependency order. */
+  criticalPath: string[];
+  /** Ids caught in a dependency cycle; the edges between them are ignored. */
+  cyclic: string[];
+}
+
+export interface SlipAnalysis {
+  taskId: string;
+  slipDays: number;
+  /** Tasks whose levelled finish moves later, including the slipped task. */
+  shifts: Array<{ id: string; shiftDays: number; finishDays: number }>;
+  finishDays: number;
+  finishShiftDays: number;
+  deadlineSlipDays: number;
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+export function scheduleCriticalPath(
+  tasks: ScheduleTask[],
+  options: ScheduleOptions,
+): CriticalPathSchedule {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const { order, cyclic } = topoOrder(tasks, byId);
+  const cyclicSet = new Set(cyclic);
+  const rank = new Map(order.map((id, i) => [id, i]));
+
+  // Predecessors restricted to known ids, dropping edges that close a cycle.
+  const preds = new Map<string, string[]>();
+  const succs = new Map<string, string[]>(order.map((id) => [id, []]));
+  for (const id of order) {
+    const list = byId
+      .get(id)!
+      .dependsOn.filter(
+        (d) =>
+          byId.has(d) &&
+          d !== id &&
+          !(
+            cyclicSet.has(id) &&
+            cyclicSet.has(d) &&
+            rank.get(d)! > rank.get(id)!
+          ),
+      );
+    preds.set(id, list);
+    for (const p of list) succs.get(p)!.push(id);
+  }
+
+  const duration = new Map(
+    order.map((id) => [
+      id,
+      Math.max(
+        0,
+        Math.round(byId.get(id)!.durationDays + (options.delays?.[id] ?? 0)),
+      ),
+    ]),
+  );
+
+  // 1. Forward pass.
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  for (const id of order) {
+    const start = Math.max(0, ...preds.get(id)!.map((p) => ef.get(p)!));
+    es.set(id, start);
+    ef.set(id, start + duration.get(id)!);
+  }
+
+  // 2. Levelling needs a priority — the logical latest start against the
+  // logical finish is stable regardless of the deadline.
+  const logicalLs = backwardPass(
+    order,
+    succs,
+    duration,
+    Math.max(0, ...order.map((id) => ef.get(id)!)),
+  ).ls;
+  const {
+    start: ss,
+    finish: sf,
+    placed,
+    waitsOn,
+  } = level(
+    order,
+    preds,
+    duration,
+    (id) => byId.get(id)!.assignee,
+    options.capacity ?? {},
+    (a, b) =>
+      logicalLs.get(a)! - logicalLs.get(b)! || rank.get(a)! - rank.get(b)!,
+  );
+
+  const finishDays = Math.max(0, ...order.map((id) => sf.get(id)!));
+  const deadlineDays = options.deadline
+    ? Math.floor((options.deadline.getTime() - options.now.getTime()) / DAY_MS)
+    : null;
+
+  // 3. Backward pass from the deadline, over the dependency edges plus
+  // the assignee hand-offs levelling introduced — a task that delays the
+  // next job of a busy assignee is just as much on the path to launch.
+  const succsAndHandOffs = new Map(
+    order.map((id) => [id, [...succs.get(id)!, ...waitsOn.get(id)!]]),
+  );
+  const { ls, lf } = backwardPass(
+    placed,
+    succsAndHandOffs,
+    duration,
+    deadlineDays ?? finishDays,
+  );
+
+  // 4. Slack + critical path.
+  const slack = new Map(order.map((id) => [id, lf.get(id)! - sf.get(id)!]));
+  const minSlack = Math.min(...order.map((id) => slack.get(id)!));
+
+  const scheduled: ScheduledTask[] = order.map((id) => ({
+    id,
+    assignee: byId.get(id)!.assignee,
+    durationDays: duration.get(id)!,
+    earliestStart: es.get(id)!,
+    earliestFinish: ef.get(id)!,
+    latestStart: ls.get(id)!,
+    latestFinish: lf.get(id)!,
+    scheduledStart: ss.get(id)!,
+    scheduledFinish: sf.get(id)!,
+    levellingDelayDays: ss.get(id)! - es.get(id)!,
+    slackDays: slack.get(id)!,
+    critical: slack.get(id)! === minSlack,
+  }));
+
+  return {
+    tasks: scheduled,
+    finishDays,
+    deadlineDays,
+    deadlineSlipDays:
+      deadlineDays === null ? 0 : Math.max(0, finishDays - deadlineDays),
+    criticalPath: scheduled.filter((t) => t.critical).map((t) => t.id),
+    cyclic,
+  };
+}
+
+/**
+ * "What slips if X slips?" — re-plan with `taskId` taking `slipDays`
+ * longer and report every task whose levelled finish moves. Returns null
+ * when the task is not part of the plan.
+ */
+export function whatSlipsIf(
+  tasks: ScheduleTask[],
+  options: ScheduleOptions,
+  taskId: string,
+  slipDays: number,
+): SlipAnalysis | null {
+  if (!tasks.some((t) => t.id === taskId)) return null;
+
+  const base = scheduleCriticalPath(tasks, options);
+  const slipped = scheduleCriticalPath(tasks, {
+    ...options,
+    delays: {
+      ...options.delays,
+      [taskId]: (options.delays?.[taskId] ?? 0) + slipDays,
+    },
+  });
+
+  const baseFinish = new Map(base.tasks.map((t) => [t.id, t.scheduledFinish]));
+  const shifts = slipped.tasks
+    .map((t) => ({
+      id: t.id,
+      shiftDays: t.scheduledFinish - baseFinish.get(t.id)!,
+      finishDays: t.scheduledFinish,
+    }))
+    .filter((s) => s.shiftDays > 0);
+
+  return {
+    taskId,
+    slipDays,
+    shifts,
+    finishDays: slipped.finishDays,
+    finishShiftDays: slipped.finishDays - base.finishDays,
+    deadlineSlipDays: slipped.deadlineSlipDays,
+  };
+}
+
+// ─── Internals ─────────────────────────────────────────────────────────────
+
+/** [start, end, taskId] on one assignee's calendar. */
+type Booking = [number, number, string];
+
+/**
+ * Kahn's algorithm in input order. Tasks left over are in (or behind) a
+ * cycle — appended in input order, same as dependency-resolver does.
+ */
+function topoOrder(
+  tasks: ScheduleTask[],
+  byId: Map<string, ScheduleTask>,
+): { order: string[]; cyclic: string[] } {
+  const indegree = new Map<string, number>();
+  const succs = new Map<string, string[]>();
+  for (const t of tasks) {
+    indegree.set(t.id, 0);
+    succs.set(t.id, []);
+  }
+  for (const t of tasks) {
+    for (const d of new Set(t.dependsOn)) {
+      if (!byId.has(d) || d === t.id) continue;
+      indegree.set(t.id, indegree.get(t.id)! + 1);
+      succs.get(d)!.push(t.id);
+    }
+  }
+
+  const order: string[] = [];
+  const placed = new Set<string>();
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const t of tasks) {
+      if (placed.has(t.id) || indegree.get(t.id)! > 0) continue;
+      placed.add(t.id);
+      order.push(t.id);
+      for (const s of succs.get(t.id)!) {
+        indegree.set(s, indegree.get(s)! - 1);
+      }
+      progress = true;
+    }
+  }
+
+  const cyclic = tasks.filter((t) => !placed.has(t.id)).map((t) => t.id);
+  return { order: [...order, ...cyclic], cyclic };
+}
+
+function backwardPass(
+  order: string[],
+  succs: Map<string, string[]>,
+  duration: Map<string, number>,
+  horizon: number,
+): { ls: Map<string, number>; lf: Map<string, number> } {
+  const ls = new Map<string, number>();
+  const lf = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const finish = Math.min(horizon, ...succs.get(id)!.map((s) => ls.get(s)!));
+    lf.set(id, finish);
+    ls.set(id, finish - duration.get(id)!);
+  }
+  return { ls, lf };
+}
+
+/**
+ * Serial schedule generation: repeatedly pick the highest-priority task
+ * whose predecessors are all placed and book it into the earliest window
+ * its assignee has a free slot for its whole duration.
+ *
+ * Returns the placement order (topological over dependencies and
+ * hand-offs alike) and, per task, the tasks that had to wait for it to
+ * free up the assignee.
+ */
+function level(
+  order: string[],
+  preds: Map<string, string[]>,
+  duration: Map<string, number>,
+  assigneeOf: (id: string) => string | null,
+  capacity: Record<string, number>,
+  priority: (a: string, b: string) => number,
+): {
+  start: Map<string, number>;
+  finish: Map<string, number>;
+  placed: string[];
+  waitsOn: Map<string, string[]>;
+} {
+  const start = new Map<string, number>();
+  const finish = new Map<string, number>();
+  const placed: string[] = [];
+  const waitsOn = new Map<string, string[]>(order.map((id) => [id, []]));
+  const bookings = new Map<string, Booking[]>();
+
+  while (start.size < order.length) {
+    const next = order
+      .filter(
+        (id) => !start.has(id) && preds.get(id)!.every((p) => finish.has(p)),
+      )
+      .sort(priority)[0]!;
+
+    const ready = Math.max(0, ...preds.get(next)!.map((p) => finish.get(p)!));
+    const days = duration.get(next)!;
+    const assignee = assigneeOf(next);
+
+    let at = ready;
+    if (assignee && days > 0) {
+      const booked = bookings.get(assignee) ?? [];
+      at = earliestSlot(
+        booked,
+        ready,
+        days,
+        Math.max(1, capacity[assignee] ?? 1),
+      );
+      if (at > ready) {
+        for (const [, end, id] of booked) {
+          if (end === at) waitsOn.get(id)!.push(next);
+        }
+      }
+      booked.push([at, at + days, next]);
+      bookings.set(assignee, booked);
+    }
+    start.set(next, at);
+    finish.set(next, at + days);
+    placed.push(next);
+  }
+
+  return { start, finish, placed, waitsOn };
+}
+
+/**
+ * Earliest t ≥ ready such that fewer than `cap` bookings overlap any point
+ * of [t, t + days). Only `ready` and booking ends can be the answer.
+ */
+function earliestSlot(
+  booked: Booking[],
+  ready: number,
+  days: number,
+  cap: number,
+): number {
+  const candidates = [
+    ready,
+    ...booked.map(([, end]) => end).filter((end) => end > ready),
+  ].sort((a, b) => a - b);
+
+  for (const t of candidates) {
+    const points = [
+      t,
+      ...booked.map(([s]) => s).filter((s) => s > t && s < t + days),
+    ];
+    const fits = points.every(
+      (p) => booked.filter(([s, e]) => s <= p && p < e).length < cap,
+    );
+    if (fits) return t;
+  }
+  // Unreachable: after the last booking ends the assignee is free.
+  return Math.max(ready, ...booked.map(([, end]) => end));
+}
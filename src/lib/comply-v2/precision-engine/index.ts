@@ -5,7 +5,8 @@
  *   1. resolveApplicability — validate + normalize inputs
  *   2. generateItems        — walk the ontology, map obligations to items
  *   3. resolveDependencies  — populate dependsOn + topo-sort
- *   4. planTimeBackward     — compute targetDate + startDate per item
+ *   4. planTimeBackward     — critical-path schedule: targetDate,
+ *                             startDate + float per item, launch risk
  *
  * Never throws. Returns PrecisionRunResult with status discriminator.
  */
@@ -15,7 +16,7 @@ import "server-only";
 import { resolveApplicability } from "./applicability-resolver";
 import { generateItems } from "./item-generator";
 import { resolveDependencies } from "./dependency-resolver";
-import { planTimeBackward } from "./time-backward-planner";
+import { planSlip, planTimeBackward } from "./time-backward-planner";
 import type {
   GeneratedComplianceItem,
   PrecisionRunInput,
@@ -28,7 +29,10 @@ export type {
   PrecisionRunInput,
   PrecisionRunResult,
   GeneratedComplianceItem,
+  ItemSchedule,
   Priority,
+  RoadmapSchedule,
+  RoadmapSlipAnalysis,
 } from "./types";
 
 // ─── Public API ────────────────────────────────────────────────────────────
@@ -53,6 +57,8 @@ export async function runPrecisionEngine(
       stats: emptyStats(),
       startedAt,
       durationMs: Date.now() - t0,
+      schedule: null,
+      whatIf: null,
       warnings: [
         "Precision-engine skipped: input lacks operatorType or any jurisdiction signal",
       ],
@@ -81,6 +87,8 @@ export async function runPrecisionEngine(
       stats: emptyStats(),
       startedAt,
       durationMs: Date.now() - t0,
+      schedule: null,
+      whatIf: null,
       warnings: [
         ...warnings,
         `item-generator failed: ${err instanceof Error ? err.message : String(err)}`,
@@ -97,6 +105,8 @@ export async function runPrecisionEngine(
       stats: emptyStats(),
       startedAt,
       durationMs: Date.now() - t0,
+      schedule: null,
+      whatIf: null,
       warnings,
     };
   }
@@ -104,8 +114,38 @@ export async function runPrecisionEngine(
   // 3. Resolve dependencies + topo-sort.
   const withDeps = resolveDependencies(generated.items);
 
-  // 4. Plan time-backward for target + start dates.
-  const withDates = planTimeBackward(withDeps, context, { now: input.now });
+  // 4. Critical-path schedule for target + start dates.
+  const planOptions = {
+    now: input.now,
+    assignments: input.assignments,
+    assigneeCapacity: input.assigneeCapacity,
+  };
+  const { items: withDates, schedule } = planTimeBackward(
+    withDeps,
+    context,
+    planOptions,
+  );
+  if (schedule.cyclicItems.length > 0) {
+    warnings.push(
+      `Dependency cycle among ${schedule.cyclicItems.join(", ")} — scheduled ignoring the cyclic edges`,
+    );
+  }
+
+  let whatIf: PrecisionRunResult["whatIf"] = null;
+  if (input.whatIf) {
+    whatIf = planSlip(
+      withDeps,
+      context,
+      input.whatIf.itemId,
+      input.whatIf.slipDays,
+      planOptions,
+    );
+    if (!whatIf) {
+      warnings.push(
+        `what-if skipped: item ${input.whatIf.itemId} is not on the roadmap`,
+      );
+    }
+  }
 
   // 5. Compute stats + grouping.
   const stats = computeStats(withDates);
@@ -119,6 +159,8 @@ export async function runPrecisionEngine(
     startedAt,
     durationMs: Date.now() - t0,
     warnings,
+    schedule,
+    whatIf,
   };
 }
 
@@ -157,6 +157,7 @@ function mapToGeneratedItem(
     priority,
     targetDate: null, // computed by time-backward-planner downstream
     startDate: null, // computed by time-backward-planner downstream
+    schedule: null, // computed by time-backward-planner downstream
     evidenceRequired: obligation.evidenceRequired,
     dependsOn: [], // populated by dependency-resolver downstream
     origin: {
@@ -1,136 +1,210 @@
 /**
  * Time-Backward Planner (Sprint A3)
  *
- * Given GeneratedComplianceItems and a planned launch date (or other anchor
- * deadline), computes:
- *   - targetDate: when the obligation must be satisfied
- *   - startDate: when work on it should begin
+ * Given GeneratedComplianceItems (with dependsOn from dependency-resolver)
+ * and a planned launch date, computes per item:
+ *   - startDate: when work should begin in the levelled plan
+ *   - targetDate: the latest finish that still holds the launch date
+ *   - schedule: duration, float, assignee wait, critical-path flag
  *
- * Heuristics — keep simple and tunable. These mirror what counsel typically
- * recommends to operators preparing for an authorization filing.
+ * Scheduling is critical-path based (see critical-path-scheduler): work
+ * durations come from the heuristic table below, deadlines from the
+ * dependency graph. Without a future launch date the plan is "rolling" —
+ * target dates are the latest finish that doesn't push out the plan's
+ * own completion.
  */
 
 import "server-only";
 
-import type { ApplicabilityContext, GeneratedComplianceItem } from "./types";
-
-// ─── Heuristic offsets ─────────────────────────────────────────────────────
+import {
+  scheduleCriticalPath,
+  whatSlipsIf,
+  type CriticalPathSchedule,
+  type ScheduleOptions,
+  type ScheduleTask,
+} from "./critical-path-scheduler";
+import type {
+  ApplicabilityContext,
+  GeneratedComplianceItem,
+  RoadmapSchedule,
+  RoadmapSlipAnalysis,
+} from "./types";
+
+// ─── Heuristic durations ───────────────────────────────────────────────────
 
 /**
- * Months before the planned launch date by which the obligation must be
- * complete. Larger = more upstream.
+ * How long work on an obligation typically takes, start to satisfied.
+ * These mirror what counsel typically quotes operators preparing for an
+ * authorization filing; lead times before launch fall out of the
+ * dependency graph.
  */
-interface OffsetRule {
+interface DurationRule {
   pattern: RegExp;
-  /** How many months BEFORE launch must this be satisfied. */
-  targetMonthsBeforeLaunch: number;
-  /** How long does work typically take (months from start to satisfied). */
-  workDurationMonths: number;
+  workDurationDays: number;
 }
 
-const OFFSET_RULES: OffsetRule[] = [
-  {
-    pattern: /AUTHORIZATION/i,
-    targetMonthsBeforeLaunch: 12, // EU Space Act: ~12 months lead
-    workDurationMonths: 6,
-  },
-  {
-    pattern: /LAUNCH[-_ ]?LICENSE|LAUNCH[-_ ]?PERMIT/i,
-    targetMonthsBeforeLaunch: 6,
-    workDurationMonths: 3,
-  },
-  {
-    pattern: /SPECTRUM[-_ ]?FILING|ITU[-_ ]?FILING/i,
-    targetMonthsBeforeLaunch: 18, // ITU coordination is slow
-    workDurationMonths: 9,
-  },
-  {
-    pattern: /INSURANCE|LIABILITY/i,
-    targetMonthsBeforeLaunch: 9,
-    workDurationMonths: 3,
-  },
-  {
-    pattern: /DEBRIS[-_ ]?MITIGATION/i,
-    targetMonthsBeforeLaunch: 12,
-    workDurationMonths: 4,
-  },
-  {
-    pattern: /RISK[-_ ]?ASSESSMENT|ISMS/i,
-    targetMonthsBeforeLaunch: 9,
-    workDurationMonths: 3,
-  },
+const DURATION_RULES: DurationRule[] = [
+  { pattern: /AUTHORIZATION/i, workDurationDays: 180 },
+  { pattern: /LAUNCH[-_ ]?LICENSE|LAUNCH[-_ ]?PERMIT/i, workDurationDays: 90 },
+  // ITU coordination is slow.
+  { pattern: /SPECTRUM[-_ ]?FILING|ITU[-_ ]?FILING/i, workDurationDays: 270 },
+  { pattern: /INSURANCE|LIABILITY/i, workDurationDays: 90 },
+  { pattern: /DEBRIS[-_ ]?MITIGATION/i, workDurationDays: 120 },
+  { pattern: /RISK[-_ ]?ASSESSMENT|ISMS/i, workDurationDays: 90 },
   {
     pattern: /INCIDENT[-_ ]?RESPONSE|BREACH[-_ ]?NOTIFICATION/i,
-    targetMonthsBeforeLaunch: 3,
-    workDurationMonths: 2,
-  },
-  {
-    pattern: /DPIA|DATA[-_ ]?PROTECTION[-_ ]?IMPACT/i,
-    targetMonthsBeforeLaunch: 9,
-    workDurationMonths: 2,
+    workDurationDays: 60,
   },
+  { pattern: /DPIA|DATA[-_ ]?PROTECTION[-_ ]?IMPACT/i, workDurationDays: 60 },
 ];
 
 /** Catch-all for obligations not matched by any rule above. */
-const DEFAULT_TARGET_MONTHS_BEFORE_LAUNCH = 6;
-const DEFAULT_WORK_DURATION_MONTHS = 2;
+const DEFAULT_WORK_DURATION_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlanOptions {
+  now?: Date;
+  /** Assignee per item id or domain (id wins). */
+  assignments?: Record<string, string>;
+  /** Parallel items per assignee. Default 1. */
+  assigneeCapacity?: Record<string, number>;
+}
 
 // ─── Public API ────────────────────────────────────────────────────────────
 
 /**
- * Annotate every item with targetDate + startDate based on the planned launch
- * (or anchor date) and the offset rules. Items without a launch context get
- * a "rolling" 12-month plan: target = now + 6mo, start = now + 1mo.
+ * Schedule the items over their dependency graph and annotate each with
+ * startDate, targetDate and its critical-path placement.
  */
 export function planTimeBackward(
   items: GeneratedComplianceItem[],
   context: ApplicabilityContext,
-  options?: { now?: Date },
-): GeneratedComplianceItem[] {
-  const now = options?.now ?? new Date();
-  const launch = context.plannedLaunchDate;
-
-  return items.map((item) => {
-    const rule = OFFSET_RULES.find((r) => r.pattern.test(item.id));
-    const targetMonths =
-      rule?.targetMonthsBeforeLaunch ?? DEFAULT_TARGET_MONTHS_BEFORE_LAUNCH;
-    const workMonths = rule?.workDurationMonths ?? DEFAULT_WORK_DURATION_MONTHS;
-
-    let targetDate: Date;
-    let startDate: Date;
-
-    if (launch && launch.getTime() > now.getTime()) {
-      // Plan backward from launch.
-      targetDate = subtractMonths(launch, targetMonths);
-      startDate = subtractMonths(targetDate, workMonths);
-
-      // Floor to "now" — we don't suggest start dates in the past.
-      if (startDate.getTime() < now.getTime()) {
-        startDate = new Date(now.getTime() + 24 * 60 * 60 * 1000); // tomorrow
-      }
-      if (targetDate.getTime() < now.getTime()) {
-        // Launch is so close the obligation is already overdue; mark target as
-        // ASAP (= today) so the Today inbox surfaces it as URGENT.
-        targetDate = now;
-      }
-    } else {
-      // No launch context — rolling 12-month plan.
-      targetDate = addMonths(now, Math.min(targetMonths, 6));
-      startDate = addMonths(now, 1);
-    }
-
-    return { ...item, targetDate, startDate };
+  options?: PlanOptions,
+): { items: GeneratedComplianceItem[]; schedule: RoadmapSchedule } {
+  const { now, launch, tasks, scheduleOptions } = prepare(
+    items,
+    context,
+    options,
+  );
+  const plan = scheduleCriticalPath(tasks, scheduleOptions);
+  const byId = new Map(plan.tasks.map((t) => [t.id, t]));
+
+  const planned = items.map((item) => {
+    const t = byId.get(item.id)!;
+    // Floor to "now" — if the latest finish is already behind us the
+    // obligation is overdue; target ASAP (= today) so the Today inbox
+    // surfaces it as URGENT.
+    return {
+      ...item,
+      startDate: addDays(now, t.scheduledStart),
+      targetDate: addDays(now, Math.max(0, t.latestFinish)),
+      schedule: {
+        durationDays: t.durationDays,
+        assignee: t.assignee,
+        plannedFinish: addDays(now, t.scheduledFinish),
+        floatDays: t.slackDays,
+        levellingDelayDays: t.levellingDelayDays,
+        critical: t.critical,
+      },
+    };
   });
+
+  return { items: planned, schedule: summarize(plan, now, launch) };
+}
+
+/**
+ * "What slips if `itemId` slips by `slipDays`?" — same plan as
+ * planTimeBackward, re-run with the item taking that much longer. Null
+ * when the item is not on the roadmap.
+ */
+export function planSlip(
+  items: GeneratedComplianceItem[],
+  context: ApplicabilityContext,
+  itemId: string,
+  slipDays: number,
+  options?: PlanOptions,
+): RoadmapSlipAnalysis | null {
+  const { now, tasks, scheduleOptions } = prepare(items, context, options);
+  const analysis = whatSlipsIf(tasks, scheduleOptions, itemId, slipDays);
+  if (!analysis) return null;
+
+  const titleOf = new Map(items.map((i) => [i.id, i.title]));
+
+  return {
+    itemId,
+    slipDays,
+    affected: analysis.shifts.map((s) => ({
+      id: s.id,
+      title: titleOf.get(s.id) ?? s.id,
+      shiftDays: s.shiftDays,
+      plannedFinish: addDays(now, s.finishDays),
+    })),
+    projectedCompletion: addDays(now, analysis.finishDays),
+    completionShiftDays: analysis.finishShiftDays,
+    launchSlipDays: analysis.deadlineSlipDays,
+  };
 }
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
-function addMonths(d: Date, months: number): Date {
-  const out = new Date(d.getTime());
-  out.setUTCMonth(out.getUTCMonth() + months);
-  return out;
+function prepare(
+  items: GeneratedComplianceItem[],
+  context: ApplicabilityContext,
+  options: PlanOptions | undefined,
+): {
+  now: Date;
+  launch: Date | null;
+  tasks: ScheduleTask[];
+  scheduleOptions: ScheduleOptions;
+} {
+  const now = options?.now ?? new Date();
+  const launch =
+    context.plannedLaunchDate &&
+    context.plannedLaunchDate.getTime() > now.getTime()
+      ? context.plannedLaunchDate
+      : null;
+  const assignments = options?.assignments ?? {};
+
+  const tasks = items.map((item) => ({
+    id: item.id,
+    durationDays:
+      DURATION_RULES.find((r) => r.pattern.test(item.id))?.workDurationDays ??
+      DEFAULT_WORK_DURATION_DAYS,
+    dependsOn: item.dependsOn,
+    assignee: assignments[item.id] ?? assignments[item.domain] ?? null,
+  }));
+
+  return {
+    now,
+    launch,
+    tasks,
+    scheduleOptions: {
+      now,
+      deadline: launch,
+      capacity: options?.assigneeCapacity,
+    },
+  };
+}
+
+function summarize(
+  plan: CriticalPathSchedule,
+  now: Date,
+  launch: Date | null,
+): RoadmapSchedule {
+  return {
+    anchor: launch ? "LAUNCH" : "ROLLING",
+    launchDate: launch,
+    projectedCompletion: addDays(now, plan.finishDays),
+    launchSlipDays: plan.deadlineSlipDays,
+    bufferDays: plan.tasks.length
+      ? Math.min(...plan.tasks.map((t) => t.slackDays))
+      : 0,
+    criticalPath: plan.criticalPath,
+    cyclicItems: plan.cyclic,
+  };
 }
 
-function subtractMonths(d: Date, months: number): Date {
-  return addMonths(d, -months);
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getTime() + days * DAY_MS);
 }
@@ -43,6 +43,16 @@ export interface PrecisionRunInput {
    * Tests pass a fixed date for determinism.
    */
   now?: Date;
+  /**
+   * Optional: who works each item, keyed by item id or domain (id wins).
+   * Assigned items are levelled against the assignee's capacity; items
+   * without an assignee are scheduled as if resources were unlimited.
+   */
+  assignments?: Record<string, string>;
+  /** Optional: items an assignee can work in parallel. Default 1. */
+  assigneeCapacity?: Record<string, number>;
+  /** Optional: "what slips if this item slips by N days?" */
+  whatIf?: { itemId: string; slipDays: number };
 }
 
 /**
@@ -89,6 +99,43 @@ export interface PrecisionRunResult {
   durationMs: number;
   /** Soft-fail error messages — populated even on SUCCESS for partial issues. */
   warnings: string[];
+  /** Critical-path summary. Null when no items were generated. */
+  schedule: RoadmapSchedule | null;
+  /** Answer to `input.whatIf`. Null when not asked or the item is unknown. */
+  whatIf: RoadmapSlipAnalysis | null;
+}
+
+export interface RoadmapSchedule {
+  /** LAUNCH = planned backward from a future launch date; ROLLING = none given. */
+  anchor: "LAUNCH" | "ROLLING";
+  launchDate: Date | null;
+  /** When the levelled plan finishes its last item. */
+  projectedCompletion: Date;
+  /** Days the plan finishes after the planned launch. 0 = on time. */
+  launchSlipDays: number;
+  /** Least slack on the roadmap — the buffer left before launch. Negative when late. */
+  bufferDays: number;
+  /** Critical item ids in dependency order. */
+  criticalPath: string[];
+  /** Items caught in a dependency cycle; their mutual edges were ignored. */
+  cyclicItems: string[];
+}
+
+export interface RoadmapSlipAnalysis {
+  itemId: string;
+  slipDays: number;
+  /** Items whose planned finish moves, including the slipped item itself. */
+  affected: Array<{
+    id: string;
+    title: string;
+    shiftDays: number;
+    plannedFinish: Date;
+  }>;
+  projectedCompletion: Date;
+  /** How far the whole roadmap moves. slipDays − this was absorbed by slack. */
+  completionShiftDays: number;
+  /** Days the plan would finish after the planned launch. */
+  launchSlipDays: number;
 }
 
 export interface PrecisionRunStats {
@@ -134,6 +181,8 @@ export interface GeneratedComplianceItem {
   targetDate: Date | null;
   /** Earliest reasonable start date — work begins by then. */
   startDate: Date | null;
+  /** Critical-path placement (from time-backward-planner). */
+  schedule: ItemSchedule | null;
   /** Evidence types the operator must collect. */
   evidenceRequired: Array<{ code: string; label: string }>;
   /** IDs of other GeneratedComplianceItems that should be done before this one. */
@@ -142,6 +191,18 @@ export interface GeneratedComplianceItem {
   origin: GeneratedItemOrigin;
 }
 
+export interface ItemSchedule {
+  durationDays: number;
+  assignee: string | null;
+  /** Levelled finish — `startDate` + duration, pushed by dependencies and assignee load. */
+  plannedFinish: Date;
+  /** Days the item can slip before it delays the launch (or the plan's finish). */
+  floatDays: number;
+  /** Days the item waits for its assignee beyond what dependencies require. */
+  levellingDelayDays: number;
+  critical: boolean;
+}
+
 export type Priority = "URGENT" | "HIGH" | "MEDIUM" | "LOW" | "WATCHING";
 
 export type RegulationRef =
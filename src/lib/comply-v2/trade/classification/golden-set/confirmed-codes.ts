@@ -0,0 +1,92 @@
+/**
+ * Golden Set — bestätigte Kontrollcodes je Item × Kontrollliste.
+ *
+ * Ground Truth für den Regressions-Harness (`regression-harness.ts`): je
+ * Golden-Item die Codes, die fachlich BESTÄTIGT sind, getrennt nach `ListId`.
+ * Die Matrix-Erwartungen (GO/REVIEW/BLOCKED je Origin×Dest) bleiben im
+ * Matrix-Harness (`golden-set.test.ts`); hier steht nur die Klassifizierung.
+ *
+ * ─── Semantik (verbindlich) ──────────────────────────────────────────────
+ *   • Liste vorhanden, Codes gesetzt → genau diese Codes sind bestätigt.
+ *   • Liste vorhanden, leeres Array  → Item ist auf dieser Liste bestätigt
+ *     NICHT gelistet; jeder vorgeschlagene Code dort zählt als False Positive.
+ *   • Liste fehlt                    → (noch) nicht geprüft; Vorschläge dort
+ *     erscheinen im Report als "unscored", gehen aber in keine Metrik ein.
+ *
+ * DE_AUSFUHRLISTE: Teil I Abschnitt C der AL übernimmt Anhang I VO 2021/821
+ * unverändert — für Dual-Use-Items ist der AL-Code daher der EU-Code.
+ *
+ * ─── Versionierung ───────────────────────────────────────────────────────
+ * `GOLDEN_SET_VERSION` versioniert Items (`space-items.ts`) UND diese Tabelle
+ * gemeinsam. Jede Änderung an einem von beiden hebt das Datum — Reports
+ * verschiedener Golden-Set-Versionen sind nicht 1:1 vergleichbar (der Diff
+ * warnt dann, statt still zu vergleichen).
+ */
+
+import type { ListId } from "../list-id";
+
+/** Version (ISO-Datum) von Golden-Items + bestätigten Codes. */
+export const GOLDEN_SET_VERSION = "2026-10-19";
+
+/** Bestätigte Codes eines Items, je geprüfter Kontrollliste. */
+export type ConfirmedCodes = Partial<Record<ListId, readonly string[]>>;
+
+export const CONFIRMED_CODES: Readonly<Record<string, ConfirmedCodes>> = {
+  "sat-bus": {
+    EU_ANNEX_I: ["9A004"],
+    DE_AUSFUHRLISTE: ["9A004"],
+    USML: [],
+  },
+  "eo-sar": {
+    // ITAR-Anker der SAR-Heuristik (Rule 9) — siehe golden-set.test.ts.
+    USML: ["XV(a)(7)(ii)"],
+  },
+  "eo-optical": {
+    // Apertur 0.50 m → USML-EO-Schwelle (Rule 3).
+    USML: ["XV(a)(7)(i)"],
+  },
+  "hall-thruster": {
+    USML: ["XV(e)(2)"],
+    // 2026-06-13-Korrektur: EP → 9A004.f (nicht 9A011).
+    EU_ANNEX_I: ["9A004.f"],
+    DE_AUSFUHRLISTE: ["9A004.f"],
+  },
+  "apogee-engine": {
+    EU_ANNEX_I: ["9A106"],
+    DE_AUSFUHRLISTE: ["9A106"],
+  },
+  "star-tracker": {
+    EU_ANNEX_I: ["7A004"],
+    DE_AUSFUHRLISTE: ["7A004"],
+    EAR_CCL: ["7A004"],
+    // 10 arcsec verfehlt die ≤1-arcsec-Konjunktion von XV(e)(16).
+    USML: [],
+  },
+  "reaction-wheel": {
+    // Generisches AOCS-Bauteil — bestätigt unkontrolliert (Caveat in space-items.ts).
+    EU_ANNEX_I: [],
+    DE_AUSFUHRLISTE: [],
+    EAR_CCL: [],
+    USML: [],
+  },
+  "ground-tt-c": {
+    EU_ANNEX_I: ["5A002"],
+    DE_AUSFUHRLISTE: ["5A002"],
+    EAR_CCL: ["5A002"],
+  },
+  // launcher-tank: fachliche Prüfung offen (USML IV(h) vs. 9A110) — unscored.
+  "launcher-tank": {},
+  "flight-sw": {
+    EU_ANNEX_I: ["9D001"],
+    DE_AUSFUHRLISTE: ["9D001"],
+  },
+  "radhard-obc": {
+    EU_ANNEX_I: ["3A001.a.1"],
+    DE_AUSFUHRLISTE: ["3A001.a.1"],
+    EAR_CCL: ["3A001.a.1"],
+  },
+  prepreg: {
+    EU_ANNEX_I: ["1C010"],
+    DE_AUSFUHRLISTE: ["1C010"],
+  },
+};
@@ -0,0 +1,272 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Tests for regression-harness.ts — per-list scoring, the corpus
+ * fingerprint, the per-item verdict diff and the promotion gate.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CONTROL_LIST_CROSS_WALK,
+  type ControlListEntry,
+} from "../control-list-cross-walk";
+import {
+  classifyGoldenItem,
+  crossWalkInForce,
+  diffRegressionReports,
+  evaluatePromotion,
+  listIdForRegime,
+  runClassificationRegression,
+  scoreLists,
+  type ItemVerdict,
+} from "./regression-harness";
+import { CONFIRMED_CODES } from "./confirmed-codes";
+import { GOLDEN_ITEMS, type GoldenItem } from "./space-items";
+
+const NOW = new Date("2026-10-19T00:00:00.000Z");
+
+// A launch vehicle whose MTCR Cat. I code only the cross-walk can see —
+// lets the diff tests move a confirmed code by editing the cross-walk.
+const ROCKET: GoldenItem = {
+  id: "test-rocket",
+  name: "Zweistufiger Träger",
+  description: "complete two-stage launch vehicle to orbit",
+  attributes: { payloadKg: 600, rangeKm: 400 },
+};
+const ROCKET_CONFIRMED = { "test-rocket": { MTCR: ["Item-1.A.1"] } };
+const WITHOUT_ITEM_1A1 = CONTROL_LIST_CROSS_WALK.filter(
+  (e) => e.canonicalId !== "MTCR:Item-1.A.1",
+);
+
+function verdict(
+  predicted: Array<[ItemVerdict["predicted"][number]["list"], string]>,
+  confirmed: ItemVerdict["confirmed"],
+): ItemVerdict {
+  return {
+    itemId: "x",
+    name: "x",
+    predicted: predicted.map(([list, code]) => ({
+      list,
+      code,
+      confidence: "HIGH",
+      sources: ["trigger"],
+    })),
+    confirmed,
+  };
+}
+
+describe("listIdForRegime", () => {
+  it("folds the trigger, corpus and cross-walk vocabularies onto ListId", () => {
+    expect(listIdForRegime("US_CCL")).toBe("EAR_CCL");
+    expect(listIdForRegime("EAR-CCL")).toBe("EAR_CCL");
+    expect(listIdForRegime("USML_XV")).toBe("USML");
+    expect(listIdForRegime("ITAR-USML")).toBe("USML");
+    expect(listIdForRegime("DE_ANLAGE_AL")).toBe("DE_AUSFUHRLISTE");
+    expect(listIdForRegime("DE-AL-TEIL-IB")).toBe("DE_AUSFUHRLISTE");
+    expect(listIdForRegime("MTCR-ANNEX")).toBe("MTCR");
+    expect(listIdForRegime("RUSSIA-833-XXIX")).toBe("EU_ANNEX_IV");
+    expect(listIdForRegime("OTHER")).toBeNull();
+  });
+});
+
+describe("crossWalkInForce", () => {
+  it("drops entries not yet valid and entries already superseded", () => {
+    const base = CONTROL_LIST_CROSS_WALK[0];
+    const walk: ControlListEntry[] = [
+      { ...base, canonicalId: "A", validFrom: "2020-01-01" },
+      { ...base, canonicalId: "B", validFrom: "2026-01-01" },
+      {
+        ...base,
+        canonicalId: "C",
+        validFrom: "2020-01-01",
+        validUntil: "2025-06-01",
+      },
+    ];
+    const ids = (d: string) =>
+      crossWalkInForce(new Date(`${d}T00:00:00Z`), walk).map(
+        (e) => e.canonicalId,
+      );
+    expect(ids("2025-01-01")).toEqual(["A", "C"]);
+    expect(ids("2026-10-19")).toEqual(["A", "B"]);
+  });
+});
+
+describe("scoreLists", () => {
+  it("counts TP/FP/FN on reviewed lists only", () => {
+    const [eu, us] = scoreLists([
+      verdict(
+        [
+          ["EU_ANNEX_I", "9A004"],
+          ["EU_ANNEX_I", "6A008.l"],
+          ["EAR_CCL", "9A515.a"],
+        ],
+        { EU_ANNEX_I: ["9A004", "9A104"] },
+      ),
+    ]).sort((a, b) => b.list.localeCompare(a.list));
+    expect(eu).toMatchObject({
+      list: "EU_ANNEX_I",
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+    });
+    expect(us).toMatchObject({
+      list: "EAR_CCL",
+      truePositives: 0,
+      unscored: 1,
+      precision: null,
+      recall: null,
+    });
+  });
+
+  it("treats an empty reviewed list as confirmed-uncontrolled", () => {
+    const [usml] = scoreLists([verdict([["USML", "XV(e)(2)"]], { USML: [] })]);
+    expect(usml).toMatchObject({
+      falsePositives: 1,
+      precision: 0,
+      recall: null,
+    });
+  });
+
+  it("matches codes case- and whitespace-insensitively", () => {
+    const [row] = scoreLists([
+      verdict([["USML", "xv(a)(7)(i)"]], { USML: ["XV(a)(7)(i) "] }),
+    ]);
+    expect(row.truePositives).toBe(1);
+  });
+});
+
+describe("runClassificationRegression — golden set", () => {
+  const report = runClassificationRegression({ now: NOW });
+
+  it("covers every golden item with its confirmed codes", () => {
+    expect(report.items.map((i) => i.itemId)).toEqual(
+      GOLDEN_ITEMS.map((i) => i.id),
+    );
+    for (const item of report.items) {
+      expect(item.confirmed).toBe(CONFIRMED_CODES[item.itemId]);
+    }
+  });
+
+  it("finds every confirmed EU, US and USML code", () => {
+    for (const list of ["EU_ANNEX_I", "EAR_CCL", "USML"] as const) {
+      const row = report.lists.find((l) => l.list === list);
+      expect(row?.falseNegatives, list).toBe(0);
+      expect(row?.recall, list).toBe(1);
+    }
+  });
+
+  it("surfaces nothing for the confirmed-uncontrolled reaction wheel", () => {
+    expect(
+      report.items.find((i) => i.itemId === "reaction-wheel")?.predicted,
+    ).toEqual([]);
+  });
+
+  it("records which stage surfaced a code", () => {
+    const obc = classifyGoldenItem(
+      GOLDEN_ITEMS.find((i) => i.id === "radhard-obc")!,
+    );
+    const code = obc.find(
+      (p) => p.list === "EU_ANNEX_I" && p.code === "3A001.a.1",
+    );
+    expect(code?.sources).toEqual(["trigger", "declared"]);
+    expect(code?.confidence).toBe("HIGH");
+  });
+
+  it("fingerprints the effective corpus, not the run", () => {
+    const again = runClassificationRegression({
+      now: new Date("2026-12-01T00:00:00Z"),
+      asOf: NOW,
+    });
+    expect(again.corpus.id).toBe(report.corpus.id);
+    const edited = runClassificationRegression({
+      now: NOW,
+      crossWalk: WITHOUT_ITEM_1A1,
+    });
+    expect(edited.corpus.id).not.toBe(report.corpus.id);
+    expect(edited.corpus.crossWalkEntries).toBe(
+      report.corpus.crossWalkEntries - 1,
+    );
+  });
+
+  it("tracks the EAR rule manifest across the Affiliates Rule stay cliff", () => {
+    const before = runClassificationRegression({
+      now: NOW,
+      asOf: new Date("2026-11-08T00:00:00Z"),
+    });
+    const after = runClassificationRegression({
+      now: NOW,
+      asOf: new Date("2026-11-09T00:00:00Z"),
+    });
+    expect(before.corpus.id).not.toBe(after.corpus.id);
+    expect(diffRegressionReports(before, after).ruleChanges).toContain(
+      "affiliates-rule-744.11",
+    );
+  });
+});
+
+describe("diffRegressionReports + evaluatePromotion", () => {
+  const run = (crossWalk?: readonly ControlListEntry[]) =>
+    runClassificationRegression({
+      now: NOW,
+      items: [ROCKET],
+      confirmed: ROCKET_CONFIRMED,
+      crossWalk,
+    });
+
+  it("allows an unchanged corpus", () => {
+    const diff = diffRegressionReports(run(), run());
+    expect(diff.items[0].change).toBe("UNCHANGED");
+    expect(evaluatePromotion(diff)).toEqual({
+      allowed: true,
+      blockers: [],
+      warnings: [],
+    });
+  });
+
+  it("blocks a corpus under which a confirmed code is no longer found", () => {
+    const diff = diffRegressionReports(run(), run(WITHOUT_ITEM_1A1));
+    expect(diff.items[0]).toMatchObject({
+      change: "CHANGED",
+      regressed: [{ list: "MTCR", code: "Item-1.A.1" }],
+    });
+    const decision = evaluatePromotion(diff);
+    expect(decision.allowed).toBe(false);
+    expect(decision.blockers).toEqual([
+      "test-rocket: confirmed MTCR Item-1.A.1 is no longer found",
+    ]);
+  });
+
+  it("reports the reverse direction as a recovery, not a block", () => {
+    const diff = diffRegressionReports(run(WITHOUT_ITEM_1A1), run());
+    expect(diff.items[0].recovered).toEqual([
+      { list: "MTCR", code: "Item-1.A.1" },
+    ]);
+    expect(evaluatePromotion(diff).allowed).toBe(true);
+  });
+
+  it("judges regressions against the candidate's confirmed codes", () => {
+    const retired = runClassificationRegression({
+      now: NOW,
+      items: [ROCKET],
+      confirmed: { "test-rocket": { MTCR: [] } },
+      goldenSetVersion: "2099-01-01",
+      crossWalk: WITHOUT_ITEM_1A1,
+    });
+    const decision = evaluatePromotion(diffRegressionReports(run(), retired));
+    expect(decision.allowed).toBe(true);
+    expect(decision.warnings[0]).toMatch(/different golden-set versions/);
+  });
+
+  it("warns when a golden item disappears from the candidate", () => {
+    const empty = runClassificationRegression({ now: NOW, items: [] });
+    const diff = diffRegressionReports(run(), empty);
+    expect(diff.items[0].change).toBe("REMOVED");
+    expect(evaluatePromotion(diff).warnings).toContain(
+      "test-rocket: missing from the candidate golden set",
+    );
+  });
+});
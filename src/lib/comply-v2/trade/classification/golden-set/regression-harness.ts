@@ -0,0 +1,564 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Caelex Trade — classification regression harness over the golden set.
+ *
+ * Runs every golden item (`space-items.ts`) through the full pure
+ * classification pipeline and scores the surfaced codes against the
+ * confirmed codes (`confirmed-codes.ts`) per control list:
+ *
+ *   1. `classifyItemForOperation` — property-trigger codes + the DCW-1
+ *      corpus matches for the item's declared codes.
+ *   2. `composeDraft` over `matchAgainstCrossWalk` — the parametric
+ *      cross-walk proposals plus the corpus keyword fallback, exactly as
+ *      the interactive suggest path builds them.
+ *
+ * A "corpus version" is the cross-walk and the EAR rule manifest
+ * (`subject-to-ear/rule-corpus-version.ts`) as they stood on an as-of
+ * date, optionally with a caller-supplied cross-walk (an edit under
+ * review). Each report carries a content fingerprint of that version, so
+ * two reports can be diffed item by item and the promotion gate can
+ * refuse a corpus under which a confirmed code stops being found.
+ *
+ * Runners: `scripts/trade-classification-regression.ts` (CLI, CI gate)
+ * and `GET /api/admin/trade/classification-regression` (admin).
+ *
+ * Pure apart from hashing — no I/O, no DB, no `import "server-only"` (the
+ * CLI imports it under plain tsx).
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { createHash } from "node:crypto";
+import { NORMALIZED_CORPUS_UNION } from "@/data/trade/normalized-corpus";
+import {
+  classifyItemForOperation,
+  type ClassifiableItem,
+} from "@/lib/trade/classification/classify-item";
+import { composeDraft } from "@/lib/trade/classification-draft-builder";
+import { attributesToBag } from "@/lib/trade/classify-suggest";
+import {
+  listRuleStatuses,
+  type CorpusRuleId,
+} from "@/lib/trade/subject-to-ear/rule-corpus-version";
+import {
+  CONTROL_LIST_AS_OF,
+  CONTROL_LIST_CROSS_WALK,
+  type ControlListEntry,
+} from "../control-list-cross-walk";
+import type { ListId } from "../list-id";
+import {
+  matchAgainstCrossWalk,
+  type MatchConfidence,
+} from "../parametric-matcher";
+import {
+  CONFIRMED_CODES,
+  GOLDEN_SET_VERSION,
+  type ConfirmedCodes,
+} from "./confirmed-codes";
+import { GOLDEN_ITEMS, type GoldenItem } from "./space-items";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Which pipeline stage surfaced a code. */
+export type PredictionSource = "trigger" | "declared" | "cross-walk";
+
+/** A control code on one list. */
+export interface CodeRef {
+  list: ListId;
+  code: string;
+}
+
+/** A code the pipeline surfaced, deduped across stages. */
+export interface PredictedCode extends CodeRef {
+  /** Highest confidence any stage gave it. */
+  confidence: MatchConfidence;
+  sources: PredictionSource[];
+}
+
+/** One golden item's classification outcome under a corpus version. */
+export interface ItemVerdict {
+  itemId: string;
+  name: string;
+  predicted: PredictedCode[];
+  confirmed: ConfirmedCodes;
+}
+
+/** Precision / recall for one control list across the golden set. */
+export interface ListScore {
+  list: ListId;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Null when nothing was predicted on a reviewed list. */
+  precision: number | null;
+  /** Null when the golden set confirms no code on this list. */
+  recall: number | null;
+  /** Predictions on items whose list is not (yet) reviewed. */
+  unscored: number;
+}
+
+/** Content identity of the corpus a report ran against. */
+export interface CorpusFingerprint {
+  /** Short content hash — equal ids mean identical effective corpus. */
+  id: string;
+  /** Evaluation date of the cross-walk + rule manifest (YYYY-MM-DD). */
+  asOf: string;
+  crossWalkAsOf: string;
+  crossWalkEntries: number;
+  normalizedCorpusEntries: number;
+  rulesInForce: CorpusRuleId[];
+}
+
+export interface RegressionReport {
+  goldenSetVersion: string;
+  corpus: CorpusFingerprint;
+  generatedAt: string;
+  lists: ListScore[];
+  items: ItemVerdict[];
+}
+
+export interface RegressionOptions {
+  /** Evaluate the cross-walk and rule manifest as of this date (default: now). */
+  asOf?: Date;
+  /** Cross-walk to evaluate instead of the in-repo one. */
+  crossWalk?: readonly ControlListEntry[];
+  items?: readonly GoldenItem[];
+  confirmed?: Readonly<Record<string, ConfirmedCodes>>;
+  goldenSetVersion?: string;
+  now?: Date;
+}
+
+export type VerdictChange = "UNCHANGED" | "CHANGED" | "ADDED" | "REMOVED";
+
+export interface ItemVerdictDiff {
+  itemId: string;
+  change: VerdictChange;
+  added: CodeRef[];
+  removed: CodeRef[];
+  /** Confirmed codes the baseline found and the candidate no longer does. */
+  regressed: CodeRef[];
+  /** Confirmed codes the candidate finds and the baseline missed. */
+  recovered: CodeRef[];
+}
+
+export interface ListScoreDelta {
+  list: ListId;
+  baseline: Pick<ListScore, "precision" | "recall"> | null;
+  candidate: Pick<ListScore, "precision" | "recall"> | null;
+}
+
+export interface RegressionDiff {
+  baselineCorpus: CorpusFingerprint;
+  candidateCorpus: CorpusFingerprint;
+  /** False when the two reports ran different golden-set versions. */
+  comparable: boolean;
+  items: ItemVerdictDiff[];
+  lists: ListScoreDelta[];
+  /** Manifest rules whose in-force state differs between the versions. */
+  ruleChanges: CorpusRuleId[];
+}
+
+export interface PromotionDecision {
+  allowed: boolean;
+  blockers: string[];
+  warnings: string[];
+}
+
+// ─── Regime → ListId ────────────────────────────────────────────────
+
+// Keys are the three regime vocabularies the pipeline emits — trigger
+// jurisdictions, normalized-corpus regimes and cross-walk regime tags —
+// upper-cased with "-" folded to "_".
+const REGIME_TO_LIST: Readonly<Record<string, ListId>> = {
+  US_CCL: "EAR_CCL",
+  EAR_CCL: "EAR_CCL",
+  USML: "USML",
+  USML_XV: "USML",
+  ITAR_USML: "USML",
+  EU_ANNEX_I: "EU_ANNEX_I",
+  DE_ANLAGE_AL: "DE_AUSFUHRLISTE",
+  DE_AUSFUHRLISTE: "DE_AUSFUHRLISTE",
+  DE_AL_TEIL_IB: "DE_AUSFUHRLISTE",
+  MTCR_ANNEX: "MTCR",
+  WASSENAAR: "WASSENAAR",
+  JP_METI: "JP_METI",
+  IN_SCOMET: "IN_SCOMET",
+  NSG: "NSG",
+  NSG_TRIGGER: "NSG",
+  NSG_DU: "NSG",
+  RU_833: "EU_ANNEX_IV",
+  UK_STRATEGIC: "UK_STRATEGIC",
+  EU_CML: "EU_CML",
+  CA_ECL: "CA_ECL",
+  AU_DSGL: "AU_DSGL",
+  KR_STRATEGIC: "KR_STRATEGIC",
+  CH_GKV: "CH_GKV",
+  NO_LIST: "NO_LIST",
+};
+
+/**
+ * Map a regime tag from any pipeline stage to its `ListId`. Null for
+ * tags with no list (the cross-walk's "OTHER").
+ */
+export function listIdForRegime(regime: string): ListId | null {
+  const key = regime.toUpperCase().replace(/-/g, "_");
+  if (key.startsWith("RUSSIA_833_")) return "EU_ANNEX_IV";
+  return REGIME_TO_LIST[key] ?? null;
+}
+
+function normCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+function codeOf(canonicalId: string): string {
+  const idx = canonicalId.indexOf(":");
+  return idx === -1 ? canonicalId : canonicalId.slice(idx + 1);
+}
+
+function refKey(ref: CodeRef): string {
+  return `${ref.list}|${normCode(ref.code)}`;
+}
+
+const CONFIDENCE_RANK: Record<MatchConfidence, number> = {
+  HIGH: 3,
+  MEDIUM: 2,
+  LOW: 1,
+};
+
+// ─── Corpus version ─────────────────────────────────────────────────
+
+function isoDay(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * The cross-walk entries in force on `asOf` — `validFrom` reached and
+ * `validUntil` (if any) not yet passed.
+ */
+export function crossWalkInForce(
+  asOf: Date,
+  crossWalk: readonly ControlListEntry[] = CONTROL_LIST_CROSS_WALK,
+): ControlListEntry[] {
+  const day = isoDay(asOf);
+  return crossWalk.filter(
+    (e) => e.validFrom <= day && (!e.validUntil || e.validUntil > day),
+  );
+}
+
+let normalizedCorpusHash: string | null = null;
+
+function hashNormalizedCorpus(): string {
+  // 1.5k entries / ~1 MB of JSON — hash once per process.
+  normalizedCorpusHash ??= createHash("sha256")
+    .update(JSON.stringify(NORMALIZED_CORPUS_UNION))
+    .digest("hex");
+  return normalizedCorpusHash;
+}
+
+function fingerprint(
+  asOf: Date,
+  crossWalk: readonly ControlListEntry[],
+): CorpusFingerprint {
+  const rulesInForce = listRuleStatuses(asOf)
+    .filter((r) => r.inForce)
+    .map((r) => r.ruleId);
+  const id = createHash("sha256")
+    .update(JSON.stringify(crossWalk))
+    .update(hashNormalizedCorpus())
+    .update(rulesInForce.join(","))
+    .digest("hex")
+    .slice(0, 12);
+  return {
+    id,
+    asOf: isoDay(asOf),
+    crossWalkAsOf: CONTROL_LIST_AS_OF,
+    crossWalkEntries: crossWalk.length,
+    normalizedCorpusEntries: NORMALIZED_CORPUS_UNION.length,
+    rulesInForce,
+  };
+}
+
+// ─── Pipeline ───────────────────────────────────────────────────────
+
+/**
+ * Run one golden item through the classification pipeline and return
+ * every code it surfaces, deduped per list + code. Codes whose regime
+ * maps to no list are dropped.
+ */
+export function classifyGoldenItem(
+  item: GoldenItem,
+  crossWalk: readonly ControlListEntry[] = CONTROL_LIST_CROSS_WALK,
+): PredictedCode[] {
+  const found = new Map<string, PredictedCode>();
+  const add = (
+    regime: string,
+    code: string,
+    confidence: MatchConfidence,
+    source: PredictionSource,
+  ) => {
+    const list = listIdForRegime(regime);
+    if (!list) return;
+    const key = refKey({ list, code });
+    const existing = found.get(key);
+    if (!existing) {
+      found.set(key, { list, code, confidence, sources: [source] });
+      return;
+    }
+    if (CONFIDENCE_RANK[confidence] > CONFIDENCE_RANK[existing.confidence]) {
+      existing.confidence = confidence;
+    }
+    if (!existing.sources.includes(source)) existing.sources.push(source);
+  };
+
+  const classification = classifyItemForOperation({
+    name: item.name,
+    description: item.description,
+    ...item.attributes,
+    ...item.declaredCodes,
+  } as ClassifiableItem);
+  for (const result of classification.triggerEval.results) {
+    for (const c of result.suggestedCodes) {
+      add(c.jurisdiction, c.code, result.confidence, "trigger");
+    }
+  }
+  for (const m of classification.corpusMatches) {
+    add(m.entry.regime, m.entry.code, m.confidence, "declared");
+  }
+
+  const bag = attributesToBag(
+    Object.entries(item.attributes).map(([attribute, value]) => ({
+      attribute,
+      value,
+      confidence: "high" as const,
+    })),
+  );
+  const draft = composeDraft(
+    { rawText: item.description, pageCount: 1, attributes: bag, evidence: [] },
+    matchAgainstCrossWalk(bag, crossWalk),
+  );
+  for (const p of draft.proposals) {
+    add(p.regime, codeOf(p.canonicalId), p.confidence, "cross-walk");
+  }
+
+  return [...found.values()].sort(
+    (a, b) => a.list.localeCompare(b.list) || a.code.localeCompare(b.code),
+  );
+}
+
+function ratio(hits: number, total: number): number | null {
+  return total === 0 ? null : Math.round((hits / total) * 1000) / 1000;
+}
+
+/**
+ * Score item verdicts per control list. A list counts toward an item's
+ * precision/recall only where the golden set has reviewed it; other
+ * predictions are tallied as `unscored`.
+ */
+export function scoreLists(items: readonly ItemVerdict[]): ListScore[] {
+  const tally = new Map<ListId, Omit<ListScore, "precision" | "recall">>();
+  const row = (list: ListId) => {
+    let r = tally.get(list);
+    if (!r) {
+      r = {
+        list,
+        truePositives: 0,
+        falsePositives: 0,
+        falseNegatives: 0,
+        unscored: 0,
+      };
+      tally.set(list, r);
+    }
+    return r;
+  };
+
+  for (const item of items) {
+    const predictedByList = new Map<ListId, Set<string>>();
+    for (const p of item.predicted) {
+      const set = predictedByList.get(p.list) ?? new Set<string>();
+      set.add(normCode(p.code));
+      predictedByList.set(p.list, set);
+    }
+    for (const [list, codes] of predictedByList) {
+      if (!item.confirmed[list]) row(list).unscored += codes.size;
+    }
+    for (const [list, confirmedCodes] of Object.entries(item.confirmed) as [
+      ListId,
+      readonly string[],
+    ][]) {
+      const confirmed = new Set(confirmedCodes.map(normCode));
+      const predicted = predictedByList.get(list) ?? new Set<string>();
+      const r = row(list);
+      for (const code of predicted) {
+        if (confirmed.has(code)) r.truePositives += 1;
+        else r.falsePositives += 1;
+      }
+      for (const code of confirmed) {
+        if (!predicted.has(code)) r.falseNegatives += 1;
+      }
+    }
+  }
+
+  return [...tally.values()]
+    .map((r) => ({
+      ...r,
+      precision: ratio(r.truePositives, r.truePositives + r.falsePositives),
+      recall: ratio(r.truePositives, r.truePositives + r.falseNegatives),
+    }))
+    .sort((a, b) => a.list.localeCompare(b.list));
+}
+
+/**
+ * Run the golden set against one corpus version and return the report.
+ */
+export function runClassificationRegression(
+  opts: RegressionOptions = {},
+): RegressionReport {
+  const now = opts.now ?? new Date();
+  const asOf = opts.asOf ?? now;
+  const crossWalk = crossWalkInForce(
+    asOf,
+    opts.crossWalk ?? CONTROL_LIST_CROSS_WALK,
+  );
+  const confirmed = opts.confirmed ?? CONFIRMED_CODES;
+
+  const items: ItemVerdict[] = (opts.items ?? GOLDEN_ITEMS).map((item) => ({
+    itemId: item.id,
+    name: item.name,
+    predicted: classifyGoldenItem(item, crossWalk),
+    confirmed: confirmed[item.id] ?? {},
+  }));
+
+  return {
+    goldenSetVersion: opts.goldenSetVersion ?? GOLDEN_SET_VERSION,
+    corpus: fingerprint(asOf, crossWalk),
+    generatedAt: now.toISOString(),
+    lists: scoreLists(items),
+    items,
+  };
+}
+
+// ─── Diff + promotion gate ──────────────────────────────────────────
+
+function isConfirmed(confirmed: ConfirmedCodes, ref: CodeRef): boolean {
+  return (confirmed[ref.list] ?? []).some(
+    (c) => normCode(c) === normCode(ref.code),
+  );
+}
+
+function diffItem(
+  baseline: ItemVerdict | undefined,
+  candidate: ItemVerdict | undefined,
+): ItemVerdictDiff {
+  const itemId = (candidate ?? baseline)!.itemId;
+  const before = new Map(
+    (baseline?.predicted ?? []).map((p) => [refKey(p), p]),
+  );
+  const after = new Map(
+    (candidate?.predicted ?? []).map((p) => [refKey(p), p]),
+  );
+  const pick = ({ list, code }: CodeRef): CodeRef => ({ list, code });
+
+  const added = [...after]
+    .filter(([k]) => !before.has(k))
+    .map(([, p]) => pick(p));
+  const removed = [...before]
+    .filter(([k]) => !after.has(k))
+    .map(([, p]) => pick(p));
+
+  if (!baseline || !candidate) {
+    return {
+      itemId,
+      change: baseline ? "REMOVED" : "ADDED",
+      added,
+      removed,
+      regressed: [],
+      recovered: [],
+    };
+  }
+  return {
+    itemId,
+    change: added.length + removed.length === 0 ? "UNCHANGED" : "CHANGED",
+    added,
+    removed,
+    regressed: removed.filter((r) => isConfirmed(candidate.confirmed, r)),
+    recovered: added.filter((r) => isConfirmed(candidate.confirmed, r)),
+  };
+}
+
+/**
+ * Diff two reports item by item. Regressions are judged against the
+ * CANDIDATE's confirmed codes, so a golden-set edit that retires a code
+ * does not count as its regression.
+ */
+export function diffRegressionReports(
+  baseline: RegressionReport,
+  candidate: RegressionReport,
+): RegressionDiff {
+  const baseItems = new Map(baseline.items.map((i) => [i.itemId, i]));
+  const candItems = new Map(candidate.items.map((i) => [i.itemId, i]));
+  const itemIds = [...new Set([...baseItems.keys(), ...candItems.keys()])];
+
+  const baseLists = new Map(baseline.lists.map((l) => [l.list, l]));
+  const candLists = new Map(candidate.lists.map((l) => [l.list, l]));
+  const listIds = [
+    ...new Set([...baseLists.keys(), ...candLists.keys()]),
+  ].sort();
+  const scoreOf = (l: ListScore | undefined) =>
+    l ? { precision: l.precision, recall: l.recall } : null;
+
+  const baseRules = new Set(baseline.corpus.rulesInForce);
+  const candRules = new Set(candidate.corpus.rulesInForce);
+
+  return {
+    baselineCorpus: baseline.corpus,
+    candidateCorpus: candidate.corpus,
+    comparable: baseline.goldenSetVersion === candidate.goldenSetVersion,
+    items: itemIds.map((id) => diffItem(baseItems.get(id), candItems.get(id))),
+    lists: listIds.map((list) => ({
+      list,
+      baseline: scoreOf(baseLists.get(list)),
+      candidate: scoreOf(candLists.get(list)),
+    })),
+    ruleChanges: [
+      ...[...baseRules].filter((r) => !candRules.has(r)),
+      ...[...candRules].filter((r) => !baseRules.has(r)),
+    ],
+  };
+}
+
+/**
+ * Promotion gate for a candidate corpus: BLOCKED when any confirmed code
+ * the baseline found is no longer found. Everything else — new false
+ * positives, dropped golden items, a golden-set version mismatch — is
+ * surfaced as a warning for the reviewer, not a block.
+ */
+export function evaluatePromotion(diff: RegressionDiff): PromotionDecision {
+  const blockers: string[] = [];
+  const warnings: string[] = [];
+
+  if (!diff.comparable) {
+    warnings.push(
+      "Reports ran different golden-set versions — the diff is not like-for-like.",
+    );
+  }
+  for (const item of diff.items) {
+    for (const r of item.regressed) {
+      blockers.push(
+        `${item.itemId}: confirmed ${r.list} ${r.code} is no longer found`,
+      );
+    }
+    if (item.change === "REMOVED") {
+      warnings.push(`${item.itemId}: missing from the candidate golden set`);
+    }
+  }
+  for (const l of diff.lists) {
+    const before = l.baseline?.precision ?? null;
+    const after = l.candidate?.precision ?? null;
+    if (before !== null && after !== null && after < before) {
+      warnings.push(`${l.list}: precision ${before} → ${after}`);
+    }
+  }
+
+  return { allowed: blockers.length === 0, blockers, warnings };
+}
@@ -89,28 +89,14 @@ export function deriveUboStatus(
 }
 
 /**
- * Run the 50%-rule cascade for a TradeParty within its organization.
- *
- * The org-scope check is the caller's responsibility: pass `partyId`
- * only after verifying the user has access to the party. This server
- * function trusts its inputs and only loads data within the partition
- * defined by `organizationId`.
- *
- * Returns null if the party doesn't exist (caller decides whether
- * that's a 404 or a clean "no result" UX).
+ * Load the org's FULL ownership graph plus a summary of every party in
+ * it — the input analyzeCascade() needs. Shared by runCascadeForParty()
+ * and delta rescreening, which walks the graph from a newly-hit owner.
  */
-export async function runCascadeForParty(
-  partyId: string,
-  organizationId: string,
-  options?: { maxDepth?: number },
-): Promise<CascadeResultWithUbo | null> {
-  // Verify the party exists in the org (cheap existence check)
-  const target = await prisma.tradeParty.findFirst({
-    where: { id: partyId, organizationId },
-    select: { id: true },
-  });
-  if (!target) return null;
-
+export async function loadOwnershipGraph(organizationId: string): Promise<{
+  edges: OwnershipEdgeSummary[];
+  partySummaries: Map<string, AncestorSummary>;
+}> {
   // Load ALL ownership edges in the org. We include both directions
   // (owner + owned) because a target's ancestors might be owners of
   // other parties too — we want their full screening status.
@@ -156,6 +142,34 @@ export async function runCascadeForParty(
     });
   }
 
+  return { edges, partySummaries };
+}
+
+/**
+ * Run the 50%-rule cascade for a TradeParty within its organization.
+ *
+ * The org-scope check is the caller's responsibility: pass `partyId`
+ * only after verifying the user has access to the party. This server
+ * function trusts its inputs and only loads data within the partition
+ * defined by `organizationId`.
+ *
+ * Returns null if the party doesn't exist (caller decides whether
+ * that's a 404 or a clean "no result" UX).
+ */
+export async function runCascadeForParty(
+  partyId: string,
+  organizationId: string,
+  options?: { maxDepth?: number },
+): Promise<CascadeResultWithUbo | null> {
+  // Verify the party exists in the org (cheap existence check)
+  const target = await prisma.tradeParty.findFirst({
+    where: { id: partyId, organizationId },
+    select: { id: true },
+  });
+  if (!target) return null;
+
+  const { edges, partySummaries } = await loadOwnershipGraph(organizationId);
+
   const input: CascadeInput = {
     targetPartyId: partyId,
     edges,
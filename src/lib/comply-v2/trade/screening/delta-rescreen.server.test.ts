@@ -0,0 +1,451 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Tests for delta-rescreen.server.ts — screening only the added/changed
+ * entries of a new snapshot against parties, operation end users and
+ * ownership chains, and opening a triage item per new hit.
+ *
+ * Mocking strategy (follows screen-party.server.test.ts):
+ *   - `@/lib/prisma` is mocked; `$transaction` resolves the array of
+ *     mocked writes.
+ *   - `./cascade-50pct.server` is mocked to hand back a fixed ownership
+ *     graph; the pure cascade engine runs for real.
+ *   - The VSD post-hoc flip, email and logger are mocked out.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const {
+  mockPartyFindMany,
+  mockPartyUpdate,
+  mockOperationFindMany,
+  mockScreeningResultCreate,
+  mockTransaction,
+  mockScreeningConfigFindUnique,
+  mockOrgMemberFindMany,
+  mockNotificationCreateMany,
+  mockLoadOwnershipGraph,
+  mockRaiseVsd,
+} = vi.hoisted(() => ({
+  mockPartyFindMany: vi.fn(),
+  mockPartyUpdate: vi.fn(),
+  mockOperationFindMany: vi.fn(),
+  mockScreeningResultCreate: vi.fn(),
+  mockTransaction: vi.fn(),
+  mockScreeningConfigFindUnique: vi.fn(),
+  mockOrgMemberFindMany: vi.fn(),
+  mockNotificationCreateMany: vi.fn(),
+  mockLoadOwnershipGraph: vi.fn(),
+  mockRaiseVsd: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    tradeParty: { findMany: mockPartyFindMany, update: mockPartyUpdate },
+    tradeOperation: { findMany: mockOperationFindMany },
+    tradeScreeningResult: { create: mockScreeningResultCreate },
+    tradeScreeningConfig: { findUnique: mockScreeningConfigFindUnique },
+    organizationMember: { findMany: mockOrgMemberFindMany },
+    notification: { createMany: mockNotificationCreateMany },
+    $transaction: mockTransaction,
+  },
+}));
+
+vi.mock("./cascade-50pct.server", () => ({
+  loadOwnershipGraph: mockLoadOwnershipGraph,
+}));
+
+vi.mock("@/lib/trade/vsd-posthoc-flip.server", () => ({
+  raiseVsdForPostHocFlip: mockRaiseVsd,
+}));
+
+vi.mock("@/lib/email", () => ({ sendTradeSanctionsHit: vi.fn() }));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  dedupeDeltaHits,
+  isAlreadyOpen,
+  mergeDeltaHits,
+  ownedThrough,
+  rescreenSnapshotDelta,
+} from "./delta-rescreen.server";
+import type { AncestorSummary } from "./cascade-50pct";
+import type { PersistableHit } from "./screen-party.server";
+import type { CanonicalSanctionsEntry } from "./sources/types";
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-10-19T04:30:00.000Z");
+
+function entry(entryId: string, names: string[]): CanonicalSanctionsEntry {
+  return { entryId, names, addresses: [], identifiers: [], listMetadata: {} };
+}
+
+function party(
+  id: string,
+  legalName: string,
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    id,
+    organizationId: "org_1",
+    legalName,
+    canonicalName: legalName.toLowerCase(),
+    leiCode: null,
+    vatNumber: null,
+    ducnsNumber: null,
+    cageCode: null,
+    screeningStatus: "CLEAR",
+    screeningHits: null,
+    ...overrides,
+  };
+}
+
+function summary(id: string): AncestorSummary {
+  return {
+    id,
+    legalName: id,
+    countryCode: "DE",
+    screeningStatus: "CLEAR",
+    isBlocked: false,
+  };
+}
+
+function hit(list: string, entryId: string, score: number): PersistableHit {
+  return {
+    list: list as TradeSanctionsList,
+    entryId,
+    score,
+    matchedName: "x",
+    matchedFields: ["name"],
+  };
+}
+
+const NEW_LISTING = entry("99001", ["volkov aerospace"]);
+
+const DELTA = {
+  previousHash: "prev",
+  added: [NEW_LISTING],
+  changed: [],
+  removed: ["12"],
+};
+
+function run(delta = DELTA) {
+  return rescreenSnapshotDelta({
+    list: TradeSanctionsList.OFAC_SDN,
+    snapshotHash: "snap_new",
+    delta,
+    now: NOW,
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPartyFindMany.mockResolvedValue([]);
+  mockOperationFindMany.mockResolvedValue([]);
+  mockScreeningConfigFindUnique.mockResolvedValue(null);
+  mockOrgMemberFindMany.mockResolvedValue([]);
+  mockLoadOwnershipGraph.mockResolvedValue({
+    edges: [],
+    partySummaries: new Map(),
+  });
+  mockRaiseVsd.mockResolvedValue({
+    flipped: false,
+    vsdsCreated: [],
+    skippedExisting: 0,
+  });
+  mockScreeningResultCreate.mockImplementation(async ({ data }) => data);
+  mockPartyUpdate.mockImplementation(async ({ where, data }) => ({
+    id: where.id,
+    organizationId: "org_1",
+    canonicalName: where.id,
+    countryCode: "DE",
+    ...data,
+  }));
+  mockTransaction.mockImplementation(async (ops: Promise<unknown>[]) =>
+    Promise.all(ops),
+  );
+});
+
+// ─── Pure helpers ────────────────────────────────────────────────────────────
+
+describe("ownedThrough", () => {
+  const summaries = new Map(
+    ["A", "B", "C", "D", "E"].map((id) => [id, summary(id)]),
+  );
+
+  it("follows ownership down the chain and reports control without equity", () => {
+    const links = ownedThrough(
+      [
+        { ownerId: "A", ownedId: "B", percent: 0.6, controlType: "economic" },
+        { ownerId: "B", ownedId: "C", percent: 1, controlType: "economic" },
+        {
+          ownerId: "A",
+          ownedId: "D",
+          percent: 0,
+          controlType: "control_no_equity",
+        },
+        { ownerId: "E", ownedId: "B", percent: 0.4, controlType: "economic" },
+      ],
+      summaries,
+      new Set(["A"]),
+    );
+    expect(links).toEqual([
+      { partyId: "B", ownerId: "A", effectivePercent: 0.6 },
+      { partyId: "D", ownerId: "A" },
+      { partyId: "C", ownerId: "A", effectivePercent: 0.6 },
+    ]);
+  });
+
+  it("returns nothing for an owner without owned parties", () => {
+    expect(ownedThrough([], summaries, new Set(["A"]))).toEqual([]);
+  });
+});
+
+describe("dedupeDeltaHits", () => {
+  it("keeps the strongest hit per list entry", () => {
+    expect(
+      dedupeDeltaHits([
+        hit("OFAC_SDN", "1", 0.8),
+        hit("OFAC_SDN", "1", 0.9),
+        hit("OFAC_SDN", "2", 0.85),
+      ]).map((h) => [h.entryId, h.score]),
+    ).toEqual([
+      ["1", 0.9],
+      ["2", 0.85],
+    ]);
+  });
+});
+
+describe("isAlreadyOpen", () => {
+  const hits = [{ list: "OFAC_SDN", entryId: "1" }];
+
+  it("is true only for a flagged party that already carries the entry", () => {
+    expect(
+      isAlreadyOpen(
+        { screeningStatus: "POTENTIAL_MATCH", screeningHits: hits },
+        { list: "OFAC_SDN", entryId: "1" },
+      ),
+    ).toBe(true);
+    expect(
+      isAlreadyOpen(
+        { screeningStatus: "POTENTIAL_MATCH", screeningHits: hits },
+        { list: "OFAC_SDN", entryId: "2" },
+      ),
+    ).toBe(false);
+  });
+
+  it("re-opens an entry a CLEAR party was once dismissed against", () => {
+    expect(
+      isAlreadyOpen(
+        { screeningStatus: "CLEAR", screeningHits: hits },
+        { list: "OFAC_SDN", entryId: "1" },
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("mergeDeltaHits", () => {
+  it("puts delta hits first, replaces the same entry and caps at 10", () => {
+    const existing = Array.from({ length: 10 }, (_, i) =>
+      hit("EU_FSF", String(i), 0.8),
+    );
+    existing[0] = hit("OFAC_SDN", "1", 0.76);
+    const merged = mergeDeltaHits(existing as never, [
+      hit("OFAC_SDN", "1", 0.95),
+    ]);
+    expect(merged).toHaveLength(10);
+    expect(merged[0]).toMatchObject({ entryId: "1", score: 0.95 });
+    expect(
+      merged.filter((h) => h.list === "OFAC_SDN" && h.entryId === "1"),
+    ).toHaveLength(1);
+  });
+
+  it("tolerates an empty column", () => {
+    expect(mergeDeltaHits(null, [hit("OFAC_SDN", "1", 0.9)])).toHaveLength(1);
+  });
+});
+
+// ─── rescreenSnapshotDelta ───────────────────────────────────────────────────
+
+describe("rescreenSnapshotDelta", () => {
+  it("does nothing for a delta without added or changed entries", async () => {
+    const result = await run({ ...DELTA, added: [] });
+    expect(result.entriesScreened).toBe(0);
+    expect(mockPartyFindMany).not.toHaveBeenCalled();
+  });
+
+  it("opens a triage item naming the added entry on a cleared party", async () => {
+    mockPartyFindMany.mockResolvedValue([
+      party("p_hit", "Volkov Aerospace"),
+      party("p_clean", "Musterfirma Optik"),
+    ]);
+
+    const result = await run();
+
+    expect(result).toMatchObject({
+      entriesScreened: 1,
+      partiesScreened: 2,
+      flaggedParties: 1,
+      newHits: 1,
+    });
+    expect(mockScreeningResultCreate).toHaveBeenCalledTimes(1);
+    const { data } = mockScreeningResultCreate.mock.calls[0][0];
+    expect(data.partyId).toBe("p_hit");
+    expect(data.decision).toBe("POTENTIAL_MATCH");
+    expect(data.snapshotHash).toBe("snap_new");
+    expect(data.hits[0]).toMatchObject({
+      list: "OFAC_SDN",
+      entryId: "99001",
+      legalName: "volkov aerospace",
+      delta: {
+        change: "ADDED",
+        snapshotHash: "snap_new",
+        detectedAt: NOW.toISOString(),
+        subject: "PARTY",
+      },
+    });
+    expect(mockPartyUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "p_hit" },
+        data: expect.objectContaining({ screeningStatus: "POTENTIAL_MATCH" }),
+      }),
+    );
+    expect(mockRaiseVsd).toHaveBeenCalledWith(
+      {
+        partyId: "p_hit",
+        priorStatus: "CLEAR",
+        newDecision: "POTENTIAL_MATCH",
+        organizationId: "org_1",
+      },
+      NOW,
+    );
+  });
+
+  it("matches a Cyrillic party name against the Latin listing", async () => {
+    mockPartyFindMany.mockResolvedValue([party("p_cyr", "Волков Аэроспейс")]);
+    const result = await run();
+    expect(result.flaggedParties).toBe(1);
+  });
+
+  it("attributes an end-user hit to the operation's counterparty", async () => {
+    mockPartyFindMany.mockResolvedValue([party("p_buyer", "Nordic Parts AB")]);
+    mockOperationFindMany.mockResolvedValue([
+      {
+        id: "op_1",
+        organizationId: "org_1",
+        reference: "OP-2026-014",
+        endUserName: "Volkov Aerospace",
+        counterpartyId: "p_buyer",
+      },
+    ]);
+
+    const result = await run();
+
+    expect(result.endUsersScreened).toBe(1);
+    const { data } = mockScreeningResultCreate.mock.calls[0][0];
+    expect(data.partyId).toBe("p_buyer");
+    expect(data.hits[0].delta).toMatchObject({
+      subject: "END_USER",
+      subjectName: "Volkov Aerospace",
+      operationRef: "OP-2026-014",
+    });
+  });
+
+  it("carries an owner's new hit down its ownership chain", async () => {
+    mockPartyFindMany.mockResolvedValue([
+      party("p_owner", "Volkov Aerospace"),
+      party("p_sub", "Baltic Components OU"),
+    ]);
+    mockLoadOwnershipGraph.mockResolvedValue({
+      edges: [
+        {
+          ownerId: "p_owner",
+          ownedId: "p_sub",
+          percent: 0.3,
+          controlType: "economic",
+        },
+      ],
+      partySummaries: new Map([
+        ["p_owner", summary("p_owner")],
+        ["p_sub", summary("p_sub")],
+      ]),
+    });
+
+    const result = await run();
+
+    expect(result.flaggedParties).toBe(2);
+    expect(mockLoadOwnershipGraph).toHaveBeenCalledWith("org_1");
+    const sub = mockScreeningResultCreate.mock.calls
+      .map((c) => c[0].data)
+      .find((d) => d.partyId === "p_sub");
+    expect(sub.hits[0].delta).toMatchObject({
+      subject: "OWNER",
+      subjectName: "Volkov Aerospace",
+      effectivePercent: 0.3,
+    });
+  });
+
+  it("leaves an already-open item alone and never downgrades CONFIRMED_HIT", async () => {
+    mockPartyFindMany.mockResolvedValue([
+      party("p_open", "Volkov Aerospace", {
+        screeningStatus: "POTENTIAL_MATCH",
+        screeningHits: [{ list: "OFAC_SDN", entryId: "99001", score: 0.9 }],
+      }),
+      party("p_confirmed", "Volkov Aerospace", {
+        screeningStatus: "CONFIRMED_HIT",
+        screeningHits: [{ list: "EU_FSF", entryId: "EU.1", score: 1 }],
+      }),
+    ]);
+
+    const result = await run();
+
+    expect(result.flaggedParties).toBe(1);
+    expect(mockPartyUpdate).toHaveBeenCalledTimes(1);
+    expect(mockPartyUpdate.mock.calls[0][0]).toMatchObject({
+      where: { id: "p_confirmed" },
+      data: { screeningStatus: "CONFIRMED_HIT" },
+    });
+    // Already flagged: no new in-app notification.
+    expect(mockOrgMemberFindMany).not.toHaveBeenCalled();
+  });
+
+  it("skips orgs that disabled the changed list", async () => {
+    mockScreeningConfigFindUnique.mockResolvedValue({
+      organizationId: "org_1",
+      enabledLists: ["BIS_ENTITY"],
+    });
+    mockPartyFindMany.mockResolvedValue([party("p_hit", "Volkov Aerospace")]);
+
+    const result = await rescreenSnapshotDelta({
+      list: TradeSanctionsList.JP_METI_EUL,
+      snapshotHash: "snap_new",
+      delta: DELTA,
+      now: NOW,
+    });
+
+    expect(result.partiesScreened).toBe(0);
+    expect(mockScreeningResultCreate).not.toHaveBeenCalled();
+  });
+
+  it("counts a failed write and carries on with the next party", async () => {
+    mockPartyFindMany.mockResolvedValue([
+      party("p_a", "Volkov Aerospace"),
+      party("p_b", "Volkov Aerospace"),
+    ]);
+    mockTransaction.mockRejectedValueOnce(new Error("deadlock"));
+
+    const result = await run();
+
+    expect(result.failed).toBe(1);
+    expect(result.flaggedParties).toBe(1);
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Delta rescreening: when a sanctions list changes, screen ONLY the
+ * entries that were added or changed against everything we store —
+ * every active TradeParty, the end users named on operations, and the
+ * ownership chains below a newly-hit beneficial owner.
+ *
+ * The full re-screen cron (trade-rescreen-stale) works on a 30-day
+ * window, so a party cleared yesterday would meet a listing published
+ * today only weeks later. upsertSnapshot() diffs every new snapshot
+ * against the list's previous one; the sync cron hands that delta here
+ * in the same run.
+ *
+ * A new hit never clears anything — it opens a triage item: the party
+ * moves to POTENTIAL_MATCH (CONFIRMED_HIT stays), an insert-only
+ * TradeScreeningResult records the delta hits, and every hit carries a
+ * `delta` reference naming the exact list entry that changed, which the
+ * screening triage queue (screening-triage.ts) shows as its reason.
+ *
+ * How a hit reaches a party (TriageDeltaSubject):
+ *   PARTY    — the party's own name or identifiers match the entry
+ *   END_USER — an operation's free-text end user matches; the item opens
+ *              on the operation's counterparty, the party the operator
+ *              resolves
+ *   OWNER    — a party newly matched by the delta owns or controls this
+ *              one (cascade-50pct). Any share counts: screenParty()
+ *              escalates on any sanctioned ancestor, not only ≥ 50%.
+ *
+ * Removed entries are not rescreened: a delisting can only drop hits,
+ * and open triage items stay with the human who resolves them.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import "server-only";
+
+import {
+  Prisma,
+  TradeScreeningDecision,
+  TradeScreeningStatus,
+  type TradeParty,
+  type TradeSanctionsList,
+} from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { getEffectiveScreeningConfig } from "@/lib/trade/settings/screening-config-service";
+import type { ScreeningConfig } from "@/lib/trade/settings/screening-config";
+import { raiseVsdForPostHocFlip } from "@/lib/trade/vsd-posthoc-flip.server";
+import type {
+  TriageDeltaRef,
+  TriageDeltaSubject,
+} from "@/lib/trade/screening-triage";
+import {
+  analyzeCascade,
+  type AncestorSummary,
+  type OwnershipEdgeSummary,
+} from "./cascade-50pct";
+import { loadOwnershipGraph } from "./cascade-50pct.server";
+import { matchByIdentifier, screenAgainstEntries } from "./fuzzy-match";
+import {
+  createSanctionsHitNotifications,
+  enrichHit,
+  partyIdentifiers,
+  type PersistableHit,
+} from "./screen-party.server";
+import type { SnapshotDelta } from "./snapshot-store.server";
+import {
+  canonicalizeName,
+  type CanonicalSanctionsEntry,
+} from "./sources/types";
+import { nameVariants } from "./transliteration";
+
+/** Same cap screenParty() applies to TradeParty.screeningHits. */
+const PARTY_HITS_CAP = 10;
+
+export interface DeltaRescreenInput {
+  list: TradeSanctionsList;
+  /** Hash of the snapshot that introduced the delta. */
+  snapshotHash: string;
+  delta: SnapshotDelta;
+  /** Injected for deterministic tests. */
+  now?: Date;
+}
+
+export interface DeltaRescreenResult {
+  list: TradeSanctionsList;
+  /** Added + changed entries screened. */
+  entriesScreened: number;
+  partiesScreened: number;
+  endUsersScreened: number;
+  /** Parties that received a new triage item. */
+  flaggedParties: number;
+  /** Hits written across all flagged parties. */
+  newHits: number;
+  /** Parties whose write failed (logged, the rest of the run continues). */
+  failed: number;
+  postHocVsdsRaised: number;
+}
+
+/** Something screenable: a party, or an end user named on an operation. */
+interface DeltaSubject {
+  legalName: string;
+  canonicalName: string;
+  identifiers: { type: string; value: string }[];
+}
+
+/** A party reached through the ownership graph from a newly-hit owner. */
+export interface OwnedLink {
+  partyId: string;
+  ownerId: string;
+  /** Effective equity share; undefined for control without equity. */
+  effectivePercent?: number;
+}
+
+/**
+ * Screen one subject against the delta entries: identifier pre-check
+ * first, then name matching for entries the identifiers didn't catch —
+ * the same two passes screenParty() runs per list. Pure.
+ */
+export function screenSubjectAgainstDelta(
+  subject: DeltaSubject,
+  entries: readonly CanonicalSanctionsEntry[],
+  list: TradeSanctionsList,
+  threshold: number,
+): PersistableHit[] {
+  const hits: PersistableHit[] = [];
+  const identifierHitIds = new Set<string>();
+  if (subject.identifiers.length > 0) {
+    for (const entry of entries) {
+      const idHit = matchByIdentifier(subject.identifiers, entry);
+      if (idHit) {
+        hits.push(enrichHit(idHit, entry, list));
+        identifierHitIds.add(entry.entryId);
+      }
+    }
+  }
+
+  const entryById = new Map(entries.map((e) => [e.entryId, e]));
+  const nameHits = screenAgainstEntries(
+    subject.canonicalName,
+    [...entries],
+    threshold,
+    nameVariants(subject.legalName),
+  );
+  for (const hit of nameHits) {
+    if (identifierHitIds.has(hit.entryId)) continue;
+    const entry = entryById.get(hit.entryId);
+    hits.push(entry ? enrichHit(hit, entry, list) : { ...hit, list });
+  }
+  return hits;
+}
+
+/**
+ * Every party owned or controlled — directly or down the chain — by one
+ * of `ownerIds`, with the owner's effective share from analyzeCascade().
+ * Direct control-without-equity edges are reported without a share. Pure.
+ */
+export function ownedThrough(
+  edges: readonly OwnershipEdgeSummary[],
+  partySummaries: Map<string, AncestorSummary>,
+  ownerIds: ReadonlySet<string>,
+): OwnedLink[] {
+  // Downward adjacency over every edge type — candidates only; the
+  // cascade engine decides which ones the owner actually reaches.
+  const down = new Map<string, string[]>();
+  for (const e of edges) {
+    const bucket = down.get(e.ownerId) ?? [];
+    bucket.push(e.ownedId);
+    down.set(e.ownerId, bucket);
+  }
+  const candidates = new Set<string>();
+  const queue = [...ownerIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const child of down.get(id) ?? []) {
+      if (candidates.has(child)) continue;
+      candidates.add(child);
+      queue.push(child);
+    }
+  }
+
+  const links: OwnedLink[] = [];
+  for (const partyId of candidates) {
+    const cascade = analyzeCascade({
+      targetPartyId: partyId,
+      edges: [...edges],
+      partySummaries,
+    });
+    const seen = new Set<string>();
+    for (const a of cascade.ancestors) {
+      if (a.ancestorId === partyId || !ownerIds.has(a.ancestorId)) continue;
+      links.push({
+        partyId,
+        ownerId: a.ancestorId,
+        effectivePercent: a.effectivePercent,
+      });
+      seen.add(a.ancestorId);
+    }
+    for (const e of edges) {
+      if (
+        e.ownedId === partyId &&
+        e.controlType === "control_no_equity" &&
+        ownerIds.has(e.ownerId) &&
+        !seen.has(e.ownerId)
+      ) {
+        links.push({ partyId, ownerId: e.ownerId });
+        seen.add(e.ownerId);
+      }
+    }
+  }
+  return links;
+}
+
+function hitKey(hit: { list: string; entryId: string }): string {
+  return `${hit.list}:${hit.entryId}`;
+}
+
+/**
+ * Keep the strongest hit per list entry (a party can reach the same
+ * entry by name, via an end user and via an owner). Stable on ties, so
+ * the first subject recorded — the party itself — wins.
+ */
+export function dedupeDeltaHits(hits: PersistableHit[]): PersistableHit[] {
+  const best = new Map<string, PersistableHit>();
+  for (const hit of hits) {
+    const prior = best.get(hitKey(hit));
+    if (!prior || hit.score > prior.score) best.set(hitKey(hit), hit);
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * A hit is NOT new when the party is already flagged and its current
+ * hits carry the same list entry — the item is open (or decided)
+ * already. A CLEAR party always gets the item, even for an entry it was
+ * once dismissed against: the entry changed, so the dismissal is moot.
+ */
+export function isAlreadyOpen(
+  party: Pick<TradeParty, "screeningStatus" | "screeningHits">,
+  hit: { list: string; entryId: string },
+): boolean {
+  if (
+    party.screeningStatus !== TradeScreeningStatus.POTENTIAL_MATCH &&
+    party.screeningStatus !== TradeScreeningStatus.CONFIRMED_HIT
+  ) {
+    return false;
+  }
+  const existing = Array.isArray(party.screeningHits)
+    ? (party.screeningHits as Array<{ list?: string; entryId?: string }>)
+    : [];
+  return existing.some((h) => h.list === hit.list && h.entryId === hit.entryId);
+}
+
+/**
+ * New denormalized top-N: delta hits first (they are what the triage
+ * item is about), then the party's existing hits for other entries.
+ */
+export function mergeDeltaHits(
+  existing: Prisma.JsonValue | null,
+  fresh: PersistableHit[],
+): PersistableHit[] {
+  const freshKeys = new Set(fresh.map(hitKey));
+  const kept = (Array.isArray(existing) ? existing : []).filter(
+    (h) =>
+      !!h &&
+      typeof h === "object" &&
+      !freshKeys.has(hitKey(h as { list: string; entryId: string })),
+  ) as unknown as PersistableHit[];
+  return [...fresh, ...kept].slice(0, PARTY_HITS_CAP);
+}
+
+/**
+ * Screen the added + changed entries of one list against every active
+ * party, every operation end user and the ownership chains below newly-
+ * hit parties, and open a triage item for each party with a new hit.
+ * Best-effort per party: a failed write is logged and counted.
+ */
+export async function rescreenSnapshotDelta(
+  input: DeltaRescreenInput,
+): Promise<DeltaRescreenResult> {
+  const { list, snapshotHash, delta } = input;
+  const now = input.now ?? new Date();
+  const entries = [...delta.added, ...delta.changed];
+  const result: DeltaRescreenResult = {
+    list,
+    entriesScreened: entries.length,
+    partiesScreened: 0,
+    endUsersScreened: 0,
+    flaggedParties: 0,
+    newHits: 0,
+    failed: 0,
+    postHocVsdsRaised: 0,
+  };
+  if (entries.length === 0) return result;
+
+  const changeOf = new Map<string, TriageDeltaRef["change"]>();
+  for (const e of delta.added) changeOf.set(e.entryId, "ADDED");
+  for (const e of delta.changed) changeOf.set(e.entryId, "CHANGED");
+  const tag = (
+    hit: PersistableHit,
+    subject: TriageDeltaSubject,
+    extra: Partial<TriageDeltaRef> = {},
+  ): PersistableHit => ({
+    ...hit,
+    delta: {
+      change: changeOf.get(hit.entryId) ?? "CHANGED",
+      snapshotHash,
+      detectedAt: now.toISOString(),
+      subject,
+      ...extra,
+    },
+  });
+
+  // Per-org config: the org's threshold, and whether it screens this list.
+  const configs = new Map<string, ScreeningConfig | null>();
+  const configFor = async (organizationId: string) => {
+    if (!configs.has(organizationId)) {
+      const cfg = await getEffectiveScreeningConfig(organizationId);
+      configs.set(
+        organizationId,
+        (cfg.enabledLists as TradeSanctionsList[]).includes(list) ? cfg : null,
+      );
+    }
+    return configs.get(organizationId) ?? null;
+  };
+
+  const parties = await prisma.tradeParty.findMany({
+    where: { status: "ACTIVE" },
+    select: {
+      id: true,
+      organizationId: true,
+      legalName: true,
+      canonicalName: true,
+      leiCode: true,
+      vatNumber: true,
+      ducnsNumber: true,
+      cageCode: true,
+      screeningStatus: true,
+      screeningHits: true,
+    },
+  });
+  const partyById = new Map(parties.map((p) => [p.id, p]));
+  const hitsByParty = new Map<string, PersistableHit[]>();
+  const record = (partyId: string, hit: PersistableHit) => {
+    const bucket = hitsByParty.get(partyId) ?? [];
+    bucket.push(hit);
+    hitsByParty.set(partyId, bucket);
+  };
+
+  // ── Parties ──
+  for (const party of parties) {
+    const cfg = await configFor(party.organizationId);
+    if (!cfg) continue;
+    result.partiesScreened++;
+    const subject: DeltaSubject = {
+      legalName: party.legalName,
+      canonicalName: party.canonicalName,
+      identifiers: partyIdentifiers(party),
+    };
+    for (const hit of screenSubjectAgainstDelta(
+      subject,
+      entries,
+      list,
+      cfg.matchThreshold,
+    )) {
+      record(party.id, tag(hit, "PARTY"));
+    }
+  }
+
+  // ── End users ──
+  const operations = await prisma.tradeOperation.findMany({
+    where: { endUserName: { not: null }, counterparty: { status: "ACTIVE" } },
+    select: {
+      id: true,
+      organizationId: true,
+      reference: true,
+      endUserName: true,
+      counterpartyId: true,
+    },
+  });
+  for (const op of operations) {
+    const endUser = op.endUserName?.trim();
+    if (!endUser || !partyById.has(op.counterpartyId)) continue;
+    const cfg = await configFor(op.organizationId);
+    if (!cfg) continue;
+    result.endUsersScreened++;
+    const subject: DeltaSubject = {
+      legalName: endUser,
+      canonicalName: canonicalizeName(endUser),
+      identifiers: [],
+    };
+    for (const hit of screenSubjectAgainstDelta(
+      subject,
+      entries,
+      list,
+      cfg.matchThreshold,
+    )) {
+      record(
+        op.counterpartyId,
+        tag(hit, "END_USER", {
+          subjectName: endUser,
+          operationRef: op.reference,
+        }),
+      );
+    }
+  }
+
+  // ── Ownership chains below parties the delta hit directly ──
+  const ownersByOrg = new Map<string, Set<string>>();
+  for (const [partyId, hits] of hitsByParty) {
+    if (!hits.some((h) => h.delta?.subject === "PARTY")) continue;
+    const orgId = partyById.get(partyId)!.organizationId;
+    const owners = ownersByOrg.get(orgId) ?? new Set<string>();
+    owners.add(partyId);
+    ownersByOrg.set(orgId, owners);
+  }
+  for (const [orgId, ownerIds] of ownersByOrg) {
+    const { edges, partySummaries } = await loadOwnershipGraph(orgId);
+    for (const link of ownedThrough(edges, partySummaries, ownerIds)) {
+      if (!partyById.has(link.partyId)) continue;
+      const ownerHits = (hitsByParty.get(link.ownerId) ?? []).filter(
+        (h) => h.delta?.subject === "PARTY",
+      );
+      for (const hit of ownerHits) {
+        record(
+          link.partyId,
+          tag(hit, "OWNER", {
+            subjectName: partyById.get(link.ownerId)!.legalName,
+            effectivePercent: link.effectivePercent,
+          }),
+        );
+      }
+    }
+  }
+
+  // ── Open triage items ──
+  for (const [partyId, rawHits] of hitsByParty) {
+    const party = partyById.get(partyId)!;
+    const hits = dedupeDeltaHits(rawHits).filter(
+      (h) => !isAlreadyOpen(party, h),
+    );
+    if (hits.length === 0) continue;
+
+    const priorStatus = party.screeningStatus;
+    const wasAlreadyFlagged =
+      priorStatus === TradeScreeningStatus.POTENTIAL_MATCH ||
+      priorStatus === TradeScreeningStatus.CONFIRMED_HIT;
+    try {
+      const [, updatedParty] = await prisma.$transaction([
+        prisma.tradeScreeningResult.create({
+          data: {
+            partyId,
+            hits: hits as unknown as Prisma.InputJsonValue,
+            decision: TradeScreeningDecision.POTENTIAL_MATCH,
+            snapshotHash,
+            notes: `Delta rescreen: ${list} changed (${delta.added.length} added, ${delta.changed.length} changed). Only the changed entries were screened.`,
+          },
+        }),
+        prisma.tradeParty.update({
+          where: { id: partyId },
+          data: {
+            // Never downgrade a confirmed hit; everything else needs review.
+            screeningStatus:
+              priorStatus === TradeScreeningStatus.CONFIRMED_HIT
+                ? TradeScreeningStatus.CONFIRMED_HIT
+                : TradeScreeningStatus.POTENTIAL_MATCH,
+            screeningHits: mergeDeltaHits(
+              party.screeningHits,
+              hits,
+            ) as unknown as Prisma.InputJsonValue,
+          },
+        }),
+      ]);
+      result.flaggedParties++;
+      result.newHits += hits.length;
+
+      if (!wasAlreadyFlagged) {
+        try {
+          await createSanctionsHitNotifications(updatedParty, hits, null);
+        } catch (err) {
+          logger.error(
+            "rescreenSnapshotDelta: in-app notification failed (triage item persisted)",
+            err,
+            { partyId },
+          );
+        }
+      }
+      try {
+        const flip = await raiseVsdForPostHocFlip(
+          {
+            partyId,
+            priorStatus,
+            newDecision: TradeScreeningDecision.POTENTIAL_MATCH,
+            organizationId: party.organizationId,
+          },
+          now,
+        );
+        result.postHocVsdsRaised += flip.vsdsCreated.length;
+      } catch (err) {
+        logger.error(
+          "rescreenSnapshotDelta: post-hoc VSD flip detection failed (triage item persisted)",
+          err,
+          { partyId },
+        );
+      }
+    } catch (err) {
+      result.failed++;
+      logger.error("rescreenSnapshotDelta: opening triage item failed", err, {
+        partyId,
+        list,
+      });
+    }
+  }
+
+  logger.info("rescreenSnapshotDelta: completed", { ...result });
+  return result;
+}
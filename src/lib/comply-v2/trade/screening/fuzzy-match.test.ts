@@ -22,8 +22,10 @@ import {
   SCORE_CONFIRMED_HIT,
   SCORE_POTENTIAL_MATCH,
   SCORE_WEAK_MATCH,
+  PHONETIC_WEIGHT,
 } from "./fuzzy-match";
 import { canonicalizeName } from "./sources/types";
+import { nameVariants } from "./transliteration";
 import type { CanonicalSanctionsEntry } from "./sources/types";
 
 describe("commonPrefixLength", () => {
@@ -457,3 +459,114 @@ describe("screenAgainstEntries", () => {
     }
   });
 });
+
+describe("scoreEntry — transliteration-aware matching", () => {
+  function entry(...names: string[]): CanonicalSanctionsEntry {
+    return {
+      entryId: "T1",
+      names,
+      addresses: [],
+      identifiers: [],
+      listMetadata: {},
+    };
+  }
+
+  it("a Cyrillic query without variants does not reach the weak threshold", () => {
+    const hit = scoreEntry("сергей иванов", entry("sergey ivanov"));
+    expect(hit!.score).toBeLessThan(SCORE_WEAK_MATCH);
+  });
+
+  it("matches a Cyrillic query via its BGN/PCGN variant and reports it", () => {
+    const raw = "Сергей Иванов";
+    const hit = scoreEntry(
+      canonicalizeName(raw),
+      entry("sergey ivanov"),
+      nameVariants(raw),
+    );
+    expect(hit!.score).toBe(1);
+    expect(hit!.variant).toEqual({
+      scheme: "bgn-pcgn",
+      queryForm: "sergey ivanov",
+      listedForm: "sergey ivanov",
+    });
+  });
+
+  it("matches a Han-script query via Pinyin", () => {
+    const raw = "王小明";
+    const hit = scoreEntry(
+      canonicalizeName(raw),
+      entry("wang xiaoming"),
+      nameVariants(raw),
+    );
+    expect(hit!.score).toBe(1);
+    expect(hit!.variant?.scheme).toBe("pinyin");
+  });
+
+  it("transliterates a non-Latin LISTED name for a Latin query", () => {
+    const hit = scoreEntry("sergey ivanov", entry("сергей иванов"));
+    expect(hit!.score).toBe(1);
+    expect(hit!.matchedName).toBe("сергей иванов");
+    expect(hit!.variant?.scheme).toBe("bgn-pcgn");
+  });
+
+  it("folds known alias spellings on both sides", () => {
+    const hit = scoreEntry(
+      "mohamed hussain",
+      entry("muhammad husayn"),
+      nameVariants("Mohamed Hussain"),
+    );
+    expect(hit!.score).toBe(1);
+    expect(hit!.variant?.scheme).toBe("alias");
+  });
+
+  it("caps a purely phonetic match below CONFIRMED_HIT", () => {
+    const raw = "محمد حسين";
+    const hit = scoreEntry(
+      canonicalizeName(raw),
+      entry("mohammed hussein"),
+      nameVariants(raw),
+    );
+    expect(hit!.score).toBeCloseTo(PHONETIC_WEIGHT, 5);
+    expect(hit!.score).toBeLessThan(SCORE_CONFIRMED_HIT);
+    expect(hit!.variant?.scheme).toBe("phonetic");
+  });
+
+  it("reports no variant when the direct comparison wins", () => {
+    const hit = scoreEntry(
+      "sergey ivanov",
+      entry("sergey ivanov"),
+      nameVariants("Sergey Ivanov"),
+    );
+    expect(hit!.score).toBe(1);
+    expect(hit!.variant).toBeUndefined();
+  });
+
+  it("does not score short phonetic keys (collision guard)", () => {
+    // "adani" / "adnan" share the skeleton "adn" — too short to count.
+    const hit = scoreEntry("adani", entry("adnan"));
+    expect(hit!.variant).toBeUndefined();
+  });
+});
+
+describe("screenAgainstEntries — variants", () => {
+  it("finds a Russian counterparty listed in Latin script", () => {
+    const raw = "Евгений Пригожин";
+    const hits = screenAgainstEntries(
+      canonicalizeName(raw),
+      [
+        {
+          entryId: "P1",
+          names: ["yevgeniy viktorovich prigozhin", "evgeny prigozhin"],
+          addresses: [],
+          identifiers: [],
+          listMetadata: {},
+        },
+      ],
+      SCORE_POTENTIAL_MATCH,
+      nameVariants(raw),
+    );
+    expect(hits).toHaveLength(1);
+    expect(hits[0].score).toBe(1);
+    expect(hits[0].variant).toBeDefined();
+  });
+});
@@ -20,6 +20,11 @@
  *   - Levenshtein over-penalizes prefix variations and would miss
  *     these critical cases.
  *
+ * Non-Latin names: scoreEntry() also scores transliterated, alias-folded
+ * and phonetic forms of the query (see transliteration.ts), and records
+ * on the hit which variant produced the winning score so the reviewer
+ * can see WHY "Сергей Иванов" matched "SERGEY IVANOV".
+ *
  * Industry score thresholds (from FATF/Wolfsberg guidance):
  *   ≥ 0.95  CONFIRMED_HIT — block, escalate
  *   ≥ 0.85  POTENTIAL_MATCH — human review required
@@ -31,6 +36,14 @@
 
 import type { CanonicalSanctionsEntry } from "./sources/types";
 import { tokenSetRatio } from "./token-set";
+import {
+  aliasKey,
+  hasTransliterableScript,
+  nameVariants,
+  phoneticKey,
+  type NameVariant,
+  type NameVariantScheme,
+} from "./transliteration";
 
 // ─── Score thresholds (exported for use across screening engine) ───
 
@@ -38,6 +51,16 @@ export const SCORE_CONFIRMED_HIT = 0.95;
 export const SCORE_POTENTIAL_MATCH = 0.85;
 export const SCORE_WEAK_MATCH = 0.75;
 
+/**
+ * Phonetic-key agreement is scaled by this factor. Two different names
+ * can share a consonant skeleton, so a purely phonetic match tops out
+ * at POTENTIAL_MATCH (human review) and never reaches CONFIRMED_HIT.
+ */
+export const PHONETIC_WEIGHT = 0.9;
+
+/** Phonetic keys shorter than this (spaces excluded) are too collision-prone to score. */
+const MIN_PHONETIC_KEY_LENGTH = 4;
+
 /**
  * Standard Jaro similarity between two strings.
  *
@@ -148,6 +171,21 @@ export interface FuzzyHit {
   score: number;
   /** Field(s) that contributed: "name" always; identifiers/address in future. */
   matchedFields: string[];
+  /**
+   * Set when the winning score came from a rewritten form rather than the
+   * plain canonical names (transliteration, alias folding, phonetic key).
+   * Absent for a direct match and for identifier hits.
+   */
+  variant?: MatchVariant;
+}
+
+/** Which name rewrite produced a hit's score. */
+export interface MatchVariant {
+  scheme: NameVariantScheme | "phonetic";
+  /** The query form that was compared (e.g. "sergey ivanov"). */
+  queryForm: string;
+  /** The listed-name form it was compared against. */
+  listedForm: string;
 }
 
 // ─── Identifier normalisation ────────────────────────────────────────
@@ -235,28 +273,94 @@ export function matchByIdentifier(
   return null;
 }
 
-/**
- * Score a single canonicalized query name against ALL names of one
- * sanctions entry (primary + AKAs). Returns the best score.
- *
- * Pure function. Caller decides whether the score is above threshold.
- */
-export function scoreEntry(
+// ─── Name scoring ────────────────────────────────────────────────────
+
+interface NameForm {
+  text: string;
+  /** Undefined for the plain canonical form. */
+  scheme?: NameVariantScheme;
+}
+
+/** A query prepared once per screen: all its forms + their phonetic keys. */
+interface PreparedQuery {
+  forms: NameForm[];
+  phonetic: Array<{ form: NameForm; key: string }>;
+}
+
+function prepareQuery(
   queryCanonical: string,
+  variants: NameVariant[],
+): PreparedQuery {
+  const forms: NameForm[] = [{ text: queryCanonical }, ...variants];
+  const phonetic = forms
+    .map((form) => ({ form, key: phoneticKey(form.text) }))
+    .filter((p) => p.key.replace(/ /g, "").length >= MIN_PHONETIC_KEY_LENGTH);
+  return { forms, phonetic };
+}
+
+/** The listed name plus its transliterations (non-Latin) and alias fold. */
+function listedForms(name: string): NameForm[] {
+  const forms: NameForm[] = [{ text: name }];
+  if (hasTransliterableScript(name)) {
+    forms.push(...nameVariants(name));
+  } else {
+    const folded = aliasKey(name);
+    if (folded !== name) forms.push({ text: folded, scheme: "alias" });
+  }
+  return forms;
+}
+
+function nameSimilarity(a: string, b: string): number {
+  return Math.max(jaroWinkler(a, b), tokenSetRatio(a, b));
+}
+
+function scorePrepared(
+  query: PreparedQuery,
   entry: CanonicalSanctionsEntry,
 ): FuzzyHit | null {
-  if (!queryCanonical || entry.names.length === 0) return null;
+  if (!query.forms[0]?.text || entry.names.length === 0) return null;
 
   let bestScore = 0;
   let bestName = entry.names[0];
-  for (const name of entry.names) {
-    const s = Math.max(
-      jaroWinkler(queryCanonical, name),
-      tokenSetRatio(queryCanonical, name),
-    );
-    if (s > bestScore) {
-      bestScore = s;
+  let bestVariant: MatchVariant | undefined;
+  // Strictly-greater replacement: the plain comparison is evaluated first,
+  // so a rewrite is only credited when it actually beats the direct score.
+  const consider = (score: number, name: string, variant?: MatchVariant) => {
+    if (score > bestScore) {
+      bestScore = score;
       bestName = name;
+      bestVariant = variant;
+    }
+  };
+
+  for (const name of entry.names) {
+    const listed = listedForms(name);
+    for (const q of query.forms) {
+      for (const l of listed) {
+        const scheme = q.scheme ?? l.scheme;
+        consider(
+          nameSimilarity(q.text, l.text),
+          name,
+          scheme
+            ? { scheme, queryForm: q.text, listedForm: l.text }
+            : undefined,
+        );
+      }
+    }
+
+    if (query.phonetic.length === 0) continue;
+    for (const l of listed) {
+      const listedKey = phoneticKey(l.text);
+      if (listedKey.replace(/ /g, "").length < MIN_PHONETIC_KEY_LENGTH) {
+        continue;
+      }
+      for (const p of query.phonetic) {
+        consider(PHONETIC_WEIGHT * nameSimilarity(p.key, listedKey), name, {
+          scheme: "phonetic",
+          queryForm: p.form.text,
+          listedForm: l.text,
+        });
+      }
     }
   }
 
@@ -265,16 +369,37 @@ export function scoreEntry(
     matchedName: bestName,
     score: bestScore,
     matchedFields: ["name"],
+    ...(bestVariant ? { variant: bestVariant } : {}),
   };
 }
 
+/**
+ * Score a single canonicalized query name against ALL names of one
+ * sanctions entry (primary + AKAs). Returns the best score.
+ *
+ * `variants` are extra query forms from nameVariants() — pass them for
+ * a non-Latin or alias-bearing query. Phonetic keys of the query and
+ * its variants are always scored (weighted by PHONETIC_WEIGHT).
+ *
+ * Pure function. Caller decides whether the score is above threshold.
+ */
+export function scoreEntry(
+  queryCanonical: string,
+  entry: CanonicalSanctionsEntry,
+  variants: NameVariant[] = [],
+): FuzzyHit | null {
+  if (!queryCanonical) return null;
+  return scorePrepared(prepareQuery(queryCanonical, variants), entry);
+}
+
 /**
  * Screen one query (canonicalized name) against an entire list of
  * sanctions entries. Returns hits at or above `threshold`, sorted
  * descending by score.
  *
  * Default threshold = SCORE_WEAK_MATCH (0.75). Caller can pass
- * SCORE_POTENTIAL_MATCH (0.85) to filter more strictly.
+ * SCORE_POTENTIAL_MATCH (0.85) to filter more strictly. `variants`
+ * as for scoreEntry(); computed once by the caller, not per entry.
  *
  * Linear scan — fine for ~15K entries (OFAC + BIS + DDTC combined).
  * If we ever reach >100K entries we'd add a candidate-prefilter step
@@ -284,10 +409,13 @@ export function screenAgainstEntries(
   queryCanonical: string,
   entries: CanonicalSanctionsEntry[],
   threshold: number = SCORE_WEAK_MATCH,
+  variants: NameVariant[] = [],
 ): FuzzyHit[] {
+  if (!queryCanonical) return [];
+  const query = prepareQuery(queryCanonical, variants);
   const hits: FuzzyHit[] = [];
   for (const entry of entries) {
-    const hit = scoreEntry(queryCanonical, entry);
+    const hit = scorePrepared(query, entry);
     if (hit && hit.score >= threshold) hits.push(hit);
   }
   hits.sort((a, b) => b.score - a.score);
@@ -0,0 +1,282 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Hanzi → toneless Hanyu Pinyin lookup for sanctions-name transliteration.
+ *
+ * NOT a general-purpose converter. The table covers the characters that
+ * actually carry weight in screened names: the ~120 most common surnames
+ * (incl. the two-character compound surnames), frequent given-name
+ * characters, and the vocabulary of PRC/HK company names (科技, 航天,
+ * 有限公司, city names, …) in simplified and traditional form.
+ * Unknown characters pass through untransliterated — a partial Pinyin
+ * string still scores on the syllables it does contain.
+ *
+ * Polyphones take the reading they have in names: 长 chang (长江), 重
+ * zhong (重工), 行 xing, 单 shan (surname), 解 xie (surname), 曾 zeng.
+ * ü syllables (吕) are written "lu", the way passports and the OFAC/UN
+ * lists spell them.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+/**
+ * Syllable → characters. Grouped by syllable so the table is reviewable
+ * against a dictionary; inverted into PINYIN below.
+ */
+const SYLLABLES: Record<string, string> = {
+  a: "阿",
+  ai: "爱艾愛",
+  an: "安",
+  ba: "巴",
+  bai: "白百",
+  ban: "班半",
+  bao: "宝保鲍包寶",
+  bei: "北贝备備貝",
+  ben: "本",
+  bi: "毕畢",
+  bin: "斌彬滨濱",
+  bing: "兵冰",
+  bo: "博波柏舶",
+  cai: "蔡才材财財",
+  cao: "曹",
+  chang: "常昌畅长長暢",
+  chao: "超朝潮",
+  chen: "陈晨辰陳",
+  cheng: "程成城诚承誠",
+  chi: "池驰馳",
+  chong: "崇",
+  chu: "楚出储儲",
+  chuan: "川传船傳",
+  chuang: "创創",
+  chun: "春纯純",
+  cong: "丛聪叢聰",
+  cui: "崔",
+  da: "大达達",
+  dai: "戴代",
+  dan: "丹弹彈",
+  dang: "党黨",
+  dao: "导道岛導島",
+  de: "德",
+  deng: "邓登鄧",
+  di: "狄迪地第帝",
+  dian: "电典点電點",
+  ding: "丁鼎",
+  dong: "董东冬東",
+  du: "杜都",
+  duan: "段",
+  er: "尔儿二爾兒",
+  fa: "发法發",
+  fan: "范樊凡帆",
+  fang: "方房芳防",
+  fei: "飞费菲飛費",
+  fen: "份",
+  feng: "冯丰风峰锋凤馮豐風鋒鳳",
+  fu: "付傅富福复府復",
+  gang: "刚钢港剛鋼",
+  gao: "高",
+  ge: "葛格歌",
+  gong: "龚工公宫功龔宮",
+  gu: "顾古谷股顧",
+  guan: "关管冠莞關",
+  guang: "光广廣",
+  gui: "桂贵貴",
+  guo: "郭国國",
+  ha: "哈",
+  hai: "海",
+  han: "韩汉寒韓漢",
+  hang: "航杭",
+  hao: "郝浩豪昊号號",
+  he: "何贺和河合核賀",
+  heng: "恒衡",
+  hong: "洪红宏鸿虹紅鴻",
+  hou: "侯厚",
+  hu: "胡虎湖沪滬",
+  hua: "华花化華",
+  huai: "怀懷",
+  huan: "环欢環歡",
+  huang: "黄皇黃",
+  hui: "惠辉慧汇会輝匯會",
+  huo: "霍火",
+  ji: "纪姬吉季机技基集际计济记极紀機際計濟記極",
+  jia: "贾佳家嘉加甲賈",
+  jian: "建剑坚简健舰劍堅簡艦",
+  jiang: "江姜蒋疆蔣",
+  jiao: "焦交",
+  jie: "杰洁捷傑潔",
+  jin: "金晋锦进津靳晉錦進",
+  jing: "景晶静京精经敬井靜經",
+  jiu: "久九究",
+  ju: "鞠聚据據",
+  jun: "军君俊軍",
+  kai: "凯开凱開",
+  kang: "康",
+  ke: "柯科可克",
+  kong: "孔空控",
+  kou: "口",
+  kun: "坤",
+  lai: "赖来賴來",
+  lan: "兰蓝蘭藍",
+  lang: "郎朗",
+  lao: "劳老勞",
+  le: "乐樂",
+  lei: "雷磊蕾",
+  li: "李黎礼丽力立利理历励莉禮麗歷勵",
+  lian: "连廉联莲連聯蓮",
+  liang: "梁良亮",
+  liao: "料廖",
+  lin: "林琳霖",
+  ling: "凌玲灵岭靈嶺",
+  liu: "刘柳流六劉",
+  long: "龙龍",
+  lou: "楼樓",
+  lu: "陆卢鲁路露禄录吕陸盧魯祿錄呂",
+  luo: "罗骆洛络羅駱絡",
+  ma: "马玛馬瑪",
+  mai: "麦麥",
+  man: "曼满滿",
+  mao: "毛茂贸貿",
+  mei: "梅美",
+  men: "门門",
+  meng: "孟蒙梦夢",
+  mi: "米密",
+  min: "敏民闽閩",
+  ming: "明鸣铭鳴銘",
+  mo: "莫墨",
+  mu: "穆木牧慕",
+  na: "娜纳納",
+  nan: "南楠",
+  ning: "宁凝寧",
+  niu: "牛",
+  ou: "欧歐",
+  pan: "潘盘盤",
+  pei: "裴培",
+  peng: "彭鹏朋鵬",
+  ping: "平萍",
+  pu: "浦普",
+  qi: "齐戚祁七奇琪启旗器企期齊啟",
+  qian: "钱千谦前乾倩錢謙",
+  qiang: "强強",
+  qiao: "乔桥喬橋",
+  qin: "秦琴勤",
+  qing: "青清庆晴慶",
+  qiu: "邱秋丘球",
+  qu: "曲瞿区渠區",
+  quan: "全泉权權",
+  ren: "任仁",
+  rong: "荣蓉容融榮",
+  ru: "如汝",
+  rui: "瑞锐銳",
+  ruan: "软阮軟",
+  run: "润潤",
+  san: "三",
+  sen: "森",
+  sha: "沙",
+  shan: "山单善珊單",
+  shang: "尚商上",
+  shao: "邵少韶",
+  she: "设設",
+  shen: "沈申深神",
+  sheng: "盛胜生圣升勝聖",
+  shi: "石史施师时实世市诗士视師時實詩視",
+  shou: "寿壽",
+  shu: "舒书曙数树术输書數樹術輸",
+  shuang: "双雙",
+  shui: "水",
+  shun: "顺順",
+  si: "司思斯四丝絲",
+  song: "宋松",
+  su: "苏素肃蘇肅",
+  sun: "孙孫",
+  suo: "所",
+  tai: "台臺泰太",
+  tan: "谭谈譚談",
+  tang: "唐汤堂湯",
+  tao: "陶涛韬濤韜",
+  teng: "腾滕騰",
+  ti: "体體",
+  tian: "田天甜",
+  tie: "铁鐵",
+  ting: "婷庭亭",
+  tong: "童通同彤",
+  tou: "投",
+  tu: "涂图圖",
+  tuan: "团團",
+  wan: "万宛婉湾萬灣",
+  wang: "王汪旺网望網",
+  wei: "魏韦卫伟威维薇微为巍韋衛偉維為",
+  wen: "文温闻聞",
+  wu: "吴武伍无五物务吳無務",
+  xi: "席西希熙喜溪锡息系錫",
+  xia: "夏霞下厦廈",
+  xian: "先仙贤显限线县賢顯線縣",
+  xiang: "向项相祥翔香湘項",
+  xiao: "肖萧晓小孝蕭曉",
+  xie: "谢解协械謝協",
+  xin: "辛欣新鑫心信芯",
+  xing: "邢星兴行型興",
+  xiong: "熊雄",
+  xiu: "秀",
+  xu: "徐许旭续序許續",
+  xuan: "宣轩璇軒",
+  xue: "薛学雪學",
+  xun: "迅讯勋訊勳",
+  ya: "雅亚娅亞",
+  yan: "严颜闫燕岩研言炎延艳嚴顏閆艷",
+  yang: "杨阳洋扬羊楊陽揚",
+  yao: "姚瑶耀药藥",
+  ye: "叶业野冶葉業",
+  yi: "易伊艺毅怡义益一医仪亿忆宜藝義醫儀億憶",
+  yin: "尹殷银印音銀",
+  ying: "英颖莹鹰应影营穎瑩鷹應營",
+  yong: "永勇咏涌",
+  you: "尤游友有优油優",
+  yu: "于余俞宇玉雨瑜语育渔鱼羽禹域語漁魚",
+  yuan: "袁元源远园苑员原院圆遠園員圓",
+  yue: "岳月悦越粤悅粵",
+  yun: "云运芸韵雲運韻",
+  zao: "造",
+  ze: "泽则责澤則責",
+  zeng: "曾增",
+  zhan: "詹展战站戰",
+  zhang: "张章彰掌張",
+  zhao: "赵昭照兆趙",
+  zhe: "哲浙",
+  zhen: "甄真珍振镇震鎮",
+  zheng: "郑正征政证鄭證",
+  zhi: "智志之芝知制质治致至製質",
+  zhong: "钟中忠众重鍾眾",
+  zhou: "周洲州舟",
+  zhu: "朱祝竹珠主住诸諸",
+  zhuang: "庄装莊裝",
+  zi: "子紫梓资自資",
+  zong: "宗综总綜總",
+  zou: "邹鄒",
+  zu: "祖组組",
+  zuo: "左",
+};
+
+/** Character → toneless Pinyin syllable. */
+export const PINYIN: ReadonlyMap<string, string> = (() => {
+  const map = new Map<string, string>();
+  for (const [syllable, chars] of Object.entries(SYLLABLES)) {
+    for (const ch of chars) {
+      if (!map.has(ch)) map.set(ch, syllable);
+    }
+  }
+  return map;
+})();
+
+/**
+ * Two-character compound surnames. Without this list 欧阳娜娜 would be
+ * split as surname 欧 + given name 阳娜娜.
+ */
+export const COMPOUND_SURNAMES: ReadonlySet<string> = new Set([
+  "欧阳",
+  "歐陽",
+  "司马",
+  "司馬",
+  "诸葛",
+  "諸葛",
+  "上官",
+  "慕容",
+]);
@@ -366,6 +366,52 @@ describe("screenParty — T-H3: fail-closed on missing critical sanctions list",
   );
 });
 
+// ─── Transliteration-aware name matching ─────────────────────────────────────
+
+describe("screenParty — non-Latin party names", () => {
+  it("hits a Latin-script listing for a Cyrillic party name and explains the variant", async () => {
+    const cyrillicParty = {
+      ...CLEAN_PARTY,
+      legalName: "Сергей Иванов",
+      canonicalName: "сергей иванов",
+    };
+    mockPartyFindUnique.mockResolvedValue(cyrillicParty);
+    const snapshots = allCriticalSnapshots();
+    snapshots.set(TradeSanctionsList.OFAC_SDN, {
+      ...makeSnapshot(TradeSanctionsList.OFAC_SDN),
+      entries: [
+        {
+          entryId: "40001",
+          names: ["sergey ivanov"],
+          addresses: [],
+          identifiers: [],
+          listMetadata: {},
+        },
+      ],
+      entryCount: 1,
+    });
+    mockAllLatestSnapshots.mockResolvedValue(snapshots);
+    mockScreeningResultCreate.mockResolvedValue(
+      mockTransactionReturn(
+        TradeScreeningDecision.POTENTIAL_MATCH,
+        TradeScreeningStatus.POTENTIAL_MATCH,
+      )[0],
+    );
+    mockPartyUpdate.mockResolvedValue(
+      mockTransactionReturn(
+        TradeScreeningDecision.POTENTIAL_MATCH,
+        TradeScreeningStatus.POTENTIAL_MATCH,
+      )[1],
+    );
+
+    const result = await screenParty(cyrillicParty.id);
+
+    expect(result.summary.hitCount).toBe(1);
+    expect(result.summary.topScore).toBe(1);
+    expect(result.explained.why).toContain("BGN/PCGN transliteration");
+  });
+});
+
 // ─── CRITICAL_LISTS constant (exported for testing) ──────────────────────────
 
 describe("CRITICAL_LISTS constant", () => {
@@ -401,9 +447,9 @@ describe("missingLists — T-M12: all 8 registered sources covered", () => {
     expect(missing).toContain(TradeSanctionsList.OPEN_SANCTIONS);
   });
 
-  it("returns empty array when all 8 registered lists are consulted", async () => {
+  it("returns empty array when all registered lists are consulted", async () => {
     const { missingLists } = await import("./screen-party.server");
-    const allEight = [
+    const allRegistered = [
       TradeSanctionsList.OFAC_SDN,
       TradeSanctionsList.BIS_ENTITY,
       TradeSanctionsList.DDTC_DEBARRED,
@@ -412,8 +458,19 @@ describe("missingLists — T-M12: all 8 registered sources covered", () => {
       TradeSanctionsList.UN_CONSOLIDATED,
       TradeSanctionsList.EU_ANNEX_IV,
       TradeSanctionsList.OPEN_SANCTIONS,
+      TradeSanctionsList.JP_METI_EUL,
+      TradeSanctionsList.CA_SEMA,
+      TradeSanctionsList.AU_DFAT,
     ];
-    expect(missingLists(allEight)).toHaveLength(0);
+    expect(missingLists(allRegistered)).toHaveLength(0);
+  });
+
+  it("includes the JP / CA / AU national lists when never synced", async () => {
+    const { missingLists } = await import("./screen-party.server");
+    const missing = missingLists([TradeSanctionsList.OFAC_SDN]);
+    expect(missing).toContain(TradeSanctionsList.JP_METI_EUL);
+    expect(missing).toContain(TradeSanctionsList.CA_SEMA);
+    expect(missing).toContain(TradeSanctionsList.AU_DFAT);
   });
 
   it("snapshotsMissing on result includes UK_OFSI when only OFAC_SDN snapshot is present", async () => {
@@ -45,6 +45,8 @@ import {
   screenAgainstEntries,
   type FuzzyHit,
 } from "./fuzzy-match";
+import { nameVariants } from "./transliteration";
+import type { TriageDeltaRef } from "@/lib/trade/screening-triage";
 import { allLatestSnapshots } from "./snapshot-store.server";
 import { getEffectiveScreeningConfig } from "@/lib/trade/settings/screening-config-service";
 import { REGISTERED_PARSERS } from "./sync.server";
@@ -71,7 +73,8 @@ import {
 // verdict.
 //
 // Only primary single-authority lists are critical; aggregated / optional
-// lists (UK_OFSI, DDTC_DEBARRED, EU_ANNEX_IV, OPEN_SANCTIONS) are
+// lists (UK_OFSI, DDTC_DEBARRED, EU_ANNEX_IV, OPEN_SANCTIONS, and the
+// national JP_METI_EUL / CA_SEMA / AU_DFAT lists) are
 // supplementary — their absence does NOT block a CLEAR.
 export const CRITICAL_LISTS: TradeSanctionsList[] = [
   TradeSanctionsList.OFAC_SDN,
@@ -154,6 +157,11 @@ export interface PersistableHit extends FuzzyHit {
   aliasMatch?: boolean;
   /** Reason-for-listing projection (program/policy/reg refs + authority). */
   reason?: HitReasonMeta;
+  /**
+   * Set only by delta rescreening (delta-rescreen.server.ts): which list
+   * change produced the hit, and through which subject it reached the party.
+   */
+  delta?: TriageDeltaRef;
 }
 
 export interface ScreenPartyOptions {
@@ -329,6 +337,21 @@ export function enrichHit(
   };
 }
 
+/**
+ * The party's external identifiers for the exact-match pre-check
+ * (Sprint A3). Only non-null, non-empty values are included.
+ */
+export function partyIdentifiers(
+  party: Pick<TradeParty, "leiCode" | "vatNumber" | "ducnsNumber" | "cageCode">,
+): { type: string; value: string }[] {
+  return [
+    party.leiCode ? { type: "lei", value: party.leiCode } : null,
+    party.vatNumber ? { type: "vat", value: party.vatNumber } : null,
+    party.ducnsNumber ? { type: "duns", value: party.ducnsNumber } : null,
+    party.cageCode ? { type: "cage", value: party.cageCode } : null,
+  ].filter((id): id is { type: string; value: string } => id !== null);
+}
+
 // ─── Main entry point ───────────────────────────────────────────────
 
 /**
@@ -375,13 +398,7 @@ export async function screenParty(
   }
 
   // Build party's identifier list for exact-match pre-check (Sprint A3).
-  // Only include non-null, non-empty values present on the loaded party.
-  const partyIdentifiers: { type: string; value: string }[] = [
-    party.leiCode ? { type: "lei", value: party.leiCode } : null,
-    party.vatNumber ? { type: "vat", value: party.vatNumber } : null,
-    party.ducnsNumber ? { type: "duns", value: party.ducnsNumber } : null,
-    party.cageCode ? { type: "cage", value: party.cageCode } : null,
-  ].filter((id): id is { type: string; value: string } => id !== null);
+  const identifiers = partyIdentifiers(party);
 
   // Run fuzzy match across ALL snapshots. List is preserved on each hit.
   // For each entry we first attempt an exact identifier pre-check: if the
@@ -390,6 +407,11 @@ export async function screenParty(
   const allHits: PersistableHit[] = [];
   const hashesByList: Partial<Record<TradeSanctionsList, string>> = {};
 
+  // Transliterated / alias-folded forms of the party name, computed once.
+  // Built from the display legalName, not canonicalName: canonicalization
+  // strips the diacritics (й, ё) the transliteration schemes distinguish.
+  const queryVariants = nameVariants(party.legalName);
+
   for (const [list, snapshot] of snapshots) {
     hashesByList[list] = snapshot.hash;
     const entries = snapshot.entries as unknown as CanonicalSanctionsEntry[];
@@ -405,9 +427,9 @@ export async function screenParty(
     // double-count them from the fuzzy-name pass below.
     const identifierHitIds = new Set<string>();
 
-    if (partyIdentifiers.length > 0) {
+    if (identifiers.length > 0) {
       for (const entry of entries) {
-        const idHit = matchByIdentifier(partyIdentifiers, entry);
+        const idHit = matchByIdentifier(identifiers, entry);
         if (idHit) {
           allHits.push(enrichHit(idHit, entry, list));
           identifierHitIds.add(entry.entryId);
@@ -420,6 +442,7 @@ export async function screenParty(
       party.canonicalName,
       entries,
       threshold,
+      queryVariants,
     );
     for (const hit of nameHits) {
       if (!identifierHitIds.has(hit.entryId)) {
@@ -641,6 +664,7 @@ export async function screenParty(
     partyName: updatedParty.legalName,
     criticalConsulted,
     hitLists,
+    topHit: allHits[0],
   });
 
   const result: ScreenPartyResult = {
@@ -789,9 +813,10 @@ async function dispatchSanctionsHitEmails(
  * path (which is easy to miss). Reuses the generic Notification model (no
  * migration): type COMPLIANCE_ACTION_REQUIRED, severity URGENT, deep-linking to
  * the screening triage queue. Caller transition-gates this so it fires once per
- * escalation, not on every re-screen of an already-flagged party.
+ * escalation, not on every re-screen of an already-flagged party. Also used by
+ * delta rescreening when a list change flags a previously clear party.
  */
-async function createSanctionsHitNotifications(
+export async function createSanctionsHitNotifications(
   party: TradeParty,
   hits: PersistableHit[],
   cascade: CascadeResultWithUbo | null,
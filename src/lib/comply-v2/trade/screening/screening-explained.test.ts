@@ -21,6 +21,7 @@ import { TradeSanctionsList } from "@prisma/client";
 import {
   buildScreeningExplained,
   deriveVerificationFromPersistedRow,
+  describeMatchVariant,
   type ScreeningVerdict,
 } from "./screening-explained";
 
@@ -136,6 +137,58 @@ describe("buildScreeningExplained — the Explanation Envelope is always complet
   });
 });
 
+// ─── Match variant in the explanation ────────────────────────────────────────
+
+describe("buildScreeningExplained — names the variant behind a hit", () => {
+  it("POTENTIAL_MATCH why cites the transliteration that produced the top hit", () => {
+    const e = buildScreeningExplained(MATCH_VERDICT, {
+      partyName: "Сергей Иванов",
+      criticalConsulted: freshCriticalConsulted(),
+      hitLists: [TradeSanctionsList.OFAC_SDN],
+      topHit: {
+        matchedName: "sergey ivanov",
+        variant: {
+          scheme: "bgn-pcgn",
+          queryForm: "sergey ivanov",
+          listedForm: "sergey ivanov",
+        },
+      },
+    });
+    expect(e.why).toContain("BGN/PCGN transliteration");
+    expect(e.why).toContain('"sergey ivanov"');
+  });
+
+  it("says nothing extra for a direct match", () => {
+    const e = buildScreeningExplained(MATCH_VERDICT, {
+      partyName: "Sanctioned Corp",
+      criticalConsulted: freshCriticalConsulted(),
+      topHit: { matchedName: "sanctioned corp" },
+    });
+    expect(e.why).not.toContain("Matched");
+  });
+});
+
+describe("describeMatchVariant", () => {
+  it("returns undefined without a variant", () => {
+    expect(describeMatchVariant({ matchedName: "x" })).toBeUndefined();
+  });
+
+  it("labels the phonetic scheme", () => {
+    expect(
+      describeMatchVariant({
+        matchedName: "mohammed hussein",
+        variant: {
+          scheme: "phonetic",
+          queryForm: "mhmd hsin",
+          listedForm: "mohammed hussein",
+        },
+      }),
+    ).toBe(
+      'Matched "mohammed hussein" via phonetic similarity: "mhmd hsin" ≈ "mohammed hussein".',
+    );
+  });
+});
+
 // ─── UNVERIFIED — the lane invariant ─────────────────────────────────────────
 
 describe("buildScreeningExplained — UNVERIFIED is never green and always explains the gap", () => {
@@ -37,6 +37,8 @@
  */
 
 import type { TradeSanctionsList } from "@prisma/client";
+import type { MatchVariant } from "./fuzzy-match";
+import { NAME_VARIANT_LABEL } from "./transliteration";
 
 // ─── The Explanation Envelope (canonical contract) ─────────────────────────
 //
@@ -127,6 +129,9 @@ const LIST_LABEL: Record<string, string> = {
   UK_OFSI: "UK OFSI",
   EU_ANNEX_IV: "EU Reg. 833/2014 Annex IV",
   OPEN_SANCTIONS: "OpenSanctions",
+  JP_METI_EUL: "Japan METI End User List",
+  CA_SEMA: "Canada SEMA / JVCFOA",
+  AU_DFAT: "Australia DFAT Consolidated List",
 };
 
 const LIST_AUTHORITY_CITATION: Record<string, string> = {
@@ -155,6 +160,24 @@ function asOfDate(fetchedAt: string | undefined): string | undefined {
   return new Date(ms).toISOString().slice(0, 10);
 }
 
+/**
+ * One sentence naming the name rewrite that produced a hit, e.g.
+ *   Matched "mohammed al hussein" via known name variant:
+ *   "muhammad al hussein" ≈ "muhammad al hussein".
+ * Returns undefined for a direct match (no variant) so callers can omit it.
+ */
+export function describeMatchVariant(hit: {
+  matchedName: string;
+  variant?: MatchVariant;
+}): string | undefined {
+  const v = hit.variant;
+  if (!v) return undefined;
+  return (
+    `Matched "${hit.matchedName}" via ${NAME_VARIANT_LABEL[v.scheme]}: ` +
+    `"${v.queryForm}" ≈ "${v.listedForm}".`
+  );
+}
+
 // ─── The builder: ScreeningVerdict → ExplainedResult<ScreeningVerdict> ─────
 
 /**
@@ -187,6 +210,12 @@ export function buildScreeningExplained(
     }>;
     /** Distinct lists that produced hits (cited on POTENTIAL_MATCH). */
     hitLists?: TradeSanctionsList[];
+    /**
+     * Highest-scoring hit. When it matched through a transliteration /
+     * alias / phonetic variant, the POTENTIAL_MATCH `why` names that
+     * variant so the reviewer can judge the romanisation, not just a score.
+     */
+    topHit?: { matchedName: string; variant?: MatchVariant };
   },
 ): ExplainedResult<ScreeningVerdict> {
   const override: ExplainOverride = { allowed: false };
@@ -268,10 +297,16 @@ export function buildScreeningExplained(
       ? `a ≥50%-ownership cascade to a sanctioned/blocked owner`
       : `a name/identifier match (top score ${verdict.topScore.toFixed(3)} across ${verdict.hitCount} hit${verdict.hitCount === 1 ? "" : "s"})`;
 
+    const variantNote = ctx.topHit
+      ? describeMatchVariant(ctx.topHit)
+      : undefined;
+
     return explainedResult({
       value: verdict,
       what: `POTENTIAL MATCH — ${ctx.partyName} requires human triage before any transaction`,
-      why: `Screening surfaced ${reason}. This is a SIGNAL, not a confirmed identity — the same name/owner may be a different person/entity.`,
+      why:
+        `Screening surfaced ${reason}. This is a SIGNAL, not a confirmed identity — the same name/owner may be a different person/entity.` +
+        (variantNote ? ` ${variantNote}` : ""),
       wherefore: `Open the screening run, review the matched entries (and ownership chain, if any), and record a documented decision: confirm the hit (block) or dismiss as a false positive. Do NOT transact until decided.`,
       confidence: "MEDIUM",
       sources:
@@ -0,0 +1,131 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Tests for snapshot-store.server.ts — the entry-level diff every new
+ * snapshot is run through, and the delta upsertSnapshot() returns for
+ * delta rescreening.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockFindUnique, mockFindFirst, mockCreate } = vi.hoisted(() => ({
+  mockFindUnique: vi.fn(),
+  mockFindFirst: vi.fn(),
+  mockCreate: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    tradeSanctionsSnapshot: {
+      findUnique: mockFindUnique,
+      findFirst: mockFindFirst,
+      create: mockCreate,
+    },
+  },
+}));
+
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  diffSnapshotEntries,
+  hashEntries,
+  upsertSnapshot,
+} from "./snapshot-store.server";
+import type { CanonicalSanctionsEntry } from "./sources/types";
+
+function entry(
+  entryId: string,
+  names: string[],
+  listMetadata: Record<string, unknown> = {},
+): CanonicalSanctionsEntry {
+  return { entryId, names, addresses: [], identifiers: [], listMetadata };
+}
+
+const ALPHA = entry("1", ["alpha trading"], { programs: ["SDGT"] });
+const BRAVO = entry("2", ["bravo shipping"]);
+const CHARLIE = entry("3", ["charlie metals"]);
+
+describe("diffSnapshotEntries", () => {
+  it("splits added, changed and removed by entryId", () => {
+    const bravoWithAka = entry("2", ["bravo shipping", "bravo marine"]);
+    const delta = diffSnapshotEntries(
+      [ALPHA, BRAVO, CHARLIE],
+      [ALPHA, bravoWithAka, entry("4", ["delta aerospace"])],
+    );
+    expect(delta.added.map((e) => e.entryId)).toEqual(["4"]);
+    expect(delta.changed).toEqual([bravoWithAka]);
+    expect(delta.removed).toEqual(["3"]);
+  });
+
+  it("ignores key order (JSONB does not preserve it)", () => {
+    const reordered = {
+      listMetadata: { programs: ["SDGT"] },
+      identifiers: [],
+      names: ["alpha trading"],
+      addresses: [],
+      entryId: "1",
+    } as CanonicalSanctionsEntry;
+    expect(diffSnapshotEntries([reordered], [ALPHA])).toEqual({
+      added: [],
+      changed: [],
+      removed: [],
+    });
+  });
+
+  it("reports every entry as added against an empty baseline", () => {
+    expect(diffSnapshotEntries([], [ALPHA]).added).toEqual([ALPHA]);
+  });
+});
+
+describe("upsertSnapshot", () => {
+  const INPUT = {
+    list: TradeSanctionsList.OFAC_SDN,
+    entries: [ALPHA, CHARLIE],
+    sourceUrl: "https://example.test/sdn.csv",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreate.mockImplementation(async ({ data }) => ({ id: "new", ...data }));
+  });
+
+  it("returns no delta when the content hash already exists", async () => {
+    mockFindUnique.mockResolvedValue({ id: "existing" });
+    const result = await upsertSnapshot(INPUT);
+    expect(result.changed).toBe(false);
+    expect(result.delta).toBeNull();
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("returns no delta for a list's first snapshot", async () => {
+    mockFindUnique.mockResolvedValue(null);
+    mockFindFirst.mockResolvedValue(null);
+    const result = await upsertSnapshot(INPUT);
+    expect(result.changed).toBe(true);
+    expect(result.delta).toBeNull();
+  });
+
+  it("diffs a new snapshot against the previous one", async () => {
+    mockFindUnique.mockResolvedValue(null);
+    mockFindFirst.mockResolvedValue({
+      id: "prev",
+      hash: hashEntries([ALPHA, BRAVO]),
+      entries: [ALPHA, BRAVO],
+    });
+    const result = await upsertSnapshot(INPUT);
+    expect(result.changed).toBe(true);
+    expect(result.delta).toEqual({
+      previousHash: hashEntries([ALPHA, BRAVO]),
+      added: [CHARLIE],
+      changed: [],
+      removed: ["2"],
+    });
+    expect(mockFindFirst).toHaveBeenCalledWith({
+      where: { list: TradeSanctionsList.OFAC_SDN },
+      orderBy: { fetchedAt: "desc" },
+    });
+  });
+});
@@ -13,6 +13,11 @@
  * of creating a new one. The `latestSnapshotFor` query reads the most
  * recent row per list — that's what the screening engine consumes.
  *
+ * Every new snapshot is diffed against the list's previous one by
+ * entryId (`diffSnapshotEntries`). The delta rides back on the upsert
+ * result so the sync cron can rescreen only the added/changed entries
+ * (delta-rescreen.server.ts) instead of waiting for the 30-day cycle.
+ *
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
 
@@ -43,6 +48,63 @@ export function hashEntries(entries: CanonicalSanctionsEntry[]): string {
   return createHash("sha256").update(json).digest("hex");
 }
 
+/**
+ * Entry-level difference between two snapshots of the same list, keyed
+ * on the upstream-stable `entryId`.
+ */
+export interface SnapshotDelta {
+  /** Hash of the snapshot this one was diffed against. */
+  previousHash: string;
+  /** Entries whose entryId did not exist in the previous snapshot. */
+  added: CanonicalSanctionsEntry[];
+  /** Entries whose entryId existed but whose content differs (new AKA, address, programme, …). */
+  changed: CanonicalSanctionsEntry[];
+  /** entryIds that were delisted. */
+  removed: string[];
+}
+
+/**
+ * JSON with object keys sorted at every level. The previous snapshot
+ * comes back from a JSONB column, and Postgres does not preserve key
+ * order — a plain JSON.stringify would report every entry as changed.
+ */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableJson(obj[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Diff two entry arrays by entryId. Pure. Output arrays follow the
+ * order of `next` (added/changed) and `previous` (removed).
+ */
+export function diffSnapshotEntries(
+  previous: readonly CanonicalSanctionsEntry[],
+  next: readonly CanonicalSanctionsEntry[],
+): Omit<SnapshotDelta, "previousHash"> {
+  const before = new Map<string, string>();
+  for (const entry of previous) before.set(entry.entryId, stableJson(entry));
+
+  const added: CanonicalSanctionsEntry[] = [];
+  const changed: CanonicalSanctionsEntry[] = [];
+  const seen = new Set<string>();
+  for (const entry of next) {
+    seen.add(entry.entryId);
+    const prior = before.get(entry.entryId);
+    if (prior === undefined) added.push(entry);
+    else if (prior !== stableJson(entry)) changed.push(entry);
+  }
+  const removed = [...before.keys()].filter((id) => !seen.has(id));
+  return { added, changed, removed };
+}
+
 export interface UpsertSnapshotInput {
   list: TradeSanctionsList;
   entries: CanonicalSanctionsEntry[];
@@ -56,6 +118,12 @@ export interface UpsertSnapshotResult {
   hash: string;
   entryCount: number;
   snapshot: TradeSanctionsSnapshot;
+  /**
+   * Entry-level diff against the list's previous snapshot. Null when
+   * nothing was written (hash matched), and on a list's first snapshot —
+   * there is no baseline, so every party needs a full screen instead.
+   */
+  delta: SnapshotDelta | null;
 }
 
 /**
@@ -79,9 +147,19 @@ export async function upsertSnapshot(
   });
 
   if (existing) {
-    return { changed: false, hash, entryCount, snapshot: existing };
+    return {
+      changed: false,
+      hash,
+      entryCount,
+      snapshot: existing,
+      delta: null,
+    };
   }
 
+  // Read the baseline BEFORE the insert, otherwise the newest row is
+  // the snapshot we're about to write.
+  const previous = await latestSnapshotFor(input.list);
+
   // Hash differs — insert new snapshot.
   const snapshot = await prisma.tradeSanctionsSnapshot.create({
     data: {
@@ -94,7 +172,17 @@ export async function upsertSnapshot(
     },
   });
 
-  return { changed: true, hash, entryCount, snapshot };
+  const delta: SnapshotDelta | null = previous
+    ? {
+        previousHash: previous.hash,
+        ...diffSnapshotEntries(
+          previous.entries as unknown as CanonicalSanctionsEntry[],
+          input.entries,
+        ),
+      }
+    : null;
+
+  return { changed: true, hash, entryCount, snapshot, delta };
 }
 
 /**
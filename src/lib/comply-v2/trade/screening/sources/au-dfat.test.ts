@@ -0,0 +1,104 @@
+/**
+ * Tests for the Australia DFAT Consolidated List parser. Synthetic CSV
+ * fixtures (the shape sync.server.ts produces from the DFAT workbook) —
+ * no network calls to dfat.gov.au.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect } from "vitest";
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  dfatBaseReference,
+  dfatConsolidatedParser,
+  parseDfatConsolidated,
+} from "./au-dfat";
+
+const HEADER =
+  "Reference,Name of Individual or Entity,Type,Name Type,Date of Birth,Place of Birth,Citizenship,Address,Additional Information,Listing Information,IMO Number,Committees,Control Date";
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join("\n");
+}
+
+const PRIMARY = `8,Korea Mining Development Trading Corporation,Entity,Primary Name,,,,"Central District, Pyongyang",Primary arms dealer,Listed 2009,,1718 (DPRK),01/06/2017`;
+const ALIAS_A = `8a,KOMID,Entity,Alias,,,,,,,,1718 (DPRK),01/06/2017`;
+const ALIAS_B = `8b,Changgwang Sinyong Corporation,Entity,Alias,,,,,,,,1718 (DPRK),01/06/2017`;
+const INDIVIDUAL = `1520,Ivan Petrov,Individual,Primary Name,1970-01-01,Moscow,Russian,,,"Autonomous Sanctions (Designated Persons and Entities and Declared Persons – Russia and Ukraine) Amendment (No. 3) Instrument 2022",,Autonomous (Russia),17/03/2022`;
+const VESSEL = `9001,Ocean Glory,Vessel,Primary Name,,,,,,,9234567,Autonomous (Iran),02/02/2024`;
+
+describe("dfatBaseReference", () => {
+  it("strips the alias suffix", () => {
+    expect(dfatBaseReference("8")).toBe("8");
+    expect(dfatBaseReference("8a")).toBe("8");
+    expect(dfatBaseReference(" 1520bc ")).toBe("1520");
+  });
+});
+
+describe("parseDfatConsolidated", () => {
+  it("returns [] for empty input or an unrecognised header", () => {
+    expect(parseDfatConsolidated("")).toEqual([]);
+    expect(parseDfatConsolidated("Ref,Name\n1,Foo")).toEqual([]);
+  });
+
+  it("folds alias rows into their primary entry", () => {
+    const entries = parseDfatConsolidated(csv(PRIMARY, ALIAS_A, ALIAS_B));
+    expect(entries).toHaveLength(1);
+    const e = entries[0]!;
+    expect(e.entryId).toBe("AU-8");
+    expect(e.names).toEqual([
+      "korea mining development trading corporation",
+      "komid",
+      "changgwang sinyong corporation",
+    ]);
+    expect(e.addresses).toEqual([
+      { country: "XX", lines: ["Central District, Pyongyang"] },
+    ]);
+    expect(e.listMetadata).toMatchObject({
+      subjectType: "entity",
+      programs: ["1718 (DPRK)"],
+      additionalInformation: "Primary arms dealer",
+      controlDate: "01/06/2017",
+    });
+  });
+
+  it("keeps the primary name first when an alias row comes first", () => {
+    const [e] = parseDfatConsolidated(csv(ALIAS_A, PRIMARY));
+    expect(e!.names[0]).toBe("korea mining development trading corporation");
+    expect(e!.names).toContain("komid");
+  });
+
+  it("parses individual metadata", () => {
+    const [e] = parseDfatConsolidated(csv(INDIVIDUAL));
+    expect(e!.entryId).toBe("AU-1520");
+    expect(e!.listMetadata).toMatchObject({
+      subjectType: "individual",
+      programs: ["Autonomous (Russia)"],
+      dob: "1970-01-01",
+      pob: "Moscow",
+      citizenship: "Russian",
+    });
+    expect(String(e!.listMetadata.listingInformation)).toContain(
+      "Russia and Ukraine",
+    );
+  });
+
+  it("records the IMO number of a listed vessel", () => {
+    const [e] = parseDfatConsolidated(csv(VESSEL));
+    expect(e!.identifiers).toEqual([{ type: "imo", value: "9234567" }]);
+    expect(e!.listMetadata.subjectType).toBe("vessel");
+  });
+
+  it("skips rows without reference or name", () => {
+    expect(
+      parseDfatConsolidated(csv(`,Nameless Corp,Entity`, `77,,Entity`)),
+    ).toEqual([]);
+  });
+});
+
+describe("dfatConsolidatedParser", () => {
+  it("is wired to AU_DFAT as a workbook source", () => {
+    expect(dfatConsolidatedParser.list).toBe(TradeSanctionsList.AU_DFAT);
+    expect(dfatConsolidatedParser.format).toBe("xlsx");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Australia DFAT Consolidated List parser.
+ *
+ * Source: Department of Foreign Affairs and Trade — Australian
+ *         Sanctions Office
+ * URL:    https://www.dfat.gov.au/sites/default/files/regulation8_consolidated.xlsx
+ * Format: Excel workbook, one sheet, ~4K rows, ~1 MB. Updated with each
+ *         listing instrument. The orchestrator converts the sheet to CSV
+ *         (format "xlsx").
+ * Docs:   https://www.dfat.gov.au/international-relations/security/sanctions/consolidated-list
+ *
+ * Covers persons and entities designated under the Autonomous Sanctions
+ * Regulations 2011 AND those Australia implements from UN Security
+ * Council regimes (Charter of the United Nations Act 1945). Dealing
+ * with a listed party's assets is a criminal offence (asset freeze).
+ *
+ * Columns (header row first):
+ *   Reference                  "123" for the primary row, "123a",
+ *                               "123b", … for its alias rows
+ *   Name of Individual or Entity
+ *   Type                       "Individual" | "Entity" | "Vessel"
+ *   Name Type                  "Primary Name" | "Alias" | "Original Script"
+ *   Date of Birth
+ *   Place of Birth
+ *   Citizenship
+ *   Address
+ *   Additional Information     Free text (passport numbers live here)
+ *   Listing Information        Instrument + date
+ *   IMO Number                 Vessels only
+ *   Committees                 Regime, e.g. "Autonomous (Russia)" or
+ *                               "1267/1989/2253 (ISIL (Da'esh) and Al-Qaida)"
+ *   Control Date               Last amendment date
+ *
+ * entryId: "AU-{base reference}" — the numeric part of Reference is
+ * DFAT's stable designation ID. Alias rows ("123a") fold into entry 123.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { TradeSanctionsList } from "@prisma/client";
+import { parseCsv } from "./ofac-sdn";
+import {
+  type CanonicalSanctionsEntry,
+  type SanctionsSourceParser,
+  canonicalizeName,
+} from "./types";
+
+const DEFAULT_URL =
+  "https://www.dfat.gov.au/sites/default/files/regulation8_consolidated.xlsx";
+
+type HeaderIndex = Partial<
+  Record<
+    | "reference"
+    | "name"
+    | "type"
+    | "nameType"
+    | "dob"
+    | "pob"
+    | "citizenship"
+    | "address"
+    | "additionalInformation"
+    | "listingInformation"
+    | "imo"
+    | "committees"
+    | "controlDate",
+    number
+  >
+>;
+
+function buildHeaderIndex(header: string[]): HeaderIndex {
+  const idx: HeaderIndex = {};
+  header.forEach((raw, i) => {
+    const h = raw.replace(/\s+/g, " ").trim().toLowerCase();
+    switch (h) {
+      case "reference":
+        idx.reference = i;
+        break;
+      case "name of individual or entity":
+        idx.name = i;
+        break;
+      case "type":
+        idx.type = i;
+        break;
+      case "name type":
+        idx.nameType = i;
+        break;
+      case "date of birth":
+        idx.dob = i;
+        break;
+      case "place of birth":
+        idx.pob = i;
+        break;
+      case "citizenship":
+        idx.citizenship = i;
+        break;
+      case "address":
+        idx.address = i;
+        break;
+      case "additional information":
+        idx.additionalInformation = i;
+        break;
+      case "listing information":
+        idx.listingInformation = i;
+        break;
+      case "imo number":
+        idx.imo = i;
+        break;
+      case "committees":
+        idx.committees = i;
+        break;
+      case "control date":
+        idx.controlDate = i;
+        break;
+    }
+  });
+  return idx;
+}
+
+function get(row: string[], i: number | undefined): string {
+  if (i === undefined) return "";
+  return (row[i] ?? "").trim();
+}
+
+/** "123a" → "123"; "123" → "123"; "" → "". */
+export function dfatBaseReference(reference: string): string {
+  const m = reference.trim().match(/^(\d+)/);
+  return m ? m[1] : reference.trim();
+}
+
+/**
+ * Parse the DFAT Consolidated List (first worksheet as CSV) into
+ * canonical entries, folding alias rows into their primary entry.
+ */
+export function parseDfatConsolidated(raw: string): CanonicalSanctionsEntry[] {
+  if (!raw || typeof raw !== "string") return [];
+
+  const rows = parseCsv(raw);
+  if (rows.length === 0) return [];
+  const idx = buildHeaderIndex(rows[0] ?? []);
+  if (idx.reference === undefined || idx.name === undefined) {
+    // Header changed upstream — log zero rather than persist garbage.
+    return [];
+  }
+
+  const byId = new Map<string, CanonicalSanctionsEntry>();
+  for (let i = 1; i < rows.length; i += 1) {
+    const row = rows[i] ?? [];
+    const reference = get(row, idx.reference);
+    const name = get(row, idx.name);
+    if (!reference || !name) continue;
+    const canonical = canonicalizeName(name);
+    if (!canonical) continue;
+
+    const entryId = `AU-${dfatBaseReference(reference)}`;
+    const nameType = get(row, idx.nameType).toLowerCase();
+    const existing = byId.get(entryId);
+
+    if (existing) {
+      if (!existing.names.includes(canonical)) existing.names.push(canonical);
+      // Alias rows sometimes precede the primary row; the primary name
+      // must stay first.
+      if (nameType === "primary name" && existing.names[0] !== canonical) {
+        existing.names = [
+          canonical,
+          ...existing.names.filter((n) => n !== canonical),
+        ];
+      }
+      continue;
+    }
+
+    const address = get(row, idx.address);
+    const imo = get(row, idx.imo);
+    const committees = get(row, idx.committees);
+    const type = get(row, idx.type).toLowerCase();
+    const dob = get(row, idx.dob);
+    const pob = get(row, idx.pob);
+    const citizenship = get(row, idx.citizenship);
+    const listingInformation = get(row, idx.listingInformation);
+    const additionalInformation = get(row, idx.additionalInformation);
+    const controlDate = get(row, idx.controlDate);
+
+    byId.set(entryId, {
+      entryId,
+      names: [canonical],
+      // DFAT addresses are free text without a country column.
+      addresses: address ? [{ country: "XX", lines: [address] }] : [],
+      identifiers: imo ? [{ type: "imo", value: imo }] : [],
+      listMetadata: {
+        subjectType: type || "unknown",
+        programs: committees ? [committees] : [],
+        ...(dob ? { dob } : {}),
+        ...(pob ? { pob } : {}),
+        ...(citizenship ? { citizenship } : {}),
+        ...(listingInformation ? { listingInformation } : {}),
+        ...(additionalInformation ? { additionalInformation } : {}),
+        ...(controlDate ? { controlDate } : {}),
+      },
+    });
+  }
+  return Array.from(byId.values());
+}
+
+export const dfatConsolidatedParser: SanctionsSourceParser = {
+  list: TradeSanctionsList.AU_DFAT,
+  defaultSourceUrl: DEFAULT_URL,
+  format: "xlsx",
+  parse: parseDfatConsolidated,
+};
@@ -0,0 +1,162 @@
+/**
+ * Tests for the Canada Consolidated Autonomous Sanctions List parser.
+ * Synthetic XML fixtures only — no network calls to international.gc.ca.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect } from "vitest";
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  canadaSemaParser,
+  extractSemaVersion,
+  parseCanadaSema,
+  semaAct,
+  splitSemaAliases,
+} from "./ca-sema";
+
+const INDIVIDUAL = `
+<record>
+  <Country>Russia</Country>
+  <LastName>Ivanov</LastName>
+  <GivenName>Sergei</GivenName>
+  <EntityOrShip></EntityOrShip>
+  <TitleOrShip>Deputy Minister</TitleOrShip>
+  <Aliases>Sergey Ivanov; S. Ivanoff</Aliases>
+  <DateOfBirthOrShipBuildDate>1962-03-14</DateOfBirthOrShipBuildDate>
+  <Schedule>1, Part 1</Schedule>
+  <Item>412</Item>
+  <DateOfListing>2022-02-24</DateOfListing>
+</record>`;
+
+const ENTITY = `
+<record>
+  <Country>Belarus</Country>
+  <EntityOrShip>Minsk Optics &amp; Lasers, JSC</EntityOrShip>
+  <Aliases/>
+  <Schedule>1, Part 2</Schedule>
+  <Item>17</Item>
+  <DateOfListing>2023-03-01</DateOfListing>
+</record>`;
+
+const SHIP = `
+<record>
+  <Country>Russia</Country>
+  <EntityOrShip>Northern Star</EntityOrShip>
+  <ShipIMONumber>9123456</ShipIMONumber>
+  <Schedule>1, Part 3</Schedule>
+  <Item>5</Item>
+  <DateOfListing>2024-06-10</DateOfListing>
+</record>`;
+
+const JVCFOA = `
+<record>
+  <Country>Venezuela (JVCFOA)</Country>
+  <LastName>P&#233;rez</LastName>
+  <GivenName>Luis</GivenName>
+  <Schedule>Schedule</Schedule>
+  <Item>3</Item>
+  <DateOfListing>2017-11-03</DateOfListing>
+</record>`;
+
+function wrap(...records: string[]): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n<data-set>${records.join("\n")}</data-set>`;
+}
+
+describe("semaAct", () => {
+  it("classifies JVCFOA records by the Country / Schedule marker", () => {
+    expect(semaAct("Venezuela (JVCFOA)", "")).toBe("JVCFOA");
+    expect(
+      semaAct("Russia", "Justice for Victims of Corrupt Foreign Officials"),
+    ).toBe("JVCFOA");
+    expect(semaAct("Russia", "1, Part 1")).toBe("SEMA");
+  });
+});
+
+describe("splitSemaAliases", () => {
+  it("splits on semicolons, not commas", () => {
+    expect(splitSemaAliases("Alpha, Ltd.; Beta")).toEqual([
+      "Alpha, Ltd.",
+      "Beta",
+    ]);
+    expect(splitSemaAliases("")).toEqual([]);
+  });
+});
+
+describe("parseCanadaSema", () => {
+  it("returns [] for empty input", () => {
+    expect(parseCanadaSema("")).toEqual([]);
+    expect(parseCanadaSema(wrap())).toEqual([]);
+  });
+
+  it("parses an individual with aliases and metadata", () => {
+    const [e] = parseCanadaSema(wrap(INDIVIDUAL));
+    expect(e!.entryId).toBe("CA-SEMA-RUSSIA-412");
+    expect(e!.names).toEqual(["sergei ivanov", "sergey ivanov", "s ivanoff"]);
+    expect(e!.listMetadata).toMatchObject({
+      subjectType: "individual",
+      act: "SEMA",
+      programs: ["SEMA — Russia"],
+      schedule: "1, Part 1",
+      item: "412",
+      listedOn: "2022-02-24",
+      title: "Deputy Minister",
+      dob: "1962-03-14",
+    });
+  });
+
+  it("parses an entity and decodes XML entities", () => {
+    const [e] = parseCanadaSema(wrap(ENTITY));
+    expect(e!.entryId).toBe("CA-SEMA-BELARUS-17");
+    expect(e!.names).toEqual(["minsk optics lasers jsc"]);
+    expect(e!.listMetadata.subjectType).toBe("entity");
+  });
+
+  it("records the IMO number of a listed vessel", () => {
+    const [e] = parseCanadaSema(wrap(SHIP));
+    expect(e!.identifiers).toEqual([{ type: "imo", value: "9123456" }]);
+    expect(e!.listMetadata.subjectType).toBe("vessel");
+  });
+
+  it("separates JVCFOA designations and strips the marker from the regime", () => {
+    const [e] = parseCanadaSema(wrap(JVCFOA));
+    expect(e!.entryId).toBe("CA-JVCFOA-VENEZUELA-3");
+    expect(e!.names).toEqual(["luis perez"]);
+    expect(e!.listMetadata.programs).toEqual(["JVCFOA — Venezuela"]);
+  });
+
+  it("keeps item numbers apart per regime", () => {
+    const entries = parseCanadaSema(wrap(INDIVIDUAL, ENTITY, SHIP, JVCFOA));
+    expect(entries.map((e) => e.entryId).sort()).toEqual([
+      "CA-JVCFOA-VENEZUELA-3",
+      "CA-SEMA-BELARUS-17",
+      "CA-SEMA-RUSSIA-412",
+      "CA-SEMA-RUSSIA-5",
+    ]);
+  });
+
+  it("is repeatable across calls (global regex state reset)", () => {
+    const xml = wrap(INDIVIDUAL, ENTITY);
+    expect(parseCanadaSema(xml)).toHaveLength(2);
+    expect(parseCanadaSema(xml)).toHaveLength(2);
+  });
+});
+
+describe("extractSemaVersion", () => {
+  it("returns the most recent DateOfListing", () => {
+    expect(extractSemaVersion(wrap(INDIVIDUAL, SHIP, ENTITY))).toBe(
+      "2024-06-10",
+    );
+  });
+
+  it("returns undefined without listing dates", () => {
+    expect(extractSemaVersion(wrap())).toBeUndefined();
+  });
+});
+
+describe("canadaSemaParser", () => {
+  it("is wired to CA_SEMA as a text source", () => {
+    expect(canadaSemaParser.list).toBe(TradeSanctionsList.CA_SEMA);
+    expect(canadaSemaParser.format).toBeUndefined();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Canada Consolidated Autonomous Sanctions List parser.
+ *
+ * Source: Global Affairs Canada
+ * URL:    https://www.international.gc.ca/world-monde/assets/office_docs/international_relations-relations_internationales/sanctions/sema-lmes.xml
+ * Format: XML, ~4K records, ~1.5 MB. Updated with every new regulation
+ *         or amendment (often several times a month).
+ * Docs:   https://www.international.gc.ca/world-monde/international_relations-relations_internationales/sanctions/consolidated-consolide.aspx
+ *
+ * One file covers both autonomous regimes:
+ *   - Special Economic Measures Act (SEMA) — per-country regulations
+ *     (Russia, Belarus, Iran, Myanmar, …)
+ *   - Justice for Victims of Corrupt Foreign Officials Act (JVCFOA,
+ *     "Sergei Magnitsky Law") — flagged in the Country / Schedule text
+ * UN-implemented designations are NOT in this file — Canada implements
+ * those via the UN Act and they are covered by UN_CONSOLIDATED.
+ *
+ * XML structure (simplified):
+ *   <data-set>
+ *     <record>
+ *       <Country>Russia</Country>           regime (SEMA regulation)
+ *       <LastName>…</LastName>              individuals
+ *       <GivenName>…</GivenName>
+ *       <EntityOrShip>…</EntityOrShip>      entities / vessels
+ *       <ShipIMONumber>…</ShipIMONumber>
+ *       <TitleOrShip>…</TitleOrShip>
+ *       <Aliases>…</Aliases>                ";"-separated
+ *       <DateOfBirthOrShipBuildDate>…</DateOfBirthOrShipBuildDate>
+ *       <Schedule>1, Part 1</Schedule>
+ *       <Item>123</Item>                    item no. within the regulation
+ *       <DateOfListing>2022-02-24</DateOfListing>
+ *     </record>
+ *   </data-set>
+ *
+ * entryId: "CA-{regime}-{item}". Item numbers are stable within a
+ * country regulation (repealed items are never reused) but restart at
+ * 1 per regulation, hence the regime prefix.
+ *
+ * Implementation: regex-based extractor, same as un-consolidated.ts.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  type CanonicalSanctionsEntry,
+  type SanctionsIdentifier,
+  type SanctionsSourceParser,
+  canonicalizeName,
+} from "./types";
+
+const DEFAULT_URL =
+  "https://www.international.gc.ca/world-monde/assets/office_docs/international_relations-relations_internationales/sanctions/sema-lmes.xml";
+
+const RECORD_BLOCK_RE = /<record>([\s\S]*?)<\/record>/g;
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** Text of the first `<TAG>…</TAG>`; "" when absent or self-closed. */
+function extractText(block: string, tagName: string): string {
+  const re = new RegExp(`<${tagName}>([\\s\\S]*?)<\\/${tagName}>`);
+  const m = block.match(re);
+  if (!m) return "";
+  return decodeXmlEntities(m[1].trim());
+}
+
+/** Decode the XML entities GAC emits (incl. numeric for accented names). */
+function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code) =>
+      String.fromCodePoint(parseInt(code, 10)),
+    );
+}
+
+function iterMatches(re: RegExp, source: string): string[] {
+  const results: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source)) !== null) {
+    results.push(m[1]);
+  }
+  return results;
+}
+
+/**
+ * Which act a record falls under. GAC marks JVCFOA records in the
+ * Country ("Russia (JVCFOA)") or Schedule text; everything else is a
+ * SEMA regulation.
+ */
+export function semaAct(country: string, schedule: string): "SEMA" | "JVCFOA" {
+  return /jvcfoa|corrupt foreign officials/i.test(`${country} ${schedule}`)
+    ? "JVCFOA"
+    : "SEMA";
+}
+
+/** Aliases are ";"-separated; commas occur inside entity names. */
+export function splitSemaAliases(cell: string): string[] {
+  return cell
+    .split(/[;\r\n]+/)
+    .map((a) => a.trim())
+    .filter(Boolean);
+}
+
+function parseRecord(block: string): CanonicalSanctionsEntry | null {
+  const given = extractText(block, "GivenName");
+  const last = extractText(block, "LastName");
+  const entityOrShip = extractText(block, "EntityOrShip");
+  const imo = extractText(block, "ShipIMONumber");
+
+  const isIndividual = !entityOrShip && Boolean(given || last);
+  const fullName = isIndividual
+    ? [given, last].filter(Boolean).join(" ")
+    : entityOrShip;
+  if (!fullName) return null;
+
+  const canonical = canonicalizeName(fullName);
+  if (!canonical) return null;
+
+  const country = extractText(block, "Country");
+  const schedule = extractText(block, "Schedule");
+  const item = extractText(block, "Item");
+  const act = semaAct(country, schedule);
+  // Regime label without the act marker: "Russia (JVCFOA)" → "Russia".
+  const regime = country.replace(/\s*\(?JVCFOA\)?\s*/i, "").trim();
+
+  const aliases = splitSemaAliases(extractText(block, "Aliases"))
+    .map(canonicalizeName)
+    .filter(Boolean);
+
+  const identifiers: SanctionsIdentifier[] = imo
+    ? [{ type: "imo", value: imo }]
+    : [];
+
+  const subjectType = isIndividual ? "individual" : imo ? "vessel" : "entity";
+  const regimeKey = (regime || "unknown").toUpperCase().replace(/\W+/g, "_");
+  const entryId = item
+    ? `CA-${act}-${regimeKey}-${item}`
+    : `CA-${act}-${regimeKey}-${canonical}`;
+
+  const title = extractText(block, "TitleOrShip");
+  const dob = extractText(block, "DateOfBirthOrShipBuildDate");
+  const listedOn = extractText(block, "DateOfListing");
+
+  return {
+    entryId,
+    names: Array.from(new Set([canonical, ...aliases])),
+    addresses: [],
+    identifiers,
+    listMetadata: {
+      subjectType,
+      programs: [regime ? `${act} — ${regime}` : act],
+      act,
+      ...(schedule ? { schedule } : {}),
+      ...(item ? { item } : {}),
+      ...(listedOn ? { listedOn } : {}),
+      ...(title ? { title } : {}),
+      ...(dob ? { dob } : {}),
+    },
+  };
+}
+
+/**
+ * Parse the GAC consolidated autonomous sanctions XML into canonical
+ * entries.
+ */
+export function parseCanadaSema(raw: string): CanonicalSanctionsEntry[] {
+  if (!raw || typeof raw !== "string") return [];
+
+  RECORD_BLOCK_RE.lastIndex = 0;
+  const byId = new Map<string, CanonicalSanctionsEntry>();
+  for (const block of iterMatches(RECORD_BLOCK_RE, raw)) {
+    const entry = parseRecord(block);
+    if (!entry) continue;
+    const existing = byId.get(entry.entryId);
+    if (!existing) {
+      byId.set(entry.entryId, entry);
+      continue;
+    }
+    for (const n of entry.names) {
+      if (!existing.names.includes(n)) existing.names.push(n);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * The file carries no generation timestamp, so the most recent
+ * DateOfListing is the best available version marker. Returns
+ * undefined when no record has one.
+ */
+export function extractSemaVersion(raw: string): string | undefined {
+  if (!raw) return undefined;
+  let latest: string | undefined;
+  for (const m of raw.matchAll(
+    /<DateOfListing>\s*(\d{4}-\d{2}-\d{2})\s*<\/DateOfListing>/g,
+  )) {
+    if (!latest || m[1] > latest) latest = m[1];
+  }
+  return latest;
+}
+
+export const canadaSemaParser: SanctionsSourceParser = {
+  list: TradeSanctionsList.CA_SEMA,
+  defaultSourceUrl: DEFAULT_URL,
+  parse: parseCanadaSema,
+  extractUpstreamVersion: extractSemaVersion,
+};
@@ -0,0 +1,141 @@
+/**
+ * Tests for the Japan METI End User List parser. Synthetic CSV fixtures
+ * (the shape sync.server.ts produces from the METI workbook) — no
+ * network calls to meti.go.jp.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect } from "vitest";
+import { TradeSanctionsList } from "@prisma/client";
+import {
+  extractMetiVersion,
+  metiCountryCode,
+  metiEndUserListParser,
+  parseMetiEndUserList,
+  parseWmdTypes,
+  splitMetiAliases,
+} from "./jp-meti-eul";
+
+const TITLE = `End User List,,,,\n"(Revised on January 29, 2025)",,,,\n,,,,`;
+const HEADER = `No.,Country or Region,Company or Organization,Also Known As,Type of WMD`;
+
+function csv(...rows: string[]): string {
+  return [TITLE, HEADER, ...rows].join("\n");
+}
+
+describe("parseWmdTypes", () => {
+  it("maps the B/C/M/N codes, deduplicated, in order", () => {
+    expect(parseWmdTypes("B, C, M, N")).toEqual([
+      "biological",
+      "chemical",
+      "missile",
+      "nuclear",
+    ]);
+    expect(parseWmdTypes("M,M")).toEqual(["missile"]);
+  });
+
+  it("ignores unknown codes and empty cells", () => {
+    expect(parseWmdTypes("X")).toEqual([]);
+    expect(parseWmdTypes("")).toEqual([]);
+  });
+});
+
+describe("splitMetiAliases", () => {
+  it("splits bulleted line-per-alias cells", () => {
+    expect(splitMetiAliases("-Alpha Trading\n-Beta Industries")).toEqual([
+      "Alpha Trading",
+      "Beta Industries",
+    ]);
+  });
+
+  it("keeps commas inside names", () => {
+    expect(splitMetiAliases("Gamma Co., Ltd.; Delta")).toEqual([
+      "Gamma Co., Ltd.",
+      "Delta",
+    ]);
+  });
+});
+
+describe("metiCountryCode", () => {
+  it("maps METI country names to ISO alpha-2, case-insensitively", () => {
+    expect(metiCountryCode("Iran")).toBe("IR");
+    expect(metiCountryCode("NORTH KOREA")).toBe("KP");
+    expect(metiCountryCode("Hong Kong")).toBe("HK");
+  });
+
+  it("falls back to XX for unknown names", () => {
+    expect(metiCountryCode("Atlantis")).toBe("XX");
+  });
+});
+
+describe("parseMetiEndUserList", () => {
+  it("returns [] for empty input or a missing header", () => {
+    expect(parseMetiEndUserList("")).toEqual([]);
+    expect(parseMetiEndUserList("a,b,c\n1,2,3")).toEqual([]);
+  });
+
+  it("detects the header below the title rows and parses an entry", () => {
+    const entries = parseMetiEndUserList(
+      csv(`1,Iran,Alpha Aerospace Industries,"-AAI\n-Alpha Aero",M`),
+    );
+    expect(entries).toHaveLength(1);
+    const e = entries[0]!;
+    expect(e.entryId).toBe("METI-IR-alpha aerospace industries");
+    expect(e.names).toEqual([
+      "alpha aerospace industries",
+      "aai",
+      "alpha aero",
+    ]);
+    expect(e.addresses).toEqual([{ country: "IR", lines: [] }]);
+    expect(e.listMetadata).toMatchObject({
+      subjectType: "entity",
+      wmdTypes: ["missile"],
+      programs: ["FEFTA catch-all (missile)"],
+      countryName: "Iran",
+      listNumber: "1",
+    });
+  });
+
+  it("keys entries on country + name, not the running number", () => {
+    const before = parseMetiEndUserList(csv(`7,China,Beta Institute,,N`));
+    const after = parseMetiEndUserList(csv(`12,China,Beta Institute,,N`));
+    expect(before[0]!.entryId).toBe(after[0]!.entryId);
+  });
+
+  it("merges aliases of a name listed twice for one country", () => {
+    const entries = parseMetiEndUserList(
+      csv(
+        `3,Pakistan,Gamma Labs,Gamma Lab One,N`,
+        `4,Pakistan,Gamma Labs,Gamma Lab Two,N`,
+      ),
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.names).toEqual([
+      "gamma labs",
+      "gamma lab one",
+      "gamma lab two",
+    ]);
+  });
+
+  it("skips rows without a name", () => {
+    expect(parseMetiEndUserList(csv(`5,Syria,,,C`))).toEqual([]);
+  });
+});
+
+describe("extractMetiVersion", () => {
+  it("reads the revision date from the title rows", () => {
+    expect(extractMetiVersion(csv())).toBe("January 29, 2025");
+  });
+
+  it("returns undefined when no revision line exists", () => {
+    expect(extractMetiVersion(HEADER)).toBeUndefined();
+  });
+});
+
+describe("metiEndUserListParser", () => {
+  it("is wired to JP_METI_EUL as a workbook source", () => {
+    expect(metiEndUserListParser.list).toBe(TradeSanctionsList.JP_METI_EUL);
+    expect(metiEndUserListParser.format).toBe("xlsx");
+  });
+});
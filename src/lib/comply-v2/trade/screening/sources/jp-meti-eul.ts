@@ -0,0 +1,238 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Japan METI End User List parser.
+ *
+ * Source: Ministry of Economy, Trade and Industry — Security Export
+ *         Control Policy Division (anpo)
+ * URL:    https://www.meti.go.jp/policy/anpo/law_document/tutatu/t07sonota/eul_en.xlsx
+ * Format: Excel workbook, one sheet, ~700 rows. Revised roughly once a
+ *         year; the English edition is published alongside the Japanese
+ *         one. The orchestrator converts the sheet to CSV (format "xlsx").
+ * Docs:   https://www.meti.go.jp/policy/anpo/englishpage.html
+ *
+ * Legal effect: the End User List is NOT an asset freeze. It names
+ * foreign entities for which METI cannot rule out involvement in WMD
+ * programmes; under the FEFTA catch-all control (Export Trade Control
+ * Order Appended Table 1 row 16) any export to a listed entity needs a
+ * METI licence unless it is obviously not for WMD use. A hit therefore
+ * means "licence required", which the reviewer sees via `listMetadata`.
+ *
+ * Columns (title rows precede the header, so we detect it by signature):
+ *   No.                       Running number — RENUMBERED on every
+ *                              revision, so NOT usable as entryId
+ *   Country or Region         Country name in English ("Iran", "China")
+ *   Company or Organization   Primary name
+ *   Also Known As             Aliases, one per line (often "-"-bulleted)
+ *   Type of WMD               Concern codes: B (biological), C (chemical),
+ *                              M (missile), N (nuclear) — comma-separated
+ *
+ * entryId: METI publishes no stable ID, so we use the composite
+ * "METI-{country}-{canonical primary name}" (the DDTC approach). A
+ * rename surfaces as remove + add in the delta, which is what a
+ * reviewer wants to see anyway.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { TradeSanctionsList } from "@prisma/client";
+import { parseCsv } from "./ofac-sdn";
+import {
+  type CanonicalSanctionsEntry,
+  type SanctionsSourceParser,
+  canonicalizeName,
+} from "./types";
+
+const DEFAULT_URL =
+  "https://www.meti.go.jp/policy/anpo/law_document/tutatu/t07sonota/eul_en.xlsx";
+
+/** WMD concern codes used in the "Type of WMD" column. */
+const WMD_TYPES: Record<string, string> = {
+  B: "biological",
+  C: "chemical",
+  M: "missile",
+  N: "nuclear",
+};
+
+/**
+ * Country names as METI spells them → ISO 3166-1 alpha-2. Covers every
+ * country on the list as of the 2025 revision; an unknown name maps to
+ * "XX" and the raw name is kept in `listMetadata.countryName`.
+ */
+const COUNTRY_CODES: Record<string, string> = {
+  afghanistan: "AF",
+  armenia: "AM",
+  china: "CN",
+  egypt: "EG",
+  "hong kong": "HK",
+  india: "IN",
+  iran: "IR",
+  israel: "IL",
+  kyrgyzstan: "KG",
+  lebanon: "LB",
+  malaysia: "MY",
+  "north korea": "KP",
+  pakistan: "PK",
+  russia: "RU",
+  singapore: "SG",
+  syria: "SY",
+  taiwan: "TW",
+  turkey: "TR",
+  turkiye: "TR",
+  uae: "AE",
+  "united arab emirates": "AE",
+  uzbekistan: "UZ",
+};
+
+interface HeaderIndex {
+  no?: number;
+  country?: number;
+  name?: number;
+  aka?: number;
+  wmd?: number;
+}
+
+/**
+ * Locate the header row. METI puts a title ("End User List") and a
+ * revision line above it; the header is the first row naming the
+ * "Company or Organization" column.
+ */
+function findHeaderRow(rows: string[][]): number {
+  for (let i = 0; i < Math.min(rows.length, 10); i += 1) {
+    const joined = (rows[i] ?? []).join("|").toLowerCase();
+    if (joined.includes("company or organization")) return i;
+  }
+  return -1;
+}
+
+function buildHeaderIndex(header: string[]): HeaderIndex {
+  const idx: HeaderIndex = {};
+  header.forEach((raw, i) => {
+    const h = raw.replace(/\s+/g, " ").trim().toLowerCase();
+    if (h === "no." || h === "no") idx.no = i;
+    else if (h.startsWith("country")) idx.country = i;
+    else if (h.startsWith("company or organization")) idx.name = i;
+    else if (h.startsWith("also known as")) idx.aka = i;
+    else if (h.startsWith("type of wmd")) idx.wmd = i;
+  });
+  return idx;
+}
+
+function get(row: string[], i: number | undefined): string {
+  if (i === undefined) return "";
+  return (row[i] ?? "").trim();
+}
+
+/** ISO alpha-2 for a METI country name, or "XX". */
+export function metiCountryCode(name: string): string {
+  return COUNTRY_CODES[name.trim().toLowerCase()] ?? "XX";
+}
+
+/**
+ * Split the "Also Known As" cell. METI puts one alias per line, usually
+ * bulleted with "-" or "・"; some revisions use ";" instead. Commas are
+ * NOT separators — they occur inside names ("Co., Ltd.").
+ */
+export function splitMetiAliases(cell: string): string[] {
+  return cell
+    .split(/[\r\n;]+/)
+    .map((a) => a.replace(/^[\s\-–・•]+/, "").trim())
+    .filter(Boolean);
+}
+
+/** "B, C, M" → ["biological", "chemical", "missile"]. */
+export function parseWmdTypes(cell: string): string[] {
+  const out: string[] = [];
+  for (const code of cell.toUpperCase().split(/[^A-Z]+/)) {
+    const t = WMD_TYPES[code];
+    if (t && !out.includes(t)) out.push(t);
+  }
+  return out;
+}
+
+function parseRow(
+  row: string[],
+  idx: HeaderIndex,
+): CanonicalSanctionsEntry | null {
+  const primary = get(row, idx.name);
+  if (!primary) return null;
+  const canonical = canonicalizeName(primary);
+  if (!canonical) return null;
+
+  const countryName = get(row, idx.country);
+  const country = countryName ? metiCountryCode(countryName) : "XX";
+  const aliases = splitMetiAliases(get(row, idx.aka))
+    .map(canonicalizeName)
+    .filter(Boolean);
+  const wmdTypes = parseWmdTypes(get(row, idx.wmd));
+  const listNumber = get(row, idx.no);
+
+  return {
+    entryId: `METI-${country}-${canonical}`,
+    names: Array.from(new Set([canonical, ...aliases])),
+    addresses: countryName ? [{ country, lines: [] }] : [],
+    identifiers: [],
+    listMetadata: {
+      subjectType: "entity",
+      programs: wmdTypes.map((t) => `FEFTA catch-all (${t})`),
+      wmdTypes,
+      licenceRequirement: "METI licence required (FEFTA catch-all)",
+      ...(countryName ? { countryName } : {}),
+      ...(listNumber ? { listNumber } : {}),
+    },
+  };
+}
+
+/**
+ * Parse the METI End User List (first worksheet as CSV) into canonical
+ * entries. Returns [] if the header cannot be found, so a layout change
+ * upstream logs "no entries" instead of persisting garbage.
+ */
+export function parseMetiEndUserList(raw: string): CanonicalSanctionsEntry[] {
+  if (!raw || typeof raw !== "string") return [];
+
+  const rows = parseCsv(raw);
+  const headerRow = findHeaderRow(rows);
+  if (headerRow < 0) return [];
+  const idx = buildHeaderIndex(rows[headerRow] ?? []);
+  if (idx.name === undefined) return [];
+
+  // Composite IDs can collide when METI lists the same name twice for
+  // one country (separate branches) — merge their aliases.
+  const byId = new Map<string, CanonicalSanctionsEntry>();
+  for (let i = headerRow + 1; i < rows.length; i += 1) {
+    const entry = parseRow(rows[i] ?? [], idx);
+    if (!entry) continue;
+    const existing = byId.get(entry.entryId);
+    if (!existing) {
+      byId.set(entry.entryId, entry);
+      continue;
+    }
+    for (const n of entry.names) {
+      if (!existing.names.includes(n)) existing.names.push(n);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Extract the revision date from the title rows, e.g.
+ * "End User List (Revised on January 29, 2025)". Returns undefined if
+ * absent.
+ */
+export function extractMetiVersion(raw: string): string | undefined {
+  if (!raw) return undefined;
+  const head = raw.slice(0, 2048);
+  const m = head.match(
+    /Revised(?:\s+on)?[:\s]+([A-Z][a-z]+\.?\s+\d{1,2},\s*\d{4}|\d{4}[-/.]\d{1,2}[-/.]\d{1,2})/i,
+  );
+  return m?.[1];
+}
+
+export const metiEndUserListParser: SanctionsSourceParser = {
+  list: TradeSanctionsList.JP_METI_EUL,
+  defaultSourceUrl: DEFAULT_URL,
+  format: "xlsx",
+  parse: parseMetiEndUserList,
+  extractUpstreamVersion: extractMetiVersion,
+};
@@ -4,7 +4,8 @@
  * Shared types for sanctions-list source parsers (Wave A Sprint A2-A3).
  *
  * Each source (OFAC SDN, BIS Entity, DDTC Debarred, EU FSF, UK OFSI,
- * UN Consolidated) has its own parser file under `./{source}.ts`. They
+ * UN Consolidated, JP METI EUL, CA SEMA, AU DFAT, …) has its own parser
+ * file under `./{source}.ts`. They
  * all conform to the {@link SanctionsSourceParser} interface so the
  * sync orchestrator can iterate them uniformly.
  *
@@ -97,6 +98,14 @@ export interface SanctionsSourceParser {
   /** Default upstream URL — one canonical place to update if upstream changes. */
   defaultSourceUrl: string;
 
+  /**
+   * Upstream payload format. Omitted / "text" = CSV, XML or JSON read as
+   * text. "xlsx" = a workbook (METI, DFAT publish Excel only): the
+   * orchestrator fetches the bytes and hands `parse` the first
+   * worksheet as CSV, so the parser itself stays a pure text function.
+   */
+  format?: "text" | "xlsx";
+
   /**
    * Parse raw upstream content (CSV/XML/JSON depending on source) into
    * canonical entries. PURE function — no I/O, no console.log. Throws
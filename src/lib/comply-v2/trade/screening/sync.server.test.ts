@@ -13,6 +13,8 @@
  *      in `names` (the merged entry is what gets persisted).
  *   3. Primary fetch failure: a throw on the sdn.csv URL propagates as an
  *      ok=false SyncOneResult (outer try/catch).
+ *   4. JP / CA / AU sources: registration, and the xlsx → CSV conversion
+ *      for the workbook-only METI and DFAT lists.
  *
  * Mocking strategy (follows screen-party.server.test.ts pattern):
  *   - vi.hoisted() declares mock fns before vi.mock() factories run.
@@ -26,7 +28,8 @@
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as XLSX from "xlsx";
 
 // ─── Hoist mock fns before vi.mock() factories ───────────────────────────────
 
@@ -96,6 +99,7 @@ const UPSERT_OK = {
   hash: FAKE_SNAPSHOT.hash,
   entryCount: 2,
   snapshot: FAKE_SNAPSHOT,
+  delta: null,
 };
 
 /** The ofacSdnParser from REGISTERED_PARSERS (list === OFAC_SDN). */
@@ -273,3 +277,115 @@ describe("syncOneList (OFAC_SDN) — aliasMap empty → entries still persist",
     ).toContain("22222");
   });
 });
+
+// ─── JP / CA / AU national lists ─────────────────────────────────────────────
+//
+// METI and DFAT publish Excel workbooks only; the orchestrator converts the
+// first sheet to CSV before handing it to the (CSV) parser. These tests drive
+// that path through a stubbed global fetch returning real workbook bytes.
+
+function getParser(list: TradeSanctionsList) {
+  const p = REGISTERED_PARSERS.find((r) => r.list === list);
+  if (!p) throw new Error(`${list} parser not found in REGISTERED_PARSERS`);
+  return p;
+}
+
+function workbookBytes(rows: string[][]): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), "List");
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+describe("REGISTERED_PARSERS — national lists", () => {
+  it("registers JP_METI_EUL, CA_SEMA and AU_DFAT", () => {
+    const lists = REGISTERED_PARSERS.map((p) => p.list);
+    expect(lists).toContain(TradeSanctionsList.JP_METI_EUL);
+    expect(lists).toContain(TradeSanctionsList.CA_SEMA);
+    expect(lists).toContain(TradeSanctionsList.AU_DFAT);
+  });
+});
+
+describe("syncOneList (CA_SEMA) — XML text source", () => {
+  it("persists parsed records with the latest listing date as version", async () => {
+    const xml = `<data-set><record><Country>Russia</Country><EntityOrShip>Alpha Rail</EntityOrShip><Item>9</Item><DateOfListing>2024-01-05</DateOfListing></record></data-set>`;
+    const fetchOverride = vi.fn(async () => xml);
+
+    const result = await syncOneList(getParser(TradeSanctionsList.CA_SEMA), {
+      fetchOverride,
+    });
+
+    expect(result.ok).toBe(true);
+    const [upsertArg] = mockUpsertSnapshot.mock.calls[0];
+    expect(upsertArg.list).toBe(TradeSanctionsList.CA_SEMA);
+    expect(upsertArg.entries[0].entryId).toBe("CA-SEMA-RUSSIA-9");
+    expect(upsertArg.upstreamVersion).toBe("2024-01-05");
+  });
+});
+
+describe("syncOneList — snapshot delta", () => {
+  it("surfaces the upsert delta for delta rescreening", async () => {
+    const delta = {
+      previousHash: "0ld",
+      added: [],
+      changed: [],
+      removed: ["CA-SEMA-RUSSIA-1"],
+    };
+    mockUpsertSnapshot.mockResolvedValueOnce({ ...UPSERT_OK, delta });
+    const xml = `<data-set><record><Country>Russia</Country><EntityOrShip>Alpha Rail</EntityOrShip><Item>9</Item></record></data-set>`;
+
+    const result = await syncOneList(getParser(TradeSanctionsList.CA_SEMA), {
+      fetchOverride: async () => xml,
+    });
+
+    expect(result.delta).toEqual(delta);
+  });
+});
+
+describe("syncOneList (xlsx sources) — workbook → CSV", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("converts the METI workbook, keeping multi-line alias cells intact", async () => {
+    const bytes = workbookBytes([
+      ["End User List"],
+      ["(Revised on January 29, 2025)"],
+      [
+        "No.",
+        "Country or Region",
+        "Company or Organization",
+        "Also Known As",
+        "Type of WMD",
+      ],
+      ["1", "Iran", "Alpha Aerospace", "-AAI\n-Alpha Aero", "M"],
+    ]);
+    const fetchMock = vi.fn(async () => new Response(bytes, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await syncOneList(getParser(TradeSanctionsList.JP_METI_EUL));
+
+    expect(result.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [upsertArg] = mockUpsertSnapshot.mock.calls[0];
+    expect(upsertArg.entries).toHaveLength(1);
+    expect(upsertArg.entries[0].names).toEqual([
+      "alpha aerospace",
+      "aai",
+      "alpha aero",
+    ]);
+    expect(upsertArg.upstreamVersion).toBe("January 29, 2025");
+  });
+
+  it("returns ok=false when the workbook download fails", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("nope", { status: 503 })),
+    );
+
+    const result = await syncOneList(getParser(TradeSanctionsList.AU_DFAT));
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toMatch(/HTTP 503/);
+    expect(mockUpsertSnapshot).not.toHaveBeenCalled();
+  });
+});
@@ -8,7 +8,8 @@
  *
  * Fetch behavior:
  *   - 30s timeout per list (sanctions-list URLs occasionally hang)
- *   - Returns raw text body for the parser to consume
+ *   - Returns raw text body for the parser to consume; workbook sources
+ *     (parser.format "xlsx") get their first sheet converted to CSV
  *   - Logs HTTP status + content length to surface upstream issues
  *
  * Resilience:
@@ -23,6 +24,7 @@
 
 import "server-only";
 
+import * as XLSX from "xlsx";
 import { logger } from "@/lib/logger";
 import type { TradeSanctionsList } from "@prisma/client";
 import {
@@ -38,14 +40,18 @@ import { ukOfsiParser } from "./sources/uk-ofsi";
 import { unConsolidatedParser } from "./sources/un-consolidated";
 import { euAnnexIvParser } from "./sources/eu-annex-iv";
 import { openSanctionsParser } from "./sources/opensanctions";
+import { metiEndUserListParser } from "./sources/jp-meti-eul";
+import { canadaSemaParser } from "./sources/ca-sema";
+import { dfatConsolidatedParser } from "./sources/au-dfat";
 import type { SanctionsSourceParser } from "./sources/types";
-import { upsertSnapshot } from "./snapshot-store.server";
+import { upsertSnapshot, type SnapshotDelta } from "./snapshot-store.server";
 
 /**
- * Registered parsers for the orchestrator. All eight sources tracked by
+ * Registered parsers for the orchestrator. All eleven sources tracked by
  * TradeSanctionsList are now wired:
  *   OFAC_SDN · BIS_ENTITY · DDTC_DEBARRED · EU_FSF · UK_OFSI ·
- *   UN_CONSOLIDATED · EU_ANNEX_IV (Sprint Z2) · OPEN_SANCTIONS (Sprint Z9a)
+ *   UN_CONSOLIDATED · EU_ANNEX_IV (Sprint Z2) · OPEN_SANCTIONS (Sprint Z9a) ·
+ *   JP_METI_EUL · CA_SEMA · AU_DFAT
  *
  * EU_ANNEX_IV is distinct from EU_FSF — the FSF carries asset-freeze
  * obligations under Reg. 269/2014, while Annex IV (Reg. 833/2014
@@ -57,6 +63,11 @@ import { upsertSnapshot } from "./snapshot-store.server";
  * equivalent). Its hits carry primary-source attribution via FtM
  * `referents[]` so the operator can trace back to the originating
  * authority.
+ *
+ * JP_METI_EUL, CA_SEMA and AU_DFAT are the destination-authority lists
+ * for APAC and Canadian deals. The METI End User List is a licence
+ * trigger (FEFTA catch-all), not an asset freeze; the other two are
+ * asset-freeze lists.
  */
 export const REGISTERED_PARSERS: readonly SanctionsSourceParser[] = [
   ofacSdnParser,
@@ -67,6 +78,9 @@ export const REGISTERED_PARSERS: readonly SanctionsSourceParser[] = [
   unConsolidatedParser,
   euAnnexIvParser,
   openSanctionsParser,
+  metiEndUserListParser,
+  canadaSemaParser,
+  dfatConsolidatedParser,
 ] as const;
 
 const FETCH_TIMEOUT_MS = 30_000;
@@ -78,6 +92,11 @@ export interface SyncOneResult {
   changed: boolean;
   entryCount: number;
   hash?: string;
+  /**
+   * Entry-level diff against the previous snapshot, when a new snapshot
+   * was written on top of an existing one. Feeds delta rescreening.
+   */
+  delta?: SnapshotDelta | null;
   /** Present on failure. */
   error?: string;
   /** ms elapsed for this list. */
@@ -110,6 +129,8 @@ export async function syncOneList(
     let raw: string;
     if (options?.fetchOverride) {
       raw = await options.fetchOverride(url);
+    } else if (parser.format === "xlsx") {
+      raw = await fetchSheetAsCsv(url, FETCH_TIMEOUT_MS);
     } else {
       raw = await fetchWithTimeout(url, FETCH_TIMEOUT_MS);
     }
@@ -167,6 +188,13 @@ export async function syncOneList(
       changed: result.changed,
       entryCount: result.entryCount,
       hash: result.hash.slice(0, 12),
+      ...(result.delta
+        ? {
+            added: result.delta.added.length,
+            updated: result.delta.changed.length,
+            removed: result.delta.removed.length,
+          }
+        : {}),
     });
 
     return {
@@ -175,6 +203,7 @@ export async function syncOneList(
       changed: result.changed,
       entryCount: result.entryCount,
       hash: result.hash,
+      delta: result.delta,
       elapsedMs: Date.now() - start,
     };
   } catch (err) {
@@ -221,7 +250,13 @@ export async function syncAllLists(): Promise<SyncAllResult> {
   // largest list (consolidated CSV, ~10 MB), not by parallelism.
   const results: SyncOneResult[] = [];
   for (const parser of REGISTERED_PARSERS) {
-    results.push(await syncOneList(parser, { fetchOverride: fetchOnce }));
+    // Workbook sources are never shared with a text source — fetch
+    // them directly instead of through the text cache.
+    const fetchOverride =
+      parser.format === "xlsx"
+        ? (url: string) => fetchSheetAsCsv(url, FETCH_TIMEOUT_MS)
+        : fetchOnce;
+    results.push(await syncOneList(parser, { fetchOverride }));
   }
   return {
     totalElapsedMs: Date.now() - start,
@@ -229,12 +264,37 @@ export async function syncAllLists(): Promise<SyncAllResult> {
   };
 }
 
+/**
+ * Fetch an Excel workbook and return its first worksheet as CSV, so
+ * workbook parsers consume the same text shape as CSV sources. Cells
+ * with line breaks stay quoted (RFC 4180), which parseCsv handles.
+ */
+async function fetchSheetAsCsv(url: string, ms: number): Promise<string> {
+  const bytes = await fetchWithTimeout(url, ms, "bytes");
+  const workbook = XLSX.read(bytes, { type: "buffer" });
+  const firstSheet = workbook.SheetNames[0];
+  if (!firstSheet) throw new Error(`Empty workbook from ${url}`);
+  return XLSX.utils.sheet_to_csv(workbook.Sheets[firstSheet]!, {
+    blankrows: false,
+  });
+}
+
 /**
  * Fetch with a manual AbortController timeout. node-fetch / undici
  * doesn't honor a `timeout` option directly in all Node versions, so
  * we wrap explicitly.
  */
-async function fetchWithTimeout(url: string, ms: number): Promise<string> {
+async function fetchWithTimeout(url: string, ms: number): Promise<string>;
+async function fetchWithTimeout(
+  url: string,
+  ms: number,
+  as: "bytes",
+): Promise<Buffer>;
+async function fetchWithTimeout(
+  url: string,
+  ms: number,
+  as: "text" | "bytes" = "text",
+): Promise<string | Buffer> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), ms);
   try {
@@ -251,7 +311,9 @@ async function fetchWithTimeout(url: string, ms: number): Promise<string> {
     if (!res.ok) {
       throw new Error(`HTTP ${res.status} ${res.statusText} from ${url}`);
     }
-    return await res.text();
+    return as === "bytes"
+      ? Buffer.from(await res.arrayBuffer())
+      : await res.text();
   } finally {
     clearTimeout(timer);
   }
@@ -0,0 +1,149 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Tests for transliteration.ts — per-scheme Cyrillic output, Pinyin
+ * (incl. compound surnames), Arabic, alias folding and the phonetic key.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  aliasKey,
+  hasTransliterableScript,
+  nameVariants,
+  phoneticKey,
+  transliterateArabic,
+  transliterateCyrillic,
+  transliterateHan,
+} from "./transliteration";
+
+describe("transliterateCyrillic", () => {
+  it("renders each scheme's spelling of й / ж / х / ю", () => {
+    expect(transliterateCyrillic("Юрий Жуков", "iso9")).toBe("ûrij žukov");
+    expect(transliterateCyrillic("Юрий Жуков", "bgn-pcgn")).toBe(
+      "yuriy zhukov",
+    );
+    expect(transliterateCyrillic("Юрий Жуков", "icao-9303")).toBe(
+      "iurii zhukov",
+    );
+  });
+
+  it("applies the BGN/PCGN ye rule word-initially and after vowels", () => {
+    expect(transliterateCyrillic("Евгений Сергеев", "bgn-pcgn")).toBe(
+      "yevgeniy sergeyev",
+    );
+  });
+
+  it("uses Ukrainian values for г and и when the name is Ukrainian", () => {
+    expect(transliterateCyrillic("Григорій", "bgn-pcgn")).toBe("hryhoriy");
+  });
+
+  it("passes non-Cyrillic characters through", () => {
+    expect(transliterateCyrillic("ООО Ромашка-2", "bgn-pcgn")).toBe(
+      "ooo romashka-2",
+    );
+  });
+});
+
+describe("transliterateHan", () => {
+  it("returns syllabic and personal-name renderings", () => {
+    expect(transliterateHan("王小明")).toEqual([
+      "wang xiao ming",
+      "wang xiaoming",
+    ]);
+  });
+
+  it("keeps two-character compound surnames together", () => {
+    expect(transliterateHan("欧阳娜娜")).toEqual([
+      "ou yang na na",
+      "ouyang nana",
+    ]);
+  });
+
+  it("renders company names syllabically only", () => {
+    expect(transliterateHan("华为技术有限公司")).toEqual([
+      "hua wei ji shu you xian gong si",
+    ]);
+  });
+
+  it("handles traditional characters", () => {
+    expect(transliterateHan("陳大文")).toContain("chen dawen");
+  });
+
+  it("returns [] when no character is known", () => {
+    expect(transliterateHan("龘")).toEqual([]);
+  });
+});
+
+describe("transliterateArabic", () => {
+  it("writes consonants and long vowels, splitting off the article", () => {
+    expect(transliterateArabic("محمد الحسين")).toBe("mhmd al hsin");
+  });
+});
+
+describe("aliasKey", () => {
+  it("folds romanisations of one name to the class representative", () => {
+    expect(aliasKey("sergey ivanov")).toBe("sergei ivanov");
+    expect(aliasKey("serhii ivanov")).toBe("sergei ivanov");
+    expect(aliasKey("mohammed bin salman")).toBe("muhammad bin salman");
+    expect(aliasKey("mohamed ibn salman")).toBe("muhammad bin salman");
+  });
+
+  it("leaves unknown tokens alone", () => {
+    expect(aliasKey("acme widgets")).toBe("acme widgets");
+  });
+});
+
+describe("phoneticKey", () => {
+  it("gives sound-alike spellings the same key", () => {
+    expect(phoneticKey("mohammed al hussein")).toBe(
+      phoneticKey("muhammad el husayn"),
+    );
+    expect(phoneticKey("ivanov")).toBe(phoneticKey("ivanoff"));
+    expect(phoneticKey("yusuf")).toBe(phoneticKey("iusuf"));
+  });
+
+  it("keeps repeated consonants separated by a vowel", () => {
+    expect(phoneticKey("mama")).toBe("mm");
+  });
+
+  it("ignores non-Latin tokens", () => {
+    expect(phoneticKey("сергей")).toBe("");
+  });
+});
+
+describe("nameVariants", () => {
+  it("returns the Cyrillic schemes, deduplicated and canonicalized", () => {
+    expect(nameVariants("Сергей Иванов")).toEqual([
+      { scheme: "bgn-pcgn", text: "sergey ivanov" },
+      { scheme: "icao-9303", text: "sergei ivanov" },
+      { scheme: "iso9", text: "sergej ivanov" },
+    ]);
+  });
+
+  it("adds alias folds of the transliterations", () => {
+    const variants = nameVariants("Евгений Пригожин");
+    expect(variants).toContainEqual({
+      scheme: "alias",
+      text: "evgeny prigozhin",
+    });
+  });
+
+  it("yields only the alias fold for a Latin name, or nothing", () => {
+    expect(nameVariants("Sergey Ivanov")).toEqual([
+      { scheme: "alias", text: "sergei ivanov" },
+    ]);
+    expect(nameVariants("Acme Widgets GmbH")).toEqual([]);
+    expect(nameVariants("")).toEqual([]);
+  });
+});
+
+describe("hasTransliterableScript", () => {
+  it("detects Cyrillic, Arabic and Han", () => {
+    expect(hasTransliterableScript("иванов")).toBe(true);
+    expect(hasTransliterableScript("محمد")).toBe(true);
+    expect(hasTransliterableScript("王")).toBe(true);
+    expect(hasTransliterableScript("müller")).toBe(false);
+  });
+});
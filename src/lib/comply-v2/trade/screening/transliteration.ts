@@ -0,0 +1,505 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Name-variant generation for sanctions screening: transliteration,
+ * known-alias expansion and a phonetic key.
+ *
+ * Problem: fuzzy-match.ts compares canonical strings character by
+ * character. "Сергей Иванов" and "Sergey Ivanov" share no characters,
+ * so a counterparty entered in Cyrillic (or Arabic, or Chinese) never
+ * reaches the Jaro-Winkler threshold against its Latin-script listing —
+ * a silent false negative, the worst outcome in screening.
+ *
+ * Pipeline (each step yields extra query forms; the original canonical
+ * form is always scored too):
+ *   1. Transliteration, several schemes per script, because the lists
+ *      themselves are inconsistent about which one they use:
+ *        Cyrillic  ISO 9:1995        (Сергей → sergej)
+ *                  BGN/PCGN 1947     (Сергей → sergey; OFAC, UK)
+ *                  ICAO Doc 9303     (Сергей → sergei; passports)
+ *        Han       Hanyu Pinyin      (王小明 → wang xiaoming)
+ *        Arabic    UNGEGN-simplified (محمد → mhmd, vowels mostly unwritten)
+ *   2. Known-alias expansion: given names with many romanisations
+ *      (Sergei/Sergey/Serhii, Mohammed/Muhammad/Mohamed, …) fold to one
+ *      representative on both sides of the comparison.
+ *   3. Phonetic key: a consonant skeleton (vowels dropped, sound-alike
+ *      consonants merged) that lines up transliterations no table
+ *      anticipated — "mhmd" vs "mohammed", "ivanoff" vs "ivanov".
+ *
+ * All outputs are run through canonicalizeName() so they compare on the
+ * same footing as every other name in the engine. Pure functions; the
+ * Pinyin table is in ./pinyin-table.ts.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { canonicalizeName } from "./sources/types";
+import { COMPOUND_SURNAMES, PINYIN } from "./pinyin-table";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type NameVariantScheme =
+  | "iso9"
+  | "bgn-pcgn"
+  | "icao-9303"
+  | "pinyin"
+  | "arabic"
+  | "alias";
+
+export interface NameVariant {
+  scheme: NameVariantScheme;
+  /** Canonicalized text of the variant. */
+  text: string;
+}
+
+/** Human label per scheme, for the screening explanation. */
+export const NAME_VARIANT_LABEL: Record<
+  NameVariantScheme | "phonetic",
+  string
+> = {
+  iso9: "ISO 9 transliteration",
+  "bgn-pcgn": "BGN/PCGN transliteration",
+  "icao-9303": "ICAO 9303 (passport) transliteration",
+  pinyin: "Pinyin transliteration",
+  arabic: "Arabic transliteration",
+  alias: "known name variant",
+  phonetic: "phonetic similarity",
+};
+
+// ─── Cyrillic ───────────────────────────────────────────────────────
+
+const CYRILLIC_RE = /\p{Script=Cyrillic}/u;
+const ARABIC_RE = /\p{Script=Arabic}/u;
+const HAN_RE = /\p{Script=Han}/u;
+/** Letters unique to Ukrainian — switch г/и to their Ukrainian values. */
+const UKRAINIAN_RE = /[ґєії]/u;
+
+type CyrillicScheme = "iso9" | "bgn-pcgn" | "icao-9303";
+
+/** Letters common to all three schemes. */
+const CYRILLIC_BASE: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  з: "z",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  ы: "y",
+  і: "i",
+  ў: "u",
+};
+
+/**
+ * Scheme-specific letters. ISO 9 output keeps its diacritics here
+ * (ž, č, š, ŝ, û, â); canonicalizeName() strips them afterwards.
+ */
+const CYRILLIC_SCHEME: Record<CyrillicScheme, Record<string, string>> = {
+  iso9: {
+    е: "e",
+    ё: "ë",
+    ж: "ž",
+    и: "i",
+    й: "j",
+    х: "h",
+    ц: "c",
+    ч: "č",
+    ш: "š",
+    щ: "ŝ",
+    ъ: "",
+    ь: "",
+    э: "è",
+    ю: "û",
+    я: "â",
+    ґ: "g",
+    є: "ê",
+    ї: "ï",
+  },
+  "bgn-pcgn": {
+    е: "e",
+    ё: "e",
+    ж: "zh",
+    и: "i",
+    й: "y",
+    х: "kh",
+    ц: "ts",
+    ч: "ch",
+    ш: "sh",
+    щ: "shch",
+    ъ: "",
+    ь: "",
+    э: "e",
+    ю: "yu",
+    я: "ya",
+    ґ: "g",
+    є: "ye",
+    ї: "yi",
+  },
+  "icao-9303": {
+    е: "e",
+    ё: "e",
+    ж: "zh",
+    и: "i",
+    й: "i",
+    х: "kh",
+    ц: "ts",
+    ч: "ch",
+    ш: "sh",
+    щ: "shch",
+    ъ: "ie",
+    ь: "",
+    э: "e",
+    ю: "iu",
+    я: "ia",
+    ґ: "g",
+    є: "ie",
+    ї: "i",
+  },
+};
+
+const CYRILLIC_VOWELS = new Set("аеёиоуыэюяієї");
+
+/**
+ * Transliterate the Cyrillic letters of `raw` under one scheme. Non-
+ * Cyrillic characters pass through. Output is lowercase, NOT yet
+ * canonicalized.
+ */
+export function transliterateCyrillic(
+  raw: string,
+  scheme: CyrillicScheme,
+): string {
+  const s = raw.toLowerCase();
+  const ukrainian = UKRAINIAN_RE.test(s);
+  const table = CYRILLIC_SCHEME[scheme];
+  let out = "";
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i]!;
+    const prev = i > 0 ? s[i - 1]! : " ";
+    if (scheme === "bgn-pcgn" && (ch === "е" || ch === "ё")) {
+      // BGN/PCGN: "ye" word-initially and after a vowel, й, ъ or ь.
+      const initial = !CYRILLIC_RE.test(prev);
+      out +=
+        initial || CYRILLIC_VOWELS.has(prev) || "йъь".includes(prev)
+          ? "ye"
+          : "e";
+      continue;
+    }
+    if (ukrainian && ch === "г") {
+      out += scheme === "icao-9303" ? "g" : "h";
+      continue;
+    }
+    if (ukrainian && ch === "и") {
+      out += "y";
+      continue;
+    }
+    out += table[ch] ?? CYRILLIC_BASE[ch] ?? ch;
+  }
+  return out;
+}
+
+// ─── Arabic ─────────────────────────────────────────────────────────
+
+const ARABIC_LETTERS: Record<string, string> = {
+  ا: "a",
+  أ: "a",
+  إ: "i",
+  آ: "a",
+  ٱ: "a",
+  ء: "",
+  ؤ: "",
+  ئ: "",
+  ب: "b",
+  ت: "t",
+  ة: "a",
+  ث: "th",
+  ج: "j",
+  ح: "h",
+  خ: "kh",
+  د: "d",
+  ذ: "dh",
+  ر: "r",
+  ز: "z",
+  س: "s",
+  ش: "sh",
+  ص: "s",
+  ض: "d",
+  ط: "t",
+  ظ: "z",
+  ع: "",
+  غ: "gh",
+  ف: "f",
+  ق: "q",
+  ك: "k",
+  ل: "l",
+  م: "m",
+  ن: "n",
+  ه: "h",
+  ى: "a",
+  // Persian / Urdu additions
+  پ: "p",
+  چ: "ch",
+  ژ: "zh",
+  گ: "g",
+  ک: "k",
+  // Short-vowel marks (harakat), rarely written in names
+  "َ": "a",
+  "ُ": "u",
+  "ِ": "i",
+};
+
+/**
+ * Transliterate Arabic-script letters (simplified UNGEGN). Waw and ya
+ * are read as consonants (w, y) word-initially and as long vowels (u, i)
+ * elsewhere; the article ال becomes a separate "al" token. Short vowels
+ * are usually unwritten, so "محمد" → "mhmd" — the phonetic key is what
+ * lines that up with "Mohammed".
+ */
+export function transliterateArabic(raw: string): string {
+  return raw
+    .split(/\s+/)
+    .map((word) => {
+      let w = word;
+      let prefix = "";
+      if (w.length > 3 && w.startsWith("ال")) {
+        prefix = "al ";
+        w = w.slice(2);
+      }
+      let out = "";
+      for (let i = 0; i < w.length; i++) {
+        const ch = w[i]!;
+        if (ch === "و") out += i === 0 ? "w" : "u";
+        else if (ch === "ي" || ch === "ی") out += i === 0 ? "y" : "i";
+        else out += ARABIC_LETTERS[ch] ?? (ARABIC_RE.test(ch) ? "" : ch);
+      }
+      return prefix + out;
+    })
+    .join(" ");
+}
+
+// ─── Han (Pinyin) ───────────────────────────────────────────────────
+
+/**
+ * Pinyin renderings of a Han-script name. Returns:
+ *   - syllable-separated ("wang xiao ming") — always
+ *   - personal-name style ("wang xiaoming", surname + joined given
+ *     name) — only for 2–4 character names, the shape of a Chinese
+ *     personal name
+ * Returns [] when no character is in the table.
+ */
+export function transliterateHan(raw: string): string[] {
+  const chars = Array.from(raw.replace(/\s+/g, ""));
+  if (!chars.some((c) => PINYIN.has(c))) return [];
+  const syllables = chars.map((c) => PINYIN.get(c) ?? c);
+  const results = [syllables.join(" ")];
+
+  const allHan = chars.every((c) => HAN_RE.test(c));
+  if (allHan && chars.length >= 2 && chars.length <= 4) {
+    const surnameLen =
+      chars.length >= 3 && COMPOUND_SURNAMES.has(chars[0]! + chars[1]!) ? 2 : 1;
+    results.push(
+      `${syllables.slice(0, surnameLen).join("")} ${syllables.slice(surnameLen).join("")}`,
+    );
+  }
+  return results;
+}
+
+// ─── Known aliases ──────────────────────────────────────────────────
+
+/**
+ * Equivalence classes of given names / name particles that are the same
+ * name in different romanisations, one space-separated class per line;
+ * the first spelling is the class representative. Deliberately limited
+ * to spellings of ONE name — never translations (Pyotr ≠ Peter) — so
+ * alias folding cannot merge two genuinely different people.
+ */
+const ALIAS_CLASSES: readonly string[] = [
+  // Russian / Ukrainian / Belarusian
+  "aleksandr alexander alexandr aleksander oleksandr olexander alyaksandr",
+  "aleksei alexei alexey aleksey alexej aleksej oleksii oleksiy",
+  "andrei andrey andrej andrii andriy",
+  "anatoly anatoliy anatolii anatolij",
+  "arkady arkadiy arkadii arkadij",
+  "dmitry dmitri dmitriy dmitrii dmitrij dimitri",
+  "evgeny yevgeny evgeniy yevgeniy evgenii yevgenii jevgenij evgenij",
+  "fyodor fedor fiodor fjodor",
+  "gennady gennadiy gennadii gennadij",
+  "georgy georgiy georgii georgij gueorgui",
+  "igor ihor",
+  "maxim maksim maksym",
+  "mikhail michail mykhailo mikhael",
+  "nikolai nikolay nicolai nikolaj mykola",
+  "pyotr petr pjotr",
+  "sergei sergey sergej serguei serhii serhiy sergii sergiy",
+  "valery valeriy valerii valerij",
+  "vitaly vitaliy vitalii vitalij",
+  "vladimir wladimir volodymyr",
+  "yuri yury yuriy yurii iurii iouri jurij juri",
+  "elena yelena jelena olena",
+  "irina iryna",
+  "natalia natalya nataliya natalja",
+  "olga olha",
+  "tatiana tatyana tatjana tetiana tetyana",
+  "yulia yuliya julia iuliia julija",
+  // Arabic / Persian / Turkish
+  "muhammad mohammad mohammed mohamed muhammed mohamad mohamud mehmet mohd",
+  "ahmad ahmed ahmet",
+  "hussein husain hussain husayn hossein huseyin husein",
+  "hassan hasan",
+  "abdullah abdallah abdulla",
+  "usama osama usamah",
+  "yusuf yousef youssef yousuf yusef yossef",
+  "umar omar",
+  "uthman othman osman usman",
+  "khalid khaled",
+  "mustafa mostafa moustafa mustapha",
+  "mahmoud mahmud mahmood",
+  "ibrahim ebrahim",
+  "qasim kasim qassem qasem kassem qassim",
+  "jafar jaafar djafar dzhafar",
+  "abd abdul abdel abdal",
+  "al el",
+  "bin ibn ben",
+];
+
+const ALIAS_REPRESENTATIVE: ReadonlyMap<string, string> = (() => {
+  const map = new Map<string, string>();
+  for (const cls of ALIAS_CLASSES) {
+    const spellings = cls.split(" ");
+    for (const spelling of spellings) map.set(spelling, spellings[0]!);
+  }
+  return map;
+})();
+
+/**
+ * Fold every token of a canonical name to its alias-class
+ * representative. "sergey ivanov" and "serhii ivanov" both become
+ * "sergei ivanov". Tokens outside every class pass through unchanged.
+ */
+export function aliasKey(canonical: string): string {
+  return canonical
+    .split(" ")
+    .map((t) => ALIAS_REPRESENTATIVE.get(t) ?? t)
+    .join(" ");
+}
+
+// ─── Phonetic key ───────────────────────────────────────────────────
+
+/** Multi-letter spellings of one sound, longest first. */
+const PHONETIC_DIGRAPHS: ReadonlyArray<[RegExp, string]> = [
+  [/shch|sch/g, "s"],
+  [/dzh|dj/g, "j"],
+  [/kh|gh/g, "h"],
+  [/ph/g, "f"],
+  [/th/g, "t"],
+  [/dh/g, "d"],
+  [/zh/g, "j"],
+  [/sh/g, "s"],
+  [/tch|ch|ts|tz/g, "c"],
+  [/ck/g, "k"],
+  [/x/g, "ks"],
+];
+
+/** Single letters merged into one code. */
+const PHONETIC_LETTER: Record<string, string> = {
+  q: "k",
+  z: "s",
+  w: "f",
+  v: "f",
+};
+
+const PHONETIC_VOWELS = new Set(["a", "e", "i", "o", "u", "y", "j"]);
+
+function phoneticToken(token: string): string {
+  let t = token;
+  for (const [re, to] of PHONETIC_DIGRAPHS) t = t.replace(re, to);
+  let key = "";
+  let last = "";
+  for (let i = 0; i < t.length; i++) {
+    const ch = t[i]!;
+    if (PHONETIC_VOWELS.has(ch)) {
+      // Vowels (and the semivowels y/j) only count word-initially, as a
+      // generic marker — "yusuf", "iusuf" and "jusuf" share a key.
+      if (i === 0) key += "a";
+      last = "";
+      continue;
+    }
+    const code = PHONETIC_LETTER[ch] ?? ch;
+    // Collapse doubled letters ("mm", "ff"), not repeats across a vowel.
+    if (code !== last) key += code;
+    last = code;
+  }
+  return key;
+}
+
+/**
+ * Phonetic key of a canonical (Latin) name: per token, a consonant
+ * skeleton with sound-alike spellings merged. Non-Latin tokens yield "".
+ *
+ *   "mohammed al hussein" → "mhmd al hsn"
+ *   "muhammad el husayn"  → "mhmd al hsn"
+ */
+export function phoneticKey(canonical: string): string {
+  return canonical
+    .split(" ")
+    .filter((t) => /^[a-z0-9]+$/.test(t))
+    .map(phoneticToken)
+    .filter(Boolean)
+    .join(" ");
+}
+
+// ─── Variant generation ─────────────────────────────────────────────
+
+/**
+ * Every transliteration + alias variant of a RAW name (pass the display
+ * name, not the canonical one: canonicalizeName's diacritic strip turns
+ * й into и and ё into е, which loses the ISO 9 / BGN distinctions).
+ *
+ * Returns canonicalized variants, deduplicated, excluding the plain
+ * canonical form of `raw` itself (the caller scores that anyway). An
+ * all-Latin name yields at most its alias variant.
+ */
+export function nameVariants(raw: string): NameVariant[] {
+  if (!raw) return [];
+  const base = canonicalizeName(raw);
+  const seen = new Set<string>([base]);
+  const out: NameVariant[] = [];
+  const push = (scheme: NameVariantScheme, text: string) => {
+    const canonical = canonicalizeName(text);
+    if (!canonical || seen.has(canonical)) return;
+    seen.add(canonical);
+    out.push({ scheme, text: canonical });
+  };
+
+  if (CYRILLIC_RE.test(raw)) {
+    push("bgn-pcgn", transliterateCyrillic(raw, "bgn-pcgn"));
+    push("icao-9303", transliterateCyrillic(raw, "icao-9303"));
+    push("iso9", transliterateCyrillic(raw, "iso9"));
+  }
+  if (HAN_RE.test(raw)) {
+    for (const text of transliterateHan(raw)) push("pinyin", text);
+  }
+  if (ARABIC_RE.test(raw)) {
+    push("arabic", transliterateArabic(raw));
+  }
+
+  // Alias-fold the original and every transliteration.
+  for (const form of [base, ...out.map((v) => v.text)]) {
+    push("alias", aliasKey(form));
+  }
+  return out;
+}
+
+/** True when `s` contains Cyrillic, Arabic or Han script. */
+export function hasTransliterableScript(s: string): boolean {
+  return CYRILLIC_RE.test(s) || ARABIC_RE.test(s) || HAN_RE.test(s);
+}
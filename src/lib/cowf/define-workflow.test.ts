@@ -11,6 +11,7 @@
  *   6. Validates decision branch step keys exist
  *   7. Validates decision branch.to ∈ states
  *   8. Validates waitForEvent.onTimeout points to a real step key
+ *      and leaves the same state as the wait step
  *   9. Validates at least one step exits initialState
  *  10. Concrete workflow: W3 (Continuous Compliance Heartbeat) loads + validates
  */
@@ -243,6 +244,49 @@ describe("defineWorkflow — validation", () => {
     ).toThrow(/onTimeout "ghost-step"/);
   });
 
+  it("rejects waitForEvent.onTimeout leaving a different state", () => {
+    expect(() =>
+      defineWorkflow({
+        name: "x",
+        version: 1,
+        description: "x",
+        states: ["A", "B", "C"],
+        initialState: "A",
+        steps: {
+          wait: step.waitForEvent({
+            key: "wait",
+            from: "A",
+            to: "B",
+            eventType: "x.y",
+            onTimeout: "late",
+          }),
+          late: step.action({ key: "late", from: "B", to: "C", run: vi.fn() }),
+        },
+      }),
+    ).toThrow(/must leave the same state "A"/);
+  });
+
+  it("rejects approval.rejectTo outside states", () => {
+    expect(() =>
+      defineWorkflow({
+        name: "x",
+        version: 1,
+        description: "x",
+        states: ["A", "B"],
+        initialState: "A",
+        steps: {
+          ap: step.approval({
+            key: "ap",
+            from: "A",
+            to: "B",
+            requireRoles: ["OPERATOR"],
+            rejectTo: "GHOST",
+          }),
+        },
+      }),
+    ).toThrow(/rejectTo "GHOST"/);
+  });
+
   it("rejects workflow with no step exiting initialState", () => {
     expect(() =>
       defineWorkflow({
@@ -183,15 +183,34 @@ function validate(
     }
   }
 
-  // waitForEvent.onTimeout must reference an existing step key
+  // waitForEvent.onTimeout must reference an existing step key that
+  // leaves the same state (the executor fires it while still waiting)
+  const stepByKey = new Map(stepEntries);
+  for (const [key, handle] of stepEntries) {
+    if (handle.stored.kind !== "waitForEvent" || !handle.stored.onTimeout) {
+      continue;
+    }
+    const target = stepByKey.get(handle.stored.onTimeout);
+    if (!target) {
+      issues.push(
+        `waitForEvent step "${key}" onTimeout "${handle.stored.onTimeout}" is not a step key`,
+      );
+    } else if (target.stored.from !== handle.stored.from) {
+      issues.push(
+        `waitForEvent step "${key}" onTimeout "${handle.stored.onTimeout}" must leave the same state "${handle.stored.from}"`,
+      );
+    }
+  }
+
+  // approval.rejectTo must be a known state
   for (const [key, handle] of stepEntries) {
     if (
-      handle.stored.kind === "waitForEvent" &&
-      handle.stored.onTimeout &&
-      !seenKeys.has(handle.stored.onTimeout)
+      handle.stored.kind === "approval" &&
+      handle.stored.rejectTo &&
+      !stateSet.has(handle.stored.rejectTo)
     ) {
       issues.push(
-        `waitForEvent step "${key}" onTimeout "${handle.stored.onTimeout}" is not a step key`,
+        `approval step "${key}" rejectTo "${handle.stored.rejectTo}" not in states`,
       );
     }
   }
@@ -56,7 +56,7 @@ const workflowEvent = (prisma as any).workflowEvent;
  * dates, Buffer→hex). Two callers with the same logical value produce
  * the same byte string regardless of object-key order.
  */
-function canonicalize(value: unknown): string {
+export function canonicalize(value: unknown): string {
   if (value === null || value === undefined) return "null";
   if (typeof value === "string") return JSON.stringify(value);
   if (typeof value === "number" || typeof value === "boolean")
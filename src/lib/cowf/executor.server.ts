@@ -12,20 +12,31 @@
  *      possibly transitions the workflow's currentState, and may
  *      schedule the NEXT auto-fire step
  *
- * **Sprint 3D scope:**
+ * **Scope:**
  *
  *   - **Action executor** — fully wired (calls user-provided run, advances state)
  *   - **Decision executor** — fully wired (predicate eval + branch routing)
- *   - **Astra / Form / Approval / WaitForEvent / QES** — STUB executors
- *     that emit STEP_STARTED only. They're "waiting" steps — execution
- *     completes when an external event arrives (Astra-V2 callback, form
- *     submit, approval click, listener fire, D-Trust callback).
+ *   - **Form / Approval / WaitForEvent / QES executors** — "waiting"
+ *     steps. The first execution opens a *round* (approval slots, SLA +
+ *     escalation schedules, event listener + timeout schedule, signing
+ *     request). The step then completes when an external input is
+ *     recorded in the chain by `submissions.server.ts` (form submit,
+ *     approval decision, published event, signing callback) or a timer
+ *     schedule fires.
+ *   - **Astra** — STUB executor that emits STEP_STARTED only. The
+ *     ASTRA_REASONING event + AstraProposal generation lands in a future
+ *     sprint that wires `comply-v2/astra-engine.server.ts`.
  *
- *   The stubs unblock W3 today (it uses action + decision + astra).
- *   Action + Decision drive the heartbeat → snapshot → drift-decision →
- *   close path end-to-end. Astra-stub emits STEP_STARTED but the
- *   ASTRA_REASONING event + AstraProposal generation lands in a future
- *   sprint that wires `comply-v2/astra-engine.server.ts`.
+ * **Resumable waiting steps:**
+ *
+ *   Re-executing a waiting step whose round is open does NOT start it
+ *   again. Instead the executor replays the round from WorkflowEvent
+ *   history (`step-replay.ts`) and *settles* it: a recorded submission,
+ *   a reached (or unreachable) approval quorum, a fired listener or a
+ *   signing callback completes the step; otherwise any due SLA / escalation / timeout
+ *   timers are recorded. Heartbeat ticks, submission services and
+ *   crash-recovery all go through this same path, so the chain is the
+ *   only state that matters.
  *
  * **Auto-fire propagation:**
  *
@@ -35,6 +46,10 @@
  *   so a chain of action+decision steps runs to completion in one
  *   invocation.
  *
+ *   If no step auto-fires in the new state, the waiting steps leaving it
+ *   are opened instead, so forms, approvals and listeners are armed the
+ *   moment the workflow arrives — no bespoke glue per workflow.
+ *
  *   Recursion has a hard cap (MAX_AUTO_CHAIN_DEPTH=20) to prevent
  *   infinite loops on misconfigured workflows. Sprint 3B's validator
  *   should catch most cycles, but the runtime cap is defence-in-depth.
@@ -44,12 +59,24 @@ import "server-only";
 
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
-import { appendWorkflowEvent } from "./events.server";
+import type { WorkflowDef } from "./define-workflow";
+import { appendWorkflowEvent, loadEvents } from "./events.server";
 import { advanceState } from "./instances.server";
+import { requestSignatures, type SignedArtifact } from "./qes/signing.server";
+import { translateMigratedEvents } from "./migrations";
 import { getWorkflowDefById } from "./registry.server";
-import type { StepContext } from "./steps";
-import type { StoredStep } from "./types";
-import { WorkflowEventType } from "./types";
+import { cancelSchedulesForStep, createSchedule } from "./scheduling.server";
+import {
+  buildStateBag,
+  findStepRound,
+  stepTimers,
+  tallyApprovals,
+  timerFired,
+  type StepRound,
+} from "./step-replay";
+import type { StepContext, StepHandlers } from "./steps";
+import type { StoredStep, WorkflowEventRow } from "./types";
+import { ListenerStatus, WorkflowEventType } from "./types";
 
 /** Hard cap on auto-fire recursion. Prevents stuck workflows from blowing the stack. */
 export const MAX_AUTO_CHAIN_DEPTH = 20;
@@ -74,7 +101,8 @@ export interface ExecuteStepResult {
     | "step-not-found"
     | "state-mismatch"
     | "max-depth-reached"
-    | "stub-step-type";
+    | "stub-step-type"
+    | "already-waiting";
   /** State after execution, if it changed. */
   newState?: string;
   /** Did the executor recurse into a follow-up auto-fire step? */
@@ -84,6 +112,8 @@ export interface ExecuteStepResult {
 /**
  * Run a single step. Idempotent against state-mismatch — if the workflow
  * has already advanced past the step's `from` state, we skip cleanly.
+ * Waiting steps with an open round are settled from history instead of
+ * being started twice.
  */
 export async function executeStep(
   input: ExecuteStepInput,
@@ -102,11 +132,88 @@ export async function executeStep(
     };
   }
 
-  // 1. Load instance + def
+  // 1-4. Load instance + def + step, guard state, build context
+  const loaded = await loadStepRuntime(input.workflowId, input.stepKey);
+  if ("skipReason" in loaded) {
+    return {
+      fired: false,
+      skipReason: loaded.skipReason,
+      autoFiredNext: false,
+    };
+  }
+  const runtime = loaded;
+  const { step, ctx } = runtime;
+
+  // Waiting step already open → settle from history, don't restart.
+  if (isWaitingStep(step)) {
+    const round = findStepRound(runtime.events, step.key, step.from);
+    if (round.started && !round.closed) {
+      return settleWaitingStep(runtime, round, input, depth);
+    }
+  }
+
+  // 5. Emit STEP_STARTED event
+  const started = await appendWorkflowEvent({
+    workflowId: input.workflowId,
+    eventType: WorkflowEventType.STEP_STARTED,
+    causedBy: input.causedBy,
+    payload: {
+      stepKey: input.stepKey,
+      stepKind: step.kind,
+      fromState: step.from,
+    },
+  });
+
+  // 6. Dispatch to kind-handler
+  const handlers = runtime.def.handlers.get(input.stepKey);
+  let outcome: DispatchOutcome;
+  try {
+    outcome = await dispatch(step, ctx, handlers, input, {
+      events: runtime.events,
+      startedAt: started.occurredAt,
+    });
+  } catch (err) {
+    await recordStepError(input, step, err);
+    return { fired: true, autoFiredNext: false };
+  }
+
+  // 7. If the handler did NOT transition (e.g. waiting steps), we're done.
+  if (!outcome.transitionedTo) {
+    return { fired: true, autoFiredNext: false };
+  }
+
+  // 8-10. Advance state, STEP_COMPLETED, auto-fire chain
+  return finishStep(runtime, outcome, input, depth);
+}
+
+// ─── Step runtime ──────────────────────────────────────────────────────────
+
+/** Everything a step needs at fire time, loaded once per invocation. */
+export interface StepRuntime {
+  def: WorkflowDef;
+  step: StoredStep;
+  ctx: StepContext;
+  /** Full event chain, ascending — the source for replay. */
+  events: WorkflowEventRow[];
+}
+
+type SkipReason = NonNullable<ExecuteStepResult["skipReason"]>;
+
+/**
+ * Load instance, registered def and step, apply the completed / state-
+ * mismatch guards and build the StepContext. The state-bag is replayed
+ * from the outputs recorded on prior STEP_COMPLETED events. Shared with
+ * `submissions.server.ts` so submissions see exactly what the executor
+ * sees.
+ */
+export async function loadStepRuntime(
+  workflowId: string,
+  stepKey: string,
+): Promise<StepRuntime | { skipReason: SkipReason }> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const operatorWorkflowInstance = (prisma as any).operatorWorkflowInstance;
   const instance = await operatorWorkflowInstance.findUnique({
-    where: { id: input.workflowId },
+    where: { id: workflowId },
     select: {
       id: true,
       defId: true,
@@ -119,56 +226,35 @@ export async function executeStep(
       completedAt: true,
     },
   });
-  if (!instance) {
-    return {
-      fired: false,
-      skipReason: "workflow-not-found",
-      autoFiredNext: false,
-    };
-  }
-  if (instance.completedAt) {
-    return { fired: false, skipReason: "state-mismatch", autoFiredNext: false };
-  }
+  if (!instance) return { skipReason: "workflow-not-found" };
+  if (instance.completedAt) return { skipReason: "state-mismatch" };
 
   const def = getWorkflowDefById(instance.defId);
   if (!def) {
     logger.error(
       "[cowf-executor] def not in registry — workflow definition missing in this app version",
-      { workflowId: input.workflowId, defId: instance.defId },
+      { workflowId, defId: instance.defId },
     );
-    return {
-      fired: false,
-      skipReason: "def-not-registered",
-      autoFiredNext: false,
-    };
+    return { skipReason: "def-not-registered" };
   }
 
-  // 2. Find the step in the def's stored steps
-  const step = def.storedInput.steps.find((s) => s.key === input.stepKey);
-  if (!step) {
-    return {
-      fired: false,
-      skipReason: "step-not-found",
-      autoFiredNext: false,
-    };
-  }
+  // Find the step in the def's stored steps
+  const step = def.storedInput.steps.find((s) => s.key === stepKey);
+  if (!step) return { skipReason: "step-not-found" };
 
-  // 3. State-mismatch guard — only fire steps whose `from` matches current state
+  // State-mismatch guard — only fire steps whose `from` matches current state
   if (step.from && step.from !== instance.currentState) {
     logger.info("[cowf-executor] state mismatch — skipping", {
-      workflowId: input.workflowId,
-      stepKey: input.stepKey,
+      workflowId,
+      stepKey,
       stepFrom: step.from,
       currentState: instance.currentState,
     });
-    return {
-      fired: false,
-      skipReason: "state-mismatch",
-      autoFiredNext: false,
-    };
+    return { skipReason: "state-mismatch" };
   }
 
-  // 4. Build context
+  // Earlier versions' step keys / states are read in this version's terms.
+  const events = translateMigratedEvents(await loadEvents(workflowId));
   const ctx: StepContext = {
     workflowId: instance.id,
     organizationId: instance.organizationId,
@@ -176,61 +262,37 @@ export async function executeStep(
     subjectType: instance.subjectType,
     subjectId: instance.subjectId,
     currentState: instance.currentState,
-    state: {},
+    state: buildStateBag(events),
   };
+  return { def, step, ctx, events };
+}
 
-  // 5. Emit STEP_STARTED event
-  await appendWorkflowEvent({
-    workflowId: input.workflowId,
-    eventType: WorkflowEventType.STEP_STARTED,
-    causedBy: input.causedBy,
-    payload: {
-      stepKey: input.stepKey,
-      stepKind: step.kind,
-      fromState: step.from,
-    },
-  });
+/**
+ * Close a step: advance state (if it transitions), emit STEP_COMPLETED
+ * with the step's output, stop its timers, then continue the chain in
+ * the state the workflow is now in.
+ */
+async function finishStep(
+  runtime: StepRuntime,
+  outcome: DispatchOutcome,
+  input: ExecuteStepInput,
+  depth: number,
+): Promise<ExecuteStepResult> {
+  const { def, step } = runtime;
 
-  // 6. Dispatch to kind-handler
-  const handlers = def.handlers.get(input.stepKey);
-  let outcome: { transitionedTo?: string; nextAutoStepKey?: string };
-  try {
-    outcome = await dispatch(step, ctx, handlers, input);
-  } catch (err) {
-    const message = (err as Error).message ?? String(err);
-    logger.error("[cowf-executor] step handler threw", {
-      workflowId: input.workflowId,
-      stepKey: input.stepKey,
-      kind: step.kind,
-      error: message,
-    });
-    await appendWorkflowEvent({
+  if (outcome.transitionedTo) {
+    await advanceState({
       workflowId: input.workflowId,
-      eventType: WorkflowEventType.ERROR,
+      toState: outcome.transitionedTo,
       causedBy: input.causedBy,
-      payload: {
-        stepKey: input.stepKey,
-        stepKind: step.kind,
-        message,
-      },
+      payload: { fromStep: input.stepKey },
     });
-    return { fired: true, autoFiredNext: false };
   }
 
-  // 7. If the handler did NOT transition (e.g. waiting steps), we're done.
-  if (!outcome.transitionedTo) {
-    return { fired: true, autoFiredNext: false };
-  }
-
-  // 8. Advance state
-  await advanceState({
-    workflowId: input.workflowId,
-    toState: outcome.transitionedTo,
-    causedBy: input.causedBy,
-    payload: { fromStep: input.stepKey },
-  });
-
-  // 9. Emit STEP_COMPLETED for symmetry with STEP_STARTED
+  // STEP_COMPLETED for symmetry with STEP_STARTED. A waiting step that
+  // closes without leaving its state (rejected / timed out) still gets
+  // one — it is what ends the round for replay.
+  const toState = outcome.transitionedTo ?? step.from;
   await appendWorkflowEvent({
     workflowId: input.workflowId,
     eventType: WorkflowEventType.STEP_COMPLETED,
@@ -238,26 +300,36 @@ export async function executeStep(
     payload: {
       stepKey: input.stepKey,
       stepKind: step.kind,
-      toState: outcome.transitionedTo,
+      toState,
+      ...(outcome.result ? { outcome: outcome.result } : {}),
+      ...(outcome.output ? { output: outcome.output } : {}),
     },
-    resultingState: outcome.transitionedTo,
+    resultingState: toState,
   });
 
-  // 10. Auto-fire chain: find a step whose `from` matches the new state
-  //     AND has autoFireOnEnter:true (or is a decision/astra step which
-  //     auto-fire by default per the factory defaults).
-  const nextKey =
-    outcome.nextAutoStepKey ??
-    findAutoFireStepFor(def.storedInput.steps, outcome.transitionedTo);
+  if (isWaitingStep(step)) {
+    await cancelSchedulesForStep(input.workflowId, step.key);
+  }
+
+  // Auto-fire chain: the handler's explicit follow-up step, else whatever
+  // fires on entering the new state.
   let autoFiredNext = false;
-  if (nextKey) {
+  if (outcome.nextAutoStepKey) {
     const recurseResult = await executeStep({
       workflowId: input.workflowId,
-      stepKey: nextKey,
+      stepKey: outcome.nextAutoStepKey,
       causedBy: `auto-chain:${input.stepKey}`,
       _depth: depth + 1,
     });
     autoFiredNext = recurseResult.fired;
+  } else if (outcome.transitionedTo) {
+    autoFiredNext = await fireStepsOnEnter(
+      def,
+      input.workflowId,
+      outcome.transitionedTo,
+      `auto-chain:${input.stepKey}`,
+      depth + 1,
+    );
   }
 
   return {
@@ -267,20 +339,82 @@ export async function executeStep(
   };
 }
 
+/**
+ * Called whenever the workflow enters `state`: run the auto-fire step if
+ * one exists, otherwise open every waiting step that leaves the state.
+ * Returns true if anything fired.
+ */
+export async function fireStepsOnEnter(
+  def: WorkflowDef,
+  workflowId: string,
+  state: string,
+  causedBy: string,
+  depth = 0,
+): Promise<boolean> {
+  const autoKey = findAutoFireStepFor(def.storedInput.steps, state);
+  const keys = autoKey
+    ? [autoKey]
+    : findWaitingStepsFor(def.storedInput.steps, state);
+  let fired = false;
+  for (const stepKey of keys) {
+    const result = await executeStep({
+      workflowId,
+      stepKey,
+      causedBy,
+      _depth: depth,
+    });
+    fired = fired || result.fired;
+  }
+  return fired;
+}
+
+async function recordStepError(
+  input: ExecuteStepInput,
+  step: StoredStep,
+  err: unknown,
+): Promise<void> {
+  const message = (err as Error).message ?? String(err);
+  logger.error("[cowf-executor] step handler threw", {
+    workflowId: input.workflowId,
+    stepKey: input.stepKey,
+    kind: step.kind,
+    error: message,
+  });
+  await appendWorkflowEvent({
+    workflowId: input.workflowId,
+    eventType: WorkflowEventType.ERROR,
+    causedBy: input.causedBy,
+    payload: {
+      stepKey: input.stepKey,
+      stepKind: step.kind,
+      message,
+    },
+  });
+}
+
 // ─── Kind Dispatcher ───────────────────────────────────────────────────────
 
 interface DispatchOutcome {
   transitionedTo?: string;
   nextAutoStepKey?: string;
+  /** Recorded on STEP_COMPLETED and merged into later state-bags. */
+  output?: Record<string, unknown>;
+  /** How a waiting step closed: "submitted" | "approved" | "rejected" | ... */
+  result?: string;
+}
+
+/** The round being opened — STEP_STARTED was just appended. */
+interface RoundStart {
+  events: WorkflowEventRow[];
+  startedAt: Date;
 }
 
 async function dispatch(
   step: StoredStep,
   ctx: StepContext,
-  handlers:
-    | { run?: (ctx: StepContext) => Promise<void> | void; validate?: unknown }
-    | undefined,
+  handlers: StepHandlers | undefined,
   input: ExecuteStepInput,
+  start: RoundStart,
 ): Promise<DispatchOutcome> {
   switch (step.kind) {
     case "action":
@@ -290,13 +424,13 @@ async function dispatch(
     case "astra":
       return executeAstraStub(step, ctx, input);
     case "form":
-      return executeFormStub(step, ctx, input);
+      return executeForm(step, ctx, input);
     case "approval":
-      return executeApprovalStub(step, ctx, input);
+      return executeApproval(step, ctx, input, start);
     case "waitForEvent":
-      return executeWaitForEventStub(step, ctx, input);
+      return executeWaitForEvent(step, ctx, input, start);
     case "qes":
-      return executeQesStub(step, ctx, input);
+      return executeQes(step, ctx, handlers, input);
     default: {
       // Exhaustiveness check — TypeScript will error if a new kind is
       // added without a case here.
@@ -392,38 +526,33 @@ export function evaluatePredicate(
   return true;
 }
 
-// ─── Stub Executors ────────────────────────────────────────────────────────
+// ─── Waiting-step Executors ────────────────────────────────────────────────
 
-/**
- * Astra stub. Sprint 3D emits STEP_STARTED only. A future sprint wires
- * the Astra-V2 engine and emits ASTRA_REASONING + transitions the state
- * when the LLM-loop finishes.
- */
-async function executeAstraStub(
-  step: Extract<StoredStep, { kind: "astra" }>,
-  ctx: StepContext,
-  input: ExecuteStepInput,
-): Promise<DispatchOutcome> {
-  logger.info("[cowf-executor] astra-step stub", {
-    workflowId: ctx.workflowId,
-    stepKey: step.key,
-    promptTemplate: step.promptTemplate,
-    causedBy: input.causedBy,
-  });
-  // No transition — waiting for Astra-engine integration.
-  return {};
+type WaitingStep = Extract<
+  StoredStep,
+  { kind: "form" | "approval" | "waitForEvent" | "qes" }
+>;
+
+function isWaitingStep(step: StoredStep): step is WaitingStep {
+  return (
+    step.kind === "form" ||
+    step.kind === "approval" ||
+    step.kind === "waitForEvent" ||
+    step.kind === "qes"
+  );
 }
 
 /**
- * Form stub. Forms transition only when the form-submit API receives
- * the user's data. Sprint 3D registers the wait but doesn't transition.
+ * Form: opening the round is just the STEP_STARTED event. The submission
+ * arrives via `submitForm()` as a FORM_SUBMITTED event and is settled by
+ * `settleWaitingStep`.
  */
-async function executeFormStub(
+async function executeForm(
   step: Extract<StoredStep, { kind: "form" }>,
   ctx: StepContext,
   input: ExecuteStepInput,
 ): Promise<DispatchOutcome> {
-  logger.info("[cowf-executor] form-step stub (waiting for submit)", {
+  logger.info("[cowf-executor] form step open (waiting for submit)", {
     workflowId: ctx.workflowId,
     stepKey: step.key,
     requireRoles: step.requireRoles,
@@ -433,18 +562,20 @@ async function executeFormStub(
 }
 
 /**
- * Approval stub. Creates one WorkflowApprovalSlot per requireRole; the
- * transition fires when the dedicated approve-API marks all slots as
- * approved.
+ * Approval: (re)set one WorkflowApprovalSlot per requireRole and schedule
+ * the SLA + escalation timers. Slots are the materialised inbox view; the
+ * quorum itself is always counted from APPROVAL_* events.
  */
-async function executeApprovalStub(
+async function executeApproval(
   step: Extract<StoredStep, { kind: "approval" }>,
   ctx: StepContext,
   input: ExecuteStepInput,
+  start: RoundStart,
 ): Promise<DispatchOutcome> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const slot = (prisma as any).workflowApprovalSlot;
-  // Idempotent: existing slots for (workflow, step, role) are not duplicated.
+  // Idempotent: existing slots for (workflow, step, role) are not
+  // duplicated — a new round clears the previous round's decisions.
   for (const role of step.requireRoles) {
     await slot.upsert({
       where: {
@@ -454,7 +585,15 @@ async function executeApprovalStub(
           requiredRole: role,
         },
       },
-      update: {},
+      update: {
+        approvedBy: null,
+        approvedAt: null,
+        signature: null,
+        rationale: null,
+        rejectedAt: null,
+        rejectedBy: null,
+        rejectionReason: null,
+      },
       create: {
         workflowId: ctx.workflowId,
         stepKey: step.key,
@@ -462,29 +601,37 @@ async function executeApprovalStub(
       },
     });
   }
-  logger.info(
-    "[cowf-executor] approval-step stub (slots created, waiting for sign-off)",
-    {
-      workflowId: ctx.workflowId,
-      stepKey: step.key,
-      slots: step.requireRoles,
-      causedBy: input.causedBy,
-    },
-  );
+  await scheduleRoundTimers(step, ctx, start);
+  logger.info("[cowf-executor] approval step open (waiting for sign-off)", {
+    workflowId: ctx.workflowId,
+    stepKey: step.key,
+    slots: step.requireRoles,
+    quorum: step.quorum ?? step.requireRoles.length,
+    causedBy: input.causedBy,
+  });
   return {};
 }
 
 /**
- * WaitForEvent stub. Registers a WorkflowEventListener row. The
- * listener-firing path (event-publisher matches predicate, fires the
- * step) lands in the event-publisher service; Sprint 3D writes the
- * listener row only.
+ * WaitForEvent: register a WorkflowEventListener with the resolved
+ * correlation key + predicate, and schedule the timeout. Matching lives
+ * in `publishWorkflowEvent()`.
  */
-async function executeWaitForEventStub(
+async function executeWaitForEvent(
   step: Extract<StoredStep, { kind: "waitForEvent" }>,
   ctx: StepContext,
   input: ExecuteStepInput,
+  start: RoundStart,
 ): Promise<DispatchOutcome> {
+  const correlationKey = step.correlationKey
+    ? resolveTemplate(step.correlationKey, ctx)
+    : null;
+  const predicate = step.predicate
+    ? resolvePredicateTemplates(step.predicate, ctx)
+    : null;
+  const timers = await scheduleRoundTimers(step, ctx, start);
+  const expiresAt = timers[0]?.dueAt ?? null;
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const listener = (prisma as any).workflowEventListener;
   await listener.create({
@@ -492,9 +639,10 @@ async function executeWaitForEventStub(
       workflowId: ctx.workflowId,
       stepKey: step.key,
       eventType: step.eventType,
-      predicate: (step.predicate ?? null) as unknown as object | null,
-      status: "ACTIVE",
-      // Timeout handling lands in the event-publisher service.
+      correlationKey,
+      predicate: predicate as unknown as object | null,
+      status: ListenerStatus.ACTIVE,
+      expiresAt,
     },
   });
   await appendWorkflowEvent({
@@ -504,28 +652,263 @@ async function executeWaitForEventStub(
     payload: {
       stepKey: step.key,
       eventType: step.eventType,
-      predicate: step.predicate ?? null,
+      correlationKey,
+      predicate,
+      expiresAt: expiresAt?.toISOString() ?? null,
     },
   });
   return {};
 }
 
 /**
- * QES stub. Sprint 3D does NOT integrate with D-Trust. Emits
- * STEP_STARTED only; the actual signing flow lands in Sprint 8
- * (Witness-Network + OpenTimestamps).
+ * QES: send the step's document digests to the signing provider
+ * (QES_REQUESTED). The provider's callback arrives via
+ * `receiveSigningCallback()` as QES_SIGNED / QES_FAILED.
  */
-async function executeQesStub(
+async function executeQes(
   step: Extract<StoredStep, { kind: "qes" }>,
   ctx: StepContext,
+  handlers: StepHandlers | undefined,
+  input: ExecuteStepInput,
+): Promise<DispatchOutcome> {
+  await requestSignatures(step, ctx, handlers, input.causedBy);
+  return {};
+}
+
+/**
+ * Create one WorkflowSchedule per timer of the round being opened. The
+ * heartbeat re-executes the step when it fires, which lands in
+ * `settleWaitingStep`.
+ */
+async function scheduleRoundTimers(
+  step: Extract<StoredStep, { kind: "approval" | "waitForEvent" }>,
+  ctx: StepContext,
+  start: RoundStart,
+) {
+  const timers = stepTimers(step, start.events, {
+    started: true,
+    closed: false,
+    startedAt: start.startedAt,
+    events: [],
+  });
+  for (const timer of timers) {
+    await createSchedule({
+      workflowId: ctx.workflowId,
+      stepKey: step.key,
+      fireAt: timer.dueAt,
+    });
+  }
+  return timers;
+}
+
+/**
+ * Settle an open waiting-step round from history:
+ *
+ *   1. A recorded input completes the step — FORM_SUBMITTED, an approval
+ *      tally that reached (or can no longer reach) quorum, LISTENER_FIRED,
+ *      QES_SIGNED / QES_FAILED.
+ *   2. Otherwise record every due timer not yet in the round: TIMEOUT_FIRED
+ *      for SLA breach / wait timeout, ESCALATED per escalation. A wait
+ *      timeout closes the round and fires `onTimeout`; SLA breaches and
+ *      escalations leave the approval open.
+ *   3. Nothing to do → `already-waiting`.
+ */
+async function settleWaitingStep(
+  runtime: StepRuntime,
+  round: StepRound,
+  input: ExecuteStepInput,
+  depth: number,
+): Promise<ExecuteStepResult> {
+  const step = runtime.step as WaitingStep;
+
+  const completion = findRoundCompletion(step, round);
+  if (completion) return finishStep(runtime, completion, input, depth);
+
+  if (step.kind === "form" || step.kind === "qes") {
+    return {
+      fired: false,
+      skipReason: "already-waiting",
+      autoFiredNext: false,
+    };
+  }
+
+  const now = new Date();
+  const due = stepTimers(step, runtime.events, round).filter(
+    (timer) => timer.dueAt <= now && !timerFired(timer, step.key, round),
+  );
+  if (due.length === 0) {
+    return {
+      fired: false,
+      skipReason: "already-waiting",
+      autoFiredNext: false,
+    };
+  }
+
+  for (const timer of due) {
+    if (timer.kind === "escalation") {
+      await appendWorkflowEvent({
+        workflowId: input.workflowId,
+        eventType: WorkflowEventType.ESCALATED,
+        causedBy: input.causedBy,
+        payload: {
+          stepKey: step.key,
+          index: timer.index,
+          action: timer.action,
+          dueAt: timer.dueAt.toISOString(),
+        },
+      });
+      continue;
+    }
+
+    if (timer.kind === "timeout") {
+      // Claim the listener first — if a published event got there
+      // before us, the event wins and the timeout is moot.
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const listener = (prisma as any).workflowEventListener;
+      const claimed = await listener.updateMany({
+        where: {
+          workflowId: input.workflowId,
+          stepKey: step.key,
+          status: ListenerStatus.ACTIVE,
+        },
+        data: { status: ListenerStatus.EXPIRED },
+      });
+      if ((claimed?.count ?? 0) === 0) {
+        return {
+          fired: false,
+          skipReason: "already-waiting",
+          autoFiredNext: false,
+        };
+      }
+    }
+
+    await appendWorkflowEvent({
+      workflowId: input.workflowId,
+      eventType: WorkflowEventType.TIMEOUT_FIRED,
+      causedBy: input.causedBy,
+      payload: {
+        stepKey: step.key,
+        timer: timer.kind,
+        dueAt: timer.dueAt.toISOString(),
+      },
+    });
+
+    if (timer.kind === "timeout" && step.kind === "waitForEvent") {
+      return finishStep(
+        runtime,
+        { result: "timed-out", nextAutoStepKey: step.onTimeout },
+        input,
+        depth,
+      );
+    }
+  }
+
+  logger.info("[cowf-executor] waiting-step timers recorded", {
+    workflowId: input.workflowId,
+    stepKey: step.key,
+    timers: due.map((t) => t.kind),
+  });
+  return { fired: true, autoFiredNext: false };
+}
+
+/** The completion recorded in an open round, if any. */
+function findRoundCompletion(
+  step: WaitingStep,
+  round: StepRound,
+): DispatchOutcome | null {
+  const recorded = (eventType: string) =>
+    round.events.find(
+      (e) => e.eventType === eventType && e.payload.stepKey === step.key,
+    );
+
+  switch (step.kind) {
+    case "form": {
+      const submitted = recorded(WorkflowEventType.FORM_SUBMITTED);
+      if (!submitted) return null;
+      return {
+        transitionedTo: step.to,
+        output: asRecord(submitted.payload.data),
+        result: "submitted",
+      };
+    }
+    case "approval": {
+      const tally = tallyApprovals(step, round);
+      if (tally.outcome === "approved") {
+        return {
+          transitionedTo: step.to,
+          output: { approvalOutcome: "approved" },
+          result: "approved",
+        };
+      }
+      if (tally.outcome === "rejected") {
+        return {
+          transitionedTo: step.rejectTo,
+          output: { approvalOutcome: "rejected" },
+          result: "rejected",
+        };
+      }
+      return null;
+    }
+    case "waitForEvent": {
+      const fired = recorded(WorkflowEventType.LISTENER_FIRED);
+      if (!fired) return null;
+      return {
+        transitionedTo: step.to,
+        output: asRecord(fired.payload.payload),
+        result: "event-received",
+      };
+    }
+    case "qes": {
+      const signed = recorded(WorkflowEventType.QES_SIGNED);
+      if (signed) {
+        const artifacts = signed.payload.artifacts as SignedArtifact[];
+        return {
+          transitionedTo: step.to,
+          output: {
+            signedDocuments: artifacts.map((a) => ({
+              ref: a.ref,
+              uri: a.uri,
+              signedDigest: a.signedDigest,
+            })),
+          },
+          result: "signed",
+        };
+      }
+      // Declined / failed: close the round in place — re-running the
+      // step sends a fresh signing request.
+      if (recorded(WorkflowEventType.QES_FAILED)) {
+        return { result: "signing-failed" };
+      }
+      return null;
+    }
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+// ─── Stub Executors ────────────────────────────────────────────────────────
+
+/**
+ * Astra stub. Sprint 3D emits STEP_STARTED only. A future sprint wires
+ * the Astra-V2 engine and emits ASTRA_REASONING + transitions the state
+ * when the LLM-loop finishes.
+ */
+async function executeAstraStub(
+  step: Extract<StoredStep, { kind: "astra" }>,
+  ctx: StepContext,
   input: ExecuteStepInput,
 ): Promise<DispatchOutcome> {
-  logger.info("[cowf-executor] qes-step stub (D-Trust integration pending)", {
+  logger.info("[cowf-executor] astra-step stub", {
     workflowId: ctx.workflowId,
     stepKey: step.key,
-    documentRefs: step.documentRefs,
+    promptTemplate: step.promptTemplate,
     causedBy: input.causedBy,
   });
+  // No transition — waiting for Astra-engine integration.
   return {};
 }
 
@@ -554,3 +937,56 @@ export function findAutoFireStepFor(
   }
   return null;
 }
+
+/**
+ * Waiting steps (form / approval / waitForEvent / qes) that leave `state`.
+ * Opened by `fireStepsOnEnter` when the state has no auto-fire step.
+ */
+export function findWaitingStepsFor(
+  steps: readonly StoredStep[],
+  state: string,
+): string[] {
+  return steps
+    .filter((step) => step.from === state && isWaitingStep(step))
+    .map((step) => step.key);
+}
+
+/**
+ * Substitute `{{workflowId}}`, `{{organizationId}}`, `{{userId}}`,
+ * `{{subjectType}}` and `{{subjectId}}` from the step context. Unknown
+ * or null placeholders resolve to an empty string.
+ */
+export function resolveTemplate(template: string, ctx: StepContext): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    switch (name) {
+      case "workflowId":
+        return ctx.workflowId;
+      case "organizationId":
+        return ctx.organizationId;
+      case "userId":
+        return ctx.userId;
+      case "subjectType":
+        return ctx.subjectType ?? "";
+      case "subjectId":
+        return ctx.subjectId ?? "";
+      default:
+        return "";
+    }
+  });
+}
+
+function resolvePredicateTemplates(
+  predicate: Record<string, unknown>,
+  ctx: StepContext,
+): Record<string, unknown> {
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === "string") return resolveTemplate(value, ctx);
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, resolve(v)]),
+      );
+    }
+    return value;
+  };
+  return resolve(predicate) as Record<string, unknown>;
+}
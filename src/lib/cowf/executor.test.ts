@@ -11,12 +11,20 @@
  *   6. state-mismatch → skip cleanly (race tolerance)
  *   7. action step → run handler called + state advances
  *   8. decision step → branch evaluated → routes to chosen step + state
- *   9. astra/form/approval/waitForEvent/qes stubs → STEP_STARTED only
+ *   9. astra stub → STEP_STARTED only
  *  10. action handler throws → ERROR event emitted, no advance
  *  11. auto-fire chain executes follow-up step
  *  12. auto-fire chain hits MAX_AUTO_CHAIN_DEPTH cap
- *  13. waitForEvent stub creates listener row + WAIT_REGISTERED event
- *  14. approval stub upserts slots per requireRole
+ *  13. waitForEvent opens: listener row (correlation key, expiresAt) +
+ *      timeout schedule + WAIT_REGISTERED event
+ *  14. approval opens: slots per requireRole + SLA/escalation schedules
+ *  15. open rounds are settled from history, not restarted: form
+ *      submission, approval quorum / rejectTo, listener fire, wait
+ *      timeout → onTimeout, due escalations, nothing due → already-waiting
+ *  16. entering a state without auto-fire step opens its waiting steps
+ *  17. resolveTemplate substitutes context placeholders
+ *  18. qes opens a signing request; QES_SIGNED advances with the signed
+ *      documents as output, QES_FAILED closes the round in place
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -27,14 +35,22 @@ const {
   mockApprovalSlot,
   mockGetDefById,
   mockAppendEvent,
+  mockLoadEvents,
   mockAdvanceState,
+  mockCreateSchedule,
+  mockCancelSchedulesForStep,
+  mockRequestSignatures,
 } = vi.hoisted(() => ({
   mockInstance: { findUnique: vi.fn() },
-  mockListener: { create: vi.fn() },
+  mockListener: { create: vi.fn(), updateMany: vi.fn() },
   mockApprovalSlot: { upsert: vi.fn() },
   mockGetDefById: vi.fn(),
   mockAppendEvent: vi.fn(),
+  mockLoadEvents: vi.fn(),
   mockAdvanceState: vi.fn(),
+  mockCreateSchedule: vi.fn(),
+  mockCancelSchedulesForStep: vi.fn(),
+  mockRequestSignatures: vi.fn(),
 }));
 
 vi.mock("server-only", () => ({}));
@@ -53,12 +69,22 @@ vi.mock("./registry.server", () => ({
 
 vi.mock("./events.server", () => ({
   appendWorkflowEvent: mockAppendEvent,
+  loadEvents: mockLoadEvents,
 }));
 
 vi.mock("./instances.server", () => ({
   advanceState: mockAdvanceState,
 }));
 
+vi.mock("./scheduling.server", () => ({
+  createSchedule: mockCreateSchedule,
+  cancelSchedulesForStep: mockCancelSchedulesForStep,
+}));
+
+vi.mock("./qes/signing.server", () => ({
+  requestSignatures: mockRequestSignatures,
+}));
+
 vi.mock("@/lib/logger", () => ({
   logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
 }));
@@ -67,9 +93,11 @@ import {
   evaluatePredicate,
   executeStep,
   findAutoFireStepFor,
+  findWaitingStepsFor,
   MAX_AUTO_CHAIN_DEPTH,
+  resolveTemplate,
 } from "./executor.server";
-import { WorkflowEventType } from "./types";
+import { WorkflowEventType, type WorkflowEventRow } from "./types";
 
 const WF_ID = "wf_1";
 const DEF_ID = "def_1";
@@ -87,6 +115,13 @@ beforeEach(() => {
     occurredAt: new Date(),
   });
   mockAdvanceState.mockResolvedValue({ eventId: "e", sequence: 1 });
+  mockLoadEvents.mockResolvedValue([]);
+  mockCreateSchedule.mockResolvedValue({ id: "s", fireAt: new Date() });
+  mockCancelSchedulesForStep.mockResolvedValue({ cancelled: 0 });
+  mockApprovalSlot.upsert.mockResolvedValue({});
+  mockListener.create.mockResolvedValue({ id: "list_1" });
+  mockListener.updateMany.mockResolvedValue({ count: 1 });
+  mockRequestSignatures.mockResolvedValue({});
 });
 
 // ─── evaluatePredicate ─────────────────────────────────────────────────────
@@ -371,7 +406,9 @@ describe("executeStep — astra stub", () => {
   });
 });
 
-describe("executeStep — waitForEvent stub", () => {
+// ─── executeStep — opening waiting steps ──────────────────────────────────
+
+describe("executeStep — waitForEvent", () => {
   it("creates listener row + emits WAIT_REGISTERED event", async () => {
     mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
     mockGetDefById.mockReturnValueOnce(
@@ -386,7 +423,6 @@ describe("executeStep — waitForEvent stub", () => {
         },
       ]),
     );
-    mockListener.create.mockResolvedValue({ id: "list_1" });
     await executeStep({
       workflowId: WF_ID,
       stepKey: "wait",
@@ -399,36 +435,529 @@ describe("executeStep — waitForEvent stub", () => {
           stepKey: "wait",
           eventType: "x.y",
           status: "ACTIVE",
+          correlationKey: null,
+          expiresAt: null,
         }),
       }),
     );
+    expect(mockCreateSchedule).not.toHaveBeenCalled();
     const eventTypes = mockAppendEvent.mock.calls.map((c) => c[0].eventType);
     expect(eventTypes).toContain(WorkflowEventType.WAIT_REGISTERED);
   });
-});
 
-describe("executeStep — approval stub", () => {
-  it("upserts a WorkflowApprovalSlot row per requireRole", async () => {
-    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+  it("resolves correlation key + predicate templates and schedules the timeout", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce({
+      ...makeInstance("A"),
+      subjectType: "Incident",
+      subjectId: "inc_9",
+    });
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+    ]);
     mockGetDefById.mockReturnValueOnce(
       buildDef([
         {
-          kind: "approval",
-          key: "ap",
+          kind: "waitForEvent",
+          key: "wait",
           from: "A",
           to: "B",
           autoFireOnEnter: false,
-          requireRoles: ["OPERATOR", "CISO"],
+          eventType: "incident.closed",
+          correlationKey: "incident:{{subjectId}}",
+          predicate: { incidentId: "{{subjectId}}" },
+          timeout: { offsetFromState: "A", hours: 72 },
         },
       ]),
     );
-    mockApprovalSlot.upsert.mockResolvedValue({});
+    await executeStep({ workflowId: WF_ID, stepKey: "wait", causedBy: "u" });
+
+    const dueAt = new Date("2024-10-04T00:00:00Z");
+    expect(mockListener.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        correlationKey: "incident:inc_9",
+        predicate: { incidentId: "inc_9" },
+        expiresAt: dueAt,
+      }),
+    });
+    expect(mockCreateSchedule).toHaveBeenCalledWith({
+      workflowId: WF_ID,
+      stepKey: "wait",
+      fireAt: dueAt,
+    });
+  });
+});
+
+describe("executeStep — approval", () => {
+  it("upserts a WorkflowApprovalSlot row per requireRole, clearing old decisions", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([approvalStep({ requireRoles: ["OPERATOR", "CISO"] })]),
+    );
     await executeStep({
       workflowId: WF_ID,
       stepKey: "ap",
       causedBy: "user",
     });
     expect(mockApprovalSlot.upsert).toHaveBeenCalledTimes(2);
+    expect(mockApprovalSlot.upsert.mock.calls[0][0].update).toMatchObject({
+      approvedBy: null,
+      rejectedAt: null,
+    });
+    expect(mockAdvanceState).not.toHaveBeenCalled();
+  });
+
+  it("schedules the SLA and each escalation from the offset state", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("DETECTED", "2024-10-01T00:00:00Z"),
+      transition("A", "2024-10-01T06:00:00Z"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([
+        approvalStep({
+          slaBy: { offsetFromState: "DETECTED", hours: 24 },
+          escalations: [{ atOffsetHours: 20, action: "notify-cto" }],
+        }),
+      ]),
+    );
+    await executeStep({ workflowId: WF_ID, stepKey: "ap", causedBy: "u" });
+    const fireAts = mockCreateSchedule.mock.calls.map((c) =>
+      c[0].fireAt.toISOString(),
+    );
+    expect(fireAts).toEqual([
+      "2024-10-02T00:00:00.000Z",
+      "2024-10-01T20:00:00.000Z",
+    ]);
+  });
+});
+
+// ─── executeStep — settling open rounds ───────────────────────────────────
+
+describe("executeStep — settling open rounds", () => {
+  it("does not restart a form step with an open round", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("f", "2024-10-01T00:00:01Z"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([formStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "f",
+      causedBy: "u",
+    });
+    expect(result).toEqual({
+      fired: false,
+      skipReason: "already-waiting",
+      autoFiredNext: false,
+    });
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+  });
+
+  it("completes a form from a recorded FORM_SUBMITTED with the data as output", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("f", "2024-10-01T00:00:01Z"),
+      event(WorkflowEventType.FORM_SUBMITTED, {
+        stepKey: "f",
+        data: { severity: "high" },
+      }),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([formStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "f",
+      causedBy: "user:u",
+    });
+    expect(result.newState).toBe("B");
+    expect(mockAdvanceState).toHaveBeenCalledWith(
+      expect.objectContaining({ toState: "B" }),
+    );
+    const completed = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.STEP_COMPLETED,
+    );
+    expect(completed?.[0].payload).toMatchObject({
+      stepKey: "f",
+      outcome: "submitted",
+      output: { severity: "high" },
+    });
+    expect(mockCancelSchedulesForStep).toHaveBeenCalledWith(WF_ID, "f");
+  });
+
+  it("advances an approval once the N-of-M quorum is reached", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("ap", "2024-10-01T00:00:01Z"),
+      decision(WorkflowEventType.APPROVAL_GRANTED, "BOARD_1", "u1"),
+      decision(WorkflowEventType.APPROVAL_REJECTED, "BOARD_2", "u2"),
+      decision(WorkflowEventType.APPROVAL_GRANTED, "BOARD_3", "u3"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([
+        approvalStep({
+          requireRoles: ["BOARD_1", "BOARD_2", "BOARD_3"],
+          quorum: 2,
+        }),
+      ]),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "ap",
+      causedBy: "u",
+    });
+    expect(result.newState).toBe("B");
+    expect(mockApprovalSlot.upsert).not.toHaveBeenCalled();
+  });
+
+  it("routes to rejectTo once the quorum is unreachable", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("ap", "2024-10-01T00:00:01Z"),
+      decision(WorkflowEventType.APPROVAL_REJECTED, "OPERATOR", "u1"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([approvalStep({ rejectTo: "BAD" })]),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "ap",
+      causedBy: "u",
+    });
+    expect(result.newState).toBe("BAD");
+  });
+
+  it("closes a rejected approval in place when no rejectTo is set", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("ap", "2024-10-01T00:00:01Z"),
+      decision(WorkflowEventType.APPROVAL_REJECTED, "CISO", "u2"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([approvalStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "ap",
+      causedBy: "u",
+    });
+    expect(result.fired).toBe(true);
+    expect(result.newState).toBeUndefined();
+    expect(mockAdvanceState).not.toHaveBeenCalled();
+    const completed = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.STEP_COMPLETED,
+    );
+    expect(completed?.[0]).toMatchObject({
+      payload: { stepKey: "ap", toState: "A", outcome: "rejected" },
+      resultingState: "A",
+    });
+  });
+
+  it("records due escalations + SLA breach once, leaving the approval open", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("ap", "2024-10-01T00:00:01Z"),
+      event(WorkflowEventType.ESCALATED, { stepKey: "ap", index: 0 }),
+    ]);
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([
+        approvalStep({
+          slaBy: { offsetFromState: "A", hours: 24 },
+          escalations: [
+            { atOffsetHours: 12, action: "notify-lead" },
+            { atOffsetHours: 20, action: "notify-cto" },
+          ],
+        }),
+      ]),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "ap",
+      causedBy: "cron:cowf-heartbeat",
+    });
+    expect(result.fired).toBe(true);
+    const appended = mockAppendEvent.mock.calls.map((c) => [
+      c[0].eventType,
+      c[0].payload,
+    ]);
+    expect(appended).toEqual([
+      [
+        WorkflowEventType.TIMEOUT_FIRED,
+        expect.objectContaining({ stepKey: "ap", timer: "sla" }),
+      ],
+      [
+        WorkflowEventType.ESCALATED,
+        expect.objectContaining({ index: 1, action: "notify-cto" }),
+      ],
+    ]);
+    expect(mockAdvanceState).not.toHaveBeenCalled();
+  });
+
+  it("completes a waitForEvent from LISTENER_FIRED with the event payload as output", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("wait", "2024-10-01T00:00:01Z"),
+      event(WorkflowEventType.LISTENER_FIRED, {
+        stepKey: "wait",
+        payload: { verdict: "closed" },
+      }),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([waitStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "wait",
+      causedBy: "listener:x.y",
+    });
+    expect(result.newState).toBe("B");
+    const completed = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.STEP_COMPLETED,
+    );
+    expect(completed?.[0].payload.output).toEqual({ verdict: "closed" });
+  });
+
+  it("expires the listener on timeout and fires onTimeout", async () => {
+    mockInstance.findUnique
+      .mockResolvedValueOnce(makeInstance("A"))
+      .mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValue([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("wait", "2024-10-01T00:00:01Z"),
+    ]);
+    const lateRun = vi.fn();
+    mockGetDefById.mockReturnValue(
+      buildDef(
+        [
+          waitStep({
+            timeout: { offsetFromState: "A", days: 1 },
+            onTimeout: "late",
+          }),
+          {
+            kind: "action",
+            key: "late",
+            from: "A",
+            to: "BAD",
+            autoFireOnEnter: false,
+          },
+        ],
+        new Map([["late", { run: lateRun }]]),
+      ),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "wait",
+      causedBy: "cron:cowf-heartbeat",
+    });
+    expect(mockListener.updateMany).toHaveBeenCalledWith({
+      where: { workflowId: WF_ID, stepKey: "wait", status: "ACTIVE" },
+      data: { status: "EXPIRED" },
+    });
+    const eventTypes = mockAppendEvent.mock.calls.map((c) => c[0].eventType);
+    expect(eventTypes).toContain(WorkflowEventType.TIMEOUT_FIRED);
+    expect(result.autoFiredNext).toBe(true);
+    expect(lateRun).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets an event that claimed the listener first win over the timeout", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("wait", "2024-10-01T00:00:01Z"),
+    ]);
+    mockListener.updateMany.mockResolvedValueOnce({ count: 0 });
+    mockGetDefById.mockReturnValueOnce(
+      buildDef([waitStep({ timeout: { offsetFromState: "A", hours: 1 } })]),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "wait",
+      causedBy: "cron:cowf-heartbeat",
+    });
+    expect(result.skipReason).toBe("already-waiting");
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+  });
+});
+
+// ─── executeStep — entering a state ───────────────────────────────────────
+
+describe("executeStep — opening waiting steps on state entry", () => {
+  it("opens the waiting steps of a state that has no auto-fire step", async () => {
+    mockInstance.findUnique
+      .mockResolvedValueOnce(makeInstance("A"))
+      .mockResolvedValueOnce(makeInstance("B"));
+    mockGetDefById.mockReturnValue(
+      buildDef([
+        { kind: "action", key: "a", from: "A", to: "B", autoFireOnEnter: true },
+        { ...approvalStep(), from: "B", to: "DONE" },
+      ]),
+    );
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "a",
+      causedBy: "user",
+    });
+    expect(result.autoFiredNext).toBe(true);
+    expect(mockApprovalSlot.upsert).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("executeStep — qes", () => {
+  it("opens a signing request and waits", async () => {
+    const handlers = new Map([["q", { loadDocument: vi.fn() }]]);
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockGetDefById.mockReturnValueOnce(buildDef([qesStep()], handlers));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "q",
+      causedBy: "user:u",
+    });
+    expect(result).toEqual({ fired: true, autoFiredNext: false });
+    expect(mockRequestSignatures).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "q", documentRefs: ["doc-1"] }),
+      expect.objectContaining({ workflowId: WF_ID, userId: "user_1" }),
+      handlers.get("q"),
+      "user:u",
+    );
+    expect(mockAdvanceState).not.toHaveBeenCalled();
+  });
+
+  it("records an ERROR event when the signing request fails", async () => {
+    mockRequestSignatures.mockRejectedValueOnce(
+      new Error('qes step "q" has no loadDocument handler'),
+    );
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockGetDefById.mockReturnValueOnce(buildDef([qesStep()]));
+    await executeStep({ workflowId: WF_ID, stepKey: "q", causedBy: "u" });
+    const error = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.ERROR,
+    );
+    expect(error?.[0].payload.message).toMatch(/loadDocument/);
+  });
+
+  it("advances on a recorded QES_SIGNED with the signed documents as output", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("q", "2024-10-01T00:00:01Z"),
+      event(WorkflowEventType.QES_REQUESTED, { stepKey: "q", requestRef: "r" }),
+      event(WorkflowEventType.QES_SIGNED, {
+        stepKey: "q",
+        requestRef: "r",
+        artifacts: [
+          {
+            ref: "doc-1",
+            uri: "s3://signed/doc-1.pdf",
+            signedDigest: "abc",
+            format: "PAdES",
+          },
+        ],
+      }),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([qesStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "q",
+      causedBy: "qes:local-mock",
+    });
+    expect(result.newState).toBe("B");
+    expect(mockRequestSignatures).not.toHaveBeenCalled();
+    const completed = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.STEP_COMPLETED,
+    );
+    expect(completed?.[0].payload).toMatchObject({
+      outcome: "signed",
+      output: {
+        signedDocuments: [
+          { ref: "doc-1", uri: "s3://signed/doc-1.pdf", signedDigest: "abc" },
+        ],
+      },
+    });
+  });
+
+  it("closes the round in place on QES_FAILED", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("q", "2024-10-01T00:00:01Z"),
+      event(WorkflowEventType.QES_FAILED, {
+        stepKey: "q",
+        requestRef: "r",
+        status: "declined",
+      }),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([qesStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "q",
+      causedBy: "qes:local-mock",
+    });
+    expect(result.newState).toBeUndefined();
+    expect(mockAdvanceState).not.toHaveBeenCalled();
+    const completed = mockAppendEvent.mock.calls.find(
+      (c) => c[0].eventType === WorkflowEventType.STEP_COMPLETED,
+    );
+    expect(completed?.[0].payload).toMatchObject({
+      toState: "A",
+      outcome: "signing-failed",
+    });
+  });
+
+  it("keeps waiting while the signer has not called back", async () => {
+    mockInstance.findUnique.mockResolvedValueOnce(makeInstance("A"));
+    mockLoadEvents.mockResolvedValueOnce([
+      transition("A", "2024-10-01T00:00:00Z"),
+      started("q", "2024-10-01T00:00:01Z"),
+    ]);
+    mockGetDefById.mockReturnValueOnce(buildDef([qesStep()]));
+    const result = await executeStep({
+      workflowId: WF_ID,
+      stepKey: "q",
+      causedBy: "heartbeat",
+    });
+    expect(result.skipReason).toBe("already-waiting");
+    expect(mockRequestSignatures).not.toHaveBeenCalled();
+  });
+});
+
+describe("findWaitingStepsFor", () => {
+  it("returns form / approval / waitForEvent / qes steps leaving the state", () => {
+    const steps = [
+      formStep(),
+      approvalStep(),
+      waitStep(),
+      qesStep(),
+      { kind: "action", key: "act", from: "A", to: "B" },
+      { ...formStep(), key: "other", from: "B" },
+    ];
+    expect(
+      findWaitingStepsFor(
+        steps as Parameters<typeof findWaitingStepsFor>[0],
+        "A",
+      ),
+    ).toEqual(["f", "ap", "wait", "q"]);
+  });
+});
+
+describe("resolveTemplate", () => {
+  it("substitutes context placeholders and blanks unknown / null ones", () => {
+    const ctx = {
+      workflowId: "wf",
+      organizationId: "org",
+      userId: "u",
+      subjectType: "Incident",
+      subjectId: null,
+      currentState: "A",
+      state: {},
+    };
+    expect(
+      resolveTemplate(
+        "{{organizationId}}/{{ subjectType }}:{{subjectId}}",
+        ctx,
+      ),
+    ).toBe("org/Incident:");
+    expect(resolveTemplate("{{nope}}-{{workflowId}}", ctx)).toBe("-wf");
   });
 });
 
@@ -470,3 +999,89 @@ function buildDef(
     },
   };
 }
+
+function formStep(overrides: Record<string, unknown> = {}) {
+  return {
+    kind: "form",
+    key: "f",
+    from: "A",
+    to: "B",
+    autoFireOnEnter: false,
+    ...overrides,
+  };
+}
+
+function approvalStep(overrides: Record<string, unknown> = {}) {
+  return {
+    kind: "approval",
+    key: "ap",
+    from: "A",
+    to: "B",
+    autoFireOnEnter: false,
+    requireRoles: ["OPERATOR", "CISO"],
+    ...overrides,
+  };
+}
+
+function waitStep(overrides: Record<string, unknown> = {}) {
+  return {
+    kind: "waitForEvent",
+    key: "wait",
+    from: "A",
+    to: "B",
+    autoFireOnEnter: false,
+    eventType: "x.y",
+    ...overrides,
+  };
+}
+
+function qesStep(overrides: Record<string, unknown> = {}) {
+  return {
+    kind: "qes",
+    key: "q",
+    from: "A",
+    to: "B",
+    autoFireOnEnter: false,
+    documentRefs: ["doc-1"],
+    ...overrides,
+  };
+}
+
+let seq = 0;
+function event(
+  eventType: string,
+  payload: Record<string, unknown>,
+  occurredAt = "2024-10-01T01:00:00Z",
+  resultingState: string | null = null,
+): WorkflowEventRow {
+  seq += 1;
+  return {
+    id: `ev_${seq}`,
+    workflowId: WF_ID,
+    sequence: seq,
+    eventType,
+    causedBy: "test",
+    payload,
+    resultingState,
+    prevHash: "p",
+    entryHash: "h",
+    occurredAt: new Date(occurredAt),
+  };
+}
+
+function transition(toState: string, occurredAt: string) {
+  return event(
+    WorkflowEventType.STATE_TRANSITION,
+    { toState },
+    occurredAt,
+    toState,
+  );
+}
+
+function started(stepKey: string, occurredAt: string) {
+  return event(WorkflowEventType.STEP_STARTED, { stepKey }, occurredAt);
+}
+
+function decision(eventType: string, role: string, userId: string) {
+  return event(eventType, { stepKey: "ap", role, userId });
+}
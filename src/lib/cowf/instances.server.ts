@@ -22,9 +22,11 @@
 
 import "server-only";
 
+import { createHash } from "crypto";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
-import { appendWorkflowEvent } from "./events.server";
+import { WorkflowDefinitionError } from "./define-workflow";
+import { appendWorkflowEvent, canonicalize } from "./events.server";
 import {
   type DefineWorkflowInput,
   type StartWorkflowInput,
@@ -33,21 +35,12 @@ import {
   WorkflowEventType,
 } from "./types";
 
-// Lazy-imported to avoid circular dependency:
+// The executor is lazy-imported to avoid a circular dependency:
 //   instances.server <-> executor.server <-> events.server
 //
 // The executor module imports from instances.server (advanceState), so
 // instances.server cannot statically import executor.server. We resolve
 // the import inside `maybeAutoFireInitialStep()` at call time.
-type AutoFireResult = { fired: boolean };
-async function lazyExecuteStep(input: {
-  workflowId: string;
-  stepKey: string;
-  causedBy: string;
-}): Promise<AutoFireResult> {
-  const { executeStep } = await import("./executor.server");
-  return executeStep(input);
-}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const operatorWorkflowDef = (prisma as any).operatorWorkflowDef;
@@ -61,15 +54,34 @@ const operatorWorkflowInstance = (prisma as any).operatorWorkflowInstance;
  * if `(name, version)` already exists. Bumping `version` creates a new row
  * — old instances stay on their original version, new instances pick the
  * latest. Replay-safe by construction.
+ *
+ * A registered version is immutable: re-registering `(name, version)`
+ * with different states / steps throws `WorkflowDefinitionError` instead
+ * of silently keeping the old row while the code runs the new one. Rows
+ * registered before fingerprints existed are backfilled on first match.
  */
 export async function registerWorkflowDef(
   input: DefineWorkflowInput,
 ): Promise<{ id: string; created: boolean }> {
+  const fingerprint = workflowDefFingerprint(input);
   const existing = await operatorWorkflowDef.findUnique({
     where: { name_version: { name: input.name, version: input.version } },
-    select: { id: true },
+    select: { id: true, fingerprint: true },
   });
-  if (existing) return { id: existing.id, created: false };
+  if (existing) {
+    if (existing.fingerprint && existing.fingerprint !== fingerprint) {
+      throw new WorkflowDefinitionError(input.name, [
+        `version ${input.version} is already registered with a different definition — bump the version and add a migration`,
+      ]);
+    }
+    if (!existing.fingerprint) {
+      await operatorWorkflowDef.update({
+        where: { id: existing.id },
+        data: { fingerprint },
+      });
+    }
+    return { id: existing.id, created: false };
+  }
 
   const created = await operatorWorkflowDef.create({
     data: {
@@ -79,6 +91,7 @@ export async function registerWorkflowDef(
       states: input.states as unknown as object,
       steps: input.steps as unknown as object,
       subjectType: input.subjectType ?? null,
+      fingerprint,
     },
     select: { id: true },
   });
@@ -90,6 +103,23 @@ export async function registerWorkflowDef(
   return { id: created.id, created: true };
 }
 
+/**
+ * SHA-256 over the parts of a definition the engine executes — states,
+ * steps and subject type, as they would be stored (JSON round-trip drops
+ * `undefined` fields). The description is deliberately excluded so a
+ * wording fix does not need a version bump.
+ */
+export function workflowDefFingerprint(input: DefineWorkflowInput): string {
+  const executable = JSON.parse(
+    JSON.stringify({
+      states: input.states,
+      steps: input.steps,
+      subjectType: input.subjectType ?? null,
+    }),
+  );
+  return createHash("sha256").update(canonicalize(executable)).digest("hex");
+}
+
 /**
  * Look up a definition by name + version (or name + latest version).
  */
@@ -216,7 +246,8 @@ export async function startWorkflow(
 
 /**
  * If the initialState has a step with `autoFireOnEnter: true`, run it
- * via the executor. Looks up the registered WorkflowDef (Sprint 3D
+ * via the executor; otherwise open its waiting steps (form / approval /
+ * waitForEvent). Looks up the registered WorkflowDef (Sprint 3D
  * registry) — if the def is not registered (test environment, code
  * removed, etc.) we silently skip without throwing. The workflow
  * instance still exists and can be advanced manually.
@@ -236,15 +267,13 @@ async function maybeAutoFireInitialStep(
       );
       return;
     }
-    const { findAutoFireStepFor } = await import("./executor.server");
-    const stepKey = findAutoFireStepFor(def.storedInput.steps, initialState);
-    if (!stepKey) return;
-
-    await lazyExecuteStep({
+    const { fireStepsOnEnter } = await import("./executor.server");
+    await fireStepsOnEnter(
+      def,
       workflowId,
-      stepKey,
-      causedBy: "system:auto-fire-initial",
-    });
+      initialState,
+      "system:auto-fire-initial",
+    );
   } catch (err) {
     logger.error("[cowf] auto-fire initial step failed (instance kept)", {
       workflowId,
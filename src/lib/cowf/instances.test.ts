@@ -3,7 +3,9 @@
  *
  * Coverage:
  *
- *   1. registerWorkflowDef idempotence — same (name, version) returns existing
+ *   1. registerWorkflowDef idempotence — same (name, version) returns existing;
+ *      a changed definition under the same version is refused; missing
+ *      fingerprints are backfilled
  *   2. findWorkflowDef — by name+version, by name (latest)
  *   3. startWorkflow — creates instance + emits initial STATE_TRANSITION event
  *   4. startWorkflow — rejects unknown defId
@@ -27,6 +29,7 @@ const {
     findUnique: vi.fn(),
     findFirst: vi.fn(),
     create: vi.fn(),
+    update: vi.fn(),
   },
   mockOperatorWorkflowInstance: {
     findUnique: vi.fn(),
@@ -47,7 +50,8 @@ vi.mock("@/lib/prisma", () => ({
   },
 }));
 
-vi.mock("./events.server", () => ({
+vi.mock("./events.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./events.server")>()),
   appendWorkflowEvent: mockAppendWorkflowEvent,
 }));
 
@@ -64,6 +68,7 @@ import {
   pauseWorkflow,
   registerWorkflowDef,
   startWorkflow,
+  workflowDefFingerprint,
 } from "./instances.server";
 import { WorkflowEventType } from "./types";
 
@@ -112,6 +117,76 @@ describe("registerWorkflowDef", () => {
     expect(result.id).toBe("def_old");
     expect(mockOperatorWorkflowDef.create).not.toHaveBeenCalled();
   });
+
+  it("stores the definition fingerprint on create", async () => {
+    mockOperatorWorkflowDef.findUnique.mockResolvedValue(null);
+    mockOperatorWorkflowDef.create.mockResolvedValue({ id: "def_1" });
+    const input = {
+      name: "test",
+      version: 1,
+      description: "x",
+      states: ["A", "B"],
+      steps: [],
+    };
+    await registerWorkflowDef(input);
+    expect(
+      mockOperatorWorkflowDef.create.mock.calls[0][0].data.fingerprint,
+    ).toBe(workflowDefFingerprint(input));
+  });
+
+  it("refuses a changed definition under an existing version", async () => {
+    mockOperatorWorkflowDef.findUnique.mockResolvedValue({
+      id: "def_old",
+      fingerprint: workflowDefFingerprint({
+        name: "test",
+        version: 1,
+        description: "x",
+        states: ["A"],
+        steps: [],
+      }),
+    });
+    await expect(
+      registerWorkflowDef({
+        name: "test",
+        version: 1,
+        description: "x",
+        states: ["A", "B"],
+        steps: [],
+      }),
+    ).rejects.toThrow(/bump the version/);
+  });
+
+  it("backfills a missing fingerprint on an existing row", async () => {
+    mockOperatorWorkflowDef.findUnique.mockResolvedValue({
+      id: "def_old",
+      fingerprint: null,
+    });
+    const input = {
+      name: "test",
+      version: 1,
+      description: "x",
+      states: ["A"],
+      steps: [],
+    };
+    await registerWorkflowDef(input);
+    expect(mockOperatorWorkflowDef.update).toHaveBeenCalledWith({
+      where: { id: "def_old" },
+      data: { fingerprint: workflowDefFingerprint(input) },
+    });
+  });
+
+  it("ignores the description when fingerprinting", () => {
+    const base = {
+      name: "test",
+      version: 1,
+      description: "x",
+      states: ["A"],
+      steps: [],
+    };
+    expect(workflowDefFingerprint({ ...base, description: "y" })).toBe(
+      workflowDefFingerprint(base),
+    );
+  });
 });
 
 // ─── findWorkflowDef ───────────────────────────────────────────────────────
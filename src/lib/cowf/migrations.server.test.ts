@@ -0,0 +1,332 @@
+/**
+ * COWF migration runner — dry-run, apply, version overview.
+ *
+ * Coverage:
+ *
+ *   1. migrateWorkflowInstances — unknown migration / version throws;
+ *      candidates are the old version's active instances
+ *   2. dry-run — plans every instance, writes nothing
+ *   3. apply — MIGRATED event before the instance update, step keys
+ *      renamed on schedules / listeners / approval slots, blocked
+ *      instances untouched
+ *   4. countInstancesByVersion — active vs finished, registered + latest
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const {
+  mockDef,
+  mockInstance,
+  mockSchedule,
+  mockListener,
+  mockSlot,
+  mockAppendEvent,
+  mockLoadEvents,
+  mockFindDef,
+  mockRegisterDef,
+} = vi.hoisted(() => ({
+  mockDef: { findMany: vi.fn() },
+  mockInstance: { findMany: vi.fn(), update: vi.fn(), groupBy: vi.fn() },
+  mockSchedule: { updateMany: vi.fn() },
+  mockListener: { updateMany: vi.fn() },
+  mockSlot: { updateMany: vi.fn() },
+  mockAppendEvent: vi.fn(),
+  mockLoadEvents: vi.fn(),
+  mockFindDef: vi.fn(),
+  mockRegisterDef: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    operatorWorkflowDef: mockDef,
+    operatorWorkflowInstance: mockInstance,
+    workflowSchedule: mockSchedule,
+    workflowEventListener: mockListener,
+    workflowApprovalSlot: mockSlot,
+  },
+}));
+
+vi.mock("./events.server", () => ({
+  appendWorkflowEvent: mockAppendEvent,
+  loadEvents: mockLoadEvents,
+}));
+
+vi.mock("./instances.server", () => ({
+  findWorkflowDef: mockFindDef,
+  registerWorkflowDef: mockRegisterDef,
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import { defineWorkflow } from "./define-workflow";
+import { defineWorkflowMigration } from "./migrations";
+import {
+  countInstancesByVersion,
+  migrateWorkflowInstances,
+} from "./migrations.server";
+import {
+  __resetRegistryForTests,
+  registerWorkflow,
+  registerWorkflowMigration,
+} from "./registry.server";
+import { step } from "./steps";
+import { WorkflowEventType, type WorkflowEventRow } from "./types";
+
+const v1 = defineWorkflow({
+  name: "filing",
+  version: 1,
+  description: "v1",
+  states: ["DRAFT", "REVIEW", "DONE"],
+  initialState: "DRAFT",
+  steps: {
+    fill: step.form({ key: "fill", from: "DRAFT", to: "REVIEW" }),
+    "sign-off": step.approval({
+      key: "sign-off",
+      from: "REVIEW",
+      to: "DONE",
+      requireRoles: ["OPERATOR"],
+    }),
+  },
+});
+
+const v2 = defineWorkflow({
+  name: "filing",
+  version: 2,
+  description: "v2",
+  states: ["DRAFT", "IN_REVIEW", "DONE"],
+  initialState: "DRAFT",
+  steps: {
+    fill: step.form({ key: "fill", from: "DRAFT", to: "IN_REVIEW" }),
+    approve: step.approval({
+      key: "approve",
+      from: "IN_REVIEW",
+      to: "DONE",
+      requireRoles: ["OPERATOR"],
+    }),
+  },
+});
+
+const BASE = {
+  workflow: "filing",
+  fromVersion: 1,
+  toVersion: 2,
+  causedBy: "admin:u1",
+};
+
+function event(
+  eventType: string,
+  payload: Record<string, unknown>,
+  resultingState: string | null = null,
+): WorkflowEventRow {
+  return {
+    id: "",
+    workflowId: "wf",
+    sequence: 0,
+    eventType,
+    causedBy: "test",
+    payload,
+    resultingState,
+    prevHash: "p",
+    entryHash: "h",
+    occurredAt: new Date("2026-01-01T00:00:00Z"),
+  };
+}
+
+const reviewing = [
+  event(WorkflowEventType.STATE_TRANSITION, { toState: "REVIEW" }, "REVIEW"),
+  event(WorkflowEventType.STEP_STARTED, { stepKey: "sign-off" }),
+];
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  __resetRegistryForTests();
+  registerWorkflowMigration(
+    defineWorkflowMigration({
+      from: v1,
+      to: v2,
+      states: { REVIEW: "IN_REVIEW" },
+      steps: { "sign-off": "approve" },
+    }),
+  );
+  mockFindDef.mockImplementation(async (_name: string, version: number) => ({
+    id: `def_v${version}`,
+    version,
+    states: [],
+  }));
+  mockInstance.findMany.mockResolvedValue([
+    { id: "wf_a", organizationId: "org_1", currentState: "REVIEW" },
+    { id: "wf_b", organizationId: "org_1", currentState: "DRAFT" },
+  ]);
+  mockLoadEvents.mockImplementation(async (id: string) =>
+    id === "wf_a"
+      ? reviewing
+      : [
+          event(
+            WorkflowEventType.STATE_TRANSITION,
+            { toState: "DRAFT" },
+            "DRAFT",
+          ),
+        ],
+  );
+  mockAppendEvent.mockResolvedValue({ id: "e", sequence: 2 });
+});
+
+// ─── migrateWorkflowInstances ──────────────────────────────────────────────
+
+describe("migrateWorkflowInstances", () => {
+  it("throws for an unregistered migration or version", async () => {
+    await expect(
+      migrateWorkflowInstances({ ...BASE, toVersion: 3, dryRun: true }),
+    ).rejects.toThrow(/No migration registered/);
+
+    mockFindDef.mockResolvedValueOnce(null);
+    await expect(
+      migrateWorkflowInstances({ ...BASE, dryRun: true }),
+    ).rejects.toThrow(/v1 is not registered/);
+  });
+
+  it("plans the old version's active instances without writing on dry-run", async () => {
+    const report = await migrateWorkflowInstances({
+      ...BASE,
+      dryRun: true,
+      organizationId: "org_1",
+    });
+
+    expect(mockInstance.findMany.mock.calls[0][0].where).toEqual({
+      defId: "def_v1",
+      completedAt: null,
+      archivedAt: null,
+      organizationId: "org_1",
+    });
+    expect(report).toMatchObject({
+      migration: "filing@v1->v2",
+      dryRun: true,
+      fromDefId: "def_v1",
+      toDefId: "def_v2",
+      migratable: 2,
+      blocked: 0,
+      migrated: 0,
+    });
+    expect(report.instances[0].plan).toMatchObject({
+      fromState: "REVIEW",
+      toState: "IN_REVIEW",
+      openSteps: [{ from: "sign-off", to: "approve", kind: "approval" }],
+    });
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+    expect(mockInstance.update).not.toHaveBeenCalled();
+  });
+
+  it("records MIGRATED, repoints the instance and renames step keys", async () => {
+    const report = await migrateWorkflowInstances({ ...BASE, dryRun: false });
+
+    expect(report.migrated).toBe(2);
+    expect(mockAppendEvent).toHaveBeenCalledWith({
+      workflowId: "wf_a",
+      eventType: WorkflowEventType.MIGRATED,
+      causedBy: "admin:u1",
+      payload: {
+        fromDefId: "def_v1",
+        toDefId: "def_v2",
+        fromVersion: 1,
+        toVersion: 2,
+        states: { REVIEW: "IN_REVIEW" },
+        steps: { "sign-off": "approve" },
+        fromState: "REVIEW",
+        toState: "IN_REVIEW",
+        stateBag: {},
+      },
+      resultingState: "IN_REVIEW",
+    });
+    expect(mockInstance.update).toHaveBeenCalledWith({
+      where: { id: "wf_a" },
+      data: { defId: "def_v2", currentState: "IN_REVIEW" },
+    });
+    expect(mockAppendEvent.mock.invocationCallOrder[0]).toBeLessThan(
+      mockInstance.update.mock.invocationCallOrder[0],
+    );
+    for (const model of [mockSchedule, mockListener, mockSlot]) {
+      expect(model.updateMany).toHaveBeenCalledWith({
+        where: { workflowId: "wf_a", stepKey: "sign-off" },
+        data: { stepKey: "approve" },
+      });
+    }
+  });
+
+  it("leaves blocked instances alone", async () => {
+    __resetRegistryForTests();
+    registerWorkflowMigration(defineWorkflowMigration({ from: v1, to: v2 }));
+
+    const report = await migrateWorkflowInstances({ ...BASE, dryRun: false });
+
+    expect(report.blocked).toBe(1);
+    expect(report.instances[0]).toMatchObject({
+      workflowId: "wf_a",
+      migrated: false,
+      plan: {
+        blockers: ["target-state-missing:REVIEW", "open-step-dropped:sign-off"],
+      },
+    });
+    expect(mockAppendEvent).toHaveBeenCalledTimes(1);
+    expect(mockAppendEvent.mock.calls[0][0].workflowId).toBe("wf_b");
+  });
+});
+
+// ─── countInstancesByVersion ───────────────────────────────────────────────
+
+describe("countInstancesByVersion", () => {
+  it("splits active from finished and flags registered + latest", async () => {
+    mockRegisterDef
+      .mockResolvedValueOnce({ id: "def_v1", created: false })
+      .mockResolvedValueOnce({ id: "def_v2", created: false });
+    await registerWorkflow(v1);
+    await registerWorkflow(v2);
+    mockDef.findMany.mockResolvedValue([
+      { id: "def_v0", name: "filing", version: 0 },
+      { id: "def_v1", name: "filing", version: 1 },
+      { id: "def_v2", name: "filing", version: 2 },
+    ]);
+    mockInstance.groupBy
+      .mockResolvedValueOnce([
+        { defId: "def_v0", _count: { _all: 1 } },
+        { defId: "def_v1", _count: { _all: 3 } },
+      ])
+      .mockResolvedValueOnce([
+        { defId: "def_v0", _count: { _all: 4 } },
+        { defId: "def_v1", _count: { _all: 5 } },
+      ]);
+
+    expect(await countInstancesByVersion()).toEqual([
+      {
+        defId: "def_v0",
+        name: "filing",
+        version: 0,
+        registered: false,
+        latest: false,
+        active: 1,
+        finished: 3,
+      },
+      {
+        defId: "def_v1",
+        name: "filing",
+        version: 1,
+        registered: true,
+        latest: false,
+        active: 3,
+        finished: 2,
+      },
+      {
+        defId: "def_v2",
+        name: "filing",
+        version: 2,
+        registered: true,
+        latest: true,
+        active: 0,
+        finished: 0,
+      },
+    ]);
+  });
+});
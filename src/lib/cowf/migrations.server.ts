@@ -0,0 +1,274 @@
+/**
+ * COWF — Workflow migration runner + version overview
+ *
+ * Applies the declarative migrations from `migrations.ts` to running
+ * instances. Nothing moves implicitly: an instance stays on the version
+ * it started on until an admin runs `migrateWorkflowInstances` for a
+ * registered (workflow, fromVersion → toVersion) migration. `dryRun`
+ * plans every candidate instance and reports which would move and which
+ * are blocked, without writing anything.
+ *
+ * **Applying one instance** follows the `advanceState` rule — chain
+ * first, columns second:
+ *
+ *   1. Append MIGRATED (old/new defId + version, the state and step-key
+ *      maps, the transformed state-bag) with `resultingState` = the
+ *      mapped state
+ *   2. Point the instance at the new def and mapped state
+ *   3. Rename step keys on the instance's schedules, listeners and
+ *      approval slots so open rounds resolve under their new keys
+ *
+ * Blocked instances (see `InstanceMigrationPlan.blockers`) are never
+ * touched; re-run once they have left the blocking state.
+ */
+
+import "server-only";
+
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { appendWorkflowEvent, loadEvents } from "./events.server";
+import { findWorkflowDef } from "./instances.server";
+import {
+  planInstanceMigration,
+  type InstanceMigrationPlan,
+  type MigratedPayload,
+  type WorkflowMigration,
+} from "./migrations";
+import {
+  getLatestWorkflowDef,
+  getWorkflowDefByName,
+  getWorkflowMigration,
+} from "./registry.server";
+import { WorkflowEventType } from "./types";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const operatorWorkflowDef = (prisma as any).operatorWorkflowDef;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const operatorWorkflowInstance = (prisma as any).operatorWorkflowInstance;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const workflowSchedule = (prisma as any).workflowSchedule;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const workflowEventListener = (prisma as any).workflowEventListener;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const workflowApprovalSlot = (prisma as any).workflowApprovalSlot;
+
+/** Instances planned per run — a larger backlog takes several runs. */
+export const MAX_INSTANCES_PER_MIGRATION = 500;
+
+// ─── Migrate ───────────────────────────────────────────────────────────────
+
+export interface MigrateWorkflowInstancesInput {
+  workflow: string;
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  /** Restrict the run to one organisation's instances. */
+  organizationId?: string;
+  causedBy: string;
+}
+
+export interface InstanceMigrationOutcome {
+  workflowId: string;
+  organizationId: string;
+  plan: InstanceMigrationPlan;
+  migrated: boolean;
+}
+
+export interface WorkflowMigrationReport {
+  migration: string;
+  dryRun: boolean;
+  fromDefId: string;
+  toDefId: string;
+  instances: InstanceMigrationOutcome[];
+  migratable: number;
+  blocked: number;
+  migrated: number;
+}
+
+/**
+ * Plan (and unless `dryRun`, apply) a registered migration to every
+ * active instance of the old version. Throws if the migration or either
+ * version is unknown.
+ */
+export async function migrateWorkflowInstances(
+  input: MigrateWorkflowInstancesInput,
+): Promise<WorkflowMigrationReport> {
+  const migration = getWorkflowMigration(
+    input.workflow,
+    input.fromVersion,
+    input.toVersion,
+  );
+  if (!migration) {
+    throw new Error(
+      `No migration registered for "${input.workflow}" v${input.fromVersion} → v${input.toVersion}`,
+    );
+  }
+  const fromDef = await findWorkflowDef(input.workflow, input.fromVersion);
+  const toDef = await findWorkflowDef(input.workflow, input.toVersion);
+  if (!fromDef) {
+    throw new Error(
+      `"${input.workflow}" v${input.fromVersion} is not registered in the database`,
+    );
+  }
+  if (!toDef) {
+    throw new Error(
+      `"${input.workflow}" v${input.toVersion} is not registered in the database`,
+    );
+  }
+
+  const rows: Array<{
+    id: string;
+    organizationId: string;
+    currentState: string;
+  }> = await operatorWorkflowInstance.findMany({
+    where: {
+      defId: fromDef.id,
+      completedAt: null,
+      archivedAt: null,
+      ...(input.organizationId ? { organizationId: input.organizationId } : {}),
+    },
+    orderBy: { startedAt: "asc" },
+    take: MAX_INSTANCES_PER_MIGRATION,
+    select: { id: true, organizationId: true, currentState: true },
+  });
+
+  const instances: InstanceMigrationOutcome[] = [];
+  for (const row of rows) {
+    const plan = planInstanceMigration(migration, {
+      currentState: row.currentState,
+      events: await loadEvents(row.id),
+    });
+    let migrated = false;
+    if (!input.dryRun && plan.blockers.length === 0) {
+      await applyInstanceMigration(row.id, migration, plan, {
+        fromDefId: fromDef.id,
+        toDefId: toDef.id,
+        causedBy: input.causedBy,
+      });
+      migrated = true;
+    }
+    instances.push({
+      workflowId: row.id,
+      organizationId: row.organizationId,
+      plan,
+      migrated,
+    });
+  }
+
+  const report: WorkflowMigrationReport = {
+    migration: migration.name,
+    dryRun: input.dryRun,
+    fromDefId: fromDef.id,
+    toDefId: toDef.id,
+    instances,
+    migratable: instances.filter((i) => i.plan.blockers.length === 0).length,
+    blocked: instances.filter((i) => i.plan.blockers.length > 0).length,
+    migrated: instances.filter((i) => i.migrated).length,
+  };
+  logger.info("[cowf-migrations] migration run", {
+    migration: report.migration,
+    dryRun: report.dryRun,
+    candidates: instances.length,
+    migratable: report.migratable,
+    blocked: report.blocked,
+    migrated: report.migrated,
+  });
+  return report;
+}
+
+async function applyInstanceMigration(
+  workflowId: string,
+  migration: WorkflowMigration,
+  plan: InstanceMigrationPlan,
+  args: { fromDefId: string; toDefId: string; causedBy: string },
+): Promise<void> {
+  const payload: MigratedPayload = {
+    fromDefId: args.fromDefId,
+    toDefId: args.toDefId,
+    fromVersion: migration.fromVersion,
+    toVersion: migration.toVersion,
+    states: migration.states,
+    steps: migration.steps,
+    fromState: plan.fromState,
+    toState: plan.toState,
+    stateBag: plan.stateBag,
+  };
+  await appendWorkflowEvent({
+    workflowId,
+    eventType: WorkflowEventType.MIGRATED,
+    causedBy: args.causedBy,
+    payload: { ...payload },
+    resultingState: plan.toState,
+  });
+
+  await operatorWorkflowInstance.update({
+    where: { id: workflowId },
+    data: { defId: args.toDefId, currentState: plan.toState },
+  });
+
+  for (const [oldKey, newKey] of Object.entries(migration.steps)) {
+    if (oldKey === newKey) continue;
+    const where = { workflowId, stepKey: oldKey };
+    const data = { stepKey: newKey };
+    await workflowSchedule.updateMany({ where, data });
+    await workflowEventListener.updateMany({ where, data });
+    await workflowApprovalSlot.updateMany({ where, data });
+  }
+}
+
+// ─── Version overview ──────────────────────────────────────────────────────
+
+export interface WorkflowVersionCount {
+  defId: string;
+  name: string;
+  version: number;
+  /** This app version ships handlers for the definition. */
+  registered: boolean;
+  /** Highest registered version — new instances start here. */
+  latest: boolean;
+  active: number;
+  finished: number;
+}
+
+/**
+ * Instance counts per persisted definition version — active (neither
+ * completed nor archived) vs finished. Versions with active instances
+ * but `registered: false` are stranded: their handlers are gone.
+ */
+export async function countInstancesByVersion(): Promise<
+  WorkflowVersionCount[]
+> {
+  const defs: Array<{ id: string; name: string; version: number }> =
+    await operatorWorkflowDef.findMany({
+      orderBy: [{ name: "asc" }, { version: "asc" }],
+      select: { id: true, name: true, version: true },
+    });
+  const [activeGroups, totalGroups]: Array<
+    Array<{ defId: string; _count: { _all: number } }>
+  > = await Promise.all([
+    operatorWorkflowInstance.groupBy({
+      by: ["defId"],
+      where: { completedAt: null, archivedAt: null },
+      _count: { _all: true },
+    }),
+    operatorWorkflowInstance.groupBy({
+      by: ["defId"],
+      _count: { _all: true },
+    }),
+  ]);
+  const active = new Map(activeGroups.map((g) => [g.defId, g._count._all]));
+  const total = new Map(totalGroups.map((g) => [g.defId, g._count._all]));
+
+  return defs.map((def) => {
+    const activeCount = active.get(def.id) ?? 0;
+    return {
+      defId: def.id,
+      name: def.name,
+      version: def.version,
+      registered: getWorkflowDefByName(def.name, def.version) !== null,
+      latest: getLatestWorkflowDef(def.name)?.meta.version === def.version,
+      active: activeCount,
+      finished: (total.get(def.id) ?? 0) - activeCount,
+    };
+  });
+}
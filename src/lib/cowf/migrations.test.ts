@@ -0,0 +1,293 @@
+/**
+ * COWF migrations — declarative maps, dry-run planning, replay translation.
+ *
+ * Coverage:
+ *
+ *   1. defineWorkflowMigration — valid maps accepted; unknown states / step
+ *      keys, cross-workflow, non-increasing versions and merged keys refused
+ *   2. transformStateBag — rename, drop, set
+ *   3. planInstanceMigration — state + open-step mapping, state-bag
+ *      transform, blockers for dropped / changed open steps and missing
+ *      target states
+ *   4. translateMigratedEvents — earlier events renamed, later events and
+ *      the input untouched, chained migrations composed
+ */
+
+import { describe, it, expect } from "vitest";
+import { defineWorkflow } from "./define-workflow";
+import {
+  defineWorkflowMigration,
+  planInstanceMigration,
+  transformStateBag,
+  translateMigratedEvents,
+  WorkflowMigrationError,
+} from "./migrations";
+import { findStepRound } from "./step-replay";
+import { step } from "./steps";
+import { WorkflowEventType, type WorkflowEventRow } from "./types";
+
+const v1 = defineWorkflow({
+  name: "filing",
+  version: 1,
+  description: "v1",
+  states: ["DRAFT", "REVIEW", "DONE"],
+  initialState: "DRAFT",
+  steps: {
+    fill: step.form({ key: "fill", from: "DRAFT", to: "REVIEW" }),
+    "sign-off": step.approval({
+      key: "sign-off",
+      from: "REVIEW",
+      to: "DONE",
+      requireRoles: ["OPERATOR"],
+    }),
+  },
+});
+
+const v2 = defineWorkflow({
+  name: "filing",
+  version: 2,
+  description: "v2",
+  states: ["DRAFT", "IN_REVIEW", "DONE"],
+  initialState: "DRAFT",
+  steps: {
+    fill: step.form({ key: "fill", from: "DRAFT", to: "IN_REVIEW" }),
+    approve: step.approval({
+      key: "approve",
+      from: "IN_REVIEW",
+      to: "DONE",
+      requireRoles: ["OPERATOR", "CISO"],
+    }),
+  },
+});
+
+const migration = defineWorkflowMigration({
+  from: v1,
+  to: v2,
+  states: { REVIEW: "IN_REVIEW" },
+  steps: { "sign-off": "approve" },
+  stateBag: { rename: { sev: "severity" }, drop: ["tmp"], set: { schema: 2 } },
+});
+
+// ─── defineWorkflowMigration ───────────────────────────────────────────────
+
+describe("defineWorkflowMigration", () => {
+  it("names the migration after workflow and versions", () => {
+    expect(migration.name).toBe("filing@v1->v2");
+    expect(migration.workflow).toBe("filing");
+    expect([migration.fromVersion, migration.toVersion]).toEqual([1, 2]);
+  });
+
+  it("refuses maps that reference unknown states or steps", () => {
+    try {
+      defineWorkflowMigration({
+        from: v1,
+        to: v2,
+        states: { GHOST: "DONE", REVIEW: "NOWHERE" },
+        steps: { ghost: "approve", fill: "missing" },
+      });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(WorkflowMigrationError);
+      expect((err as WorkflowMigrationError).issues).toEqual([
+        'state "GHOST" is not a v1 state',
+        'state "REVIEW" maps to "NOWHERE" which is not a v2 state',
+        'step "ghost" is not a v1 step',
+        'step "fill" maps to "missing" which is not a v2 step',
+      ]);
+    }
+  });
+
+  it("refuses going backwards or across workflows", () => {
+    expect(() => defineWorkflowMigration({ from: v2, to: v1 })).toThrow(
+      /must be greater/,
+    );
+    const other = defineWorkflow({
+      name: "other",
+      version: 2,
+      description: "x",
+      states: ["DRAFT"],
+      initialState: "DRAFT",
+      steps: {
+        go: step.action({
+          key: "go",
+          from: "DRAFT",
+          to: "DRAFT",
+          run: () => {},
+        }),
+      },
+    });
+    expect(() => defineWorkflowMigration({ from: v1, to: other })).toThrow(
+      /different workflows/,
+    );
+  });
+
+  it("refuses two old steps merged into one new key", () => {
+    expect(() =>
+      defineWorkflowMigration({
+        from: v1,
+        to: v2,
+        steps: { fill: "approve", "sign-off": "approve" },
+      }),
+    ).toThrow(/both map to "approve"/);
+  });
+});
+
+// ─── transformStateBag ─────────────────────────────────────────────────────
+
+describe("transformStateBag", () => {
+  it("renames, then drops, then sets", () => {
+    expect(
+      transformStateBag(
+        { rename: { a: "b" }, drop: ["c"], set: { d: 1 } },
+        { a: "x", c: true, e: "kept" },
+      ),
+    ).toEqual({ b: "x", d: 1, e: "kept" });
+  });
+});
+
+// ─── planInstanceMigration ─────────────────────────────────────────────────
+
+describe("planInstanceMigration", () => {
+  it("maps the state, carries the open round and transforms the bag", () => {
+    const plan = planInstanceMigration(migration, {
+      currentState: "REVIEW",
+      events: chain(
+        transition("DRAFT"),
+        started("fill"),
+        completed("fill", { sev: "high", tmp: 1 }),
+        transition("REVIEW"),
+        started("sign-off"),
+      ),
+    });
+    expect(plan).toEqual({
+      fromState: "REVIEW",
+      toState: "IN_REVIEW",
+      openSteps: [{ from: "sign-off", to: "approve", kind: "approval" }],
+      stateBag: { severity: "high", schema: 2 },
+      blockers: [],
+    });
+  });
+
+  it("blocks an open round whose step was dropped or changed", () => {
+    const dropped = defineWorkflow({
+      name: "filing",
+      version: 3,
+      description: "v3",
+      states: ["DRAFT", "REVIEW", "DONE"],
+      initialState: "DRAFT",
+      steps: {
+        fill: step.form({ key: "fill", from: "DRAFT", to: "REVIEW" }),
+        "sign-off": step.form({ key: "sign-off", from: "REVIEW", to: "DONE" }),
+      },
+    });
+    const events = chain(transition("REVIEW"), started("sign-off"));
+
+    expect(
+      planInstanceMigration(defineWorkflowMigration({ from: v1, to: v2 }), {
+        currentState: "REVIEW",
+        events,
+      }).blockers,
+    ).toEqual(["target-state-missing:REVIEW", "open-step-dropped:sign-off"]);
+    expect(
+      planInstanceMigration(
+        defineWorkflowMigration({ from: v1, to: dropped }),
+        {
+          currentState: "REVIEW",
+          events,
+        },
+      ).blockers,
+    ).toEqual(["open-step-kind-changed:sign-off"]);
+  });
+
+  it("ignores closed rounds", () => {
+    const plan = planInstanceMigration(
+      defineWorkflowMigration({ from: v1, to: v2 }),
+      {
+        currentState: "DRAFT",
+        events: chain(
+          transition("DRAFT"),
+          started("fill"),
+          completed("fill", {}),
+        ),
+      },
+    );
+    expect(plan.openSteps).toEqual([]);
+    expect(plan.blockers).toEqual([]);
+  });
+});
+
+// ─── translateMigratedEvents ───────────────────────────────────────────────
+
+describe("translateMigratedEvents", () => {
+  it("renames earlier events into the migrated vocabulary", () => {
+    const events = chain(
+      transition("REVIEW"),
+      started("sign-off"),
+      migrated({ REVIEW: "IN_REVIEW" }, { "sign-off": "approve" }),
+      event(WorkflowEventType.APPROVAL_GRANTED, { stepKey: "approve" }),
+    );
+    const translated = translateMigratedEvents(events);
+
+    expect(translated[0].resultingState).toBe("IN_REVIEW");
+    expect(translated[0].payload.toState).toBe("IN_REVIEW");
+    expect(translated[1].payload.stepKey).toBe("approve");
+    expect(translated[3]).toBe(events[3]);
+    // Stored rows stay as recorded.
+    expect(events[1].payload.stepKey).toBe("sign-off");
+
+    const round = findStepRound(translated, "approve", "IN_REVIEW");
+    expect(round.started).toBe(true);
+    expect(round.closed).toBe(false);
+  });
+
+  it("composes chained migrations oldest first", () => {
+    const translated = translateMigratedEvents(
+      chain(started("a"), migrated({}, { a: "b" }), migrated({}, { b: "c" })),
+    );
+    expect(translated[0].payload.stepKey).toBe("c");
+  });
+});
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+function event(
+  eventType: string,
+  payload: Record<string, unknown>,
+  resultingState: string | null = null,
+): WorkflowEventRow {
+  return {
+    id: "",
+    workflowId: "wf_1",
+    sequence: 0,
+    eventType,
+    causedBy: "test",
+    payload,
+    resultingState,
+    prevHash: "p",
+    entryHash: "h",
+    occurredAt: new Date("2026-01-01T00:00:00Z"),
+  };
+}
+
+function chain(...events: WorkflowEventRow[]): WorkflowEventRow[] {
+  return events.map((e, i) => ({ ...e, id: `ev_${i}`, sequence: i }));
+}
+
+function transition(toState: string) {
+  return event(WorkflowEventType.STATE_TRANSITION, { toState }, toState);
+}
+
+function started(stepKey: string) {
+  return event(WorkflowEventType.STEP_STARTED, { stepKey });
+}
+
+function completed(stepKey: string, output: Record<string, unknown>) {
+  return event(WorkflowEventType.STEP_COMPLETED, { stepKey, output });
+}
+
+function migrated(
+  states: Record<string, string>,
+  steps: Record<string, string>,
+) {
+  return event(WorkflowEventType.MIGRATED, { states, steps, stateBag: {} });
+}
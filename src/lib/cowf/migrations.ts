@@ -0,0 +1,322 @@
+/**
+ * COWF — Workflow migrations (declarative)
+ *
+ * Instances are pinned to the definition version they started on
+ * (`OperatorWorkflowInstance.defId`). Shipping a new version therefore
+ * changes nothing for running instances until they are migrated
+ * explicitly with a migration declared here:
+ *
+ *   defineWorkflowMigration({
+ *     from: heartbeatV1,
+ *     to: heartbeatV2,
+ *     states: { ASTRA_REASONED: "EXPLAINED" },
+ *     steps: { "astra-reason-about-drift": "explain-drift" },
+ *     stateBag: { rename: { driftScore: "drift" }, drop: ["debug"] },
+ *   });
+ *
+ * Unlisted states and step keys keep their names. The migration is
+ * validated when it is defined (`WorkflowMigrationError`), planned per
+ * instance (`planInstanceMigration` — the dry-run) and applied by
+ * `migrations.server.ts`, which appends a MIGRATED event to the
+ * instance's chain.
+ *
+ * **History is never rewritten.** Events recorded before a MIGRATED
+ * event keep their original payloads (and hashes). Replay reads the
+ * chain through `translateMigratedEvents`, which renames step keys and
+ * states of earlier events into the current version's vocabulary, so an
+ * approval round opened under v1 is still found under its v2 key.
+ *
+ * Pure functions, isomorphic — no Prisma, no clock reads.
+ */
+
+import type { WorkflowDef } from "./define-workflow";
+import { buildStateBag, findStepRound } from "./step-replay";
+import type { WorkflowEventRow } from "./types";
+import { WorkflowEventType } from "./types";
+
+// ─── Errors ────────────────────────────────────────────────────────────────
+
+export class WorkflowMigrationError extends Error {
+  readonly issues: string[];
+  constructor(migrationName: string, issues: string[]) {
+    super(
+      `Workflow migration "${migrationName}" failed validation:\n` +
+        issues.map((i) => `  - ${i}`).join("\n"),
+    );
+    this.name = "WorkflowMigrationError";
+    this.issues = issues;
+  }
+}
+
+// ─── defineWorkflowMigration ───────────────────────────────────────────────
+
+export interface StateBagTransform {
+  /** Old key → new key. */
+  rename?: Record<string, string>;
+  /** Keys removed after renaming. */
+  drop?: string[];
+  /** Keys set last — defaults for values the new version expects. */
+  set?: Record<string, unknown>;
+}
+
+export interface WorkflowMigrationConfig {
+  from: WorkflowDef;
+  to: WorkflowDef;
+  /** Old state → new state. Unlisted states keep their name. */
+  states?: Record<string, string>;
+  /** Old step key → new step key. Unlisted keys keep their name. */
+  steps?: Record<string, string>;
+  stateBag?: StateBagTransform;
+}
+
+export interface WorkflowMigration {
+  /** `${workflow}@v${from}->v${to}` — used in logs and errors. */
+  name: string;
+  workflow: string;
+  fromVersion: number;
+  toVersion: number;
+  from: WorkflowDef;
+  to: WorkflowDef;
+  states: Record<string, string>;
+  steps: Record<string, string>;
+  stateBag: StateBagTransform;
+}
+
+export function defineWorkflowMigration(
+  config: WorkflowMigrationConfig,
+): WorkflowMigration {
+  const migration: WorkflowMigration = {
+    name: `${config.from.meta.name}@v${config.from.meta.version}->v${config.to.meta.version}`,
+    workflow: config.from.meta.name,
+    fromVersion: config.from.meta.version,
+    toVersion: config.to.meta.version,
+    from: config.from,
+    to: config.to,
+    states: { ...(config.states ?? {}) },
+    steps: { ...(config.steps ?? {}) },
+    stateBag: config.stateBag ?? {},
+  };
+
+  const issues = validate(migration);
+  if (issues.length > 0) {
+    throw new WorkflowMigrationError(migration.name, issues);
+  }
+  return migration;
+}
+
+function validate(m: WorkflowMigration): string[] {
+  const issues: string[] = [];
+
+  if (m.from.meta.name !== m.to.meta.name) {
+    issues.push(
+      `from "${m.from.meta.name}" and to "${m.to.meta.name}" are different workflows`,
+    );
+  }
+  if (m.toVersion <= m.fromVersion) {
+    issues.push(
+      `to version ${m.toVersion} must be greater than from version ${m.fromVersion}`,
+    );
+  }
+
+  const fromStates = new Set(m.from.meta.states);
+  const toStates = new Set(m.to.meta.states);
+  for (const [oldState, newState] of Object.entries(m.states)) {
+    if (!fromStates.has(oldState)) {
+      issues.push(`state "${oldState}" is not a v${m.fromVersion} state`);
+    }
+    if (!toStates.has(newState)) {
+      issues.push(
+        `state "${oldState}" maps to "${newState}" which is not a v${m.toVersion} state`,
+      );
+    }
+  }
+
+  const fromKeys = new Set(m.from.meta.stepKeys);
+  const toKeys = new Set(m.to.meta.stepKeys);
+  const targets = new Map<string, string>();
+  for (const [oldKey, newKey] of Object.entries(m.steps)) {
+    if (!fromKeys.has(oldKey)) {
+      issues.push(`step "${oldKey}" is not a v${m.fromVersion} step`);
+    }
+    if (!toKeys.has(newKey)) {
+      issues.push(
+        `step "${oldKey}" maps to "${newKey}" which is not a v${m.toVersion} step`,
+      );
+    }
+    const earlier = targets.get(newKey);
+    if (earlier) {
+      issues.push(`steps "${earlier}" and "${oldKey}" both map to "${newKey}"`);
+    }
+    targets.set(newKey, oldKey);
+  }
+
+  return issues;
+}
+
+// ─── Mapping ───────────────────────────────────────────────────────────────
+
+export function mapState(
+  m: Pick<WorkflowMigration, "states">,
+  state: string,
+): string {
+  return m.states[state] ?? state;
+}
+
+export function mapStepKey(
+  m: Pick<WorkflowMigration, "steps">,
+  key: string,
+): string {
+  return m.steps[key] ?? key;
+}
+
+/** Apply `rename`, then `drop`, then `set`. Returns a new object. */
+export function transformStateBag(
+  transform: StateBagTransform,
+  bag: Record<string, unknown>,
+): Record<string, unknown> {
+  const next: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(bag)) {
+    next[transform.rename?.[key] ?? key] = value;
+  }
+  for (const key of transform.drop ?? []) {
+    delete next[key];
+  }
+  return { ...next, ...(transform.set ?? {}) };
+}
+
+// ─── Planning (dry-run) ────────────────────────────────────────────────────
+
+/** An open step round carried across the migration. */
+export interface CarriedStep {
+  from: string;
+  to: string;
+  kind: string;
+}
+
+export interface InstanceMigrationPlan {
+  fromState: string;
+  toState: string;
+  openSteps: CarriedStep[];
+  /** The state-bag after the transform — recorded on the MIGRATED event. */
+  stateBag: Record<string, unknown>;
+  /**
+   * Why the instance cannot move (empty = migratable):
+   *   - `target-state-missing:<state>` — current state has no v-next state
+   *   - `open-step-dropped:<key>` — an open round's step no longer exists
+   *   - `open-step-kind-changed:<key>` — it exists with a different kind
+   *   - `open-step-state-changed:<key>` — it no longer leaves the state
+   */
+  blockers: string[];
+}
+
+/**
+ * Plan the migration of one instance from its raw event chain. Open
+ * rounds (a form awaiting submission, an approval collecting votes, a
+ * pending signature) must survive the move unchanged in kind and state,
+ * otherwise the instance is blocked rather than stranded mid-step.
+ */
+export function planInstanceMigration(
+  m: WorkflowMigration,
+  instance: { currentState: string; events: readonly WorkflowEventRow[] },
+): InstanceMigrationPlan {
+  const events = translateMigratedEvents(instance.events);
+  const fromState = instance.currentState;
+  const toState = mapState(m, fromState);
+  const blockers: string[] = [];
+
+  if (!m.to.meta.states.includes(toState)) {
+    blockers.push(`target-state-missing:${toState}`);
+  }
+
+  const openSteps: CarriedStep[] = [];
+  for (const step of m.from.storedInput.steps) {
+    if (step.from !== fromState) continue;
+    const round = findStepRound(events, step.key, fromState);
+    if (!round.started || round.closed) continue;
+
+    const newKey = mapStepKey(m, step.key);
+    const target = m.to.storedInput.steps.find((s) => s.key === newKey);
+    if (!target) {
+      blockers.push(`open-step-dropped:${step.key}`);
+    } else if (target.kind !== step.kind) {
+      blockers.push(`open-step-kind-changed:${step.key}`);
+    } else if (target.from !== toState) {
+      blockers.push(`open-step-state-changed:${step.key}`);
+    }
+    openSteps.push({ from: step.key, to: newKey, kind: step.kind });
+  }
+
+  return {
+    fromState,
+    toState,
+    openSteps,
+    stateBag: transformStateBag(m.stateBag, buildStateBag(events)),
+    blockers,
+  };
+}
+
+// ─── Replay translation ────────────────────────────────────────────────────
+
+/** Payload of the MIGRATED event appended by `migrations.server.ts`. */
+export interface MigratedPayload {
+  fromDefId: string;
+  toDefId: string;
+  fromVersion: number;
+  toVersion: number;
+  states: Record<string, string>;
+  steps: Record<string, string>;
+  fromState: string;
+  toState: string;
+  stateBag: Record<string, unknown>;
+}
+
+const STATE_FIELDS = ["fromState", "toState", "finalState"] as const;
+
+/**
+ * Rewrite a chain into the vocabulary of its latest version: every event
+ * recorded before a MIGRATED event gets that migration's step-key and
+ * state maps applied (oldest migration first). Returns copies — the
+ * stored rows, and their hashes, are untouched.
+ */
+export function translateMigratedEvents(
+  events: readonly WorkflowEventRow[],
+): WorkflowEventRow[] {
+  const migrations: Array<{ index: number; payload: MigratedPayload }> = [];
+  events.forEach((e, index) => {
+    if (e.eventType === WorkflowEventType.MIGRATED) {
+      migrations.push({
+        index,
+        payload: e.payload as unknown as MigratedPayload,
+      });
+    }
+  });
+  if (migrations.length === 0) return [...events];
+
+  return events.map((e, index) => {
+    const later = migrations.filter((m) => m.index > index);
+    if (later.length === 0 || e.eventType === WorkflowEventType.MIGRATED) {
+      return e;
+    }
+
+    const renameState = (state: string) =>
+      later.reduce((s, m) => m.payload.states[s] ?? s, state);
+    const renameStep = (key: string) =>
+      later.reduce((k, m) => m.payload.steps[k] ?? k, key);
+
+    const payload = { ...e.payload };
+    if (typeof payload.stepKey === "string") {
+      payload.stepKey = renameStep(payload.stepKey);
+    }
+    for (const field of STATE_FIELDS) {
+      if (typeof payload[field] === "string") {
+        payload[field] = renameState(payload[field] as string);
+      }
+    }
+    return {
+      ...e,
+      payload,
+      resultingState:
+        e.resultingState === null ? null : renameState(e.resultingState),
+    };
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * COWF QES — Local mock signing provider
+ *
+ * Stands in for a QTSP in development and tests. It runs the full
+ * request → callback → timestamp → embed flow with a throwaway Ed25519
+ * key, so workflows with `qes` steps can be exercised end to end without
+ * a remote-signing contract. Signatures it produces are NOT qualified
+ * and must never reach production — `providers.server.ts` refuses to
+ * hand it out there.
+ *
+ * There is no signer UI: tests (or a dev tool) call `completeRequest`
+ * to play the signer and get back the exact callback the provider would
+ * POST, authenticated with a per-instance HMAC secret.
+ */
+
+import "server-only";
+
+import {
+  createHmac,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+  sign,
+  timingSafeEqual,
+} from "crypto";
+import {
+  SignatureFormat,
+  SigningCallbackError,
+  type CreateSigningRequestInput,
+  type EmbedSignatureInput,
+  type ProviderSignature,
+  type SigningCallback,
+  type SigningProvider,
+} from "./signing-provider";
+
+export const LOCAL_MOCK_PROVIDER_ID = "local-mock";
+
+const SIGNATURE_HEADER = "x-mock-signature";
+const TSA_NAME = "Caelex Local Mock TSA";
+
+export interface LocalMockSigningProvider extends SigningProvider {
+  /**
+   * Play the signer for a pending request. Returns the callback request
+   * the provider would POST to `callbackUrl`.
+   */
+  completeRequest(
+    providerRequestId: string,
+    options?: { decline?: boolean; reason?: string },
+  ): { callbackUrl: string; body: string; headers: Headers };
+}
+
+interface PendingRequest {
+  input: CreateSigningRequestInput;
+}
+
+export function createLocalMockSigningProvider(
+  options: { id?: string; signerName?: string } = {},
+): LocalMockSigningProvider {
+  const id = options.id ?? LOCAL_MOCK_PROVIDER_ID;
+  const signerName = options.signerName ?? "Mock Signer";
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const certificate = publicKey
+    .export({ type: "spki", format: "der" })
+    .toString("base64");
+  const callbackSecret = randomBytes(32);
+  const pending = new Map<string, PendingRequest>();
+
+  const hmac = (body: string) =>
+    createHmac("sha256", callbackSecret).update(body).digest("hex");
+  const signHex = (digest: string) =>
+    sign(null, Buffer.from(digest, "hex"), privateKey).toString("base64");
+
+  return {
+    id,
+
+    async createSigningRequest(input) {
+      const providerRequestId = `mock_${randomUUID()}`;
+      pending.set(providerRequestId, { input });
+      return {
+        providerRequestId,
+        signerUrl: `mock://sign/${providerRequestId}`,
+      };
+    },
+
+    completeRequest(providerRequestId, opts = {}) {
+      const request = pending.get(providerRequestId);
+      if (!request) {
+        throw new Error(`unknown mock signing request ${providerRequestId}`);
+      }
+      pending.delete(providerRequestId);
+      const signedAt = new Date().toISOString();
+      const callback = opts.decline
+        ? {
+            status: "declined",
+            providerRequestId,
+            callbackState: request.input.callbackState,
+            reason: opts.reason ?? "declined by signer",
+          }
+        : {
+            status: "signed",
+            providerRequestId,
+            callbackState: request.input.callbackState,
+            signatures: request.input.documents.map((doc) => ({
+              ref: doc.ref,
+              digest: doc.digest,
+              signatureValue: signHex(doc.digest),
+              signingCertificate: certificate,
+              signerName,
+              signedAt,
+            })),
+          };
+      const body = JSON.stringify(callback);
+      return {
+        callbackUrl: request.input.callbackUrl,
+        body,
+        headers: new Headers({ [SIGNATURE_HEADER]: hmac(body) }),
+      };
+    },
+
+    async parseCallback({ body, headers }) {
+      const received = Buffer.from(headers.get(SIGNATURE_HEADER) ?? "");
+      const expected = Buffer.from(hmac(body));
+      if (
+        received.length !== expected.length ||
+        !timingSafeEqual(received, expected)
+      ) {
+        throw new SigningCallbackError(id, "bad signature header");
+      }
+      const parsed = JSON.parse(body) as SigningCallback & {
+        signatures?: Array<ProviderSignature & { signedAt: string }>;
+      };
+      if (parsed.status !== "signed") return parsed;
+      return {
+        ...parsed,
+        signatures: (parsed.signatures ?? []).map((s) => ({
+          ...s,
+          signedAt: new Date(s.signedAt),
+        })),
+      };
+    },
+
+    async timestamp(digest) {
+      const genTime = new Date();
+      const tstInfo = JSON.stringify({
+        digest,
+        genTime: genTime.toISOString(),
+        tsa: TSA_NAME,
+      });
+      const token = Buffer.from(
+        JSON.stringify({
+          tstInfo,
+          signature: sign(null, Buffer.from(tstInfo), privateKey).toString(
+            "base64",
+          ),
+        }),
+      ).toString("base64");
+      return { token, genTime, authority: TSA_NAME };
+    },
+
+    async embedSignature(input) {
+      return input.format === SignatureFormat.PAdES
+        ? embedPades(input)
+        : embedXades(input);
+    },
+  };
+}
+
+/**
+ * Mock PAdES: the original bytes stay untouched (as in a real incremental
+ * update) and the signature dictionary is appended as a trailing comment.
+ */
+function embedPades({
+  document,
+  signature,
+  timestamp,
+}: EmbedSignatureInput): Uint8Array {
+  const dictionary = Buffer.from(
+    JSON.stringify({
+      SubFilter: "ETSI.CAdES.detached",
+      digest: signature.digest,
+      Contents: signature.signatureValue,
+      Cert: signature.signingCertificate,
+      Name: signature.signerName,
+      M: signature.signedAt.toISOString(),
+      TimeStampToken: timestamp.token,
+    }),
+  ).toString("base64");
+  return Buffer.concat([
+    Buffer.from(document.bytes),
+    Buffer.from(`\n%CAELEX-MOCK-PADES ${dictionary}\n%%EOF\n`),
+  ]);
+}
+
+/** Mock XAdES: enveloping signature carrying the document as ds:Object. */
+function embedXades({
+  document,
+  signature,
+  timestamp,
+}: EmbedSignatureInput): Uint8Array {
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" xmlns:xades="http://uri.etsi.org/01903/v1.3.2#" Id="caelex-mock-xades">`,
+    `<ds:SignedInfo><ds:Reference URI="#document"><ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/><ds:DigestValue>${Buffer.from(signature.digest, "hex").toString("base64")}</ds:DigestValue></ds:Reference></ds:SignedInfo>`,
+    `<ds:SignatureValue>${signature.signatureValue}</ds:SignatureValue>`,
+    `<ds:KeyInfo><ds:X509Data><ds:X509Certificate>${signature.signingCertificate}</ds:X509Certificate></ds:X509Data></ds:KeyInfo>`,
+    `<ds:Object><xades:QualifyingProperties Target="#caelex-mock-xades"><xades:SignedProperties><xades:SignedSignatureProperties><xades:SigningTime>${signature.signedAt.toISOString()}</xades:SigningTime></xades:SignedSignatureProperties></xades:SignedProperties><xades:UnsignedProperties><xades:UnsignedSignatureProperties><xades:SignatureTimeStamp><xades:EncapsulatedTimeStamp>${timestamp.token}</xades:EncapsulatedTimeStamp></xades:SignatureTimeStamp></xades:UnsignedSignatureProperties></xades:UnsignedProperties></xades:QualifyingProperties></ds:Object>`,
+    `<ds:Object Id="document" MimeType="${document.mimeType}" Encoding="http://www.w3.org/2000/09/xmldsig#base64">${Buffer.from(document.bytes).toString("base64")}</ds:Object>`,
+    `</ds:Signature>`,
+  ].join("\n");
+  return Buffer.from(xml, "utf-8");
+}
@@ -0,0 +1,56 @@
+/**
+ * COWF QES — Signing provider registry
+ *
+ * QTSP integrations register themselves here at boot
+ * (`registerSigningProvider`). A `qes` step picks its provider through
+ * `signingProfile`; steps without one use `COWF_QES_PROVIDER`. Outside
+ * production the local mock provider is the fallback, so workflows with
+ * signature steps run in development and tests without credentials. In
+ * production the mock is never handed out — a missing provider is an
+ * error, recorded as a step ERROR event by the executor.
+ */
+
+import "server-only";
+
+import {
+  createLocalMockSigningProvider,
+  LOCAL_MOCK_PROVIDER_ID,
+} from "./local-mock-provider.server";
+import type { SigningProvider } from "./signing-provider";
+
+const providers = new Map<string, SigningProvider>();
+
+export function registerSigningProvider(provider: SigningProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Resolve the provider for a step's `signingProfile`. Throws when the
+ * provider is not registered (or is the mock in production).
+ */
+export function getSigningProvider(profile?: string): SigningProvider {
+  const id = profile ?? process.env.COWF_QES_PROVIDER ?? LOCAL_MOCK_PROVIDER_ID;
+  const isProduction = process.env.NODE_ENV === "production";
+
+  if (id === LOCAL_MOCK_PROVIDER_ID) {
+    if (isProduction) {
+      throw new Error(
+        "No QES signing provider configured — the local mock provider is disabled in production",
+      );
+    }
+    if (!providers.has(id)) {
+      providers.set(id, createLocalMockSigningProvider());
+    }
+  }
+
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`QES signing provider "${id}" is not registered`);
+  }
+  return provider;
+}
+
+/** Test-only: drop every registered provider. */
+export function __resetSigningProvidersForTests(): void {
+  providers.clear();
+}
@@ -0,0 +1,162 @@
+/**
+ * COWF QES — Signing Provider contract
+ *
+ * A `qes` step hands its documents to a qualified trust service provider
+ * (QTSP) and waits until the signer has signed them with a qualified
+ * certificate (eIDAS Art. 3(12)). Every QTSP has its own remote-signing
+ * API, so the engine only talks to this interface:
+ *
+ *   1. `createSigningRequest` — the engine sends the SHA-256 digest of
+ *      each document (never the document itself) plus an opaque
+ *      `callbackState` and the callback URL
+ *   2. The signer authenticates with the provider and signs
+ *   3. The provider calls back; `parseCallback` authenticates that call
+ *      and returns the per-document signature values
+ *   4. `timestamp` obtains an RFC 3161 timestamp over each signature
+ *      value (the -T level of PAdES / XAdES baseline profiles)
+ *   5. `embedSignature` produces the signed artifact — PAdES for PDFs,
+ *      XAdES for everything else
+ *
+ * Implementations live next to this file (`*-provider.server.ts`) and are
+ * selected per step via `signingProfile` — see `providers.server.ts`.
+ *
+ * Isomorphic — types and pure helpers only.
+ */
+
+// ─── Formats ───────────────────────────────────────────────────────────────
+
+/**
+ * AdES baseline formats. PAdES embeds the signature into the PDF itself;
+ * XAdES is used for XML (enveloped) and any other document type
+ * (enveloping).
+ */
+export const SignatureFormat = {
+  PAdES: "PAdES",
+  XAdES: "XAdES",
+} as const;
+export type SignatureFormat =
+  (typeof SignatureFormat)[keyof typeof SignatureFormat];
+
+export function signatureFormatFor(mimeType: string): SignatureFormat {
+  return mimeType.toLowerCase() === "application/pdf"
+    ? SignatureFormat.PAdES
+    : SignatureFormat.XAdES;
+}
+
+// ─── Documents ─────────────────────────────────────────────────────────────
+
+/** A document to be signed, as loaded by the step's `loadDocument` handler. */
+export interface QesDocument {
+  /** The step's `documentRefs` entry this document was loaded for. */
+  ref: string;
+  fileName: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+/** What the provider receives per document — the hash, not the content. */
+export interface SigningRequestDocument {
+  ref: string;
+  fileName: string;
+  format: SignatureFormat;
+  /** Hex SHA-256 of the document bytes. */
+  digest: string;
+}
+
+// ─── Provider I/O ──────────────────────────────────────────────────────────
+
+export interface CreateSigningRequestInput {
+  documents: SigningRequestDocument[];
+  /**
+   * Opaque, tamper-proof token the provider must echo back unchanged on
+   * the callback. Carries the workflow + step the request belongs to.
+   */
+  callbackState: string;
+  callbackUrl: string;
+  /** User expected to sign (the workflow owner). */
+  signerUserId: string;
+  signingProfile?: string;
+}
+
+export interface SigningRequest {
+  /** The provider's id for the request — echoed on the callback. */
+  providerRequestId: string;
+  /** Where the signer authenticates and signs, if the provider has one. */
+  signerUrl?: string;
+}
+
+/** One document's signature as returned by the provider. */
+export interface ProviderSignature {
+  ref: string;
+  /** Hex SHA-256 of the document the signature covers. */
+  digest: string;
+  /** Base64 signature value (CMS SignerInfo / XMLDSig SignatureValue). */
+  signatureValue: string;
+  /** Base64 DER signing certificate. */
+  signingCertificate: string;
+  signerName: string;
+  signedAt: Date;
+}
+
+export type SigningCallback =
+  | {
+      status: "signed";
+      providerRequestId: string;
+      callbackState: string;
+      signatures: ProviderSignature[];
+    }
+  | {
+      status: "declined" | "failed";
+      providerRequestId: string;
+      callbackState: string;
+      reason?: string;
+    };
+
+/** RFC 3161 timestamp over a signature value. */
+export interface SignatureTimestamp {
+  /** Base64 DER TimeStampToken. */
+  token: string;
+  genTime: Date;
+  /** Timestamping authority that issued the token. */
+  authority: string;
+}
+
+export interface EmbedSignatureInput {
+  document: QesDocument;
+  format: SignatureFormat;
+  signature: ProviderSignature;
+  timestamp: SignatureTimestamp;
+}
+
+// ─── Provider ──────────────────────────────────────────────────────────────
+
+export interface SigningProvider {
+  /** Stable id — used in the callback URL and recorded on every event. */
+  readonly id: string;
+
+  createSigningRequest(
+    input: CreateSigningRequestInput,
+  ): Promise<SigningRequest>;
+
+  /**
+   * Authenticate and parse a callback request. Throws
+   * `SigningCallbackError` if the call did not come from the provider.
+   */
+  parseCallback(request: {
+    body: string;
+    headers: Headers;
+  }): Promise<SigningCallback>;
+
+  /** Hex SHA-256 of the signature value in, RFC 3161 token out. */
+  timestamp(digest: string): Promise<SignatureTimestamp>;
+
+  /** Produce the signed artifact (PAdES PDF / XAdES XML). */
+  embedSignature(input: EmbedSignatureInput): Promise<Uint8Array>;
+}
+
+export class SigningCallbackError extends Error {
+  constructor(providerId: string, message: string) {
+    super(`Signing callback from "${providerId}" rejected: ${message}`);
+    this.name = "SigningCallbackError";
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * COWF QES — Signing flow
+ *
+ * The two halves of a `qes` step round, on either side of the signer:
+ *
+ *   - `requestSignatures` (opening the round, called by the executor):
+ *     load each document through the step's `loadDocument` handler, hash
+ *     it, send the signing request to the provider and record
+ *     QES_REQUESTED with the digests.
+ *   - `finaliseSignatures` (after an authenticated callback, called by
+ *     `receiveSigningCallback` in submissions.server.ts): re-load and
+ *     re-hash each document — a document edited after the request is
+ *     not signed — then timestamp the signature value, embed signature +
+ *     timestamp (PAdES / XAdES) and hand the artifact to the step's
+ *     `storeSignedDocument` handler.
+ *
+ * Only digests travel to the provider and only digests land in the
+ * event chain; the signed bytes live wherever `storeSignedDocument`
+ * puts them, linked back by `uri` + `signedDigest`.
+ */
+
+import "server-only";
+
+import { createHash, randomUUID } from "crypto";
+import { logger } from "@/lib/logger";
+import { createSignedToken } from "@/lib/signed-token";
+import { appendWorkflowEvent } from "../events.server";
+import type { StepContext, StepHandlers } from "../steps";
+import type { StoredQesStep, WorkflowEventRow } from "../types";
+import { WorkflowEventType } from "../types";
+import { getSigningProvider } from "./providers.server";
+import {
+  SignatureFormat,
+  signatureFormatFor,
+  type ProviderSignature,
+  type QesDocument,
+  type SigningCallback,
+  type SigningProvider,
+  type SigningRequestDocument,
+} from "./signing-provider";
+
+/** Signers get 30 days before the callback token expires. */
+export const SIGNING_CALLBACK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Carried through the provider inside the signed `callbackState` token. */
+export interface SigningCallbackState {
+  workflowId: string;
+  stepKey: string;
+  requestRef: string;
+}
+
+/** Payload of the QES_REQUESTED event that opens a signing request. */
+export interface SigningRequestRecord {
+  stepKey: string;
+  requestRef: string;
+  provider: string;
+  providerRequestId: string;
+  signerUrl: string | null;
+  documents: SigningRequestDocument[];
+}
+
+/** One signed document as recorded on QES_SIGNED and in the audit log. */
+export interface SignedArtifact {
+  ref: string;
+  fileName: string;
+  format: SignatureFormat;
+  /** Hex SHA-256 of the unsigned document. */
+  documentDigest: string;
+  /** Hex SHA-256 of the signed artifact. */
+  signedDigest: string;
+  signerName: string;
+  signedAt: string;
+  /** Hex SHA-256 of the DER signing certificate. */
+  certificateDigest: string;
+  timestamp: { genTime: string; authority: string; tokenDigest: string };
+  /** Where `storeSignedDocument` put the artifact; null without a handler. */
+  uri: string | null;
+}
+
+export function sha256Hex(data: Uint8Array | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function signingCallbackUrl(providerId: string): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL ?? "https://caelex.app";
+  return `${base.replace(/\/$/, "")}/api/cowf/qes/callback/${encodeURIComponent(providerId)}`;
+}
+
+// ─── Request ───────────────────────────────────────────────────────────────
+
+/**
+ * Open a signing round: hash the step's documents and send them to the
+ * provider selected by `signingProfile`. Throws (→ step ERROR event) if
+ * the step has no `loadDocument` handler or the provider is unavailable.
+ */
+export async function requestSignatures(
+  step: StoredQesStep,
+  ctx: StepContext,
+  handlers: StepHandlers | undefined,
+  causedBy: string,
+): Promise<SigningRequestRecord> {
+  const provider = getSigningProvider(step.signingProfile);
+  const documents = await loadDocuments(step, ctx, handlers);
+  const requestRef = randomUUID();
+
+  const requestDocuments: SigningRequestDocument[] = documents.map((doc) => ({
+    ref: doc.ref,
+    fileName: doc.fileName,
+    format: signatureFormatFor(doc.mimeType),
+    digest: sha256Hex(doc.bytes),
+  }));
+  const callbackState = createSignedToken(
+    {
+      workflowId: ctx.workflowId,
+      stepKey: step.key,
+      requestRef,
+    } satisfies SigningCallbackState,
+    SIGNING_CALLBACK_TTL_MS,
+  );
+  const request = await provider.createSigningRequest({
+    documents: requestDocuments,
+    callbackState,
+    callbackUrl: signingCallbackUrl(provider.id),
+    signerUserId: ctx.userId,
+    signingProfile: step.signingProfile,
+  });
+
+  const record: SigningRequestRecord = {
+    stepKey: step.key,
+    requestRef,
+    provider: provider.id,
+    providerRequestId: request.providerRequestId,
+    signerUrl: request.signerUrl ?? null,
+    documents: requestDocuments,
+  };
+  await appendWorkflowEvent({
+    workflowId: ctx.workflowId,
+    eventType: WorkflowEventType.QES_REQUESTED,
+    causedBy,
+    payload: { ...record },
+  });
+  logger.info("[cowf-qes] signing request sent", {
+    workflowId: ctx.workflowId,
+    stepKey: step.key,
+    provider: provider.id,
+    documents: requestDocuments.length,
+  });
+  return record;
+}
+
+/** The signing request recorded in a round, if it matches `requestRef`. */
+export function findSigningRequest(
+  roundEvents: readonly WorkflowEventRow[],
+  stepKey: string,
+  requestRef: string,
+): SigningRequestRecord | null {
+  const requested = roundEvents.find(
+    (e) =>
+      e.eventType === WorkflowEventType.QES_REQUESTED &&
+      e.payload.stepKey === stepKey &&
+      e.payload.requestRef === requestRef,
+  );
+  return requested
+    ? (requested.payload as unknown as SigningRequestRecord)
+    : null;
+}
+
+// ─── Finalise ──────────────────────────────────────────────────────────────
+
+export type FinaliseResult =
+  | { ok: true; artifacts: SignedArtifact[] }
+  | { ok: false; reason: string };
+
+/**
+ * Turn a "signed" callback into stored artifacts. Every requested
+ * document must come back signed over the digest we sent, and must still
+ * hash to that digest — otherwise nothing is stored and the reason is
+ * returned for a QES_FAILED event.
+ */
+export async function finaliseSignatures(
+  provider: SigningProvider,
+  callback: Extract<SigningCallback, { status: "signed" }>,
+  request: SigningRequestRecord,
+  step: StoredQesStep,
+  ctx: StepContext,
+  handlers: StepHandlers | undefined,
+): Promise<FinaliseResult> {
+  const documents = await loadDocuments(step, ctx, handlers);
+  const signed: Array<{
+    requested: SigningRequestDocument;
+    document: QesDocument;
+    signature: ProviderSignature;
+  }> = [];
+
+  for (const requested of request.documents) {
+    const document = documents.find((d) => d.ref === requested.ref);
+    if (!document || sha256Hex(document.bytes) !== requested.digest) {
+      return { ok: false, reason: `document-changed:${requested.ref}` };
+    }
+    const signature = callback.signatures.find(
+      (s) => s.ref === requested.ref && s.digest === requested.digest,
+    );
+    if (!signature) {
+      return { ok: false, reason: `signature-missing:${requested.ref}` };
+    }
+    signed.push({ requested, document, signature });
+  }
+
+  const artifacts: SignedArtifact[] = [];
+  for (const { requested, document, signature } of signed) {
+    const timestamp = await provider.timestamp(
+      sha256Hex(Buffer.from(signature.signatureValue, "base64")),
+    );
+    const bytes = await provider.embedSignature({
+      document,
+      format: requested.format,
+      signature,
+      timestamp,
+    });
+    const stored = await handlers?.storeSignedDocument?.(
+      {
+        ref: requested.ref,
+        fileName: document.fileName,
+        mimeType:
+          requested.format === SignatureFormat.PAdES
+            ? document.mimeType
+            : "application/xml",
+        format: requested.format,
+        bytes,
+      },
+      ctx,
+    );
+    artifacts.push({
+      ref: requested.ref,
+      fileName: document.fileName,
+      format: requested.format,
+      documentDigest: requested.digest,
+      signedDigest: sha256Hex(bytes),
+      signerName: signature.signerName,
+      signedAt: signature.signedAt.toISOString(),
+      certificateDigest: sha256Hex(
+        Buffer.from(signature.signingCertificate, "base64"),
+      ),
+      timestamp: {
+        genTime: timestamp.genTime.toISOString(),
+        authority: timestamp.authority,
+        tokenDigest: sha256Hex(Buffer.from(timestamp.token, "base64")),
+      },
+      uri: stored?.uri ?? null,
+    });
+  }
+  return { ok: true, artifacts };
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+async function loadDocuments(
+  step: StoredQesStep,
+  ctx: StepContext,
+  handlers: StepHandlers | undefined,
+): Promise<QesDocument[]> {
+  const loadDocument = handlers?.loadDocument;
+  if (!loadDocument) {
+    throw new Error(`qes step "${step.key}" has no loadDocument handler`);
+  }
+  const documents: QesDocument[] = [];
+  for (const ref of step.documentRefs) {
+    documents.push({ ref, ...(await loadDocument(ref, ctx)) });
+  }
+  return documents;
+}
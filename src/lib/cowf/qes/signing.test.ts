@@ -0,0 +1,380 @@
+/**
+ * COWF QES — signing flow against the local mock provider.
+ *
+ * Coverage:
+ *
+ *   1. local mock provider — authenticated callback round trip, tampered
+ *      callback rejected, decline, PAdES / XAdES embedding
+ *   2. getSigningProvider — mock fallback outside production, refused in
+ *      production, registered providers, unknown id
+ *   3. requestSignatures — document digests sent, QES_REQUESTED recorded,
+ *      verifiable callback state, missing loadDocument handler
+ *   4. finaliseSignatures — timestamp + embed + store, artifact digests,
+ *      document changed since the request, missing signature
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const { mockAppendEvent } = vi.hoisted(() => ({
+  mockAppendEvent: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("../events.server", () => ({
+  appendWorkflowEvent: mockAppendEvent,
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import { verifySignedToken } from "@/lib/signed-token";
+import type { SignedQesDocument, StepContext } from "../steps";
+import type { StoredQesStep } from "../types";
+import { WorkflowEventType } from "../types";
+import {
+  createLocalMockSigningProvider,
+  type LocalMockSigningProvider,
+} from "./local-mock-provider.server";
+import {
+  __resetSigningProvidersForTests,
+  getSigningProvider,
+  registerSigningProvider,
+} from "./providers.server";
+import {
+  finaliseSignatures,
+  requestSignatures,
+  sha256Hex,
+  type SigningCallbackState,
+} from "./signing.server";
+import { SigningCallbackError, type SigningCallback } from "./signing-provider";
+
+const PDF = Buffer.from("%PDF-1.7\n1 0 obj << >> endobj\n%%EOF\n");
+const XML = Buffer.from("<filing><operator>Caelex</operator></filing>");
+
+const ctx: StepContext = {
+  workflowId: "wf_1",
+  organizationId: "org_1",
+  userId: "user_1",
+  subjectType: null,
+  subjectId: null,
+  currentState: "SIGN",
+  state: {},
+};
+
+const step: StoredQesStep = {
+  kind: "qes",
+  key: "sign",
+  from: "SIGN",
+  to: "FILED",
+  documentRefs: ["application", "annex"],
+  signingProfile: "local-mock",
+};
+
+function documentHandlers(docs: Record<string, Buffer> = {}) {
+  const bytes: Record<string, Buffer> = {
+    application: PDF,
+    annex: XML,
+    ...docs,
+  };
+  return {
+    loadDocument: vi.fn(async (ref: string) => ({
+      fileName: ref === "application" ? "application.pdf" : "annex.xml",
+      mimeType: ref === "application" ? "application/pdf" : "application/xml",
+      bytes: bytes[ref],
+    })),
+    storeSignedDocument: vi.fn(async (artifact: SignedQesDocument) => ({
+      uri: `s3://signed/${artifact.ref}`,
+    })),
+  };
+}
+
+let provider: LocalMockSigningProvider;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.stubEnv("AUTH_SECRET", "test-secret-test-secret-test-secret");
+  vi.stubEnv("NEXT_PUBLIC_APP_URL", "https://app.test/");
+  mockAppendEvent.mockResolvedValue({ id: "e", sequence: 1 });
+  __resetSigningProvidersForTests();
+  provider = createLocalMockSigningProvider({ signerName: "Jane Operator" });
+  registerSigningProvider(provider);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// ─── Local mock provider ───────────────────────────────────────────────────
+
+describe("local mock provider", () => {
+  it("round-trips an authenticated callback with one signature per document", async () => {
+    const { providerRequestId } = await provider.createSigningRequest({
+      documents: [
+        {
+          ref: "a",
+          fileName: "a.pdf",
+          format: "PAdES",
+          digest: "ab".repeat(32),
+        },
+      ],
+      callbackState: "state",
+      callbackUrl: "https://app.test/cb",
+      signerUserId: "user_1",
+    });
+    const { callbackUrl, body, headers } =
+      provider.completeRequest(providerRequestId);
+    expect(callbackUrl).toBe("https://app.test/cb");
+
+    const callback = await provider.parseCallback({ body, headers });
+    expect(callback.status).toBe("signed");
+    if (callback.status !== "signed") return;
+    expect(callback.callbackState).toBe("state");
+    expect(callback.signatures).toHaveLength(1);
+    expect(callback.signatures[0]).toMatchObject({
+      ref: "a",
+      digest: "ab".repeat(32),
+      signerName: "Jane Operator",
+    });
+    expect(callback.signatures[0].signedAt).toBeInstanceOf(Date);
+  });
+
+  it("rejects a tampered callback body", async () => {
+    const { providerRequestId } = await provider.createSigningRequest({
+      documents: [],
+      callbackState: "state",
+      callbackUrl: "https://app.test/cb",
+      signerUserId: "user_1",
+    });
+    const { body, headers } = provider.completeRequest(providerRequestId);
+    await expect(
+      provider.parseCallback({
+        body: body.replace("state", "other"),
+        headers,
+      }),
+    ).rejects.toBeInstanceOf(SigningCallbackError);
+  });
+
+  it("reports a decline", async () => {
+    const { providerRequestId } = await provider.createSigningRequest({
+      documents: [],
+      callbackState: "state",
+      callbackUrl: "https://app.test/cb",
+      signerUserId: "user_1",
+    });
+    const callback = await provider.parseCallback(
+      provider.completeRequest(providerRequestId, {
+        decline: true,
+        reason: "wrong annex",
+      }),
+    );
+    expect(callback).toMatchObject({
+      status: "declined",
+      reason: "wrong annex",
+    });
+  });
+
+  it("embeds PAdES after the original bytes and XAdES as an enveloping signature", async () => {
+    const signature = {
+      ref: "a",
+      digest: sha256Hex(PDF),
+      signatureValue: "c2lnbmF0dXJl",
+      signingCertificate: "Y2VydA==",
+      signerName: "Jane Operator",
+      signedAt: new Date("2026-10-19T10:00:00Z"),
+    };
+    const timestamp = await provider.timestamp(sha256Hex("signature"));
+
+    const pades = Buffer.from(
+      await provider.embedSignature({
+        document: {
+          ref: "a",
+          fileName: "a.pdf",
+          mimeType: "application/pdf",
+          bytes: PDF,
+        },
+        format: "PAdES",
+        signature,
+        timestamp,
+      }),
+    );
+    expect(pades.subarray(0, PDF.length).equals(PDF)).toBe(true);
+    expect(pades.toString()).toMatch(/%%EOF\n$/);
+
+    const xades = Buffer.from(
+      await provider.embedSignature({
+        document: {
+          ref: "b",
+          fileName: "b.xml",
+          mimeType: "application/xml",
+          bytes: XML,
+        },
+        format: "XAdES",
+        signature,
+        timestamp,
+      }),
+    ).toString();
+    expect(xades).toContain(
+      "<ds:SignatureValue>c2lnbmF0dXJl</ds:SignatureValue>",
+    );
+    expect(xades).toContain(
+      `<xades:EncapsulatedTimeStamp>${timestamp.token}</xades:EncapsulatedTimeStamp>`,
+    );
+    expect(xades).toContain(XML.toString("base64"));
+  });
+});
+
+// ─── Provider registry ─────────────────────────────────────────────────────
+
+describe("getSigningProvider", () => {
+  it("falls back to the local mock outside production", () => {
+    __resetSigningProvidersForTests();
+    expect(getSigningProvider().id).toBe("local-mock");
+  });
+
+  it("uses COWF_QES_PROVIDER when the step names no profile", () => {
+    const qtsp = createLocalMockSigningProvider({ id: "qtsp" });
+    registerSigningProvider(qtsp);
+    vi.stubEnv("COWF_QES_PROVIDER", "qtsp");
+    expect(getSigningProvider()).toBe(qtsp);
+  });
+
+  it("never hands out the mock in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    expect(() => getSigningProvider("local-mock")).toThrow(/disabled/);
+  });
+
+  it("throws for an unregistered provider", () => {
+    expect(() => getSigningProvider("d-trust")).toThrow(/not registered/);
+  });
+});
+
+// ─── requestSignatures ─────────────────────────────────────────────────────
+
+describe("requestSignatures", () => {
+  it("sends the document digests and records QES_REQUESTED", async () => {
+    const createSpy = vi.spyOn(provider, "createSigningRequest");
+    const record = await requestSignatures(
+      step,
+      ctx,
+      documentHandlers(),
+      "user:u",
+    );
+
+    expect(record.documents).toEqual([
+      {
+        ref: "application",
+        fileName: "application.pdf",
+        format: "PAdES",
+        digest: sha256Hex(PDF),
+      },
+      {
+        ref: "annex",
+        fileName: "annex.xml",
+        format: "XAdES",
+        digest: sha256Hex(XML),
+      },
+    ]);
+    const sent = createSpy.mock.calls[0][0];
+    expect(sent.callbackUrl).toBe(
+      "https://app.test/api/cowf/qes/callback/local-mock",
+    );
+    expect(sent.signerUserId).toBe("user_1");
+    expect(verifySignedToken<SigningCallbackState>(sent.callbackState)).toEqual(
+      expect.objectContaining({
+        workflowId: "wf_1",
+        stepKey: "sign",
+        requestRef: record.requestRef,
+      }),
+    );
+    expect(mockAppendEvent).toHaveBeenCalledWith({
+      workflowId: "wf_1",
+      eventType: WorkflowEventType.QES_REQUESTED,
+      causedBy: "user:u",
+      payload: { ...record },
+    });
+  });
+
+  it("throws without a loadDocument handler", async () => {
+    await expect(requestSignatures(step, ctx, {}, "u")).rejects.toThrow(
+      /loadDocument/,
+    );
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+  });
+});
+
+// ─── finaliseSignatures ────────────────────────────────────────────────────
+
+describe("finaliseSignatures", () => {
+  async function signedRound(handlers = documentHandlers()) {
+    const request = await requestSignatures(step, ctx, handlers, "u");
+    const callback = (await provider.parseCallback(
+      provider.completeRequest(request.providerRequestId),
+    )) as Extract<SigningCallback, { status: "signed" }>;
+    return { request, callback };
+  }
+
+  it("timestamps, embeds and stores every document", async () => {
+    const handlers = documentHandlers();
+    const { request, callback } = await signedRound(handlers);
+
+    const result = await finaliseSignatures(
+      provider,
+      callback,
+      request,
+      step,
+      ctx,
+      handlers,
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.artifacts.map((a) => [a.ref, a.format, a.uri])).toEqual([
+      ["application", "PAdES", "s3://signed/application"],
+      ["annex", "XAdES", "s3://signed/annex"],
+    ]);
+    const stored = handlers.storeSignedDocument.mock.calls.map((c) => c[0]);
+    expect(stored[0].mimeType).toBe("application/pdf");
+    expect(stored[1].mimeType).toBe("application/xml");
+    result.artifacts.forEach((artifact, i) => {
+      expect(artifact.documentDigest).toBe(request.documents[i].digest);
+      expect(artifact.signedDigest).toBe(sha256Hex(stored[i].bytes));
+      expect(artifact.signerName).toBe("Jane Operator");
+      expect(artifact.timestamp.authority).toBeTruthy();
+    });
+  });
+
+  it("refuses a document that changed after the request", async () => {
+    const { request, callback } = await signedRound();
+    const edited = documentHandlers({ annex: Buffer.from("<filing/>") });
+
+    const result = await finaliseSignatures(
+      provider,
+      callback,
+      request,
+      step,
+      ctx,
+      edited,
+    );
+
+    expect(result).toEqual({ ok: false, reason: "document-changed:annex" });
+    expect(edited.storeSignedDocument).not.toHaveBeenCalled();
+  });
+
+  it("refuses a callback missing a document's signature", async () => {
+    const handlers = documentHandlers();
+    const { request, callback } = await signedRound(handlers);
+
+    const result = await finaliseSignatures(
+      provider,
+      { ...callback, signatures: callback.signatures.slice(0, 1) },
+      request,
+      step,
+      ctx,
+      handlers,
+    );
+
+    expect(result).toEqual({ ok: false, reason: "signature-missing:annex" });
+  });
+});
@@ -22,6 +22,9 @@
  *   `WorkflowDef.version` is pinned to the instance — bumping the
  *   version creates a new registry entry, old instances continue using
  *   the old handlers (or fail loudly if the old version isn't registered).
+ *   A workflow module therefore keeps every version that still has
+ *   running instances, plus the migrations between them
+ *   (`migrations.ts`) so instances can be moved forward deliberately.
  *
  * **Lifecycle:**
  *
@@ -39,6 +42,7 @@ import "server-only";
 import { logger } from "@/lib/logger";
 import type { WorkflowDef } from "./define-workflow";
 import { registerWorkflowDef, findWorkflowDef } from "./instances.server";
+import type { WorkflowMigration } from "./migrations";
 
 // ─── Internal Storage ──────────────────────────────────────────────────────
 
@@ -53,6 +57,17 @@ function makeKey(name: string, version: number): string {
   return `${name}::${version}`;
 }
 
+/** Migrations keyed by `${name}::${fromVersion}->${toVersion}`. */
+const migrations = new Map<string, WorkflowMigration>();
+
+function makeMigrationKey(
+  name: string,
+  fromVersion: number,
+  toVersion: number,
+): string {
+  return `${name}::${fromVersion}->${toVersion}`;
+}
+
 // ─── Boot Registration ─────────────────────────────────────────────────────
 
 /**
@@ -85,11 +100,30 @@ export async function registerWorkflow(
   return { defId };
 }
 
+/**
+ * Register a migration between two registered versions of a workflow.
+ * In memory only — migrations are code, like handlers.
+ */
+export function registerWorkflowMigration(migration: WorkflowMigration): void {
+  migrations.set(
+    makeMigrationKey(
+      migration.workflow,
+      migration.fromVersion,
+      migration.toVersion,
+    ),
+    migration,
+  );
+}
+
 /**
  * Register every workflow that ships with the app. Called from boot
  * (e.g. instrumentation hook in `next.config.js` or a one-shot DB
  * seeding script). Sprint 3D registers W3 only; later sprints add
  * W1/W2/W4-W9.
+ *
+ * Each workflow module exports all of its live versions and the
+ * migrations between them; every version is registered so instances
+ * pinned to an older one keep their handlers.
  */
 export async function registerCanonicalWorkflows(): Promise<{
   count: number;
@@ -97,15 +131,17 @@ export async function registerCanonicalWorkflows(): Promise<{
 }> {
   // Lazy-import to avoid pulling all workflow modules at registry-import
   // time (helps with tree-shaking and test isolation).
-  const { continuousHeartbeatWorkflow } =
-    await import("./workflows/continuous-heartbeat");
+  const heartbeat = await import("./workflows/continuous-heartbeat");
   const defIds: string[] = [];
-  const registrations = [continuousHeartbeatWorkflow];
+  const registrations = [...heartbeat.continuousHeartbeatVersions];
 
   for (const wf of registrations) {
     const { defId } = await registerWorkflow(wf);
     defIds.push(defId);
   }
+  for (const migration of heartbeat.continuousHeartbeatMigrations) {
+    registerWorkflowMigration(migration);
+  }
 
   return { count: registrations.length, defIds };
 }
@@ -133,6 +169,52 @@ export function getWorkflowDefByName(
   return byNameVersion.get(makeKey(name, version)) ?? null;
 }
 
+/** Highest registered version of `name` — what new instances start on. */
+export function getLatestWorkflowDef(name: string): WorkflowDef | null {
+  let latest: WorkflowDef | null = null;
+  for (const def of byNameVersion.values()) {
+    if (
+      def.meta.name === name &&
+      (!latest || def.meta.version > latest.meta.version)
+    ) {
+      latest = def;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Every registered (name, version) with its defId (null until resolved
+ * against the DB), sorted by name then version.
+ */
+export function listRegisteredVersions(): Array<{
+  name: string;
+  version: number;
+  defId: string | null;
+}> {
+  const defIds = new Map<WorkflowDef, string>();
+  for (const [defId, def] of byDefId) defIds.set(def, defId);
+  return [...byNameVersion.values()]
+    .map((def) => ({
+      name: def.meta.name,
+      version: def.meta.version,
+      defId: defIds.get(def) ?? null,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+}
+
+export function getWorkflowMigration(
+  name: string,
+  fromVersion: number,
+  toVersion: number,
+): WorkflowMigration | null {
+  return migrations.get(makeMigrationKey(name, fromVersion, toVersion)) ?? null;
+}
+
+export function listWorkflowMigrations(): WorkflowMigration[] {
+  return [...migrations.values()];
+}
+
 /**
  * Hydrate the registry from the database. Useful after a process restart
  * if `registerCanonicalWorkflows()` hasn't run yet. Looks up each
@@ -157,7 +239,8 @@ export async function rehydrateDefIdsFromDb(): Promise<{ resolved: number }> {
 export function __resetRegistryForTests(): void {
   byDefId.clear();
   byNameVersion.clear();
+  migrations.clear();
 }
 
 /** Internal accessors for tests + debugging. Not part of the public API. */
-export const __test = { byDefId, byNameVersion };
+export const __test = { byDefId, byNameVersion, migrations };
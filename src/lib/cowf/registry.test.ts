@@ -9,6 +9,8 @@
  *   4. registerCanonicalWorkflows registers W3
  *   5. __resetRegistryForTests clears the maps
  *   6. rehydrateDefIdsFromDb resolves missing defIds
+ *   7. versions — latest version per name, listing with defIds
+ *   8. migrations — registered by (name, from, to), cleared on reset
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -32,13 +34,18 @@ vi.mock("@/lib/logger", () => ({
 import {
   __resetRegistryForTests,
   __test as registryTest,
+  getLatestWorkflowDef,
   getWorkflowDefById,
   getWorkflowDefByName,
+  getWorkflowMigration,
+  listRegisteredVersions,
   registerCanonicalWorkflows,
   registerWorkflow,
+  registerWorkflowMigration,
   rehydrateDefIdsFromDb,
 } from "./registry.server";
 import { defineWorkflow } from "./define-workflow";
+import { defineWorkflowMigration } from "./migrations";
 import { step } from "./steps";
 
 beforeEach(() => {
@@ -48,10 +55,10 @@ beforeEach(() => {
   mockFindDef.mockResolvedValue(null);
 });
 
-function buildToyDef() {
+function buildToyDef(version = 1) {
   return defineWorkflow({
     name: "toy",
-    version: 1,
+    version,
     description: "x",
     states: ["A", "B"],
     initialState: "A",
@@ -126,3 +133,37 @@ describe("rehydrateDefIdsFromDb", () => {
     expect(getWorkflowDefById("def_1_resolved")).toBe(def);
   });
 });
+
+describe("versions", () => {
+  it("resolves the latest registered version per name", async () => {
+    const v1 = buildToyDef(1);
+    const v2 = buildToyDef(2);
+    mockRegisterDef
+      .mockResolvedValueOnce({ id: "def_v2", created: true })
+      .mockResolvedValueOnce({ id: "def_v1", created: false });
+    await registerWorkflow(v2);
+    await registerWorkflow(v1);
+
+    expect(getLatestWorkflowDef("toy")).toBe(v2);
+    expect(getLatestWorkflowDef("ghost")).toBeNull();
+    expect(listRegisteredVersions()).toEqual([
+      { name: "toy", version: 1, defId: "def_v1" },
+      { name: "toy", version: 2, defId: "def_v2" },
+    ]);
+  });
+});
+
+describe("registerWorkflowMigration", () => {
+  it("stores migrations by (name, from, to) until reset", () => {
+    const migration = defineWorkflowMigration({
+      from: buildToyDef(1),
+      to: buildToyDef(2),
+    });
+    registerWorkflowMigration(migration);
+    expect(getWorkflowMigration("toy", 1, 2)).toBe(migration);
+    expect(getWorkflowMigration("toy", 2, 3)).toBeNull();
+
+    __resetRegistryForTests();
+    expect(getWorkflowMigration("toy", 1, 2)).toBeNull();
+  });
+});
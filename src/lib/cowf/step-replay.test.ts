@@ -0,0 +1,338 @@
+/**
+ * Step replay — pure fold of the event chain into waiting-step state.
+ *
+ * Coverage:
+ *
+ *   1. findStepRound — not started / open / closed / new visit to the state
+ *   2. stateEnteredAt — latest entry wins
+ *   3. buildStateBag — STEP_COMPLETED outputs merged in order, MIGRATED
+ *      replaces the bag
+ *   4. tallyApprovals — all-of-M default, N-of-M quorum, unreachable quorum
+ *   5. stepTimers — SLA + escalations from offset state, wait timeout
+ *   6. timerFired — matches per step + timer
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildStateBag,
+  findStepRound,
+  stateEnteredAt,
+  stepTimers,
+  tallyApprovals,
+  timerFired,
+} from "./step-replay";
+import {
+  WorkflowEventType,
+  type StoredApprovalStep,
+  type StoredWaitStep,
+  type WorkflowEventRow,
+} from "./types";
+
+// ─── findStepRound ─────────────────────────────────────────────────────────
+
+describe("findStepRound", () => {
+  it("is not started when the step has no STEP_STARTED since entering the state", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      started("other", "2024-01-01T00:00:01Z"),
+    );
+    expect(findStepRound(events, "ap", "A")).toEqual({
+      started: false,
+      closed: false,
+      startedAt: null,
+      events: [],
+    });
+  });
+
+  it("returns the open round with the events after STEP_STARTED", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      started("ap", "2024-01-01T00:00:01Z"),
+      grant("OPERATOR", "u1"),
+    );
+    const round = findStepRound(events, "ap", "A");
+    expect(round.started).toBe(true);
+    expect(round.closed).toBe(false);
+    expect(round.startedAt).toEqual(new Date("2024-01-01T00:00:01Z"));
+    expect(round.events.map((e) => e.eventType)).toEqual([
+      WorkflowEventType.APPROVAL_GRANTED,
+    ]);
+  });
+
+  it("is closed by a STEP_COMPLETED for the same step", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      started("ap", "2024-01-01T00:00:01Z"),
+      completed("ap", {}),
+    );
+    expect(findStepRound(events, "ap", "A").closed).toBe(true);
+  });
+
+  it("only considers the latest visit to the state", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      started("ap", "2024-01-01T00:00:01Z"),
+      transition("B", "2024-01-02T00:00:00Z"),
+      transition("A", "2024-01-03T00:00:00Z"),
+    );
+    expect(findStepRound(events, "ap", "A").started).toBe(false);
+  });
+
+  it("picks the latest round after a closed one", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      started("ap", "2024-01-01T00:00:01Z"),
+      completed("ap", {}),
+      started("ap", "2024-01-02T00:00:00Z"),
+    );
+    const round = findStepRound(events, "ap", "A");
+    expect(round.closed).toBe(false);
+    expect(round.startedAt).toEqual(new Date("2024-01-02T00:00:00Z"));
+  });
+});
+
+// ─── stateEnteredAt + buildStateBag ────────────────────────────────────────
+
+describe("stateEnteredAt", () => {
+  it("returns the latest entry into the state, or null", () => {
+    const events = chain(
+      transition("A", "2024-01-01T00:00:00Z"),
+      transition("B", "2024-01-02T00:00:00Z"),
+      transition("A", "2024-01-03T00:00:00Z"),
+    );
+    expect(stateEnteredAt(events, "A")).toEqual(
+      new Date("2024-01-03T00:00:00Z"),
+    );
+    expect(stateEnteredAt(events, "Z")).toBeNull();
+  });
+});
+
+describe("buildStateBag", () => {
+  it("merges STEP_COMPLETED outputs in chain order", () => {
+    const events = chain(
+      completed("f", { severity: "low", reporter: "ops" }),
+      completed("a", undefined),
+      completed("g", { severity: "high" }),
+    );
+    expect(buildStateBag(events)).toEqual({
+      severity: "high",
+      reporter: "ops",
+    });
+  });
+
+  it("starts over from the bag recorded on a MIGRATED event", () => {
+    const events = chain(
+      completed("f", { severity: "low", reporter: "ops" }),
+      event(WorkflowEventType.MIGRATED, { stateBag: { level: "low" } }),
+      completed("g", { owner: "ciso" }),
+    );
+    expect(buildStateBag(events)).toEqual({ level: "low", owner: "ciso" });
+  });
+});
+
+// ─── tallyApprovals ────────────────────────────────────────────────────────
+
+describe("tallyApprovals", () => {
+  const step: StoredApprovalStep = {
+    kind: "approval",
+    key: "ap",
+    from: "A",
+    to: "B",
+    requireRoles: ["OPERATOR", "CISO"],
+  };
+
+  it("requires every role by default", () => {
+    const partial = roundOf(grant("OPERATOR", "u1"));
+    expect(tallyApprovals(step, partial).outcome).toBe("pending");
+    const full = roundOf(grant("OPERATOR", "u1"), grant("CISO", "u2"));
+    expect(tallyApprovals(step, full)).toMatchObject({
+      quorum: 2,
+      outcome: "approved",
+    });
+  });
+
+  it("rejects on the first rejection when all roles are required", () => {
+    const round = roundOf(grant("OPERATOR", "u1"), reject("CISO", "u2"));
+    expect(tallyApprovals(step, round).outcome).toBe("rejected");
+  });
+
+  it("approves an N-of-M quorum despite a minority rejection", () => {
+    const board: StoredApprovalStep = {
+      ...step,
+      requireRoles: ["B1", "B2", "B3"],
+      quorum: 2,
+    };
+    const oneNo = roundOf(reject("B1", "u1"), grant("B2", "u2"));
+    expect(tallyApprovals(board, oneNo).outcome).toBe("pending");
+    const approved = roundOf(
+      reject("B1", "u1"),
+      grant("B2", "u2"),
+      grant("B3", "u3"),
+    );
+    expect(tallyApprovals(board, approved).outcome).toBe("approved");
+    const twoNo = roundOf(reject("B1", "u1"), reject("B2", "u2"));
+    expect(tallyApprovals(board, twoNo).outcome).toBe("rejected");
+  });
+
+  it("ignores decisions for other steps", () => {
+    const round = roundOf(
+      event(WorkflowEventType.APPROVAL_GRANTED, {
+        stepKey: "other",
+        role: "OPERATOR",
+        userId: "u1",
+      }),
+    );
+    expect(tallyApprovals(step, round).granted).toEqual([]);
+  });
+});
+
+// ─── stepTimers + timerFired ───────────────────────────────────────────────
+
+describe("stepTimers", () => {
+  it("derives SLA and escalations from the offset state's entry", () => {
+    const step: StoredApprovalStep = {
+      kind: "approval",
+      key: "ap",
+      from: "A",
+      to: "B",
+      requireRoles: ["OPERATOR"],
+      slaBy: { offsetFromState: "DETECTED", days: 1 },
+      escalations: [{ atOffsetHours: 20, action: "notify-cto" }],
+    };
+    const events = chain(
+      transition("DETECTED", "2024-01-01T00:00:00Z"),
+      transition("A", "2024-01-01T05:00:00Z"),
+    );
+    const round = openRound("2024-01-01T05:00:01Z");
+    expect(stepTimers(step, events, round)).toEqual([
+      { kind: "sla", dueAt: new Date("2024-01-02T00:00:00Z") },
+      {
+        kind: "escalation",
+        index: 0,
+        action: "notify-cto",
+        dueAt: new Date("2024-01-01T20:00:00Z"),
+      },
+    ]);
+  });
+
+  it("falls back to the round start when the offset state was never entered", () => {
+    const step: StoredWaitStep = {
+      kind: "waitForEvent",
+      key: "wait",
+      from: "A",
+      to: "B",
+      eventType: "x.y",
+      timeout: { offsetFromState: "NEVER", hours: 2 },
+    };
+    expect(stepTimers(step, [], openRound("2024-01-01T00:00:00Z"))).toEqual([
+      { kind: "timeout", dueAt: new Date("2024-01-01T02:00:00Z") },
+    ]);
+  });
+
+  it("returns no timers for a wait without timeout", () => {
+    const step: StoredWaitStep = {
+      kind: "waitForEvent",
+      key: "wait",
+      from: "A",
+      to: "B",
+      eventType: "x.y",
+    };
+    expect(stepTimers(step, [], openRound("2024-01-01T00:00:00Z"))).toEqual([]);
+  });
+});
+
+describe("timerFired", () => {
+  it("matches escalations by index and other timers by kind, per step", () => {
+    const round = roundOf(
+      event(WorkflowEventType.ESCALATED, { stepKey: "ap", index: 1 }),
+      event(WorkflowEventType.TIMEOUT_FIRED, { stepKey: "ap", timer: "sla" }),
+      event(WorkflowEventType.TIMEOUT_FIRED, {
+        stepKey: "wait",
+        timer: "timeout",
+      }),
+    );
+    const dueAt = new Date(0);
+    const esc = (index: number) =>
+      ({ kind: "escalation", index, action: "x", dueAt }) as const;
+    expect(timerFired(esc(1), "ap", round)).toBe(true);
+    expect(timerFired(esc(0), "ap", round)).toBe(false);
+    expect(timerFired({ kind: "sla", dueAt }, "ap", round)).toBe(true);
+    expect(timerFired({ kind: "timeout", dueAt }, "ap", round)).toBe(false);
+    expect(timerFired({ kind: "timeout", dueAt }, "wait", round)).toBe(true);
+  });
+});
+
+// ─── helpers ───────────────────────────────────────────────────────────────
+
+function event(
+  eventType: string,
+  payload: Record<string, unknown>,
+  occurredAt = "2024-01-01T01:00:00Z",
+  resultingState: string | null = null,
+): WorkflowEventRow {
+  return {
+    id: "",
+    workflowId: "wf_1",
+    sequence: 0,
+    eventType,
+    causedBy: "test",
+    payload,
+    resultingState,
+    prevHash: "p",
+    entryHash: "h",
+    occurredAt: new Date(occurredAt),
+  };
+}
+
+function chain(...events: WorkflowEventRow[]): WorkflowEventRow[] {
+  return events.map((e, i) => ({ ...e, id: `ev_${i}`, sequence: i }));
+}
+
+function transition(toState: string, occurredAt: string) {
+  return event(
+    WorkflowEventType.STATE_TRANSITION,
+    { toState },
+    occurredAt,
+    toState,
+  );
+}
+
+function started(stepKey: string, occurredAt: string) {
+  return event(WorkflowEventType.STEP_STARTED, { stepKey }, occurredAt);
+}
+
+function completed(
+  stepKey: string,
+  output: Record<string, unknown> | undefined,
+) {
+  return event(WorkflowEventType.STEP_COMPLETED, { stepKey, output });
+}
+
+function grant(role: string, userId: string) {
+  return event(WorkflowEventType.APPROVAL_GRANTED, {
+    stepKey: "ap",
+    role,
+    userId,
+  });
+}
+
+function reject(role: string, userId: string) {
+  return event(WorkflowEventType.APPROVAL_REJECTED, {
+    stepKey: "ap",
+    role,
+    userId,
+  });
+}
+
+function openRound(startedAt: string) {
+  return {
+    started: true,
+    closed: false,
+    startedAt: new Date(startedAt),
+    events: [],
+  };
+}
+
+function roundOf(...events: WorkflowEventRow[]) {
+  return { ...openRound("2024-01-01T00:00:00Z"), events: chain(...events) };
+}
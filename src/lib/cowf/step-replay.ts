@@ -0,0 +1,264 @@
+/**
+ * COWF Step Replay — derive waiting-step state from the event chain
+ *
+ * Waiting steps (form / approval / waitForEvent) can sit open for days.
+ * Nothing about their progress lives only in memory or only in the
+ * materialised tables: every submission, approval decision, timer and
+ * listener hit is a WorkflowEvent, and the helpers here fold the chain
+ * back into "where is this step right now". The executor and the
+ * submission services call them on every invocation, so a crashed
+ * process, a duplicate heartbeat tick or a fresh deployment all pick up
+ * exactly where the chain left off.
+ *
+ * **Rounds.** A step's *round* starts at its latest STEP_STARTED event
+ * after the workflow last entered the step's `from` state, and is
+ * closed by a STEP_COMPLETED for the same step key. Rejected approvals
+ * and timed-out waits close the round without leaving the state;
+ * re-running the step opens a new round with a clean tally.
+ *
+ * Pure functions, isomorphic — no Prisma, no clock reads.
+ */
+
+import type {
+  StoredApprovalStep,
+  StoredWaitStep,
+  WorkflowEventRow,
+} from "./types";
+import { WorkflowEventType } from "./types";
+
+// ─── Rounds ────────────────────────────────────────────────────────────────
+
+export interface StepRound {
+  /** A STEP_STARTED exists for the step since the state was last entered. */
+  started: boolean;
+  /** A STEP_COMPLETED closed the round (approved, rejected, timed out...). */
+  closed: boolean;
+  startedAt: Date | null;
+  /** Events appended after the round's STEP_STARTED, in chain order. */
+  events: WorkflowEventRow[];
+}
+
+/**
+ * Locate the current round of `stepKey` within the latest visit to
+ * `fromState`. Events must be in ascending sequence order (as returned by
+ * `loadEvents`).
+ */
+export function findStepRound(
+  events: readonly WorkflowEventRow[],
+  stepKey: string,
+  fromState: string,
+): StepRound {
+  let entryIdx = -1;
+  for (let i = events.length - 1; i >= 0; i--) {
+    const e = events[i];
+    if (
+      e.eventType === WorkflowEventType.STATE_TRANSITION &&
+      e.resultingState === fromState
+    ) {
+      entryIdx = i;
+      break;
+    }
+  }
+
+  let startIdx = -1;
+  for (let i = events.length - 1; i > entryIdx; i--) {
+    const e = events[i];
+    if (
+      e.eventType === WorkflowEventType.STEP_STARTED &&
+      e.payload.stepKey === stepKey
+    ) {
+      startIdx = i;
+      break;
+    }
+  }
+  if (startIdx === -1) {
+    return { started: false, closed: false, startedAt: null, events: [] };
+  }
+
+  const roundEvents = events.slice(startIdx + 1);
+  const closed = roundEvents.some(
+    (e) =>
+      e.eventType === WorkflowEventType.STEP_COMPLETED &&
+      e.payload.stepKey === stepKey,
+  );
+  return {
+    started: true,
+    closed,
+    startedAt: events[startIdx].occurredAt,
+    events: roundEvents,
+  };
+}
+
+/** When did the workflow last enter `state`? Null if it never did. */
+export function stateEnteredAt(
+  events: readonly WorkflowEventRow[],
+  state: string,
+): Date | null {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const e = events[i];
+    if (
+      e.eventType === WorkflowEventType.STATE_TRANSITION &&
+      e.resultingState === state
+    ) {
+      return e.occurredAt;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rebuild the StepContext state-bag: the `output` objects recorded on
+ * STEP_COMPLETED events, merged in chain order (later steps win). A
+ * MIGRATED event replaces the bag with the transformed one it recorded.
+ */
+export function buildStateBag(
+  events: readonly WorkflowEventRow[],
+): Record<string, unknown> {
+  let state: Record<string, unknown> = {};
+  for (const e of events) {
+    if (e.eventType === WorkflowEventType.MIGRATED) {
+      state = { ...(e.payload.stateBag as Record<string, unknown>) };
+      continue;
+    }
+    if (e.eventType !== WorkflowEventType.STEP_COMPLETED) continue;
+    const output = e.payload.output;
+    if (output && typeof output === "object" && !Array.isArray(output)) {
+      Object.assign(state, output);
+    }
+  }
+  return state;
+}
+
+// ─── Approvals ─────────────────────────────────────────────────────────────
+
+export interface ApprovalDecision {
+  role: string;
+  userId: string;
+}
+
+export interface ApprovalTally {
+  granted: ApprovalDecision[];
+  rejected: ApprovalDecision[];
+  /** Quorum in force — `step.quorum`, else every required role. */
+  quorum: number;
+  outcome: "pending" | "approved" | "rejected";
+}
+
+/**
+ * Count APPROVAL_GRANTED / APPROVAL_REJECTED decisions in a round and
+ * decide the N-of-M outcome. Approved once `quorum` slots approve;
+ * rejected as soon as enough slots reject that the quorum can no longer
+ * be reached.
+ */
+export function tallyApprovals(
+  step: StoredApprovalStep,
+  round: StepRound,
+): ApprovalTally {
+  const granted: ApprovalDecision[] = [];
+  const rejected: ApprovalDecision[] = [];
+  for (const e of round.events) {
+    if (e.payload.stepKey !== step.key) continue;
+    const decision = {
+      role: String(e.payload.role),
+      userId: String(e.payload.userId),
+    };
+    if (e.eventType === WorkflowEventType.APPROVAL_GRANTED) {
+      granted.push(decision);
+    } else if (e.eventType === WorkflowEventType.APPROVAL_REJECTED) {
+      rejected.push(decision);
+    }
+  }
+
+  const quorum = step.quorum ?? step.requireRoles.length;
+  let outcome: ApprovalTally["outcome"] = "pending";
+  if (granted.length >= quorum) outcome = "approved";
+  else if (rejected.length > step.requireRoles.length - quorum) {
+    outcome = "rejected";
+  }
+  return { granted, rejected, quorum, outcome };
+}
+
+// ─── Timers ────────────────────────────────────────────────────────────────
+
+export type StepTimer =
+  | { kind: "sla"; dueAt: Date }
+  | { kind: "escalation"; index: number; action: string; dueAt: Date }
+  | { kind: "timeout"; dueAt: Date };
+
+type OffsetPolicy =
+  | { offsetFromState: string; hours: number }
+  | { offsetFromState: string; days: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function offsetMs(policy: OffsetPolicy): number {
+  return "hours" in policy
+    ? policy.hours * HOUR_MS
+    : policy.days * 24 * HOUR_MS;
+}
+
+/**
+ * All timers of an open waiting-step round. SLA and timeout are measured
+ * from the entry into `offsetFromState` (falling back to the round
+ * start); escalations are hours after the same base as the SLA.
+ */
+export function stepTimers(
+  step: StoredApprovalStep | StoredWaitStep,
+  events: readonly WorkflowEventRow[],
+  round: StepRound,
+): StepTimer[] {
+  const roundStart = round.startedAt ?? new Date(0);
+  const baseFor = (policy?: OffsetPolicy) =>
+    (policy && stateEnteredAt(events, policy.offsetFromState)) ?? roundStart;
+
+  if (step.kind === "waitForEvent") {
+    if (!step.timeout) return [];
+    return [
+      {
+        kind: "timeout",
+        dueAt: new Date(
+          baseFor(step.timeout).getTime() + offsetMs(step.timeout),
+        ),
+      },
+    ];
+  }
+
+  const timers: StepTimer[] = [];
+  const base = baseFor(step.slaBy);
+  if (step.slaBy) {
+    timers.push({
+      kind: "sla",
+      dueAt: new Date(base.getTime() + offsetMs(step.slaBy)),
+    });
+  }
+  (step.escalations ?? []).forEach((esc, index) => {
+    timers.push({
+      kind: "escalation",
+      index,
+      action: esc.action,
+      dueAt: new Date(base.getTime() + esc.atOffsetHours * HOUR_MS),
+    });
+  });
+  return timers;
+}
+
+/** Has this timer already been recorded in the round? */
+export function timerFired(
+  timer: StepTimer,
+  stepKey: string,
+  round: StepRound,
+): boolean {
+  return round.events.some((e) => {
+    if (e.payload.stepKey !== stepKey) return false;
+    if (timer.kind === "escalation") {
+      return (
+        e.eventType === WorkflowEventType.ESCALATED &&
+        e.payload.index === timer.index
+      );
+    }
+    return (
+      e.eventType === WorkflowEventType.TIMEOUT_FIRED &&
+      e.payload.timer === timer.kind
+    );
+  });
+}
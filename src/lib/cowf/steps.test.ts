@@ -105,6 +105,33 @@ describe("step.approval", () => {
     ).toThrow(/requireRoles/);
   });
 
+  it("preserves quorum and rejectTo", () => {
+    const handle = step.approval({
+      key: "ap",
+      from: "A",
+      to: "B",
+      requireRoles: ["BOARD_1", "BOARD_2", "BOARD_3"],
+      quorum: 2,
+      rejectTo: "DRAFT",
+    });
+    expect(handle.stored.quorum).toBe(2);
+    expect(handle.stored.rejectTo).toBe("DRAFT");
+  });
+
+  it("rejects a quorum outside 1..requireRoles.length", () => {
+    for (const quorum of [0, 3, 1.5]) {
+      expect(() =>
+        step.approval({
+          key: "ap",
+          from: "A",
+          to: "B",
+          requireRoles: ["OPERATOR", "CISO"],
+          quorum,
+        }),
+      ).toThrow(/quorum/);
+    }
+  });
+
   it("preserves slaBy and escalations", () => {
     const handle = step.approval({
       key: "ap",
@@ -228,6 +255,26 @@ describe("step.qes", () => {
     expect(handle.stored.signingProfile).toBe("dtrust-eIDAS");
   });
 
+  it("keeps the document handlers out of the stored shape", () => {
+    const loadDocument = () => ({
+      fileName: "a.pdf",
+      mimeType: "application/pdf",
+      bytes: new Uint8Array(),
+    });
+    const storeSignedDocument = async () => ({ uri: "s3://a" });
+    const handle = step.qes({
+      key: "q",
+      from: "A",
+      to: "B",
+      documentRefs: ["doc-1"],
+      loadDocument,
+      storeSignedDocument,
+    });
+    expect(handle.handlers.loadDocument).toBe(loadDocument);
+    expect(handle.handlers.storeSignedDocument).toBe(storeSignedDocument);
+    expect(handle.stored).not.toHaveProperty("loadDocument");
+  });
+
   it("rejects empty documentRefs", () => {
     expect(() =>
       step.qes({
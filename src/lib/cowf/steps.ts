@@ -38,6 +38,7 @@ import type {
   StoredStep,
   StoredWaitStep,
 } from "./types";
+import type { QesDocument, SignatureFormat } from "./qes/signing-provider";
 
 // ─── Common base ───────────────────────────────────────────────────────────
 
@@ -118,11 +119,14 @@ export function form(config: FormStepConfig): StepHandle<StoredFormStep> {
 
 /**
  * Multi-actor approval step. The engine writes one `WorkflowApprovalSlot`
- * per role in `requireRoles`. The transition only fires when ALL slots
- * are approved (rejected slot reverts the workflow).
+ * per role in `requireRoles`. The transition fires once `quorum` slots
+ * (default: all) are approved; a rejection that makes the quorum
+ * unreachable closes the step and, if set, returns to `rejectTo`.
  */
 export interface ApprovalStepConfig extends BaseStepConfig {
   requireRoles: string[];
+  quorum?: number;
+  rejectTo?: string;
   qesRequired?: boolean;
   slaBy?:
     | { offsetFromState: string; hours: number }
@@ -138,6 +142,16 @@ export function approval(
       `step.approval(${config.key}): requireRoles must contain at least one role`,
     );
   }
+  if (
+    config.quorum !== undefined &&
+    (!Number.isInteger(config.quorum) ||
+      config.quorum < 1 ||
+      config.quorum > config.requireRoles.length)
+  ) {
+    throw new Error(
+      `step.approval(${config.key}): quorum must be an integer between 1 and ${config.requireRoles.length}`,
+    );
+  }
   return {
     stored: {
       kind: "approval",
@@ -148,6 +162,8 @@ export function approval(
       uiHint: config.uiHint,
       autoFireOnEnter: false,
       requireRoles: config.requireRoles,
+      quorum: config.quorum,
+      rejectTo: config.rejectTo,
       qesRequired: config.qesRequired,
       slaBy: config.slaBy,
       escalations: config.escalations,
@@ -197,13 +213,15 @@ export function astra(config: AstraStepConfig): StepHandle<StoredAstraStep> {
 
 /**
  * Event-driven wait. Engine registers a `WorkflowEventListener` with
- * `eventType` + `predicate`. When an event matching both fires, the
- * workflow advances. Optional timeout creates a parallel
+ * `eventType` + `predicate` (+ resolved `correlationKey`). When an event
+ * matching all of them is published, the workflow advances. Optional timeout creates a parallel
  * `WorkflowSchedule` that fires `onTimeout` if the event never arrives.
  */
 export interface WaitStepConfig extends BaseStepConfig {
   eventType: string;
   predicate?: Record<string, unknown>;
+  /** Correlation-key template, e.g. "{{subjectId}}". */
+  correlationKey?: string;
   timeout?:
     | { offsetFromState: string; hours: number }
     | { offsetFromState: string; days: number };
@@ -229,6 +247,7 @@ export function waitForEvent(
       autoFireOnEnter: false,
       eventType: config.eventType,
       predicate: config.predicate,
+      correlationKey: config.correlationKey,
       timeout: config.timeout,
       onTimeout: config.onTimeout,
       reminders: config.reminders,
@@ -279,13 +298,26 @@ export function decision(
 // ─── Step.qes ──────────────────────────────────────────────────────────────
 
 /**
- * Qualified Electronic Signature step. Engine triggers D-Trust signing
- * flow for `documentRefs`; on completion, the workflow advances. QES
- * signature blob lands in `WorkflowApprovalSlot.signature` for audit.
+ * Qualified Electronic Signature step. On entering `from`, the engine
+ * loads `documentRefs` through `loadDocument`, sends their digests to the
+ * signing provider named by `signingProfile` and waits for the signer.
+ * The provider's callback is timestamped, embedded (PAdES / XAdES) and
+ * handed to `storeSignedDocument`; the workflow then advances. See
+ * `qes/signing.server.ts`.
  */
 export interface QesStepConfig extends BaseStepConfig {
   documentRefs: string[];
   signingProfile?: string;
+  /** Resolve a documentRef to the bytes to be signed. */
+  loadDocument?: (
+    ref: string,
+    ctx: StepContext,
+  ) => Promise<QesDocumentContent> | QesDocumentContent;
+  /** Persist a signed artifact; the returned uri is recorded on QES_SIGNED. */
+  storeSignedDocument?: (
+    artifact: SignedQesDocument,
+    ctx: StepContext,
+  ) => Promise<{ uri: string }>;
 }
 
 export function qes(config: QesStepConfig): StepHandle<StoredQesStep> {
@@ -306,7 +338,10 @@ export function qes(config: QesStepConfig): StepHandle<StoredQesStep> {
       documentRefs: config.documentRefs,
       signingProfile: config.signingProfile,
     },
-    handlers: {},
+    handlers: {
+      loadDocument: config.loadDocument,
+      storeSignedDocument: config.storeSignedDocument,
+    },
   };
 }
 
@@ -340,6 +375,16 @@ export interface StepHandle<S extends StoredStep = StoredStep> {
 export interface StepHandlers {
   run?: (ctx: StepContext) => Promise<void> | void;
   validate?: (data: unknown, ctx: StepContext) => string | null;
+  loadDocument?: QesStepConfig["loadDocument"];
+  storeSignedDocument?: QesStepConfig["storeSignedDocument"];
+}
+
+/** A document to sign, as returned by a qes step's `loadDocument`. */
+export type QesDocumentContent = Omit<QesDocument, "ref">;
+
+/** A signed artifact, as passed to a qes step's `storeSignedDocument`. */
+export interface SignedQesDocument extends QesDocument {
+  format: SignatureFormat;
 }
 
 /**
@@ -0,0 +1,546 @@
+/**
+ * COWF Submissions — the external inputs that complete waiting steps
+ *
+ * Form, approval, waitForEvent and qes steps sit open until something
+ * outside the engine happens. This module is the single entry point for
+ * those inputs:
+ *
+ *   - `submitForm`             — operator submits a form step
+ *   - `decideApproval`         — one approver fills (or rejects) one slot
+ *   - `publishWorkflowEvent`   — a domain service publishes an event that
+ *                                waitForEvent listeners may be waiting for
+ *   - `receiveSigningCallback` — a QES signing provider reports back
+ *
+ * Each function validates the input, records it as a WorkflowEvent
+ * (FORM_SUBMITTED / APPROVAL_GRANTED / APPROVAL_REJECTED / LISTENER_FIRED
+ * / QES_SIGNED / QES_FAILED) and then re-executes the step. The executor replays the open round
+ * from the chain and settles it — these functions never advance state
+ * themselves, so a crash between "recorded" and "advanced" is healed by
+ * the next execution of the step (heartbeat tick or another input).
+ *
+ * Authorisation (session → userId + roles) is the caller's job; the role
+ * lists passed in here are trusted.
+ */
+
+import "server-only";
+
+import { z } from "zod";
+import { logAuditEvent } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { verifySignedToken } from "@/lib/signed-token";
+import { appendWorkflowEvent } from "./events.server";
+import {
+  evaluatePredicate,
+  executeStep,
+  loadStepRuntime,
+  type ExecuteStepResult,
+  type StepRuntime,
+} from "./executor.server";
+import { getSigningProvider } from "./qes/providers.server";
+import {
+  finaliseSignatures,
+  findSigningRequest,
+  type SigningCallbackState,
+} from "./qes/signing.server";
+import type { SigningProvider } from "./qes/signing-provider";
+import { findStepRound, tallyApprovals } from "./step-replay";
+import type { StoredStep } from "./types";
+import { ListenerStatus, WorkflowEventType } from "./types";
+
+export type SubmissionRejectReason =
+  | NonNullable<ExecuteStepResult["skipReason"]>
+  | "wrong-step-kind"
+  | "forbidden"
+  | "invalid"
+  | "unknown-role"
+  | "already-decided"
+  | "duplicate-actor"
+  | "signature-required"
+  | "stale-request"
+  | "unknown-provider";
+
+export type SubmissionResult =
+  | { accepted: true; newState?: string }
+  | { accepted: false; reason: SubmissionRejectReason; errors?: string[] };
+
+// ─── Form ──────────────────────────────────────────────────────────────────
+
+export interface SubmitFormInput {
+  workflowId: string;
+  stepKey: string;
+  userId: string;
+  /** Roles of the submitting user, resolved by the caller. */
+  userRoles: readonly string[];
+  data: unknown;
+}
+
+/**
+ * Validate a form submission against the step's JSON-Schema and its
+ * `validate` handler, record it, and complete the step.
+ */
+export async function submitForm(
+  input: SubmitFormInput,
+): Promise<SubmissionResult> {
+  const opened = await openRound(input, "form");
+  if ("reason" in opened) return opened;
+  const { runtime } = opened;
+  const step = runtime.step;
+  if (step.kind !== "form") {
+    return { accepted: false, reason: "wrong-step-kind" };
+  }
+  if (
+    step.requireRoles?.length &&
+    !step.requireRoles.some((role) => input.userRoles.includes(role))
+  ) {
+    return { accepted: false, reason: "forbidden" };
+  }
+
+  const errors = step.schema ? validateFormData(step.schema, input.data) : [];
+  if (errors.length === 0) {
+    const handlerError = runtime.def.handlers
+      .get(step.key)
+      ?.validate?.(input.data, runtime.ctx);
+    if (handlerError) errors.push(handlerError);
+  }
+  if (errors.length > 0) {
+    return { accepted: false, reason: "invalid", errors };
+  }
+
+  await appendWorkflowEvent({
+    workflowId: input.workflowId,
+    eventType: WorkflowEventType.FORM_SUBMITTED,
+    causedBy: `user:${input.userId}`,
+    payload: {
+      stepKey: step.key,
+      userId: input.userId,
+      data: input.data as Record<string, unknown>,
+    },
+  });
+
+  const result = await executeStep({
+    workflowId: input.workflowId,
+    stepKey: step.key,
+    causedBy: `user:${input.userId}`,
+  });
+  return { accepted: true, newState: result.newState };
+}
+
+/**
+ * Validate `data` against a JSON-Schema (draft 2020-12 subset supported
+ * by zod's `fromJSONSchema`). Returns human-readable issues, empty when
+ * valid. An unusable schema is a definition bug, not a user error — it
+ * throws.
+ */
+export function validateFormData(
+  schema: Record<string, unknown>,
+  data: unknown,
+): string[] {
+  const parsed = z.fromJSONSchema(schema).safeParse(data);
+  if (parsed.success) return [];
+  return parsed.error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message,
+  );
+}
+
+// ─── Approval ──────────────────────────────────────────────────────────────
+
+export interface DecideApprovalInput {
+  workflowId: string;
+  stepKey: string;
+  userId: string;
+  userRoles: readonly string[];
+  /** Which slot the user is filling — must be one of `requireRoles`. */
+  role: string;
+  decision: "approve" | "reject";
+  rationale?: string;
+  /** Signature blob — mandatory for approvals on `qesRequired` steps. */
+  signature?: string;
+}
+
+/**
+ * Fill one approval slot. A user may fill at most one slot per round
+ * (four-eyes). The step completes once the N-of-M quorum is reached, or
+ * closes as rejected once it no longer can be.
+ */
+export async function decideApproval(
+  input: DecideApprovalInput,
+): Promise<SubmissionResult> {
+  const opened = await openRound(input, "approval");
+  if ("reason" in opened) return opened;
+  const { runtime } = opened;
+  const step = runtime.step;
+  if (step.kind !== "approval") {
+    return { accepted: false, reason: "wrong-step-kind" };
+  }
+  if (!step.requireRoles.includes(input.role)) {
+    return { accepted: false, reason: "unknown-role" };
+  }
+  if (!input.userRoles.includes(input.role)) {
+    return { accepted: false, reason: "forbidden" };
+  }
+
+  const tally = tallyApprovals(
+    step,
+    findStepRound(runtime.events, step.key, step.from),
+  );
+  const decided = [...tally.granted, ...tally.rejected];
+  if (decided.some((d) => d.role === input.role)) {
+    return { accepted: false, reason: "already-decided" };
+  }
+  if (decided.some((d) => d.userId === input.userId)) {
+    return { accepted: false, reason: "duplicate-actor" };
+  }
+  const approve = input.decision === "approve";
+  if (approve && step.qesRequired && !input.signature) {
+    return { accepted: false, reason: "signature-required" };
+  }
+
+  // Claim the slot — guards against two approvers racing for one role.
+  const now = new Date();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const slot = (prisma as any).workflowApprovalSlot;
+  const claimed = await slot.updateMany({
+    where: {
+      workflowId: input.workflowId,
+      stepKey: step.key,
+      requiredRole: input.role,
+      approvedAt: null,
+      rejectedAt: null,
+    },
+    data: approve
+      ? {
+          approvedBy: input.userId,
+          approvedAt: now,
+          rationale: input.rationale ?? null,
+          signature: input.signature ?? null,
+        }
+      : {
+          rejectedBy: input.userId,
+          rejectedAt: now,
+          rejectionReason: input.rationale ?? null,
+        },
+  });
+  if ((claimed?.count ?? 0) === 0) {
+    return { accepted: false, reason: "already-decided" };
+  }
+
+  await appendWorkflowEvent({
+    workflowId: input.workflowId,
+    eventType: approve
+      ? WorkflowEventType.APPROVAL_GRANTED
+      : WorkflowEventType.APPROVAL_REJECTED,
+    causedBy: `user:${input.userId}`,
+    payload: {
+      stepKey: step.key,
+      role: input.role,
+      userId: input.userId,
+      rationale: input.rationale ?? null,
+      signed: Boolean(input.signature),
+    },
+  });
+
+  const result = await executeStep({
+    workflowId: input.workflowId,
+    stepKey: step.key,
+    causedBy: `user:${input.userId}`,
+  });
+  return { accepted: true, newState: result.newState };
+}
+
+// ─── Events ────────────────────────────────────────────────────────────────
+
+export interface PublishWorkflowEventInput {
+  /** Tenant scope — only this organization's workflows are matched. */
+  organizationId: string;
+  eventType: string;
+  /**
+   * Correlation key of the event (e.g. the incident id). Listeners that
+   * registered a key only match events carrying the same key; keyless
+   * listeners match any event of the type.
+   */
+  correlationKey?: string;
+  payload: Record<string, unknown>;
+  /** Defaults to "listener:<eventType>". */
+  causedBy?: string;
+}
+
+export interface PublishWorkflowEventResult {
+  matched: number;
+  fired: Array<{ workflowId: string; stepKey: string; newState?: string }>;
+  failed: number;
+}
+
+/**
+ * Deliver a domain event to every ACTIVE, unexpired listener of the
+ * organization whose correlation key and predicate match. Listeners are
+ * deliver-once: each is claimed (ACTIVE → FIRED) before its step is
+ * completed. One failing workflow does not stop delivery to the rest.
+ */
+export async function publishWorkflowEvent(
+  input: PublishWorkflowEventInput,
+): Promise<PublishWorkflowEventResult> {
+  const now = new Date();
+  const causedBy = input.causedBy ?? `listener:${input.eventType}`;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const listener = (prisma as any).workflowEventListener;
+  const candidates: Array<{
+    id: string;
+    workflowId: string;
+    stepKey: string;
+    predicate: Record<string, unknown> | null;
+  }> = await listener.findMany({
+    where: {
+      eventType: input.eventType,
+      status: ListenerStatus.ACTIVE,
+      workflow: { organizationId: input.organizationId },
+      AND: [
+        input.correlationKey
+          ? {
+              OR: [
+                { correlationKey: null },
+                { correlationKey: input.correlationKey },
+              ],
+            }
+          : { correlationKey: null },
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      ],
+    },
+    select: { id: true, workflowId: true, stepKey: true, predicate: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const result: PublishWorkflowEventResult = {
+    matched: 0,
+    fired: [],
+    failed: 0,
+  };
+
+  for (const candidate of candidates) {
+    if (
+      candidate.predicate &&
+      !evaluatePredicate(candidate.predicate, input.payload)
+    ) {
+      continue;
+    }
+    result.matched += 1;
+    try {
+      const claimed = await listener.updateMany({
+        where: { id: candidate.id, status: ListenerStatus.ACTIVE },
+        data: { status: ListenerStatus.FIRED, firedAt: now },
+      });
+      if ((claimed?.count ?? 0) === 0) continue; // another publisher / timeout won
+
+      await appendWorkflowEvent({
+        workflowId: candidate.workflowId,
+        eventType: WorkflowEventType.LISTENER_FIRED,
+        causedBy,
+        payload: {
+          stepKey: candidate.stepKey,
+          listenerId: candidate.id,
+          eventType: input.eventType,
+          correlationKey: input.correlationKey ?? null,
+          payload: input.payload,
+        },
+      });
+      const executed = await executeStep({
+        workflowId: candidate.workflowId,
+        stepKey: candidate.stepKey,
+        causedBy,
+      });
+      result.fired.push({
+        workflowId: candidate.workflowId,
+        stepKey: candidate.stepKey,
+        newState: executed.newState,
+      });
+    } catch (err) {
+      result.failed += 1;
+      logger.error("[cowf-submissions] listener delivery failed", {
+        listenerId: candidate.id,
+        workflowId: candidate.workflowId,
+        eventType: input.eventType,
+        error: (err as Error).message ?? String(err),
+      });
+    }
+  }
+
+  return result;
+}
+
+// ─── QES ───────────────────────────────────────────────────────────────────
+
+export interface ReceiveSigningCallbackInput {
+  /** Provider id from the callback URL. */
+  providerId: string;
+  /** Raw request body — providers authenticate over the exact bytes. */
+  body: string;
+  headers: Headers;
+}
+
+/**
+ * Record a signing provider's callback for an open qes round. The
+ * provider authenticates the call (`parseCallback` throws
+ * `SigningCallbackError` otherwise); our own signed `callbackState` token
+ * ties it to the workflow, step and signing request.
+ *
+ * A signed callback is timestamped, embedded and stored, then recorded as
+ * QES_SIGNED and written to the audit log — one entry per document, each
+ * pointing at the QES_SIGNED event's chain hash. Declines and failed
+ * finalisation are recorded as QES_FAILED and close the round.
+ */
+export async function receiveSigningCallback(
+  input: ReceiveSigningCallbackInput,
+): Promise<SubmissionResult> {
+  let provider: SigningProvider;
+  try {
+    provider = getSigningProvider(input.providerId);
+  } catch {
+    return { accepted: false, reason: "unknown-provider" };
+  }
+  const callback = await provider.parseCallback({
+    body: input.body,
+    headers: input.headers,
+  });
+  const state = verifySignedToken<SigningCallbackState>(callback.callbackState);
+  if (!state) return { accepted: false, reason: "invalid" };
+
+  const runtime = await loadStepRuntime(state.workflowId, state.stepKey);
+  if ("skipReason" in runtime) {
+    return { accepted: false, reason: runtime.skipReason };
+  }
+  const step = runtime.step;
+  if (step.kind !== "qes") {
+    return { accepted: false, reason: "wrong-step-kind" };
+  }
+  const round = findStepRound(runtime.events, step.key, step.from);
+  const request = round.closed
+    ? null
+    : findSigningRequest(round.events, step.key, state.requestRef);
+  if (
+    !request ||
+    request.provider !== provider.id ||
+    request.providerRequestId !== callback.providerRequestId
+  ) {
+    return { accepted: false, reason: "stale-request" };
+  }
+
+  const causedBy = `qes:${provider.id}`;
+  const alreadyRecorded = round.events.some(
+    (e) =>
+      (e.eventType === WorkflowEventType.QES_SIGNED ||
+        e.eventType === WorkflowEventType.QES_FAILED) &&
+      e.payload.requestRef === request.requestRef,
+  );
+  if (!alreadyRecorded) {
+    const handlers = runtime.def.handlers.get(step.key);
+    const finalised =
+      callback.status === "signed"
+        ? await finaliseSignatures(
+            provider,
+            callback,
+            request,
+            step,
+            runtime.ctx,
+            handlers,
+          )
+        : { ok: false as const, reason: callback.reason ?? callback.status };
+
+    if (finalised.ok) {
+      const recorded = await appendWorkflowEvent({
+        workflowId: state.workflowId,
+        eventType: WorkflowEventType.QES_SIGNED,
+        causedBy,
+        payload: {
+          stepKey: step.key,
+          requestRef: request.requestRef,
+          provider: provider.id,
+          providerRequestId: request.providerRequestId,
+          artifacts: finalised.artifacts,
+        },
+      });
+      for (const artifact of finalised.artifacts) {
+        await logAuditEvent({
+          userId: runtime.ctx.userId,
+          action: "workflow_document_qes_signed",
+          entityType: "workflow",
+          entityId: state.workflowId,
+          newValue: {
+            stepKey: step.key,
+            provider: provider.id,
+            workflowEventId: recorded.id,
+            workflowEventHash: recorded.entryHash,
+            ...artifact,
+          },
+          description: `Qualified signature (${artifact.format}) applied to ${artifact.fileName}`,
+          organizationId: runtime.ctx.organizationId,
+        });
+      }
+    } else {
+      logger.warn("[cowf-submissions] signing request not completed", {
+        workflowId: state.workflowId,
+        stepKey: step.key,
+        provider: provider.id,
+        status: callback.status,
+        reason: finalised.reason,
+      });
+      await appendWorkflowEvent({
+        workflowId: state.workflowId,
+        eventType: WorkflowEventType.QES_FAILED,
+        causedBy,
+        payload: {
+          stepKey: step.key,
+          requestRef: request.requestRef,
+          provider: provider.id,
+          status: callback.status,
+          reason: finalised.reason,
+        },
+      });
+    }
+  }
+
+  // Also on a provider retry: settles the round if the first delivery
+  // recorded the outcome but did not get to complete the step.
+  const result = await executeStep({
+    workflowId: state.workflowId,
+    stepKey: step.key,
+    causedBy,
+  });
+  return { accepted: true, newState: result.newState };
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+/**
+ * Load the step and make sure its round is open. A waiting step that was
+ * never opened (workflow started before auto-opening existed) or whose
+ * last round closed (e.g. rejected without `rejectTo`) is opened first.
+ */
+async function openRound(
+  input: { workflowId: string; stepKey: string; userId: string },
+  kind: StoredStep["kind"],
+): Promise<
+  { runtime: StepRuntime } | { accepted: false; reason: SubmissionRejectReason }
+> {
+  let loaded = await loadStepRuntime(input.workflowId, input.stepKey);
+  if ("skipReason" in loaded) {
+    return { accepted: false, reason: loaded.skipReason };
+  }
+  if (loaded.step.kind !== kind) {
+    return { accepted: false, reason: "wrong-step-kind" };
+  }
+  const round = findStepRound(loaded.events, loaded.step.key, loaded.step.from);
+  if (!round.started || round.closed) {
+    await executeStep({
+      workflowId: input.workflowId,
+      stepKey: input.stepKey,
+      causedBy: `user:${input.userId}`,
+    });
+    loaded = await loadStepRuntime(input.workflowId, input.stepKey);
+    if ("skipReason" in loaded) {
+      return { accepted: false, reason: loaded.skipReason };
+    }
+  }
+  return { runtime: loaded };
+}
@@ -0,0 +1,810 @@
+/**
+ * COWF submissions — form submit, approval decisions, event publishing.
+ *
+ * Coverage:
+ *
+ *   1. submitForm — JSON-Schema validation, validate handler, role gate,
+ *      FORM_SUBMITTED recorded then step re-executed
+ *   2. submitForm — opens a never-started round first; refuses non-form steps
+ *   3. decideApproval — unknown role / missing role / duplicate actor /
+ *      already-decided slot / missing QES signature
+ *   4. decideApproval — claims the slot, records APPROVAL_GRANTED, re-executes
+ *   5. publishWorkflowEvent — org + correlation-key scoped query, predicate
+ *      filter, deliver-once claim, LISTENER_FIRED + re-execute, resilience
+ *   6. validateFormData — issue paths
+ *   7. receiveSigningCallback — QES_SIGNED + one audit entry per artifact,
+ *      declines / failed finalisation → QES_FAILED, bad state token,
+ *      stale request, provider retry, unknown provider
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const {
+  mockListener,
+  mockApprovalSlot,
+  mockAppendEvent,
+  mockExecuteStep,
+  mockLoadStepRuntime,
+  mockEvaluatePredicate,
+  mockGetSigningProvider,
+  mockFinaliseSignatures,
+  mockVerifySignedToken,
+  mockLogAuditEvent,
+} = vi.hoisted(() => ({
+  mockListener: { findMany: vi.fn(), updateMany: vi.fn() },
+  mockApprovalSlot: { updateMany: vi.fn() },
+  mockAppendEvent: vi.fn(),
+  mockExecuteStep: vi.fn(),
+  mockLoadStepRuntime: vi.fn(),
+  mockEvaluatePredicate: vi.fn(),
+  mockGetSigningProvider: vi.fn(),
+  mockFinaliseSignatures: vi.fn(),
+  mockVerifySignedToken: vi.fn(),
+  mockLogAuditEvent: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    workflowEventListener: mockListener,
+    workflowApprovalSlot: mockApprovalSlot,
+  },
+}));
+
+vi.mock("./events.server", () => ({
+  appendWorkflowEvent: mockAppendEvent,
+}));
+
+vi.mock("./executor.server", () => ({
+  executeStep: mockExecuteStep,
+  loadStepRuntime: mockLoadStepRuntime,
+  evaluatePredicate: mockEvaluatePredicate,
+}));
+
+vi.mock("./qes/providers.server", () => ({
+  getSigningProvider: mockGetSigningProvider,
+}));
+
+vi.mock("./qes/signing.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./qes/signing.server")>()),
+  finaliseSignatures: mockFinaliseSignatures,
+}));
+
+vi.mock("@/lib/signed-token", () => ({
+  createSignedToken: vi.fn(),
+  verifySignedToken: mockVerifySignedToken,
+}));
+
+vi.mock("@/lib/audit", () => ({
+  logAuditEvent: mockLogAuditEvent,
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  decideApproval,
+  publishWorkflowEvent,
+  receiveSigningCallback,
+  submitForm,
+  validateFormData,
+} from "./submissions.server";
+import { WorkflowEventType, type WorkflowEventRow } from "./types";
+
+const WF_ID = "wf_1";
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  mockAppendEvent.mockResolvedValue({ id: "e", sequence: 1 });
+  mockExecuteStep.mockResolvedValue({
+    fired: true,
+    newState: "B",
+    autoFiredNext: false,
+  });
+  mockApprovalSlot.updateMany.mockResolvedValue({ count: 1 });
+  mockListener.updateMany.mockResolvedValue({ count: 1 });
+  mockEvaluatePredicate.mockReturnValue(true);
+});
+
+const FORM_SCHEMA = {
+  type: "object",
+  required: ["summary", "severity"],
+  properties: {
+    summary: { type: "string", minLength: 3 },
+    severity: { enum: ["low", "high"] },
+  },
+};
+
+// ─── submitForm ────────────────────────────────────────────────────────────
+
+describe("submitForm", () => {
+  it("records FORM_SUBMITTED and re-executes the step on valid data", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(formStep(), openEvents("f")),
+    );
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: { summary: "Thruster anomaly", severity: "high" },
+    });
+    expect(result).toEqual({ accepted: true, newState: "B" });
+    expect(mockAppendEvent).toHaveBeenCalledWith({
+      workflowId: WF_ID,
+      eventType: WorkflowEventType.FORM_SUBMITTED,
+      causedBy: "user:u1",
+      payload: {
+        stepKey: "f",
+        userId: "u1",
+        data: { summary: "Thruster anomaly", severity: "high" },
+      },
+    });
+    expect(mockExecuteStep).toHaveBeenCalledWith({
+      workflowId: WF_ID,
+      stepKey: "f",
+      causedBy: "user:u1",
+    });
+  });
+
+  it("returns schema issues without recording anything", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(formStep(), openEvents("f")),
+    );
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: { summary: "x", severity: "medium" },
+    });
+    expect(result.accepted).toBe(false);
+    if (result.accepted) return;
+    expect(result.reason).toBe("invalid");
+    expect(result.errors).toHaveLength(2);
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+    expect(mockExecuteStep).not.toHaveBeenCalled();
+  });
+
+  it("runs the validate handler after the schema passes", async () => {
+    const validate = vi
+      .fn()
+      .mockReturnValue("summary must mention the spacecraft");
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(formStep(), openEvents("f"), new Map([["f", { validate }]])),
+    );
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: { summary: "Anomaly", severity: "low" },
+    });
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      accepted: false,
+      reason: "invalid",
+      errors: ["summary must mention the spacecraft"],
+    });
+  });
+
+  it("refuses users without one of the required roles", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(formStep(), openEvents("f")),
+    );
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["VIEWER"],
+      data: {},
+    });
+    expect(result).toEqual({ accepted: false, reason: "forbidden" });
+  });
+
+  it("opens a never-started round before accepting the submission", async () => {
+    mockLoadStepRuntime
+      .mockResolvedValueOnce(runtime(formStep(), [transition("A")]))
+      .mockResolvedValueOnce(runtime(formStep(), openEvents("f")));
+    await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: { summary: "Anomaly", severity: "low" },
+    });
+    expect(mockExecuteStep).toHaveBeenCalledTimes(2);
+    expect(mockAppendEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses non-form steps without executing them", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime({ kind: "action", key: "f", from: "A", to: "B" }, []),
+    );
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: {},
+    });
+    expect(result).toEqual({ accepted: false, reason: "wrong-step-kind" });
+    expect(mockExecuteStep).not.toHaveBeenCalled();
+  });
+
+  it("passes executor skip reasons through", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce({ skipReason: "state-mismatch" });
+    const result = await submitForm({
+      workflowId: WF_ID,
+      stepKey: "f",
+      userId: "u1",
+      userRoles: ["OPERATOR"],
+      data: {},
+    });
+    expect(result).toEqual({ accepted: false, reason: "state-mismatch" });
+  });
+});
+
+// ─── decideApproval ────────────────────────────────────────────────────────
+
+describe("decideApproval", () => {
+  const decide = (overrides: Record<string, unknown> = {}) =>
+    decideApproval({
+      workflowId: WF_ID,
+      stepKey: "ap",
+      userId: "u2",
+      userRoles: ["CISO"],
+      role: "CISO",
+      decision: "approve",
+      ...overrides,
+    });
+
+  it("claims the slot, records APPROVAL_GRANTED and re-executes the step", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), openEvents("ap")),
+    );
+    const result = await decide({ rationale: "Residual risk accepted" });
+    expect(result).toEqual({ accepted: true, newState: "B" });
+    expect(mockApprovalSlot.updateMany).toHaveBeenCalledWith({
+      where: {
+        workflowId: WF_ID,
+        stepKey: "ap",
+        requiredRole: "CISO",
+        approvedAt: null,
+        rejectedAt: null,
+      },
+      data: expect.objectContaining({
+        approvedBy: "u2",
+        rationale: "Residual risk accepted",
+      }),
+    });
+    expect(mockAppendEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: WorkflowEventType.APPROVAL_GRANTED,
+        payload: expect.objectContaining({
+          stepKey: "ap",
+          role: "CISO",
+          userId: "u2",
+        }),
+      }),
+    );
+    expect(mockExecuteStep).toHaveBeenCalledTimes(1);
+  });
+
+  it("records rejections with the reason on the slot", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), openEvents("ap")),
+    );
+    await decide({ decision: "reject", rationale: "Missing test report" });
+    expect(mockApprovalSlot.updateMany.mock.calls[0][0].data).toMatchObject({
+      rejectedBy: "u2",
+      rejectionReason: "Missing test report",
+    });
+    expect(mockAppendEvent.mock.calls[0][0].eventType).toBe(
+      WorkflowEventType.APPROVAL_REJECTED,
+    );
+  });
+
+  it("refuses roles the step does not require", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), openEvents("ap")),
+    );
+    expect(await decide({ role: "CFO", userRoles: ["CFO"] })).toEqual({
+      accepted: false,
+      reason: "unknown-role",
+    });
+  });
+
+  it("refuses users who do not hold the slot's role", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), openEvents("ap")),
+    );
+    expect(await decide({ userRoles: ["OPERATOR"] })).toEqual({
+      accepted: false,
+      reason: "forbidden",
+    });
+  });
+
+  it("refuses a second slot for the same user (four-eyes)", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), [
+        ...openEvents("ap"),
+        event(WorkflowEventType.APPROVAL_GRANTED, {
+          stepKey: "ap",
+          role: "OPERATOR",
+          userId: "u2",
+        }),
+      ]),
+    );
+    expect(await decide({ userRoles: ["OPERATOR", "CISO"] })).toEqual({
+      accepted: false,
+      reason: "duplicate-actor",
+    });
+    expect(mockApprovalSlot.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses a slot already decided in this round", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), [
+        ...openEvents("ap"),
+        event(WorkflowEventType.APPROVAL_REJECTED, {
+          stepKey: "ap",
+          role: "CISO",
+          userId: "u9",
+        }),
+      ]),
+    );
+    expect(await decide()).toEqual({
+      accepted: false,
+      reason: "already-decided",
+    });
+  });
+
+  it("treats a lost slot race as already decided", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep(), openEvents("ap")),
+    );
+    mockApprovalSlot.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await decide()).toEqual({
+      accepted: false,
+      reason: "already-decided",
+    });
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+  });
+
+  it("requires a signature to approve a qesRequired step", async () => {
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(approvalStep({ qesRequired: true }), openEvents("ap")),
+    );
+    expect(await decide()).toEqual({
+      accepted: false,
+      reason: "signature-required",
+    });
+  });
+});
+
+// ─── publishWorkflowEvent ──────────────────────────────────────────────────
+
+describe("publishWorkflowEvent", () => {
+  it("scopes the listener query to org, correlation key and expiry", async () => {
+    mockListener.findMany.mockResolvedValueOnce([]);
+    await publishWorkflowEvent({
+      organizationId: "org_1",
+      eventType: "incident.closed",
+      correlationKey: "inc_9",
+      payload: {},
+    });
+    const where = mockListener.findMany.mock.calls[0][0].where;
+    expect(where).toMatchObject({
+      eventType: "incident.closed",
+      status: "ACTIVE",
+      workflow: { organizationId: "org_1" },
+    });
+    expect(where.AND[0]).toEqual({
+      OR: [{ correlationKey: null }, { correlationKey: "inc_9" }],
+    });
+  });
+
+  it("only reaches keyless listeners when the event carries no key", async () => {
+    mockListener.findMany.mockResolvedValueOnce([]);
+    await publishWorkflowEvent({
+      organizationId: "org_1",
+      eventType: "x.y",
+      payload: {},
+    });
+    expect(mockListener.findMany.mock.calls[0][0].where.AND[0]).toEqual({
+      correlationKey: null,
+    });
+  });
+
+  it("claims matching listeners, records LISTENER_FIRED and re-executes", async () => {
+    mockListener.findMany.mockResolvedValueOnce([
+      listenerRow("l1", "wf_1", { verdict: "closed" }),
+      listenerRow("l2", "wf_2", { verdict: "reopened" }),
+    ]);
+    mockEvaluatePredicate.mockReturnValueOnce(true).mockReturnValueOnce(false);
+    const result = await publishWorkflowEvent({
+      organizationId: "org_1",
+      eventType: "incident.closed",
+      correlationKey: "inc_9",
+      payload: { verdict: "closed" },
+    });
+    expect(result).toEqual({
+      matched: 1,
+      fired: [{ workflowId: "wf_1", stepKey: "wait", newState: "B" }],
+      failed: 0,
+    });
+    expect(mockListener.updateMany).toHaveBeenCalledWith({
+      where: { id: "l1", status: "ACTIVE" },
+      data: expect.objectContaining({ status: "FIRED" }),
+    });
+    expect(mockAppendEvent).toHaveBeenCalledWith({
+      workflowId: "wf_1",
+      eventType: WorkflowEventType.LISTENER_FIRED,
+      causedBy: "listener:incident.closed",
+      payload: {
+        stepKey: "wait",
+        listenerId: "l1",
+        eventType: "incident.closed",
+        correlationKey: "inc_9",
+        payload: { verdict: "closed" },
+      },
+    });
+    expect(mockExecuteStep).toHaveBeenCalledWith({
+      workflowId: "wf_1",
+      stepKey: "wait",
+      causedBy: "listener:incident.closed",
+    });
+  });
+
+  it("skips listeners claimed by a concurrent publisher or timeout", async () => {
+    mockListener.findMany.mockResolvedValueOnce([listenerRow("l1", "wf_1")]);
+    mockListener.updateMany.mockResolvedValueOnce({ count: 0 });
+    const result = await publishWorkflowEvent({
+      organizationId: "org_1",
+      eventType: "x.y",
+      payload: {},
+    });
+    expect(result.fired).toEqual([]);
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+  });
+
+  it("keeps delivering when one workflow fails", async () => {
+    mockListener.findMany.mockResolvedValueOnce([
+      listenerRow("l1", "wf_1"),
+      listenerRow("l2", "wf_2"),
+    ]);
+    mockAppendEvent
+      .mockRejectedValueOnce(new Error("chain busy"))
+      .mockResolvedValueOnce({ id: "e", sequence: 2 });
+    const result = await publishWorkflowEvent({
+      organizationId: "org_1",
+      eventType: "x.y",
+      payload: {},
+    });
+    expect(result.failed).toBe(1);
+    expect(result.fired.map((f) => f.workflowId)).toEqual(["wf_2"]);
+  });
+});
+
+// ─── validateFormData ──────────────────────────────────────────────────────
+
+describe("validateFormData", () => {
+  it("returns no issues for valid data", () => {
+    expect(
+      validateFormData(FORM_SCHEMA, { summary: "Anomaly", severity: "low" }),
+    ).toEqual([]);
+  });
+
+  it("prefixes issues with the field path", () => {
+    const issues = validateFormData(FORM_SCHEMA, { severity: "low" });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(/^summary: /);
+  });
+});
+
+// ─── receiveSigningCallback ────────────────────────────────────────────────
+
+describe("receiveSigningCallback", () => {
+  const provider = { id: "local-mock", parseCallback: vi.fn() };
+  const artifact = {
+    ref: "doc-1",
+    fileName: "application.pdf",
+    format: "PAdES",
+    documentDigest: "d1",
+    signedDigest: "s1",
+    uri: "s3://signed/application.pdf",
+  };
+
+  beforeEach(() => {
+    mockGetSigningProvider.mockReturnValue(provider);
+    mockVerifySignedToken.mockReturnValue({
+      workflowId: WF_ID,
+      stepKey: "q",
+      requestRef: "req_1",
+    });
+    mockAppendEvent.mockResolvedValue({
+      id: "ev_signed",
+      sequence: 4,
+      entryHash: "hash_signed",
+    });
+  });
+
+  function signedCallback(overrides: Record<string, unknown> = {}) {
+    return {
+      status: "signed",
+      providerRequestId: "mock_1",
+      callbackState: "token",
+      signatures: [],
+      ...overrides,
+    };
+  }
+
+  function receive() {
+    return receiveSigningCallback({
+      providerId: "local-mock",
+      body: "{}",
+      headers: new Headers(),
+    });
+  }
+
+  it("records QES_SIGNED, audits each artifact against the event and re-executes", async () => {
+    provider.parseCallback.mockResolvedValueOnce(signedCallback());
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(qesStep(), [...openEvents("q"), requestedEvent()]),
+    );
+    mockFinaliseSignatures.mockResolvedValueOnce({
+      ok: true,
+      artifacts: [artifact],
+    });
+
+    const result = await receive();
+
+    expect(result).toEqual({ accepted: true, newState: "B" });
+    expect(mockAppendEvent).toHaveBeenCalledWith({
+      workflowId: WF_ID,
+      eventType: WorkflowEventType.QES_SIGNED,
+      causedBy: "qes:local-mock",
+      payload: {
+        stepKey: "q",
+        requestRef: "req_1",
+        provider: "local-mock",
+        providerRequestId: "mock_1",
+        artifacts: [artifact],
+      },
+    });
+    expect(mockLogAuditEvent).toHaveBeenCalledTimes(1);
+    expect(mockLogAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "owner",
+        action: "workflow_document_qes_signed",
+        entityType: "workflow",
+        entityId: WF_ID,
+        organizationId: "org_1",
+        newValue: expect.objectContaining({
+          workflowEventId: "ev_signed",
+          workflowEventHash: "hash_signed",
+          signedDigest: "s1",
+        }),
+      }),
+    );
+    expect(mockExecuteStep).toHaveBeenCalledWith({
+      workflowId: WF_ID,
+      stepKey: "q",
+      causedBy: "qes:local-mock",
+    });
+  });
+
+  it("records a decline as QES_FAILED without finalising", async () => {
+    provider.parseCallback.mockResolvedValueOnce({
+      status: "declined",
+      providerRequestId: "mock_1",
+      callbackState: "token",
+      reason: "wrong document",
+    });
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(qesStep(), [...openEvents("q"), requestedEvent()]),
+    );
+
+    await receive();
+
+    expect(mockFinaliseSignatures).not.toHaveBeenCalled();
+    expect(mockAppendEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: WorkflowEventType.QES_FAILED,
+        payload: expect.objectContaining({
+          status: "declined",
+          reason: "wrong document",
+        }),
+      }),
+    );
+    expect(mockLogAuditEvent).not.toHaveBeenCalled();
+    expect(mockExecuteStep).toHaveBeenCalled();
+  });
+
+  it("records a failed finalisation as QES_FAILED", async () => {
+    provider.parseCallback.mockResolvedValueOnce(signedCallback());
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(qesStep(), [...openEvents("q"), requestedEvent()]),
+    );
+    mockFinaliseSignatures.mockResolvedValueOnce({
+      ok: false,
+      reason: "document-changed:doc-1",
+    });
+
+    await receive();
+
+    expect(mockAppendEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: WorkflowEventType.QES_FAILED,
+        payload: expect.objectContaining({
+          status: "signed",
+          reason: "document-changed:doc-1",
+        }),
+      }),
+    );
+    expect(mockLogAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it("rejects a callback whose state token does not verify", async () => {
+    provider.parseCallback.mockResolvedValueOnce(signedCallback());
+    mockVerifySignedToken.mockReturnValueOnce(null);
+    expect(await receive()).toEqual({ accepted: false, reason: "invalid" });
+    expect(mockLoadStepRuntime).not.toHaveBeenCalled();
+  });
+
+  it("rejects a callback for a request that is not the open one", async () => {
+    provider.parseCallback.mockResolvedValueOnce(
+      signedCallback({ providerRequestId: "mock_other" }),
+    );
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(qesStep(), [...openEvents("q"), requestedEvent()]),
+    );
+    expect(await receive()).toEqual({
+      accepted: false,
+      reason: "stale-request",
+    });
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+    expect(mockExecuteStep).not.toHaveBeenCalled();
+  });
+
+  it("only settles the step on a provider retry", async () => {
+    provider.parseCallback.mockResolvedValueOnce(signedCallback());
+    mockLoadStepRuntime.mockResolvedValueOnce(
+      runtime(qesStep(), [
+        ...openEvents("q"),
+        requestedEvent(),
+        event(WorkflowEventType.QES_SIGNED, {
+          stepKey: "q",
+          requestRef: "req_1",
+          artifacts: [artifact],
+        }),
+      ]),
+    );
+
+    expect(await receive()).toEqual({ accepted: true, newState: "B" });
+    expect(mockFinaliseSignatures).not.toHaveBeenCalled();
+    expect(mockAppendEvent).not.toHaveBeenCalled();
+    expect(mockExecuteStep).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports an unknown provider", async () => {
+    mockGetSigningProvider.mockImplementationOnce(() => {
+      throw new Error('QES signing provider "nope" is not registered');
+    });
+    expect(await receive()).toEqual({
+      accepted: false,
+      reason: "unknown-provider",
+    });
+  });
+});
+
+// ─── helpers ───────────────────────────────────────────────────────────────
+
+function formStep() {
+  return {
+    kind: "form",
+    key: "f",
+    from: "A",
+    to: "B",
+    schema: FORM_SCHEMA,
+    requireRoles: ["OPERATOR"],
+  };
+}
+
+function approvalStep(overrides: Record<string, unknown> = {}) {
+  return {
+    kind: "approval",
+    key: "ap",
+    from: "A",
+    to: "B",
+    requireRoles: ["OPERATOR", "CISO"],
+    ...overrides,
+  };
+}
+
+function qesStep() {
+  return {
+    kind: "qes",
+    key: "q",
+    from: "A",
+    to: "B",
+    documentRefs: ["doc-1"],
+  };
+}
+
+function requestedEvent() {
+  return event(WorkflowEventType.QES_REQUESTED, {
+    stepKey: "q",
+    requestRef: "req_1",
+    provider: "local-mock",
+    providerRequestId: "mock_1",
+    signerUrl: null,
+    documents: [
+      {
+        ref: "doc-1",
+        fileName: "application.pdf",
+        format: "PAdES",
+        digest: "d1",
+      },
+    ],
+  });
+}
+
+function runtime(
+  step: Record<string, unknown>,
+  events: WorkflowEventRow[],
+  handlers: Map<string, Record<string, unknown>> = new Map(),
+) {
+  return {
+    def: { handlers },
+    step,
+    ctx: {
+      workflowId: WF_ID,
+      organizationId: "org_1",
+      userId: "owner",
+      subjectType: null,
+      subjectId: null,
+      currentState: "A",
+      state: {},
+    },
+    events,
+  };
+}
+
+function listenerRow(
+  id: string,
+  workflowId: string,
+  predicate: Record<string, unknown> | null = null,
+) {
+  return { id, workflowId, stepKey: "wait", predicate };
+}
+
+function event(
+  eventType: string,
+  payload: Record<string, unknown>,
+  resultingState: string | null = null,
+): WorkflowEventRow {
+  return {
+    id: "",
+    workflowId: WF_ID,
+    sequence: 0,
+    eventType,
+    causedBy: "test",
+    payload,
+    resultingState,
+    prevHash: "p",
+    entryHash: "h",
+    occurredAt: new Date("2024-01-01T00:00:00Z"),
+  };
+}
+
+function transition(toState: string) {
+  return event(WorkflowEventType.STATE_TRANSITION, { toState }, toState);
+}
+
+function openEvents(stepKey: string) {
+  return [transition("A"), event(WorkflowEventType.STEP_STARTED, { stepKey })];
+}
@@ -20,7 +20,7 @@
  *   - astra        — AI-reasoning step (writes AstraProposal + decisionLog)
  *   - waitForEvent — event-driven wait (registers WorkflowEventListener)
  *   - decision     — conditional branching
- *   - qes          — qualified electronic signature (D-Trust integration)
+ *   - qes          — qualified electronic signature (pluggable QTSP provider)
  */
 export const StepType = {
   action: "action",
@@ -52,8 +52,14 @@ export const WorkflowEventType = {
   ERROR: "ERROR",
   APPROVAL_GRANTED: "APPROVAL_GRANTED",
   APPROVAL_REJECTED: "APPROVAL_REJECTED",
+  ESCALATED: "ESCALATED",
+  FORM_SUBMITTED: "FORM_SUBMITTED",
   LISTENER_FIRED: "LISTENER_FIRED",
+  QES_REQUESTED: "QES_REQUESTED",
+  QES_SIGNED: "QES_SIGNED",
+  QES_FAILED: "QES_FAILED",
   SCHEDULE_FIRED: "SCHEDULE_FIRED",
+  MIGRATED: "MIGRATED",
   ARCHIVED: "ARCHIVED",
   PAUSED: "PAUSED",
   RESUMED: "RESUMED",
@@ -144,6 +150,13 @@ export interface StoredFormStep extends BaseStoredStep {
 export interface StoredApprovalStep extends BaseStoredStep {
   kind: "approval";
   requireRoles: string[];
+  /**
+   * N-of-M quorum — how many of the `requireRoles` slots must approve.
+   * Defaults to all of them. Each slot must be filled by a distinct user.
+   */
+  quorum?: number;
+  /** State to return to once rejection makes the quorum unreachable. */
+  rejectTo?: string;
   qesRequired?: boolean;
   /** SLA policy — engine creates a WorkflowSchedule from this. */
   slaBy?:
@@ -165,6 +178,12 @@ export interface StoredWaitStep extends BaseStoredStep {
   kind: "waitForEvent";
   eventType: string;
   predicate?: Record<string, unknown>;
+  /**
+   * Correlation-key template, resolved against the step context at
+   * registration ("{{subjectId}}", "incident:{{subjectId}}"). Published
+   * events only reach listeners with the same key.
+   */
+  correlationKey?: string;
   timeout?:
     | { offsetFromState: string; hours: number }
     | { offsetFromState: string; days: number };
@@ -189,7 +208,10 @@ export interface StoredQesStep extends BaseStoredStep {
   kind: "qes";
   /** Which document(s) need to be QES-signed. */
   documentRefs: string[];
-  /** D-Trust signing flow profile. */
+  /**
+   * Signing provider id (see `qes/providers.server.ts`). Defaults to
+   * `COWF_QES_PROVIDER`.
+   */
   signingProfile?: string;
 }
 
@@ -49,7 +49,8 @@
  * action handlers to real services. Sprint 3C cron drives the trigger.
  */
 
-import { defineWorkflow } from "../define-workflow";
+import { defineWorkflow, type WorkflowDef } from "../define-workflow";
+import type { WorkflowMigration } from "../migrations";
 import { step } from "../steps";
 
 export const W3_NAME = "continuous-compliance-heartbeat";
@@ -175,3 +176,14 @@ export const continuousHeartbeatWorkflow = defineWorkflow({
     }),
   },
 });
+
+/**
+ * Every W3 version the registry must know — instances stay on the
+ * version they started on. When v2 lands, append it here (keep v1 while
+ * v1 instances are running) and add the v1→v2 migration below.
+ */
+export const continuousHeartbeatVersions: readonly WorkflowDef[] = [
+  continuousHeartbeatWorkflow,
+];
+
+export const continuousHeartbeatMigrations: readonly WorkflowMigration[] = [];
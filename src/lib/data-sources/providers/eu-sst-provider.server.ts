@@ -4,7 +4,9 @@ import "server-only";
 // Access requires registration as a "user entity" under EU Regulation 2021/696
 // via the EU SST Front Desk (https://www.eusst.eu).
 // Once registered, conjunction warnings are delivered as CCSDS CDMs.
-// TODO: Register at https://www.eusst.eu and implement CCSDS CDM parsing.
+// CCSDS CDM parsing lives in @/lib/shield/ccsds-cdm.server; until API access
+// exists, EU SST CDM files are ingested via POST /api/shield/cdms/import.
+// TODO: Register at https://www.eusst.eu and wire the API fetch.
 
 import type {
   ConjunctionDataProvider,
@@ -77,6 +77,7 @@ export type DbChannel =
   | "trade.operation.risk_recomputed"
   | "trade.license.attached"
   | "trade.license.detached"
+  | "trade.license.usage_threshold"
   // Comply Trade v2 — Counterparty Screening (Wave A)
   | "trade.party.created"
   | "trade.party.screened"
@@ -99,6 +100,7 @@ const VALID_CHANNELS: ReadonlySet<DbChannel> = new Set<DbChannel>([
   "trade.operation.risk_recomputed",
   "trade.license.attached",
   "trade.license.detached",
+  "trade.license.usage_threshold",
   "trade.party.created",
   "trade.party.screened",
   "trade.party.blocked",
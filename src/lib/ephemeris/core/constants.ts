@@ -48,6 +48,31 @@ export const FORECAST_HORIZON_DAYS = 1825; // 5 years
 export const FORECAST_RESOLUTION_DAYS = 7; // 1 data point per week
 export const HISTORY_LOOKBACK_DAYS = 365; // 1 year of history for trend calculation
 
+// ─── Short-Term Propagation (SGP4) ───────────────────────────────────────────
+
+export const SHORT_TERM_MIN_HORIZON_DAYS = 7;
+export const SHORT_TERM_MAX_HORIZON_DAYS = 30;
+export const SHORT_TERM_DEFAULT_HORIZON_DAYS = 14;
+export const SHORT_TERM_STEP_MINUTES = 5; // Track sampling interval
+
+// ─── Monte Carlo Forecast ────────────────────────────────────────────────────
+
+export const MONTE_CARLO_DEFAULT_SAMPLES = 500;
+export const MONTE_CARLO_MAX_SAMPLES = 5000;
+export const MONTE_CARLO_DEFAULT_SEED = 0x5eed;
+
+/**
+ * Sampling distributions for uncertain model inputs.
+ * sigmaLn: log-normal spread around the nominal value (median = nominal).
+ */
+export const MONTE_CARLO_UNCERTAINTY = {
+  f107: { sigmaLn: 0.25, min: 65, max: 300 }, // SFU; solar-cycle forecast error
+  dragCoefficient: { sigma: 0.2, min: 1.8, max: 2.8 }, // Normal around Cd
+  areaToMass: { sigmaLn: 0.3 }, // Attitude/tumbling uncertainty
+  fuelRate: { sigmaLn: 0.3 }, // Consumption rate multiplier
+  degradationRate: { sigmaLn: 0.35 }, // Battery/solar loss-rate multiplier
+} as const;
+
 // ─── Default Subsystem Degradation Rates ─────────────────────────────────────
 
 export const DEFAULT_DEGRADATION = {
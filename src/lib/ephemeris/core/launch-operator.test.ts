@@ -211,6 +211,7 @@ vi.mock("../data/solar-flux-adapter", () => ({
 }));
 vi.mock("../data/celestrak-adapter", () => ({
   getOrbitalElements: vi.fn().mockResolvedValue(null),
+  getGPRecord: vi.fn().mockResolvedValue(null),
   getCelesTrakStatus: vi
     .fn()
     .mockResolvedValue({ lastTle: null, tleAge: null }),
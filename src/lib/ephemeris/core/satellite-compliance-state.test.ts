@@ -46,6 +46,7 @@ const mockGetCelesTrakStatus = vi
 
 vi.mock("../data/celestrak-adapter", () => ({
   getOrbitalElements: (...args: unknown[]) => mockGetOrbitalElements(...args),
+  getGPRecord: vi.fn().mockResolvedValue(null),
   getCelesTrakStatus: (...args: unknown[]) => mockGetCelesTrakStatus(...args),
 }));
 
@@ -384,6 +385,42 @@ describe("calculateSatelliteComplianceState", () => {
     expect(result.dataSources.celestrak).toBeDefined();
   });
 
+  it("reports the warning-altitude crossing from the decay forecast", async () => {
+    mockGetOrbitalElements.mockResolvedValueOnce({ noradId: "25544" });
+    mockPredictOrbitalDecay.mockReturnValueOnce({
+      warningCrossingDate: "2026-04-01T00:00:00.000Z",
+      warningCrossingSource: "sgp4",
+      shortTermHorizonDays: 14,
+    });
+
+    const result = await calculateSatelliteComplianceState({
+      prisma: mockPrismaClient,
+      orgId: "org-1",
+      noradId: "25544",
+      satelliteName: "ISS",
+      launchDate: new Date(),
+    });
+
+    expect(result.orbitalWarning).toEqual({
+      thresholdKm: 200,
+      crossingDate: "2026-04-01T00:00:00.000Z",
+      source: "sgp4",
+      shortTermHorizonDays: 14,
+    });
+  });
+
+  it("has no orbital warning without orbital elements", async () => {
+    const result = await calculateSatelliteComplianceState({
+      prisma: mockPrismaClient,
+      orgId: "org-1",
+      noradId: "25544",
+      satelliteName: "ISS",
+      launchDate: new Date(),
+    });
+
+    expect(result.orbitalWarning).toBeNull();
+  });
+
   it("returns empty alerts when no alert model exists", async () => {
     const prismaNoAlerts =
       {} as unknown as import("@prisma/client").PrismaClient;
@@ -8,7 +8,8 @@ import type {
   DataSourcesStatus,
   ComplianceHorizon,
   SatelliteAlert as SatelliteAlertType,
-  OrbitalElements,
+  OrbitalDecayForecast,
+  OrbitalWarningCrossing,
   SentinelTimeSeries,
   AssessmentDataBundle,
   VerityAttestationSummary,
@@ -29,6 +30,7 @@ import {
   buildUnknownModule,
 } from "./scoring";
 import { COMPLIANCE_THRESHOLDS } from "@/lib/compliance/thresholds";
+import { WARNING_ALTITUDE_KM } from "./constants";
 
 // Data adapters
 import {
@@ -38,6 +40,7 @@ import {
 import { getCurrentF107 } from "../data/solar-flux-adapter";
 import {
   getOrbitalElements,
+  getGPRecord,
   getCelesTrakStatus,
 } from "../data/celestrak-adapter";
 import { getVerityAttestations, getVerityStatus } from "../data/verity-adapter";
@@ -56,6 +59,7 @@ import {
   predictOrbitalDecay,
   getOrbitalDecayFactors,
 } from "../models/orbital-decay";
+import { propagateShortTerm } from "../models/short-term-propagation";
 import {
   predictFuelDepletion,
   getFuelDepletionFactors,
@@ -165,6 +169,7 @@ export async function calculateSatelliteComplianceState(
   // ─── Step 1: Load all data in parallel ─────────────────────────────
   const [
     orbitalElements,
+    gpRecord,
     f107,
     fuelSeries,
     thrusterSeries,
@@ -180,6 +185,7 @@ export async function calculateSatelliteComplianceState(
     verityStatus,
   ] = await Promise.all([
     getOrbitalElements(noradId),
+    getGPRecord(noradId),
     getCurrentF107(),
     getSentinelTimeSeries(prisma, orgId, noradId, "remaining_fuel_pct"),
     getSentinelTimeSeries(prisma, orgId, noradId, "thruster_status"),
@@ -225,9 +231,21 @@ export async function calculateSatelliteComplianceState(
     ? Math.floor((Date.now() - launchDate.getTime()) / (24 * 60 * 60 * 1000))
     : 365; // Default 1 year if unknown
 
+  // Orbital decay starts from the SGP4-propagated state when a TLE is available
+  const shortTerm = gpRecord ? propagateShortTerm(gpRecord) : null;
+  const decayForecast = orbitalElements
+    ? predictOrbitalDecay(
+        orbitalElements,
+        f107,
+        undefined,
+        undefined,
+        undefined,
+        shortTerm,
+      )
+    : null;
+
   const modules = buildModuleScores(
-    orbitalElements,
-    f107,
+    decayForecast,
     fuelSeries,
     thrusterSeries,
     batterySeries,
@@ -271,14 +289,25 @@ export async function calculateSatelliteComplianceState(
     activeAlerts,
     calculatedAt: new Date().toISOString(),
     dataFreshness,
+    orbitalWarning: decayForecast ? toOrbitalWarning(decayForecast) : null,
+  };
+}
+
+function toOrbitalWarning(
+  forecast: OrbitalDecayForecast,
+): OrbitalWarningCrossing {
+  return {
+    thresholdKm: WARNING_ALTITUDE_KM,
+    crossingDate: forecast.warningCrossingDate ?? null,
+    source: forecast.warningCrossingSource ?? null,
+    shortTermHorizonDays: forecast.shortTermHorizonDays ?? 0,
   };
 }
 
 // ─── Module Score Building ───────────────────────────────────────────────────
 
 function buildModuleScores(
-  orbitalElements: OrbitalElements | null,
-  f107: number,
+  decayForecast: OrbitalDecayForecast | null,
   fuelSeries: SentinelTimeSeries,
   thrusterSeries: SentinelTimeSeries,
   batterySeries: SentinelTimeSeries,
@@ -292,12 +321,8 @@ function buildModuleScores(
   shieldFactor: Awaited<ReturnType<typeof getShieldComplianceFactors>> | null,
 ): ModuleScoresInternal {
   // Orbital module
-  const orbital = orbitalElements
-    ? (() => {
-        const forecast = predictOrbitalDecay(orbitalElements, f107);
-        const factors = getOrbitalDecayFactors(forecast);
-        return calculateModuleScore(factors, "derived");
-      })()
+  const orbital = decayForecast
+    ? calculateModuleScore(getOrbitalDecayFactors(decayForecast), "derived")
     : buildUnknownModule("orbital");
 
   // Fuel module
@@ -169,6 +169,16 @@ export interface SatelliteComplianceState {
   activeAlerts: SatelliteAlert[];
   calculatedAt: string;
   dataFreshness: DataFreshness;
+  /** Orbital operators only — when the orbit drops below WARNING_ALTITUDE_KM */
+  orbitalWarning?: OrbitalWarningCrossing | null;
+}
+
+export interface OrbitalWarningCrossing {
+  thresholdKm: number;
+  crossingDate: string | null;
+  source: "sgp4" | "drag_model" | null;
+  /** Days covered by SGP4 propagation (0 when only mean elements were used) */
+  shortTermHorizonDays: number;
 }
 
 /** Internal state — includes currentValue in all factors */
@@ -227,6 +237,105 @@ export interface OrbitalDecayForecast {
   art68CrossingDate: string | null;
   reentryDate: string | null;
   confidence: Confidence;
+  /** When altitude first drops below WARNING_ALTITUDE_KM, if in horizon */
+  warningCrossingDate?: string | null;
+  warningCrossingSource?: "sgp4" | "drag_model" | null;
+  /** Days of the curve covered by SGP4 before the drag model takes over */
+  shortTermHorizonDays?: number;
+}
+
+// ─── Short-Term Propagation (SGP4) ───────────────────────────────────────────
+
+export interface ShortTermTrackPoint {
+  date: string; // ISO 8601
+  altitudeKm: number; // Geodetic height
+  perigeeAltitudeKm: number; // Osculating
+  apogeeAltitudeKm: number; // Osculating
+  inEclipse: boolean;
+}
+
+export interface ShortTermDailySummary {
+  date: string; // Start of the 24h window
+  minAltitudeKm: number;
+  maxAltitudeKm: number;
+  meanAltitudeKm: number; // Orbit-averaged osculating a − EARTH_RADIUS_KM
+  perigeeAltitudeKm: number; // Lowest osculating perigee of the day
+  apogeeAltitudeKm: number; // Highest osculating apogee of the day
+  eclipseMinutes: number;
+  eclipseFraction: number; // 0-1
+}
+
+export interface EclipseInterval {
+  entry: string;
+  exit: string;
+  durationMinutes: number;
+}
+
+export interface OsculatingState {
+  date: string;
+  semiMajorAxisKm: number;
+  eccentricity: number;
+  perigeeAltitudeKm: number;
+  apogeeAltitudeKm: number;
+  /** Osculating semi-major axis averaged over one revolution, as altitude */
+  meanAltitudeKm: number;
+}
+
+export interface ShortTermPropagation {
+  noradId: string;
+  tleEpoch: string;
+  startDate: string;
+  horizonDays: number;
+  stepMinutes: number;
+  track: ShortTermTrackPoint[];
+  daily: ShortTermDailySummary[];
+  eclipses: EclipseInterval[];
+  initialState: OsculatingState;
+  /** State at the end of the track — seeds the long-term decay model */
+  finalState: OsculatingState;
+  /** First sample whose geodetic height is below WARNING_ALTITUDE_KM */
+  warningCrossingDate: string | null;
+  /** SGP4 reported the orbit as decayed at this time */
+  decayDate: string | null;
+}
+
+// ─── Monte Carlo Forecast ────────────────────────────────────────────────────
+
+export interface PercentileBandPoint {
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface BreachProbability {
+  id: string;
+  regulationRef: string;
+  regulationName: string;
+  thresholdValue: number;
+  thresholdType: "ABOVE" | "BELOW";
+  /** Probability of breaching on or before `byDate` (0-1) */
+  probability: number;
+  /** Date by which half of the samples have breached, null if beyond horizon */
+  medianBreachDate: string | null;
+  /** Cumulative breach probability at each band date of the curve */
+  cumulative: number[];
+}
+
+export interface ProbabilisticForecastCurve {
+  metric: string; // Matches ForecastCurve.metric of the deterministic curve
+  model: ForecastModel;
+  unit: string;
+  bands: PercentileBandPoint[];
+  thresholds: BreachProbability[];
+}
+
+export interface MonteCarloForecast {
+  samples: number;
+  seed: number;
+  byDate: string; // Clamped to the forecast horizon
+  horizonDays: number;
+  curves: ProbabilisticForecastCurve[];
 }
 
 export interface FuelDepletionForecast {
@@ -32,6 +32,15 @@ export async function getOrbitalElements(
   return transformGPToOrbitalElements(gp, noradId);
 }
 
+/**
+ * Raw GP record for SGP4 propagation (same cache as getOrbitalElements).
+ */
+export async function getGPRecord(
+  noradId: string,
+): Promise<CelesTrakGPRecord | null> {
+  return fetchGP(noradId);
+}
+
 /**
  * Get CelesTrak data freshness info.
  */
@@ -13,6 +13,7 @@ const mockGetSubsystemFactors = vi.hoisted(() => vi.fn());
 const mockCalculateComplianceHorizon = vi.hoisted(() => vi.fn());
 const mockBuildForecastCurve = vi.hoisted(() => vi.fn());
 const mockTimeSeriestoHistorical = vi.hoisted(() => vi.fn());
+const mockRunMonteCarloForecast = vi.hoisted(() => vi.fn());
 
 vi.mock("server-only", () => ({}));
 vi.mock("@/lib/verity/utils/redaction", () => ({
@@ -26,6 +27,7 @@ vi.mock("../data/solar-flux-adapter", () => ({
 }));
 vi.mock("../data/celestrak-adapter", () => ({
   getOrbitalElements: mockGetOrbitalElements,
+  getGPRecord: vi.fn().mockResolvedValue(null),
 }));
 vi.mock("../models/orbital-decay", () => ({
   predictOrbitalDecay: mockPredictOrbitalDecay,
@@ -46,6 +48,9 @@ vi.mock("./forecast-curve", () => ({
   buildForecastCurve: mockBuildForecastCurve,
   timeSeriestoHistorical: mockTimeSeriestoHistorical,
 }));
+vi.mock("./monte-carlo", () => ({
+  runMonteCarloForecast: mockRunMonteCarloForecast,
+}));
 
 import { generateForecast } from "./forecast-engine";
 
@@ -159,7 +164,14 @@ describe("forecast-engine — generateForecast", () => {
       new Date(),
     );
 
-    expect(mockPredictOrbitalDecay).toHaveBeenCalledWith(orbitalElements, 150);
+    expect(mockPredictOrbitalDecay).toHaveBeenCalledWith(
+      orbitalElements,
+      150,
+      undefined,
+      undefined,
+      undefined,
+      null,
+    );
     expect(mockBuildForecastCurve).toHaveBeenCalledWith(
       altFactor,
       "orbital_decay",
@@ -200,6 +212,40 @@ describe("forecast-engine — generateForecast", () => {
     expect(reentryEvent!.regulationRef).toBe("eu_space_act_art_68");
   });
 
+  it("adds a warning-altitude event from the SGP4 crossing", async () => {
+    const crossing = new Date(
+      Date.now() + 10.5 * 24 * 60 * 60 * 1000,
+    ).toISOString();
+
+    mockGetOrbitalElements.mockResolvedValue({ noradId: "12345" });
+    mockPredictOrbitalDecay.mockReturnValue({
+      altitudeCurve: [],
+      reentryDate: null,
+      confidence: "MEDIUM",
+      warningCrossingDate: crossing,
+      warningCrossingSource: "sgp4",
+    });
+    mockGetOrbitalDecayFactors.mockReturnValue([null, { id: "alt" }]);
+
+    const result = await generateForecast(
+      fakePrisma,
+      "org-1",
+      "12345",
+      new Date(),
+    );
+
+    const warning = result.complianceEvents.find((e) =>
+      e.id.includes("orbital_warning_altitude"),
+    );
+    expect(warning).toBeDefined();
+    expect(warning!.eventType).toBe("WARNING");
+    expect(warning!.daysFromNow).toBe(10);
+    expect(warning!.severity).toBe("CRITICAL");
+    expect(warning!.model).toBe("short_term_propagation");
+    expect(warning!.description).toContain("SGP4");
+    expect(result.shortTerm).toBeNull();
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Fuel depletion
   // ═══════════════════════════════════════════════════════════════════════════
@@ -892,4 +938,69 @@ describe("forecast-engine — generateForecast", () => {
 
     expect(result.f107Used).toBe(200);
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Monte Carlo
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it("skips the Monte Carlo forecast unless requested", async () => {
+    const result = await generateForecast(
+      fakePrisma,
+      "org-1",
+      "12345",
+      new Date(),
+    );
+
+    expect(mockRunMonteCarloForecast).not.toHaveBeenCalled();
+    expect(result.monteCarlo).toBeNull();
+  });
+
+  it("feeds the deterministic model outputs into the Monte Carlo forecast", async () => {
+    mockGetOrbitalElements.mockResolvedValue({
+      noradId: "12345",
+      altitudeKm: 500,
+    });
+    mockPredictOrbitalDecay.mockReturnValue({
+      altitudeCurve: [],
+      reentryDate: null,
+      confidence: "MEDIUM",
+    });
+    mockGetOrbitalDecayFactors.mockReturnValue([null, { id: "alt" }]);
+    mockPredictSubsystemHealth.mockReturnValue({
+      ...makeSubsystemForecast(),
+      battery: {
+        status: "NOMINAL",
+        capacityTrend: -2.5,
+        criticalDate: new Date(
+          Date.now() + 4 * 365.25 * 24 * 60 * 60 * 1000,
+        ).toISOString(),
+      },
+    });
+    const monteCarlo = { samples: 100, seed: 7, curves: [] };
+    mockRunMonteCarloForecast.mockReturnValue(monteCarlo);
+
+    const result = await generateForecast(
+      fakePrisma,
+      "org-1",
+      "12345",
+      new Date(),
+      { monteCarlo: { samples: 100, seed: 7 } },
+    );
+
+    expect(result.monteCarlo).toBe(monteCarlo);
+    const [inputs, options] = mockRunMonteCarloForecast.mock.calls[0]!;
+    expect(options).toEqual({ samples: 100, seed: 7 });
+    expect(inputs.orbital).toEqual({
+      startAltitudeKm: 500,
+      startDay: 0,
+      headKm: [],
+      f107: 150,
+    });
+    expect(inputs.fuel).toBeNull();
+    // 60% critical + 4 years at 2.5%/yr
+    expect(inputs.battery.currentPct).toBeCloseTo(70, 1);
+    expect(inputs.battery.lossPerYear).toBe(2.5);
+    // No trend → not sampled
+    expect(inputs.solarArray).toBeNull();
+  });
 });
@@ -8,20 +8,31 @@ import type {
   OrbitalElements,
   SentinelTimeSeries,
   Confidence,
+  ShortTermPropagation,
+  FuelDepletionForecast,
+  SubsystemForecast,
+  MonteCarloForecast,
 } from "../core/types";
+import { WARNING_ALTITUDE_KM, DEFAULT_DEGRADATION } from "../core/constants";
 import { calculateComplianceHorizon } from "./compliance-horizon";
 import { buildForecastCurve, timeSeriestoHistorical } from "./forecast-curve";
+import {
+  runMonteCarloForecast,
+  type MonteCarloInputs,
+  type MonteCarloOptions,
+} from "./monte-carlo";
 
 // Data adapters
 import { getSentinelTimeSeries } from "../data/sentinel-adapter";
 import { getCurrentF107 } from "../data/solar-flux-adapter";
-import { getOrbitalElements } from "../data/celestrak-adapter";
+import { getOrbitalElements, getGPRecord } from "../data/celestrak-adapter";
 
 // Prediction models
 import {
   predictOrbitalDecay,
   getOrbitalDecayFactors,
 } from "../models/orbital-decay";
+import { propagateShortTerm } from "../models/short-term-propagation";
 import {
   predictFuelDepletion,
   getFuelDepletionFactors,
@@ -38,6 +49,7 @@ import {
  * 1. ForecastCurve[] — time-series projections for each metric
  * 2. ComplianceEvent[] — predicted compliance events
  * 3. ComplianceHorizon — days until first breach
+ * 4. MonteCarloForecast — P10/P50/P90 bands and breach probabilities (opt-in)
  */
 
 export interface ForecastResult {
@@ -45,6 +57,15 @@ export interface ForecastResult {
   complianceEvents: ComplianceEvent[];
   horizonDays: number | null;
   f107Used: number;
+  /** SGP4 propagation that seeded the decay model (5-min track omitted) */
+  shortTerm: Omit<ShortTermPropagation, "track"> | null;
+  /** Present only when requested via options.monteCarlo */
+  monteCarlo: MonteCarloForecast | null;
+}
+
+export interface ForecastOptions {
+  /** Run the Monte Carlo forecast alongside the deterministic curves */
+  monteCarlo?: MonteCarloOptions;
 }
 
 /**
@@ -55,12 +76,14 @@ export async function generateForecast(
   orgId: string,
   noradId: string,
   launchDate: Date | null,
+  options: ForecastOptions = {},
 ): Promise<ForecastResult> {
   safeLog("Generating forecast", { orgId, noradId });
 
   // Load data
   const [
     orbitalElements,
+    gpRecord,
     f107,
     fuelSeries,
     thrusterSeries,
@@ -68,6 +91,7 @@ export async function generateForecast(
     solarSeries,
   ] = await Promise.all([
     getOrbitalElements(noradId),
+    getGPRecord(noradId),
     getCurrentF107(),
     getSentinelTimeSeries(prisma, orgId, noradId, "remaining_fuel_pct"),
     getSentinelTimeSeries(prisma, orgId, noradId, "thruster_status"),
@@ -83,8 +107,20 @@ export async function generateForecast(
   const complianceEvents: ComplianceEvent[] = [];
 
   // ─── Orbital Decay Forecast ─────────────────────────────────────
-  if (orbitalElements) {
-    const decayForecast = predictOrbitalDecay(orbitalElements, f107);
+  // Short-term SGP4 track first; the drag model continues from its end state
+  const shortTerm = gpRecord ? propagateShortTerm(gpRecord) : null;
+  const decayForecast = orbitalElements
+    ? predictOrbitalDecay(
+        orbitalElements,
+        f107,
+        undefined,
+        undefined,
+        undefined,
+        shortTerm,
+      )
+    : null;
+
+  if (decayForecast) {
     const decayFactors = getOrbitalDecayFactors(decayForecast);
 
     // Build altitude curve
@@ -118,11 +154,38 @@ export async function generateForecast(
         model: "orbital_decay",
       });
     }
+
+    // Warning-altitude crossing
+    if (decayForecast.warningCrossingDate) {
+      const daysToWarning = Math.max(
+        0,
+        Math.floor(
+          (new Date(decayForecast.warningCrossingDate).getTime() - Date.now()) /
+            (24 * 60 * 60 * 1000),
+        ),
+      );
+      const sgp4 = decayForecast.warningCrossingSource === "sgp4";
+      complianceEvents.push({
+        id: `orbital_warning_altitude_${noradId}`,
+        date: decayForecast.warningCrossingDate,
+        daysFromNow: daysToWarning,
+        regulationRef: "eu_space_act_art_68",
+        regulationName: "Orbital Altitude Warning",
+        eventType: "WARNING",
+        severity: daysToWarning <= 30 ? "CRITICAL" : "HIGH",
+        description: `${sgp4 ? "SGP4-propagated track" : "Decay model"} drops below ${WARNING_ALTITUDE_KM} km in ${daysToWarning} days`,
+        recommendedAction:
+          "Confirm with fresh tracking data and prepare reentry notification or orbit raise",
+        confidence: sgp4 ? "HIGH" : decayForecast.confidence,
+        model: sgp4 ? "short_term_propagation" : "orbital_decay",
+      });
+    }
   }
 
   // ─── Fuel Depletion Forecast ────────────────────────────────────
+  let fuelForecast: FuelDepletionForecast | null = null;
   if (fuelSeries.points.length >= 2) {
-    const fuelForecast = predictFuelDepletion(fuelSeries);
+    fuelForecast = predictFuelDepletion(fuelSeries);
     const fuelFactors = getFuelDepletionFactors(fuelForecast);
 
     // Build fuel curve
@@ -235,22 +298,111 @@ export async function generateForecast(
 
   // Calculate horizon from all factors
   const allFactors = [
-    ...(orbitalElements
-      ? getOrbitalDecayFactors(predictOrbitalDecay(orbitalElements, f107))
-      : []),
-    ...(fuelSeries.points.length >= 2
-      ? getFuelDepletionFactors(predictFuelDepletion(fuelSeries))
-      : []),
+    ...(decayForecast ? getOrbitalDecayFactors(decayForecast) : []),
+    ...(fuelForecast ? getFuelDepletionFactors(fuelForecast) : []),
     ...getSubsystemFactors(subsystemForecast),
   ];
 
   const horizon =
     complianceEvents.length > 0 ? complianceEvents[0]!.daysFromNow : null;
 
+  // ─── Monte Carlo Forecast ───────────────────────────────────────
+  const monteCarlo = options.monteCarlo
+    ? runMonteCarloForecast(
+        {
+          orbital: orbitalElements
+            ? shortTerm
+              ? {
+                  startAltitudeKm: shortTerm.finalState.meanAltitudeKm,
+                  startDay: shortTerm.horizonDays,
+                  headKm: shortTerm.daily.map((d) => d.meanAltitudeKm),
+                  f107,
+                }
+              : {
+                  startAltitudeKm: orbitalElements.altitudeKm,
+                  startDay: 0,
+                  headKm: [],
+                  f107,
+                }
+            : null,
+          fuel: fuelForecast
+            ? {
+                currentPct: fuelForecast.currentFuelPct,
+                ratePerDay: fuelForecast.consumptionRatePerDay.nominal,
+              }
+            : null,
+          battery: toDegradationInput(
+            batterySeries,
+            subsystemForecast.battery.capacityTrend,
+            subsystemForecast.battery.criticalDate,
+            DEFAULT_DEGRADATION.battery.criticalCapacityPct,
+          ),
+          solarArray: toDegradationInput(
+            solarSeries,
+            subsystemForecast.solarArray.powerTrend,
+            subsystemForecast.solarArray.criticalDate,
+            DEFAULT_DEGRADATION.solarArray.criticalPowerPct,
+          ),
+        },
+        options.monteCarlo,
+      )
+    : null;
+
   return {
     forecastCurves,
     complianceEvents,
     horizonDays: horizon,
     f107Used: f107,
+    shortTerm: shortTerm ? withoutTrack(shortTerm) : null,
+    monteCarlo,
+  };
+}
+
+/**
+ * Current level and loss rate for a degrading subsystem. Without telemetry the
+ * default model only exposes its trend and critical date, so the current
+ * level is reconstructed from them. Non-degrading subsystems are not sampled.
+ */
+function toDegradationInput(
+  series: SentinelTimeSeries,
+  trendPerYear: SubsystemForecast["battery"]["capacityTrend"],
+  criticalDate: string | null,
+  criticalPct: number,
+): MonteCarloInputs["battery"] {
+  if (trendPerYear === null || trendPerYear >= 0) return null;
+  const lossPerYear = Math.abs(trendPerYear);
+
+  const last = series.points[series.points.length - 1];
+  if (series.points.length >= 2 && last) {
+    return { currentPct: last.value, lossPerYear };
+  }
+  if (!criticalDate) return null;
+
+  const yearsToCritical = Math.max(
+    (new Date(criticalDate).getTime() - Date.now()) /
+      (365.25 * 24 * 60 * 60 * 1000),
+    0,
+  );
+  return {
+    currentPct: criticalPct + lossPerYear * yearsToCritical,
+    lossPerYear,
+  };
+}
+
+function withoutTrack(
+  shortTerm: ShortTermPropagation,
+): Omit<ShortTermPropagation, "track"> {
+  return {
+    noradId: shortTerm.noradId,
+    tleEpoch: shortTerm.tleEpoch,
+    startDate: shortTerm.startDate,
+    horizonDays: shortTerm.horizonDays,
+    stepMinutes: shortTerm.stepMinutes,
+    daily: shortTerm.daily,
+    eclipses: shortTerm.eclipses,
+    initialState: shortTerm.initialState,
+    finalState: shortTerm.finalState,
+    warningCrossingDate: shortTerm.warningCrossingDate,
+    decayDate: shortTerm.decayDate,
   };
 }
@@ -0,0 +1,154 @@
+/**
+ * Monte Carlo Forecast Tests
+ *
+ * Pure computation — no mocks needed.
+ */
+
+import { describe, it, expect } from "vitest";
+import { runMonteCarloForecast, type MonteCarloInputs } from "./monte-carlo";
+import { FORECAST_HORIZON_DAYS } from "../core/constants";
+
+const NOW = new Date("2026-03-01T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NONE: MonteCarloInputs = {
+  orbital: null,
+  fuel: null,
+  battery: null,
+  solarArray: null,
+};
+
+function orbital(
+  startAltitudeKm: number,
+  overrides: Partial<NonNullable<MonteCarloInputs["orbital"]>> = {},
+): MonteCarloInputs {
+  return {
+    ...NONE,
+    orbital: {
+      startAltitudeKm,
+      startDay: 0,
+      headKm: [],
+      f107: 150,
+      ...overrides,
+    },
+  };
+}
+
+describe("runMonteCarloForecast", () => {
+  it("returns ordered P10/P50/P90 bands on the forecast grid", () => {
+    const result = runMonteCarloForecast(orbital(700), {
+      samples: 200,
+      now: NOW,
+    });
+    const curve = result.curves[0]!;
+
+    expect(curve.metric).toBe("orbital_altitude");
+    expect(curve.bands[0]!.date).toBe(NOW.toISOString());
+    for (const b of curve.bands) {
+      expect(b.p10).toBeLessThanOrEqual(b.p50);
+      expect(b.p50).toBeLessThanOrEqual(b.p90);
+    }
+    // Uncertainty grows with time
+    const early = curve.bands[4]!;
+    const late = curve.bands[40]!;
+    expect(late.p90 - late.p10).toBeGreaterThan(early.p90 - early.p10);
+  });
+
+  it("is reproducible for the same seed and differs for another", () => {
+    const a = runMonteCarloForecast(orbital(700), { samples: 100, now: NOW });
+    const b = runMonteCarloForecast(orbital(700), { samples: 100, now: NOW });
+    const c = runMonteCarloForecast(orbital(700), {
+      samples: 100,
+      seed: 42,
+      now: NOW,
+    });
+
+    expect(b).toEqual(a);
+    expect(c.curves[0]!.bands[30]).not.toEqual(a.curves[0]!.bands[30]);
+  });
+
+  it("puts the fuel breach probability near 50% at the nominal crossing", () => {
+    // 30% fuel at 0.02 %/day: nominal Art. 72 (25%) crossing after 250 days
+    const inputs = { ...NONE, fuel: { currentPct: 30, ratePerDay: 0.02 } };
+    const result = runMonteCarloForecast(inputs, {
+      samples: 2000,
+      now: NOW,
+      byDate: new Date(NOW.getTime() + 250 * DAY_MS),
+    });
+    const art72 = result.curves[0]!.thresholds.find(
+      (t) => t.regulationRef === "eu_space_act_art_72",
+    )!;
+    const iadc = result.curves[0]!.thresholds.find(
+      (t) => t.regulationRef === "iadc_5_3_1",
+    )!;
+
+    expect(art72.probability).toBeGreaterThan(0.4);
+    expect(art72.probability).toBeLessThan(0.6);
+    expect(iadc.probability).toBeLessThan(art72.probability);
+    const medianDay =
+      (new Date(art72.medianBreachDate!).getTime() - NOW.getTime()) / DAY_MS;
+    expect(medianDay).toBeGreaterThan(220);
+    expect(medianDay).toBeLessThan(280);
+  });
+
+  it("keeps cumulative breach probabilities monotone", () => {
+    const inputs = {
+      ...NONE,
+      battery: { currentPct: 75, lossPerYear: 2.5 },
+      solarArray: { currentPct: 80, lossPerYear: 2.75 },
+    };
+    const result = runMonteCarloForecast(inputs, { samples: 300, now: NOW });
+
+    expect(result.curves.map((c) => c.metric)).toEqual([
+      "subsystem_battery",
+      "subsystem_solar",
+    ]);
+    for (const curve of result.curves) {
+      const cumulative = curve.thresholds[0]!.cumulative;
+      expect(cumulative).toHaveLength(curve.bands.length);
+      for (let i = 1; i < cumulative.length; i++) {
+        expect(cumulative[i]!).toBeGreaterThanOrEqual(cumulative[i - 1]!);
+      }
+    }
+  });
+
+  it("treats an SGP4 warning crossing in the head as certain", () => {
+    const headKm = [205, 203, 201, 199, 197, 195, 193];
+    const result = runMonteCarloForecast(
+      orbital(190, { startDay: headKm.length, headKm }),
+      {
+        samples: 50,
+        now: NOW,
+        byDate: new Date(NOW.getTime() + 3 * DAY_MS),
+      },
+    );
+    const warning = result.curves[0]!.thresholds.find(
+      (t) => t.id === "orbital_warning_altitude",
+    )!;
+
+    expect(warning.probability).toBe(1);
+    expect(warning.medianBreachDate).toBe(
+      new Date(NOW.getTime() + 3 * DAY_MS).toISOString(),
+    );
+  });
+
+  it("clamps the breach date to the forecast horizon", () => {
+    // Above the drag model's ceiling: never breaches
+    const result = runMonteCarloForecast(orbital(1100), {
+      samples: 20,
+      now: NOW,
+      byDate: new Date(NOW.getTime() + 20 * 365 * DAY_MS),
+    });
+
+    expect(result.byDate).toBe(
+      new Date(NOW.getTime() + FORECAST_HORIZON_DAYS * DAY_MS).toISOString(),
+    );
+    expect(result.curves[0]!.thresholds[1]!.medianBreachDate).toBeNull();
+  });
+
+  it("returns no curves without model inputs", () => {
+    const result = runMonteCarloForecast(NONE, { now: NOW });
+    expect(result.curves).toEqual([]);
+    expect(result.samples).toBe(500);
+  });
+});
@@ -0,0 +1,391 @@
+import type {
+  BreachProbability,
+  ForecastModel,
+  MonteCarloForecast,
+  PercentileBandPoint,
+  ProbabilisticForecastCurve,
+} from "../core/types";
+import {
+  DEFAULT_AREA_TO_MASS,
+  DEFAULT_DEGRADATION,
+  DEFAULT_DRAG_COEFFICIENT,
+  DESTRUCTION_ALTITUDE_KM,
+  FORECAST_HORIZON_DAYS,
+  FORECAST_RESOLUTION_DAYS,
+  MONTE_CARLO_DEFAULT_SAMPLES,
+  MONTE_CARLO_DEFAULT_SEED,
+  MONTE_CARLO_MAX_SAMPLES,
+  MONTE_CARLO_UNCERTAINTY,
+  WARNING_ALTITUDE_KM,
+} from "../core/constants";
+import { COMPLIANCE_THRESHOLDS } from "@/lib/compliance/thresholds";
+import { mulberry32 } from "@/lib/prng";
+import { computeDailyDecayKm } from "../models/orbital-decay";
+
+/**
+ * Monte Carlo Forecast
+ *
+ * Probabilistic counterpart to the deterministic curves in forecast-engine.ts.
+ * Samples the uncertain inputs of each model — F10.7 solar flux, drag
+ * coefficient and area-to-mass for orbital decay, consumption rate for fuel,
+ * loss rates for battery and solar array — and reports P10/P50/P90 bands plus
+ * the probability of breaching each compliance threshold by a given date.
+ *
+ * Seeded PRNG: identical inputs and seed give identical bands.
+ * Thruster health has no continuous rate and is not sampled.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface MonteCarloInputs {
+  orbital: {
+    /** Drag model start altitude (SGP4 final state or mean elements) */
+    startAltitudeKm: number;
+    /** Day the drag model takes over; earlier days come from `headKm` */
+    startDay: number;
+    /** Deterministic SGP4 daily mean altitudes for days 0..startDay-1 */
+    headKm: number[];
+    f107: number;
+    areaToMass?: number;
+    dragCoefficient?: number;
+    kpIndex?: number;
+  } | null;
+  fuel: { currentPct: number; ratePerDay: number } | null;
+  battery: { currentPct: number; lossPerYear: number } | null;
+  solarArray: { currentPct: number; lossPerYear: number } | null;
+}
+
+export interface MonteCarloOptions {
+  samples?: number;
+  seed?: number;
+  /** Date for the breach probabilities — defaults to one year from now */
+  byDate?: Date;
+  now?: Date;
+}
+
+interface ThresholdSpec {
+  id: string;
+  regulationRef: string;
+  regulationName: string;
+  thresholdValue: number;
+  thresholdType: "ABOVE" | "BELOW";
+}
+
+/** One sample: values on the band grid and first breach day per threshold */
+interface SampleRun {
+  values: number[];
+  breachDays: number[]; // Infinity when not breached within the horizon
+}
+
+/**
+ * Run the Monte Carlo forecast for every model with inputs.
+ */
+export function runMonteCarloForecast(
+  inputs: MonteCarloInputs,
+  options: MonteCarloOptions = {},
+): MonteCarloForecast {
+  const samples = Math.min(
+    Math.max(Math.round(options.samples ?? MONTE_CARLO_DEFAULT_SAMPLES), 10),
+    MONTE_CARLO_MAX_SAMPLES,
+  );
+  const seed = options.seed ?? MONTE_CARLO_DEFAULT_SEED;
+  const now = options.now ?? new Date();
+  const byDay = Math.min(
+    Math.max(
+      Math.ceil(
+        ((options.byDate?.getTime() ?? now.getTime() + 365 * MS_PER_DAY) -
+          now.getTime()) /
+          MS_PER_DAY,
+      ),
+      0,
+    ),
+    FORECAST_HORIZON_DAYS,
+  );
+
+  const gridDays: number[] = [];
+  for (
+    let day = 0;
+    day <= FORECAST_HORIZON_DAYS;
+    day += FORECAST_RESOLUTION_DAYS
+  ) {
+    gridDays.push(day);
+  }
+
+  const sampler = createSampler(seed);
+  const curves: ProbabilisticForecastCurve[] = [];
+  const summarize = (
+    metric: string,
+    model: ForecastModel,
+    unit: string,
+    thresholds: ThresholdSpec[],
+    run: () => SampleRun,
+  ) => {
+    const runs = Array.from({ length: samples }, run);
+    curves.push(
+      summarizeRuns(metric, model, unit, thresholds, runs, gridDays, {
+        now,
+        byDay,
+      }),
+    );
+  };
+
+  if (inputs.orbital) {
+    const orbital = inputs.orbital;
+    const thresholds: ThresholdSpec[] = [
+      {
+        id: "orbital_warning_altitude",
+        regulationRef: "eu_space_act_art_68",
+        regulationName: `Altitude below ${WARNING_ALTITUDE_KM} km`,
+        thresholdValue: WARNING_ALTITUDE_KM,
+        thresholdType: "ABOVE",
+      },
+      {
+        id: "orbital_reentry",
+        regulationRef: "eu_space_act_art_68",
+        regulationName: "Destructive reentry",
+        thresholdValue: DESTRUCTION_ALTITUDE_KM,
+        thresholdType: "ABOVE",
+      },
+    ];
+    summarize("orbital_altitude", "orbital_decay", "km", thresholds, () =>
+      sampleOrbitalDecay(orbital, sampler, gridDays, thresholds),
+    );
+  }
+
+  if (inputs.fuel) {
+    const fuel = inputs.fuel;
+    const thresholds = (
+      ["eu_space_act_art_72", "eu_space_act_art_70", "iadc_5_3_1"] as const
+    ).map((key) => ({
+      id: `fuel_${key}`,
+      regulationRef: key,
+      regulationName: `Fuel below ${COMPLIANCE_THRESHOLDS[key].threshold}%`,
+      thresholdValue: COMPLIANCE_THRESHOLDS[key].threshold,
+      thresholdType: "ABOVE" as const,
+    }));
+    summarize(
+      "fuel_passivation_reserve",
+      "fuel_depletion",
+      "%",
+      thresholds,
+      () =>
+        sampleLinearDecline(
+          fuel.currentPct,
+          fuel.ratePerDay *
+            sampler.logNormal(MONTE_CARLO_UNCERTAINTY.fuelRate.sigmaLn),
+          gridDays,
+          thresholds,
+        ),
+    );
+  }
+
+  const subsystems = [
+    {
+      input: inputs.battery,
+      metric: "subsystem_battery",
+      name: "Battery capacity critical",
+      criticalPct: DEFAULT_DEGRADATION.battery.criticalCapacityPct,
+    },
+    {
+      input: inputs.solarArray,
+      metric: "subsystem_solar",
+      name: "Solar array power critical",
+      criticalPct: DEFAULT_DEGRADATION.solarArray.criticalPowerPct,
+    },
+  ];
+  for (const { input, metric, name, criticalPct } of subsystems) {
+    if (!input) continue;
+    const thresholds: ThresholdSpec[] = [
+      {
+        id: `${metric}_critical`,
+        regulationRef: "eu_space_act_art_64",
+        regulationName: name,
+        thresholdValue: criticalPct,
+        thresholdType: "ABOVE",
+      },
+    ];
+    summarize(metric, "subsystem_degradation", "%", thresholds, () =>
+      sampleLinearDecline(
+        input.currentPct,
+        (input.lossPerYear / 365.25) *
+          sampler.logNormal(MONTE_CARLO_UNCERTAINTY.degradationRate.sigmaLn),
+        gridDays,
+        thresholds,
+      ),
+    );
+  }
+
+  return {
+    samples,
+    seed,
+    byDate: new Date(now.getTime() + byDay * MS_PER_DAY).toISOString(),
+    horizonDays: FORECAST_HORIZON_DAYS,
+    curves,
+  };
+}
+
+// ─── Samplers ────────────────────────────────────────────────────────────────
+
+function sampleOrbitalDecay(
+  orbital: NonNullable<MonteCarloInputs["orbital"]>,
+  sampler: Sampler,
+  gridDays: number[],
+  thresholds: ThresholdSpec[],
+): SampleRun {
+  const u = MONTE_CARLO_UNCERTAINTY;
+  const f107 = clamp(
+    orbital.f107 * sampler.logNormal(u.f107.sigmaLn),
+    u.f107.min,
+    u.f107.max,
+  );
+  const cd = clamp(
+    (orbital.dragCoefficient ?? DEFAULT_DRAG_COEFFICIENT) +
+      sampler.normal() * u.dragCoefficient.sigma,
+    u.dragCoefficient.min,
+    u.dragCoefficient.max,
+  );
+  const areaToMass =
+    (orbital.areaToMass ?? DEFAULT_AREA_TO_MASS) *
+    sampler.logNormal(u.areaToMass.sigmaLn);
+
+  const values: number[] = [];
+  const breachDays = thresholds.map(() => Infinity);
+  let alt = orbital.startAltitudeKm;
+  let gridIndex = 0;
+
+  for (let day = 0; day <= FORECAST_HORIZON_DAYS; day++) {
+    const current = day < orbital.startDay ? (orbital.headKm[day] ?? alt) : alt;
+
+    thresholds.forEach((t, i) => {
+      if (breachDays[i] === Infinity && current < t.thresholdValue) {
+        breachDays[i] = day;
+      }
+    });
+    if (gridDays[gridIndex] === day) {
+      values.push(current);
+      gridIndex++;
+    }
+
+    if (day >= orbital.startDay && alt > DESTRUCTION_ALTITUDE_KM) {
+      alt = Math.max(
+        alt -
+          computeDailyDecayKm(alt, f107, areaToMass, cd, orbital.kpIndex ?? 3),
+        DESTRUCTION_ALTITUDE_KM - 1,
+      );
+    }
+  }
+
+  return { values, breachDays };
+}
+
+function sampleLinearDecline(
+  currentPct: number,
+  ratePerDay: number,
+  gridDays: number[],
+  thresholds: ThresholdSpec[],
+): SampleRun {
+  const values = gridDays.map((day) =>
+    Math.max(currentPct - ratePerDay * day, 0),
+  );
+  const breachDays = thresholds.map((t) => {
+    if (currentPct < t.thresholdValue) return 0;
+    if (ratePerDay <= 0) return Infinity;
+    const day = Math.ceil((currentPct - t.thresholdValue) / ratePerDay);
+    return day <= FORECAST_HORIZON_DAYS ? day : Infinity;
+  });
+  return { values, breachDays };
+}
+
+// ─── Summary ─────────────────────────────────────────────────────────────────
+
+function summarizeRuns(
+  metric: string,
+  model: ForecastModel,
+  unit: string,
+  thresholds: ThresholdSpec[],
+  runs: SampleRun[],
+  gridDays: number[],
+  ctx: { now: Date; byDay: number },
+): ProbabilisticForecastCurve {
+  const dateOf = (day: number) =>
+    new Date(ctx.now.getTime() + day * MS_PER_DAY).toISOString();
+
+  const bands: PercentileBandPoint[] = gridDays.map((day, i) => {
+    const sorted = runs.map((r) => r.values[i]!).sort((a, b) => a - b);
+    return {
+      date: dateOf(day),
+      p10: round2(quantile(sorted, 0.1)),
+      p50: round2(quantile(sorted, 0.5)),
+      p90: round2(quantile(sorted, 0.9)),
+    };
+  });
+
+  const breaches: BreachProbability[] = thresholds.map((t, ti) => {
+    const days = runs.map((r) => r.breachDays[ti]!).sort((a, b) => a - b);
+    const fractionBy = (day: number) =>
+      countAtMost(days, day) / Math.max(days.length, 1);
+    const median = days[Math.floor((days.length - 1) / 2)]!;
+    return {
+      ...t,
+      probability: round4(fractionBy(ctx.byDay)),
+      medianBreachDate: Number.isFinite(median) ? dateOf(median) : null,
+      cumulative: gridDays.map((day) => round4(fractionBy(day))),
+    };
+  });
+
+  return { metric, model, unit, bands, thresholds: breaches };
+}
+
+/** Linear-interpolated quantile of an ascending array */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+}
+
+/** Number of entries ≤ x in an ascending array */
+function countAtMost(sorted: number[], x: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid]! <= x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// ─── Random Numbers ──────────────────────────────────────────────────────────
+
+interface Sampler {
+  /** Standard normal (Box-Muller) */
+  normal: () => number;
+  /** Log-normal multiplier with median 1 */
+  logNormal: (sigmaLn: number) => number;
+}
+
+function createSampler(seed: number): Sampler {
+  const rand = mulberry32(seed);
+  const normal = (): number => {
+    const u1 = Math.max(rand(), Number.MIN_VALUE);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * rand());
+  };
+  return {
+    normal,
+    logNormal: (sigmaLn) => Math.exp(sigmaLn * normal()),
+  };
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max);
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+function round4(x: number): number {
+  return Math.round(x * 10000) / 10000;
+}
@@ -5,10 +5,18 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { predictOrbitalDecay, getOrbitalDecayFactors } from "./orbital-decay";
-import type { OrbitalElements } from "../core/types";
 import {
+  predictOrbitalDecay,
+  getOrbitalDecayFactors,
+  computeDailyDecayKm,
+} from "./orbital-decay";
+import type { OrbitalElements, ShortTermPropagation } from "../core/types";
+import {
+  ATMOSPHERIC_LAYERS,
   DESTRUCTION_ALTITUDE_KM,
+  EARTH_MU,
+  EARTH_RADIUS_KM,
+  F107_REFERENCE,
   WARNING_ALTITUDE_KM,
 } from "../core/constants";
 
@@ -32,6 +40,52 @@ function makeElements(
   };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Synthetic SGP4 result decaying linearly from `startAlt` to `endAlt` */
+function makeShortTerm(
+  startAlt: number,
+  endAlt: number,
+  overrides: Partial<ShortTermPropagation> = {},
+): ShortTermPropagation {
+  const horizonDays = overrides.horizonDays ?? 14;
+  const start = Date.now();
+  const altAt = (day: number) =>
+    startAlt + ((endAlt - startAlt) * day) / horizonDays;
+  const state = (day: number) => ({
+    date: new Date(start + day * DAY_MS).toISOString(),
+    semiMajorAxisKm: 6371 + altAt(day),
+    eccentricity: 0.0005,
+    perigeeAltitudeKm: altAt(day) - 3,
+    apogeeAltitudeKm: altAt(day) + 3,
+    meanAltitudeKm: altAt(day),
+  });
+  return {
+    noradId: "25544",
+    tleEpoch: new Date(start).toISOString(),
+    startDate: new Date(start).toISOString(),
+    horizonDays,
+    stepMinutes: 5,
+    track: [],
+    daily: Array.from({ length: horizonDays + 1 }, (_, day) => ({
+      date: state(day).date,
+      minAltitudeKm: altAt(day) - 10,
+      maxAltitudeKm: altAt(day) + 10,
+      meanAltitudeKm: altAt(day),
+      perigeeAltitudeKm: altAt(day) - 3,
+      apogeeAltitudeKm: altAt(day) + 3,
+      eclipseMinutes: 500,
+      eclipseFraction: 0.35,
+    })),
+    eclipses: [],
+    initialState: state(0),
+    finalState: state(horizonDays),
+    warningCrossingDate: null,
+    decayDate: null,
+    ...overrides,
+  };
+}
+
 describe("predictOrbitalDecay", () => {
   // ─── Normal cases ───
 
@@ -201,6 +255,135 @@ describe("predictOrbitalDecay", () => {
   });
 });
 
+describe("predictOrbitalDecay seeded by SGP4", () => {
+  it("starts the curve with the propagated daily altitudes", () => {
+    const shortTerm = makeShortTerm(410, 405);
+    const result = predictOrbitalDecay(
+      makeElements({ altitudeKm: 400 }),
+      150,
+      undefined,
+      undefined,
+      undefined,
+      shortTerm,
+    );
+
+    expect(result.currentAltitudeKm).toBe(410);
+    expect(result.shortTermHorizonDays).toBe(14);
+    expect(result.altitudeCurve.slice(0, 14).map((p) => p.nominal)).toEqual(
+      shortTerm.daily.slice(0, 14).map((d) => d.meanAltitudeKm),
+    );
+    // Drag model continues from the final osculating state
+    expect(result.altitudeCurve[14]!.nominal).toBeLessThan(405);
+    expect(result.altitudeCurve[14]!.nominal).toBeGreaterThan(380);
+  });
+
+  it("uses the SGP4 warning crossing when it falls inside the horizon", () => {
+    const crossing = new Date(Date.now() + 9.5 * DAY_MS).toISOString();
+    const result = predictOrbitalDecay(
+      makeElements({ altitudeKm: 230 }),
+      150,
+      undefined,
+      undefined,
+      undefined,
+      makeShortTerm(230, 190, { warningCrossingDate: crossing }),
+    );
+
+    expect(result.warningCrossingDate).toBe(crossing);
+    expect(result.warningCrossingSource).toBe("sgp4");
+    expect(
+      getOrbitalDecayFactors(result).find((f) => f.id === "orbital_altitude")!
+        .daysToThreshold,
+    ).toBe(9);
+  });
+
+  it("falls back to the drag model for a later warning crossing", () => {
+    const result = predictOrbitalDecay(
+      makeElements({ altitudeKm: 250 }),
+      150,
+      undefined,
+      undefined,
+      undefined,
+      makeShortTerm(250, 245),
+    );
+
+    expect(result.warningCrossingSource).toBe("drag_model");
+    const crossingDay =
+      (new Date(result.warningCrossingDate!).getTime() - Date.now()) / DAY_MS;
+    expect(crossingDay).toBeGreaterThan(14);
+  });
+
+  it("ends the forecast at the SGP4 decay date", () => {
+    const result = predictOrbitalDecay(
+      makeElements({ altitudeKm: 180 }),
+      150,
+      undefined,
+      undefined,
+      undefined,
+      makeShortTerm(180, 150, {
+        horizonDays: 7,
+        decayDate: new Date(Date.now() + 5 * DAY_MS).toISOString(),
+      }),
+    );
+
+    expect(result.reentryDate).not.toBeNull();
+    expect(result.estimatedLifetimeYears).toBeCloseTo(5 / 365.25, 6);
+    expect(result.altitudeCurve).toHaveLength(7);
+  });
+
+  it("keeps the mean-element path without a short-term propagation", () => {
+    const result = predictOrbitalDecay(makeElements({ altitudeKm: 400 }), 150);
+    expect(result.shortTermHorizonDays).toBe(0);
+    expect(result.warningCrossingSource).not.toBe("sgp4");
+  });
+});
+
+describe("computeDailyDecayKm", () => {
+  // At a layer's base altitude with reference solar flux and Kp 0 the model
+  // density is exactly the layer's base density
+  const layerAt = (altKm: number) =>
+    ATMOSPHERIC_LAYERS.find((l) => l.baseAlt === altKm)!;
+
+  it.each([300, 400, 600])(
+    "matches 2π a² ρ B per revolution at %i km",
+    (altKm) => {
+      const rho = layerAt(altKm).baseDensity;
+      const ballistic = 2.2 * 0.01;
+      const a = (EARTH_RADIUS_KM + altKm) * 1000;
+      const lossPerRevM = 2 * Math.PI * a * a * rho * ballistic;
+      const periodS = 2 * Math.PI * Math.sqrt((a * a * a) / EARTH_MU);
+      const expectedKmPerDay = (lossPerRevM * (86400 / periodS)) / 1000;
+
+      expect(
+        computeDailyDecayKm(altKm, F107_REFERENCE, 0.01, 2.2, 0),
+      ).toBeCloseTo(expectedKmPerDay, 10);
+    },
+  );
+
+  it("reproduces hand-computed reference rates", () => {
+    // ρ from the layer table, B = Cd × A/m = 0.022 m²/kg
+    expect(computeDailyDecayKm(300, F107_REFERENCE, 0.01, 2.2, 0)).toBeCloseTo(
+      7.077,
+      3,
+    );
+    expect(computeDailyDecayKm(400, F107_REFERENCE, 0.01, 2.2, 0)).toBeCloseTo(
+      2.765,
+      3,
+    );
+    expect(computeDailyDecayKm(600, F107_REFERENCE, 0.01, 2.2, 0)).toBeCloseTo(
+      0.525,
+      3,
+    );
+  });
+
+  it("scales linearly with the ballistic coefficient", () => {
+    const base = computeDailyDecayKm(500, F107_REFERENCE, 0.01, 2.2, 0);
+    expect(computeDailyDecayKm(500, F107_REFERENCE, 0.02, 2.2, 0)).toBeCloseTo(
+      2 * base,
+      10,
+    );
+  });
+});
+
 describe("getOrbitalDecayFactors", () => {
   it("returns 2 compliance factors", () => {
     const forecast = predictOrbitalDecay(
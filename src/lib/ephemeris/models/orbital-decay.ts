@@ -4,6 +4,7 @@ import type {
   OrbitalDecayForecast,
   ForecastPoint,
   Confidence,
+  ShortTermPropagation,
 } from "../core/types";
 import {
   ATMOSPHERIC_LAYERS,
@@ -23,18 +24,22 @@ import { COMPLIANCE_THRESHOLDS } from "@/lib/compliance/thresholds";
 /**
  * Semi-analytical atmospheric drag model for orbital decay prediction.
  *
- * NOT SGP4 — SGP4 is for short-term (<7 day) propagation.
- * This model uses exponential atmospheric density with solar flux scaling
- * for multi-year forecasting.
+ * NOT SGP4 — SGP4 is for short-term (7–30 day) propagation, see
+ * short-term-propagation.ts. This model uses exponential atmospheric density
+ * with solar flux scaling for multi-year forecasting. When an SGP4 track is
+ * supplied, the curve starts with the propagated daily altitudes and the
+ * drag model continues from the track's final osculating state.
  *
  * Physics:
  *   ρ(h) = ρ₀ × exp(-(h - h₀) / H)                       (exponential density)
  *   ρ_eff = ρ × (1 + scaling × (F10.7 - F10.7_ref))        (solar flux adjustment)
- *   da/dt = -2π × a² × ρ × (A/m) × Cd × v                 (semi-major axis decay rate)
+ *   da/dt = -ρ × (A/m) × Cd × sqrt(μ × a)                 (semi-major axis decay rate)
  */
 
 /**
  * Predict orbital decay for a satellite.
+ * With a short-term SGP4 propagation, decay starts from the propagated
+ * osculating state instead of the raw mean elements.
  */
 export function predictOrbitalDecay(
   elements: OrbitalElements,
@@ -42,27 +47,42 @@ export function predictOrbitalDecay(
   areaToMass: number = DEFAULT_AREA_TO_MASS,
   dragCoefficient: number = DEFAULT_DRAG_COEFFICIENT,
   kpIndex: number = 3,
+  shortTerm: ShortTermPropagation | null = null,
 ): OrbitalDecayForecast {
-  const altitudeKm = elements.altitudeKm;
+  const altitudeKm = shortTerm
+    ? shortTerm.initialState.meanAltitudeKm
+    : elements.altitudeKm;
 
   // High orbits (> 1000 km): negligible drag, very long lifetime
   if (altitudeKm > 1000) {
     return buildHighOrbitForecast(altitudeKm, elements);
   }
 
-  // Run decay simulation
-  const { altitudeCurve, reentryDayOffset, warningDayOffset } = simulateDecay(
-    altitudeKm,
-    f107,
-    areaToMass,
-    dragCoefficient,
-    kpIndex,
-  );
+  // Run decay simulation — after the SGP4 track when one is available
+  const seed = shortTerm ? seedFromShortTerm(shortTerm) : null;
+  const simulated = seed?.decayed
+    ? {
+        altitudeCurve: [],
+        reentryDayOffset: seed.startDay,
+        warningDayOffset: null,
+      }
+    : simulateDecay(
+        seed?.altitudeKm ?? altitudeKm,
+        f107,
+        areaToMass,
+        dragCoefficient,
+        kpIndex,
+        seed?.startDay ?? 0,
+      );
+  const altitudeCurve = [...(seed?.curve ?? []), ...simulated.altitudeCurve];
+  const { reentryDayOffset } = simulated;
+  const warningDayOffset = seed?.warningDayOffset ?? simulated.warningDayOffset;
 
   // Calculate estimated lifetime
-  const estimatedLifetimeYears = reentryDayOffset
-    ? reentryDayOffset / 365.25
-    : FORECAST_HORIZON_DAYS / 365.25;
+  const estimatedLifetimeYears =
+    reentryDayOffset !== null
+      ? reentryDayOffset / 365.25
+      : FORECAST_HORIZON_DAYS / 365.25;
 
   // Art. 68 status: 25-year orbital lifetime limit
   const art68Threshold = COMPLIANCE_THRESHOLDS.eu_space_act_art_68.threshold;
@@ -74,11 +94,20 @@ export function predictOrbitalDecay(
         : ("NON_COMPLIANT" as const);
 
   const now = new Date();
-  const reentryDate = reentryDayOffset
-    ? new Date(
-        now.getTime() + reentryDayOffset * 24 * 60 * 60 * 1000,
-      ).toISOString()
-    : null;
+  const reentryDate =
+    reentryDayOffset !== null
+      ? new Date(
+          now.getTime() + reentryDayOffset * 24 * 60 * 60 * 1000,
+        ).toISOString()
+      : null;
+
+  const warningCrossingDate = shortTerm?.warningCrossingDate
+    ? shortTerm.warningCrossingDate
+    : warningDayOffset !== null
+      ? new Date(
+          now.getTime() + warningDayOffset * 24 * 60 * 60 * 1000,
+        ).toISOString()
+      : null;
 
   return {
     currentAltitudeKm: altitudeKm,
@@ -88,6 +117,13 @@ export function predictOrbitalDecay(
     art68CrossingDate: null, // Art. 68 is about lifetime, not a crossing event
     reentryDate,
     confidence: getConfidence(elements, warningDayOffset),
+    warningCrossingDate,
+    warningCrossingSource: shortTerm?.warningCrossingDate
+      ? "sgp4"
+      : warningCrossingDate
+        ? "drag_model"
+        : null,
+    shortTermHorizonDays: seed?.startDay ?? 0,
   };
 }
 
@@ -105,13 +141,14 @@ export function getOrbitalDecayFactors(
       : null; // Compliant — no breach approaching from this direction
 
   // For orbit decay, daysToThreshold represents when the satellite will
-  // enter the danger zone (low altitude / reentry risk)
-  const daysToReentry = forecast.reentryDate
+  // enter the danger zone: the warning-altitude crossing (SGP4 track first,
+  // then drag model), falling back to reentry
+  const dangerDate = forecast.warningCrossingDate ?? forecast.reentryDate;
+  const daysToReentry = dangerDate
     ? Math.max(
         0,
         Math.floor(
-          (new Date(forecast.reentryDate).getTime() - Date.now()) /
-            (24 * 60 * 60 * 1000),
+          (new Date(dangerDate).getTime() - Date.now()) / (24 * 60 * 60 * 1000),
         ),
       )
     : null;
@@ -166,12 +203,56 @@ interface DecaySimulationResult {
   warningDayOffset: number | null;
 }
 
+interface ShortTermSeed {
+  /** Daily SGP4 points preceding the drag simulation */
+  curve: ForecastPoint[];
+  /** Day offset where the drag simulation starts */
+  startDay: number;
+  altitudeKm: number;
+  warningDayOffset: number | null;
+  /** SGP4 already reported the orbit as decayed */
+  decayed: boolean;
+}
+
+/**
+ * Turn an SGP4 track into the head of the altitude curve and the seed for
+ * the drag model (final osculating state, revolution-averaged).
+ */
+function seedFromShortTerm(shortTerm: ShortTermPropagation): ShortTermSeed {
+  const startMs = new Date(shortTerm.startDate).getTime();
+  const dayOffset = (iso: string) =>
+    Math.floor((new Date(iso).getTime() - startMs) / (24 * 60 * 60 * 1000));
+
+  // Drop the partial last day — the drag model takes over from there
+  const days = shortTerm.daily.slice(0, shortTerm.horizonDays);
+  const curve: ForecastPoint[] = days.map((d) => ({
+    date: d.date,
+    nominal: d.meanAltitudeKm,
+    bestCase: d.meanAltitudeKm,
+    worstCase: d.meanAltitudeKm,
+    isHistorical: false,
+  }));
+
+  return {
+    curve,
+    startDay: shortTerm.decayDate
+      ? dayOffset(shortTerm.decayDate)
+      : days.length,
+    altitudeKm: shortTerm.finalState.meanAltitudeKm,
+    warningDayOffset: shortTerm.warningCrossingDate
+      ? dayOffset(shortTerm.warningCrossingDate)
+      : null,
+    decayed: shortTerm.decayDate !== null,
+  };
+}
+
 function simulateDecay(
   startAltKm: number,
   f107: number,
   areaToMass: number,
   cd: number,
   kpIndex: number,
+  startDay: number = 0,
 ): DecaySimulationResult {
   const now = new Date();
   const altitudeCurve: ForecastPoint[] = [];
@@ -180,7 +261,7 @@ function simulateDecay(
   let warningDayOffset: number | null = null;
 
   for (
-    let day = 0;
+    let day = startDay;
     day <= FORECAST_HORIZON_DAYS;
     day += FORECAST_RESOLUTION_DAYS
   ) {
@@ -215,14 +296,15 @@ function simulateDecay(
     const pointDate = new Date(now.getTime() + day * 24 * 60 * 60 * 1000);
 
     // Best/worst case: ±20% uncertainty on decay rate
+    const elapsed = day - startDay;
     const bestAlt = Math.max(
       startAltKm -
-        computeCumulativeDecay(startAltKm, f107 * 0.8, areaToMass, cd, day),
+        computeCumulativeDecay(startAltKm, f107 * 0.8, areaToMass, cd, elapsed),
       DESTRUCTION_ALTITUDE_KM,
     );
     const worstAlt = Math.max(
       startAltKm -
-        computeCumulativeDecay(startAltKm, f107 * 1.3, areaToMass, cd, day),
+        computeCumulativeDecay(startAltKm, f107 * 1.3, areaToMass, cd, elapsed),
       DESTRUCTION_ALTITUDE_KM,
     );
 
@@ -242,8 +324,9 @@ function simulateDecay(
 
 /**
  * Compute daily altitude decay in km using exponential atmospheric model.
+ * Exported for the Monte Carlo forecast, which integrates it per sample.
  */
-function computeDailyDecayKm(
+export function computeDailyDecayKm(
   altKm: number,
   f107: number,
   areaToMass: number,
@@ -259,12 +342,10 @@ function computeDailyDecayKm(
   // Semi-major axis in meters
   const a = (EARTH_RADIUS_KM + altKm) * 1000;
 
-  // Orbital velocity: v = sqrt(μ/a)
-  const v = Math.sqrt(EARTH_MU / a);
-
-  // Semi-major axis decay rate: da/dt = -2π × a² × ρ × (A/m) × Cd × v
+  // Semi-major axis decay rate for a near-circular orbit:
+  // da/dt = -ρ × (A/m) × Cd × sqrt(μ × a)   (i.e. -2π a² ρ B per revolution)
   // Units: m/s → convert to km/day
-  const dadt = -2 * Math.PI * a * a * density * areaToMass * cd * v;
+  const dadt = -density * areaToMass * cd * Math.sqrt(EARTH_MU * a);
 
   // Convert m/s to km/day (×86400 / 1000)
   const decayKmPerDay = (Math.abs(dadt) * 86400) / 1000;
@@ -0,0 +1,134 @@
+/**
+ * Short-Term SGP4 Propagation Tests
+ *
+ * Runs the real satellite.js SGP4 implementation on synthetic GP records.
+ */
+
+import { describe, it, expect } from "vitest";
+import { propagateShortTerm } from "./short-term-propagation";
+import type { CelesTrakGPRecord } from "@/lib/satellites/types";
+import { WARNING_ALTITUDE_KM } from "../core/constants";
+
+const EPOCH = "2026-03-01T00:00:00.000000";
+const START = new Date("2026-03-01T00:00:00Z");
+
+function makeGP(overrides: Partial<CelesTrakGPRecord> = {}): CelesTrakGPRecord {
+  return {
+    OBJECT_NAME: "TESTSAT",
+    OBJECT_ID: "2020-001A",
+    NORAD_CAT_ID: 99001,
+    OBJECT_TYPE: "PAYLOAD",
+    COUNTRY_CODE: "EU",
+    LAUNCH_DATE: "2020-01-01",
+    DECAY_DATE: null,
+    EPOCH,
+    MEAN_MOTION: 15.5, // ~420 km
+    ECCENTRICITY: 0.0005,
+    INCLINATION: 51.6,
+    RA_OF_ASC_NODE: 120,
+    ARG_OF_PERICENTER: 90,
+    MEAN_ANOMALY: 270,
+    EPHEMERIS_TYPE: 0,
+    CLASSIFICATION_TYPE: "U",
+    ELEMENT_SET_NO: 999,
+    REV_AT_EPOCH: 1000,
+    BSTAR: 0.0001,
+    MEAN_MOTION_DOT: 0.0001,
+    MEAN_MOTION_DDOT: 0,
+    SEMIMAJOR_AXIS: 6796,
+    PERIOD: 92.9,
+    APOAPSIS: 422,
+    PERIAPSIS: 415,
+    RCS_SIZE: "LARGE",
+    ...overrides,
+  };
+}
+
+describe("propagateShortTerm", () => {
+  it("propagates a LEO orbit over the default 14-day horizon", () => {
+    const result = propagateShortTerm(makeGP(), { start: START })!;
+
+    expect(result).not.toBeNull();
+    expect(result.horizonDays).toBe(14);
+    expect(result.daily).toHaveLength(15); // days 0..14 (last is the end sample)
+    expect(result.track[0]!.date).toBe(START.toISOString());
+    for (const point of result.track) {
+      expect(point.altitudeKm).toBeGreaterThan(380);
+      expect(point.altitudeKm).toBeLessThan(460);
+      expect(point.perigeeAltitudeKm).toBeLessThanOrEqual(
+        point.apogeeAltitudeKm,
+      );
+    }
+  });
+
+  it("clamps the horizon to 7–30 days", () => {
+    expect(
+      propagateShortTerm(makeGP(), { start: START, horizonDays: 2 })!
+        .horizonDays,
+    ).toBe(7);
+    expect(
+      propagateShortTerm(makeGP(), {
+        start: START,
+        horizonDays: 90,
+        stepMinutes: 60,
+      })!.horizonDays,
+    ).toBe(30);
+  });
+
+  it("finds roughly one eclipse per revolution for a LEO orbit", () => {
+    const result = propagateShortTerm(makeGP(), {
+      start: START,
+      horizonDays: 7,
+    })!;
+    const revolutions = (7 * 24 * 60) / 92.9;
+
+    expect(result.eclipses.length).toBeGreaterThan(revolutions * 0.8);
+    expect(result.eclipses.length).toBeLessThanOrEqual(Math.ceil(revolutions));
+    for (const e of result.eclipses) {
+      expect(e.durationMinutes).toBeGreaterThan(0);
+      expect(e.durationMinutes).toBeLessThan(40);
+    }
+    for (const day of result.daily.slice(0, 7)) {
+      expect(day.eclipseFraction).toBeGreaterThan(0.2);
+      expect(day.eclipseFraction).toBeLessThan(0.5);
+    }
+  });
+
+  it("averages the osculating semi-major axis near the mean-element altitude", () => {
+    const result = propagateShortTerm(makeGP(), { start: START })!;
+
+    // Mean elements give ~420 km; the revolution-averaged osculating
+    // altitude stays within the J2 short-period amplitude of it.
+    expect(result.initialState.meanAltitudeKm).toBeGreaterThan(405);
+    expect(result.initialState.meanAltitudeKm).toBeLessThan(435);
+    // Drag lowers the orbit over two weeks
+    expect(result.finalState.meanAltitudeKm).toBeLessThan(
+      result.initialState.meanAltitudeKm,
+    );
+  });
+
+  it("reports when the propagated track drops below the warning altitude", () => {
+    const result = propagateShortTerm(
+      makeGP({ MEAN_MOTION: 16.2, BSTAR: 0.002, MEAN_MOTION_DOT: 0.01 }),
+      { start: START, horizonDays: 30 },
+    )!;
+
+    expect(result.warningCrossingDate).not.toBeNull();
+    const crossing = result.track.find(
+      (p) => p.date === result.warningCrossingDate,
+    )!;
+    expect(crossing.altitudeKm).toBeLessThan(WARNING_ALTITUDE_KM);
+  });
+
+  it("has no warning crossing for a stable orbit", () => {
+    const result = propagateShortTerm(makeGP(), { start: START })!;
+    expect(result.warningCrossingDate).toBeNull();
+    expect(result.decayDate).toBeNull();
+  });
+
+  it("returns null for an element set SGP4 cannot initialise", () => {
+    expect(
+      propagateShortTerm(makeGP({ ECCENTRICITY: 1.5 }), { start: START }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,326 @@
+import * as sat from "satellite.js";
+import type { CelesTrakGPRecord } from "@/lib/satellites/types";
+import type {
+  ShortTermPropagation,
+  ShortTermTrackPoint,
+  ShortTermDailySummary,
+  EclipseInterval,
+  OsculatingState,
+} from "../core/types";
+import {
+  EARTH_RADIUS_KM,
+  WARNING_ALTITUDE_KM,
+  SHORT_TERM_MIN_HORIZON_DAYS,
+  SHORT_TERM_MAX_HORIZON_DAYS,
+  SHORT_TERM_DEFAULT_HORIZON_DAYS,
+  SHORT_TERM_STEP_MINUTES,
+} from "../core/constants";
+
+/**
+ * Short-term SGP4 propagation of a CelesTrak GP element set.
+ *
+ * Propagates the latest TLE over 7–30 days and produces altitude, osculating
+ * perigee/apogee and eclipse tracks. The final osculating state seeds the
+ * long-term drag model in orbital-decay.ts, so decay forecasts start from
+ * the propagated orbit rather than the raw mean elements.
+ *
+ * Eclipses use a cylindrical Earth shadow with the low-precision solar
+ * ephemeris from satellite.js (TEME ≈ true-of-date; sufficient for minutes).
+ */
+
+const MU_KM3_S2 = 398600.4418; // km³/s²
+const SHADOW_RADIUS_KM = 6378.137; // Equatorial radius for the shadow cylinder
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+export interface ShortTermOptions {
+  /** Propagation start — defaults to now */
+  start?: Date;
+  /** Clamped to 7–30 days */
+  horizonDays?: number;
+  stepMinutes?: number;
+}
+
+interface Sample {
+  t: number; // ms since epoch
+  r: [number, number, number];
+  altitudeKm: number;
+  semiMajorAxisKm: number;
+  eccentricity: number;
+  shadow: number; // > 0 sunlit, ≤ 0 in umbra cylinder
+}
+
+/**
+ * Propagate a GP record with SGP4 over the short-term horizon.
+ * Returns null when the element set cannot be initialised.
+ */
+export function propagateShortTerm(
+  gp: CelesTrakGPRecord,
+  options: ShortTermOptions = {},
+): ShortTermPropagation | null {
+  const horizonDays = Math.min(
+    Math.max(
+      options.horizonDays ?? SHORT_TERM_DEFAULT_HORIZON_DAYS,
+      SHORT_TERM_MIN_HORIZON_DAYS,
+    ),
+    SHORT_TERM_MAX_HORIZON_DAYS,
+  );
+  const stepMinutes = options.stepMinutes ?? SHORT_TERM_STEP_MINUTES;
+  const start = options.start ?? new Date();
+
+  let satrec: sat.SatRec;
+  try {
+    satrec = sat.json2satrec(toOmm(gp));
+  } catch {
+    return null;
+  }
+  if (satrec.error !== sat.SatRecError.None) return null;
+
+  const samples: Sample[] = [];
+  let decayDate: string | null = null;
+  const endMs = start.getTime() + horizonDays * MS_PER_DAY;
+
+  for (let t = start.getTime(); t <= endMs; t += stepMinutes * MS_PER_MINUTE) {
+    const sample = propagateSample(satrec, t);
+    if (!sample) {
+      // propagate() mutates satrec.error, which TS narrowed above
+      if ((satrec.error as sat.SatRecError) === sat.SatRecError.Decayed) {
+        decayDate = new Date(t).toISOString();
+      }
+      break;
+    }
+    samples.push(sample);
+  }
+
+  if (samples.length === 0) return null;
+
+  const track: ShortTermTrackPoint[] = samples.map((s) => ({
+    date: new Date(s.t).toISOString(),
+    altitudeKm: round2(s.altitudeKm),
+    perigeeAltitudeKm: round2(
+      s.semiMajorAxisKm * (1 - s.eccentricity) - EARTH_RADIUS_KM,
+    ),
+    apogeeAltitudeKm: round2(
+      s.semiMajorAxisKm * (1 + s.eccentricity) - EARTH_RADIUS_KM,
+    ),
+    inEclipse: s.shadow <= 0,
+  }));
+
+  const crossing = samples.find((s) => s.altitudeKm < WARNING_ALTITUDE_KM);
+  const periodMs =
+    2 *
+    Math.PI *
+    Math.sqrt(cube(samples[0]!.semiMajorAxisKm) / MU_KM3_S2) *
+    1000;
+
+  return {
+    noradId: String(gp.NORAD_CAT_ID),
+    tleEpoch: gp.EPOCH,
+    startDate: start.toISOString(),
+    horizonDays,
+    stepMinutes,
+    track,
+    daily: summarizeDays(samples, start.getTime(), stepMinutes),
+    eclipses: findEclipses(samples),
+    initialState: osculatingState(samples, 0, periodMs),
+    finalState: osculatingState(samples, samples.length - 1, periodMs),
+    warningCrossingDate: crossing ? new Date(crossing.t).toISOString() : null,
+    decayDate,
+  };
+}
+
+// ─── Internal Helpers ────────────────────────────────────────────────────────
+
+/** The OMM mean elements SGP4 needs, taken field by field from a GP record */
+function toOmm(gp: CelesTrakGPRecord): sat.OMMJsonObject {
+  return {
+    OBJECT_NAME: gp.OBJECT_NAME,
+    OBJECT_ID: gp.OBJECT_ID,
+    NORAD_CAT_ID: gp.NORAD_CAT_ID,
+    EPOCH: gp.EPOCH,
+    MEAN_MOTION: gp.MEAN_MOTION,
+    ECCENTRICITY: gp.ECCENTRICITY,
+    INCLINATION: gp.INCLINATION,
+    RA_OF_ASC_NODE: gp.RA_OF_ASC_NODE,
+    ARG_OF_PERICENTER: gp.ARG_OF_PERICENTER,
+    MEAN_ANOMALY: gp.MEAN_ANOMALY,
+    ELEMENT_SET_NO: gp.ELEMENT_SET_NO,
+    REV_AT_EPOCH: gp.REV_AT_EPOCH,
+    BSTAR: gp.BSTAR,
+    MEAN_MOTION_DOT: gp.MEAN_MOTION_DOT,
+    MEAN_MOTION_DDOT: gp.MEAN_MOTION_DDOT,
+  };
+}
+
+function propagateSample(satrec: sat.SatRec, t: number): Sample | null {
+  const date = new Date(t);
+  const pv = sat.propagate(satrec, date);
+  if (!pv || satrec.error !== sat.SatRecError.None) return null;
+
+  const r: [number, number, number] = [
+    pv.position.x,
+    pv.position.y,
+    pv.position.z,
+  ];
+  const v: [number, number, number] = [
+    pv.velocity.x,
+    pv.velocity.y,
+    pv.velocity.z,
+  ];
+  const { semiMajorAxisKm, eccentricity } = osculatingElements(r, v);
+  const geodetic = sat.eciToGeodetic(pv.position, sat.gstime(date));
+
+  return {
+    t,
+    r,
+    altitudeKm: geodetic.height,
+    semiMajorAxisKm,
+    eccentricity,
+    shadow: shadowFunction(r, sat.sunPos(sat.jday(date)).rsun),
+  };
+}
+
+/** Semi-major axis and eccentricity from a Cartesian state (km, km/s) */
+function osculatingElements(
+  r: [number, number, number],
+  v: [number, number, number],
+): { semiMajorAxisKm: number; eccentricity: number } {
+  const rMag = Math.hypot(r[0], r[1], r[2]);
+  const v2 = v[0] * v[0] + v[1] * v[1] + v[2] * v[2];
+  const rv = r[0] * v[0] + r[1] * v[1] + r[2] * v[2];
+  const k = v2 - MU_KM3_S2 / rMag;
+  const e = [0, 1, 2].map((i) => (k * r[i]! - rv * v[i]!) / MU_KM3_S2);
+  return {
+    semiMajorAxisKm: 1 / (2 / rMag - v2 / MU_KM3_S2),
+    eccentricity: Math.hypot(e[0]!, e[1]!, e[2]!),
+  };
+}
+
+/**
+ * Continuous shadow function for the cylindrical model: distance from the
+ * shadow cylinder surface when behind the Earth, height above the surface
+ * otherwise. Non-positive means eclipsed.
+ */
+function shadowFunction(r: [number, number, number], sun: number[]): number {
+  const sMag = Math.hypot(sun[0]!, sun[1]!, sun[2]!);
+  const s = [sun[0]! / sMag, sun[1]! / sMag, sun[2]! / sMag];
+  const along = r[0] * s[0]! + r[1] * s[1]! + r[2] * s[2]!;
+  const rMag = Math.hypot(r[0], r[1], r[2]);
+  if (along >= 0) return rMag - SHADOW_RADIUS_KM;
+  const perp = Math.sqrt(Math.max(rMag * rMag - along * along, 0));
+  return perp - SHADOW_RADIUS_KM;
+}
+
+/** Eclipse intervals with entry/exit interpolated between samples */
+function findEclipses(samples: Sample[]): EclipseInterval[] {
+  const intervals: EclipseInterval[] = [];
+  let entry: number | null = samples[0]!.shadow <= 0 ? samples[0]!.t : null;
+
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1]!;
+    const b = samples[i]!;
+    if (a.shadow > 0 && b.shadow <= 0) {
+      entry = interpolateZero(a, b);
+    } else if (a.shadow <= 0 && b.shadow > 0 && entry !== null) {
+      const exit = interpolateZero(a, b);
+      intervals.push({
+        entry: new Date(entry).toISOString(),
+        exit: new Date(exit).toISOString(),
+        durationMinutes: round2((exit - entry) / MS_PER_MINUTE),
+      });
+      entry = null;
+    }
+  }
+  return intervals;
+}
+
+function interpolateZero(a: Sample, b: Sample): number {
+  const f = a.shadow / (a.shadow - b.shadow);
+  return a.t + f * (b.t - a.t);
+}
+
+function summarizeDays(
+  samples: Sample[],
+  startMs: number,
+  stepMinutes: number,
+): ShortTermDailySummary[] {
+  const byDay = new Map<number, Sample[]>();
+  for (const s of samples) {
+    const day = Math.floor((s.t - startMs) / MS_PER_DAY);
+    const bucket = byDay.get(day) ?? [];
+    bucket.push(s);
+    byDay.set(day, bucket);
+  }
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, bucket]) => {
+      const alts = bucket.map((s) => s.altitudeKm);
+      const eclipsed = bucket.filter((s) => s.shadow <= 0).length;
+      return {
+        date: new Date(startMs + day * MS_PER_DAY).toISOString(),
+        minAltitudeKm: round2(Math.min(...alts)),
+        maxAltitudeKm: round2(Math.max(...alts)),
+        meanAltitudeKm: round2(
+          mean(bucket.map((s) => s.semiMajorAxisKm)) - EARTH_RADIUS_KM,
+        ),
+        perigeeAltitudeKm: round2(
+          Math.min(
+            ...bucket.map(
+              (s) => s.semiMajorAxisKm * (1 - s.eccentricity) - EARTH_RADIUS_KM,
+            ),
+          ),
+        ),
+        apogeeAltitudeKm: round2(
+          Math.max(
+            ...bucket.map(
+              (s) => s.semiMajorAxisKm * (1 + s.eccentricity) - EARTH_RADIUS_KM,
+            ),
+          ),
+        ),
+        eclipseMinutes: eclipsed * stepMinutes,
+        eclipseFraction: round2(eclipsed / bucket.length),
+      };
+    });
+}
+
+/**
+ * Osculating state at one end of the track, with the semi-major axis also
+ * averaged over one revolution to strip short-period J2 oscillations.
+ */
+function osculatingState(
+  samples: Sample[],
+  index: number,
+  periodMs: number,
+): OsculatingState {
+  const at = samples[index]!;
+  // One-sided at the ends of the track: the revolution after / before
+  const revolution = samples.filter((s) => Math.abs(s.t - at.t) <= periodMs);
+
+  return {
+    date: new Date(at.t).toISOString(),
+    semiMajorAxisKm: round2(at.semiMajorAxisKm),
+    eccentricity: Math.round(at.eccentricity * 1e7) / 1e7,
+    perigeeAltitudeKm: round2(
+      at.semiMajorAxisKm * (1 - at.eccentricity) - EARTH_RADIUS_KM,
+    ),
+    apogeeAltitudeKm: round2(
+      at.semiMajorAxisKm * (1 + at.eccentricity) - EARTH_RADIUS_KM,
+    ),
+    meanAltitudeKm: round2(
+      mean(revolution.map((s) => s.semiMajorAxisKm)) - EARTH_RADIUS_KM,
+    ),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function cube(x: number): number {
+  return x * x * x;
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
@@ -6,6 +6,8 @@ const mockFindUniqueOrThrow = vi.fn();
 const mockOrgFindUniqueOrThrow = vi.fn();
 const mockDebrisFindFirst = vi.fn();
 const mockCyberFindFirst = vi.fn();
+const mockNIS2FindFirst = vi.fn();
+const mockCRAFindFirst = vi.fn();
 const mockSpacecraftFindMany = vi.fn();
 
 vi.mock("@/lib/prisma", () => ({
@@ -23,6 +25,12 @@ vi.mock("@/lib/prisma", () => ({
     cybersecurityAssessment: {
       findFirst: (...args: unknown[]) => mockCyberFindFirst(...args),
     },
+    nIS2Assessment: {
+      findFirst: (...args: unknown[]) => mockNIS2FindFirst(...args),
+    },
+    cRAAssessment: {
+      findFirst: (...args: unknown[]) => mockCRAFindFirst(...args),
+    },
     spacecraft: {
       findMany: (...args: unknown[]) => mockSpacecraftFindMany(...args),
     },
@@ -96,6 +104,9 @@ describe("collectGenerate2Data", () => {
       ],
     });
 
+    mockNIS2FindFirst.mockResolvedValue(null);
+    mockCRAFindFirst.mockResolvedValue(null);
+
     mockSpacecraftFindMany.mockResolvedValue([
       { name: "SAT-A", noradId: "55001", missionType: "EO" },
     ]);
@@ -149,6 +160,105 @@ describe("collectGenerate2Data", () => {
     });
   });
 
+  it("returns NIS2 assessment data and requirements", async () => {
+    mockNIS2FindFirst.mockResolvedValue({
+      id: "nis2-1",
+      assessmentName: "NIS2 scoping",
+      entityClassification: "essential",
+      classificationReason: "Large space operator",
+      sector: "space",
+      subSector: "ground_infrastructure",
+      organizationSize: "large",
+      employeeCount: 400,
+      memberStateCount: 3,
+      operatesGroundInfra: true,
+      operatesSatComms: false,
+      providesEOData: true,
+      existingCertifications: '["iso27001"]',
+      hasISO27001: true,
+      hasExistingCSIRT: false,
+      hasRiskManagement: true,
+      hasRegisteredWithAuthority: false,
+      supervisoryAuthority: "BSI",
+      complianceScore: 62,
+      maturityScore: 55,
+      riskLevel: "medium",
+      requirements: [
+        {
+          requirementId: "nis2-art21-2a",
+          status: "partial",
+          notes: null,
+          responses: null,
+        },
+      ],
+    });
+
+    const result = await collectGenerate2Data("user-123", "org-456");
+    expect(result.nis2!.assessment).toMatchObject({
+      id: "nis2-1",
+      entityClassification: "essential",
+      supervisoryAuthority: "BSI",
+      memberStateCount: 3,
+    });
+    expect(result.nis2!.requirements).toEqual([
+      {
+        requirementId: "nis2-art21-2a",
+        status: "partial",
+        notes: null,
+        responses: null,
+      },
+    ]);
+    expect(mockNIS2FindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: "user-123",
+          OR: [{ organizationId: "org-456" }, { organizationId: null }],
+        },
+      }),
+    );
+  });
+
+  it("returns CRA assessment data", async () => {
+    mockCRAFindFirst.mockResolvedValue({
+      id: "cra-1",
+      productName: "OBC-X",
+      productVersion: "2.1",
+      economicOperatorRole: "manufacturer",
+      productClassification: "class_I",
+      conformityRoute: "harmonised_standard",
+      isOutOfScope: false,
+      segments: '["space"]',
+      hasNetworkFunction: true,
+      processesAuthData: false,
+      performsCryptoOps: true,
+      isEUEstablished: true,
+      hasIEC62443: null,
+      hasETSIEN303645: null,
+      hasCommonCriteria: false,
+      hasISO27001: true,
+      complianceScore: 48,
+      maturityScore: null,
+      riskLevel: "high",
+      requirements: [],
+    });
+
+    const result = await collectGenerate2Data("user-123", "org-456");
+    expect(result.cra!.assessment).toMatchObject({
+      productName: "OBC-X",
+      productClassification: "class_I",
+      conformityRoute: "harmonised_standard",
+    });
+    expect(result.cra!.requirements).toEqual([]);
+  });
+
+  it("returns null NIS2 and CRA when their queries reject", async () => {
+    mockNIS2FindFirst.mockRejectedValue(new Error("DB timeout"));
+    mockCRAFindFirst.mockRejectedValue(new Error("DB timeout"));
+    const result = await collectGenerate2Data("user-123", "org-456");
+    expect(result.nis2).toBeNull();
+    expect(result.cra).toBeNull();
+  });
+
   it("returns spacecraft data", async () => {
     const result = await collectGenerate2Data("user-123", "org-456");
     expect(result.spacecraft).toHaveLength(1);
@@ -3,11 +3,11 @@
  *
  * Gathers assessment data from Prisma for NCA document generation.
  * Reuses patterns from src/lib/astra/document-generator/data-collector.ts
- * but collects both debris AND cybersecurity data in a single bundle.
+ * but collects debris, cybersecurity, NIS2 and CRA data in a single bundle.
  *
  * H-6: All assessment queries are scoped by both userId AND organizationId
- * to prevent cross-tenant data leakage. Both DebrisAssessment and
- * CybersecurityAssessment have an optional organizationId field.
+ * to prevent cross-tenant data leakage. All four assessment models have an
+ * optional organizationId field.
  */
 
 import "server-only";
@@ -18,67 +18,114 @@ export async function collectGenerate2Data(
   userId: string,
   organizationId: string,
 ): Promise<Generate2DataBundle> {
-  const [user, org, debrisAssessment, cyberAssessment, spacecraft] =
-    await Promise.all([
-      prisma.user.findUniqueOrThrow({
-        where: { id: userId },
-        select: {
-          id: true,
-          operatorType: true,
-          establishmentCountry: true,
+  const [
+    user,
+    org,
+    debrisAssessment,
+    cyberAssessment,
+    nis2Assessment,
+    craAssessment,
+    spacecraft,
+  ] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        operatorType: true,
+        establishmentCountry: true,
+      },
+    }),
+    prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { name: true },
+    }),
+    // H-6: Scope debris assessment query by organizationId to prevent cross-tenant access.
+    // Uses OR to also match assessments where organizationId was not yet set (legacy data).
+    prisma.debrisAssessment
+      .findFirst({
+        where: {
+          userId,
+          OR: [{ organizationId }, { organizationId: null }],
         },
-      }),
-      prisma.organization.findUniqueOrThrow({
-        where: { id: organizationId },
-        select: { name: true },
-      }),
-      // H-6: Scope debris assessment query by organizationId to prevent cross-tenant access.
-      // Uses OR to also match assessments where organizationId was not yet set (legacy data).
-      prisma.debrisAssessment
-        .findFirst({
-          where: {
-            userId,
-            OR: [{ organizationId }, { organizationId: null }],
+        orderBy: { updatedAt: "desc" },
+        include: {
+          requirements: {
+            select: {
+              requirementId: true,
+              status: true,
+              notes: true,
+              responses: true,
+            },
           },
-          orderBy: { updatedAt: "desc" },
-          include: {
-            requirements: {
-              select: {
-                requirementId: true,
-                status: true,
-                notes: true,
-                responses: true,
-              },
+        },
+      })
+      .catch(() => null),
+    // H-6: Scope cybersecurity assessment query by organizationId
+    prisma.cybersecurityAssessment
+      .findFirst({
+        where: {
+          userId,
+          OR: [{ organizationId }, { organizationId: null }],
+        },
+        orderBy: { updatedAt: "desc" },
+        include: {
+          requirements: {
+            select: {
+              requirementId: true,
+              status: true,
+              notes: true,
+              responses: true,
             },
           },
-        })
-        .catch(() => null),
-      // H-6: Scope cybersecurity assessment query by organizationId
-      prisma.cybersecurityAssessment
-        .findFirst({
-          where: {
-            userId,
-            OR: [{ organizationId }, { organizationId: null }],
+        },
+      })
+      .catch(() => null),
+    // H-6: Scope NIS2 assessment query by organizationId
+    prisma.nIS2Assessment
+      .findFirst({
+        where: {
+          userId,
+          OR: [{ organizationId }, { organizationId: null }],
+        },
+        orderBy: { updatedAt: "desc" },
+        include: {
+          requirements: {
+            select: {
+              requirementId: true,
+              status: true,
+              notes: true,
+              responses: true,
+            },
           },
-          orderBy: { updatedAt: "desc" },
-          include: {
-            requirements: {
-              select: {
-                requirementId: true,
-                status: true,
-                notes: true,
-                responses: true,
-              },
+        },
+      })
+      .catch(() => null),
+    // H-6: Scope CRA assessment query by organizationId
+    prisma.cRAAssessment
+      .findFirst({
+        where: {
+          userId,
+          OR: [{ organizationId }, { organizationId: null }],
+        },
+        orderBy: { updatedAt: "desc" },
+        include: {
+          requirements: {
+            select: {
+              requirementId: true,
+              status: true,
+              notes: true,
+              responses: true,
             },
           },
-        })
-        .catch(() => null),
-      prisma.spacecraft.findMany({
-        where: { organizationId },
-        select: { name: true, noradId: true, missionType: true },
-        take: 20,
-      }),
-    ]);
+        },
+      })
+      .catch(() => null),
+    prisma.spacecraft.findMany({
+      where: { organizationId },
+      select: { name: true, noradId: true, missionType: true },
+      take: 20,
+    }),
+  ]);
 
   return {
     operator: {
@@ -140,6 +187,71 @@ export async function collectGenerate2Data(
           })),
         }
       : null,
+    nis2: nis2Assessment
+      ? {
+          assessment: {
+            id: nis2Assessment.id,
+            assessmentName: nis2Assessment.assessmentName,
+            entityClassification: nis2Assessment.entityClassification,
+            classificationReason: nis2Assessment.classificationReason,
+            sector: nis2Assessment.sector,
+            subSector: nis2Assessment.subSector,
+            organizationSize: nis2Assessment.organizationSize,
+            employeeCount: nis2Assessment.employeeCount,
+            memberStateCount: nis2Assessment.memberStateCount,
+            operatesGroundInfra: nis2Assessment.operatesGroundInfra,
+            operatesSatComms: nis2Assessment.operatesSatComms,
+            providesEOData: nis2Assessment.providesEOData,
+            existingCertifications: nis2Assessment.existingCertifications,
+            hasISO27001: nis2Assessment.hasISO27001,
+            hasExistingCSIRT: nis2Assessment.hasExistingCSIRT,
+            hasRiskManagement: nis2Assessment.hasRiskManagement,
+            hasRegisteredWithAuthority:
+              nis2Assessment.hasRegisteredWithAuthority,
+            supervisoryAuthority: nis2Assessment.supervisoryAuthority,
+            complianceScore: nis2Assessment.complianceScore,
+            maturityScore: nis2Assessment.maturityScore,
+            riskLevel: nis2Assessment.riskLevel,
+          },
+          requirements: nis2Assessment.requirements.map((r) => ({
+            requirementId: r.requirementId,
+            status: r.status,
+            notes: r.notes,
+            responses: (r.responses as Record<string, unknown>) || null,
+          })),
+        }
+      : null,
+    cra: craAssessment
+      ? {
+          assessment: {
+            id: craAssessment.id,
+            productName: craAssessment.productName,
+            productVersion: craAssessment.productVersion,
+            economicOperatorRole: craAssessment.economicOperatorRole,
+            productClassification: craAssessment.productClassification,
+            conformityRoute: craAssessment.conformityRoute,
+            isOutOfScope: craAssessment.isOutOfScope,
+            segments: craAssessment.segments,
+            hasNetworkFunction: craAssessment.hasNetworkFunction,
+            processesAuthData: craAssessment.processesAuthData,
+            performsCryptoOps: craAssessment.performsCryptoOps,
+            isEUEstablished: craAssessment.isEUEstablished,
+            hasIEC62443: craAssessment.hasIEC62443,
+            hasETSIEN303645: craAssessment.hasETSIEN303645,
+            hasCommonCriteria: craAssessment.hasCommonCriteria,
+            hasISO27001: craAssessment.hasISO27001,
+            complianceScore: craAssessment.complianceScore,
+            maturityScore: craAssessment.maturityScore,
+            riskLevel: craAssessment.riskLevel,
+          },
+          requirements: craAssessment.requirements.map((r) => ({
+            requirementId: r.requirementId,
+            status: r.status,
+            notes: r.notes,
+            responses: (r.responses as Record<string, unknown>) || null,
+          })),
+        }
+      : null,
     spacecraft: spacecraft.map((s) => ({
       name: s.name,
       noradId: s.noradId,
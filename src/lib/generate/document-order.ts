@@ -172,6 +172,33 @@ export const DOCUMENT_DEPENDENCIES: DocumentDependency[] = [
     relationship: "C3 liability exposure depends on orbital characteristics",
     dataPassed: "orbit regime, lifetime",
   },
+  // ── NIS2 Chain ──
+  {
+    document: "NIS2_RISK_POLICY",
+    dependsOn: "CYBER_RISK_ASSESSMENT",
+    relationship: "E1 Art. 21(2)(a) risk analysis builds on B2",
+    dataPassed: "risk methodology, top risks, treatment status",
+  },
+  {
+    document: "NIS2_INCIDENT_NOTIFICATION",
+    dependsOn: "NIS2_RISK_POLICY",
+    relationship: "E2 implements the E1 incident handling measure",
+    dataPassed: "entity classification, reporting roles",
+  },
+  {
+    document: "NIS2_INCIDENT_NOTIFICATION",
+    dependsOn: "INCIDENT_RESPONSE",
+    relationship: "E2 hooks Art. 23 reporting into the B3 escalation chain",
+    dataPassed: "severity levels, escalation matrix",
+  },
+
+  // ── CRA Chain ──
+  {
+    document: "CRA_DECLARATION_OF_CONFORMITY",
+    dependsOn: "CRA_TECHNICAL_DOCUMENTATION",
+    relationship: "F2 declares conformity on the basis of F1",
+    dataPassed: "product identification, standards applied, procedure",
+  },
 ];
 
 /**
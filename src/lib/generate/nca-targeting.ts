@@ -12,6 +12,18 @@ import type {
 } from "./reasoning-types";
 import type { NCAProfile, DocumentCategory } from "@/data/nca-profiles";
 import { NCA_DOC_TYPE_MAP } from "./types";
+import type { DocumentCategory as GenerateDocumentCategory } from "./types";
+
+/**
+ * NCA profiles rate scrutiny for the four EU Space Act categories only.
+ * NIS2 and CRA deliverables are reviewed by the same cyber desk, so they
+ * inherit the cybersecurity rigor.
+ */
+function toProfileCategory(
+  category: GenerateDocumentCategory,
+): DocumentCategory {
+  return category === "nis2" || category === "cra" ? "cybersecurity" : category;
+}
 
 /**
  * Apply NCA-specific targeting to a reasoning plan.
@@ -22,7 +34,7 @@ export function applyNCATargeting(
   nca: NCAProfile,
 ): ReasoningPlan {
   const meta = NCA_DOC_TYPE_MAP[plan.documentType];
-  const category = meta?.category as DocumentCategory | undefined;
+  const category = meta ? toProfileCategory(meta.category) : undefined;
   const categoryRigor = category ? nca.rigor[category] : 3;
   const guidance = nca.documentGuidance[plan.documentType];
 
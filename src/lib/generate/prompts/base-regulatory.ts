@@ -255,5 +255,11 @@ NCA submission packages are interconnected. The complete package consists of 16
 - The Access Control Policy (B5) implements NIS2 Art. 21(2)(i)-(j) and Art. 79 measures — implements B1 policy and B2 risk treatments
 - The Supply Chain Security Plan (B6) addresses NIS2 Art. 21(2)(d) and Art. 78(2) — references B2 supply chain risk assessment
 - The EUSRN Notification Procedures (B7) implements proposed Art. 93-95 — extends B3 notification chain
-- The Compliance Verification Matrix (B8) consolidates all cybersecurity compliance — maps NIS2/ISO 27001/Art. 74-95 requirements across all B-series documents`;
+- The Compliance Verification Matrix (B8) consolidates all cybersecurity compliance — maps NIS2/ISO 27001/Art. 74-95 requirements across all B-series documents
+
+**NIS2 and CRA Documents (outside the NCA authorization package):**
+- The NIS2 Risk-Management Policy (E1) is addressed to the NIS2 competent authority (per NIS2 Art. 20-21) — builds on B2 risk findings
+- The NIS2 Incident Notification Pack (E2) holds the Art. 23 reporting forms (24h/72h/1mo) — implements E1 incident handling and plugs into the B3 escalation chain
+- The CRA Technical Documentation (F1) is kept for market surveillance authorities (per CRA Art. 31, Annex VII) — one per product with digital elements
+- The CRA EU Declaration of Conformity (F2) is drawn up on the basis of F1 (per CRA Art. 28, Annex V)`;
 }
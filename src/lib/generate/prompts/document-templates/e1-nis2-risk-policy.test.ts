@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { getNIS2RiskPolicyTemplate } from "./e1-nis2-risk-policy";
+
+describe("getNIS2RiskPolicyTemplate", () => {
+  it("returns a non-empty string", () => {
+    const result = getNIS2RiskPolicyTemplate();
+    expect(typeof result).toBe("string");
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it("contains the document code E1-NIS2-RMP", () => {
+    expect(getNIS2RiskPolicyTemplate()).toContain("E1-NIS2-RMP");
+  });
+
+  it("covers every Art. 21(2) measure from (a) to (j)", () => {
+    const result = getNIS2RiskPolicyTemplate();
+    for (const letter of "abcdefghij") {
+      expect(result).toContain(`Art. 21(2)(${letter})`);
+    }
+  });
+
+  it("addresses management body accountability under Art. 20", () => {
+    const result = getNIS2RiskPolicyTemplate();
+    expect(result).toContain("Art. 20(1)");
+    expect(result).toContain("Art. 20(2)");
+  });
+
+  it("contains SECTION markers for all 10 sections", () => {
+    const result = getNIS2RiskPolicyTemplate();
+    expect(result.match(/## SECTION:/g)).toHaveLength(10);
+    expect(result).toContain("## SECTION: Entity Classification & Scope");
+    expect(result).toContain("## SECTION: Compliance Matrix (Art. 21)");
+  });
+});
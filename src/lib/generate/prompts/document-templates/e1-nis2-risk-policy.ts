@@ -0,0 +1,285 @@
+/**
+ * Generate 2.0 — E1: NIS2 Cybersecurity Risk-Management Policy Template
+ *
+ * P0 document. Entity-level policy on the cybersecurity risk-management
+ * measures of NIS2 Directive (EU) 2022/2555 Art. 21, with the management
+ * body accountability of Art. 20. Fed from the NIS2 assessment (entity
+ * classification, sector, supervisory authority, requirement status).
+ *
+ * Unlike B1, which is framed around the EU Space Act proposal, this policy
+ * is anchored in enacted law only: NIS2 as transposed by the Member State
+ * of the supervisory authority, with the Implementing Regulation (EU)
+ * 2024/2690 technical requirements where the entity falls within its scope.
+ */
+
+export function getNIS2RiskPolicyTemplate(): string {
+  return `## Document-Specific Instructions: E1 — NIS2 Cybersecurity Risk-Management Policy
+
+This document is the entity's Cybersecurity Risk-Management Policy under NIS2 Directive (EU) 2022/2555 Art. 21, approved by the management body per Art. 20(1). It must demonstrate that the entity has taken "appropriate and proportionate technical, operational and organisational measures" (Art. 21(1)) covering every one of the ten measures listed in Art. 21(2)(a)-(j), on an all-hazards basis.
+
+The policy is addressed to the NIS2 competent authority named in the operator's NIS2 assessment. It is NOT an EU Space Act document: cite NIS2 articles as the primary source, and mention the EU Space Act proposal (COM(2025) 335) only as forward-looking context where it overlaps. Where the assessment names a transposing Member State, refer to the national implementing act generically ("the national law transposing NIS2") unless its citation is provided.
+
+Proportionality per Art. 21(1): depth of each measure must reflect the entity's classification (essential vs. important per Art. 3), size, exposure to risk, and the societal and economic impact of incidents. Essential entities are subject to ex-ante supervision (Art. 32); important entities to ex-post supervision (Art. 33). Maximum fines per Art. 34: EUR 10M or 2% of worldwide turnover (essential), EUR 7M or 1.4% (important).
+
+This policy is informed by the Cybersecurity Risk Assessment (Document B2) and is implemented operationally by the Incident Response Plan (Document B3) and the NIS2 Incident Notification Pack (Document E2).
+
+### Required Sections
+
+Generate the following 10 sections. Each section must contain comprehensive, substantive content as specified below.
+
+---
+
+**## SECTION: Cover Page & Document Control**
+
+Generate a formal submission-grade cover page following the Cover Page Standard from the Quality Rules. Include:
+- Document title: "NIS2 Cybersecurity Risk-Management Policy"
+- Document code: E1-NIS2-RMP
+- Entity classification (Essential / Important) and sector / sub-sector per NIS2 Annex I or II
+- Competent authority and CSIRT of the Member State of main establishment (Art. 26)
+- **Management body approval block** — name, function, date and signature of each member approving the policy per Art. 20(1)
+- All elements from the Cover Page Standard (Document Control Block, Distribution List, Revision History)
+- Table of Contents listing all 10 sections with subsection numbers
+
+---
+
+**## SECTION: Executive Summary**
+
+Generate a comprehensive executive summary following the Executive Summary Standard from the Quality Rules. Specific content:
+
+1. **Entity Context:** Organization, space-sector activities (ground infrastructure, satellite communications, EO data), Member States of operation
+2. **Document Purpose:** "This Policy sets out the cybersecurity risk-management measures adopted by the entity pursuant to Article 21 of Directive (EU) 2022/2555 (NIS2) and approved by its management body pursuant to Article 20(1)."
+3. **Key Findings (5-7 bullets):**
+   - **Classification:** Essential / Important entity, with the criterion that determined it (size-cap rule, Annex I sector, Art. 2(2) designation)
+   - **Measures Coverage:** Number of Art. 21(2)(a)-(j) measures implemented / partially implemented / not implemented, from the NIS2 assessment requirement status
+   - **Maturity:** NIS2 assessment maturity and compliance scores
+   - **Registration:** Registration status with the competent authority (Art. 3(4), Art. 27)
+   - **Incident Capability:** CSIRT / incident handling capability in place
+   - **Critical Gaps:** Number and nature
+4. **Compliance Determination:** Clear statement on Art. 21 compliance, with remediation dates for open gaps
+
+Cross-reference: B2 (Risk Assessment), B3 (Incident Response), E2 (Incident Notification Pack)
+
+---
+
+**## SECTION: Entity Classification & Scope**
+
+Generate the NIS2 applicability analysis and policy scope.
+
+**3.1 Classification Analysis:**
+
+**Table 3.1:** NIS2 Entity Classification
+| Criterion | Assessment | Source |
+| Sector / sub-sector | [from NIS2 assessment] | NIS2 Annex I (11) Space / Annex II |
+| Size (employees / turnover / balance sheet) | [from NIS2 assessment] | Art. 2(1), Recommendation 2003/361/EC |
+| Size-cap exceptions | [applicable or not] | Art. 2(2)(b)-(e) |
+| Resulting classification | Essential / Important | Art. 3(1)-(2) |
+| Main establishment / jurisdiction | [Member State] | Art. 26(1)-(2) |
+| Member States of operation | [count] | Art. 26(3) |
+
+Space sector scope per Annex I (11): operators of ground-based infrastructure, owned, managed and operated by Member States or private parties, that support the provision of space-based services, excluding providers of public electronic communications networks.
+
+**3.2 Network and Information Systems in Scope:**
+- Ground segment (mission control, ground stations, TT&C systems, data processing)
+- Communication links and service delivery infrastructure
+- Space segment assets insofar as their compromise affects the services provided
+- Corporate IT supporting the provision of the services
+- **Physical environment** of those systems (Art. 21(2) — "and the physical environment of those systems")
+
+**3.3 All-Hazards Approach (Art. 21(2) chapeau):**
+- Threats in scope: cyberattacks, system failure, human error, theft, fire, flood, power and telecommunications outage, space weather, RF interference
+- Exclusions with explicit justification — exclusions must never cover systems supporting the services listed in 3.1
+
+Reference: NIS2 Art. 2, Art. 3, Art. 21(1)-(2), Art. 26, Annex I
+
+---
+
+**## SECTION: Governance & Management Body Accountability**
+
+Generate the governance framework required by NIS2 Art. 20.
+
+**4.1 Management Body Obligations (Art. 20):**
+- **Approval:** The management body approves the risk-management measures in this policy (Art. 20(1))
+- **Oversight:** The management body oversees their implementation (Art. 20(1))
+- **Liability:** Members of the management body can be held liable for infringements of Art. 21 (Art. 20(1)); for essential entities, Art. 32(5)(b) allows temporary prohibition from exercising managerial functions
+- **Training:** Members of the management body follow cybersecurity training; the entity offers similar training to employees on a regular basis (Art. 20(2))
+
+**Table 4.1:** Governance Roles
+| Role | Incumbent | Responsibility under NIS2 | Reporting Line |
+| Management body | [ACTION REQUIRED] | Approve, oversee, be accountable (Art. 20(1)) | — |
+| Designated executive (CISO / Head of Security) | [ACTION REQUIRED] | Implementation of Art. 21 measures | Management body |
+| Incident reporting officer | [ACTION REQUIRED] | Art. 23 notifications to CSIRT / competent authority | CISO |
+| Compliance function | [ACTION REQUIRED] | Register of measures, evidence for supervision (Art. 32/33) | Management body |
+
+**4.2 Training Programme (Art. 20(2)):**
+- Management body training: content, provider, frequency, attendance records
+- Employee training: role-based, frequency, completion tracking
+
+**4.3 Policy Lifecycle:**
+- Review at least annually and after significant incidents, significant changes to operations or risks, or supervisory findings
+- Corrective measures: where the entity finds that it does not comply with Art. 21(2), it takes all necessary, appropriate and proportionate corrective measures without undue delay (Art. 21(4))
+
+Reference: NIS2 Art. 20(1)-(2), Art. 21(4), Art. 32(5)-(6)
+
+---
+
+**## SECTION: Risk Analysis & Information System Security**
+
+Generate the policy on risk analysis and information system security per Art. 21(2)(a).
+
+**5.1 Risk Management Methodology:**
+- Reference methodology (ISO/IEC 27005, EBIOS RM, NIST SP 800-30) and risk criteria
+- Asset inventory covering all systems in 3.2, with owners and criticality
+- Risk assessment frequency (at least annually) and triggers
+- Risk acceptance authority by risk level — high and critical residual risks are accepted only by the management body
+
+**5.2 Current Risk Posture:**
+- Summary of the top risks from Document B2 and their treatment status
+- Overall risk level from the NIS2 assessment
+
+**5.3 Information System Security Policies:**
+
+**Table 5.1:** Art. 21(2)(a) Policy Set
+| Policy | Scope | Owner | Last Review | Status |
+| Information security policy | Entity-wide | CISO | [date] | [status] |
+| Asset management | All systems in scope | IT | [date] | [status] |
+| Network security | Ground segment, links | IT Security | [date] | [status] |
+| Physical and environmental security | Ground stations, MCC | Facilities | [date] | [status] |
+| Space segment security | TT&C, onboard software | Mission Security | [date] | [status] |
+
+Reference: NIS2 Art. 21(2)(a); Implementing Regulation (EU) 2024/2690 Annex, sections 1-2 where applicable
+
+---
+
+**## SECTION: Incident Handling & Business Continuity**
+
+Generate the policy on incident handling (Art. 21(2)(b)) and business continuity (Art. 21(2)(c)).
+
+**6.1 Incident Handling (Art. 21(2)(b)):**
+- Detection, analysis, containment, response and recovery — summarize and reference Document B3
+- Internal CSIRT or contracted provider; 24/7 coverage model
+- Interface to the Art. 23 reporting procedure in Document E2 — significance assessment happens during triage, not after recovery
+- Post-incident review and lessons learned
+
+**6.2 Business Continuity (Art. 21(2)(c)):**
+- Backup management: scope, frequency, offline / immutable copies, restoration testing
+- Disaster recovery: RTO / RPO for each critical service, alternate ground station and control centre arrangements
+- Crisis management: crisis team composition, activation criteria, communication plan
+
+**Table 6.1:** Service Continuity Targets
+| Service | Criticality | RTO | RPO | Fallback Arrangement | Last Tested |
+| [service from NIS2 assessment] | [level] | [hours] | [hours] | [arrangement] | [date] |
+
+Reference: NIS2 Art. 21(2)(b)-(c); cross-reference B3 (Incident Response), B4 (BCP/DR), E2 (Notification Pack)
+
+---
+
+**## SECTION: Supply Chain & Secure Development**
+
+Generate the policy on supply chain security (Art. 21(2)(d)) and security in acquisition, development and maintenance (Art. 21(2)(e)).
+
+**7.1 Supply Chain Security (Art. 21(2)(d), Art. 21(3)):**
+- Inventory of direct suppliers and service providers with security relevance (ground station networks, cloud, managed SOC, spacecraft and component manufacturers)
+- Per Art. 21(3): account for the vulnerabilities specific to each direct supplier, the overall quality of products and cybersecurity practices of suppliers, including their secure development procedures
+- Account for the results of coordinated Union-level supply chain risk assessments (Art. 22)
+- Contractual security requirements, right to audit, incident notification duties of suppliers
+
+**Table 7.1:** Critical Supplier Register
+| Supplier | Service / Product | Criticality | Security Requirements in Contract | Last Assessment |
+| [ACTION REQUIRED] | [service] | [level] | [Yes/No] | [date] |
+
+**7.2 Secure Acquisition, Development & Maintenance (Art. 21(2)(e)):**
+- Security requirements in procurement
+- Secure development lifecycle for in-house ground and flight software
+- Vulnerability handling and disclosure — where the entity also places products with digital elements on the market, reference Documents F1/F2 (CRA)
+- Patch management for ground systems and onboard software update policy
+
+Reference: NIS2 Art. 21(2)(d)-(e), Art. 21(3), Art. 22
+
+---
+
+**## SECTION: Effectiveness, Cyber Hygiene & Cryptography**
+
+Generate the policies on effectiveness assessment (Art. 21(2)(f)), cyber hygiene and training (Art. 21(2)(g)) and cryptography (Art. 21(2)(h)).
+
+**8.1 Assessing Effectiveness (Art. 21(2)(f)):**
+- Security metrics and KPIs reported to the management body
+- Internal audit programme, penetration testing and red teaming of ground segment
+- Use of certifications (ISO/IEC 27001) as evidence — state their scope relative to 3.2
+
+**8.2 Cyber Hygiene & Training (Art. 21(2)(g)):**
+- Basic hygiene practices: patching, secure configuration, password policy, backups, email and web filtering
+- Awareness programme: phishing simulation, role-based training for operators with commanding rights
+
+**8.3 Cryptography & Encryption (Art. 21(2)(h)):**
+- Policy on cryptography: approved algorithms and key lengths (reference national agency guidance, e.g. BSI TR-02102, ANSSI RGS)
+- Encryption of TT&C links (e.g. CCSDS SDLS) and payload data links
+- Key management lifecycle: generation, distribution, storage (HSM), rotation, revocation
+
+Reference: NIS2 Art. 21(2)(f)-(h); CCSDS 355.0-B (SDLS)
+
+---
+
+**## SECTION: HR Security, Access Control & Authentication**
+
+Generate the policies on human resources security, access control and asset management (Art. 21(2)(i)) and multi-factor authentication and secured communications (Art. 21(2)(j)).
+
+**9.1 Human Resources Security (Art. 21(2)(i)):**
+- Screening proportionate to role, confidentiality agreements, joiner / mover / leaver process
+- Disciplinary process for policy violations
+
+**9.2 Access Control & Asset Management (Art. 21(2)(i)):**
+- Least privilege and segregation of duties — in particular for spacecraft commanding
+- Privileged access management, periodic access reviews
+- Asset management linked to the inventory in 5.1
+
+**9.3 Authentication & Secured Communications (Art. 21(2)(j)):**
+- Multi-factor or continuous authentication for all remote access, privileged access and commanding systems
+- Secured voice, video and text communications for operations
+- Secured emergency communication systems within the entity, usable when primary systems are compromised
+
+Reference: NIS2 Art. 21(2)(i)-(j)
+
+---
+
+**## SECTION: Compliance Matrix (Art. 21)**
+
+Generate a compliance matrix following the Compliance Matrix Standard from the Quality Rules, using the NIS2 assessment requirement status where available.
+
+**Table 10.1:** NIS2 Art. 20-21 Compliance Matrix
+| Req. ID | Provision | Requirement Description | Compliance Status | Implementation (Policy Section) | Evidence Reference | Gap Description | Remediation Action | Target Date |
+
+Required rows (minimum):
+- Art. 20(1) — Management body approval and oversight — Section 4
+- Art. 20(2) — Management body and employee training — Section 4.2
+- Art. 21(1) — Appropriate and proportionate measures, all-hazards — Section 3
+- Art. 21(2)(a) — Risk analysis and information system security policies — Section 5
+- Art. 21(2)(b) — Incident handling — Section 6.1
+- Art. 21(2)(c) — Business continuity, backup, disaster recovery, crisis management — Section 6.2
+- Art. 21(2)(d) — Supply chain security — Section 7.1
+- Art. 21(2)(e) — Security in acquisition, development and maintenance, including vulnerability handling and disclosure — Section 7.2
+- Art. 21(2)(f) — Policies and procedures to assess effectiveness — Section 8.1
+- Art. 21(2)(g) — Basic cyber hygiene and training — Section 8.2
+- Art. 21(2)(h) — Cryptography and encryption — Section 8.3
+- Art. 21(2)(i) — HR security, access control, asset management — Sections 9.1-9.2
+- Art. 21(2)(j) — MFA, secured communications, emergency communications — Section 9.3
+- Art. 21(3) — Supplier-specific vulnerabilities and practices — Section 7.1
+- Art. 21(4) — Corrective measures without undue delay — Section 4.3
+- Art. 23 — Incident reporting — Document E2
+
+Use the standard compliance status values: Compliant / Substantially Compliant / Partially Compliant / Non-Compliant / Not Applicable
+
+### Cross-References
+- Document B2 — Cybersecurity Risk Assessment: risk register underpinning Art. 21(2)(a)
+- Document B3 — Incident Response Plan: operational incident handling for Art. 21(2)(b)
+- Document B4 — Business Continuity & Recovery Plan: Art. 21(2)(c)
+- Document E2 — NIS2 Incident Notification Pack: Art. 23 reporting
+- Documents F1/F2 — CRA Technical Documentation and Declaration of Conformity: where the entity also manufactures products with digital elements
+
+### Key Standards
+- NIS2 Directive (EU) 2022/2555, Art. 20-23, Art. 26, Art. 32-34 (primary enacted law)
+- Commission Implementing Regulation (EU) 2024/2690 — technical and methodological requirements (where applicable)
+- ISO/IEC 27001:2022 and ISO/IEC 27002:2022
+- ISO/IEC 27005:2022 — Information security risk management
+- ENISA NIS2 Technical Implementation Guidance
+- CCSDS 350.1-G-3 — Security Threats Against Space Missions`;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getNIS2IncidentNotificationTemplate } from "./e2-nis2-incident-notification";
+
+describe("getNIS2IncidentNotificationTemplate", () => {
+  it("returns a non-empty string", () => {
+    const result = getNIS2IncidentNotificationTemplate();
+    expect(typeof result).toBe("string");
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it("contains the document code E2-NIS2-INP", () => {
+    expect(getNIS2IncidentNotificationTemplate()).toContain("E2-NIS2-INP");
+  });
+
+  it("references every Art. 23(4) reporting stage", () => {
+    const result = getNIS2IncidentNotificationTemplate();
+    expect(result).toContain("Art. 23(4)(a)");
+    expect(result).toContain("Art. 23(4)(b)");
+    expect(result).toContain("Art. 23(4)(c)");
+    expect(result).toContain("Art. 23(4)(d)");
+    expect(result).toContain("Art. 23(4)(e)");
+  });
+
+  it("defines significance per Art. 23(3)", () => {
+    expect(getNIS2IncidentNotificationTemplate()).toContain("Art. 23(3)");
+  });
+
+  it("contains SECTION markers for each reporting stage", () => {
+    const result = getNIS2IncidentNotificationTemplate();
+    expect(result.match(/## SECTION:/g)).toHaveLength(8);
+    expect(result).toContain("## SECTION: Early Warning (24 Hours)");
+    expect(result).toContain("## SECTION: Incident Notification (72 Hours)");
+    expect(result).toContain(
+      "## SECTION: Intermediate, Progress & Final Reports",
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Generate 2.0 — E2: NIS2 Incident Notification Pack Template
+ *
+ * P0 document. Pre-filled reporting pack for NIS2 Art. 23: the 24-hour
+ * early warning, the 72-hour incident notification, intermediate and
+ * progress reports, and the final report within one month. Fed from the
+ * NIS2 assessment (classification, supervisory authority, Member States of
+ * operation) so the recipients and entity block are filled in before an
+ * incident happens.
+ *
+ * B3 covers the full incident response lifecycle; this pack covers only
+ * the regulatory reporting leg and is designed to be used under time
+ * pressure, so each stage is a fill-in form rather than narrative.
+ */
+
+export function getNIS2IncidentNotificationTemplate(): string {
+  return `## Document-Specific Instructions: E2 — NIS2 Incident Notification Pack
+
+This document is the entity's ready-to-use reporting pack for significant incidents under NIS2 Directive (EU) 2022/2555 Art. 23. It contains (1) the pre-filled recipient and entity information, (2) the decision criteria for "significant incident", and (3) one fill-in form per reporting stage: early warning (Art. 23(4)(a)), incident notification (Art. 23(4)(b)), intermediate report (Art. 23(4)(c)), progress report (Art. 23(4)(e)) and final report (Art. 23(4)(d)).
+
+The pack is used by the incident reporting officer during a live incident. Forms must be short, structured and unambiguous: every field states what to enter and which Art. 23 provision requires it. Entity data known in advance (name, classification, sector, competent authority, CSIRT, contacts) MUST be pre-filled from the operator's NIS2 assessment; incident-specific fields are left as [TO BE COMPLETED AT INCIDENT TIME] markers.
+
+Timelines are computed from the moment the entity **becomes aware** of the significant incident, not from its start. Notification does not make the entity subject to increased liability (Art. 23(1)). Failure to notify is an infringement of Art. 23 subject to Art. 34 fines (EUR 10M / 2% for essential entities, EUR 7M / 1.4% for important entities).
+
+Where the assessment reports operations in several Member States, address cross-border impact in every stage: the CSIRT or competent authority informs the other affected Member States and ENISA (Art. 23(6)).
+
+### Required Sections
+
+Generate the following 8 sections. Each section must contain comprehensive, substantive content as specified below.
+
+---
+
+**## SECTION: Cover Page & Document Control**
+
+Generate a formal cover page following the Cover Page Standard from the Quality Rules. Include:
+- Document title: "NIS2 Incident Notification Pack"
+- Document code: E2-NIS2-INP
+- Entity classification (Essential / Important) and sector / sub-sector
+- **Quick reference box:** the four deadlines (24 h / 72 h / on request / 1 month) and the recipient for each, on the first page
+- All elements from the Cover Page Standard (Document Control Block, Approval Block, Distribution List, Revision History)
+- Table of Contents listing all 8 sections
+
+---
+
+**## SECTION: Executive Summary**
+
+Generate a concise executive summary following the Executive Summary Standard from the Quality Rules:
+
+1. **Entity Context:** Organization, NIS2 classification, Member States of operation
+2. **Document Purpose:** "This Notification Pack implements the reporting obligations of Article 23 of Directive (EU) 2022/2555 (NIS2). It ensures that significant incidents are reported to the competent CSIRT or authority within the statutory deadlines and with the required content."
+3. **Key Findings (4-6 bullets):**
+   - **Recipients:** Competent authority / CSIRT identified and contact channel verified
+   - **Registration:** Registration with the competent authority (Art. 3(4), Art. 27) completed or outstanding
+   - **Reporting Capability:** 24/7 availability of the incident reporting officer and backup
+   - **Integration:** Link to the Incident Response Plan (Document B3) escalation matrix
+   - **Last Exercise:** Date of the last notification drill
+4. **Compliance Determination:** Statement on Art. 23 readiness
+
+Cross-reference: B3 (Incident Response), E1 (NIS2 Risk-Management Policy)
+
+---
+
+**## SECTION: Reporting Obligations & Recipients**
+
+Generate the reporting obligations and pre-filled recipient information.
+
+**3.1 Reporting Timeline:**
+
+**Table 3.1:** NIS2 Art. 23 Reporting Stages
+| Stage | Deadline | Recipient | Provision | Mandatory Content |
+| Early warning | Without undue delay, within 24 hours of becoming aware | CSIRT or competent authority | Art. 23(4)(a) | Suspected unlawful or malicious act; possible cross-border impact |
+| Incident notification | Without undue delay, within 72 hours of becoming aware | CSIRT or competent authority | Art. 23(4)(b) | Update of early warning; initial assessment (severity, impact); indicators of compromise where available |
+| Intermediate report | Upon request | CSIRT or competent authority | Art. 23(4)(c) | Relevant status updates |
+| Progress report | At one month if the incident is still ongoing | CSIRT or competent authority | Art. 23(4)(e) | Status; final report within one month of handling |
+| Final report | Within one month of the incident notification | CSIRT or competent authority | Art. 23(4)(d) | Detailed description, root cause, mitigation, cross-border impact |
+
+Note: entities that are trust service providers have a 24-hour deadline for the incident notification (Art. 23(4) second subparagraph) — state whether this applies.
+
+**3.2 Recipients (pre-filled from the NIS2 assessment):**
+
+**Table 3.2:** Reporting Recipients
+| Recipient | Member State | Channel (portal / email / phone) | Reference / Account | Verified On |
+| Competent authority / CSIRT | [from NIS2 assessment] | [ACTION REQUIRED] | [ACTION REQUIRED] | [date] |
+| Single point of contact (if reporting is routed) | [Member State] | [ACTION REQUIRED] | — | [date] |
+
+**3.3 Notifications to Service Recipients (Art. 23(1)-(2)):**
+- Where appropriate, notify recipients of the services without undue delay of significant incidents likely to adversely affect the provision of those services (Art. 23(1))
+- Communicate to recipients potentially affected by a significant cyber threat the measures or remedies they can take, and where appropriate the threat itself (Art. 23(2))
+- Pre-approved message templates for customers of satellite communication, ground station and EO data services
+
+Reference: NIS2 Art. 23(1)-(4), Art. 27
+
+---
+
+**## SECTION: Significant Incident Criteria**
+
+Generate the decision criteria for significance per Art. 23(3).
+
+**4.1 Legal Test (Art. 23(3)):**
+An incident is significant if it:
+- (a) has caused or is capable of causing severe operational disruption of the services or financial loss for the entity; or
+- (b) has affected or is capable of affecting other natural or legal persons by causing considerable material or non-material damage.
+
+Where the entity falls within the scope of Implementing Regulation (EU) 2024/2690, apply its quantitative thresholds in addition.
+
+**4.2 Space-Sector Indicators:**
+
+**Table 4.1:** Significance Indicators for Space Operations
+| Indicator | Threshold Suggesting Significance | Art. 23(3) Limb |
+| Loss or degradation of ground station / TT&C service | Service unavailable to customers beyond [X] hours | (a) |
+| Unauthorized command or telemetry manipulation | Any confirmed occurrence | (a) / (b) |
+| Compromise of EO or communications data delivered to customers | Any confirmed exfiltration or integrity loss | (b) |
+| Financial loss | Above [ACTION REQUIRED: entity-defined threshold] | (a) |
+| Cross-border effect | Service users in another Member State affected | (b) |
+| Safety impact | Any effect on safety of space operations | (b) |
+
+**4.3 Decision Procedure:**
+- Who decides (incident reporting officer, with CISO) and within what time after triage
+- When in doubt, submit the early warning — it can be withdrawn or downgraded in the 72-hour notification
+- Document every significance decision, including negative ones, in the incident log
+
+Reference: NIS2 Art. 23(3); Implementing Regulation (EU) 2024/2690 Art. 3-4 (where applicable)
+
+---
+
+**## SECTION: Early Warning (24 Hours)**
+
+Generate the early warning fill-in form per Art. 23(4)(a).
+
+**Form E2-A — Early Warning**
+| Field | Content | Provision |
+| Entity name and identifier | [pre-filled] | — |
+| Classification and sector | [pre-filled] | Art. 3 |
+| Date/time entity became aware | [TO BE COMPLETED AT INCIDENT TIME] | Art. 23(4)(a) |
+| Short description | [TO BE COMPLETED AT INCIDENT TIME] | Art. 23(4)(a) |
+| Suspected unlawful or malicious act? | Yes / No / Unknown | Art. 23(4)(a) |
+| Possible cross-border impact? | Yes / No / Unknown — Member States concerned | Art. 23(4)(a) |
+| Assistance requested from CSIRT? | Yes / No — type of guidance or operational advice | Art. 23(5) |
+| Contact for follow-up | [pre-filled, 24/7] | — |
+
+- Guidance: the CSIRT or competent authority replies without undue delay and where possible within 24 hours, including initial feedback and, on request, guidance or operational advice (Art. 23(5)); log the reply
+- Submission checklist and sign-off (who submits, who is informed internally)
+
+Reference: NIS2 Art. 23(4)(a), Art. 23(5)
+
+---
+
+**## SECTION: Incident Notification (72 Hours)**
+
+Generate the incident notification fill-in form per Art. 23(4)(b).
+
+**Form E2-B — Incident Notification**
+| Field | Content | Provision |
+| Reference of early warning | [TO BE COMPLETED AT INCIDENT TIME] | Art. 23(4)(b) |
+| Updated description | [TO BE COMPLETED AT INCIDENT TIME] | Art. 23(4)(b) |
+| Initial assessment — severity | [scale per Document B3 Table 3.1] | Art. 23(4)(b) |
+| Initial assessment — impact | Services affected, users affected, duration, Member States | Art. 23(4)(b) |
+| Indicators of compromise | Where available (hashes, IPs, domains, TTPs) | Art. 23(4)(b) |
+| Containment measures taken | [TO BE COMPLETED AT INCIDENT TIME] | — |
+| Service recipients informed? | Yes / No — date and channel | Art. 23(1)-(2) |
+
+- Guidance on sharing IoCs through the channel offered by the CSIRT; classification / TLP marking
+- Whether the incident also triggers personal data breach notification under GDPR Art. 33 (72 hours to the data protection authority) — separate recipient, separate form
+
+Reference: NIS2 Art. 23(4)(b)
+
+---
+
+**## SECTION: Intermediate, Progress & Final Reports**
+
+Generate the later-stage reporting forms.
+
+**7.1 Intermediate Report (Art. 23(4)(c)):**
+- Triggered only by a request of the CSIRT or competent authority
+- Form E2-C: request reference, status update, changes since last report
+
+**7.2 Progress Report (Art. 23(4)(e)):**
+- Due at the final-report deadline when the incident is still ongoing
+- Form E2-D: current status, measures ongoing, expected date of final report (within one month of handling the incident)
+
+**7.3 Final Report (Art. 23(4)(d)):**
+Due not later than one month after the incident notification.
+
+**Form E2-E — Final Report**
+| Field | Content | Provision |
+| Detailed description | Severity and impact | Art. 23(4)(d)(i) |
+| Type of threat or root cause | Likely to have triggered the incident | Art. 23(4)(d)(ii) |
+| Mitigation measures | Applied and ongoing | Art. 23(4)(d)(iii) |
+| Cross-border impact | Where applicable | Art. 23(4)(d)(iv) |
+| Lessons learned | Improvements to Art. 21 measures (feed back into Document E1) | Art. 21(4) |
+
+Reference: NIS2 Art. 23(4)(c)-(e)
+
+---
+
+**## SECTION: Internal Workflow & Compliance Matrix**
+
+**8.1 Internal Workflow:**
+- Swimlane from detection (SOC) → triage → significance decision → early warning → notification → final report
+- Roles and backups (incident reporting officer, CISO, legal, communications, management body)
+- Management body information per Art. 20(1) oversight duty
+- Record keeping: retain all submissions, acknowledgements and decisions
+- Annual notification drill, ideally combined with the Document B3 exercise programme
+
+**8.2 Compliance Matrix:**
+
+Generate a compliance matrix following the Compliance Matrix Standard from the Quality Rules.
+
+**Table 8.1:** NIS2 Art. 23 Compliance Matrix
+| Req. ID | Provision | Requirement Description | Compliance Status | Implementation (Pack Section) | Evidence Reference | Gap Description | Remediation Action | Target Date |
+
+Required rows (minimum): Art. 23(1), Art. 23(2), Art. 23(3), Art. 23(4)(a), Art. 23(4)(b), Art. 23(4)(c), Art. 23(4)(d), Art. 23(4)(e), Art. 23(5), Art. 27 (registration).
+
+Use the standard compliance status values: Compliant / Substantially Compliant / Partially Compliant / Non-Compliant / Not Applicable
+
+### Cross-References
+- Document E1 — NIS2 Cybersecurity Risk-Management Policy: Art. 21(2)(b) incident handling measure
+- Document B3 — Incident Response Plan: severity classification, escalation matrix, forensic procedures
+- Document B7 — EUSRN Notification Procedures: EU Space Act proposal reporting channel (forward-looking)
+
+### Key Standards
+- NIS2 Directive (EU) 2022/2555, Art. 23, Art. 27, Art. 34 (primary enacted law)
+- Commission Implementing Regulation (EU) 2024/2690 — significant incident thresholds (where applicable)
+- ENISA guidance on incident reporting under NIS2
+- ISO/IEC 27035:2023 — Information Security Incident Management
+- Regulation (EU) 2016/679 (GDPR), Art. 33 — parallel personal data breach notification`;
+}
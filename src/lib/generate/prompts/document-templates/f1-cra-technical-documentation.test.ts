@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getCRATechnicalDocumentationTemplate } from "./f1-cra-technical-documentation";
+
+describe("getCRATechnicalDocumentationTemplate", () => {
+  it("returns a non-empty string", () => {
+    const result = getCRATechnicalDocumentationTemplate();
+    expect(typeof result).toBe("string");
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it("contains the document code F1-CRA-TD", () => {
+    expect(getCRATechnicalDocumentationTemplate()).toContain("F1-CRA-TD");
+  });
+
+  it("maps the Annex VII items and the 10-year retention rule", () => {
+    const result = getCRATechnicalDocumentationTemplate();
+    expect(result).toContain("Annex VII(1)");
+    expect(result).toContain("Annex VII(2)(b)");
+    expect(result).toContain("Annex VII(3)");
+    expect(result).toContain("Annex VII(4)");
+    expect(result).toContain("Annex VII(5)-(6)");
+    expect(result).toContain("Art. 13(13)");
+  });
+
+  it("covers SBOM and Annex I Part II vulnerability handling", () => {
+    const result = getCRATechnicalDocumentationTemplate();
+    expect(result).toContain("SBOM");
+    expect(result).toContain("Annex I Part II");
+  });
+
+  it("contains SECTION markers for all 10 sections", () => {
+    const result = getCRATechnicalDocumentationTemplate();
+    expect(result.match(/## SECTION:/g)).toHaveLength(10);
+    expect(result).toContain("## SECTION: Support Period Determination");
+    expect(result).toContain(
+      "## SECTION: Essential Requirements Conformity Matrix",
+    );
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Generate 2.0 — F1: CRA Technical Documentation Template
+ *
+ * P0 document. Technical documentation for a product with digital elements
+ * per Cyber Resilience Act (EU) 2024/2847 Art. 31 and Annex VII. Fed from
+ * the CRA assessment (product identification, classification, conformity
+ * route, product profile and essential requirement status).
+ *
+ * The CRA is product legislation, not operator legislation: the subject of
+ * this document is one product version, and the manufacturer is the
+ * responsible economic operator. Annex VII items map one-to-one onto the
+ * sections below so a market surveillance authority can audit by item.
+ */
+
+export function getCRATechnicalDocumentationTemplate(): string {
+  return `## Document-Specific Instructions: F1 — CRA Technical Documentation
+
+This document is the technical documentation for a product with digital elements required by Regulation (EU) 2024/2847 (Cyber Resilience Act) Art. 31 and Annex VII. It is drawn up before the product is placed on the market, kept up to date during the support period (Art. 31(2)), and kept at the disposal of market surveillance authorities for at least 10 years after placing on the market or for the support period, whichever is longer (Art. 13(13)).
+
+The document covers ONE product (name and version from the CRA assessment). It must contain at least the information set out in Annex VII items 1-8, and must demonstrate how the essential cybersecurity requirements of Annex I Part I (product properties) and Part II (vulnerability handling) are met — or why a requirement is not applicable.
+
+Depth depends on the product classification from the CRA assessment:
+- **Default category:** internal control (Module A, Annex VIII Part I) is available
+- **Important — Class I (Annex III):** Module A only if harmonised standards, common specifications or an EUCC scheme at assurance level "substantial" are applied in full; otherwise Module B+C or H (Art. 32(2))
+- **Important — Class II (Annex III):** Module B+C, Module H, or a European cybersecurity certification scheme (Art. 32(3))
+- **Critical (Annex IV):** European cybersecurity certification where required by delegated act under Art. 8(1); otherwise the Class II procedures apply
+
+Key dates: reporting obligations of Art. 14 apply from 11 September 2026; the other obligations apply from 11 December 2027 (Art. 71(2)).
+
+Where the manufacturer is also an entity under NIS2, cross-reference Document E1 — the CRA secure-development and vulnerability-handling evidence in this document also supports NIS2 Art. 21(2)(e).
+
+### Required Sections
+
+Generate the following 10 sections. Each section must contain comprehensive, substantive content as specified below.
+
+---
+
+**## SECTION: Cover Page & Document Control**
+
+Generate a formal cover page following the Cover Page Standard from the Quality Rules. Include:
+- Document title: "CRA Technical Documentation — [product name] [version]"
+- Document code: F1-CRA-TD
+- Manufacturer name and address; authorised representative if appointed (Art. 18)
+- Product classification (default / important Class I / important Class II / critical) and conformity assessment procedure
+- Retention statement: kept for at least 10 years or the support period, whichever is longer (Art. 13(13))
+- All elements from the Cover Page Standard (Document Control Block, Approval Block, Revision History)
+- Table of Contents listing all 10 sections with Annex VII item references
+
+---
+
+**## SECTION: Executive Summary**
+
+Generate a concise executive summary following the Executive Summary Standard from the Quality Rules:
+
+1. **Product Context:** Product, version, intended purpose, segment of the space value chain
+2. **Document Purpose:** "This technical documentation is drawn up pursuant to Article 31 and Annex VII of Regulation (EU) 2024/2847 (Cyber Resilience Act) and demonstrates the conformity of the product with the essential cybersecurity requirements set out in Annex I."
+3. **Key Findings (5-7 bullets):**
+   - **Classification:** Category and the Annex III / IV entry relied on, or why none applies
+   - **Conformity Route:** Module and standards relied on
+   - **Annex I Part I Coverage:** Requirements met / partially met / not applicable
+   - **Annex I Part II Coverage:** Vulnerability handling process status
+   - **Support Period:** Determined support period and end date
+   - **Open Gaps:** Number and nature, with dates
+4. **Conformity Statement:** Whether the documentation supports drawing up the EU declaration of conformity (Document F2)
+
+Cross-reference: F2 (EU Declaration of Conformity)
+
+---
+
+**## SECTION: Product Description & Intended Purpose**
+
+Annex VII item 1 — general description of the product with digital elements.
+
+**3.1 Identification:**
+- Product name, type, version(s) covered, hardware and software components
+- Intended purpose and reasonably foreseeable use (Art. 13(3))
+- Segment (space / ground / user) and operating environment
+
+**3.2 Versions Affecting Compliance (Annex VII(1)(b)):**
+- Versions of software affecting compliance with the essential requirements
+
+**3.3 Product Illustrations (Annex VII(1)(c)):**
+- Where the product is a hardware product: photographs or illustrations showing external features, marking and internal layout — [ACTION REQUIRED] markers
+
+**3.4 User Information and Instructions (Annex VII(1)(d)):**
+- Reference the information and instructions to the user set out in Annex II: manufacturer contact, single point of contact for vulnerability reporting, intended purpose, security properties, support period end date, secure installation, update and decommissioning instructions
+
+Reference: CRA Annex II, Annex VII(1)
+
+---
+
+**## SECTION: Design, Development & System Architecture**
+
+Annex VII item 2(a) — design, development and production of the product.
+
+**4.1 System Architecture:**
+- How software components build on or feed into each other and integrate into the overall processing
+- External interfaces and attack surface: network functions, ports and protocols, interfaces to spacecraft bus / ground systems, update channels
+- Trust boundaries and data flows, distinguishing authentication data and cryptographic material
+
+**Table 4.1:** Interface and Attack Surface Inventory
+| Interface | Protocol | Exposure | Authentication | Encryption | Annex I Part I Ref. |
+| [ACTION REQUIRED] | [protocol] | [network / local / RF] | [method] | [yes/no] | (2)(d)-(f), (2)(j) |
+
+**4.2 Secure Development Lifecycle:**
+- Development process, threat modelling, secure coding standard, code review and static / dynamic analysis
+- Third-party and open-source component due diligence (Art. 13(5))
+
+Reference: CRA Annex I Part I(1), Annex VII(2)(a), Art. 13(5)
+
+---
+
+**## SECTION: Vulnerability Handling & SBOM**
+
+Annex VII item 2(b) — vulnerability handling processes, with Annex I Part II.
+
+**5.1 Software Bill of Materials:**
+- SBOM in a commonly used, machine-readable format (SPDX, CycloneDX) covering at least top-level dependencies (Annex I Part II(1))
+- Location and version control of the SBOM; provided to market surveillance authority on reasoned request (Annex VII(8))
+
+**5.2 Vulnerability Handling Process (Annex I Part II(1)-(8)):**
+
+**Table 5.1:** Vulnerability Handling Requirements
+| Ref. | Requirement | Implementation | Evidence |
+| II(1) | Identify and document vulnerabilities and components (SBOM) | [process] | [reference] |
+| II(2) | Address and remediate without delay, including through security updates | [process, SLAs] | [reference] |
+| II(3) | Regular tests and reviews of product security | [process] | [reference] |
+| II(4) | Public disclosure of fixed vulnerabilities | [process] | [reference] |
+| II(5) | Coordinated vulnerability disclosure policy | [policy URL] | [reference] |
+| II(6) | Facilitate sharing of vulnerability information; contact address | [contact] | [reference] |
+| II(7) | Secure distribution of updates | [mechanism] | [reference] |
+| II(8) | Security updates disseminated without delay and free of charge | [process] | [reference] |
+
+**5.3 Reporting to CSIRT and ENISA (Art. 14):**
+- Actively exploited vulnerabilities and severe incidents: early warning within 24 hours, notification within 72 hours, final report within 14 days after a corrective measure (vulnerabilities) or one month (incidents), via the single reporting platform
+- Applies from 11 September 2026
+
+Reference: CRA Art. 13(6)-(8), Art. 14, Annex I Part II, Annex VII(2)(b), Annex VII(8)
+
+---
+
+**## SECTION: Production & Monitoring Processes**
+
+Annex VII item 2(c) — production and monitoring processes and their validation.
+
+- Build and release pipeline: reproducibility, signing of artefacts, integrity of the build environment
+- Configuration management and secure-by-default configuration shipped (Annex I Part I(2)(b))
+- Production testing and acceptance for hardware (flashing, key provisioning, secure boot enablement)
+- Post-market monitoring: sources of vulnerability intelligence, field telemetry, customer reports
+- Validation of these processes — existing certifications from the CRA assessment (IEC 62443-4-1, ISO/IEC 27001) and their scope
+
+Reference: CRA Annex I Part I(2)(b), Annex VII(2)(c)
+
+---
+
+**## SECTION: Cybersecurity Risk Assessment**
+
+Annex VII item 3 — the cybersecurity risk assessment per Art. 13(2)-(3).
+
+**7.1 Method:**
+- Risk assessment methodology (e.g. IEC 62443-3-2, ISO/IEC 27005, ETSI TS 102 165-1), taking into account intended purpose and reasonably foreseeable use, operational environment and assets to be protected
+
+**7.2 Threats and Risks:**
+
+**Table 7.1:** Product Risk Register
+| Risk ID | Asset | Threat | Likelihood | Impact | Risk Level | Treatment | Annex I Part I Ref. |
+| R-01 | [asset] | [threat] | [L] | [I] | [level] | [control] | [ref] |
+
+Consider at least: unauthorized commanding or configuration, firmware tampering, key extraction, denial of service on network functions, supply-chain compromise of components. Use the CRA assessment profile (network function, authentication data, cryptographic operations) to prioritise.
+
+**7.3 Applicability of Essential Requirements (Art. 13(3)):**
+- For each Annex I Part I requirement: how it is implemented as a result of the risk assessment, or why it is not applicable
+- The risk assessment is documented and updated during the support period (Art. 13(3))
+
+Reference: CRA Art. 13(2)-(4), Annex VII(3)
+
+---
+
+**## SECTION: Support Period Determination**
+
+Annex VII item 4 — relevant information taken into account to determine the support period per Art. 13(8).
+
+- The support period reflects the time the product is expected to be in use, and is at least five years unless the product is expected to be in use for less (Art. 13(8))
+- Factors considered: user expectations, nature of the product, intended purpose, relevant Union law, support periods of comparable products, availability of the operating environment, support periods of integrated components, ADCO and Commission guidance
+- For space-segment products: mission design lifetime, on-orbit update capability, and whether security updates can be deployed after launch
+- Determined support period and end date (month and year) — must also be stated in the user information (Annex II(7))
+
+Reference: CRA Art. 13(8)-(9), Annex II(7), Annex VII(4)
+
+---
+
+**## SECTION: Standards Applied & Test Reports**
+
+Annex VII items 5-6.
+
+**9.1 Standards and Specifications (Annex VII(5)):**
+
+**Table 9.1:** Harmonised Standards, Common Specifications and Certification Schemes
+| Reference | Title | Applied In Full / In Part | Parts Not Applied and Alternative Solution | Annex I Requirements Covered |
+| [ACTION REQUIRED: harmonised standard published in the OJEU] | [title] | [full/part] | [description] | [refs] |
+| IEC 62443-4-1 / -4-2 | Secure product development / component requirements | [per CRA assessment] | [description] | [refs] |
+| ETSI EN 303 645 | Cyber security for consumer IoT | [per CRA assessment] | [description] | [refs] |
+| EUCC / Common Criteria | European cybersecurity certification | [per CRA assessment] | [description] | [refs] |
+
+- Where harmonised standards are not applied or applied in part, describe the solutions adopted to meet the essential requirements
+- Presumption of conformity applies only for harmonised standards / common specifications / EUCC certificates referenced in the OJEU (Art. 27)
+
+**9.2 Test Reports (Annex VII(6)):**
+- Reports of tests carried out to verify conformity with Annex I Part I and Part II: penetration tests, fuzzing, SBOM vulnerability scans, secure boot / update verification
+- For each: scope, date, tester (internal / third party), findings and closure status
+
+Reference: CRA Art. 27, Annex VII(5)-(6)
+
+---
+
+**## SECTION: Essential Requirements Conformity Matrix**
+
+Generate a conformity matrix following the Compliance Matrix Standard from the Quality Rules, using the CRA assessment requirement status where available.
+
+**Table 10.1:** CRA Annex I Conformity Matrix
+| Req. ID | Provision | Requirement Description | Conformity Status | Implementation (Section) | Evidence / Test Report | Gap Description | Remediation Action | Target Date |
+
+Required rows (minimum):
+- Annex I Part I(1) — Appropriate level of cybersecurity based on risks
+- Annex I Part I(2)(a) — No known exploitable vulnerabilities at placing on the market
+- Annex I Part I(2)(b) — Secure by default configuration, with reset to original state
+- Annex I Part I(2)(c) — Vulnerabilities addressable through security updates, automatic by default with opt-out
+- Annex I Part I(2)(d) — Protection from unauthorised access (authentication, identity, access management)
+- Annex I Part I(2)(e) — Confidentiality of data (encryption)
+- Annex I Part I(2)(f) — Integrity of data, commands, programs and configuration
+- Annex I Part I(2)(g) — Data minimisation
+- Annex I Part I(2)(h) — Availability of essential functions, including resilience against DoS
+- Annex I Part I(2)(i) — Minimise negative impact on other devices or networks
+- Annex I Part I(2)(j) — Limit attack surfaces
+- Annex I Part I(2)(k) — Reduce impact of incidents (exploitation mitigation)
+- Annex I Part I(2)(l) — Security-relevant logging and monitoring, with opt-out
+- Annex I Part I(2)(m) — Secure and easy removal of data and settings
+- Annex I Part II(1)-(8) — Vulnerability handling (Section 5)
+- Annex VII(7) — Copy of the EU declaration of conformity (Document F2)
+
+Use the status values: Conforms / Partially Conforms / Does Not Conform / Not Applicable (with justification per Art. 13(3))
+
+### Cross-References
+- Document F2 — CRA EU Declaration of Conformity: drawn up on the basis of this documentation (Annex VII(7))
+- Document E1 — NIS2 Cybersecurity Risk-Management Policy: Art. 21(2)(e) secure development and vulnerability handling, where the manufacturer is also a NIS2 entity
+- Document B6 — Supply Chain Security Plan: component and supplier assurance
+
+### Key Standards
+- Regulation (EU) 2024/2847 (Cyber Resilience Act), Art. 13-14, Art. 27-32, Annex I-VIII (primary enacted law)
+- IEC 62443-4-1:2018 — Secure product development lifecycle requirements
+- IEC 62443-4-2:2019 — Technical security requirements for IACS components
+- ETSI EN 303 645 — Cyber Security for Consumer Internet of Things
+- ISO/IEC 29147 and ISO/IEC 30111 — Vulnerability disclosure and handling
+- SPDX (ISO/IEC 5962:2021) / CycloneDX — SBOM formats
+- Regulation (EU) 2024/482 — European Common Criteria-based cybersecurity certification scheme (EUCC)`;
+}
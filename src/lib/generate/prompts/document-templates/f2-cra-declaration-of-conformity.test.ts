@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { getCRADeclarationOfConformityTemplate } from "./f2-cra-declaration-of-conformity";
+
+describe("getCRADeclarationOfConformityTemplate", () => {
+  it("returns a non-empty string", () => {
+    const result = getCRADeclarationOfConformityTemplate();
+    expect(typeof result).toBe("string");
+    expect(result.length).toBeGreaterThan(0);
+  });
+
+  it("follows Art. 28 and the Annex V model", () => {
+    const result = getCRADeclarationOfConformityTemplate();
+    expect(result).toContain("Art. 28");
+    expect(result).toContain("Annex V items 1 and 4");
+    expect(result).toContain("Annex V item 8");
+  });
+
+  it("contains the sole responsibility statement", () => {
+    expect(getCRADeclarationOfConformityTemplate()).toContain(
+      "issued under the sole responsibility of the manufacturer",
+    );
+  });
+
+  it("refuses a signable declaration while non-conformities are open", () => {
+    expect(getCRADeclarationOfConformityTemplate()).toContain(
+      "NOT FOR SIGNATURE",
+    );
+  });
+
+  it("contains SECTION markers for all 6 sections", () => {
+    const result = getCRADeclarationOfConformityTemplate();
+    expect(result.match(/## SECTION:/g)).toHaveLength(6);
+    expect(result).toContain("## SECTION: Conformity Assessment Procedure");
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Generate 2.0 — F2: CRA EU Declaration of Conformity Template
+ *
+ * P0 document. EU declaration of conformity per Cyber Resilience Act
+ * (EU) 2024/2847 Art. 28 and Annex V, drawn up by the manufacturer on the
+ * basis of the technical documentation (F1). Fed from the CRA assessment
+ * (product identification, economic operator role, classification and
+ * conformity route).
+ *
+ * Unlike every other template, this is a formal legal declaration, not an
+ * analysis: sections are short, numbered as Annex V, and written in the
+ * first person of the manufacturer. No compliance matrix, no narrative.
+ */
+
+export function getCRADeclarationOfConformityTemplate(): string {
+  return `## Document-Specific Instructions: F2 — CRA EU Declaration of Conformity
+
+This document is the EU declaration of conformity for a product with digital elements under Regulation (EU) 2024/2847 (Cyber Resilience Act) Art. 28. It follows the model structure of Annex V and states that the fulfilment of the essential cybersecurity requirements set out in Annex I has been demonstrated (Art. 28(1)). By drawing it up, the manufacturer assumes responsibility for the compliance of the product (Art. 28(4)).
+
+**Format rules (different from all other documents in the package):**
+- Formal declaration, written in the first person of the manufacturer ("We, [manufacturer], declare under our sole responsibility...")
+- Use the numbered items of Annex V as the structure — do NOT add an executive summary, compliance matrix or gap analysis
+- Keep each section short and factual; every statement must be backed by the technical documentation (Document F1)
+- Translate into the language(s) required by the Member State(s) where the product is placed or made available (Art. 28(2))
+- Where the product is subject to more than one Union act requiring a declaration of conformity, a single declaration is drawn up for all of them, identifying each act and its OJ reference (Art. 28(3))
+- A copy is included in the technical documentation (Annex VII(7)); the declaration or a simplified declaration per Annex VI with the internet address of the full text accompanies the product (Art. 13, Annex VI)
+
+**Only draw up the declaration when the technical documentation supports it.** If the CRA assessment shows open non-conformities, the declaration must be generated as a DRAFT with a prominent "[NOT FOR SIGNATURE — open non-conformities: list]" banner, not as a signed declaration.
+
+If the CRA assessment marks the product as out of scope, generate a short memo explaining that no declaration is required and why, instead of the sections below.
+
+Where the economic operator role is "importer" or "distributor", the importer / distributor does NOT draw up the declaration; generate instead a verification record that the manufacturer's declaration exists and accompanies the product (Art. 19(2)-(3), Art. 20(2)).
+
+### Required Sections
+
+Generate the following 6 sections.
+
+---
+
+**## SECTION: Product Identification**
+
+Annex V items 1 and 4.
+
+- **1. Product with digital elements:** Name, type and any additional information enabling the unique identification of the product — product name, version, batch or serial number range, hardware revision, software build identifier
+- **4. Object of the declaration:** Identification of the product allowing traceability, which may include a photograph where appropriate
+
+Present as a two-column table (Field | Value). Pre-fill product name and version from the CRA assessment.
+
+---
+
+**## SECTION: Manufacturer & Responsibility Statement**
+
+Annex V items 2 and 3.
+
+- **2. Manufacturer:** Name and address of the manufacturer or its authorised representative (Art. 18)
+- **3. Responsibility statement:** "This declaration of conformity is issued under the sole responsibility of the manufacturer."
+
+State whether the manufacturer is established in the Union; if not, identify the authorised representative and the mandate.
+
+---
+
+**## SECTION: Declaration of Conformity**
+
+Annex V item 5.
+
+- "The object of the declaration described above is in conformity with the relevant Union harmonisation legislation: Regulation (EU) 2024/2847 of the European Parliament and of the Council of 23 October 2024 on horizontal cybersecurity requirements for products with digital elements (Cyber Resilience Act)."
+- List any other Union harmonisation legislation the product is subject to and that requires a declaration (e.g. Radio Equipment Directive 2014/53/EU, EMC Directive 2014/30/EU, Machinery Regulation (EU) 2023/1230) with OJ references, per Art. 28(3) — [ACTION REQUIRED] if unknown
+- State that the product meets the essential cybersecurity requirements of Annex I Part I and that the manufacturer's vulnerability handling processes meet Annex I Part II
+
+---
+
+**## SECTION: Standards, Specifications & Certification**
+
+Annex V item 6.
+
+- References to the relevant harmonised standards used, common specifications, or European cybersecurity certification schemes under Regulation (EU) 2019/881 (e.g. EUCC, Regulation (EU) 2024/482), or references to the other technical specifications in relation to which conformity is declared
+- For each reference: identification number, version and date of issue
+- Indicate where a standard is applied only in part, and which parts (consistent with Document F1, Standards Applied & Test Reports)
+- Where a European cybersecurity certificate is relied on: certificate number, assurance level, certification body
+
+---
+
+**## SECTION: Conformity Assessment Procedure**
+
+Annex V item 7.
+
+Identify the conformity assessment procedure followed, consistent with the product classification and Art. 32:
+
+**Table 5.1:** Conformity Assessment Procedure
+| Item | Value |
+| Product classification | Default / Important Class I (Annex III) / Important Class II (Annex III) / Critical (Annex IV) |
+| Procedure | Module A — internal control (Annex VIII Part I) / Module B+C — EU-type examination + conformity to type (Annex VIII Parts II-III) / Module H — full quality assurance (Annex VIII Part IV) / European cybersecurity certification |
+| Notified body (where involved) | Name, four-digit identification number, description of intervention, certificate reference |
+
+Check consistency: Module A is permissible for Class I products only where harmonised standards, common specifications or European cybersecurity certification at assurance level at least "substantial" were applied in full (Art. 32(2)); Class II products require third-party assessment (Art. 32(3)). Flag any inconsistency between the CRA assessment route and the classification as [ACTION REQUIRED].
+
+---
+
+**## SECTION: Signature & Additional Information**
+
+Annex V item 8.
+
+- **Additional information:** Support period end date (Art. 13(8)), internet address of the declaration if a simplified declaration per Annex VI accompanies the product, single point of contact for vulnerability reporting
+- **Signed for and on behalf of:** [manufacturer]
+- **Place and date of issue:** [ACTION REQUIRED]
+- **Name, function, signature:** [ACTION REQUIRED]
+
+Add a note that the CE marking is affixed visibly, legibly and indelibly before the product is placed on the market (Art. 30), followed by the notified body number where a notified body is involved in the production control phase.
+
+### Cross-References
+- Document F1 — CRA Technical Documentation: the basis for this declaration; this declaration is included in it as Annex VII item 7
+
+### Key Standards
+- Regulation (EU) 2024/2847 (Cyber Resilience Act), Art. 13, Art. 18-20, Art. 28-32, Annex I, Annex V, Annex VI, Annex VIII (primary enacted law)
+- Decision No 768/2008/EC — common framework for the marketing of products (model declaration structure)
+- Regulation (EU) 2019/881 (Cybersecurity Act) and Regulation (EU) 2024/482 (EUCC)`;
+}
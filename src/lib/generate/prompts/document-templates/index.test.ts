@@ -14,6 +14,10 @@ describe("getDocumentTemplate", () => {
       "AUTHORIZATION_APPLICATION",
       "ENVIRONMENTAL_FOOTPRINT",
       "INSURANCE_COMPLIANCE",
+      "NIS2_RISK_POLICY",
+      "NIS2_INCIDENT_NOTIFICATION",
+      "CRA_TECHNICAL_DOCUMENTATION",
+      "CRA_DECLARATION_OF_CONFORMITY",
     ];
 
     for (const docType of p0Types) {
@@ -16,6 +16,10 @@ import { getIncidentResponseTemplate } from "./b3-incident-response";
 import { getAuthorizationApplicationTemplate } from "./c1-authorization-application";
 import { getEnvironmentalFootprintTemplate } from "./c2-environmental-footprint";
 import { getInsuranceComplianceTemplate } from "./c3-insurance-compliance";
+import { getNIS2RiskPolicyTemplate } from "./e1-nis2-risk-policy";
+import { getNIS2IncidentNotificationTemplate } from "./e2-nis2-incident-notification";
+import { getCRATechnicalDocumentationTemplate } from "./f1-cra-technical-documentation";
+import { getCRADeclarationOfConformityTemplate } from "./f2-cra-declaration-of-conformity";
 
 /**
  * Template lookup for P0 document types.
@@ -30,6 +34,10 @@ const TEMPLATE_MAP: Partial<Record<NCADocumentType, () => string>> = {
   AUTHORIZATION_APPLICATION: getAuthorizationApplicationTemplate,
   ENVIRONMENTAL_FOOTPRINT: getEnvironmentalFootprintTemplate,
   INSURANCE_COMPLIANCE: getInsuranceComplianceTemplate,
+  NIS2_RISK_POLICY: getNIS2RiskPolicyTemplate,
+  NIS2_INCIDENT_NOTIFICATION: getNIS2IncidentNotificationTemplate,
+  CRA_TECHNICAL_DOCUMENTATION: getCRATechnicalDocumentationTemplate,
+  CRA_DECLARATION_OF_CONFORMITY: getCRADeclarationOfConformityTemplate,
 };
 
 /**
@@ -13,7 +13,7 @@ import type {
 import { NCA_DOC_TYPE_MAP } from "../types";
 
 /**
- * M-4 / M-8 / L-8: Proper category label mapping for all four categories.
+ * M-4 / M-8 / L-8: Proper category label mapping for all categories.
  * Previously only handled "debris" and "cybersecurity" via a ternary.
  */
 const CATEGORY_LABELS: Record<DocumentCategory, string> = {
@@ -21,6 +21,8 @@ const CATEGORY_LABELS: Record<DocumentCategory, string> = {
   cybersecurity: "Cybersecurity (Title V)",
   general: "General Requirements (Title I-III)",
   safety: "Safety & Environmental (Title VI)",
+  nis2: "NIS2 Directive (EU) 2022/2555",
+  cra: "Cyber Resilience Act (EU) 2024/2847",
 };
 
 /**
@@ -70,6 +72,13 @@ export function buildOperatorContext(
     // Cross-cutting categories need visibility into all assessment data
     parts.push(serializeDebrisData(data));
     parts.push(serializeCybersecurityData(data));
+  } else if (meta.category === "nis2") {
+    // NIS2 measures overlap the EU Space Act cyber title, so the cyber
+    // assessment is included as supporting evidence.
+    parts.push(serializeNIS2Data(data));
+    parts.push(serializeCybersecurityData(data));
+  } else if (meta.category === "cra") {
+    parts.push(serializeCRAData(data));
   }
 
   // --- Spacecraft data (relevant for all categories when available) ---
@@ -226,6 +235,154 @@ function serializeCybersecurityData(data: Generate2DataBundle): string {
   return parts.join("\n");
 }
 
+function serializeNIS2Data(data: Generate2DataBundle): string {
+  const parts: string[] = [];
+
+  parts.push(`## NIS2 Assessment Data`);
+  parts.push(``);
+
+  if (!data.nis2) {
+    parts.push(
+      `> WARNING: No NIS2 assessment data available. The operator has not completed a NIS2 assessment. Document will be generated with regulatory guidance and industry best practices, but entity classification, supervisory authority and all operator-specific parameters will require manual input.`,
+    );
+    parts.push(``);
+    return parts.join("\n");
+  }
+
+  const a = data.nis2.assessment;
+
+  parts.push(`### Entity Profile`);
+  parts.push(``);
+  parts.push(`| Parameter | Value |`);
+  parts.push(`|---|---|`);
+  parts.push(`| Assessment Name | ${a.assessmentName || "Not specified"} |`);
+  parts.push(
+    `| Entity Classification | ${a.entityClassification || "Not classified"} |`,
+  );
+  parts.push(
+    `| Classification Reason | ${a.classificationReason || "Not specified"} |`,
+  );
+  parts.push(`| Sector | ${a.sector || "Not specified"} |`);
+  parts.push(`| Sub-Sector | ${a.subSector || "Not specified"} |`);
+  parts.push(
+    `| Organization Size | ${a.organizationSize || "Not specified"} |`,
+  );
+  parts.push(`| Employee Count | ${a.employeeCount ?? "Not specified"} |`);
+  parts.push(`| Member States of Operation | ${a.memberStateCount} |`);
+  parts.push(
+    `| Operates Ground Infrastructure | ${a.operatesGroundInfra ? "Yes" : "No"} |`,
+  );
+  parts.push(
+    `| Operates Satellite Communications | ${a.operatesSatComms ? "Yes" : "No"} |`,
+  );
+  parts.push(`| Provides EO Data | ${a.providesEOData ? "Yes" : "No"} |`);
+  parts.push(
+    `| Existing Certifications | ${a.existingCertifications || "None reported"} |`,
+  );
+  parts.push(`| ISO/IEC 27001 | ${a.hasISO27001 ? "Yes" : "No"} |`);
+  parts.push(`| Internal CSIRT | ${a.hasExistingCSIRT ? "Yes" : "No"} |`);
+  parts.push(
+    `| Risk Management Framework | ${a.hasRiskManagement ? "Yes" : "No"} |`,
+  );
+  parts.push(
+    `| Registered with Authority (Art. 3(4)) | ${a.hasRegisteredWithAuthority ? "Yes" : "No"} |`,
+  );
+  parts.push(
+    `| Supervisory Authority | ${a.supervisoryAuthority || "Not specified"} |`,
+  );
+  parts.push(
+    `| Compliance Score | ${a.complianceScore != null ? `${a.complianceScore}%` : "Not assessed"} |`,
+  );
+  parts.push(
+    `| Maturity Score | ${a.maturityScore != null ? `${a.maturityScore}%` : "Not assessed"} |`,
+  );
+  parts.push(`| Risk Level | ${a.riskLevel || "Not assessed"} |`);
+  parts.push(``);
+
+  if (data.nis2.requirements.length > 0) {
+    parts.push(`### Requirement Compliance Status`);
+    parts.push(``);
+    parts.push(`| Requirement ID | Status | Notes |`);
+    parts.push(`|---|---|---|`);
+    for (const req of data.nis2.requirements) {
+      parts.push(
+        `| ${req.requirementId} | ${req.status} | ${req.notes || "—"} |`,
+      );
+    }
+    parts.push(``);
+  }
+
+  return parts.join("\n");
+}
+
+function serializeCRAData(data: Generate2DataBundle): string {
+  const parts: string[] = [];
+
+  parts.push(`## CRA Assessment Data`);
+  parts.push(``);
+
+  if (!data.cra) {
+    parts.push(
+      `> WARNING: No CRA assessment data available. The operator has not completed a Cyber Resilience Act assessment. Document will be generated with regulatory guidance and industry best practices, but product identification, classification and all operator-specific parameters will require manual input.`,
+    );
+    parts.push(``);
+    return parts.join("\n");
+  }
+
+  const a = data.cra.assessment;
+  const yesNo = (v?: boolean | null) =>
+    v === true ? "Yes" : v === false ? "No" : "Not specified";
+
+  parts.push(`### Product Profile`);
+  parts.push(``);
+  parts.push(`| Parameter | Value |`);
+  parts.push(`|---|---|`);
+  parts.push(`| Product Name | ${a.productName} |`);
+  parts.push(`| Product Version | ${a.productVersion || "Not specified"} |`);
+  parts.push(`| Economic Operator Role | ${a.economicOperatorRole} |`);
+  parts.push(`| Product Classification | ${a.productClassification} |`);
+  parts.push(`| Conformity Route | ${a.conformityRoute} |`);
+  parts.push(
+    `| Out of Scope | ${a.isOutOfScope ? "Yes — document for record only" : "No"} |`,
+  );
+  parts.push(`| Segments | ${a.segments} |`);
+  parts.push(`| Network Function | ${yesNo(a.hasNetworkFunction)} |`);
+  parts.push(
+    `| Processes Authentication Data | ${yesNo(a.processesAuthData)} |`,
+  );
+  parts.push(
+    `| Performs Cryptographic Operations | ${yesNo(a.performsCryptoOps)} |`,
+  );
+  parts.push(`| Established in the EU | ${yesNo(a.isEUEstablished)} |`);
+  parts.push(`| IEC 62443 | ${yesNo(a.hasIEC62443)} |`);
+  parts.push(`| ETSI EN 303 645 | ${yesNo(a.hasETSIEN303645)} |`);
+  parts.push(`| Common Criteria | ${yesNo(a.hasCommonCriteria)} |`);
+  parts.push(`| ISO/IEC 27001 | ${yesNo(a.hasISO27001)} |`);
+  parts.push(
+    `| Compliance Score | ${a.complianceScore != null ? `${a.complianceScore}%` : "Not assessed"} |`,
+  );
+  parts.push(
+    `| Maturity Score | ${a.maturityScore != null ? `${a.maturityScore}%` : "Not assessed"} |`,
+  );
+  parts.push(`| Risk Level | ${a.riskLevel || "Not assessed"} |`);
+  parts.push(``);
+
+  if (data.cra.requirements.length > 0) {
+    parts.push(`### Essential Requirement Status`);
+    parts.push(``);
+    parts.push(`| Requirement ID | Status | Notes |`);
+    parts.push(`|---|---|---|`);
+    for (const req of data.cra.requirements) {
+      parts.push(
+        `| ${req.requirementId} | ${req.status} | ${req.notes || "—"} |`,
+      );
+    }
+    parts.push(``);
+  }
+
+  return parts.join("\n");
+}
+
 function serializeSpacecraftData(data: Generate2DataBundle): string {
   const parts: string[] = [];
 
@@ -258,4 +258,62 @@ export const READINESS_SCHEMAS: Record<NCADocumentType, ReadinessSchema> = {
       { source: "organization", field: "name", weight: 3 },
     ],
   },
+
+  // ── Category E: NIS2 Directive ──
+
+  NIS2_RISK_POLICY: {
+    documentType: "NIS2_RISK_POLICY",
+    fields: [
+      { source: "nis2", field: "entityClassification", weight: 3 },
+      { source: "nis2", field: "organizationSize", weight: 3 },
+      { source: "nis2", field: "hasRiskManagement", weight: 3 },
+      { source: "nis2", field: "maturityScore", weight: 2 },
+      { source: "nis2", field: "hasISO27001", weight: 2 },
+      { source: "nis2", field: "subSector", weight: 2 },
+      { source: "nis2", field: "existingCertifications", weight: 1 },
+      { source: "organization", field: "name", weight: 1 },
+    ],
+  },
+
+  NIS2_INCIDENT_NOTIFICATION: {
+    documentType: "NIS2_INCIDENT_NOTIFICATION",
+    fields: [
+      { source: "nis2", field: "entityClassification", weight: 3 },
+      { source: "nis2", field: "supervisoryAuthority", weight: 3 },
+      { source: "nis2", field: "hasExistingCSIRT", weight: 2 },
+      { source: "nis2", field: "memberStateCount", weight: 2 },
+      { source: "nis2", field: "hasRegisteredWithAuthority", weight: 2 },
+      { source: "cybersecurity", field: "hasIncidentResponsePlan", weight: 1 },
+      { source: "organization", field: "name", weight: 1 },
+    ],
+  },
+
+  // ── Category F: Cyber Resilience Act ──
+
+  CRA_TECHNICAL_DOCUMENTATION: {
+    documentType: "CRA_TECHNICAL_DOCUMENTATION",
+    fields: [
+      { source: "cra", field: "productName", weight: 3 },
+      { source: "cra", field: "productClassification", weight: 3 },
+      { source: "cra", field: "segments", weight: 3 },
+      { source: "cra", field: "productVersion", weight: 2 },
+      { source: "cra", field: "conformityRoute", weight: 2 },
+      { source: "cra", field: "complianceScore", weight: 2 },
+      { source: "cra", field: "hasIEC62443", weight: 1 },
+      { source: "cra", field: "hasNetworkFunction", weight: 1 },
+    ],
+  },
+
+  CRA_DECLARATION_OF_CONFORMITY: {
+    documentType: "CRA_DECLARATION_OF_CONFORMITY",
+    fields: [
+      { source: "cra", field: "productName", weight: 3 },
+      { source: "cra", field: "productClassification", weight: 3 },
+      { source: "cra", field: "conformityRoute", weight: 3 },
+      { source: "organization", field: "name", weight: 3 },
+      { source: "cra", field: "productVersion", weight: 2 },
+      { source: "cra", field: "economicOperatorRole", weight: 2 },
+      { source: "cra", field: "isEUEstablished", weight: 1 },
+    ],
+  },
 };
@@ -49,7 +49,7 @@ function isFieldPresent(
     return false;
   }
 
-  // Debris / Cybersecurity: look in data[source]?.assessment[field]
+  // Assessment sources: look in data[source]?.assessment[field]
   if (source === "debris") {
     const assessment = data.debris?.assessment;
     if (!assessment) return false;
@@ -66,6 +66,22 @@ function isFieldPresent(
     return isValuePresent(value, fieldName, assessment);
   }
 
+  if (source === "nis2") {
+    const assessment = data.nis2?.assessment;
+    if (!assessment) return false;
+
+    const value = assessment[fieldName as keyof typeof assessment];
+    return isValuePresent(value, fieldName, assessment);
+  }
+
+  if (source === "cra") {
+    const assessment = data.cra?.assessment;
+    if (!assessment) return false;
+
+    const value = assessment[fieldName as keyof typeof assessment];
+    return isValuePresent(value, fieldName, assessment);
+  }
+
   return false;
 }
 
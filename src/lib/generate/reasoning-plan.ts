@@ -73,6 +73,28 @@ function isFieldPresent(
     );
   }
 
+  if (source === "nis2") {
+    const assessment = data.nis2?.assessment;
+    if (!assessment) return false;
+    const value = assessment[fieldName as keyof typeof assessment];
+    return isMeaningful(
+      value,
+      fieldName,
+      assessment as Record<string, unknown>,
+    );
+  }
+
+  if (source === "cra") {
+    const assessment = data.cra?.assessment;
+    if (!assessment) return false;
+    const value = assessment[fieldName as keyof typeof assessment];
+    return isMeaningful(
+      value,
+      fieldName,
+      assessment as Record<string, unknown>,
+    );
+  }
+
   return false;
 }
 
@@ -118,6 +140,22 @@ function getFieldValue(
     if (typeof v === "number") return v;
     return String(v ?? "");
   }
+  if (source === "nis2") {
+    const a = data.nis2?.assessment;
+    if (!a) return "";
+    const v = a[fieldName as keyof typeof a];
+    if (typeof v === "boolean") return v;
+    if (typeof v === "number") return v;
+    return String(v ?? "");
+  }
+  if (source === "cra") {
+    const a = data.cra?.assessment;
+    if (!a) return "";
+    const v = a[fieldName as keyof typeof a];
+    if (typeof v === "boolean") return v;
+    if (typeof v === "number") return v;
+    return String(v ?? "");
+  }
   return "";
 }
 
@@ -447,6 +485,46 @@ const CROSS_REFERENCE_MAP: Partial<
         "Authorization application requires cybersecurity policy evidence.",
     },
   ],
+  NIS2_RISK_POLICY: [
+    {
+      toDocumentType: "CYBER_RISK_ASSESSMENT",
+      toSection: null,
+      relationship: "depends_on",
+      description:
+        "NIS2 policy relies on the risk assessment (B2) for Art. 21(2)(a).",
+    },
+    {
+      toDocumentType: "BCP_RECOVERY",
+      toSection: null,
+      relationship: "references",
+      description: "NIS2 policy references BCP for Art. 21(2)(c) continuity.",
+    },
+  ],
+  NIS2_INCIDENT_NOTIFICATION: [
+    {
+      toDocumentType: "NIS2_RISK_POLICY",
+      toSection: null,
+      relationship: "depends_on",
+      description:
+        "Notification pack implements the incident handling of the NIS2 policy (E1).",
+    },
+    {
+      toDocumentType: "INCIDENT_RESPONSE",
+      toSection: null,
+      relationship: "references",
+      description:
+        "Notification pack plugs into the Incident Response Plan (B3) escalation.",
+    },
+  ],
+  CRA_DECLARATION_OF_CONFORMITY: [
+    {
+      toDocumentType: "CRA_TECHNICAL_DOCUMENTATION",
+      toSection: null,
+      relationship: "depends_on",
+      description:
+        "Declaration of Conformity is drawn up on the CRA technical documentation (F1).",
+    },
+  ],
 };
 
 function buildCrossReferences(docType: NCADocumentType): CrossReference[] {
@@ -32,14 +32,28 @@ export type ComplianceVerdict =
 export type ConfidenceLevel = "high" | "medium" | "low";
 
 export interface DataPoint {
-  source: "debris" | "cybersecurity" | "spacecraft" | "user" | "organization";
+  source:
+    | "debris"
+    | "cybersecurity"
+    | "nis2"
+    | "cra"
+    | "spacecraft"
+    | "user"
+    | "organization";
   field: string;
   value: string | number | boolean;
   articleRef: string;
 }
 
 export interface MissingDataPoint {
-  source: "debris" | "cybersecurity" | "spacecraft" | "user" | "organization";
+  source:
+    | "debris"
+    | "cybersecurity"
+    | "nis2"
+    | "cra"
+    | "spacecraft"
+    | "user"
+    | "organization";
   field: string;
   weight: 3 | 2 | 1;
   articleRef: string;
@@ -15,7 +15,14 @@ import type { NCADocumentType } from "./types";
 // ─── Interfaces ───
 
 export interface SectionDataField {
-  source: "debris" | "cybersecurity" | "spacecraft" | "user" | "organization";
+  source:
+    | "debris"
+    | "cybersecurity"
+    | "nis2"
+    | "cra"
+    | "spacecraft"
+    | "user"
+    | "organization";
   field: string;
   weight: 3 | 2 | 1;
   articleRef?: string;
@@ -1918,6 +1925,468 @@ export const SECTION_DATA_MAP: Record<NCADocumentType, SectionDataEntry[]> = {
       ],
     },
   ],
+
+  // ── Category E: NIS2 Directive ──
+
+  NIS2_RISK_POLICY: [
+    // 0: Cover Page & Document Control
+    { sectionIndex: 0, fields: coverPageFields },
+    // 1: Executive Summary
+    {
+      sectionIndex: 1,
+      fields: [
+        { source: "nis2", field: "entityClassification", weight: 3 },
+        { source: "nis2", field: "maturityScore", weight: 2 },
+        { source: "nis2", field: "complianceScore", weight: 2 },
+        { source: "nis2", field: "riskLevel", weight: 1 },
+      ],
+    },
+    // 2: Entity Classification & Scope
+    {
+      sectionIndex: 2,
+      fields: [
+        {
+          source: "nis2",
+          field: "entityClassification",
+          weight: 3,
+          articleRef: "NIS2 Art. 3",
+        },
+        { source: "nis2", field: "organizationSize", weight: 3 },
+        { source: "nis2", field: "subSector", weight: 2 },
+        { source: "nis2", field: "operatesGroundInfra", weight: 2 },
+        { source: "nis2", field: "memberStateCount", weight: 1 },
+      ],
+    },
+    // 3: Governance & Management Body Accountability
+    {
+      sectionIndex: 3,
+      fields: [
+        {
+          source: "nis2",
+          field: "hasRiskManagement",
+          weight: 3,
+          articleRef: "NIS2 Art. 20",
+        },
+        { source: "nis2", field: "organizationSize", weight: 2 },
+        { source: "cybersecurity", field: "hasSecurityTeam", weight: 1 },
+      ],
+    },
+    // 4: Risk Analysis & Information System Security
+    {
+      sectionIndex: 4,
+      fields: [
+        {
+          source: "nis2",
+          field: "hasRiskManagement",
+          weight: 3,
+          articleRef: "NIS2 Art. 21(2)(a)",
+        },
+        { source: "nis2", field: "hasISO27001", weight: 2 },
+        { source: "nis2", field: "riskLevel", weight: 2 },
+        { source: "cybersecurity", field: "dataSensitivityLevel", weight: 1 },
+      ],
+    },
+    // 5: Incident Handling & Business Continuity
+    {
+      sectionIndex: 5,
+      fields: [
+        {
+          source: "nis2",
+          field: "hasExistingCSIRT",
+          weight: 3,
+          articleRef: "NIS2 Art. 21(2)(b)-(c)",
+        },
+        {
+          source: "cybersecurity",
+          field: "hasIncidentResponsePlan",
+          weight: 2,
+        },
+        { source: "cybersecurity", field: "hasBCP", weight: 2 },
+      ],
+    },
+    // 6: Supply Chain & Secure Development
+    {
+      sectionIndex: 6,
+      fields: [
+        {
+          source: "cybersecurity",
+          field: "criticalSupplierCount",
+          weight: 2,
+          articleRef: "NIS2 Art. 21(2)(d)",
+        },
+        { source: "nis2", field: "operatesSatComms", weight: 2 },
+        { source: "nis2", field: "existingCertifications", weight: 1 },
+      ],
+    },
+    // 7: Effectiveness, Cyber Hygiene & Cryptography
+    {
+      sectionIndex: 7,
+      fields: [
+        {
+          source: "nis2",
+          field: "maturityScore",
+          weight: 2,
+          articleRef: "NIS2 Art. 21(2)(f)-(h)",
+        },
+        { source: "nis2", field: "hasISO27001", weight: 2 },
+        { source: "nis2", field: "employeeCount", weight: 1 },
+      ],
+    },
+    // 8: HR Security, Access Control & Authentication
+    {
+      sectionIndex: 8,
+      fields: [
+        {
+          source: "nis2",
+          field: "employeeCount",
+          weight: 2,
+          articleRef: "NIS2 Art. 21(2)(i)-(j)",
+        },
+        { source: "nis2", field: "organizationSize", weight: 2 },
+        { source: "cybersecurity", field: "hasSecurityTeam", weight: 1 },
+      ],
+    },
+    // 9: Compliance Matrix (Art. 21)
+    {
+      sectionIndex: 9,
+      fields: [
+        {
+          source: "nis2",
+          field: "complianceScore",
+          weight: 3,
+          articleRef: "NIS2 Art. 21",
+        },
+        { source: "nis2", field: "maturityScore", weight: 2 },
+        { source: "nis2", field: "entityClassification", weight: 2 },
+      ],
+    },
+  ],
+
+  NIS2_INCIDENT_NOTIFICATION: [
+    // 0: Cover Page & Document Control
+    { sectionIndex: 0, fields: coverPageFields },
+    // 1: Executive Summary
+    {
+      sectionIndex: 1,
+      fields: [
+        { source: "nis2", field: "entityClassification", weight: 3 },
+        { source: "nis2", field: "supervisoryAuthority", weight: 2 },
+        { source: "nis2", field: "hasExistingCSIRT", weight: 1 },
+      ],
+    },
+    // 2: Reporting Obligations & Recipients
+    {
+      sectionIndex: 2,
+      fields: [
+        {
+          source: "nis2",
+          field: "supervisoryAuthority",
+          weight: 3,
+          articleRef: "NIS2 Art. 23(1)",
+        },
+        { source: "nis2", field: "entityClassification", weight: 3 },
+        { source: "nis2", field: "memberStateCount", weight: 2 },
+        { source: "nis2", field: "hasRegisteredWithAuthority", weight: 2 },
+      ],
+    },
+    // 3: Significant Incident Criteria
+    {
+      sectionIndex: 3,
+      fields: [
+        {
+          source: "nis2",
+          field: "subSector",
+          weight: 3,
+          articleRef: "NIS2 Art. 23(3)",
+        },
+        { source: "nis2", field: "operatesGroundInfra", weight: 2 },
+        { source: "nis2", field: "operatesSatComms", weight: 2 },
+        { source: "nis2", field: "providesEOData", weight: 1 },
+      ],
+    },
+    // 4: Early Warning (24 Hours)
+    {
+      sectionIndex: 4,
+      fields: [
+        {
+          source: "nis2",
+          field: "supervisoryAuthority",
+          weight: 3,
+          articleRef: "NIS2 Art. 23(4)(a)",
+        },
+        { source: "nis2", field: "hasExistingCSIRT", weight: 2 },
+        { source: "nis2", field: "memberStateCount", weight: 2 },
+      ],
+    },
+    // 5: Incident Notification (72 Hours)
+    {
+      sectionIndex: 5,
+      fields: [
+        {
+          source: "nis2",
+          field: "supervisoryAuthority",
+          weight: 3,
+          articleRef: "NIS2 Art. 23(4)(b)",
+        },
+        { source: "nis2", field: "hasExistingCSIRT", weight: 2 },
+        {
+          source: "cybersecurity",
+          field: "hasIncidentResponsePlan",
+          weight: 2,
+        },
+      ],
+    },
+    // 6: Intermediate, Progress & Final Reports
+    {
+      sectionIndex: 6,
+      fields: [
+        {
+          source: "nis2",
+          field: "supervisoryAuthority",
+          weight: 2,
+          articleRef: "NIS2 Art. 23(4)(c)-(e)",
+        },
+        { source: "nis2", field: "memberStateCount", weight: 2 },
+        { source: "nis2", field: "hasExistingCSIRT", weight: 1 },
+      ],
+    },
+    // 7: Internal Workflow & Compliance Matrix
+    {
+      sectionIndex: 7,
+      fields: [
+        {
+          source: "nis2",
+          field: "complianceScore",
+          weight: 2,
+          articleRef: "NIS2 Art. 23",
+        },
+        { source: "cybersecurity", field: "hasSecurityTeam", weight: 2 },
+        { source: "nis2", field: "organizationSize", weight: 1 },
+      ],
+    },
+  ],
+
+  // ── Category F: Cyber Resilience Act ──
+
+  CRA_TECHNICAL_DOCUMENTATION: [
+    // 0: Cover Page & Document Control
+    {
+      sectionIndex: 0,
+      fields: [
+        { source: "organization", field: "name", weight: 2 },
+        { source: "cra", field: "productName", weight: 2 },
+        { source: "cra", field: "productVersion", weight: 1 },
+      ],
+    },
+    // 1: Executive Summary
+    {
+      sectionIndex: 1,
+      fields: [
+        { source: "cra", field: "productName", weight: 3 },
+        { source: "cra", field: "productClassification", weight: 3 },
+        { source: "cra", field: "conformityRoute", weight: 2 },
+        { source: "cra", field: "complianceScore", weight: 1 },
+      ],
+    },
+    // 2: Product Description & Intended Purpose
+    {
+      sectionIndex: 2,
+      fields: [
+        {
+          source: "cra",
+          field: "productName",
+          weight: 3,
+          articleRef: "CRA Annex VII(1)",
+        },
+        { source: "cra", field: "productVersion", weight: 3 },
+        { source: "cra", field: "segments", weight: 2 },
+        { source: "cra", field: "hasNetworkFunction", weight: 1 },
+      ],
+    },
+    // 3: Design, Development & System Architecture
+    {
+      sectionIndex: 3,
+      fields: [
+        {
+          source: "cra",
+          field: "segments",
+          weight: 3,
+          articleRef: "CRA Annex VII(2)(a)",
+        },
+        { source: "cra", field: "hasNetworkFunction", weight: 2 },
+        { source: "cra", field: "performsCryptoOps", weight: 2 },
+        { source: "cra", field: "processesAuthData", weight: 1 },
+      ],
+    },
+    // 4: Vulnerability Handling & SBOM
+    {
+      sectionIndex: 4,
+      fields: [
+        {
+          source: "cra",
+          field: "maturityScore",
+          weight: 2,
+          articleRef: "CRA Annex VII(2)(b), Annex I Part II",
+        },
+        { source: "cra", field: "economicOperatorRole", weight: 2 },
+        { source: "cra", field: "productVersion", weight: 1 },
+      ],
+    },
+    // 5: Production & Monitoring Processes
+    {
+      sectionIndex: 5,
+      fields: [
+        {
+          source: "cra",
+          field: "hasIEC62443",
+          weight: 2,
+          articleRef: "CRA Annex VII(2)(c)",
+        },
+        { source: "cra", field: "hasISO27001", weight: 2 },
+        { source: "cra", field: "segments", weight: 1 },
+      ],
+    },
+    // 6: Cybersecurity Risk Assessment
+    {
+      sectionIndex: 6,
+      fields: [
+        {
+          source: "cra",
+          field: "riskLevel",
+          weight: 3,
+          articleRef: "CRA Art. 13(2), Annex VII(3)",
+        },
+        { source: "cra", field: "hasNetworkFunction", weight: 2 },
+        { source: "cra", field: "processesAuthData", weight: 2 },
+        { source: "cra", field: "performsCryptoOps", weight: 2 },
+      ],
+    },
+    // 7: Support Period Determination
+    {
+      sectionIndex: 7,
+      fields: [
+        {
+          source: "cra",
+          field: "productVersion",
+          weight: 2,
+          articleRef: "CRA Art. 13(8), Annex VII(4)",
+        },
+        { source: "cra", field: "segments", weight: 2 },
+      ],
+    },
+    // 8: Standards Applied & Test Reports
+    {
+      sectionIndex: 8,
+      fields: [
+        {
+          source: "cra",
+          field: "conformityRoute",
+          weight: 3,
+          articleRef: "CRA Annex VII(5)-(6)",
+        },
+        { source: "cra", field: "hasIEC62443", weight: 2 },
+        { source: "cra", field: "hasETSIEN303645", weight: 2 },
+        { source: "cra", field: "hasCommonCriteria", weight: 1 },
+      ],
+    },
+    // 9: Essential Requirements Conformity Matrix
+    {
+      sectionIndex: 9,
+      fields: [
+        {
+          source: "cra",
+          field: "complianceScore",
+          weight: 3,
+          articleRef: "CRA Annex I",
+        },
+        { source: "cra", field: "productClassification", weight: 2 },
+        { source: "cra", field: "maturityScore", weight: 1 },
+      ],
+    },
+  ],
+
+  CRA_DECLARATION_OF_CONFORMITY: [
+    // 0: Product Identification
+    {
+      sectionIndex: 0,
+      fields: [
+        {
+          source: "cra",
+          field: "productName",
+          weight: 3,
+          articleRef: "CRA Annex V(1), (4)",
+        },
+        { source: "cra", field: "productVersion", weight: 3 },
+      ],
+    },
+    // 1: Manufacturer & Responsibility Statement
+    {
+      sectionIndex: 1,
+      fields: [
+        {
+          source: "organization",
+          field: "name",
+          weight: 3,
+          articleRef: "CRA Annex V(2)-(3)",
+        },
+        { source: "cra", field: "economicOperatorRole", weight: 2 },
+        { source: "cra", field: "isEUEstablished", weight: 2 },
+        { source: "user", field: "establishmentCountry", weight: 1 },
+      ],
+    },
+    // 2: Declaration of Conformity
+    {
+      sectionIndex: 2,
+      fields: [
+        {
+          source: "cra",
+          field: "complianceScore",
+          weight: 2,
+          articleRef: "CRA Art. 28, Annex V(5)",
+        },
+        { source: "cra", field: "productClassification", weight: 2 },
+      ],
+    },
+    // 3: Standards, Specifications & Certification
+    {
+      sectionIndex: 3,
+      fields: [
+        {
+          source: "cra",
+          field: "hasIEC62443",
+          weight: 2,
+          articleRef: "CRA Annex V(6)",
+        },
+        { source: "cra", field: "hasETSIEN303645", weight: 2 },
+        { source: "cra", field: "hasCommonCriteria", weight: 2 },
+      ],
+    },
+    // 4: Conformity Assessment Procedure
+    {
+      sectionIndex: 4,
+      fields: [
+        {
+          source: "cra",
+          field: "conformityRoute",
+          weight: 3,
+          articleRef: "CRA Art. 32, Annex V(7)",
+        },
+        { source: "cra", field: "productClassification", weight: 3 },
+      ],
+    },
+    // 5: Signature & Additional Information
+    {
+      sectionIndex: 5,
+      fields: [
+        {
+          source: "organization",
+          field: "name",
+          weight: 2,
+          articleRef: "CRA Annex V(8)",
+        },
+      ],
+    },
+  ],
 };
 
 // ─── Utility Function ───
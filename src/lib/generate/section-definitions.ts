@@ -260,4 +260,54 @@ export const SECTION_DEFINITIONS: Record<NCADocumentType, SectionDefinition[]> =
       { number: 7, title: "Deorbit & Disposal" },
       { number: 8, title: "Hazard Acceptance & Open Items" },
     ],
+
+    // ─── Category E: NIS2 Directive ───
+
+    NIS2_RISK_POLICY: [
+      { number: 1, title: "Cover Page & Document Control" },
+      { number: 2, title: "Executive Summary" },
+      { number: 3, title: "Entity Classification & Scope" },
+      { number: 4, title: "Governance & Management Body Accountability" },
+      { number: 5, title: "Risk Analysis & Information System Security" },
+      { number: 6, title: "Incident Handling & Business Continuity" },
+      { number: 7, title: "Supply Chain & Secure Development" },
+      { number: 8, title: "Effectiveness, Cyber Hygiene & Cryptography" },
+      { number: 9, title: "HR Security, Access Control & Authentication" },
+      { number: 10, title: "Compliance Matrix (Art. 21)" },
+    ],
+
+    NIS2_INCIDENT_NOTIFICATION: [
+      { number: 1, title: "Cover Page & Document Control" },
+      { number: 2, title: "Executive Summary" },
+      { number: 3, title: "Reporting Obligations & Recipients" },
+      { number: 4, title: "Significant Incident Criteria" },
+      { number: 5, title: "Early Warning (24 Hours)" },
+      { number: 6, title: "Incident Notification (72 Hours)" },
+      { number: 7, title: "Intermediate, Progress & Final Reports" },
+      { number: 8, title: "Internal Workflow & Compliance Matrix" },
+    ],
+
+    // ─── Category F: Cyber Resilience Act ───
+
+    CRA_TECHNICAL_DOCUMENTATION: [
+      { number: 1, title: "Cover Page & Document Control" },
+      { number: 2, title: "Executive Summary" },
+      { number: 3, title: "Product Description & Intended Purpose" },
+      { number: 4, title: "Design, Development & System Architecture" },
+      { number: 5, title: "Vulnerability Handling & SBOM" },
+      { number: 6, title: "Production & Monitoring Processes" },
+      { number: 7, title: "Cybersecurity Risk Assessment" },
+      { number: 8, title: "Support Period Determination" },
+      { number: 9, title: "Standards Applied & Test Reports" },
+      { number: 10, title: "Essential Requirements Conformity Matrix" },
+    ],
+
+    CRA_DECLARATION_OF_CONFORMITY: [
+      { number: 1, title: "Product Identification" },
+      { number: 2, title: "Manufacturer & Responsibility Statement" },
+      { number: 3, title: "Declaration of Conformity" },
+      { number: 4, title: "Standards, Specifications & Certification" },
+      { number: 5, title: "Conformity Assessment Procedure" },
+      { number: 6, title: "Signature & Additional Information" },
+    ],
   };
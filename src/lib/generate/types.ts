@@ -28,7 +28,11 @@ export type NCADocumentType =
   | "AUTHORIZATION_APPLICATION"
   | "ENVIRONMENTAL_FOOTPRINT"
   | "INSURANCE_COMPLIANCE"
-  | "HAZARD_REPORT";
+  | "HAZARD_REPORT"
+  | "NIS2_RISK_POLICY"
+  | "NIS2_INCIDENT_NOTIFICATION"
+  | "CRA_TECHNICAL_DOCUMENTATION"
+  | "CRA_DECLARATION_OF_CONFORMITY";
 
 export type NCADocumentStatus =
   | "DRAFT"
@@ -49,12 +53,14 @@ export type DocumentCategory =
   | "debris"
   | "cybersecurity"
   | "general"
-  | "safety";
+  | "safety"
+  | "nis2"
+  | "cra";
 export type DocumentPriority = "P0" | "P1" | "P2";
 
 export interface DocumentTypeMeta {
   id: NCADocumentType;
-  code: string; // A1, A2, ..., B8
+  code: string; // A1, A2, ..., B8, E1, F1
   title: string;
   shortTitle: string;
   category: DocumentCategory;
@@ -311,6 +317,56 @@ export const NCA_DOCUMENT_TYPES: DocumentTypeMeta[] = [
       "8-chapter hazard report with risk matrix, FMECA analysis, mitigation measures, and Verity attestation. Generated from Hazard Analysis module data.",
     estimatedSections: 8,
   },
+  // Category E — NIS2 Directive (EU) 2022/2555
+  {
+    id: "NIS2_RISK_POLICY",
+    code: "E1",
+    title: "NIS2 Cybersecurity Risk-Management Policy",
+    shortTitle: "NIS2 Risk Policy",
+    category: "nis2",
+    priority: "P0",
+    articleRef: "NIS2 Art. 20-21",
+    description:
+      "Management-approved policy covering all ten NIS2 Art. 21(2) risk-management measures, fed from the NIS2 assessment",
+    estimatedSections: 10,
+  },
+  {
+    id: "NIS2_INCIDENT_NOTIFICATION",
+    code: "E2",
+    title: "NIS2 Incident Notification Pack",
+    shortTitle: "NIS2 Notifications",
+    category: "nis2",
+    priority: "P0",
+    articleRef: "NIS2 Art. 23",
+    description:
+      "Significance criteria plus early warning (24h), incident notification (72h) and final report (1 month) templates for the CSIRT / competent authority",
+    estimatedSections: 8,
+  },
+  // Category F — Cyber Resilience Act (EU) 2024/2847
+  {
+    id: "CRA_TECHNICAL_DOCUMENTATION",
+    code: "F1",
+    title: "CRA Technical Documentation",
+    shortTitle: "CRA Tech. Docs",
+    category: "cra",
+    priority: "P0",
+    articleRef: "CRA Art. 31, Annex VII",
+    description:
+      "Annex VII technical documentation for a product with digital elements, fed from the CRA assessment",
+    estimatedSections: 10,
+  },
+  {
+    id: "CRA_DECLARATION_OF_CONFORMITY",
+    code: "F2",
+    title: "CRA EU Declaration of Conformity",
+    shortTitle: "CRA DoC",
+    category: "cra",
+    priority: "P0",
+    articleRef: "CRA Art. 28, Annex V",
+    description:
+      "EU declaration of conformity per Annex V with the conformity assessment procedure matching the product class",
+    estimatedSections: 6,
+  },
 ];
 
 export const NCA_DOC_TYPE_MAP: Record<NCADocumentType, DocumentTypeMeta> =
@@ -381,6 +437,66 @@ export interface Generate2DataBundle {
       responses?: Record<string, unknown> | null;
     }>;
   } | null;
+  nis2?: {
+    assessment: {
+      id: string;
+      assessmentName?: string | null;
+      entityClassification?: string | null;
+      classificationReason?: string | null;
+      sector?: string | null;
+      subSector?: string | null;
+      organizationSize?: string | null;
+      employeeCount?: number | null;
+      memberStateCount: number;
+      operatesGroundInfra: boolean;
+      operatesSatComms: boolean;
+      providesEOData: boolean;
+      existingCertifications?: string | null;
+      hasISO27001: boolean;
+      hasExistingCSIRT: boolean;
+      hasRiskManagement: boolean;
+      hasRegisteredWithAuthority: boolean;
+      supervisoryAuthority?: string | null;
+      complianceScore?: number | null;
+      maturityScore?: number | null;
+      riskLevel?: string | null;
+    };
+    requirements: Array<{
+      requirementId: string;
+      status: string;
+      notes?: string | null;
+      responses?: Record<string, unknown> | null;
+    }>;
+  } | null;
+  cra?: {
+    assessment: {
+      id: string;
+      productName: string;
+      productVersion?: string | null;
+      economicOperatorRole: string;
+      productClassification: string;
+      conformityRoute: string;
+      isOutOfScope: boolean;
+      segments: string;
+      hasNetworkFunction?: boolean | null;
+      processesAuthData?: boolean | null;
+      performsCryptoOps?: boolean | null;
+      isEUEstablished?: boolean | null;
+      hasIEC62443?: boolean | null;
+      hasETSIEN303645?: boolean | null;
+      hasCommonCriteria?: boolean | null;
+      hasISO27001?: boolean | null;
+      complianceScore?: number | null;
+      maturityScore?: number | null;
+      riskLevel?: string | null;
+    };
+    requirements: Array<{
+      requirementId: string;
+      status: string;
+      notes?: string | null;
+      responses?: Record<string, unknown> | null;
+    }>;
+  } | null;
   spacecraft: Array<{
     name: string;
     noradId?: string | null;
@@ -398,7 +514,14 @@ export interface SectionDefinition {
 // ─── Readiness ───
 
 export interface ReadinessField {
-  source: "debris" | "cybersecurity" | "user" | "spacecraft" | "organization";
+  source:
+    | "debris"
+    | "cybersecurity"
+    | "nis2"
+    | "cra"
+    | "user"
+    | "spacecraft"
+    | "organization";
   field: string;
   weight: 3 | 2 | 1; // Critical / Important / Nice-to-have
 }
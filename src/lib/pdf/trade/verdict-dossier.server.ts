@@ -96,6 +96,9 @@ const LIST_LABEL: Record<string, string> = {
   UN_CONSOLIDATED: "UN Consolidated",
   EU_ANNEX_IV: "EU Reg. 833/2014 Annex IV",
   OPEN_SANCTIONS: "OpenSanctions",
+  JP_METI_EUL: "Japan METI End User List",
+  CA_SEMA: "Canada SEMA / JVCFOA",
+  AU_DFAT: "Australia DFAT Consolidated List",
 };
 
 const LIST_CITATION: Record<string, string> = {
@@ -29,11 +29,18 @@ import {
   dataRowCitation,
 } from "./citation";
 import { searchNormAnchors, normHitToCitation } from "./norm-anchor";
-import { noisifyAggregate, getBudgetStatus } from "./differential-privacy";
 import {
-  EU_SPACE_ACT_AUTH_FSM_DEF,
-  NIS2_INCIDENT_FSM_DEF,
-} from "./workflow-fsm";
+  COUNT_METRICS,
+  DpQueryError,
+  getBudgetStatus,
+  HISTOGRAM_DIMENSIONS,
+  MAX_QUERY_EPSILON,
+  MEAN_MEASURES,
+  MIN_QUERY_EPSILON,
+  runInsightQuery,
+  type DpInsightAnswer,
+} from "./differential-privacy-service";
+import { resolveMachine } from "./workflow-machine-service";
 import { consultAtlasLegalOpinion } from "./astra-bridge";
 
 export const PHAROS_ASTRA_TOOLS: Anthropic.Tool[] = [
@@ -78,30 +85,60 @@ export const PHAROS_ASTRA_TOOLS: Anthropic.Tool[] = [
   {
     name: "cross_authority_aggregate",
     description:
-      "Differential-Privacy-geschützte Sektor-Aggregate über ALLE EU-Operatoren (nicht nur die der callenden Behörde). Liefert noisy-Counts mit Laplace-Mechanismus, ε=1.0 default. Kein einzelner Operator ist aus dem Output rekonstruierbar — selbst wenn alle Behörden ihre Outputs zusammentragen würden. Verbraucht DP-Budget (10.0 ε pro Tag pro Behörde).",
+      "Differential-Privacy-geschützte Sektor-Aggregate über ALLE EU-Operatoren (nicht nur die der callenden Behörde). Abfragearten: count (Laplace), histogram (Laplace, ein ε für alle Bins), mean (Mittelwert mit Clamping auf [lower, upper]) und topk (häufigste offene Vorfall-Kategorien, Exponential-Mechanismus). Jede Antwort enthält 95%-Konfidenzintervall und Restbudget. Kein einzelner Operator ist aus dem Output rekonstruierbar — selbst wenn alle Behörden ihre Outputs zusammentragen würden. Verbraucht DP-Budget (10.0 ε pro Tag pro Behörde; Anfragen mit `jurisdiction` auf verschiedene Jurisdiktionen komponieren parallel). Bei erschöpftem Budget wird die Anfrage abgelehnt.",
     input_schema: {
       type: "object",
       properties: {
+        kind: {
+          type: "string",
+          enum: ["count", "histogram", "mean", "topk"],
+          description: "Abfrageart (default count).",
+        },
         metric: {
           type: "string",
-          enum: [
-            "operators-with-open-incidents",
-            "operators-with-overdue-deadlines",
-            "operators-in-alert-tier",
-            "operators-in-drift-tier",
-          ],
+          enum: [...COUNT_METRICS],
+          description: "Nur für kind=count: welche Sektor-Metrik?",
+        },
+        dimension: {
+          type: "string",
+          enum: [...HISTOGRAM_DIMENSIONS, "open-incident-category"],
           description:
-            "Welche Sektor-Metrik soll DP-geschützt aggregiert werden?",
+            "kind=histogram: compliance-tier | open-incidents | overdue-deadlines. kind=topk: open-incident-category.",
+        },
+        measure: {
+          type: "string",
+          enum: [...MEAN_MEASURES],
+          description: "Nur für kind=mean: welcher Wert pro Operator?",
+        },
+        lower: {
+          type: "number",
+          description:
+            "kind=mean: untere Clamping-Grenze (default je measure, z.B. 0).",
+        },
+        upper: {
+          type: "number",
+          description:
+            "kind=mean: obere Clamping-Grenze (default je measure, z.B. 100 für compliance-score).",
+        },
+        k: {
+          type: "integer",
+          minimum: 1,
+          maximum: 5,
+          description: "kind=topk: Anzahl Kategorien (default 3).",
+        },
+        jurisdiction: {
+          type: "string",
+          description:
+            "Optional: nur Operatoren dieser Heimat-Jurisdiktion (ISO-Code, z.B. DE).",
         },
         epsilon: {
           type: "number",
-          minimum: 0.1,
-          maximum: 5.0,
+          minimum: MIN_QUERY_EPSILON,
+          maximum: MAX_QUERY_EPSILON,
           description:
             "Privacy-Budget-Verbrauch (default 1.0). Niedriger = privater aber rauschiger.",
         },
       },
-      required: ["metric"],
     },
   },
   {
@@ -181,14 +218,14 @@ export const PHAROS_ASTRA_TOOLS: Anthropic.Tool[] = [
   {
     name: "list_open_workflows",
     description:
-      "Listet alle offenen Workflow-Cases (NIS2-Incidents, EU-Space-Act-Authorisations) der callenden Behörde mit aktuellem State, Zeit-im-State und SLA-Restzeit. Hilft Sachbearbeitern bei Triage: 'Welche Vorfälle nähern sich der 24h-Frist?'",
+      "Listet alle offenen Workflow-Cases (NIS2-Incidents, EU-Space-Act-Authorisations, behördeneigene Verfahren) der callenden Behörde mit aktuellem State, Zeit-im-State und SLA-Restzeit. Hilft Sachbearbeitern bei Triage: 'Welche Vorfälle nähern sich der 24h-Frist?'",
     input_schema: {
       type: "object",
       properties: {
         fsmId: {
           type: "string",
-          enum: ["nis2-incident-v1", "eu-space-act-authorisation-v1"],
-          description: "Optional: nur einen FSM-Typ.",
+          description:
+            "Optional: nur einen FSM-Typ, z.B. nis2-incident-v1, eu-space-act-authorisation-v1 oder die fsmId einer behördeneigenen Maschine.",
         },
         slaTone: {
           type: "string",
@@ -528,118 +565,29 @@ export async function executePharosAstraTool(
     }
 
     if (name === "cross_authority_aggregate") {
-      const metric = String(input.metric ?? "");
-      const epsilon = typeof input.epsilon === "number" ? input.epsilon : 1.0;
-
-      // Hole REAL counts aus DB. Für Phase 1 simple Aggregate über
-      // alle aktiven OversightRelationships mit ACTIVE Status. In
-      // Phase 2 sollte das gegen materialisierte Sicht laufen, die
-      // täglich vom Cron refresht wird.
-      let realCount = 0;
+      // Alte Aufrufe ohne `kind` sind Counts über `metric`.
+      const query = { kind: "count", ...input };
+      let answer: DpInsightAnswer;
       try {
-        const allActiveOversights = await prisma.oversightRelationship.findMany(
-          {
-            where: { status: "ACTIVE" },
-            select: { operatorOrgId: true },
-          },
-        );
-        const operatorOrgIds = Array.from(
-          new Set(allActiveOversights.map((o) => o.operatorOrgId)),
-        );
-        if (operatorOrgIds.length === 0) {
+        answer = await runInsightQuery({
+          authorityProfileId: ctx.authorityProfileId,
+          actorUserId: null, // Tool-Kontext kennt nur die Behörde
+          query,
+        });
+      } catch (err) {
+        if (err instanceof DpQueryError && err.code !== "INVALID") {
           return {
             ok: true,
             abstain: true,
-            abstainReason:
-              "Keine aktiven Aufsichten im EU-weiten Pool — DP-Aggregat nicht möglich (würde die Existenz / Nicht-Existenz einzelner Operatoren leaken).",
+            abstainReason: err.message,
             citations: [],
-            data: { metric, epsilon },
-          };
-        }
-        const memberLookup = await prisma.organizationMember.findMany({
-          where: { organizationId: { in: operatorOrgIds } },
-          select: { organizationId: true, userId: true },
-        });
-        const orgToUsers = new Map<string, string[]>();
-        for (const m of memberLookup) {
-          const arr = orgToUsers.get(m.organizationId) ?? [];
-          arr.push(m.userId);
-          orgToUsers.set(m.organizationId, arr);
-        }
-        const countOperators = async (
-          predicate: (orgId: string) => Promise<boolean>,
-        ): Promise<number> => {
-          let n = 0;
-          for (const orgId of operatorOrgIds) {
-            if (await predicate(orgId)) n++;
-          }
-          return n;
-        };
-
-        if (metric === "operators-with-open-incidents") {
-          realCount = await countOperators(async (orgId) => {
-            const userIds = orgToUsers.get(orgId) ?? [];
-            if (userIds.length === 0) return false;
-            const c = await prisma.incident.count({
-              where: {
-                supervision: { userId: { in: userIds } },
-                status: { in: ["detected", "investigating", "contained"] },
-              },
-            });
-            return c > 0;
-          });
-        } else if (metric === "operators-with-overdue-deadlines") {
-          realCount = await countOperators(async (orgId) => {
-            const userIds = orgToUsers.get(orgId) ?? [];
-            if (userIds.length === 0) return false;
-            const c = await prisma.deadline.count({
-              where: {
-                userId: { in: userIds },
-                dueDate: { lt: new Date() },
-                completedAt: null,
-                status: { notIn: ["COMPLETED", "CANCELLED"] },
-              },
-            });
-            return c > 0;
-          });
-        } else if (
-          metric === "operators-in-alert-tier" ||
-          metric === "operators-in-drift-tier"
-        ) {
-          realCount = await countOperators(async (orgId) => {
-            const userIds = orgToUsers.get(orgId) ?? [];
-            if (userIds.length === 0) return false;
-            const [openIncidents, overdueDeadlines] = await Promise.all([
-              prisma.incident.count({
-                where: {
-                  supervision: { userId: { in: userIds } },
-                  status: { in: ["detected", "investigating", "contained"] },
-                },
-              }),
-              prisma.deadline.count({
-                where: {
-                  userId: { in: userIds },
-                  dueDate: { lt: new Date() },
-                  completedAt: null,
-                  status: { notIn: ["COMPLETED", "CANCELLED"] },
-                },
-              }),
-            ]);
-            const score = Math.max(
-              0,
-              100 - openIncidents * 10 - overdueDeadlines * 5,
-            );
-            if (metric === "operators-in-alert-tier") return score < 70;
-            return score >= 70 && score < 90;
-          });
-        } else {
-          return {
-            ok: false,
-            citations: [],
-            error: `Unbekannte Metrik: ${metric}`,
+            data: {
+              query,
+              budget:
+                err.budget ?? (await getBudgetStatus(ctx.authorityProfileId)),
+            },
           };
         }
-      } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
         return {
           ok: false,
@@ -648,36 +596,16 @@ export async function executePharosAstraTool(
         };
       }
 
-      const aggregate = noisifyAggregate({
-        authorityProfileId: ctx.authorityProfileId,
-        metric: metric as Parameters<typeof noisifyAggregate>[0]["metric"],
-        epsilon,
-        realCount,
-      });
-
-      if (!aggregate.ok) {
-        return {
-          ok: true,
-          abstain: true,
-          abstainReason: aggregate.reason ?? "DP-Budget erschöpft",
-          citations: [],
-          data: {
-            metric,
-            epsilon,
-            budget: getBudgetStatus(ctx.authorityProfileId),
-          },
-        };
-      }
-
+      const { release } = answer;
       const citations: Citation[] = [
         computationCitation({
-          name: `dp-aggregate-${metric}`,
-          version: "v1.0",
+          name: `dp-${answer.query.kind}`,
+          version: "v2.0",
           inputs: {
-            mechanism: aggregate.mechanism,
-            epsilon: aggregate.epsilon,
-            sensitivity: 1,
-            algorithm: "Laplace",
+            query: answer.query,
+            mechanism: release.mechanism,
+            epsilon: answer.epsilon,
+            ledgerEntryId: answer.ledgerEntryId,
           },
         }),
       ];
@@ -686,20 +614,14 @@ export async function executePharosAstraTool(
         ok: true,
         citations,
         data: {
-          metric,
-          released: {
-            count: aggregate.releasedCount,
-            confidence95: [aggregate.lowerBound95, aggregate.upperBound95],
-            mechanism: aggregate.mechanism,
-            epsilon: aggregate.epsilon,
-            releasedAt: aggregate.releasedAt,
-            _citation: citations[0].id,
-          },
-          budget: {
-            remainingToday: aggregate.remainingBudget,
-          },
+          query: answer.query,
+          released: { ...release, _citation: citations[0].id },
+          confidence: answer.confidence,
+          budget: answer.budget,
           privacyGuarantee:
-            "ε-Differential-Privacy mit Laplace-Mechanismus. Eine Veränderung der Daten eines beliebigen einzelnen Operators ändert die Output-Verteilung um maximal exp(ε).",
+            release.mechanism === "exponential"
+              ? "ε-Differential-Privacy mit Exponential-Mechanismus (k Runden à ε/k). Scores werden nicht veröffentlicht."
+              : "ε-Differential-Privacy mit Laplace-Mechanismus. Eine Veränderung der Daten eines beliebigen einzelnen Operators ändert die Output-Verteilung um maximal exp(ε).",
         },
       };
     }
@@ -951,15 +873,15 @@ export async function executePharosAstraTool(
       });
 
       // Compute SLA-tone per case
-      const fsmDefs: Record<string, typeof NIS2_INCIDENT_FSM_DEF> = {
-        "nis2-incident-v1": NIS2_INCIDENT_FSM_DEF,
-        "eu-space-act-authorisation-v1": EU_SPACE_ACT_AUTH_FSM_DEF,
-      };
+      const defs = new Map(
+        await Promise.all(
+          [...new Set(cases.map((c) => c.fsmId))].map(
+            async (id) => [id, (await resolveMachine(id))?.def] as const,
+          ),
+        ),
+      );
       const enriched = cases.map((c) => {
-        const def = fsmDefs[c.fsmId];
-        const stateDef = def?.states[
-          c.currentState as keyof typeof def.states
-        ] as { after?: { afterMs: number } } | undefined;
+        const stateDef = defs.get(c.fsmId)?.states[c.currentState];
         const elapsed = Date.now() - c.enteredStateAt.getTime();
         const slaRemaining = stateDef?.after
           ? stateDef.after.afterMs - elapsed
@@ -23,16 +23,8 @@ import "server-only";
 import { createHash } from "node:crypto";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
-import {
-  EU_SPACE_ACT_AUTH_FSM_DEF,
-  NIS2_INCIDENT_FSM_DEF,
-} from "./workflow-fsm";
 import { DEFAULT_PROFILES } from "./multi-party-approval";
-
-const FSM_DEFS = {
-  "nis2-incident-v1": NIS2_INCIDENT_FSM_DEF,
-  "eu-space-act-authorisation-v1": EU_SPACE_ACT_AUTH_FSM_DEF,
-};
+import { resolveMachine } from "./workflow-machine-service";
 
 export interface BriefingPayload {
   authorityProfileId: string;
@@ -140,12 +132,8 @@ export async function generateBriefing(
       });
       continue;
     }
-    const def = (FSM_DEFS as Record<string, typeof NIS2_INCIDENT_FSM_DEF>)[
-      c.fsmId
-    ];
-    const stateDef = def?.states[c.currentState as keyof typeof def.states] as
-      | { after?: { afterMs: number } }
-      | undefined;
+    const def = (await resolveMachine(c.fsmId))?.def;
+    const stateDef = def?.states[c.currentState];
     if (!stateDef?.after) continue;
     const remaining =
       stateDef.after.afterMs - (now - c.enteredStateAt.getTime());
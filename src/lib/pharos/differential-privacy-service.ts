@@ -0,0 +1,577 @@
+import "server-only";
+
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Pharos DP-Insights — Abfragesprache + persistentes Privacy-Budget.
+ *
+ * Eine Behörde stellt eine Anfrage über den EU-weiten Operator-Pool:
+ *
+ *   { kind: "count",     metric: "operators-with-open-incidents" }
+ *   { kind: "histogram", dimension: "compliance-tier" }
+ *   { kind: "mean",      measure: "compliance-score", lower: 0, upper: 100 }
+ *   { kind: "topk",      dimension: "open-incident-category", k: 3 }
+ *
+ * optional mit `jurisdiction` (Heimat-Jurisdiktion der Operatoren) und
+ * `epsilon`. Jede beantwortete Anfrage wird als PharosDpLedgerEntry
+ * gebucht; der Tagesverbrauch ist die Komposition aller Einträge des
+ * UTC-Tages (`composeEpsilon`). Reicht das Restbudget nicht, wird die
+ * Anfrage abgelehnt, BEVOR Rohdaten gelesen werden — und im selben
+ * Serializable-Transaction-Schritt wie die Buchung nochmals geprüft,
+ * damit parallele Anfragen das Budget nicht gemeinsam überziehen
+ * (Audit T2-P1).
+ *
+ * Heimat-Jurisdiktion: die Jurisdiktion der ältesten aktiven Aufsicht
+ * eines Operators. Damit liegt jeder Operator in genau einem Teil —
+ * Anfragen mit `jurisdiction` komponieren parallel.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import type { IncidentCategory } from "@/lib/services/incident-response-service";
+import {
+  composeEpsilon,
+  dpClampedMean,
+  dpCount,
+  dpHistogram,
+  dpTopK,
+  DEFAULT_CONFIDENCE,
+  DEFAULT_EPSILON,
+  type DpCountResult,
+  type DpHistogramResult,
+  type DpMeanResult,
+  type DpTopKResult,
+  type EpsilonCharge,
+} from "./differential-privacy";
+
+/** ε pro Behörde und UTC-Tag. */
+export const DAILY_EPSILON_BUDGET = 10.0;
+
+export const MIN_QUERY_EPSILON = 0.1;
+export const MAX_QUERY_EPSILON = 5.0;
+
+/** Partition-Gruppe für Anfragen mit `jurisdiction`-Filter. */
+export const HOME_JURISDICTION_PARTITION = "home-jurisdiction";
+
+// ─── Abfragesprache ──────────────────────────────────────────────────
+
+export const COUNT_METRICS = [
+  "operators-with-open-incidents",
+  "operators-with-overdue-deadlines",
+  "operators-in-alert-tier",
+  "operators-in-drift-tier",
+] as const;
+
+export const HISTOGRAM_DIMENSIONS = [
+  "compliance-tier",
+  "open-incidents",
+  "overdue-deadlines",
+] as const;
+
+export const MEAN_MEASURES = [
+  "compliance-score",
+  "open-incidents",
+  "overdue-deadlines",
+] as const;
+
+/** Feste, datenunabhängige Bins je Histogramm-Dimension. */
+const HISTOGRAM_BINS: Record<
+  (typeof HISTOGRAM_DIMENSIONS)[number],
+  readonly string[]
+> = {
+  "compliance-tier": ["stable", "drift", "alert"],
+  "open-incidents": ["0", "1", "2-4", "5+"],
+  "overdue-deadlines": ["0", "1", "2-4", "5+"],
+};
+
+/** Clamping-Grenzen, wenn die Anfrage keine eigenen setzt. */
+const MEAN_DEFAULT_BOUNDS: Record<
+  (typeof MEAN_MEASURES)[number],
+  { lower: number; upper: number }
+> = {
+  "compliance-score": { lower: 0, upper: 100 },
+  "open-incidents": { lower: 0, upper: 10 },
+  "overdue-deadlines": { lower: 0, upper: 20 },
+};
+
+/** Kandidaten für Top-k — feste Liste, nicht aus den Daten abgeleitet. */
+const INCIDENT_CATEGORIES = [
+  "loss_of_contact",
+  "debris_generation",
+  "cyber_incident",
+  "spacecraft_anomaly",
+  "conjunction_event",
+  "regulatory_breach",
+  "nis2_significant_incident",
+  "nis2_near_miss",
+  "other",
+] as const satisfies readonly IncidentCategory[];
+
+const OPEN_INCIDENT_STATUSES = ["detected", "investigating", "contained"];
+
+const Common = {
+  jurisdiction: z
+    .string()
+    .regex(/^[A-Z]{2,4}$/)
+    .optional(),
+  epsilon: z.number().min(MIN_QUERY_EPSILON).max(MAX_QUERY_EPSILON).optional(),
+};
+
+export const DpQuerySchema = z.discriminatedUnion("kind", [
+  z
+    .object({
+      kind: z.literal("count"),
+      metric: z.enum(COUNT_METRICS),
+      ...Common,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("histogram"),
+      dimension: z.enum(HISTOGRAM_DIMENSIONS),
+      ...Common,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("mean"),
+      measure: z.enum(MEAN_MEASURES),
+      lower: z.number().optional(),
+      upper: z.number().optional(),
+      ...Common,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("topk"),
+      dimension: z.literal("open-incident-category"),
+      k: z.number().int().min(1).max(5).default(3),
+      ...Common,
+    })
+    .strict(),
+]);
+
+export type DpQuery = z.infer<typeof DpQuerySchema>;
+
+export type DpRelease =
+  | ({ kind: "count" } & DpCountResult)
+  | ({ kind: "histogram" } & DpHistogramResult)
+  | ({ kind: "mean" } & DpMeanResult)
+  | ({ kind: "topk" } & DpTopKResult);
+
+export interface DpBudgetStatus {
+  day: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export interface DpInsightAnswer {
+  query: DpQuery;
+  epsilon: number;
+  confidence: number;
+  release: DpRelease;
+  /** Budget NACH dieser Anfrage. */
+  budget: DpBudgetStatus;
+  ledgerEntryId: string;
+}
+
+export class DpQueryError extends Error {
+  constructor(
+    public code: "INVALID" | "BUDGET_EXHAUSTED" | "EMPTY_POOL",
+    message: string,
+    public budget?: DpBudgetStatus,
+  ) {
+    super(message);
+    this.name = "DpQueryError";
+  }
+}
+
+// ─── Budget-Ledger ───────────────────────────────────────────────────
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+  );
+}
+
+function statusFrom(charges: EpsilonCharge[], now: Date): DpBudgetStatus {
+  const spent = composeEpsilon(charges);
+  return {
+    day: utcDay(now),
+    limit: DAILY_EPSILON_BUDGET,
+    spent,
+    remaining: Math.max(0, DAILY_EPSILON_BUDGET - spent),
+    resetsAt: nextUtcMidnight(now).toISOString(),
+  };
+}
+
+/** Rundungsfehler der Float-Summe dürfen ein exakt ausgeschöpftes
+ *  Budget nicht als überzogen werten. */
+const BUDGET_EPSILON_TOLERANCE = 1e-9;
+
+function exceeds(charges: EpsilonCharge[], next: EpsilonCharge): boolean {
+  return (
+    composeEpsilon([...charges, next]) >
+    DAILY_EPSILON_BUDGET + BUDGET_EPSILON_TOLERANCE
+  );
+}
+
+const LEDGER_SELECT = {
+  epsilon: true,
+  partitionGroup: true,
+  partitionKey: true,
+} as const;
+
+export async function getBudgetStatus(
+  authorityProfileId: string,
+  now = new Date(),
+): Promise<DpBudgetStatus> {
+  const entries = await prisma.pharosDpLedgerEntry.findMany({
+    where: { authorityProfileId, day: utcDay(now) },
+    select: LEDGER_SELECT,
+  });
+  return statusFrom(entries, now);
+}
+
+function chargeFor(query: DpQuery): EpsilonCharge {
+  return {
+    epsilon: query.epsilon ?? DEFAULT_EPSILON,
+    partitionGroup: query.jurisdiction ? HOME_JURISDICTION_PARTITION : null,
+    partitionKey: query.jurisdiction ?? null,
+  };
+}
+
+const LEDGER_RETRY_MAX_ATTEMPTS = 5;
+const PRISMA_SERIALIZATION_FAILURE = "P2034";
+
+/** Bucht die Anfrage, falls das Tagesbudget reicht. Lesen + Prüfen +
+ *  Schreiben laufen Serializable — zwei parallele Anfragen können nicht
+ *  beide gegen denselben Stand prüfen. Retry bei P2034 wie in
+ *  oversight-service.ts#emitOversightAccessLog. */
+async function chargeLedger(input: {
+  authorityProfileId: string;
+  actorUserId: string | null;
+  query: DpQuery;
+  now: Date;
+}): Promise<{ entryId: string; budget: DpBudgetStatus }> {
+  const day = utcDay(input.now);
+  const charge = chargeFor(input.query);
+
+  for (let attempt = 1; attempt <= LEDGER_RETRY_MAX_ATTEMPTS; attempt++) {
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const entries = await tx.pharosDpLedgerEntry.findMany({
+            where: { authorityProfileId: input.authorityProfileId, day },
+            select: LEDGER_SELECT,
+          });
+          if (exceeds(entries, charge)) {
+            throw budgetExhausted(charge, statusFrom(entries, input.now));
+          }
+          const entry = await tx.pharosDpLedgerEntry.create({
+            data: {
+              authorityProfileId: input.authorityProfileId,
+              actorUserId: input.actorUserId,
+              day,
+              queryKind: input.query.kind,
+              query: input.query as Prisma.InputJsonValue,
+              epsilon: charge.epsilon,
+              partitionGroup: charge.partitionGroup,
+              partitionKey: charge.partitionKey,
+            },
+            select: { id: true },
+          });
+          return {
+            entryId: entry.id,
+            budget: statusFrom([...entries, charge], input.now),
+          };
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+      );
+    } catch (err) {
+      const code =
+        typeof err === "object" && err !== null && "code" in err
+          ? (err as { code: string }).code
+          : undefined;
+      if (
+        code === PRISMA_SERIALIZATION_FAILURE &&
+        attempt < LEDGER_RETRY_MAX_ATTEMPTS
+      ) {
+        continue;
+      }
+      throw err;
+    }
+  }
+  // Unreachable — die Schleife returnt oder wirft.
+  throw new Error("DP ledger charge failed");
+}
+
+function budgetExhausted(
+  charge: EpsilonCharge,
+  budget: DpBudgetStatus,
+): DpQueryError {
+  return new DpQueryError(
+    "BUDGET_EXHAUSTED",
+    `DP-Tagesbudget erschöpft — verbraucht ε=${budget.spent.toFixed(2)} von ${budget.limit}, Anfrage kostet ε=${charge.epsilon}${charge.partitionKey ? ` (Partition ${charge.partitionKey})` : ""}. Neues Budget ab ${budget.resetsAt}.`,
+    budget,
+  );
+}
+
+// ─── Operator-Pool ───────────────────────────────────────────────────
+
+export interface OperatorSnapshot {
+  homeJurisdiction: string;
+  openIncidents: number;
+  openIncidentCategories: Set<string>;
+  overdueDeadlines: number;
+  score: number;
+}
+
+/** Liest den EU-weiten Pool: alle Operatoren mit mindestens einer
+ *  aktiven Aufsicht. Ergebnis verlässt diese Datei nie ungerauscht. */
+async function collectOperatorPool(): Promise<OperatorSnapshot[]> {
+  const oversights = await prisma.oversightRelationship.findMany({
+    where: { status: "ACTIVE" },
+    orderBy: { initiatedAt: "asc" },
+    select: {
+      operatorOrgId: true,
+      authorityProfile: { select: { jurisdiction: true } },
+    },
+  });
+  const homeJurisdiction = new Map<string, string>();
+  for (const o of oversights) {
+    if (!homeJurisdiction.has(o.operatorOrgId)) {
+      homeJurisdiction.set(o.operatorOrgId, o.authorityProfile.jurisdiction);
+    }
+  }
+  if (homeJurisdiction.size === 0) return [];
+
+  const members = await prisma.organizationMember.findMany({
+    where: { organizationId: { in: Array.from(homeJurisdiction.keys()) } },
+    select: { organizationId: true, userId: true },
+  });
+  const orgToUsers = new Map<string, string[]>();
+  for (const m of members) {
+    const arr = orgToUsers.get(m.organizationId) ?? [];
+    arr.push(m.userId);
+    orgToUsers.set(m.organizationId, arr);
+  }
+
+  const pool: OperatorSnapshot[] = [];
+  for (const [orgId, jurisdiction] of homeJurisdiction) {
+    const userIds = orgToUsers.get(orgId) ?? [];
+    const [incidents, overdueDeadlines] =
+      userIds.length === 0
+        ? [[], 0]
+        : await Promise.all([
+            prisma.incident.findMany({
+              where: {
+                supervision: { userId: { in: userIds } },
+                status: { in: OPEN_INCIDENT_STATUSES },
+              },
+              select: { category: true },
+            }),
+            prisma.deadline.count({
+              where: {
+                userId: { in: userIds },
+                dueDate: { lt: new Date() },
+                completedAt: null,
+                status: { notIn: ["COMPLETED", "CANCELLED"] },
+              },
+            }),
+          ]);
+    pool.push({
+      homeJurisdiction: jurisdiction,
+      openIncidents: incidents.length,
+      openIncidentCategories: new Set(incidents.map((i) => i.category)),
+      overdueDeadlines,
+      score: Math.max(0, 100 - incidents.length * 10 - overdueDeadlines * 5),
+    });
+  }
+  return pool;
+}
+
+function tierOf(score: number): "stable" | "drift" | "alert" {
+  if (score < 70) return "alert";
+  if (score < 90) return "drift";
+  return "stable";
+}
+
+function countBin(n: number): string {
+  if (n >= 5) return "5+";
+  if (n >= 2) return "2-4";
+  return String(n);
+}
+
+/** Wendet den Mechanismus der Anfrage auf den (ggf. gefilterten) Pool an. */
+export function releaseQuery(
+  query: DpQuery,
+  pool: readonly OperatorSnapshot[],
+): DpRelease {
+  const epsilon = query.epsilon ?? DEFAULT_EPSILON;
+  const rows = query.jurisdiction
+    ? pool.filter((o) => o.homeJurisdiction === query.jurisdiction)
+    : pool;
+
+  switch (query.kind) {
+    case "count": {
+      const predicate: Record<
+        (typeof COUNT_METRICS)[number],
+        (o: OperatorSnapshot) => boolean
+      > = {
+        "operators-with-open-incidents": (o) => o.openIncidents > 0,
+        "operators-with-overdue-deadlines": (o) => o.overdueDeadlines > 0,
+        "operators-in-alert-tier": (o) => tierOf(o.score) === "alert",
+        "operators-in-drift-tier": (o) => tierOf(o.score) === "drift",
+      };
+      return {
+        kind: "count",
+        ...dpCount({
+          realCount: rows.filter(predicate[query.metric]).length,
+          epsilon,
+        }),
+      };
+    }
+    case "histogram": {
+      const binOf: Record<
+        (typeof HISTOGRAM_DIMENSIONS)[number],
+        (o: OperatorSnapshot) => string
+      > = {
+        "compliance-tier": (o) => tierOf(o.score),
+        "open-incidents": (o) => countBin(o.openIncidents),
+        "overdue-deadlines": (o) => countBin(o.overdueDeadlines),
+      };
+      const counts: Record<string, number> = {};
+      for (const o of rows) {
+        const bin = binOf[query.dimension](o);
+        counts[bin] = (counts[bin] ?? 0) + 1;
+      }
+      return {
+        kind: "histogram",
+        ...dpHistogram({
+          counts,
+          bins: HISTOGRAM_BINS[query.dimension],
+          epsilon,
+        }),
+      };
+    }
+    case "mean": {
+      const bounds = MEAN_DEFAULT_BOUNDS[query.measure];
+      const value: Record<
+        (typeof MEAN_MEASURES)[number],
+        (o: OperatorSnapshot) => number
+      > = {
+        "compliance-score": (o) => o.score,
+        "open-incidents": (o) => o.openIncidents,
+        "overdue-deadlines": (o) => o.overdueDeadlines,
+      };
+      return {
+        kind: "mean",
+        ...dpClampedMean({
+          values: rows.map(value[query.measure]),
+          lower: query.lower ?? bounds.lower,
+          upper: query.upper ?? bounds.upper,
+          epsilon,
+        }),
+      };
+    }
+    case "topk": {
+      // Ein Operator zählt pro Kategorie höchstens einmal → Δ = 1.
+      const scores: Record<string, number> = {};
+      for (const o of rows) {
+        for (const c of o.openIncidentCategories) {
+          scores[c] = (scores[c] ?? 0) + 1;
+        }
+      }
+      return {
+        kind: "topk",
+        ...dpTopK({
+          scores,
+          candidates: INCIDENT_CATEGORIES,
+          k: query.k,
+          epsilon,
+        }),
+      };
+    }
+  }
+}
+
+// ─── Einstieg ────────────────────────────────────────────────────────
+
+/** Parst, prüft das Budget, liest den Pool, bucht und released. Wirft
+ *  DpQueryError (INVALID / BUDGET_EXHAUSTED / EMPTY_POOL); in keinem
+ *  dieser Fälle wird Budget verbraucht. */
+export async function runInsightQuery(input: {
+  authorityProfileId: string;
+  actorUserId: string | null;
+  query: unknown;
+  now?: Date;
+}): Promise<DpInsightAnswer> {
+  const parsed = DpQuerySchema.safeParse(input.query);
+  if (!parsed.success) {
+    throw new DpQueryError(
+      "INVALID",
+      parsed.error.issues
+        .map((i) => `${i.path.join(".") || "query"}: ${i.message}`)
+        .join("; "),
+    );
+  }
+  const query = parsed.data;
+  if (query.kind === "mean") {
+    const bounds = MEAN_DEFAULT_BOUNDS[query.measure];
+    if (!((query.lower ?? bounds.lower) < (query.upper ?? bounds.upper))) {
+      throw new DpQueryError("INVALID", "lower muss kleiner als upper sein");
+    }
+  }
+  const now = input.now ?? new Date();
+  const charge = chargeFor(query);
+
+  // Vorab-Prüfung spart den Pool-Scan, wenn das Budget ohnehin nicht
+  // reicht. Verbindlich ist erst die Prüfung in chargeLedger.
+  const before = await prisma.pharosDpLedgerEntry.findMany({
+    where: { authorityProfileId: input.authorityProfileId, day: utcDay(now) },
+    select: LEDGER_SELECT,
+  });
+  if (exceeds(before, charge)) {
+    throw budgetExhausted(charge, statusFrom(before, now));
+  }
+
+  const pool = await collectOperatorPool();
+  if (pool.length === 0) {
+    throw new DpQueryError(
+      "EMPTY_POOL",
+      "Keine aktiven Aufsichten im EU-weiten Pool — DP-Aggregat nicht möglich (würde die Existenz / Nicht-Existenz einzelner Operatoren leaken).",
+    );
+  }
+
+  const { entryId, budget } = await chargeLedger({
+    authorityProfileId: input.authorityProfileId,
+    actorUserId: input.actorUserId,
+    query,
+    now,
+  });
+  const release = releaseQuery(query, pool);
+
+  logger.info(
+    `[pharos-dp] ${query.kind} authority=${input.authorityProfileId} ε=${charge.epsilon}${charge.partitionKey ? ` partition=${charge.partitionKey}` : ""} (spent=${budget.spent.toFixed(2)}/${budget.limit})`,
+  );
+
+  return {
+    query,
+    epsilon: charge.epsilon,
+    confidence: DEFAULT_CONFIDENCE,
+    release,
+    budget,
+    ledgerEntryId: entryId,
+  };
+}
@@ -24,6 +24,14 @@ import "server-only";
  *   2. Sample Laplace-Noise mit scale = sensitivity / ε
  *   3. Output = round(count + noise)
  *   4. Persistiere ε-Verbrauch im DP-Budget der anfragenden Behörde
+ *      (Ledger in differential-privacy-service.ts)
+ *
+ * Neben Counts: Histogramme (parallele Komposition über disjunkte
+ * Bins), Mittelwerte mit Clamping (Noisy-Sum / Noisy-Count, sequentiell)
+ * und Top-k über den Exponential-Mechanismus (k Peeling-Runden à ε/k).
+ * `composeEpsilon` rechnet Ledger-Einträge nach denselben Regeln auf
+ * den Gesamtverbrauch einer Behörde hoch. Diese Datei bleibt pure —
+ * keine DB-Zugriffe, damit sie ohne Prisma-Mocks testbar ist.
  *
  * Quelle: Dwork & Roth, "The Algorithmic Foundations of Differential
  * Privacy" (Foundations and Trends, 2014). Implementierung pure
@@ -33,7 +41,6 @@ import "server-only";
  */
 
 import { randomBytes } from "node:crypto";
-import { logger } from "@/lib/logger";
 
 /** Default epsilon. Lower = more private but noisier. */
 export const DEFAULT_EPSILON = 1.0;
@@ -41,6 +48,16 @@ export const DEFAULT_EPSILON = 1.0;
 /** Standard sensitivity for count queries. */
 export const COUNT_SENSITIVITY = 1;
 
+/** Uniform fraction in [0, 1) from crypto-secure bytes — same
+ *  precision as Math.random but unguessable. */
+function secureUniform(): number {
+  const buf = randomBytes(7);
+  // Build a 56-bit integer from 7 bytes and scale down to [0, 1)
+  let bits = 0;
+  for (let i = 0; i < 7; i++) bits = bits * 256 + buf[i];
+  return bits / 2 ** 56;
+}
+
 /** Sample from a Laplace(0, scale) distribution using cryptographically
  *  secure randomness. The textbook formula:
  *    laplace(scale) = -scale * sign(u) * ln(1 - 2|u|)
@@ -50,24 +67,31 @@ export const COUNT_SENSITIVITY = 1;
  *  an adversary observing N queries — Math.random would be insufficient
  *  for any privacy guarantee that holds against a model attacker. */
 export function laplaceNoise(scale: number): number {
-  // Get a 53-bit fraction in [0, 1) from crypto-secure bytes — same
-  // precision as Math.random but unguessable.
-  const buf = randomBytes(7);
-  // Build a 53-bit integer (7 bytes = 56 bits, mask high 3 bits off)
-  let bits = 0;
-  for (let i = 0; i < 7; i++) bits = bits * 256 + buf[i];
-  bits = bits / 2 ** 56; // [0, 1)
   // Map to (-0.5, 0.5)
-  const u = bits - 0.5;
+  const u = secureUniform() - 0.5;
   // Avoid log(0) singularity
   const safeU = u === 0 ? 1e-300 : u;
   return -scale * Math.sign(safeU) * Math.log(1 - 2 * Math.abs(safeU));
 }
 
+/** Default confidence level for every released interval. */
+export const DEFAULT_CONFIDENCE = 0.95;
+
+/** Half-width t with P(|Laplace(0, scale)| ≤ t) = confidence. The Laplace
+ *  tail is exact: P(|X| > t) = exp(-t/scale), so t = scale·ln(1/(1-c)).
+ *  (The Gaussian 1.96·σ approximation under-covers Laplace noise.) */
+export function laplaceHalfWidth(
+  scale: number,
+  confidence = DEFAULT_CONFIDENCE,
+): number {
+  return scale * Math.log(1 / (1 - confidence));
+}
+
 export interface DpCountResult {
   /** The DP-protected count released to the caller. Always integer. */
   releasedCount: number;
-  /** Lower 95%-confidence bound (releasedCount - 1.96*stddev). */
+  /** Lower 95%-confidence bound (releasedCount - b·ln 20, siehe
+   *  `laplaceHalfWidth`). */
   lowerBound95: number;
   /** Upper 95%-confidence bound. */
   upperBound95: number;
@@ -89,8 +113,8 @@ export interface DpCountInput {
  *  integer (negative noisy counts get floored to 0 because they have
  *  no semantic meaning for "how many X exist").
  *
- *  Caller is responsible for tracking ε-spend in their DP budget (see
- *  `chargeBudget` below) — this fn doesn't side-effect. */
+ *  Caller is responsible for charging the ε-spend to the DP ledger
+ *  (see `runInsightQuery`) — this fn doesn't side-effect. */
 export function dpCount(input: DpCountInput): DpCountResult {
   const epsilon = input.epsilon ?? DEFAULT_EPSILON;
   const sensitivity = input.sensitivity ?? COUNT_SENSITIVITY;
@@ -100,125 +124,265 @@ export function dpCount(input: DpCountInput): DpCountResult {
   const scale = sensitivity / epsilon;
   const noise = laplaceNoise(scale);
   const released = Math.max(0, Math.round(input.realCount + noise));
-  // Laplace stddev = scale * sqrt(2)
-  const stddev = scale * Math.sqrt(2);
+  const halfWidth = laplaceHalfWidth(scale);
   return {
     releasedCount: released,
-    lowerBound95: Math.max(0, Math.round(released - 1.96 * stddev)),
-    upperBound95: Math.round(released + 1.96 * stddev),
+    lowerBound95: Math.max(0, Math.round(released - halfWidth)),
+    upperBound95: Math.round(released + halfWidth),
     epsilon,
     mechanism: "laplace",
     releasedAt: new Date().toISOString(),
   };
 }
 
-// ─── DP Budget Accounting ────────────────────────────────────────────
-
-/** In-memory budget tracker. Phase 2: persist to a `DpBudget` Prisma
- *  model so budget survives restarts. Phase 1 — per-request fresh
- *  budget, simple ceiling. */
-const budgetStore = new Map<string, { spent: number; resetAt: number }>();
-const DAILY_RESET_MS = 24 * 60 * 60 * 1000;
-const DEFAULT_DAILY_BUDGET = 10.0;
-
-export function chargeBudget(
-  authorityProfileId: string,
-  epsilon: number,
-  dailyCeiling = DEFAULT_DAILY_BUDGET,
-): { ok: boolean; remaining: number; reason?: string } {
-  const now = Date.now();
-  const cur = budgetStore.get(authorityProfileId);
-  if (!cur || now > cur.resetAt) {
-    budgetStore.set(authorityProfileId, {
-      spent: epsilon,
-      resetAt: now + DAILY_RESET_MS,
-    });
-    return { ok: true, remaining: dailyCeiling - epsilon };
-  }
-  if (cur.spent + epsilon > dailyCeiling) {
-    return {
-      ok: false,
-      remaining: dailyCeiling - cur.spent,
-      reason: `Daily DP budget exceeded — already spent ε=${cur.spent.toFixed(2)}, request would push to ${(cur.spent + epsilon).toFixed(2)}, ceiling is ${dailyCeiling}.`,
-    };
+function assertEpsilon(epsilon: number) {
+  if (!(epsilon > 0) || !Number.isFinite(epsilon)) {
+    throw new Error("epsilon must be > 0");
   }
-  cur.spent += epsilon;
-  budgetStore.set(authorityProfileId, cur);
-  return { ok: true, remaining: dailyCeiling - cur.spent };
-}
-
-export function getBudgetStatus(authorityProfileId: string): {
-  spent: number;
-  remaining: number;
-  resetsAt: string;
-} {
-  const cur = budgetStore.get(authorityProfileId);
-  const ceiling = DEFAULT_DAILY_BUDGET;
-  if (!cur || Date.now() > cur.resetAt) {
-    return {
-      spent: 0,
-      remaining: ceiling,
-      resetsAt: new Date(Date.now() + DAILY_RESET_MS).toISOString(),
-    };
+}
+
+// ─── Histogramme ─────────────────────────────────────────────────────
+
+export interface DpHistogramBin {
+  bin: string;
+  releasedCount: number;
+  lowerBound95: number;
+  upperBound95: number;
+}
+
+export interface DpHistogramResult {
+  bins: DpHistogramBin[];
+  epsilon: number;
+  mechanism: "laplace";
+  /** Jeder Operator liegt in genau einem Bin → parallele Komposition,
+   *  das ganze Histogramm kostet ε (nicht ε pro Bin). */
+  composition: "parallel";
+  releasedAt: string;
+}
+
+/** Laplace-Histogramm über eine FESTE Bin-Liste. Die Bins müssen
+ *  datenunabhängig sein — eine aus den Daten abgeleitete Bin-Liste
+ *  würde die Existenz seltener Werte ohne Rauschen verraten. Leere
+ *  Bins bekommen genauso Rauschen wie volle. */
+export function dpHistogram(input: {
+  counts: Record<string, number>;
+  bins: readonly string[];
+  epsilon?: number;
+}): DpHistogramResult {
+  const epsilon = input.epsilon ?? DEFAULT_EPSILON;
+  assertEpsilon(epsilon);
+  for (const key of Object.keys(input.counts)) {
+    if (!input.bins.includes(key)) {
+      throw new Error(`count for unknown bin '${key}'`);
+    }
   }
+  const scale = COUNT_SENSITIVITY / epsilon;
+  const halfWidth = laplaceHalfWidth(scale);
   return {
-    spent: cur.spent,
-    remaining: ceiling - cur.spent,
-    resetsAt: new Date(cur.resetAt).toISOString(),
+    bins: input.bins.map((bin) => {
+      const released = Math.max(
+        0,
+        Math.round((input.counts[bin] ?? 0) + laplaceNoise(scale)),
+      );
+      return {
+        bin,
+        releasedCount: released,
+        lowerBound95: Math.max(0, Math.round(released - halfWidth)),
+        upperBound95: Math.round(released + halfWidth),
+      };
+    }),
+    epsilon,
+    mechanism: "laplace",
+    composition: "parallel",
+    releasedAt: new Date().toISOString(),
   };
 }
 
-// ─── Pre-built aggregations for common authority queries ────────────
+// ─── Mittelwert mit Clamping ─────────────────────────────────────────
 
-export interface AggregateInput {
-  authorityProfileId: string;
+export interface DpMeanResult {
+  mean: number;
+  lowerBound95: number;
+  upperBound95: number;
+  lower: number;
+  upper: number;
+  epsilon: number;
+  mechanism: "laplace";
+  /** Noisy-Sum und Noisy-Count lesen dieselben Datensätze → sequentiell,
+   *  je ε/2. */
+  composition: "sequential";
+  releasedAt: string;
+}
+
+/** DP-Mittelwert: Werte werden auf [lower, upper] geclampt, dann
+ *  Noisy-Sum (Sensitivity max(|lower|, |upper|)) durch Noisy-Count
+ *  (Sensitivity 1). Die Grenzen MÜSSEN vom Caller kommen — aus den
+ *  Daten abgeleitete Grenzen würden Extremwerte leaken.
+ *
+ *  Das Intervall ist konservativ: Summe und Count liegen je mit
+ *  Wahrscheinlichkeit √0.95 in ihrem Laplace-Intervall (unabhängig →
+ *  gemeinsam 0.95), der Mittelwert dann zwischen den Eck-Quotienten.
+ *  Kann der Noisy-Count 0 nicht ausschließen, ist das Intervall
+ *  [lower, upper]. */
+export function dpClampedMean(input: {
+  values: readonly number[];
+  lower: number;
+  upper: number;
   epsilon?: number;
-  metric:
-    | "operators-with-open-incidents"
-    | "operators-with-overdue-deadlines"
-    | "operators-in-alert-tier"
-    | "operators-in-drift-tier";
+}): DpMeanResult {
+  const epsilon = input.epsilon ?? DEFAULT_EPSILON;
+  assertEpsilon(epsilon);
+  const { lower, upper } = input;
+  if (!(lower < upper)) {
+    throw new Error("lower must be < upper");
+  }
+  const clamp = (v: number) => Math.min(upper, Math.max(lower, v));
+
+  const half = epsilon / 2;
+  const sumScale = Math.max(Math.abs(lower), Math.abs(upper)) / half;
+  const countScale = COUNT_SENSITIVITY / half;
+  const noisySum =
+    input.values.reduce((acc, v) => acc + clamp(v), 0) + laplaceNoise(sumScale);
+  const noisyCount = input.values.length + laplaceNoise(countScale);
+
+  const jointConfidence = Math.sqrt(DEFAULT_CONFIDENCE);
+  const sumHalf = laplaceHalfWidth(sumScale, jointConfidence);
+  const countHalf = laplaceHalfWidth(countScale, jointConfidence);
+
+  const mean = clamp(noisySum / Math.max(1, noisyCount));
+  let lowerBound95 = lower;
+  let upperBound95 = upper;
+  if (noisyCount - countHalf > 0) {
+    const corners = [
+      (noisySum - sumHalf) / (noisyCount - countHalf),
+      (noisySum - sumHalf) / (noisyCount + countHalf),
+      (noisySum + sumHalf) / (noisyCount - countHalf),
+      (noisySum + sumHalf) / (noisyCount + countHalf),
+    ];
+    lowerBound95 = clamp(Math.min(...corners));
+    upperBound95 = clamp(Math.max(...corners));
+  }
+
+  return {
+    mean,
+    lowerBound95,
+    upperBound95,
+    lower,
+    upper,
+    epsilon,
+    mechanism: "laplace",
+    composition: "sequential",
+    releasedAt: new Date().toISOString(),
+  };
 }
 
-/** Compute a DP-protected aggregate over the EU operator pool —
- *  excluding operators NOT in the calling authority's oversight scope.
- *  This protects (a) operators outside the authority and (b) the
- *  exact size of the authority's roster.
+// ─── Top-k (Exponential-Mechanismus) ─────────────────────────────────
+
+export interface DpTopKResult {
+  /** Ausgewählte Kandidaten in Auswahl-Reihenfolge — OHNE Scores;
+   *  Scores zu veröffentlichen würde zusätzliches Budget kosten. */
+  items: string[];
+  /** Mit 95 % Wahrscheinlichkeit liegt der Score jedes gewählten
+   *  Kandidaten höchstens so weit unter dem besten noch verfügbaren. */
+  maxScoreShortfall95: number;
+  epsilon: number;
+  mechanism: "exponential";
+  /** k Peeling-Runden à ε/k. */
+  composition: "sequential";
+  releasedAt: string;
+}
+
+/** Top-k über eine feste Kandidatenliste via Exponential-Mechanismus
+ *  mit Peeling: k Runden, jede wählt einen noch nicht gewählten
+ *  Kandidaten mit P ∝ exp(ε'·score / 2Δ), ε' = ε/k. Sensitivity Δ = 1,
+ *  wenn jeder Operator zu jedem Kandidaten-Score höchstens 1 beiträgt.
  *
- *  Caller passes the real count (e.g. from a Prisma query); this fn
- *  applies noise + budget-check. We keep DB queries OUT of this file
- *  so it stays unit-testable without Prisma mocks. */
-export function noisifyAggregate(
-  input: AggregateInput & { realCount: number },
-): DpCountResult & { ok: boolean; remainingBudget?: number; reason?: string } {
+ *  Shortfall-Schranke je Runde (Dwork & Roth, Thm. 3.11):
+ *  OPT − score < (2Δ/ε')·ln(|R|/β), hier mit β = 5 %/k über alle
+ *  Runden (Union-Bound). */
+export function dpTopK(input: {
+  scores: Record<string, number>;
+  candidates: readonly string[];
+  k: number;
+  epsilon?: number;
+  sensitivity?: number;
+}): DpTopKResult {
   const epsilon = input.epsilon ?? DEFAULT_EPSILON;
-  const charge = chargeBudget(input.authorityProfileId, epsilon);
-  if (!charge.ok) {
-    return {
-      ok: false,
-      reason: charge.reason,
-      remainingBudget: charge.remaining,
-      releasedCount: 0,
-      lowerBound95: 0,
-      upperBound95: 0,
-      epsilon,
-      mechanism: "laplace",
-      releasedAt: new Date().toISOString(),
-    };
+  assertEpsilon(epsilon);
+  const sensitivity = input.sensitivity ?? COUNT_SENSITIVITY;
+  const { k, candidates } = input;
+  if (!Number.isInteger(k) || k < 1 || k > candidates.length) {
+    throw new Error(`k must be between 1 and ${candidates.length}`);
+  }
+  const roundEpsilon = epsilon / k;
+
+  const remaining = [...candidates];
+  const items: string[] = [];
+  for (let round = 0; round < k; round++) {
+    const exponents = remaining.map(
+      (c) => (roundEpsilon * (input.scores[c] ?? 0)) / (2 * sensitivity),
+    );
+    // Max abziehen gegen Overflow von exp() bei großen Scores.
+    const max = Math.max(...exponents);
+    const weights = exponents.map((e) => Math.exp(e - max));
+    const total = weights.reduce((a, b) => a + b, 0);
+    let target = secureUniform() * total;
+    let pick = weights.length - 1;
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        pick = i;
+        break;
+      }
+    }
+    items.push(remaining[pick]);
+    remaining.splice(pick, 1);
   }
-  const noisy = dpCount({ realCount: input.realCount, epsilon });
-  logger.info(
-    `[pharos-dp] ${input.metric} authority=${input.authorityProfileId} ε=${epsilon} real≈${input.realCount} released=${noisy.releasedCount} (remaining=${charge.remaining.toFixed(2)})`,
-  );
+
+  const beta = (1 - DEFAULT_CONFIDENCE) / k;
   return {
-    ...noisy,
-    ok: true,
-    remainingBudget: charge.remaining,
+    items,
+    maxScoreShortfall95:
+      ((2 * sensitivity) / roundEpsilon) * Math.log(candidates.length / beta),
+    epsilon,
+    mechanism: "exponential",
+    composition: "sequential",
+    releasedAt: new Date().toISOString(),
   };
 }
 
-/** Reset all budgets — TEST ONLY. Keeps the in-memory store clean
- *  between unit tests. */
-export function _resetBudgetForTests() {
-  budgetStore.clear();
+// ─── Komposition ─────────────────────────────────────────────────────
+
+/** Ein ε-Verbrauch im Ledger. `partitionGroup`/`partitionKey` markieren
+ *  Anfragen, die nur einen Teil einer disjunkten Zerlegung der Operator-
+ *  Menge lesen (z.B. group "home-jurisdiction", key "DE"). */
+export interface EpsilonCharge {
+  epsilon: number;
+  partitionGroup?: string | null;
+  partitionKey?: string | null;
+}
+
+/** Gesamt-ε einer Folge von Releases:
+ *   - ohne Partition: sequentielle Komposition → Summe
+ *   - innerhalb einer Zerlegung: parallele Komposition → je Teil die
+ *     Summe, über die Teile das Maximum (ein Operator liegt in genau
+ *     einem Teil und "sieht" nur dessen Releases)
+ *   - verschiedene Zerlegungen untereinander wieder sequentiell. */
+export function composeEpsilon(charges: readonly EpsilonCharge[]): number {
+  let sequential = 0;
+  const groups = new Map<string, Map<string, number>>();
+  for (const c of charges) {
+    if (c.partitionGroup && c.partitionKey) {
+      const parts = groups.get(c.partitionGroup) ?? new Map<string, number>();
+      parts.set(c.partitionKey, (parts.get(c.partitionKey) ?? 0) + c.epsilon);
+      groups.set(c.partitionGroup, parts);
+    } else {
+      sequential += c.epsilon;
+    }
+  }
+  let parallel = 0;
+  for (const parts of groups.values()) {
+    parallel += Math.max(...parts.values());
+  }
+  return sequential + parallel;
 }
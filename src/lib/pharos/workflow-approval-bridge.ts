@@ -10,7 +10,8 @@ import "server-only";
  * und sobald der Request APPROVED ist, fired die Bridge automatisch
  * das Final-Event auf die FSM.
  *
- * Mapping (per FSM + State, declarative):
+ * Mapping (per FSM + State, declarative) kommt aus den `signatures`-
+ * Gates der MachineDefs — eingebaut wie behördlich verfasst:
  *   eu-space-act-authorisation-v1
  *     state AwaitingApproval → kind AUTHORIZATION_DECISION
  *       on APPROVED → dispatch APPROVED_FINAL
@@ -30,33 +31,18 @@ import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { dispatchEvent } from "./workflow-service";
 import { createApprovalRequest } from "./approval-service";
-import type { ApprovalKind } from "./multi-party-approval";
-
-interface BridgeRule {
-  fsmId: string;
-  state: string;
-  approvalKind: ApprovalKind;
-  /** Map of approval-result → FSM-event to dispatch back. */
-  onApproved: string;
-  onRejected?: string;
-}
-
-const BRIDGE_RULES: BridgeRule[] = [
-  {
-    fsmId: "eu-space-act-authorisation-v1",
-    state: "AwaitingApproval",
-    approvalKind: "AUTHORIZATION_DECISION",
-    onApproved: "APPROVED_FINAL",
-    onRejected: "REJECTED_FINAL",
-  },
-];
-
-/** Returns the bridge rule (if any) that maps the given state of a
- *  given FSM to an ApprovalKind. */
-function findRule(fsmId: string, state: string): BridgeRule | null {
-  return (
-    BRIDGE_RULES.find((r) => r.fsmId === fsmId && r.state === state) ?? null
-  );
+import type { SignatureGate } from "./workflow-fsm";
+import { resolveMachine } from "./workflow-machine-service";
+
+/** Returns the signature gate (if any) of the given state of a given
+ *  FSM — it maps the state to an ApprovalKind and the approval result
+ *  back to an FSM event. */
+async function findRule(
+  fsmId: string,
+  state: string,
+): Promise<SignatureGate | null> {
+  const machine = await resolveMachine(fsmId);
+  return machine?.def.states[state]?.signatures ?? null;
 }
 
 interface BridgeStats {
@@ -96,7 +82,7 @@ export async function runBridgeSweep(): Promise<BridgeStats> {
   });
 
   for (const c of openCases) {
-    const rule = findRule(c.fsmId, c.currentState);
+    const rule = await findRule(c.fsmId, c.currentState);
     if (!rule) continue;
     if (!c.authorityProfileId) continue;
 
@@ -172,7 +158,7 @@ export async function runBridgeSweep(): Promise<BridgeStats> {
     });
     if (!c || c.closedAt) continue; // already closed/dispatched
 
-    const rule = findRule(c.fsmId, c.currentState);
+    const rule = await findRule(c.fsmId, c.currentState);
     if (!rule) continue; // case has moved past the AwaitingApproval state
 
     let event: string | null = null;
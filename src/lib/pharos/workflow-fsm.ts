@@ -18,12 +18,16 @@ import "server-only";
  *
  * Erste Maschine: NIS2-Incident-Reporting mit den drei gesetzlichen
  * Fristen (24h Early-Warning, 72h Incident-Notification, 30d Final-Report).
+ * Die beiden Maschinen hier sind die eingebauten; weitere verfassen
+ * Behörden als JSON/YAML (workflow-machine-spec.ts), validiert mit
+ * denselben Regeln.
  *
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
 
 import { createHash, sign } from "node:crypto";
 import { logger } from "@/lib/logger";
+import type { ApprovalKind } from "./multi-party-approval";
 import { deriveAuthorityKeypair } from "./receipt";
 
 function sha256Hex(input: string): string {
@@ -54,10 +58,27 @@ export interface StateDef<TState extends string, TEvent extends string> {
   on?: Partial<Record<TEvent, TState>>;
   /** SLA-Trigger: wenn nach X ms kein Event kam → Auto-Transition. */
   after?: { afterMs: number; target: TState; reason: string };
+  /** Begründung, warum dieser State bewusst keine Frist hat. Der
+   *  Maschinen-Validator verlangt für jeden Nicht-Final-State entweder
+   *  `after`, ein `signatures`-Gate mit `onRejected` oder diese Angabe. */
+  noDeadline?: string;
+  /** k-of-n-Signatur-Gate: beim Eintritt erzeugt die Approval-Bridge
+   *  einen ApprovalRequest; `onApproved`/`onRejected` werden nur vom
+   *  System dispatched, nie manuell. */
+  signatures?: SignatureGate<TEvent>;
+}
+
+export interface SignatureGate<TEvent extends string = string> {
+  approvalKind: ApprovalKind;
+  onApproved: TEvent;
+  /** Wird auch bei Ablauf (EXPIRED) des ApprovalRequests dispatched. */
+  onRejected?: TEvent;
 }
 
 export interface MachineDef<TState extends string, TEvent extends string> {
   id: string;
+  /** Anzeigename — gesetzt bei behördlich verfassten Maschinen. */
+  title?: string;
   initial: TState;
   states: Record<TState, StateDef<TState, TEvent>>;
 }
@@ -233,6 +254,7 @@ export const NIS2_INCIDENT_FSM_DEF: MachineDef<Nis2State, Nis2Event> = {
     },
     UnderReview: {
       label: "Behörden-Review",
+      noDeadline: "NIS2 Art. 23 setzt der Behörde keine Prüffrist",
       on: {
         SACHBEARBEITER_DECISION_CLOSE: "Closed",
       },
@@ -243,6 +265,7 @@ export const NIS2_INCIDENT_FSM_DEF: MachineDef<Nis2State, Nis2Event> = {
     },
     Breached24h: {
       label: "24h-Frist verletzt",
+      noDeadline: "Frist bereits verletzt — Nachreichung oder Abschluss",
       on: {
         EARLY_WARNING_RECEIVED: "AwaitingNotification",
         BREACH_ACKNOWLEDGED: "Closed",
@@ -250,6 +273,7 @@ export const NIS2_INCIDENT_FSM_DEF: MachineDef<Nis2State, Nis2Event> = {
     },
     Breached72h: {
       label: "72h-Frist verletzt",
+      noDeadline: "Frist bereits verletzt — Nachreichung oder Abschluss",
       on: {
         INCIDENT_NOTIFICATION_RECEIVED: "AwaitingFinalReport",
         BREACH_ACKNOWLEDGED: "Closed",
@@ -257,6 +281,7 @@ export const NIS2_INCIDENT_FSM_DEF: MachineDef<Nis2State, Nis2Event> = {
     },
     Breached30d: {
       label: "30d-Frist verletzt",
+      noDeadline: "Frist bereits verletzt — Nachreichung oder Abschluss",
       on: {
         FINAL_REPORT_RECEIVED: "UnderReview",
         BREACH_ACKNOWLEDGED: "Closed",
@@ -294,10 +319,12 @@ export const EU_SPACE_ACT_AUTH_FSM_DEF: MachineDef<AuthState, AuthEvent> = {
   states: {
     Submitted: {
       label: "Antrag eingegangen",
+      noDeadline: "Eingangsbestätigung ohne gesetzliche Frist",
       on: { TRIAGE_COMPLETE: "Triage", OPERATOR_WITHDREW: "Withdrawn" },
     },
     Triage: {
       label: "Vorprüfung",
+      noDeadline: "Bearbeitungsfrist der Behörde nicht gesetzlich fixiert",
       on: {
         REQUEST_INFO: "RequiresAdditionalInfo",
         REVIEW_COMPLETE: "InReview",
@@ -319,6 +346,7 @@ export const EU_SPACE_ACT_AUTH_FSM_DEF: MachineDef<AuthState, AuthEvent> = {
     },
     InReview: {
       label: "Sachbearbeiter-Prüfung",
+      noDeadline: "Bearbeitungsfrist der Behörde nicht gesetzlich fixiert",
       on: {
         REVIEW_COMPLETE: "AwaitingApproval",
         REQUEST_INFO: "RequiresAdditionalInfo",
@@ -326,6 +354,11 @@ export const EU_SPACE_ACT_AUTH_FSM_DEF: MachineDef<AuthState, AuthEvent> = {
     },
     AwaitingApproval: {
       label: "Wartet auf k-of-n-Approval",
+      signatures: {
+        approvalKind: "AUTHORIZATION_DECISION",
+        onApproved: "APPROVED_FINAL",
+        onRejected: "REJECTED_FINAL",
+      },
       on: { APPROVED_FINAL: "Approved", REJECTED_FINAL: "Rejected" },
     },
     Approved: { label: "Genehmigt", final: true },
@@ -0,0 +1,367 @@
+import "server-only";
+
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Pharos Workflow Machine Service — Versionierung, Simulation und
+ * Publish behördlich verfasster FSMs.
+ *
+ * Lebenszyklus einer `WorkflowMachineDef`:
+ *
+ *   DRAFT       — frei editierbar (gleiche machineId + version
+ *                 überschreibt); jede Änderung verwirft die Simulation
+ *   LIVE        — nach bestandener Simulation genau dieser Definition
+ *                 (definitionHash) veröffentlicht; unveränderlich. Neue
+ *                 Cases starten nur auf LIVE-Versionen.
+ *   SUPERSEDED  — durch eine höhere LIVE-Version abgelöst; bestehende
+ *                 Cases laufen auf ihrer fsmId weiter.
+ *
+ * Die Auflösung fsmId → Maschine (`resolveMachine`) deckt eingebaute und
+ * verfasste Maschinen ab; workflow-service, Approval-Bridge, SLA-Cron und
+ * UI laufen ausschließlich darüber.
+ *
+ * Public API:
+ *   - saveMachineDraft / simulateMachineDraft / publishMachine — Write
+ *   - listMachineDefs / getMachineDef                          — Reads
+ *   - resolveMachine / listBuiltinMachines                     — Runtime
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import {
+  EU_SPACE_ACT_AUTH_FSM_DEF,
+  NIS2_INCIDENT_FSM_DEF,
+  WorkflowFSM,
+} from "./workflow-fsm";
+import {
+  loadMachineSource,
+  machineDefHash,
+  simulateMachine,
+  validateMachineDef,
+  type AuthoredMachineDef,
+  type MachineIssue,
+  type MachineSourceFormat,
+  type SimulationResult,
+  type SimulationScript,
+} from "./workflow-machine-spec";
+
+export class MachineDefError extends Error {
+  constructor(
+    public readonly code:
+      | "INVALID"
+      | "NOT_FOUND"
+      | "FORBIDDEN"
+      | "CONFLICT"
+      | "NOT_SIMULATED",
+    message: string,
+    public readonly issues: MachineIssue[] = [],
+  ) {
+    super(message);
+    this.name = "MachineDefError";
+  }
+}
+
+// ─── Runtime resolution ───────────────────────────────────────────────
+
+export interface ResolvedMachine {
+  fsmId: string;
+  title: string;
+  def: AuthoredMachineDef;
+  fsm: WorkflowFSM<string, string>;
+  builtin: boolean;
+  /** Eigentümer-Behörde; null bei eingebauten Maschinen. */
+  authorityProfileId: string | null;
+}
+
+const BUILTIN_MACHINES: Record<string, ResolvedMachine> = Object.fromEntries(
+  [
+    { def: NIS2_INCIDENT_FSM_DEF, title: "NIS2-Incident" },
+    { def: EU_SPACE_ACT_AUTH_FSM_DEF, title: "EU-Space-Act-Genehmigung" },
+  ].map(({ def, title }) => {
+    const generic = def as unknown as AuthoredMachineDef;
+    return [
+      def.id,
+      {
+        fsmId: def.id,
+        title,
+        def: generic,
+        fsm: new WorkflowFSM(generic),
+        builtin: true,
+        authorityProfileId: null,
+      },
+    ];
+  }),
+);
+
+/** Veröffentlichte Definitionen sind unveränderlich — der Cache hält
+ *  nur Definition + FSM, nie den Status. */
+const authoredCache = new Map<string, ResolvedMachine>();
+
+export function listBuiltinMachines(): ResolvedMachine[] {
+  return Object.values(BUILTIN_MACHINES);
+}
+
+/** fsmId → Maschine. Eingebaute zuerst, dann LIVE/SUPERSEDED aus der
+ *  DB; DRAFTs sind nie auflösbar. `requireLive` (für neue Cases) lässt
+ *  SUPERSEDED-Versionen aus und umgeht den Cache. */
+export async function resolveMachine(
+  fsmId: string,
+  opts: { requireLive?: boolean } = {},
+): Promise<ResolvedMachine | null> {
+  const builtin = BUILTIN_MACHINES[fsmId];
+  if (builtin) return builtin;
+  if (!opts.requireLive) {
+    const hit = authoredCache.get(fsmId);
+    if (hit) return hit;
+  }
+
+  const row = await prisma.workflowMachineDef.findUnique({
+    where: { fsmId },
+    select: {
+      fsmId: true,
+      title: true,
+      status: true,
+      definition: true,
+      authorityProfileId: true,
+    },
+  });
+  if (!row || row.status === "DRAFT") return null;
+  if (opts.requireLive && row.status !== "LIVE") return null;
+
+  const def = row.definition as unknown as AuthoredMachineDef;
+  const resolved: ResolvedMachine = {
+    fsmId: row.fsmId,
+    title: row.title,
+    def,
+    fsm: new WorkflowFSM(def),
+    builtin: false,
+    authorityProfileId: row.authorityProfileId,
+  };
+  authoredCache.set(fsmId, resolved);
+  return resolved;
+}
+
+/** Nur für Tests. */
+export function __resetMachineCacheForTests(): void {
+  authoredCache.clear();
+}
+
+// ─── Drafts ───────────────────────────────────────────────────────────
+
+const SUMMARY_SELECT = {
+  id: true,
+  authorityProfileId: true,
+  machineId: true,
+  version: true,
+  fsmId: true,
+  title: true,
+  status: true,
+  definitionHash: true,
+  simulatedHash: true,
+  simulatedAt: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/** Legt eine neue Version als DRAFT an oder überschreibt einen
+ *  bestehenden DRAFT derselben (machineId, version). Wirft INVALID mit
+ *  den Validator-Issues, CONFLICT für veröffentlichte / reservierte /
+ *  fremde IDs. */
+export async function saveMachineDraft(input: {
+  authorityProfileId: string;
+  source: string;
+  format: MachineSourceFormat;
+  userId: string;
+}) {
+  const loaded = loadMachineSource(input.source, input.format);
+  if (!loaded.spec || !loaded.def) {
+    throw new MachineDefError(
+      "INVALID",
+      `Definition hat ${loaded.issues.length} Fehler`,
+      loaded.issues,
+    );
+  }
+  const { spec, def } = loaded;
+  if (BUILTIN_MACHINES[def.id]) {
+    throw new MachineDefError(
+      "CONFLICT",
+      `fsmId "${def.id}" ist für eine eingebaute Maschine reserviert`,
+    );
+  }
+
+  const versions = await prisma.workflowMachineDef.findMany({
+    where: { machineId: spec.id },
+    select: { id: true, version: true, status: true, authorityProfileId: true },
+  });
+  if (versions.some((v) => v.authorityProfileId !== input.authorityProfileId)) {
+    throw new MachineDefError(
+      "CONFLICT",
+      `Maschinen-ID "${spec.id}" gehört einer anderen Behörde`,
+    );
+  }
+  const published = versions.filter((v) => v.status !== "DRAFT");
+  const highestPublished = Math.max(0, ...published.map((v) => v.version));
+  if (spec.version <= highestPublished) {
+    throw new MachineDefError(
+      "CONFLICT",
+      `Version ${spec.version} ist nicht neuer als die veröffentlichte v${highestPublished} — Version erhöhen`,
+    );
+  }
+
+  const content = {
+    title: spec.title,
+    sourceFormat: input.format,
+    source: input.source,
+    definition: def as unknown as Prisma.InputJsonValue,
+    definitionHash: machineDefHash(def),
+  };
+  const existing = versions.find((v) => v.version === spec.version);
+  if (existing) {
+    return prisma.workflowMachineDef.update({
+      where: { id: existing.id },
+      data: {
+        ...content,
+        simulationScript: Prisma.DbNull,
+        simulationResult: Prisma.DbNull,
+        simulatedHash: null,
+        simulatedAt: null,
+      },
+      select: SUMMARY_SELECT,
+    });
+  }
+  return prisma.workflowMachineDef.create({
+    data: {
+      ...content,
+      authorityProfileId: input.authorityProfileId,
+      machineId: spec.id,
+      version: spec.version,
+      fsmId: def.id,
+      createdBy: input.userId,
+    },
+    select: SUMMARY_SELECT,
+  });
+}
+
+async function loadOwned(id: string, authorityProfileIds: string[]) {
+  const row = await prisma.workflowMachineDef.findUnique({ where: { id } });
+  if (!row) {
+    throw new MachineDefError("NOT_FOUND", `Maschine ${id} nicht gefunden`);
+  }
+  if (!authorityProfileIds.includes(row.authorityProfileId)) {
+    throw new MachineDefError(
+      "FORBIDDEN",
+      "Maschine gehört nicht zur Behörde des Aufrufers",
+    );
+  }
+  return row;
+}
+
+// ─── Simulate ─────────────────────────────────────────────────────────
+
+/** Simuliert einen DRAFT und hält Skript, Ergebnis und den simulierten
+ *  definitionHash fest — die Grundlage des Publish-Gates. */
+export async function simulateMachineDraft(input: {
+  id: string;
+  authorityProfileIds: string[];
+  script: SimulationScript;
+}): Promise<SimulationResult> {
+  const row = await loadOwned(input.id, input.authorityProfileIds);
+  if (row.status !== "DRAFT") {
+    throw new MachineDefError(
+      "CONFLICT",
+      `${row.fsmId} ist bereits ${row.status} — Simulation nur für Entwürfe`,
+    );
+  }
+  const result = simulateMachine(
+    row.definition as unknown as AuthoredMachineDef,
+    input.script,
+  );
+  await prisma.workflowMachineDef.update({
+    where: { id: row.id },
+    data: {
+      simulationScript: input.script as Prisma.InputJsonValue,
+      simulationResult: result as unknown as Prisma.InputJsonValue,
+      simulatedHash: row.definitionHash,
+      simulatedAt: new Date(),
+    },
+  });
+  return result;
+}
+
+// ─── Publish ──────────────────────────────────────────────────────────
+
+/** DRAFT → LIVE. Verlangt eine bestandene Simulation derselben
+ *  Definition, die in einem Final-State endete; die bisherige LIVE-
+ *  Version derselben machineId wird SUPERSEDED. */
+export async function publishMachine(input: {
+  id: string;
+  authorityProfileIds: string[];
+  userId: string;
+}) {
+  const row = await loadOwned(input.id, input.authorityProfileIds);
+  if (row.status !== "DRAFT") {
+    throw new MachineDefError(
+      "CONFLICT",
+      `${row.fsmId} ist bereits ${row.status}`,
+    );
+  }
+  const def = row.definition as unknown as AuthoredMachineDef;
+  const issues = validateMachineDef(def);
+  if (issues.length > 0) {
+    throw new MachineDefError(
+      "INVALID",
+      `Definition hat ${issues.length} Fehler`,
+      issues,
+    );
+  }
+  const sim = row.simulationResult as unknown as SimulationResult | null;
+  if (
+    row.simulatedHash !== row.definitionHash ||
+    !sim?.passed ||
+    !sim.reachedFinal
+  ) {
+    throw new MachineDefError(
+      "NOT_SIMULATED",
+      "Vor dem Publish muss eine Simulation dieser Definition bestanden und in einem Final-State geendet haben",
+    );
+  }
+
+  const [, published] = await prisma.$transaction([
+    prisma.workflowMachineDef.updateMany({
+      where: { machineId: row.machineId, status: "LIVE" },
+      data: { status: "SUPERSEDED" },
+    }),
+    prisma.workflowMachineDef.update({
+      where: { id: row.id },
+      data: {
+        status: "LIVE",
+        publishedAt: new Date(),
+        publishedBy: input.userId,
+      },
+      select: SUMMARY_SELECT,
+    }),
+  ]);
+  logger.info(`[workflow-machines] published ${row.fsmId}`, {
+    authorityProfileId: row.authorityProfileId,
+    definitionHash: row.definitionHash,
+  });
+  return published;
+}
+
+// ─── Reads ─────────────────────────────────────────────────────────────
+
+export async function listMachineDefs(authorityProfileIds: string[]) {
+  return prisma.workflowMachineDef.findMany({
+    where: { authorityProfileId: { in: authorityProfileIds } },
+    orderBy: [{ machineId: "asc" }, { version: "desc" }],
+    select: SUMMARY_SELECT,
+  });
+}
+
+export async function getMachineDef(id: string, authorityProfileIds: string[]) {
+  return loadOwned(id, authorityProfileIds);
+}
@@ -0,0 +1,708 @@
+import "server-only";
+
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Pharos Workflow Machine Spec — behördlich verfasste FSMs als JSON/YAML.
+ *
+ * Die eingebauten Maschinen (NIS2-Incident, EU-Space-Act-Authorisation)
+ * leben als TS-Konstanten in workflow-fsm.ts. Behörden haben eigene
+ * Verfahren — nationale Lizenzierung, CRA-Marktüberwachung,
+ * Frequenzkoordination — und verfassen sie hier als Daten:
+ *
+ *   id: bnetza-spectrum-coordination
+ *   version: 1
+ *   title: Frequenzkoordination
+ *   initial: Filed
+ *   states:
+ *     Filed:
+ *       label: Antrag eingegangen
+ *       after: { duration: P30D, target: Lapsed, reason: "…" }
+ *       on: { ACCEPT: Coordination, WITHDRAW: Lapsed }
+ *     Coordination:
+ *       label: Koordinierung
+ *       signatures: { approvalKind: GENERIC, onApproved: GRANT, onRejected: DENY }
+ *       on: { GRANT: Granted, DENY: Denied }
+ *     …
+ *
+ * Pipeline:
+ *   1. parseMachineSource  — JSON/YAML → schema-geprüfte MachineSpec
+ *   2. compileMachineSpec  — ISO-8601-Fristen → ms, fsmId "<id>-v<version>"
+ *   3. validateMachineDef  — Graph-Regeln; gilt auch für die eingebauten
+ *                            Maschinen (unerreichbare States, fehlende
+ *                            Fristen, Sackgassen, Signatur-Gates)
+ *   4. simulateMachine     — skriptierte Event-Folge mit virtueller Uhr
+ *
+ * Alles hier ist pure — Persistenz + Publish-Gate in
+ * workflow-machine-service.ts.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { createHash } from "node:crypto";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { DEFAULT_PROFILES, type ApprovalKind } from "./multi-party-approval";
+import type { MachineDef, StateDef } from "./workflow-fsm";
+
+function sha256Hex(input: string): string {
+  return createHash("sha256").update(input, "utf8").digest("hex");
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_k, v) => {
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      const out: Record<string, unknown> = {};
+      for (const k of Object.keys(v).sort()) {
+        out[k] = (v as Record<string, unknown>)[k];
+      }
+      return out;
+    }
+    return v;
+  });
+}
+
+export type AuthoredMachineDef = MachineDef<string, string>;
+
+// ─── Issues ───────────────────────────────────────────────────────────
+
+export type MachineIssueCode =
+  | "parse-error"
+  | "schema"
+  | "invalid-name"
+  | "reserved-event"
+  | "invalid-duration"
+  | "unknown-state"
+  | "unknown-approval-kind"
+  | "signature-event-missing"
+  | "final-has-transitions"
+  | "unreachable-state"
+  | "dead-end"
+  | "no-path-to-final"
+  | "no-final-state"
+  | "missing-deadline"
+  | "conflicting-deadline";
+
+export interface MachineIssue {
+  /** Pfad im Dokument, z.B. "states.Triage.after.target". */
+  path: string;
+  code: MachineIssueCode;
+  message: string;
+}
+
+// ─── Spec schema ──────────────────────────────────────────────────────
+
+const MACHINE_ID = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+const STATE_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+const EVENT_NAME = /^[A-Z][A-Z0-9_]*$/;
+/** Von signTransition für SLA-Auto-Transitions belegt. */
+const RESERVED_EVENTS = new Set(["_AFTER"]);
+
+const StateSpecSchema = z
+  .object({
+    label: z.string().min(1).max(200),
+    final: z.boolean().optional(),
+    on: z.record(z.string(), z.string()).optional(),
+    after: z
+      .object({
+        duration: z.string().min(1),
+        target: z.string().min(1),
+        reason: z.string().min(1).max(500),
+      })
+      .strict()
+      .optional(),
+    noDeadline: z.string().min(1).max(500).optional(),
+    signatures: z
+      .object({
+        approvalKind: z.string().min(1),
+        onApproved: z.string().min(1),
+        onRejected: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const MachineSpecSchema = z
+  .object({
+    id: z.string().min(3).max(80),
+    version: z.number().int().min(1).max(9999),
+    title: z.string().min(1).max(200),
+    initial: z.string().min(1),
+    states: z.record(z.string(), StateSpecSchema),
+  })
+  .strict();
+
+export type MachineSpec = z.infer<typeof MachineSpecSchema>;
+
+export type MachineSourceFormat = "json" | "yaml";
+
+// ─── Parse ────────────────────────────────────────────────────────────
+
+export function parseMachineSource(
+  source: string,
+  format: MachineSourceFormat,
+): { spec: MachineSpec | null; issues: MachineIssue[] } {
+  let raw: unknown;
+  try {
+    raw = format === "yaml" ? parseYaml(source) : JSON.parse(source);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      spec: null,
+      issues: [{ path: "", code: "parse-error", message: msg }],
+    };
+  }
+  const parsed = MachineSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      spec: null,
+      issues: parsed.error.issues.map((i) => ({
+        path: i.path.join("."),
+        code: "schema",
+        message: i.message,
+      })),
+    };
+  }
+  return { spec: parsed.data, issues: [] };
+}
+
+// ─── Durations ────────────────────────────────────────────────────────
+
+const DURATION =
+  /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/** ISO-8601-Dauer → ms. Nur feste Einheiten (W, D, H, M, S) — Monate
+ *  und Jahre sind kalenderabhängig und werden als Tage verlangt.
+ *  Null bei ungültiger oder leerer Dauer. */
+export function parseIsoDuration(input: string): number | null {
+  const m = DURATION.exec(input);
+  if (!m || input === "P" || input.endsWith("T")) return null;
+  const [w, d, h, min, s] = m.slice(1).map((v) => (v ? Number(v) : 0));
+  const ms = ((((w * 7 + d) * 24 + h) * 60 + min) * 60 + s) * 1000;
+  return ms > 0 ? ms : null;
+}
+
+// ─── Compile ──────────────────────────────────────────────────────────
+
+export function machineFsmId(machineId: string, version: number): string {
+  return `${machineId}-v${version}`;
+}
+
+/** MachineSpec → MachineDef. Meldet Namens- und Dauer-Fehler; die
+ *  Graph-Regeln prüft validateMachineDef. */
+export function compileMachineSpec(spec: MachineSpec): {
+  def: AuthoredMachineDef;
+  issues: MachineIssue[];
+} {
+  const issues: MachineIssue[] = [];
+  if (!MACHINE_ID.test(spec.id) || /-v\d+$/.test(spec.id)) {
+    issues.push({
+      path: "id",
+      code: "invalid-name",
+      message: `Maschinen-ID "${spec.id}" muss kebab-case sein und darf nicht auf -v<n> enden (die Version steht in "version")`,
+    });
+  }
+
+  const states: Record<string, StateDef<string, string>> = {};
+  for (const [name, s] of Object.entries(spec.states)) {
+    const path = `states.${name}`;
+    if (!STATE_NAME.test(name)) {
+      issues.push({
+        path,
+        code: "invalid-name",
+        message: `State-Name "${name}" ist ungültig (Buchstaben, Ziffern, _)`,
+      });
+    }
+    for (const event of Object.keys(s.on ?? {})) {
+      if (RESERVED_EVENTS.has(event)) {
+        issues.push({
+          path: `${path}.on.${event}`,
+          code: "reserved-event",
+          message: `Event "${event}" ist für Frist-Transitions reserviert — Fristen über "after" modellieren`,
+        });
+      } else if (!EVENT_NAME.test(event)) {
+        issues.push({
+          path: `${path}.on.${event}`,
+          code: "invalid-name",
+          message: `Event-Name "${event}" muss UPPER_SNAKE_CASE sein`,
+        });
+      }
+    }
+
+    const state: StateDef<string, string> = { label: s.label };
+    if (s.final) state.final = true;
+    if (s.on) state.on = { ...s.on };
+    if (s.after) {
+      const afterMs = parseIsoDuration(s.after.duration);
+      if (afterMs === null) {
+        issues.push({
+          path: `${path}.after.duration`,
+          code: "invalid-duration",
+          message: `"${s.after.duration}" ist keine gültige ISO-8601-Dauer (z.B. PT24H, P30D)`,
+        });
+      } else {
+        state.after = {
+          afterMs,
+          target: s.after.target,
+          reason: s.after.reason,
+        };
+      }
+    }
+    if (s.noDeadline) state.noDeadline = s.noDeadline;
+    if (s.signatures) {
+      state.signatures = {
+        approvalKind: s.signatures.approvalKind as ApprovalKind,
+        onApproved: s.signatures.onApproved,
+        ...(s.signatures.onRejected
+          ? { onRejected: s.signatures.onRejected }
+          : {}),
+      };
+    }
+    states[name] = state;
+  }
+
+  return {
+    def: {
+      id: machineFsmId(spec.id, spec.version),
+      title: spec.title,
+      initial: spec.initial,
+      states,
+    },
+    issues,
+  };
+}
+
+// ─── Validate ─────────────────────────────────────────────────────────
+
+/** Ziel-States eines States: Event-Transitions + after-Trigger. */
+function successors(state: StateDef<string, string>): string[] {
+  const out = Object.values(state.on ?? {}) as string[];
+  if (state.after) out.push(state.after.target);
+  return out;
+}
+
+/** Graph- und Fristen-Regeln über eine MachineDef. Leeres Array =
+ *  die Maschine darf live gehen. */
+export function validateMachineDef(def: AuthoredMachineDef): MachineIssue[] {
+  const issues: MachineIssue[] = [];
+  const names = Object.keys(def.states);
+  const known = new Set(names);
+
+  if (!known.has(def.initial)) {
+    issues.push({
+      path: "initial",
+      code: "unknown-state",
+      message: `Initial-State "${def.initial}" ist nicht definiert`,
+    });
+  }
+
+  for (const name of names) {
+    const s = def.states[name];
+    const path = `states.${name}`;
+
+    for (const [event, target] of Object.entries(s.on ?? {})) {
+      if (!known.has(target as string)) {
+        issues.push({
+          path: `${path}.on.${event}`,
+          code: "unknown-state",
+          message: `Event "${event}" führt in den unbekannten State "${target}"`,
+        });
+      }
+    }
+    if (s.after && !known.has(s.after.target)) {
+      issues.push({
+        path: `${path}.after.target`,
+        code: "unknown-state",
+        message: `Frist führt in den unbekannten State "${s.after.target}"`,
+      });
+    }
+
+    if (s.signatures) {
+      if (!(s.signatures.approvalKind in DEFAULT_PROFILES)) {
+        issues.push({
+          path: `${path}.signatures.approvalKind`,
+          code: "unknown-approval-kind",
+          message: `Unbekannter Approval-Typ "${s.signatures.approvalKind}" (erlaubt: ${Object.keys(DEFAULT_PROFILES).join(", ")})`,
+        });
+      }
+      const gateEvents = [
+        ["onApproved", s.signatures.onApproved],
+        ["onRejected", s.signatures.onRejected],
+      ] as const;
+      for (const [key, event] of gateEvents) {
+        if (event && !s.on?.[event]) {
+          issues.push({
+            path: `${path}.signatures.${key}`,
+            code: "signature-event-missing",
+            message: `Signatur-Event "${event}" ist in "${name}.on" nicht definiert`,
+          });
+        }
+      }
+    }
+
+    if (s.final) {
+      if (s.on || s.after || s.signatures) {
+        issues.push({
+          path,
+          code: "final-has-transitions",
+          message: `Final-State "${name}" darf keine Transitions, Fristen oder Signaturen haben`,
+        });
+      }
+      continue;
+    }
+
+    if (successors(s).length === 0) {
+      issues.push({
+        path,
+        code: "dead-end",
+        message: `"${name}" ist weder final noch verlassbar`,
+      });
+    }
+
+    const expiring = !!s.signatures?.onRejected;
+    if (!s.after && !expiring && !s.noDeadline) {
+      issues.push({
+        path,
+        code: "missing-deadline",
+        message: `"${name}" hat keine Frist — "after" setzen oder "noDeadline" begründen`,
+      });
+    }
+    if (s.noDeadline && (s.after || expiring)) {
+      issues.push({
+        path: `${path}.noDeadline`,
+        code: "conflicting-deadline",
+        message: `"${name}" hat eine Frist und zugleich eine noDeadline-Begründung`,
+      });
+    }
+  }
+
+  const finals = names.filter((n) => def.states[n].final);
+  if (finals.length === 0) {
+    issues.push({
+      path: "states",
+      code: "no-final-state",
+      message: "Die Maschine hat keinen Final-State",
+    });
+  }
+
+  // Vorwärts: vom Initial-State erreichbar?
+  const reachable = new Set<string>();
+  if (known.has(def.initial)) {
+    const queue = [def.initial];
+    reachable.add(def.initial);
+    while (queue.length > 0) {
+      for (const next of successors(def.states[queue.shift()!])) {
+        if (known.has(next) && !reachable.has(next)) {
+          reachable.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    for (const name of names) {
+      if (!reachable.has(name)) {
+        issues.push({
+          path: `states.${name}`,
+          code: "unreachable-state",
+          message: `"${name}" ist vom Initial-State "${def.initial}" aus nicht erreichbar`,
+        });
+      }
+    }
+  }
+
+  // Rückwärts: führt von jedem erreichbaren State ein Weg zu einem
+  // Final-State? Sackgassen sind oben schon gemeldet.
+  if (finals.length > 0) {
+    const canFinish = new Set(finals);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const name of names) {
+        if (canFinish.has(name)) continue;
+        if (successors(def.states[name]).some((t) => canFinish.has(t))) {
+          canFinish.add(name);
+          grew = true;
+        }
+      }
+    }
+    for (const name of names) {
+      const s = def.states[name];
+      if (
+        reachable.has(name) &&
+        !canFinish.has(name) &&
+        successors(s).length > 0
+      ) {
+        issues.push({
+          path: `states.${name}`,
+          code: "no-path-to-final",
+          message: `Von "${name}" führt kein Weg in einen Final-State`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Parse + compile + validate in einem Schritt. `def` ist nur gesetzt,
+ *  wenn keine Issues gefunden wurden. */
+export function loadMachineSource(
+  source: string,
+  format: MachineSourceFormat,
+): {
+  spec: MachineSpec | null;
+  def: AuthoredMachineDef | null;
+  issues: MachineIssue[];
+} {
+  const parsed = parseMachineSource(source, format);
+  if (!parsed.spec) return { spec: null, def: null, issues: parsed.issues };
+  const compiled = compileMachineSpec(parsed.spec);
+  const issues = [...compiled.issues, ...validateMachineDef(compiled.def)];
+  return {
+    spec: parsed.spec,
+    def: issues.length === 0 ? compiled.def : null,
+    issues,
+  };
+}
+
+/** SHA-256 über die kanonische MachineDef — bindet Simulation und
+ *  Publish an genau eine Definition. */
+export function machineDefHash(def: AuthoredMachineDef): string {
+  return sha256Hex(canonicalJson(def));
+}
+
+// ─── Simulation ───────────────────────────────────────────────────────
+
+const Expect = z.string().min(1).optional();
+
+export const SimulationScriptSchema = z
+  .object({
+    steps: z
+      .array(
+        z.union([
+          z.object({ event: z.string().min(1), expect: Expect }).strict(),
+          z.object({ advance: z.string().min(1), expect: Expect }).strict(),
+          z
+            .object({
+              sign: z.enum(["APPROVED", "REJECTED", "EXPIRED"]),
+              expect: Expect,
+            })
+            .strict(),
+        ]),
+      )
+      .min(1)
+      .max(200),
+    expectFinal: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type SimulationScript = z.infer<typeof SimulationScriptSchema>;
+
+export interface SimulationTraceEntry {
+  /** Index des Skript-Schritts, der die Transition ausgelöst hat. */
+  step: number;
+  /** Virtuelle Zeit seit Case-Start. */
+  atMs: number;
+  from: string;
+  to: string;
+  /** Event; "_AFTER" für Frist-Transitions. */
+  event: string;
+  reason?: string;
+}
+
+export interface SimulationResult {
+  passed: boolean;
+  /** Der Lauf endete in einem Final-State — Voraussetzung fürs Publish. */
+  reachedFinal: boolean;
+  finalState: string;
+  elapsedMs: number;
+  trace: SimulationTraceEntry[];
+  visitedStates: string[];
+  /** Erster Fehlschlag; die Simulation bricht dort ab. */
+  failure: { step: number | null; message: string } | null;
+}
+
+/** Obergrenze für verkettete Frist-Transitions pro advance-Schritt. */
+const MAX_CHAINED_DEADLINES = 100;
+
+/**
+ * Spielt ein Skript gegen die Maschine ab, mit virtueller Uhr ab 0.
+ *
+ *   { event: X }        — manuelles Event; signaturpflichtige Events
+ *                         (onApproved/onRejected eines Gates) sind hier
+ *                         verboten, genau wie im Live-Dispatch
+ *   { advance: P3D }    — Uhr vorstellen; fällige after-Trigger und
+ *                         abgelaufene Approvals (ttlHours → onRejected)
+ *                         feuern der Reihe nach
+ *   { sign: APPROVED }  — Approval-Ergebnis am aktuellen Signatur-Gate
+ *
+ * `expect` prüft den State nach dem Schritt, `expectFinal` am Ende.
+ */
+export function simulateMachine(
+  def: AuthoredMachineDef,
+  script: SimulationScript,
+): SimulationResult {
+  let current = def.initial;
+  let now = 0;
+  let enteredAt = 0;
+  const trace: SimulationTraceEntry[] = [];
+  const visited = new Set([current]);
+
+  const move = (
+    step: number,
+    at: number,
+    to: string,
+    event: string,
+    reason?: string,
+  ) => {
+    trace.push({
+      step,
+      atMs: at,
+      from: current,
+      to,
+      event,
+      ...(reason ? { reason } : {}),
+    });
+    current = to;
+    enteredAt = at;
+    visited.add(to);
+  };
+
+  const finish = (failure: SimulationResult["failure"]): SimulationResult => ({
+    passed: failure === null,
+    reachedFinal: !!def.states[current]?.final,
+    finalState: current,
+    elapsedMs: now,
+    trace,
+    visitedStates: [...visited],
+    failure,
+  });
+
+  for (let i = 0; i < script.steps.length; i++) {
+    const step = script.steps[i];
+    const state = def.states[current];
+    if (!state) {
+      return finish({ step: i, message: `State "${current}" ist unbekannt` });
+    }
+    if (state.final) {
+      return finish({
+        step: i,
+        message: `Case ist bereits in Final-State "${current}"`,
+      });
+    }
+    const gate = state.signatures;
+
+    if ("event" in step) {
+      if (
+        gate &&
+        (step.event === gate.onApproved || step.event === gate.onRejected)
+      ) {
+        return finish({
+          step: i,
+          message: `"${step.event}" ist signaturpflichtig (${gate.approvalKind}) — Schritt "sign" verwenden`,
+        });
+      }
+      const target = state.on?.[step.event];
+      if (!target) {
+        return finish({
+          step: i,
+          message: `Event "${step.event}" ist in State "${current}" nicht erlaubt`,
+        });
+      }
+      move(i, now, target, step.event);
+    } else if ("sign" in step) {
+      if (!gate) {
+        return finish({
+          step: i,
+          message: `State "${current}" hat kein Signatur-Gate`,
+        });
+      }
+      const event =
+        step.sign === "APPROVED" ? gate.onApproved : gate.onRejected;
+      const target = event ? state.on?.[event] : undefined;
+      if (!event || !target) {
+        return finish({
+          step: i,
+          message: `Signatur-Gate in "${current}" hat kein Event für ${step.sign}`,
+        });
+      }
+      move(i, now, target, event, `Approval ${step.sign}`);
+    } else {
+      const ms = parseIsoDuration(step.advance);
+      if (ms === null) {
+        return finish({
+          step: i,
+          message: `"${step.advance}" ist keine gültige ISO-8601-Dauer`,
+        });
+      }
+      const until = now + ms;
+      for (let n = 0; ; n++) {
+        if (n >= MAX_CHAINED_DEADLINES) {
+          now = until;
+          return finish({
+            step: i,
+            message: `Mehr als ${MAX_CHAINED_DEADLINES} verkettete Fristen — Fristen-Zyklus?`,
+          });
+        }
+        const s = def.states[current];
+        if (!s || s.final) break;
+        const due = nextDeadline(s, enteredAt);
+        if (!due || due.at > until) break;
+        move(i, due.at, due.target, due.event, due.reason);
+      }
+      now = until;
+    }
+
+    if (step.expect && step.expect !== current) {
+      return finish({
+        step: i,
+        message: `Erwartet "${step.expect}", tatsächlich "${current}"`,
+      });
+    }
+  }
+
+  if (script.expectFinal && script.expectFinal !== current) {
+    return finish({
+      step: null,
+      message: `Erwarteter End-State "${script.expectFinal}", tatsächlich "${current}"`,
+    });
+  }
+  return finish(null);
+}
+
+/** Nächste fällige Auto-Transition: after-Trigger oder Approval-Ablauf
+ *  (EXPIRED dispatched onRejected, siehe workflow-approval-bridge.ts). */
+function nextDeadline(
+  state: StateDef<string, string>,
+  enteredAt: number,
+): { at: number; target: string; event: string; reason: string } | null {
+  const candidates: Array<{
+    at: number;
+    target: string;
+    event: string;
+    reason: string;
+  }> = [];
+  if (state.after) {
+    candidates.push({
+      at: enteredAt + state.after.afterMs,
+      target: state.after.target,
+      event: "_AFTER",
+      reason: state.after.reason,
+    });
+  }
+  const gate = state.signatures;
+  const expiryTarget = gate?.onRejected
+    ? state.on?.[gate.onRejected]
+    : undefined;
+  const profile = gate ? DEFAULT_PROFILES[gate.approvalKind] : undefined;
+  if (gate?.onRejected && expiryTarget && profile) {
+    candidates.push({
+      at: enteredAt + profile.ttlHours * 3600_000,
+      target: expiryTarget,
+      event: gate.onRejected,
+      reason: `Approval ${gate.approvalKind} nach ${profile.ttlHours}h abgelaufen`,
+    });
+  }
+  candidates.sort((a, b) => a.at - b.at);
+  return candidates[0] ?? null;
+}
@@ -11,6 +11,10 @@ import "server-only";
  * sodass parallele Events nicht zu Doppel-Transitions oder
  * Hash-Chain-Brüchen führen.
  *
+ * Maschinen werden über `resolveMachine` aufgelöst — die eingebauten aus
+ * workflow-fsm.ts und die von Behörden verfassten LIVE-/SUPERSEDED-
+ * Versionen (workflow-machine-service.ts).
+ *
  * Public API:
  *   - createWorkflowCase  — startet eine neue FSM-Instanz
  *   - dispatchEvent       — feuert ein Event auf die FSM (signed transition)
@@ -23,21 +27,13 @@ import "server-only";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import {
-  euSpaceActAuthFSM,
-  nis2IncidentFSM,
-  WorkflowFSM,
-  type AuthEvent,
-  type AuthState,
-  type Nis2Event,
-  type Nis2State,
-} from "./workflow-fsm";
-
-const FSM_REGISTRY = {
-  "nis2-incident-v1": nis2IncidentFSM,
-  "eu-space-act-authorisation-v1": euSpaceActAuthFSM,
-} as const;
+  resolveMachine,
+  type ResolvedMachine,
+} from "./workflow-machine-service";
 
-export type FSMId = keyof typeof FSM_REGISTRY;
+/** Eingebaute fsmId ("nis2-incident-v1", …) oder die einer verfassten
+ *  Maschine ("<machineId>-v<version>"). */
+export type FSMId = string;
 
 export class WorkflowError extends Error {
   constructor(
@@ -54,12 +50,12 @@ export class WorkflowError extends Error {
   }
 }
 
-function getFSM(fsmId: string): WorkflowFSM<string, string> {
-  const fsm = (FSM_REGISTRY as Record<string, WorkflowFSM<string, string>>)[
-    fsmId
-  ];
-  if (!fsm) throw new WorkflowError("FSM_NOT_FOUND", `Unknown fsmId: ${fsmId}`);
-  return fsm;
+async function getMachine(fsmId: string): Promise<ResolvedMachine> {
+  const machine = await resolveMachine(fsmId);
+  if (!machine) {
+    throw new WorkflowError("FSM_NOT_FOUND", `Unknown fsmId: ${fsmId}`);
+  }
+  return machine;
 }
 
 // ─── Create ───────────────────────────────────────────────────────────
@@ -72,8 +68,20 @@ export async function createWorkflowCase(input: {
   operatorOrgId?: string;
   metadata?: Record<string, unknown>;
 }): Promise<{ caseId: string; currentState: string }> {
-  const fsm = getFSM(input.fsmId);
-  const initial = fsm.initialState();
+  // Neue Cases nur auf LIVE-Versionen, und verfasste Maschinen nur in
+  // Vorgängen der Behörde, der sie gehören.
+  const machine = await resolveMachine(input.fsmId, { requireLive: true });
+  if (
+    !machine ||
+    (!machine.builtin &&
+      machine.authorityProfileId !== input.authorityProfileId)
+  ) {
+    throw new WorkflowError(
+      "FSM_NOT_FOUND",
+      `fsmId ${input.fsmId} is not available for new cases`,
+    );
+  }
+  const initial = machine.fsm.initialState();
 
   const created = await prisma.workflowCase.create({
     data: {
@@ -122,7 +130,21 @@ export async function dispatchEvent(input: {
       return { ok: false, reason: "case-already-closed" };
     }
 
-    const fsm = getFSM(cur.fsmId);
+    const machine = await getMachine(cur.fsmId);
+    const fsm = machine.fsm;
+    // Signatur-Gates: onApproved/onRejected feuert nur die Approval-
+    // Bridge (actorUserId null), nie ein Sachbearbeiter direkt.
+    const gate = machine.def.states[cur.currentState]?.signatures;
+    if (
+      gate &&
+      input.actorUserId !== null &&
+      (input.event === gate.onApproved || input.event === gate.onRejected)
+    ) {
+      return {
+        ok: false,
+        reason: `Event '${input.event}' requires ${gate.approvalKind} signatures`,
+      };
+    }
     const target = fsm.next(cur.currentState, input.event);
     if (!target) {
       return {
@@ -202,7 +224,7 @@ export async function autoTransitionDueCases(): Promise<{
   for (const c of open) {
     scanned++;
     try {
-      const fsm = getFSM(c.fsmId);
+      const { fsm } = await getMachine(c.fsmId);
       const auto = fsm.afterTransition(c.currentState, c.enteredStateAt);
       if (!auto) continue;
 
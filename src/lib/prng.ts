@@ -0,0 +1,19 @@
+/**
+ * Seedable pseudo-random numbers for simulations that must be reproducible
+ * (Monte Carlo Pc in SHIELD, probabilistic forecasts in Ephemeris).
+ *
+ * Not cryptographically secure — use node:crypto for anything security
+ * relevant.
+ */
+
+/** Mulberry32 — small, fast, seedable PRNG returning uniforms in [0, 1) */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -2,17 +2,24 @@
  * Sentinel Service Tests
  *
  * Tests: agent auth, token generation, registration, packet ingestion,
- * chain verification.
+ * batch replay, chain verification.
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHash, generateKeyPairSync, sign } from "node:crypto";
 
 vi.mock("server-only", () => ({}));
 
 vi.mock("@/lib/prisma", () => ({
   prisma: {
     sentinelAgent: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
-    sentinelPacket: { create: vi.fn(), findMany: vi.fn() },
+    sentinelPacket: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
     organization: { findFirst: vi.fn() },
     $transaction: vi.fn(),
   },
@@ -23,6 +30,7 @@ import {
   generateSentinelToken,
   registerSentinelAgent,
   ingestPacket,
+  ingestPacketBatch,
   verifyChain,
 } from "./sentinel-service.server";
 import { prisma } from "@/lib/prisma";
@@ -36,6 +44,9 @@ const mockPrisma = prisma as unknown as {
   sentinelPacket: {
     create: ReturnType<typeof vi.fn>;
     findMany: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
   };
   organization: { findFirst: ReturnType<typeof vi.fn> };
   $transaction: ReturnType<typeof vi.fn>;
@@ -49,6 +60,9 @@ describe("Sentinel Service", () => {
     mockPrisma.sentinelAgent.update.mockReset();
     mockPrisma.sentinelPacket.create.mockReset();
     mockPrisma.sentinelPacket.findMany.mockReset();
+    mockPrisma.sentinelPacket.findFirst.mockReset();
+    mockPrisma.sentinelPacket.findUnique.mockReset();
+    mockPrisma.sentinelPacket.updateMany.mockReset();
     mockPrisma.organization.findFirst.mockReset();
     mockPrisma.$transaction.mockReset();
     // Default: $transaction resolves successfully
@@ -228,6 +242,226 @@ describe("Sentinel Service", () => {
     });
   });
 
+  describe("ingestPacketBatch", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const publicKeyPem = publicKey
+      .export({ type: "spki", format: "pem" })
+      .toString();
+
+    function canonicalize(value: unknown): string {
+      if (value === null || value === undefined) return "null";
+      if (typeof value === "string") return JSON.stringify(value);
+      if (typeof value === "number" || typeof value === "boolean")
+        return String(value);
+      if (Array.isArray(value))
+        return "[" + value.map((v) => canonicalize(v)).join(",") + "]";
+      const obj = value as Record<string, unknown>;
+      return (
+        "{" +
+        Object.keys(obj)
+          .sort()
+          .map((k) => `${JSON.stringify(k)}:${canonicalize(obj[k])}`)
+          .join(",") +
+        "}"
+      );
+    }
+
+    /** Correctly hashed and signed packet at `position` */
+    function signedPacket(position: number, previousHash: string) {
+      const data = {
+        data_point: "ground_segment_telemetry",
+        values: { position },
+        source_system: "opcua",
+        collection_method: "opcua_read",
+        collection_timestamp: new Date().toISOString(),
+        compliance_notes: [] as string[],
+      };
+      const contentHash = `sha256:${createHash("sha256")
+        .update(canonicalize({ data, regulation_mapping: [] }))
+        .digest("hex")}`;
+      return {
+        packet_id: `pkt-${position}`,
+        version: "1.0",
+        sentinel_id: "s1",
+        operator_id: "org-1",
+        satellite_norad_id: null,
+        data,
+        regulation_mapping: [],
+        integrity: {
+          content_hash: contentHash,
+          previous_hash: previousHash,
+          chain_position: position,
+          signature: `ed25519:${sign(null, Buffer.from(contentHash), privateKey).toString("base64")}`,
+          agent_public_key: publicKeyPem,
+          timestamp_source: "system_clock",
+        },
+        metadata: {
+          sentinel_version: "1.4.2",
+          collector: "opcua",
+          config_hash: "cfg",
+          uptime_seconds: 0,
+          packets_sent_total: position,
+        },
+      };
+    }
+
+    function chain(from: number, count: number, previousHash: string) {
+      const packets = [];
+      let prev = previousHash;
+      for (let i = from; i < from + count; i++) {
+        const p = signedPacket(i, prev);
+        packets.push(p);
+        prev = p.integrity.content_hash;
+      }
+      return packets;
+    }
+
+    function agentAt(chainPosition: number, lastChainHash: string | null) {
+      mockPrisma.sentinelAgent.findUnique.mockResolvedValue({
+        id: "agent-1",
+        status: "ACTIVE",
+        organizationId: "org-1",
+        publicKey: publicKeyPem,
+        chainPosition,
+        lastChainHash,
+      });
+    }
+
+    it("accepts a contiguous replay from the chain head", async () => {
+      agentAt(0, null);
+      const packets = chain(0, 3, "sha256:genesis");
+
+      const result = await ingestPacketBatch("agent-1", [
+        packets[2]!,
+        packets[0]!,
+        packets[1]!,
+      ]);
+
+      expect(result.accepted).toBe(3);
+      expect(result.results.map((r) => r.chain_position)).toEqual([0, 1, 2]);
+      expect(result.chain).toEqual({ gaps: [], forks: [] });
+    });
+
+    it("reports positions missing before the batch as a gap", async () => {
+      agentAt(2, "sha256:head");
+      const packets = chain(5, 2, "sha256:lost");
+
+      const result = await ingestPacketBatch("agent-1", packets);
+
+      expect(result.accepted).toBe(2);
+      expect(result.chain.gaps).toEqual([{ from_position: 2, to_position: 4 }]);
+    });
+
+    it("reports a packet that does not link to the head as a fork", async () => {
+      agentAt(4, "sha256:head");
+      const [packet] = chain(4, 1, "sha256:elsewhere");
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result.chain.forks).toEqual([
+        { position: 4, expected: "sha256:head", actual: "sha256:elsewhere" },
+      ]);
+    });
+
+    it("settles already-stored packets as duplicates without re-ingesting", async () => {
+      agentAt(3, "sha256:head");
+      const [packet] = chain(1, 1, "sha256:p0");
+      mockPrisma.sentinelPacket.findUnique.mockResolvedValue({
+        agentId: "agent-1",
+      });
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result.duplicates).toBe(1);
+      expect(result.results[0]!.status).toBe("duplicate");
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("counts a packet stored concurrently at the head as a duplicate", async () => {
+      agentAt(0, null);
+      const [packet] = chain(0, 1, "sha256:genesis");
+      mockPrisma.$transaction.mockRejectedValue(
+        new Error("Unique constraint failed on the fields: (`packetId`)"),
+      );
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result).toMatchObject({ accepted: 0, duplicates: 1 });
+      expect(result.results[0]!.status).toBe("duplicate");
+    });
+
+    it("links a late gap-filling packet against its stored predecessor", async () => {
+      agentAt(10, "sha256:head");
+      const [packet] = chain(7, 1, "sha256:p6");
+      mockPrisma.sentinelPacket.findFirst.mockImplementation(
+        ({ where }: { where: { chainPosition: number } }) =>
+          Promise.resolve(
+            where.chainPosition === 6 ? { contentHash: "sha256:p6" } : null,
+          ),
+      );
+
+      await ingestPacketBatch("agent-1", [packet!]);
+
+      const create = mockPrisma.sentinelPacket.create.mock.calls[0]![0];
+      expect(create.data.chainValid).toBe(true);
+      // …and revalidates the successor stored while it was missing
+      expect(mockPrisma.sentinelPacket.updateMany).toHaveBeenCalledWith({
+        where: {
+          agentId: "agent-1",
+          chainPosition: 8,
+          previousHash: packet!.integrity.content_hash,
+          chainValid: false,
+        },
+        data: { chainValid: true },
+      });
+    });
+
+    it("reports a different packet at an occupied position as a fork", async () => {
+      agentAt(3, "sha256:head");
+      const [packet] = chain(1, 1, "sha256:p0");
+      mockPrisma.sentinelPacket.findFirst.mockResolvedValue({
+        contentHash: "sha256:stored",
+      });
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result.chain.forks).toEqual([
+        {
+          position: 1,
+          expected: "sha256:stored",
+          actual: packet!.integrity.content_hash,
+        },
+      ]);
+    });
+
+    it("does not rewind the agent's chain head for late arrivals", async () => {
+      agentAt(10, "sha256:head");
+      const [packet] = chain(7, 1, "sha256:p6");
+      mockPrisma.sentinelPacket.findFirst.mockResolvedValue(null);
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result.accepted).toBe(1);
+      const update = mockPrisma.sentinelAgent.update.mock.calls[0]![0];
+      expect(update.data.chainPosition).toBeUndefined();
+      expect(update.data.lastChainHash).toBeUndefined();
+    });
+
+    it("counts packets that fail verification as rejected", async () => {
+      agentAt(0, null);
+      const [packet] = chain(0, 1, "sha256:genesis");
+      packet!.integrity.signature = "ed25519:forged";
+
+      const result = await ingestPacketBatch("agent-1", [packet!]);
+
+      expect(result.rejected).toBe(1);
+      expect(result.results[0]).toMatchObject({
+        status: "rejected",
+        error: "SIGNATURE_INVALID",
+      });
+    });
+  });
+
   describe("verifyChain", () => {
     it("returns valid for empty chain", async () => {
       mockPrisma.sentinelPacket.findMany.mockResolvedValue([]);
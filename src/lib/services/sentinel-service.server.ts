@@ -137,6 +137,8 @@ export async function registerSentinelAgent(input: {
 
 interface IngestResult {
   accepted: boolean;
+  /** The packet_id was already stored (idempotent retry) */
+  duplicate?: boolean;
   error?: string;
   chain_position?: number;
 }
@@ -173,10 +175,25 @@ export async function ingestPacket(
   }
 
   // 4. Verify chain continuity (warn but accept — breaks may indicate packet loss)
+  const { chain_position: position, previous_hash } = packet.integrity;
   const expectedPrevHash = agent.lastChainHash ?? CHAIN_GENESIS_HASH;
-  const chainValid =
-    packet.integrity.previous_hash === expectedPrevHash &&
-    packet.integrity.chain_position === agent.chainPosition;
+  let chainValid =
+    previous_hash === expectedPrevHash && position === agent.chainPosition;
+  // Late arrivals (e.g. a replay filling an earlier gap) must not rewind the
+  // head, and link against the stored predecessor instead of the head
+  const advancesHead = position >= agent.chainPosition;
+  if (!advancesHead) {
+    const predecessorHash =
+      position === 0
+        ? CHAIN_GENESIS_HASH
+        : (
+            await prisma.sentinelPacket.findFirst({
+              where: { agentId, chainPosition: position - 1 },
+              select: { contentHash: true },
+            })
+          )?.contentHash;
+    chainValid = previous_hash === predecessorHash;
+  }
 
   // 5. Store packet + update agent atomically
   try {
@@ -207,12 +224,30 @@ export async function ingestPacket(
         data: {
           lastSeen: new Date(),
           lastPacketAt: new Date(),
-          chainPosition: packet.integrity.chain_position + 1,
-          lastChainHash: packet.integrity.content_hash,
+          ...(advancesHead
+            ? {
+                chainPosition: packet.integrity.chain_position + 1,
+                lastChainHash: packet.integrity.content_hash,
+              }
+            : {}),
           version: packet.metadata.sentinel_version,
           configHash: packet.metadata.config_hash,
         },
       }),
+      // A late packet closes the gap for a successor stored while it was missing
+      ...(advancesHead
+        ? []
+        : [
+            prisma.sentinelPacket.updateMany({
+              where: {
+                agentId,
+                chainPosition: position + 1,
+                previousHash: packet.integrity.content_hash,
+                chainValid: false,
+              },
+              data: { chainValid: true },
+            }),
+          ]),
     ]);
   } catch (err: unknown) {
     // Handle duplicate packet_id (idempotent retry)
@@ -222,6 +257,7 @@ export async function ingestPacket(
     ) {
       return {
         accepted: true,
+        duplicate: true,
         chain_position: packet.integrity.chain_position,
       };
     }
@@ -245,6 +281,150 @@ export async function ingestPacket(
   };
 }
 
+// ═══════════════════════════════════════════════════════════════════════
+// BATCH REPLAY
+// ═══════════════════════════════════════════════════════════════════════
+
+interface ChainGap {
+  from_position: number;
+  to_position: number;
+}
+
+interface ChainFork {
+  position: number;
+  expected: string;
+  actual: string;
+}
+
+interface BatchPacketResult {
+  packet_id: string;
+  chain_position: number;
+  status: "accepted" | "duplicate" | "rejected";
+  error?: string;
+}
+
+export interface BatchIngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  results: BatchPacketResult[];
+  chain: { gaps: ChainGap[]; forks: ChainFork[] };
+}
+
+/**
+ * Ingests a batch replayed from an agent's offline buffer, in chain order.
+ * Packets whose packet_id is already stored are reported as duplicates so the
+ * agent can settle them. Every other packet is checked against the agent's
+ * chain head before going through ingestPacket: a jump ahead is a gap
+ * (packets lost on the station), a packet that does not link to the head —
+ * or claims a position already held by a different packet — is a fork.
+ */
+export async function ingestPacketBatch(
+  agentId: string,
+  packets: EvidencePacketInput[],
+): Promise<BatchIngestResult> {
+  const agent = await prisma.sentinelAgent.findUnique({
+    where: { id: agentId },
+    select: { chainPosition: true, lastChainHash: true },
+  });
+
+  const result: BatchIngestResult = {
+    accepted: 0,
+    duplicates: 0,
+    rejected: 0,
+    results: [],
+    chain: { gaps: [], forks: [] },
+  };
+
+  let headPosition = agent?.chainPosition ?? 0;
+  let headHash = agent?.lastChainHash ?? CHAIN_GENESIS_HASH;
+
+  const ordered = [...packets].sort(
+    (a, b) => a.integrity.chain_position - b.integrity.chain_position,
+  );
+
+  for (const packet of ordered) {
+    const { chain_position: position, previous_hash } = packet.integrity;
+    const entry = { packet_id: packet.packet_id, chain_position: position };
+
+    const stored = await prisma.sentinelPacket.findUnique({
+      where: { packetId: packet.packet_id },
+      select: { agentId: true },
+    });
+    if (stored) {
+      if (stored.agentId === agentId) {
+        result.duplicates++;
+        result.results.push({ ...entry, status: "duplicate" });
+      } else {
+        result.rejected++;
+        result.results.push({
+          ...entry,
+          status: "rejected",
+          error: "PACKET_ID_CONFLICT",
+        });
+      }
+      continue;
+    }
+
+    if (position < headPosition) {
+      const existing = await prisma.sentinelPacket.findFirst({
+        where: { agentId, chainPosition: position },
+        select: { contentHash: true },
+      });
+      if (existing) {
+        result.chain.forks.push({
+          position,
+          expected: existing.contentHash,
+          actual: packet.integrity.content_hash,
+        });
+      }
+    } else if (position > headPosition) {
+      result.chain.gaps.push({
+        from_position: headPosition,
+        to_position: position - 1,
+      });
+    } else if (previous_hash !== headHash) {
+      result.chain.forks.push({
+        position,
+        expected: headHash,
+        actual: previous_hash,
+      });
+    }
+
+    const ingest = await ingestPacket(agentId, packet);
+    if (!ingest.accepted) {
+      result.rejected++;
+      result.results.push({
+        ...entry,
+        status: "rejected",
+        error: ingest.error,
+      });
+      continue;
+    }
+    if (ingest.duplicate) {
+      // Stored concurrently since the lookup above
+      result.duplicates++;
+      result.results.push({ ...entry, status: "duplicate" });
+    } else {
+      result.accepted++;
+      result.results.push({ ...entry, status: "accepted" });
+    }
+    if (position >= headPosition) {
+      headPosition = position + 1;
+      headHash = packet.integrity.content_hash;
+    }
+  }
+
+  if (result.chain.gaps.length > 0 || result.chain.forks.length > 0) {
+    logger.warn(
+      `[sentinel/replay] Agent ${agentId}: ${result.chain.gaps.length} chain gap(s), ${result.chain.forks.length} fork(s)`,
+      result.chain,
+    );
+  }
+
+  return result;
+}
+
 // ═══════════════════════════════════════════════════════════════════════
 // AUTO-PROVISION SPACECRAFT
 // ═══════════════════════════════════════════════════════════════════════
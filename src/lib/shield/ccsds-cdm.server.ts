@@ -0,0 +1,671 @@
+/**
+ * SHIELD — CCSDS Conjunction Data Message (CCSDS 508.0-B-1) codec
+ *
+ * Parses CDMs delivered as KVN or XML files (own SSA provider, EU SST)
+ * into Shield's canonical ParsedCDM, and serializes Shield conjunctions
+ * back into conformant CDMs for sharing with other operators.
+ *
+ * Only the mandatory 6x6 RTN covariance is handled; the optional
+ * drag/SRP/thrust rows (CDRG_*, CSRP_*, CTHR_*) are ignored on import.
+ */
+
+import "server-only";
+import type {
+  CCSDSFormat,
+  CDMCovarianceRTN,
+  CDMStateVector,
+  ParsedCDM,
+  SpaceTrackCDM,
+} from "./types";
+import { COVARIANCE_KEYWORDS } from "./types";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CCSDSCdmObject {
+  /** Satellite catalog number (NORAD ID for CATALOG_NAME = SATCAT) */
+  designator: string;
+  catalogName: string;
+  name: string;
+  internationalDesignator: string;
+  objectType: string;
+  ephemerisName: string;
+  covarianceMethod: string;
+  maneuverable: string;
+  stateVector: CDMStateVector;
+  covariance: CDMCovarianceRTN;
+}
+
+export interface CCSDSCdm {
+  version: string;
+  creationDate: Date;
+  originator: string;
+  messageFor: string | null;
+  messageId: string;
+  tca: Date;
+  missDistanceMeters: number;
+  relativeSpeedMs: number | null;
+  collisionProbability: number | null;
+  collisionProbabilityMethod: string | null;
+  objects: [CCSDSCdmObject, CCSDSCdmObject];
+}
+
+export class CCSDSCdmError extends Error {
+  constructor(
+    public readonly code:
+      | "UNKNOWN_FORMAT"
+      | "MISSING_FIELD"
+      | "INVALID_VALUE"
+      | "INCOMPLETE_STATE",
+    message: string,
+  ) {
+    super(message);
+    this.name = "CCSDSCdmError";
+  }
+}
+
+type KeywordMap = Map<string, string>;
+
+interface RawSegments {
+  header: KeywordMap;
+  objects: KeywordMap[];
+}
+
+const STATE_KEYWORDS = ["X", "Y", "Z", "X_DOT", "Y_DOT", "Z_DOT"] as const;
+
+const CCSDS_CDM_VERSION = "1.0";
+
+// ─── Shared Helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Parse a CCSDS epoch. Accepts calendar (YYYY-MM-DDThh:mm:ss[.d]) and
+ * day-of-year (YYYY-DDDThh:mm:ss[.d]) forms; both are UTC by definition.
+ */
+export function parseCcsdsEpoch(value: string): Date {
+  const trimmed = value.trim().replace(/Z$/, "");
+  const doy = /^(\d{4})-(\d{3})T(\d{2}:\d{2}:\d{2}(?:\.\d+)?)$/.exec(trimmed);
+  let date: Date;
+  if (doy) {
+    const base = Date.UTC(Number(doy[1]), 0, 1);
+    const [h, m, s] = doy[3]!.split(":").map(Number);
+    date = new Date(
+      base +
+        (Number(doy[2]) - 1) * 86_400_000 +
+        (h! * 3600 + m! * 60 + s!) * 1000,
+    );
+  } else {
+    date = new Date(`${trimmed}Z`);
+  }
+  if (isNaN(date.getTime())) {
+    throw new CCSDSCdmError("INVALID_VALUE", `Invalid CCSDS epoch: ${value}`);
+  }
+  return date;
+}
+
+function formatEpoch(date: Date): string {
+  return date.toISOString().replace(/Z$/, "");
+}
+
+function formatNumber(value: number): string {
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs < 1e-3 || abs >= 1e7)) {
+    return value.toExponential().toUpperCase();
+  }
+  return String(value);
+}
+
+function unitFor(keyword: string): string | null {
+  if (keyword === "MISS_DISTANCE") return "m";
+  if (keyword === "RELATIVE_SPEED") return "m/s";
+  if (keyword === "X" || keyword === "Y" || keyword === "Z") return "km";
+  if (keyword.endsWith("_DOT") && keyword.length <= 5) return "km/s";
+  if ((COVARIANCE_KEYWORDS as readonly string[]).includes(keyword)) {
+    const dots = keyword.split("DOT").length - 1;
+    return dots === 0 ? "m**2" : dots === 1 ? "m**2/s" : "m**2/s**2";
+  }
+  return null;
+}
+
+function required(map: KeywordMap, keyword: string, where: string): string {
+  const value = map.get(keyword);
+  if (value === undefined || value === "") {
+    throw new CCSDSCdmError(
+      "MISSING_FIELD",
+      `${where}: mandatory keyword ${keyword} is missing`,
+    );
+  }
+  return value;
+}
+
+function requiredNumber(map: KeywordMap, keyword: string, where: string) {
+  const value = Number(required(map, keyword, where));
+  if (!Number.isFinite(value)) {
+    throw new CCSDSCdmError(
+      "INVALID_VALUE",
+      `${where}: ${keyword} is not a number`,
+    );
+  }
+  return value;
+}
+
+function optionalNumber(map: KeywordMap, keyword: string): number | null {
+  const raw = map.get(keyword);
+  if (raw === undefined || raw === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// ─── KVN / XML Tokenizers ────────────────────────────────────────────────────
+
+function splitKvnSegments(text: string): RawSegments {
+  const header: KeywordMap = new Map();
+  const objects: KeywordMap[] = [];
+  let current = header;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("COMMENT")) continue;
+    const eq = line.indexOf("=");
+    if (eq === -1) continue;
+    const keyword = line.slice(0, eq).trim();
+    // Strip trailing unit annotation, e.g. "715 [m]"
+    const value = line
+      .slice(eq + 1)
+      .replace(/\[[^\]]*\]\s*$/, "")
+      .trim();
+
+    if (keyword === "OBJECT") {
+      current = new Map();
+      objects.push(current);
+    }
+    current.set(keyword, value);
+  }
+
+  return { header, objects };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function collectXmlLeaves(fragment: string): KeywordMap {
+  const map: KeywordMap = new Map();
+  const leaf = /<([A-Za-z_][\w]*)(?:\s[^>]*)?>([^<]*)<\/\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = leaf.exec(fragment)) !== null) {
+    if (match[1] === "COMMENT") continue;
+    map.set(match[1]!, decodeXmlEntities(match[2]!.trim()));
+  }
+  return map;
+}
+
+function splitXmlSegments(cdmXml: string): RawSegments {
+  const segments = cdmXml.match(/<segment\b[\s\S]*?<\/segment>/g) ?? [];
+  const firstSegment = cdmXml.search(/<segment\b/);
+  const preamble = firstSegment === -1 ? cdmXml : cdmXml.slice(0, firstSegment);
+  const header = collectXmlLeaves(preamble);
+  const version = /<cdm\b[^>]*\bversion="([^"]+)"/.exec(cdmXml)?.[1];
+  if (version) header.set("CCSDS_CDM_VERS", version);
+  return { header, objects: segments.map(collectXmlLeaves) };
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function readObject(map: KeywordMap, index: number): CCSDSCdmObject {
+  const where = `OBJECT${index + 1}`;
+  const stateVector: CDMStateVector = {
+    refFrame: required(map, "REF_FRAME", where),
+    x: requiredNumber(map, "X", where),
+    y: requiredNumber(map, "Y", where),
+    z: requiredNumber(map, "Z", where),
+    xDot: requiredNumber(map, "X_DOT", where),
+    yDot: requiredNumber(map, "Y_DOT", where),
+    zDot: requiredNumber(map, "Z_DOT", where),
+  };
+  const covariance = {} as CDMCovarianceRTN;
+  for (const keyword of COVARIANCE_KEYWORDS) {
+    covariance[keyword] = requiredNumber(map, keyword, where);
+  }
+
+  return {
+    designator: required(map, "OBJECT_DESIGNATOR", where),
+    catalogName: map.get("CATALOG_NAME") ?? "SATCAT",
+    name: map.get("OBJECT_NAME") ?? "UNKNOWN",
+    internationalDesignator: map.get("INTERNATIONAL_DESIGNATOR") ?? "UNKNOWN",
+    objectType: map.get("OBJECT_TYPE") ?? "UNKNOWN",
+    ephemerisName: map.get("EPHEMERIS_NAME") ?? "NONE",
+    covarianceMethod: map.get("COVARIANCE_METHOD") ?? "CALCULATED",
+    maneuverable: map.get("MANEUVERABLE") ?? "N/A",
+    stateVector,
+    covariance,
+  };
+}
+
+function readCdm(segments: RawSegments): CCSDSCdm {
+  const { header, objects } = segments;
+  if (objects.length !== 2) {
+    throw new CCSDSCdmError(
+      "MISSING_FIELD",
+      `CDM must contain exactly two object segments, found ${objects.length}`,
+    );
+  }
+
+  return {
+    version: header.get("CCSDS_CDM_VERS") ?? CCSDS_CDM_VERSION,
+    creationDate: parseCcsdsEpoch(required(header, "CREATION_DATE", "header")),
+    originator: required(header, "ORIGINATOR", "header"),
+    messageFor: header.get("MESSAGE_FOR") ?? null,
+    messageId: required(header, "MESSAGE_ID", "header"),
+    tca: parseCcsdsEpoch(required(header, "TCA", "relative metadata")),
+    missDistanceMeters: requiredNumber(
+      header,
+      "MISS_DISTANCE",
+      "relative metadata",
+    ),
+    relativeSpeedMs: optionalNumber(header, "RELATIVE_SPEED"),
+    collisionProbability: optionalNumber(header, "COLLISION_PROBABILITY"),
+    collisionProbabilityMethod:
+      header.get("COLLISION_PROBABILITY_METHOD") ?? null,
+    objects: [readObject(objects[0]!, 0), readObject(objects[1]!, 1)],
+  };
+}
+
+/**
+ * Detect the encoding of a CDM file. XML documents start with a tag;
+ * KVN documents start with the CCSDS_CDM_VERS keyword (after comments).
+ */
+export function detectCcsdsFormat(text: string): CCSDSFormat {
+  const trimmed = text.replace(/^﻿/, "").trimStart();
+  if (trimmed.startsWith("<")) return "XML";
+  if (/^\s*CCSDS_CDM_VERS\s*=/m.test(trimmed)) return "KVN";
+  throw new CCSDSCdmError(
+    "UNKNOWN_FORMAT",
+    "Input is neither a CCSDS CDM KVN nor XML document",
+  );
+}
+
+/**
+ * Parse one or more CDMs from a KVN or XML file. KVN files may hold several
+ * concatenated messages; XML may be a single <cdm> or an NDM wrapper.
+ */
+export function parseCcsdsCdms(text: string): CCSDSCdm[] {
+  const format = detectCcsdsFormat(text);
+
+  if (format === "XML") {
+    const documents = text.match(/<cdm\b[\s\S]*?<\/cdm>/g) ?? [];
+    if (documents.length === 0) {
+      throw new CCSDSCdmError("UNKNOWN_FORMAT", "XML input has no <cdm>");
+    }
+    return documents.map((doc) => readCdm(splitXmlSegments(doc)));
+  }
+
+  const messages = text
+    .split(/^(?=\s*CCSDS_CDM_VERS\s*=)/m)
+    .filter((chunk) => /CCSDS_CDM_VERS\s*=/.test(chunk));
+  return messages.map((msg) => readCdm(splitKvnSegments(msg)));
+}
+
+/**
+ * Map a CCSDS CDM to Shield's ParsedCDM format.
+ *
+ * Unit conversions: none — CCSDS already reports MISS_DISTANCE in m and
+ * RELATIVE_SPEED in m/s. The CDM ID is namespaced by originator because
+ * MESSAGE_ID is only unique per originator.
+ *
+ * COLLISION_PROBABILITY is optional in 508.0-B-1. When the originator left
+ * it out, the provider Pc stays null; the decision engine computes Shield's
+ * own from the (mandatory) state vectors and covariances.
+ */
+export function mapCcsdsCDMToParsed(cdm: CCSDSCdm): ParsedCDM {
+  const [obj1, obj2] = cdm.objects;
+
+  return {
+    cdmId: `ccsds-${cdm.originator}-${cdm.messageId}`,
+    creationDate: cdm.creationDate,
+    tca: cdm.tca,
+    missDistanceMeters: cdm.missDistanceMeters,
+    collisionProbability: cdm.collisionProbability,
+    probabilityMethod: cdm.collisionProbabilityMethod,
+    relativeSpeedMs: cdm.relativeSpeedMs,
+    sat1NoradId: obj1.designator,
+    sat1Name: obj1.name,
+    sat1ObjectType: obj1.objectType,
+    sat2NoradId: obj2.designator,
+    sat2Name: obj2.name,
+    sat2ObjectType: obj2.objectType,
+    sat2Maneuverable: obj2.maneuverable,
+    rawCdm: toRawRecord(cdm) as unknown as SpaceTrackCDM,
+    sat1StateVector: obj1.stateVector,
+    sat1Covariance: obj1.covariance,
+    sat2StateVector: obj2.stateVector,
+    sat2Covariance: obj2.covariance,
+  };
+}
+
+/**
+ * Flat keyword record stored as CDMRecord.rawCdm. Object keywords are
+ * prefixed OBJECT1_/OBJECT2_ so the export path can recover object order.
+ */
+function toRawRecord(cdm: CCSDSCdm): Record<string, string | number | null> {
+  const record: Record<string, string | number | null> = {
+    FORMAT: "CCSDS_CDM",
+    CCSDS_CDM_VERS: cdm.version,
+    CREATION_DATE: formatEpoch(cdm.creationDate),
+    ORIGINATOR: cdm.originator,
+    MESSAGE_FOR: cdm.messageFor,
+    MESSAGE_ID: cdm.messageId,
+    TCA: formatEpoch(cdm.tca),
+    MISS_DISTANCE: cdm.missDistanceMeters,
+    RELATIVE_SPEED: cdm.relativeSpeedMs,
+    COLLISION_PROBABILITY: cdm.collisionProbability,
+    COLLISION_PROBABILITY_METHOD: cdm.collisionProbabilityMethod,
+  };
+  cdm.objects.forEach((obj, i) => {
+    const p = `OBJECT${i + 1}_`;
+    record[`${p}OBJECT_DESIGNATOR`] = obj.designator;
+    record[`${p}CATALOG_NAME`] = obj.catalogName;
+    record[`${p}OBJECT_NAME`] = obj.name;
+    record[`${p}INTERNATIONAL_DESIGNATOR`] = obj.internationalDesignator;
+    record[`${p}OBJECT_TYPE`] = obj.objectType;
+    record[`${p}MANEUVERABLE`] = obj.maneuverable;
+  });
+  return record;
+}
+
+/**
+ * Parse a KVN or XML file straight into ParsedCDMs.
+ */
+export function parseCcsdsCdmFile(text: string): ParsedCDM[] {
+  return parseCcsdsCdms(text).map(mapCcsdsCDMToParsed);
+}
+
+// ─── Serialization ───────────────────────────────────────────────────────────
+
+function objectEntries(
+  obj: CCSDSCdmObject,
+  index: number,
+): { metadata: [string, string][]; state: [string, string][] } {
+  return {
+    metadata: [
+      ["OBJECT", `OBJECT${index + 1}`],
+      ["OBJECT_DESIGNATOR", obj.designator],
+      ["CATALOG_NAME", obj.catalogName],
+      ["OBJECT_NAME", obj.name],
+      ["INTERNATIONAL_DESIGNATOR", obj.internationalDesignator],
+      ["OBJECT_TYPE", obj.objectType],
+      ["EPHEMERIS_NAME", obj.ephemerisName],
+      ["COVARIANCE_METHOD", obj.covarianceMethod],
+      ["MANEUVERABLE", obj.maneuverable],
+      ["REF_FRAME", obj.stateVector.refFrame],
+    ],
+    state: [
+      ["X", formatNumber(obj.stateVector.x)],
+      ["Y", formatNumber(obj.stateVector.y)],
+      ["Z", formatNumber(obj.stateVector.z)],
+      ["X_DOT", formatNumber(obj.stateVector.xDot)],
+      ["Y_DOT", formatNumber(obj.stateVector.yDot)],
+      ["Z_DOT", formatNumber(obj.stateVector.zDot)],
+      ...COVARIANCE_KEYWORDS.map(
+        (k) => [k, formatNumber(obj.covariance[k])] as [string, string],
+      ),
+    ],
+  };
+}
+
+function relativeEntries(cdm: CCSDSCdm): [string, string][] {
+  const entries: [string, string][] = [
+    ["TCA", formatEpoch(cdm.tca)],
+    ["MISS_DISTANCE", formatNumber(cdm.missDistanceMeters)],
+  ];
+  if (cdm.relativeSpeedMs !== null) {
+    entries.push(["RELATIVE_SPEED", formatNumber(cdm.relativeSpeedMs)]);
+  }
+  if (cdm.collisionProbability !== null) {
+    entries.push([
+      "COLLISION_PROBABILITY",
+      formatNumber(cdm.collisionProbability),
+    ]);
+  }
+  if (cdm.collisionProbabilityMethod) {
+    entries.push([
+      "COLLISION_PROBABILITY_METHOD",
+      cdm.collisionProbabilityMethod,
+    ]);
+  }
+  return entries;
+}
+
+function headerEntries(cdm: CCSDSCdm): [string, string][] {
+  const entries: [string, string][] = [
+    ["CREATION_DATE", formatEpoch(cdm.creationDate)],
+    ["ORIGINATOR", cdm.originator],
+  ];
+  if (cdm.messageFor) entries.push(["MESSAGE_FOR", cdm.messageFor]);
+  entries.push(["MESSAGE_ID", cdm.messageId]);
+  return entries;
+}
+
+function kvnLine([keyword, value]: [string, string]): string {
+  const unit = unitFor(keyword);
+  return `${keyword.padEnd(32)} = ${value}${unit ? ` [${unit}]` : ""}`;
+}
+
+/**
+ * Serialize a CDM as CCSDS KVN text.
+ */
+export function serializeCcsdsCdmKvn(cdm: CCSDSCdm): string {
+  const lines = [
+    kvnLine(["CCSDS_CDM_VERS", cdm.version]),
+    ...headerEntries(cdm).map(kvnLine),
+    ...relativeEntries(cdm).map(kvnLine),
+  ];
+  cdm.objects.forEach((obj, i) => {
+    const { metadata, state } = objectEntries(obj, i);
+    lines.push(...metadata.map(kvnLine), ...state.map(kvnLine));
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function xmlLeaf([keyword, value]: [string, string], indent: string): string {
+  const unit = unitFor(keyword);
+  const attr = unit ? ` units="${unit}"` : "";
+  return `${indent}<${keyword}${attr}>${escapeXml(value)}</${keyword}>`;
+}
+
+/**
+ * Serialize a CDM as CCSDS XML (NDM/XML schema, cdm element).
+ */
+export function serializeCcsdsCdmXml(cdm: CCSDSCdm): string {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<cdm id="CCSDS_CDM_VERS" version="${escapeXml(cdm.version)}">`,
+    `  <header>`,
+    ...headerEntries(cdm).map((e) => xmlLeaf(e, "    ")),
+    `  </header>`,
+    `  <body>`,
+    `    <relativeMetadataData>`,
+    ...relativeEntries(cdm).map((e) => xmlLeaf(e, "      ")),
+    `    </relativeMetadataData>`,
+  ];
+  cdm.objects.forEach((obj, i) => {
+    const { metadata, state } = objectEntries(obj, i);
+    lines.push(
+      `    <segment>`,
+      `      <metadata>`,
+      ...metadata.map((e) => xmlLeaf(e, "        ")),
+      `      </metadata>`,
+      `      <data>`,
+      `        <stateVector>`,
+      ...state
+        .slice(0, STATE_KEYWORDS.length)
+        .map((e) => xmlLeaf(e, "          ")),
+      `        </stateVector>`,
+      `        <covarianceMatrix>`,
+      ...state
+        .slice(STATE_KEYWORDS.length)
+        .map((e) => xmlLeaf(e, "          ")),
+      `        </covarianceMatrix>`,
+      `      </data>`,
+      `    </segment>`,
+    );
+  });
+  lines.push(`  </body>`, `</cdm>`);
+  return `${lines.join("\n")}\n`;
+}
+
+// ─── Export From Shield ──────────────────────────────────────────────────────
+
+export interface CcsdsExportObject {
+  noradId: string;
+  name: string | null;
+  /** COSPAR ID, when known */
+  internationalDesignator?: string | null;
+  objectType: string;
+}
+
+export interface CcsdsExportInput {
+  messageId: string;
+  originator: string;
+  creationDate: Date;
+  /** The CDM record the export is based on (usually the latest one) */
+  record: {
+    tca: Date;
+    missDistance: number;
+    relativeSpeed: number | null;
+    collisionProbability: number | null;
+    probabilityMethod: string | null;
+    sat1StateVector: unknown;
+    sat1Covariance: unknown;
+    sat2StateVector: unknown;
+    sat2Covariance: unknown;
+    sat2Maneuverable: string | null;
+    rawCdm: unknown;
+  };
+  /** Our spacecraft — exported as OBJECT1 */
+  primary: CcsdsExportObject;
+  /** The threat object — exported as OBJECT2 */
+  secondary: CcsdsExportObject;
+}
+
+/**
+ * Which NORAD ID the stored record lists as sat1. Space-Track keeps it in
+ * SAT_1_ID, CCSDS imports in OBJECT1_OBJECT_DESIGNATOR, LeoLabs in primary.
+ */
+export function recordSat1NoradId(rawCdm: unknown): string | null {
+  if (!rawCdm || typeof rawCdm !== "object") return null;
+  const raw = rawCdm as Record<string, unknown>;
+  if (typeof raw.SAT_1_ID === "string") return raw.SAT_1_ID;
+  if (typeof raw.OBJECT1_OBJECT_DESIGNATOR === "string") {
+    return raw.OBJECT1_OBJECT_DESIGNATOR;
+  }
+  const primary = raw.primary as { norad_id?: unknown } | undefined;
+  return typeof primary?.norad_id === "string" ? primary.norad_id : null;
+}
+
+/**
+ * MANEUVERABLE of the stored record's sat1 and sat2. sat2 has its own
+ * column; sat1 only survives in the raw CDM (OBJECT1_MANEUVERABLE for CCSDS
+ * imports, SAT1_MANEUVERABLE where Space-Track provides it).
+ */
+export function recordManeuverability(record: {
+  sat2Maneuverable: string | null;
+  rawCdm: unknown;
+}): [string | null, string | null] {
+  const raw = (
+    record.rawCdm && typeof record.rawCdm === "object" ? record.rawCdm : {}
+  ) as Record<string, unknown>;
+  const sat1 = raw.OBJECT1_MANEUVERABLE ?? raw.SAT1_MANEUVERABLE;
+  return [typeof sat1 === "string" ? sat1 : null, record.sat2Maneuverable];
+}
+
+function asStateVector(value: unknown, who: string): CDMStateVector {
+  const sv = value as Partial<CDMStateVector> | null;
+  if (
+    !sv ||
+    typeof sv.refFrame !== "string" ||
+    ![sv.x, sv.y, sv.z, sv.xDot, sv.yDot, sv.zDot].every(Number.isFinite)
+  ) {
+    throw new CCSDSCdmError(
+      "INCOMPLETE_STATE",
+      `No state vector stored for ${who}; a conformant CDM cannot be produced`,
+    );
+  }
+  return sv as CDMStateVector;
+}
+
+function asCovariance(value: unknown, who: string): CDMCovarianceRTN {
+  const cov = value as Partial<CDMCovarianceRTN> | null;
+  if (!cov || !COVARIANCE_KEYWORDS.every((k) => Number.isFinite(cov[k]))) {
+    throw new CCSDSCdmError(
+      "INCOMPLETE_STATE",
+      `No RTN covariance stored for ${who}; a conformant CDM cannot be produced`,
+    );
+  }
+  return cov as CDMCovarianceRTN;
+}
+
+/**
+ * Build a CCSDS CDM for a Shield conjunction. Our spacecraft is always
+ * OBJECT1; the stored state, covariance and maneuverability are swapped if
+ * the source CDM listed the threat first. Throws INCOMPLETE_STATE when the underlying record has
+ * no state vectors or covariance (e.g. Space-Track public CDMs), since both
+ * are mandatory in CCSDS 508.0-B-1.
+ */
+export function buildCcsdsCdm(input: CcsdsExportInput): CCSDSCdm {
+  const { record, primary, secondary } = input;
+  const swapped = recordSat1NoradId(record.rawCdm) === secondary.noradId;
+  const [sat1Maneuverable, sat2Maneuverable] = recordManeuverability(record);
+  const sat1 = {
+    state: record.sat1StateVector,
+    cov: record.sat1Covariance,
+    maneuverable: sat1Maneuverable,
+  };
+  const sat2 = {
+    state: record.sat2StateVector,
+    cov: record.sat2Covariance,
+    maneuverable: sat2Maneuverable,
+  };
+  const [ours, theirs] = swapped ? [sat2, sat1] : [sat1, sat2];
+
+  const toObject = (
+    obj: CcsdsExportObject,
+    stored: typeof sat1,
+  ): CCSDSCdmObject => ({
+    designator: obj.noradId,
+    catalogName: "SATCAT",
+    name: obj.name ?? "UNKNOWN",
+    internationalDesignator: obj.internationalDesignator ?? "UNKNOWN",
+    objectType: obj.objectType,
+    ephemerisName: "NONE",
+    covarianceMethod: "CALCULATED",
+    maneuverable: stored.maneuverable ?? "N/A",
+    stateVector: asStateVector(stored.state, obj.noradId),
+    covariance: asCovariance(stored.cov, obj.noradId),
+  });
+
+  return {
+    version: CCSDS_CDM_VERSION,
+    creationDate: input.creationDate,
+    originator: input.originator,
+    messageFor: null,
+    messageId: input.messageId,
+    tca: record.tca,
+    missDistanceMeters: record.missDistance,
+    relativeSpeedMs: record.relativeSpeed,
+    collisionProbability: record.collisionProbability,
+    collisionProbabilityMethod: record.probabilityMethod,
+    objects: [toObject(primary, ours), toObject(secondary, theirs)],
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * SHIELD — CDM Ingest
+ * Runs a single ParsedCDM through the conjunction tracker: classifies risk,
+ * finds or creates the ConjunctionEvent, logs escalations, notifies on
+ * HIGH/EMERGENCY and stores the CDMRecord.
+ *
+ * Shared by the CDM polling cron (Space-Track + LeoLabs) and the CCSDS
+ * upload route so every feed follows identical tracking rules.
+ */
+
+import "server-only";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { notifyOrganization } from "@/lib/services/notification-service";
+import { classifyRisk } from "./risk-classifier.server";
+import { computeIndependentPc } from "./decision-engine.server";
+import {
+  computeNextStatus,
+  shouldAutoEscalate,
+} from "./conjunction-tracker.server";
+import type { ParsedCDM, RiskThresholds } from "./types";
+
+export interface CDMIngestContext {
+  organizationId: string;
+  /** NORAD ID -> spacecraft for the organization's fleet */
+  spacecraftByNorad: Map<string, { id: string }>;
+  thresholds?: RiskThresholds;
+}
+
+export type CDMIngestOutcome =
+  | "NOT_OUR_OBJECT"
+  | "DUPLICATE"
+  | "CREATED"
+  | "UPDATED";
+
+export interface CDMIngestResult {
+  outcome: CDMIngestOutcome;
+  eventId: string | null;
+  escalated: boolean;
+}
+
+/**
+ * Source label stored on CDMRecord, derived from the cdmId namespace.
+ */
+export function cdmSource(cdm: ParsedCDM): string {
+  if (cdm.cdmId.startsWith("leolabs-")) return "leolabs";
+  if (cdm.cdmId.startsWith("ccsds-")) return "ccsds";
+  return "space_track";
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  return value === null || value === undefined
+    ? undefined
+    : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * The Pc an event is tiered on: the provider's, or Shield's own when the CDM
+ * carried none. The CDMRecord keeps the provider's null either way.
+ */
+function assessedPc(cdm: ParsedCDM): number {
+  if (cdm.collisionProbability !== null) return cdm.collisionProbability;
+  const computed = computeIndependentPc({
+    collisionProbability: null,
+    missDistance: cdm.missDistanceMeters,
+    creationDate: cdm.creationDate,
+    tca: cdm.tca,
+    sat1StateVector: cdm.sat1StateVector,
+    sat1Covariance: cdm.sat1Covariance,
+    sat2StateVector: cdm.sat2StateVector,
+    sat2Covariance: cdm.sat2Covariance,
+  });
+  return computed?.pc ?? 0;
+}
+
+/**
+ * Ingest one CDM for an organization. Returns NOT_OUR_OBJECT when neither
+ * object belongs to the fleet and DUPLICATE when the cdmId was seen before.
+ */
+export async function ingestCDM(
+  ctx: CDMIngestContext,
+  cdm: ParsedCDM,
+): Promise<CDMIngestResult> {
+  const { organizationId, spacecraftByNorad, thresholds } = ctx;
+
+  // Determine which of our satellites this CDM involves
+  const ourNoradId = spacecraftByNorad.has(cdm.sat1NoradId)
+    ? cdm.sat1NoradId
+    : spacecraftByNorad.has(cdm.sat2NoradId)
+      ? cdm.sat2NoradId
+      : null;
+
+  if (!ourNoradId) {
+    return { outcome: "NOT_OUR_OBJECT", eventId: null, escalated: false };
+  }
+
+  const threatNoradId =
+    ourNoradId === cdm.sat1NoradId ? cdm.sat2NoradId : cdm.sat1NoradId;
+  const threatName =
+    ourNoradId === cdm.sat1NoradId ? cdm.sat2Name : cdm.sat1Name;
+  const threatType =
+    ourNoradId === cdm.sat1NoradId ? cdm.sat2ObjectType : cdm.sat1ObjectType;
+
+  const sc = spacecraftByNorad.get(ourNoradId)!;
+
+  // Classify risk
+  const pc = assessedPc(cdm);
+  const tier = classifyRisk(pc, cdm.missDistanceMeters, thresholds);
+
+  // Check for duplicate CDM
+  const existingCDM = await prisma.cDMRecord.findUnique({
+    where: { cdmId: cdm.cdmId },
+  });
+  if (existingCDM) {
+    return {
+      outcome: "DUPLICATE",
+      eventId: existingCDM.conjunctionEventId,
+      escalated: false,
+    };
+  }
+
+  // Find or create conjunction event
+  const conjunctionId = `${ourNoradId}-${threatNoradId}-${cdm.tca.toISOString().split("T")[0]}`;
+
+  let event = await prisma.conjunctionEvent.findUnique({
+    where: {
+      organizationId_conjunctionId: {
+        organizationId,
+        conjunctionId,
+      },
+    },
+  });
+
+  let outcome: CDMIngestOutcome;
+  let escalated = false;
+
+  if (!event) {
+    // Create new event
+    const initialStatus = computeNextStatus("NEW", tier);
+    event = await prisma.conjunctionEvent.create({
+      data: {
+        organizationId,
+        spacecraftId: sc.id,
+        noradId: ourNoradId,
+        threatNoradId,
+        threatObjectName: threatName,
+        threatObjectType: threatType,
+        conjunctionId,
+        status: initialStatus,
+        riskTier: tier,
+        peakPc: pc,
+        peakPcAt: cdm.creationDate,
+        latestPc: pc,
+        latestMissDistance: cdm.missDistanceMeters,
+        tca: cdm.tca,
+        relativeSpeed: cdm.relativeSpeedMs,
+      },
+    });
+    outcome = "CREATED";
+
+    // Notify organization for HIGH/EMERGENCY new conjunction events
+    if (tier === "EMERGENCY" || tier === "HIGH") {
+      await notifyOrganization(
+        organizationId,
+        tier === "EMERGENCY"
+          ? "SHIELD_CONJUNCTION_EMERGENCY"
+          : "SHIELD_CONJUNCTION_HIGH",
+        `Shield: ${tier} Conjunction — ${ourNoradId} ↔ ${threatNoradId}`,
+        `Conjunction event classified as ${tier}. Pc: ${pc.toExponential(2)}, TCA: ${cdm.tca.toISOString().slice(0, 16)} UTC. Review immediately.`,
+        { actionUrl: `/dashboard/shield/${event.id}` },
+      ).catch((err) => {
+        logger.error("Failed to send Shield notification", err);
+      });
+    }
+  } else {
+    // Update existing event with new CDM data
+    const previousTier = event.riskTier;
+    const previousStatus = event.status;
+    const newStatus = computeNextStatus(event.status, tier);
+
+    // Check auto-escalation
+    const autoEscalate =
+      shouldAutoEscalate(event.status, tier, cdm.tca) &&
+      newStatus !== "ASSESSMENT_REQUIRED";
+
+    const finalStatus = autoEscalate ? "ASSESSMENT_REQUIRED" : newStatus;
+
+    const updatePeakPc = pc > event.peakPc;
+
+    await prisma.conjunctionEvent.update({
+      where: { id: event.id },
+      data: {
+        latestPc: pc,
+        latestMissDistance: cdm.missDistanceMeters,
+        tca: cdm.tca,
+        relativeSpeed: cdm.relativeSpeedMs,
+        riskTier: tier,
+        status: finalStatus,
+        ...(updatePeakPc && {
+          peakPc: pc,
+          peakPcAt: cdm.creationDate,
+        }),
+      },
+    });
+
+    // Log escalation/de-escalation if tier changed
+    if (tier !== previousTier || finalStatus !== previousStatus) {
+      await prisma.cAEscalationLog.create({
+        data: {
+          conjunctionEventId: event.id,
+          previousTier: previousTier,
+          newTier: tier,
+          previousStatus: previousStatus,
+          newStatus: finalStatus,
+          triggeredBy: autoEscalate ? "TCA_APPROACHING" : "CDM_UPDATE",
+          details: `Pc: ${pc.toExponential(2)}, Miss: ${Math.round(cdm.missDistanceMeters)}m`,
+        },
+      });
+      escalated = true;
+
+      // Notify organization when tier escalates to HIGH or EMERGENCY
+      if (tier === "EMERGENCY" || tier === "HIGH") {
+        await notifyOrganization(
+          organizationId,
+          tier === "EMERGENCY"
+            ? "SHIELD_CONJUNCTION_EMERGENCY"
+            : "SHIELD_CONJUNCTION_HIGH",
+          `Shield: ${tier} Conjunction — ${ourNoradId} ↔ ${threatNoradId}`,
+          `Conjunction event escalated to ${tier}. Pc: ${pc.toExponential(2)}, TCA: ${cdm.tca.toISOString().slice(0, 16)} UTC. Review immediately.`,
+          { actionUrl: `/dashboard/shield/${event.id}` },
+        ).catch((err) => {
+          logger.error("Failed to send Shield notification", err);
+        });
+      }
+    }
+
+    outcome = "UPDATED";
+  }
+
+  // Create CDM record
+  await prisma.cDMRecord.create({
+    data: {
+      conjunctionEventId: event.id,
+      cdmId: cdm.cdmId,
+      creationDate: cdm.creationDate,
+      tca: cdm.tca,
+      missDistance: cdm.missDistanceMeters,
+      relativeSpeed: cdm.relativeSpeedMs,
+      collisionProbability: cdm.collisionProbability,
+      probabilityMethod: cdm.probabilityMethod,
+      sat1StateVector: toJson(cdm.sat1StateVector),
+      sat1Covariance: toJson(cdm.sat1Covariance),
+      sat2StateVector: toJson(cdm.sat2StateVector),
+      sat2Covariance: toJson(cdm.sat2Covariance),
+      sat2Maneuverable: cdm.sat2Maneuverable,
+      rawCdm: cdm.rawCdm as unknown as Prisma.InputJsonValue,
+      riskTier: tier,
+      source: cdmSource(cdm),
+    },
+  });
+
+  return { outcome, eventId: event.id, escalated };
+}
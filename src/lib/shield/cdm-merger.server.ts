@@ -1,8 +1,9 @@
 /**
  * SHIELD — CDM Merger
- * Merges CDMs from multiple sources (Space-Track + LeoLabs).
+ * Merges CDMs from multiple sources (Space-Track, LeoLabs, CCSDS imports).
  * Deduplicates by conjunction (same NORAD IDs + TCA within 1h).
- * Prefers LeoLabs data when both sources report the same conjunction.
+ * Preference order when several sources report the same conjunction:
+ * CCSDS (own SSA provider / EU SST, with covariance) > LeoLabs > Space-Track.
  */
 
 import "server-only";
@@ -19,38 +20,46 @@ function tcaMatch(a: Date, b: Date): boolean {
   return Math.abs(a.getTime() - b.getTime()) <= TCA_MATCH_WINDOW_MS;
 }
 
-export function mergeCDMs(
-  spaceTrackCDMs: ParsedCDM[],
-  leoLabsCDMs: ParsedCDM[],
+function mergeFeeds(
+  preferredCDMs: ParsedCDM[],
+  fallbackCDMs: ParsedCDM[],
 ): ParsedCDM[] {
-  if (leoLabsCDMs.length === 0) return spaceTrackCDMs;
-  if (spaceTrackCDMs.length === 0) return leoLabsCDMs;
+  if (preferredCDMs.length === 0) return fallbackCDMs;
+  if (fallbackCDMs.length === 0) return preferredCDMs;
 
   const result: ParsedCDM[] = [];
-  const matchedStIndices = new Set<number>();
+  const matchedFbIndices = new Set<number>();
 
-  for (const llCdm of leoLabsCDMs) {
-    const llKey = makeKey(llCdm);
+  for (const prefCdm of preferredCDMs) {
+    const prefKey = makeKey(prefCdm);
     let matched = false;
 
-    for (let i = 0; i < spaceTrackCDMs.length; i++) {
-      if (matchedStIndices.has(i)) continue;
-      const stCdm = spaceTrackCDMs[i];
-      if (llKey === makeKey(stCdm) && tcaMatch(llCdm.tca, stCdm.tca)) {
-        result.push(llCdm);
-        result.push(stCdm);
-        matchedStIndices.add(i);
+    for (let i = 0; i < fallbackCDMs.length; i++) {
+      if (matchedFbIndices.has(i)) continue;
+      const fbCdm = fallbackCDMs[i];
+      if (prefKey === makeKey(fbCdm) && tcaMatch(prefCdm.tca, fbCdm.tca)) {
+        result.push(prefCdm);
+        result.push(fbCdm);
+        matchedFbIndices.add(i);
         matched = true;
         break;
       }
     }
 
-    if (!matched) result.push(llCdm);
+    if (!matched) result.push(prefCdm);
   }
 
-  for (let i = 0; i < spaceTrackCDMs.length; i++) {
-    if (!matchedStIndices.has(i)) result.push(spaceTrackCDMs[i]);
+  for (let i = 0; i < fallbackCDMs.length; i++) {
+    if (!matchedFbIndices.has(i)) result.push(fallbackCDMs[i]);
   }
 
   return result;
 }
+
+export function mergeCDMs(
+  spaceTrackCDMs: ParsedCDM[],
+  leoLabsCDMs: ParsedCDM[],
+  ccsdsCDMs: ParsedCDM[] = [],
+): ParsedCDM[] {
+  return mergeFeeds(ccsdsCDMs, mergeFeeds(leoLabsCDMs, spaceTrackCDMs));
+}
@@ -36,16 +36,42 @@ interface EventInput {
   decisionAt: Date | null;
   decisionRationale: string | null;
   createdAt: Date;
+  /** Stored plan from the maneuver planner (ConjunctionEvent.maneuverPlan) */
+  maneuverPlan?: unknown;
 }
 
 interface CDMInput {
   cdmId: string;
   creationDate: Date;
-  collisionProbability: number;
+  collisionProbability: number | null;
   missDistance: number;
   riskTier: string;
 }
 
+interface ScreeningInput {
+  label: string;
+  affected: boolean;
+  baselinePc: number;
+  postPc: number;
+  postMissDistanceM: number;
+}
+
+interface ManeuverPlanInput {
+  direction: string;
+  deltaV: number;
+  burnTime: string;
+  fuelConsumptionKg: number | null;
+  baselinePc: number;
+  targetPc: number;
+  primary: ScreeningInput;
+  secondaries: ScreeningInput[];
+  clearsPrimary: boolean;
+  createsSecondaryConjunction: boolean;
+  flags: string[];
+  unscreened: Array<{ label: string }>;
+  selectedBy: string;
+}
+
 interface EscalationInput {
   previousTier: string;
   newTier: string;
@@ -109,11 +135,91 @@ export function formatPcScientific(pc: number): string {
   return `${mantissa.toFixed(2)}e${sign}${exp}`;
 }
 
+/** Narrow a stored maneuverPlan to one written by the maneuver planner */
+function asPlannerPlan(value: unknown): ManeuverPlanInput | null {
+  if (!value || typeof value !== "object") return null;
+  const plan = value as Record<string, unknown>;
+  return plan.source === "planner" && Array.isArray(plan.secondaries)
+    ? (plan as unknown as ManeuverPlanInput)
+    : null;
+}
+
+function buildManeuverSection(
+  plan: ManeuverPlanInput,
+): Array<Record<string, unknown>> {
+  const content: Array<Record<string, unknown>> = [];
+
+  if (plan.createsSecondaryConjunction) {
+    content.push({
+      type: "text",
+      value:
+        "WARNING: The selected burn clears or reduces the primary conjunction but " +
+        "creates a secondary conjunction. The operator acknowledged this when " +
+        "selecting the plan. " +
+        plan.flags.join(" "),
+    });
+  }
+
+  content.push({
+    type: "keyValue",
+    items: [
+      {
+        key: "Burn",
+        value: `${displayStr(plan.direction)} ${plan.deltaV} m/s`,
+      },
+      { key: "Burn Time", value: fmtDate(new Date(plan.burnTime)) },
+      {
+        key: "Fuel",
+        value:
+          plan.fuelConsumptionKg !== null
+            ? `${plan.fuelConsumptionKg.toFixed(3)} kg`
+            : "N/A",
+      },
+      {
+        key: "Primary Pc",
+        value: `${formatPcScientific(plan.baselinePc)} → ${formatPcScientific(plan.primary.postPc)}`,
+      },
+      {
+        key: "Primary Cleared",
+        value: plan.clearsPrimary
+          ? `Yes (below ${formatPcScientific(plan.targetPc)})`
+          : "No",
+      },
+      { key: "Selected By", value: plan.selectedBy },
+    ],
+  });
+
+  content.push({
+    type: "text",
+    value: `Post-maneuver screening against ${plan.secondaries.length} other open conjunction(s).`,
+  });
+  content.push({
+    type: "table",
+    headers: ["Object", "Pc Before", "Pc After", "Miss After (m)"],
+    rows: plan.secondaries.map((s) => [
+      s.label,
+      formatPcScientific(s.baselinePc),
+      s.affected ? formatPcScientific(s.postPc) : "Before burn",
+      s.affected ? s.postMissDistanceM.toFixed(1) : "—",
+    ]),
+  });
+
+  if (plan.unscreened.length > 0) {
+    content.push({
+      type: "text",
+      value: `Not screened (no covariance data): ${plan.unscreened.map((u) => u.label).join(", ")}.`,
+    });
+  }
+
+  return content;
+}
+
 // ─── Section Builder (pure, testable) ───────────────────────────────────────
 
 /**
  * Build structured report data for a CA event.
- * Returns 5 sections ready for PDF rendering.
+ * Returns 5 sections ready for PDF rendering, plus a maneuver plan section
+ * when the event carries a plan from the maneuver planner.
  */
 export function buildCAReportSections(
   event: EventInput,
@@ -159,7 +265,9 @@ export function buildCAReportSections(
   const cdmRows = cdms.map((c) => [
     c.cdmId,
     fmtDate(c.creationDate),
-    formatPcScientific(c.collisionProbability),
+    c.collisionProbability !== null
+      ? formatPcScientific(c.collisionProbability)
+      : "N/A",
     c.missDistance.toFixed(1),
     displayStr(c.riskTier),
   ]);
@@ -203,7 +311,16 @@ export function buildCAReportSections(
     content: decisionContent,
   };
 
-  // 4. Escalation History
+  // 4. Maneuver Plan (only when selected through the planner)
+  const plannerPlan = asPlannerPlan(event.maneuverPlan);
+  const maneuverSection: ReportSection | null = plannerPlan
+    ? {
+        title: "Maneuver Plan & Post-Maneuver Screening",
+        content: buildManeuverSection(plannerPlan),
+      }
+    : null;
+
+  // 5. Escalation History
   const escalationRows = escalationLog.map((e) => [
     fmtDate(e.createdAt),
     `${displayStr(e.previousTier)} → ${displayStr(e.newTier)}`,
@@ -212,7 +329,7 @@ export function buildCAReportSections(
   ]);
 
   const escalationHistory: ReportSection = {
-    title: "4. Escalation History",
+    title: "Escalation History",
     content: [
       {
         type: "text",
@@ -226,9 +343,9 @@ export function buildCAReportSections(
     ],
   };
 
-  // 5. Compliance Note
+  // 6. Compliance Note
   const complianceNote: ReportSection = {
-    title: "5. Compliance Note",
+    title: "Compliance Note",
     content: [
       {
         type: "text",
@@ -244,13 +361,14 @@ export function buildCAReportSections(
     ],
   };
 
-  return [
-    eventSummary,
-    cdmHistory,
-    decisionRecord,
+  // Sections after the decision record are numbered by position
+  const trailing = [
+    ...(maneuverSection ? [maneuverSection] : []),
     escalationHistory,
     complianceNote,
-  ];
+  ].map((section, i) => ({ ...section, title: `${i + 4}. ${section.title}` }));
+
+  return [eventSummary, cdmHistory, decisionRecord, ...trailing];
 }
 
 // ─── PDF Generator ──────────────────────────────────────────────────────────
@@ -1,7 +1,13 @@
 import "server-only";
 import { analyzePcTrend } from "./pc-trend.server";
 import { TIER_RANK } from "./risk-classifier.server";
-import type { PcTrend } from "./types";
+import {
+  computeCollisionProbability,
+  crossCheckProviderPc,
+  type PcComputation,
+  type PcCrossCheck,
+} from "./pc-calculator";
+import type { CDMCovarianceRTN, CDMStateVector, PcTrend } from "./types";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -16,22 +22,42 @@ export interface DecisionFactors {
   currentTier: string;
   cdmCount: number;
   latestPc: number;
+  /** SHIELD when the latest CDM carried no provider Pc and latestPc is ours */
+  latestPcSource?: "PROVIDER" | "SHIELD";
   peakPc: number;
   latestMissDistance: number;
   relativeSpeed: number | null;
   threatManeuverable: boolean | null;
   missDistanceTrend: MissDistanceTrend;
   dataConfidence: DataConfidence;
+  /** Shield's own Pc for the latest CDM — null when it has no covariance */
+  independentPc?: IndependentPcAssessment | null;
   recommendation: string;
 }
 
+export interface IndependentPcAssessment {
+  computation: PcComputation;
+  /** Null when the provider sent no Pc to check against */
+  crossCheck: PcCrossCheck | null;
+}
+
 export interface CDMInput {
-  collisionProbability: number;
+  /** Provider's Pc — null when the CDM carried none */
+  collisionProbability: number | null;
   missDistance: number;
   creationDate: Date;
   tca: Date;
   sat2Maneuverable?: string | null;
   relativeSpeed?: number | null;
+  sat1StateVector?: unknown;
+  sat1Covariance?: unknown;
+  sat2StateVector?: unknown;
+  sat2Covariance?: unknown;
+}
+
+export interface DecisionOptions {
+  /** Combined hard-body radius in meters for the independent Pc */
+  hardBodyRadiusM?: number;
 }
 
 // ─── computeUrgency ──────────────────────────────────────────────────────────
@@ -113,6 +139,11 @@ export function generateRecommendation(
     return `CRITICAL: TCA in ${Math.round(factors.timeToTcaHours)}h with ${factors.currentTier} risk. Immediate assessment required.`;
   }
 
+  if (factors.independentPc?.crossCheck?.suspicious) {
+    const { crossCheck, computation } = factors.independentPc;
+    return `Provider Pc ${crossCheck.providerPc.toExponential(1)} disagrees with Shield's ${computation.method} Pc ${crossCheck.computedPc.toExponential(1)} (HBR ${computation.hardBodyRadiusM} m). Verify the CDM before deciding on a maneuver.`;
+  }
+
   if (
     factors.pcTrend.direction === "INCREASING" &&
     factors.urgency !== "ROUTINE"
@@ -131,6 +162,30 @@ export function generateRecommendation(
   return `${factors.currentTier} risk event. ${factors.cdmCount} CDMs received. Review factors and decide.`;
 }
 
+// ─── computeIndependentPc ────────────────────────────────────────────────────
+
+/**
+ * Recompute Pc from a CDM's state vectors and RTN covariances.
+ * Returns null when the CDM does not carry full object data
+ * (e.g. Space-Track public CDMs).
+ */
+export function computeIndependentPc(
+  cdm: CDMInput,
+  options: DecisionOptions = {},
+): PcComputation | null {
+  const sv1 = cdm.sat1StateVector as CDMStateVector | null | undefined;
+  const sv2 = cdm.sat2StateVector as CDMStateVector | null | undefined;
+  const cov1 = cdm.sat1Covariance as CDMCovarianceRTN | null | undefined;
+  const cov2 = cdm.sat2Covariance as CDMCovarianceRTN | null | undefined;
+  if (!sv1 || !sv2 || !cov1 || !cov2) return null;
+
+  return computeCollisionProbability({
+    sat1: { stateVector: sv1, covariance: cov1 },
+    sat2: { stateVector: sv2, covariance: cov2 },
+    hardBodyRadiusM: options.hardBodyRadiusM,
+  });
+}
+
 // ─── computeDecisionFactors ──────────────────────────────────────────────────
 
 /**
@@ -143,6 +198,7 @@ export function generateRecommendation(
 export function computeDecisionFactors(
   event: { tca: Date; riskTier: string },
   cdms: CDMInput[],
+  options: DecisionOptions = {},
 ): DecisionFactors {
   const now = new Date();
   const timeToTcaHours =
@@ -156,6 +212,12 @@ export function computeDecisionFactors(
   );
   const latest = sorted[sorted.length - 1];
 
+  // Independent Pc for the latest CDM only — the Monte Carlo fallback is too
+  // expensive to repeat for the whole history on every request
+  const latestComputation = latest
+    ? computeIndependentPc(latest, options)
+    : null;
+
   // Pc trend analysis
   const pcTrend = analyzePcTrend(
     sorted.map((c) => ({
@@ -163,6 +225,7 @@ export function computeDecisionFactors(
       tca: c.tca,
       collisionProbability: c.collisionProbability,
       missDistance: c.missDistance,
+      computedPc: c === latest ? (latestComputation?.pc ?? null) : null,
     })),
   );
 
@@ -180,9 +243,15 @@ export function computeDecisionFactors(
   // Data confidence
   const dataConfidence = computeDataConfidence(cdms.length, pcTrend.confidence);
 
-  // Pc stats
-  const latestPc = latest?.collisionProbability ?? 0;
-  const peakPc = Math.max(...cdms.map((c) => c.collisionProbability));
+  // Pc stats — Shield's own Pc stands in when the latest CDM has none
+  const latestProviderPc = latest?.collisionProbability ?? null;
+  const latestPc = latestProviderPc ?? latestComputation?.pc ?? 0;
+  const latestPcSource: DecisionFactors["latestPcSource"] =
+    latestProviderPc === null && latestComputation ? "SHIELD" : "PROVIDER";
+  const peakPc = Math.max(
+    latestPc,
+    ...cdms.flatMap((c) => c.collisionProbability ?? []),
+  );
   const latestMissDistance = latest?.missDistance ?? 0;
   const relativeSpeed = latest?.relativeSpeed ?? null;
 
@@ -201,12 +270,23 @@ export function computeDecisionFactors(
     currentTier: event.riskTier,
     cdmCount: cdms.length,
     latestPc,
+    latestPcSource,
     peakPc,
     latestMissDistance,
     relativeSpeed,
     threatManeuverable,
     missDistanceTrend,
     dataConfidence,
+    independentPc:
+      latest && latestComputation
+        ? {
+            computation: latestComputation,
+            crossCheck:
+              latestProviderPc === null
+                ? null
+                : crossCheckProviderPc(latestProviderPc, latestComputation),
+          }
+        : null,
   };
 
   const recommendation = generateRecommendation(partialFactors);
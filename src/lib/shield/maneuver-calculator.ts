@@ -72,7 +72,7 @@ function orbitalPeriodSeconds(altitudeKm: number): number {
  * fuel = mass * (1 - exp(-deltaV / (Isp * g0)))
  * deltaV must be in m/s, g0 in m/s², result in kg.
  */
-function tsiolkovskyFuel(
+export function tsiolkovskyFuel(
   massKg: number,
   deltaVMs: number,
   ispSeconds: number,
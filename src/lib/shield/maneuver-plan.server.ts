@@ -0,0 +1,160 @@
+/**
+ * SHIELD — Maneuver Plan Loader
+ * Assembles the conjunction set for the maneuver planner from stored CDMs:
+ * the primary event plus every other open, future event of the same
+ * spacecraft. Resolves which stored object is ours so the planner always
+ * gets (own, threat) in that order.
+ */
+
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { recordSat1NoradId } from "./ccsds-cdm.server";
+import type { PlannerConjunction } from "./maneuver-planner";
+import type { CDMCovarianceRTN, CDMStateVector } from "./types";
+
+export class ManeuverPlanError extends Error {
+  constructor(
+    public readonly code: "EVENT_NOT_FOUND" | "NO_STATE_DATA",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ManeuverPlanError";
+  }
+}
+
+export interface PlannerConjunctionSet {
+  primary: PlannerConjunction;
+  secondaries: PlannerConjunction[];
+  /** Open events that could not be re-screened (no state/covariance) */
+  unscreened: Array<{ eventId: string; label: string }>;
+}
+
+/** How many recent CDMs to search for one carrying full object data */
+const CDM_LOOKBACK = 10;
+
+interface EventRow {
+  id: string;
+  noradId: string;
+  threatNoradId: string;
+  threatObjectName: string | null;
+  tca: Date;
+}
+
+function eventLabel(event: EventRow): string {
+  return event.threatObjectName
+    ? `${event.threatObjectName} (${event.threatNoradId})`
+    : `NORAD ${event.threatNoradId}`;
+}
+
+/**
+ * Build a planner conjunction from the most recent CDM of an event that
+ * carries both state vectors and covariances, or null if there is none.
+ */
+async function toPlannerConjunction(
+  event: EventRow,
+): Promise<PlannerConjunction | null> {
+  const records = await prisma.cDMRecord.findMany({
+    where: { conjunctionEventId: event.id },
+    orderBy: { creationDate: "desc" },
+    take: CDM_LOOKBACK,
+    select: {
+      tca: true,
+      rawCdm: true,
+      sat1StateVector: true,
+      sat1Covariance: true,
+      sat2StateVector: true,
+      sat2Covariance: true,
+    },
+  });
+
+  const record = records.find(
+    (r) =>
+      r.sat1StateVector &&
+      r.sat1Covariance &&
+      r.sat2StateVector &&
+      r.sat2Covariance,
+  );
+  if (!record) return null;
+
+  const swapped = recordSat1NoradId(record.rawCdm) === event.threatNoradId;
+  const sat1 = {
+    stateVector: record.sat1StateVector as unknown as CDMStateVector,
+    covariance: record.sat1Covariance as unknown as CDMCovarianceRTN,
+  };
+  const sat2 = {
+    stateVector: record.sat2StateVector as unknown as CDMStateVector,
+    covariance: record.sat2Covariance as unknown as CDMCovarianceRTN,
+  };
+
+  return {
+    id: event.id,
+    label: eventLabel(event),
+    tca: record.tca,
+    own: swapped ? sat2 : sat1,
+    threat: swapped ? sat1 : sat2,
+  };
+}
+
+/**
+ * Load the primary event and the rest of the spacecraft's current
+ * conjunction set. Throws NO_STATE_DATA when the primary has no CDM with
+ * full state and covariance (e.g. Space-Track public CDMs only).
+ */
+export async function loadPlannerConjunctions(
+  organizationId: string,
+  eventId: string,
+): Promise<PlannerConjunctionSet> {
+  const event = await prisma.conjunctionEvent.findFirst({
+    where: { id: eventId, organizationId },
+    select: {
+      id: true,
+      spacecraftId: true,
+      noradId: true,
+      threatNoradId: true,
+      threatObjectName: true,
+      tca: true,
+    },
+  });
+  if (!event) {
+    throw new ManeuverPlanError("EVENT_NOT_FOUND", "Event not found");
+  }
+
+  const primary = await toPlannerConjunction(event);
+  if (!primary) {
+    throw new ManeuverPlanError(
+      "NO_STATE_DATA",
+      "No CDM with state vectors and covariance for this event — import a CCSDS CDM or enable LeoLabs",
+    );
+  }
+
+  const others = await prisma.conjunctionEvent.findMany({
+    where: {
+      organizationId,
+      spacecraftId: event.spacecraftId,
+      id: { not: event.id },
+      status: { not: "CLOSED" },
+      tca: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      noradId: true,
+      threatNoradId: true,
+      threatObjectName: true,
+      tca: true,
+    },
+    orderBy: { tca: "asc" },
+  });
+
+  const secondaries: PlannerConjunction[] = [];
+  const unscreened: PlannerConjunctionSet["unscreened"] = [];
+  for (const other of others) {
+    const conjunction = await toPlannerConjunction(other);
+    if (conjunction) {
+      secondaries.push(conjunction);
+    } else {
+      unscreened.push({ eventId: other.id, label: eventLabel(other) });
+    }
+  }
+
+  return { primary, secondaries, unscreened };
+}
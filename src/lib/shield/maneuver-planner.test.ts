@@ -0,0 +1,278 @@
+/**
+ * Maneuver Planner — unit tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  burnVector,
+  planManeuvers,
+  propagateTwoBody,
+  type PlannerConjunction,
+} from "./maneuver-planner";
+import { COVARIANCE_KEYWORDS } from "./types";
+import type { CDMCovarianceRTN, CDMStateVector } from "./types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const MU = 398600.4418;
+const R_KM = 6928;
+const V_KMS = Math.sqrt(MU / R_KM);
+const PERIOD_S = 2 * Math.PI * Math.sqrt((R_KM * R_KM * R_KM) / MU);
+
+const TCA = new Date("2026-03-01T12:00:00Z");
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+function diagCovariance(sigmaM: number): CDMCovarianceRTN {
+  const cov = Object.fromEntries(
+    COVARIANCE_KEYWORDS.map((k) => [k, 0]),
+  ) as CDMCovarianceRTN;
+  cov.CR_R = sigmaM * sigmaM;
+  cov.CT_T = sigmaM * sigmaM;
+  cov.CN_N = sigmaM * sigmaM;
+  cov.CRDOT_RDOT = 1e-4;
+  cov.CTDOT_TDOT = 1e-4;
+  cov.CNDOT_NDOT = 1e-4;
+  return cov;
+}
+
+/** Circular equatorial orbit, at TCA on the x axis */
+const OWN_AT_TCA: CDMStateVector = {
+  refFrame: "EME2000",
+  x: R_KM,
+  y: 0,
+  z: 0,
+  xDot: 0,
+  yDot: V_KMS,
+  zDot: 0,
+};
+
+/** Polar crosser passing `missM` meters radially outside our position */
+function crossingAt(own: CDMStateVector, missM: number): CDMStateVector {
+  const r = Math.hypot(own.x, own.y, own.z);
+  const k = 1 + missM / 1000 / r;
+  return {
+    refFrame: own.refFrame,
+    x: own.x * k,
+    y: own.y * k,
+    z: own.z * k,
+    xDot: 0,
+    yDot: 0,
+    zDot: V_KMS,
+  };
+}
+
+function conjunction(
+  id: string,
+  tca: Date,
+  own: CDMStateVector,
+  threat: CDMStateVector,
+): PlannerConjunction {
+  return {
+    id,
+    label: `Object ${id}`,
+    tca,
+    own: { stateVector: own, covariance: diagCovariance(50) },
+    threat: { stateVector: threat, covariance: diagCovariance(50) },
+  };
+}
+
+const PRIMARY = conjunction(
+  "primary",
+  TCA,
+  OWN_AT_TCA,
+  crossingAt(OWN_AT_TCA, 10),
+);
+
+const SMALL_SWEEP = {
+  now: NOW,
+  leadOrbits: [0.5, 1],
+  deltaVMagnitudesMs: [0.05, 0.5],
+};
+
+// ─── Propagation ──────────────────────────────────────────────────────────────
+
+describe("propagateTwoBody", () => {
+  it("returns to the initial state after one orbital period", () => {
+    const after = propagateTwoBody(OWN_AT_TCA, PERIOD_S);
+    expect(after.x).toBeCloseTo(OWN_AT_TCA.x, 4);
+    expect(after.y).toBeCloseTo(0, 4);
+    expect(after.yDot).toBeCloseTo(V_KMS, 6);
+  });
+
+  it("reaches the opposite side after half a period", () => {
+    const after = propagateTwoBody(OWN_AT_TCA, PERIOD_S / 2);
+    expect(after.x).toBeCloseTo(-R_KM, 4);
+    expect(after.yDot).toBeCloseTo(-V_KMS, 6);
+  });
+
+  it("round-trips backwards and forwards in time", () => {
+    const eccentric: CDMStateVector = { ...OWN_AT_TCA, yDot: V_KMS * 1.05 };
+    const back = propagateTwoBody(eccentric, -4321);
+    const forth = propagateTwoBody(back, 4321);
+    expect(forth.x).toBeCloseTo(eccentric.x, 6);
+    expect(forth.y).toBeCloseTo(eccentric.y, 6);
+    expect(forth.yDot).toBeCloseTo(eccentric.yDot, 9);
+  });
+});
+
+describe("burnVector", () => {
+  it("maps RTN directions onto the orbit frame", () => {
+    const along = burnVector(OWN_AT_TCA, "+ALONG_TRACK", 1);
+    const radial = burnVector(OWN_AT_TCA, "-RADIAL", 1);
+    const cross = burnVector(OWN_AT_TCA, "+CROSS_TRACK", 1);
+    expect(along[1]).toBeCloseTo(0.001, 12);
+    expect(radial[0]).toBeCloseTo(-0.001, 12);
+    expect(cross[2]).toBeCloseTo(0.001, 12);
+  });
+});
+
+// ─── Planner ──────────────────────────────────────────────────────────────────
+
+describe("planManeuvers", () => {
+  it("sweeps lead time x direction x delta-V", () => {
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      SMALL_SWEEP,
+    );
+    expect(plan.options).toHaveLength(2 * 6 * 2);
+    expect(plan.orbitalPeriodHours).toBeCloseTo(PERIOD_S / 3600, 6);
+    expect(plan.baseline.primaryPc).toBeGreaterThan(1e-3);
+  });
+
+  it("clears the primary with an along-track burn and reduces Pc with delta-V", () => {
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      SMALL_SWEEP,
+    );
+    const along = plan.options.filter(
+      (o) => o.direction === "+ALONG_TRACK" && o.leadTimeHours > 1,
+    );
+    const [small, large] = along.sort((a, b) => a.deltaVMs - b.deltaVMs);
+    expect(large!.primary.postPc).toBeLessThan(small!.primary.postPc);
+    expect(large!.clearsPrimary).toBe(true);
+    expect(large!.primary.postMissDistanceM).toBeGreaterThan(1000);
+  });
+
+  it("recommends the cheapest safe burn", () => {
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      SMALL_SWEEP,
+    );
+    const recommended = plan.options.find(
+      (o) => o.id === plan.recommendedOptionId,
+    );
+    expect(recommended).toBeDefined();
+    expect(recommended!.clearsPrimary).toBe(true);
+    const cheaper = plan.options.filter(
+      (o) => o.clearsPrimary && o.deltaVMs < recommended!.deltaVMs,
+    );
+    expect(cheaper).toHaveLength(0);
+  });
+
+  it("flags a burn that creates a secondary conjunction", () => {
+    // Place a second threat exactly where the recommended burn would put us
+    // half an orbit after the primary TCA.
+    const safe = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      SMALL_SWEEP,
+    );
+    const chosen = safe.options.find((o) => o.id === safe.recommendedOptionId)!;
+
+    const leadS = chosen.leadTimeHours * 3600;
+    const ownAtBurn = propagateTwoBody(OWN_AT_TCA, -leadS);
+    const dv = burnVector(ownAtBurn, chosen.direction, chosen.deltaVMs);
+    const burned = propagateTwoBody(
+      {
+        ...ownAtBurn,
+        xDot: ownAtBurn.xDot + dv[0],
+        yDot: ownAtBurn.yDot + dv[1],
+        zDot: ownAtBurn.zDot + dv[2],
+      },
+      leadS + PERIOD_S / 2,
+    );
+    const secondaryTca = new Date(TCA.getTime() + (PERIOD_S / 2) * 1000);
+    const secondary = conjunction(
+      "secondary",
+      secondaryTca,
+      propagateTwoBody(OWN_AT_TCA, PERIOD_S / 2),
+      crossingAt(burned, 0),
+    );
+
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [secondary] },
+      SMALL_SWEEP,
+    );
+    expect(plan.baseline.secondaries[0]!.pc).toBeLessThan(1e-5);
+
+    const flagged = plan.options.find((o) => o.id === chosen.id)!;
+    expect(flagged.clearsPrimary).toBe(true);
+    expect(flagged.createsSecondaryConjunction).toBe(true);
+    expect(flagged.flags.join(" ")).toContain("Object secondary");
+    expect(flagged.pareto).toBe(false);
+    expect(plan.recommendedOptionId).not.toBe(chosen.id);
+  });
+
+  it("does not re-screen conjunctions whose TCA precedes the burn", () => {
+    const earlier = conjunction(
+      "earlier",
+      NOW,
+      propagateTwoBody(OWN_AT_TCA, -12 * 3600),
+      crossingAt(propagateTwoBody(OWN_AT_TCA, -12 * 3600), 5000),
+    );
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [earlier] },
+      { ...SMALL_SWEEP, now: new Date(NOW.getTime() - 1000) },
+    );
+    for (const o of plan.options) {
+      expect(o.secondaries[0]!.affected).toBe(false);
+      expect(o.secondaries[0]!.postPc).toBe(o.secondaries[0]!.baselinePc);
+    }
+  });
+
+  it("computes fuel and flags burns beyond the available propellant", () => {
+    const plan = planManeuvers(
+      {
+        primary: PRIMARY,
+        secondaries: [],
+        spacecraftMassKg: 500,
+        availableFuelKg: 0.05,
+        ispSeconds: 220,
+      },
+      SMALL_SWEEP,
+    );
+    const big = plan.options.find((o) => o.deltaVMs === 0.5)!;
+    expect(big.fuelConsumptionKg).toBeCloseTo(
+      500 * (1 - Math.exp(-0.5 / (220 * 9.80665))),
+      9,
+    );
+    expect(big.flags).toContain("Exceeds available fuel");
+  });
+
+  it("keeps the Pareto front non-dominated", () => {
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      SMALL_SWEEP,
+    );
+    const front = plan.options.filter((o) => o.pareto);
+    expect(front.length).toBeGreaterThan(0);
+    for (const p of front) {
+      const dominated = plan.options.some(
+        (o) =>
+          o.deltaVMs <= p.deltaVMs &&
+          o.aggregatePc < p.aggregatePc &&
+          o.id !== p.id,
+      );
+      expect(dominated).toBe(false);
+    }
+  });
+
+  it("returns no options once every burn time has passed", () => {
+    const plan = planManeuvers(
+      { primary: PRIMARY, secondaries: [] },
+      { ...SMALL_SWEEP, now: TCA },
+    );
+    expect(plan.options).toHaveLength(0);
+    expect(plan.recommendedOptionId).toBeNull();
+    expect(plan.warnings[0]).toContain("No burn time remains");
+  });
+});
@@ -0,0 +1,605 @@
+/**
+ * SHIELD — Maneuver Trade-Space Planner
+ *
+ * Sweeps burn time and delta-V direction/magnitude for a collision avoidance
+ * maneuver, propagates the maneuvered orbit and re-screens it against every
+ * conjunction in the current set (the primary event plus the spacecraft's
+ * other open events):
+ *
+ * - Two-body propagation with the universal-variable Kepler solver
+ *   (Vallado, Algorithm 8). Only the maneuver-induced *difference* between
+ *   the burned and unburned trajectories is applied to each CDM's own state,
+ *   so the CDM orbit determination is kept and two-body errors cancel.
+ * - Impulsive burns in the RTN frame of the spacecraft at burn time.
+ * - Post-maneuver TCA found by linearizing the relative motion, then Pc
+ *   recomputed with the CDM covariances (see pc-calculator.ts).
+ *
+ * A burn that clears the primary conjunction but raises another one above
+ * the elevated threshold is flagged as creating a secondary conjunction.
+ *
+ * Pure functions — no DB calls. Runs in browser or server.
+ * Advisory only: the operator decides.
+ */
+
+import {
+  computeCollisionProbability,
+  type PcComputation,
+} from "./pc-calculator";
+import { tsiolkovskyFuel } from "./maneuver-calculator";
+import { DEFAULT_THRESHOLDS } from "./types";
+import type { CDMCovarianceRTN, CDMStateVector, RiskThresholds } from "./types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type BurnDirection =
+  | "+ALONG_TRACK"
+  | "-ALONG_TRACK"
+  | "+RADIAL"
+  | "-RADIAL"
+  | "+CROSS_TRACK"
+  | "-CROSS_TRACK";
+
+export interface PlannerObject {
+  stateVector: CDMStateVector;
+  covariance: CDMCovarianceRTN;
+}
+
+/** One conjunction of the current set, with both states at its TCA */
+export interface PlannerConjunction {
+  id: string;
+  label: string;
+  tca: Date;
+  own: PlannerObject;
+  threat: PlannerObject;
+}
+
+export interface ManeuverPlannerInput {
+  primary: PlannerConjunction;
+  /** Other conjunctions of the same spacecraft to re-screen */
+  secondaries: PlannerConjunction[];
+  /** Combined hard-body radius in meters */
+  hardBodyRadiusM?: number;
+  /** Spacecraft wet mass in kg (optional, for fuel calc) */
+  spacecraftMassKg?: number;
+  /** Available fuel in kg (optional) */
+  availableFuelKg?: number;
+  /** Specific impulse in seconds (default 300 for hydrazine) */
+  ispSeconds?: number;
+}
+
+export interface ManeuverPlannerOptions {
+  /** Burn times, in orbital periods before the primary TCA */
+  leadOrbits?: number[];
+  directions?: BurnDirection[];
+  deltaVMagnitudesMs?: number[];
+  /** Earliest allowed burn — defaults to the current time */
+  now?: Date;
+  thresholds?: RiskThresholds;
+  monteCarloSamples?: number;
+}
+
+export interface ConjunctionScreening {
+  conjunctionId: string;
+  label: string;
+  /** False when the conjunction's TCA precedes the burn */
+  affected: boolean;
+  baselinePc: number;
+  postPc: number;
+  postMissDistanceM: number;
+  /** Shift of the TCA caused by the maneuver, in seconds */
+  tcaShiftS: number;
+}
+
+export interface ManeuverOption {
+  id: string;
+  burnTime: Date;
+  leadTimeHours: number;
+  direction: BurnDirection;
+  deltaVMs: number;
+  fuelConsumptionKg: number | null;
+  fuelPercentUsed: number | null;
+  primary: ConjunctionScreening;
+  secondaries: ConjunctionScreening[];
+  /** 1 − Π(1 − Pc) over all screened conjunctions after the burn */
+  aggregatePc: number;
+  clearsPrimary: boolean;
+  createsSecondaryConjunction: boolean;
+  /** On the delta-V vs aggregate Pc Pareto front (safe options only) */
+  pareto: boolean;
+  flags: string[];
+}
+
+export interface ManeuverPlan {
+  primaryConjunctionId: string;
+  orbitalPeriodHours: number;
+  targetPc: number;
+  baseline: {
+    primaryPc: number;
+    secondaries: Array<{ conjunctionId: string; label: string; pc: number }>;
+    aggregatePc: number;
+  };
+  options: ManeuverOption[];
+  recommendedOptionId: string | null;
+  warnings: string[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const MU_KM3_S2 = 398600.4418; // km³/s²
+
+const DEFAULT_LEAD_ORBITS = [0.5, 1, 1.5, 2, 3];
+const DEFAULT_DIRECTIONS: BurnDirection[] = [
+  "+ALONG_TRACK",
+  "-ALONG_TRACK",
+  "+RADIAL",
+  "-RADIAL",
+  "+CROSS_TRACK",
+  "-CROSS_TRACK",
+];
+const DEFAULT_DELTA_V_MS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1];
+
+/** Monte Carlo is only a fallback here — keep the sweep fast */
+const DEFAULT_PLANNER_MC_SAMPLES = 20_000;
+
+/** An already-flagged secondary counts as worsened beyond this Pc growth */
+const SECONDARY_WORSENING_FACTOR = 1.1;
+
+const KEPLER_TOLERANCE = 1e-9;
+const KEPLER_MAX_ITERATIONS = 50;
+const TCA_REFINEMENT_STEPS = 3;
+
+type Vec3 = [number, number, number];
+
+interface State {
+  r: Vec3;
+  v: Vec3;
+}
+
+// ─── Vector Helpers ───────────────────────────────────────────────────────────
+
+function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function scale(a: Vec3, k: number): Vec3 {
+  return [a[0] * k, a[1] * k, a[2] * k];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+function unit(a: Vec3): Vec3 {
+  const n = norm(a);
+  return n === 0 ? [0, 0, 0] : scale(a, 1 / n);
+}
+
+function toState(sv: CDMStateVector): State {
+  return { r: [sv.x, sv.y, sv.z], v: [sv.xDot, sv.yDot, sv.zDot] };
+}
+
+function toStateVector(s: State, refFrame: string): CDMStateVector {
+  return {
+    refFrame,
+    x: s.r[0],
+    y: s.r[1],
+    z: s.r[2],
+    xDot: s.v[0],
+    yDot: s.v[1],
+    zDot: s.v[2],
+  };
+}
+
+// ─── Two-Body Propagation ─────────────────────────────────────────────────────
+
+function stumpff(psi: number): { c2: number; c3: number } {
+  if (psi > 1e-6) {
+    const s = Math.sqrt(psi);
+    return { c2: (1 - Math.cos(s)) / psi, c3: (s - Math.sin(s)) / (s * s * s) };
+  }
+  if (psi < -1e-6) {
+    const s = Math.sqrt(-psi);
+    return {
+      c2: (1 - Math.cosh(s)) / psi,
+      c3: (Math.sinh(s) - s) / (s * s * s),
+    };
+  }
+  return { c2: 1 / 2, c3: 1 / 6 };
+}
+
+/**
+ * Propagate a state (km, km/s) by dt seconds on a Keplerian orbit using
+ * universal variables. Works forwards and backwards in time.
+ */
+export function propagateTwoBody(
+  sv: CDMStateVector,
+  dtSeconds: number,
+): CDMStateVector {
+  return toStateVector(propagate(toState(sv), dtSeconds), sv.refFrame);
+}
+
+function propagate(s: State, dt: number): State {
+  if (dt === 0) return s;
+  const sqrtMu = Math.sqrt(MU_KM3_S2);
+  const r0 = norm(s.r);
+  const v0 = norm(s.v);
+  const rv = dot(s.r, s.v);
+  const alpha = 2 / r0 - (v0 * v0) / MU_KM3_S2;
+
+  let chi = alpha > 1e-6 ? sqrtMu * dt * alpha : (sqrtMu * dt) / r0;
+  let r = r0;
+  let c2 = 0.5;
+  let c3 = 1 / 6;
+  let psi = 0;
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    psi = chi * chi * alpha;
+    ({ c2, c3 } = stumpff(psi));
+    r =
+      chi * chi * c2 +
+      (rv / sqrtMu) * chi * (1 - psi * c3) +
+      r0 * (1 - psi * c2);
+    const step =
+      (sqrtMu * dt -
+        chi * chi * chi * c3 -
+        (rv / sqrtMu) * chi * chi * c2 -
+        r0 * chi * (1 - psi * c3)) /
+      r;
+    chi += step;
+    if (Math.abs(step) < KEPLER_TOLERANCE) break;
+  }
+
+  psi = chi * chi * alpha;
+  ({ c2, c3 } = stumpff(psi));
+  r =
+    chi * chi * c2 + (rv / sqrtMu) * chi * (1 - psi * c3) + r0 * (1 - psi * c2);
+
+  const f = 1 - (chi * chi * c2) / r0;
+  const g = dt - (chi * chi * chi * c3) / sqrtMu;
+  const fDot = (sqrtMu / (r * r0)) * chi * (psi * c3 - 1);
+  const gDot = 1 - (chi * chi * c2) / r;
+
+  return {
+    r: add(scale(s.r, f), scale(s.v, g)),
+    v: add(scale(s.r, fDot), scale(s.v, gDot)),
+  };
+}
+
+/** Orbital period in seconds from the osculating semi-major axis */
+function orbitalPeriodSeconds(s: State): number {
+  const a = 1 / (2 / norm(s.r) - dot(s.v, s.v) / MU_KM3_S2);
+  return a > 0 ? 2 * Math.PI * Math.sqrt((a * a * a) / MU_KM3_S2) : Infinity;
+}
+
+// ─── Maneuver Application ─────────────────────────────────────────────────────
+
+/** Delta-V vector (km/s) in the inertial frame for an RTN burn direction */
+export function burnVector(
+  sv: CDMStateVector,
+  direction: BurnDirection,
+  deltaVMs: number,
+): Vec3 {
+  const { r, v } = toState(sv);
+  const rHat = unit(r);
+  const nHat = unit(cross(r, v));
+  const tHat = cross(nHat, rHat);
+  const axis = direction.endsWith("ALONG_TRACK")
+    ? tHat
+    : direction.endsWith("CROSS_TRACK")
+      ? nHat
+      : rHat;
+  const sign = direction.startsWith("-") ? -1 : 1;
+  return scale(axis, (sign * deltaVMs) / 1000);
+}
+
+/**
+ * Closest approach of two states given near their TCA: step both objects to
+ * the zero of the range-rate, a few Newton iterations on linearized motion.
+ */
+function refineClosestApproach(
+  own: State,
+  threat: State,
+): { own: State; threat: State; shiftS: number } {
+  let shiftS = 0;
+  for (let i = 0; i < TCA_REFINEMENT_STEPS; i++) {
+    const dr = sub(own.r, threat.r);
+    const dv = sub(own.v, threat.v);
+    const vv = dot(dv, dv);
+    if (vv === 0) break;
+    const step = -dot(dr, dv) / vv;
+    if (Math.abs(step) < 1e-6) break;
+    own = propagate(own, step);
+    threat = propagate(threat, step);
+    shiftS += step;
+  }
+  return { own, threat, shiftS };
+}
+
+function screenPc(
+  own: State,
+  threat: State,
+  c: PlannerConjunction,
+  hbr: number | undefined,
+  monteCarloSamples: number,
+): PcComputation {
+  return computeCollisionProbability(
+    {
+      sat1: {
+        stateVector: toStateVector(own, c.own.stateVector.refFrame),
+        covariance: c.own.covariance,
+      },
+      sat2: {
+        stateVector: toStateVector(threat, c.threat.stateVector.refFrame),
+        covariance: c.threat.covariance,
+      },
+      hardBodyRadiusM: hbr,
+    },
+    { sensitivityScales: [], monteCarloSamples },
+  );
+}
+
+function aggregate(pcs: number[]): number {
+  return 1 - pcs.reduce((acc, pc) => acc * (1 - pc), 1);
+}
+
+/**
+ * Mark the non-dominated options: no other option needs less (or equal)
+ * delta-V while leaving less (or equal) aggregate Pc.
+ */
+function markParetoFront(options: ManeuverOption[]): void {
+  const sorted = [...options].sort(
+    (a, b) => a.deltaVMs - b.deltaVMs || a.aggregatePc - b.aggregatePc,
+  );
+  let bestPc = Infinity;
+  for (const o of sorted) {
+    if (o.aggregatePc < bestPc) {
+      o.pareto = true;
+      bestPc = o.aggregatePc;
+    }
+  }
+}
+
+// ─── Main Entry Point ─────────────────────────────────────────────────────────
+
+/**
+ * Build the maneuver trade-space for a conjunction: every burn time ×
+ * direction × delta-V combination, re-screened against the whole set.
+ *
+ * The recommended option is the cheapest burn that brings the primary below
+ * the elevated Pc threshold without creating a secondary conjunction and
+ * within the available fuel.
+ */
+export function planManeuvers(
+  input: ManeuverPlannerInput,
+  options: ManeuverPlannerOptions = {},
+): ManeuverPlan {
+  const {
+    primary,
+    secondaries,
+    hardBodyRadiusM,
+    spacecraftMassKg,
+    availableFuelKg,
+    ispSeconds = 300,
+  } = input;
+  const thresholds = options.thresholds ?? DEFAULT_THRESHOLDS;
+  const targetPc = thresholds.elevatedPc;
+  const mcSamples = options.monteCarloSamples ?? DEFAULT_PLANNER_MC_SAMPLES;
+  const nowMs = (options.now ?? new Date()).getTime();
+  const warnings: string[] = [];
+
+  const conjunctions = [primary, ...secondaries];
+  for (const c of secondaries) {
+    if (c.own.stateVector.refFrame !== primary.own.stateVector.refFrame) {
+      warnings.push(
+        `${c.label}: reference frame ${c.own.stateVector.refFrame} differs from the primary (${primary.own.stateVector.refFrame})`,
+      );
+    }
+  }
+
+  // ── Baseline (no maneuver) ──────────────────────────────────────────────
+  const baselinePcs = conjunctions.map(
+    (c) =>
+      screenPc(
+        toState(c.own.stateVector),
+        toState(c.threat.stateVector),
+        c,
+        hardBodyRadiusM,
+        mcSamples,
+      ).pc,
+  );
+
+  const ownAtTca = toState(primary.own.stateVector);
+  const primaryTcaMs = primary.tca.getTime();
+  const periodS = orbitalPeriodSeconds(ownAtTca);
+
+  // ── Sweep ───────────────────────────────────────────────────────────────
+  const planned: ManeuverOption[] = [];
+  const leadOrbits = options.leadOrbits ?? DEFAULT_LEAD_ORBITS;
+
+  for (const lead of leadOrbits) {
+    const leadS = lead * periodS;
+    const burnMs = primaryTcaMs - leadS * 1000;
+    if (!Number.isFinite(burnMs) || burnMs <= nowMs) continue;
+
+    const ownAtBurn = propagate(ownAtTca, -leadS);
+    // Unburned trajectory at each conjunction TCA (null = TCA before burn)
+    const unburned = conjunctions.map((c) => {
+      const dtS = (c.tca.getTime() - burnMs) / 1000;
+      return dtS > 0 ? { dtS, state: propagate(ownAtBurn, dtS) } : null;
+    });
+
+    for (const direction of options.directions ?? DEFAULT_DIRECTIONS) {
+      for (const deltaVMs of options.deltaVMagnitudesMs ?? DEFAULT_DELTA_V_MS) {
+        const dv = burnVector(
+          toStateVector(ownAtBurn, primary.own.stateVector.refFrame),
+          direction,
+          deltaVMs,
+        );
+        const burned: State = { r: ownAtBurn.r, v: add(ownAtBurn.v, dv) };
+
+        const screenings = conjunctions.map((c, i): ConjunctionScreening => {
+          const ref = unburned[i];
+          if (!ref) {
+            return {
+              conjunctionId: c.id,
+              label: c.label,
+              affected: false,
+              baselinePc: baselinePcs[i]!,
+              postPc: baselinePcs[i]!,
+              postMissDistanceM:
+                norm(
+                  sub(
+                    toState(c.own.stateVector).r,
+                    toState(c.threat.stateVector).r,
+                  ),
+                ) * 1000,
+              tcaShiftS: 0,
+            };
+          }
+          const after = propagate(burned, ref.dtS);
+          const own0 = toState(c.own.stateVector);
+          const ownPost: State = {
+            r: add(own0.r, sub(after.r, ref.state.r)),
+            v: add(own0.v, sub(after.v, ref.state.v)),
+          };
+          const closest = refineClosestApproach(
+            ownPost,
+            toState(c.threat.stateVector),
+          );
+          const pc = screenPc(
+            closest.own,
+            closest.threat,
+            c,
+            hardBodyRadiusM,
+            mcSamples,
+          );
+          return {
+            conjunctionId: c.id,
+            label: c.label,
+            affected: true,
+            baselinePc: baselinePcs[i]!,
+            postPc: pc.pc,
+            postMissDistanceM: pc.missDistanceM,
+            tcaShiftS: closest.shiftS,
+          };
+        });
+
+        const [primaryScreening, ...secondaryScreenings] = screenings;
+        const flags: string[] = [];
+
+        const clearsPrimary = primaryScreening!.postPc < targetPc;
+        if (!clearsPrimary) {
+          flags.push(
+            `Primary Pc ${primaryScreening!.postPc.toExponential(2)} remains above target ${targetPc.toExponential(0)}`,
+          );
+        }
+
+        // Crossing the threshold, or worsening one that is already above it
+        const raised = secondaryScreenings.filter(
+          (s) =>
+            s.postPc >= targetPc &&
+            (s.baselinePc < targetPc ||
+              s.postPc > s.baselinePc * SECONDARY_WORSENING_FACTOR),
+        );
+        for (const s of raised) {
+          flags.push(
+            `Creates secondary conjunction with ${s.label}: Pc ${s.baselinePc.toExponential(2)} → ${s.postPc.toExponential(2)}`,
+          );
+        }
+
+        let fuelConsumptionKg: number | null = null;
+        let fuelPercentUsed: number | null = null;
+        if (spacecraftMassKg !== undefined && spacecraftMassKg > 0) {
+          fuelConsumptionKg = tsiolkovskyFuel(
+            spacecraftMassKg,
+            deltaVMs,
+            ispSeconds,
+          );
+          if (availableFuelKg !== undefined && availableFuelKg > 0) {
+            fuelPercentUsed = (fuelConsumptionKg / availableFuelKg) * 100;
+            if (fuelPercentUsed > 100) flags.push("Exceeds available fuel");
+          }
+        }
+
+        planned.push({
+          id: `${lead}T-${direction}-${deltaVMs}`,
+          burnTime: new Date(burnMs),
+          leadTimeHours: leadS / 3600,
+          direction,
+          deltaVMs,
+          fuelConsumptionKg,
+          fuelPercentUsed,
+          primary: primaryScreening!,
+          secondaries: secondaryScreenings,
+          aggregatePc: aggregate(screenings.map((s) => s.postPc)),
+          clearsPrimary,
+          createsSecondaryConjunction: raised.length > 0,
+          pareto: false,
+          flags,
+        });
+      }
+    }
+  }
+
+  if (planned.length === 0) {
+    warnings.push(
+      "No burn time remains before TCA — no maneuver can be planned",
+    );
+  }
+
+  markParetoFront(planned.filter((o) => !o.createsSecondaryConjunction));
+
+  const recommended = planned
+    .filter(
+      (o) =>
+        o.clearsPrimary &&
+        !o.createsSecondaryConjunction &&
+        (o.fuelPercentUsed === null || o.fuelPercentUsed <= 100),
+    )
+    .sort(
+      (a, b) =>
+        a.deltaVMs - b.deltaVMs ||
+        a.aggregatePc - b.aggregatePc ||
+        a.leadTimeHours - b.leadTimeHours,
+    )[0];
+
+  if (planned.length > 0 && !recommended) {
+    warnings.push(
+      "No swept burn clears the primary conjunction without creating a secondary one",
+    );
+  }
+
+  return {
+    primaryConjunctionId: primary.id,
+    orbitalPeriodHours: periodS / 3600,
+    targetPc,
+    baseline: {
+      primaryPc: baselinePcs[0]!,
+      secondaries: secondaries.map((c, i) => ({
+        conjunctionId: c.id,
+        label: c.label,
+        pc: baselinePcs[i + 1]!,
+      })),
+      aggregatePc: aggregate(baselinePcs),
+    },
+    options: planned,
+    recommendedOptionId: recommended?.id ?? null,
+    warnings,
+  };
+}
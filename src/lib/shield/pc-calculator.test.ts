@@ -0,0 +1,247 @@
+/**
+ * Pc Calculator — unit tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  chanPc2D,
+  computeCollisionProbability,
+  crossCheckProviderPc,
+  fosterPc2D,
+  rtnPositionCovarianceToInertial,
+  DEFAULT_HARD_BODY_RADIUS_M,
+  type PcInput,
+} from "./pc-calculator";
+import { COVARIANCE_KEYWORDS } from "./types";
+import type { CDMCovarianceRTN, CDMStateVector } from "./types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function diagCovariance(r: number, t: number, n: number): CDMCovarianceRTN {
+  const cov = Object.fromEntries(
+    COVARIANCE_KEYWORDS.map((k) => [k, 0]),
+  ) as CDMCovarianceRTN;
+  cov.CR_R = r;
+  cov.CT_T = t;
+  cov.CN_N = n;
+  cov.CRDOT_RDOT = 1e-4;
+  cov.CTDOT_TDOT = 1e-4;
+  cov.CNDOT_NDOT = 1e-4;
+  return cov;
+}
+
+/** Head-on-ish LEO crossing with a radial miss of `missM` meters */
+function crossingInput(missM: number, sigmaM: number): PcInput {
+  const sat1: CDMStateVector = {
+    refFrame: "EME2000",
+    x: 6928,
+    y: 0,
+    z: 0,
+    xDot: 0,
+    yDot: 7.585,
+    zDot: 0,
+  };
+  const sat2: CDMStateVector = {
+    refFrame: "EME2000",
+    x: 6928 + missM / 1000,
+    y: 0,
+    z: 0,
+    xDot: 0,
+    yDot: 0,
+    zDot: 7.585,
+  };
+  const variance = (sigmaM * sigmaM) / 2; // split equally between objects
+  return {
+    sat1: {
+      stateVector: sat1,
+      covariance: diagCovariance(variance, variance, variance),
+    },
+    sat2: {
+      stateVector: sat2,
+      covariance: diagCovariance(variance, variance, variance),
+    },
+  };
+}
+
+const ISO = (sigma: number): [[number, number], [number, number]] => [
+  [sigma * sigma, 0],
+  [0, sigma * sigma],
+];
+
+// ─── 2D Methods ───────────────────────────────────────────────────────────────
+
+describe("fosterPc2D", () => {
+  it("matches the closed form for a centered isotropic encounter", () => {
+    // Pc = 1 − exp(−R²/2σ²)
+    const expected = 1 - Math.exp(-(20 * 20) / (2 * 100 * 100));
+    expect(fosterPc2D(0, 0, ISO(100), 20)).toBeCloseTo(expected, 6);
+  });
+
+  it("decreases with miss distance", () => {
+    const near = fosterPc2D(50, 0, ISO(100), 20);
+    const far = fosterPc2D(500, 0, ISO(100), 20);
+    expect(far).toBeLessThan(near);
+  });
+
+  it("returns 0 for a singular covariance", () => {
+    expect(
+      fosterPc2D(
+        0,
+        0,
+        [
+          [1, 1],
+          [1, 1],
+        ],
+        20,
+      ),
+    ).toBe(0);
+  });
+});
+
+describe("chanPc2D", () => {
+  it("agrees with Foster when HBR is small relative to sigma", () => {
+    const cov: [[number, number], [number, number]] = [
+      [200 * 200, 3000],
+      [3000, 80 * 80],
+    ];
+    const foster = fosterPc2D(150, -60, cov, 10);
+    const chan = chanPc2D(150, -60, cov, 10);
+    expect(Math.abs(foster - chan) / foster).toBeLessThan(0.02);
+  });
+
+  it("is exact for a centered isotropic encounter", () => {
+    const expected = 1 - Math.exp(-(20 * 20) / (2 * 100 * 100));
+    expect(chanPc2D(0, 0, ISO(100), 20)).toBeCloseTo(expected, 10);
+  });
+});
+
+// ─── Frame Conversion ────────────────────────────────────────────────────────
+
+describe("rtnPositionCovarianceToInertial", () => {
+  it("maps R to the position direction and T to the velocity direction", () => {
+    const sv: CDMStateVector = {
+      refFrame: "EME2000",
+      x: 7000,
+      y: 0,
+      z: 0,
+      xDot: 0,
+      yDot: 7.5,
+      zDot: 0,
+    };
+    const c = rtnPositionCovarianceToInertial(sv, diagCovariance(1, 4, 9));
+    expect(c[0][0]).toBeCloseTo(1);
+    expect(c[1][1]).toBeCloseTo(4);
+    expect(c[2][2]).toBeCloseTo(9);
+  });
+});
+
+// ─── computeCollisionProbability ─────────────────────────────────────────────
+
+describe("computeCollisionProbability", () => {
+  it("uses Foster as the primary method for a fast encounter", () => {
+    const result = computeCollisionProbability(crossingInput(100, 150));
+    expect(result.method).toBe("FOSTER");
+    expect(result.monteCarlo).toBeNull();
+    expect(result.hardBodyRadiusM).toBe(DEFAULT_HARD_BODY_RADIUS_M);
+    expect(result.missDistanceM).toBeCloseTo(100, 3);
+    expect(result.relativeSpeedMs).toBeGreaterThan(10_000);
+    expect(result.pc).toBeGreaterThan(1e-3);
+    expect(result.pc).toBeLessThan(1e-2);
+  });
+
+  it("uses the supplied hard-body radius", () => {
+    const small = computeCollisionProbability({
+      ...crossingInput(100, 150),
+      hardBodyRadiusM: 5,
+    });
+    const large = computeCollisionProbability({
+      ...crossingInput(100, 150),
+      hardBodyRadiusM: 40,
+    });
+    expect(small.hardBodyRadiusM).toBe(5);
+    expect(large.pc).toBeGreaterThan(small.pc);
+  });
+
+  it("falls back to Monte Carlo for slow encounters", () => {
+    const input = crossingInput(0, 50);
+    input.sat2.stateVector = {
+      ...input.sat2.stateVector,
+      yDot: 7.585,
+      zDot: 0.05,
+    };
+    const result = computeCollisionProbability(input, {
+      monteCarloSamples: 20_000,
+    });
+    expect(result.method).toBe("MONTE_CARLO");
+    expect(result.monteCarlo!.samples).toBe(20_000);
+    expect(result.warnings[0]).toMatch(/Relative speed/);
+  });
+
+  it("Monte Carlo agrees with Foster within its confidence interval", () => {
+    const result = computeCollisionProbability(crossingInput(30, 60), {
+      forceMonteCarlo: true,
+      monteCarloSamples: 100_000,
+    });
+    const [lo, hi] = result.monteCarlo!.ci95;
+    expect(result.foster).toBeGreaterThanOrEqual(lo * 0.9);
+    expect(result.foster).toBeLessThanOrEqual(hi * 1.1);
+  });
+
+  it("Monte Carlo follows the curved relative motion of a slow encounter", () => {
+    // Co-located objects drifting apart at 1 cm/s: over the encounter window
+    // the gravity gradient bends the sampled trajectories back through the
+    // hard body, which the straight-line 2D methods cannot see.
+    const input = crossingInput(0, 100);
+    input.sat2.stateVector = {
+      ...input.sat2.stateVector,
+      yDot: 7.585,
+      zDot: 0.00001,
+    };
+    const result = computeCollisionProbability(input, {
+      monteCarloSamples: 20_000,
+    });
+    expect(result.method).toBe("MONTE_CARLO");
+    expect(result.monteCarlo!.ci95[0]).toBeGreaterThan(result.foster * 1.5);
+  });
+
+  it("returns a sensitivity table and a dilution maximum", () => {
+    const result = computeCollisionProbability(crossingInput(800, 100));
+    expect(result.sensitivity.map((r) => r.covarianceScale)).toEqual([
+      0.25, 0.5, 1, 2, 4, 8,
+    ]);
+    // Miss far outside the covariance → growing the covariance raises Pc
+    expect(result.sensitivity[5]!.pc).toBeGreaterThan(
+      result.sensitivity[0]!.pc,
+    );
+    expect(result.maxPc.pc).toBeGreaterThanOrEqual(result.pc);
+  });
+});
+
+// ─── crossCheckProviderPc ────────────────────────────────────────────────────
+
+describe("crossCheckProviderPc", () => {
+  const computed = computeCollisionProbability(crossingInput(100, 150));
+
+  it("treats values within an order of magnitude as consistent", () => {
+    const check = crossCheckProviderPc(computed.pc / 3, computed);
+    expect(check.verdict).toBe("CONSISTENT");
+    expect(check.suspicious).toBe(false);
+  });
+
+  it("flags a provider Pc far above ours", () => {
+    const check = crossCheckProviderPc(computed.pc * 100, computed);
+    expect(check.verdict).toBe("PROVIDER_HIGHER");
+    expect(check.suspicious).toBe(true);
+  });
+
+  it("flags a provider Pc far below ours", () => {
+    const check = crossCheckProviderPc(computed.pc / 100, computed);
+    expect(check.verdict).toBe("PROVIDER_LOWER");
+    expect(check.suspicious).toBe(true);
+  });
+
+  it("flags a provider Pc above the dilution maximum", () => {
+    const check = crossCheckProviderPc(0.9, computed);
+    expect(check.reasons.some((r) => r.includes("maximum Pc"))).toBe(true);
+  });
+});
@@ -0,0 +1,742 @@
+/**
+ * SHIELD — Independent Collision Probability (Pc) Calculator
+ *
+ * Recomputes Pc from the CDM state vectors and RTN covariances instead of
+ * trusting the provider's number:
+ *
+ * - Foster (1992): numerical integration of the 2D Gaussian over the
+ *   hard-body circle in the encounter (B-)plane.
+ * - Chan (1997): series approximation in the principal axes of the
+ *   encounter-plane covariance — used as an analytical cross-check.
+ * - Monte Carlo: samples the combined 3D position covariance, propagates
+ *   each sample's relative motion through Earth's gravity gradient over the
+ *   encounter window and counts samples whose minimum distance falls inside
+ *   the hard-body radius. Used when the short-encounter assumptions of the
+ *   2D methods (straight-line relative motion through an infinite window)
+ *   break down: low relative speed, degenerate covariance.
+ *
+ * Pure functions — no DB calls. Runs in browser or server.
+ * Advisory only: the operator decides.
+ */
+
+import type { CDMCovarianceRTN, CDMStateVector } from "./types";
+import { mulberry32 } from "@/lib/prng";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PcMethod = "FOSTER" | "MONTE_CARLO";
+
+export interface PcInput {
+  sat1: { stateVector: CDMStateVector; covariance: CDMCovarianceRTN };
+  sat2: { stateVector: CDMStateVector; covariance: CDMCovarianceRTN };
+  /** Combined hard-body radius in meters */
+  hardBodyRadiusM?: number;
+}
+
+export interface PcOptions {
+  /** Always run Monte Carlo, even when the 2D methods are valid */
+  forceMonteCarlo?: boolean;
+  monteCarloSamples?: number;
+  /** Seed for the Monte Carlo PRNG — fixed for reproducible results */
+  seed?: number;
+  /** Covariance scale factors for the sensitivity table */
+  sensitivityScales?: number[];
+}
+
+export interface MonteCarloResult {
+  pc: number;
+  samples: number;
+  hits: number;
+  /** 95% Wilson score interval */
+  ci95: [number, number];
+}
+
+export interface PcSensitivityRow {
+  covarianceScale: number;
+  pc: number;
+}
+
+export interface PcComputation {
+  method: PcMethod;
+  pc: number;
+  foster: number;
+  chan: number;
+  monteCarlo: MonteCarloResult | null;
+  hardBodyRadiusM: number;
+  missDistanceM: number;
+  relativeSpeedMs: number;
+  encounterPlane: {
+    missXM: number;
+    missZM: number;
+    sigmaMajorM: number;
+    sigmaMinorM: number;
+  };
+  sensitivity: PcSensitivityRow[];
+  /** Highest Pc reachable by scaling the covariance (dilution analysis) */
+  maxPc: { pc: number; covarianceScale: number };
+  warnings: string[];
+}
+
+export type PcCrossCheckVerdict =
+  | "CONSISTENT"
+  | "PROVIDER_HIGHER"
+  | "PROVIDER_LOWER";
+
+export interface PcCrossCheck {
+  providerPc: number;
+  computedPc: number;
+  log10Ratio: number | null;
+  verdict: PcCrossCheckVerdict;
+  suspicious: boolean;
+  reasons: string[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Combined hard-body radius used when the operator has not configured one */
+export const DEFAULT_HARD_BODY_RADIUS_M = 20;
+
+/** Below this relative speed the encounter is not "short" — use Monte Carlo */
+const LOW_RELATIVE_SPEED_MS = 100;
+
+/** Max ratio of encounter-plane sigmas before the 2D Gaussian is degenerate */
+const MAX_CONDITION_NUMBER = 1e8;
+
+/** Provider and computed Pc within one order of magnitude → consistent */
+const CONSISTENCY_LOG10_TOLERANCE = 1;
+
+const DEFAULT_MC_SAMPLES = 200_000;
+
+/** Earth's gravitational parameter in m³/s² */
+const MU_EARTH_M3_S2 = 3.986004418e14;
+/** The encounter window spans this many combined sigmas along the track… */
+const MC_WINDOW_SIGMAS = 8;
+/** …but never more than this far from TCA, however slow the encounter */
+const MC_MAX_HALF_WINDOW_S = 1800;
+/** Propagation nodes on each side of TCA */
+const MC_WINDOW_STEPS = 32;
+const DEFAULT_SEED = 0x5eed;
+const DEFAULT_SENSITIVITY_SCALES = [0.25, 0.5, 1, 2, 4, 8];
+
+const RADIAL_STEPS = 64;
+const ANGULAR_STEPS = 128;
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+type Mat2 = [[number, number], [number, number]];
+
+// ─── Linear Algebra Helpers ─────────────────────────────────────────────────
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+function scale(a: Vec3, k: number): Vec3 {
+  return [a[0] * k, a[1] * k, a[2] * k];
+}
+
+function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+function unit(a: Vec3): Vec3 {
+  const n = norm(a);
+  return n === 0 ? [0, 0, 0] : scale(a, 1 / n);
+}
+
+/** M · C · Mᵀ for a 3x3 C and a k×3 M (rows are basis vectors) */
+function project(rows: Vec3[], c: Mat3): number[][] {
+  return rows.map((ri) =>
+    rows.map((rj) => {
+      let s = 0;
+      for (let a = 0; a < 3; a++) {
+        for (let b = 0; b < 3; b++) s += ri[a]! * c[a]![b]! * rj[b]!;
+      }
+      return s;
+    }),
+  );
+}
+
+function matVec3(m: Mat3, v: Vec3): Vec3 {
+  return [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+}
+
+function addMat3(a: Mat3, b: Mat3): Mat3 {
+  return a.map((row, i) => row.map((v, j) => v + b[i]![j]!)) as Mat3;
+}
+
+/** Lower-triangular Cholesky factor, or null if not positive definite */
+function cholesky3(c: Mat3): Mat3 | null {
+  const l: Mat3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j <= i; j++) {
+      let s = c[i]![j]!;
+      for (let k = 0; k < j; k++) s -= l[i]![k]! * l[j]![k]!;
+      if (i === j) {
+        if (s <= 0) return null;
+        l[i]![i] = Math.sqrt(s);
+      } else {
+        l[i]![j] = s / l[j]![j]!;
+      }
+    }
+  }
+  return l;
+}
+
+function position(sv: CDMStateVector): Vec3 {
+  return [sv.x, sv.y, sv.z];
+}
+
+function velocity(sv: CDMStateVector): Vec3 {
+  return [sv.xDot, sv.yDot, sv.zDot];
+}
+
+// ─── Frame Conversions ──────────────────────────────────────────────────────
+
+/**
+ * Rotate the 3x3 RTN position covariance of one object into the inertial
+ * frame of its state vector: C_eci = M · C_rtn · Mᵀ with M = [R̂ T̂ N̂].
+ */
+export function rtnPositionCovarianceToInertial(
+  sv: CDMStateVector,
+  cov: CDMCovarianceRTN,
+): Mat3 {
+  const r = position(sv);
+  const v = velocity(sv);
+  const rHat = unit(r);
+  const nHat = unit(cross(r, v));
+  const tHat = cross(nHat, rHat);
+
+  const rtn: Mat3 = [
+    [cov.CR_R, cov.CT_R, cov.CN_R],
+    [cov.CT_R, cov.CT_T, cov.CN_T],
+    [cov.CN_R, cov.CN_T, cov.CN_N],
+  ];
+
+  // Columns of M are the RTN unit vectors, so rows of Mᵀ are (R̂, T̂, N̂)
+  // and C_eci[a][b] = Σ M[a][i] C[i][j] M[b][j]
+  const axes = [rHat, tHat, nHat];
+  const out: Mat3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  for (let a = 0; a < 3; a++) {
+    for (let b = 0; b < 3; b++) {
+      let s = 0;
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          s += axes[i]![a]! * rtn[i]![j]! * axes[j]![b]!;
+        }
+      }
+      out[a]![b] = s;
+    }
+  }
+  return out;
+}
+
+interface Encounter {
+  /** Relative position in meters (sat2 − sat1) */
+  relPosM: Vec3;
+  relVelMs: Vec3;
+  /** Encounter-plane basis: x̂ along the miss vector, ẑ completes the frame */
+  xHat: Vec3;
+  zHat: Vec3;
+  combinedCovM2: Mat3;
+  /** 2D covariance projected onto the encounter plane */
+  planeCov: Mat2;
+  missX: number;
+  missZ: number;
+}
+
+function buildEncounter(input: PcInput): Encounter {
+  const { sat1, sat2 } = input;
+  const relPosM = scale(
+    sub(position(sat2.stateVector), position(sat1.stateVector)),
+    1000,
+  );
+  const relVelMs = scale(
+    sub(velocity(sat2.stateVector), velocity(sat1.stateVector)),
+    1000,
+  );
+
+  const combinedCovM2 = addMat3(
+    rtnPositionCovarianceToInertial(sat1.stateVector, sat1.covariance),
+    rtnPositionCovarianceToInertial(sat2.stateVector, sat2.covariance),
+  );
+
+  const yHat = unit(relVelMs);
+  const perp = sub(relPosM, scale(yHat, dot(relPosM, yHat)));
+  let xHat = unit(perp);
+  if (norm(xHat) === 0) {
+    // Zero miss vector — any axis perpendicular to the velocity works
+    const helper: Vec3 = Math.abs(yHat[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    xHat = unit(cross(yHat, helper));
+  }
+  const zHat = cross(xHat, yHat);
+
+  const p = project([xHat, zHat], combinedCovM2);
+  return {
+    relPosM,
+    relVelMs,
+    xHat,
+    zHat,
+    combinedCovM2,
+    planeCov: [
+      [p[0]![0]!, p[0]![1]!],
+      [p[1]![0]!, p[1]![1]!],
+    ],
+    missX: dot(relPosM, xHat),
+    missZ: dot(relPosM, zHat),
+  };
+}
+
+// ─── 2D Methods ───────────────────────────────────────────────────────────────
+
+/**
+ * Foster method: integrate the bivariate Gaussian centered on the miss
+ * vector over the hard-body disc at the origin (Simpson's rule, polar grid).
+ */
+export function fosterPc2D(
+  missX: number,
+  missZ: number,
+  cov: Mat2,
+  hbr: number,
+): number {
+  const [[sxx, sxz], [, szz]] = cov;
+  const det = sxx * szz - sxz * sxz;
+  if (!(det > 0) || hbr <= 0) return 0;
+  const ixx = szz / det;
+  const izz = sxx / det;
+  const ixz = -sxz / det;
+  const norm2 = 1 / (2 * Math.PI * Math.sqrt(det));
+
+  const dr = hbr / RADIAL_STEPS;
+  const dt = (2 * Math.PI) / ANGULAR_STEPS;
+  let total = 0;
+  for (let i = 0; i <= RADIAL_STEPS; i++) {
+    const rho = i * dr;
+    const wr = i === 0 || i === RADIAL_STEPS ? 1 : i % 2 === 1 ? 4 : 2;
+    let ring = 0;
+    // Periodic integrand → the trapezoid rule is spectrally accurate in θ
+    for (let j = 0; j < ANGULAR_STEPS; j++) {
+      const theta = j * dt;
+      const dx = rho * Math.cos(theta) - missX;
+      const dz = rho * Math.sin(theta) - missZ;
+      const q = ixx * dx * dx + 2 * ixz * dx * dz + izz * dz * dz;
+      ring += Math.exp(-0.5 * q);
+    }
+    total += wr * ring * dt * rho;
+  }
+  return Math.min(1, norm2 * total * (dr / 3));
+}
+
+/** Principal axes (σ_major ≥ σ_minor) and rotated miss components */
+function principalAxes(missX: number, missZ: number, cov: Mat2) {
+  const [[a, b], [, c]] = cov;
+  const tr = a + c;
+  const disc = Math.sqrt(Math.max(0, ((a - c) / 2) ** 2 + b * b));
+  const l1 = tr / 2 + disc;
+  const l2 = tr / 2 - disc;
+  const angle = 0.5 * Math.atan2(2 * b, a - c);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    sigmaMajor: Math.sqrt(Math.max(l1, 0)),
+    sigmaMinor: Math.sqrt(Math.max(l2, 0)),
+    xi: missX * cos + missZ * sin,
+    zeta: -missX * sin + missZ * cos,
+  };
+}
+
+/**
+ * Chan method: closed-form series for the equivalent-area circle.
+ * Pc = e^(−v/2) Σₘ (v/2)ᵐ/m! · [1 − e^(−u/2) Σₖ≤ₘ (u/2)ᵏ/k!]
+ */
+export function chanPc2D(
+  missX: number,
+  missZ: number,
+  cov: Mat2,
+  hbr: number,
+): number {
+  const { sigmaMajor, sigmaMinor, xi, zeta } = principalAxes(missX, missZ, cov);
+  if (sigmaMajor <= 0 || sigmaMinor <= 0 || hbr <= 0) return 0;
+  const u = (hbr * hbr) / (sigmaMajor * sigmaMinor);
+  const v = (xi / sigmaMajor) ** 2 + (zeta / sigmaMinor) ** 2;
+
+  let outer = 0;
+  let vTerm = 1; // (v/2)^m / m!
+  let uTerm = 1; // (u/2)^k / k!
+  let uSum = 1;
+  for (let m = 0; m < 200; m++) {
+    if (m > 0) {
+      vTerm *= v / 2 / m;
+      uTerm *= u / 2 / m;
+      uSum += uTerm;
+    }
+    const term = vTerm * (1 - Math.exp(-u / 2) * uSum);
+    outer += term;
+    if (m > v / 2 && term < 1e-20 * Math.max(outer, 1e-300)) break;
+  }
+  return Math.min(1, Math.exp(-v / 2) * outer);
+}
+
+function scaleMat2(m: Mat2, k: number): Mat2 {
+  return [
+    [m[0][0] * k, m[0][1] * k],
+    [m[1][0] * k, m[1][1] * k],
+  ];
+}
+
+// ─── Monte Carlo ──────────────────────────────────────────────────────────────
+
+function wilson95(hits: number, n: number): [number, number] {
+  const z = 1.959964;
+  const p = hits / n;
+  const denom = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denom;
+  const half =
+    (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom;
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+/**
+ * Relative motion around TCA, linearized about object 1's two-body orbit:
+ * ρ̈ = G(r₁(t)) · ρ with the gravity gradient G = μ/r³ (3 r̂ r̂ᵀ − I).
+ * A sample offset d at TCA then moves as ρ(t) = nominal(t) + S(t) · d.
+ */
+interface RelativeMotion {
+  /** Nominal relative position (m) at each node, ordered from −T to +T */
+  nominal: Vec3[];
+  /** ∂ρ(t)/∂ρ(TCA) at each node */
+  sensitivity: Mat3[];
+}
+
+function gravityAccel(r: Vec3): Vec3 {
+  const rn = norm(r);
+  return scale(r, -MU_EARTH_M3_S2 / (rn * rn * rn));
+}
+
+function gravityGradient(r: Vec3): Mat3 {
+  const rn = norm(r);
+  const k = MU_EARTH_M3_S2 / (rn * rn * rn);
+  const h = unit(r);
+  return [0, 1, 2].map((i) =>
+    [0, 1, 2].map((j) => k * (3 * h[i]! * h[j]! - (i === j ? 1 : 0))),
+  ) as Mat3;
+}
+
+/**
+ * Propagation state: object 1 (r, v) followed by four relative states
+ * (ρ, ρ̇) — the nominal one and one per unit position offset at TCA.
+ */
+type MotionState = Vec3[];
+
+function motionDerivative(y: MotionState): MotionState {
+  const g = gravityGradient(y[0]!);
+  const out: MotionState = [y[1]!, gravityAccel(y[0]!)];
+  for (let i = 2; i < y.length; i += 2) {
+    out.push(y[i + 1]!, matVec3(g, y[i]!));
+  }
+  return out;
+}
+
+function rk4Step(y: MotionState, h: number): MotionState {
+  const axpy = (a: MotionState, k: MotionState, f: number): MotionState =>
+    a.map((v, i) => [
+      v[0] + f * k[i]![0],
+      v[1] + f * k[i]![1],
+      v[2] + f * k[i]![2],
+    ]);
+  const k1 = motionDerivative(y);
+  const k2 = motionDerivative(axpy(y, k1, h / 2));
+  const k3 = motionDerivative(axpy(y, k2, h / 2));
+  const k4 = motionDerivative(axpy(y, k3, h));
+  return y.map((v, i) => {
+    const [a, b, c, d] = [k1[i]!, k2[i]!, k3[i]!, k4[i]!];
+    return [0, 1, 2].map(
+      (j) => v[j]! + (h / 6) * (a[j]! + 2 * b[j]! + 2 * c[j]! + d[j]!),
+    ) as Vec3;
+  });
+}
+
+function propagateRelativeMotion(
+  r1M: Vec3,
+  v1Ms: Vec3,
+  enc: Encounter,
+  halfWindowS: number,
+): RelativeMotion {
+  const initial: MotionState = [
+    r1M,
+    v1Ms,
+    enc.relPosM,
+    enc.relVelMs,
+    [1, 0, 0],
+    [0, 0, 0],
+    [0, 1, 0],
+    [0, 0, 0],
+    [0, 0, 1],
+    [0, 0, 0],
+  ];
+  const node = (y: MotionState) => ({
+    nominal: y[2]!,
+    // Columns are the responses to unit offsets along x, y, z
+    sensitivity: [0, 1, 2].map((i) => [y[4]![i], y[6]![i], y[8]![i]]) as Mat3,
+  });
+
+  const sweep = (h: number) => {
+    const nodes = [];
+    let y = initial;
+    for (let k = 0; k < MC_WINDOW_STEPS; k++) {
+      y = rk4Step(y, h);
+      nodes.push(node(y));
+    }
+    return nodes;
+  };
+
+  const h = halfWindowS / MC_WINDOW_STEPS;
+  const nodes = [...sweep(-h).reverse(), node(initial), ...sweep(h)];
+  return {
+    nominal: nodes.map((n) => n.nominal),
+    sensitivity: nodes.map((n) => n.sensitivity),
+  };
+}
+
+/** Squared distance from the origin to the segment a → b */
+function segmentDistanceSq(a: Vec3, b: Vec3): number {
+  const ab = sub(b, a);
+  const len2 = dot(ab, ab);
+  const t = len2 > 0 ? Math.min(1, Math.max(0, -dot(a, ab) / len2)) : 0;
+  const p: Vec3 = [a[0] + t * ab[0], a[1] + t * ab[1], a[2] + t * ab[2]];
+  return dot(p, p);
+}
+
+function monteCarloPc(
+  input: PcInput,
+  enc: Encounter,
+  hbr: number,
+  samples: number,
+  seed: number,
+): MonteCarloResult | null {
+  const l = cholesky3(enc.combinedCovM2);
+  if (!l) return null;
+  const rand = mulberry32(seed);
+  const gauss = (): number => {
+    const u1 = Math.max(rand(), Number.MIN_VALUE);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * rand());
+  };
+
+  // Long enough for the along-track spread to pass through the hard body
+  const c = enc.combinedCovM2;
+  const sigmaM = Math.sqrt(c[0][0] + c[1][1] + c[2][2]);
+  const halfWindowS = Math.min(
+    MC_MAX_HALF_WINDOW_S,
+    (MC_WINDOW_SIGMAS * sigmaM + hbr) / Math.max(norm(enc.relVelMs), 1e-9),
+  );
+  const sv1 = input.sat1.stateVector;
+  const motion = propagateRelativeMotion(
+    scale(position(sv1), 1000),
+    scale(velocity(sv1), 1000),
+    enc,
+    halfWindowS,
+  );
+  const hbr2 = hbr * hbr;
+
+  let hits = 0;
+  for (let s = 0; s < samples; s++) {
+    const g: Vec3 = [gauss(), gauss(), gauss()];
+    const d: Vec3 = [
+      l[0][0] * g[0],
+      l[1][0] * g[0] + l[1][1] * g[1],
+      l[2][0] * g[0] + l[2][1] * g[1] + l[2][2] * g[2],
+    ];
+    let prev: Vec3 | null = null;
+    for (let k = 0; k < motion.nominal.length; k++) {
+      const offset = matVec3(motion.sensitivity[k]!, d);
+      const nominal = motion.nominal[k]!;
+      const p: Vec3 = [
+        nominal[0] + offset[0],
+        nominal[1] + offset[1],
+        nominal[2] + offset[2],
+      ];
+      // Closest approach between nodes, not just at them
+      if (prev && segmentDistanceSq(prev, p) <= hbr2) {
+        hits++;
+        break;
+      }
+      prev = p;
+    }
+  }
+  return { pc: hits / samples, samples, hits, ci95: wilson95(hits, samples) };
+}
+
+// ─── Main Entry Points ──────────────────────────────────────────────────────
+
+/**
+ * Compute Pc from two CDM object states with covariance.
+ * Foster is the primary method; Monte Carlo takes over when the relative
+ * speed is too low or the encounter-plane covariance is degenerate.
+ */
+export function computeCollisionProbability(
+  input: PcInput,
+  options: PcOptions = {},
+): PcComputation {
+  const hbr = input.hardBodyRadiusM ?? DEFAULT_HARD_BODY_RADIUS_M;
+  const enc = buildEncounter(input);
+  const warnings: string[] = [];
+
+  const relativeSpeedMs = norm(enc.relVelMs);
+  const axes = principalAxes(enc.missX, enc.missZ, enc.planeCov);
+
+  let needsMonteCarlo = options.forceMonteCarlo === true;
+  if (relativeSpeedMs < LOW_RELATIVE_SPEED_MS) {
+    warnings.push(
+      `Relative speed ${relativeSpeedMs.toFixed(1)} m/s is below ${LOW_RELATIVE_SPEED_MS} m/s — short-encounter assumption invalid`,
+    );
+    needsMonteCarlo = true;
+  }
+  if (
+    axes.sigmaMinor <= 0 ||
+    axes.sigmaMajor / axes.sigmaMinor > Math.sqrt(MAX_CONDITION_NUMBER)
+  ) {
+    warnings.push("Encounter-plane covariance is degenerate");
+    needsMonteCarlo = true;
+  }
+
+  const foster = fosterPc2D(enc.missX, enc.missZ, enc.planeCov, hbr);
+  const chan = chanPc2D(enc.missX, enc.missZ, enc.planeCov, hbr);
+
+  if (foster > 1e-10 && Math.abs(foster - chan) / foster > 0.1) {
+    warnings.push(
+      "Foster and Chan disagree by more than 10% — hard-body radius is large relative to the covariance",
+    );
+  }
+
+  const monteCarlo = needsMonteCarlo
+    ? monteCarloPc(
+        input,
+        enc,
+        hbr,
+        options.monteCarloSamples ?? DEFAULT_MC_SAMPLES,
+        options.seed ?? DEFAULT_SEED,
+      )
+    : null;
+  if (needsMonteCarlo && !monteCarlo) {
+    warnings.push("Combined covariance is not positive definite");
+  }
+
+  const method: PcMethod = monteCarlo ? "MONTE_CARLO" : "FOSTER";
+  const pc = monteCarlo ? monteCarlo.pc : foster;
+
+  const sensitivity = (
+    options.sensitivityScales ?? DEFAULT_SENSITIVITY_SCALES
+  ).map((k) => ({
+    covarianceScale: k,
+    pc: fosterPc2D(enc.missX, enc.missZ, scaleMat2(enc.planeCov, k), hbr),
+  }));
+
+  return {
+    method,
+    pc,
+    foster,
+    chan,
+    monteCarlo,
+    hardBodyRadiusM: hbr,
+    missDistanceM: norm(enc.relPosM),
+    relativeSpeedMs,
+    encounterPlane: {
+      missXM: enc.missX,
+      missZM: enc.missZ,
+      sigmaMajorM: axes.sigmaMajor,
+      sigmaMinorM: axes.sigmaMinor,
+    },
+    sensitivity,
+    maxPc: maxPcOverScaling(enc, hbr),
+    warnings,
+  };
+}
+
+/**
+ * Dilution analysis: scan covariance scale factors 10⁻³…10³ (log-spaced)
+ * using the Chan series and return the highest Pc reachable.
+ */
+function maxPcOverScaling(
+  enc: Encounter,
+  hbr: number,
+): { pc: number; covarianceScale: number } {
+  let best = { pc: 0, covarianceScale: 1 };
+  for (let i = 0; i <= 60; i++) {
+    const k = Math.pow(10, -3 + i * 0.1);
+    const pc = chanPc2D(enc.missX, enc.missZ, scaleMat2(enc.planeCov, k), hbr);
+    if (pc > best.pc) best = { pc, covarianceScale: k };
+  }
+  return best;
+}
+
+/**
+ * Compare the provider's Pc with our own. Flags the provider value as
+ * suspicious when it differs by more than an order of magnitude, or when it
+ * exceeds the maximum Pc any covariance scaling could produce (which points
+ * at a different hard-body radius or a stale state).
+ */
+export function crossCheckProviderPc(
+  providerPc: number,
+  computed: PcComputation,
+): PcCrossCheck {
+  const reasons: string[] = [];
+  const ours = computed.pc;
+
+  let log10Ratio: number | null = null;
+  if (providerPc > 0 && ours > 0) {
+    log10Ratio = Math.log10(providerPc / ours);
+  }
+
+  let verdict: PcCrossCheckVerdict = "CONSISTENT";
+  if (log10Ratio !== null) {
+    if (log10Ratio > CONSISTENCY_LOG10_TOLERANCE) verdict = "PROVIDER_HIGHER";
+    else if (log10Ratio < -CONSISTENCY_LOG10_TOLERANCE)
+      verdict = "PROVIDER_LOWER";
+  } else if (providerPc > 0 && ours === 0) {
+    verdict = "PROVIDER_HIGHER";
+  } else if (providerPc === 0 && ours > 0) {
+    verdict = "PROVIDER_LOWER";
+  }
+
+  if (verdict !== "CONSISTENT") {
+    reasons.push(
+      log10Ratio !== null
+        ? `Provider Pc differs from computed Pc by ${Math.abs(log10Ratio).toFixed(1)} orders of magnitude`
+        : "Exactly one of provider and computed Pc is zero",
+    );
+  }
+  if (providerPc > computed.maxPc.pc * 1.1 && providerPc > 0) {
+    reasons.push(
+      `Provider Pc exceeds the maximum Pc (${computed.maxPc.pc.toExponential(2)}) reachable by any covariance scaling at HBR ${computed.hardBodyRadiusM} m`,
+    );
+  }
+
+  return {
+    providerPc,
+    computedPc: ours,
+    log10Ratio,
+    verdict,
+    suspicious: reasons.length > 0,
+    reasons,
+  };
+}
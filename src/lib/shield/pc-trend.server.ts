@@ -4,13 +4,16 @@ import type { PcTrend, PcTrendDirection } from "./types";
 interface CDMInput {
   creationDate: Date;
   tca: Date;
-  collisionProbability: number;
+  collisionProbability: number | null;
   missDistance: number;
+  computedPc?: number | null;
 }
 
 /**
  * Analyze collision probability trend across sequential CDMs.
- * Uses linear regression on log10(Pc) vs time (days).
+ * Uses linear regression on log10(Pc) vs time (days). Where a CDM carried
+ * no provider Pc, Shield's computed Pc stands in; CDMs with neither are
+ * left out of the fit.
  *
  * Direction classification:
  *   |slope| < 0.5/day → STABLE
@@ -27,30 +30,36 @@ export function analyzePcTrend(cdms: CDMInput[]): PcTrend {
     timestamp: c.creationDate,
     pc: c.collisionProbability,
     missDistance: c.missDistance,
+    ...(c.computedPc !== undefined && { computedPc: c.computedPc }),
   }));
 
-  if (sorted.length < 2) {
-    const pc = sorted[0]?.collisionProbability ?? 0;
+  const points = sorted.flatMap((c) => {
+    const pc = c.collisionProbability ?? c.computedPc ?? null;
+    return pc === null ? [] : [{ creationDate: c.creationDate, pc }];
+  });
+
+  if (points.length < 2) {
+    const pc = points[0]?.pc ?? 0;
     return {
       direction: "STABLE",
       slope: 0,
       confidence: 0,
       projectedPcAtTca: pc,
-      dataPoints: sorted.length,
+      dataPoints: points.length,
       history,
     };
   }
 
-  const t0 = sorted[0]!.creationDate.getTime();
+  const t0 = points[0]!.creationDate.getTime();
   const tca = sorted[0]!.tca.getTime();
 
   const xs: number[] = [];
   const ys: number[] = [];
 
-  for (const cdm of sorted) {
+  for (const point of points) {
     const daysSinceFirst =
-      (cdm.creationDate.getTime() - t0) / (24 * 3600 * 1000);
-    const logPc = Math.log10(Math.max(cdm.collisionProbability, 1e-30));
+      (point.creationDate.getTime() - t0) / (24 * 3600 * 1000);
+    const logPc = Math.log10(Math.max(point.pc, 1e-30));
     xs.push(daysSinceFirst);
     ys.push(logPc);
   }
@@ -66,7 +75,7 @@ export function analyzePcTrend(cdms: CDMInput[]): PcTrend {
     slope,
     confidence: rSquared,
     projectedPcAtTca,
-    dataPoints: sorted.length,
+    dataPoints: points.length,
     history,
   };
 }
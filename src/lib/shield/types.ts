@@ -46,7 +46,8 @@ export interface ParsedCDM {
   creationDate: Date;
   tca: Date;
   missDistanceMeters: number;
-  collisionProbability: number;
+  /** Provider's Pc — null when the CDM carried none (optional in CCSDS) */
+  collisionProbability: number | null;
   probabilityMethod: string | null;
   relativeSpeedMs: number | null;
   sat1NoradId: string;
@@ -57,8 +58,61 @@ export interface ParsedCDM {
   sat2ObjectType: string;
   sat2Maneuverable: string | null;
   rawCdm: SpaceTrackCDM;
+  /** Only populated by sources that carry full object data (CCSDS CDMs) */
+  sat1StateVector?: CDMStateVector | null;
+  sat1Covariance?: CDMCovarianceRTN | null;
+  sat2StateVector?: CDMStateVector | null;
+  sat2Covariance?: CDMCovarianceRTN | null;
 }
 
+// ─── CCSDS CDM (508.0-B-1) ───────────────────────────────────────────────────
+
+/** Object state at TCA. Position in km, velocity in km/s. */
+export interface CDMStateVector {
+  refFrame: string;
+  x: number;
+  y: number;
+  z: number;
+  xDot: number;
+  yDot: number;
+  zDot: number;
+}
+
+/**
+ * Lower-triangular 6x6 position/velocity covariance in the RTN frame,
+ * keyed by the CCSDS keyword (CR_R, CT_R, … CNDOT_NDOT).
+ * Units: m², m²/s, m²/s² as defined by CCSDS 508.0-B-1 Table 3-5.
+ */
+export type CDMCovarianceRTN = Record<CovarianceKeyword, number>;
+
+export const COVARIANCE_KEYWORDS = [
+  "CR_R",
+  "CT_R",
+  "CT_T",
+  "CN_R",
+  "CN_T",
+  "CN_N",
+  "CRDOT_R",
+  "CRDOT_T",
+  "CRDOT_N",
+  "CRDOT_RDOT",
+  "CTDOT_R",
+  "CTDOT_T",
+  "CTDOT_N",
+  "CTDOT_RDOT",
+  "CTDOT_TDOT",
+  "CNDOT_R",
+  "CNDOT_T",
+  "CNDOT_N",
+  "CNDOT_RDOT",
+  "CNDOT_TDOT",
+  "CNDOT_NDOT",
+] as const;
+
+export type CovarianceKeyword = (typeof COVARIANCE_KEYWORDS)[number];
+
+export type CCSDSFormat = "KVN" | "XML";
+
 // ─── Pc Trend ────────────────────────────────────────────────────────────────
 
 export type PcTrendDirection =
@@ -73,7 +127,14 @@ export interface PcTrend {
   confidence: number;
   projectedPcAtTca: number;
   dataPoints: number;
-  history: Array<{ timestamp: Date; pc: number; missDistance: number }>;
+  history: Array<{
+    timestamp: Date;
+    /** Provider's Pc — null when the CDM carried none */
+    pc: number | null;
+    missDistance: number;
+    /** Shield's own Pc when the CDM carried state vectors and covariance */
+    computedPc?: number | null;
+  }>;
 }
 
 // ─── Risk Classification ─────────────────────────────────────────────────────
@@ -0,0 +1,167 @@
+/**
+ * control-list-amendment.server — item paging, proposal ownership + params,
+ * open-operation/licence collection and per-(amendment, item) idempotency.
+ * The impact engine itself runs for real.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockPrisma, mockCreateTradeProposal } = vi.hoisted(() => ({
+  mockPrisma: {
+    tradeItem: { findMany: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    astraProposal: { findFirst: vi.fn() },
+  },
+  mockCreateTradeProposal: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/prisma", () => ({ prisma: mockPrisma }));
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("./astra-proposal-service.server", () => ({
+  createTradeProposal: mockCreateTradeProposal,
+}));
+
+import { ingestControlListAmendment } from "./control-list-amendment.server";
+import type { ControlListAmendment } from "./control-list-amendment";
+
+const AMENDMENT: ControlListAmendment = {
+  id: "EU-2026-1500",
+  list: "EU_ANNEX_I",
+  citation: "Delegierte Verordnung (EU) 2026/1500",
+  effectiveFrom: "2026-11-01",
+  changes: [{ kind: "REMOVED", code: "9A004" }],
+};
+
+function row(overrides: Record<string, unknown>) {
+  return {
+    id: "item-1",
+    organizationId: "org-1",
+    name: "Bus",
+    description: "spacecraft bus",
+    status: "CLASSIFIED",
+    eccnEU: null,
+    eccnUS: null,
+    usmlCategory: null,
+    mtcrCategory: null,
+    germanAlEntry: null,
+    classifiedById: "user-classifier",
+    createdById: "user-author",
+    operationLines: [],
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.organization.findUnique.mockResolvedValue({
+    billingAddress: { country: "DE" },
+  });
+  mockPrisma.astraProposal.findFirst.mockResolvedValue(null);
+  mockCreateTradeProposal.mockResolvedValue({
+    proposalId: "prop-1",
+    expiresAt: new Date("2026-10-26"),
+  });
+});
+
+describe("ingestControlListAmendment", () => {
+  it("queues a classification proposal for each affected item only", async () => {
+    mockPrisma.tradeItem.findMany.mockResolvedValueOnce([
+      row({
+        eccnEU: "9A004",
+        operationLines: [
+          {
+            operationId: "op-1",
+            appliedLicenseId: "lic-1",
+            operation: { shipToCountry: "RU", licenses: [{ id: "lic-2" }] },
+          },
+          {
+            operationId: "op-1",
+            appliedLicenseId: null,
+            operation: { shipToCountry: "RU", licenses: [{ id: "lic-2" }] },
+          },
+        ],
+      }),
+      row({ id: "item-2", eccnEU: "5A002" }),
+    ]);
+
+    const result = await ingestControlListAmendment(AMENDMENT);
+
+    expect(result).toMatchObject({
+      amendmentId: "EU-2026-1500",
+      scannedItems: 2,
+      proposalsCreated: 1,
+      proposalsFailed: 0,
+    });
+    expect(result.affected).toHaveLength(1);
+    expect(result.affected[0]).toMatchObject({
+      itemId: "item-1",
+      operationIds: ["op-1"],
+      licenseIds: ["lic-1", "lic-2"],
+      proposalId: "prop-1",
+    });
+
+    const call = mockCreateTradeProposal.mock.calls[0][0];
+    expect(call.userId).toBe("user-classifier");
+    expect(call.toolName).toBe("apply_trade_classification");
+    expect(call.input).toMatchObject({
+      itemId: "item-1",
+      source: "CONTROL_LIST_AMENDMENT",
+      amendmentId: "EU-2026-1500",
+      before: { eccnEU: "9A004" },
+      after: { eccnEU: null },
+    });
+    expect(call.input.gates).toContainEqual({
+      destination: "RU",
+      before: "BLOCKED",
+      after: "CLEARED",
+    });
+    expect(call.reason).toContain("EU-2026-1500");
+    expect(call.reason).toContain("eccnEU: 9A004 → —");
+  });
+
+  it("only scans open operations and non-archived items, optionally per org", async () => {
+    mockPrisma.tradeItem.findMany.mockResolvedValueOnce([]);
+    await ingestControlListAmendment(AMENDMENT, { organizationId: "org-9" });
+    const args = mockPrisma.tradeItem.findMany.mock.calls[0][0];
+    expect(args.where).toEqual({
+      status: { not: "ARCHIVED" },
+      organizationId: "org-9",
+    });
+    expect(args.include.operationLines.where).toEqual({
+      operation: {
+        status: { notIn: ["EXECUTED", "VOLUNTARY_DISCLOSURE_FILED"] },
+      },
+    });
+  });
+
+  it("falls back to the item author when nobody classified it", async () => {
+    mockPrisma.tradeItem.findMany.mockResolvedValueOnce([
+      row({ eccnEU: "9A004", classifiedById: null }),
+    ]);
+    await ingestControlListAmendment(AMENDMENT);
+    expect(mockCreateTradeProposal.mock.calls[0][0].userId).toBe("user-author");
+  });
+
+  it("skips items that already carry a pending proposal for the amendment", async () => {
+    mockPrisma.tradeItem.findMany.mockResolvedValueOnce([
+      row({ eccnEU: "9A004" }),
+    ]);
+    mockPrisma.astraProposal.findFirst.mockResolvedValue({ id: "prop-old" });
+    const result = await ingestControlListAmendment(AMENDMENT);
+    expect(mockCreateTradeProposal).not.toHaveBeenCalled();
+    expect(result.affected[0].duplicate).toBe(true);
+    expect(result.proposalsCreated).toBe(0);
+  });
+
+  it("counts a failed proposal write instead of reporting it queued", async () => {
+    mockPrisma.tradeItem.findMany.mockResolvedValueOnce([
+      row({ eccnEU: "9A004" }),
+    ]);
+    mockCreateTradeProposal.mockResolvedValue(null);
+    const result = await ingestControlListAmendment(AMENDMENT);
+    expect(result.proposalsFailed).toBe(1);
+    expect(result.affected[0].proposalId).toBeNull();
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Caelex Passage (Trade) — Control-list amendment ingest.
+ *
+ * The I/O glue around `control-list-amendment.ts`. Given one structured
+ * amendment of the CCL, EU Annex I or the UK Strategic Export Control Lists,
+ * this:
+ *
+ *   1. loads every non-archived TradeItem (optionally one org only) together
+ *      with its OPEN operation lines and the licences attached to them,
+ *   2. re-runs licence determination before vs. after the amendment — at
+ *      item level and for every open-operation destination, under the org's
+ *      exporter seat exactly like `assessOperation`,
+ *   3. writes one PENDING `apply_trade_classification` proposal per affected
+ *      item into the Trade proposal queue, owned by the user who classified
+ *      the item (fallback: its author).
+ *
+ * NEVER auto-applies. The item's codes, its status and every operation stay
+ * untouched until a named human applies the proposal on the item page.
+ * Idempotent per (amendment, item): re-ingesting the same amendment skips
+ * items that already have a PENDING proposal for it.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import "server-only";
+
+import type { TradeOperationStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { resolveExporterSeat } from "@/lib/trade/exporter-seat";
+import {
+  originRegimes,
+  type OriginRegimeRouting,
+} from "@/lib/comply-v2/trade/classification/origin-regime-map";
+import { createTradeProposal } from "./astra-proposal-service.server";
+import {
+  CONTROL_LIST_AMENDMENT_SOURCE,
+  assessAmendmentImpact,
+  type AmendmentImpact,
+  type AmendmentItem,
+  type ControlListAmendment,
+} from "./control-list-amendment";
+
+/** Operations in these states are done — an amendment no longer reaches them. */
+const CLOSED_OPERATION_STATUSES: TradeOperationStatus[] = [
+  "EXECUTED",
+  "VOLUNTARY_DISCLOSURE_FILED",
+];
+
+const ITEM_PAGE_SIZE = 200;
+
+export interface AffectedItemResult {
+  itemId: string;
+  organizationId: string;
+  impact: AmendmentImpact;
+  operationIds: string[];
+  licenseIds: string[];
+  /** Null when the proposal was skipped (duplicate) or failed to persist. */
+  proposalId: string | null;
+  duplicate: boolean;
+}
+
+export interface AmendmentIngestResult {
+  amendmentId: string;
+  scannedItems: number;
+  affected: AffectedItemResult[];
+  proposalsCreated: number;
+  proposalsFailed: number;
+}
+
+interface SeatContext {
+  exporterOrigin?: OriginRegimeRouting;
+  exporterSeat?: string;
+}
+
+/**
+ * Resolve the exporter seat the same way `assessOperation` does: forward the
+ * routing only for supported seats, the seat ISO-2 for any resolved seat. A
+ * lookup failure degrades to "no seat" (legacy behaviour, never a false GO).
+ */
+async function seatContextFor(organizationId: string): Promise<SeatContext> {
+  try {
+    const org = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { billingAddress: true },
+    });
+    const seat = resolveExporterSeat(org);
+    if (seat === null) return {};
+    const regime = originRegimes(seat);
+    return {
+      exporterSeat: seat,
+      exporterOrigin: regime.supported ? regime : undefined,
+    };
+  } catch (err) {
+    logger.error(
+      "[control-list-amendment] org seat lookup failed; determining without seat",
+      err,
+      { organizationId },
+    );
+    return {};
+  }
+}
+
+const GATE_LABEL: Record<string, string> = {
+  CLEARED: "frei",
+  REVIEW_NEEDED: "Prüfung",
+  BLOCKED: "gesperrt",
+};
+
+/** German reviewer-facing rationale for one affected item. */
+function amendmentRationale(
+  amendment: ControlListAmendment,
+  impact: AmendmentImpact,
+  operationCount: number,
+): string {
+  const parts: string[] = [
+    `Kontrolllisten-Änderung ${amendment.id} (${amendment.citation}, wirksam ab ${amendment.effectiveFrom}) betrifft dieses Gut.`,
+  ];
+  for (const hit of impact.hits) {
+    const code = hit.change.renumberedTo
+      ? `${hit.change.code} → ${hit.change.renumberedTo}`
+      : hit.change.code;
+    parts.push(`${hit.change.kind} ${code}: ${hit.outcome} (${hit.route}).`);
+  }
+  if (impact.codesChanged) {
+    const moved = (
+      Object.keys(impact.before) as Array<keyof typeof impact.before>
+    )
+      .filter((cell) => impact.before[cell] !== impact.after[cell])
+      .map(
+        (cell) =>
+          `${cell}: ${impact.before[cell] ?? "—"} → ${impact.after[cell] ?? "—"}`,
+      );
+    parts.push(`Vorgeschlagene Einstufung: ${moved.join(", ")}.`);
+  } else {
+    parts.push("Die Einstufung bleibt unverändert — bitte erneut bestätigen.");
+  }
+  const changedGates = impact.gates.filter((g) => g.before !== g.after);
+  if (changedGates.length > 0) {
+    parts.push(
+      `Genehmigungslage ändert sich: ${changedGates
+        .map(
+          (g) =>
+            `${g.destination ?? "Gut"} ${GATE_LABEL[g.before]} → ${GATE_LABEL[g.after]}`,
+        )
+        .join(", ")}.`,
+    );
+  }
+  if (operationCount > 0) {
+    parts.push(`${operationCount} offene(r) Vorgang/Vorgänge betroffen.`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Ingest one amendment and queue a proposal per affected item. Org-scope
+ * authorization is the caller's responsibility (admin route / cron).
+ */
+export async function ingestControlListAmendment(
+  amendment: ControlListAmendment,
+  opts: { organizationId?: string } = {},
+): Promise<AmendmentIngestResult> {
+  const result: AmendmentIngestResult = {
+    amendmentId: amendment.id,
+    scannedItems: 0,
+    affected: [],
+    proposalsCreated: 0,
+    proposalsFailed: 0,
+  };
+  const seats = new Map<string, SeatContext>();
+  let cursor: string | undefined;
+
+  for (;;) {
+    const items = await prisma.tradeItem.findMany({
+      where: {
+        status: { not: "ARCHIVED" },
+        ...(opts.organizationId ? { organizationId: opts.organizationId } : {}),
+      },
+      include: {
+        operationLines: {
+          where: {
+            operation: { status: { notIn: CLOSED_OPERATION_STATUSES } },
+          },
+          select: {
+            operationId: true,
+            appliedLicenseId: true,
+            operation: {
+              select: {
+                shipToCountry: true,
+                licenses: { select: { id: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: ITEM_PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (items.length === 0) break;
+    cursor = items[items.length - 1].id;
+    result.scannedItems += items.length;
+
+    for (const item of items) {
+      let seat = seats.get(item.organizationId);
+      if (!seat) {
+        seat = await seatContextFor(item.organizationId);
+        seats.set(item.organizationId, seat);
+      }
+
+      const impact = assessAmendmentImpact(
+        item as unknown as AmendmentItem,
+        amendment,
+        {
+          destinations: item.operationLines
+            .map((l) => l.operation.shipToCountry)
+            .filter((c): c is string => Boolean(c)),
+          ...seat,
+        },
+      );
+      if (!impact) continue;
+
+      const operationIds = Array.from(
+        new Set(item.operationLines.map((l) => l.operationId)),
+      );
+      const licenseIds = Array.from(
+        new Set(
+          item.operationLines.flatMap((l) => [
+            ...(l.appliedLicenseId ? [l.appliedLicenseId] : []),
+            ...l.operation.licenses.map((lic) => lic.id),
+          ]),
+        ),
+      );
+      const affected: AffectedItemResult = {
+        itemId: item.id,
+        organizationId: item.organizationId,
+        impact,
+        operationIds,
+        licenseIds,
+        proposalId: null,
+        duplicate: false,
+      };
+      result.affected.push(affected);
+
+      const existing = await prisma.astraProposal.findFirst({
+        where: {
+          actionName: "apply_trade_classification",
+          status: "PENDING",
+          AND: [
+            { params: { path: ["amendmentId"], equals: amendment.id } },
+            { params: { path: ["itemId"], equals: item.id } },
+          ],
+        },
+        select: { id: true },
+      });
+      if (existing) {
+        affected.duplicate = true;
+        continue;
+      }
+
+      const created = await createTradeProposal({
+        userId: item.classifiedById ?? item.createdById,
+        toolName: "apply_trade_classification",
+        input: {
+          itemId: item.id,
+          source: CONTROL_LIST_AMENDMENT_SOURCE,
+          amendmentId: amendment.id,
+          list: amendment.list,
+          citation: amendment.citation,
+          effectiveFrom: amendment.effectiveFrom,
+          hits: impact.hits,
+          before: impact.before,
+          after: impact.after,
+          gates: impact.gates,
+          operationIds,
+          licenseIds,
+        },
+        reason: amendmentRationale(amendment, impact, operationIds.length),
+      });
+      if (created) {
+        affected.proposalId = created.proposalId;
+        result.proposalsCreated += 1;
+      } else {
+        result.proposalsFailed += 1;
+      }
+    }
+
+    if (items.length < ITEM_PAGE_SIZE) break;
+  }
+
+  logger.info("[control-list-amendment] ingest complete", {
+    amendmentId: amendment.id,
+    list: amendment.list,
+    scannedItems: result.scannedItems,
+    affected: result.affected.length,
+    proposalsCreated: result.proposalsCreated,
+    proposalsFailed: result.proposalsFailed,
+  });
+  return result;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tests for control-list-amendment.ts — hit routes, the conservative
+ * after-code fold and the before/after licence gates.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  assessAmendmentImpact,
+  codesOverlap,
+  findAmendmentHits,
+  type AmendmentItem,
+  type ControlListAmendment,
+  type ControlListEntryChange,
+} from "./control-list-amendment";
+
+const WHEEL: AmendmentItem = {
+  id: "item-wheel",
+  name: "Reaction wheel",
+  description: "reaction wheel assembly",
+};
+
+const EO_SAT: AmendmentItem = {
+  id: "item-eo",
+  name: "EO smallsat",
+  description: "earth observation satellite",
+  apertureMeters: 0.4,
+  itemClass: "spacecraft.remote_sensing.eo",
+};
+
+function amendment(
+  list: ControlListAmendment["list"],
+  ...changes: ControlListEntryChange[]
+): ControlListAmendment {
+  return {
+    id: "AMD-2026-01",
+    list,
+    citation: "Test amendment",
+    effectiveFrom: "2026-11-01",
+    changes,
+  };
+}
+
+describe("codesOverlap", () => {
+  it("matches the entry, its sub-paragraphs and its parent", () => {
+    expect(codesOverlap("9A515.a.1", "9A515.a.1")).toBe(true);
+    expect(codesOverlap("9A515.a.1", "9a515.a")).toBe(true);
+    expect(codesOverlap("9A515", "9A515.a.1")).toBe(true);
+    expect(codesOverlap("9A515.a.1", "9A515.a.10")).toBe(false);
+    expect(codesOverlap("9A5150", "9A515")).toBe(false);
+    expect(codesOverlap("", "9A515")).toBe(false);
+  });
+});
+
+describe("findAmendmentHits", () => {
+  it("decontrols a declared code whose entry is removed", () => {
+    const impact = assessAmendmentImpact(
+      { ...WHEEL, eccnUS: "9A515.x", usmlCategory: "XV(e)(2)" },
+      amendment("EAR_CCL", { kind: "REMOVED", code: "9A515.x" }),
+    );
+    expect(impact?.hits).toMatchObject([
+      { route: "DECLARED_CODE", outcome: "DECONTROLLED", cell: "eccnUS" },
+    ]);
+    expect(impact?.after.eccnUS).toBeNull();
+    expect(impact?.after.usmlCategory).toBe("XV(e)(2)");
+    expect(impact?.codesChanged).toBe(true);
+  });
+
+  it("carries a renumbered entry instead of clearing it", () => {
+    const impact = assessAmendmentImpact(
+      { ...WHEEL, eccnEU: "9A004.u" },
+      amendment("EU_ANNEX_I", {
+        kind: "REMOVED",
+        code: "9A004.u",
+        renumberedTo: "9A004.w",
+      }),
+    );
+    expect(impact?.hits[0].outcome).toBe("RENUMBERED");
+    expect(impact?.after.eccnEU).toBe("9A004.w");
+  });
+
+  it("decontrols a changed entry only on a definite refutation", () => {
+    const narrowed = amendment("EAR_CCL", {
+      kind: "CHANGED",
+      code: "9A515.a.1",
+      predicates: [{ attribute: "apertureMeters", op: "gte", value: 0.45 }],
+    });
+    const refuted = findAmendmentHits(
+      { ...EO_SAT, eccnUS: "9A515.a.1" },
+      narrowed,
+    );
+    expect(refuted[0].outcome).toBe("DECONTROLLED");
+
+    const unknown = findAmendmentHits(
+      { ...EO_SAT, apertureMeters: null, eccnUS: "9A515.a.1" },
+      narrowed,
+    );
+    expect(unknown[0].outcome).toBe("RETAINED");
+  });
+
+  it("proposes a new parametric entry for an empty cell only", () => {
+    const widened = amendment("EAR_CCL", {
+      kind: "ADDED",
+      code: "9A515.a.5",
+      predicates: [{ attribute: "apertureMeters", op: "gte", value: 0.3 }],
+    });
+    const empty = assessAmendmentImpact(EO_SAT, widened);
+    expect(empty?.hits[0]).toMatchObject({
+      route: "PARAMETRIC",
+      outcome: "NEWLY_CONTROLLED",
+    });
+    expect(empty?.after.eccnUS).toBe("9A515.a.5");
+
+    const occupied = assessAmendmentImpact(
+      { ...EO_SAT, eccnUS: "9A004.x" },
+      widened,
+    );
+    expect(occupied?.hits[0].outcome).toBe("CANDIDATE");
+    expect(occupied?.after.eccnUS).toBe("9A004.x");
+    expect(occupied?.codesChanged).toBe(false);
+  });
+
+  it("flags an item linked only through the cross-walk for review", () => {
+    const hits = findAmendmentHits(
+      { ...WHEEL, eccnUS: "9A004" },
+      amendment("EU_ANNEX_I", { kind: "CHANGED", code: "9A004" }),
+    );
+    expect(hits).toMatchObject([
+      { route: "CROSS_WALK", outcome: "REVIEW", cell: "eccnUS" },
+    ]);
+  });
+
+  it("matches UK Strategic List amendments against the Annex I cell", () => {
+    const hits = findAmendmentHits(
+      { ...WHEEL, eccnEU: "3A001.a.1" },
+      amendment("UK_STRATEGIC", { kind: "CHANGED", code: "3A001.a" }),
+    );
+    expect(hits[0]).toMatchObject({ route: "DECLARED_CODE", cell: "eccnEU" });
+  });
+
+  it("leaves unrelated items alone", () => {
+    expect(
+      assessAmendmentImpact(
+        { ...WHEEL, eccnEU: "5A002" },
+        amendment("EU_ANNEX_I", { kind: "REMOVED", code: "9A004" }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("assessAmendmentImpact — gates", () => {
+  it("re-runs determination per open-operation destination", () => {
+    const impact = assessAmendmentImpact(
+      { ...WHEEL, eccnEU: "9A004" },
+      amendment("EU_ANNEX_I", { kind: "REMOVED", code: "9A004" }),
+      { destinations: ["RU", "FR", "RU"] },
+    );
+    expect(impact?.gates).toEqual([
+      { destination: null, before: "CLEARED", after: "CLEARED" },
+      { destination: "FR", before: "CLEARED", after: "CLEARED" },
+      { destination: "RU", before: "BLOCKED", after: "CLEARED" },
+    ]);
+    expect(impact?.gateChanged).toBe(true);
+  });
+});
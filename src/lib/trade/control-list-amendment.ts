@@ -0,0 +1,469 @@
+/**
+ * Caelex Passage (Trade) — Control-list amendment impact.
+ *
+ * When the Commerce Control List, EU Annex I or the UK Strategic Export
+ * Control Lists are amended, every item classified against the amended
+ * entries has to be re-evaluated — the licence determination that ran when
+ * the operation was created was computed against the OLD list. This module
+ * takes a structured amendment (a diff of list entries) and answers, per
+ * item: is it affected, how, and what do the licence gates look like before
+ * vs. after the amendment?
+ *
+ * An item is affected through one of three routes:
+ *   - DECLARED_CODE — its code cell for the amended list holds the amended
+ *     entry, a sub-paragraph of it, or its parent entry.
+ *   - CROSS_WALK    — one of its OTHER cells holds a code the cross-walk
+ *     links to the amended entry (e.g. the EU entry changed and the item
+ *     only carries the analogous ECCN). Flagged for review, codes untouched.
+ *   - PARAMETRIC    — an added/changed entry carries predicates the item's
+ *     attributes now satisfy, although its cell does not hold that code.
+ *
+ * The proposed "after" codes are conservative: a removed entry clears the
+ * cell only when the amendment does not renumber it, and a new control is
+ * written into an EMPTY cell only — an occupied cell is never overwritten,
+ * the hit is surfaced as a candidate instead. Nothing here is applied: the
+ * server ingest (`control-list-amendment.server.ts`) turns each impact into
+ * a PENDING classification proposal a named human reviews.
+ *
+ * PURE — no I/O, no DB, no `import "server-only"`.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import {
+  CONTROL_LIST_CROSS_WALK,
+  type ControlListEntry,
+  type ParametricPredicate,
+  type RegimeName,
+} from "@/lib/comply-v2/trade/classification/control-list-cross-walk";
+import { matchAgainstCrossWalk } from "@/lib/comply-v2/trade/classification/parametric-matcher";
+import type { OriginRegimeRouting } from "@/lib/comply-v2/trade/classification/origin-regime-map";
+import type { OverallGate } from "@/lib/comply-v2/trade/license-determination";
+import {
+  classifyItemForOperation,
+  type ClassifiableItem,
+} from "@/lib/trade/classification/classify-item";
+import {
+  itemToAttributeBag,
+  type TradeItemParametricSnapshot,
+} from "@/lib/trade/item-parametric-classification";
+
+// ─── Amendment shape ──────────────────────────────────────────────────
+
+/** `AstraProposal.params.source` of proposals raised by an amendment ingest. */
+export const CONTROL_LIST_AMENDMENT_SOURCE = "CONTROL_LIST_AMENDMENT";
+
+/** Control lists whose amendments this pipeline ingests. */
+export const AMENDABLE_LISTS = [
+  "EAR_CCL",
+  "EU_ANNEX_I",
+  "UK_STRATEGIC",
+] as const;
+export type AmendableList = (typeof AMENDABLE_LISTS)[number];
+
+export type AmendmentChangeKind = "ADDED" | "CHANGED" | "REMOVED";
+
+/** One entry-level change within an amendment. */
+export interface ControlListEntryChange {
+  kind: AmendmentChangeKind;
+  /** The entry as numbered BEFORE the amendment (e.g. "9A515.a.1"). */
+  code: string;
+  /** New number when the amendment moves the entry (e.g. 9A515.x → 9A515.y). */
+  renumberedTo?: string | null;
+  title?: string;
+  /**
+   * The entry's parametric scope AFTER the amendment. Omitted for REMOVED
+   * entries and for textual changes that do not move a threshold.
+   */
+  predicates?: ParametricPredicate[];
+}
+
+export interface ControlListAmendment {
+  /** Stable id of the amendment (e.g. "BIS-2026-0412" or the OJ reference). */
+  id: string;
+  list: AmendableList;
+  /** Citation of the amending act. */
+  citation: string;
+  /** ISO date the amendment takes effect. */
+  effectiveFrom: string;
+  changes: ControlListEntryChange[];
+}
+
+// ─── Item shape ───────────────────────────────────────────────────────
+
+/** The TradeItem code cells an amendment can touch. */
+export type ItemCodeCell =
+  | "eccnEU"
+  | "eccnUS"
+  | "usmlCategory"
+  | "mtcrCategory"
+  | "germanAlEntry";
+
+export type ItemCodes = Record<ItemCodeCell, string | null>;
+
+/** Classifiable + parametric snapshot of one TradeItem. */
+export type AmendmentItem = ClassifiableItem &
+  TradeItemParametricSnapshot & { id: string };
+
+/**
+ * The TradeItem cell that carries a code of each amendable list. The UK
+ * Strategic Export Control Lists adopt the Annex I numbering for their
+ * dual-use part and TradeItem has no UK cell, so UK amendments are matched
+ * against `eccnEU`.
+ */
+export const AMENDED_CELL: Record<AmendableList, ItemCodeCell> = {
+  EAR_CCL: "eccnUS",
+  EU_ANNEX_I: "eccnEU",
+  UK_STRATEGIC: "eccnEU",
+};
+
+/** The cross-walk regime an amendable list's entries live under. */
+const AMENDED_REGIME: Record<AmendableList, RegimeName> = {
+  EAR_CCL: "EAR-CCL",
+  EU_ANNEX_I: "EU-ANNEX-I",
+  UK_STRATEGIC: "EU-ANNEX-I",
+};
+
+/** Cross-walk regime → the TradeItem cell holding that regime's code. */
+const REGIME_CELL: Partial<Record<RegimeName, ItemCodeCell>> = {
+  "EAR-CCL": "eccnUS",
+  "EU-ANNEX-I": "eccnEU",
+  "ITAR-USML": "usmlCategory",
+  "MTCR-ANNEX": "mtcrCategory",
+  "DE-AL-TEIL-IB": "germanAlEntry",
+};
+
+const CODE_CELLS: readonly ItemCodeCell[] = [
+  "eccnEU",
+  "eccnUS",
+  "usmlCategory",
+  "mtcrCategory",
+  "germanAlEntry",
+];
+
+// ─── Impact shape ─────────────────────────────────────────────────────
+
+export type AmendmentRoute = "DECLARED_CODE" | "CROSS_WALK" | "PARAMETRIC";
+
+/**
+ * What the amendment means for the item's cell:
+ *   DECONTROLLED     — entry removed (or no longer covers the item) → clear.
+ *   RENUMBERED       — entry moved → carry the new number.
+ *   RETAINED         — entry changed, the item is still inside it.
+ *   NEWLY_CONTROLLED — new/widened entry captures the item, cell was empty.
+ *   CANDIDATE        — entry may capture the item; cell occupied or an
+ *                      attribute is missing → human decides.
+ *   REVIEW           — linked through the cross-walk only.
+ */
+export type AmendmentOutcome =
+  | "DECONTROLLED"
+  | "RENUMBERED"
+  | "RETAINED"
+  | "NEWLY_CONTROLLED"
+  | "CANDIDATE"
+  | "REVIEW";
+
+export interface AmendmentHit {
+  route: AmendmentRoute;
+  outcome: AmendmentOutcome;
+  change: ControlListEntryChange;
+  /** The item cell the hit was found on. */
+  cell: ItemCodeCell;
+  /** The code the cell held when the hit was found (null when empty). */
+  itemCode: string | null;
+}
+
+export interface GateComparison {
+  /** Destination ISO-2, or null for the item-level (no destination) gate. */
+  destination: string | null;
+  before: OverallGate;
+  after: OverallGate;
+}
+
+export interface AmendmentImpact {
+  itemId: string;
+  amendmentId: string;
+  list: AmendableList;
+  hits: AmendmentHit[];
+  before: ItemCodes;
+  after: ItemCodes;
+  codesChanged: boolean;
+  gates: GateComparison[];
+  gateChanged: boolean;
+}
+
+export interface AmendmentImpactOptions {
+  /** Destinations of the item's open operations. */
+  destinations?: readonly string[];
+  exporterOrigin?: OriginRegimeRouting;
+  exporterSeat?: string;
+  crossWalk?: readonly ControlListEntry[];
+}
+
+// ─── Code matching ────────────────────────────────────────────────────
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+/**
+ * True when `a` and `b` name the same entry or one is a sub-paragraph of
+ * the other ("9A515.A" ⊂ "9A515" — an amendment to either reaches both).
+ */
+export function codesOverlap(a: string, b: string): boolean {
+  const x = normalizeCode(a);
+  const y = normalizeCode(b);
+  if (x.length === 0 || y.length === 0) return false;
+  return x === y || x.startsWith(`${y}.`) || y.startsWith(`${x}.`);
+}
+
+function bareCode(canonicalId: string): string {
+  const idx = canonicalId.indexOf(":");
+  return idx === -1 ? canonicalId : canonicalId.slice(idx + 1);
+}
+
+/**
+ * Codes on OTHER lists the cross-walk links to an amended entry, keyed by
+ * the item cell they would sit in. Follows `seeAlso` in both directions:
+ * edges out of the amended entry, and edges from other entries into it.
+ */
+function linkedCodes(
+  list: AmendableList,
+  code: string,
+  crossWalk: readonly ControlListEntry[],
+): Array<{ cell: ItemCodeCell; code: string }> {
+  const regime = AMENDED_REGIME[list];
+  const out: Array<{ cell: ItemCodeCell; code: string }> = [];
+  const push = (r: RegimeName, c: string) => {
+    const cell = REGIME_CELL[r];
+    if (!cell || cell === AMENDED_CELL[list]) return;
+    if (!out.some((o) => o.cell === cell && codesOverlap(o.code, c))) {
+      out.push({ cell, code: c });
+    }
+  };
+  for (const entry of crossWalk) {
+    if (
+      entry.regime === regime &&
+      codesOverlap(bareCode(entry.canonicalId), code)
+    ) {
+      for (const link of entry.seeAlso) push(link.regime, link.id);
+    } else if (
+      entry.seeAlso.some((l) => l.regime === regime && codesOverlap(l.id, code))
+    ) {
+      push(entry.regime, bareCode(entry.canonicalId));
+    }
+  }
+  return out;
+}
+
+/**
+ * Run the matcher against the AMENDED entry alone. "match" = every predicate
+ * satisfied; "possible" = none refuted but an attribute is missing.
+ */
+function evaluateAgainstChange(
+  item: AmendmentItem,
+  list: AmendableList,
+  change: ControlListEntryChange,
+): "match" | "possible" | "refuted" {
+  const code = change.renumberedTo ?? change.code;
+  const probe: ControlListEntry = {
+    canonicalId: `AMENDMENT:${code}`,
+    regime: AMENDED_REGIME[list],
+    category: code.charAt(0),
+    productGroup: code.charAt(1),
+    entryNumber: code.slice(2).split(".")[0] ?? "",
+    title: change.title ?? code,
+    predicates: change.predicates ?? [],
+    reasonsForControl: [],
+    seeAlso: [],
+    citation: "",
+    validFrom: "",
+  };
+  const result = matchAgainstCrossWalk(itemToAttributeBag(item), [probe]);
+  if (result.candidates.length > 0) return "match";
+  if (result.possibleMatches.length > 0) return "possible";
+  return "refuted";
+}
+
+// ─── Hit detection ────────────────────────────────────────────────────
+
+function codesOf(item: AmendmentItem): ItemCodes {
+  return {
+    eccnEU: item.eccnEU ?? null,
+    eccnUS: item.eccnUS ?? null,
+    usmlCategory: item.usmlCategory ?? null,
+    mtcrCategory: item.mtcrCategory ?? null,
+    germanAlEntry: item.germanAlEntry ?? null,
+  };
+}
+
+function declaredOutcome(
+  item: AmendmentItem,
+  list: AmendableList,
+  change: ControlListEntryChange,
+): AmendmentOutcome {
+  if (change.renumberedTo) return "RENUMBERED";
+  if (change.kind === "REMOVED") return "DECONTROLLED";
+  if (change.kind === "CHANGED" && change.predicates?.length) {
+    // Only a definite refutation decontrols — a missing attribute keeps the
+    // code (fail-closed: unknown is never read as "outside the entry").
+    return evaluateAgainstChange(item, list, change) === "refuted"
+      ? "DECONTROLLED"
+      : "RETAINED";
+  }
+  return "RETAINED";
+}
+
+/**
+ * Every way the amendment reaches the item. Empty when the item is not
+ * affected.
+ */
+export function findAmendmentHits(
+  item: AmendmentItem,
+  amendment: ControlListAmendment,
+  crossWalk: readonly ControlListEntry[] = CONTROL_LIST_CROSS_WALK,
+): AmendmentHit[] {
+  const codes = codesOf(item);
+  const cell = AMENDED_CELL[amendment.list];
+  const own = codes[cell];
+  const hits: AmendmentHit[] = [];
+
+  for (const change of amendment.changes) {
+    if (own && codesOverlap(own, change.code)) {
+      hits.push({
+        route: "DECLARED_CODE",
+        outcome: declaredOutcome(item, amendment.list, change),
+        change,
+        cell,
+        itemCode: own,
+      });
+      continue;
+    }
+
+    if (change.kind !== "REMOVED" && change.predicates?.length) {
+      const verdict = evaluateAgainstChange(item, amendment.list, change);
+      if (verdict !== "refuted") {
+        hits.push({
+          route: "PARAMETRIC",
+          outcome:
+            verdict === "match" && own === null
+              ? "NEWLY_CONTROLLED"
+              : "CANDIDATE",
+          change,
+          cell,
+          itemCode: own,
+        });
+        continue;
+      }
+    }
+
+    const linked = linkedCodes(amendment.list, change.code, crossWalk).find(
+      (l) => {
+        const held = codes[l.cell];
+        return held !== null && codesOverlap(held, l.code);
+      },
+    );
+    if (linked) {
+      hits.push({
+        route: "CROSS_WALK",
+        outcome: "REVIEW",
+        change,
+        cell: linked.cell,
+        itemCode: codes[linked.cell],
+      });
+    }
+  }
+  return hits;
+}
+
+/**
+ * Fold the hits onto the item's codes. Only the amended list's cell moves;
+ * CROSS_WALK, CANDIDATE and RETAINED hits leave every cell as it is.
+ */
+export function proposeAmendedCodes(
+  before: ItemCodes,
+  hits: readonly AmendmentHit[],
+): ItemCodes {
+  const after = { ...before };
+  for (const hit of hits) {
+    switch (hit.outcome) {
+      case "DECONTROLLED":
+        if (hit.itemCode && after[hit.cell] === hit.itemCode) {
+          after[hit.cell] = null;
+        }
+        break;
+      case "RENUMBERED":
+        after[hit.cell] = hit.change.renumberedTo ?? after[hit.cell];
+        break;
+      case "NEWLY_CONTROLLED":
+        if (after[hit.cell] === null) {
+          after[hit.cell] = hit.change.renumberedTo ?? hit.change.code;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  return after;
+}
+
+// ─── Impact ───────────────────────────────────────────────────────────
+
+function gateFor(
+  item: AmendmentItem,
+  codes: ItemCodes,
+  destination: string | null,
+  opts: AmendmentImpactOptions,
+): OverallGate {
+  return classifyItemForOperation(
+    { ...item, ...codes },
+    {
+      destinationCountry: destination,
+      exporterOrigin: opts.exporterOrigin,
+      exporterSeat: opts.exporterSeat,
+    },
+  ).licenseDetermination.gate;
+}
+
+/**
+ * Re-run licence determination for one item under the amendment. Returns
+ * null when the amendment does not reach the item. Gates are compared at
+ * item level (no destination) and once per distinct open-operation
+ * destination.
+ */
+export function assessAmendmentImpact(
+  item: AmendmentItem,
+  amendment: ControlListAmendment,
+  opts: AmendmentImpactOptions = {},
+): AmendmentImpact | null {
+  const hits = findAmendmentHits(
+    item,
+    amendment,
+    opts.crossWalk ?? CONTROL_LIST_CROSS_WALK,
+  );
+  if (hits.length === 0) return null;
+
+  const before = codesOf(item);
+  const after = proposeAmendedCodes(before, hits);
+  const destinations: Array<string | null> = [
+    null,
+    ...Array.from(new Set(opts.destinations ?? [])).sort(),
+  ];
+  const gates = destinations.map((destination) => ({
+    destination,
+    before: gateFor(item, before, destination, opts),
+    after: gateFor(item, after, destination, opts),
+  }));
+
+  return {
+    itemId: item.id,
+    amendmentId: amendment.id,
+    list: amendment.list,
+    hits,
+    before,
+    after,
+    codesChanged: CODE_CELLS.some((c) => before[c] !== after[c]),
+    gates,
+    gateChanged: gates.some((g) => g.before !== g.after),
+  };
+}
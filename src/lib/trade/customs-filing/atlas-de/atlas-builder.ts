@@ -32,7 +32,10 @@ import type {
   AtlasPayload,
   AtlasPreviousDocument,
 } from "./atlas-payload";
-import { resolveIdentifierOrPlaceholder } from "../export-identifier";
+import {
+  PENDING_LICENSE_REFERENCE,
+  resolveIdentifierOrPlaceholder,
+} from "../export-identifier";
 
 // ─── Input shape ──────────────────────────────────────────────────
 
@@ -265,7 +268,7 @@ export function buildAtlasPayload(input: AtlasBuilderInput): AtlasPayload {
   const allLicenses: AtlasLicenseReference[] = operation.licenses.map(
     (lic) => ({
       TypeCode: mapLicenseTypeCode(lic.licenseType),
-      Reference: lic.licenseNumber ?? "(pending issuance)",
+      Reference: lic.licenseNumber ?? PENDING_LICENSE_REFERENCE,
       IssuingAuthority: issuingAuthorityFromLicenseType(lic.licenseType),
       ValidUntil: toIsoDate(lic.validUntil),
     }),
@@ -280,7 +283,7 @@ export function buildAtlasPayload(input: AtlasBuilderInput): AtlasPayload {
           {
             TypeCode: mapLicenseTypeCode(line.appliedLicense.licenseType),
             Reference:
-              line.appliedLicense.licenseNumber ?? "(pending issuance)",
+              line.appliedLicense.licenseNumber ?? PENDING_LICENSE_REFERENCE,
             IssuingAuthority: issuingAuthorityFromLicenseType(
               line.appliedLicense.licenseType,
             ),
@@ -0,0 +1,256 @@
+/**
+ * UK CDS builder tests.
+ *
+ * Coverage:
+ *   1. mapProcedureCode: EXPORT / unknown → 1040
+ *   2. mapProcedureCode: REEXPORT / TRANSIT → 3151
+ *   3. mapProcedureCode: TEMP_EXPORT → 2300
+ *   4. isUkDeclarableLicense: BAFA / BIS / DDTC excluded, OTHER declared
+ *   5. buildCdsPayload: pins SchemaVersion + Emitter + category/type
+ *   6. buildCdsPayload: Exporter + DeclarantEORI share the GB EORI
+ *   7. buildCdsPayload: missing EORI / office / HS code → placeholder
+ *   8. buildCdsPayload: splits UK-style and numeric postcodes
+ *   9. buildCdsPayload: UK licence → X002 document, pending number honest
+ *  10. buildCdsPayload: foreign appliedLicense → no document on the line
+ *  11. buildCdsPayload: falls back to operation licences when no appliedLicense
+ *  12. buildCdsPayload: net mass and item price scale with quantity
+ *  13. buildCdsPayload: deterministic for the same input
+ *  14. snapshot: full XML of the fixture declaration
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CDS_DUAL_USE_LICENCE_CODE,
+  buildCdsPayload,
+  isUkDeclarableLicense,
+  mapProcedureCode,
+  type CdsBuilderInput,
+} from "./cds-builder";
+import { buildCdsXml } from "./index";
+import { CDS_SCHEMA_VERSION } from "./cds-payload";
+import {
+  MISSING_IDENTIFIER_PLACEHOLDER,
+  PENDING_LICENSE_REFERENCE,
+} from "../export-identifier";
+
+// ─── Fixture ──────────────────────────────────────────────────────
+
+function fixtureInput(): CdsBuilderInput {
+  return {
+    generatedAt: "2026-05-22T10:00:00.000Z",
+    exporter: {
+      legalName: "Caelex Space UK Ltd",
+      addressStreet: "1 Harwell Campus",
+      addressZip: "OX11 0QX",
+      addressCity: "Didcot",
+      addressCountry: "GB",
+      eoriNumber: "GB123456789000",
+      vatNumber: "GB123456789",
+    },
+    operation: {
+      id: "op_uk",
+      reference: "CDS-HARWELL-2026-001",
+      description: "Star tracker export",
+      operationType: "EXPORT",
+      shipFromCountry: "GB",
+      shipToCountry: "US",
+      endUseCountry: null,
+      scheduledShipDate: "2026-06-15T00:00:00.000Z",
+      createdAt: "2026-05-01T00:00:00.000Z",
+      officeOfExitCode: "GB000060",
+      officeOfExitName: "Heathrow",
+      goodsLocationCode: "GBAULHRLHRLHR",
+      transportDocType: "740",
+      transportDocReference: "AWB-125-87654321",
+      transportModeBorder: "4",
+      previousDocuments: [],
+      counterparty: {
+        legalName: "AeroJet Corp",
+        countryCode: "US",
+        addressLines: ["1 Rocket Way", "90210 Los Angeles"],
+      },
+      lines: [
+        {
+          id: "line_1",
+          quantity: 2,
+          unitValue: 120000,
+          unitCurrency: "GBP",
+          item: {
+            name: "Star tracker ST-400",
+            description: "Autonomous star tracker, 2 arcsec",
+            countryOfOrigin: "GB",
+            eccnEU: "9A515.a",
+            hsCode: "90142080",
+            netMassKg: 1.25,
+          },
+          appliedLicense: null,
+        },
+      ],
+      licenses: [
+        {
+          licenseType: "OTHER",
+          licenseNumber: "GBSIEL/2026/0001234",
+          validUntil: "2027-06-30T00:00:00.000Z",
+        },
+      ],
+    },
+  };
+}
+
+// ─── mapProcedureCode ─────────────────────────────────────────────
+
+describe("UK CDS — mapProcedureCode", () => {
+  it("maps EXPORT and unknown types to 1040 (permanent export)", () => {
+    expect(mapProcedureCode("EXPORT")).toBe("1040");
+    expect(mapProcedureCode("TECH_TRANSFER")).toBe("1040");
+    expect(mapProcedureCode("MYSTERY_VALUE")).toBe("1040");
+  });
+
+  it("maps REEXPORT and TRANSIT to 3151", () => {
+    expect(mapProcedureCode("REEXPORT")).toBe("3151");
+    expect(mapProcedureCode("TRANSIT")).toBe("3151");
+  });
+
+  it("maps TEMP_EXPORT to 2300", () => {
+    expect(mapProcedureCode("TEMP_EXPORT")).toBe("2300");
+  });
+});
+
+// ─── isUkDeclarableLicense ────────────────────────────────────────
+
+describe("UK CDS — isUkDeclarableLicense", () => {
+  it("excludes German and US authorisations", () => {
+    expect(isUkDeclarableLicense("BAFA_EINZEL")).toBe(false);
+    expect(isUkDeclarableLicense("BIS_EAR")).toBe(false);
+    expect(isUkDeclarableLicense("DDTC_DSP5")).toBe(false);
+  });
+
+  it("declares OTHER (where ECJU licences are recorded)", () => {
+    expect(isUkDeclarableLicense("OTHER")).toBe(true);
+  });
+});
+
+// ─── buildCdsPayload ──────────────────────────────────────────────
+
+describe("UK CDS — buildCdsPayload", () => {
+  it("pins SchemaVersion, Emitter and the export declaration category", () => {
+    const p = buildCdsPayload(fixtureInput());
+    expect(p.SchemaVersion).toBe(CDS_SCHEMA_VERSION);
+    expect(p.Emitter).toBe("Caelex Comply Trade");
+    expect(p.GeneratedAt).toBe("2026-05-22T10:00:00.000Z");
+    expect(p.Declaration.DeclarationCategory).toBe("EX");
+    expect(p.Declaration.AdditionalDeclarationType).toBe("D");
+    expect(p.Declaration.DeclarationDate).toBe("2026-06-15");
+  });
+
+  it("uses the GB EORI for both exporter and declarant", () => {
+    const d = buildCdsPayload(fixtureInput()).Declaration;
+    expect(d.Exporter.EORI).toBe("GB123456789000");
+    expect(d.DeclarantEORI).toBe("GB123456789000");
+    expect(d.Exporter.VATNumber).toBe("GB123456789");
+  });
+
+  it("emits the honest placeholder for missing identifiers", () => {
+    const input = fixtureInput();
+    input.exporter.eoriNumber = null;
+    input.operation.officeOfExitCode = null;
+    input.operation.lines[0]!.item.hsCode = null;
+    const d = buildCdsPayload(input).Declaration;
+    expect(d.Exporter.EORI).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+    expect(d.DeclarantEORI).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+    expect(d.CustomsOfficeOfExit.ReferenceNumber).toBe(
+      MISSING_IDENTIFIER_PLACEHOLDER,
+    );
+    expect(d.GoodsItems[0]!.CommodityCode).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+  });
+
+  it("splits a UK-style trailing postcode out of the address lines", () => {
+    const input = fixtureInput();
+    input.operation.counterparty.countryCode = "GB";
+    input.operation.counterparty.addressLines = [
+      "10 Downing Street",
+      "London SW1A 2AA",
+    ];
+    const a = buildCdsPayload(input).Declaration.Consignee.Address;
+    expect(a.Street).toBe("10 Downing Street");
+    expect(a.PostalCode).toBe("SW1A 2AA");
+    expect(a.City).toBe("London");
+  });
+
+  it("splits a leading numeric postcode out of the address lines", () => {
+    const input = fixtureInput();
+    input.operation.counterparty.countryCode = "DE";
+    input.operation.counterparty.addressLines = [
+      "Beispielstraße 1",
+      "80331 München",
+    ];
+    const a = buildCdsPayload(input).Declaration.Consignee.Address;
+    expect(a.Street).toBe("Beispielstraße 1");
+    expect(a.PostalCode).toBe("80331");
+    expect(a.City).toBe("München");
+    expect(a.CountryCode).toBe("DE");
+  });
+
+  it("declares a UK licence as an X002 document", () => {
+    const docs =
+      buildCdsPayload(fixtureInput()).Declaration.GoodsItems[0]!
+        .AdditionalDocuments;
+    expect(docs).toHaveLength(1);
+    expect(docs[0]).toEqual({
+      DocumentCode: CDS_DUAL_USE_LICENCE_CODE,
+      Identifier: "GBSIEL/2026/0001234",
+      StatusCode: "EE",
+      ValidUntil: "2027-06-30",
+    });
+  });
+
+  it("keeps an unissued licence honest as pending", () => {
+    const input = fixtureInput();
+    input.operation.licenses[0]!.licenseNumber = null;
+    const doc =
+      buildCdsPayload(input).Declaration.GoodsItems[0]!.AdditionalDocuments[0]!;
+    expect(doc.Identifier).toBe(PENDING_LICENSE_REFERENCE);
+  });
+
+  it("drops a foreign applied licence rather than declaring it", () => {
+    const input = fixtureInput();
+    input.operation.lines[0]!.appliedLicense = {
+      licenseType: "BAFA_EINZEL",
+      licenseNumber: "EZG-2026-1",
+    };
+    const item = buildCdsPayload(input).Declaration.GoodsItems[0]!;
+    expect(item.AdditionalDocuments).toEqual([]);
+  });
+
+  it("falls back to the operation licences when no appliedLicense", () => {
+    const input = fixtureInput();
+    input.operation.licenses.push({
+      licenseType: "BIS_EAR",
+      licenseNumber: "D1234567",
+      validUntil: null,
+    });
+    const docs =
+      buildCdsPayload(input).Declaration.GoodsItems[0]!.AdditionalDocuments;
+    expect(docs.map((d) => d.Identifier)).toEqual(["GBSIEL/2026/0001234"]);
+  });
+
+  it("scales net mass and item price with quantity", () => {
+    const d = buildCdsPayload(fixtureInput()).Declaration;
+    expect(d.GoodsItems[0]!.NetMassKg).toBe(2.5);
+    expect(d.GoodsItems[0]!.ItemPrice).toBe(240000);
+    expect(d.TotalInvoiceAmount).toBe(240000);
+    expect(d.TotalInvoiceCurrency).toBe("GBP");
+  });
+
+  it("is deterministic for the same input", () => {
+    expect(buildCdsXml(fixtureInput())).toBe(buildCdsXml(fixtureInput()));
+  });
+});
+
+// ─── Snapshot ─────────────────────────────────────────────────────
+
+describe("UK CDS — XML snapshot", () => {
+  it("matches the snapshot for the fixture declaration", () => {
+    expect(buildCdsXml(fixtureInput())).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * UK CDS payload builder.
+ *
+ * Pure function that turns a Caelex TradeOperation (with counterparty,
+ * lines, items, and licenses) into a CdsPayload ready for the
+ * serializer. Same contract as the ATLAS-DE builder:
+ *
+ *   - No `prisma` access, no `fetch`, no `Date.now()`-driven side
+ *     effects. Caller supplies `generatedAt` so snapshot tests can fix
+ *     the timestamp.
+ *   - Deterministic output for identical input.
+ *   - Missing identifiers become the honest "⚠ FEHLT" placeholder from
+ *     export-identifier.ts — never a fabricated GB000… EORI.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { CDS_SCHEMA_VERSION } from "./cds-payload";
+import type {
+  CdsAdditionalDocument,
+  CdsAddress,
+  CdsDeclaration,
+  CdsGoodsItem,
+  CdsPayload,
+  CdsProcedureCode,
+} from "./cds-payload";
+import {
+  PENDING_LICENSE_REFERENCE,
+  resolveIdentifierOrPlaceholder,
+} from "../export-identifier";
+
+// ─── Input shape ──────────────────────────────────────────────────
+
+/**
+ * CdsBuilderInput — operation + UK exporter context. Same Caelex slice
+ * the ATLAS builder consumes; only the exporter identifiers and the
+ * office fields differ.
+ */
+export interface CdsBuilderInput {
+  /** Stable timestamp for the document header. */
+  generatedAt: string | Date;
+  /** The UK exporter entity. */
+  exporter: {
+    legalName: string;
+    addressStreet?: string | null;
+    addressZip?: string | null;
+    addressCity?: string | null;
+    addressCountry?: string | null;
+    /**
+     * GB EORI — required by CDS. When absent the builder emits the
+     * honest placeholder and the pre-submission validator flags it.
+     */
+    eoriNumber?: string | null;
+    vatNumber?: string | null;
+  };
+  /** The operation under export-clearance. */
+  operation: {
+    id: string;
+    reference: string;
+    description: string;
+    operationType: string;
+    shipFromCountry: string;
+    shipToCountry: string;
+    endUseCountry: string | null;
+    scheduledShipDate: string | Date | null;
+    createdAt: string | Date;
+    /** Customs office of exit (DE 5/12), e.g. "GB000060". */
+    officeOfExitCode?: string | null;
+    officeOfExitName?: string | null;
+    /** Goods location code (DE 5/23). */
+    goodsLocationCode?: string | null;
+    transportDocType?: string | null;
+    transportDocReference?: string | null;
+    /** Transport mode at border. Default "4" (Air). */
+    transportModeBorder?: string | null;
+    /** Previous documents — only relevant for re-exports. */
+    previousDocuments?: Array<{
+      typeCode: string;
+      reference: string;
+    }>;
+    counterparty: {
+      legalName: string;
+      tradeName?: string | null;
+      countryCode: string;
+      addressLines?: string[];
+      vatNumber?: string | null;
+    };
+    lines: Array<{
+      id: string;
+      quantity: number;
+      unitValue: number;
+      unitCurrency: string;
+      item: {
+        name: string;
+        description?: string;
+        countryOfOrigin?: string | null;
+        eccnEU?: string | null;
+        hsCode?: string | null;
+        netMassKg?: number | null;
+      };
+      appliedLicense?: {
+        licenseType: string;
+        licenseNumber: string | null;
+        validUntil?: string | Date | null;
+      } | null;
+    }>;
+    /** All licenses on the operation; UK-declarable ones become DE 2/3 documents. */
+    licenses: Array<{
+      licenseType: string;
+      licenseNumber: string | null;
+      validUntil: string | Date | null;
+    }>;
+  };
+}
+
+// ─── Mappers (Caelex → CDS) ───────────────────────────────────────
+
+/** Appendix 5A document code for an ECJU dual-use export licence. */
+export const CDS_DUAL_USE_LICENCE_CODE = "X002";
+
+/**
+ * Map a Caelex TradeOperationType to a DE 1/10 procedure code.
+ *   EXPORT / TECH_TRANSFER / …  → 1040 (permanent export)
+ *   REEXPORT / TRANSIT          → 3151 (re-export after inward processing)
+ *   TEMP_EXPORT                 → 2300 (temporary export for return)
+ */
+export function mapProcedureCode(operationType: string): CdsProcedureCode {
+  switch (operationType) {
+    case "REEXPORT":
+    case "TRANSIT":
+      return "3151";
+    case "TEMP_EXPORT":
+      return "2300";
+    default:
+      return "1040";
+  }
+}
+
+/**
+ * Whether a Caelex licence is declared on a UK export. BAFA, BIS and
+ * DDTC authorisations do not cover a shipment leaving the UK and are
+ * not CDS documents, so they are left off. The licence-type enum has
+ * no ECJU values yet — UK licences (SIEL / OIEL / OGEL) are recorded
+ * as OTHER and pass through here.
+ */
+export function isUkDeclarableLicense(licenseType: string): boolean {
+  return !(
+    licenseType.startsWith("BAFA") ||
+    licenseType.startsWith("BIS_") ||
+    licenseType.startsWith("DDTC_")
+  );
+}
+
+function toIsoDate(d: string | Date | null | undefined): string | undefined {
+  if (d == null) return undefined;
+  const iso = d instanceof Date ? d.toISOString() : d;
+  return iso.length >= 10 && iso[4] === "-" ? iso.slice(0, 10) : iso;
+}
+
+function toIso(d: string | Date | null | undefined): string | undefined {
+  if (d == null) return undefined;
+  return d instanceof Date ? d.toISOString() : d;
+}
+
+function toDocument(lic: {
+  licenseNumber: string | null;
+  validUntil?: string | Date | null;
+}): CdsAdditionalDocument {
+  return {
+    DocumentCode: CDS_DUAL_USE_LICENCE_CODE,
+    Identifier: lic.licenseNumber ?? PENDING_LICENSE_REFERENCE,
+    StatusCode: "EE",
+    ValidUntil: toIsoDate(lic.validUntil),
+  };
+}
+
+/**
+ * Best-effort split of a flat addressLines[] into Street + PostalCode +
+ * City. Accepts numeric postcodes ("90210 Los Angeles") and UK-style
+ * trailing postcodes ("London SW1A 1AA").
+ */
+function splitAddressLines(lines: string[], countryCode: string): CdsAddress {
+  if (lines.length === 0) {
+    return { City: "", CountryCode: countryCode };
+  }
+
+  const lastIdx = lines.length - 1;
+  const last = lines[lastIdx] ?? "";
+  const streetJoined = lines.slice(0, lastIdx).join(", ");
+  const street = streetJoined.length > 0 ? streetJoined : undefined;
+
+  const numeric = last.match(/^(\d{4,6})\s+(.+)$/);
+  if (numeric) {
+    return {
+      Street: street,
+      PostalCode: numeric[1],
+      City: numeric[2] ?? "",
+      CountryCode: countryCode,
+    };
+  }
+  const uk = last.match(/^(.+?)\s+([A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2})$/i);
+  if (uk) {
+    return {
+      Street: street,
+      PostalCode: uk[2]?.toUpperCase(),
+      City: uk[1] ?? "",
+      CountryCode: countryCode,
+    };
+  }
+
+  return {
+    Street: lines.join(", "),
+    City: "",
+    CountryCode: countryCode,
+  };
+}
+
+// ─── Builder ──────────────────────────────────────────────────────
+
+/**
+ * buildCdsPayload — top-level entry-point.
+ *
+ * Pure function: same input → same output.
+ */
+export function buildCdsPayload(input: CdsBuilderInput): CdsPayload {
+  const { exporter, operation, generatedAt } = input;
+
+  const operationDocuments = operation.licenses
+    .filter((lic) => isUkDeclarableLicense(lic.licenseType))
+    .map(toDocument);
+
+  const goodsItems: CdsGoodsItem[] = operation.lines.map((line, idx) => {
+    // Prefer the line's applied licence; a foreign applied licence
+    // means no UK licence covers the line.
+    const documents = line.appliedLicense
+      ? isUkDeclarableLicense(line.appliedLicense.licenseType)
+        ? [toDocument(line.appliedLicense)]
+        : []
+      : operationDocuments;
+
+    return {
+      SequenceNumber: idx + 1,
+      Description: line.item.name,
+      CommodityCode: resolveIdentifierOrPlaceholder(line.item.hsCode),
+      CountryOfOrigin:
+        line.item.countryOfOrigin ?? exporter.addressCountry ?? "GB",
+      NetMassKg: (line.item.netMassKg ?? 0) * line.quantity,
+      SupplementaryUnits: line.quantity,
+      ItemPrice: line.quantity * line.unitValue,
+      Currency: line.unitCurrency,
+      UKControlEntry: line.item.eccnEU ?? undefined,
+      AdditionalDocuments: documents,
+      AdditionalInformation:
+        line.item.description && line.item.description.length > 0
+          ? line.item.description
+          : undefined,
+    };
+  });
+
+  const totalAmount = goodsItems.reduce((sum, it) => sum + it.ItemPrice, 0);
+  const totalCurrency = operation.lines[0]?.unitCurrency ?? "GBP";
+
+  // Fail-closed: the declarant and exporter EORI come from the same
+  // real identifier or the same loud placeholder — never a zero-fill.
+  const eori = resolveIdentifierOrPlaceholder(exporter.eoriNumber);
+
+  const declaration: CdsDeclaration = {
+    LocalReferenceNumber: operation.reference,
+    DeclarationCategory: "EX",
+    AdditionalDeclarationType: "D",
+    ProcedureCode: mapProcedureCode(operation.operationType),
+    AdditionalProcedureCode: "000",
+    DeclarationDate:
+      toIsoDate(operation.scheduledShipDate) ??
+      toIsoDate(operation.createdAt) ??
+      toIsoDate(generatedAt) ??
+      "",
+    DeclarantEORI: eori,
+    Exporter: {
+      Name: exporter.legalName,
+      Address: {
+        Street: exporter.addressStreet ?? undefined,
+        PostalCode: exporter.addressZip ?? undefined,
+        City: exporter.addressCity ?? "",
+        CountryCode: exporter.addressCountry ?? "GB",
+      },
+      EORI: eori,
+      VATNumber: exporter.vatNumber ?? undefined,
+    },
+    Consignee: {
+      Name: operation.counterparty.legalName,
+      Address: splitAddressLines(
+        operation.counterparty.addressLines ?? [],
+        operation.counterparty.countryCode,
+      ),
+    },
+    CustomsOfficeOfExit: {
+      ReferenceNumber: resolveIdentifierOrPlaceholder(
+        operation.officeOfExitCode,
+      ),
+      Name: operation.officeOfExitName ?? undefined,
+    },
+    GoodsLocationCode: operation.goodsLocationCode ?? undefined,
+    DestinationCountry: operation.endUseCountry ?? operation.shipToCountry,
+    DispatchCountry: operation.shipFromCountry,
+    TransportModeBorder: operation.transportModeBorder ?? "4",
+    TransportDocument:
+      operation.transportDocType && operation.transportDocReference
+        ? {
+            TypeCode: operation.transportDocType,
+            Reference: operation.transportDocReference,
+          }
+        : undefined,
+    PreviousDocuments: (operation.previousDocuments ?? []).map((pd) => ({
+      TypeCode: pd.typeCode,
+      Reference: pd.reference,
+    })),
+    GoodsItems: goodsItems,
+    TotalInvoiceAmount: totalAmount,
+    TotalInvoiceCurrency: totalCurrency,
+  };
+
+  return {
+    SchemaVersion: CDS_SCHEMA_VERSION,
+    Emitter: "Caelex Comply Trade",
+    GeneratedAt: toIso(generatedAt) ?? new Date().toISOString(),
+    Declaration: declaration,
+  };
+}
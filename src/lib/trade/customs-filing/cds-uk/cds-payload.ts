@@ -0,0 +1,277 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * UK CDS export declaration (HMRC Customs Declaration Service).
+ *
+ * Since the CHIEF shutdown every UK export declaration goes through
+ * CDS. CDS is built on the WCO Data Model (DMS 3.6); each field below
+ * carries its UK Tariff Volume 3 data-element number (DE x/y) so ops
+ * can cross-check against the CDS completion guide.
+ *
+ * Like ATLAS-DE and AES-US this module is **type + builder +
+ * serializer**, NOT a live submitter. The CDS Declaration API bridge
+ * (HMRC Developer Hub, OAuth + WCO XML) is a separate future sprint;
+ * until then the XML is uploaded via a CDS-capable software provider
+ * or keyed in manually from the download.
+ *
+ * ── Source documents ───────────────────────────────────────────────
+ *   - UK Trade Tariff, Volume 3 — CDS Declaration Completion
+ *     Instructions for Exports
+ *     https://www.gov.uk/government/collections/uk-trade-tariff-volume-3-for-cds
+ *   - CDS Appendix 5A — DE 2/3 Documents and Other Reference Codes
+ *     (X002 = dual-use export licence issued by the Export Control
+ *     Joint Unit).
+ *   - CDS Appendix 1 — DE 1/10 Procedure Codes (1040, 3151 …).
+ *
+ * ── Scope ──────────────────────────────────────────────────────────
+ * Caelex emits the data subset that maps cleanly from a TradeOperation:
+ *
+ *   - <Exporter>             — DE 3/1-3/2 (GB EORI)
+ *   - <Consignee>            — DE 3/9-3/10
+ *   - <CustomsOfficeOfExit>  — DE 5/12
+ *   - <GoodsItem>            — DE 6/8, 6/14, 5/15, 6/1, 4/14
+ *   - <AdditionalDocument>   — DE 2/3 (ECJU licence references)
+ *   - <PreviousDocument>     — DE 2/1 (re-exports only)
+ *
+ * Valuation method, Incoterms, deferment / guarantee and AEO
+ * authorisations stay manual — operators add them in their CDS
+ * software after import.
+ *
+ * ── Naming convention ─────────────────────────────────────────────
+ * PascalCase element names, mirroring the ATLAS-DE payload so the two
+ * European declarations read the same in code review.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+// ─── Schema version ───────────────────────────────────────────────
+// Pinned to the UK Tariff Volume 3 export completion guide this
+// payload was mapped against. Bump when HMRC publishes a breaking
+// data-element change.
+export const CDS_SCHEMA_VERSION = "2026-03-01";
+
+// ─── Declaration kind ─────────────────────────────────────────────
+
+/**
+ * DE 1/2 Additional declaration type. Caelex drafts are prepared
+ * before the goods arrive at the frontier, so the builder emits "D"
+ * (standard, pre-lodged). "A" (standard, arrived) is kept for
+ * operators who file at the frontier.
+ */
+export type CdsAdditionalDeclarationType = "A" | "D";
+
+/**
+ * DE 1/10 Procedure code — requested procedure (first two digits) +
+ * previous procedure (last two). Maps from Caelex's TradeOperationType.
+ *
+ *   "1040" — permanent export of goods in free circulation
+ *   "3151" — re-export after inward processing
+ *   "2300" — temporary export for return in unaltered state
+ */
+export type CdsProcedureCode = "1040" | "3151" | "2300";
+
+// ─── Postal address ───────────────────────────────────────────────
+
+/** Address block (DE 3/1, 3/9). City + country are always required. */
+export interface CdsAddress {
+  /** Street + number. Required when no EORI identifies the party. */
+  Street?: string | undefined;
+  /** Postcode. Required for UK parties. */
+  PostalCode?: string | undefined;
+  /** City / town. Required. */
+  City: string;
+  /** ISO 3166-1 alpha-2. Required. */
+  CountryCode: string;
+}
+
+// ─── Parties ──────────────────────────────────────────────────────
+
+/**
+ * Exporter (DE 3/2) — the UK entity. CDS identifies the exporter by
+ * GB EORI ("GB" + 12 digits); the name/address block is only required
+ * when no EORI is given, but Caelex always emits both so the draft is
+ * readable.
+ */
+export interface CdsExporter {
+  /** Legal name. Required. */
+  Name: string;
+  /** Address block. Required. */
+  Address: CdsAddress;
+  /** GB EORI, e.g. "GB123456789000". Required. */
+  EORI: string;
+  /** UK VAT registration number. Optional. */
+  VATNumber?: string | undefined;
+}
+
+/**
+ * Consignee (DE 3/9) — party the goods are sent to. Third-country
+ * consignees rarely hold an EORI; the address block is required.
+ */
+export interface CdsConsignee {
+  /** Legal name. Required. */
+  Name: string;
+  /** Address block. Required. */
+  Address: CdsAddress;
+  /** Consignee EORI if held (EU consignees). Optional. */
+  EORI?: string | undefined;
+}
+
+// ─── Office of exit ───────────────────────────────────────────────
+
+/**
+ * Customs office of exit (DE 5/12) — 8-character code, "GB" + 6
+ * digits, e.g. "GB000060" (London Heathrow).
+ */
+export interface CdsOffice {
+  /** Office code. Required. */
+  ReferenceNumber: string;
+  /** Human-readable name. Optional, for operator clarity. */
+  Name?: string | undefined;
+}
+
+// ─── Documents ────────────────────────────────────────────────────
+
+/**
+ * Additional document (DE 2/3) — licence and certificate references.
+ * Caelex emits one per UK export licence covering the goods item.
+ */
+export interface CdsAdditionalDocument {
+  /** Appendix 5A code, e.g. "X002" (ECJU dual-use licence). Required. */
+  DocumentCode: string;
+  /** Licence number, e.g. "GBSIEL/2026/0001234". Required. */
+  Identifier: string;
+  /**
+   * Document status code. "EE" = electronic licence held by ECJU
+   * (SIEL / OIEL / OGEL registrations on LITE). Required.
+   */
+  StatusCode: string;
+  /** Validity end-date, yyyy-mm-dd. Optional. */
+  ValidUntil?: string | undefined;
+}
+
+/**
+ * Previous document (DE 2/1) — links a re-export to the inward
+ * processing entry or earlier declaration (e.g. "Z355" + MRN).
+ */
+export interface CdsPreviousDocument {
+  /** Document class, e.g. "Z355" (entry summary declaration). Required. */
+  TypeCode: string;
+  /** MRN / reference. Required. */
+  Reference: string;
+}
+
+/** Transport document (DE 2/1 with class "Z740" AWB, "Z705" B/L …). */
+export interface CdsTransportDocument {
+  /** Document class. Required. */
+  TypeCode: string;
+  /** Waybill / B/L number. Required. */
+  Reference: string;
+}
+
+// ─── Goods item ───────────────────────────────────────────────────
+
+/**
+ * Goods item — one line of the goods schedule (DE 1/6 sequence).
+ */
+export interface CdsGoodsItem {
+  /** 1-indexed sequence number (DE 1/6). Required. */
+  SequenceNumber: number;
+  /** Description of goods (DE 6/8). Required. */
+  Description: string;
+  /**
+   * Commodity code (DE 6/14) — 8-digit UK tariff code
+   * (HS6 + UK CN2). Required.
+   */
+  CommodityCode: string;
+  /** Country of origin (DE 5/15, ISO alpha-2). Required. */
+  CountryOfOrigin: string;
+  /** Net mass in kg (DE 6/1). Required. */
+  NetMassKg: number;
+  /** Supplementary units (DE 6/2) — when the commodity code demands. */
+  SupplementaryUnits?: number | undefined;
+  /** Item price (DE 4/14) in the invoice currency. Required. */
+  ItemPrice: number;
+  /** ISO 4217 currency for ItemPrice (DE 4/10). Required. */
+  Currency: string;
+  /**
+   * UK Strategic Export Control List entry. The UK dual-use list keeps
+   * the EU Annex I numbering (e.g. "9A515.a"). Optional.
+   */
+  UKControlEntry?: string | undefined;
+  /** Licence references covering this item. Empty = no licence declared. */
+  AdditionalDocuments: CdsAdditionalDocument[];
+  /** Free-text remark. Optional. */
+  AdditionalInformation?: string | undefined;
+}
+
+// ─── Declaration (root) ───────────────────────────────────────────
+
+/**
+ * Declaration — one CDS export declaration. After acceptance CDS
+ * returns an MRN; the goods are departed when the office of exit
+ * confirms exit (EXS arrival + departure messages).
+ */
+export interface CdsDeclaration {
+  /** Declarant's own reference (DE 2/5 LRN). Required. */
+  LocalReferenceNumber: string;
+  /** DE 1/1 declaration category — always "EX" for exports. */
+  DeclarationCategory: "EX";
+  /** DE 1/2 additional declaration type. */
+  AdditionalDeclarationType: CdsAdditionalDeclarationType;
+  /** DE 1/10 procedure code. */
+  ProcedureCode: CdsProcedureCode;
+  /** DE 1/11 additional procedure code — "000" when none applies. */
+  AdditionalProcedureCode: string;
+  /** Declaration date (yyyy-mm-dd). Required. */
+  DeclarationDate: string;
+  /**
+   * Declarant EORI (DE 3/18). Caelex drafts are self-filed by the
+   * exporter, so this equals Exporter.EORI.
+   */
+  DeclarantEORI: string;
+  /** Exporter block. */
+  Exporter: CdsExporter;
+  /** Consignee block. */
+  Consignee: CdsConsignee;
+  /** Customs office of exit. */
+  CustomsOfficeOfExit: CdsOffice;
+  /**
+   * Location of goods (DE 5/23) — CDS goods-location code, e.g.
+   * "GBAULHRLHRLHR". Optional here: many exporters add it at
+   * arrival-at-exit time.
+   */
+  GoodsLocationCode?: string | undefined;
+  /** Country of destination (DE 5/8). Required. */
+  DestinationCountry: string;
+  /** Country of dispatch / export (DE 5/14). Required — "GB". */
+  DispatchCountry: string;
+  /** Mode of transport at the border (DE 7/4; 1 sea … 4 air). */
+  TransportModeBorder: string;
+  /** Transport document reference. */
+  TransportDocument?: CdsTransportDocument | undefined;
+  /** Previous documents. Required for re-exports, empty otherwise. */
+  PreviousDocuments: CdsPreviousDocument[];
+  /** Goods schedule. At least one item. */
+  GoodsItems: CdsGoodsItem[];
+  /** Total amount invoiced (DE 4/11). */
+  TotalInvoiceAmount: number;
+  /** ISO 4217 currency for TotalInvoiceAmount (DE 4/10). */
+  TotalInvoiceCurrency: string;
+}
+
+// ─── Root payload ─────────────────────────────────────────────────
+
+/**
+ * CdsPayload — root container. Wire-format root tag is
+ * <CDS_ExportDeclaration>.
+ */
+export interface CdsPayload {
+  /** Schema version this payload was built against. */
+  SchemaVersion: string;
+  /** Caelex emitter id. Not validated by CDS. */
+  Emitter: string;
+  /** Generation timestamp (ISO 8601). */
+  GeneratedAt: string;
+  /** Exactly one declaration per payload. */
+  Declaration: CdsDeclaration;
+}
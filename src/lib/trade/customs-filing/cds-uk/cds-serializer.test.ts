@@ -0,0 +1,187 @@
+/**
+ * UK CDS XML serializer tests.
+ *
+ * Coverage:
+ *   1. escapeText: escapes ampersand, lt/gt; nullish returns ""
+ *   2. escapeAttr: encodes all five XML entities
+ *   3. Output begins with XML 1.0 declaration
+ *   4. Root tag is CDS_ExportDeclaration with SchemaVersion attribute
+ *   5. Declaration carries category + additional-type attributes
+ *   6. Optional leaves skipped when undefined (no empty tags)
+ *   7. Decimal NetMassKg / ItemPrice preserved locale-independent
+ *   8. <script> injection in Description is fully escaped
+ *   9. PreviousDocuments / AdditionalDocuments wrappers only when non-empty
+ *  10. GoodsItem SequenceNumber attribute round-trips
+ *  11. Sanity check — balanced open/close tags
+ */
+
+import { describe, it, expect } from "vitest";
+import { escapeText, escapeAttr, serializeCdsXml } from "./cds-serializer";
+import { CDS_SCHEMA_VERSION, type CdsPayload } from "./cds-payload";
+
+// ─── Fixture ──────────────────────────────────────────────────────
+
+function minimalPayload(): CdsPayload {
+  return {
+    SchemaVersion: CDS_SCHEMA_VERSION,
+    Emitter: "Caelex Comply Trade",
+    GeneratedAt: "2026-05-22T10:00:00.000Z",
+    Declaration: {
+      LocalReferenceNumber: "CDS-TEST-001",
+      DeclarationCategory: "EX",
+      AdditionalDeclarationType: "D",
+      ProcedureCode: "1040",
+      AdditionalProcedureCode: "000",
+      DeclarationDate: "2026-06-15",
+      DeclarantEORI: "GB123456789000",
+      Exporter: {
+        Name: "Caelex Space UK Ltd",
+        Address: {
+          Street: "1 Harwell Campus",
+          PostalCode: "OX11 0QX",
+          City: "Didcot",
+          CountryCode: "GB",
+        },
+        EORI: "GB123456789000",
+      },
+      Consignee: {
+        Name: "AeroJet Corp",
+        Address: { City: "Los Angeles", CountryCode: "US" },
+      },
+      CustomsOfficeOfExit: { ReferenceNumber: "GB000060" },
+      DestinationCountry: "US",
+      DispatchCountry: "GB",
+      TransportModeBorder: "4",
+      PreviousDocuments: [],
+      GoodsItems: [
+        {
+          SequenceNumber: 1,
+          Description: "Star tracker ST-400",
+          CommodityCode: "90142080",
+          CountryOfOrigin: "GB",
+          NetMassKg: 2.5,
+          ItemPrice: 240000.5,
+          Currency: "GBP",
+          AdditionalDocuments: [],
+        },
+      ],
+      TotalInvoiceAmount: 240000.5,
+      TotalInvoiceCurrency: "GBP",
+    },
+  };
+}
+
+// ─── Escape helpers ───────────────────────────────────────────────
+
+describe("UK CDS — escapeText / escapeAttr", () => {
+  it("escapes ampersand, less-than, greater-than", () => {
+    expect(escapeText("a & b < c > d")).toBe("a &amp; b &lt; c &gt; d");
+  });
+
+  it("returns empty string for null/undefined", () => {
+    expect(escapeText(null)).toBe("");
+    expect(escapeText(undefined)).toBe("");
+  });
+
+  it("escapes all five XML 1.0 entities in attributes", () => {
+    expect(escapeAttr(`a & b < c > d " e ' f`)).toBe(
+      "a &amp; b &lt; c &gt; d &quot; e &apos; f",
+    );
+  });
+});
+
+// ─── Full document serialization ──────────────────────────────────
+
+describe("UK CDS — serializeCdsXml output", () => {
+  it("begins with the XML 1.0 declaration", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    expect(xml.startsWith(`<?xml version="1.0" encoding="UTF-8"?>`)).toBe(true);
+  });
+
+  it("wraps in CDS_ExportDeclaration with SchemaVersion attribute", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    expect(xml).toContain(
+      `<CDS_ExportDeclaration SchemaVersion="${CDS_SCHEMA_VERSION}"`,
+    );
+    expect(xml.trimEnd().endsWith("</CDS_ExportDeclaration>")).toBe(true);
+  });
+
+  it("emits Declaration with category and additional-type attributes", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    expect(xml).toContain(
+      `<Declaration DeclarationCategory="EX" AdditionalDeclarationType="D">`,
+    );
+    expect(xml).toContain("<ProcedureCode>1040</ProcedureCode>");
+    expect(xml).toContain("<DeclarantEORI>GB123456789000</DeclarantEORI>");
+  });
+
+  it("skips optional leaves when undefined (no empty tags)", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    expect(xml).not.toContain("<VATNumber>");
+    expect(xml).not.toContain("<GoodsLocationCode>");
+    expect(xml).not.toContain("<TransportDocument>");
+    expect(xml).not.toContain("<UKControlEntry>");
+    expect(xml).not.toContain("<Street></Street>");
+  });
+
+  it("preserves decimals without locale-comma", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    expect(xml).toContain("<NetMassKg>2.5</NetMassKg>");
+    expect(xml).toContain("<ItemPrice>240000.5</ItemPrice>");
+  });
+
+  it("escapes a <script> injection attempt in item Description", () => {
+    const payload = minimalPayload();
+    payload.Declaration.GoodsItems[0]!.Description = `<script>alert("xss")</script>`;
+    const xml = serializeCdsXml(payload);
+    expect(xml).not.toContain(`<script>alert`);
+    expect(xml).toContain(
+      `<Description>&lt;script&gt;alert("xss")&lt;/script&gt;</Description>`,
+    );
+  });
+
+  it("renders document wrappers only when non-empty", () => {
+    expect(serializeCdsXml(minimalPayload())).not.toContain(
+      "<PreviousDocuments>",
+    );
+    expect(serializeCdsXml(minimalPayload())).not.toContain(
+      "<AdditionalDocuments>",
+    );
+
+    const payload = minimalPayload();
+    payload.Declaration.ProcedureCode = "3151";
+    payload.Declaration.PreviousDocuments = [
+      { TypeCode: "MRN", Reference: "26GB12345678901234" },
+    ];
+    payload.Declaration.GoodsItems[0]!.AdditionalDocuments = [
+      {
+        DocumentCode: "X002",
+        Identifier: "GBSIEL/2026/0001234",
+        StatusCode: "EE",
+      },
+    ];
+    const xml = serializeCdsXml(payload);
+    expect(xml).toContain("<PreviousDocuments>");
+    expect(xml).toContain("<Reference>26GB12345678901234</Reference>");
+    expect(xml).toContain("<AdditionalDocuments>");
+    expect(xml).toContain("<Identifier>GBSIEL/2026/0001234</Identifier>");
+  });
+
+  it("round-trips the GoodsItem SequenceNumber attribute", () => {
+    const payload = minimalPayload();
+    payload.Declaration.GoodsItems.push({
+      ...payload.Declaration.GoodsItems[0]!,
+      SequenceNumber: 2,
+    });
+    const xml = serializeCdsXml(payload);
+    expect(xml).toContain(`<GoodsItem SequenceNumber="1">`);
+    expect(xml).toContain(`<GoodsItem SequenceNumber="2">`);
+  });
+
+  it("produces balanced open/close tags", () => {
+    const xml = serializeCdsXml(minimalPayload());
+    const opens = xml.match(/<[A-Za-z_][\w]*(\s[^>]*)?>/g) ?? [];
+    const closes = xml.match(/<\/[A-Za-z_][\w]*>/g) ?? [];
+    expect(opens.length).toBe(closes.length);
+  });
+});
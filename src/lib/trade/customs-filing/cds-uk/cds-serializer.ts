@@ -0,0 +1,252 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * UK CDS XML serializer.
+ *
+ * Hand-rolled, same pattern as the ATLAS-DE and AES-US serializers:
+ * tiny element vocabulary, byte-for-byte deterministic output for
+ * snapshot tests, auditable XML 1.0 escaping, no dependency.
+ *
+ *   - All five mandatory XML 1.0 entity escapes.
+ *   - Numbers stringify via Number.toString() — locale-independent.
+ *   - Empty / null / undefined values skipped at the element boundary.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import type {
+  CdsAdditionalDocument,
+  CdsAddress,
+  CdsConsignee,
+  CdsDeclaration,
+  CdsExporter,
+  CdsGoodsItem,
+  CdsOffice,
+  CdsPayload,
+  CdsPreviousDocument,
+  CdsTransportDocument,
+} from "./cds-payload";
+
+// ─── Escape helpers ───────────────────────────────────────────────
+
+/**
+ * Escape text for an XML element's text-content position. Returns ""
+ * for nullish input rather than the string "null" / "undefined".
+ */
+export function escapeText(input: string | null | undefined): string {
+  if (input == null) return "";
+  return String(input)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Escape for a double-quoted XML attribute value. */
+export function escapeAttr(input: string | null | undefined): string {
+  if (input == null) return "";
+  return String(input)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ─── Element builders ─────────────────────────────────────────────
+
+function leafEl(
+  tag: string,
+  value: string | number | null | undefined,
+  indent: string,
+): string {
+  if (value == null) return "";
+  if (typeof value === "string" && value.length === 0) return "";
+  if (typeof value === "number" && Number.isNaN(value)) return "";
+  const text = typeof value === "number" ? value.toString() : value;
+  return `${indent}<${tag}>${escapeText(text)}</${tag}>\n`;
+}
+
+function openEl(
+  tag: string,
+  attrs: Record<string, string | undefined> | null,
+  indent: string,
+): string {
+  let attrStr = "";
+  if (attrs) {
+    for (const [k, v] of Object.entries(attrs)) {
+      if (v != null && v.length > 0) {
+        attrStr += ` ${k}="${escapeAttr(v)}"`;
+      }
+    }
+  }
+  return `${indent}<${tag}${attrStr}>\n`;
+}
+
+function closeEl(tag: string, indent: string): string {
+  return `${indent}</${tag}>\n`;
+}
+
+// ─── Block serializers ────────────────────────────────────────────
+
+function addressXml(a: CdsAddress, indent: string): string {
+  let out = openEl("Address", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("Street", a.Street, inner);
+  out += leafEl("PostalCode", a.PostalCode, inner);
+  out += leafEl("City", a.City, inner);
+  out += leafEl("CountryCode", a.CountryCode, inner);
+  out += closeEl("Address", indent);
+  return out;
+}
+
+function exporterXml(e: CdsExporter, indent: string): string {
+  let out = openEl("Exporter", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("Name", e.Name, inner);
+  out += addressXml(e.Address, inner);
+  out += leafEl("EORI", e.EORI, inner);
+  out += leafEl("VATNumber", e.VATNumber, inner);
+  out += closeEl("Exporter", indent);
+  return out;
+}
+
+function consigneeXml(c: CdsConsignee, indent: string): string {
+  let out = openEl("Consignee", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("Name", c.Name, inner);
+  out += addressXml(c.Address, inner);
+  out += leafEl("EORI", c.EORI, inner);
+  out += closeEl("Consignee", indent);
+  return out;
+}
+
+function officeXml(o: CdsOffice, tag: string, indent: string): string {
+  let out = openEl(tag, null, indent);
+  const inner = indent + "  ";
+  out += leafEl("ReferenceNumber", o.ReferenceNumber, inner);
+  out += leafEl("Name", o.Name, inner);
+  out += closeEl(tag, indent);
+  return out;
+}
+
+function referenceXml(
+  d: CdsTransportDocument | CdsPreviousDocument,
+  tag: string,
+  indent: string,
+): string {
+  let out = openEl(tag, null, indent);
+  const inner = indent + "  ";
+  out += leafEl("TypeCode", d.TypeCode, inner);
+  out += leafEl("Reference", d.Reference, inner);
+  out += closeEl(tag, indent);
+  return out;
+}
+
+function additionalDocumentXml(
+  d: CdsAdditionalDocument,
+  indent: string,
+): string {
+  let out = openEl("AdditionalDocument", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("DocumentCode", d.DocumentCode, inner);
+  out += leafEl("Identifier", d.Identifier, inner);
+  out += leafEl("StatusCode", d.StatusCode, inner);
+  out += leafEl("ValidUntil", d.ValidUntil, inner);
+  out += closeEl("AdditionalDocument", indent);
+  return out;
+}
+
+function goodsItemXml(it: CdsGoodsItem, indent: string): string {
+  let out = openEl(
+    "GoodsItem",
+    { SequenceNumber: String(it.SequenceNumber) },
+    indent,
+  );
+  const inner = indent + "  ";
+  out += leafEl("Description", it.Description, inner);
+  out += leafEl("CommodityCode", it.CommodityCode, inner);
+  out += leafEl("CountryOfOrigin", it.CountryOfOrigin, inner);
+  out += leafEl("NetMassKg", it.NetMassKg, inner);
+  out += leafEl("SupplementaryUnits", it.SupplementaryUnits, inner);
+  out += leafEl("ItemPrice", it.ItemPrice, inner);
+  out += leafEl("Currency", it.Currency, inner);
+  out += leafEl("UKControlEntry", it.UKControlEntry, inner);
+  if (it.AdditionalDocuments.length > 0) {
+    out += openEl("AdditionalDocuments", null, inner);
+    for (const doc of it.AdditionalDocuments) {
+      out += additionalDocumentXml(doc, inner + "  ");
+    }
+    out += closeEl("AdditionalDocuments", inner);
+  }
+  out += leafEl("AdditionalInformation", it.AdditionalInformation, inner);
+  out += closeEl("GoodsItem", indent);
+  return out;
+}
+
+function declarationXml(d: CdsDeclaration, indent: string): string {
+  let out = openEl(
+    "Declaration",
+    {
+      DeclarationCategory: d.DeclarationCategory,
+      AdditionalDeclarationType: d.AdditionalDeclarationType,
+    },
+    indent,
+  );
+  const inner = indent + "  ";
+  out += leafEl("LocalReferenceNumber", d.LocalReferenceNumber, inner);
+  out += leafEl("ProcedureCode", d.ProcedureCode, inner);
+  out += leafEl("AdditionalProcedureCode", d.AdditionalProcedureCode, inner);
+  out += leafEl("DeclarationDate", d.DeclarationDate, inner);
+  out += leafEl("DeclarantEORI", d.DeclarantEORI, inner);
+  out += exporterXml(d.Exporter, inner);
+  out += consigneeXml(d.Consignee, inner);
+  out += officeXml(d.CustomsOfficeOfExit, "CustomsOfficeOfExit", inner);
+  out += leafEl("GoodsLocationCode", d.GoodsLocationCode, inner);
+  out += leafEl("DispatchCountry", d.DispatchCountry, inner);
+  out += leafEl("DestinationCountry", d.DestinationCountry, inner);
+  out += leafEl("TransportModeBorder", d.TransportModeBorder, inner);
+  if (d.TransportDocument) {
+    out += referenceXml(d.TransportDocument, "TransportDocument", inner);
+  }
+  if (d.PreviousDocuments.length > 0) {
+    out += openEl("PreviousDocuments", null, inner);
+    for (const pd of d.PreviousDocuments) {
+      out += referenceXml(pd, "PreviousDocument", inner + "  ");
+    }
+    out += closeEl("PreviousDocuments", inner);
+  }
+
+  out += openEl("GoodsItems", null, inner);
+  for (const it of d.GoodsItems) {
+    out += goodsItemXml(it, inner + "  ");
+  }
+  out += closeEl("GoodsItems", inner);
+
+  out += leafEl("TotalInvoiceAmount", d.TotalInvoiceAmount, inner);
+  out += leafEl("TotalInvoiceCurrency", d.TotalInvoiceCurrency, inner);
+  out += closeEl("Declaration", indent);
+  return out;
+}
+
+// ─── Root serializer ──────────────────────────────────────────────
+
+/**
+ * Serialize a CdsPayload to a UTF-8 XML string with root element
+ * <CDS_ExportDeclaration>. Byte-for-byte deterministic given
+ * identical input.
+ */
+export function serializeCdsXml(payload: CdsPayload): string {
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  xml += openEl(
+    "CDS_ExportDeclaration",
+    {
+      SchemaVersion: payload.SchemaVersion,
+      Emitter: payload.Emitter,
+      GeneratedAt: payload.GeneratedAt,
+    },
+    "",
+  );
+  xml += declarationXml(payload.Declaration, "  ");
+  xml += closeEl("CDS_ExportDeclaration", "");
+  return xml;
+}
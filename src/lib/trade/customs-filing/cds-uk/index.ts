@@ -0,0 +1,49 @@
+/**
+ * UK CDS customs filing — public surface.
+ *
+ * The combined `buildCdsXml(input)` entry-point is what UI callers
+ * want — pure function from Caelex domain shape to a CDS export
+ * declaration XML string.
+ *
+ * Sub-modules:
+ *   - cds-payload.ts    — TypeScript surface mirroring the CDS data elements
+ *   - cds-builder.ts    — TradeOperation → CdsPayload
+ *   - cds-serializer.ts — CdsPayload → XML string
+ */
+
+import { buildCdsPayload, type CdsBuilderInput } from "./cds-builder";
+import { serializeCdsXml } from "./cds-serializer";
+
+export {
+  CDS_DUAL_USE_LICENCE_CODE,
+  buildCdsPayload,
+  isUkDeclarableLicense,
+  mapProcedureCode,
+  type CdsBuilderInput,
+} from "./cds-builder";
+export { serializeCdsXml, escapeText, escapeAttr } from "./cds-serializer";
+export {
+  CDS_SCHEMA_VERSION,
+  type CdsAdditionalDeclarationType,
+  type CdsAdditionalDocument,
+  type CdsAddress,
+  type CdsConsignee,
+  type CdsDeclaration,
+  type CdsExporter,
+  type CdsGoodsItem,
+  type CdsOffice,
+  type CdsPayload,
+  type CdsPreviousDocument,
+  type CdsProcedureCode,
+  type CdsTransportDocument,
+} from "./cds-payload";
+
+/**
+ * Top-level combined entry-point. Build a CDS export declaration XML
+ * from a Caelex TradeOperation + UK exporter context, in one call.
+ *
+ * Pure function — same input → same XML string.
+ */
+export function buildCdsXml(input: CdsBuilderInput): string {
+  return serializeCdsXml(buildCdsPayload(input));
+}
@@ -0,0 +1,206 @@
+/**
+ * Swiss e-dec builder tests.
+ *
+ * Coverage:
+ *   1. mapExportType: EXPORT / unknown → DEFINITIVE
+ *   2. mapExportType: REEXPORT / TRANSIT → REEXPORT, TEMP_EXPORT → TEMPORARY
+ *   3. isSwissDeclarableLicense: BAFA / BIS / DDTC excluded, OTHER declared
+ *   4. normalizeTariffNumber: strips dots and spaces
+ *   5. buildEdecPayload: pins schemaVersion + emitter + exportType
+ *   6. buildEdecPayload: consignor identified by UID
+ *   7. buildEdecPayload: missing UID / office / tariff number → placeholder
+ *   8. buildEdecPayload: SECO permit per item, pending number honest
+ *   9. buildEdecPayload: foreign appliedLicense → no permit on the item
+ *  10. buildEdecPayload: grossMass left unset (no packaged-weight source)
+ *  11. buildEdecPayload: deterministic for the same input
+ *  12. snapshot: full XML of the fixture declaration
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildEdecPayload,
+  isSwissDeclarableLicense,
+  mapExportType,
+  normalizeTariffNumber,
+  type EdecBuilderInput,
+} from "./edec-builder";
+import { buildEdecXml } from "./index";
+import { EDEC_SCHEMA_VERSION } from "./edec-payload";
+import {
+  MISSING_IDENTIFIER_PLACEHOLDER,
+  PENDING_LICENSE_REFERENCE,
+} from "../export-identifier";
+
+// ─── Fixture ──────────────────────────────────────────────────────
+
+function fixtureInput(): EdecBuilderInput {
+  return {
+    generatedAt: "2026-05-22T10:00:00.000Z",
+    exporter: {
+      legalName: "Caelex Space AG",
+      addressStreet: "Bahnhofstrasse 1",
+      addressZip: "8001",
+      addressCity: "Zürich",
+      addressCountry: "CH",
+      uidNumber: "CHE-123.456.789",
+    },
+    operation: {
+      id: "op_ch",
+      reference: "EDEC-ZH-2026-001",
+      description: "Reaction wheel export",
+      operationType: "EXPORT",
+      shipFromCountry: "CH",
+      shipToCountry: "US",
+      endUseCountry: null,
+      scheduledShipDate: "2026-06-15T00:00:00.000Z",
+      createdAt: "2026-05-01T00:00:00.000Z",
+      customsOfficeNumber: "1101",
+      transportModeBorder: "4",
+      previousDocuments: [],
+      counterparty: {
+        legalName: "AeroJet Corp",
+        countryCode: "US",
+        addressLines: ["1 Rocket Way", "90210 Los Angeles"],
+      },
+      lines: [
+        {
+          id: "line_1",
+          quantity: 4,
+          unitValue: 75000,
+          unitCurrency: "CHF",
+          item: {
+            name: "Reaction wheel RW-100",
+            description: "Momentum wheel, 100 Nms",
+            countryOfOrigin: "CH",
+            eccnEU: "9A515.a",
+            hsCode: "8412.9080",
+            netMassKg: 5.4,
+          },
+          appliedLicense: null,
+        },
+      ],
+      licenses: [
+        {
+          licenseType: "OTHER",
+          licenseNumber: "GKV-2026-00042",
+          validUntil: "2027-03-31T00:00:00.000Z",
+        },
+      ],
+    },
+  };
+}
+
+// ─── Mappers ──────────────────────────────────────────────────────
+
+describe("Swiss e-dec — mapExportType", () => {
+  it("maps EXPORT and unknown types to DEFINITIVE", () => {
+    expect(mapExportType("EXPORT")).toBe("DEFINITIVE");
+    expect(mapExportType("MYSTERY_VALUE")).toBe("DEFINITIVE");
+  });
+
+  it("maps re-exports and temporary exports", () => {
+    expect(mapExportType("REEXPORT")).toBe("REEXPORT");
+    expect(mapExportType("TRANSIT")).toBe("REEXPORT");
+    expect(mapExportType("TEMP_EXPORT")).toBe("TEMPORARY");
+  });
+});
+
+describe("Swiss e-dec — isSwissDeclarableLicense", () => {
+  it("excludes German and US authorisations", () => {
+    expect(isSwissDeclarableLicense("BAFA_EINZEL")).toBe(false);
+    expect(isSwissDeclarableLicense("BIS_EAR")).toBe(false);
+    expect(isSwissDeclarableLicense("DDTC_DSP5")).toBe(false);
+  });
+
+  it("declares OTHER (where SECO permits are recorded)", () => {
+    expect(isSwissDeclarableLicense("OTHER")).toBe(true);
+  });
+});
+
+describe("Swiss e-dec — normalizeTariffNumber", () => {
+  it("strips dots and spaces", () => {
+    expect(normalizeTariffNumber("8412.9080")).toBe("84129080");
+    expect(normalizeTariffNumber("8412 90 80")).toBe("84129080");
+    expect(normalizeTariffNumber("84129080")).toBe("84129080");
+  });
+});
+
+// ─── buildEdecPayload ─────────────────────────────────────────────
+
+describe("Swiss e-dec — buildEdecPayload", () => {
+  it("pins schemaVersion, emitter and exportType", () => {
+    const p = buildEdecPayload(fixtureInput());
+    expect(p.schemaVersion).toBe(EDEC_SCHEMA_VERSION);
+    expect(p.emitter).toBe("Caelex Comply Trade");
+    expect(p.generatedAt).toBe("2026-05-22T10:00:00.000Z");
+    expect(p.declaration.exportType).toBe("DEFINITIVE");
+    expect(p.declaration.declarationDate).toBe("2026-06-15");
+  });
+
+  it("identifies the consignor by UID", () => {
+    const c = buildEdecPayload(fixtureInput()).declaration.consignor;
+    expect(c.uid).toBe("CHE-123.456.789");
+    expect(c.address.city).toBe("Zürich");
+  });
+
+  it("emits the honest placeholder for missing identifiers", () => {
+    const input = fixtureInput();
+    input.exporter.uidNumber = null;
+    input.operation.customsOfficeNumber = null;
+    input.operation.lines[0]!.item.hsCode = null;
+    const d = buildEdecPayload(input).declaration;
+    expect(d.consignor.uid).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+    expect(d.customsOfficeNumber).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+    expect(d.goodsItems[0]!.commodityCode).toBe(MISSING_IDENTIFIER_PLACEHOLDER);
+  });
+
+  it("declares the SECO permit on the goods item", () => {
+    const item = buildEdecPayload(fixtureInput()).declaration.goodsItems[0]!;
+    expect(item.commodityCode).toBe("84129080");
+    expect(item.permits).toEqual([
+      {
+        permitAuthority: "SECO",
+        permitType: "GKV",
+        permitNumber: "GKV-2026-00042",
+        validUntil: "2027-03-31",
+      },
+    ]);
+  });
+
+  it("keeps an unissued permit honest as pending", () => {
+    const input = fixtureInput();
+    input.operation.licenses[0]!.licenseNumber = null;
+    const permit =
+      buildEdecPayload(input).declaration.goodsItems[0]!.permits[0]!;
+    expect(permit.permitNumber).toBe(PENDING_LICENSE_REFERENCE);
+  });
+
+  it("drops a foreign applied licence rather than declaring it", () => {
+    const input = fixtureInput();
+    input.operation.lines[0]!.appliedLicense = {
+      licenseType: "BIS_EAR",
+      licenseNumber: "D1234567",
+    };
+    const item = buildEdecPayload(input).declaration.goodsItems[0]!;
+    expect(item.permits).toEqual([]);
+  });
+
+  it("leaves grossMass unset and scales netMass with quantity", () => {
+    const item = buildEdecPayload(fixtureInput()).declaration.goodsItems[0]!;
+    expect(item.grossMass).toBeUndefined();
+    expect(item.netMass).toBeCloseTo(21.6);
+    expect(item.statisticalValue).toBe(300000);
+  });
+
+  it("is deterministic for the same input", () => {
+    expect(buildEdecXml(fixtureInput())).toBe(buildEdecXml(fixtureInput()));
+  });
+});
+
+// ─── Snapshot ─────────────────────────────────────────────────────
+
+describe("Swiss e-dec — XML snapshot", () => {
+  it("matches the snapshot for the fixture declaration", () => {
+    expect(buildEdecXml(fixtureInput())).toMatchSnapshot();
+  });
+});
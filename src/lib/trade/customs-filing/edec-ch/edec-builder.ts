@@ -0,0 +1,277 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Swiss e-dec / Passar payload builder.
+ *
+ * Pure function that turns a Caelex TradeOperation into an EdecPayload.
+ * Same contract as the ATLAS-DE and CDS builders: no I/O, caller fixes
+ * `generatedAt`, deterministic output, and missing identifiers become
+ * the honest "⚠ FEHLT" placeholder from export-identifier.ts.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { EDEC_SCHEMA_VERSION } from "./edec-payload";
+import type {
+  EdecAddress,
+  EdecDeclaration,
+  EdecExportType,
+  EdecGoodsItem,
+  EdecPayload,
+  EdecPermit,
+} from "./edec-payload";
+import {
+  PENDING_LICENSE_REFERENCE,
+  resolveIdentifierOrPlaceholder,
+} from "../export-identifier";
+
+// ─── Input shape ──────────────────────────────────────────────────
+
+/**
+ * EdecBuilderInput — operation + Swiss exporter context. Same Caelex
+ * slice as the ATLAS / CDS builders; the consignor is identified by
+ * UID instead of EORI.
+ */
+export interface EdecBuilderInput {
+  /** Stable timestamp for the document header. */
+  generatedAt: string | Date;
+  /** The Swiss exporter entity (Versender). */
+  exporter: {
+    legalName: string;
+    addressStreet?: string | null;
+    addressZip?: string | null;
+    addressCity?: string | null;
+    addressCountry?: string | null;
+    /** Swiss UID ("CHE-123.456.789"). Missing ⇒ honest placeholder. */
+    uidNumber?: string | null;
+  };
+  operation: {
+    id: string;
+    reference: string;
+    description: string;
+    operationType: string;
+    shipFromCountry: string;
+    shipToCountry: string;
+    endUseCountry: string | null;
+    scheduledShipDate: string | Date | null;
+    createdAt: string | Date;
+    /** BAZG office of export (4 digits). Missing ⇒ honest placeholder. */
+    customsOfficeNumber?: string | null;
+    /** Transport mode at border. Default "4" (Air). */
+    transportModeBorder?: string | null;
+    previousDocuments?: Array<{
+      typeCode: string;
+      reference: string;
+    }>;
+    counterparty: {
+      legalName: string;
+      countryCode: string;
+      addressLines?: string[];
+    };
+    lines: Array<{
+      id: string;
+      quantity: number;
+      unitValue: number;
+      unitCurrency: string;
+      item: {
+        name: string;
+        description?: string;
+        countryOfOrigin?: string | null;
+        eccnEU?: string | null;
+        hsCode?: string | null;
+        netMassKg?: number | null;
+      };
+      appliedLicense?: {
+        licenseType: string;
+        licenseNumber: string | null;
+        validUntil?: string | Date | null;
+      } | null;
+    }>;
+    /** All licenses on the operation; Swiss-declarable ones become permits. */
+    licenses: Array<{
+      licenseType: string;
+      licenseNumber: string | null;
+      validUntil: string | Date | null;
+    }>;
+  };
+}
+
+// ─── Mappers (Caelex → e-dec) ─────────────────────────────────────
+
+/**
+ * Map a Caelex TradeOperationType to an e-dec export kind.
+ *   REEXPORT / TRANSIT → REEXPORT
+ *   TEMP_EXPORT        → TEMPORARY
+ *   anything else      → DEFINITIVE
+ */
+export function mapExportType(operationType: string): EdecExportType {
+  switch (operationType) {
+    case "REEXPORT":
+    case "TRANSIT":
+      return "REEXPORT";
+    case "TEMP_EXPORT":
+      return "TEMPORARY";
+    default:
+      return "DEFINITIVE";
+  }
+}
+
+/**
+ * Whether a Caelex licence is declared on a Swiss export. German and
+ * US authorisations do not cover goods leaving Switzerland. The
+ * licence-type enum has no SECO values yet, so SECO permits are
+ * recorded as OTHER and pass through here.
+ */
+export function isSwissDeclarableLicense(licenseType: string): boolean {
+  return !(
+    licenseType.startsWith("BAFA") ||
+    licenseType.startsWith("BIS_") ||
+    licenseType.startsWith("DDTC_")
+  );
+}
+
+/** Strip the dots from a Swiss tariff number ("8412.9080" → "84129080"). */
+export function normalizeTariffNumber(code: string): string {
+  return code.replace(/[.\s]/g, "");
+}
+
+function toIsoDate(d: string | Date | null | undefined): string | undefined {
+  if (d == null) return undefined;
+  const iso = d instanceof Date ? d.toISOString() : d;
+  return iso.length >= 10 && iso[4] === "-" ? iso.slice(0, 10) : iso;
+}
+
+function toIso(d: string | Date | null | undefined): string | undefined {
+  if (d == null) return undefined;
+  return d instanceof Date ? d.toISOString() : d;
+}
+
+function toPermit(lic: {
+  licenseNumber: string | null;
+  validUntil?: string | Date | null;
+}): EdecPermit {
+  return {
+    permitAuthority: "SECO",
+    permitType: "GKV",
+    permitNumber: lic.licenseNumber ?? PENDING_LICENSE_REFERENCE,
+    validUntil: toIsoDate(lic.validUntil),
+  };
+}
+
+/**
+ * Best-effort split of addressLines[] into street / postal code / city.
+ * Swiss and most continental addresses put the postcode first
+ * ("8001 Zürich").
+ */
+function splitAddressLines(lines: string[], country: string): EdecAddress {
+  if (lines.length === 0) {
+    return { city: "", country };
+  }
+  const lastIdx = lines.length - 1;
+  const last = lines[lastIdx] ?? "";
+  const m = last.match(/^(\d{4,6})\s+(.+)$/);
+  if (m) {
+    const streetJoined = lines.slice(0, lastIdx).join(", ");
+    return {
+      street: streetJoined.length > 0 ? streetJoined : undefined,
+      postalCode: m[1],
+      city: m[2] ?? "",
+      country,
+    };
+  }
+  return { street: lines.join(", "), city: "", country };
+}
+
+// ─── Builder ──────────────────────────────────────────────────────
+
+/**
+ * buildEdecPayload — top-level entry-point.
+ *
+ * Pure function: same input → same output.
+ */
+export function buildEdecPayload(input: EdecBuilderInput): EdecPayload {
+  const { exporter, operation, generatedAt } = input;
+
+  const operationPermits = operation.licenses
+    .filter((lic) => isSwissDeclarableLicense(lic.licenseType))
+    .map(toPermit);
+
+  const goodsItems: EdecGoodsItem[] = operation.lines.map((line, idx) => {
+    const permits = line.appliedLicense
+      ? isSwissDeclarableLicense(line.appliedLicense.licenseType)
+        ? [toPermit(line.appliedLicense)]
+        : []
+      : operationPermits;
+
+    return {
+      itemNumber: idx + 1,
+      description: line.item.name,
+      commodityCode: resolveIdentifierOrPlaceholder(
+        line.item.hsCode ? normalizeTariffNumber(line.item.hsCode) : null,
+      ),
+      statisticalCode: "000",
+      netMass: (line.item.netMassKg ?? 0) * line.quantity,
+      statisticalValue: line.quantity * line.unitValue,
+      currency: line.unitCurrency,
+      originCountry:
+        line.item.countryOfOrigin ?? exporter.addressCountry ?? "CH",
+      controlListEntry: line.item.eccnEU ?? undefined,
+      permits,
+      additionalInformation:
+        line.item.description && line.item.description.length > 0
+          ? line.item.description
+          : undefined,
+    };
+  });
+
+  const total = goodsItems.reduce((sum, it) => sum + it.statisticalValue, 0);
+
+  const declaration: EdecDeclaration = {
+    traderDeclarationNumber: operation.reference,
+    exportType: mapExportType(operation.operationType),
+    declarationDate:
+      toIsoDate(operation.scheduledShipDate) ??
+      toIsoDate(operation.createdAt) ??
+      toIsoDate(generatedAt) ??
+      "",
+    customsOfficeNumber: resolveIdentifierOrPlaceholder(
+      operation.customsOfficeNumber,
+    ),
+    consignor: {
+      name: exporter.legalName,
+      address: {
+        street: exporter.addressStreet ?? undefined,
+        postalCode: exporter.addressZip ?? undefined,
+        city: exporter.addressCity ?? "",
+        country: exporter.addressCountry ?? "CH",
+      },
+      // Fail-closed: a missing UID is a loud placeholder, never a
+      // fabricated "CHE-000.000.000".
+      uid: resolveIdentifierOrPlaceholder(exporter.uidNumber),
+    },
+    consignee: {
+      name: operation.counterparty.legalName,
+      address: splitAddressLines(
+        operation.counterparty.addressLines ?? [],
+        operation.counterparty.countryCode,
+      ),
+    },
+    dispatchCountry: operation.shipFromCountry,
+    destinationCountry: operation.endUseCountry ?? operation.shipToCountry,
+    transportMode: operation.transportModeBorder ?? "4",
+    previousDocuments: (operation.previousDocuments ?? []).map((pd) => ({
+      typeCode: pd.typeCode,
+      reference: pd.reference,
+    })),
+    goodsItems,
+    totalStatisticalValue: total,
+    totalCurrency: operation.lines[0]?.unitCurrency ?? "CHF",
+  };
+
+  return {
+    schemaVersion: EDEC_SCHEMA_VERSION,
+    emitter: "Caelex Comply Trade",
+    generatedAt: toIso(generatedAt) ?? new Date().toISOString(),
+    declaration,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Swiss export declaration (e-dec Export / Passar 2.0).
+ *
+ * The Swiss Federal Office for Customs and Border Security (BAZG,
+ * formerly EZV) accepts export declarations through e-dec Export while
+ * Passar 2.0 takes over in release stages. Both carry the same export
+ * data set — consignor by UID, goods items by 8-digit Swiss tariff
+ * number plus statistical key, masses, CHF statistical value and the
+ * permits (Bewilligungen) covering controlled goods — so Caelex keeps
+ * one payload and serializes it to the e-dec Export element names.
+ * When the Passar API bridge lands it serializes this same payload.
+ *
+ * Type + builder + serializer only, NOT a live submitter.
+ *
+ * ── Source documents ───────────────────────────────────────────────
+ *   - BAZG — e-dec Export, Handbuch und Schnittstellenbeschreibung
+ *     https://www.bazg.admin.ch/bazg/de/home/services/services-firmen/
+ *     services-firmen_einfuhr-ausfuhr-durchfuhr/e-dec-export.html
+ *   - BAZG — Passar 2.0 release plan (export stage)
+ *   - Güterkontrollverordnung (GKV, SR 946.202.1), Anhang 2 — dual-use
+ *     goods requiring a SECO permit (issued through ELIC).
+ *
+ * ── Scope ──────────────────────────────────────────────────────────
+ *   - <consignor>   — Versender (Swiss UID-bearing exporter)
+ *   - <consignee>   — Empfänger
+ *   - <goodsItem>   — tariff number, statistical key, masses, value
+ *   - <permit>      — SECO / other authority permits per goods item
+ *   - <previousDocument> — re-exports from bonded warehouse / inward
+ *                          processing
+ *
+ * VAT refund data, packaging details and Carnet-ATA references stay
+ * manual in the e-dec web frontend.
+ *
+ * ── Naming convention ─────────────────────────────────────────────
+ * e-dec uses lowerCamelCase element names; we mirror them 1:1 (unlike
+ * the PascalCase ATLAS / CDS payloads).
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+// ─── Schema version ───────────────────────────────────────────────
+// Pinned to the e-dec Export interface release the mapping was done
+// against.
+export const EDEC_SCHEMA_VERSION = "2026-02-01";
+
+// ─── Declaration kind ─────────────────────────────────────────────
+
+/**
+ * Export kind. Maps from Caelex's TradeOperationType.
+ *   DEFINITIVE — definitive Ausfuhr of goods in free circulation
+ *   REEXPORT   — Wiederausfuhr after inward processing / bonded warehouse
+ *   TEMPORARY  — vorübergehende Ausfuhr with re-import expected
+ */
+export type EdecExportType = "DEFINITIVE" | "REEXPORT" | "TEMPORARY";
+
+// ─── Parties ──────────────────────────────────────────────────────
+
+/** Postal address. City + country always required. */
+export interface EdecAddress {
+  street?: string | undefined;
+  postalCode?: string | undefined;
+  city: string;
+  /** ISO 3166-1 alpha-2. */
+  country: string;
+}
+
+/**
+ * Consignor (Versender) — the Swiss exporter. Identified by its
+ * Unternehmens-Identifikationsnummer, e.g. "CHE-123.456.789".
+ */
+export interface EdecConsignor {
+  name: string;
+  address: EdecAddress;
+  /** Swiss UID. Required. */
+  uid: string;
+}
+
+/** Consignee (Empfänger). */
+export interface EdecConsignee {
+  name: string;
+  address: EdecAddress;
+}
+
+// ─── Permit (Bewilligung) ─────────────────────────────────────────
+
+/**
+ * Permit covering a goods item. Export of GKV Anhang 2 goods needs a
+ * SECO permit; the permit number is declared per item.
+ */
+export interface EdecPermit {
+  /** Issuing authority, e.g. "SECO". Required. */
+  permitAuthority: string;
+  /**
+   * Legal basis of the permit: "GKV" (Güterkontrollverordnung —
+   * dual-use) or "KMV" (Kriegsmaterialverordnung). Required.
+   */
+  permitType: string;
+  /** Permit number. Required. */
+  permitNumber: string;
+  /** Validity end-date, yyyy-mm-dd. Optional. */
+  validUntil?: string | undefined;
+}
+
+/** Previous document (Vorpapier) for re-exports. */
+export interface EdecPreviousDocument {
+  /** Document type, e.g. "ZL" (Zolllager) or the inward-processing form. */
+  typeCode: string;
+  /** Reference / declaration number. */
+  reference: string;
+}
+
+// ─── Goods item ───────────────────────────────────────────────────
+
+export interface EdecGoodsItem {
+  /** 1-indexed item number. */
+  itemNumber: number;
+  /** Description of goods. Required. */
+  description: string;
+  /** Swiss tariff number — 8 digits, no dots (e.g. "84129080"). Required. */
+  commodityCode: string;
+  /** Statistical key (Statistischer Schlüssel), 3 digits. Required. */
+  statisticalCode: string;
+  /** Net mass (Eigenmasse) in kg. Required. */
+  netMass: number;
+  /**
+   * Gross mass (Rohmasse) in kg. Required by e-dec. Caelex has no
+   * packaged-weight source, so the builder leaves it unset and the
+   * pre-submission validator flags it.
+   */
+  grossMass?: number | undefined;
+  /** Statistical value. e-dec expects CHF. Required. */
+  statisticalValue: number;
+  /** ISO 4217 currency for statisticalValue. */
+  currency: string;
+  /** Country of origin (ISO alpha-2). Required. */
+  originCountry: string;
+  /**
+   * GKV Anhang 2 entry. Follows the Wassenaar / EU Annex I numbering,
+   * e.g. "9A515.a". Optional.
+   */
+  controlListEntry?: string | undefined;
+  /** Permits covering this item. Empty = none declared. */
+  permits: EdecPermit[];
+  additionalInformation?: string | undefined;
+}
+
+// ─── Declaration (root) ───────────────────────────────────────────
+
+export interface EdecDeclaration {
+  /** Trader's own declaration reference. Required. */
+  traderDeclarationNumber: string;
+  exportType: EdecExportType;
+  /** yyyy-mm-dd. Required. */
+  declarationDate: string;
+  /** BAZG customs office of export — 4-digit office number. Required. */
+  customsOfficeNumber: string;
+  consignor: EdecConsignor;
+  consignee: EdecConsignee;
+  /** Always "CH" (or "LI" for Liechtenstein consignors). */
+  dispatchCountry: string;
+  destinationCountry: string;
+  /** UN/ECE Rec. 19 transport mode at the border (1 sea … 4 air). */
+  transportMode: string;
+  /** Previous documents. Required for REEXPORT, empty otherwise. */
+  previousDocuments: EdecPreviousDocument[];
+  /** Goods schedule — at least one item. */
+  goodsItems: EdecGoodsItem[];
+  totalStatisticalValue: number;
+  totalCurrency: string;
+}
+
+// ─── Root payload ─────────────────────────────────────────────────
+
+/** Root container; wire-format root tag is <edecExportDeclaration>. */
+export interface EdecPayload {
+  schemaVersion: string;
+  emitter: string;
+  generatedAt: string;
+  declaration: EdecDeclaration;
+}
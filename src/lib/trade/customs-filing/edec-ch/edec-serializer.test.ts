@@ -0,0 +1,157 @@
+/**
+ * Swiss e-dec XML serializer tests.
+ *
+ * Coverage:
+ *   1. escapeText / escapeAttr: XML 1.0 entities, nullish returns ""
+ *   2. Output begins with XML 1.0 declaration
+ *   3. Root tag is edecExportDeclaration with schemaVersion attribute
+ *   4. goodsDeclaration carries the exportType attribute
+ *   5. Optional leaves skipped when undefined (no empty tags)
+ *   6. Repeated goodsItem / permit / previousDocument without wrappers
+ *   7. <script> injection in description is fully escaped
+ *   8. Sanity check — balanced open/close tags
+ */
+
+import { describe, it, expect } from "vitest";
+import { escapeText, escapeAttr, serializeEdecXml } from "./edec-serializer";
+import { EDEC_SCHEMA_VERSION, type EdecPayload } from "./edec-payload";
+
+// ─── Fixture ──────────────────────────────────────────────────────
+
+function minimalPayload(): EdecPayload {
+  return {
+    schemaVersion: EDEC_SCHEMA_VERSION,
+    emitter: "Caelex Comply Trade",
+    generatedAt: "2026-05-22T10:00:00.000Z",
+    declaration: {
+      traderDeclarationNumber: "EDEC-TEST-001",
+      exportType: "DEFINITIVE",
+      declarationDate: "2026-06-15",
+      customsOfficeNumber: "1101",
+      consignor: {
+        name: "Caelex Space AG",
+        address: {
+          street: "Bahnhofstrasse 1",
+          postalCode: "8001",
+          city: "Zürich",
+          country: "CH",
+        },
+        uid: "CHE-123.456.789",
+      },
+      consignee: {
+        name: "AeroJet Corp",
+        address: { city: "Los Angeles", country: "US" },
+      },
+      dispatchCountry: "CH",
+      destinationCountry: "US",
+      transportMode: "4",
+      previousDocuments: [],
+      goodsItems: [
+        {
+          itemNumber: 1,
+          description: "Reaction wheel RW-100",
+          commodityCode: "84129080",
+          statisticalCode: "000",
+          netMass: 21.6,
+          statisticalValue: 300000.5,
+          currency: "CHF",
+          originCountry: "CH",
+          permits: [],
+        },
+      ],
+      totalStatisticalValue: 300000.5,
+      totalCurrency: "CHF",
+    },
+  };
+}
+
+// ─── Escape helpers ───────────────────────────────────────────────
+
+describe("Swiss e-dec — escapeText / escapeAttr", () => {
+  it("escapes ampersand, less-than, greater-than", () => {
+    expect(escapeText("Zürich & Genève < >")).toBe(
+      "Zürich &amp; Genève &lt; &gt;",
+    );
+    expect(escapeText(null)).toBe("");
+  });
+
+  it("escapes all five XML 1.0 entities in attributes", () => {
+    expect(escapeAttr(`a & b < c > d " e ' f`)).toBe(
+      "a &amp; b &lt; c &gt; d &quot; e &apos; f",
+    );
+  });
+});
+
+// ─── Full document serialization ──────────────────────────────────
+
+describe("Swiss e-dec — serializeEdecXml output", () => {
+  it("begins with the XML 1.0 declaration", () => {
+    const xml = serializeEdecXml(minimalPayload());
+    expect(xml.startsWith(`<?xml version="1.0" encoding="UTF-8"?>`)).toBe(true);
+  });
+
+  it("wraps in edecExportDeclaration with schemaVersion attribute", () => {
+    const xml = serializeEdecXml(minimalPayload());
+    expect(xml).toContain(
+      `<edecExportDeclaration schemaVersion="${EDEC_SCHEMA_VERSION}"`,
+    );
+    expect(xml.trimEnd().endsWith("</edecExportDeclaration>")).toBe(true);
+  });
+
+  it("emits goodsDeclaration with the exportType attribute", () => {
+    const xml = serializeEdecXml(minimalPayload());
+    expect(xml).toContain(`<goodsDeclaration exportType="DEFINITIVE">`);
+    expect(xml).toContain("<uid>CHE-123.456.789</uid>");
+    expect(xml).toContain("<customsOfficeNumber>1101</customsOfficeNumber>");
+  });
+
+  it("skips optional leaves when undefined (no empty tags)", () => {
+    const xml = serializeEdecXml(minimalPayload());
+    expect(xml).not.toContain("<grossMass>");
+    expect(xml).not.toContain("<controlListEntry>");
+    expect(xml).not.toContain("<permit>");
+    expect(xml).not.toContain("<previousDocument>");
+  });
+
+  it("repeats goodsItem, permit and previousDocument without wrappers", () => {
+    const payload = minimalPayload();
+    payload.declaration.exportType = "REEXPORT";
+    payload.declaration.previousDocuments = [
+      { typeCode: "ZL", reference: "26CH000123" },
+    ];
+    payload.declaration.goodsItems[0]!.permits = [
+      { permitAuthority: "SECO", permitType: "GKV", permitNumber: "GKV-1" },
+      { permitAuthority: "SECO", permitType: "GKV", permitNumber: "GKV-2" },
+    ];
+    payload.declaration.goodsItems.push({
+      ...payload.declaration.goodsItems[0]!,
+      itemNumber: 2,
+      permits: [],
+    });
+    const xml = serializeEdecXml(payload);
+    expect(xml).toContain("<previousDocument>");
+    expect(xml).not.toContain("<previousDocuments>");
+    expect(xml.match(/<permit>/g)).toHaveLength(2);
+    expect(xml).not.toContain("<permits>");
+    expect(xml).toContain(`<goodsItem itemNumber="1">`);
+    expect(xml).toContain(`<goodsItem itemNumber="2">`);
+    expect(xml).not.toContain("<goodsItems>");
+  });
+
+  it("escapes a <script> injection attempt in item description", () => {
+    const payload = minimalPayload();
+    payload.declaration.goodsItems[0]!.description = `<script>x</script>`;
+    const xml = serializeEdecXml(payload);
+    expect(xml).not.toContain("<script>");
+    expect(xml).toContain(
+      "<description>&lt;script&gt;x&lt;/script&gt;</description>",
+    );
+  });
+
+  it("produces balanced open/close tags", () => {
+    const xml = serializeEdecXml(minimalPayload());
+    const opens = xml.match(/<[A-Za-z_][\w]*(\s[^>]*)?>/g) ?? [];
+    const closes = xml.match(/<\/[A-Za-z_][\w]*>/g) ?? [];
+    expect(opens.length).toBe(closes.length);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Swiss e-dec Export XML serializer.
+ *
+ * Hand-rolled, same pattern as the ATLAS-DE, AES-US and CDS
+ * serializers: deterministic output, XML 1.0 escaping, locale-free
+ * numbers, empty values skipped at the element boundary.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import type {
+  EdecAddress,
+  EdecConsignee,
+  EdecConsignor,
+  EdecDeclaration,
+  EdecGoodsItem,
+  EdecPayload,
+  EdecPermit,
+  EdecPreviousDocument,
+} from "./edec-payload";
+
+// ─── Escape helpers ───────────────────────────────────────────────
+
+/** Escape text content. Returns "" for nullish input. */
+export function escapeText(input: string | null | undefined): string {
+  if (input == null) return "";
+  return String(input)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Escape for a double-quoted XML attribute value. */
+export function escapeAttr(input: string | null | undefined): string {
+  if (input == null) return "";
+  return String(input)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// ─── Element builders ─────────────────────────────────────────────
+
+function leafEl(
+  tag: string,
+  value: string | number | null | undefined,
+  indent: string,
+): string {
+  if (value == null) return "";
+  if (typeof value === "string" && value.length === 0) return "";
+  if (typeof value === "number" && Number.isNaN(value)) return "";
+  const text = typeof value === "number" ? value.toString() : value;
+  return `${indent}<${tag}>${escapeText(text)}</${tag}>\n`;
+}
+
+function openEl(
+  tag: string,
+  attrs: Record<string, string | undefined> | null,
+  indent: string,
+): string {
+  let attrStr = "";
+  if (attrs) {
+    for (const [k, v] of Object.entries(attrs)) {
+      if (v != null && v.length > 0) {
+        attrStr += ` ${k}="${escapeAttr(v)}"`;
+      }
+    }
+  }
+  return `${indent}<${tag}${attrStr}>\n`;
+}
+
+function closeEl(tag: string, indent: string): string {
+  return `${indent}</${tag}>\n`;
+}
+
+// ─── Block serializers ────────────────────────────────────────────
+
+function addressXml(a: EdecAddress, indent: string): string {
+  let out = openEl("address", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("street", a.street, inner);
+  out += leafEl("postalCode", a.postalCode, inner);
+  out += leafEl("city", a.city, inner);
+  out += leafEl("country", a.country, inner);
+  out += closeEl("address", indent);
+  return out;
+}
+
+function consignorXml(c: EdecConsignor, indent: string): string {
+  let out = openEl("consignor", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("name", c.name, inner);
+  out += addressXml(c.address, inner);
+  out += leafEl("uid", c.uid, inner);
+  out += closeEl("consignor", indent);
+  return out;
+}
+
+function consigneeXml(c: EdecConsignee, indent: string): string {
+  let out = openEl("consignee", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("name", c.name, inner);
+  out += addressXml(c.address, inner);
+  out += closeEl("consignee", indent);
+  return out;
+}
+
+function permitXml(p: EdecPermit, indent: string): string {
+  let out = openEl("permit", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("permitAuthority", p.permitAuthority, inner);
+  out += leafEl("permitType", p.permitType, inner);
+  out += leafEl("permitNumber", p.permitNumber, inner);
+  out += leafEl("validUntil", p.validUntil, inner);
+  out += closeEl("permit", indent);
+  return out;
+}
+
+function previousDocumentXml(d: EdecPreviousDocument, indent: string): string {
+  let out = openEl("previousDocument", null, indent);
+  const inner = indent + "  ";
+  out += leafEl("typeCode", d.typeCode, inner);
+  out += leafEl("reference", d.reference, inner);
+  out += closeEl("previousDocument", indent);
+  return out;
+}
+
+function goodsItemXml(it: EdecGoodsItem, indent: string): string {
+  let out = openEl("goodsItem", { itemNumber: String(it.itemNumber) }, indent);
+  const inner = indent + "  ";
+  out += leafEl("description", it.description, inner);
+  out += leafEl("commodityCode", it.commodityCode, inner);
+  out += leafEl("statisticalCode", it.statisticalCode, inner);
+  out += leafEl("netMass", it.netMass, inner);
+  out += leafEl("grossMass", it.grossMass, inner);
+  out += leafEl("statisticalValue", it.statisticalValue, inner);
+  out += leafEl("currency", it.currency, inner);
+  out += leafEl("originCountry", it.originCountry, inner);
+  out += leafEl("controlListEntry", it.controlListEntry, inner);
+  for (const p of it.permits) {
+    out += permitXml(p, inner);
+  }
+  out += leafEl("additionalInformation", it.additionalInformation, inner);
+  out += closeEl("goodsItem", indent);
+  return out;
+}
+
+function declarationXml(d: EdecDeclaration, indent: string): string {
+  let out = openEl("goodsDeclaration", { exportType: d.exportType }, indent);
+  const inner = indent + "  ";
+  out += leafEl("traderDeclarationNumber", d.traderDeclarationNumber, inner);
+  out += leafEl("declarationDate", d.declarationDate, inner);
+  out += leafEl("customsOfficeNumber", d.customsOfficeNumber, inner);
+  out += consignorXml(d.consignor, inner);
+  out += consigneeXml(d.consignee, inner);
+  out += leafEl("dispatchCountry", d.dispatchCountry, inner);
+  out += leafEl("destinationCountry", d.destinationCountry, inner);
+  out += leafEl("transportMode", d.transportMode, inner);
+  for (const pd of d.previousDocuments) {
+    out += previousDocumentXml(pd, inner);
+  }
+  for (const it of d.goodsItems) {
+    out += goodsItemXml(it, inner);
+  }
+  out += leafEl("totalStatisticalValue", d.totalStatisticalValue, inner);
+  out += leafEl("totalCurrency", d.totalCurrency, inner);
+  out += closeEl("goodsDeclaration", indent);
+  return out;
+}
+
+// ─── Root serializer ──────────────────────────────────────────────
+
+/**
+ * Serialize an EdecPayload to a UTF-8 XML string with root element
+ * <edecExportDeclaration>. Repeated children (goodsItem, permit,
+ * previousDocument) are emitted without wrapper elements, following
+ * the e-dec convention. Byte-for-byte deterministic.
+ */
+export function serializeEdecXml(payload: EdecPayload): string {
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  xml += openEl(
+    "edecExportDeclaration",
+    {
+      schemaVersion: payload.schemaVersion,
+      emitter: payload.emitter,
+      generatedAt: payload.generatedAt,
+    },
+    "",
+  );
+  xml += declarationXml(payload.declaration, "  ");
+  xml += closeEl("edecExportDeclaration", "");
+  return xml;
+}
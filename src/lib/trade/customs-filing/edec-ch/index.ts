@@ -0,0 +1,46 @@
+/**
+ * Swiss e-dec / Passar customs filing — public surface.
+ *
+ * The combined `buildEdecXml(input)` entry-point is what UI callers
+ * want — pure function from Caelex domain shape to an e-dec Export
+ * declaration XML string.
+ *
+ * Sub-modules:
+ *   - edec-payload.ts    — TypeScript surface mirroring e-dec Export
+ *   - edec-builder.ts    — TradeOperation → EdecPayload
+ *   - edec-serializer.ts — EdecPayload → XML string
+ */
+
+import { buildEdecPayload, type EdecBuilderInput } from "./edec-builder";
+import { serializeEdecXml } from "./edec-serializer";
+
+export {
+  buildEdecPayload,
+  isSwissDeclarableLicense,
+  mapExportType,
+  normalizeTariffNumber,
+  type EdecBuilderInput,
+} from "./edec-builder";
+export { serializeEdecXml, escapeText, escapeAttr } from "./edec-serializer";
+export {
+  EDEC_SCHEMA_VERSION,
+  type EdecAddress,
+  type EdecConsignee,
+  type EdecConsignor,
+  type EdecDeclaration,
+  type EdecExportType,
+  type EdecGoodsItem,
+  type EdecPayload,
+  type EdecPermit,
+  type EdecPreviousDocument,
+} from "./edec-payload";
+
+/**
+ * Top-level combined entry-point. Build an e-dec Export declaration
+ * XML from a Caelex TradeOperation + Swiss exporter context.
+ *
+ * Pure function — same input → same XML string.
+ */
+export function buildEdecXml(input: EdecBuilderInput): string {
+  return serializeEdecXml(buildEdecPayload(input));
+}
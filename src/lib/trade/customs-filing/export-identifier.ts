@@ -45,6 +45,13 @@
 export const MISSING_IDENTIFIER_PLACEHOLDER =
   "⚠ FEHLT — im Org-Profil hinterlegen";
 
+/**
+ * Reference emitted for a licence that is on the operation but not yet
+ * issued (no licence number). Like the identifier placeholder it must
+ * never reach a filed declaration; the pre-submission validator flags it.
+ */
+export const PENDING_LICENSE_REFERENCE = "(pending issuance)";
+
 /**
  * `true` when `value` is the honest missing-identifier placeholder (or any
  * legacy all-zero fabrication that may linger in a persisted draft). Used
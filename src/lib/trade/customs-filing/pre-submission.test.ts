@@ -0,0 +1,373 @@
+/**
+ * Pre-submission validator tests.
+ *
+ * Coverage:
+ *   1. Complete drafts of all four declaration types are fileable
+ *   2. ATLAS: missing EORI, office, zero-filled CN code, pending licence
+ *   3. ATLAS: re-export without previous document
+ *   4. AES: builder fallbacks (SCAC, carrier, contact, phone, Schedule B, port)
+ *   5. AES: licensed line (C31) without licence number
+ *   6. CDS: missing EORI flags exporter + declarant, pending licence flagged
+ *   7. CDS: controlled item without any licence document
+ *   8. CDS: procedure 3151 without previous document
+ *   9. e-dec: missing UID / office / tariff number
+ *  10. e-dec: grossMass and non-CHF statistical value flagged
+ *  11. Report carries type + human declaration name
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DECLARATION_NAMES,
+  validatePreSubmission,
+  type PreSubmissionReport,
+} from "./pre-submission";
+import {
+  buildAtlasPayload,
+  type AtlasBuilderInput,
+} from "./atlas-de/atlas-builder";
+import { buildAesPayload, type AesBuilderInput } from "./aes-us/aes-builder";
+import { buildCdsPayload, type CdsBuilderInput } from "./cds-uk/cds-builder";
+import {
+  buildEdecPayload,
+  type EdecBuilderInput,
+} from "./edec-ch/edec-builder";
+
+// ─── Fixtures ─────────────────────────────────────────────────────
+
+const GENERATED_AT = "2026-05-22T10:00:00.000Z";
+
+function baseOperation() {
+  return {
+    id: "op_1",
+    reference: "OP-2026-001",
+    description: "Reaction wheel export",
+    operationType: "EXPORT",
+    shipFromCountry: "DE",
+    shipToCountry: "US",
+    endUseCountry: null,
+    scheduledShipDate: "2026-06-15T00:00:00.000Z",
+    createdAt: "2026-05-01T00:00:00.000Z",
+    transportModeBorder: "4",
+    previousDocuments: [] as Array<{ typeCode: string; reference: string }>,
+    counterparty: {
+      legalName: "AeroJet Corp",
+      countryCode: "US",
+      addressLines: ["1 Rocket Way", "90210 Los Angeles"],
+    },
+  };
+}
+
+function baseLine() {
+  return {
+    id: "line_1",
+    quantity: 4,
+    unitValue: 75000,
+    unitCurrency: "EUR",
+    item: {
+      name: "Reaction wheel HR16",
+      countryOfOrigin: "DE",
+      hsCode: "84129080" as string | null,
+      netMassKg: 5.4,
+    },
+    appliedLicense: null,
+  };
+}
+
+function atlasInput(): AtlasBuilderInput {
+  return {
+    generatedAt: GENERATED_AT,
+    exporter: {
+      legalName: "Caelex Aerospace GmbH",
+      addressCity: "München",
+      addressCountry: "DE",
+      eoriNumber: "DE5300000012345",
+    },
+    operation: {
+      ...baseOperation(),
+      officeOfExportCode: "DE000891",
+      lines: [baseLine()],
+      licenses: [],
+    },
+  };
+}
+
+function aesInput(): AesBuilderInput {
+  return {
+    generatedAt: GENERATED_AT,
+    usppi: {
+      legalName: "Caelex Inc",
+      addressStreet: "1 Market St",
+      addressCity: "San Francisco",
+      addressState: "CA",
+      addressCountry: "US",
+      einNumber: "981234567",
+      contactName: "Jane Doe",
+      contactPhone: "4155550100",
+    },
+    operation: {
+      ...baseOperation(),
+      shipFromCountry: "US",
+      shipToCountry: "DE",
+      endUserName: null,
+      endUserSector: null,
+      portOfExport: "2704",
+      carrierName: "Lufthansa Cargo",
+      carrierCode: "LH",
+      counterparty: {
+        legalName: "Caelex Aerospace GmbH",
+        countryCode: "DE",
+        addressLines: ["Beispielstraße 1", "80331 München"],
+      },
+      lines: [{ ...baseLine(), unitCurrency: "USD" }],
+      licenses: [],
+    },
+  };
+}
+
+function cdsInput(): CdsBuilderInput {
+  return {
+    generatedAt: GENERATED_AT,
+    exporter: {
+      legalName: "Caelex Space UK Ltd",
+      addressCity: "Didcot",
+      addressCountry: "GB",
+      eoriNumber: "GB123456789000",
+    },
+    operation: {
+      ...baseOperation(),
+      shipFromCountry: "GB",
+      officeOfExitCode: "GB000060",
+      lines: [{ ...baseLine(), unitCurrency: "GBP" }],
+      licenses: [],
+    },
+  };
+}
+
+function edecInput(): EdecBuilderInput {
+  return {
+    generatedAt: GENERATED_AT,
+    exporter: {
+      legalName: "Caelex Space AG",
+      addressCity: "Zürich",
+      addressCountry: "CH",
+      uidNumber: "CHE-123.456.789",
+    },
+    operation: {
+      ...baseOperation(),
+      shipFromCountry: "CH",
+      customsOfficeNumber: "1101",
+      lines: [{ ...baseLine(), unitCurrency: "CHF" }],
+      licenses: [],
+    },
+  };
+}
+
+function paths(report: PreSubmissionReport): string[] {
+  return report.missing.map((m) => m.path);
+}
+
+// ─── Complete drafts ──────────────────────────────────────────────
+
+describe("validatePreSubmission — complete drafts", () => {
+  it("passes complete ATLAS, AES and CDS drafts", () => {
+    for (const report of [
+      validatePreSubmission({
+        type: "ATLAS_DE",
+        payload: buildAtlasPayload(atlasInput()),
+      }),
+      validatePreSubmission({
+        type: "AES_US",
+        payload: buildAesPayload(aesInput()),
+      }),
+      validatePreSubmission({
+        type: "CDS_UK",
+        payload: buildCdsPayload(cdsInput()),
+      }),
+    ]) {
+      expect(report.missing).toEqual([]);
+      expect(report.fileable).toBe(true);
+    }
+  });
+
+  it("passes an e-dec draft once gross mass is entered", () => {
+    const payload = buildEdecPayload(edecInput());
+    payload.declaration.goodsItems[0]!.grossMass = 24;
+    const report = validatePreSubmission({ type: "EDEC_CH", payload });
+    expect(report.missing).toEqual([]);
+    expect(report.fileable).toBe(true);
+  });
+
+  it("labels the report with type and declaration name", () => {
+    const report = validatePreSubmission({
+      type: "CDS_UK",
+      payload: buildCdsPayload(cdsInput()),
+    });
+    expect(report.type).toBe("CDS_UK");
+    expect(report.declaration).toBe(DECLARATION_NAMES.CDS_UK);
+  });
+});
+
+// ─── ATLAS ────────────────────────────────────────────────────────
+
+describe("validatePreSubmission — ATLAS_DE", () => {
+  it("lists missing EORI, office, zero-filled CN code and pending licence", () => {
+    const input = atlasInput();
+    input.exporter.eoriNumber = null;
+    input.operation.officeOfExportCode = null;
+    input.operation.lines[0]!.item.hsCode = null;
+    input.operation.licenses = [
+      {
+        licenseType: "BAFA_EINZEL",
+        licenseNumber: null,
+        validUntil: null,
+      },
+    ];
+    const report = validatePreSubmission({
+      type: "ATLAS_DE",
+      payload: buildAtlasPayload(input),
+    });
+    expect(report.fileable).toBe(false);
+    expect(paths(report)).toEqual([
+      "Declaration.Exporter.EORI",
+      "Declaration.OfficeOfExport.ReferenceNumber",
+      "Declaration.Items[1].CNCode",
+      "Declaration.Items[1].Licenses[0].Reference",
+    ]);
+  });
+
+  it("requires a previous document on re-exports", () => {
+    const input = atlasInput();
+    input.operation.operationType = "REEXPORT";
+    const report = validatePreSubmission({
+      type: "ATLAS_DE",
+      payload: buildAtlasPayload(input),
+    });
+    expect(paths(report)).toEqual(["Declaration.PreviousDocuments"]);
+  });
+});
+
+// ─── AES ──────────────────────────────────────────────────────────
+
+describe("validatePreSubmission — AES_US", () => {
+  it("flags every builder fallback as missing", () => {
+    const input = aesInput();
+    input.usppi.contactName = null;
+    input.usppi.contactPhone = null;
+    input.operation.carrierName = null;
+    input.operation.carrierCode = null;
+    input.operation.portOfExport = null;
+    input.operation.lines[0]!.item.hsCode = null;
+    const report = validatePreSubmission({
+      type: "AES_US",
+      payload: buildAesPayload(input),
+    });
+    expect(paths(report)).toEqual([
+      "Filing.USPPI.ContactName",
+      "Filing.USPPI.ContactPhone",
+      "Filing.Carrier.Name",
+      "Filing.Carrier.SCACorIATA",
+      "Filing.PortOfExport",
+      "Filing.Commodities[1].ScheduleBOrHTS",
+    ]);
+  });
+
+  it("requires a licence number on a C31 line", () => {
+    const input = aesInput();
+    input.operation.licenses = [
+      { licenseType: "BIS_EAR", licenseNumber: null },
+    ];
+    const payload = buildAesPayload(input);
+    expect(payload.Filing.Commodities[0]!.LicenseCode).toBe("C31");
+    const report = validatePreSubmission({ type: "AES_US", payload });
+    expect(paths(report)).toEqual(["Filing.Commodities[1].LicenseNumber"]);
+  });
+});
+
+// ─── CDS ──────────────────────────────────────────────────────────
+
+describe("validatePreSubmission — CDS_UK", () => {
+  it("flags a missing EORI on both exporter and declarant", () => {
+    const input = cdsInput();
+    input.exporter.eoriNumber = null;
+    const report = validatePreSubmission({
+      type: "CDS_UK",
+      payload: buildCdsPayload(input),
+    });
+    expect(paths(report)).toEqual([
+      "Declaration.Exporter.EORI",
+      "Declaration.DeclarantEORI",
+    ]);
+  });
+
+  it("flags a pending licence and a controlled item without licence", () => {
+    const pending = cdsInput();
+    pending.operation.licenses = [
+      { licenseType: "OTHER", licenseNumber: null, validUntil: null },
+    ];
+    expect(
+      paths(
+        validatePreSubmission({
+          type: "CDS_UK",
+          payload: buildCdsPayload(pending),
+        }),
+      ),
+    ).toEqual(["Declaration.GoodsItems[1].AdditionalDocuments[0].Identifier"]);
+
+    const uncovered = cdsInput();
+    uncovered.operation.lines[0]!.item = {
+      ...uncovered.operation.lines[0]!.item,
+      eccnEU: "9A515.a",
+    };
+    const report = validatePreSubmission({
+      type: "CDS_UK",
+      payload: buildCdsPayload(uncovered),
+    });
+    expect(paths(report)).toEqual([
+      "Declaration.GoodsItems[1].AdditionalDocuments",
+    ]);
+    expect(report.missing[0]!.label).toContain("9A515.a");
+  });
+
+  it("requires a previous document for procedure 3151", () => {
+    const input = cdsInput();
+    input.operation.operationType = "REEXPORT";
+    const report = validatePreSubmission({
+      type: "CDS_UK",
+      payload: buildCdsPayload(input),
+    });
+    expect(paths(report)).toEqual(["Declaration.PreviousDocuments"]);
+  });
+});
+
+// ─── e-dec ────────────────────────────────────────────────────────
+
+describe("validatePreSubmission — EDEC_CH", () => {
+  it("lists missing UID, office, tariff number and gross mass", () => {
+    const input = edecInput();
+    input.exporter.uidNumber = null;
+    input.operation.customsOfficeNumber = null;
+    input.operation.lines[0]!.item.hsCode = null;
+    const report = validatePreSubmission({
+      type: "EDEC_CH",
+      payload: buildEdecPayload(input),
+    });
+    expect(paths(report)).toEqual([
+      "declaration.consignor.uid",
+      "declaration.customsOfficeNumber",
+      "declaration.goodsItems[1].commodityCode",
+      "declaration.goodsItems[1].grossMass",
+    ]);
+  });
+
+  it("flags a statistical value not in CHF", () => {
+    const input = edecInput();
+    input.operation.lines[0]!.unitCurrency = "EUR";
+    const payload = buildEdecPayload(input);
+    payload.declaration.goodsItems[0]!.grossMass = 24;
+    const report = validatePreSubmission({ type: "EDEC_CH", payload });
+    expect(paths(report)).toEqual([
+      "declaration.goodsItems[1].statisticalValue",
+    ]);
+    expect(report.missing[0]!.label).toContain("EUR");
+  });
+});
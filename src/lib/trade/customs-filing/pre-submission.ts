@@ -0,0 +1,353 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Pre-submission validation for customs-filing drafts.
+ *
+ * The builders never invent data: a missing identifier becomes the
+ * honest "⚠ FEHLT" placeholder, a missing tariff code a zero-fill or
+ * placeholder, an unissued licence "(pending issuance)". That keeps the
+ * XML well-formed for preview, but such a draft must not be filed.
+ *
+ * This module walks a built payload and lists, per declaration type,
+ * every field still missing before the declaration can be lodged —
+ * so the human filing it sees the complete gap list up front instead
+ * of one authority rejection at a time. `missingExportIdentifiers`
+ * (export-identifier.ts) covers the org-profile identifiers; this
+ * covers the whole declaration.
+ *
+ * Pure + dependency-free, safe for client preview UI.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import type { AesPayload } from "./aes-us/aes-payload";
+import type { AtlasPayload } from "./atlas-de/atlas-payload";
+import type { CdsPayload } from "./cds-uk/cds-payload";
+import type { EdecPayload } from "./edec-ch/edec-payload";
+import {
+  PENDING_LICENSE_REFERENCE,
+  isMissingIdentifier,
+} from "./export-identifier";
+
+// ─── Types ────────────────────────────────────────────────────────
+
+export type CustomsDeclarationType =
+  | "ATLAS_DE"
+  | "AES_US"
+  | "CDS_UK"
+  | "EDEC_CH";
+
+/** A built payload tagged with its declaration type. */
+export type CustomsDeclarationDraft =
+  | { type: "ATLAS_DE"; payload: AtlasPayload }
+  | { type: "AES_US"; payload: AesPayload }
+  | { type: "CDS_UK"; payload: CdsPayload }
+  | { type: "EDEC_CH"; payload: EdecPayload };
+
+/** One field that must be completed before filing. */
+export interface MissingDeclarationField {
+  /** Payload path, e.g. "Declaration.Items[1].CNCode". */
+  path: string;
+  /** Human label, e.g. "Item 1: CN code". */
+  label: string;
+}
+
+export interface PreSubmissionReport {
+  type: CustomsDeclarationType;
+  /** Human name of the declaration, e.g. "UK CDS export declaration". */
+  declaration: string;
+  /** `true` ⇔ `missing` is empty. */
+  fileable: boolean;
+  missing: MissingDeclarationField[];
+}
+
+export const DECLARATION_NAMES: Record<CustomsDeclarationType, string> = {
+  ATLAS_DE: "ATLAS Ausfuhranmeldung (DE)",
+  AES_US: "AES / ACE filing (US)",
+  CDS_UK: "UK CDS export declaration",
+  EDEC_CH: "e-dec / Passar Ausfuhranmeldung (CH)",
+};
+
+// ─── Field checks ─────────────────────────────────────────────────
+
+class MissingList {
+  readonly fields: MissingDeclarationField[] = [];
+
+  /** Identifier that may carry the placeholder or a zero-fill. */
+  identifier(value: string | null | undefined, path: string, label: string) {
+    if (isMissingIdentifier(value)) this.fields.push({ path, label });
+  }
+
+  text(value: string | null | undefined, path: string, label: string) {
+    if (value == null || value.trim().length === 0) {
+      this.fields.push({ path, label });
+    }
+  }
+
+  positive(value: number | null | undefined, path: string, label: string) {
+    if (value == null || !Number.isFinite(value) || value <= 0) {
+      this.fields.push({ path, label });
+    }
+  }
+
+  licence(value: string | null | undefined, path: string, label: string) {
+    if (
+      value == null ||
+      value.trim().length === 0 ||
+      value === PENDING_LICENSE_REFERENCE ||
+      isMissingIdentifier(value)
+    ) {
+      this.fields.push({ path, label });
+    }
+  }
+
+  nonEmpty(length: number, path: string, label: string) {
+    if (length === 0) this.fields.push({ path, label });
+  }
+}
+
+// ─── Per-declaration validators ───────────────────────────────────
+
+function checkAtlas(p: AtlasPayload, m: MissingList): void {
+  const d = p.Declaration;
+  m.text(d.DeclarationDate, "Declaration.DeclarationDate", "Declaration date");
+  m.identifier(d.Exporter.EORI, "Declaration.Exporter.EORI", "Exporter EORI");
+  m.text(
+    d.Exporter.Address.City,
+    "Declaration.Exporter.Address.City",
+    "Exporter city",
+  );
+  m.text(
+    d.Consignee.Address.City,
+    "Declaration.Consignee.Address.City",
+    "Consignee city",
+  );
+  m.identifier(
+    d.OfficeOfExport.ReferenceNumber,
+    "Declaration.OfficeOfExport.ReferenceNumber",
+    "Ausfuhrzollstelle (office of export)",
+  );
+  if (d.DeclarationType === "REEXPORT") {
+    m.nonEmpty(
+      d.PreviousDocuments.length,
+      "Declaration.PreviousDocuments",
+      "Previous document (Vorpapier) for re-export",
+    );
+  }
+  m.nonEmpty(d.Items.length, "Declaration.Items", "At least one item");
+  for (const it of d.Items) {
+    const at = `Declaration.Items[${it.ItemNumber}]`;
+    const n = `Item ${it.ItemNumber}`;
+    m.identifier(it.CNCode, `${at}.CNCode`, `${n}: CN code`);
+    m.positive(it.NetMassKg, `${at}.NetMassKg`, `${n}: net mass`);
+    it.Licenses.forEach((lic, i) =>
+      m.licence(
+        lic.Reference,
+        `${at}.Licenses[${i}].Reference`,
+        `${n}: licence number`,
+      ),
+    );
+  }
+}
+
+function checkAes(p: AesPayload, m: MissingList): void {
+  const f = p.Filing;
+  m.text(f.ExportDate, "Filing.ExportDate", "Export date");
+  m.identifier(
+    f.USPPI.IdentifierValue,
+    "Filing.USPPI.IdentifierValue",
+    `USPPI ${f.USPPI.IdentifierType}`,
+  );
+  m.text(f.USPPI.Address.Street, "Filing.USPPI.Address.Street", "USPPI street");
+  m.text(f.USPPI.Address.City, "Filing.USPPI.Address.City", "USPPI city");
+  if (f.USPPI.ContactName === "(operator)") {
+    m.fields.push({
+      path: "Filing.USPPI.ContactName",
+      label: "USPPI contact name",
+    });
+  }
+  m.identifier(
+    f.USPPI.ContactPhone,
+    "Filing.USPPI.ContactPhone",
+    "USPPI contact phone",
+  );
+  if (f.Carrier.Name === "(pending carrier)") {
+    m.fields.push({ path: "Filing.Carrier.Name", label: "Carrier name" });
+  }
+  if (f.Carrier.SCACorIATA === "ZZZZ") {
+    m.fields.push({
+      path: "Filing.Carrier.SCACorIATA",
+      label: "Carrier SCAC / IATA code",
+    });
+  }
+  m.identifier(f.PortOfExport, "Filing.PortOfExport", "Port of export");
+  m.nonEmpty(f.Commodities.length, "Filing.Commodities", "At least one line");
+  for (const c of f.Commodities) {
+    const at = `Filing.Commodities[${c.LineNumber}]`;
+    const n = `Line ${c.LineNumber}`;
+    m.identifier(c.ScheduleBOrHTS, `${at}.ScheduleBOrHTS`, `${n}: Schedule B`);
+    m.positive(
+      c.ShippingWeightKg,
+      `${at}.ShippingWeightKg`,
+      `${n}: shipping weight`,
+    );
+    // Every licence code except C30 (NLR) needs a number or exception
+    // self-reference on the line.
+    if (c.LicenseCode !== "C30") {
+      m.licence(c.LicenseNumber, `${at}.LicenseNumber`, `${n}: licence number`);
+    }
+  }
+}
+
+function checkCds(p: CdsPayload, m: MissingList): void {
+  const d = p.Declaration;
+  m.text(d.DeclarationDate, "Declaration.DeclarationDate", "Declaration date");
+  m.identifier(
+    d.Exporter.EORI,
+    "Declaration.Exporter.EORI",
+    "Exporter GB EORI",
+  );
+  m.identifier(
+    d.DeclarantEORI,
+    "Declaration.DeclarantEORI",
+    "Declarant GB EORI (DE 3/18)",
+  );
+  m.text(
+    d.Consignee.Address.City,
+    "Declaration.Consignee.Address.City",
+    "Consignee city",
+  );
+  m.identifier(
+    d.CustomsOfficeOfExit.ReferenceNumber,
+    "Declaration.CustomsOfficeOfExit.ReferenceNumber",
+    "Customs office of exit (DE 5/12)",
+  );
+  if (d.ProcedureCode === "3151") {
+    m.nonEmpty(
+      d.PreviousDocuments.length,
+      "Declaration.PreviousDocuments",
+      "Previous document (DE 2/1) for re-export",
+    );
+  }
+  m.nonEmpty(
+    d.GoodsItems.length,
+    "Declaration.GoodsItems",
+    "At least one item",
+  );
+  for (const it of d.GoodsItems) {
+    const at = `Declaration.GoodsItems[${it.SequenceNumber}]`;
+    const n = `Item ${it.SequenceNumber}`;
+    m.identifier(
+      it.CommodityCode,
+      `${at}.CommodityCode`,
+      `${n}: commodity code (DE 6/14)`,
+    );
+    m.positive(it.NetMassKg, `${at}.NetMassKg`, `${n}: net mass (DE 6/1)`);
+    // A controlled item needs an ECJU licence reference on CDS.
+    if (it.UKControlEntry && it.AdditionalDocuments.length === 0) {
+      m.fields.push({
+        path: `${at}.AdditionalDocuments`,
+        label: `${n}: export licence for ${it.UKControlEntry} (DE 2/3)`,
+      });
+    }
+    it.AdditionalDocuments.forEach((doc, i) =>
+      m.licence(
+        doc.Identifier,
+        `${at}.AdditionalDocuments[${i}].Identifier`,
+        `${n}: licence number`,
+      ),
+    );
+  }
+}
+
+function checkEdec(p: EdecPayload, m: MissingList): void {
+  const d = p.declaration;
+  m.text(d.declarationDate, "declaration.declarationDate", "Declaration date");
+  m.identifier(d.consignor.uid, "declaration.consignor.uid", "Consignor UID");
+  m.text(
+    d.consignee.address.city,
+    "declaration.consignee.address.city",
+    "Consignee city",
+  );
+  m.identifier(
+    d.customsOfficeNumber,
+    "declaration.customsOfficeNumber",
+    "Customs office of export",
+  );
+  if (d.exportType === "REEXPORT") {
+    m.nonEmpty(
+      d.previousDocuments.length,
+      "declaration.previousDocuments",
+      "Previous document (Vorpapier) for re-export",
+    );
+  }
+  m.nonEmpty(
+    d.goodsItems.length,
+    "declaration.goodsItems",
+    "At least one item",
+  );
+  for (const it of d.goodsItems) {
+    const at = `declaration.goodsItems[${it.itemNumber}]`;
+    const n = `Item ${it.itemNumber}`;
+    m.identifier(
+      it.commodityCode,
+      `${at}.commodityCode`,
+      `${n}: tariff number`,
+    );
+    m.positive(it.netMass, `${at}.netMass`, `${n}: net mass`);
+    m.positive(it.grossMass, `${at}.grossMass`, `${n}: gross mass`);
+    if (it.currency !== "CHF") {
+      m.fields.push({
+        path: `${at}.statisticalValue`,
+        label: `${n}: statistical value in CHF (is ${it.currency})`,
+      });
+    }
+    if (it.controlListEntry && it.permits.length === 0) {
+      m.fields.push({
+        path: `${at}.permits`,
+        label: `${n}: SECO permit for ${it.controlListEntry}`,
+      });
+    }
+    it.permits.forEach((permit, i) =>
+      m.licence(
+        permit.permitNumber,
+        `${at}.permits[${i}].permitNumber`,
+        `${n}: permit number`,
+      ),
+    );
+  }
+}
+
+// ─── Entry-point ──────────────────────────────────────────────────
+
+/**
+ * List every field that must be completed before `draft` can be filed.
+ * An empty `missing` list means the draft carries no placeholder,
+ * zero-fill or pending value the validator knows about — it does NOT
+ * mean the authority will accept it.
+ */
+export function validatePreSubmission(
+  draft: CustomsDeclarationDraft,
+): PreSubmissionReport {
+  const m = new MissingList();
+  switch (draft.type) {
+    case "ATLAS_DE":
+      checkAtlas(draft.payload, m);
+      break;
+    case "AES_US":
+      checkAes(draft.payload, m);
+      break;
+    case "CDS_UK":
+      checkCds(draft.payload, m);
+      break;
+    case "EDEC_CH":
+      checkEdec(draft.payload, m);
+      break;
+  }
+  return {
+    type: draft.type,
+    declaration: DECLARATION_NAMES[draft.type],
+    fileable: m.fields.length === 0,
+    missing: m.fields,
+  };
+}
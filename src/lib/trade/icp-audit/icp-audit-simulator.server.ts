@@ -0,0 +1,196 @@
+/**
+ * Caelex Trade — ICP audit simulator, data loader.
+ *
+ * Draws the audit sample for one organization and hands it to the pure
+ * `simulateIcpAudit`. Populations are loaded id-only; only the sampled
+ * operations and screening decisions are loaded in full. EUCs come from
+ * `listEucRequests` (the same read the EUC register uses) because the
+ * operation checks need every EUC of a sampled operation, not just the
+ * sampled ones.
+ *
+ * Read-only and strictly org-scoped. Org authorization is the caller's
+ * responsibility (the route resolves it via `getTradeAuth`).
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import { listEucRequests } from "@/lib/trade/euc-service";
+import {
+  DEFAULT_SAMPLE_SIZE,
+  sampleBySeed,
+  simulateIcpAudit,
+  type AuditOperation,
+  type IcpAuditReport,
+} from "./icp-audit-simulator";
+
+export interface IcpAuditRunOptions {
+  /** Records drawn per population (operations, screenings, EUCs). */
+  sampleSize?: number;
+  /** Sampling seed — defaults to the run date, so same-day re-runs agree. */
+  seed?: string;
+  now?: Date;
+}
+
+export async function runIcpAuditSimulation(
+  organizationId: string,
+  options: IcpAuditRunOptions = {},
+): Promise<IcpAuditReport> {
+  const now = options.now ?? new Date();
+  const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  const seed = options.seed ?? now.toISOString().slice(0, 10);
+
+  const [program, executedOps, screeningIds, eucs] = await Promise.all([
+    prisma.tradeComplianceProgram.findUnique({ where: { organizationId } }),
+    prisma.tradeOperation.findMany({
+      where: { organizationId, status: "EXECUTED" },
+      select: { id: true },
+    }),
+    prisma.tradeScreeningResult.findMany({
+      where: { party: { organizationId } },
+      select: { id: true },
+    }),
+    listEucRequests(organizationId),
+  ]);
+
+  const sampledOpIds = sampleBySeed(executedOps, sampleSize, seed, (o) => o.id);
+  const sampledScreeningIds = sampleBySeed(
+    screeningIds,
+    sampleSize,
+    seed,
+    (s) => s.id,
+  );
+
+  const [operations, screenings] = await Promise.all([
+    sampledOpIds.length === 0
+      ? []
+      : prisma.tradeOperation.findMany({
+          where: {
+            organizationId,
+            id: { in: sampledOpIds.map((o) => o.id) },
+          },
+          select: {
+            id: true,
+            reference: true,
+            shipToCountry: true,
+            actualShipDate: true,
+            scheduledShipDate: true,
+            createdAt: true,
+            catchAllArt4Hit: true,
+            catchAllArt5Hit: true,
+            catchAllArt9Hit: true,
+            catchAllArt10Hit: true,
+            notificationDuty: true,
+            counterparty: {
+              select: {
+                id: true,
+                canonicalName: true,
+                screeningStatus: true,
+                lastScreenedAt: true,
+              },
+            },
+            lines: {
+              select: {
+                appliedLicenseId: true,
+                item: {
+                  select: {
+                    id: true,
+                    name: true,
+                    status: true,
+                    eccnEU: true,
+                    eccnUS: true,
+                    usmlCategory: true,
+                    classificationSource: true,
+                    classificationEvidenceUrl: true,
+                  },
+                },
+              },
+            },
+            licenses: { select: { id: true } },
+          },
+        }),
+    sampledScreeningIds.length === 0
+      ? []
+      : prisma.tradeScreeningResult.findMany({
+          where: {
+            party: { organizationId },
+            id: { in: sampledScreeningIds.map((s) => s.id) },
+          },
+          select: {
+            id: true,
+            partyId: true,
+            decision: true,
+            decidedById: true,
+            decidedAt: true,
+            notes: true,
+            createdAt: true,
+            party: { select: { canonicalName: true } },
+          },
+        }),
+  ]);
+
+  return simulateIcpAudit({
+    organizationId,
+    program,
+    operations: operations.map(
+      (op): AuditOperation => ({
+        id: op.id,
+        reference: op.reference,
+        shipToCountry: op.shipToCountry,
+        actualShipDate: op.actualShipDate,
+        scheduledShipDate: op.scheduledShipDate,
+        createdAt: op.createdAt,
+        catchAllHit:
+          op.catchAllArt4Hit ||
+          op.catchAllArt5Hit ||
+          op.catchAllArt9Hit ||
+          op.catchAllArt10Hit,
+        notificationDuty: op.notificationDuty,
+        counterparty: op.counterparty,
+        lines: op.lines.map((l) => ({
+          itemId: l.item.id,
+          itemName: l.item.name,
+          itemStatus: l.item.status,
+          eccnEU: l.item.eccnEU,
+          eccnUS: l.item.eccnUS,
+          usmlCategory: l.item.usmlCategory,
+          classificationSource: l.item.classificationSource,
+          classificationEvidenceUrl: l.item.classificationEvidenceUrl,
+          appliedLicenseId: l.appliedLicenseId,
+        })),
+        licenseIds: op.licenses.map((lic) => lic.id),
+      }),
+    ),
+    screenings: screenings.map((s) => ({
+      id: s.id,
+      partyId: s.partyId,
+      partyName: s.party.canonicalName,
+      decision: s.decision,
+      decidedById: s.decidedById,
+      decidedAt: s.decidedAt,
+      notes: s.notes,
+      createdAt: s.createdAt,
+    })),
+    eucs: eucs.map((e) => ({
+      id: e.id,
+      formType: e.formType,
+      status: e.status,
+      partyName: e.party.canonicalName,
+      operationId: e.operationId,
+      operationReference: e.operation?.reference ?? null,
+      requestedAt: e.requestedAt,
+      sentAt: e.sentAt,
+      receivedAt: e.receivedAt,
+      validatedAt: e.validatedAt,
+      validUntil: e.validUntil,
+      signedDocumentId: e.signedDocumentId,
+    })),
+    executedOperationIds: executedOps.map((o) => o.id),
+    screeningPopulation: screeningIds.length,
+    seed,
+    sampleSize,
+    now,
+  });
+}
@@ -0,0 +1,357 @@
+/**
+ * Tests for icp-audit-simulator.ts — seeded sampling, the per-record
+ * checks with their evidence links, and the risk-weighted scoring.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_EVIDENCE_LINKS,
+  sampleBySeed,
+  simulateIcpAudit,
+  type AuditEuc,
+  type AuditOperation,
+  type IcpAuditInput,
+} from "./icp-audit-simulator";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const FULL_PROGRAM = {
+  empoweredOfficialName: "Dr. A. Weber",
+  empoweredOfficialEmailEnc: "enc:...",
+  empoweredOfficialTitle: "Ausfuhrverantwortliche",
+  hasTCP: true,
+  lastTrainingDate: new Date("2026-03-01"),
+  nextTrainingDue: new Date("2027-03-01"),
+  trainingCompletionRate: 95,
+  hasAutomatedScreening: true,
+  screeningVendor: "Caelex",
+  jurisdictionDetermination: "dual_use",
+  lastAuditDate: new Date("2026-01-15"),
+  nextAuditDue: new Date("2027-01-15"),
+  lastAuditFindings: "none",
+  hasVoluntaryDisclosures: true,
+  manualOverrides: Object.fromEntries(
+    [
+      "E1-01",
+      "E1-02",
+      "E1-03",
+      "E2-03",
+      "E3-03",
+      "E4-01",
+      "E4-03",
+      "E4-04",
+      "E6-01",
+      "E6-02",
+      "E6-03",
+      "E7-01",
+      "E7-02",
+      "E7-03",
+    ].map((id) => [id, true]),
+  ),
+};
+
+function op(overrides: Partial<AuditOperation> = {}): AuditOperation {
+  return {
+    id: "op-1",
+    reference: "OP-2026-001",
+    shipToCountry: "FR",
+    actualShipDate: new Date("2026-06-01"),
+    scheduledShipDate: null,
+    createdAt: new Date("2026-05-01"),
+    catchAllHit: false,
+    notificationDuty: false,
+    counterparty: {
+      id: "party-1",
+      canonicalName: "ACME SPACE SAS",
+      screeningStatus: "CLEAR",
+      lastScreenedAt: new Date("2026-05-20"),
+    },
+    lines: [
+      {
+        itemId: "item-1",
+        itemName: "Star tracker",
+        itemStatus: "CLASSIFIED",
+        eccnEU: null,
+        eccnUS: null,
+        usmlCategory: null,
+        classificationSource: "USER_DECLARED",
+        classificationEvidenceUrl: null,
+        appliedLicenseId: null,
+      },
+    ],
+    licenseIds: [],
+    ...overrides,
+  };
+}
+
+function euc(overrides: Partial<AuditEuc> = {}): AuditEuc {
+  return {
+    id: "euc-1",
+    formType: "BAFA_ANNEX_IIIA",
+    status: "VALIDATED",
+    partyName: "ACME SPACE SAS",
+    operationId: "op-1",
+    operationReference: "OP-2026-001",
+    requestedAt: new Date("2026-04-01"),
+    sentAt: new Date("2026-04-02"),
+    receivedAt: new Date("2026-04-20"),
+    validatedAt: new Date("2026-04-21"),
+    validUntil: new Date("2027-04-21"),
+    signedDocumentId: "doc-1",
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<IcpAuditInput> = {}): IcpAuditInput {
+  const operations = overrides.operations ?? [op()];
+  return {
+    organizationId: "org-1",
+    program: FULL_PROGRAM,
+    operations,
+    screenings: [],
+    eucs: [],
+    executedOperationIds: operations.map((o) => o.id),
+    screeningPopulation: 0,
+    seed: "2026-10-19",
+    sampleSize: 25,
+    now: NOW,
+    ...overrides,
+  };
+}
+
+function findingIds(report: ReturnType<typeof simulateIcpAudit>) {
+  return report.elements.flatMap((e) => e.findings.map((f) => f.id));
+}
+
+describe("sampleBySeed", () => {
+  const ids = Array.from({ length: 50 }, (_, i) => ({ id: `rec-${i}` }));
+
+  it("is reproducible per seed and independent of input order", () => {
+    const a = sampleBySeed(ids, 10, "seed-a", (r) => r.id);
+    const b = sampleBySeed([...ids].reverse(), 10, "seed-a", (r) => r.id);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(10);
+    expect(sampleBySeed(ids, 10, "seed-b", (r) => r.id)).not.toEqual(a);
+  });
+
+  it("returns the whole population when it is smaller than the sample", () => {
+    expect(sampleBySeed(ids.slice(0, 3), 10, "s", (r) => r.id)).toHaveLength(3);
+    expect(sampleBySeed(ids, 0, "s", (r) => r.id)).toEqual([]);
+  });
+});
+
+describe("simulateIcpAudit — checks", () => {
+  it("reports a clean sample against a complete programme without findings", () => {
+    const report = simulateIcpAudit(input({ eucs: [euc()] }));
+    expect(findingIds(report)).toEqual([]);
+    expect(report.overallScore).toBe(100);
+    expect(report.overallLevel).toBe("ESTABLISHED");
+    expect(report.samples.operations).toEqual({ population: 1, sampled: 1 });
+  });
+
+  it("flags unclassified items and late screening with evidence links", () => {
+    const report = simulateIcpAudit(
+      input({
+        operations: [
+          op({
+            counterparty: {
+              id: "party-9",
+              canonicalName: "ORBITAL LLC",
+              screeningStatus: "POTENTIAL_MATCH",
+              lastScreenedAt: new Date("2026-07-01"),
+            },
+            lines: [{ ...op().lines[0], itemStatus: "REQUIRES_REVIEW" }],
+          }),
+        ],
+      }),
+    );
+    const e4 = report.elements.find(
+      (e) => e.element.id === "E4_TRANSACTION_SCREENING",
+    );
+    const byId = new Map(e4?.findings.map((f) => [f.id, f]));
+    expect(byId.get("OP_ITEM_UNCLASSIFIED")?.evidence).toEqual([
+      { label: "OP-2026-001 — Star tracker", href: "/trade/items/item-1" },
+    ]);
+    expect(byId.get("OP_PARTY_NOT_SCREENED")?.evidence).toContainEqual({
+      label: "OP-2026-001 — ORBITAL LLC",
+      href: "/trade/parties/party-9",
+    });
+    expect(byId.has("OP_PARTY_FLAGGED")).toBe(true);
+    expect(e4?.maturityScore).toBe(40);
+    expect(e4?.maturityLevel).toBe("DEVELOPING");
+    expect(report.overallLevel).not.toBe("ESTABLISHED");
+  });
+
+  it("requires a received EUC and a licence on catch-all operations", () => {
+    const catchAll = op({ catchAllHit: true });
+    const report = simulateIcpAudit(
+      input({
+        operations: [catchAll],
+        eucs: [euc({ status: "SENT_TO_PARTY", signedDocumentId: null })],
+      }),
+    );
+    expect(findingIds(report)).toEqual(
+      expect.arrayContaining([
+        "OP_CATCH_ALL_NO_EUC",
+        "OP_CATCH_ALL_NO_LICENCE",
+        "EUC_OUTSTANDING_AFTER_SHIPMENT",
+      ]),
+    );
+
+    const licensed = simulateIcpAudit(
+      input({
+        operations: [{ ...catchAll, licenseIds: ["lic-1"] }],
+        eucs: [euc()],
+      }),
+    );
+    expect(findingIds(licensed)).toEqual([]);
+  });
+
+  it("tests sampled EUCs for archive copies, stale validation and lapsed validity", () => {
+    const report = simulateIcpAudit(
+      input({
+        eucs: [
+          euc({ id: "euc-a", signedDocumentId: null }),
+          euc({
+            id: "euc-b",
+            operationId: null,
+            status: "RECEIVED",
+            receivedAt: new Date("2026-08-01"),
+          }),
+          euc({
+            id: "euc-c",
+            operationId: null,
+            validUntil: new Date("2026-09-30"),
+          }),
+        ],
+      }),
+    );
+    const all = report.elements.flatMap((e) => e.findings);
+    expect(all.find((f) => f.id === "EUC_UNSIGNED")).toMatchObject({
+      elementId: "E6_RECORDKEEPING",
+      icpItemId: "E6-02",
+      affected: 1,
+      examined: 3,
+      evidence: [expect.objectContaining({ href: "/trade/euc/euc-a" })],
+    });
+    expect(findingIds(report)).toEqual(
+      expect.arrayContaining(["EUC_NOT_VALIDATED", "EUC_VALIDITY_LAPSED"]),
+    );
+  });
+
+  it("flags unresolved and undocumented screening decisions", () => {
+    const report = simulateIcpAudit(
+      input({
+        screenings: [
+          {
+            id: "scr-1",
+            partyId: "party-2",
+            partyName: "NOVA GMBH",
+            decision: "POTENTIAL_MATCH",
+            decidedById: null,
+            decidedAt: null,
+            notes: null,
+            createdAt: new Date("2026-08-01"),
+          },
+          {
+            id: "scr-2",
+            partyId: "party-3",
+            partyName: "VEGA AB",
+            decision: "FALSE_POSITIVE_DISMISSED",
+            decidedById: "user-1",
+            decidedAt: new Date("2026-09-01"),
+            notes: "  ",
+            createdAt: new Date("2026-09-01"),
+          },
+        ],
+        screeningPopulation: 40,
+      }),
+    );
+    expect(findingIds(report)).toEqual(
+      expect.arrayContaining([
+        "SCREEN_OPEN_MATCH",
+        "SCREEN_UNDOCUMENTED_DECISION",
+      ]),
+    );
+    expect(report.samples.screenings).toEqual({ population: 40, sampled: 2 });
+  });
+
+  it("checks retention on sampled operations", () => {
+    const report = simulateIcpAudit(
+      input({
+        operations: [
+          op({
+            actualShipDate: null,
+            scheduledShipDate: new Date("2021-03-01"),
+          }),
+        ],
+      }),
+    );
+    expect(findingIds(report)).toEqual(
+      expect.arrayContaining(["RET_NO_SHIP_DATE", "RET_EXPIRED"]),
+    );
+  });
+
+  it("caps evidence links per finding", () => {
+    const operations = Array.from({ length: 12 }, (_, i) =>
+      op({
+        id: `op-${i}`,
+        reference: `OP-${i}`,
+        counterparty: { ...op().counterparty, lastScreenedAt: null },
+      }),
+    );
+    const report = simulateIcpAudit(input({ operations }));
+    const finding = report.elements
+      .flatMap((e) => e.findings)
+      .find((f) => f.id === "OP_PARTY_NOT_SCREENED");
+    expect(finding?.affected).toBe(12);
+    expect(finding?.evidence).toHaveLength(MAX_EVIDENCE_LINKS);
+  });
+});
+
+describe("simulateIcpAudit — scoring", () => {
+  it("turns missing programme items into gap findings and overdue dates into findings", () => {
+    const report = simulateIcpAudit(
+      input({
+        program: {
+          ...FULL_PROGRAM,
+          nextAuditDue: new Date("2026-01-01"),
+          trainingCompletionRate: 60,
+        },
+      }),
+    );
+    const e5 = report.elements.find(
+      (e) => e.element.id === "E5_PERFORMANCE_REVIEW",
+    );
+    expect(e5?.findings.map((f) => f.id)).toEqual(["PROG_AUDIT_OVERDUE"]);
+    expect(e5?.maturityScore).toBe(90);
+
+    const empty = simulateIcpAudit(input({ program: null }));
+    expect(findingIds(empty)).toContain("PROGRAM_GAP:E2-01");
+    expect(empty.isBafaSagEligible).toBe(false);
+    expect(empty.overallLevel).toBe("INITIAL");
+  });
+
+  it("weights a recurring finding heavier than a one-off", () => {
+    const clean = op();
+    const unscreened = (id: string) =>
+      op({
+        id,
+        counterparty: { ...clean.counterparty, lastScreenedAt: null },
+      });
+    const oneOff = simulateIcpAudit(
+      input({
+        operations: [unscreened("op-x"), clean, { ...clean, id: "op-y" }],
+      }),
+    );
+    const pattern = simulateIcpAudit(
+      input({ operations: [unscreened("op-x"), unscreened("op-y")] }),
+    );
+    const e4 = (r: typeof oneOff) =>
+      r.elements.find((e) => e.element.id === "E4_TRANSACTION_SCREENING");
+    expect(e4(pattern)?.findingPenalty).toBeGreaterThan(
+      e4(oneOff)?.findingPenalty ?? 0,
+    );
+    expect(pattern.overallScore).toBeLessThan(oneOff.overallScore);
+  });
+});
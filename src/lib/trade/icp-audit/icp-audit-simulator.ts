@@ -0,0 +1,833 @@
+/**
+ * Caelex Trade — ICP audit simulator.
+ *
+ * `icp-mapping-service.ts` answers "is the programme documented?". This
+ * module answers the question a BAFA / BIS auditor actually asks next:
+ * "show me that it works". It takes a seeded, reproducible sample of
+ * completed operations, screening decisions and EUC records, tests each
+ * sampled record against the ICP 2019/1318 element it evidences, and
+ * folds the resulting findings together with the documentation
+ * completion into a risk-weighted maturity score per element.
+ *
+ * Pure: no Prisma, no clock reads — the caller passes `now` and the
+ * sampled records (see `icp-audit-simulator.server.ts`). Sampling is
+ * deterministic per (seed, record id) so a re-run with the same seed
+ * draws the same sample and the report can be reproduced for the file.
+ *
+ * The simulation is a screening aid, not an audit opinion. Findings are
+ * what an auditor would most likely ask about, ranked by severity.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { createHash } from "crypto";
+import type {
+  TradeEUCStatus,
+  TradeItemStatus,
+  TradeScreeningDecision,
+  TradeScreeningStatus,
+} from "@prisma/client";
+import {
+  ICP_ELEMENTS,
+  type ICPElement,
+  type ICPElementId,
+} from "@/data/trade/icp-2019-1318";
+import {
+  mapProgramToIcpElements,
+  type ICPProgramSnapshot,
+} from "@/lib/trade/icp-mapping-service";
+import { resolveEventDate } from "@/lib/trade/recordkeeping/retention-policy";
+import { getRetentionStatus } from "@/lib/trade/recordkeeping/retention-status";
+
+// ─── Input shape ────────────────────────────────────────────────────
+
+export interface AuditOperationLine {
+  itemId: string;
+  itemName: string;
+  itemStatus: TradeItemStatus;
+  eccnEU: string | null;
+  eccnUS: string | null;
+  usmlCategory: string | null;
+  classificationSource: string;
+  classificationEvidenceUrl: string | null;
+  appliedLicenseId: string | null;
+}
+
+/** One completed (EXECUTED) operation drawn into the sample. */
+export interface AuditOperation {
+  id: string;
+  reference: string;
+  shipToCountry: string;
+  actualShipDate: Date | null;
+  scheduledShipDate: Date | null;
+  createdAt: Date;
+  /** Any of the Art. 4 / 5 / 9 / 10 catch-all flags. */
+  catchAllHit: boolean;
+  notificationDuty: boolean;
+  counterparty: {
+    id: string;
+    canonicalName: string;
+    screeningStatus: TradeScreeningStatus;
+    lastScreenedAt: Date | null;
+  };
+  lines: AuditOperationLine[];
+  licenseIds: string[];
+}
+
+/** One TradeScreeningResult drawn into the sample. */
+export interface AuditScreening {
+  id: string;
+  partyId: string;
+  partyName: string;
+  decision: TradeScreeningDecision;
+  decidedById: string | null;
+  decidedAt: Date | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+/** One TradeEUCRequest as returned by `listEucRequests`. */
+export interface AuditEuc {
+  id: string;
+  formType: string;
+  status: TradeEUCStatus;
+  partyName: string;
+  operationId: string | null;
+  operationReference: string | null;
+  requestedAt: Date;
+  sentAt: Date | null;
+  receivedAt: Date | null;
+  validatedAt: Date | null;
+  validUntil: Date | null;
+  signedDocumentId: string | null;
+}
+
+export interface IcpAuditInput {
+  organizationId: string;
+  program: ICPProgramSnapshot | null;
+  /** Sampled completed operations. */
+  operations: AuditOperation[];
+  /** Sampled screening decisions. */
+  screenings: AuditScreening[];
+  /**
+   * ALL of the org's EUCs. Operation checks look up the EUCs of each
+   * sampled operation; the EUC checks themselves run on a sample.
+   */
+  eucs: AuditEuc[];
+  /** Ids of every completed operation (the operation population). */
+  executedOperationIds: string[];
+  /** Size of the screening-decision population the sample was drawn from. */
+  screeningPopulation: number;
+  seed: string;
+  sampleSize: number;
+  now: Date;
+}
+
+// ─── Output shape ───────────────────────────────────────────────────
+
+export type IcpFindingSeverity = "HIGH" | "MEDIUM" | "LOW" | "OBSERVATION";
+
+export type IcpMaturityLevel =
+  | "INITIAL"
+  | "DEVELOPING"
+  | "DEFINED"
+  | "ESTABLISHED";
+
+export interface IcpEvidenceLink {
+  label: string;
+  /** In-app path, e.g. `/trade/operations/{id}`. */
+  href: string;
+}
+
+export interface IcpAuditFinding {
+  /** Check id, or `PROGRAM_GAP:{itemId}` for documentation gaps. */
+  id: string;
+  elementId: ICPElementId;
+  /** ICP check item the finding evidences (e.g. "E4-02"). */
+  icpItemId: string;
+  severity: IcpFindingSeverity;
+  title: string;
+  detail: string;
+  /** Sampled records failing the check. */
+  affected: number;
+  /** Sampled records the check ran against. */
+  examined: number;
+  /** First `MAX_EVIDENCE_LINKS` failing records. */
+  evidence: IcpEvidenceLink[];
+}
+
+export interface IcpAuditElementReport {
+  element: ICPElement;
+  riskWeight: number;
+  /** 0-100 — documentation completion from the mapping service. */
+  documentationScore: number;
+  /** Points deducted for sampled findings. */
+  findingPenalty: number;
+  /** 0-100 — documentation score less finding penalty. */
+  maturityScore: number;
+  maturityLevel: IcpMaturityLevel;
+  findings: IcpAuditFinding[];
+}
+
+export interface IcpSampleStats {
+  population: number;
+  sampled: number;
+}
+
+export interface IcpAuditReport {
+  organizationId: string;
+  generatedAt: string;
+  seed: string;
+  sampleSize: number;
+  samples: {
+    operations: IcpSampleStats;
+    screenings: IcpSampleStats;
+    eucs: IcpSampleStats;
+  };
+  elements: IcpAuditElementReport[];
+  /** Risk-weighted mean of the element maturity scores. */
+  overallScore: number;
+  overallLevel: IcpMaturityLevel;
+  findingCounts: Record<IcpFindingSeverity, number>;
+  /** Documentation-only SAG screen from the mapping service. */
+  isBafaSagEligible: boolean;
+}
+
+// ─── Tunables ───────────────────────────────────────────────────────
+
+export const DEFAULT_SAMPLE_SIZE = 25;
+export const MAX_EVIDENCE_LINKS = 8;
+
+/** Unresolved screening hits / received-but-unvalidated EUCs go stale after this. */
+const STALE_AFTER_DAYS = 30;
+
+/** Training coverage below this share (percent) is a finding. */
+const MIN_TRAINING_COMPLETION = 80;
+
+/**
+ * Relative weight of each element in the overall score. Enforcement
+ * cases cluster around screening / classification failures (E4), then
+ * around missing records (E6) and an absent Ausfuhrverantwortlicher (E2).
+ */
+const ELEMENT_RISK_WEIGHT: Record<ICPElementId, number> = {
+  E1_MANAGEMENT_COMMITMENT: 1,
+  E2_ORGANISATION_RESPONSIBILITIES: 1.5,
+  E3_TRAINING_AWARENESS: 1,
+  E4_TRANSACTION_SCREENING: 3,
+  E5_PERFORMANCE_REVIEW: 1,
+  E6_RECORDKEEPING: 2,
+  E7_PHYSICAL_INFORMATION_SECURITY: 1,
+};
+
+/** Full penalty of a finding that affects every examined record. */
+const SEVERITY_PENALTY: Record<IcpFindingSeverity, number> = {
+  HIGH: 20,
+  MEDIUM: 10,
+  LOW: 4,
+  OBSERVATION: 0,
+};
+
+const SEVERITY_ORDER: IcpFindingSeverity[] = [
+  "HIGH",
+  "MEDIUM",
+  "LOW",
+  "OBSERVATION",
+];
+
+// ─── Checks ─────────────────────────────────────────────────────────
+
+type CheckId =
+  | "OP_ITEM_UNCLASSIFIED"
+  | "OP_PARTY_NOT_SCREENED"
+  | "OP_PARTY_FLAGGED"
+  | "OP_CONTROLLED_NO_EUC"
+  | "OP_CATCH_ALL_NO_EUC"
+  | "OP_CATCH_ALL_NO_LICENCE"
+  | "OP_CLASSIFICATION_RATIONALE"
+  | "SCREEN_OPEN_MATCH"
+  | "SCREEN_UNDOCUMENTED_DECISION"
+  | "EUC_OUTSTANDING_AFTER_SHIPMENT"
+  | "EUC_VALIDITY_LAPSED"
+  | "EUC_NOT_VALIDATED"
+  | "EUC_UNSIGNED"
+  | "RET_NO_SHIP_DATE"
+  | "RET_EXPIRED"
+  | "RET_EXPIRING"
+  | "PROG_AUDIT_OVERDUE"
+  | "PROG_TRAINING_OVERDUE"
+  | "PROG_TRAINING_COVERAGE";
+
+interface CheckDefinition {
+  icpItemId: string;
+  severity: IcpFindingSeverity;
+  title: string;
+  detail: string;
+}
+
+const CHECKS: Record<CheckId, CheckDefinition> = {
+  OP_ITEM_UNCLASSIFIED: {
+    icpItemId: "E4-01",
+    severity: "HIGH",
+    title: "Items shipped without a final classification",
+    detail:
+      "Completed operations carry items still in DRAFT or REQUIRES_REVIEW. An auditor will treat the shipment as unclassified.",
+  },
+  OP_PARTY_NOT_SCREENED: {
+    icpItemId: "E4-02",
+    severity: "HIGH",
+    title: "Counterparty not screened before shipment",
+    detail:
+      "No denied-party screening is on record for the counterparty on or before the ship date.",
+  },
+  OP_PARTY_FLAGGED: {
+    icpItemId: "E4-02",
+    severity: "HIGH",
+    title: "Shipment to a counterparty with an open or confirmed hit",
+    detail:
+      "The counterparty's current screening status is POTENTIAL_MATCH or CONFIRMED_HIT.",
+  },
+  OP_CONTROLLED_NO_EUC: {
+    icpItemId: "E4-03",
+    severity: "MEDIUM",
+    title: "Controlled items shipped without an end-use statement",
+    detail:
+      "At least one line carries a control code but no end-user certificate was requested for the operation.",
+  },
+  OP_CATCH_ALL_NO_EUC: {
+    icpItemId: "E4-04",
+    severity: "HIGH",
+    title: "Catch-all or notification case shipped without a received EUC",
+    detail:
+      "A catch-all flag or notification duty was raised, yet no EUC for the operation reached RECEIVED or VALIDATED.",
+  },
+  OP_CATCH_ALL_NO_LICENCE: {
+    icpItemId: "E4-04",
+    severity: "HIGH",
+    title: "Catch-all case shipped without a licence on file",
+    detail:
+      "A catch-all flag was raised but neither the operation nor any line references a licence.",
+  },
+  OP_CLASSIFICATION_RATIONALE: {
+    icpItemId: "E6-03",
+    severity: "LOW",
+    title: "Self-declared classification without stored rationale",
+    detail:
+      "The item was classified by user declaration and no classification evidence is linked.",
+  },
+  SCREEN_OPEN_MATCH: {
+    icpItemId: "E4-02",
+    severity: "MEDIUM",
+    title: "Potential screening matches left unresolved",
+    detail: `POTENTIAL_MATCH decisions older than ${STALE_AFTER_DAYS} days without a reviewer.`,
+  },
+  SCREEN_UNDOCUMENTED_DECISION: {
+    icpItemId: "E4-02",
+    severity: "MEDIUM",
+    title: "Screening decisions without reviewer or rationale",
+    detail:
+      "Confirmed or dismissed hits must name the deciding reviewer and record why.",
+  },
+  EUC_OUTSTANDING_AFTER_SHIPMENT: {
+    icpItemId: "E4-03",
+    severity: "HIGH",
+    title: "EUC still outstanding for a completed operation",
+    detail:
+      "The operation has shipped while its EUC is requested, sent, expired or revoked.",
+  },
+  EUC_VALIDITY_LAPSED: {
+    icpItemId: "E4-03",
+    severity: "LOW",
+    title: "EUC validity lapsed without a status update",
+    detail: "The EUC is past its validity date but still shown as VALIDATED.",
+  },
+  EUC_NOT_VALIDATED: {
+    icpItemId: "E4-03",
+    severity: "LOW",
+    title: "Received EUCs not validated",
+    detail: `Signed EUCs received more than ${STALE_AFTER_DAYS} days ago have not been checked.`,
+  },
+  EUC_UNSIGNED: {
+    icpItemId: "E6-02",
+    severity: "MEDIUM",
+    title: "Received EUCs without an archived signed copy",
+    detail:
+      "The EUC is RECEIVED or VALIDATED but no signed document is attached.",
+  },
+  RET_NO_SHIP_DATE: {
+    icpItemId: "E6-01",
+    severity: "MEDIUM",
+    title: "Completed operations without an actual ship date",
+    detail:
+      "The retention clock runs from the scheduled or creation date instead of the export date.",
+  },
+  RET_EXPIRED: {
+    icpItemId: "E6-01",
+    severity: "LOW",
+    title: "Records past their retention cutoff",
+    detail:
+      "The statutory retention period has ended; an archival or deletion decision is outstanding.",
+  },
+  RET_EXPIRING: {
+    icpItemId: "E6-01",
+    severity: "OBSERVATION",
+    title: "Records approaching their retention cutoff",
+    detail: "Retention ends within 90 days.",
+  },
+  PROG_AUDIT_OVERDUE: {
+    icpItemId: "E5-01",
+    severity: "MEDIUM",
+    title: "Periodic ICP audit overdue",
+    detail: "The programme's next audit due date has passed.",
+  },
+  PROG_TRAINING_OVERDUE: {
+    icpItemId: "E3-01",
+    severity: "MEDIUM",
+    title: "Export-control training overdue",
+    detail: "The programme's next training due date has passed.",
+  },
+  PROG_TRAINING_COVERAGE: {
+    icpItemId: "E3-02",
+    severity: "LOW",
+    title: "Training coverage below target",
+    detail: `Less than ${MIN_TRAINING_COMPLETION}% of staff have completed the current training.`,
+  },
+};
+
+const PROGRAM_HREF = "/trade/program";
+
+// ─── Sampling ───────────────────────────────────────────────────────
+
+/**
+ * Deterministic sample: order ids by sha256(seed:id) and take the first
+ * `size`. Independent of the input order and of population growth — a
+ * record in the sample stays in it unless a lower-ranked record arrives.
+ */
+export function sampleBySeed<T>(
+  records: readonly T[],
+  size: number,
+  seed: string,
+  idOf: (record: T) => string,
+): T[] {
+  if (size <= 0) return [];
+  return records
+    .map((record) => ({ record, rank: rankOf(seed, idOf(record)) }))
+    .sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0))
+    .slice(0, size)
+    .map((r) => r.record);
+}
+
+function rankOf(seed: string, id: string): string {
+  return createHash("sha256").update(`${seed}:${id}`).digest("hex");
+}
+
+// ─── Core ───────────────────────────────────────────────────────────
+
+interface CheckTally {
+  examined: number;
+  affected: Set<string>;
+  evidence: Map<string, IcpEvidenceLink>;
+}
+
+export function simulateIcpAudit(input: IcpAuditInput): IcpAuditReport {
+  const { now } = input;
+  const tallies = new Map<CheckId, CheckTally>();
+
+  const examine = (check: CheckId, count: number) => {
+    tallyFor(tallies, check).examined += count;
+  };
+  const fail = (
+    check: CheckId,
+    recordId: string,
+    ...links: IcpEvidenceLink[]
+  ) => {
+    const tally = tallyFor(tallies, check);
+    tally.affected.add(recordId);
+    for (const link of links) {
+      if (tally.evidence.size >= MAX_EVIDENCE_LINKS) break;
+      if (!tally.evidence.has(link.href)) tally.evidence.set(link.href, link);
+    }
+  };
+
+  const checkRetention = (
+    recordId: string,
+    recordType: "OPERATION" | "EUC",
+    trigger: Date | null,
+    link: IcpEvidenceLink,
+  ) => {
+    examine("RET_EXPIRED", 1);
+    examine("RET_EXPIRING", 1);
+    const { status } = getRetentionStatus(recordType, trigger, now);
+    if (status === "expired") fail("RET_EXPIRED", recordId, link);
+    if (status === "expiring-soon") fail("RET_EXPIRING", recordId, link);
+  };
+
+  // ── Completed operations ──
+  const eucsByOperation = new Map<string, AuditEuc[]>();
+  for (const euc of input.eucs) {
+    if (!euc.operationId) continue;
+    const list = eucsByOperation.get(euc.operationId) ?? [];
+    list.push(euc);
+    eucsByOperation.set(euc.operationId, list);
+  }
+
+  const ops = input.operations;
+  for (const check of [
+    "OP_ITEM_UNCLASSIFIED",
+    "OP_PARTY_NOT_SCREENED",
+    "OP_PARTY_FLAGGED",
+    "OP_CONTROLLED_NO_EUC",
+    "OP_CATCH_ALL_NO_EUC",
+    "OP_CATCH_ALL_NO_LICENCE",
+    "OP_CLASSIFICATION_RATIONALE",
+    "RET_NO_SHIP_DATE",
+  ] as const) {
+    examine(check, ops.length);
+  }
+
+  for (const op of ops) {
+    const opLink = operationLink(op);
+    const shipDate = resolveEventDate([
+      op.actualShipDate,
+      op.scheduledShipDate,
+      op.createdAt,
+    ]);
+
+    for (const line of op.lines) {
+      if (
+        line.itemStatus === "DRAFT" ||
+        line.itemStatus === "REQUIRES_REVIEW"
+      ) {
+        fail("OP_ITEM_UNCLASSIFIED", op.id, itemLink(op, line));
+      } else if (
+        line.classificationSource === "USER_DECLARED" &&
+        !line.classificationEvidenceUrl &&
+        isControlled(line)
+      ) {
+        fail("OP_CLASSIFICATION_RATIONALE", op.id, itemLink(op, line));
+      }
+    }
+
+    const party = op.counterparty;
+    const partyLink = {
+      label: `${op.reference} — ${party.canonicalName}`,
+      href: `/trade/parties/${party.id}`,
+    };
+    if (
+      !party.lastScreenedAt ||
+      (shipDate !== null && party.lastScreenedAt > shipDate)
+    ) {
+      fail("OP_PARTY_NOT_SCREENED", op.id, opLink, partyLink);
+    }
+    if (
+      party.screeningStatus === "POTENTIAL_MATCH" ||
+      party.screeningStatus === "CONFIRMED_HIT"
+    ) {
+      fail("OP_PARTY_FLAGGED", op.id, opLink, partyLink);
+    }
+
+    const eucs = eucsByOperation.get(op.id) ?? [];
+    const liveEucs = eucs.filter((e) => e.status !== "REVOKED");
+    const receivedEucs = eucs.filter(
+      (e) => e.status === "RECEIVED" || e.status === "VALIDATED",
+    );
+    if (op.lines.some(isControlled) && liveEucs.length === 0) {
+      fail("OP_CONTROLLED_NO_EUC", op.id, opLink);
+    }
+    if ((op.catchAllHit || op.notificationDuty) && receivedEucs.length === 0) {
+      fail("OP_CATCH_ALL_NO_EUC", op.id, opLink);
+    }
+    if (
+      op.catchAllHit &&
+      op.licenseIds.length === 0 &&
+      !op.lines.some((l) => l.appliedLicenseId)
+    ) {
+      fail("OP_CATCH_ALL_NO_LICENCE", op.id, opLink);
+    }
+
+    if (!op.actualShipDate) fail("RET_NO_SHIP_DATE", op.id, opLink);
+    checkRetention(op.id, "OPERATION", shipDate, opLink);
+  }
+
+  // ── Screening decisions ──
+  examine("SCREEN_OPEN_MATCH", input.screenings.length);
+  examine("SCREEN_UNDOCUMENTED_DECISION", input.screenings.length);
+  for (const s of input.screenings) {
+    const link = {
+      label: `${s.partyName} — ${s.decision} (${isoDate(s.createdAt)})`,
+      href: `/trade/parties/${s.partyId}`,
+    };
+    if (
+      s.decision === "POTENTIAL_MATCH" &&
+      daysBetween(s.createdAt, now) > STALE_AFTER_DAYS
+    ) {
+      fail("SCREEN_OPEN_MATCH", s.id, link);
+    }
+    if (
+      (s.decision === "CONFIRMED_HIT" ||
+        s.decision === "FALSE_POSITIVE_DISMISSED") &&
+      (!s.decidedById || !s.notes?.trim())
+    ) {
+      fail("SCREEN_UNDOCUMENTED_DECISION", s.id, link);
+    }
+  }
+
+  // ── EUCs ──
+  const executed = new Set(input.executedOperationIds);
+  const sampledEucs = sampleBySeed(
+    input.eucs,
+    input.sampleSize,
+    input.seed,
+    (e) => e.id,
+  );
+  for (const check of [
+    "EUC_OUTSTANDING_AFTER_SHIPMENT",
+    "EUC_VALIDITY_LAPSED",
+    "EUC_NOT_VALIDATED",
+    "EUC_UNSIGNED",
+  ] as const) {
+    examine(check, sampledEucs.length);
+  }
+  for (const euc of sampledEucs) {
+    const link = {
+      label: `${euc.formType} EUC — ${euc.partyName}${
+        euc.operationReference ? ` (${euc.operationReference})` : ""
+      }`,
+      href: `/trade/euc/${euc.id}`,
+    };
+    if (
+      euc.operationId &&
+      executed.has(euc.operationId) &&
+      euc.status !== "RECEIVED" &&
+      euc.status !== "VALIDATED"
+    ) {
+      fail("EUC_OUTSTANDING_AFTER_SHIPMENT", euc.id, link);
+    }
+    if (euc.status === "VALIDATED" && euc.validUntil && euc.validUntil < now) {
+      fail("EUC_VALIDITY_LAPSED", euc.id, link);
+    }
+    if (
+      euc.status === "RECEIVED" &&
+      euc.receivedAt &&
+      daysBetween(euc.receivedAt, now) > STALE_AFTER_DAYS
+    ) {
+      fail("EUC_NOT_VALIDATED", euc.id, link);
+    }
+    if (
+      (euc.status === "RECEIVED" || euc.status === "VALIDATED") &&
+      !euc.signedDocumentId
+    ) {
+      fail("EUC_UNSIGNED", euc.id, link);
+    }
+    checkRetention(
+      euc.id,
+      "EUC",
+      resolveEventDate([
+        euc.validatedAt,
+        euc.receivedAt,
+        euc.sentAt,
+        euc.requestedAt,
+      ]),
+      link,
+    );
+  }
+
+  // ── Programme record ──
+  const program = input.program ?? {};
+  const programLink = { label: "Compliance programme", href: PROGRAM_HREF };
+  if (program.nextAuditDue) {
+    examine("PROG_AUDIT_OVERDUE", 1);
+    if (program.nextAuditDue < now) {
+      fail("PROG_AUDIT_OVERDUE", "program", programLink);
+    }
+  }
+  if (program.nextTrainingDue) {
+    examine("PROG_TRAINING_OVERDUE", 1);
+    if (program.nextTrainingDue < now) {
+      fail("PROG_TRAINING_OVERDUE", "program", programLink);
+    }
+  }
+  if (
+    program.trainingCompletionRate !== null &&
+    program.trainingCompletionRate !== undefined
+  ) {
+    examine("PROG_TRAINING_COVERAGE", 1);
+    if (program.trainingCompletionRate < MIN_TRAINING_COMPLETION) {
+      fail("PROG_TRAINING_COVERAGE", "program", programLink);
+    }
+  }
+
+  // ── Fold into per-element reports ──
+  const mapping = mapProgramToIcpElements(program);
+  const findings: IcpAuditFinding[] = [];
+
+  for (const [check, tally] of tallies) {
+    if (tally.affected.size === 0) continue;
+    const def = CHECKS[check];
+    findings.push({
+      id: check,
+      elementId: elementOf(def.icpItemId),
+      icpItemId: def.icpItemId,
+      severity: def.severity,
+      title: def.title,
+      detail: def.detail,
+      affected: tally.affected.size,
+      examined: Math.max(tally.examined, tally.affected.size),
+      evidence: Array.from(tally.evidence.values()),
+    });
+  }
+
+  for (const er of mapping.elements) {
+    for (const ir of er.items) {
+      if (ir.satisfied) continue;
+      findings.push({
+        id: `PROGRAM_GAP:${ir.item.id}`,
+        elementId: er.element.id,
+        icpItemId: ir.item.id,
+        severity: ir.item.mandatory ? "MEDIUM" : "OBSERVATION",
+        title: `Programme gap: ${ir.item.title}`,
+        detail: ir.item.guidance,
+        affected: 1,
+        examined: 1,
+        evidence: [programLink],
+      });
+    }
+  }
+
+  const elements: IcpAuditElementReport[] = mapping.elements.map((er) => {
+    const elementFindings = findings
+      .filter((f) => f.elementId === er.element.id)
+      .sort(
+        (a, b) =>
+          SEVERITY_ORDER.indexOf(a.severity) -
+            SEVERITY_ORDER.indexOf(b.severity) ||
+          a.icpItemId.localeCompare(b.icpItemId),
+      );
+    const documentationScore = Math.round(
+      100 * (0.7 * er.mandatoryCompletion + 0.3 * er.completion),
+    );
+    const findingPenalty = Math.round(
+      elementFindings.reduce((sum, f) => sum + penaltyOf(f), 0),
+    );
+    const maturityScore = Math.max(0, documentationScore - findingPenalty);
+    return {
+      element: er.element,
+      riskWeight: ELEMENT_RISK_WEIGHT[er.element.id],
+      documentationScore,
+      findingPenalty,
+      maturityScore,
+      maturityLevel: levelFor(
+        maturityScore,
+        elementFindings.some((f) => f.severity === "HIGH"),
+      ),
+      findings: elementFindings,
+    };
+  });
+
+  const totalWeight = elements.reduce((sum, e) => sum + e.riskWeight, 0);
+  const overallScore = Math.round(
+    elements.reduce((sum, e) => sum + e.riskWeight * e.maturityScore, 0) /
+      totalWeight,
+  );
+
+  const findingCounts: Record<IcpFindingSeverity, number> = {
+    HIGH: 0,
+    MEDIUM: 0,
+    LOW: 0,
+    OBSERVATION: 0,
+  };
+  for (const f of findings) findingCounts[f.severity] += 1;
+
+  return {
+    organizationId: input.organizationId,
+    generatedAt: now.toISOString(),
+    seed: input.seed,
+    sampleSize: input.sampleSize,
+    samples: {
+      operations: {
+        population: input.executedOperationIds.length,
+        sampled: ops.length,
+      },
+      screenings: {
+        population: input.screeningPopulation,
+        sampled: input.screenings.length,
+      },
+      eucs: { population: input.eucs.length, sampled: sampledEucs.length },
+    },
+    elements,
+    overallScore,
+    overallLevel: levelFor(overallScore, findingCounts.HIGH > 0),
+    findingCounts,
+    isBafaSagEligible: mapping.isBafaSagEligible,
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function tallyFor(tallies: Map<CheckId, CheckTally>, check: CheckId) {
+  let tally = tallies.get(check);
+  if (!tally) {
+    tally = { examined: 0, affected: new Set(), evidence: new Map() };
+    tallies.set(check, tally);
+  }
+  return tally;
+}
+
+/**
+ * Half the severity weight for any failure, the other half scaled by the
+ * failure rate in the sample — one bad record is a finding, a pattern is
+ * a worse one.
+ */
+function penaltyOf(f: IcpAuditFinding): number {
+  const rate = f.examined > 0 ? Math.min(1, f.affected / f.examined) : 1;
+  return SEVERITY_PENALTY[f.severity] * (0.5 + 0.5 * rate);
+}
+
+/** A HIGH finding caps the level at DEVELOPING whatever the score. */
+function levelFor(score: number, hasHigh: boolean): IcpMaturityLevel {
+  const level: IcpMaturityLevel =
+    score >= 85
+      ? "ESTABLISHED"
+      : score >= 65
+        ? "DEFINED"
+        : score >= 40
+          ? "DEVELOPING"
+          : "INITIAL";
+  if (hasHigh && (level === "ESTABLISHED" || level === "DEFINED")) {
+    return "DEVELOPING";
+  }
+  return level;
+}
+
+function elementOf(icpItemId: string): ICPElementId {
+  const element = ICP_ELEMENTS.find((e) =>
+    e.items.some((i) => i.id === icpItemId),
+  );
+  // CHECKS only reference ids from the static catalogue.
+  return (element ?? ICP_ELEMENTS[0]).id;
+}
+
+function isControlled(line: AuditOperationLine): boolean {
+  return Boolean(line.eccnEU || line.eccnUS || line.usmlCategory);
+}
+
+function operationLink(op: AuditOperation): IcpEvidenceLink {
+  return {
+    label: `${op.reference} (ship-to ${op.shipToCountry})`,
+    href: `/trade/operations/${op.id}`,
+  };
+}
+
+function itemLink(op: AuditOperation, line: AuditOperationLine) {
+  return {
+    label: `${op.reference} — ${line.itemName}`,
+    href: `/trade/items/${line.itemId}`,
+  };
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / 86_400_000;
+}
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
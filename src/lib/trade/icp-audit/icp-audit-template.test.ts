@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import { buildIcpAuditDocument } from "./icp-audit-template";
+import { simulateIcpAudit } from "./icp-audit-simulator";
+
+const REPORT = simulateIcpAudit({
+  organizationId: "org-1",
+  program: null,
+  operations: [
+    {
+      id: "op-1",
+      reference: "OP-2026-001",
+      shipToCountry: "IN",
+      actualShipDate: new Date("2026-06-01"),
+      scheduledShipDate: null,
+      createdAt: new Date("2026-05-01"),
+      catchAllHit: false,
+      notificationDuty: false,
+      counterparty: {
+        id: "party-1",
+        canonicalName: "ORBITAL PVT LTD",
+        screeningStatus: "CLEAR",
+        lastScreenedAt: null,
+      },
+      lines: [],
+      licenseIds: [],
+    },
+  ],
+  screenings: [],
+  eucs: [],
+  executedOperationIds: ["op-1", "op-2"],
+  screeningPopulation: 0,
+  seed: "2026-10-19",
+  sampleSize: 25,
+  now: new Date("2026-10-19T12:00:00Z"),
+});
+
+describe("buildIcpAuditDocument", () => {
+  const doc = buildIcpAuditDocument(REPORT, "Caelex Test GmbH");
+
+  it("emits summary, one section per ICP element, method and review", () => {
+    expect(doc.sections.map((s) => s.id)).toEqual([
+      "summary",
+      "E1_MANAGEMENT_COMMITMENT",
+      "E2_ORGANISATION_RESPONSIBILITIES",
+      "E3_TRAINING_AWARENESS",
+      "E4_TRANSACTION_SCREENING",
+      "E5_PERFORMANCE_REVIEW",
+      "E6_RECORDKEEPING",
+      "E7_PHYSICAL_INFORMATION_SECURITY",
+      "method",
+      "sign-off",
+    ]);
+    expect(doc.preparedOn).toBe("2026-10-19");
+    expect(doc.filerOrgName).toBe("Caelex Test GmbH");
+  });
+
+  it("prints the sample and the overall score in the summary", () => {
+    const summary = doc.sections[0];
+    const byLabel = new Map(summary.fields.map((f) => [f.label, f.value]));
+    expect(byLabel.get("Overall maturity")).toBe(
+      `${REPORT.overallScore} / 100 — ${REPORT.overallLevel}`,
+    );
+    expect(byLabel.get("Sample")).toContain("1 of 2 completed operations");
+    expect(byLabel.get("Sampling seed")).toBe("2026-10-19");
+  });
+
+  it("lists findings with rate and evidence paths per element", () => {
+    const e4 = doc.sections.find((s) => s.id === "E4_TRANSACTION_SCREENING");
+    const screening = e4?.bullets?.find((b) =>
+      b.includes("Counterparty not screened before shipment"),
+    );
+    expect(screening).toContain("[HIGH] E4-02");
+    expect(screening).toContain("(1 of 1 sampled)");
+    expect(screening).toContain("</trade/parties/party-1>");
+  });
+
+  it("leaves the review sign-off blank and required", () => {
+    const signOff = doc.sections[doc.sections.length - 1];
+    expect(signOff.fields[0]).toMatchObject({ value: null, required: true });
+  });
+});
@@ -0,0 +1,177 @@
+import "server-only";
+import type { VsdSection } from "@/lib/trade/vsd-pdf/vsd-shared";
+import type {
+  SectionedPdfChrome,
+  SectionedPdfDocument,
+} from "@/lib/trade/vsd-pdf/vsd-pdf-renderer";
+import type {
+  IcpAuditElementReport,
+  IcpAuditFinding,
+  IcpAuditReport,
+} from "./icp-audit-simulator";
+
+/**
+ * Caelex Trade — ICP audit simulation report template.
+ *
+ * Builds the sectioned document model for an `IcpAuditReport` so it
+ * renders through the same jsPDF layout as the VSD filings
+ * (`renderSectionedPdf`). One section per ICP 2019/1318 element, each
+ * listing its findings with the sampled evidence behind them.
+ *
+ * Format references:
+ *  - Commission Recommendation (EU) 2019/1318, Element 5 — performance
+ *    review, audits, reporting and corrective actions
+ *  - BAFA Merkblatt zu Internal Compliance Programmes
+ */
+
+const ICP_AUDIT_DOCUMENT_CODE =
+  "ICP audit simulation — Commission Recommendation (EU) 2019/1318";
+
+export const ICP_AUDIT_PDF_CHROME: SectionedPdfChrome = {
+  kicker: "INTERNAL COMPLIANCE PROGRAMME — AUDIT SIMULATION",
+  partyLabel: "Organisation",
+  disclaimer:
+    "SIMULATED AUDIT ON A SAMPLE — NOT AN AUDIT OPINION. PRIVILEGED COMPLIANCE WORK-PRODUCT. NOT LEGAL ADVICE.",
+};
+
+export function buildIcpAuditDocument(
+  report: IcpAuditReport,
+  orgName: string,
+): SectionedPdfDocument {
+  return {
+    title: "ICP Audit Simulation",
+    documentCode: ICP_AUDIT_DOCUMENT_CODE,
+    preparedOn: report.generatedAt.slice(0, 10),
+    filerOrgName: orgName,
+    sections: [
+      buildSummarySection(report),
+      ...report.elements.map(buildElementSection),
+      buildMethodSection(report),
+      buildSignOffSection(),
+    ],
+  };
+}
+
+// ─── Section builders ───────────────────────────────────────────────
+
+function buildSummarySection(report: IcpAuditReport): VsdSection {
+  const { samples, findingCounts } = report;
+  return {
+    id: "summary",
+    ordinal: "",
+    title: "Summary",
+    paragraph:
+      "Simulated BAFA / BIS compliance audit of the internal compliance " +
+      "programme. Completed operations, screening decisions and EUC " +
+      "records were sampled and tested against the seven ICP elements; " +
+      "findings are weighted by severity and by how often they recur in " +
+      "the sample.",
+    fields: [
+      {
+        label: "Overall maturity",
+        value: `${report.overallScore} / 100 — ${report.overallLevel}`,
+        required: false,
+      },
+      {
+        label: "Findings",
+        value: `${findingCounts.HIGH} high · ${findingCounts.MEDIUM} medium · ${findingCounts.LOW} low · ${findingCounts.OBSERVATION} observations`,
+        required: false,
+      },
+      {
+        label: "Sample",
+        value:
+          `${samples.operations.sampled} of ${samples.operations.population} completed operations · ` +
+          `${samples.screenings.sampled} of ${samples.screenings.population} screening decisions · ` +
+          `${samples.eucs.sampled} of ${samples.eucs.population} EUCs`,
+        required: false,
+      },
+      {
+        label: "Sampling seed",
+        value: report.seed,
+        required: false,
+      },
+      {
+        label: "BAFA SAG documentation screen",
+        value: report.isBafaSagEligible
+          ? "Mandatory items at or above 80 % documented"
+          : "Mandatory items below 80 % documented",
+        required: false,
+      },
+    ],
+    bullets: report.elements.map(
+      (e) =>
+        `${e.element.ordinal}. ${e.element.title}: ${e.maturityScore} / 100 (${e.maturityLevel})`,
+    ),
+  };
+}
+
+function buildElementSection(e: IcpAuditElementReport): VsdSection {
+  return {
+    id: e.element.id,
+    ordinal: `${e.element.ordinal}.`,
+    title: `${e.element.title} (${e.element.titleDe})`,
+    paragraph: e.element.summary,
+    fields: [
+      {
+        label: "Maturity score",
+        value: `${e.maturityScore} / 100 — ${e.maturityLevel}`,
+        required: false,
+      },
+      {
+        label: "Documentation score · finding penalty · risk weight",
+        value: `${e.documentationScore} · -${e.findingPenalty} · ×${e.riskWeight}`,
+        required: false,
+      },
+    ],
+    bullets:
+      e.findings.length > 0
+        ? e.findings.map(formatFinding)
+        : ["No findings in the sampled records."],
+  };
+}
+
+function buildMethodSection(report: IcpAuditReport): VsdSection {
+  return {
+    id: "method",
+    ordinal: "",
+    title: "Method",
+    fields: [],
+    bullets: [
+      `Up to ${report.sampleSize} records were drawn per population, ordered by a hash of the seed and the record id. Re-running with the same seed reproduces the sample.`,
+      "Documentation score: 70 % mandatory-item and 30 % all-item completion of the programme record.",
+      "Finding penalty: high 20, medium 10, low 4 points — half for any occurrence, half scaled by the failure rate in the sample.",
+      "Any high-severity finding caps the maturity level at DEVELOPING.",
+      "Evidence paths are relative to the Caelex Trade workspace.",
+    ],
+  };
+}
+
+function buildSignOffSection(): VsdSection {
+  return {
+    id: "sign-off",
+    ordinal: "",
+    title: "Review",
+    fields: [
+      {
+        label: "Reviewed by (Ausfuhrverantwortlicher)",
+        value: null,
+        required: true,
+      },
+      { label: "Date", value: null, required: true },
+      { label: "Corrective actions agreed", value: null, required: false },
+    ],
+  };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function formatFinding(f: IcpAuditFinding): string {
+  const rate = f.id.startsWith("PROGRAM_GAP:")
+    ? ""
+    : ` (${f.affected} of ${f.examined} sampled)`;
+  const evidence =
+    f.evidence.length > 0
+      ? ` Evidence: ${f.evidence.map((l) => `${l.label} <${l.href}>`).join("; ")}`
+      : "";
+  return `[${f.severity}] ${f.icpItemId} ${f.title}${rate}. ${f.detail}${evidence}`;
+}
@@ -0,0 +1,208 @@
+/**
+ * Tests for license-ledger.server.ts — booking an EXECUTED shipment
+ * against its licences and loading the usage report.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    tradeOperation: { findFirst: vi.fn() },
+    tradeLicense: {
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    tradeLicenseLedgerEntry: {
+      findMany: vi.fn(),
+      groupBy: vi.fn(),
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: db }));
+
+import {
+  getLicenseUsageReport,
+  LicenseCapExceededError,
+  LicenseNotFoundError,
+  recordOperationShipment,
+} from "./license-ledger.server";
+
+const tx = db as never;
+const INPUT = {
+  organizationId: "org-1",
+  operationId: "op-1",
+  recordedById: "user-1",
+};
+
+function opLine(over: Record<string, unknown> = {}) {
+  return {
+    id: "line-1",
+    quantity: 2,
+    unitValue: BigInt(5_000_000),
+    unitCurrency: "EUR",
+    item: {
+      name: "Star tracker",
+      eccnEU: "9A515.a",
+      eccnUS: null,
+      usmlCategory: null,
+      mtcrCategory: null,
+      germanAlEntry: null,
+    },
+    appliedLicenseId: "lic-1",
+    ...over,
+  };
+}
+
+function licenseRow(over: Record<string, unknown> = {}) {
+  return {
+    id: "lic-1",
+    licenseNumber: "BAFA-2026-0042",
+    conditions: {},
+    totalCapValue: BigInt(50_000_000),
+    drawnDownValue: BigInt(30_000_000),
+    capCurrency: "EUR",
+    ...over,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.tradeOperation.findFirst.mockResolvedValue({
+    reference: "OP-2026-001",
+    lines: [opLine()],
+  });
+  db.tradeLicenseLedgerEntry.findMany.mockResolvedValue([]);
+  db.tradeLicenseLedgerEntry.groupBy.mockResolvedValue([]);
+  db.tradeLicense.findMany.mockResolvedValue([licenseRow()]);
+});
+
+describe("recordOperationShipment", () => {
+  it("locks the licence, books one entry per line and grows drawnDownValue", async () => {
+    const result = await recordOperationShipment(tx, INPUT);
+
+    expect(db.tradeLicense.updateMany).toHaveBeenCalledWith({
+      where: { id: "lic-1", organizationId: "org-1" },
+      data: { drawnDownValue: { increment: BigInt(0) } },
+    });
+    expect(db.tradeLicense.update).toHaveBeenCalledWith({
+      where: { id: "lic-1" },
+      data: { drawnDownValue: { increment: BigInt(10_000_000) } },
+    });
+    expect(db.tradeLicenseLedgerEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          licenseId: "lic-1",
+          operationId: "op-1",
+          operationReference: "OP-2026-001",
+          operationLineId: "line-1",
+          quantity: 2,
+          value: BigInt(10_000_000),
+          recordedById: "user-1",
+        }),
+      ],
+    });
+    expect(result.crossings).toEqual([
+      expect.objectContaining({
+        licenseId: "lic-1",
+        meter: expect.objectContaining({ levelAfter: "WARNING" }),
+      }),
+    ]);
+  });
+
+  it("throws LicenseCapExceededError and writes nothing past the cap", async () => {
+    db.tradeLicense.findMany.mockResolvedValue([
+      licenseRow({ drawnDownValue: BigInt(45_000_000) }),
+    ]);
+
+    await expect(recordOperationShipment(tx, INPUT)).rejects.toBeInstanceOf(
+      LicenseCapExceededError,
+    );
+    expect(db.tradeLicense.update).not.toHaveBeenCalled();
+    expect(db.tradeLicenseLedgerEntry.createMany).not.toHaveBeenCalled();
+  });
+
+  it("skips lines already in the ledger and lines without a licence", async () => {
+    db.tradeOperation.findFirst.mockResolvedValue({
+      reference: "OP-2026-001",
+      lines: [opLine(), opLine({ id: "line-2", appliedLicenseId: null })],
+    });
+    db.tradeLicenseLedgerEntry.findMany.mockResolvedValue([
+      { operationLineId: "line-1" },
+    ]);
+
+    const result = await recordOperationShipment(tx, INPUT);
+
+    expect(result).toEqual({ projections: [], crossings: [] });
+    expect(db.tradeLicense.updateMany).not.toHaveBeenCalled();
+    expect(db.tradeLicenseLedgerEntry.createMany).not.toHaveBeenCalled();
+  });
+
+  it("books a foreign-currency line without touching the cap-currency total", async () => {
+    db.tradeOperation.findFirst.mockResolvedValue({
+      reference: "OP-2026-001",
+      lines: [opLine({ unitCurrency: "USD" })],
+    });
+
+    await recordOperationShipment(tx, INPUT);
+
+    expect(db.tradeLicense.update).not.toHaveBeenCalled();
+    expect(db.tradeLicenseLedgerEntry.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ currency: "USD" })],
+    });
+  });
+});
+
+describe("getLicenseUsageReport", () => {
+  it("404s outside the org", async () => {
+    db.tradeLicense.findFirst.mockResolvedValue(null);
+    await expect(
+      getLicenseUsageReport("org-1", "lic-x"),
+    ).rejects.toBeInstanceOf(LicenseNotFoundError);
+  });
+
+  it("folds the ledger into current per-position usage", async () => {
+    db.tradeLicense.findFirst.mockResolvedValue(
+      licenseRow({
+        licenseType: "BAFA_EINZEL",
+        status: "ACTIVE",
+        issuedAt: null,
+        validUntil: null,
+        conditions: {
+          lineItems: [
+            { id: "1", codes: ["9A515"], quantityCap: { quantity: 10 } },
+          ],
+        },
+      }),
+    );
+    const entry = {
+      recordedAt: new Date("2026-06-01"),
+      operationId: "op-1",
+      operationReference: "OP-2026-001",
+      lineItemId: "1",
+      controlCode: "9A515",
+      itemName: "Star tracker",
+      quantity: 4,
+      value: BigInt(20_000_000),
+      currency: "EUR",
+    };
+    db.tradeLicenseLedgerEntry.findMany.mockResolvedValue([
+      { ...entry, id: "e1" },
+      { ...entry, id: "e2", quantity: 4.5 },
+    ]);
+
+    const report = await getLicenseUsageReport("org-1", "lic-1");
+
+    const position = report.meters.find((m) => m.scope === "LINE_ITEM");
+    expect(position).toMatchObject({ after: 8.5, levelAfter: "WARNING" });
+    expect(report.entries[1]).toMatchObject({
+      id: "e2",
+      valueCents: BigInt(20_000_000),
+    });
+  });
+});
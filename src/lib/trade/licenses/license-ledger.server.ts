@@ -0,0 +1,388 @@
+import "server-only";
+
+/**
+ * Caelex Trade — licence usage ledger (DB side).
+ *
+ * Three entry points around the pure projection in `license-ledger.ts`:
+ *   - projectShipmentUsage    — read-only; the ship gate uses it to refuse
+ *                               a shipment that would exceed a cap.
+ *   - recordOperationShipment — writes the debits. Runs INSIDE the caller's
+ *                               transaction with the LICENSED → EXECUTED
+ *                               status write, so a shipment is either
+ *                               executed and debited, or neither.
+ *   - getLicenseUsageReport   — the itemised usage record for the
+ *                               authority export.
+ *
+ * Concurrency: `recordOperationShipment` first takes a row lock on every
+ * licence it will debit (a no-op increment, ordered by id so two
+ * shipments never deadlock), then re-reads usage and re-projects. Two
+ * concurrent shipments against the last headroom of a licence therefore
+ * serialise and the second is refused — the gate check alone is only
+ * advisory.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  parseLicenseLineItems,
+  projectLicenseUsage,
+  usageThresholdCrossings,
+  type LedgerLicense,
+  type LedgerUsageRow,
+  type LicenseLineItem,
+  type LicenseUsageProjection,
+  type ShipmentLine,
+  type UsageMeter,
+} from "./license-ledger";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export class LicenseCapExceededError extends Error {
+  constructor(readonly projections: LicenseUsageProjection[]) {
+    super(
+      `Shipment would exceed the cap of licence(s) ${projections
+        .map((p) => p.licenseNumber ?? p.licenseId)
+        .join(", ")}`,
+    );
+    this.name = "LicenseCapExceededError";
+  }
+}
+
+export class LicenseNotFoundError extends Error {
+  constructor(licenseId: string) {
+    super(`Trade licence ${licenseId} not found in organization scope`);
+    this.name = "LicenseNotFoundError";
+  }
+}
+
+const LEDGER_LICENSE_SELECT = {
+  id: true,
+  licenseNumber: true,
+  conditions: true,
+  totalCapValue: true,
+  drawnDownValue: true,
+  capCurrency: true,
+} satisfies Prisma.TradeLicenseSelect;
+
+/** An operation line with its item codes and applied licence. */
+export interface LedgerOperationLine {
+  id: string;
+  quantity: number;
+  unitValue: bigint;
+  unitCurrency: string;
+  item: {
+    name: string;
+    eccnEU: string | null;
+    eccnUS: string | null;
+    usmlCategory: string | null;
+    mtcrCategory: string | null;
+    germanAlEntry: string | null;
+  };
+  appliedLicense: LedgerLicense | null;
+}
+
+function toShipmentLine(line: LedgerOperationLine): ShipmentLine {
+  return {
+    lineId: line.id,
+    itemName: line.item.name,
+    codes: [
+      line.item.eccnEU,
+      line.item.eccnUS,
+      line.item.usmlCategory,
+      line.item.mtcrCategory,
+      line.item.germanAlEntry,
+    ].filter((c): c is string => !!c),
+    quantity: line.quantity,
+    unitValueCents: line.unitValue,
+    currency: line.unitCurrency,
+  };
+}
+
+/** Lines grouped under the licence they are assigned to. */
+function groupByLicense(
+  lines: ReadonlyArray<LedgerOperationLine>,
+): Map<string, { license: LedgerLicense; lines: ShipmentLine[] }> {
+  const groups = new Map<
+    string,
+    { license: LedgerLicense; lines: ShipmentLine[] }
+  >();
+  for (const line of lines) {
+    const lic = line.appliedLicense;
+    if (!lic) continue;
+    const group = groups.get(lic.id) ?? { license: lic, lines: [] };
+    group.lines.push(toShipmentLine(line));
+    groups.set(lic.id, group);
+  }
+  return groups;
+}
+
+async function loadPriorUsage(
+  db: Db,
+  licenseIds: string[],
+): Promise<Map<string, LedgerUsageRow[]>> {
+  const byLicense = new Map<string, LedgerUsageRow[]>();
+  if (licenseIds.length === 0) return byLicense;
+  const rows = await db.tradeLicenseLedgerEntry.groupBy({
+    by: ["licenseId", "lineItemId", "currency"],
+    where: { licenseId: { in: licenseIds } },
+    _sum: { quantity: true, value: true },
+  });
+  for (const row of rows) {
+    const list = byLicense.get(row.licenseId) ?? [];
+    list.push({
+      lineItemId: row.lineItemId,
+      currency: row.currency,
+      quantity: row._sum.quantity ?? 0,
+      valueCents: row._sum.value ?? BigInt(0),
+    });
+    byLicense.set(row.licenseId, list);
+  }
+  return byLicense;
+}
+
+/**
+ * Project what shipping `lines` would draw from each licence they are
+ * assigned to. Lines without a licence are skipped — the ship gate
+ * reports those separately. Licence status is not checked here either: a
+ * shipment overridden past an inactive licence is still booked against
+ * it.
+ */
+export async function projectShipmentUsage(
+  lines: ReadonlyArray<LedgerOperationLine>,
+  db: Db = prisma,
+): Promise<LicenseUsageProjection[]> {
+  const groups = groupByLicense(lines);
+  const prior = await loadPriorUsage(db, [...groups.keys()]);
+  return [...groups.values()].map((g) =>
+    projectLicenseUsage(g.license, prior.get(g.license.id) ?? [], g.lines),
+  );
+}
+
+export interface LicenseThresholdCrossing {
+  licenseId: string;
+  licenseNumber: string | null;
+  meter: UsageMeter;
+}
+
+export interface RecordedShipment {
+  projections: LicenseUsageProjection[];
+  /** Meters this shipment pushed past 80 % or 95 %. */
+  crossings: LicenseThresholdCrossing[];
+}
+
+/**
+ * Debit every not-yet-booked line of `operationId` against its licence
+ * and grow `drawnDownValue` by the cap-currency share. Must be called with
+ * the transaction client of the EXECUTED status write.
+ *
+ * Idempotent per line (unique licenseId + operationLineId): lines already
+ * in the ledger are skipped, so a retried transition never double-debits.
+ *
+ * @throws LicenseCapExceededError when any meter would go past its cap.
+ */
+export async function recordOperationShipment(
+  tx: Prisma.TransactionClient,
+  input: { organizationId: string; operationId: string; recordedById: string },
+): Promise<RecordedShipment> {
+  const operation = await tx.tradeOperation.findFirst({
+    where: { id: input.operationId, organizationId: input.organizationId },
+    select: {
+      reference: true,
+      lines: {
+        select: {
+          id: true,
+          quantity: true,
+          unitValue: true,
+          unitCurrency: true,
+          item: {
+            select: {
+              name: true,
+              eccnEU: true,
+              eccnUS: true,
+              usmlCategory: true,
+              mtcrCategory: true,
+              germanAlEntry: true,
+            },
+          },
+          appliedLicenseId: true,
+        },
+      },
+    },
+  });
+  if (!operation) return { projections: [], crossings: [] };
+
+  const booked = await tx.tradeLicenseLedgerEntry.findMany({
+    where: { operationId: input.operationId },
+    select: { operationLineId: true },
+  });
+  const bookedIds = new Set(booked.map((b) => b.operationLineId));
+  const pending = operation.lines.filter(
+    (l) => l.appliedLicenseId && !bookedIds.has(l.id),
+  );
+  const licenseIds = [
+    ...new Set(pending.map((l) => l.appliedLicenseId as string)),
+  ].sort();
+  if (licenseIds.length === 0) return { projections: [], crossings: [] };
+
+  // Row-lock the licences (see module header), then read them fresh.
+  for (const id of licenseIds) {
+    await tx.tradeLicense.updateMany({
+      where: { id, organizationId: input.organizationId },
+      data: { drawnDownValue: { increment: BigInt(0) } },
+    });
+  }
+  const licenses = await tx.tradeLicense.findMany({
+    where: { id: { in: licenseIds }, organizationId: input.organizationId },
+    select: LEDGER_LICENSE_SELECT,
+  });
+  const licenseById = new Map(licenses.map((l) => [l.id, l]));
+
+  const projections = await projectShipmentUsage(
+    pending.map((l) => ({
+      ...l,
+      appliedLicense: licenseById.get(l.appliedLicenseId as string) ?? null,
+    })),
+    tx,
+  );
+
+  const exceeded = projections.filter((p) => p.exceeded);
+  if (exceeded.length > 0) throw new LicenseCapExceededError(exceeded);
+
+  for (const p of projections) {
+    if (p.licenseValueDebitCents > BigInt(0)) {
+      await tx.tradeLicense.update({
+        where: { id: p.licenseId },
+        data: { drawnDownValue: { increment: p.licenseValueDebitCents } },
+      });
+    }
+    await tx.tradeLicenseLedgerEntry.createMany({
+      data: p.debits.map((d) => ({
+        licenseId: p.licenseId,
+        operationId: input.operationId,
+        operationReference: operation.reference,
+        operationLineId: d.lineId,
+        lineItemId: d.lineItemId,
+        controlCode: d.controlCode,
+        itemName: d.itemName,
+        quantity: d.quantity,
+        value: d.valueCents,
+        currency: d.currency,
+        recordedById: input.recordedById,
+      })),
+    });
+  }
+
+  return {
+    projections,
+    crossings: projections.flatMap((p) =>
+      usageThresholdCrossings(p).map((meter) => ({
+        licenseId: p.licenseId,
+        licenseNumber: p.licenseNumber,
+        meter,
+      })),
+    ),
+  };
+}
+
+export interface LicenseUsageReport {
+  license: {
+    id: string;
+    licenseNumber: string | null;
+    licenseType: string;
+    status: string;
+    issuedAt: Date | null;
+    validUntil: Date | null;
+    capCurrency: string;
+  };
+  lineItems: LicenseLineItem[];
+  /** Current usage per meter (before === after). */
+  meters: UsageMeter[];
+  entries: Array<{
+    id: string;
+    recordedAt: Date;
+    operationId: string | null;
+    operationReference: string;
+    lineItemId: string | null;
+    controlCode: string | null;
+    itemName: string;
+    quantity: number;
+    valueCents: bigint;
+    currency: string;
+  }>;
+  generatedAt: Date;
+}
+
+/**
+ * Current usage of one licence with every debit behind it, oldest first.
+ *
+ * @throws LicenseNotFoundError when the licence is not in the org.
+ */
+export async function getLicenseUsageReport(
+  organizationId: string,
+  licenseId: string,
+  now: Date = new Date(),
+): Promise<LicenseUsageReport> {
+  const license = await prisma.tradeLicense.findFirst({
+    where: { id: licenseId, organizationId },
+    select: {
+      ...LEDGER_LICENSE_SELECT,
+      licenseType: true,
+      status: true,
+      issuedAt: true,
+      validUntil: true,
+    },
+  });
+  if (!license) throw new LicenseNotFoundError(licenseId);
+
+  const entries = await prisma.tradeLicenseLedgerEntry.findMany({
+    where: { licenseId },
+    orderBy: { recordedAt: "asc" },
+    select: {
+      id: true,
+      recordedAt: true,
+      operationId: true,
+      operationReference: true,
+      lineItemId: true,
+      controlCode: true,
+      itemName: true,
+      quantity: true,
+      value: true,
+      currency: true,
+    },
+  });
+
+  const prior = new Map<string, LedgerUsageRow>();
+  for (const e of entries) {
+    const key = `${e.lineItemId ?? ""}\u0000${e.currency}`;
+    const row = prior.get(key) ?? {
+      lineItemId: e.lineItemId,
+      currency: e.currency,
+      quantity: 0,
+      valueCents: BigInt(0),
+    };
+    row.quantity += e.quantity;
+    row.valueCents += e.value;
+    prior.set(key, row);
+  }
+
+  return {
+    license: {
+      id: license.id,
+      licenseNumber: license.licenseNumber,
+      licenseType: license.licenseType,
+      status: license.status,
+      issuedAt: license.issuedAt,
+      validUntil: license.validUntil,
+      capCurrency: license.capCurrency,
+    },
+    lineItems: parseLicenseLineItems(license.conditions),
+    meters: projectLicenseUsage(license, [...prior.values()], []).meters,
+    entries: entries.map(({ value, ...rest }) => ({
+      ...rest,
+      valueCents: value,
+    })),
+    generatedAt: now,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for license-ledger.ts — condition parsing, position matching,
+ * usage levels and the shipment projection.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  deriveUsageLevel,
+  formatUsageMeter,
+  matchLicenseLineItem,
+  parseLicenseLineItems,
+  projectLicenseUsage,
+  usageThresholdCrossings,
+  type LedgerLicense,
+  type ShipmentLine,
+} from "./license-ledger";
+
+function license(over: Partial<LedgerLicense> = {}): LedgerLicense {
+  return {
+    id: "lic-1",
+    licenseNumber: "BAFA-2026-0042",
+    conditions: { coveredCodes: ["9A515"] },
+    totalCapValue: null,
+    drawnDownValue: BigInt(0),
+    capCurrency: "EUR",
+    ...over,
+  };
+}
+
+function shipment(over: Partial<ShipmentLine> = {}): ShipmentLine {
+  return {
+    lineId: "line-1",
+    itemName: "Star tracker",
+    codes: ["9A515.a"],
+    quantity: 2,
+    unitValueCents: BigInt(5_000_000),
+    currency: "EUR",
+    ...over,
+  };
+}
+
+describe("deriveUsageLevel", () => {
+  it("bands at 80 % and 95 %, allows exactly 100 %", () => {
+    expect(deriveUsageLevel(79, 100)).toBe("OK");
+    expect(deriveUsageLevel(80, 100)).toBe("WARNING");
+    expect(deriveUsageLevel(95, 100)).toBe("CRITICAL");
+    expect(deriveUsageLevel(100, 100)).toBe("CRITICAL");
+    expect(deriveUsageLevel(100.5, 100)).toBe("EXCEEDED");
+  });
+
+  it("treats a zero cap as admitting nothing", () => {
+    expect(deriveUsageLevel(0, 0)).toBe("OK");
+    expect(deriveUsageLevel(1, 0)).toBe("EXCEEDED");
+  });
+});
+
+describe("parseLicenseLineItems / matchLicenseLineItem", () => {
+  const conditions = {
+    lineItems: [
+      {
+        id: "1",
+        codes: ["9A515"],
+        quantityCap: { quantity: 10, unit: "Stk" },
+      },
+      {
+        code: "9A515.a.1",
+        description: "Star trackers",
+        valueCap: { amount: 250_000, currency: "EUR" },
+      },
+      { id: "3", description: "no codes — dropped" },
+      "garbage",
+    ],
+  };
+
+  it("reads positions defensively and defaults ids to the position number", () => {
+    const items = parseLicenseLineItems(conditions);
+    expect(items.map((i) => i.id)).toEqual(["1", "2"]);
+    expect(items[0]).toMatchObject({ quantityCap: 10, quantityUnit: "Stk" });
+    expect(items[1]).toMatchObject({
+      codes: ["9A515.a.1"],
+      valueCapCents: BigInt(25_000_000),
+      valueCurrency: "EUR",
+    });
+    expect(parseLicenseLineItems(null)).toEqual([]);
+    expect(parseLicenseLineItems({ lineItems: "x" })).toEqual([]);
+  });
+
+  it("prefers the most specific overlapping position", () => {
+    const items = parseLicenseLineItems(conditions);
+    expect(matchLicenseLineItem(items, ["9A515.a.1"])?.lineItem.id).toBe("2");
+    expect(matchLicenseLineItem(items, ["9A515.d"])).toMatchObject({
+      lineItem: { id: "1" },
+      code: "9A515",
+    });
+    expect(matchLicenseLineItem(items, ["5A002"])).toBeNull();
+  });
+});
+
+describe("projectLicenseUsage", () => {
+  it("debits the licence value cap from drawnDownValue", () => {
+    const p = projectLicenseUsage(
+      license({
+        totalCapValue: BigInt(50_000_000),
+        drawnDownValue: BigInt(30_000_000),
+      }),
+      [],
+      [shipment()],
+    );
+    expect(p.licenseValueDebitCents).toBe(BigInt(10_000_000));
+    expect(p.meters).toEqual([
+      expect.objectContaining({
+        scope: "LICENSE",
+        measure: "VALUE",
+        cap: 500_000,
+        before: 300_000,
+        after: 400_000,
+        levelBefore: "OK",
+        levelAfter: "WARNING",
+      }),
+    ]);
+    expect(p.exceeded).toBe(false);
+    expect(usageThresholdCrossings(p)).toHaveLength(1);
+    expect(formatUsageMeter(p.meters[0])).toBe(
+      "BAFA-2026-0042: 400000.00 / 500000.00 EUR (80 %)",
+    );
+  });
+
+  it("attributes lines to positions and adds prior ledger usage", () => {
+    const p = projectLicenseUsage(
+      license({
+        conditions: {
+          volumeCap: { quantity: 100, unit: "Stk" },
+          lineItems: [
+            { id: "1", codes: ["9A515"], quantityCap: { quantity: 10 } },
+          ],
+        },
+      }),
+      [
+        {
+          lineItemId: "1",
+          currency: "EUR",
+          quantity: 9,
+          valueCents: BigInt(0),
+        },
+        {
+          lineItemId: null,
+          currency: "EUR",
+          quantity: 20,
+          valueCents: BigInt(0),
+        },
+      ],
+      [shipment()],
+    );
+    expect(p.debits[0]).toMatchObject({
+      lineItemId: "1",
+      controlCode: "9A515",
+    });
+    const [licenceQty, positionQty] = p.meters;
+    expect(licenceQty).toMatchObject({ before: 29, after: 31, unit: "Stk" });
+    expect(positionQty).toMatchObject({
+      scope: "LINE_ITEM",
+      label: "Pos. 1",
+      before: 9,
+      after: 11,
+      levelAfter: "EXCEEDED",
+    });
+    expect(p.exceeded).toBe(true);
+    expect(usageThresholdCrossings(p)).toEqual([]);
+  });
+
+  it("reports lines it cannot verify instead of guessing", () => {
+    const p = projectLicenseUsage(
+      license({
+        totalCapValue: BigInt(50_000_000),
+        conditions: {
+          lineItems: [{ id: "1", codes: ["9A515"] }],
+        },
+      }),
+      [],
+      [
+        shipment({ currency: "USD" }),
+        shipment({ lineId: "line-2", codes: ["5A002"] }),
+      ],
+    );
+    expect(p.unverifiable).toEqual([
+      expect.objectContaining({ lineId: "line-1", issue: "CURRENCY_MISMATCH" }),
+      expect.objectContaining({ lineId: "line-2", issue: "NO_LINE_ITEM" }),
+    ]);
+    // Only the EUR line counts toward the EUR cap.
+    expect(p.licenseValueDebitCents).toBe(BigInt(10_000_000));
+  });
+
+  it("does not flag a licence already over its cap when nothing is added", () => {
+    const p = projectLicenseUsage(
+      license({
+        totalCapValue: BigInt(100),
+        drawnDownValue: BigInt(200),
+      }),
+      [],
+      [],
+    );
+    expect(p.meters[0].levelAfter).toBe("EXCEEDED");
+    expect(p.exceeded).toBe(false);
+  });
+});
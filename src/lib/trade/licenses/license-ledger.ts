@@ -0,0 +1,474 @@
+/**
+ * Caelex Trade — licence usage ledger (pure core).
+ *
+ * PURE module: no DB, no I/O. Projects what a shipment draws from each
+ * licence it ships under — per licence line item (the Positionen of a
+ * BAFA-Bescheid / the line items of a DSP-5 or BIS licence) and against
+ * the licence-level caps — so the ship gate and the drawdown writer in
+ * `license-ledger.server.ts` run the exact same arithmetic.
+ *
+ * Caps are read from the licence row:
+ *   - totalCapValue + capCurrency      → licence value cap (integer cents)
+ *   - conditions.volumeCap             → licence quantity cap
+ *   - conditions.lineItems[]           → per-position quantity / value caps
+ *
+ * Usage levels use the 80 % / 95 % warning thresholds; a shipment that
+ * takes any meter past 100 % is EXCEEDED and must not ship. Anything the
+ * ledger cannot verify (a line in another currency than a value cap, a
+ * line that matches no position) is reported as unverifiable rather than
+ * silently counted or silently skipped.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { fromCents, toCents } from "@/lib/trade/money";
+
+export const USAGE_WARNING_RATIO = 0.8;
+export const USAGE_CRITICAL_RATIO = 0.95;
+
+export type LicenseUsageLevel = "OK" | "WARNING" | "CRITICAL" | "EXCEEDED";
+
+const LEVEL_RANK: Record<LicenseUsageLevel, number> = {
+  OK: 0,
+  WARNING: 1,
+  CRITICAL: 2,
+  EXCEEDED: 3,
+};
+
+/**
+ * Usage level for `used` against `cap` (same unit). Reaching the cap
+ * exactly is CRITICAL, not EXCEEDED — a licence may be drawn to 100 %.
+ * A zero cap admits nothing.
+ */
+export function deriveUsageLevel(used: number, cap: number): LicenseUsageLevel {
+  if (cap <= 0) return used > 0 ? "EXCEEDED" : "OK";
+  const ratio = used / cap;
+  if (ratio > 1) return "EXCEEDED";
+  if (ratio >= USAGE_CRITICAL_RATIO) return "CRITICAL";
+  if (ratio >= USAGE_WARNING_RATIO) return "WARNING";
+  return "OK";
+}
+
+/**
+ * True when a licensed control code covers an item's code. Prefix match
+ * in both directions so "9A515" covers "9A515.a" and a licence granted
+ * for "9A515.a.1" still matches an item classified only to "9A515.a" —
+ * the same rule the ship gate applies to `conditions.coveredCodes`.
+ */
+export function controlCodeCovers(licensed: string, itemCode: string): boolean {
+  return (
+    itemCode === licensed ||
+    itemCode.startsWith(licensed) ||
+    licensed.startsWith(itemCode)
+  );
+}
+
+// ─── Licence conditions ─────────────────────────────────────────────
+
+export interface LicenseLineItem {
+  id: string;
+  codes: string[];
+  description: string | null;
+  quantityCap: number | null;
+  quantityUnit: string | null;
+  /** Integer cents of `valueCurrency`. */
+  valueCapCents: bigint | null;
+  valueCurrency: string | null;
+}
+
+export interface LicenseQuantityCap {
+  quantity: number;
+  unit: string | null;
+}
+
+function asRecord(v: unknown): Record<string, unknown> | null {
+  return v && typeof v === "object" && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : null;
+}
+
+function finiteNonNegative(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null;
+}
+
+function parseQuantityCap(raw: unknown): LicenseQuantityCap | null {
+  const rec = asRecord(raw);
+  const quantity = finiteNonNegative(rec?.quantity);
+  if (!rec || quantity === null) return null;
+  return {
+    quantity,
+    unit: typeof rec.unit === "string" && rec.unit ? rec.unit : null,
+  };
+}
+
+/** Licence-level quantity cap from `conditions.volumeCap`, if any. */
+export function parseLicenseVolumeCap(
+  conditions: unknown,
+): LicenseQuantityCap | null {
+  return parseQuantityCap(asRecord(conditions)?.volumeCap);
+}
+
+/**
+ * Read `conditions.lineItems` defensively. Entries without any control
+ * code are dropped — they could never be matched, and a position that
+ * matches nothing must not quietly absorb a shipment. `code` (string) is
+ * accepted alongside `codes` (string[]); ids default to the 1-based
+ * position number.
+ */
+export function parseLicenseLineItems(conditions: unknown): LicenseLineItem[] {
+  const raw = asRecord(conditions)?.lineItems;
+  if (!Array.isArray(raw)) return [];
+  const items: LicenseLineItem[] = [];
+  raw.forEach((entry, index) => {
+    const rec = asRecord(entry);
+    if (!rec) return;
+    const codes = [
+      ...(Array.isArray(rec.codes) ? rec.codes : []),
+      ...(typeof rec.code === "string" ? [rec.code] : []),
+    ].filter((c): c is string => typeof c === "string" && c.length > 0);
+    if (codes.length === 0) return;
+
+    const quantityCap = parseQuantityCap(rec.quantityCap);
+    const valueCap = asRecord(rec.valueCap);
+    const valueAmount = finiteNonNegative(valueCap?.amount);
+    items.push({
+      id:
+        typeof rec.id === "string" || typeof rec.id === "number"
+          ? String(rec.id)
+          : String(index + 1),
+      codes,
+      description: typeof rec.description === "string" ? rec.description : null,
+      quantityCap: quantityCap?.quantity ?? null,
+      quantityUnit: quantityCap?.unit ?? null,
+      valueCapCents: valueAmount === null ? null : toCents(valueAmount),
+      valueCurrency:
+        valueAmount === null
+          ? null
+          : typeof valueCap?.currency === "string"
+            ? valueCap.currency
+            : "EUR",
+    });
+  });
+  return items;
+}
+
+/**
+ * The line item covering any of `itemCodes`, preferring the most
+ * specific licensed code when several positions overlap. Returns the
+ * licensed code that matched alongside the item.
+ */
+export function matchLicenseLineItem(
+  lineItems: ReadonlyArray<LicenseLineItem>,
+  itemCodes: ReadonlyArray<string>,
+): { lineItem: LicenseLineItem; code: string } | null {
+  let best: { lineItem: LicenseLineItem; code: string } | null = null;
+  for (const lineItem of lineItems) {
+    for (const code of lineItem.codes) {
+      if (!itemCodes.some((ic) => controlCodeCovers(code, ic))) continue;
+      if (!best || code.length > best.code.length) best = { lineItem, code };
+    }
+  }
+  return best;
+}
+
+// ─── Projection ─────────────────────────────────────────────────────
+
+/** The licence fields the ledger reads. */
+export interface LedgerLicense {
+  id: string;
+  licenseNumber: string | null;
+  conditions: unknown;
+  totalCapValue: bigint | null;
+  drawnDownValue: bigint;
+  capCurrency: string;
+}
+
+/** Prior ledger usage, aggregated per (line item, currency). */
+export interface LedgerUsageRow {
+  lineItemId: string | null;
+  currency: string;
+  quantity: number;
+  valueCents: bigint;
+}
+
+/** One operation line about to ship under the licence. */
+export interface ShipmentLine {
+  lineId: string;
+  itemName: string;
+  /** Every control code on the item (EU, US, USML, MTCR, AL). */
+  codes: string[];
+  quantity: number;
+  unitValueCents: bigint;
+  currency: string;
+}
+
+export interface LedgerDebit {
+  lineId: string;
+  itemName: string;
+  lineItemId: string | null;
+  controlCode: string | null;
+  quantity: number;
+  valueCents: bigint;
+  currency: string;
+}
+
+export type UnverifiableUsageIssue = "CURRENCY_MISMATCH" | "NO_LINE_ITEM";
+
+export interface UnverifiableUsage {
+  lineId: string;
+  itemName: string;
+  issue: UnverifiableUsageIssue;
+  /** Line item whose cap could not be checked (CURRENCY_MISMATCH only). */
+  lineItemId: string | null;
+}
+
+export interface UsageMeter {
+  scope: "LICENSE" | "LINE_ITEM";
+  lineItemId: string | null;
+  label: string;
+  measure: "VALUE" | "QUANTITY";
+  /** Currency for VALUE, quantity unit (or "") for QUANTITY. */
+  unit: string;
+  /** Cap, usage before and after this shipment — in units, not cents. */
+  cap: number;
+  before: number;
+  after: number;
+  levelBefore: LicenseUsageLevel;
+  levelAfter: LicenseUsageLevel;
+}
+
+export interface LicenseUsageProjection {
+  licenseId: string;
+  licenseNumber: string | null;
+  debits: LedgerDebit[];
+  meters: UsageMeter[];
+  /** Debits in the cap currency — what `drawnDownValue` grows by. */
+  licenseValueDebitCents: bigint;
+  unverifiable: UnverifiableUsage[];
+  /** True when this shipment takes any meter past its cap. */
+  exceeded: boolean;
+}
+
+/** quantity × unit value, rounded to whole cents. */
+export function lineValueCents(quantity: number, unitValueCents: bigint) {
+  return BigInt(Math.round(quantity * Number(unitValueCents)));
+}
+
+function valueMeter(
+  scope: UsageMeter["scope"],
+  lineItemId: string | null,
+  label: string,
+  currency: string,
+  capCents: bigint,
+  beforeCents: bigint,
+  addCents: bigint,
+): UsageMeter {
+  const afterCents = beforeCents + addCents;
+  return {
+    scope,
+    lineItemId,
+    label,
+    measure: "VALUE",
+    unit: currency,
+    cap: fromCents(capCents),
+    before: fromCents(beforeCents),
+    after: fromCents(afterCents),
+    levelBefore: deriveUsageLevel(Number(beforeCents), Number(capCents)),
+    levelAfter: deriveUsageLevel(Number(afterCents), Number(capCents)),
+  };
+}
+
+function quantityMeter(
+  scope: UsageMeter["scope"],
+  lineItemId: string | null,
+  label: string,
+  unit: string | null,
+  cap: number,
+  before: number,
+  add: number,
+): UsageMeter {
+  const after = before + add;
+  return {
+    scope,
+    lineItemId,
+    label,
+    measure: "QUANTITY",
+    unit: unit ?? "",
+    cap,
+    before,
+    after,
+    levelBefore: deriveUsageLevel(before, cap),
+    levelAfter: deriveUsageLevel(after, cap),
+  };
+}
+
+/**
+ * Project `lines` onto `license` given its prior usage. With no lines
+ * this is the licence's current usage (before === after), which is what
+ * the usage report prints.
+ *
+ * The licence value meter starts from `drawnDownValue` (the authoritative
+ * accumulator); quantity and per-line-item meters start from the ledger
+ * rows.
+ */
+export function projectLicenseUsage(
+  license: LedgerLicense,
+  prior: ReadonlyArray<LedgerUsageRow>,
+  lines: ReadonlyArray<ShipmentLine>,
+): LicenseUsageProjection {
+  const lineItems = parseLicenseLineItems(license.conditions);
+  const volumeCap = parseLicenseVolumeCap(license.conditions);
+
+  const debits: LedgerDebit[] = [];
+  const unverifiable: UnverifiableUsage[] = [];
+  for (const line of lines) {
+    const match =
+      lineItems.length > 0 ? matchLicenseLineItem(lineItems, line.codes) : null;
+    if (lineItems.length > 0 && !match) {
+      unverifiable.push({
+        lineId: line.lineId,
+        itemName: line.itemName,
+        issue: "NO_LINE_ITEM",
+        lineItemId: null,
+      });
+    }
+    const debit: LedgerDebit = {
+      lineId: line.lineId,
+      itemName: line.itemName,
+      lineItemId: match?.lineItem.id ?? null,
+      controlCode: match?.code ?? null,
+      quantity: line.quantity,
+      valueCents: lineValueCents(line.quantity, line.unitValueCents),
+      currency: line.currency,
+    };
+    debits.push(debit);
+
+    if (
+      license.totalCapValue !== null &&
+      debit.currency !== license.capCurrency
+    ) {
+      unverifiable.push({
+        lineId: line.lineId,
+        itemName: line.itemName,
+        issue: "CURRENCY_MISMATCH",
+        lineItemId: null,
+      });
+    }
+    const itemCurrency = match?.lineItem.valueCurrency;
+    if (itemCurrency && debit.currency !== itemCurrency) {
+      unverifiable.push({
+        lineId: line.lineId,
+        itemName: line.itemName,
+        issue: "CURRENCY_MISMATCH",
+        lineItemId: match.lineItem.id,
+      });
+    }
+  }
+
+  const licenseLabel = license.licenseNumber ?? "Genehmigung";
+  const meters: UsageMeter[] = [];
+  const licenseValueDebitCents = debits
+    .filter((d) => d.currency === license.capCurrency)
+    .reduce((sum, d) => sum + d.valueCents, BigInt(0));
+
+  if (license.totalCapValue !== null) {
+    meters.push(
+      valueMeter(
+        "LICENSE",
+        null,
+        licenseLabel,
+        license.capCurrency,
+        license.totalCapValue,
+        license.drawnDownValue,
+        licenseValueDebitCents,
+      ),
+    );
+  }
+  if (volumeCap) {
+    meters.push(
+      quantityMeter(
+        "LICENSE",
+        null,
+        licenseLabel,
+        volumeCap.unit,
+        volumeCap.quantity,
+        prior.reduce((sum, r) => sum + r.quantity, 0),
+        debits.reduce((sum, d) => sum + d.quantity, 0),
+      ),
+    );
+  }
+
+  for (const item of lineItems) {
+    const label = `Pos. ${item.id}${item.description ? ` — ${item.description}` : ""}`;
+    const priorRows = prior.filter((r) => r.lineItemId === item.id);
+    const itemDebits = debits.filter((d) => d.lineItemId === item.id);
+    if (item.quantityCap !== null) {
+      meters.push(
+        quantityMeter(
+          "LINE_ITEM",
+          item.id,
+          label,
+          item.quantityUnit,
+          item.quantityCap,
+          priorRows.reduce((sum, r) => sum + r.quantity, 0),
+          itemDebits.reduce((sum, d) => sum + d.quantity, 0),
+        ),
+      );
+    }
+    if (item.valueCapCents !== null && item.valueCurrency) {
+      const currency = item.valueCurrency;
+      meters.push(
+        valueMeter(
+          "LINE_ITEM",
+          item.id,
+          label,
+          currency,
+          item.valueCapCents,
+          priorRows
+            .filter((r) => r.currency === currency)
+            .reduce((sum, r) => sum + r.valueCents, BigInt(0)),
+          itemDebits
+            .filter((d) => d.currency === currency)
+            .reduce((sum, d) => sum + d.valueCents, BigInt(0)),
+        ),
+      );
+    }
+  }
+
+  return {
+    licenseId: license.id,
+    licenseNumber: license.licenseNumber,
+    debits,
+    meters,
+    licenseValueDebitCents,
+    unverifiable,
+    exceeded: meters.some(
+      (m) => m.levelAfter === "EXCEEDED" && m.after > m.before,
+    ),
+  };
+}
+
+/**
+ * Meters this shipment pushes into a higher warning band (80 % / 95 %).
+ * EXCEEDED is not a crossing — the shipment is refused instead.
+ */
+export function usageThresholdCrossings(
+  projection: LicenseUsageProjection,
+): UsageMeter[] {
+  return projection.meters.filter(
+    (m) =>
+      m.levelAfter !== "EXCEEDED" &&
+      LEVEL_RANK[m.levelAfter] > LEVEL_RANK[m.levelBefore],
+  );
+}
+
+/** Short operator-facing form of a meter, e.g. "Pos. 2: 960 / 1000 Stk (96 %)". */
+export function formatUsageMeter(m: UsageMeter): string {
+  const pct = m.cap > 0 ? Math.round((m.after / m.cap) * 100) : 100;
+  const unit = m.unit ? ` ${m.unit}` : "";
+  return `${m.label}: ${formatAmount(m.after, m.measure)} / ${formatAmount(m.cap, m.measure)}${unit} (${pct} %)`;
+}
+
+function formatAmount(n: number, measure: UsageMeter["measure"]): string {
+  return measure === "VALUE" ? n.toFixed(2) : String(n);
+}
@@ -0,0 +1,167 @@
+import "server-only";
+import type { VsdSection } from "@/lib/trade/vsd-pdf/vsd-shared";
+import type {
+  SectionedPdfChrome,
+  SectionedPdfDocument,
+} from "@/lib/trade/vsd-pdf/vsd-pdf-renderer";
+import { buildCsv, type CsvColumn } from "@/lib/trade/csv-export";
+import { fromCents } from "@/lib/trade/money";
+import { formatUsageMeter, type LicenseLineItem } from "./license-ledger";
+import type { LicenseUsageReport } from "./license-ledger.server";
+
+/**
+ * Caelex Trade — licence usage report (Abschreibungsnachweis).
+ *
+ * Turns a `LicenseUsageReport` into the sectioned document model rendered
+ * by `renderSectionedPdf`, and into a flat CSV of the ledger entries. Both
+ * list every shipment debited against the licence so the usage can be
+ * reconciled with the authority's own record of the licence.
+ *
+ * Format references:
+ *  - § 22 AWV — Aufzeichnungs- und Aufbewahrungspflichten
+ *  - BAFA Merkblatt Sammelgenehmigungen — Abschreibung und Meldung
+ *  - 22 CFR § 123.22 — DDTC licence decrementing
+ */
+
+const LICENSE_USAGE_DOCUMENT_CODE =
+  "Licence usage report — § 22 AWV / 22 CFR § 123.22";
+
+export const LICENSE_USAGE_PDF_CHROME: SectionedPdfChrome = {
+  kicker: "EXPORT LICENCE — USAGE AND DRAWDOWN RECORD",
+  partyLabel: "Licence holder",
+  disclaimer:
+    "GENERATED FROM THE CAELEX LICENCE LEDGER. VERIFY AGAINST THE LICENCE DOCUMENT BEFORE SUBMISSION. NOT LEGAL ADVICE.",
+};
+
+export function buildLicenseUsageDocument(
+  report: LicenseUsageReport,
+  orgName: string,
+): SectionedPdfDocument {
+  return {
+    title: `Licence Usage — ${report.license.licenseNumber ?? "unnumbered"}`,
+    documentCode: LICENSE_USAGE_DOCUMENT_CODE,
+    preparedOn: isoDate(report.generatedAt),
+    filerOrgName: orgName,
+    sections: [
+      buildLicenseSection(report),
+      buildLineItemSection(report.lineItems),
+      buildEntrySection(report),
+      buildSignOffSection(),
+    ],
+  };
+}
+
+const CSV_COLUMNS: ReadonlyArray<
+  CsvColumn<LicenseUsageReport["entries"][number]>
+> = [
+  { header: "Recorded at", get: (e) => e.recordedAt },
+  { header: "Operation", get: (e) => e.operationReference },
+  { header: "Line item", get: (e) => e.lineItemId },
+  { header: "Control code", get: (e) => e.controlCode },
+  { header: "Item", get: (e) => e.itemName },
+  { header: "Quantity", get: (e) => e.quantity },
+  { header: "Value", get: (e) => fromCents(e.valueCents).toFixed(2) },
+  { header: "Currency", get: (e) => e.currency },
+];
+
+/** One CSV row per ledger entry, oldest first. */
+export function buildLicenseUsageCsv(report: LicenseUsageReport): string {
+  return buildCsv(report.entries, CSV_COLUMNS);
+}
+
+// ─── Section builders ───────────────────────────────────────────────
+
+function buildLicenseSection(report: LicenseUsageReport): VsdSection {
+  const { license } = report;
+  return {
+    id: "licence",
+    ordinal: "1.",
+    title: "Licence and usage",
+    fields: [
+      {
+        label: "Licence number",
+        value: license.licenseNumber,
+        required: true,
+      },
+      { label: "Licence type", value: license.licenseType, required: false },
+      { label: "Status", value: license.status, required: false },
+      {
+        label: "Validity",
+        value: `${license.issuedAt ? isoDate(license.issuedAt) : "?"} to ${license.validUntil ? isoDate(license.validUntil) : "open"}`,
+        required: false,
+      },
+      {
+        label: "Shipments drawn down",
+        value: String(
+          new Set(report.entries.map((e) => e.operationReference)).size,
+        ),
+        required: false,
+      },
+    ],
+    bullets:
+      report.meters.length > 0
+        ? report.meters.map(formatUsageMeter)
+        : ["The licence carries no quantity or value cap."],
+  };
+}
+
+function buildLineItemSection(lineItems: LicenseLineItem[]): VsdSection {
+  return {
+    id: "line-items",
+    ordinal: "2.",
+    title: "Licensed positions",
+    fields: [],
+    bullets:
+      lineItems.length > 0
+        ? lineItems.map((item) => {
+            const caps = [
+              item.quantityCap !== null
+                ? `quantity cap ${item.quantityCap}${item.quantityUnit ? ` ${item.quantityUnit}` : ""}`
+                : null,
+              item.valueCapCents !== null
+                ? `value cap ${fromCents(item.valueCapCents).toFixed(2)} ${item.valueCurrency}`
+                : null,
+            ].filter(Boolean);
+            return `Pos. ${item.id}: ${item.codes.join(", ")}${item.description ? ` — ${item.description}` : ""}${caps.length > 0 ? ` (${caps.join(", ")})` : ""}`;
+          })
+        : ["The licence is not broken down into positions."],
+  };
+}
+
+function buildEntrySection(report: LicenseUsageReport): VsdSection {
+  return {
+    id: "entries",
+    ordinal: "3.",
+    title: "Drawdown record",
+    paragraph:
+      "Every operation line shipped under the licence, in the order it was booked. Values are quantity times unit value in the line currency.",
+    fields: [],
+    bullets:
+      report.entries.length > 0
+        ? report.entries.map(
+            (e) =>
+              `${isoDate(e.recordedAt)} · ${e.operationReference} · ${e.lineItemId ? `Pos. ${e.lineItemId} · ` : ""}${e.controlCode ? `${e.controlCode} · ` : ""}${e.itemName} · qty ${e.quantity} · ${fromCents(e.valueCents).toFixed(2)} ${e.currency}`,
+          )
+        : ["No shipments have been drawn down against this licence."],
+  };
+}
+
+function buildSignOffSection(): VsdSection {
+  return {
+    id: "sign-off",
+    ordinal: "",
+    title: "Confirmation",
+    fields: [
+      {
+        label: "Confirmed by (Ausfuhrverantwortlicher)",
+        value: null,
+        required: true,
+      },
+      { label: "Date", value: null, required: true },
+    ],
+  };
+}
+
+function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
@@ -499,6 +499,7 @@ describe("recordDrawDown", () => {
 
     expect(result.remainingCapacityEur).toBe(950_000);
     expect(result.triggeredExhausted).toBe(false);
+    expect(result.usageLevel).toBe("OK");
     // Must use increment with bigint cents, NOT absolute drawnDownValueEur
     expect(mockSagUpdateMany).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -550,6 +551,7 @@ describe("recordDrawDown", () => {
 
     expect(result.remainingCapacityEur).toBe(0);
     expect(result.triggeredExhausted).toBe(true);
+    expect(result.usageLevel).toBe("CRITICAL");
     // Verify the EXHAUSTED flip updateMany was called with gte cap (bigint cents)
     expect(mockSagUpdateMany).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -6,6 +6,10 @@ import {
   type TradeSammelgenehmigungDrawDown,
 } from "@prisma/client";
 import { toCents, fromCents } from "@/lib/trade/money";
+import {
+  deriveUsageLevel,
+  type LicenseUsageLevel,
+} from "@/lib/trade/licenses/license-ledger";
 
 /**
  * Caelex Trade — Sammelgenehmigung (BAFA bulk-export-authorization)
@@ -85,6 +89,8 @@ export interface DrawDownResult {
   drawDown: TradeSammelgenehmigungDrawDown;
   remainingCapacityEur: number;
   triggeredExhausted: boolean;
+  /** Cap usage after this draw, on the licence ledger's 80 / 95 % bands. */
+  usageLevel: LicenseUsageLevel;
 }
 
 export interface CoveringCriteria {
@@ -479,8 +485,12 @@ export async function recordDrawDown(
     const remainingCents =
       remainingCentsDiff < BigInt(0) ? BigInt(0) : remainingCentsDiff;
     const remainingCapacityEur = fromCents(remainingCents);
+    const usageLevel = deriveUsageLevel(
+      Number(freshDrawnCents),
+      Number(freshCapCents),
+    );
 
-    return { drawDown, remainingCapacityEur, triggeredExhausted };
+    return { drawDown, remainingCapacityEur, triggeredExhausted, usageLevel };
   });
 }
 
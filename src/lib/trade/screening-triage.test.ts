@@ -3,6 +3,7 @@ import {
   urgencyRank,
   deriveTriageQueue,
   triageReason,
+  describeDeltaHit,
   validateResolutionReason,
   summarizeBatch,
   type TriageInputRow,
@@ -178,6 +179,42 @@ describe("triageReason", () => {
     expect(triageReason(r)).toMatch(/potential match/i);
   });
 
+  it("names the exact list entry when a delta rescreen opened the item", () => {
+    const r = deriveTriageQueue(
+      [
+        row({
+          screeningStatus: "POTENTIAL_MATCH",
+          screeningHits: [
+            {
+              list: "OFAC_SDN",
+              entryId: "1",
+              score: 0.99,
+              matchedFields: ["name"],
+            },
+            {
+              list: "EU_FSF",
+              entryId: "EU.123.45",
+              score: 0.9,
+              matchedFields: ["name"],
+              legalName: "ivan petrov",
+              delta: {
+                change: "ADDED",
+                snapshotHash: "abc",
+                detectedAt: "2026-05-31T04:30:00.000Z",
+                subject: "PARTY",
+              },
+            },
+          ],
+        }),
+      ],
+      NOW,
+    )[0];
+    expect(r.deltaHit?.entryId).toBe("EU.123.45");
+    expect(triageReason(r)).toBe(
+      'List change — EU_FSF entry EU.123.45 "ivan petrov" added 2026-05-31',
+    );
+  });
+
   it("describes staleness with an age", () => {
     const r = deriveTriageQueue(
       [row({ screeningStatus: "STALE", lastScreenedAt: daysAgo(42) })],
@@ -196,6 +233,56 @@ describe("triageReason", () => {
   });
 });
 
+describe("describeDeltaHit", () => {
+  const base = {
+    list: "OFAC_SDN",
+    entryId: "36001",
+    score: 0.93,
+    matchedFields: ["name"],
+  };
+  const delta = {
+    change: "CHANGED" as const,
+    snapshotHash: "abc",
+    detectedAt: "2026-05-31T04:30:00.000Z",
+  };
+
+  it("names the end user and operation for an END_USER hit", () => {
+    expect(
+      describeDeltaHit({
+        ...base,
+        delta: {
+          ...delta,
+          subject: "END_USER",
+          subjectName: "Orion Avia LLC",
+          operationRef: "OP-2026-014",
+        },
+      }),
+    ).toBe(
+      'List change — OFAC_SDN entry 36001 changed 2026-05-31 · via end user "Orion Avia LLC" (OP-2026-014)',
+    );
+  });
+
+  it("names the owner and share for an OWNER hit", () => {
+    const owner = {
+      ...delta,
+      subject: "OWNER" as const,
+      subjectName: "Holdco",
+    };
+    expect(
+      describeDeltaHit({ ...base, delta: { ...owner, effectivePercent: 0.6 } }),
+    ).toMatch(/via owner "Holdco" \(60%\)$/);
+    expect(describeDeltaHit({ ...base, delta: owner })).toMatch(
+      /via owner "Holdco" \(control\)$/,
+    );
+  });
+
+  it("falls back to the score line for a hit without a delta reference", () => {
+    expect(describeDeltaHit(base)).toBe(
+      "Potential match — top 0.93 (OFAC_SDN)",
+    );
+  });
+});
+
 describe("validateResolutionReason", () => {
   it("rejects empty / whitespace", () => {
     expect(validateResolutionReason("").ok).toBe(false);
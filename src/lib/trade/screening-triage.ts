@@ -31,12 +31,44 @@ export type TriageScreeningStatus =
   | "CONFIRMED_HIT"
   | "STALE";
 
+/**
+ * How a delta hit reached the party:
+ *   PARTY    — the party's own name / identifiers match the entry
+ *   END_USER — the end user named on one of its operations matches
+ *   OWNER    — a beneficial owner / controller of the party matches
+ */
+export type TriageDeltaSubject = "PARTY" | "END_USER" | "OWNER";
+
+/**
+ * Set on hits written by delta rescreening (a sanctions list changed and
+ * only the added/changed entries were screened). Names the exact list
+ * entry that changed so the triage queue can say WHY the item opened.
+ */
+export interface TriageDeltaRef {
+  change: "ADDED" | "CHANGED";
+  /** Hash of the snapshot that introduced the change. */
+  snapshotHash: string;
+  /** ISO timestamp of the delta run. */
+  detectedAt: string;
+  subject: TriageDeltaSubject;
+  /** The end-user / owner name that matched (END_USER, OWNER). */
+  subjectName?: string;
+  /** Operation reference the end user is named on (END_USER). */
+  operationRef?: string;
+  /** Owner's effective share of the party, 0.0–1.0 (OWNER; absent for control without equity). */
+  effectivePercent?: number;
+}
+
 /** One hit as denormalized onto TradeParty.screeningHits (top-N). */
 export interface TriageHit {
   list: string;
   entryId: string;
   score: number;
   matchedFields: string[];
+  /** Primary name of the listed entry, when the engine recorded it. */
+  legalName?: string;
+  /** Present when the hit came from delta rescreening. */
+  delta?: TriageDeltaRef;
 }
 
 /** Shape fetched from GET /api/trade/parties (+ optional hit/cascade data). */
@@ -50,9 +82,9 @@ export interface TriageInputRow {
   isUSPerson: boolean;
   isHighRiskCountry: boolean;
   lastScreenedAt: string | null;
-  /** Top-N hits (TradeParty.screeningHits JSON) — may be absent. The list
-   *  endpoint doesn't return these today, so the queue cell degrades to a
-   *  generic reason and the concrete hits surface in the drawer. */
+  /** Top-N hits (TradeParty.screeningHits JSON) — may be absent (never
+   *  screened, or a caller that doesn't select them), in which case the
+   *  queue cell degrades to a generic reason. */
   screeningHits?: TriageHit[] | null;
   /** Whether the latest screening flagged a 50%-rule cascade hit. Optional;
    *  the list endpoint doesn't return it today, so callers default false. */
@@ -67,6 +99,8 @@ export interface TriageRow extends TriageInputRow {
   lastScreenedMs: number;
   /** Top hit by score, if any. */
   topHit: TriageHit | null;
+  /** First hit carrying a list-change reference, if any. */
+  deltaHit: TriageHit | null;
 }
 
 /** Statuses that belong in the default "needs action" queue. */
@@ -91,6 +125,10 @@ function topHitOf(row: TriageInputRow): TriageHit | null {
   return hits.reduce((best, h) => (h.score > best.score ? h : best), hits[0]);
 }
 
+function deltaHitOf(row: TriageInputRow): TriageHit | null {
+  return row.screeningHits?.find((h) => h.delta) ?? null;
+}
+
 function msSince(now: Date, iso: string | null): number {
   if (!iso) return Infinity; // never screened ⇒ maximally stale
   return now.getTime() - new Date(iso).getTime();
@@ -114,6 +152,7 @@ export function deriveTriageQueue(
       urgencyRank: urgencyRank(r.screeningStatus),
       lastScreenedMs: msSince(now, r.lastScreenedAt),
       topHit: topHitOf(r),
+      deltaHit: deltaHitOf(r),
     }));
   derived.sort(compareTriage);
   return derived;
@@ -133,6 +172,8 @@ export function compareTriage(a: TriageRow, b: TriageRow): number {
 export function triageReason(row: TriageRow): string {
   switch (row.screeningStatus) {
     case "POTENTIAL_MATCH": {
+      // A list change names the exact entry — more useful than the score.
+      if (row.deltaHit) return describeDeltaHit(row.deltaHit);
       if (row.topHit) {
         return `Potential match — top ${row.topHit.score.toFixed(2)} (${row.topHit.list})`;
       }
@@ -156,6 +197,34 @@ export function triageReason(row: TriageRow): string {
   }
 }
 
+/**
+ * "List change — OFAC_SDN entry 12345 "ivan petrov" added 2026-10-19 ·
+ * via end user "…" (OP-REF)". Falls back to the plain potential-match
+ * line for a hit without a delta reference.
+ */
+export function describeDeltaHit(hit: TriageHit): string {
+  const delta = hit.delta;
+  if (!delta) {
+    return `Potential match — top ${hit.score.toFixed(2)} (${hit.list})`;
+  }
+  const name = hit.legalName ? ` "${hit.legalName}"` : "";
+  const change = delta.change === "ADDED" ? "added" : "changed";
+  const head = `List change — ${hit.list} entry ${hit.entryId}${name} ${change} ${delta.detectedAt.slice(0, 10)}`;
+  switch (delta.subject) {
+    case "PARTY":
+      return head;
+    case "END_USER":
+      return `${head} · via end user "${delta.subjectName ?? "?"}"${delta.operationRef ? ` (${delta.operationRef})` : ""}`;
+    case "OWNER": {
+      const share =
+        delta.effectivePercent === undefined
+          ? "control"
+          : `${Math.round(delta.effectivePercent * 100)}%`;
+      return `${head} · via owner "${delta.subjectName ?? "?"}" (${share})`;
+    }
+  }
+}
+
 /** Reason validation mirroring (not replacing) the server Zod min(1).max(2000). */
 export function validateResolutionReason(
   notes: string,
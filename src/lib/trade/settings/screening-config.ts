@@ -35,6 +35,9 @@ export const SCREENING_LIST_KEYS = [
   "UK_OFSI",
   "EU_ANNEX_IV",
   "OPEN_SANCTIONS",
+  "JP_METI_EUL",
+  "CA_SEMA",
+  "AU_DFAT",
 ] as const;
 
 export type ScreeningListKey = (typeof SCREENING_LIST_KEYS)[number];
@@ -109,6 +112,24 @@ export const SCREENING_LISTS: ReadonlyArray<{
     authority: "Aggregated index — 50+ government sources",
     critical: false,
   },
+  {
+    key: "JP_METI_EUL",
+    label: "METI End User List",
+    authority: "Japan METI — FEFTA catch-all end users (WMD concern)",
+    critical: false,
+  },
+  {
+    key: "CA_SEMA",
+    label: "Canada SEMA",
+    authority: "Global Affairs Canada — SEMA / JVCFOA autonomous sanctions",
+    critical: false,
+  },
+  {
+    key: "AU_DFAT",
+    label: "DFAT Consolidated",
+    authority: "Australia DFAT — autonomous + UN sanctions",
+    critical: false,
+  },
 ];
 
 export const THRESHOLD_MIN = 0.7;
@@ -5,7 +5,10 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 vi.mock("server-only", () => ({}));
 
 vi.mock("@/lib/prisma", () => ({
-  prisma: { tradeOperation: { findFirst: vi.fn() } },
+  prisma: {
+    tradeOperation: { findFirst: vi.fn() },
+    tradeLicenseLedgerEntry: { groupBy: vi.fn() },
+  },
 }));
 vi.mock("@/lib/logger", () => ({
   logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn() },
@@ -40,6 +43,9 @@ const findFirst = prisma.tradeOperation.findFirst as unknown as ReturnType<
   typeof vi.fn
 >;
 const assessMock = assessOperation as unknown as ReturnType<typeof vi.fn>;
+const groupBy = prisma.tradeLicenseLedgerEntry.groupBy as unknown as ReturnType<
+  typeof vi.fn
+>;
 
 // ── Fixtures ─────────────────────────────────────────────────────────────────
 
@@ -54,10 +60,17 @@ function line(over: Record<string, unknown> = {}) {
       mtcrCategory: null,
       germanAlEntry: null,
     },
+    quantity: 2,
+    unitValue: BigInt(5_000_000),
+    unitCurrency: "EUR",
     appliedLicense: {
       id: "lic1",
       status: "ACTIVE",
       conditions: { coveredCodes: ["9A515"], coveredCountries: ["FR"] },
+      licenseNumber: "BAFA-2026-0042",
+      totalCapValue: null,
+      drawnDownValue: BigInt(0),
+      capCurrency: "EUR",
     },
     ...over,
   };
@@ -101,6 +114,7 @@ function goVerdict(over: Record<string, unknown> = {}) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  groupBy.mockResolvedValue([]);
 });
 
 // ── Tests ────────────────────────────────────────────────────────────────────
@@ -356,6 +370,137 @@ describe("evaluateShipGate — fail-closed on engine error", () => {
   });
 });
 
+describe("evaluateShipGate — licence usage caps", () => {
+  function cappedLine(license: Record<string, unknown>) {
+    const base = line();
+    return line({ appliedLicense: { ...base.appliedLicense, ...license } });
+  }
+
+  it("hard-blocks a shipment that would exceed the licence value cap", async () => {
+    // 2 × 50,000.00 EUR against 450,000.00 drawn of a 500,000.00 cap.
+    findFirst.mockResolvedValue(
+      operationRow({
+        lines: [
+          cappedLine({
+            totalCapValue: BigInt(50_000_000),
+            drawnDownValue: BigInt(45_000_000),
+          }),
+        ],
+      }),
+    );
+    assessMock.mockResolvedValue(goVerdict());
+
+    const result = await evaluateShipGate("op1", { organizationId: "org1" });
+
+    const reason = result.value.reasons.find(
+      (r) => r.code === "LICENSE_CAP_EXCEEDED",
+    );
+    expect(reason?.severity).toBe("BLOCKING");
+    expect(reason?.message).toContain("BAFA-2026-0042");
+    expect(result.value.hardBlocked).toBe(true);
+    expect(result.override.allowed).toBe(false);
+  });
+
+  it("checks per-position quantity caps against the booked ledger", async () => {
+    findFirst.mockResolvedValue(
+      operationRow({
+        lines: [
+          cappedLine({
+            conditions: {
+              coveredCodes: ["9A515"],
+              coveredCountries: ["FR"],
+              lineItems: [
+                { id: "1", codes: ["9A515.a"], quantityCap: { quantity: 10 } },
+              ],
+            },
+          }),
+        ],
+      }),
+    );
+    assessMock.mockResolvedValue(goVerdict());
+    groupBy.mockResolvedValue([
+      {
+        licenseId: "lic1",
+        lineItemId: "1",
+        currency: "EUR",
+        _sum: { quantity: 9, value: BigInt(0) },
+      },
+    ]);
+
+    const result = await evaluateShipGate("op1", { organizationId: "org1" });
+
+    expect(result.value.reasons.map((r) => r.code)).toEqual([
+      "LICENSE_CAP_EXCEEDED",
+    ]);
+    expect(groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { licenseId: { in: ["lic1"] } } }),
+    );
+  });
+
+  it("passes at 80 % usage and surfaces the projected meters", async () => {
+    findFirst.mockResolvedValue(
+      operationRow({
+        lines: [
+          cappedLine({
+            totalCapValue: BigInt(50_000_000),
+            drawnDownValue: BigInt(30_000_000),
+          }),
+        ],
+      }),
+    );
+    assessMock.mockResolvedValue(goVerdict());
+
+    const result = await evaluateShipGate("op1", { organizationId: "org1" });
+
+    expect(result.value.passed).toBe(true);
+    expect(result.value.licenseUsage[0].meters[0]).toMatchObject({
+      measure: "VALUE",
+      before: 300_000,
+      after: 400_000,
+      levelAfter: "WARNING",
+    });
+  });
+
+  it("flags a line in another currency than the cap as an overridable gap", async () => {
+    findFirst.mockResolvedValue(
+      operationRow({
+        lines: [
+          {
+            ...cappedLine({ totalCapValue: BigInt(50_000_000) }),
+            unitCurrency: "USD",
+          },
+        ],
+      }),
+    );
+    assessMock.mockResolvedValue(goVerdict());
+
+    const result = await evaluateShipGate("op1", { organizationId: "org1" });
+
+    expect(result.value.reasons).toEqual([
+      expect.objectContaining({
+        code: "LICENSE_USAGE_UNVERIFIED",
+        severity: "GAP",
+        lineId: "l1",
+      }),
+    ]);
+    expect(result.value.hardBlocked).toBe(false);
+  });
+
+  it("fails closed when the ledger cannot be read", async () => {
+    findFirst.mockResolvedValue(operationRow());
+    assessMock.mockResolvedValue(goVerdict());
+    groupBy.mockRejectedValue(new Error("db down"));
+
+    const result = await evaluateShipGate("op1", { organizationId: "org1" });
+
+    expect(result.value.reasons[0]).toMatchObject({
+      code: "ENGINE_ERROR",
+      severity: "BLOCKING",
+    });
+    expect(result.value.passed).toBe(false);
+  });
+});
+
 describe("composeExplained — envelope invariants", () => {
   function value(over: Partial<ShipGatePreconditionValue> = {}) {
     return {
@@ -370,6 +515,7 @@ describe("composeExplained — envelope invariants", () => {
           severity: "GAP" as const,
         },
       ],
+      licenseUsage: [],
       ...over,
     };
   }
@@ -42,6 +42,13 @@ import {
   OperationNotFoundError,
 } from "@/lib/trade/operation-assistant.server";
 import type { ExplainedResult } from "@/lib/comply-v2/trade/explained-result";
+import { projectShipmentUsage } from "@/lib/trade/licenses/license-ledger.server";
+import {
+  controlCodeCovers,
+  formatUsageMeter,
+  type LicenseUsageProjection,
+  type UsageMeter,
+} from "@/lib/trade/licenses/license-ledger";
 
 export { OperationNotFoundError };
 
@@ -53,6 +60,8 @@ export type ShipGateReasonCode =
   | "LICENSE_NOT_ACTIVE"
   | "LICENSE_CODE_NOT_COVERED"
   | "LICENSE_DEST_NOT_COVERED"
+  | "LICENSE_CAP_EXCEEDED"
+  | "LICENSE_USAGE_UNVERIFIED"
   | "SCREENING_NOT_CLEAR"
   | "CATCH_ALL_OPEN"
   | "NOTIFICATION_DUTY_OPEN"
@@ -68,7 +77,8 @@ export interface ShipGateReason {
   message: string;
   /**
    * BLOCKING = a hard block that can NOT be overridden to EXECUTED
-   * (sanctions hit, ITAR/embargo/Annex-IV/MTCR-Cat-I hard block).
+   * (sanctions hit, ITAR/embargo/Annex-IV/MTCR-Cat-I hard block, a
+   * licence quantity/value cap the shipment would exceed).
    * GAP = an unresolved precondition a NAMED human MAY consciously
    * override with a logged justification.
    */
@@ -92,6 +102,16 @@ export interface ShipGatePreconditionValue {
   verdict: "GO" | "REVIEW" | "BLOCKED";
   /** The specific unresolved reasons (empty iff passed === true). */
   reasons: ShipGateReason[];
+  /**
+   * Projected licence usage after this shipment, per licence drawn on.
+   * Informational: 80 % / 95 % levels do not fail the gate, only a meter
+   * past its cap does (LICENSE_CAP_EXCEEDED).
+   */
+  licenseUsage: Array<{
+    licenseId: string;
+    licenseNumber: string | null;
+    meters: UsageMeter[];
+  }>;
 }
 
 /**
@@ -185,8 +205,19 @@ export async function evaluateShipGate(
               germanAlEntry: true,
             },
           },
+          quantity: true,
+          unitValue: true,
+          unitCurrency: true,
           appliedLicense: {
-            select: { id: true, status: true, conditions: true },
+            select: {
+              id: true,
+              status: true,
+              conditions: true,
+              licenseNumber: true,
+              totalCapValue: true,
+              drawnDownValue: true,
+              capCurrency: true,
+            },
           },
         },
       },
@@ -309,9 +340,7 @@ export async function evaluateShipGate(
     // that FAILS CLOSED (we do not treat empty as "covers everything").
     if (lineCodes.length > 0) {
       const codeCovered = lineCodes.some((code) =>
-        coveredCodes.some(
-          (cc) => code === cc || code.startsWith(cc) || cc.startsWith(code),
-        ),
+        coveredCodes.some((cc) => controlCodeCovers(cc, code)),
       );
       if (!codeCovered) {
         reasons.push({
@@ -343,6 +372,51 @@ export async function evaluateShipGate(
     }
   }
 
+  // ── 3b. The shipment must fit every licence cap it draws on ──
+  // Projects the debit the ledger will book on EXECUTED against the
+  // licence value/quantity caps and the per-position caps. A cap the
+  // shipment would exceed is BLOCKING — a conscious override cannot
+  // create licence headroom. A ledger read failure FAILS CLOSED.
+  let usage: LicenseUsageProjection[] = [];
+  try {
+    usage = await projectShipmentUsage(operation.lines);
+  } catch (err) {
+    logger.error("evaluateShipGate: licence usage projection failed", err, {
+      operationId,
+    });
+    reasons.push({
+      code: "ENGINE_ERROR",
+      message:
+        "Die Auslastung der zugeordneten Genehmigungen konnte nicht ermittelt werden. Aus Sicherheitsgründen bleibt der Vorgang gesperrt, bis die Prüfung erneut durchläuft.",
+      severity: "BLOCKING",
+    });
+  }
+  for (const projection of usage) {
+    const licenseLabel = projection.licenseNumber ?? projection.licenseId;
+    for (const meter of projection.meters) {
+      if (meter.levelAfter !== "EXCEEDED" || meter.after <= meter.before) {
+        continue;
+      }
+      reasons.push({
+        code: "LICENSE_CAP_EXCEEDED",
+        message: `Die Lieferung überschreitet ${meter.measure === "VALUE" ? "das Wertkontingent" : "das Mengenkontingent"} der Genehmigung ${licenseLabel} — ${formatUsageMeter(meter)}. Vor Lieferung Erweiterung beantragen oder Menge reduzieren.`,
+        severity: "BLOCKING",
+      });
+    }
+    for (const u of projection.unverifiable) {
+      reasons.push({
+        code: "LICENSE_USAGE_UNVERIFIED",
+        message:
+          u.issue === "CURRENCY_MISMATCH"
+            ? `Der Wert von „${u.itemName}“ ist nicht in der Währung des Kontingents der Genehmigung ${licenseLabel}${u.lineItemId ? ` (Pos. ${u.lineItemId})` : ""} erfasst — die Auslastung kann nicht geprüft werden.`
+            : `Artikel „${u.itemName}“ passt zu keiner Position der Genehmigung ${licenseLabel} — die Abschreibung kann keinem Kontingent zugeordnet werden.`,
+        severity: "GAP",
+        lineId: u.lineId,
+        itemName: u.itemName,
+      });
+    }
+  }
+
   // ── 4. Open catch-all / notification duty ──
   // notificationDuty = a catch-all fired AND no covering licence attached yet
   // (§8 AWV Anzeigepflicht). It must be discharged before shipment.
@@ -389,6 +463,11 @@ export async function evaluateShipGate(
     hardBlocked,
     verdict,
     reasons,
+    licenseUsage: usage.map((p) => ({
+      licenseId: p.licenseId,
+      licenseNumber: p.licenseNumber,
+      meters: p.meters,
+    })),
   });
 }
 
@@ -425,7 +504,7 @@ export function composeExplained(
     what: value.hardBlocked
       ? `Versand gesperrt — ${value.reasons.length} ungelöste${value.reasons.length === 1 ? "r Punkt" : " Punkte"}, davon ${blockingCount} harte Sperre${blockingCount === 1 ? "" : "n"}. EXECUTED ist NICHT möglich.`
       : `Versand-Voraussetzungen nicht erfüllt — ${value.reasons.length} ungelöste${value.reasons.length === 1 ? "r Punkt" : " Punkte"}.`,
-    why: `Die Server-seitige Vorab-Prüfung (erneuter Assess-Lauf + Zeilen-Deckung + Screening + Catch-all) hat folgende Punkte gefunden:\n${reasonLines}`,
+    why: `Die Server-seitige Vorab-Prüfung (erneuter Assess-Lauf + Zeilen-Deckung + Kontingente + Screening + Catch-all) hat folgende Punkte gefunden:\n${reasonLines}`,
     wherefore: value.hardBlocked
       ? "Eine harte Sperre kann nicht zu EXECUTED übersteuert werden. Vorgang auf BLOCKED setzen und ggf. Voluntary Self-Disclosure prüfen."
       : `${gapCount} offene${gapCount === 1 ? "r Punkt" : " Punkte"} müssen geklärt werden. Mit bewusster, protokollierter Begründung kann eine benannte Person den Versand dennoch freigeben (Override) — andernfalls zuerst die Punkte schließen.`,
@@ -13,6 +13,7 @@ import {
   getRuleStatus,
   getRuleWarnings,
   isRuleInForce,
+  listRuleStatuses,
 } from "./rule-corpus-version";
 
 // ─── Affiliates Rule (the canonical stay case) ──────────────────────
@@ -219,6 +220,20 @@ describe("isRuleInForce — convenience boolean", () => {
   });
 });
 
+describe("listRuleStatuses — whole-manifest snapshot", () => {
+  it("resolves every rule and flips the stayed ones at the cliff", () => {
+    const before = listRuleStatuses(new Date("2026-11-08T12:00:00Z"));
+    const after = listRuleStatuses(new Date("2026-11-09T00:00:00Z"));
+    expect(before).toHaveLength(12);
+    expect(before.map((r) => r.ruleId)).toEqual(after.map((r) => r.ruleId));
+    const flipped = after
+      .filter((r, i) => r.inForce !== before[i].inForce)
+      .map((r) => r.ruleId);
+    expect(flipped).toContain("affiliates-rule-744.11");
+    expect(flipped).not.toContain("fdpr-734.9-c-9x515");
+  });
+});
+
 // ─── Error handling ─────────────────────────────────────────────────
 
 describe("getRuleStatus — error handling", () => {
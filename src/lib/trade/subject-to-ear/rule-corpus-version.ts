@@ -307,6 +307,17 @@ export function getRuleWarnings(
   return warnings;
 }
 
+/**
+ * Resolve every manifest rule for a given evaluation date, in manifest
+ * order. The classification regression harness fingerprints a corpus
+ * version with this so two runs can tell which rules flipped between them.
+ */
+export function listRuleStatuses(evaluatedAt: Date = new Date()): RuleStatus[] {
+  return (Object.keys(RULE_MANIFEST) as CorpusRuleId[]).map((ruleId) =>
+    getRuleStatus(ruleId, evaluatedAt),
+  );
+}
+
 /**
  * Convenience: is a specific rule currently in force on this date?
  */
@@ -32,6 +32,7 @@ import {
   type ExplainedResult,
 } from "@/lib/comply-v2/trade/explained-result";
 import { MUTATING_TRADE_TOOLS } from "@/lib/astra/trade-tool-gate";
+import { CONTROL_LIST_AMENDMENT_SOURCE } from "./control-list-amendment";
 
 /** Machine value carried by a proposal's ExplainedResult envelope. */
 export interface TradeProposalValue {
@@ -99,7 +100,26 @@ const ACTION_COPY: Record<
   },
 };
 
-function copyFor(actionName: string) {
+/**
+ * Copy for classification proposals raised by a control-list amendment
+ * (`control-list-amendment.server.ts`) rather than by Astra. Same tool name —
+ * the item page finalises it — but the reviewer must see that the trigger was
+ * a list change, not a model suggestion.
+ */
+const AMENDMENT_COPY = {
+  label: "Einstufung nach Listenänderung prüfen",
+  what: "Eine Änderung der Kontrollliste betrifft dieses Gut — Caelex schlägt eine Neubewertung der Einstufung vor.",
+  wherefore:
+    "Vorher/Nachher prüfen und anwenden — die Einstufung wird auf der Güter-Seite mit eigener Bestätigung finalisiert. Betroffene offene Vorgänge und Lizenzen sind im Vorschlag aufgeführt. Oder ablehnen.",
+};
+
+function copyFor(actionName: string, params: Record<string, unknown> = {}) {
+  if (
+    actionName === "apply_trade_classification" &&
+    params.source === CONTROL_LIST_AMENDMENT_SOURCE
+  ) {
+    return AMENDMENT_COPY;
+  }
   return (
     ACTION_COPY[actionName] ?? {
       label: actionName,
@@ -120,7 +140,7 @@ function buildProposalExplained(
   params: Record<string, unknown>,
   rationale: string | null,
 ): ExplainedResult<TradeProposalValue> {
-  const copy = copyFor(actionName);
+  const copy = copyFor(actionName, params);
   const why =
     rationale?.trim() ||
     "Astra hat diese mutierende Export-Control-Aktion vorgeschlagen. Caelex schreibt sie NICHT automatisch fest — sie wird als Vorschlag in die Warteschlange gestellt, den ein benannter Mensch prüft und anwendet.";
@@ -172,7 +192,7 @@ export async function listPendingTradeProposals(
       actionName: r.actionName,
       createdAt: r.createdAt.toISOString(),
       expiresAt: r.expiresAt.toISOString(),
-      actionLabel: copyFor(r.actionName).label,
+      actionLabel: copyFor(r.actionName, params).label,
       explained: buildProposalExplained(
         r.id,
         r.actionName,
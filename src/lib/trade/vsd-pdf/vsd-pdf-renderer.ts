@@ -4,7 +4,9 @@ import type { VsdDocument, VsdField, VsdSection } from "./vsd-shared";
 
 /**
  * Render a `VsdDocument` to a PDF (A4) using jsPDF. Reused by all
- * three VSD jurisdiction templates (OFAC / BIS / DDTC).
+ * three VSD jurisdiction templates (OFAC / BIS / DDTC) and, via
+ * `renderSectionedPdf`, by other privileged compliance reports that
+ * share the sections × fields × bullets model (ICP audit simulation).
  *
  * Pure: no I/O — returns a Buffer the route handler streams as
  * `Content-Type: application/pdf`.
@@ -40,17 +42,47 @@ const COL = {
 
 // ─── Public API ─────────────────────────────────────────────────────
 
+/** The parts of a `VsdDocument` the renderer actually prints. */
+export type SectionedPdfDocument = Pick<
+  VsdDocument,
+  "title" | "documentCode" | "preparedOn" | "filerOrgName" | "sections"
+>;
+
+/** Fixed per-report wording around the sections. */
+export interface SectionedPdfChrome {
+  /** Small caps line above the title. */
+  kicker: string;
+  /** Metadata label for `filerOrgName`. */
+  partyLabel: string;
+  /** Red banner at the foot of every page. */
+  disclaimer: string;
+}
+
+const VSD_CHROME: SectionedPdfChrome = {
+  kicker: "VOLUNTARY SELF-DISCLOSURE",
+  partyLabel: "Discloser",
+  disclaimer:
+    "DRAFT — TO BE REVIEWED BY COUNSEL BEFORE FILING. PRIVILEGED COMPLIANCE WORK-PRODUCT. NOT LEGAL ADVICE.",
+};
+
 export function renderVsdPdf(document: VsdDocument): Buffer {
+  return renderSectionedPdf(document, VSD_CHROME);
+}
+
+export function renderSectionedPdf(
+  document: SectionedPdfDocument,
+  chrome: SectionedPdfChrome,
+): Buffer {
   const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
   doc.setFont("helvetica", "normal");
 
   const ctx: RenderContext = { doc, y: MARGIN_T };
 
-  renderHeader(ctx, document);
+  renderHeader(ctx, document, chrome);
   for (const section of document.sections) {
     renderSection(ctx, section);
   }
-  renderFooter(ctx.doc, document);
+  renderFooter(ctx.doc, document, chrome);
 
   const arrayBuffer = ctx.doc.output("arraybuffer");
   return Buffer.from(arrayBuffer);
@@ -63,7 +95,11 @@ interface RenderContext {
   y: number;
 }
 
-function renderHeader(ctx: RenderContext, document: VsdDocument): void {
+function renderHeader(
+  ctx: RenderContext,
+  document: SectionedPdfDocument,
+  chrome: SectionedPdfChrome,
+): void {
   const { doc } = ctx;
 
   // Amber accent bar.
@@ -73,7 +109,7 @@ function renderHeader(ctx: RenderContext, document: VsdDocument): void {
   doc.setFont("helvetica", "bold");
   doc.setTextColor(...COL.slate500);
   doc.setFontSize(9);
-  doc.text("VOLUNTARY SELF-DISCLOSURE", MARGIN_L, MARGIN_T - 4);
+  doc.text(chrome.kicker, MARGIN_L, MARGIN_T - 4);
 
   doc.setFont("helvetica", "bold");
   doc.setTextColor(...COL.navy);
@@ -92,7 +128,7 @@ function renderHeader(ctx: RenderContext, document: VsdDocument): void {
   doc.setTextColor(...COL.slate500);
   const meta: string[] = [
     `Prepared on: ${document.preparedOn}`,
-    `Discloser: ${document.filerOrgName}`,
+    `${chrome.partyLabel}: ${document.filerOrgName}`,
   ];
   doc.text(meta.join("  ·  "), MARGIN_L, ctx.y + 4);
   ctx.y += 6;
@@ -197,7 +233,11 @@ function renderBullet(ctx: RenderContext, text: string): void {
   ctx.y += 1;
 }
 
-function renderFooter(doc: jsPDF, document: VsdDocument): void {
+function renderFooter(
+  doc: jsPDF,
+  document: SectionedPdfDocument,
+  chrome: SectionedPdfChrome,
+): void {
   const totalPages = doc.getNumberOfPages();
   for (let i = 1; i <= totalPages; i++) {
     doc.setPage(i);
@@ -216,12 +256,7 @@ function renderFooter(doc: jsPDF, document: VsdDocument): void {
 
     doc.setTextColor(...COL.red);
     doc.setFontSize(7);
-    doc.text(
-      "DRAFT — TO BE REVIEWED BY COUNSEL BEFORE FILING. PRIVILEGED COMPLIANCE WORK-PRODUCT. NOT LEGAL ADVICE.",
-      PAGE_W / 2,
-      PAGE_H - 8,
-      { align: "center" },
-    );
+    doc.text(chrome.disclaimer, PAGE_W / 2, PAGE_H - 8, { align: "center" });
   }
 }
 
@@ -0,0 +1,61 @@
+/**
+ * Validation schemas for Sentinel evidence packets.
+ *
+ * Shared by the single-packet ingest endpoint and the batch endpoint that
+ * agents use to replay their offline buffer. Cryptographic checks (content
+ * hash, Ed25519 signature, chain link) happen in the sentinel service, not
+ * here.
+ */
+
+import { z } from "zod";
+
+export const SentinelPacketSchema = z.object({
+  packet_id: z.string(),
+  version: z.string(),
+  sentinel_id: z.string(),
+  operator_id: z.string(),
+  satellite_norad_id: z
+    .string()
+    .regex(/^\d{1,8}$/)
+    .nullable(),
+  data: z.object({
+    data_point: z.string(),
+    values: z.record(z.string(), z.unknown()),
+    source_system: z.string(),
+    collection_method: z.string(),
+    collection_timestamp: z.string().datetime(),
+    compliance_notes: z.array(z.string()),
+  }),
+  regulation_mapping: z.array(
+    z.object({
+      ref: z.string(),
+      status: z.string(),
+      note: z.string(),
+    }),
+  ),
+  integrity: z.object({
+    content_hash: z.string().startsWith("sha256:"),
+    previous_hash: z.string(),
+    chain_position: z.number().int().nonnegative(),
+    signature: z.string(),
+    agent_public_key: z.string(),
+    timestamp_source: z.string(),
+  }),
+  metadata: z.object({
+    sentinel_version: z.string(),
+    collector: z.string(),
+    config_hash: z.string(),
+    uptime_seconds: z.number().nonnegative(),
+    packets_sent_total: z.number().int().nonnegative(),
+  }),
+});
+
+/** Upper bound on packets per replay batch; agents default to 200 */
+export const MAX_REPLAY_BATCH = 500;
+
+export const SentinelPacketBatchSchema = z.object({
+  sentinel_id: z.string(),
+  packets: z.array(SentinelPacketSchema).min(1).max(MAX_REPLAY_BATCH),
+});
+
+export type SentinelPacket = z.infer<typeof SentinelPacketSchema>;
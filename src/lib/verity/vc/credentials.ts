@@ -0,0 +1,169 @@
+/**
+ * Verity credentials as W3C VC 2.0 documents for standard wallets.
+ *
+ * Unlike attestationToVC (which re-encodes the native signature), these
+ * are complete credentials meant to be signed with an eddsa-jcs-2022
+ * Data Integrity proof (data-integrity.ts) and checked against a
+ * StatusList2021 revocation list (status-list.ts). Builders here are
+ * pure; issuer.server.ts wires them to the database and issuer keys.
+ */
+
+import type { ThresholdAttestation } from "../core/types";
+import { STATUS_LIST_CONTEXT, type StatusListEntry } from "./status-list";
+import { CAELEX_DID } from "./verifiable-credential";
+
+export const VC_V2_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+export const VERITY_VC_CONTEXT = "https://schema.caelex.eu/verity/v2";
+
+const CREDENTIAL_CONTEXT = [
+  VC_V2_CONTEXT,
+  STATUS_LIST_CONTEXT,
+  VERITY_VC_CONTEXT,
+];
+
+export interface AttestationCredential {
+  "@context": string[];
+  type: ["VerifiableCredential", "SpaceComplianceAttestation"];
+  id: string;
+  issuer: string;
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    id: string;
+    satelliteNorad: string | null;
+    regulation: {
+      ref: string;
+      name: string;
+      thresholdType: "ABOVE" | "BELOW";
+      thresholdValue: number;
+    };
+    complianceResult: boolean;
+    claim: string;
+    evidence: {
+      commitmentHash: string;
+      source: string;
+      trustLevel: string;
+      trustRange: string;
+    };
+    /** The native Verity signature, for cross-checking against /attestation/verify */
+    nativeAttestation: {
+      attestationId: string;
+      issuerKeyId: string;
+      signature: string;
+    };
+  };
+  credentialStatus: StatusListEntry;
+}
+
+export interface PassportCredentialInput {
+  passportId: string;
+  label: string;
+  operatorId: string;
+  satelliteNorad: string | null;
+  satelliteName: string | null;
+  complianceScore: number;
+  scoreBreakdown: Record<string, number>;
+  jurisdictions: string[];
+  attestations: unknown[];
+  generatedAt: Date;
+  expiresAt: Date;
+  verificationUrl: string;
+}
+
+export interface PassportCredential {
+  "@context": string[];
+  type: ["VerifiableCredential", "SpaceCompliancePassport"];
+  id: string;
+  issuer: string;
+  validFrom: string;
+  validUntil: string;
+  credentialSubject: {
+    id: string;
+    label: string;
+    operatorId: string;
+    satelliteNorad: string | null;
+    satelliteName: string | null;
+    complianceScore: number;
+    scoreBreakdown: Record<string, number>;
+    jurisdictions: string[];
+    attestations: unknown[];
+    verificationUrl: string;
+  };
+  credentialStatus: StatusListEntry;
+}
+
+function subjectId(satelliteNorad: string | null, operatorId: string): string {
+  return satelliteNorad
+    ? `urn:norad:${satelliteNorad}`
+    : `urn:operator:${operatorId}`;
+}
+
+/** Build the unsigned VC 2.0 form of a native attestation. */
+export function attestationToCredential(
+  attestation: ThresholdAttestation,
+  status: StatusListEntry,
+): AttestationCredential {
+  return {
+    "@context": CREDENTIAL_CONTEXT,
+    type: ["VerifiableCredential", "SpaceComplianceAttestation"],
+    id: `urn:caelex:verity:${attestation.attestation_id}`,
+    issuer: CAELEX_DID,
+    validFrom: attestation.issued_at,
+    validUntil: attestation.expires_at,
+    credentialSubject: {
+      id: subjectId(
+        attestation.subject.satellite_norad_id,
+        attestation.subject.operator_id,
+      ),
+      satelliteNorad: attestation.subject.satellite_norad_id,
+      regulation: {
+        ref: attestation.claim.regulation_ref,
+        name: attestation.claim.regulation_name,
+        thresholdType: attestation.claim.threshold_type,
+        thresholdValue: attestation.claim.threshold_value,
+      },
+      complianceResult: attestation.claim.result,
+      claim: attestation.claim.claim_statement,
+      evidence: {
+        commitmentHash: attestation.evidence.value_commitment,
+        source: attestation.evidence.source,
+        trustLevel: attestation.evidence.trust_level,
+        trustRange: attestation.evidence.trust_range,
+      },
+      nativeAttestation: {
+        attestationId: attestation.attestation_id,
+        issuerKeyId: attestation.issuer.key_id,
+        signature: attestation.signature,
+      },
+    },
+    credentialStatus: status,
+  };
+}
+
+/** Build the unsigned VC 2.0 form of a compliance passport. */
+export function passportToCredential(
+  passport: PassportCredentialInput,
+  status: StatusListEntry,
+): PassportCredential {
+  return {
+    "@context": CREDENTIAL_CONTEXT,
+    type: ["VerifiableCredential", "SpaceCompliancePassport"],
+    id: `urn:caelex:verity:passport:${passport.passportId}`,
+    issuer: CAELEX_DID,
+    validFrom: passport.generatedAt.toISOString(),
+    validUntil: passport.expiresAt.toISOString(),
+    credentialSubject: {
+      id: subjectId(passport.satelliteNorad, passport.operatorId),
+      label: passport.label,
+      operatorId: passport.operatorId,
+      satelliteNorad: passport.satelliteNorad,
+      satelliteName: passport.satelliteName,
+      complianceScore: passport.complianceScore,
+      scoreBreakdown: passport.scoreBreakdown,
+      jurisdictions: passport.jurisdictions,
+      attestations: passport.attestations,
+      verificationUrl: passport.verificationUrl,
+    },
+    credentialStatus: status,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { signDataIntegrity, verifyDataIntegrity } from "./data-integrity";
+import { base58btcDecode, base58btcEncode } from "./multibase";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function keyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privateKeyDer: privateKey.export({ format: "der", type: "pkcs8" }),
+    publicKeyHex: publicKey
+      .export({ format: "der", type: "spki" })
+      .toString("hex"),
+  };
+}
+
+const CREDENTIAL = {
+  "@context": ["https://www.w3.org/ns/credentials/v2"],
+  type: ["VerifiableCredential"],
+  issuer: "did:web:caelex.eu",
+  validFrom: "2026-10-01T00:00:00.000Z",
+  credentialSubject: { id: "urn:norad:25544", complianceScore: 87.5 },
+};
+
+// ─── base58btc ──────────────────────────────────────────────────────────────
+
+describe("base58btc", () => {
+  it("round-trips bytes including leading zeros", () => {
+    const bytes = new Uint8Array([0, 0, 1, 2, 255, 128, 7]);
+    expect(base58btcDecode(base58btcEncode(bytes))).toEqual(bytes);
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base58btcDecode("0OIl")).toThrow(/invalid base58btc/);
+  });
+});
+
+// ─── eddsa-jcs-2022 ─────────────────────────────────────────────────────────
+
+describe("signDataIntegrity / verifyDataIntegrity", () => {
+  const key = keyPair();
+
+  it("produces an eddsa-jcs-2022 proof that verifies", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#verity-2026-10-01",
+      created: new Date("2026-10-19T12:00:00Z"),
+    });
+
+    expect(secured.proof).toMatchObject({
+      type: "DataIntegrityProof",
+      cryptosuite: "eddsa-jcs-2022",
+      created: "2026-10-19T12:00:00.000Z",
+      proofPurpose: "assertionMethod",
+    });
+    expect(secured.proof.proofValue.startsWith("z")).toBe(true);
+    expect(verifyDataIntegrity(secured, key.publicKeyHex)).toEqual({
+      valid: true,
+    });
+  });
+
+  it("is independent of key order (JCS canonicalisation)", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#k",
+    });
+    const { proof, credentialSubject, ...rest } = secured;
+    const reordered = JSON.parse(
+      JSON.stringify({ proof, credentialSubject, ...rest }),
+    );
+    expect(verifyDataIntegrity(reordered, key.publicKeyHex).valid).toBe(true);
+  });
+
+  it("rejects a tampered document", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#k",
+    });
+    const tampered = {
+      ...secured,
+      credentialSubject: { ...secured.credentialSubject, complianceScore: 99 },
+    };
+    expect(verifyDataIntegrity(tampered, key.publicKeyHex)).toEqual({
+      valid: false,
+      error: "signature does not verify",
+    });
+  });
+
+  it("rejects a tampered proof config", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#k",
+    });
+    const tampered = {
+      ...secured,
+      proof: { ...secured.proof, created: "2020-01-01T00:00:00.000Z" },
+    };
+    expect(verifyDataIntegrity(tampered, key.publicKeyHex).valid).toBe(false);
+  });
+
+  it("rejects a signature from a different key", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#k",
+    });
+    expect(verifyDataIntegrity(secured, keyPair().publicKeyHex).valid).toBe(
+      false,
+    );
+  });
+
+  it("never throws on malformed input", () => {
+    expect(verifyDataIntegrity(null, key.publicKeyHex).valid).toBe(false);
+    expect(verifyDataIntegrity(CREDENTIAL, key.publicKeyHex).valid).toBe(false);
+    expect(
+      verifyDataIntegrity(
+        {
+          ...CREDENTIAL,
+          proof: {
+            type: "DataIntegrityProof",
+            cryptosuite: "eddsa-jcs-2022",
+            proofPurpose: "assertionMethod",
+            created: "x",
+            verificationMethod: "y",
+            proofValue: "z0OIl",
+          },
+        },
+        key.publicKeyHex,
+      ).valid,
+    ).toBe(false);
+  });
+
+  it("refuses to sign a document that already has a proof", () => {
+    const secured = signDataIntegrity(CREDENTIAL, {
+      privateKeyDer: key.privateKeyDer,
+      verificationMethod: "did:web:caelex.eu#k",
+    });
+    expect(() =>
+      signDataIntegrity(secured, {
+        privateKeyDer: key.privateKeyDer,
+        verificationMethod: "did:web:caelex.eu#k",
+      }),
+    ).toThrow(/already carries a proof/);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * W3C Data Integrity proofs, cryptosuite eddsa-jcs-2022.
+ *
+ * Per VC-DI-EdDSA §3.3 the signed bytes are
+ *
+ *   SHA-256(JCS(proofConfig)) || SHA-256(JCS(unsecuredDocument))
+ *
+ * where proofConfig is the proof without proofValue, carrying the
+ * document's @context. JCS (RFC 8785) is our canonical JSON: recursive
+ * key sort + ES number/string serialisation, which is exactly what
+ * canonicalJsonStringify does for the JSON we emit.
+ *
+ * Signatures are Ed25519 via node:crypto; proofValue is multibase
+ * base58btc ("z…").
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+} from "node:crypto";
+import { canonicalJsonStringify } from "../utils/canonical-json";
+import {
+  ED25519_SPKI_PREFIX,
+  base58btcDecode,
+  base58btcEncode,
+  extractRawEd25519PublicKey,
+} from "./multibase";
+
+export const DATA_INTEGRITY_CRYPTOSUITE = "eddsa-jcs-2022";
+
+export interface DataIntegrityProof {
+  type: "DataIntegrityProof";
+  cryptosuite: typeof DATA_INTEGRITY_CRYPTOSUITE;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: "assertionMethod";
+  proofValue: string;
+}
+
+export interface UnsecuredDocument {
+  "@context": string[];
+}
+
+export type SecuredDocument<T extends UnsecuredDocument> = T & {
+  proof: DataIntegrityProof;
+};
+
+function hashData(
+  document: UnsecuredDocument,
+  proofConfig: Omit<DataIntegrityProof, "proofValue">,
+): Buffer {
+  const configHash = createHash("sha256")
+    .update(
+      canonicalJsonStringify({
+        ...proofConfig,
+        "@context": document["@context"],
+      }),
+    )
+    .digest();
+  const documentHash = createHash("sha256")
+    .update(canonicalJsonStringify(document))
+    .digest();
+  return Buffer.concat([configHash, documentHash]);
+}
+
+/**
+ * Sign a credential with an eddsa-jcs-2022 Data Integrity proof.
+ *
+ * @param document - Credential without a proof
+ * @param options.privateKeyDer - PKCS8 DER Ed25519 private key (issuer-keys.ts form)
+ * @param options.verificationMethod - DID URL of the signing key
+ * @param options.created - Proof timestamp (defaults to now)
+ */
+export function signDataIntegrity<T extends UnsecuredDocument>(
+  document: T,
+  options: {
+    privateKeyDer: Buffer;
+    verificationMethod: string;
+    created?: Date;
+  },
+): SecuredDocument<T> {
+  if ("proof" in document) {
+    throw new Error("signDataIntegrity: document already carries a proof");
+  }
+
+  const proofConfig: Omit<DataIntegrityProof, "proofValue"> = {
+    type: "DataIntegrityProof",
+    cryptosuite: DATA_INTEGRITY_CRYPTOSUITE,
+    created: (options.created ?? new Date()).toISOString(),
+    verificationMethod: options.verificationMethod,
+    proofPurpose: "assertionMethod",
+  };
+
+  const privateKey = createPrivateKey({
+    key: options.privateKeyDer,
+    format: "der",
+    type: "pkcs8",
+  });
+  const signature = sign(null, hashData(document, proofConfig), privateKey);
+
+  return {
+    ...document,
+    proof: {
+      ...proofConfig,
+      proofValue: `z${base58btcEncode(new Uint8Array(signature))}`,
+    },
+  };
+}
+
+/**
+ * Verify an eddsa-jcs-2022 proof against an Ed25519 public key (raw or
+ * SPKI-DER hex). Never throws.
+ */
+export function verifyDataIntegrity(
+  secured: unknown,
+  publicKeyHex: string,
+): { valid: boolean; error?: string } {
+  try {
+    if (!secured || typeof secured !== "object") {
+      return { valid: false, error: "credential is not an object" };
+    }
+    const { proof, ...document } = secured as Record<string, unknown>;
+    const p = proof as Partial<DataIntegrityProof> | undefined;
+    if (
+      !p ||
+      p.type !== "DataIntegrityProof" ||
+      p.cryptosuite !== DATA_INTEGRITY_CRYPTOSUITE
+    ) {
+      return {
+        valid: false,
+        error: `proof is not a ${DATA_INTEGRITY_CRYPTOSUITE} DataIntegrityProof`,
+      };
+    }
+    if (p.proofPurpose !== "assertionMethod") {
+      return { valid: false, error: "proofPurpose must be assertionMethod" };
+    }
+    if (
+      typeof p.proofValue !== "string" ||
+      !p.proofValue.startsWith("z") ||
+      typeof p.created !== "string" ||
+      typeof p.verificationMethod !== "string"
+    ) {
+      return { valid: false, error: "proof is missing required fields" };
+    }
+    if (!Array.isArray(document["@context"])) {
+      return { valid: false, error: "credential has no @context" };
+    }
+
+    const { proofValue, ...proofConfig } = p as DataIntegrityProof;
+    const signature = base58btcDecode(proofValue.slice(1));
+    if (signature.length !== 64) {
+      return { valid: false, error: "proofValue is not an Ed25519 signature" };
+    }
+
+    const publicKey = createPublicKey({
+      key: Buffer.concat([
+        ED25519_SPKI_PREFIX,
+        extractRawEd25519PublicKey(publicKeyHex),
+      ]),
+      format: "der",
+      type: "spki",
+    });
+    const valid = verify(
+      null,
+      hashData(document as unknown as UnsecuredDocument, proofConfig),
+      publicKey,
+      signature,
+    );
+    return valid ? { valid } : { valid, error: "signature does not verify" };
+  } catch (err) {
+    return {
+      valid: false,
+      error: err instanceof Error ? err.message : "verification failed",
+    };
+  }
+}
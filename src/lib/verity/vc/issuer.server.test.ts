@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+
+vi.mock("server-only", () => ({}));
+
+const keys = vi.hoisted(
+  () => new Map<string, { publicKeyHex: string; privateKeyDer: Buffer }>(),
+);
+const active = vi.hoisted(() => ({ keyId: "" }));
+
+vi.mock("../keys/issuer-keys", () => ({
+  getActiveIssuerKey: vi.fn(async () => ({
+    keyId: active.keyId,
+    ...keys.get(active.keyId)!,
+  })),
+  getKeyByKeyId: vi.fn(async (_prisma: unknown, keyId: string) => {
+    const key = keys.get(keyId);
+    return key ? { publicKeyHex: key.publicKeyHex } : null;
+  }),
+}));
+
+import {
+  buildSignedStatusList,
+  exportAttestationCredential,
+  exportPassportCredential,
+  verifyCredential,
+} from "./issuer.server";
+import { verifyDataIntegrity } from "./data-integrity";
+import { decodeStatusList, isStatusSet } from "./status-list";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function addKey(keyId: string): void {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  keys.set(keyId, {
+    privateKeyDer: privateKey.export({ format: "der", type: "pkcs8" }),
+    publicKeyHex: publicKey
+      .export({ format: "der", type: "spki" })
+      .toString("hex"),
+  });
+  active.keyId = keyId;
+}
+
+interface Row {
+  id: string;
+  statusListIndex: number | null;
+  revokedAt: Date | null;
+}
+
+/** In-memory stand-in for the two tables, enforcing @unique on the index. */
+function createFakeTable(rows: Row[]) {
+  return {
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => {
+      const row = rows.find((r) => r.id === where.id);
+      return row ? { statusListIndex: row.statusListIndex } : null;
+    }),
+    updateMany: vi.fn(
+      async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { statusListIndex: number };
+      }) => {
+        if (rows.some((r) => r.statusListIndex === data.statusListIndex)) {
+          throw Object.assign(new Error("Unique constraint"), {
+            code: "P2002",
+          });
+        }
+        const row = rows.find(
+          (r) => r.id === where.id && r.statusListIndex === null,
+        );
+        if (row) row.statusListIndex = data.statusListIndex;
+        return { count: row ? 1 : 0 };
+      },
+    ),
+    findMany: vi.fn(async () =>
+      rows.filter((r) => r.revokedAt && r.statusListIndex !== null),
+    ),
+    findFirst: vi.fn(
+      async ({ where }: { where: { statusListIndex: number } }) =>
+        rows.find((r) => r.statusListIndex === where.statusListIndex) ?? null,
+    ),
+  };
+}
+
+const ATTESTATION = {
+  attestation_id: "va_1760000000_abc",
+  version: "3.0",
+  claim: {
+    regulation_ref: "eu_art70",
+    regulation_name: "EU Space Act Art. 70 — Debris Mitigation",
+    threshold_type: "ABOVE",
+    threshold_value: 0.9,
+    result: true,
+    claim_statement: "Post-mission disposal reliability ≥ 90%",
+  },
+  subject: {
+    operator_id: "user_1",
+    satellite_norad_id: "25544",
+    satellite_name: "ISS",
+  },
+  evidence: {
+    value_commitment: "pedersen:ab",
+    source: "sentinel",
+    trust_level: "HIGH",
+    trust_range: "0.90-0.98",
+  },
+  issuer: { key_id: "verity-old", public_key: "00" },
+  issued_at: "2026-10-01T00:00:00.000Z",
+  expires_at: "2027-10-01T00:00:00.000Z",
+  signature: "deadbeef",
+};
+
+const PASSPORT = {
+  id: "p1",
+  passportId: "pp_1",
+  label: "ISS Passport",
+  operatorId: "user_1",
+  satelliteNorad: "25544",
+  satelliteName: "ISS",
+  complianceScore: 87,
+  scoreBreakdown: { debris: 90, cyber: 84 },
+  attestationSummary: [{ attestationId: "va_1760000000_abc" }],
+  jurisdictions: ["DE", "FR"],
+  generatedAt: new Date("2026-10-01T00:00:00Z"),
+  expiresAt: new Date("2027-01-01T00:00:00Z"),
+};
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("Verity VC issuer", () => {
+  let attestations: Row[];
+  let passports: Row[];
+  let prisma: import("@prisma/client").PrismaClient;
+
+  beforeEach(() => {
+    keys.clear();
+    addKey("verity-2026-01");
+    attestations = [{ id: "a1", statusListIndex: null, revokedAt: null }];
+    passports = [{ id: "p1", statusListIndex: null, revokedAt: null }];
+    prisma = {
+      verityAttestation: createFakeTable(attestations),
+      verityPassport: createFakeTable(passports),
+    } as unknown as import("@prisma/client").PrismaClient;
+  });
+
+  it("exports an attestation as a signed VC 2.0 credential", async () => {
+    const vc = await exportAttestationCredential(prisma, {
+      id: "a1",
+      fullAttestation: ATTESTATION,
+    });
+
+    expect(vc.type).toEqual([
+      "VerifiableCredential",
+      "SpaceComplianceAttestation",
+    ]);
+    expect(vc.credentialSubject.id).toBe("urn:norad:25544");
+    expect(vc.proof.verificationMethod).toBe(
+      "did:web:caelex.eu#verity-2026-01",
+    );
+    expect(vc.credentialStatus.statusListIndex).toBe(
+      String(attestations[0]!.statusListIndex),
+    );
+    expect(
+      verifyDataIntegrity(vc, keys.get("verity-2026-01")!.publicKeyHex).valid,
+    ).toBe(true);
+  });
+
+  it("keeps the status list index stable across exports", async () => {
+    const first = await exportPassportCredential(prisma, PASSPORT);
+    const second = await exportPassportCredential(prisma, PASSPORT);
+
+    expect(second.credentialStatus).toEqual(first.credentialStatus);
+    expect(prisma.verityPassport.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("draws again when a random index is already taken", async () => {
+    attestations.push({ id: "a2", statusListIndex: null, revokedAt: null });
+    await exportAttestationCredential(prisma, {
+      id: "a1",
+      fullAttestation: ATTESTATION,
+    });
+    const taken = attestations[0]!.statusListIndex!;
+    const table = prisma.verityAttestation as unknown as ReturnType<
+      typeof createFakeTable
+    >;
+    table.updateMany.mockImplementationOnce(async () => {
+      throw Object.assign(new Error("Unique constraint"), { code: "P2002" });
+    });
+
+    await exportAttestationCredential(prisma, {
+      id: "a2",
+      fullAttestation: ATTESTATION,
+    });
+    expect(attestations[1]!.statusListIndex).not.toBeNull();
+    expect(attestations[1]!.statusListIndex).not.toBe(taken);
+  });
+
+  it("verifies a fresh credential", async () => {
+    const vc = await exportPassportCredential(prisma, PASSPORT);
+    const result = await verifyCredential(prisma, vc, NOW);
+
+    expect(result).toEqual({
+      valid: true,
+      checks: { proof: true, validityPeriod: true, notRevoked: true },
+      keyId: "verity-2026-01",
+      errors: [],
+    });
+  });
+
+  it("still verifies credentials signed before a key rotation", async () => {
+    const vc = await exportPassportCredential(prisma, PASSPORT);
+    addKey("verity-2026-10");
+
+    const result = await verifyCredential(prisma, vc, NOW);
+    expect(result.valid).toBe(true);
+    expect(result.keyId).toBe("verity-2026-01");
+  });
+
+  it("reports revocation through both the status list and verification", async () => {
+    const vc = await exportAttestationCredential(prisma, {
+      id: "a1",
+      fullAttestation: ATTESTATION,
+    });
+    const index = Number(vc.credentialStatus.statusListIndex);
+    attestations[0]!.revokedAt = new Date("2026-10-10T00:00:00Z");
+
+    const list = await buildSignedStatusList(prisma, "attestations", NOW);
+    expect(list.id).toBe(vc.credentialStatus.statusListCredential);
+    const bits = decodeStatusList(list.credentialSubject.encodedList);
+    expect(isStatusSet(bits, index)).toBe(true);
+    expect(isStatusSet(bits, (index + 1) % bits.length)).toBe(false);
+    expect(
+      verifyDataIntegrity(list, keys.get("verity-2026-01")!.publicKeyHex).valid,
+    ).toBe(true);
+
+    const result = await verifyCredential(prisma, vc, NOW);
+    expect(result.valid).toBe(false);
+    expect(result.checks).toEqual({
+      proof: true,
+      validityPeriod: true,
+      notRevoked: false,
+    });
+    expect(result.errors).toContain("credential has been revoked");
+  });
+
+  it("rejects expired, tampered and foreign-key credentials", async () => {
+    const vc = await exportPassportCredential(prisma, PASSPORT);
+
+    const expired = await verifyCredential(
+      prisma,
+      vc,
+      new Date("2027-06-01T00:00:00Z"),
+    );
+    expect(expired.checks.validityPeriod).toBe(false);
+
+    const tampered = await verifyCredential(
+      prisma,
+      {
+        ...vc,
+        credentialSubject: { ...vc.credentialSubject, complianceScore: 100 },
+      },
+      NOW,
+    );
+    expect(tampered.checks.proof).toBe(false);
+
+    const foreign = await verifyCredential(
+      prisma,
+      {
+        ...vc,
+        proof: { ...vc.proof, verificationMethod: "did:web:evil.example#k" },
+      },
+      NOW,
+    );
+    expect(foreign.checks.proof).toBe(false);
+    expect(foreign.keyId).toBeNull();
+  });
+
+  it("never throws on garbage input", async () => {
+    const result = await verifyCredential(prisma, "not a credential", NOW);
+    expect(result.valid).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+});
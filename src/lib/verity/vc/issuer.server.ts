@@ -0,0 +1,301 @@
+import "server-only";
+
+import { randomInt } from "node:crypto";
+import type { PrismaClient } from "@prisma/client";
+import type { ThresholdAttestation } from "../core/types";
+import { getActiveIssuerKey, getKeyByKeyId } from "../keys/issuer-keys";
+import {
+  attestationToCredential,
+  passportToCredential,
+  type AttestationCredential,
+  type PassportCredential,
+} from "./credentials";
+import {
+  signDataIntegrity,
+  verifyDataIntegrity,
+  type SecuredDocument,
+} from "./data-integrity";
+import {
+  STATUS_LIST_SIZE,
+  buildStatusListCredential,
+  encodeStatusList,
+  statusListEntry,
+  type StatusListCredential,
+} from "./status-list";
+import { CAELEX_DID } from "./verifiable-credential";
+
+/**
+ * Issues and verifies Verity credentials as W3C VC 2.0 documents.
+ *
+ * Credentials are signed with the active issuer key; the proof's
+ * verificationMethod is `did:web:caelex.eu#<keyId>`, which the DID
+ * document resolves for every key ever issued, so rotation does not
+ * invalidate credentials signed under an older key. Revocation is
+ * published through one status list per credential kind, with bits
+ * driven by the existing `revokedAt` columns.
+ */
+
+export type StatusListKind = "attestations" | "passports";
+
+const PRISMA_UNIQUE_VIOLATION = "P2002";
+const MAX_INDEX_ATTEMPTS = 5;
+
+export function statusListUrl(kind: StatusListKind): string {
+  const APP_URL = process.env.NEXT_PUBLIC_APP_URL ?? "https://www.caelex.eu";
+  return `${APP_URL}/api/v1/verity/vc/status/${kind}`;
+}
+
+/**
+ * Return the row's status list index, allocating one on first export.
+ *
+ * Indices are drawn at random rather than sequentially so a list
+ * position does not leak issuance order. The `@unique` constraint
+ * settles collisions and concurrent exports: the loser re-reads the
+ * row (another request may have allocated it) or draws again.
+ */
+async function ensureStatusListIndex(
+  prisma: PrismaClient,
+  kind: StatusListKind,
+  id: string,
+): Promise<number> {
+  for (let attempt = 1; attempt <= MAX_INDEX_ATTEMPTS; attempt++) {
+    const row =
+      kind === "attestations"
+        ? await prisma.verityAttestation.findUnique({
+            where: { id },
+            select: { statusListIndex: true },
+          })
+        : await prisma.verityPassport.findUnique({
+            where: { id },
+            select: { statusListIndex: true },
+          });
+    if (!row) throw new Error(`ensureStatusListIndex: ${kind} row not found`);
+    if (row.statusListIndex !== null) return row.statusListIndex;
+
+    const candidate = randomInt(STATUS_LIST_SIZE);
+    try {
+      const where = { id, statusListIndex: null };
+      const data = { statusListIndex: candidate };
+      if (kind === "attestations") {
+        await prisma.verityAttestation.updateMany({ where, data });
+      } else {
+        await prisma.verityPassport.updateMany({ where, data });
+      }
+    } catch (err) {
+      if ((err as { code?: string }).code !== PRISMA_UNIQUE_VIOLATION) {
+        throw err;
+      }
+    }
+  }
+  throw new Error(
+    `ensureStatusListIndex: no free ${kind} index after ${MAX_INDEX_ATTEMPTS} attempts`,
+  );
+}
+
+async function signWithActiveKey<
+  T extends AttestationCredential | PassportCredential | StatusListCredential,
+>(prisma: PrismaClient, document: T): Promise<SecuredDocument<T>> {
+  const key = await getActiveIssuerKey(prisma);
+  return signDataIntegrity(document, {
+    privateKeyDer: key.privateKeyDer,
+    verificationMethod: `${CAELEX_DID}#${key.keyId}`,
+  });
+}
+
+/**
+ * Export an attestation as a signed VC 2.0 credential.
+ *
+ * @param record - The VerityAttestation row (`id` + stored `fullAttestation`)
+ */
+export async function exportAttestationCredential(
+  prisma: PrismaClient,
+  record: { id: string; fullAttestation: unknown },
+): Promise<SecuredDocument<AttestationCredential>> {
+  const index = await ensureStatusListIndex(prisma, "attestations", record.id);
+  const credential = attestationToCredential(
+    record.fullAttestation as ThresholdAttestation,
+    statusListEntry(statusListUrl("attestations"), index),
+  );
+  return signWithActiveKey(prisma, credential);
+}
+
+/**
+ * Export a passport as a signed VC 2.0 credential.
+ *
+ * @param record - The VerityPassport row
+ */
+export async function exportPassportCredential(
+  prisma: PrismaClient,
+  record: {
+    id: string;
+    passportId: string;
+    label: string;
+    operatorId: string;
+    satelliteNorad: string | null;
+    satelliteName: string | null;
+    complianceScore: number;
+    scoreBreakdown: unknown;
+    attestationSummary: unknown;
+    jurisdictions: string[];
+    generatedAt: Date;
+    expiresAt: Date;
+  },
+): Promise<SecuredDocument<PassportCredential>> {
+  const APP_URL = process.env.NEXT_PUBLIC_APP_URL ?? "https://www.caelex.eu";
+  const index = await ensureStatusListIndex(prisma, "passports", record.id);
+  const credential = passportToCredential(
+    {
+      passportId: record.passportId,
+      label: record.label,
+      operatorId: record.operatorId,
+      satelliteNorad: record.satelliteNorad,
+      satelliteName: record.satelliteName,
+      complianceScore: record.complianceScore,
+      scoreBreakdown: record.scoreBreakdown as Record<string, number>,
+      attestations: record.attestationSummary as unknown[],
+      jurisdictions: record.jurisdictions,
+      generatedAt: record.generatedAt,
+      expiresAt: record.expiresAt,
+      verificationUrl: `${APP_URL}/verity/passport/${record.passportId}`,
+    },
+    statusListEntry(statusListUrl("passports"), index),
+  );
+  return signWithActiveKey(prisma, credential);
+}
+
+async function revokedIndices(
+  prisma: PrismaClient,
+  kind: StatusListKind,
+): Promise<number[]> {
+  const where = { revokedAt: { not: null }, statusListIndex: { not: null } };
+  const select = { statusListIndex: true };
+  const rows =
+    kind === "attestations"
+      ? await prisma.verityAttestation.findMany({ where, select })
+      : await prisma.verityPassport.findMany({ where, select });
+  return rows.map((r) => r.statusListIndex!);
+}
+
+/**
+ * Build and sign the current status list credential for one kind.
+ * Only rows that have been exported (and so carry an index) appear.
+ */
+export async function buildSignedStatusList(
+  prisma: PrismaClient,
+  kind: StatusListKind,
+  now: Date = new Date(),
+): Promise<SecuredDocument<StatusListCredential>> {
+  const encodedList = encodeStatusList(await revokedIndices(prisma, kind));
+  return signWithActiveKey(
+    prisma,
+    buildStatusListCredential(statusListUrl(kind), encodedList, now),
+  );
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  checks: {
+    proof: boolean;
+    validityPeriod: boolean;
+    notRevoked: boolean;
+  };
+  keyId: string | null;
+  errors: string[];
+}
+
+/**
+ * Verify a Verity VC 2.0 credential: Data Integrity proof against the
+ * issuer key named in its verificationMethod (active or rotated),
+ * validFrom/validUntil window, and revocation status from the DB.
+ * Never throws on malformed input.
+ */
+export async function verifyCredential(
+  prisma: PrismaClient,
+  credential: unknown,
+  now: Date = new Date(),
+): Promise<CredentialVerification> {
+  const errors: string[] = [];
+  const checks = { proof: false, validityPeriod: false, notRevoked: false };
+  const vc = (credential ?? {}) as {
+    issuer?: unknown;
+    validFrom?: unknown;
+    validUntil?: unknown;
+    credentialStatus?: {
+      statusListCredential?: unknown;
+      statusListIndex?: unknown;
+    };
+    proof?: { verificationMethod?: unknown };
+  };
+
+  // 1. Proof — resolve the key from did:web:caelex.eu#<keyId>
+  let keyId: string | null = null;
+  const method = vc.proof?.verificationMethod;
+  if (vc.issuer !== CAELEX_DID) {
+    errors.push(`issuer is not ${CAELEX_DID}`);
+  } else if (
+    typeof method !== "string" ||
+    !method.startsWith(`${CAELEX_DID}#`)
+  ) {
+    errors.push("verificationMethod is not a Caelex issuer key");
+  } else {
+    keyId = method.slice(CAELEX_DID.length + 1);
+    const key = await getKeyByKeyId(prisma, keyId);
+    if (!key) {
+      errors.push(`unknown issuer key ${keyId}`);
+    } else {
+      const result = verifyDataIntegrity(credential, key.publicKeyHex);
+      checks.proof = result.valid;
+      if (!result.valid) errors.push(result.error ?? "invalid proof");
+    }
+  }
+
+  // 2. Validity window
+  const from =
+    typeof vc.validFrom === "string" ? Date.parse(vc.validFrom) : NaN;
+  const until =
+    vc.validUntil === undefined
+      ? Infinity
+      : typeof vc.validUntil === "string"
+        ? Date.parse(vc.validUntil)
+        : NaN;
+  if (Number.isNaN(from) || Number.isNaN(until)) {
+    errors.push("validFrom/validUntil missing or malformed");
+  } else if (now.getTime() < from) {
+    errors.push("credential is not yet valid");
+  } else if (now.getTime() > until) {
+    errors.push("credential has expired");
+  } else {
+    checks.validityPeriod = true;
+  }
+
+  // 3. Revocation — read the same source the status list is built from
+  const status = vc.credentialStatus;
+  const kind = (["attestations", "passports"] as const).find(
+    (k) => status?.statusListCredential === statusListUrl(k),
+  );
+  const index = Number(status?.statusListIndex);
+  if (!kind || !Number.isInteger(index)) {
+    errors.push("credentialStatus does not reference a Caelex status list");
+  } else {
+    const where = { statusListIndex: index };
+    const select = { revokedAt: true };
+    const row =
+      kind === "attestations"
+        ? await prisma.verityAttestation.findFirst({ where, select })
+        : await prisma.verityPassport.findFirst({ where, select });
+    if (!row) {
+      errors.push("credential status entry is unknown");
+    } else if (row.revokedAt) {
+      errors.push("credential has been revoked");
+    } else {
+      checks.notRevoked = true;
+    }
+  }
+
+  return {
+    valid: checks.proof && checks.validityPeriod && checks.notRevoked,
+    checks,
+    keyId,
+    errors,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Multibase / base58btc helpers for Verity W3C credentials.
+ *
+ * Shared by the VC emitter, the DID document and the Data Integrity
+ * proofs. Tiny pure-JS base58btc codec so we avoid another dependency.
+ */
+
+/**
+ * Ed25519 SPKI-DER public keys are always 44 bytes: a fixed 12-byte
+ * SubjectPublicKeyInfo header followed by the 32 raw key bytes. The
+ * Verity key store persists the SPKI-DER form (see issuer-keys.ts),
+ * so we strip the header here. A bare 32-byte raw key is also
+ * accepted for forward-compat.
+ */
+export const ED25519_SPKI_PREFIX = new Uint8Array([
+  0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
+]);
+
+export function extractRawEd25519PublicKey(keyHex: string): Uint8Array {
+  const bytes = hexToBytes(keyHex);
+  if (bytes.length === 32) return bytes;
+  if (bytes.length === 44) {
+    // Validate the SPKI-DER header to avoid stripping junk silently.
+    for (let i = 0; i < ED25519_SPKI_PREFIX.length; i++) {
+      if (bytes[i] !== ED25519_SPKI_PREFIX[i]) {
+        throw new Error(
+          "extractRawEd25519PublicKey: 44-byte input has unexpected SPKI header",
+        );
+      }
+    }
+    return bytes.subarray(12);
+  }
+  throw new Error(
+    `extractRawEd25519PublicKey: expected 32-byte raw or 44-byte SPKI DER key, got ${bytes.length}`,
+  );
+}
+
+/**
+ * Encode an Ed25519 public-key hex string as a multibase string
+ * per W3C cid-v1 convention: 0xed 0x01 prefix (ed25519-pub
+ * multicodec) + raw 32 bytes, then base58btc with 'z' prefix.
+ */
+export function encodeMultibaseEd25519(publicKeyHex: string): string {
+  const raw = extractRawEd25519PublicKey(publicKeyHex);
+  // Multicodec prefix for ed25519-pub: varint(0xed) = 0xed 0x01
+  const prefixed = new Uint8Array(raw.length + 2);
+  prefixed[0] = 0xed;
+  prefixed[1] = 0x01;
+  prefixed.set(raw, 2);
+  return "z" + base58btcEncode(prefixed);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0) throw new Error("invalid hex length");
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function base58btcEncode(bytes: Uint8Array): string {
+  // Count leading zeros — they encode as '1' prefix.
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // Treat bytes as a big-endian integer and convert to base58 digits.
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i]!;
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j]! << 8;
+      digits[j] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  let output = "";
+  for (let i = 0; i < zeros; i++) output += "1";
+  for (let i = digits.length - 1; i >= 0; i--) {
+    output += BASE58_ALPHABET[digits[i]!];
+  }
+  return output;
+}
+
+/**
+ * Inverse of base58btcEncode. Throws on characters outside the
+ * bitcoin alphabet.
+ */
+export function base58btcDecode(text: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === "1") zeros++;
+
+  const bytes: number[] = [];
+  for (let i = zeros; i < text.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(text[i]!);
+    if (carry < 0) throw new Error(`invalid base58btc character "${text[i]}"`);
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j]! * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const out = new Uint8Array(zeros + bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    out[zeros + i] = bytes[bytes.length - 1 - i]!;
+  }
+  return out;
+}
@@ -0,0 +1,100 @@
+/**
+ * StatusList2021-style revocation lists for Verity credentials.
+ *
+ * Each exported credential gets a fixed index into a list; the list
+ * credential carries a GZIP-compressed, base64url bitstring where bit
+ * `index` (most significant bit first) set means "revoked". 131,072
+ * entries (16 KB uncompressed) is the spec's minimum size and hides
+ * which credential a verifier is checking among many.
+ */
+
+import { gunzipSync, gzipSync } from "node:zlib";
+import { CAELEX_DID } from "./verifiable-credential";
+
+export const STATUS_LIST_SIZE = 131_072;
+
+export const STATUS_LIST_CONTEXT = "https://w3id.org/vc/status-list/2021/v1";
+
+export interface StatusListEntry {
+  id: string;
+  type: "StatusList2021Entry";
+  statusPurpose: "revocation";
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface StatusListCredential {
+  "@context": string[];
+  id: string;
+  type: ["VerifiableCredential", "StatusList2021Credential"];
+  issuer: string;
+  validFrom: string;
+  credentialSubject: {
+    id: string;
+    type: "StatusList2021";
+    statusPurpose: "revocation";
+    encodedList: string;
+  };
+}
+
+/** Status entry pointing a credential at its bit in a list. */
+export function statusListEntry(
+  listUrl: string,
+  index: number,
+): StatusListEntry {
+  if (!Number.isInteger(index) || index < 0 || index >= STATUS_LIST_SIZE) {
+    throw new Error(`status list index ${index} out of range`);
+  }
+  return {
+    id: `${listUrl}#${index}`,
+    type: "StatusList2021Entry",
+    statusPurpose: "revocation",
+    statusListIndex: String(index),
+    statusListCredential: listUrl,
+  };
+}
+
+/** Encode the set bits as a GZIP-compressed base64url bitstring. */
+export function encodeStatusList(setIndices: Iterable<number>): string {
+  const bits = new Uint8Array(STATUS_LIST_SIZE / 8);
+  for (const index of setIndices) {
+    if (!Number.isInteger(index) || index < 0 || index >= STATUS_LIST_SIZE) {
+      throw new Error(`status list index ${index} out of range`);
+    }
+    bits[index >> 3]! |= 0x80 >> (index & 7);
+  }
+  return gzipSync(bits).toString("base64url");
+}
+
+/** Decode an encodedList back to its bitstring. */
+export function decodeStatusList(encodedList: string): Uint8Array {
+  return new Uint8Array(gunzipSync(Buffer.from(encodedList, "base64url")));
+}
+
+/** Whether bit `index` is set. Out-of-range indices read as unset. */
+export function isStatusSet(bits: Uint8Array, index: number): boolean {
+  const byte = bits[index >> 3];
+  if (byte === undefined || index < 0) return false;
+  return (byte & (0x80 >> (index & 7))) !== 0;
+}
+
+/** Unsigned status list credential for the given bitstring. */
+export function buildStatusListCredential(
+  listUrl: string,
+  encodedList: string,
+  validFrom: Date,
+): StatusListCredential {
+  return {
+    "@context": ["https://www.w3.org/ns/credentials/v2", STATUS_LIST_CONTEXT],
+    id: listUrl,
+    type: ["VerifiableCredential", "StatusList2021Credential"],
+    issuer: CAELEX_DID,
+    validFrom: validFrom.toISOString(),
+    credentialSubject: {
+      id: `${listUrl}#list`,
+      type: "StatusList2021",
+      statusPurpose: "revocation",
+      encodedList,
+    },
+  };
+}
@@ -12,11 +12,19 @@
  *   - Ed25519Signature2020 proof suite for Phase 1 (v1) attestations
  *   - Data Integrity proof w/ ed25519-2020 cryptosuite for v2
  *
+ * Wallet-grade exports with freshly signed eddsa-jcs-2022 proofs and
+ * StatusList2021 revocation live in credentials.ts / issuer.server.ts.
+ *
  * Everything runs locally — no external API calls, no managed
  * services, no paid deps.
  */
 
 import type { ThresholdAttestation } from "../core/types";
+import {
+  base58btcEncode,
+  encodeMultibaseEd25519,
+  hexToBytes,
+} from "./multibase";
 
 // ─── DID:web configuration ──────────────────────────────────────────
 
@@ -48,24 +56,32 @@ export function buildDidDocument(
   publicKeyHex: string,
   keyId: string,
 ): DidWebDocument {
-  const multibase = encodeMultibaseEd25519(publicKeyHex);
-  const vmId = `${CAELEX_DID}#${keyId}`;
+  return buildDidDocumentForKeys([{ keyId, publicKeyHex }]);
+}
+
+/**
+ * Same document with one verification method per issuer key. Rotated
+ * keys stay listed as assertion methods so credentials they signed
+ * keep resolving after rotation; the first key should be the active one.
+ */
+export function buildDidDocumentForKeys(
+  keys: Array<{ keyId: string; publicKeyHex: string }>,
+): DidWebDocument {
+  const methods = keys.map((k) => ({
+    id: `${CAELEX_DID}#${k.keyId}`,
+    type: "Ed25519VerificationKey2020",
+    controller: CAELEX_DID,
+    publicKeyMultibase: encodeMultibaseEd25519(k.publicKeyHex),
+  }));
   return {
     "@context": [
       "https://www.w3.org/ns/did/v1",
       "https://w3id.org/security/suites/ed25519-2020/v1",
     ],
     id: CAELEX_DID,
-    verificationMethod: [
-      {
-        id: vmId,
-        type: "Ed25519VerificationKey2020",
-        controller: CAELEX_DID,
-        publicKeyMultibase: multibase,
-      },
-    ],
-    assertionMethod: [vmId],
-    authentication: [vmId],
+    verificationMethod: methods,
+    assertionMethod: methods.map((m) => m.id),
+    authentication: methods.slice(0, 1).map((m) => m.id),
   };
 }
 
@@ -175,92 +191,3 @@ export function attestationToVC(
     },
   };
 }
-
-// ─── Multibase Ed25519 helpers ──────────────────────────────────────
-
-/**
- * Encode an Ed25519 public-key hex string as a multibase string
- * per W3C cid-v1 convention: 0xed 0x01 prefix (ed25519-pub
- * multicodec) + raw 32 bytes, then base58btc with 'z' prefix.
- *
- * Tiny pure-JS base58btc encoder so we avoid another dependency.
- */
-/**
- * Ed25519 SPKI-DER public keys are always 44 bytes: a fixed 12-byte
- * SubjectPublicKeyInfo header followed by the 32 raw key bytes. The
- * Verity key store persists the SPKI-DER form (see issuer-keys.ts),
- * so we strip the header here. A bare 32-byte raw key is also
- * accepted for forward-compat.
- */
-const ED25519_SPKI_PREFIX = new Uint8Array([
-  0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
-]);
-
-function extractRawEd25519PublicKey(keyHex: string): Uint8Array {
-  const bytes = hexToBytes(keyHex);
-  if (bytes.length === 32) return bytes;
-  if (bytes.length === 44) {
-    // Validate the SPKI-DER header to avoid stripping junk silently.
-    for (let i = 0; i < ED25519_SPKI_PREFIX.length; i++) {
-      if (bytes[i] !== ED25519_SPKI_PREFIX[i]) {
-        throw new Error(
-          "extractRawEd25519PublicKey: 44-byte input has unexpected SPKI header",
-        );
-      }
-    }
-    return bytes.subarray(12);
-  }
-  throw new Error(
-    `extractRawEd25519PublicKey: expected 32-byte raw or 44-byte SPKI DER key, got ${bytes.length}`,
-  );
-}
-
-function encodeMultibaseEd25519(publicKeyHex: string): string {
-  const raw = extractRawEd25519PublicKey(publicKeyHex);
-  // Multicodec prefix for ed25519-pub: varint(0xed) = 0xed 0x01
-  const prefixed = new Uint8Array(raw.length + 2);
-  prefixed[0] = 0xed;
-  prefixed[1] = 0x01;
-  prefixed.set(raw, 2);
-  return "z" + base58btcEncode(prefixed);
-}
-
-function hexToBytes(hex: string): Uint8Array {
-  if (hex.length % 2 !== 0) throw new Error("invalid hex length");
-  const out = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < out.length; i++) {
-    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
-  }
-  return out;
-}
-
-const BASE58_ALPHABET =
-  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
-
-function base58btcEncode(bytes: Uint8Array): string {
-  // Count leading zeros — they encode as '1' prefix.
-  let zeros = 0;
-  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
-
-  // Treat bytes as a big-endian integer and convert to base58 digits.
-  const digits: number[] = [];
-  for (let i = zeros; i < bytes.length; i++) {
-    let carry = bytes[i]!;
-    for (let j = 0; j < digits.length; j++) {
-      carry += digits[j]! << 8;
-      digits[j] = carry % 58;
-      carry = (carry / 58) | 0;
-    }
-    while (carry > 0) {
-      digits.push(carry % 58);
-      carry = (carry / 58) | 0;
-    }
-  }
-
-  let output = "";
-  for (let i = 0; i < zeros; i++) output += "1";
-  for (let i = digits.length - 1; i >= 0; i--) {
-    output += BASE58_ALPHABET[digits[i]!];
-  }
-  return output;
-}
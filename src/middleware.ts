@@ -291,6 +291,7 @@ const CSRF_EXEMPT_ROUTES = [
   "/api/newsletter/", // Public newsletter subscribe/unsubscribe
   "/api/demo/", // Public demo request form
   "/api/ontology/seed", // Ontology seed uses Bearer token auth (CRON_SECRET), not browser session
+  "/api/cowf/qes/callback/", // QES signing providers call back server-to-server, authenticated per provider
 ];
 
 function validateOrigin(req: NextRequest): boolean {
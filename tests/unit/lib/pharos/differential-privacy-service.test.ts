@@ -0,0 +1,279 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * DP-Insights service tests — the persistent budget ledger (refusal,
+ * race re-check, parallel composition over jurisdictions), query
+ * validation and the mechanisms applied to the operator pool.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  ledger: { findMany: vi.fn(), create: vi.fn() },
+  oversightRelationship: { findMany: vi.fn() },
+  organizationMember: { findMany: vi.fn() },
+  incident: { findMany: vi.fn() },
+  deadline: { count: vi.fn() },
+  transaction: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    pharosDpLedgerEntry: mocks.ledger,
+    oversightRelationship: mocks.oversightRelationship,
+    organizationMember: mocks.organizationMember,
+    incident: mocks.incident,
+    deadline: mocks.deadline,
+    $transaction: mocks.transaction,
+  },
+}));
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  DpQueryError,
+  getBudgetStatus,
+  releaseQuery,
+  runInsightQuery,
+  type OperatorSnapshot,
+} from "@/lib/pharos/differential-privacy-service";
+
+const NOW = new Date("2026-10-19T15:30:00Z");
+
+function run(query: unknown) {
+  return runInsightQuery({
+    authorityProfileId: "ap_1",
+    actorUserId: "u1",
+    query,
+    now: NOW,
+  });
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  mocks.ledger.findMany.mockResolvedValue([]);
+  mocks.ledger.create.mockResolvedValue({ id: "dp_1" });
+  mocks.transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn({ pharosDpLedgerEntry: mocks.ledger }),
+  );
+  mocks.oversightRelationship.findMany.mockResolvedValue([
+    { operatorOrgId: "org_a", authorityProfile: { jurisdiction: "DE" } },
+    { operatorOrgId: "org_b", authorityProfile: { jurisdiction: "FR" } },
+    // Zweite Aufsicht über org_a — Heimat bleibt die ältere (DE).
+    { operatorOrgId: "org_a", authorityProfile: { jurisdiction: "FR" } },
+  ]);
+  mocks.organizationMember.findMany.mockResolvedValue([
+    { organizationId: "org_a", userId: "ua" },
+    { organizationId: "org_b", userId: "ub" },
+  ]);
+  mocks.incident.findMany.mockResolvedValue([]);
+  mocks.deadline.count.mockResolvedValue(0);
+});
+
+describe("runInsightQuery", () => {
+  it("books the query on today's ledger and returns interval + remaining budget", async () => {
+    mocks.ledger.findMany.mockResolvedValue([{ epsilon: 2 }]);
+    const answer = await run({
+      kind: "count",
+      metric: "operators-with-open-incidents",
+      epsilon: 0.5,
+    });
+
+    expect(mocks.ledger.create.mock.calls[0][0].data).toMatchObject({
+      authorityProfileId: "ap_1",
+      actorUserId: "u1",
+      day: "2026-10-19",
+      queryKind: "count",
+      epsilon: 0.5,
+      partitionGroup: null,
+      partitionKey: null,
+    });
+    expect(answer.ledgerEntryId).toBe("dp_1");
+    expect(answer.budget).toEqual({
+      day: "2026-10-19",
+      limit: 10,
+      spent: 2.5,
+      remaining: 7.5,
+      resetsAt: "2026-10-20T00:00:00.000Z",
+    });
+    expect(answer.release.kind).toBe("count");
+    if (answer.release.kind === "count") {
+      expect(answer.release.lowerBound95).toBeLessThanOrEqual(
+        answer.release.upperBound95,
+      );
+    }
+    expect(mocks.transaction.mock.calls[0][1]).toEqual({
+      isolationLevel: "Serializable",
+    });
+  });
+
+  it("refuses an exhausted budget before reading the operator pool", async () => {
+    mocks.ledger.findMany.mockResolvedValue([{ epsilon: 9.5 }]);
+    const err = await run({
+      kind: "histogram",
+      dimension: "compliance-tier",
+    }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(DpQueryError);
+    expect(err.code).toBe("BUDGET_EXHAUSTED");
+    expect(err.budget).toMatchObject({ spent: 9.5, remaining: 0.5 });
+    expect(mocks.oversightRelationship.findMany).not.toHaveBeenCalled();
+    expect(mocks.ledger.create).not.toHaveBeenCalled();
+  });
+
+  it("composes jurisdiction-scoped queries in parallel", async () => {
+    mocks.ledger.findMany.mockResolvedValue([
+      { epsilon: 4.5, partitionGroup: null, partitionKey: null },
+      { epsilon: 5, partitionGroup: "home-jurisdiction", partitionKey: "DE" },
+    ]);
+
+    const fr = await run({
+      kind: "mean",
+      measure: "compliance-score",
+      jurisdiction: "FR",
+    });
+    // 4.5 + max(DE 5, FR 1)
+    expect(fr.budget.spent).toBe(9.5);
+    expect(mocks.ledger.create.mock.calls[0][0].data).toMatchObject({
+      partitionGroup: "home-jurisdiction",
+      partitionKey: "FR",
+    });
+
+    await expect(
+      run({ kind: "mean", measure: "compliance-score", jurisdiction: "DE" }),
+    ).rejects.toMatchObject({ code: "BUDGET_EXHAUSTED" });
+  });
+
+  it("re-checks the budget inside the serializable transaction", async () => {
+    // Vorab-Prüfung sieht ein leeres Ledger, eine parallele Anfrage hat
+    // bis zur Buchung fast alles verbraucht.
+    mocks.ledger.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ epsilon: 9.8 }]);
+    await expect(
+      run({ kind: "count", metric: "operators-in-alert-tier" }),
+    ).rejects.toMatchObject({ code: "BUDGET_EXHAUSTED" });
+    expect(mocks.ledger.create).not.toHaveBeenCalled();
+  });
+
+  it("retries serialization failures", async () => {
+    mocks.transaction
+      .mockRejectedValueOnce(
+        Object.assign(new Error("conflict"), { code: "P2034" }),
+      )
+      .mockImplementationOnce(async (fn: (tx: unknown) => unknown) =>
+        fn({ pharosDpLedgerEntry: mocks.ledger }),
+      );
+    const answer = await run({
+      kind: "topk",
+      dimension: "open-incident-category",
+    });
+    expect(mocks.transaction).toHaveBeenCalledTimes(2);
+    expect(answer.release.kind).toBe("topk");
+  });
+
+  it("rejects malformed queries without touching the ledger", async () => {
+    for (const query of [
+      { kind: "median", measure: "compliance-score" },
+      { kind: "count", metric: "operators-with-open-incidents", epsilon: 50 },
+      { kind: "mean", measure: "open-incidents", lower: 5, upper: 5 },
+      { kind: "histogram", dimension: "operator-name" },
+    ]) {
+      await expect(run(query)).rejects.toMatchObject({ code: "INVALID" });
+    }
+    expect(mocks.ledger.findMany).not.toHaveBeenCalled();
+  });
+
+  it("abstains on an empty pool without spending budget", async () => {
+    mocks.oversightRelationship.findMany.mockResolvedValue([]);
+    await expect(
+      run({ kind: "count", metric: "operators-with-open-incidents" }),
+    ).rejects.toMatchObject({ code: "EMPTY_POOL" });
+    expect(mocks.ledger.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("releaseQuery", () => {
+  function op(
+    homeJurisdiction: string,
+    categories: string[],
+    overdueDeadlines = 0,
+  ): OperatorSnapshot {
+    return {
+      homeJurisdiction,
+      openIncidents: categories.length,
+      openIncidentCategories: new Set(categories),
+      overdueDeadlines,
+      score: Math.max(0, 100 - categories.length * 10 - overdueDeadlines * 5),
+    };
+  }
+
+  const pool = [
+    ...Array.from({ length: 300 }, () => op("DE", [])),
+    ...Array.from({ length: 200 }, () => op("DE", ["cyber_incident"], 5)),
+    ...Array.from({ length: 100 }, () => op("FR", ["conjunction_event"])),
+  ];
+
+  it("bins the filtered pool into the fixed histogram bins", () => {
+    const r = releaseQuery(
+      {
+        kind: "histogram",
+        dimension: "compliance-tier",
+        jurisdiction: "DE",
+        epsilon: 5,
+      },
+      pool,
+    );
+    if (r.kind !== "histogram") throw new Error("expected histogram");
+    const byBin = Object.fromEntries(
+      r.bins.map((b) => [b.bin, b.releasedCount]),
+    );
+    expect(Object.keys(byBin)).toEqual(["stable", "drift", "alert"]);
+    expect(Math.abs(byBin.stable - 300)).toBeLessThan(10);
+    expect(Math.abs(byBin.alert - 200)).toBeLessThan(10);
+    expect(byBin.drift).toBeLessThan(10);
+  });
+
+  it("ranks incident categories with one vote per operator", () => {
+    const r = releaseQuery(
+      {
+        kind: "topk",
+        dimension: "open-incident-category",
+        k: 2,
+        epsilon: 2,
+      },
+      pool,
+    );
+    if (r.kind !== "topk") throw new Error("expected topk");
+    expect(r.items).toEqual(["cyber_incident", "conjunction_event"]);
+  });
+
+  it("uses the measure's default clamp bounds", () => {
+    const r = releaseQuery(
+      { kind: "mean", measure: "compliance-score", jurisdiction: "FR" },
+      pool,
+    );
+    if (r.kind !== "mean") throw new Error("expected mean");
+    expect([r.lower, r.upper]).toEqual([0, 100]);
+    expect(Math.abs(r.mean - 90)).toBeLessThan(10);
+  });
+});
+
+describe("getBudgetStatus", () => {
+  it("reads only today's entries and reports the next UTC midnight", async () => {
+    mocks.ledger.findMany.mockResolvedValue([{ epsilon: 3 }]);
+    expect(await getBudgetStatus("ap_1", NOW)).toMatchObject({
+      spent: 3,
+      remaining: 7,
+      resetsAt: "2026-10-20T00:00:00.000Z",
+    });
+    expect(mocks.ledger.findMany.mock.calls[0][0].where).toEqual({
+      authorityProfileId: "ap_1",
+      day: "2026-10-19",
+    });
+  });
+});
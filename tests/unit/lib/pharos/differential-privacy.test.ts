@@ -1,12 +1,13 @@
 /**
  * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
  *
- * Differential-Privacy Layer Tests.
+ * Differential-Privacy Layer Tests — Laplace-Noise, Counts, Histogramme,
+ * Clamped Means, Top-k und die Komposition von Ledger-Einträgen.
  *
  * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 
 vi.mock("server-only", () => ({}));
 vi.mock("@/lib/logger", () => ({
@@ -15,19 +16,15 @@ vi.mock("@/lib/logger", () => ({
 
 import {
   COUNT_SENSITIVITY,
-  DEFAULT_EPSILON,
-  _resetBudgetForTests,
-  chargeBudget,
+  composeEpsilon,
+  dpClampedMean,
   dpCount,
-  getBudgetStatus,
+  dpHistogram,
+  dpTopK,
+  laplaceHalfWidth,
   laplaceNoise,
-  noisifyAggregate,
 } from "@/lib/pharos/differential-privacy";
 
-beforeEach(() => {
-  _resetBudgetForTests();
-});
-
 describe("laplaceNoise", () => {
   it("returns numbers (not NaN, not Infinity)", () => {
     for (let i = 0; i < 100; i++) {
@@ -89,69 +86,167 @@ describe("dpCount", () => {
     expect(() => dpCount({ realCount: 10, epsilon: 0 })).toThrow();
     expect(() => dpCount({ realCount: 10, epsilon: -1 })).toThrow();
   });
+
+  it("uses default sensitivity = 1 for counts", () => {
+    expect(COUNT_SENSITIVITY).toBe(1);
+  });
 });
 
-describe("budget accounting", () => {
-  it("first charge starts the budget", () => {
-    const r = chargeBudget("auth-1", 1.0);
-    expect(r.ok).toBe(true);
-    expect(r.remaining).toBe(9);
+describe("laplaceHalfWidth", () => {
+  it("uses the exact Laplace quantile", () => {
+    expect(laplaceHalfWidth(1)).toBeCloseTo(Math.log(20));
+    expect(laplaceHalfWidth(2, 0.99)).toBeCloseTo(2 * Math.log(100));
   });
 
-  it("subsequent charges accumulate", () => {
-    chargeBudget("auth-2", 2.0);
-    const r = chargeBudget("auth-2", 3.0);
-    expect(r.ok).toBe(true);
-    expect(r.remaining).toBe(5);
+  it("covers ~95% of Laplace samples", () => {
+    const t = laplaceHalfWidth(1);
+    let inside = 0;
+    const N = 4000;
+    for (let i = 0; i < N; i++) if (Math.abs(laplaceNoise(1)) <= t) inside++;
+    expect(inside / N).toBeGreaterThan(0.93);
+    expect(inside / N).toBeLessThan(0.97);
   });
+});
 
-  it("rejects when budget exceeded", () => {
-    chargeBudget("auth-3", 9.0);
-    const r = chargeBudget("auth-3", 2.0);
-    expect(r.ok).toBe(false);
-    expect(r.reason).toMatch(/budget exceeded/i);
+describe("dpHistogram", () => {
+  const bins = ["stable", "drift", "alert"] as const;
+
+  it("releases every fixed bin, including empty ones, for a single ε", () => {
+    const r = dpHistogram({ counts: { stable: 40 }, bins, epsilon: 2 });
+    expect(r.bins.map((b) => b.bin)).toEqual(["stable", "drift", "alert"]);
+    expect(r).toMatchObject({ epsilon: 2, composition: "parallel" });
+    for (const b of r.bins) {
+      expect(b.releasedCount).toBeGreaterThanOrEqual(0);
+      expect(b.lowerBound95).toBeLessThanOrEqual(b.releasedCount);
+      expect(b.upperBound95).toBeGreaterThanOrEqual(b.releasedCount);
+    }
+    expect(r.bins[0].releasedCount).toBeGreaterThan(20);
   });
 
-  it("budget tracking is per-authority isolated", () => {
-    chargeBudget("auth-A", 9.5);
-    const r = chargeBudget("auth-B", 5.0);
-    expect(r.ok).toBe(true);
+  it("rejects counts for bins outside the fixed list", () => {
+    expect(() => dpHistogram({ counts: { rare: 1 }, bins })).toThrow(
+      /unknown bin/,
+    );
   });
+});
 
-  it("getBudgetStatus reflects spends", () => {
-    chargeBudget("auth-status", 3.0);
-    const s = getBudgetStatus("auth-status");
-    expect(s.spent).toBe(3.0);
-    expect(s.remaining).toBe(7.0);
+describe("dpClampedMean", () => {
+  it("is close to the true mean and stays within the clamp bounds", () => {
+    const values: number[] = Array.from({ length: 500 }, (_, i) =>
+      i % 2 ? 80 : 60,
+    );
+    // Ausreißer werden auf upper geclampt statt den Mittelwert zu ziehen.
+    values.push(10_000);
+    let sum = 0;
+    const N = 200;
+    for (let i = 0; i < N; i++) {
+      const r = dpClampedMean({ values, lower: 0, upper: 100, epsilon: 1 });
+      expect(r.mean).toBeGreaterThanOrEqual(0);
+      expect(r.mean).toBeLessThanOrEqual(100);
+      expect(r.lowerBound95).toBeLessThanOrEqual(r.upperBound95);
+      sum += r.mean;
+    }
+    expect(Math.abs(sum / N - 70)).toBeLessThan(2);
+  });
+
+  it("covers the true mean in roughly 95% of releases or more", () => {
+    const values = Array.from({ length: 50 }, (_, i) => i % 11);
+    const truth = values.reduce((a, b) => a + b, 0) / values.length;
+    let covered = 0;
+    const N = 500;
+    for (let i = 0; i < N; i++) {
+      const r = dpClampedMean({ values, lower: 0, upper: 10, epsilon: 1 });
+      if (r.lowerBound95 <= truth && truth <= r.upperBound95) covered++;
+    }
+    expect(covered / N).toBeGreaterThan(0.93);
+  });
+
+  it("falls back to the clamp range when the count is too noisy", () => {
+    // Der Noisy-Count schließt 0 nur in ~1 % der Releases aus.
+    let fallbacks = 0;
+    for (let i = 0; i < 50; i++) {
+      const r = dpClampedMean({
+        values: [5],
+        lower: 0,
+        upper: 10,
+        epsilon: 0.1,
+      });
+      if (r.lowerBound95 === 0 && r.upperBound95 === 10) fallbacks++;
+    }
+    expect(fallbacks).toBeGreaterThan(40);
+  });
+
+  it("rejects empty clamp ranges and ε <= 0", () => {
+    expect(() => dpClampedMean({ values: [1], lower: 5, upper: 5 })).toThrow();
+    expect(() =>
+      dpClampedMean({ values: [1], lower: 0, upper: 5, epsilon: 0 }),
+    ).toThrow();
   });
 });
 
-describe("noisifyAggregate", () => {
-  it("returns an ok aggregate when budget is available", () => {
-    const r = noisifyAggregate({
-      authorityProfileId: "auth-aggregate-1",
-      metric: "operators-with-open-incidents",
-      realCount: 42,
-    });
-    expect(r.ok).toBe(true);
-    expect(r.releasedCount).toBeGreaterThanOrEqual(0);
-    expect(r.epsilon).toBe(DEFAULT_EPSILON);
-  });
-
-  it("returns abstention when budget exhausted", () => {
-    const auth = "auth-budget-exhausted";
-    chargeBudget(auth, 9.5);
-    const r = noisifyAggregate({
-      authorityProfileId: auth,
-      metric: "operators-in-alert-tier",
-      realCount: 5,
-      epsilon: 1.0,
+describe("dpTopK", () => {
+  const candidates = ["a", "b", "c", "d", "e"];
+
+  it("selects k distinct candidates, preferring high scores", () => {
+    let hits = 0;
+    for (let i = 0; i < 100; i++) {
+      const r = dpTopK({
+        scores: { c: 200, e: 150, a: 3 },
+        candidates,
+        k: 2,
+        epsilon: 1,
+      });
+      expect(new Set(r.items).size).toBe(2);
+      if (r.items[0] === "c" && r.items[1] === "e") hits++;
+    }
+    expect(hits).toBeGreaterThan(95);
+  });
+
+  it("is close to uniform when ε is tiny", () => {
+    const seen = new Set<string>();
+    for (let i = 0; i < 200; i++) {
+      seen.add(
+        dpTopK({ scores: { a: 5 }, candidates, k: 1, epsilon: 0.001 }).items[0],
+      );
+    }
+    expect(seen.size).toBe(5);
+  });
+
+  it("reports the shortfall bound of k rounds at ε/k each", () => {
+    const r = dpTopK({ scores: {}, candidates, k: 2, epsilon: 1 });
+    expect(r.maxScoreShortfall95).toBeCloseTo(4 * Math.log(5 / 0.025));
+    expect(r).toMatchObject({
+      mechanism: "exponential",
+      composition: "sequential",
     });
-    expect(r.ok).toBe(false);
-    expect(r.reason).toMatch(/budget/i);
+    expect(() => dpTopK({ scores: {}, candidates, k: 6 })).toThrow();
   });
+});
 
-  it("uses default sensitivity = 1 for counts", () => {
-    expect(COUNT_SENSITIVITY).toBe(1);
+describe("composeEpsilon", () => {
+  it("sums unpartitioned releases sequentially", () => {
+    expect(composeEpsilon([{ epsilon: 1 }, { epsilon: 2.5 }])).toBe(3.5);
+  });
+
+  it("takes the max across disjoint parts of one partition", () => {
+    const g = "home-jurisdiction";
+    expect(
+      composeEpsilon([
+        { epsilon: 1, partitionGroup: g, partitionKey: "DE" },
+        { epsilon: 1, partitionGroup: g, partitionKey: "DE" },
+        { epsilon: 1.5, partitionGroup: g, partitionKey: "FR" },
+        { epsilon: 0.5 },
+      ]),
+    ).toBe(2.5);
+  });
+
+  it("composes different partitions sequentially", () => {
+    expect(
+      composeEpsilon([
+        { epsilon: 1, partitionGroup: "x", partitionKey: "1" },
+        { epsilon: 1, partitionGroup: "y", partitionKey: "1" },
+      ]),
+    ).toBe(2);
+    expect(composeEpsilon([])).toBe(0);
   });
 });
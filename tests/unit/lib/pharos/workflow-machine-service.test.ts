@@ -0,0 +1,319 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Workflow machine service tests — draft versioning, the simulate →
+ * publish gate, runtime resolution of authored machines and the
+ * signature gate on manual dispatch.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  machineDef: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  workflowCase: {
+    create: vi.fn(),
+    findUnique: vi.fn(),
+  },
+  transaction: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    workflowMachineDef: mocks.machineDef,
+    workflowCase: mocks.workflowCase,
+    $transaction: mocks.transaction,
+  },
+}));
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+beforeAll(() => {
+  process.env.ENCRYPTION_KEY =
+    process.env.ENCRYPTION_KEY ||
+    "test-encryption-key-for-unit-tests-deterministic-32chars";
+});
+
+import {
+  __resetMachineCacheForTests,
+  MachineDefError,
+  publishMachine,
+  resolveMachine,
+  saveMachineDraft,
+  simulateMachineDraft,
+} from "@/lib/pharos/workflow-machine-service";
+import {
+  loadMachineSource,
+  machineDefHash,
+} from "@/lib/pharos/workflow-machine-spec";
+import {
+  createWorkflowCase,
+  dispatchEvent,
+} from "@/lib/pharos/workflow-service";
+
+const SOURCE = JSON.stringify({
+  id: "cra-market-surveillance",
+  version: 1,
+  title: "CRA-Marktüberwachung",
+  initial: "Opened",
+  states: {
+    Opened: {
+      label: "Verfahren eröffnet",
+      after: { duration: "P14D", target: "Escalated", reason: "14 Tage" },
+      on: { MEASURE_PROPOSED: "Decision" },
+    },
+    Escalated: {
+      label: "Eskaliert",
+      noDeadline: "Eskalation läuft manuell",
+      on: { MEASURE_PROPOSED: "Decision" },
+    },
+    Decision: {
+      label: "Maßnahme",
+      signatures: {
+        approvalKind: "SANCTION_ORDER",
+        onApproved: "ORDERED",
+        onRejected: "DROPPED",
+      },
+      on: { ORDERED: "Ordered", DROPPED: "Dropped" },
+    },
+    Ordered: { label: "Angeordnet", final: true },
+    Dropped: { label: "Eingestellt", final: true },
+  },
+});
+
+const def = loadMachineSource(SOURCE, "json").def!;
+const hash = machineDefHash(def);
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "md_1",
+    authorityProfileId: "ap_1",
+    machineId: "cra-market-surveillance",
+    version: 1,
+    fsmId: def.id,
+    title: "CRA-Marktüberwachung",
+    status: "DRAFT",
+    definition: def,
+    definitionHash: hash,
+    simulatedHash: null,
+    simulationResult: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  __resetMachineCacheForTests();
+  mocks.machineDef.findMany.mockResolvedValue([]);
+  mocks.machineDef.create.mockImplementation(async ({ data }) => data);
+  mocks.machineDef.update.mockImplementation(async ({ data }) => data);
+  mocks.transaction.mockImplementation(async (arg: unknown) =>
+    typeof arg === "function"
+      ? (arg as (tx: unknown) => unknown)({ workflowCase: mocks.workflowCase })
+      : Promise.all(arg as unknown[]),
+  );
+});
+
+describe("saveMachineDraft", () => {
+  const input = {
+    authorityProfileId: "ap_1",
+    source: SOURCE,
+    format: "json" as const,
+    userId: "u1",
+  };
+
+  it("creates a DRAFT with the compiled definition and its hash", async () => {
+    await saveMachineDraft(input);
+    expect(mocks.machineDef.create.mock.calls[0][0].data).toMatchObject({
+      authorityProfileId: "ap_1",
+      machineId: "cra-market-surveillance",
+      version: 1,
+      fsmId: "cra-market-surveillance-v1",
+      definitionHash: hash,
+      createdBy: "u1",
+    });
+  });
+
+  it("rejects invalid definitions with the validator issues", async () => {
+    const broken = SOURCE.replace('"target":"Escalated"', '"target":"Gone"');
+    const err = await saveMachineDraft({ ...input, source: broken }).catch(
+      (e) => e,
+    );
+    expect(err).toBeInstanceOf(MachineDefError);
+    expect(err.code).toBe("INVALID");
+    expect(err.issues.map((i: { code: string }) => i.code)).toContain(
+      "unknown-state",
+    );
+  });
+
+  it("refuses published versions, older versions and foreign machine ids", async () => {
+    mocks.machineDef.findMany.mockResolvedValueOnce([
+      { id: "md_0", version: 1, status: "LIVE", authorityProfileId: "ap_1" },
+    ]);
+    await expect(saveMachineDraft(input)).rejects.toThrow(/Version erhöhen/);
+
+    mocks.machineDef.findMany.mockResolvedValueOnce([
+      { id: "md_0", version: 1, status: "DRAFT", authorityProfileId: "ap_2" },
+    ]);
+    await expect(saveMachineDraft(input)).rejects.toThrow(/anderen Behörde/);
+  });
+
+  it("overwrites an existing draft and drops its simulation", async () => {
+    mocks.machineDef.findMany.mockResolvedValueOnce([
+      { id: "md_1", version: 1, status: "DRAFT", authorityProfileId: "ap_1" },
+    ]);
+    await saveMachineDraft(input);
+    const call = mocks.machineDef.update.mock.calls[0][0];
+    expect(call.where).toEqual({ id: "md_1" });
+    expect(call.data).toMatchObject({ simulatedHash: null, simulatedAt: null });
+  });
+});
+
+describe("simulate → publish", () => {
+  const script = {
+    steps: [{ event: "MEASURE_PROPOSED" }, { sign: "APPROVED" as const }],
+    expectFinal: "Ordered",
+  };
+
+  it("records the simulated hash for the draft", async () => {
+    mocks.machineDef.findUnique.mockResolvedValue(row());
+    const result = await simulateMachineDraft({
+      id: "md_1",
+      authorityProfileIds: ["ap_1"],
+      script,
+    });
+    expect(result.passed).toBe(true);
+    expect(mocks.machineDef.update.mock.calls[0][0].data).toMatchObject({
+      simulatedHash: hash,
+      simulationResult: expect.objectContaining({ reachedFinal: true }),
+    });
+  });
+
+  it("refuses drafts of other authorities", async () => {
+    mocks.machineDef.findUnique.mockResolvedValue(row());
+    await expect(
+      simulateMachineDraft({
+        id: "md_1",
+        authorityProfileIds: ["ap_2"],
+        script,
+      }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("publishes only after a passing simulation of this definition", async () => {
+    const passed = { passed: true, reachedFinal: true };
+    for (const stale of [
+      row(),
+      row({ simulatedHash: "other", simulationResult: passed }),
+      row({
+        simulatedHash: hash,
+        simulationResult: { passed: true, reachedFinal: false },
+      }),
+    ]) {
+      mocks.machineDef.findUnique.mockResolvedValueOnce(stale);
+      await expect(
+        publishMachine({
+          id: "md_1",
+          authorityProfileIds: ["ap_1"],
+          userId: "u1",
+        }),
+      ).rejects.toMatchObject({ code: "NOT_SIMULATED" });
+    }
+
+    mocks.machineDef.findUnique.mockResolvedValueOnce(
+      row({ simulatedHash: hash, simulationResult: passed }),
+    );
+    await publishMachine({
+      id: "md_1",
+      authorityProfileIds: ["ap_1"],
+      userId: "u1",
+    });
+    expect(mocks.machineDef.updateMany).toHaveBeenCalledWith({
+      where: { machineId: "cra-market-surveillance", status: "LIVE" },
+      data: { status: "SUPERSEDED" },
+    });
+    expect(mocks.machineDef.update.mock.calls[0][0].data).toMatchObject({
+      status: "LIVE",
+      publishedBy: "u1",
+    });
+  });
+});
+
+describe("resolveMachine", () => {
+  it("serves built-ins without a query and never resolves drafts", async () => {
+    expect((await resolveMachine("nis2-incident-v1"))?.builtin).toBe(true);
+    expect(mocks.machineDef.findUnique).not.toHaveBeenCalled();
+
+    mocks.machineDef.findUnique.mockResolvedValueOnce(row());
+    expect(await resolveMachine(def.id)).toBeNull();
+  });
+
+  it("keeps superseded versions for running cases but not for new ones", async () => {
+    mocks.machineDef.findUnique.mockResolvedValue(
+      row({ status: "SUPERSEDED" }),
+    );
+    expect((await resolveMachine(def.id))?.fsm.initialState()).toBe("Opened");
+    expect(await resolveMachine(def.id, { requireLive: true })).toBeNull();
+    await expect(
+      createWorkflowCase({
+        fsmId: def.id,
+        caseRef: "CRA-1",
+        authorityProfileId: "ap_1",
+      }),
+    ).rejects.toThrow(/not available for new cases/);
+  });
+
+  it("starts cases on a LIVE machine only for its own authority", async () => {
+    mocks.machineDef.findUnique.mockResolvedValue(row({ status: "LIVE" }));
+    mocks.workflowCase.create.mockResolvedValue({
+      id: "case_1",
+      currentState: "Opened",
+    });
+    await expect(
+      createWorkflowCase({
+        fsmId: def.id,
+        caseRef: "CRA-1",
+        authorityProfileId: "ap_2",
+      }),
+    ).rejects.toThrow(/not available/);
+    expect(
+      await createWorkflowCase({
+        fsmId: def.id,
+        caseRef: "CRA-1",
+        authorityProfileId: "ap_1",
+      }),
+    ).toEqual({ caseId: "case_1", currentState: "Opened" });
+  });
+});
+
+describe("dispatchEvent signature gate", () => {
+  it("refuses manual dispatch of an approval-gated event", async () => {
+    mocks.workflowCase.findUnique.mockResolvedValue({
+      id: "case_1",
+      fsmId: "eu-space-act-authorisation-v1",
+      caseRef: "EU-1",
+      currentState: "AwaitingApproval",
+      lastTransitionHash: null,
+      closedAt: null,
+    });
+    const r = await dispatchEvent({
+      caseId: "case_1",
+      event: "APPROVED_FINAL",
+      actorUserId: "u1",
+    });
+    expect(r).toEqual({
+      ok: false,
+      reason:
+        "Event 'APPROVED_FINAL' requires AUTHORIZATION_DECISION signatures",
+    });
+  });
+});
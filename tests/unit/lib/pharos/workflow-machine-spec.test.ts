@@ -0,0 +1,341 @@
+/**
+ * Copyright 2026 Julian Polleschner (Caelex Einzelunternehmen). All rights reserved.
+ *
+ * Workflow machine spec tests — JSON/YAML parsing, the validator's graph
+ * and deadline rules (also over the built-in machines), and scripted
+ * simulation with the virtual clock.
+ *
+ * SPDX-License-Identifier: LicenseRef-Caelex-Proprietary
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+import {
+  EU_SPACE_ACT_AUTH_FSM_DEF,
+  NIS2_INCIDENT_FSM_DEF,
+} from "@/lib/pharos/workflow-fsm";
+import {
+  loadMachineSource,
+  machineDefHash,
+  parseIsoDuration,
+  simulateMachine,
+  validateMachineDef,
+  type AuthoredMachineDef,
+} from "@/lib/pharos/workflow-machine-spec";
+
+const YAML_SOURCE = `
+id: spectrum-coordination
+version: 2
+title: Frequenzkoordination
+initial: Filed
+states:
+  Filed:
+    label: Antrag eingegangen
+    after: { duration: P30D, target: Lapsed, reason: 30 Tage ohne Vorprüfung }
+    on: { ACCEPT: Coordination, WITHDRAW: Withdrawn }
+  Coordination:
+    label: Koordinierung
+    signatures: { approvalKind: GENERIC, onApproved: GRANT, onRejected: DENY }
+    on: { GRANT: Granted, DENY: Denied }
+  Granted: { label: Zugeteilt, final: true }
+  Denied: { label: Abgelehnt, final: true }
+  Lapsed: { label: Verfallen, final: true }
+  Withdrawn: { label: Zurückgezogen, final: true }
+`;
+
+function machine(): AuthoredMachineDef {
+  const { def, issues } = loadMachineSource(YAML_SOURCE, "yaml");
+  expect(issues).toEqual([]);
+  return def!;
+}
+
+function codes(def: AuthoredMachineDef): string[] {
+  return validateMachineDef(def).map((i) => `${i.code}:${i.path}`);
+}
+
+describe("loadMachineSource", () => {
+  it("compiles YAML into a MachineDef with ms deadlines and a versioned fsmId", () => {
+    const def = machine();
+    expect(def.id).toBe("spectrum-coordination-v2");
+    expect(def.title).toBe("Frequenzkoordination");
+    expect(def.states.Filed.after).toEqual({
+      afterMs: 30 * 24 * 3600_000,
+      target: "Lapsed",
+      reason: "30 Tage ohne Vorprüfung",
+    });
+    expect(def.states.Coordination.signatures?.approvalKind).toBe("GENERIC");
+  });
+
+  it("accepts the same machine as JSON with an identical hash", () => {
+    const spec = {
+      id: "spectrum-coordination",
+      version: 2,
+      title: "Frequenzkoordination",
+      initial: "Filed",
+      states: machine().states,
+    };
+    // JSON carries durations, not ms.
+    const json = JSON.stringify({
+      ...spec,
+      states: {
+        ...spec.states,
+        Filed: {
+          label: "Antrag eingegangen",
+          after: {
+            duration: "P30D",
+            target: "Lapsed",
+            reason: "30 Tage ohne Vorprüfung",
+          },
+          on: { ACCEPT: "Coordination", WITHDRAW: "Withdrawn" },
+        },
+      },
+    });
+    const { def, issues } = loadMachineSource(json, "json");
+    expect(issues).toEqual([]);
+    expect(machineDefHash(def!)).toBe(machineDefHash(machine()));
+  });
+
+  it("reports parse, schema, naming and duration problems", () => {
+    expect(loadMachineSource("{", "json").issues[0].code).toBe("parse-error");
+    expect(
+      loadMachineSource(
+        YAML_SOURCE.replace("title:", "titel:"),
+        "yaml",
+      ).issues.map((i) => i.code),
+    ).toContain("schema");
+
+    const broken = YAML_SOURCE.replace(
+      "id: spectrum-coordination",
+      "id: spectrum-v2",
+    )
+      .replace("duration: P30D", "duration: P1M")
+      .replace(
+        "ACCEPT: Coordination",
+        "_AFTER: Coordination, accept: Coordination",
+      );
+    const { def, issues } = loadMachineSource(broken, "yaml");
+    expect(def).toBeNull();
+    expect(issues.map((i) => `${i.code}:${i.path}`)).toEqual(
+      expect.arrayContaining([
+        "invalid-name:id",
+        "invalid-duration:states.Filed.after.duration",
+        "reserved-event:states.Filed.on._AFTER",
+        "invalid-name:states.Filed.on.accept",
+      ]),
+    );
+  });
+});
+
+describe("validateMachineDef", () => {
+  it("passes both built-in machines", () => {
+    expect(validateMachineDef(NIS2_INCIDENT_FSM_DEF)).toEqual([]);
+    expect(validateMachineDef(EU_SPACE_ACT_AUTH_FSM_DEF)).toEqual([]);
+  });
+
+  it("flags unreachable states, dead ends and traps", () => {
+    const def = machine();
+    def.states.Orphan = {
+      label: "x",
+      noDeadline: "n/a",
+      on: { GO: "Granted" },
+    };
+    def.states.Stuck = { label: "x", noDeadline: "n/a" };
+    def.states.Loop = { label: "x", noDeadline: "n/a", on: { AGAIN: "Loop" } };
+    def.states.Granted = {
+      label: "x",
+      noDeadline: "n/a",
+      on: { NEXT: "Stuck" },
+    };
+    def.states.Filed.on = { ...def.states.Filed.on, SPIN: "Loop" };
+
+    expect(codes(def)).toEqual(
+      expect.arrayContaining([
+        "unreachable-state:states.Orphan",
+        "dead-end:states.Stuck",
+        "no-path-to-final:states.Loop",
+        "no-path-to-final:states.Granted",
+      ]),
+    );
+  });
+
+  it("requires a deadline or an explicit noDeadline on non-final states", () => {
+    const def = machine();
+    delete def.states.Filed.after;
+    def.states.Coordination.signatures = {
+      approvalKind: "GENERIC",
+      onApproved: "GRANT",
+    };
+    def.states.Granted = {
+      label: "x",
+      final: true,
+      noDeadline: "irrelevant",
+    };
+    expect(codes(def)).toEqual([
+      "missing-deadline:states.Filed",
+      "missing-deadline:states.Coordination",
+      "unreachable-state:states.Lapsed",
+    ]);
+
+    def.states.Filed.noDeadline = "Eingang ohne Frist";
+    def.states.Filed.after = {
+      afterMs: 1000,
+      target: "Lapsed",
+      reason: "x",
+    };
+    expect(codes(def)).toContain(
+      "conflicting-deadline:states.Filed.noDeadline",
+    );
+  });
+
+  it("checks targets, signature gates and final states", () => {
+    const def = machine();
+    def.states.Filed.on = { ACCEPT: "Nowhere" };
+    def.states.Coordination.signatures = {
+      approvalKind: "ROYAL_DECREE" as never,
+      onApproved: "GRANT",
+      onRejected: "VETO",
+    };
+    def.states.Denied = { label: "x", final: true, on: { REOPEN: "Filed" } };
+
+    expect(codes(def)).toEqual(
+      expect.arrayContaining([
+        "unknown-state:states.Filed.on.ACCEPT",
+        "unknown-approval-kind:states.Coordination.signatures.approvalKind",
+        "signature-event-missing:states.Coordination.signatures.onRejected",
+        "final-has-transitions:states.Denied",
+      ]),
+    );
+
+    const noFinal: AuthoredMachineDef = {
+      id: "x-v1",
+      initial: "A",
+      states: { A: { label: "A", noDeadline: "n/a", on: { GO: "A" } } },
+    };
+    expect(codes(noFinal)).toContain("no-final-state:states");
+  });
+});
+
+describe("parseIsoDuration", () => {
+  it("parses fixed units and rejects calendar units and empty durations", () => {
+    expect(parseIsoDuration("PT24H")).toBe(24 * 3600_000);
+    expect(parseIsoDuration("P1W2DT30M")).toBe((9 * 24 * 60 + 30) * 60_000);
+    for (const bad of ["P", "PT", "P1M", "P1Y", "24h", "P0D"]) {
+      expect(parseIsoDuration(bad)).toBeNull();
+    }
+  });
+});
+
+describe("simulateMachine", () => {
+  it("runs events, deadlines and signatures on a virtual clock", () => {
+    const result = simulateMachine(machine(), {
+      steps: [
+        { advance: "P29D", expect: "Filed" },
+        { event: "ACCEPT", expect: "Coordination" },
+        { sign: "APPROVED" },
+      ],
+      expectFinal: "Granted",
+    });
+    expect(result).toMatchObject({
+      passed: true,
+      reachedFinal: true,
+      finalState: "Granted",
+      failure: null,
+    });
+    expect(result.trace.map((t) => [t.from, t.to, t.event])).toEqual([
+      ["Filed", "Coordination", "ACCEPT"],
+      ["Coordination", "Granted", "GRANT"],
+    ]);
+    expect(result.trace[0].atMs).toBe(29 * 24 * 3600_000);
+  });
+
+  it("fires the after-trigger at its due time and approval expiry via onRejected", () => {
+    const lapsed = simulateMachine(machine(), {
+      steps: [{ advance: "P45D" }],
+    });
+    expect(lapsed.trace).toEqual([
+      {
+        step: 0,
+        atMs: 30 * 24 * 3600_000,
+        from: "Filed",
+        to: "Lapsed",
+        event: "_AFTER",
+        reason: "30 Tage ohne Vorprüfung",
+      },
+    ]);
+
+    // GENERIC approvals expire after 168h.
+    const expired = simulateMachine(machine(), {
+      steps: [{ event: "ACCEPT" }, { advance: "P8D", expect: "Denied" }],
+    });
+    expect(expired.passed).toBe(true);
+    expect(expired.trace[1]).toMatchObject({
+      event: "DENY",
+      atMs: 168 * 3600_000,
+    });
+  });
+
+  it("refuses signature-gated events dispatched manually", () => {
+    const result = simulateMachine(machine(), {
+      steps: [{ event: "ACCEPT" }, { event: "GRANT" }],
+    });
+    expect(result.passed).toBe(false);
+    expect(result.failure).toEqual({
+      step: 1,
+      message: expect.stringMatching(/signaturpflichtig/),
+    });
+    expect(result.finalState).toBe("Coordination");
+  });
+
+  it("stops at the first failed expectation or invalid step", () => {
+    expect(
+      simulateMachine(machine(), {
+        steps: [{ event: "ACCEPT", expect: "Granted" }, { sign: "APPROVED" }],
+      }).failure,
+    ).toEqual({
+      step: 0,
+      message: 'Erwartet "Granted", tatsächlich "Coordination"',
+    });
+    expect(
+      simulateMachine(machine(), { steps: [{ sign: "APPROVED" }] }).failure
+        ?.message,
+    ).toMatch(/kein Signatur-Gate/);
+    expect(
+      simulateMachine(machine(), {
+        steps: [{ event: "WITHDRAW" }, { event: "ACCEPT" }],
+      }).failure?.message,
+    ).toMatch(/bereits in Final-State/);
+
+    const unfinished = simulateMachine(machine(), {
+      steps: [{ event: "ACCEPT" }],
+      expectFinal: "Granted",
+    });
+    expect(unfinished).toMatchObject({ passed: false, reachedFinal: false });
+    expect(unfinished.failure?.step).toBeNull();
+  });
+
+  it("replays the NIS2 breach path of the built-in machine", () => {
+    const result = simulateMachine(NIS2_INCIDENT_FSM_DEF, {
+      steps: [
+        { advance: "PT25H", expect: "Breached24h" },
+        { event: "EARLY_WARNING_RECEIVED", expect: "AwaitingNotification" },
+        { advance: "P4D", expect: "Breached72h" },
+        { event: "BREACH_ACKNOWLEDGED" },
+      ],
+      expectFinal: "Closed",
+    });
+    expect(result.passed).toBe(true);
+    expect(result.visitedStates).toEqual([
+      "AwaitingEarlyWarning",
+      "Breached24h",
+      "AwaitingNotification",
+      "Breached72h",
+      "Closed",
+    ]);
+  });
+});
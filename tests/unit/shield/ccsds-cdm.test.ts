@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import {
+  CCSDSCdmError,
+  buildCcsdsCdm,
+  detectCcsdsFormat,
+  mapCcsdsCDMToParsed,
+  parseCcsdsCdmFile,
+  parseCcsdsCdms,
+  parseCcsdsEpoch,
+  serializeCcsdsCdmKvn,
+  serializeCcsdsCdmXml,
+} from "@/lib/shield/ccsds-cdm.server";
+import { COVARIANCE_KEYWORDS } from "@/lib/shield/types";
+
+function covarianceLines(scale: number): string {
+  return COVARIANCE_KEYWORDS.map(
+    (k, i) => `${k} = ${(i + 1) * scale} [m**2]`,
+  ).join("\n");
+}
+
+const SAMPLE_KVN = `CCSDS_CDM_VERS = 1.0
+COMMENT Sample from own SSA provider
+CREATION_DATE = 2026-03-09T10:30:00.000
+ORIGINATOR = SSA-PROVIDER
+MESSAGE_ID = 201113719185
+TCA = 2026-03-12T14:22:33.123
+MISS_DISTANCE = 715 [m]
+RELATIVE_SPEED = 14762 [m/s]
+COLLISION_PROBABILITY = 4.835E-05
+COLLISION_PROBABILITY_METHOD = FOSTER-1992
+OBJECT = OBJECT1
+OBJECT_DESIGNATOR = 55001
+CATALOG_NAME = SATCAT
+OBJECT_NAME = CAELEX-SAT-1
+INTERNATIONAL_DESIGNATOR = 2024-001A
+OBJECT_TYPE = PAYLOAD
+EPHEMERIS_NAME = NONE
+COVARIANCE_METHOD = CALCULATED
+MANEUVERABLE = YES
+REF_FRAME = EME2000
+X = 2570.097065 [km]
+Y = 2244.654904 [km]
+Z = 6281.497978 [km]
+X_DOT = 4.418769571 [km/s]
+Y_DOT = 4.833547743 [km/s]
+Z_DOT = -3.526774282 [km/s]
+${covarianceLines(1)}
+OBJECT = OBJECT2
+OBJECT_DESIGNATOR = 30337
+CATALOG_NAME = SATCAT
+OBJECT_NAME = FENGYUN 1C DEB
+INTERNATIONAL_DESIGNATOR = 1999-025AA
+OBJECT_TYPE = DEBRIS
+EPHEMERIS_NAME = NONE
+COVARIANCE_METHOD = CALCULATED
+MANEUVERABLE = NO
+REF_FRAME = EME2000
+X = 2569.540800 [km]
+Y = 2245.093614 [km]
+Z = 6281.599946 [km]
+X_DOT = -2.888612500 [km/s]
+Y_DOT = -6.007247516 [km/s]
+Z_DOT = 3.328770172 [km/s]
+${covarianceLines(10)}
+`;
+
+describe("parseCcsdsEpoch", () => {
+  it("parses calendar epochs as UTC", () => {
+    expect(parseCcsdsEpoch("2026-03-12T14:22:33.123").toISOString()).toBe(
+      "2026-03-12T14:22:33.123Z",
+    );
+  });
+
+  it("parses day-of-year epochs", () => {
+    expect(parseCcsdsEpoch("2026-071T14:22:33").toISOString()).toBe(
+      "2026-03-12T14:22:33.000Z",
+    );
+  });
+
+  it("rejects garbage", () => {
+    expect(() => parseCcsdsEpoch("yesterday")).toThrow(CCSDSCdmError);
+  });
+});
+
+describe("detectCcsdsFormat", () => {
+  it("detects KVN and XML", () => {
+    expect(detectCcsdsFormat(SAMPLE_KVN)).toBe("KVN");
+    expect(detectCcsdsFormat('<?xml version="1.0"?><cdm/>')).toBe("XML");
+  });
+
+  it("rejects other content", () => {
+    expect(() => detectCcsdsFormat("hello")).toThrow(/neither/);
+  });
+});
+
+describe("parseCcsdsCdms (KVN)", () => {
+  it("parses header, relative metadata and both objects", () => {
+    const [cdm] = parseCcsdsCdms(SAMPLE_KVN);
+    expect(cdm!.messageId).toBe("201113719185");
+    expect(cdm!.originator).toBe("SSA-PROVIDER");
+    expect(cdm!.missDistanceMeters).toBe(715);
+    expect(cdm!.relativeSpeedMs).toBe(14762);
+    expect(cdm!.collisionProbability).toBeCloseTo(4.835e-5);
+    expect(cdm!.objects[0].designator).toBe("55001");
+    expect(cdm!.objects[1].objectType).toBe("DEBRIS");
+    expect(cdm!.objects[0].stateVector.zDot).toBeCloseTo(-3.526774282);
+    expect(cdm!.objects[1].covariance.CNDOT_NDOT).toBe(210);
+  });
+
+  it("splits concatenated messages", () => {
+    const second = SAMPLE_KVN.replace("201113719185", "201113719186");
+    expect(parseCcsdsCdms(SAMPLE_KVN + second)).toHaveLength(2);
+  });
+
+  it("fails on a missing mandatory covariance term", () => {
+    const broken = SAMPLE_KVN.replace(/^CT_T = 3 \[m\*\*2\]$/m, "");
+    expect(() => parseCcsdsCdms(broken)).toThrow(/CT_T/);
+  });
+});
+
+describe("mapCcsdsCDMToParsed", () => {
+  it("maps to ParsedCDM with covariance and namespaced ID", () => {
+    const [parsed] = parseCcsdsCdmFile(SAMPLE_KVN);
+    expect(parsed!.cdmId).toBe("ccsds-SSA-PROVIDER-201113719185");
+    expect(parsed!.sat1NoradId).toBe("55001");
+    expect(parsed!.sat2NoradId).toBe("30337");
+    expect(parsed!.sat2Maneuverable).toBe("NO");
+    expect(parsed!.probabilityMethod).toBe("FOSTER-1992");
+    expect(parsed!.sat1Covariance!.CR_R).toBe(1);
+    expect(parsed!.sat2StateVector!.refFrame).toBe("EME2000");
+  });
+
+  it("leaves the provider Pc null when COLLISION_PROBABILITY is absent", () => {
+    const [cdm] = parseCcsdsCdms(
+      SAMPLE_KVN.replace(/^COLLISION_PROBABILITY.*$/gm, ""),
+    );
+    expect(cdm!.collisionProbability).toBeNull();
+
+    const parsed = mapCcsdsCDMToParsed(cdm!);
+    expect(parsed.collisionProbability).toBeNull();
+    expect(parsed.probabilityMethod).toBeNull();
+    expect(parsed.sat1Covariance).not.toBeNull();
+    expect(parsed.rawCdm).toMatchObject({ COLLISION_PROBABILITY: null });
+  });
+});
+
+describe("serialization round trip", () => {
+  it("KVN → KVN preserves content", () => {
+    const [cdm] = parseCcsdsCdms(SAMPLE_KVN);
+    const [again] = parseCcsdsCdms(serializeCcsdsCdmKvn(cdm!));
+    expect(again).toEqual(cdm);
+  });
+
+  it("KVN → XML → parsed preserves content", () => {
+    const [cdm] = parseCcsdsCdms(SAMPLE_KVN);
+    const xml = serializeCcsdsCdmXml(cdm!);
+    expect(xml).toContain('<MISS_DISTANCE units="m">715</MISS_DISTANCE>');
+    expect(xml).toContain('<CR_R units="m**2">');
+    const [again] = parseCcsdsCdms(xml);
+    expect(again).toEqual(cdm);
+  });
+
+  it("escapes XML special characters in names", () => {
+    const [cdm] = parseCcsdsCdms(SAMPLE_KVN);
+    cdm!.objects[1].name = "A&B <DEB>";
+    const xml = serializeCcsdsCdmXml(cdm!);
+    expect(xml).toContain("A&amp;B &lt;DEB&gt;");
+    expect(parseCcsdsCdms(xml)[0]!.objects[1].name).toBe("A&B <DEB>");
+  });
+});
+
+describe("buildCcsdsCdm", () => {
+  const [parsed] = parseCcsdsCdmFile(SAMPLE_KVN);
+  const record = {
+    tca: parsed!.tca,
+    missDistance: parsed!.missDistanceMeters,
+    relativeSpeed: parsed!.relativeSpeedMs,
+    collisionProbability: parsed!.collisionProbability,
+    probabilityMethod: parsed!.probabilityMethod,
+    sat1StateVector: parsed!.sat1StateVector,
+    sat1Covariance: parsed!.sat1Covariance,
+    sat2StateVector: parsed!.sat2StateVector,
+    sat2Covariance: parsed!.sat2Covariance,
+    sat2Maneuverable: parsed!.sat2Maneuverable,
+    rawCdm: parsed!.rawCdm,
+  };
+
+  it("puts our spacecraft first and swaps stored state when needed", () => {
+    const cdm = buildCcsdsCdm({
+      messageId: "X-1",
+      originator: "CAELEX",
+      creationDate: new Date("2026-03-10T00:00:00Z"),
+      record,
+      primary: {
+        noradId: "30337",
+        name: "OURS",
+        objectType: "PAYLOAD",
+      },
+      secondary: {
+        noradId: "55001",
+        name: "THEIRS",
+        objectType: "PAYLOAD",
+      },
+    });
+    expect(cdm.objects[0].designator).toBe("30337");
+    expect(cdm.objects[0].covariance.CR_R).toBe(10);
+    expect(cdm.objects[1].covariance.CR_R).toBe(1);
+  });
+
+  it("swaps maneuverability along with the state", () => {
+    // The sample lists the threat (55001, MANEUVERABLE = YES) as OBJECT1
+    // and our spacecraft (30337, MANEUVERABLE = NO) as OBJECT2
+    const cdm = buildCcsdsCdm({
+      messageId: "X-3",
+      originator: "CAELEX",
+      creationDate: new Date("2026-03-10T00:00:00Z"),
+      record,
+      primary: { noradId: "30337", name: "OURS", objectType: "PAYLOAD" },
+      secondary: { noradId: "55001", name: "THEIRS", objectType: "PAYLOAD" },
+    });
+    expect(cdm.objects[0].maneuverable).toBe("NO");
+    expect(cdm.objects[1].maneuverable).toBe("YES");
+  });
+
+  it("keeps stored order and reports unknown maneuverability as N/A", () => {
+    const cdm = buildCcsdsCdm({
+      messageId: "X-4",
+      originator: "CAELEX",
+      creationDate: new Date("2026-03-10T00:00:00Z"),
+      record: {
+        ...record,
+        sat2Maneuverable: null,
+        rawCdm: { SAT_1_ID: "55001" },
+      },
+      primary: { noradId: "55001", name: "OURS", objectType: "PAYLOAD" },
+      secondary: { noradId: "30337", name: "THEIRS", objectType: "DEBRIS" },
+    });
+    expect(cdm.objects[0].covariance.CR_R).toBe(1);
+    expect(cdm.objects[0].maneuverable).toBe("N/A");
+    expect(cdm.objects[1].maneuverable).toBe("N/A");
+  });
+
+  it("refuses to export records without covariance", () => {
+    expect(() =>
+      buildCcsdsCdm({
+        messageId: "X-2",
+        originator: "CAELEX",
+        creationDate: new Date(),
+        record: { ...record, sat2Covariance: null, rawCdm: {} },
+        primary: {
+          noradId: "55001",
+          name: null,
+          objectType: "PAYLOAD",
+        },
+        secondary: {
+          noradId: "30337",
+          name: null,
+          objectType: "DEBRIS",
+        },
+      }),
+    ).toThrow(/covariance/);
+  });
+});
@@ -88,3 +88,23 @@ describe("mergeCDMs", () => {
     expect(result.length).toBe(2);
   });
 });
+
+describe("mergeCDMs with CCSDS imports", () => {
+  it("places CCSDS CDMs ahead of LeoLabs and Space-Track for the same conjunction", () => {
+    const st = [makeCDM({ cdmId: "st-1" })];
+    const ll = [makeCDM({ cdmId: "leolabs-1" })];
+    const cc = [makeCDM({ cdmId: "ccsds-EUSST-1" })];
+    const result = mergeCDMs(st, ll, cc);
+    expect(result.map((c) => c.cdmId)).toEqual([
+      "ccsds-EUSST-1",
+      "leolabs-1",
+      "st-1",
+    ]);
+  });
+
+  it("keeps the two-source behaviour when no CCSDS CDMs are given", () => {
+    const st = [makeCDM({ cdmId: "st-1", sat2NoradId: "99001" })];
+    const ll = [makeCDM({ cdmId: "leolabs-1", sat2NoradId: "99002" })];
+    expect(mergeCDMs(st, ll)).toEqual(mergeCDMs(st, ll, []));
+  });
+});
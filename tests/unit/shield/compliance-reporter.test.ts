@@ -204,4 +204,74 @@ describe("buildCAReportSections", () => {
     ]);
     expect(table!.rows).toHaveLength(1);
   });
+
+  it("inserts the maneuver plan section and flags secondary conjunctions", () => {
+    const maneuverPlan = {
+      source: "planner",
+      direction: "+ALONG_TRACK",
+      deltaV: 0.05,
+      burnTime: "2026-03-15T05:30:00.000Z",
+      fuelConsumptionKg: 0.012,
+      baselinePc: 3.5e-5,
+      targetPc: 1e-5,
+      primary: {
+        label: "COSMOS 2251 DEB (99887)",
+        affected: true,
+        baselinePc: 3.5e-5,
+        postPc: 2e-8,
+        postMissDistanceM: 1800,
+      },
+      secondaries: [
+        {
+          label: "FENGYUN 1C DEB (31000)",
+          affected: true,
+          baselinePc: 1e-9,
+          postPc: 4e-4,
+          postMissDistanceM: 40,
+        },
+      ],
+      clearsPrimary: true,
+      createsSecondaryConjunction: true,
+      flags: [
+        "Creates secondary conjunction with FENGYUN 1C DEB (31000): Pc 1.00e-9 → 4.00e-4",
+      ],
+      unscreened: [],
+      selectedBy: "ops@example.com",
+    };
+    const sections = buildCAReportSections(
+      { ...baseEvent, maneuverPlan },
+      baseCdms,
+      baseEscalationLog,
+    );
+    expect(sections).toHaveLength(6);
+    expect(sections[3].title).toBe(
+      "4. Maneuver Plan & Post-Maneuver Screening",
+    );
+    expect(sections[4].title).toBe("5. Escalation History");
+    expect(sections[5].title).toBe("6. Compliance Note");
+
+    const warning = sections[3].content[0] as { type: string; value: string };
+    expect(warning.type).toBe("text");
+    expect(warning.value).toContain("WARNING");
+    expect(warning.value).toContain("FENGYUN 1C DEB");
+
+    const table = sections[3].content.find(
+      (b: Record<string, unknown>) => b.type === "table",
+    ) as { rows: string[][] } | undefined;
+    expect(table!.rows[0]).toEqual([
+      "FENGYUN 1C DEB (31000)",
+      "1.00e-9",
+      "4.00e-4",
+      "40.0",
+    ]);
+  });
+
+  it("ignores maneuver plans not produced by the planner", () => {
+    const sections = buildCAReportSections(
+      { ...baseEvent, maneuverPlan: { deltaV: 0.1 } },
+      baseCdms,
+      baseEscalationLog,
+    );
+    expect(sections).toHaveLength(5);
+  });
 });
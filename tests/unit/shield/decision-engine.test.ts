@@ -319,3 +319,115 @@ describe("computeDecisionFactors", () => {
     vi.useRealTimers();
   });
 });
+
+describe("computeDecisionFactors — independent Pc", () => {
+  const sv1 = {
+    refFrame: "EME2000",
+    x: 6928,
+    y: 0,
+    z: 0,
+    xDot: 0,
+    yDot: 7.585,
+    zDot: 0,
+  };
+  const sv2 = { ...sv1, x: 6928.1, yDot: 0, zDot: 7.585 };
+  const cov = Object.fromEntries(
+    [
+      "CR_R",
+      "CT_R",
+      "CT_T",
+      "CN_R",
+      "CN_T",
+      "CN_N",
+      "CRDOT_R",
+      "CRDOT_T",
+      "CRDOT_N",
+      "CRDOT_RDOT",
+      "CTDOT_R",
+      "CTDOT_T",
+      "CTDOT_N",
+      "CTDOT_RDOT",
+      "CTDOT_TDOT",
+      "CNDOT_R",
+      "CNDOT_T",
+      "CNDOT_N",
+      "CNDOT_RDOT",
+      "CNDOT_TDOT",
+      "CNDOT_NDOT",
+    ].map((k) => [k, k === "CR_R" || k === "CT_T" || k === "CN_N" ? 1e4 : 0]),
+  );
+
+  const cdm = (pc: number | null) => ({
+    collisionProbability: pc,
+    missDistance: 100,
+    creationDate: new Date("2026-03-10T00:00:00Z"),
+    tca: new Date(Date.now() + 96 * 3600 * 1000),
+    sat1StateVector: sv1,
+    sat1Covariance: cov,
+    sat2StateVector: sv2,
+    sat2Covariance: cov,
+  });
+
+  it("is null when CDMs carry no covariance", () => {
+    const result = computeDecisionFactors(
+      { tca: new Date(Date.now() + 96 * 3600 * 1000), riskTier: "HIGH" },
+      [
+        {
+          collisionProbability: 1e-4,
+          missDistance: 100,
+          creationDate: new Date(),
+          tca: new Date(Date.now() + 96 * 3600 * 1000),
+        },
+      ],
+    );
+    expect(result.independentPc).toBeNull();
+  });
+
+  it("computes Shield's own Pc and records it in the trend history", () => {
+    const result = computeDecisionFactors(
+      { tca: new Date(Date.now() + 96 * 3600 * 1000), riskTier: "HIGH" },
+      [cdm(1e-3)],
+      { hardBodyRadiusM: 15 },
+    );
+    expect(result.independentPc!.computation.hardBodyRadiusM).toBe(15);
+    expect(result.pcTrend.history[0]!.computedPc).toBe(
+      result.independentPc!.computation.pc,
+    );
+  });
+
+  it("recomputes Pc only for the latest CDM", () => {
+    const earlier = {
+      ...cdm(1e-3),
+      creationDate: new Date("2026-03-09T00:00:00Z"),
+    };
+    const result = computeDecisionFactors(
+      { tca: new Date(Date.now() + 96 * 3600 * 1000), riskTier: "HIGH" },
+      [cdm(1e-3), earlier],
+    );
+    expect(result.pcTrend.history.map((h) => h.computedPc)).toEqual([
+      null,
+      result.independentPc!.computation.pc,
+    ]);
+  });
+
+  it("recommends verifying a suspicious provider Pc", () => {
+    const result = computeDecisionFactors(
+      { tca: new Date(Date.now() + 96 * 3600 * 1000), riskTier: "HIGH" },
+      [cdm(1e-9)],
+    );
+    expect(result.independentPc!.crossCheck!.suspicious).toBe(true);
+    expect(result.recommendation).toMatch(/Verify the CDM/);
+  });
+
+  it("labels Shield's Pc and skips the cross-check without a provider Pc", () => {
+    const result = computeDecisionFactors(
+      { tca: new Date(Date.now() + 96 * 3600 * 1000), riskTier: "HIGH" },
+      [cdm(null)],
+    );
+    expect(result.independentPc!.crossCheck).toBeNull();
+    expect(result.latestPc).toBe(result.independentPc!.computation.pc);
+    expect(result.latestPcSource).toBe("SHIELD");
+    expect(result.peakPc).toBe(result.latestPc);
+    expect(result.recommendation).not.toMatch(/Verify the CDM/);
+  });
+});
@@ -84,4 +84,16 @@ describe("analyzePcTrend", () => {
     expect(trend.dataPoints).toBe(2);
     expect(trend.confidence).toBe(1);
   });
+
+  it("fits Shield's Pc where the provider sent none", () => {
+    const [first, second, third] = makeCDMs([1e-7, 1e-6, 1e-5]);
+    const trend = analyzePcTrend([
+      first!,
+      { ...second!, collisionProbability: null, computedPc: 1e-6 },
+      { ...third!, collisionProbability: null },
+    ]);
+    expect(trend.history.map((h) => h.pc)).toEqual([1e-7, null, null]);
+    expect(trend.dataPoints).toBe(2);
+    expect(trend.direction).toBe("INCREASING");
+  });
 });